@@ -611,12 +611,52 @@ export type MetadataInput = {
   value: Scalars['String']['input'];
 };
 
+/**
+ * Determine the current charge status for the order.
+ *
+ *     An order is considered overcharged when the sum of the
+ *     transactionItem's charge amounts exceeds the value of
+ *     `order.total` - `order.totalGrantedRefund`.
+ *     If the sum of the transactionItem's charge amounts equals
+ *     `order.total` - `order.totalGrantedRefund`, we consider the order to be fully
+ *     charged.
+ *     If the sum of the transactionItem's charge amounts covers a part of the
+ *     `order.total` - `order.totalGrantedRefund`, we treat the order as partially charged.
+ *
+ *     NONE - the funds are not charged.
+ *     PARTIAL - the funds that are charged don't cover the
+ *     `order.total`-`order.totalGrantedRefund`
+ *     FULL - the funds that are charged fully cover the
+ *     `order.total`-`order.totalGrantedRefund`
+ *     OVERCHARGED - the charged funds are bigger than the
+ *     `order.total`-`order.totalGrantedRefund`
+ */
+export type OrderChargeStatusEnum =
+  | 'FULL'
+  | 'NONE'
+  | 'OVERCHARGED'
+  | 'PARTIAL';
+
 export type OrderDirection =
   /** Specifies an ascending sort order. */
   | 'ASC'
   /** Specifies a descending sort order. */
   | 'DESC';
 
+/**
+ * Represents the status of a granted refund.
+ *
+ *     NONE - the refund on related transactionItem is not processed
+ *     PENDING - the refund on related transactionItem is pending
+ *     FULL - the refund on related transactionItem is fully processed
+ *     FAIL - the refund on related transactionItem failed
+ */
+export type OrderGrantedRefundStatusEnum =
+  | 'FAILURE'
+  | 'NONE'
+  | 'PENDING'
+  | 'SUCCESS';
+
 export type OrderNoteAddErrorCode =
   | 'GRAPHQL_ERROR'
   | 'REQUIRED';
@@ -705,7 +745,7 @@ type CalculateTaxesEvent_AttributeValueDeleted_Fragment = { __typename: 'Attribu
 
 type CalculateTaxesEvent_AttributeValueUpdated_Fragment = { __typename: 'AttributeValueUpdated', issuedAt?: string | null, version?: string | null };
 
-type CalculateTaxesEvent_CalculateTaxes_Fragment = { __typename: 'CalculateTaxes', issuedAt?: string | null, version?: string | null, taxBase: { __typename?: 'TaxableObject', pricesEnteredWithTax: boolean, currency: string, channel: { __typename?: 'Channel', slug: string, id: string }, discounts: Array<{ __typename?: 'TaxableObjectDiscount', type: TaxableObjectDiscountTypeEnum, amount: { __typename?: 'Money', amount: number } }>, address?: { __typename?: 'Address', streetAddress1: string, streetAddress2: string, city: string, countryArea: string, postalCode: string, country: { __typename?: 'CountryDisplay', code: string } } | null, shippingPrice: { __typename?: 'Money', amount: number }, lines: Array<{ __typename?: 'TaxableObjectLine', quantity: number, sourceLine: { __typename: 'CheckoutLine', id: string, checkoutProductVariant: { __typename?: 'ProductVariant', id: string, sku?: string | null, product: { __typename?: 'Product', taxClass?: { __typename?: 'TaxClass', id: string, name: string } | null } } } | { __typename: 'OrderLine', id: string, orderProductVariant?: { __typename?: 'ProductVariant', id: string, sku?: string | null, product: { __typename?: 'Product', taxClass?: { __typename?: 'TaxClass', id: string, name: string } | null } } | null }, unitPrice: { __typename?: 'Money', amount: number }, totalPrice: { __typename?: 'Money', amount: number } }>, sourceObject: { __typename: 'Checkout', id: string, avataxEntityCode?: string | null, avataxCustomerCode?: string | null, avataxExemptionStatus?: string | null, avataxShipFromAddress?: string | null, user?: { __typename?: 'User', id: string, email: string, avataxCustomerCode?: string | null } | null } | { __typename: 'Order', id: string, avataxEntityCode?: string | null, avataxCustomerCode?: string | null, avataxExemptionStatus?: string | null, avataxShipFromAddress?: string | null, user?: { __typename?: 'User', id: string, email: string, avataxCustomerCode?: string | null } | null } }, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+type CalculateTaxesEvent_CalculateTaxes_Fragment = { __typename: 'CalculateTaxes', issuedAt?: string | null, version?: string | null, taxBase: { __typename?: 'TaxableObject', pricesEnteredWithTax: boolean, currency: string, channel: { __typename?: 'Channel', slug: string, id: string }, discounts: Array<{ __typename?: 'TaxableObjectDiscount', type: TaxableObjectDiscountTypeEnum, amount: { __typename?: 'Money', amount: number } }>, address?: { __typename?: 'Address', streetAddress1: string, streetAddress2: string, city: string, countryArea: string, postalCode: string, country: { __typename?: 'CountryDisplay', code: string } } | null, shippingPrice: { __typename?: 'Money', amount: number }, lines: Array<{ __typename?: 'TaxableObjectLine', quantity: number, sourceLine: { __typename: 'CheckoutLine', id: string, checkoutProductVariant: { __typename?: 'ProductVariant', id: string, sku?: string | null, product: { __typename?: 'Product', taxClass?: { __typename?: 'TaxClass', id: string, name: string } | null } } } | { __typename: 'OrderLine', id: string, orderProductVariant?: { __typename?: 'ProductVariant', id: string, sku?: string | null, product: { __typename?: 'Product', taxClass?: { __typename?: 'TaxClass', id: string, name: string } | null } } | null }, unitPrice: { __typename?: 'Money', amount: number }, totalPrice: { __typename?: 'Money', amount: number } }>, sourceObject: { __typename: 'Checkout', id: string, avataxEntityCode?: string | null, avataxCustomerCode?: string | null, avataxExemptionStatus?: string | null, avataxShipFromAddress?: string | null, avataxFallbackTaxCalculation?: string | null, user?: { __typename?: 'User', id: string, email: string, avataxCustomerCode?: string | null } | null } | { __typename: 'Order', id: string, avataxEntityCode?: string | null, avataxCustomerCode?: string | null, avataxExemptionStatus?: string | null, avataxShipFromAddress?: string | null, avataxFallbackTaxCalculation?: string | null, user?: { __typename?: 'User', id: string, email: string, avataxCustomerCode?: string | null } | null } }, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
 
 type CalculateTaxesEvent_CategoryCreated_Fragment = { __typename: 'CategoryCreated', issuedAt?: string | null, version?: string | null };
 
@@ -993,11 +1033,13 @@ export type ChannelFragment = { __typename?: 'Channel', id: string, name: string
 
 export type MetadataItemFragment = { __typename?: 'MetadataItem', key: string, value: string };
 
+export type OrderCommitSubscriptionFragment = { __typename?: 'Order', id: string, avataxId?: string | null, channel: { __typename?: 'Channel', id: string, slug: string } };
+
 export type TaxBaseLineFragment = { __typename?: 'TaxableObjectLine', quantity: number, sourceLine: { __typename: 'CheckoutLine', id: string, checkoutProductVariant: { __typename?: 'ProductVariant', id: string, sku?: string | null, product: { __typename?: 'Product', taxClass?: { __typename?: 'TaxClass', id: string, name: string } | null } } } | { __typename: 'OrderLine', id: string, orderProductVariant?: { __typename?: 'ProductVariant', id: string, sku?: string | null, product: { __typename?: 'Product', taxClass?: { __typename?: 'TaxClass', id: string, name: string } | null } } | null }, unitPrice: { __typename?: 'Money', amount: number }, totalPrice: { __typename?: 'Money', amount: number } };
 
 export type TaxDiscountFragment = { __typename?: 'TaxableObjectDiscount', type: TaxableObjectDiscountTypeEnum, amount: { __typename?: 'Money', amount: number } };
 
-export type TaxBaseFragment = { __typename?: 'TaxableObject', pricesEnteredWithTax: boolean, currency: string, channel: { __typename?: 'Channel', slug: string, id: string }, discounts: Array<{ __typename?: 'TaxableObjectDiscount', type: TaxableObjectDiscountTypeEnum, amount: { __typename?: 'Money', amount: number } }>, address?: { __typename?: 'Address', streetAddress1: string, streetAddress2: string, city: string, countryArea: string, postalCode: string, country: { __typename?: 'CountryDisplay', code: string } } | null, shippingPrice: { __typename?: 'Money', amount: number }, lines: Array<{ __typename?: 'TaxableObjectLine', quantity: number, sourceLine: { __typename: 'CheckoutLine', id: string, checkoutProductVariant: { __typename?: 'ProductVariant', id: string, sku?: string | null, product: { __typename?: 'Product', taxClass?: { __typename?: 'TaxClass', id: string, name: string } | null } } } | { __typename: 'OrderLine', id: string, orderProductVariant?: { __typename?: 'ProductVariant', id: string, sku?: string | null, product: { __typename?: 'Product', taxClass?: { __typename?: 'TaxClass', id: string, name: string } | null } } | null }, unitPrice: { __typename?: 'Money', amount: number }, totalPrice: { __typename?: 'Money', amount: number } }>, sourceObject: { __typename: 'Checkout', id: string, avataxEntityCode?: string | null, avataxCustomerCode?: string | null, avataxExemptionStatus?: string | null, avataxShipFromAddress?: string | null, user?: { __typename?: 'User', id: string, email: string, avataxCustomerCode?: string | null } | null } | { __typename: 'Order', id: string, avataxEntityCode?: string | null, avataxCustomerCode?: string | null, avataxExemptionStatus?: string | null, avataxShipFromAddress?: string | null, user?: { __typename?: 'User', id: string, email: string, avataxCustomerCode?: string | null } | null } };
+export type TaxBaseFragment = { __typename?: 'TaxableObject', pricesEnteredWithTax: boolean, currency: string, channel: { __typename?: 'Channel', slug: string, id: string }, discounts: Array<{ __typename?: 'TaxableObjectDiscount', type: TaxableObjectDiscountTypeEnum, amount: { __typename?: 'Money', amount: number } }>, address?: { __typename?: 'Address', streetAddress1: string, streetAddress2: string, city: string, countryArea: string, postalCode: string, country: { __typename?: 'CountryDisplay', code: string } } | null, shippingPrice: { __typename?: 'Money', amount: number }, lines: Array<{ __typename?: 'TaxableObjectLine', quantity: number, sourceLine: { __typename: 'CheckoutLine', id: string, checkoutProductVariant: { __typename?: 'ProductVariant', id: string, sku?: string | null, product: { __typename?: 'Product', taxClass?: { __typename?: 'TaxClass', id: string, name: string } | null } } } | { __typename: 'OrderLine', id: string, orderProductVariant?: { __typename?: 'ProductVariant', id: string, sku?: string | null, product: { __typename?: 'Product', taxClass?: { __typename?: 'TaxClass', id: string, name: string } | null } } | null }, unitPrice: { __typename?: 'Money', amount: number }, totalPrice: { __typename?: 'Money', amount: number } }>, sourceObject: { __typename: 'Checkout', id: string, avataxEntityCode?: string | null, avataxCustomerCode?: string | null, avataxExemptionStatus?: string | null, avataxShipFromAddress?: string | null, avataxFallbackTaxCalculation?: string | null, user?: { __typename?: 'User', id: string, email: string, avataxCustomerCode?: string | null } | null } | { __typename: 'Order', id: string, avataxEntityCode?: string | null, avataxCustomerCode?: string | null, avataxExemptionStatus?: string | null, avataxShipFromAddress?: string | null, avataxFallbackTaxCalculation?: string | null, user?: { __typename?: 'User', id: string, email: string, avataxCustomerCode?: string | null } | null } };
 
 export type UserFragment = { __typename?: 'User', id: string, email: string, avataxCustomerCode?: string | null };
 
@@ -1438,7 +1480,7 @@ export type CountryWithCodeFragment = { __typename: 'CountryDisplay', country: s
 export type CalculateTaxesSubscriptionVariables = Exact<{ [key: string]: never; }>;
 
 
-export type CalculateTaxesSubscription = { __typename?: 'Subscription', event?: { __typename: 'AccountChangeEmailRequested', issuedAt?: string | null, version?: string | null } | { __typename: 'AccountConfirmationRequested', issuedAt?: string | null, version?: string | null } | { __typename: 'AccountConfirmed', issuedAt?: string | null, version?: string | null } | { __typename: 'AccountDeleteRequested', issuedAt?: string | null, version?: string | null } | { __typename: 'AccountDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'AccountEmailChanged', issuedAt?: string | null, version?: string | null } | { __typename: 'AccountSetPasswordRequested', issuedAt?: string | null, version?: string | null } | { __typename: 'AddressCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'AddressDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'AddressUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'AppDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'AppInstalled', issuedAt?: string | null, version?: string | null } | { __typename: 'AppStatusChanged', issuedAt?: string | null, version?: string | null } | { __typename: 'AppUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'AttributeCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'AttributeDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'AttributeUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'AttributeValueCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'AttributeValueDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'AttributeValueUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'CalculateTaxes', issuedAt?: string | null, version?: string | null, taxBase: { __typename?: 'TaxableObject', pricesEnteredWithTax: boolean, currency: string, channel: { __typename?: 'Channel', slug: string, id: string }, discounts: Array<{ __typename?: 'TaxableObjectDiscount', type: TaxableObjectDiscountTypeEnum, amount: { __typename?: 'Money', amount: number } }>, address?: { __typename?: 'Address', streetAddress1: string, streetAddress2: string, city: string, countryArea: string, postalCode: string, country: { __typename?: 'CountryDisplay', code: string } } | null, shippingPrice: { __typename?: 'Money', amount: number }, lines: Array<{ __typename?: 'TaxableObjectLine', quantity: number, sourceLine: { __typename: 'CheckoutLine', id: string, checkoutProductVariant: { __typename?: 'ProductVariant', id: string, sku?: string | null, product: { __typename?: 'Product', taxClass?: { __typename?: 'TaxClass', id: string, name: string } | null } } } | { __typename: 'OrderLine', id: string, orderProductVariant?: { __typename?: 'ProductVariant', id: string, sku?: string | null, product: { __typename?: 'Product', taxClass?: { __typename?: 'TaxClass', id: string, name: string } | null } } | null }, unitPrice: { __typename?: 'Money', amount: number }, totalPrice: { __typename?: 'Money', amount: number } }>, sourceObject: { __typename: 'Checkout', id: string, avataxEntityCode?: string | null, avataxCustomerCode?: string | null, avataxExemptionStatus?: string | null, avataxShipFromAddress?: string | null, user?: { __typename?: 'User', id: string, email: string, avataxCustomerCode?: string | null } | null } | { __typename: 'Order', id: string, avataxEntityCode?: string | null, avataxCustomerCode?: string | null, avataxExemptionStatus?: string | null, avataxShipFromAddress?: string | null, user?: { __typename?: 'User', id: string, email: string, avataxCustomerCode?: string | null } | null } }, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CategoryCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'CategoryDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'CategoryUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'ChannelCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'ChannelDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'ChannelMetadataUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'ChannelStatusChanged', issuedAt?: string | null, version?: string | null } | { __typename: 'ChannelUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'CheckoutCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'CheckoutFilterShippingMethods', issuedAt?: string | null, version?: string | null } | { __typename: 'CheckoutFullyAuthorized', issuedAt?: string | null, version?: string | null } | { __typename: 'CheckoutFullyPaid', issuedAt?: string | null, version?: string | null } | { __typename: 'CheckoutMetadataUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'CheckoutUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'CollectionCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'CollectionDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'CollectionMetadataUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'CollectionUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'CustomerCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'CustomerMetadataUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'CustomerUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'DraftOrderCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'DraftOrderDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'DraftOrderUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'FulfillmentApproved', issuedAt?: string | null, version?: string | null } | { __typename: 'FulfillmentCanceled', issuedAt?: string | null, version?: string | null } | { __typename: 'FulfillmentCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'FulfillmentMetadataUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'FulfillmentTrackingNumberUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'GiftCardCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'GiftCardDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'GiftCardExportCompleted', issuedAt?: string | null, version?: string | null } | { __typename: 'GiftCardMetadataUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'GiftCardSent', issuedAt?: string | null, version?: string | null } | { __typename: 'GiftCardStatusChanged', issuedAt?: string | null, version?: string | null } | { __typename: 'GiftCardUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'InvoiceDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'InvoiceRequested', issuedAt?: string | null, version?: string | null } | { __typename: 'InvoiceSent', issuedAt?: string | null, version?: string | null } | { __typename: 'ListStoredPaymentMethods', issuedAt?: string | null, version?: string | null } | { __typename: 'MenuCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'MenuDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'MenuItemCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'MenuItemDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'MenuItemUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'MenuUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'OrderBulkCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'OrderCancelled', issuedAt?: string | null, version?: string | null } | { __typename: 'OrderConfirmed', issuedAt?: string | null, version?: string | null } | { __typename: 'OrderCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'OrderExpired', issuedAt?: string | null, version?: string | null } | { __typename: 'OrderFilterShippingMethods', issuedAt?: string | null, version?: string | null } | { __typename: 'OrderFulfilled', issuedAt?: string | null, version?: string | null } | { __typename: 'OrderFullyPaid', issuedAt?: string | null, version?: string | null } | { __typename: 'OrderFullyRefunded', issuedAt?: string | null, version?: string | null } | { __typename: 'OrderMetadataUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'OrderPaid', issuedAt?: string | null, version?: string | null } | { __typename: 'OrderRefunded', issuedAt?: string | null, version?: string | null } | { __typename: 'OrderUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'PageCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'PageDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'PageTypeCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'PageTypeDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'PageTypeUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'PageUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'PaymentAuthorize', issuedAt?: string | null, version?: string | null } | { __typename: 'PaymentCaptureEvent', issuedAt?: string | null, version?: string | null } | { __typename: 'PaymentConfirmEvent', issuedAt?: string | null, version?: string | null } | { __typename: 'PaymentGatewayInitializeSession', issuedAt?: string | null, version?: string | null } | { __typename: 'PaymentGatewayInitializeTokenizationSession', issuedAt?: string | null, version?: string | null } | { __typename: 'PaymentListGateways', issuedAt?: string | null, version?: string | null } | { __typename: 'PaymentMethodInitializeTokenizationSession', issuedAt?: string | null, version?: string | null } | { __typename: 'PaymentMethodProcessTokenizationSession', issuedAt?: string | null, version?: string | null } | { __typename: 'PaymentProcessEvent', issuedAt?: string | null, version?: string | null } | { __typename: 'PaymentRefundEvent', issuedAt?: string | null, version?: string | null } | { __typename: 'PaymentVoidEvent', issuedAt?: string | null, version?: string | null } | { __typename: 'PermissionGroupCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'PermissionGroupDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'PermissionGroupUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'ProductCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'ProductDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'ProductExportCompleted', issuedAt?: string | null, version?: string | null } | { __typename: 'ProductMediaCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'ProductMediaDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'ProductMediaUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'ProductMetadataUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'ProductUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'ProductVariantBackInStock', issuedAt?: string | null, version?: string | null } | { __typename: 'ProductVariantCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'ProductVariantDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'ProductVariantMetadataUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'ProductVariantOutOfStock', issuedAt?: string | null, version?: string | null } | { __typename: 'ProductVariantStockUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'ProductVariantUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'PromotionCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'PromotionDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'PromotionEnded', issuedAt?: string | null, version?: string | null } | { __typename: 'PromotionRuleCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'PromotionRuleDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'PromotionRuleUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'PromotionStarted', issuedAt?: string | null, version?: string | null } | { __typename: 'PromotionUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'SaleCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'SaleDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'SaleToggle', issuedAt?: string | null, version?: string | null } | { __typename: 'SaleUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'ShippingListMethodsForCheckout', issuedAt?: string | null, version?: string | null } | { __typename: 'ShippingPriceCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'ShippingPriceDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'ShippingPriceUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'ShippingZoneCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'ShippingZoneDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'ShippingZoneMetadataUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'ShippingZoneUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'ShopMetadataUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'StaffCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'StaffDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'StaffSetPasswordRequested', issuedAt?: string | null, version?: string | null } | { __typename: 'StaffUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'StoredPaymentMethodDeleteRequested', issuedAt?: string | null, version?: string | null } | { __typename: 'ThumbnailCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'TransactionCancelationRequested', issuedAt?: string | null, version?: string | null } | { __typename: 'TransactionChargeRequested', issuedAt?: string | null, version?: string | null } | { __typename: 'TransactionInitializeSession', issuedAt?: string | null, version?: string | null } | { __typename: 'TransactionItemMetadataUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'TransactionProcessSession', issuedAt?: string | null, version?: string | null } | { __typename: 'TransactionRefundRequested', issuedAt?: string | null, version?: string | null } | { __typename: 'TranslationCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'TranslationUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'VoucherCodeExportCompleted', issuedAt?: string | null, version?: string | null } | { __typename: 'VoucherCodesCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'VoucherCodesDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'VoucherCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'VoucherDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'VoucherMetadataUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'VoucherUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'WarehouseCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'WarehouseDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'WarehouseMetadataUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'WarehouseUpdated', issuedAt?: string | null, version?: string | null } | null };
+export type CalculateTaxesSubscription = { __typename?: 'Subscription', event?: { __typename: 'AccountChangeEmailRequested', issuedAt?: string | null, version?: string | null } | { __typename: 'AccountConfirmationRequested', issuedAt?: string | null, version?: string | null } | { __typename: 'AccountConfirmed', issuedAt?: string | null, version?: string | null } | { __typename: 'AccountDeleteRequested', issuedAt?: string | null, version?: string | null } | { __typename: 'AccountDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'AccountEmailChanged', issuedAt?: string | null, version?: string | null } | { __typename: 'AccountSetPasswordRequested', issuedAt?: string | null, version?: string | null } | { __typename: 'AddressCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'AddressDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'AddressUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'AppDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'AppInstalled', issuedAt?: string | null, version?: string | null } | { __typename: 'AppStatusChanged', issuedAt?: string | null, version?: string | null } | { __typename: 'AppUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'AttributeCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'AttributeDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'AttributeUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'AttributeValueCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'AttributeValueDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'AttributeValueUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'CalculateTaxes', issuedAt?: string | null, version?: string | null, taxBase: { __typename?: 'TaxableObject', pricesEnteredWithTax: boolean, currency: string, channel: { __typename?: 'Channel', slug: string, id: string }, discounts: Array<{ __typename?: 'TaxableObjectDiscount', type: TaxableObjectDiscountTypeEnum, amount: { __typename?: 'Money', amount: number } }>, address?: { __typename?: 'Address', streetAddress1: string, streetAddress2: string, city: string, countryArea: string, postalCode: string, country: { __typename?: 'CountryDisplay', code: string } } | null, shippingPrice: { __typename?: 'Money', amount: number }, lines: Array<{ __typename?: 'TaxableObjectLine', quantity: number, sourceLine: { __typename: 'CheckoutLine', id: string, checkoutProductVariant: { __typename?: 'ProductVariant', id: string, sku?: string | null, product: { __typename?: 'Product', taxClass?: { __typename?: 'TaxClass', id: string, name: string } | null } } } | { __typename: 'OrderLine', id: string, orderProductVariant?: { __typename?: 'ProductVariant', id: string, sku?: string | null, product: { __typename?: 'Product', taxClass?: { __typename?: 'TaxClass', id: string, name: string } | null } } | null }, unitPrice: { __typename?: 'Money', amount: number }, totalPrice: { __typename?: 'Money', amount: number } }>, sourceObject: { __typename: 'Checkout', id: string, avataxEntityCode?: string | null, avataxCustomerCode?: string | null, avataxExemptionStatus?: string | null, avataxShipFromAddress?: string | null, avataxFallbackTaxCalculation?: string | null, user?: { __typename?: 'User', id: string, email: string, avataxCustomerCode?: string | null } | null } | { __typename: 'Order', id: string, avataxEntityCode?: string | null, avataxCustomerCode?: string | null, avataxExemptionStatus?: string | null, avataxShipFromAddress?: string | null, avataxFallbackTaxCalculation?: string | null, user?: { __typename?: 'User', id: string, email: string, avataxCustomerCode?: string | null } | null } }, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CategoryCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'CategoryDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'CategoryUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'ChannelCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'ChannelDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'ChannelMetadataUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'ChannelStatusChanged', issuedAt?: string | null, version?: string | null } | { __typename: 'ChannelUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'CheckoutCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'CheckoutFilterShippingMethods', issuedAt?: string | null, version?: string | null } | { __typename: 'CheckoutFullyAuthorized', issuedAt?: string | null, version?: string | null } | { __typename: 'CheckoutFullyPaid', issuedAt?: string | null, version?: string | null } | { __typename: 'CheckoutMetadataUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'CheckoutUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'CollectionCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'CollectionDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'CollectionMetadataUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'CollectionUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'CustomerCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'CustomerMetadataUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'CustomerUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'DraftOrderCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'DraftOrderDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'DraftOrderUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'FulfillmentApproved', issuedAt?: string | null, version?: string | null } | { __typename: 'FulfillmentCanceled', issuedAt?: string | null, version?: string | null } | { __typename: 'FulfillmentCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'FulfillmentMetadataUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'FulfillmentTrackingNumberUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'GiftCardCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'GiftCardDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'GiftCardExportCompleted', issuedAt?: string | null, version?: string | null } | { __typename: 'GiftCardMetadataUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'GiftCardSent', issuedAt?: string | null, version?: string | null } | { __typename: 'GiftCardStatusChanged', issuedAt?: string | null, version?: string | null } | { __typename: 'GiftCardUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'InvoiceDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'InvoiceRequested', issuedAt?: string | null, version?: string | null } | { __typename: 'InvoiceSent', issuedAt?: string | null, version?: string | null } | { __typename: 'ListStoredPaymentMethods', issuedAt?: string | null, version?: string | null } | { __typename: 'MenuCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'MenuDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'MenuItemCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'MenuItemDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'MenuItemUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'MenuUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'OrderBulkCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'OrderCancelled', issuedAt?: string | null, version?: string | null } | { __typename: 'OrderConfirmed', issuedAt?: string | null, version?: string | null } | { __typename: 'OrderCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'OrderExpired', issuedAt?: string | null, version?: string | null } | { __typename: 'OrderFilterShippingMethods', issuedAt?: string | null, version?: string | null } | { __typename: 'OrderFulfilled', issuedAt?: string | null, version?: string | null } | { __typename: 'OrderFullyPaid', issuedAt?: string | null, version?: string | null } | { __typename: 'OrderFullyRefunded', issuedAt?: string | null, version?: string | null } | { __typename: 'OrderMetadataUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'OrderPaid', issuedAt?: string | null, version?: string | null } | { __typename: 'OrderRefunded', issuedAt?: string | null, version?: string | null } | { __typename: 'OrderUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'PageCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'PageDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'PageTypeCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'PageTypeDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'PageTypeUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'PageUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'PaymentAuthorize', issuedAt?: string | null, version?: string | null } | { __typename: 'PaymentCaptureEvent', issuedAt?: string | null, version?: string | null } | { __typename: 'PaymentConfirmEvent', issuedAt?: string | null, version?: string | null } | { __typename: 'PaymentGatewayInitializeSession', issuedAt?: string | null, version?: string | null } | { __typename: 'PaymentGatewayInitializeTokenizationSession', issuedAt?: string | null, version?: string | null } | { __typename: 'PaymentListGateways', issuedAt?: string | null, version?: string | null } | { __typename: 'PaymentMethodInitializeTokenizationSession', issuedAt?: string | null, version?: string | null } | { __typename: 'PaymentMethodProcessTokenizationSession', issuedAt?: string | null, version?: string | null } | { __typename: 'PaymentProcessEvent', issuedAt?: string | null, version?: string | null } | { __typename: 'PaymentRefundEvent', issuedAt?: string | null, version?: string | null } | { __typename: 'PaymentVoidEvent', issuedAt?: string | null, version?: string | null } | { __typename: 'PermissionGroupCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'PermissionGroupDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'PermissionGroupUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'ProductCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'ProductDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'ProductExportCompleted', issuedAt?: string | null, version?: string | null } | { __typename: 'ProductMediaCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'ProductMediaDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'ProductMediaUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'ProductMetadataUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'ProductUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'ProductVariantBackInStock', issuedAt?: string | null, version?: string | null } | { __typename: 'ProductVariantCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'ProductVariantDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'ProductVariantMetadataUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'ProductVariantOutOfStock', issuedAt?: string | null, version?: string | null } | { __typename: 'ProductVariantStockUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'ProductVariantUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'PromotionCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'PromotionDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'PromotionEnded', issuedAt?: string | null, version?: string | null } | { __typename: 'PromotionRuleCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'PromotionRuleDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'PromotionRuleUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'PromotionStarted', issuedAt?: string | null, version?: string | null } | { __typename: 'PromotionUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'SaleCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'SaleDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'SaleToggle', issuedAt?: string | null, version?: string | null } | { __typename: 'SaleUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'ShippingListMethodsForCheckout', issuedAt?: string | null, version?: string | null } | { __typename: 'ShippingPriceCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'ShippingPriceDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'ShippingPriceUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'ShippingZoneCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'ShippingZoneDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'ShippingZoneMetadataUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'ShippingZoneUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'ShopMetadataUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'StaffCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'StaffDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'StaffSetPasswordRequested', issuedAt?: string | null, version?: string | null } | { __typename: 'StaffUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'StoredPaymentMethodDeleteRequested', issuedAt?: string | null, version?: string | null } | { __typename: 'ThumbnailCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'TransactionCancelationRequested', issuedAt?: string | null, version?: string | null } | { __typename: 'TransactionChargeRequested', issuedAt?: string | null, version?: string | null } | { __typename: 'TransactionInitializeSession', issuedAt?: string | null, version?: string | null } | { __typename: 'TransactionItemMetadataUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'TransactionProcessSession', issuedAt?: string | null, version?: string | null } | { __typename: 'TransactionRefundRequested', issuedAt?: string | null, version?: string | null } | { __typename: 'TranslationCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'TranslationUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'VoucherCodeExportCompleted', issuedAt?: string | null, version?: string | null } | { __typename: 'VoucherCodesCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'VoucherCodesDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'VoucherCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'VoucherDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'VoucherMetadataUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'VoucherUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'WarehouseCreated', issuedAt?: string | null, version?: string | null } | { __typename: 'WarehouseDeleted', issuedAt?: string | null, version?: string | null } | { __typename: 'WarehouseMetadataUpdated', issuedAt?: string | null, version?: string | null } | { __typename: 'WarehouseUpdated', issuedAt?: string | null, version?: string | null } | null };
 
 export type OrderCancelledSubscriptionFragment = { __typename?: 'Order', id: string, avataxId?: string | null, channel: { __typename?: 'Channel', id: string, slug: string } };
 
@@ -1773,7 +1815,7 @@ export type OrderCancelledSubscriptionSubscription = { __typename?: 'Subscriptio
 
 export type OrderLineFragment = { __typename?: 'OrderLine', productSku?: string | null, productVariantId?: string | null, productName: string, quantity: number, taxClass?: { __typename?: 'TaxClass', id: string } | null, unitPrice: { __typename?: 'TaxedMoney', net: { __typename?: 'Money', amount: number } }, totalPrice: { __typename?: 'TaxedMoney', net: { __typename?: 'Money', amount: number }, tax: { __typename?: 'Money', amount: number }, gross: { __typename?: 'Money', amount: number } } };
 
-export type OrderConfirmedSubscriptionFragment = { __typename?: 'Order', id: string, number: string, userEmail?: string | null, created: string, status: OrderStatus, avataxCustomerCode?: string | null, avataxEntityCode?: string | null, avataxTaxCalculationDate?: string | null, avataxDocumentCode?: string | null, user?: { __typename?: 'User', id: string, email: string, avataxCustomerCode?: string | null } | null, channel: { __typename?: 'Channel', id: string, slug: string, taxConfiguration: { __typename?: 'TaxConfiguration', pricesEnteredWithTax: boolean, taxCalculationStrategy?: TaxCalculationStrategy | null } }, shippingAddress?: { __typename?: 'Address', streetAddress1: string, streetAddress2: string, city: string, countryArea: string, postalCode: string, country: { __typename?: 'CountryDisplay', code: string } } | null, billingAddress?: { __typename?: 'Address', streetAddress1: string, streetAddress2: string, city: string, countryArea: string, postalCode: string, country: { __typename?: 'CountryDisplay', code: string } } | null, total: { __typename?: 'TaxedMoney', currency: string, net: { __typename?: 'Money', amount: number }, tax: { __typename?: 'Money', amount: number } }, shippingPrice: { __typename?: 'TaxedMoney', gross: { __typename?: 'Money', amount: number }, net: { __typename?: 'Money', amount: number } }, lines: Array<{ __typename?: 'OrderLine', productSku?: string | null, productVariantId?: string | null, productName: string, quantity: number, taxClass?: { __typename?: 'TaxClass', id: string } | null, unitPrice: { __typename?: 'TaxedMoney', net: { __typename?: 'Money', amount: number } }, totalPrice: { __typename?: 'TaxedMoney', net: { __typename?: 'Money', amount: number }, tax: { __typename?: 'Money', amount: number }, gross: { __typename?: 'Money', amount: number } } }> };
+export type OrderConfirmedSubscriptionFragment = { __typename?: 'Order', id: string, number: string, userEmail?: string | null, created: string, status: OrderStatus, chargeStatus: OrderChargeStatusEnum, avataxCustomerCode?: string | null, avataxEntityCode?: string | null, avataxTaxCalculationDate?: string | null, avataxDocumentCode?: string | null, avataxFallbackTaxCalculation?: string | null, user?: { __typename?: 'User', id: string, email: string, avataxCustomerCode?: string | null } | null, channel: { __typename?: 'Channel', id: string, slug: string, taxConfiguration: { __typename?: 'TaxConfiguration', pricesEnteredWithTax: boolean, taxCalculationStrategy?: TaxCalculationStrategy | null } }, shippingAddress?: { __typename?: 'Address', streetAddress1: string, streetAddress2: string, city: string, countryArea: string, postalCode: string, country: { __typename?: 'CountryDisplay', code: string } } | null, billingAddress?: { __typename?: 'Address', streetAddress1: string, streetAddress2: string, city: string, countryArea: string, postalCode: string, country: { __typename?: 'CountryDisplay', code: string } } | null, total: { __typename?: 'TaxedMoney', currency: string, net: { __typename?: 'Money', amount: number }, tax: { __typename?: 'Money', amount: number } }, shippingPrice: { __typename?: 'TaxedMoney', gross: { __typename?: 'Money', amount: number }, net: { __typename?: 'Money', amount: number } }, lines: Array<{ __typename?: 'OrderLine', productSku?: string | null, productVariantId?: string | null, productName: string, quantity: number, taxClass?: { __typename?: 'TaxClass', id: string } | null, unitPrice: { __typename?: 'TaxedMoney', net: { __typename?: 'Money', amount: number } }, totalPrice: { __typename?: 'TaxedMoney', net: { __typename?: 'Money', amount: number }, tax: { __typename?: 'Money', amount: number }, gross: { __typename?: 'Money', amount: number } } }> };
 
 type OrderConfirmedEventSubscription_AccountChangeEmailRequested_Fragment = { __typename: 'AccountChangeEmailRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
 
@@ -1913,7 +1955,7 @@ type OrderConfirmedEventSubscription_OrderBulkCreated_Fragment = { __typename: '
 
 type OrderConfirmedEventSubscription_OrderCancelled_Fragment = { __typename: 'OrderCancelled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
 
-type OrderConfirmedEventSubscription_OrderConfirmed_Fragment = { __typename: 'OrderConfirmed', issuedAt?: string | null, version?: string | null, order?: { __typename?: 'Order', id: string, number: string, userEmail?: string | null, created: string, status: OrderStatus, avataxCustomerCode?: string | null, avataxEntityCode?: string | null, avataxTaxCalculationDate?: string | null, avataxDocumentCode?: string | null, user?: { __typename?: 'User', id: string, email: string, avataxCustomerCode?: string | null } | null, channel: { __typename?: 'Channel', id: string, slug: string, taxConfiguration: { __typename?: 'TaxConfiguration', pricesEnteredWithTax: boolean, taxCalculationStrategy?: TaxCalculationStrategy | null } }, shippingAddress?: { __typename?: 'Address', streetAddress1: string, streetAddress2: string, city: string, countryArea: string, postalCode: string, country: { __typename?: 'CountryDisplay', code: string } } | null, billingAddress?: { __typename?: 'Address', streetAddress1: string, streetAddress2: string, city: string, countryArea: string, postalCode: string, country: { __typename?: 'CountryDisplay', code: string } } | null, total: { __typename?: 'TaxedMoney', currency: string, net: { __typename?: 'Money', amount: number }, tax: { __typename?: 'Money', amount: number } }, shippingPrice: { __typename?: 'TaxedMoney', gross: { __typename?: 'Money', amount: number }, net: { __typename?: 'Money', amount: number } }, lines: Array<{ __typename?: 'OrderLine', productSku?: string | null, productVariantId?: string | null, productName: string, quantity: number, taxClass?: { __typename?: 'TaxClass', id: string } | null, unitPrice: { __typename?: 'TaxedMoney', net: { __typename?: 'Money', amount: number } }, totalPrice: { __typename?: 'TaxedMoney', net: { __typename?: 'Money', amount: number }, tax: { __typename?: 'Money', amount: number }, gross: { __typename?: 'Money', amount: number } } }> } | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+type OrderConfirmedEventSubscription_OrderConfirmed_Fragment = { __typename: 'OrderConfirmed', issuedAt?: string | null, version?: string | null, order?: { __typename?: 'Order', id: string, number: string, userEmail?: string | null, created: string, status: OrderStatus, chargeStatus: OrderChargeStatusEnum, avataxCustomerCode?: string | null, avataxEntityCode?: string | null, avataxTaxCalculationDate?: string | null, avataxDocumentCode?: string | null, avataxFallbackTaxCalculation?: string | null, user?: { __typename?: 'User', id: string, email: string, avataxCustomerCode?: string | null } | null, channel: { __typename?: 'Channel', id: string, slug: string, taxConfiguration: { __typename?: 'TaxConfiguration', pricesEnteredWithTax: boolean, taxCalculationStrategy?: TaxCalculationStrategy | null } }, shippingAddress?: { __typename?: 'Address', streetAddress1: string, streetAddress2: string, city: string, countryArea: string, postalCode: string, country: { __typename?: 'CountryDisplay', code: string } } | null, billingAddress?: { __typename?: 'Address', streetAddress1: string, streetAddress2: string, city: string, countryArea: string, postalCode: string, country: { __typename?: 'CountryDisplay', code: string } } | null, total: { __typename?: 'TaxedMoney', currency: string, net: { __typename?: 'Money', amount: number }, tax: { __typename?: 'Money', amount: number } }, shippingPrice: { __typename?: 'TaxedMoney', gross: { __typename?: 'Money', amount: number }, net: { __typename?: 'Money', amount: number } }, lines: Array<{ __typename?: 'OrderLine', productSku?: string | null, productVariantId?: string | null, productName: string, quantity: number, taxClass?: { __typename?: 'TaxClass', id: string } | null, unitPrice: { __typename?: 'TaxedMoney', net: { __typename?: 'Money', amount: number } }, totalPrice: { __typename?: 'TaxedMoney', net: { __typename?: 'Money', amount: number }, tax: { __typename?: 'Money', amount: number }, gross: { __typename?: 'Money', amount: number } } }> } | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
 
 type OrderConfirmedEventSubscription_OrderCreated_Fragment = { __typename: 'OrderCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
 
@@ -2102,254 +2144,1582 @@ export type OrderConfirmedEventSubscriptionFragment = OrderConfirmedEventSubscri
 export type OrderConfirmedSubscriptionSubscriptionVariables = Exact<{ [key: string]: never; }>;
 
 
-export type OrderConfirmedSubscriptionSubscription = { __typename?: 'Subscription', event?: { __typename: 'AccountChangeEmailRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountConfirmationRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountConfirmed', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountDeleteRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountEmailChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountSetPasswordRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AddressCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AddressDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AddressUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AppDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AppInstalled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AppStatusChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AppUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeValueCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeValueDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeValueUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CalculateTaxes', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CategoryCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CategoryDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CategoryUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ChannelCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ChannelDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ChannelMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ChannelStatusChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ChannelUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutFilterShippingMethods', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutFullyAuthorized', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutFullyPaid', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CollectionCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CollectionDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CollectionMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CollectionUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CustomerCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CustomerMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CustomerUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'DraftOrderCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'DraftOrderDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'DraftOrderUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'FulfillmentApproved', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'FulfillmentCanceled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'FulfillmentCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'FulfillmentMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'FulfillmentTrackingNumberUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardExportCompleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardSent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardStatusChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'InvoiceDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'InvoiceRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'InvoiceSent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ListStoredPaymentMethods', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuItemCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuItemDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuItemUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderBulkCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderCancelled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderConfirmed', issuedAt?: string | null, version?: string | null, order?: { __typename?: 'Order', id: string, number: string, userEmail?: string | null, created: string, status: OrderStatus, avataxCustomerCode?: string | null, avataxEntityCode?: string | null, avataxTaxCalculationDate?: string | null, avataxDocumentCode?: string | null, user?: { __typename?: 'User', id: string, email: string, avataxCustomerCode?: string | null } | null, channel: { __typename?: 'Channel', id: string, slug: string, taxConfiguration: { __typename?: 'TaxConfiguration', pricesEnteredWithTax: boolean, taxCalculationStrategy?: TaxCalculationStrategy | null } }, shippingAddress?: { __typename?: 'Address', streetAddress1: string, streetAddress2: string, city: string, countryArea: string, postalCode: string, country: { __typename?: 'CountryDisplay', code: string } } | null, billingAddress?: { __typename?: 'Address', streetAddress1: string, streetAddress2: string, city: string, countryArea: string, postalCode: string, country: { __typename?: 'CountryDisplay', code: string } } | null, total: { __typename?: 'TaxedMoney', currency: string, net: { __typename?: 'Money', amount: number }, tax: { __typename?: 'Money', amount: number } }, shippingPrice: { __typename?: 'TaxedMoney', gross: { __typename?: 'Money', amount: number }, net: { __typename?: 'Money', amount: number } }, lines: Array<{ __typename?: 'OrderLine', productSku?: string | null, productVariantId?: string | null, productName: string, quantity: number, taxClass?: { __typename?: 'TaxClass', id: string } | null, unitPrice: { __typename?: 'TaxedMoney', net: { __typename?: 'Money', amount: number } }, totalPrice: { __typename?: 'TaxedMoney', net: { __typename?: 'Money', amount: number }, tax: { __typename?: 'Money', amount: number }, gross: { __typename?: 'Money', amount: number } } }> } | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderExpired', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderFilterShippingMethods', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderFulfilled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderFullyPaid', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderFullyRefunded', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderPaid', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderRefunded', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageTypeCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageTypeDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageTypeUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentAuthorize', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentCaptureEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentConfirmEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentGatewayInitializeSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentGatewayInitializeTokenizationSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentListGateways', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentMethodInitializeTokenizationSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentMethodProcessTokenizationSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentProcessEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentRefundEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentVoidEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PermissionGroupCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PermissionGroupDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PermissionGroupUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductExportCompleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductMediaCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductMediaDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductMediaUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantBackInStock', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantOutOfStock', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantStockUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionEnded', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionRuleCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionRuleDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionRuleUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionStarted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'SaleCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'SaleDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'SaleToggle', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'SaleUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingListMethodsForCheckout', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingPriceCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingPriceDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingPriceUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingZoneCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingZoneDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingZoneMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingZoneUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShopMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'StaffCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'StaffDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'StaffSetPasswordRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'StaffUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'StoredPaymentMethodDeleteRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ThumbnailCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionCancelationRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionChargeRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionInitializeSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionItemMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionProcessSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionRefundRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TranslationCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TranslationUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherCodeExportCompleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherCodesCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherCodesDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'WarehouseCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'WarehouseDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'WarehouseMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'WarehouseUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | null };
+export type OrderConfirmedSubscriptionSubscription = { __typename?: 'Subscription', event?: { __typename: 'AccountChangeEmailRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountConfirmationRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountConfirmed', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountDeleteRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountEmailChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountSetPasswordRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AddressCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AddressDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AddressUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AppDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AppInstalled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AppStatusChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AppUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeValueCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeValueDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeValueUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CalculateTaxes', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CategoryCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CategoryDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CategoryUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ChannelCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ChannelDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ChannelMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ChannelStatusChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ChannelUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutFilterShippingMethods', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutFullyAuthorized', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutFullyPaid', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CollectionCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CollectionDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CollectionMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CollectionUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CustomerCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CustomerMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CustomerUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'DraftOrderCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'DraftOrderDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'DraftOrderUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'FulfillmentApproved', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'FulfillmentCanceled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'FulfillmentCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'FulfillmentMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'FulfillmentTrackingNumberUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardExportCompleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardSent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardStatusChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'InvoiceDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'InvoiceRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'InvoiceSent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ListStoredPaymentMethods', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuItemCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuItemDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuItemUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderBulkCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderCancelled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderConfirmed', issuedAt?: string | null, version?: string | null, order?: { __typename?: 'Order', id: string, number: string, userEmail?: string | null, created: string, status: OrderStatus, chargeStatus: OrderChargeStatusEnum, avataxCustomerCode?: string | null, avataxEntityCode?: string | null, avataxTaxCalculationDate?: string | null, avataxDocumentCode?: string | null, avataxFallbackTaxCalculation?: string | null, user?: { __typename?: 'User', id: string, email: string, avataxCustomerCode?: string | null } | null, channel: { __typename?: 'Channel', id: string, slug: string, taxConfiguration: { __typename?: 'TaxConfiguration', pricesEnteredWithTax: boolean, taxCalculationStrategy?: TaxCalculationStrategy | null } }, shippingAddress?: { __typename?: 'Address', streetAddress1: string, streetAddress2: string, city: string, countryArea: string, postalCode: string, country: { __typename?: 'CountryDisplay', code: string } } | null, billingAddress?: { __typename?: 'Address', streetAddress1: string, streetAddress2: string, city: string, countryArea: string, postalCode: string, country: { __typename?: 'CountryDisplay', code: string } } | null, total: { __typename?: 'TaxedMoney', currency: string, net: { __typename?: 'Money', amount: number }, tax: { __typename?: 'Money', amount: number } }, shippingPrice: { __typename?: 'TaxedMoney', gross: { __typename?: 'Money', amount: number }, net: { __typename?: 'Money', amount: number } }, lines: Array<{ __typename?: 'OrderLine', productSku?: string | null, productVariantId?: string | null, productName: string, quantity: number, taxClass?: { __typename?: 'TaxClass', id: string } | null, unitPrice: { __typename?: 'TaxedMoney', net: { __typename?: 'Money', amount: number } }, totalPrice: { __typename?: 'TaxedMoney', net: { __typename?: 'Money', amount: number }, tax: { __typename?: 'Money', amount: number }, gross: { __typename?: 'Money', amount: number } } }> } | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderExpired', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderFilterShippingMethods', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderFulfilled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderFullyPaid', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderFullyRefunded', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderPaid', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderRefunded', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageTypeCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageTypeDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageTypeUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentAuthorize', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentCaptureEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentConfirmEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentGatewayInitializeSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentGatewayInitializeTokenizationSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentListGateways', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentMethodInitializeTokenizationSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentMethodProcessTokenizationSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentProcessEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentRefundEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentVoidEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PermissionGroupCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PermissionGroupDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PermissionGroupUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductExportCompleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductMediaCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductMediaDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductMediaUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantBackInStock', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantOutOfStock', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantStockUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionEnded', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionRuleCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionRuleDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionRuleUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionStarted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'SaleCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'SaleDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'SaleToggle', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'SaleUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingListMethodsForCheckout', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingPriceCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingPriceDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingPriceUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingZoneCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingZoneDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingZoneMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingZoneUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShopMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'StaffCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'StaffDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'StaffSetPasswordRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'StaffUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'StoredPaymentMethodDeleteRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ThumbnailCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionCancelationRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionChargeRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionInitializeSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionItemMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionProcessSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionRefundRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TranslationCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TranslationUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherCodeExportCompleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherCodesCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherCodesDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'WarehouseCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'WarehouseDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'WarehouseMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'WarehouseUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | null };
 
-export const UntypedWebhookMetadataFragmentDoc = gql`
-    fragment WebhookMetadata on Event {
-  issuedAt
-  version
-}
-    `;
-export const UntypedTaxDiscountFragmentDoc = gql`
-    fragment TaxDiscount on TaxableObjectDiscount {
-  amount {
-    amount
-  }
-  type
-}
-    `;
-export const UntypedAddressFragmentDoc = gql`
-    fragment Address on Address {
-  streetAddress1
-  streetAddress2
-  city
-  countryArea
-  postalCode
-  country {
-    code
-  }
-}
-    `;
-export const UntypedTaxBaseLineFragmentDoc = gql`
-    fragment TaxBaseLine on TaxableObjectLine {
-  sourceLine {
-    __typename
-    ... on CheckoutLine {
-      id
-      checkoutProductVariant: variant {
-        id
-        sku
-        product {
-          taxClass {
-            id
-            name
-          }
-        }
-      }
-    }
-    ... on OrderLine {
-      id
-      orderProductVariant: variant {
-        id
-        sku
-        product {
-          taxClass {
-            id
-            name
-          }
-        }
-      }
-    }
-  }
-  quantity
-  unitPrice {
-    amount
-  }
-  totalPrice {
-    amount
-  }
-}
-    `;
-export const UntypedUserFragmentDoc = gql`
-    fragment User on User {
-  id
-  email
-  avataxCustomerCode: metafield(key: "avataxCustomerCode")
-}
-    `;
-export const UntypedTaxBaseFragmentDoc = gql`
-    fragment TaxBase on TaxableObject {
-  pricesEnteredWithTax
-  currency
-  channel {
-    slug
-    id
-  }
-  discounts {
-    ...TaxDiscount
-  }
-  address {
-    ...Address
-  }
-  shippingPrice {
-    amount
-  }
-  lines {
-    ...TaxBaseLine
-  }
-  sourceObject {
-    __typename
-    ... on Checkout {
-      id
-      avataxEntityCode: metafield(key: "avataxEntityCode")
-      avataxCustomerCode: metafield(key: "avataxCustomerCode")
-      avataxExemptionStatus: metafield(key: "avataxExemptionStatus")
-      avataxShipFromAddress: privateMetafield(key: "avataxShipFromAddress")
-      user {
-        ...User
-      }
-    }
-    ... on Order {
-      id
-      avataxEntityCode: metafield(key: "avataxEntityCode")
-      avataxCustomerCode: metafield(key: "avataxCustomerCode")
-      avataxExemptionStatus: metafield(key: "avataxExemptionStatus")
-      avataxShipFromAddress: privateMetafield(key: "avataxShipFromAddress")
-      user {
-        ...User
-      }
-    }
-  }
-}
-    `;
-export const UntypedCalculateTaxesEventFragmentDoc = gql`
-    fragment CalculateTaxesEvent on Event {
-  __typename
-  ...WebhookMetadata
-  ... on CalculateTaxes {
-    taxBase {
-      ...TaxBase
-    }
-    recipient {
-      privateMetadata {
-        key
-        value
-      }
-    }
-  }
-}
-    `;
-export const UntypedMetadataItemFragmentDoc = gql`
-    fragment MetadataItem on MetadataItem {
-  key
-  value
-}
-    `;
-export const UntypedTaxClassFragmentDoc = gql`
-    fragment TaxClass on TaxClass {
-  id
-  name
-}
-    `;
-export const UntypedChannelFragmentDoc = gql`
-    fragment Channel on Channel {
-  id
-  name
-  slug
-}
-    `;
-export const UntypedCountryWithCodeFragmentDoc = gql`
-    fragment CountryWithCode on CountryDisplay {
-  country
-  code
-  __typename
-}
-    `;
-export const UntypedTaxConfigurationPerCountryFragmentDoc = gql`
-    fragment TaxConfigurationPerCountry on TaxConfigurationPerCountry {
-  country {
-    ...CountryWithCode
-    __typename
-  }
-  chargeTaxes
-  taxCalculationStrategy
-  displayGrossPrices
-  __typename
-}
-    `;
-export const UntypedTaxConfigurationFragmentDoc = gql`
-    fragment TaxConfiguration on TaxConfiguration {
-  id
-  channel {
-    ...Channel
-  }
-  displayGrossPrices
-  pricesEnteredWithTax
-  chargeTaxes
-  taxCalculationStrategy
-  countries {
-    ...TaxConfigurationPerCountry
-    __typename
-  }
-  __typename
-}
-    `;
-export const UntypedOrderCancelledSubscriptionFragmentDoc = gql`
-    fragment OrderCancelledSubscription on Order {
-  id
-  avataxId: metafield(key: "avataxId")
-  channel {
-    id
-    slug
-  }
-}
-    `;
-export const UntypedOrderCancelledEventSubscriptionFragmentDoc = gql`
-    fragment OrderCancelledEventSubscription on Event {
-  __typename
-  ...WebhookMetadata
-  ... on OrderCancelled {
-    order {
-      ...OrderCancelledSubscription
-    }
-    recipient {
-      privateMetadata {
-        key
-        value
-      }
-    }
-  }
-}
-    `;
-export const UntypedOrderLineFragmentDoc = gql`
-    fragment OrderLine on OrderLine {
-  productSku
-  productVariantId
-  productName
-  quantity
-  taxClass {
-    id
-  }
-  unitPrice {
-    net {
-      amount
-    }
-  }
-  totalPrice {
-    net {
-      amount
-    }
-    tax {
-      amount
-    }
-    gross {
-      amount
-    }
-  }
-}
-    `;
-export const UntypedOrderConfirmedSubscriptionFragmentDoc = gql`
-    fragment OrderConfirmedSubscription on Order {
+type OrderFulfilledEventSubscription_AccountChangeEmailRequested_Fragment = { __typename: 'AccountChangeEmailRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_AccountConfirmationRequested_Fragment = { __typename: 'AccountConfirmationRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_AccountConfirmed_Fragment = { __typename: 'AccountConfirmed', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_AccountDeleteRequested_Fragment = { __typename: 'AccountDeleteRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_AccountDeleted_Fragment = { __typename: 'AccountDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_AccountEmailChanged_Fragment = { __typename: 'AccountEmailChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_AccountSetPasswordRequested_Fragment = { __typename: 'AccountSetPasswordRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_AddressCreated_Fragment = { __typename: 'AddressCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_AddressDeleted_Fragment = { __typename: 'AddressDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_AddressUpdated_Fragment = { __typename: 'AddressUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_AppDeleted_Fragment = { __typename: 'AppDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_AppInstalled_Fragment = { __typename: 'AppInstalled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_AppStatusChanged_Fragment = { __typename: 'AppStatusChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_AppUpdated_Fragment = { __typename: 'AppUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_AttributeCreated_Fragment = { __typename: 'AttributeCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_AttributeDeleted_Fragment = { __typename: 'AttributeDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_AttributeUpdated_Fragment = { __typename: 'AttributeUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_AttributeValueCreated_Fragment = { __typename: 'AttributeValueCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_AttributeValueDeleted_Fragment = { __typename: 'AttributeValueDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_AttributeValueUpdated_Fragment = { __typename: 'AttributeValueUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_CalculateTaxes_Fragment = { __typename: 'CalculateTaxes', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_CategoryCreated_Fragment = { __typename: 'CategoryCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_CategoryDeleted_Fragment = { __typename: 'CategoryDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_CategoryUpdated_Fragment = { __typename: 'CategoryUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_ChannelCreated_Fragment = { __typename: 'ChannelCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_ChannelDeleted_Fragment = { __typename: 'ChannelDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_ChannelMetadataUpdated_Fragment = { __typename: 'ChannelMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_ChannelStatusChanged_Fragment = { __typename: 'ChannelStatusChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_ChannelUpdated_Fragment = { __typename: 'ChannelUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_CheckoutCreated_Fragment = { __typename: 'CheckoutCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_CheckoutFilterShippingMethods_Fragment = { __typename: 'CheckoutFilterShippingMethods', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_CheckoutFullyAuthorized_Fragment = { __typename: 'CheckoutFullyAuthorized', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_CheckoutFullyPaid_Fragment = { __typename: 'CheckoutFullyPaid', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_CheckoutMetadataUpdated_Fragment = { __typename: 'CheckoutMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_CheckoutUpdated_Fragment = { __typename: 'CheckoutUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_CollectionCreated_Fragment = { __typename: 'CollectionCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_CollectionDeleted_Fragment = { __typename: 'CollectionDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_CollectionMetadataUpdated_Fragment = { __typename: 'CollectionMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_CollectionUpdated_Fragment = { __typename: 'CollectionUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_CustomerCreated_Fragment = { __typename: 'CustomerCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_CustomerMetadataUpdated_Fragment = { __typename: 'CustomerMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_CustomerUpdated_Fragment = { __typename: 'CustomerUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_DraftOrderCreated_Fragment = { __typename: 'DraftOrderCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_DraftOrderDeleted_Fragment = { __typename: 'DraftOrderDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_DraftOrderUpdated_Fragment = { __typename: 'DraftOrderUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_FulfillmentApproved_Fragment = { __typename: 'FulfillmentApproved', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_FulfillmentCanceled_Fragment = { __typename: 'FulfillmentCanceled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_FulfillmentCreated_Fragment = { __typename: 'FulfillmentCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_FulfillmentMetadataUpdated_Fragment = { __typename: 'FulfillmentMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_FulfillmentTrackingNumberUpdated_Fragment = { __typename: 'FulfillmentTrackingNumberUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_GiftCardCreated_Fragment = { __typename: 'GiftCardCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_GiftCardDeleted_Fragment = { __typename: 'GiftCardDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_GiftCardExportCompleted_Fragment = { __typename: 'GiftCardExportCompleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_GiftCardMetadataUpdated_Fragment = { __typename: 'GiftCardMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_GiftCardSent_Fragment = { __typename: 'GiftCardSent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_GiftCardStatusChanged_Fragment = { __typename: 'GiftCardStatusChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_GiftCardUpdated_Fragment = { __typename: 'GiftCardUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_InvoiceDeleted_Fragment = { __typename: 'InvoiceDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_InvoiceRequested_Fragment = { __typename: 'InvoiceRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_InvoiceSent_Fragment = { __typename: 'InvoiceSent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_ListStoredPaymentMethods_Fragment = { __typename: 'ListStoredPaymentMethods', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_MenuCreated_Fragment = { __typename: 'MenuCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_MenuDeleted_Fragment = { __typename: 'MenuDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_MenuItemCreated_Fragment = { __typename: 'MenuItemCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_MenuItemDeleted_Fragment = { __typename: 'MenuItemDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_MenuItemUpdated_Fragment = { __typename: 'MenuItemUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_MenuUpdated_Fragment = { __typename: 'MenuUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_OrderBulkCreated_Fragment = { __typename: 'OrderBulkCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_OrderCancelled_Fragment = { __typename: 'OrderCancelled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_OrderConfirmed_Fragment = { __typename: 'OrderConfirmed', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_OrderCreated_Fragment = { __typename: 'OrderCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_OrderExpired_Fragment = { __typename: 'OrderExpired', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_OrderFilterShippingMethods_Fragment = { __typename: 'OrderFilterShippingMethods', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_OrderFulfilled_Fragment = { __typename: 'OrderFulfilled', issuedAt?: string | null, version?: string | null, order?: { __typename?: 'Order', id: string, avataxId?: string | null, channel: { __typename?: 'Channel', id: string, slug: string } } | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_OrderFullyPaid_Fragment = { __typename: 'OrderFullyPaid', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_OrderFullyRefunded_Fragment = { __typename: 'OrderFullyRefunded', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_OrderMetadataUpdated_Fragment = { __typename: 'OrderMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_OrderPaid_Fragment = { __typename: 'OrderPaid', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_OrderRefunded_Fragment = { __typename: 'OrderRefunded', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_OrderUpdated_Fragment = { __typename: 'OrderUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_PageCreated_Fragment = { __typename: 'PageCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_PageDeleted_Fragment = { __typename: 'PageDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_PageTypeCreated_Fragment = { __typename: 'PageTypeCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_PageTypeDeleted_Fragment = { __typename: 'PageTypeDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_PageTypeUpdated_Fragment = { __typename: 'PageTypeUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_PageUpdated_Fragment = { __typename: 'PageUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_PaymentAuthorize_Fragment = { __typename: 'PaymentAuthorize', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_PaymentCaptureEvent_Fragment = { __typename: 'PaymentCaptureEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_PaymentConfirmEvent_Fragment = { __typename: 'PaymentConfirmEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_PaymentGatewayInitializeSession_Fragment = { __typename: 'PaymentGatewayInitializeSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_PaymentGatewayInitializeTokenizationSession_Fragment = { __typename: 'PaymentGatewayInitializeTokenizationSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_PaymentListGateways_Fragment = { __typename: 'PaymentListGateways', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_PaymentMethodInitializeTokenizationSession_Fragment = { __typename: 'PaymentMethodInitializeTokenizationSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_PaymentMethodProcessTokenizationSession_Fragment = { __typename: 'PaymentMethodProcessTokenizationSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_PaymentProcessEvent_Fragment = { __typename: 'PaymentProcessEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_PaymentRefundEvent_Fragment = { __typename: 'PaymentRefundEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_PaymentVoidEvent_Fragment = { __typename: 'PaymentVoidEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_PermissionGroupCreated_Fragment = { __typename: 'PermissionGroupCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_PermissionGroupDeleted_Fragment = { __typename: 'PermissionGroupDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_PermissionGroupUpdated_Fragment = { __typename: 'PermissionGroupUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_ProductCreated_Fragment = { __typename: 'ProductCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_ProductDeleted_Fragment = { __typename: 'ProductDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_ProductExportCompleted_Fragment = { __typename: 'ProductExportCompleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_ProductMediaCreated_Fragment = { __typename: 'ProductMediaCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_ProductMediaDeleted_Fragment = { __typename: 'ProductMediaDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_ProductMediaUpdated_Fragment = { __typename: 'ProductMediaUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_ProductMetadataUpdated_Fragment = { __typename: 'ProductMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_ProductUpdated_Fragment = { __typename: 'ProductUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_ProductVariantBackInStock_Fragment = { __typename: 'ProductVariantBackInStock', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_ProductVariantCreated_Fragment = { __typename: 'ProductVariantCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_ProductVariantDeleted_Fragment = { __typename: 'ProductVariantDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_ProductVariantMetadataUpdated_Fragment = { __typename: 'ProductVariantMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_ProductVariantOutOfStock_Fragment = { __typename: 'ProductVariantOutOfStock', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_ProductVariantStockUpdated_Fragment = { __typename: 'ProductVariantStockUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_ProductVariantUpdated_Fragment = { __typename: 'ProductVariantUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_PromotionCreated_Fragment = { __typename: 'PromotionCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_PromotionDeleted_Fragment = { __typename: 'PromotionDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_PromotionEnded_Fragment = { __typename: 'PromotionEnded', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_PromotionRuleCreated_Fragment = { __typename: 'PromotionRuleCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_PromotionRuleDeleted_Fragment = { __typename: 'PromotionRuleDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_PromotionRuleUpdated_Fragment = { __typename: 'PromotionRuleUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_PromotionStarted_Fragment = { __typename: 'PromotionStarted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_PromotionUpdated_Fragment = { __typename: 'PromotionUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_SaleCreated_Fragment = { __typename: 'SaleCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_SaleDeleted_Fragment = { __typename: 'SaleDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_SaleToggle_Fragment = { __typename: 'SaleToggle', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_SaleUpdated_Fragment = { __typename: 'SaleUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_ShippingListMethodsForCheckout_Fragment = { __typename: 'ShippingListMethodsForCheckout', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_ShippingPriceCreated_Fragment = { __typename: 'ShippingPriceCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_ShippingPriceDeleted_Fragment = { __typename: 'ShippingPriceDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_ShippingPriceUpdated_Fragment = { __typename: 'ShippingPriceUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_ShippingZoneCreated_Fragment = { __typename: 'ShippingZoneCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_ShippingZoneDeleted_Fragment = { __typename: 'ShippingZoneDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_ShippingZoneMetadataUpdated_Fragment = { __typename: 'ShippingZoneMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_ShippingZoneUpdated_Fragment = { __typename: 'ShippingZoneUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_ShopMetadataUpdated_Fragment = { __typename: 'ShopMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_StaffCreated_Fragment = { __typename: 'StaffCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_StaffDeleted_Fragment = { __typename: 'StaffDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_StaffSetPasswordRequested_Fragment = { __typename: 'StaffSetPasswordRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_StaffUpdated_Fragment = { __typename: 'StaffUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_StoredPaymentMethodDeleteRequested_Fragment = { __typename: 'StoredPaymentMethodDeleteRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_ThumbnailCreated_Fragment = { __typename: 'ThumbnailCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_TransactionCancelationRequested_Fragment = { __typename: 'TransactionCancelationRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_TransactionChargeRequested_Fragment = { __typename: 'TransactionChargeRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_TransactionInitializeSession_Fragment = { __typename: 'TransactionInitializeSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_TransactionItemMetadataUpdated_Fragment = { __typename: 'TransactionItemMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_TransactionProcessSession_Fragment = { __typename: 'TransactionProcessSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_TransactionRefundRequested_Fragment = { __typename: 'TransactionRefundRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_TranslationCreated_Fragment = { __typename: 'TranslationCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_TranslationUpdated_Fragment = { __typename: 'TranslationUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_VoucherCodeExportCompleted_Fragment = { __typename: 'VoucherCodeExportCompleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_VoucherCodesCreated_Fragment = { __typename: 'VoucherCodesCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_VoucherCodesDeleted_Fragment = { __typename: 'VoucherCodesDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_VoucherCreated_Fragment = { __typename: 'VoucherCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_VoucherDeleted_Fragment = { __typename: 'VoucherDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_VoucherMetadataUpdated_Fragment = { __typename: 'VoucherMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_VoucherUpdated_Fragment = { __typename: 'VoucherUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_WarehouseCreated_Fragment = { __typename: 'WarehouseCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_WarehouseDeleted_Fragment = { __typename: 'WarehouseDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_WarehouseMetadataUpdated_Fragment = { __typename: 'WarehouseMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFulfilledEventSubscription_WarehouseUpdated_Fragment = { __typename: 'WarehouseUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+export type OrderFulfilledEventSubscriptionFragment = OrderFulfilledEventSubscription_AccountChangeEmailRequested_Fragment | OrderFulfilledEventSubscription_AccountConfirmationRequested_Fragment | OrderFulfilledEventSubscription_AccountConfirmed_Fragment | OrderFulfilledEventSubscription_AccountDeleteRequested_Fragment | OrderFulfilledEventSubscription_AccountDeleted_Fragment | OrderFulfilledEventSubscription_AccountEmailChanged_Fragment | OrderFulfilledEventSubscription_AccountSetPasswordRequested_Fragment | OrderFulfilledEventSubscription_AddressCreated_Fragment | OrderFulfilledEventSubscription_AddressDeleted_Fragment | OrderFulfilledEventSubscription_AddressUpdated_Fragment | OrderFulfilledEventSubscription_AppDeleted_Fragment | OrderFulfilledEventSubscription_AppInstalled_Fragment | OrderFulfilledEventSubscription_AppStatusChanged_Fragment | OrderFulfilledEventSubscription_AppUpdated_Fragment | OrderFulfilledEventSubscription_AttributeCreated_Fragment | OrderFulfilledEventSubscription_AttributeDeleted_Fragment | OrderFulfilledEventSubscription_AttributeUpdated_Fragment | OrderFulfilledEventSubscription_AttributeValueCreated_Fragment | OrderFulfilledEventSubscription_AttributeValueDeleted_Fragment | OrderFulfilledEventSubscription_AttributeValueUpdated_Fragment | OrderFulfilledEventSubscription_CalculateTaxes_Fragment | OrderFulfilledEventSubscription_CategoryCreated_Fragment | OrderFulfilledEventSubscription_CategoryDeleted_Fragment | OrderFulfilledEventSubscription_CategoryUpdated_Fragment | OrderFulfilledEventSubscription_ChannelCreated_Fragment | OrderFulfilledEventSubscription_ChannelDeleted_Fragment | OrderFulfilledEventSubscription_ChannelMetadataUpdated_Fragment | OrderFulfilledEventSubscription_ChannelStatusChanged_Fragment | OrderFulfilledEventSubscription_ChannelUpdated_Fragment | OrderFulfilledEventSubscription_CheckoutCreated_Fragment | OrderFulfilledEventSubscription_CheckoutFilterShippingMethods_Fragment | OrderFulfilledEventSubscription_CheckoutFullyAuthorized_Fragment | OrderFulfilledEventSubscription_CheckoutFullyPaid_Fragment | OrderFulfilledEventSubscription_CheckoutMetadataUpdated_Fragment | OrderFulfilledEventSubscription_CheckoutUpdated_Fragment | OrderFulfilledEventSubscription_CollectionCreated_Fragment | OrderFulfilledEventSubscription_CollectionDeleted_Fragment | OrderFulfilledEventSubscription_CollectionMetadataUpdated_Fragment | OrderFulfilledEventSubscription_CollectionUpdated_Fragment | OrderFulfilledEventSubscription_CustomerCreated_Fragment | OrderFulfilledEventSubscription_CustomerMetadataUpdated_Fragment | OrderFulfilledEventSubscription_CustomerUpdated_Fragment | OrderFulfilledEventSubscription_DraftOrderCreated_Fragment | OrderFulfilledEventSubscription_DraftOrderDeleted_Fragment | OrderFulfilledEventSubscription_DraftOrderUpdated_Fragment | OrderFulfilledEventSubscription_FulfillmentApproved_Fragment | OrderFulfilledEventSubscription_FulfillmentCanceled_Fragment | OrderFulfilledEventSubscription_FulfillmentCreated_Fragment | OrderFulfilledEventSubscription_FulfillmentMetadataUpdated_Fragment | OrderFulfilledEventSubscription_FulfillmentTrackingNumberUpdated_Fragment | OrderFulfilledEventSubscription_GiftCardCreated_Fragment | OrderFulfilledEventSubscription_GiftCardDeleted_Fragment | OrderFulfilledEventSubscription_GiftCardExportCompleted_Fragment | OrderFulfilledEventSubscription_GiftCardMetadataUpdated_Fragment | OrderFulfilledEventSubscription_GiftCardSent_Fragment | OrderFulfilledEventSubscription_GiftCardStatusChanged_Fragment | OrderFulfilledEventSubscription_GiftCardUpdated_Fragment | OrderFulfilledEventSubscription_InvoiceDeleted_Fragment | OrderFulfilledEventSubscription_InvoiceRequested_Fragment | OrderFulfilledEventSubscription_InvoiceSent_Fragment | OrderFulfilledEventSubscription_ListStoredPaymentMethods_Fragment | OrderFulfilledEventSubscription_MenuCreated_Fragment | OrderFulfilledEventSubscription_MenuDeleted_Fragment | OrderFulfilledEventSubscription_MenuItemCreated_Fragment | OrderFulfilledEventSubscription_MenuItemDeleted_Fragment | OrderFulfilledEventSubscription_MenuItemUpdated_Fragment | OrderFulfilledEventSubscription_MenuUpdated_Fragment | OrderFulfilledEventSubscription_OrderBulkCreated_Fragment | OrderFulfilledEventSubscription_OrderCancelled_Fragment | OrderFulfilledEventSubscription_OrderConfirmed_Fragment | OrderFulfilledEventSubscription_OrderCreated_Fragment | OrderFulfilledEventSubscription_OrderExpired_Fragment | OrderFulfilledEventSubscription_OrderFilterShippingMethods_Fragment | OrderFulfilledEventSubscription_OrderFulfilled_Fragment | OrderFulfilledEventSubscription_OrderFullyPaid_Fragment | OrderFulfilledEventSubscription_OrderFullyRefunded_Fragment | OrderFulfilledEventSubscription_OrderMetadataUpdated_Fragment | OrderFulfilledEventSubscription_OrderPaid_Fragment | OrderFulfilledEventSubscription_OrderRefunded_Fragment | OrderFulfilledEventSubscription_OrderUpdated_Fragment | OrderFulfilledEventSubscription_PageCreated_Fragment | OrderFulfilledEventSubscription_PageDeleted_Fragment | OrderFulfilledEventSubscription_PageTypeCreated_Fragment | OrderFulfilledEventSubscription_PageTypeDeleted_Fragment | OrderFulfilledEventSubscription_PageTypeUpdated_Fragment | OrderFulfilledEventSubscription_PageUpdated_Fragment | OrderFulfilledEventSubscription_PaymentAuthorize_Fragment | OrderFulfilledEventSubscription_PaymentCaptureEvent_Fragment | OrderFulfilledEventSubscription_PaymentConfirmEvent_Fragment | OrderFulfilledEventSubscription_PaymentGatewayInitializeSession_Fragment | OrderFulfilledEventSubscription_PaymentGatewayInitializeTokenizationSession_Fragment | OrderFulfilledEventSubscription_PaymentListGateways_Fragment | OrderFulfilledEventSubscription_PaymentMethodInitializeTokenizationSession_Fragment | OrderFulfilledEventSubscription_PaymentMethodProcessTokenizationSession_Fragment | OrderFulfilledEventSubscription_PaymentProcessEvent_Fragment | OrderFulfilledEventSubscription_PaymentRefundEvent_Fragment | OrderFulfilledEventSubscription_PaymentVoidEvent_Fragment | OrderFulfilledEventSubscription_PermissionGroupCreated_Fragment | OrderFulfilledEventSubscription_PermissionGroupDeleted_Fragment | OrderFulfilledEventSubscription_PermissionGroupUpdated_Fragment | OrderFulfilledEventSubscription_ProductCreated_Fragment | OrderFulfilledEventSubscription_ProductDeleted_Fragment | OrderFulfilledEventSubscription_ProductExportCompleted_Fragment | OrderFulfilledEventSubscription_ProductMediaCreated_Fragment | OrderFulfilledEventSubscription_ProductMediaDeleted_Fragment | OrderFulfilledEventSubscription_ProductMediaUpdated_Fragment | OrderFulfilledEventSubscription_ProductMetadataUpdated_Fragment | OrderFulfilledEventSubscription_ProductUpdated_Fragment | OrderFulfilledEventSubscription_ProductVariantBackInStock_Fragment | OrderFulfilledEventSubscription_ProductVariantCreated_Fragment | OrderFulfilledEventSubscription_ProductVariantDeleted_Fragment | OrderFulfilledEventSubscription_ProductVariantMetadataUpdated_Fragment | OrderFulfilledEventSubscription_ProductVariantOutOfStock_Fragment | OrderFulfilledEventSubscription_ProductVariantStockUpdated_Fragment | OrderFulfilledEventSubscription_ProductVariantUpdated_Fragment | OrderFulfilledEventSubscription_PromotionCreated_Fragment | OrderFulfilledEventSubscription_PromotionDeleted_Fragment | OrderFulfilledEventSubscription_PromotionEnded_Fragment | OrderFulfilledEventSubscription_PromotionRuleCreated_Fragment | OrderFulfilledEventSubscription_PromotionRuleDeleted_Fragment | OrderFulfilledEventSubscription_PromotionRuleUpdated_Fragment | OrderFulfilledEventSubscription_PromotionStarted_Fragment | OrderFulfilledEventSubscription_PromotionUpdated_Fragment | OrderFulfilledEventSubscription_SaleCreated_Fragment | OrderFulfilledEventSubscription_SaleDeleted_Fragment | OrderFulfilledEventSubscription_SaleToggle_Fragment | OrderFulfilledEventSubscription_SaleUpdated_Fragment | OrderFulfilledEventSubscription_ShippingListMethodsForCheckout_Fragment | OrderFulfilledEventSubscription_ShippingPriceCreated_Fragment | OrderFulfilledEventSubscription_ShippingPriceDeleted_Fragment | OrderFulfilledEventSubscription_ShippingPriceUpdated_Fragment | OrderFulfilledEventSubscription_ShippingZoneCreated_Fragment | OrderFulfilledEventSubscription_ShippingZoneDeleted_Fragment | OrderFulfilledEventSubscription_ShippingZoneMetadataUpdated_Fragment | OrderFulfilledEventSubscription_ShippingZoneUpdated_Fragment | OrderFulfilledEventSubscription_ShopMetadataUpdated_Fragment | OrderFulfilledEventSubscription_StaffCreated_Fragment | OrderFulfilledEventSubscription_StaffDeleted_Fragment | OrderFulfilledEventSubscription_StaffSetPasswordRequested_Fragment | OrderFulfilledEventSubscription_StaffUpdated_Fragment | OrderFulfilledEventSubscription_StoredPaymentMethodDeleteRequested_Fragment | OrderFulfilledEventSubscription_ThumbnailCreated_Fragment | OrderFulfilledEventSubscription_TransactionCancelationRequested_Fragment | OrderFulfilledEventSubscription_TransactionChargeRequested_Fragment | OrderFulfilledEventSubscription_TransactionInitializeSession_Fragment | OrderFulfilledEventSubscription_TransactionItemMetadataUpdated_Fragment | OrderFulfilledEventSubscription_TransactionProcessSession_Fragment | OrderFulfilledEventSubscription_TransactionRefundRequested_Fragment | OrderFulfilledEventSubscription_TranslationCreated_Fragment | OrderFulfilledEventSubscription_TranslationUpdated_Fragment | OrderFulfilledEventSubscription_VoucherCodeExportCompleted_Fragment | OrderFulfilledEventSubscription_VoucherCodesCreated_Fragment | OrderFulfilledEventSubscription_VoucherCodesDeleted_Fragment | OrderFulfilledEventSubscription_VoucherCreated_Fragment | OrderFulfilledEventSubscription_VoucherDeleted_Fragment | OrderFulfilledEventSubscription_VoucherMetadataUpdated_Fragment | OrderFulfilledEventSubscription_VoucherUpdated_Fragment | OrderFulfilledEventSubscription_WarehouseCreated_Fragment | OrderFulfilledEventSubscription_WarehouseDeleted_Fragment | OrderFulfilledEventSubscription_WarehouseMetadataUpdated_Fragment | OrderFulfilledEventSubscription_WarehouseUpdated_Fragment;
+
+export type OrderFulfilledSubscriptionSubscriptionVariables = Exact<{ [key: string]: never; }>;
+
+
+export type OrderFulfilledSubscriptionSubscription = { __typename?: 'Subscription', event?: { __typename: 'AccountChangeEmailRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountConfirmationRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountConfirmed', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountDeleteRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountEmailChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountSetPasswordRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AddressCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AddressDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AddressUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AppDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AppInstalled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AppStatusChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AppUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeValueCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeValueDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeValueUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CalculateTaxes', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CategoryCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CategoryDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CategoryUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ChannelCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ChannelDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ChannelMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ChannelStatusChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ChannelUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutFilterShippingMethods', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutFullyAuthorized', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutFullyPaid', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CollectionCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CollectionDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CollectionMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CollectionUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CustomerCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CustomerMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CustomerUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'DraftOrderCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'DraftOrderDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'DraftOrderUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'FulfillmentApproved', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'FulfillmentCanceled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'FulfillmentCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'FulfillmentMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'FulfillmentTrackingNumberUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardExportCompleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardSent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardStatusChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'InvoiceDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'InvoiceRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'InvoiceSent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ListStoredPaymentMethods', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuItemCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuItemDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuItemUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderBulkCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderCancelled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderConfirmed', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderExpired', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderFilterShippingMethods', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderFulfilled', issuedAt?: string | null, version?: string | null, order?: { __typename?: 'Order', id: string, avataxId?: string | null, channel: { __typename?: 'Channel', id: string, slug: string } } | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderFullyPaid', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderFullyRefunded', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderPaid', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderRefunded', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageTypeCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageTypeDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageTypeUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentAuthorize', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentCaptureEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentConfirmEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentGatewayInitializeSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentGatewayInitializeTokenizationSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentListGateways', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentMethodInitializeTokenizationSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentMethodProcessTokenizationSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentProcessEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentRefundEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentVoidEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PermissionGroupCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PermissionGroupDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PermissionGroupUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductExportCompleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductMediaCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductMediaDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductMediaUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantBackInStock', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantOutOfStock', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantStockUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionEnded', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionRuleCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionRuleDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionRuleUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionStarted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'SaleCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'SaleDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'SaleToggle', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'SaleUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingListMethodsForCheckout', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingPriceCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingPriceDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingPriceUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingZoneCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingZoneDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingZoneMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingZoneUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShopMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'StaffCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'StaffDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'StaffSetPasswordRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'StaffUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'StoredPaymentMethodDeleteRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ThumbnailCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionCancelationRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionChargeRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionInitializeSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionItemMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionProcessSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionRefundRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TranslationCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TranslationUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherCodeExportCompleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherCodesCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherCodesDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'WarehouseCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'WarehouseDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'WarehouseMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'WarehouseUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | null };
+
+type OrderFullyPaidEventSubscription_AccountChangeEmailRequested_Fragment = { __typename: 'AccountChangeEmailRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_AccountConfirmationRequested_Fragment = { __typename: 'AccountConfirmationRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_AccountConfirmed_Fragment = { __typename: 'AccountConfirmed', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_AccountDeleteRequested_Fragment = { __typename: 'AccountDeleteRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_AccountDeleted_Fragment = { __typename: 'AccountDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_AccountEmailChanged_Fragment = { __typename: 'AccountEmailChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_AccountSetPasswordRequested_Fragment = { __typename: 'AccountSetPasswordRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_AddressCreated_Fragment = { __typename: 'AddressCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_AddressDeleted_Fragment = { __typename: 'AddressDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_AddressUpdated_Fragment = { __typename: 'AddressUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_AppDeleted_Fragment = { __typename: 'AppDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_AppInstalled_Fragment = { __typename: 'AppInstalled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_AppStatusChanged_Fragment = { __typename: 'AppStatusChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_AppUpdated_Fragment = { __typename: 'AppUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_AttributeCreated_Fragment = { __typename: 'AttributeCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_AttributeDeleted_Fragment = { __typename: 'AttributeDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_AttributeUpdated_Fragment = { __typename: 'AttributeUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_AttributeValueCreated_Fragment = { __typename: 'AttributeValueCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_AttributeValueDeleted_Fragment = { __typename: 'AttributeValueDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_AttributeValueUpdated_Fragment = { __typename: 'AttributeValueUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_CalculateTaxes_Fragment = { __typename: 'CalculateTaxes', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_CategoryCreated_Fragment = { __typename: 'CategoryCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_CategoryDeleted_Fragment = { __typename: 'CategoryDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_CategoryUpdated_Fragment = { __typename: 'CategoryUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_ChannelCreated_Fragment = { __typename: 'ChannelCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_ChannelDeleted_Fragment = { __typename: 'ChannelDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_ChannelMetadataUpdated_Fragment = { __typename: 'ChannelMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_ChannelStatusChanged_Fragment = { __typename: 'ChannelStatusChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_ChannelUpdated_Fragment = { __typename: 'ChannelUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_CheckoutCreated_Fragment = { __typename: 'CheckoutCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_CheckoutFilterShippingMethods_Fragment = { __typename: 'CheckoutFilterShippingMethods', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_CheckoutFullyAuthorized_Fragment = { __typename: 'CheckoutFullyAuthorized', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_CheckoutFullyPaid_Fragment = { __typename: 'CheckoutFullyPaid', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_CheckoutMetadataUpdated_Fragment = { __typename: 'CheckoutMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_CheckoutUpdated_Fragment = { __typename: 'CheckoutUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_CollectionCreated_Fragment = { __typename: 'CollectionCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_CollectionDeleted_Fragment = { __typename: 'CollectionDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_CollectionMetadataUpdated_Fragment = { __typename: 'CollectionMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_CollectionUpdated_Fragment = { __typename: 'CollectionUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_CustomerCreated_Fragment = { __typename: 'CustomerCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_CustomerMetadataUpdated_Fragment = { __typename: 'CustomerMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_CustomerUpdated_Fragment = { __typename: 'CustomerUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_DraftOrderCreated_Fragment = { __typename: 'DraftOrderCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_DraftOrderDeleted_Fragment = { __typename: 'DraftOrderDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_DraftOrderUpdated_Fragment = { __typename: 'DraftOrderUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_FulfillmentApproved_Fragment = { __typename: 'FulfillmentApproved', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_FulfillmentCanceled_Fragment = { __typename: 'FulfillmentCanceled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_FulfillmentCreated_Fragment = { __typename: 'FulfillmentCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_FulfillmentMetadataUpdated_Fragment = { __typename: 'FulfillmentMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_FulfillmentTrackingNumberUpdated_Fragment = { __typename: 'FulfillmentTrackingNumberUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_GiftCardCreated_Fragment = { __typename: 'GiftCardCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_GiftCardDeleted_Fragment = { __typename: 'GiftCardDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_GiftCardExportCompleted_Fragment = { __typename: 'GiftCardExportCompleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_GiftCardMetadataUpdated_Fragment = { __typename: 'GiftCardMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_GiftCardSent_Fragment = { __typename: 'GiftCardSent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_GiftCardStatusChanged_Fragment = { __typename: 'GiftCardStatusChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_GiftCardUpdated_Fragment = { __typename: 'GiftCardUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_InvoiceDeleted_Fragment = { __typename: 'InvoiceDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_InvoiceRequested_Fragment = { __typename: 'InvoiceRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_InvoiceSent_Fragment = { __typename: 'InvoiceSent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_ListStoredPaymentMethods_Fragment = { __typename: 'ListStoredPaymentMethods', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_MenuCreated_Fragment = { __typename: 'MenuCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_MenuDeleted_Fragment = { __typename: 'MenuDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_MenuItemCreated_Fragment = { __typename: 'MenuItemCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_MenuItemDeleted_Fragment = { __typename: 'MenuItemDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_MenuItemUpdated_Fragment = { __typename: 'MenuItemUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_MenuUpdated_Fragment = { __typename: 'MenuUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_OrderBulkCreated_Fragment = { __typename: 'OrderBulkCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_OrderCancelled_Fragment = { __typename: 'OrderCancelled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_OrderConfirmed_Fragment = { __typename: 'OrderConfirmed', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_OrderCreated_Fragment = { __typename: 'OrderCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_OrderExpired_Fragment = { __typename: 'OrderExpired', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_OrderFilterShippingMethods_Fragment = { __typename: 'OrderFilterShippingMethods', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_OrderFulfilled_Fragment = { __typename: 'OrderFulfilled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_OrderFullyPaid_Fragment = { __typename: 'OrderFullyPaid', issuedAt?: string | null, version?: string | null, order?: { __typename?: 'Order', id: string, avataxId?: string | null, channel: { __typename?: 'Channel', id: string, slug: string } } | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_OrderFullyRefunded_Fragment = { __typename: 'OrderFullyRefunded', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_OrderMetadataUpdated_Fragment = { __typename: 'OrderMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_OrderPaid_Fragment = { __typename: 'OrderPaid', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_OrderRefunded_Fragment = { __typename: 'OrderRefunded', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_OrderUpdated_Fragment = { __typename: 'OrderUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_PageCreated_Fragment = { __typename: 'PageCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_PageDeleted_Fragment = { __typename: 'PageDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_PageTypeCreated_Fragment = { __typename: 'PageTypeCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_PageTypeDeleted_Fragment = { __typename: 'PageTypeDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_PageTypeUpdated_Fragment = { __typename: 'PageTypeUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_PageUpdated_Fragment = { __typename: 'PageUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_PaymentAuthorize_Fragment = { __typename: 'PaymentAuthorize', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_PaymentCaptureEvent_Fragment = { __typename: 'PaymentCaptureEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_PaymentConfirmEvent_Fragment = { __typename: 'PaymentConfirmEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_PaymentGatewayInitializeSession_Fragment = { __typename: 'PaymentGatewayInitializeSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_PaymentGatewayInitializeTokenizationSession_Fragment = { __typename: 'PaymentGatewayInitializeTokenizationSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_PaymentListGateways_Fragment = { __typename: 'PaymentListGateways', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_PaymentMethodInitializeTokenizationSession_Fragment = { __typename: 'PaymentMethodInitializeTokenizationSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_PaymentMethodProcessTokenizationSession_Fragment = { __typename: 'PaymentMethodProcessTokenizationSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_PaymentProcessEvent_Fragment = { __typename: 'PaymentProcessEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_PaymentRefundEvent_Fragment = { __typename: 'PaymentRefundEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_PaymentVoidEvent_Fragment = { __typename: 'PaymentVoidEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_PermissionGroupCreated_Fragment = { __typename: 'PermissionGroupCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_PermissionGroupDeleted_Fragment = { __typename: 'PermissionGroupDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_PermissionGroupUpdated_Fragment = { __typename: 'PermissionGroupUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_ProductCreated_Fragment = { __typename: 'ProductCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_ProductDeleted_Fragment = { __typename: 'ProductDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_ProductExportCompleted_Fragment = { __typename: 'ProductExportCompleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_ProductMediaCreated_Fragment = { __typename: 'ProductMediaCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_ProductMediaDeleted_Fragment = { __typename: 'ProductMediaDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_ProductMediaUpdated_Fragment = { __typename: 'ProductMediaUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_ProductMetadataUpdated_Fragment = { __typename: 'ProductMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_ProductUpdated_Fragment = { __typename: 'ProductUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_ProductVariantBackInStock_Fragment = { __typename: 'ProductVariantBackInStock', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_ProductVariantCreated_Fragment = { __typename: 'ProductVariantCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_ProductVariantDeleted_Fragment = { __typename: 'ProductVariantDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_ProductVariantMetadataUpdated_Fragment = { __typename: 'ProductVariantMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_ProductVariantOutOfStock_Fragment = { __typename: 'ProductVariantOutOfStock', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_ProductVariantStockUpdated_Fragment = { __typename: 'ProductVariantStockUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_ProductVariantUpdated_Fragment = { __typename: 'ProductVariantUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_PromotionCreated_Fragment = { __typename: 'PromotionCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_PromotionDeleted_Fragment = { __typename: 'PromotionDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_PromotionEnded_Fragment = { __typename: 'PromotionEnded', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_PromotionRuleCreated_Fragment = { __typename: 'PromotionRuleCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_PromotionRuleDeleted_Fragment = { __typename: 'PromotionRuleDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_PromotionRuleUpdated_Fragment = { __typename: 'PromotionRuleUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_PromotionStarted_Fragment = { __typename: 'PromotionStarted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_PromotionUpdated_Fragment = { __typename: 'PromotionUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_SaleCreated_Fragment = { __typename: 'SaleCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_SaleDeleted_Fragment = { __typename: 'SaleDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_SaleToggle_Fragment = { __typename: 'SaleToggle', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_SaleUpdated_Fragment = { __typename: 'SaleUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_ShippingListMethodsForCheckout_Fragment = { __typename: 'ShippingListMethodsForCheckout', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_ShippingPriceCreated_Fragment = { __typename: 'ShippingPriceCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_ShippingPriceDeleted_Fragment = { __typename: 'ShippingPriceDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_ShippingPriceUpdated_Fragment = { __typename: 'ShippingPriceUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_ShippingZoneCreated_Fragment = { __typename: 'ShippingZoneCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_ShippingZoneDeleted_Fragment = { __typename: 'ShippingZoneDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_ShippingZoneMetadataUpdated_Fragment = { __typename: 'ShippingZoneMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_ShippingZoneUpdated_Fragment = { __typename: 'ShippingZoneUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_ShopMetadataUpdated_Fragment = { __typename: 'ShopMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_StaffCreated_Fragment = { __typename: 'StaffCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_StaffDeleted_Fragment = { __typename: 'StaffDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_StaffSetPasswordRequested_Fragment = { __typename: 'StaffSetPasswordRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_StaffUpdated_Fragment = { __typename: 'StaffUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_StoredPaymentMethodDeleteRequested_Fragment = { __typename: 'StoredPaymentMethodDeleteRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_ThumbnailCreated_Fragment = { __typename: 'ThumbnailCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_TransactionCancelationRequested_Fragment = { __typename: 'TransactionCancelationRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_TransactionChargeRequested_Fragment = { __typename: 'TransactionChargeRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_TransactionInitializeSession_Fragment = { __typename: 'TransactionInitializeSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_TransactionItemMetadataUpdated_Fragment = { __typename: 'TransactionItemMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_TransactionProcessSession_Fragment = { __typename: 'TransactionProcessSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_TransactionRefundRequested_Fragment = { __typename: 'TransactionRefundRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_TranslationCreated_Fragment = { __typename: 'TranslationCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_TranslationUpdated_Fragment = { __typename: 'TranslationUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_VoucherCodeExportCompleted_Fragment = { __typename: 'VoucherCodeExportCompleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_VoucherCodesCreated_Fragment = { __typename: 'VoucherCodesCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_VoucherCodesDeleted_Fragment = { __typename: 'VoucherCodesDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_VoucherCreated_Fragment = { __typename: 'VoucherCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_VoucherDeleted_Fragment = { __typename: 'VoucherDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_VoucherMetadataUpdated_Fragment = { __typename: 'VoucherMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_VoucherUpdated_Fragment = { __typename: 'VoucherUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_WarehouseCreated_Fragment = { __typename: 'WarehouseCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_WarehouseDeleted_Fragment = { __typename: 'WarehouseDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_WarehouseMetadataUpdated_Fragment = { __typename: 'WarehouseMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderFullyPaidEventSubscription_WarehouseUpdated_Fragment = { __typename: 'WarehouseUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+export type OrderFullyPaidEventSubscriptionFragment = OrderFullyPaidEventSubscription_AccountChangeEmailRequested_Fragment | OrderFullyPaidEventSubscription_AccountConfirmationRequested_Fragment | OrderFullyPaidEventSubscription_AccountConfirmed_Fragment | OrderFullyPaidEventSubscription_AccountDeleteRequested_Fragment | OrderFullyPaidEventSubscription_AccountDeleted_Fragment | OrderFullyPaidEventSubscription_AccountEmailChanged_Fragment | OrderFullyPaidEventSubscription_AccountSetPasswordRequested_Fragment | OrderFullyPaidEventSubscription_AddressCreated_Fragment | OrderFullyPaidEventSubscription_AddressDeleted_Fragment | OrderFullyPaidEventSubscription_AddressUpdated_Fragment | OrderFullyPaidEventSubscription_AppDeleted_Fragment | OrderFullyPaidEventSubscription_AppInstalled_Fragment | OrderFullyPaidEventSubscription_AppStatusChanged_Fragment | OrderFullyPaidEventSubscription_AppUpdated_Fragment | OrderFullyPaidEventSubscription_AttributeCreated_Fragment | OrderFullyPaidEventSubscription_AttributeDeleted_Fragment | OrderFullyPaidEventSubscription_AttributeUpdated_Fragment | OrderFullyPaidEventSubscription_AttributeValueCreated_Fragment | OrderFullyPaidEventSubscription_AttributeValueDeleted_Fragment | OrderFullyPaidEventSubscription_AttributeValueUpdated_Fragment | OrderFullyPaidEventSubscription_CalculateTaxes_Fragment | OrderFullyPaidEventSubscription_CategoryCreated_Fragment | OrderFullyPaidEventSubscription_CategoryDeleted_Fragment | OrderFullyPaidEventSubscription_CategoryUpdated_Fragment | OrderFullyPaidEventSubscription_ChannelCreated_Fragment | OrderFullyPaidEventSubscription_ChannelDeleted_Fragment | OrderFullyPaidEventSubscription_ChannelMetadataUpdated_Fragment | OrderFullyPaidEventSubscription_ChannelStatusChanged_Fragment | OrderFullyPaidEventSubscription_ChannelUpdated_Fragment | OrderFullyPaidEventSubscription_CheckoutCreated_Fragment | OrderFullyPaidEventSubscription_CheckoutFilterShippingMethods_Fragment | OrderFullyPaidEventSubscription_CheckoutFullyAuthorized_Fragment | OrderFullyPaidEventSubscription_CheckoutFullyPaid_Fragment | OrderFullyPaidEventSubscription_CheckoutMetadataUpdated_Fragment | OrderFullyPaidEventSubscription_CheckoutUpdated_Fragment | OrderFullyPaidEventSubscription_CollectionCreated_Fragment | OrderFullyPaidEventSubscription_CollectionDeleted_Fragment | OrderFullyPaidEventSubscription_CollectionMetadataUpdated_Fragment | OrderFullyPaidEventSubscription_CollectionUpdated_Fragment | OrderFullyPaidEventSubscription_CustomerCreated_Fragment | OrderFullyPaidEventSubscription_CustomerMetadataUpdated_Fragment | OrderFullyPaidEventSubscription_CustomerUpdated_Fragment | OrderFullyPaidEventSubscription_DraftOrderCreated_Fragment | OrderFullyPaidEventSubscription_DraftOrderDeleted_Fragment | OrderFullyPaidEventSubscription_DraftOrderUpdated_Fragment | OrderFullyPaidEventSubscription_FulfillmentApproved_Fragment | OrderFullyPaidEventSubscription_FulfillmentCanceled_Fragment | OrderFullyPaidEventSubscription_FulfillmentCreated_Fragment | OrderFullyPaidEventSubscription_FulfillmentMetadataUpdated_Fragment | OrderFullyPaidEventSubscription_FulfillmentTrackingNumberUpdated_Fragment | OrderFullyPaidEventSubscription_GiftCardCreated_Fragment | OrderFullyPaidEventSubscription_GiftCardDeleted_Fragment | OrderFullyPaidEventSubscription_GiftCardExportCompleted_Fragment | OrderFullyPaidEventSubscription_GiftCardMetadataUpdated_Fragment | OrderFullyPaidEventSubscription_GiftCardSent_Fragment | OrderFullyPaidEventSubscription_GiftCardStatusChanged_Fragment | OrderFullyPaidEventSubscription_GiftCardUpdated_Fragment | OrderFullyPaidEventSubscription_InvoiceDeleted_Fragment | OrderFullyPaidEventSubscription_InvoiceRequested_Fragment | OrderFullyPaidEventSubscription_InvoiceSent_Fragment | OrderFullyPaidEventSubscription_ListStoredPaymentMethods_Fragment | OrderFullyPaidEventSubscription_MenuCreated_Fragment | OrderFullyPaidEventSubscription_MenuDeleted_Fragment | OrderFullyPaidEventSubscription_MenuItemCreated_Fragment | OrderFullyPaidEventSubscription_MenuItemDeleted_Fragment | OrderFullyPaidEventSubscription_MenuItemUpdated_Fragment | OrderFullyPaidEventSubscription_MenuUpdated_Fragment | OrderFullyPaidEventSubscription_OrderBulkCreated_Fragment | OrderFullyPaidEventSubscription_OrderCancelled_Fragment | OrderFullyPaidEventSubscription_OrderConfirmed_Fragment | OrderFullyPaidEventSubscription_OrderCreated_Fragment | OrderFullyPaidEventSubscription_OrderExpired_Fragment | OrderFullyPaidEventSubscription_OrderFilterShippingMethods_Fragment | OrderFullyPaidEventSubscription_OrderFulfilled_Fragment | OrderFullyPaidEventSubscription_OrderFullyPaid_Fragment | OrderFullyPaidEventSubscription_OrderFullyRefunded_Fragment | OrderFullyPaidEventSubscription_OrderMetadataUpdated_Fragment | OrderFullyPaidEventSubscription_OrderPaid_Fragment | OrderFullyPaidEventSubscription_OrderRefunded_Fragment | OrderFullyPaidEventSubscription_OrderUpdated_Fragment | OrderFullyPaidEventSubscription_PageCreated_Fragment | OrderFullyPaidEventSubscription_PageDeleted_Fragment | OrderFullyPaidEventSubscription_PageTypeCreated_Fragment | OrderFullyPaidEventSubscription_PageTypeDeleted_Fragment | OrderFullyPaidEventSubscription_PageTypeUpdated_Fragment | OrderFullyPaidEventSubscription_PageUpdated_Fragment | OrderFullyPaidEventSubscription_PaymentAuthorize_Fragment | OrderFullyPaidEventSubscription_PaymentCaptureEvent_Fragment | OrderFullyPaidEventSubscription_PaymentConfirmEvent_Fragment | OrderFullyPaidEventSubscription_PaymentGatewayInitializeSession_Fragment | OrderFullyPaidEventSubscription_PaymentGatewayInitializeTokenizationSession_Fragment | OrderFullyPaidEventSubscription_PaymentListGateways_Fragment | OrderFullyPaidEventSubscription_PaymentMethodInitializeTokenizationSession_Fragment | OrderFullyPaidEventSubscription_PaymentMethodProcessTokenizationSession_Fragment | OrderFullyPaidEventSubscription_PaymentProcessEvent_Fragment | OrderFullyPaidEventSubscription_PaymentRefundEvent_Fragment | OrderFullyPaidEventSubscription_PaymentVoidEvent_Fragment | OrderFullyPaidEventSubscription_PermissionGroupCreated_Fragment | OrderFullyPaidEventSubscription_PermissionGroupDeleted_Fragment | OrderFullyPaidEventSubscription_PermissionGroupUpdated_Fragment | OrderFullyPaidEventSubscription_ProductCreated_Fragment | OrderFullyPaidEventSubscription_ProductDeleted_Fragment | OrderFullyPaidEventSubscription_ProductExportCompleted_Fragment | OrderFullyPaidEventSubscription_ProductMediaCreated_Fragment | OrderFullyPaidEventSubscription_ProductMediaDeleted_Fragment | OrderFullyPaidEventSubscription_ProductMediaUpdated_Fragment | OrderFullyPaidEventSubscription_ProductMetadataUpdated_Fragment | OrderFullyPaidEventSubscription_ProductUpdated_Fragment | OrderFullyPaidEventSubscription_ProductVariantBackInStock_Fragment | OrderFullyPaidEventSubscription_ProductVariantCreated_Fragment | OrderFullyPaidEventSubscription_ProductVariantDeleted_Fragment | OrderFullyPaidEventSubscription_ProductVariantMetadataUpdated_Fragment | OrderFullyPaidEventSubscription_ProductVariantOutOfStock_Fragment | OrderFullyPaidEventSubscription_ProductVariantStockUpdated_Fragment | OrderFullyPaidEventSubscription_ProductVariantUpdated_Fragment | OrderFullyPaidEventSubscription_PromotionCreated_Fragment | OrderFullyPaidEventSubscription_PromotionDeleted_Fragment | OrderFullyPaidEventSubscription_PromotionEnded_Fragment | OrderFullyPaidEventSubscription_PromotionRuleCreated_Fragment | OrderFullyPaidEventSubscription_PromotionRuleDeleted_Fragment | OrderFullyPaidEventSubscription_PromotionRuleUpdated_Fragment | OrderFullyPaidEventSubscription_PromotionStarted_Fragment | OrderFullyPaidEventSubscription_PromotionUpdated_Fragment | OrderFullyPaidEventSubscription_SaleCreated_Fragment | OrderFullyPaidEventSubscription_SaleDeleted_Fragment | OrderFullyPaidEventSubscription_SaleToggle_Fragment | OrderFullyPaidEventSubscription_SaleUpdated_Fragment | OrderFullyPaidEventSubscription_ShippingListMethodsForCheckout_Fragment | OrderFullyPaidEventSubscription_ShippingPriceCreated_Fragment | OrderFullyPaidEventSubscription_ShippingPriceDeleted_Fragment | OrderFullyPaidEventSubscription_ShippingPriceUpdated_Fragment | OrderFullyPaidEventSubscription_ShippingZoneCreated_Fragment | OrderFullyPaidEventSubscription_ShippingZoneDeleted_Fragment | OrderFullyPaidEventSubscription_ShippingZoneMetadataUpdated_Fragment | OrderFullyPaidEventSubscription_ShippingZoneUpdated_Fragment | OrderFullyPaidEventSubscription_ShopMetadataUpdated_Fragment | OrderFullyPaidEventSubscription_StaffCreated_Fragment | OrderFullyPaidEventSubscription_StaffDeleted_Fragment | OrderFullyPaidEventSubscription_StaffSetPasswordRequested_Fragment | OrderFullyPaidEventSubscription_StaffUpdated_Fragment | OrderFullyPaidEventSubscription_StoredPaymentMethodDeleteRequested_Fragment | OrderFullyPaidEventSubscription_ThumbnailCreated_Fragment | OrderFullyPaidEventSubscription_TransactionCancelationRequested_Fragment | OrderFullyPaidEventSubscription_TransactionChargeRequested_Fragment | OrderFullyPaidEventSubscription_TransactionInitializeSession_Fragment | OrderFullyPaidEventSubscription_TransactionItemMetadataUpdated_Fragment | OrderFullyPaidEventSubscription_TransactionProcessSession_Fragment | OrderFullyPaidEventSubscription_TransactionRefundRequested_Fragment | OrderFullyPaidEventSubscription_TranslationCreated_Fragment | OrderFullyPaidEventSubscription_TranslationUpdated_Fragment | OrderFullyPaidEventSubscription_VoucherCodeExportCompleted_Fragment | OrderFullyPaidEventSubscription_VoucherCodesCreated_Fragment | OrderFullyPaidEventSubscription_VoucherCodesDeleted_Fragment | OrderFullyPaidEventSubscription_VoucherCreated_Fragment | OrderFullyPaidEventSubscription_VoucherDeleted_Fragment | OrderFullyPaidEventSubscription_VoucherMetadataUpdated_Fragment | OrderFullyPaidEventSubscription_VoucherUpdated_Fragment | OrderFullyPaidEventSubscription_WarehouseCreated_Fragment | OrderFullyPaidEventSubscription_WarehouseDeleted_Fragment | OrderFullyPaidEventSubscription_WarehouseMetadataUpdated_Fragment | OrderFullyPaidEventSubscription_WarehouseUpdated_Fragment;
+
+export type OrderFullyPaidSubscriptionSubscriptionVariables = Exact<{ [key: string]: never; }>;
+
+
+export type OrderFullyPaidSubscriptionSubscription = { __typename?: 'Subscription', event?: { __typename: 'AccountChangeEmailRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountConfirmationRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountConfirmed', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountDeleteRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountEmailChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountSetPasswordRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AddressCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AddressDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AddressUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AppDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AppInstalled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AppStatusChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AppUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeValueCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeValueDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeValueUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CalculateTaxes', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CategoryCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CategoryDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CategoryUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ChannelCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ChannelDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ChannelMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ChannelStatusChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ChannelUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutFilterShippingMethods', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutFullyAuthorized', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutFullyPaid', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CollectionCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CollectionDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CollectionMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CollectionUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CustomerCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CustomerMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CustomerUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'DraftOrderCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'DraftOrderDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'DraftOrderUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'FulfillmentApproved', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'FulfillmentCanceled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'FulfillmentCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'FulfillmentMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'FulfillmentTrackingNumberUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardExportCompleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardSent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardStatusChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'InvoiceDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'InvoiceRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'InvoiceSent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ListStoredPaymentMethods', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuItemCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuItemDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuItemUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderBulkCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderCancelled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderConfirmed', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderExpired', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderFilterShippingMethods', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderFulfilled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderFullyPaid', issuedAt?: string | null, version?: string | null, order?: { __typename?: 'Order', id: string, avataxId?: string | null, channel: { __typename?: 'Channel', id: string, slug: string } } | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderFullyRefunded', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderPaid', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderRefunded', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageTypeCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageTypeDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageTypeUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentAuthorize', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentCaptureEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentConfirmEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentGatewayInitializeSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentGatewayInitializeTokenizationSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentListGateways', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentMethodInitializeTokenizationSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentMethodProcessTokenizationSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentProcessEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentRefundEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentVoidEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PermissionGroupCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PermissionGroupDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PermissionGroupUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductExportCompleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductMediaCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductMediaDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductMediaUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantBackInStock', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantOutOfStock', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantStockUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionEnded', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionRuleCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionRuleDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionRuleUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionStarted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'SaleCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'SaleDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'SaleToggle', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'SaleUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingListMethodsForCheckout', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingPriceCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingPriceDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingPriceUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingZoneCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingZoneDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingZoneMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingZoneUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShopMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'StaffCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'StaffDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'StaffSetPasswordRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'StaffUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'StoredPaymentMethodDeleteRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ThumbnailCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionCancelationRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionChargeRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionInitializeSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionItemMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionProcessSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionRefundRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TranslationCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TranslationUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherCodeExportCompleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherCodesCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherCodesDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'WarehouseCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'WarehouseDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'WarehouseMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'WarehouseUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | null };
+
+export type OrderGrantedRefundFragment = { __typename?: 'OrderGrantedRefund', id: string, createdAt: string, status: OrderGrantedRefundStatusEnum, shippingCostsIncluded: boolean, amount: { __typename?: 'Money', amount: number }, lines?: Array<{ __typename?: 'OrderGrantedRefundLine', quantity: number, orderLine: { __typename?: 'OrderLine', id: string } }> | null };
+
+export type OrderRefundedSubscriptionFragment = { __typename?: 'Order', id: string, number: string, userEmail?: string | null, created: string, status: OrderStatus, chargeStatus: OrderChargeStatusEnum, avataxId?: string | null, avataxReturnCodes?: string | null, avataxCustomerCode?: string | null, avataxEntityCode?: string | null, avataxTaxCalculationDate?: string | null, avataxDocumentCode?: string | null, avataxFallbackTaxCalculation?: string | null, lines: Array<{ __typename?: 'OrderLine', id: string, productSku?: string | null, productVariantId?: string | null, productName: string, quantity: number, taxClass?: { __typename?: 'TaxClass', id: string } | null, unitPrice: { __typename?: 'TaxedMoney', net: { __typename?: 'Money', amount: number } }, totalPrice: { __typename?: 'TaxedMoney', net: { __typename?: 'Money', amount: number }, tax: { __typename?: 'Money', amount: number }, gross: { __typename?: 'Money', amount: number } } }>, grantedRefunds: Array<{ __typename?: 'OrderGrantedRefund', id: string, createdAt: string, status: OrderGrantedRefundStatusEnum, shippingCostsIncluded: boolean, amount: { __typename?: 'Money', amount: number }, lines?: Array<{ __typename?: 'OrderGrantedRefundLine', quantity: number, orderLine: { __typename?: 'OrderLine', id: string } }> | null }>, user?: { __typename?: 'User', id: string, email: string, avataxCustomerCode?: string | null } | null, channel: { __typename?: 'Channel', id: string, slug: string, taxConfiguration: { __typename?: 'TaxConfiguration', pricesEnteredWithTax: boolean, taxCalculationStrategy?: TaxCalculationStrategy | null } }, shippingAddress?: { __typename?: 'Address', streetAddress1: string, streetAddress2: string, city: string, countryArea: string, postalCode: string, country: { __typename?: 'CountryDisplay', code: string } } | null, billingAddress?: { __typename?: 'Address', streetAddress1: string, streetAddress2: string, city: string, countryArea: string, postalCode: string, country: { __typename?: 'CountryDisplay', code: string } } | null, total: { __typename?: 'TaxedMoney', currency: string, net: { __typename?: 'Money', amount: number }, tax: { __typename?: 'Money', amount: number } }, shippingPrice: { __typename?: 'TaxedMoney', gross: { __typename?: 'Money', amount: number }, net: { __typename?: 'Money', amount: number } } };
+
+type OrderRefundedEventSubscription_AccountChangeEmailRequested_Fragment = { __typename: 'AccountChangeEmailRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_AccountConfirmationRequested_Fragment = { __typename: 'AccountConfirmationRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_AccountConfirmed_Fragment = { __typename: 'AccountConfirmed', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_AccountDeleteRequested_Fragment = { __typename: 'AccountDeleteRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_AccountDeleted_Fragment = { __typename: 'AccountDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_AccountEmailChanged_Fragment = { __typename: 'AccountEmailChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_AccountSetPasswordRequested_Fragment = { __typename: 'AccountSetPasswordRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_AddressCreated_Fragment = { __typename: 'AddressCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_AddressDeleted_Fragment = { __typename: 'AddressDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_AddressUpdated_Fragment = { __typename: 'AddressUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_AppDeleted_Fragment = { __typename: 'AppDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_AppInstalled_Fragment = { __typename: 'AppInstalled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_AppStatusChanged_Fragment = { __typename: 'AppStatusChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_AppUpdated_Fragment = { __typename: 'AppUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_AttributeCreated_Fragment = { __typename: 'AttributeCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_AttributeDeleted_Fragment = { __typename: 'AttributeDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_AttributeUpdated_Fragment = { __typename: 'AttributeUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_AttributeValueCreated_Fragment = { __typename: 'AttributeValueCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_AttributeValueDeleted_Fragment = { __typename: 'AttributeValueDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_AttributeValueUpdated_Fragment = { __typename: 'AttributeValueUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_CalculateTaxes_Fragment = { __typename: 'CalculateTaxes', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_CategoryCreated_Fragment = { __typename: 'CategoryCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_CategoryDeleted_Fragment = { __typename: 'CategoryDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_CategoryUpdated_Fragment = { __typename: 'CategoryUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_ChannelCreated_Fragment = { __typename: 'ChannelCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_ChannelDeleted_Fragment = { __typename: 'ChannelDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_ChannelMetadataUpdated_Fragment = { __typename: 'ChannelMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_ChannelStatusChanged_Fragment = { __typename: 'ChannelStatusChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_ChannelUpdated_Fragment = { __typename: 'ChannelUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_CheckoutCreated_Fragment = { __typename: 'CheckoutCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_CheckoutFilterShippingMethods_Fragment = { __typename: 'CheckoutFilterShippingMethods', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_CheckoutFullyAuthorized_Fragment = { __typename: 'CheckoutFullyAuthorized', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_CheckoutFullyPaid_Fragment = { __typename: 'CheckoutFullyPaid', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_CheckoutMetadataUpdated_Fragment = { __typename: 'CheckoutMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_CheckoutUpdated_Fragment = { __typename: 'CheckoutUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_CollectionCreated_Fragment = { __typename: 'CollectionCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_CollectionDeleted_Fragment = { __typename: 'CollectionDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_CollectionMetadataUpdated_Fragment = { __typename: 'CollectionMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_CollectionUpdated_Fragment = { __typename: 'CollectionUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_CustomerCreated_Fragment = { __typename: 'CustomerCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_CustomerMetadataUpdated_Fragment = { __typename: 'CustomerMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_CustomerUpdated_Fragment = { __typename: 'CustomerUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_DraftOrderCreated_Fragment = { __typename: 'DraftOrderCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_DraftOrderDeleted_Fragment = { __typename: 'DraftOrderDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_DraftOrderUpdated_Fragment = { __typename: 'DraftOrderUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_FulfillmentApproved_Fragment = { __typename: 'FulfillmentApproved', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_FulfillmentCanceled_Fragment = { __typename: 'FulfillmentCanceled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_FulfillmentCreated_Fragment = { __typename: 'FulfillmentCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_FulfillmentMetadataUpdated_Fragment = { __typename: 'FulfillmentMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_FulfillmentTrackingNumberUpdated_Fragment = { __typename: 'FulfillmentTrackingNumberUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_GiftCardCreated_Fragment = { __typename: 'GiftCardCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_GiftCardDeleted_Fragment = { __typename: 'GiftCardDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_GiftCardExportCompleted_Fragment = { __typename: 'GiftCardExportCompleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_GiftCardMetadataUpdated_Fragment = { __typename: 'GiftCardMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_GiftCardSent_Fragment = { __typename: 'GiftCardSent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_GiftCardStatusChanged_Fragment = { __typename: 'GiftCardStatusChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_GiftCardUpdated_Fragment = { __typename: 'GiftCardUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_InvoiceDeleted_Fragment = { __typename: 'InvoiceDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_InvoiceRequested_Fragment = { __typename: 'InvoiceRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_InvoiceSent_Fragment = { __typename: 'InvoiceSent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_ListStoredPaymentMethods_Fragment = { __typename: 'ListStoredPaymentMethods', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_MenuCreated_Fragment = { __typename: 'MenuCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_MenuDeleted_Fragment = { __typename: 'MenuDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_MenuItemCreated_Fragment = { __typename: 'MenuItemCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_MenuItemDeleted_Fragment = { __typename: 'MenuItemDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_MenuItemUpdated_Fragment = { __typename: 'MenuItemUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_MenuUpdated_Fragment = { __typename: 'MenuUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_OrderBulkCreated_Fragment = { __typename: 'OrderBulkCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_OrderCancelled_Fragment = { __typename: 'OrderCancelled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_OrderConfirmed_Fragment = { __typename: 'OrderConfirmed', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_OrderCreated_Fragment = { __typename: 'OrderCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_OrderExpired_Fragment = { __typename: 'OrderExpired', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_OrderFilterShippingMethods_Fragment = { __typename: 'OrderFilterShippingMethods', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_OrderFulfilled_Fragment = { __typename: 'OrderFulfilled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_OrderFullyPaid_Fragment = { __typename: 'OrderFullyPaid', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_OrderFullyRefunded_Fragment = { __typename: 'OrderFullyRefunded', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_OrderMetadataUpdated_Fragment = { __typename: 'OrderMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_OrderPaid_Fragment = { __typename: 'OrderPaid', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_OrderRefunded_Fragment = { __typename: 'OrderRefunded', issuedAt?: string | null, version?: string | null, order?: { __typename?: 'Order', id: string, number: string, userEmail?: string | null, created: string, status: OrderStatus, chargeStatus: OrderChargeStatusEnum, avataxId?: string | null, avataxReturnCodes?: string | null, avataxCustomerCode?: string | null, avataxEntityCode?: string | null, avataxTaxCalculationDate?: string | null, avataxDocumentCode?: string | null, avataxFallbackTaxCalculation?: string | null, lines: Array<{ __typename?: 'OrderLine', id: string, productSku?: string | null, productVariantId?: string | null, productName: string, quantity: number, taxClass?: { __typename?: 'TaxClass', id: string } | null, unitPrice: { __typename?: 'TaxedMoney', net: { __typename?: 'Money', amount: number } }, totalPrice: { __typename?: 'TaxedMoney', net: { __typename?: 'Money', amount: number }, tax: { __typename?: 'Money', amount: number }, gross: { __typename?: 'Money', amount: number } } }>, grantedRefunds: Array<{ __typename?: 'OrderGrantedRefund', id: string, createdAt: string, status: OrderGrantedRefundStatusEnum, shippingCostsIncluded: boolean, amount: { __typename?: 'Money', amount: number }, lines?: Array<{ __typename?: 'OrderGrantedRefundLine', quantity: number, orderLine: { __typename?: 'OrderLine', id: string } }> | null }>, user?: { __typename?: 'User', id: string, email: string, avataxCustomerCode?: string | null } | null, channel: { __typename?: 'Channel', id: string, slug: string, taxConfiguration: { __typename?: 'TaxConfiguration', pricesEnteredWithTax: boolean, taxCalculationStrategy?: TaxCalculationStrategy | null } }, shippingAddress?: { __typename?: 'Address', streetAddress1: string, streetAddress2: string, city: string, countryArea: string, postalCode: string, country: { __typename?: 'CountryDisplay', code: string } } | null, billingAddress?: { __typename?: 'Address', streetAddress1: string, streetAddress2: string, city: string, countryArea: string, postalCode: string, country: { __typename?: 'CountryDisplay', code: string } } | null, total: { __typename?: 'TaxedMoney', currency: string, net: { __typename?: 'Money', amount: number }, tax: { __typename?: 'Money', amount: number } }, shippingPrice: { __typename?: 'TaxedMoney', gross: { __typename?: 'Money', amount: number }, net: { __typename?: 'Money', amount: number } } } | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_OrderUpdated_Fragment = { __typename: 'OrderUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_PageCreated_Fragment = { __typename: 'PageCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_PageDeleted_Fragment = { __typename: 'PageDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_PageTypeCreated_Fragment = { __typename: 'PageTypeCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_PageTypeDeleted_Fragment = { __typename: 'PageTypeDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_PageTypeUpdated_Fragment = { __typename: 'PageTypeUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_PageUpdated_Fragment = { __typename: 'PageUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_PaymentAuthorize_Fragment = { __typename: 'PaymentAuthorize', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_PaymentCaptureEvent_Fragment = { __typename: 'PaymentCaptureEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_PaymentConfirmEvent_Fragment = { __typename: 'PaymentConfirmEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_PaymentGatewayInitializeSession_Fragment = { __typename: 'PaymentGatewayInitializeSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_PaymentGatewayInitializeTokenizationSession_Fragment = { __typename: 'PaymentGatewayInitializeTokenizationSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_PaymentListGateways_Fragment = { __typename: 'PaymentListGateways', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_PaymentMethodInitializeTokenizationSession_Fragment = { __typename: 'PaymentMethodInitializeTokenizationSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_PaymentMethodProcessTokenizationSession_Fragment = { __typename: 'PaymentMethodProcessTokenizationSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_PaymentProcessEvent_Fragment = { __typename: 'PaymentProcessEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_PaymentRefundEvent_Fragment = { __typename: 'PaymentRefundEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_PaymentVoidEvent_Fragment = { __typename: 'PaymentVoidEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_PermissionGroupCreated_Fragment = { __typename: 'PermissionGroupCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_PermissionGroupDeleted_Fragment = { __typename: 'PermissionGroupDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_PermissionGroupUpdated_Fragment = { __typename: 'PermissionGroupUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_ProductCreated_Fragment = { __typename: 'ProductCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_ProductDeleted_Fragment = { __typename: 'ProductDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_ProductExportCompleted_Fragment = { __typename: 'ProductExportCompleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_ProductMediaCreated_Fragment = { __typename: 'ProductMediaCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_ProductMediaDeleted_Fragment = { __typename: 'ProductMediaDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_ProductMediaUpdated_Fragment = { __typename: 'ProductMediaUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_ProductMetadataUpdated_Fragment = { __typename: 'ProductMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_ProductUpdated_Fragment = { __typename: 'ProductUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_ProductVariantBackInStock_Fragment = { __typename: 'ProductVariantBackInStock', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_ProductVariantCreated_Fragment = { __typename: 'ProductVariantCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_ProductVariantDeleted_Fragment = { __typename: 'ProductVariantDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_ProductVariantMetadataUpdated_Fragment = { __typename: 'ProductVariantMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_ProductVariantOutOfStock_Fragment = { __typename: 'ProductVariantOutOfStock', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_ProductVariantStockUpdated_Fragment = { __typename: 'ProductVariantStockUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_ProductVariantUpdated_Fragment = { __typename: 'ProductVariantUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_PromotionCreated_Fragment = { __typename: 'PromotionCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_PromotionDeleted_Fragment = { __typename: 'PromotionDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_PromotionEnded_Fragment = { __typename: 'PromotionEnded', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_PromotionRuleCreated_Fragment = { __typename: 'PromotionRuleCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_PromotionRuleDeleted_Fragment = { __typename: 'PromotionRuleDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_PromotionRuleUpdated_Fragment = { __typename: 'PromotionRuleUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_PromotionStarted_Fragment = { __typename: 'PromotionStarted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_PromotionUpdated_Fragment = { __typename: 'PromotionUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_SaleCreated_Fragment = { __typename: 'SaleCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_SaleDeleted_Fragment = { __typename: 'SaleDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_SaleToggle_Fragment = { __typename: 'SaleToggle', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_SaleUpdated_Fragment = { __typename: 'SaleUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_ShippingListMethodsForCheckout_Fragment = { __typename: 'ShippingListMethodsForCheckout', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_ShippingPriceCreated_Fragment = { __typename: 'ShippingPriceCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_ShippingPriceDeleted_Fragment = { __typename: 'ShippingPriceDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_ShippingPriceUpdated_Fragment = { __typename: 'ShippingPriceUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_ShippingZoneCreated_Fragment = { __typename: 'ShippingZoneCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_ShippingZoneDeleted_Fragment = { __typename: 'ShippingZoneDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_ShippingZoneMetadataUpdated_Fragment = { __typename: 'ShippingZoneMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_ShippingZoneUpdated_Fragment = { __typename: 'ShippingZoneUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_ShopMetadataUpdated_Fragment = { __typename: 'ShopMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_StaffCreated_Fragment = { __typename: 'StaffCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_StaffDeleted_Fragment = { __typename: 'StaffDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_StaffSetPasswordRequested_Fragment = { __typename: 'StaffSetPasswordRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_StaffUpdated_Fragment = { __typename: 'StaffUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_StoredPaymentMethodDeleteRequested_Fragment = { __typename: 'StoredPaymentMethodDeleteRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_ThumbnailCreated_Fragment = { __typename: 'ThumbnailCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_TransactionCancelationRequested_Fragment = { __typename: 'TransactionCancelationRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_TransactionChargeRequested_Fragment = { __typename: 'TransactionChargeRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_TransactionInitializeSession_Fragment = { __typename: 'TransactionInitializeSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_TransactionItemMetadataUpdated_Fragment = { __typename: 'TransactionItemMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_TransactionProcessSession_Fragment = { __typename: 'TransactionProcessSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_TransactionRefundRequested_Fragment = { __typename: 'TransactionRefundRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_TranslationCreated_Fragment = { __typename: 'TranslationCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_TranslationUpdated_Fragment = { __typename: 'TranslationUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_VoucherCodeExportCompleted_Fragment = { __typename: 'VoucherCodeExportCompleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_VoucherCodesCreated_Fragment = { __typename: 'VoucherCodesCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_VoucherCodesDeleted_Fragment = { __typename: 'VoucherCodesDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_VoucherCreated_Fragment = { __typename: 'VoucherCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_VoucherDeleted_Fragment = { __typename: 'VoucherDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_VoucherMetadataUpdated_Fragment = { __typename: 'VoucherMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_VoucherUpdated_Fragment = { __typename: 'VoucherUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_WarehouseCreated_Fragment = { __typename: 'WarehouseCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_WarehouseDeleted_Fragment = { __typename: 'WarehouseDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_WarehouseMetadataUpdated_Fragment = { __typename: 'WarehouseMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderRefundedEventSubscription_WarehouseUpdated_Fragment = { __typename: 'WarehouseUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+export type OrderRefundedEventSubscriptionFragment = OrderRefundedEventSubscription_AccountChangeEmailRequested_Fragment | OrderRefundedEventSubscription_AccountConfirmationRequested_Fragment | OrderRefundedEventSubscription_AccountConfirmed_Fragment | OrderRefundedEventSubscription_AccountDeleteRequested_Fragment | OrderRefundedEventSubscription_AccountDeleted_Fragment | OrderRefundedEventSubscription_AccountEmailChanged_Fragment | OrderRefundedEventSubscription_AccountSetPasswordRequested_Fragment | OrderRefundedEventSubscription_AddressCreated_Fragment | OrderRefundedEventSubscription_AddressDeleted_Fragment | OrderRefundedEventSubscription_AddressUpdated_Fragment | OrderRefundedEventSubscription_AppDeleted_Fragment | OrderRefundedEventSubscription_AppInstalled_Fragment | OrderRefundedEventSubscription_AppStatusChanged_Fragment | OrderRefundedEventSubscription_AppUpdated_Fragment | OrderRefundedEventSubscription_AttributeCreated_Fragment | OrderRefundedEventSubscription_AttributeDeleted_Fragment | OrderRefundedEventSubscription_AttributeUpdated_Fragment | OrderRefundedEventSubscription_AttributeValueCreated_Fragment | OrderRefundedEventSubscription_AttributeValueDeleted_Fragment | OrderRefundedEventSubscription_AttributeValueUpdated_Fragment | OrderRefundedEventSubscription_CalculateTaxes_Fragment | OrderRefundedEventSubscription_CategoryCreated_Fragment | OrderRefundedEventSubscription_CategoryDeleted_Fragment | OrderRefundedEventSubscription_CategoryUpdated_Fragment | OrderRefundedEventSubscription_ChannelCreated_Fragment | OrderRefundedEventSubscription_ChannelDeleted_Fragment | OrderRefundedEventSubscription_ChannelMetadataUpdated_Fragment | OrderRefundedEventSubscription_ChannelStatusChanged_Fragment | OrderRefundedEventSubscription_ChannelUpdated_Fragment | OrderRefundedEventSubscription_CheckoutCreated_Fragment | OrderRefundedEventSubscription_CheckoutFilterShippingMethods_Fragment | OrderRefundedEventSubscription_CheckoutFullyAuthorized_Fragment | OrderRefundedEventSubscription_CheckoutFullyPaid_Fragment | OrderRefundedEventSubscription_CheckoutMetadataUpdated_Fragment | OrderRefundedEventSubscription_CheckoutUpdated_Fragment | OrderRefundedEventSubscription_CollectionCreated_Fragment | OrderRefundedEventSubscription_CollectionDeleted_Fragment | OrderRefundedEventSubscription_CollectionMetadataUpdated_Fragment | OrderRefundedEventSubscription_CollectionUpdated_Fragment | OrderRefundedEventSubscription_CustomerCreated_Fragment | OrderRefundedEventSubscription_CustomerMetadataUpdated_Fragment | OrderRefundedEventSubscription_CustomerUpdated_Fragment | OrderRefundedEventSubscription_DraftOrderCreated_Fragment | OrderRefundedEventSubscription_DraftOrderDeleted_Fragment | OrderRefundedEventSubscription_DraftOrderUpdated_Fragment | OrderRefundedEventSubscription_FulfillmentApproved_Fragment | OrderRefundedEventSubscription_FulfillmentCanceled_Fragment | OrderRefundedEventSubscription_FulfillmentCreated_Fragment | OrderRefundedEventSubscription_FulfillmentMetadataUpdated_Fragment | OrderRefundedEventSubscription_FulfillmentTrackingNumberUpdated_Fragment | OrderRefundedEventSubscription_GiftCardCreated_Fragment | OrderRefundedEventSubscription_GiftCardDeleted_Fragment | OrderRefundedEventSubscription_GiftCardExportCompleted_Fragment | OrderRefundedEventSubscription_GiftCardMetadataUpdated_Fragment | OrderRefundedEventSubscription_GiftCardSent_Fragment | OrderRefundedEventSubscription_GiftCardStatusChanged_Fragment | OrderRefundedEventSubscription_GiftCardUpdated_Fragment | OrderRefundedEventSubscription_InvoiceDeleted_Fragment | OrderRefundedEventSubscription_InvoiceRequested_Fragment | OrderRefundedEventSubscription_InvoiceSent_Fragment | OrderRefundedEventSubscription_ListStoredPaymentMethods_Fragment | OrderRefundedEventSubscription_MenuCreated_Fragment | OrderRefundedEventSubscription_MenuDeleted_Fragment | OrderRefundedEventSubscription_MenuItemCreated_Fragment | OrderRefundedEventSubscription_MenuItemDeleted_Fragment | OrderRefundedEventSubscription_MenuItemUpdated_Fragment | OrderRefundedEventSubscription_MenuUpdated_Fragment | OrderRefundedEventSubscription_OrderBulkCreated_Fragment | OrderRefundedEventSubscription_OrderCancelled_Fragment | OrderRefundedEventSubscription_OrderConfirmed_Fragment | OrderRefundedEventSubscription_OrderCreated_Fragment | OrderRefundedEventSubscription_OrderExpired_Fragment | OrderRefundedEventSubscription_OrderFilterShippingMethods_Fragment | OrderRefundedEventSubscription_OrderFulfilled_Fragment | OrderRefundedEventSubscription_OrderFullyPaid_Fragment | OrderRefundedEventSubscription_OrderFullyRefunded_Fragment | OrderRefundedEventSubscription_OrderMetadataUpdated_Fragment | OrderRefundedEventSubscription_OrderPaid_Fragment | OrderRefundedEventSubscription_OrderRefunded_Fragment | OrderRefundedEventSubscription_OrderUpdated_Fragment | OrderRefundedEventSubscription_PageCreated_Fragment | OrderRefundedEventSubscription_PageDeleted_Fragment | OrderRefundedEventSubscription_PageTypeCreated_Fragment | OrderRefundedEventSubscription_PageTypeDeleted_Fragment | OrderRefundedEventSubscription_PageTypeUpdated_Fragment | OrderRefundedEventSubscription_PageUpdated_Fragment | OrderRefundedEventSubscription_PaymentAuthorize_Fragment | OrderRefundedEventSubscription_PaymentCaptureEvent_Fragment | OrderRefundedEventSubscription_PaymentConfirmEvent_Fragment | OrderRefundedEventSubscription_PaymentGatewayInitializeSession_Fragment | OrderRefundedEventSubscription_PaymentGatewayInitializeTokenizationSession_Fragment | OrderRefundedEventSubscription_PaymentListGateways_Fragment | OrderRefundedEventSubscription_PaymentMethodInitializeTokenizationSession_Fragment | OrderRefundedEventSubscription_PaymentMethodProcessTokenizationSession_Fragment | OrderRefundedEventSubscription_PaymentProcessEvent_Fragment | OrderRefundedEventSubscription_PaymentRefundEvent_Fragment | OrderRefundedEventSubscription_PaymentVoidEvent_Fragment | OrderRefundedEventSubscription_PermissionGroupCreated_Fragment | OrderRefundedEventSubscription_PermissionGroupDeleted_Fragment | OrderRefundedEventSubscription_PermissionGroupUpdated_Fragment | OrderRefundedEventSubscription_ProductCreated_Fragment | OrderRefundedEventSubscription_ProductDeleted_Fragment | OrderRefundedEventSubscription_ProductExportCompleted_Fragment | OrderRefundedEventSubscription_ProductMediaCreated_Fragment | OrderRefundedEventSubscription_ProductMediaDeleted_Fragment | OrderRefundedEventSubscription_ProductMediaUpdated_Fragment | OrderRefundedEventSubscription_ProductMetadataUpdated_Fragment | OrderRefundedEventSubscription_ProductUpdated_Fragment | OrderRefundedEventSubscription_ProductVariantBackInStock_Fragment | OrderRefundedEventSubscription_ProductVariantCreated_Fragment | OrderRefundedEventSubscription_ProductVariantDeleted_Fragment | OrderRefundedEventSubscription_ProductVariantMetadataUpdated_Fragment | OrderRefundedEventSubscription_ProductVariantOutOfStock_Fragment | OrderRefundedEventSubscription_ProductVariantStockUpdated_Fragment | OrderRefundedEventSubscription_ProductVariantUpdated_Fragment | OrderRefundedEventSubscription_PromotionCreated_Fragment | OrderRefundedEventSubscription_PromotionDeleted_Fragment | OrderRefundedEventSubscription_PromotionEnded_Fragment | OrderRefundedEventSubscription_PromotionRuleCreated_Fragment | OrderRefundedEventSubscription_PromotionRuleDeleted_Fragment | OrderRefundedEventSubscription_PromotionRuleUpdated_Fragment | OrderRefundedEventSubscription_PromotionStarted_Fragment | OrderRefundedEventSubscription_PromotionUpdated_Fragment | OrderRefundedEventSubscription_SaleCreated_Fragment | OrderRefundedEventSubscription_SaleDeleted_Fragment | OrderRefundedEventSubscription_SaleToggle_Fragment | OrderRefundedEventSubscription_SaleUpdated_Fragment | OrderRefundedEventSubscription_ShippingListMethodsForCheckout_Fragment | OrderRefundedEventSubscription_ShippingPriceCreated_Fragment | OrderRefundedEventSubscription_ShippingPriceDeleted_Fragment | OrderRefundedEventSubscription_ShippingPriceUpdated_Fragment | OrderRefundedEventSubscription_ShippingZoneCreated_Fragment | OrderRefundedEventSubscription_ShippingZoneDeleted_Fragment | OrderRefundedEventSubscription_ShippingZoneMetadataUpdated_Fragment | OrderRefundedEventSubscription_ShippingZoneUpdated_Fragment | OrderRefundedEventSubscription_ShopMetadataUpdated_Fragment | OrderRefundedEventSubscription_StaffCreated_Fragment | OrderRefundedEventSubscription_StaffDeleted_Fragment | OrderRefundedEventSubscription_StaffSetPasswordRequested_Fragment | OrderRefundedEventSubscription_StaffUpdated_Fragment | OrderRefundedEventSubscription_StoredPaymentMethodDeleteRequested_Fragment | OrderRefundedEventSubscription_ThumbnailCreated_Fragment | OrderRefundedEventSubscription_TransactionCancelationRequested_Fragment | OrderRefundedEventSubscription_TransactionChargeRequested_Fragment | OrderRefundedEventSubscription_TransactionInitializeSession_Fragment | OrderRefundedEventSubscription_TransactionItemMetadataUpdated_Fragment | OrderRefundedEventSubscription_TransactionProcessSession_Fragment | OrderRefundedEventSubscription_TransactionRefundRequested_Fragment | OrderRefundedEventSubscription_TranslationCreated_Fragment | OrderRefundedEventSubscription_TranslationUpdated_Fragment | OrderRefundedEventSubscription_VoucherCodeExportCompleted_Fragment | OrderRefundedEventSubscription_VoucherCodesCreated_Fragment | OrderRefundedEventSubscription_VoucherCodesDeleted_Fragment | OrderRefundedEventSubscription_VoucherCreated_Fragment | OrderRefundedEventSubscription_VoucherDeleted_Fragment | OrderRefundedEventSubscription_VoucherMetadataUpdated_Fragment | OrderRefundedEventSubscription_VoucherUpdated_Fragment | OrderRefundedEventSubscription_WarehouseCreated_Fragment | OrderRefundedEventSubscription_WarehouseDeleted_Fragment | OrderRefundedEventSubscription_WarehouseMetadataUpdated_Fragment | OrderRefundedEventSubscription_WarehouseUpdated_Fragment;
+
+export type OrderRefundedSubscriptionSubscriptionVariables = Exact<{ [key: string]: never; }>;
+
+
+export type OrderRefundedSubscriptionSubscription = { __typename?: 'Subscription', event?: { __typename: 'AccountChangeEmailRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountConfirmationRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountConfirmed', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountDeleteRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountEmailChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountSetPasswordRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AddressCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AddressDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AddressUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AppDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AppInstalled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AppStatusChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AppUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeValueCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeValueDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeValueUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CalculateTaxes', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CategoryCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CategoryDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CategoryUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ChannelCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ChannelDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ChannelMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ChannelStatusChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ChannelUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutFilterShippingMethods', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutFullyAuthorized', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutFullyPaid', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CollectionCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CollectionDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CollectionMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CollectionUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CustomerCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CustomerMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CustomerUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'DraftOrderCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'DraftOrderDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'DraftOrderUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'FulfillmentApproved', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'FulfillmentCanceled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'FulfillmentCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'FulfillmentMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'FulfillmentTrackingNumberUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardExportCompleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardSent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardStatusChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'InvoiceDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'InvoiceRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'InvoiceSent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ListStoredPaymentMethods', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuItemCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuItemDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuItemUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderBulkCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderCancelled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderConfirmed', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderExpired', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderFilterShippingMethods', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderFulfilled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderFullyPaid', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderFullyRefunded', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderPaid', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderRefunded', issuedAt?: string | null, version?: string | null, order?: { __typename?: 'Order', id: string, number: string, userEmail?: string | null, created: string, status: OrderStatus, chargeStatus: OrderChargeStatusEnum, avataxId?: string | null, avataxReturnCodes?: string | null, avataxCustomerCode?: string | null, avataxEntityCode?: string | null, avataxTaxCalculationDate?: string | null, avataxDocumentCode?: string | null, avataxFallbackTaxCalculation?: string | null, lines: Array<{ __typename?: 'OrderLine', id: string, productSku?: string | null, productVariantId?: string | null, productName: string, quantity: number, taxClass?: { __typename?: 'TaxClass', id: string } | null, unitPrice: { __typename?: 'TaxedMoney', net: { __typename?: 'Money', amount: number } }, totalPrice: { __typename?: 'TaxedMoney', net: { __typename?: 'Money', amount: number }, tax: { __typename?: 'Money', amount: number }, gross: { __typename?: 'Money', amount: number } } }>, grantedRefunds: Array<{ __typename?: 'OrderGrantedRefund', id: string, createdAt: string, status: OrderGrantedRefundStatusEnum, shippingCostsIncluded: boolean, amount: { __typename?: 'Money', amount: number }, lines?: Array<{ __typename?: 'OrderGrantedRefundLine', quantity: number, orderLine: { __typename?: 'OrderLine', id: string } }> | null }>, user?: { __typename?: 'User', id: string, email: string, avataxCustomerCode?: string | null } | null, channel: { __typename?: 'Channel', id: string, slug: string, taxConfiguration: { __typename?: 'TaxConfiguration', pricesEnteredWithTax: boolean, taxCalculationStrategy?: TaxCalculationStrategy | null } }, shippingAddress?: { __typename?: 'Address', streetAddress1: string, streetAddress2: string, city: string, countryArea: string, postalCode: string, country: { __typename?: 'CountryDisplay', code: string } } | null, billingAddress?: { __typename?: 'Address', streetAddress1: string, streetAddress2: string, city: string, countryArea: string, postalCode: string, country: { __typename?: 'CountryDisplay', code: string } } | null, total: { __typename?: 'TaxedMoney', currency: string, net: { __typename?: 'Money', amount: number }, tax: { __typename?: 'Money', amount: number } }, shippingPrice: { __typename?: 'TaxedMoney', gross: { __typename?: 'Money', amount: number }, net: { __typename?: 'Money', amount: number } } } | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageTypeCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageTypeDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageTypeUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentAuthorize', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentCaptureEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentConfirmEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentGatewayInitializeSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentGatewayInitializeTokenizationSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentListGateways', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentMethodInitializeTokenizationSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentMethodProcessTokenizationSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentProcessEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentRefundEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentVoidEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PermissionGroupCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PermissionGroupDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PermissionGroupUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductExportCompleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductMediaCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductMediaDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductMediaUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantBackInStock', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantOutOfStock', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantStockUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionEnded', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionRuleCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionRuleDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionRuleUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionStarted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'SaleCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'SaleDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'SaleToggle', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'SaleUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingListMethodsForCheckout', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingPriceCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingPriceDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingPriceUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingZoneCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingZoneDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingZoneMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingZoneUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShopMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'StaffCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'StaffDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'StaffSetPasswordRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'StaffUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'StoredPaymentMethodDeleteRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ThumbnailCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionCancelationRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionChargeRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionInitializeSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionItemMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionProcessSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionRefundRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TranslationCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TranslationUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherCodeExportCompleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherCodesCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherCodesDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'WarehouseCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'WarehouseDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'WarehouseMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'WarehouseUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | null };
+
+export type OrderUpdatedSubscriptionFragment = { __typename?: 'Order', id: string, number: string, userEmail?: string | null, created: string, status: OrderStatus, chargeStatus: OrderChargeStatusEnum, avataxId?: string | null, avataxCustomerCode?: string | null, avataxEntityCode?: string | null, avataxTaxCalculationDate?: string | null, avataxDocumentCode?: string | null, avataxFallbackTaxCalculation?: string | null, user?: { __typename?: 'User', id: string, email: string, avataxCustomerCode?: string | null } | null, channel: { __typename?: 'Channel', id: string, slug: string, taxConfiguration: { __typename?: 'TaxConfiguration', pricesEnteredWithTax: boolean, taxCalculationStrategy?: TaxCalculationStrategy | null } }, shippingAddress?: { __typename?: 'Address', streetAddress1: string, streetAddress2: string, city: string, countryArea: string, postalCode: string, country: { __typename?: 'CountryDisplay', code: string } } | null, billingAddress?: { __typename?: 'Address', streetAddress1: string, streetAddress2: string, city: string, countryArea: string, postalCode: string, country: { __typename?: 'CountryDisplay', code: string } } | null, total: { __typename?: 'TaxedMoney', currency: string, net: { __typename?: 'Money', amount: number }, tax: { __typename?: 'Money', amount: number } }, shippingPrice: { __typename?: 'TaxedMoney', gross: { __typename?: 'Money', amount: number }, net: { __typename?: 'Money', amount: number } }, lines: Array<{ __typename?: 'OrderLine', productSku?: string | null, productVariantId?: string | null, productName: string, quantity: number, taxClass?: { __typename?: 'TaxClass', id: string } | null, unitPrice: { __typename?: 'TaxedMoney', net: { __typename?: 'Money', amount: number } }, totalPrice: { __typename?: 'TaxedMoney', net: { __typename?: 'Money', amount: number }, tax: { __typename?: 'Money', amount: number }, gross: { __typename?: 'Money', amount: number } } }> };
+
+type OrderUpdatedEventSubscription_AccountChangeEmailRequested_Fragment = { __typename: 'AccountChangeEmailRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_AccountConfirmationRequested_Fragment = { __typename: 'AccountConfirmationRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_AccountConfirmed_Fragment = { __typename: 'AccountConfirmed', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_AccountDeleteRequested_Fragment = { __typename: 'AccountDeleteRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_AccountDeleted_Fragment = { __typename: 'AccountDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_AccountEmailChanged_Fragment = { __typename: 'AccountEmailChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_AccountSetPasswordRequested_Fragment = { __typename: 'AccountSetPasswordRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_AddressCreated_Fragment = { __typename: 'AddressCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_AddressDeleted_Fragment = { __typename: 'AddressDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_AddressUpdated_Fragment = { __typename: 'AddressUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_AppDeleted_Fragment = { __typename: 'AppDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_AppInstalled_Fragment = { __typename: 'AppInstalled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_AppStatusChanged_Fragment = { __typename: 'AppStatusChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_AppUpdated_Fragment = { __typename: 'AppUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_AttributeCreated_Fragment = { __typename: 'AttributeCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_AttributeDeleted_Fragment = { __typename: 'AttributeDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_AttributeUpdated_Fragment = { __typename: 'AttributeUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_AttributeValueCreated_Fragment = { __typename: 'AttributeValueCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_AttributeValueDeleted_Fragment = { __typename: 'AttributeValueDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_AttributeValueUpdated_Fragment = { __typename: 'AttributeValueUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_CalculateTaxes_Fragment = { __typename: 'CalculateTaxes', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_CategoryCreated_Fragment = { __typename: 'CategoryCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_CategoryDeleted_Fragment = { __typename: 'CategoryDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_CategoryUpdated_Fragment = { __typename: 'CategoryUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_ChannelCreated_Fragment = { __typename: 'ChannelCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_ChannelDeleted_Fragment = { __typename: 'ChannelDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_ChannelMetadataUpdated_Fragment = { __typename: 'ChannelMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_ChannelStatusChanged_Fragment = { __typename: 'ChannelStatusChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_ChannelUpdated_Fragment = { __typename: 'ChannelUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_CheckoutCreated_Fragment = { __typename: 'CheckoutCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_CheckoutFilterShippingMethods_Fragment = { __typename: 'CheckoutFilterShippingMethods', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_CheckoutFullyAuthorized_Fragment = { __typename: 'CheckoutFullyAuthorized', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_CheckoutFullyPaid_Fragment = { __typename: 'CheckoutFullyPaid', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_CheckoutMetadataUpdated_Fragment = { __typename: 'CheckoutMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_CheckoutUpdated_Fragment = { __typename: 'CheckoutUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_CollectionCreated_Fragment = { __typename: 'CollectionCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_CollectionDeleted_Fragment = { __typename: 'CollectionDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_CollectionMetadataUpdated_Fragment = { __typename: 'CollectionMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_CollectionUpdated_Fragment = { __typename: 'CollectionUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_CustomerCreated_Fragment = { __typename: 'CustomerCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_CustomerMetadataUpdated_Fragment = { __typename: 'CustomerMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_CustomerUpdated_Fragment = { __typename: 'CustomerUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_DraftOrderCreated_Fragment = { __typename: 'DraftOrderCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_DraftOrderDeleted_Fragment = { __typename: 'DraftOrderDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_DraftOrderUpdated_Fragment = { __typename: 'DraftOrderUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_FulfillmentApproved_Fragment = { __typename: 'FulfillmentApproved', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_FulfillmentCanceled_Fragment = { __typename: 'FulfillmentCanceled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_FulfillmentCreated_Fragment = { __typename: 'FulfillmentCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_FulfillmentMetadataUpdated_Fragment = { __typename: 'FulfillmentMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_FulfillmentTrackingNumberUpdated_Fragment = { __typename: 'FulfillmentTrackingNumberUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_GiftCardCreated_Fragment = { __typename: 'GiftCardCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_GiftCardDeleted_Fragment = { __typename: 'GiftCardDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_GiftCardExportCompleted_Fragment = { __typename: 'GiftCardExportCompleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_GiftCardMetadataUpdated_Fragment = { __typename: 'GiftCardMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_GiftCardSent_Fragment = { __typename: 'GiftCardSent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_GiftCardStatusChanged_Fragment = { __typename: 'GiftCardStatusChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_GiftCardUpdated_Fragment = { __typename: 'GiftCardUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_InvoiceDeleted_Fragment = { __typename: 'InvoiceDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_InvoiceRequested_Fragment = { __typename: 'InvoiceRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_InvoiceSent_Fragment = { __typename: 'InvoiceSent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_ListStoredPaymentMethods_Fragment = { __typename: 'ListStoredPaymentMethods', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_MenuCreated_Fragment = { __typename: 'MenuCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_MenuDeleted_Fragment = { __typename: 'MenuDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_MenuItemCreated_Fragment = { __typename: 'MenuItemCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_MenuItemDeleted_Fragment = { __typename: 'MenuItemDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_MenuItemUpdated_Fragment = { __typename: 'MenuItemUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_MenuUpdated_Fragment = { __typename: 'MenuUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_OrderBulkCreated_Fragment = { __typename: 'OrderBulkCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_OrderCancelled_Fragment = { __typename: 'OrderCancelled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_OrderConfirmed_Fragment = { __typename: 'OrderConfirmed', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_OrderCreated_Fragment = { __typename: 'OrderCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_OrderExpired_Fragment = { __typename: 'OrderExpired', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_OrderFilterShippingMethods_Fragment = { __typename: 'OrderFilterShippingMethods', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_OrderFulfilled_Fragment = { __typename: 'OrderFulfilled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_OrderFullyPaid_Fragment = { __typename: 'OrderFullyPaid', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_OrderFullyRefunded_Fragment = { __typename: 'OrderFullyRefunded', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_OrderMetadataUpdated_Fragment = { __typename: 'OrderMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_OrderPaid_Fragment = { __typename: 'OrderPaid', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_OrderRefunded_Fragment = { __typename: 'OrderRefunded', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_OrderUpdated_Fragment = { __typename: 'OrderUpdated', issuedAt?: string | null, version?: string | null, order?: { __typename?: 'Order', id: string, number: string, userEmail?: string | null, created: string, status: OrderStatus, chargeStatus: OrderChargeStatusEnum, avataxId?: string | null, avataxCustomerCode?: string | null, avataxEntityCode?: string | null, avataxTaxCalculationDate?: string | null, avataxDocumentCode?: string | null, avataxFallbackTaxCalculation?: string | null, user?: { __typename?: 'User', id: string, email: string, avataxCustomerCode?: string | null } | null, channel: { __typename?: 'Channel', id: string, slug: string, taxConfiguration: { __typename?: 'TaxConfiguration', pricesEnteredWithTax: boolean, taxCalculationStrategy?: TaxCalculationStrategy | null } }, shippingAddress?: { __typename?: 'Address', streetAddress1: string, streetAddress2: string, city: string, countryArea: string, postalCode: string, country: { __typename?: 'CountryDisplay', code: string } } | null, billingAddress?: { __typename?: 'Address', streetAddress1: string, streetAddress2: string, city: string, countryArea: string, postalCode: string, country: { __typename?: 'CountryDisplay', code: string } } | null, total: { __typename?: 'TaxedMoney', currency: string, net: { __typename?: 'Money', amount: number }, tax: { __typename?: 'Money', amount: number } }, shippingPrice: { __typename?: 'TaxedMoney', gross: { __typename?: 'Money', amount: number }, net: { __typename?: 'Money', amount: number } }, lines: Array<{ __typename?: 'OrderLine', productSku?: string | null, productVariantId?: string | null, productName: string, quantity: number, taxClass?: { __typename?: 'TaxClass', id: string } | null, unitPrice: { __typename?: 'TaxedMoney', net: { __typename?: 'Money', amount: number } }, totalPrice: { __typename?: 'TaxedMoney', net: { __typename?: 'Money', amount: number }, tax: { __typename?: 'Money', amount: number }, gross: { __typename?: 'Money', amount: number } } }> } | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_PageCreated_Fragment = { __typename: 'PageCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_PageDeleted_Fragment = { __typename: 'PageDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_PageTypeCreated_Fragment = { __typename: 'PageTypeCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_PageTypeDeleted_Fragment = { __typename: 'PageTypeDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_PageTypeUpdated_Fragment = { __typename: 'PageTypeUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_PageUpdated_Fragment = { __typename: 'PageUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_PaymentAuthorize_Fragment = { __typename: 'PaymentAuthorize', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_PaymentCaptureEvent_Fragment = { __typename: 'PaymentCaptureEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_PaymentConfirmEvent_Fragment = { __typename: 'PaymentConfirmEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_PaymentGatewayInitializeSession_Fragment = { __typename: 'PaymentGatewayInitializeSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_PaymentGatewayInitializeTokenizationSession_Fragment = { __typename: 'PaymentGatewayInitializeTokenizationSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_PaymentListGateways_Fragment = { __typename: 'PaymentListGateways', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_PaymentMethodInitializeTokenizationSession_Fragment = { __typename: 'PaymentMethodInitializeTokenizationSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_PaymentMethodProcessTokenizationSession_Fragment = { __typename: 'PaymentMethodProcessTokenizationSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_PaymentProcessEvent_Fragment = { __typename: 'PaymentProcessEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_PaymentRefundEvent_Fragment = { __typename: 'PaymentRefundEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_PaymentVoidEvent_Fragment = { __typename: 'PaymentVoidEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_PermissionGroupCreated_Fragment = { __typename: 'PermissionGroupCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_PermissionGroupDeleted_Fragment = { __typename: 'PermissionGroupDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_PermissionGroupUpdated_Fragment = { __typename: 'PermissionGroupUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_ProductCreated_Fragment = { __typename: 'ProductCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_ProductDeleted_Fragment = { __typename: 'ProductDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_ProductExportCompleted_Fragment = { __typename: 'ProductExportCompleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_ProductMediaCreated_Fragment = { __typename: 'ProductMediaCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_ProductMediaDeleted_Fragment = { __typename: 'ProductMediaDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_ProductMediaUpdated_Fragment = { __typename: 'ProductMediaUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_ProductMetadataUpdated_Fragment = { __typename: 'ProductMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_ProductUpdated_Fragment = { __typename: 'ProductUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_ProductVariantBackInStock_Fragment = { __typename: 'ProductVariantBackInStock', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_ProductVariantCreated_Fragment = { __typename: 'ProductVariantCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_ProductVariantDeleted_Fragment = { __typename: 'ProductVariantDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_ProductVariantMetadataUpdated_Fragment = { __typename: 'ProductVariantMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_ProductVariantOutOfStock_Fragment = { __typename: 'ProductVariantOutOfStock', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_ProductVariantStockUpdated_Fragment = { __typename: 'ProductVariantStockUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_ProductVariantUpdated_Fragment = { __typename: 'ProductVariantUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_PromotionCreated_Fragment = { __typename: 'PromotionCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_PromotionDeleted_Fragment = { __typename: 'PromotionDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_PromotionEnded_Fragment = { __typename: 'PromotionEnded', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_PromotionRuleCreated_Fragment = { __typename: 'PromotionRuleCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_PromotionRuleDeleted_Fragment = { __typename: 'PromotionRuleDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_PromotionRuleUpdated_Fragment = { __typename: 'PromotionRuleUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_PromotionStarted_Fragment = { __typename: 'PromotionStarted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_PromotionUpdated_Fragment = { __typename: 'PromotionUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_SaleCreated_Fragment = { __typename: 'SaleCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_SaleDeleted_Fragment = { __typename: 'SaleDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_SaleToggle_Fragment = { __typename: 'SaleToggle', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_SaleUpdated_Fragment = { __typename: 'SaleUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_ShippingListMethodsForCheckout_Fragment = { __typename: 'ShippingListMethodsForCheckout', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_ShippingPriceCreated_Fragment = { __typename: 'ShippingPriceCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_ShippingPriceDeleted_Fragment = { __typename: 'ShippingPriceDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_ShippingPriceUpdated_Fragment = { __typename: 'ShippingPriceUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_ShippingZoneCreated_Fragment = { __typename: 'ShippingZoneCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_ShippingZoneDeleted_Fragment = { __typename: 'ShippingZoneDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_ShippingZoneMetadataUpdated_Fragment = { __typename: 'ShippingZoneMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_ShippingZoneUpdated_Fragment = { __typename: 'ShippingZoneUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_ShopMetadataUpdated_Fragment = { __typename: 'ShopMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_StaffCreated_Fragment = { __typename: 'StaffCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_StaffDeleted_Fragment = { __typename: 'StaffDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_StaffSetPasswordRequested_Fragment = { __typename: 'StaffSetPasswordRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_StaffUpdated_Fragment = { __typename: 'StaffUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_StoredPaymentMethodDeleteRequested_Fragment = { __typename: 'StoredPaymentMethodDeleteRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_ThumbnailCreated_Fragment = { __typename: 'ThumbnailCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_TransactionCancelationRequested_Fragment = { __typename: 'TransactionCancelationRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_TransactionChargeRequested_Fragment = { __typename: 'TransactionChargeRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_TransactionInitializeSession_Fragment = { __typename: 'TransactionInitializeSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_TransactionItemMetadataUpdated_Fragment = { __typename: 'TransactionItemMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_TransactionProcessSession_Fragment = { __typename: 'TransactionProcessSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_TransactionRefundRequested_Fragment = { __typename: 'TransactionRefundRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_TranslationCreated_Fragment = { __typename: 'TranslationCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_TranslationUpdated_Fragment = { __typename: 'TranslationUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_VoucherCodeExportCompleted_Fragment = { __typename: 'VoucherCodeExportCompleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_VoucherCodesCreated_Fragment = { __typename: 'VoucherCodesCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_VoucherCodesDeleted_Fragment = { __typename: 'VoucherCodesDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_VoucherCreated_Fragment = { __typename: 'VoucherCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_VoucherDeleted_Fragment = { __typename: 'VoucherDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_VoucherMetadataUpdated_Fragment = { __typename: 'VoucherMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_VoucherUpdated_Fragment = { __typename: 'VoucherUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_WarehouseCreated_Fragment = { __typename: 'WarehouseCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_WarehouseDeleted_Fragment = { __typename: 'WarehouseDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_WarehouseMetadataUpdated_Fragment = { __typename: 'WarehouseMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+type OrderUpdatedEventSubscription_WarehouseUpdated_Fragment = { __typename: 'WarehouseUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null };
+
+export type OrderUpdatedEventSubscriptionFragment = OrderUpdatedEventSubscription_AccountChangeEmailRequested_Fragment | OrderUpdatedEventSubscription_AccountConfirmationRequested_Fragment | OrderUpdatedEventSubscription_AccountConfirmed_Fragment | OrderUpdatedEventSubscription_AccountDeleteRequested_Fragment | OrderUpdatedEventSubscription_AccountDeleted_Fragment | OrderUpdatedEventSubscription_AccountEmailChanged_Fragment | OrderUpdatedEventSubscription_AccountSetPasswordRequested_Fragment | OrderUpdatedEventSubscription_AddressCreated_Fragment | OrderUpdatedEventSubscription_AddressDeleted_Fragment | OrderUpdatedEventSubscription_AddressUpdated_Fragment | OrderUpdatedEventSubscription_AppDeleted_Fragment | OrderUpdatedEventSubscription_AppInstalled_Fragment | OrderUpdatedEventSubscription_AppStatusChanged_Fragment | OrderUpdatedEventSubscription_AppUpdated_Fragment | OrderUpdatedEventSubscription_AttributeCreated_Fragment | OrderUpdatedEventSubscription_AttributeDeleted_Fragment | OrderUpdatedEventSubscription_AttributeUpdated_Fragment | OrderUpdatedEventSubscription_AttributeValueCreated_Fragment | OrderUpdatedEventSubscription_AttributeValueDeleted_Fragment | OrderUpdatedEventSubscription_AttributeValueUpdated_Fragment | OrderUpdatedEventSubscription_CalculateTaxes_Fragment | OrderUpdatedEventSubscription_CategoryCreated_Fragment | OrderUpdatedEventSubscription_CategoryDeleted_Fragment | OrderUpdatedEventSubscription_CategoryUpdated_Fragment | OrderUpdatedEventSubscription_ChannelCreated_Fragment | OrderUpdatedEventSubscription_ChannelDeleted_Fragment | OrderUpdatedEventSubscription_ChannelMetadataUpdated_Fragment | OrderUpdatedEventSubscription_ChannelStatusChanged_Fragment | OrderUpdatedEventSubscription_ChannelUpdated_Fragment | OrderUpdatedEventSubscription_CheckoutCreated_Fragment | OrderUpdatedEventSubscription_CheckoutFilterShippingMethods_Fragment | OrderUpdatedEventSubscription_CheckoutFullyAuthorized_Fragment | OrderUpdatedEventSubscription_CheckoutFullyPaid_Fragment | OrderUpdatedEventSubscription_CheckoutMetadataUpdated_Fragment | OrderUpdatedEventSubscription_CheckoutUpdated_Fragment | OrderUpdatedEventSubscription_CollectionCreated_Fragment | OrderUpdatedEventSubscription_CollectionDeleted_Fragment | OrderUpdatedEventSubscription_CollectionMetadataUpdated_Fragment | OrderUpdatedEventSubscription_CollectionUpdated_Fragment | OrderUpdatedEventSubscription_CustomerCreated_Fragment | OrderUpdatedEventSubscription_CustomerMetadataUpdated_Fragment | OrderUpdatedEventSubscription_CustomerUpdated_Fragment | OrderUpdatedEventSubscription_DraftOrderCreated_Fragment | OrderUpdatedEventSubscription_DraftOrderDeleted_Fragment | OrderUpdatedEventSubscription_DraftOrderUpdated_Fragment | OrderUpdatedEventSubscription_FulfillmentApproved_Fragment | OrderUpdatedEventSubscription_FulfillmentCanceled_Fragment | OrderUpdatedEventSubscription_FulfillmentCreated_Fragment | OrderUpdatedEventSubscription_FulfillmentMetadataUpdated_Fragment | OrderUpdatedEventSubscription_FulfillmentTrackingNumberUpdated_Fragment | OrderUpdatedEventSubscription_GiftCardCreated_Fragment | OrderUpdatedEventSubscription_GiftCardDeleted_Fragment | OrderUpdatedEventSubscription_GiftCardExportCompleted_Fragment | OrderUpdatedEventSubscription_GiftCardMetadataUpdated_Fragment | OrderUpdatedEventSubscription_GiftCardSent_Fragment | OrderUpdatedEventSubscription_GiftCardStatusChanged_Fragment | OrderUpdatedEventSubscription_GiftCardUpdated_Fragment | OrderUpdatedEventSubscription_InvoiceDeleted_Fragment | OrderUpdatedEventSubscription_InvoiceRequested_Fragment | OrderUpdatedEventSubscription_InvoiceSent_Fragment | OrderUpdatedEventSubscription_ListStoredPaymentMethods_Fragment | OrderUpdatedEventSubscription_MenuCreated_Fragment | OrderUpdatedEventSubscription_MenuDeleted_Fragment | OrderUpdatedEventSubscription_MenuItemCreated_Fragment | OrderUpdatedEventSubscription_MenuItemDeleted_Fragment | OrderUpdatedEventSubscription_MenuItemUpdated_Fragment | OrderUpdatedEventSubscription_MenuUpdated_Fragment | OrderUpdatedEventSubscription_OrderBulkCreated_Fragment | OrderUpdatedEventSubscription_OrderCancelled_Fragment | OrderUpdatedEventSubscription_OrderConfirmed_Fragment | OrderUpdatedEventSubscription_OrderCreated_Fragment | OrderUpdatedEventSubscription_OrderExpired_Fragment | OrderUpdatedEventSubscription_OrderFilterShippingMethods_Fragment | OrderUpdatedEventSubscription_OrderFulfilled_Fragment | OrderUpdatedEventSubscription_OrderFullyPaid_Fragment | OrderUpdatedEventSubscription_OrderFullyRefunded_Fragment | OrderUpdatedEventSubscription_OrderMetadataUpdated_Fragment | OrderUpdatedEventSubscription_OrderPaid_Fragment | OrderUpdatedEventSubscription_OrderRefunded_Fragment | OrderUpdatedEventSubscription_OrderUpdated_Fragment | OrderUpdatedEventSubscription_PageCreated_Fragment | OrderUpdatedEventSubscription_PageDeleted_Fragment | OrderUpdatedEventSubscription_PageTypeCreated_Fragment | OrderUpdatedEventSubscription_PageTypeDeleted_Fragment | OrderUpdatedEventSubscription_PageTypeUpdated_Fragment | OrderUpdatedEventSubscription_PageUpdated_Fragment | OrderUpdatedEventSubscription_PaymentAuthorize_Fragment | OrderUpdatedEventSubscription_PaymentCaptureEvent_Fragment | OrderUpdatedEventSubscription_PaymentConfirmEvent_Fragment | OrderUpdatedEventSubscription_PaymentGatewayInitializeSession_Fragment | OrderUpdatedEventSubscription_PaymentGatewayInitializeTokenizationSession_Fragment | OrderUpdatedEventSubscription_PaymentListGateways_Fragment | OrderUpdatedEventSubscription_PaymentMethodInitializeTokenizationSession_Fragment | OrderUpdatedEventSubscription_PaymentMethodProcessTokenizationSession_Fragment | OrderUpdatedEventSubscription_PaymentProcessEvent_Fragment | OrderUpdatedEventSubscription_PaymentRefundEvent_Fragment | OrderUpdatedEventSubscription_PaymentVoidEvent_Fragment | OrderUpdatedEventSubscription_PermissionGroupCreated_Fragment | OrderUpdatedEventSubscription_PermissionGroupDeleted_Fragment | OrderUpdatedEventSubscription_PermissionGroupUpdated_Fragment | OrderUpdatedEventSubscription_ProductCreated_Fragment | OrderUpdatedEventSubscription_ProductDeleted_Fragment | OrderUpdatedEventSubscription_ProductExportCompleted_Fragment | OrderUpdatedEventSubscription_ProductMediaCreated_Fragment | OrderUpdatedEventSubscription_ProductMediaDeleted_Fragment | OrderUpdatedEventSubscription_ProductMediaUpdated_Fragment | OrderUpdatedEventSubscription_ProductMetadataUpdated_Fragment | OrderUpdatedEventSubscription_ProductUpdated_Fragment | OrderUpdatedEventSubscription_ProductVariantBackInStock_Fragment | OrderUpdatedEventSubscription_ProductVariantCreated_Fragment | OrderUpdatedEventSubscription_ProductVariantDeleted_Fragment | OrderUpdatedEventSubscription_ProductVariantMetadataUpdated_Fragment | OrderUpdatedEventSubscription_ProductVariantOutOfStock_Fragment | OrderUpdatedEventSubscription_ProductVariantStockUpdated_Fragment | OrderUpdatedEventSubscription_ProductVariantUpdated_Fragment | OrderUpdatedEventSubscription_PromotionCreated_Fragment | OrderUpdatedEventSubscription_PromotionDeleted_Fragment | OrderUpdatedEventSubscription_PromotionEnded_Fragment | OrderUpdatedEventSubscription_PromotionRuleCreated_Fragment | OrderUpdatedEventSubscription_PromotionRuleDeleted_Fragment | OrderUpdatedEventSubscription_PromotionRuleUpdated_Fragment | OrderUpdatedEventSubscription_PromotionStarted_Fragment | OrderUpdatedEventSubscription_PromotionUpdated_Fragment | OrderUpdatedEventSubscription_SaleCreated_Fragment | OrderUpdatedEventSubscription_SaleDeleted_Fragment | OrderUpdatedEventSubscription_SaleToggle_Fragment | OrderUpdatedEventSubscription_SaleUpdated_Fragment | OrderUpdatedEventSubscription_ShippingListMethodsForCheckout_Fragment | OrderUpdatedEventSubscription_ShippingPriceCreated_Fragment | OrderUpdatedEventSubscription_ShippingPriceDeleted_Fragment | OrderUpdatedEventSubscription_ShippingPriceUpdated_Fragment | OrderUpdatedEventSubscription_ShippingZoneCreated_Fragment | OrderUpdatedEventSubscription_ShippingZoneDeleted_Fragment | OrderUpdatedEventSubscription_ShippingZoneMetadataUpdated_Fragment | OrderUpdatedEventSubscription_ShippingZoneUpdated_Fragment | OrderUpdatedEventSubscription_ShopMetadataUpdated_Fragment | OrderUpdatedEventSubscription_StaffCreated_Fragment | OrderUpdatedEventSubscription_StaffDeleted_Fragment | OrderUpdatedEventSubscription_StaffSetPasswordRequested_Fragment | OrderUpdatedEventSubscription_StaffUpdated_Fragment | OrderUpdatedEventSubscription_StoredPaymentMethodDeleteRequested_Fragment | OrderUpdatedEventSubscription_ThumbnailCreated_Fragment | OrderUpdatedEventSubscription_TransactionCancelationRequested_Fragment | OrderUpdatedEventSubscription_TransactionChargeRequested_Fragment | OrderUpdatedEventSubscription_TransactionInitializeSession_Fragment | OrderUpdatedEventSubscription_TransactionItemMetadataUpdated_Fragment | OrderUpdatedEventSubscription_TransactionProcessSession_Fragment | OrderUpdatedEventSubscription_TransactionRefundRequested_Fragment | OrderUpdatedEventSubscription_TranslationCreated_Fragment | OrderUpdatedEventSubscription_TranslationUpdated_Fragment | OrderUpdatedEventSubscription_VoucherCodeExportCompleted_Fragment | OrderUpdatedEventSubscription_VoucherCodesCreated_Fragment | OrderUpdatedEventSubscription_VoucherCodesDeleted_Fragment | OrderUpdatedEventSubscription_VoucherCreated_Fragment | OrderUpdatedEventSubscription_VoucherDeleted_Fragment | OrderUpdatedEventSubscription_VoucherMetadataUpdated_Fragment | OrderUpdatedEventSubscription_VoucherUpdated_Fragment | OrderUpdatedEventSubscription_WarehouseCreated_Fragment | OrderUpdatedEventSubscription_WarehouseDeleted_Fragment | OrderUpdatedEventSubscription_WarehouseMetadataUpdated_Fragment | OrderUpdatedEventSubscription_WarehouseUpdated_Fragment;
+
+export type OrderUpdatedSubscriptionSubscriptionVariables = Exact<{ [key: string]: never; }>;
+
+
+export type OrderUpdatedSubscriptionSubscription = { __typename?: 'Subscription', event?: { __typename: 'AccountChangeEmailRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountConfirmationRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountConfirmed', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountDeleteRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountEmailChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AccountSetPasswordRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AddressCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AddressDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AddressUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AppDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AppInstalled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AppStatusChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AppUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeValueCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeValueDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'AttributeValueUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CalculateTaxes', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CategoryCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CategoryDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CategoryUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ChannelCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ChannelDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ChannelMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ChannelStatusChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ChannelUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutFilterShippingMethods', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutFullyAuthorized', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutFullyPaid', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CheckoutUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CollectionCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CollectionDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CollectionMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CollectionUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CustomerCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CustomerMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'CustomerUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'DraftOrderCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'DraftOrderDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'DraftOrderUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'FulfillmentApproved', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'FulfillmentCanceled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'FulfillmentCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'FulfillmentMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'FulfillmentTrackingNumberUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardExportCompleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardSent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardStatusChanged', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'GiftCardUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'InvoiceDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'InvoiceRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'InvoiceSent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ListStoredPaymentMethods', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuItemCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuItemDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuItemUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'MenuUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderBulkCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderCancelled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderConfirmed', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderExpired', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderFilterShippingMethods', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderFulfilled', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderFullyPaid', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderFullyRefunded', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderPaid', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderRefunded', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'OrderUpdated', issuedAt?: string | null, version?: string | null, order?: { __typename?: 'Order', id: string, number: string, userEmail?: string | null, created: string, status: OrderStatus, chargeStatus: OrderChargeStatusEnum, avataxId?: string | null, avataxCustomerCode?: string | null, avataxEntityCode?: string | null, avataxTaxCalculationDate?: string | null, avataxDocumentCode?: string | null, avataxFallbackTaxCalculation?: string | null, user?: { __typename?: 'User', id: string, email: string, avataxCustomerCode?: string | null } | null, channel: { __typename?: 'Channel', id: string, slug: string, taxConfiguration: { __typename?: 'TaxConfiguration', pricesEnteredWithTax: boolean, taxCalculationStrategy?: TaxCalculationStrategy | null } }, shippingAddress?: { __typename?: 'Address', streetAddress1: string, streetAddress2: string, city: string, countryArea: string, postalCode: string, country: { __typename?: 'CountryDisplay', code: string } } | null, billingAddress?: { __typename?: 'Address', streetAddress1: string, streetAddress2: string, city: string, countryArea: string, postalCode: string, country: { __typename?: 'CountryDisplay', code: string } } | null, total: { __typename?: 'TaxedMoney', currency: string, net: { __typename?: 'Money', amount: number }, tax: { __typename?: 'Money', amount: number } }, shippingPrice: { __typename?: 'TaxedMoney', gross: { __typename?: 'Money', amount: number }, net: { __typename?: 'Money', amount: number } }, lines: Array<{ __typename?: 'OrderLine', productSku?: string | null, productVariantId?: string | null, productName: string, quantity: number, taxClass?: { __typename?: 'TaxClass', id: string } | null, unitPrice: { __typename?: 'TaxedMoney', net: { __typename?: 'Money', amount: number } }, totalPrice: { __typename?: 'TaxedMoney', net: { __typename?: 'Money', amount: number }, tax: { __typename?: 'Money', amount: number }, gross: { __typename?: 'Money', amount: number } } }> } | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageTypeCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageTypeDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageTypeUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PageUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentAuthorize', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentCaptureEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentConfirmEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentGatewayInitializeSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentGatewayInitializeTokenizationSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentListGateways', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentMethodInitializeTokenizationSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentMethodProcessTokenizationSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentProcessEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentRefundEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PaymentVoidEvent', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PermissionGroupCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PermissionGroupDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PermissionGroupUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductExportCompleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductMediaCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductMediaDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductMediaUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantBackInStock', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantOutOfStock', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantStockUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ProductVariantUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionEnded', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionRuleCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionRuleDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionRuleUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionStarted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'PromotionUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'SaleCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'SaleDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'SaleToggle', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'SaleUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingListMethodsForCheckout', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingPriceCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingPriceDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingPriceUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingZoneCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingZoneDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingZoneMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShippingZoneUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ShopMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'StaffCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'StaffDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'StaffSetPasswordRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'StaffUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'StoredPaymentMethodDeleteRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'ThumbnailCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionCancelationRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionChargeRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionInitializeSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionItemMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionProcessSession', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TransactionRefundRequested', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TranslationCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'TranslationUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherCodeExportCompleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherCodesCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherCodesDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'VoucherUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'WarehouseCreated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'WarehouseDeleted', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'WarehouseMetadataUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | { __typename: 'WarehouseUpdated', issuedAt?: string | null, version?: string | null, recipient?: { __typename?: 'App', privateMetadata: Array<{ __typename?: 'MetadataItem', key: string, value: string }> } | null } | null };
+
+export const UntypedWebhookMetadataFragmentDoc = gql`
+    fragment WebhookMetadata on Event {
+  issuedAt
+  version
+}
+    `;
+export const UntypedTaxDiscountFragmentDoc = gql`
+    fragment TaxDiscount on TaxableObjectDiscount {
+  amount {
+    amount
+  }
+  type
+}
+    `;
+export const UntypedAddressFragmentDoc = gql`
+    fragment Address on Address {
+  streetAddress1
+  streetAddress2
+  city
+  countryArea
+  postalCode
+  country {
+    code
+  }
+}
+    `;
+export const UntypedTaxBaseLineFragmentDoc = gql`
+    fragment TaxBaseLine on TaxableObjectLine {
+  sourceLine {
+    __typename
+    ... on CheckoutLine {
+      id
+      checkoutProductVariant: variant {
+        id
+        sku
+        product {
+          taxClass {
+            id
+            name
+          }
+        }
+      }
+    }
+    ... on OrderLine {
+      id
+      orderProductVariant: variant {
+        id
+        sku
+        product {
+          taxClass {
+            id
+            name
+          }
+        }
+      }
+    }
+  }
+  quantity
+  unitPrice {
+    amount
+  }
+  totalPrice {
+    amount
+  }
+}
+    `;
+export const UntypedUserFragmentDoc = gql`
+    fragment User on User {
+  id
+  email
+  avataxCustomerCode: metafield(key: "avataxCustomerCode")
+}
+    `;
+export const UntypedTaxBaseFragmentDoc = gql`
+    fragment TaxBase on TaxableObject {
+  pricesEnteredWithTax
+  currency
+  channel {
+    slug
+    id
+  }
+  discounts {
+    ...TaxDiscount
+  }
+  address {
+    ...Address
+  }
+  shippingPrice {
+    amount
+  }
+  lines {
+    ...TaxBaseLine
+  }
+  sourceObject {
+    __typename
+    ... on Checkout {
+      id
+      avataxEntityCode: metafield(key: "avataxEntityCode")
+      avataxCustomerCode: metafield(key: "avataxCustomerCode")
+      avataxExemptionStatus: metafield(key: "avataxExemptionStatus")
+      avataxShipFromAddress: privateMetafield(key: "avataxShipFromAddress")
+      avataxFallbackTaxCalculation: privateMetafield(
+        key: "avataxFallbackTaxCalculation"
+      )
+      user {
+        ...User
+      }
+    }
+    ... on Order {
+      id
+      avataxEntityCode: metafield(key: "avataxEntityCode")
+      avataxCustomerCode: metafield(key: "avataxCustomerCode")
+      avataxExemptionStatus: metafield(key: "avataxExemptionStatus")
+      avataxShipFromAddress: privateMetafield(key: "avataxShipFromAddress")
+      avataxFallbackTaxCalculation: privateMetafield(
+        key: "avataxFallbackTaxCalculation"
+      )
+      user {
+        ...User
+      }
+    }
+  }
+}
+    `;
+export const UntypedCalculateTaxesEventFragmentDoc = gql`
+    fragment CalculateTaxesEvent on Event {
+  __typename
+  ...WebhookMetadata
+  ... on CalculateTaxes {
+    taxBase {
+      ...TaxBase
+    }
+    recipient {
+      privateMetadata {
+        key
+        value
+      }
+    }
+  }
+}
+    `;
+export const UntypedMetadataItemFragmentDoc = gql`
+    fragment MetadataItem on MetadataItem {
+  key
+  value
+}
+    `;
+export const UntypedTaxClassFragmentDoc = gql`
+    fragment TaxClass on TaxClass {
+  id
+  name
+}
+    `;
+export const UntypedChannelFragmentDoc = gql`
+    fragment Channel on Channel {
+  id
+  name
+  slug
+}
+    `;
+export const UntypedCountryWithCodeFragmentDoc = gql`
+    fragment CountryWithCode on CountryDisplay {
+  country
+  code
+  __typename
+}
+    `;
+export const UntypedTaxConfigurationPerCountryFragmentDoc = gql`
+    fragment TaxConfigurationPerCountry on TaxConfigurationPerCountry {
+  country {
+    ...CountryWithCode
+    __typename
+  }
+  chargeTaxes
+  taxCalculationStrategy
+  displayGrossPrices
+  __typename
+}
+    `;
+export const UntypedTaxConfigurationFragmentDoc = gql`
+    fragment TaxConfiguration on TaxConfiguration {
+  id
+  channel {
+    ...Channel
+  }
+  displayGrossPrices
+  pricesEnteredWithTax
+  chargeTaxes
+  taxCalculationStrategy
+  countries {
+    ...TaxConfigurationPerCountry
+    __typename
+  }
+  __typename
+}
+    `;
+export const UntypedOrderCancelledSubscriptionFragmentDoc = gql`
+    fragment OrderCancelledSubscription on Order {
+  id
+  avataxId: metafield(key: "avataxId")
+  channel {
+    id
+    slug
+  }
+}
+    `;
+export const UntypedOrderCancelledEventSubscriptionFragmentDoc = gql`
+    fragment OrderCancelledEventSubscription on Event {
+  __typename
+  ...WebhookMetadata
+  ... on OrderCancelled {
+    order {
+      ...OrderCancelledSubscription
+    }
+    recipient {
+      privateMetadata {
+        key
+        value
+      }
+    }
+  }
+}
+    `;
+export const UntypedOrderLineFragmentDoc = gql`
+    fragment OrderLine on OrderLine {
+  productSku
+  productVariantId
+  productName
+  quantity
+  taxClass {
+    id
+  }
+  unitPrice {
+    net {
+      amount
+    }
+  }
+  totalPrice {
+    net {
+      amount
+    }
+    tax {
+      amount
+    }
+    gross {
+      amount
+    }
+  }
+}
+    `;
+export const UntypedOrderConfirmedSubscriptionFragmentDoc = gql`
+    fragment OrderConfirmedSubscription on Order {
   id
   number
   userEmail
@@ -2359,6 +3729,7 @@ export const UntypedOrderConfirmedSubscriptionFragmentDoc = gql`
   avataxCustomerCode: metafield(key: "avataxCustomerCode")
   created
   status
+  chargeStatus
   channel {
     id
     slug
@@ -2396,6 +3767,9 @@ export const UntypedOrderConfirmedSubscriptionFragmentDoc = gql`
   avataxEntityCode: metafield(key: "avataxEntityCode")
   avataxTaxCalculationDate: metafield(key: "avataxTaxCalculationDate")
   avataxDocumentCode: metafield(key: "avataxDocumentCode")
+  avataxFallbackTaxCalculation: privateMetafield(
+    key: "avataxFallbackTaxCalculation"
+  )
 }
     `;
 export const UntypedOrderConfirmedEventSubscriptionFragmentDoc = gql`
@@ -2415,6 +3789,120 @@ export const UntypedOrderConfirmedEventSubscriptionFragmentDoc = gql`
   }
 }
     `;
+export const UntypedOrderCommitSubscriptionFragmentDoc = gql`
+    fragment OrderCommitSubscription on Order {
+  id
+  avataxId: metafield(key: "avataxId")
+  channel {
+    id
+    slug
+  }
+}
+    `;
+export const UntypedOrderFulfilledEventSubscriptionFragmentDoc = gql`
+    fragment OrderFulfilledEventSubscription on Event {
+  __typename
+  ...WebhookMetadata
+  ... on OrderFulfilled {
+    order {
+      ...OrderCommitSubscription
+    }
+  }
+  recipient {
+    privateMetadata {
+      key
+      value
+    }
+  }
+}
+    `;
+export const UntypedOrderFullyPaidEventSubscriptionFragmentDoc = gql`
+    fragment OrderFullyPaidEventSubscription on Event {
+  __typename
+  ...WebhookMetadata
+  ... on OrderFullyPaid {
+    order {
+      ...OrderCommitSubscription
+    }
+  }
+  recipient {
+    privateMetadata {
+      key
+      value
+    }
+  }
+}
+    `;
+export const UntypedOrderGrantedRefundFragmentDoc = gql`
+    fragment OrderGrantedRefund on OrderGrantedRefund {
+  id
+  createdAt
+  status
+  shippingCostsIncluded
+  amount {
+    amount
+  }
+  lines {
+    quantity
+    orderLine {
+      id
+    }
+  }
+}
+    `;
+export const UntypedOrderRefundedSubscriptionFragmentDoc = gql`
+    fragment OrderRefundedSubscription on Order {
+  ...OrderConfirmedSubscription
+  avataxId: metafield(key: "avataxId")
+  avataxReturnCodes: metafield(key: "avataxReturnCodes")
+  lines {
+    id
+  }
+  grantedRefunds {
+    ...OrderGrantedRefund
+  }
+}
+    `;
+export const UntypedOrderRefundedEventSubscriptionFragmentDoc = gql`
+    fragment OrderRefundedEventSubscription on Event {
+  __typename
+  ...WebhookMetadata
+  ... on OrderRefunded {
+    order {
+      ...OrderRefundedSubscription
+    }
+  }
+  recipient {
+    privateMetadata {
+      key
+      value
+    }
+  }
+}
+    `;
+export const UntypedOrderUpdatedSubscriptionFragmentDoc = gql`
+    fragment OrderUpdatedSubscription on Order {
+  ...OrderConfirmedSubscription
+  avataxId: metafield(key: "avataxId")
+}
+    `;
+export const UntypedOrderUpdatedEventSubscriptionFragmentDoc = gql`
+    fragment OrderUpdatedEventSubscription on Event {
+  __typename
+  ...WebhookMetadata
+  ... on OrderUpdated {
+    order {
+      ...OrderUpdatedSubscription
+    }
+  }
+  recipient {
+    privateMetadata {
+      key
+      value
+    }
+  }
+}
+    `;
 export const UntypedDeleteAppMetadataDocument = gql`
     mutation DeleteAppMetadata($id: ID!, $keys: [String!]!) {
   deletePrivateMetadata(id: $id, keys: $keys) {
@@ -2614,13 +4102,58 @@ ${UntypedOrderConfirmedSubscriptionFragmentDoc}
 ${UntypedUserFragmentDoc}
 ${UntypedAddressFragmentDoc}
 ${UntypedOrderLineFragmentDoc}`;
+export const UntypedOrderFulfilledSubscriptionDocument = gql`
+    subscription OrderFulfilledSubscription {
+  event {
+    ...OrderFulfilledEventSubscription
+  }
+}
+    ${UntypedOrderFulfilledEventSubscriptionFragmentDoc}
+${UntypedWebhookMetadataFragmentDoc}
+${UntypedOrderCommitSubscriptionFragmentDoc}`;
+export const UntypedOrderFullyPaidSubscriptionDocument = gql`
+    subscription OrderFullyPaidSubscription {
+  event {
+    ...OrderFullyPaidEventSubscription
+  }
+}
+    ${UntypedOrderFullyPaidEventSubscriptionFragmentDoc}
+${UntypedWebhookMetadataFragmentDoc}
+${UntypedOrderCommitSubscriptionFragmentDoc}`;
+export const UntypedOrderRefundedSubscriptionDocument = gql`
+    subscription OrderRefundedSubscription {
+  event {
+    ...OrderRefundedEventSubscription
+  }
+}
+    ${UntypedOrderRefundedEventSubscriptionFragmentDoc}
+${UntypedWebhookMetadataFragmentDoc}
+${UntypedOrderRefundedSubscriptionFragmentDoc}
+${UntypedOrderConfirmedSubscriptionFragmentDoc}
+${UntypedUserFragmentDoc}
+${UntypedAddressFragmentDoc}
+${UntypedOrderLineFragmentDoc}
+${UntypedOrderGrantedRefundFragmentDoc}`;
+export const UntypedOrderUpdatedSubscriptionDocument = gql`
+    subscription OrderUpdatedSubscription {
+  event {
+    ...OrderUpdatedEventSubscription
+  }
+}
+    ${UntypedOrderUpdatedEventSubscriptionFragmentDoc}
+${UntypedWebhookMetadataFragmentDoc}
+${UntypedOrderUpdatedSubscriptionFragmentDoc}
+${UntypedOrderConfirmedSubscriptionFragmentDoc}
+${UntypedUserFragmentDoc}
+${UntypedAddressFragmentDoc}
+${UntypedOrderLineFragmentDoc}`;
 export const WebhookMetadataFragmentDoc = {"kind":"Document","definitions":[{"kind":"FragmentDefinition","name":{"kind":"Name","value":"WebhookMetadata"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"issuedAt"}},{"kind":"Field","name":{"kind":"Name","value":"version"}}]}}]} as unknown as DocumentNode<WebhookMetadataFragment, unknown>;
 export const TaxDiscountFragmentDoc = {"kind":"Document","definitions":[{"kind":"FragmentDefinition","name":{"kind":"Name","value":"TaxDiscount"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"TaxableObjectDiscount"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"type"}}]}}]} as unknown as DocumentNode<TaxDiscountFragment, unknown>;
 export const AddressFragmentDoc = {"kind":"Document","definitions":[{"kind":"FragmentDefinition","name":{"kind":"Name","value":"Address"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Address"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"streetAddress1"}},{"kind":"Field","name":{"kind":"Name","value":"streetAddress2"}},{"kind":"Field","name":{"kind":"Name","value":"city"}},{"kind":"Field","name":{"kind":"Name","value":"countryArea"}},{"kind":"Field","name":{"kind":"Name","value":"postalCode"}},{"kind":"Field","name":{"kind":"Name","value":"country"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"code"}}]}}]}}]} as unknown as DocumentNode<AddressFragment, unknown>;
 export const TaxBaseLineFragmentDoc = {"kind":"Document","definitions":[{"kind":"FragmentDefinition","name":{"kind":"Name","value":"TaxBaseLine"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"TaxableObjectLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"sourceLine"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"__typename"}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"CheckoutLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"checkoutProductVariant"},"name":{"kind":"Name","value":"variant"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"sku"}},{"kind":"Field","name":{"kind":"Name","value":"product"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"taxClass"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"name"}}]}}]}}]}}]}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"orderProductVariant"},"name":{"kind":"Name","value":"variant"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"sku"}},{"kind":"Field","name":{"kind":"Name","value":"product"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"taxClass"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"name"}}]}}]}}]}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"quantity"}},{"kind":"Field","name":{"kind":"Name","value":"unitPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"totalPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}}]} as unknown as DocumentNode<TaxBaseLineFragment, unknown>;
 export const UserFragmentDoc = {"kind":"Document","definitions":[{"kind":"FragmentDefinition","name":{"kind":"Name","value":"User"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"User"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"email"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]}]}}]} as unknown as DocumentNode<UserFragment, unknown>;
-export const TaxBaseFragmentDoc = {"kind":"Document","definitions":[{"kind":"FragmentDefinition","name":{"kind":"Name","value":"TaxBase"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"TaxableObject"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"pricesEnteredWithTax"}},{"kind":"Field","name":{"kind":"Name","value":"currency"}},{"kind":"Field","name":{"kind":"Name","value":"channel"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"slug"}},{"kind":"Field","name":{"kind":"Name","value":"id"}}]}},{"kind":"Field","name":{"kind":"Name","value":"discounts"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"TaxDiscount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"address"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"Address"}}]}},{"kind":"Field","name":{"kind":"Name","value":"shippingPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"lines"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"TaxBaseLine"}}]}},{"kind":"Field","name":{"kind":"Name","value":"sourceObject"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"__typename"}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Checkout"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxEntityCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxEntityCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxExemptionStatus"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxExemptionStatus","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxShipFromAddress"},"name":{"kind":"Name","value":"privateMetafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxShipFromAddress","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"user"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"User"}}]}}]}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Order"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxEntityCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxEntityCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxExemptionStatus"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxExemptionStatus","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxShipFromAddress"},"name":{"kind":"Name","value":"privateMetafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxShipFromAddress","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"user"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"User"}}]}}]}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"TaxDiscount"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"TaxableObjectDiscount"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"type"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"Address"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Address"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"streetAddress1"}},{"kind":"Field","name":{"kind":"Name","value":"streetAddress2"}},{"kind":"Field","name":{"kind":"Name","value":"city"}},{"kind":"Field","name":{"kind":"Name","value":"countryArea"}},{"kind":"Field","name":{"kind":"Name","value":"postalCode"}},{"kind":"Field","name":{"kind":"Name","value":"country"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"code"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"TaxBaseLine"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"TaxableObjectLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"sourceLine"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"__typename"}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"CheckoutLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"checkoutProductVariant"},"name":{"kind":"Name","value":"variant"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"sku"}},{"kind":"Field","name":{"kind":"Name","value":"product"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"taxClass"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"name"}}]}}]}}]}}]}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"orderProductVariant"},"name":{"kind":"Name","value":"variant"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"sku"}},{"kind":"Field","name":{"kind":"Name","value":"product"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"taxClass"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"name"}}]}}]}}]}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"quantity"}},{"kind":"Field","name":{"kind":"Name","value":"unitPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"totalPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"User"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"User"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"email"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]}]}}]} as unknown as DocumentNode<TaxBaseFragment, unknown>;
-export const CalculateTaxesEventFragmentDoc = {"kind":"Document","definitions":[{"kind":"FragmentDefinition","name":{"kind":"Name","value":"CalculateTaxesEvent"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"__typename"}},{"kind":"FragmentSpread","name":{"kind":"Name","value":"WebhookMetadata"}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"CalculateTaxes"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"taxBase"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"TaxBase"}}]}},{"kind":"Field","name":{"kind":"Name","value":"recipient"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"privateMetadata"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"key"}},{"kind":"Field","name":{"kind":"Name","value":"value"}}]}}]}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"TaxDiscount"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"TaxableObjectDiscount"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"type"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"Address"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Address"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"streetAddress1"}},{"kind":"Field","name":{"kind":"Name","value":"streetAddress2"}},{"kind":"Field","name":{"kind":"Name","value":"city"}},{"kind":"Field","name":{"kind":"Name","value":"countryArea"}},{"kind":"Field","name":{"kind":"Name","value":"postalCode"}},{"kind":"Field","name":{"kind":"Name","value":"country"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"code"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"TaxBaseLine"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"TaxableObjectLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"sourceLine"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"__typename"}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"CheckoutLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"checkoutProductVariant"},"name":{"kind":"Name","value":"variant"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"sku"}},{"kind":"Field","name":{"kind":"Name","value":"product"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"taxClass"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"name"}}]}}]}}]}}]}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"orderProductVariant"},"name":{"kind":"Name","value":"variant"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"sku"}},{"kind":"Field","name":{"kind":"Name","value":"product"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"taxClass"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"name"}}]}}]}}]}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"quantity"}},{"kind":"Field","name":{"kind":"Name","value":"unitPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"totalPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"User"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"User"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"email"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"WebhookMetadata"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"issuedAt"}},{"kind":"Field","name":{"kind":"Name","value":"version"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"TaxBase"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"TaxableObject"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"pricesEnteredWithTax"}},{"kind":"Field","name":{"kind":"Name","value":"currency"}},{"kind":"Field","name":{"kind":"Name","value":"channel"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"slug"}},{"kind":"Field","name":{"kind":"Name","value":"id"}}]}},{"kind":"Field","name":{"kind":"Name","value":"discounts"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"TaxDiscount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"address"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"Address"}}]}},{"kind":"Field","name":{"kind":"Name","value":"shippingPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"lines"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"TaxBaseLine"}}]}},{"kind":"Field","name":{"kind":"Name","value":"sourceObject"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"__typename"}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Checkout"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxEntityCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxEntityCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxExemptionStatus"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxExemptionStatus","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxShipFromAddress"},"name":{"kind":"Name","value":"privateMetafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxShipFromAddress","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"user"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"User"}}]}}]}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Order"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxEntityCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxEntityCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxExemptionStatus"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxExemptionStatus","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxShipFromAddress"},"name":{"kind":"Name","value":"privateMetafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxShipFromAddress","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"user"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"User"}}]}}]}}]}}]}}]} as unknown as DocumentNode<CalculateTaxesEventFragment, unknown>;
+export const TaxBaseFragmentDoc = {"kind":"Document","definitions":[{"kind":"FragmentDefinition","name":{"kind":"Name","value":"TaxBase"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"TaxableObject"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"pricesEnteredWithTax"}},{"kind":"Field","name":{"kind":"Name","value":"currency"}},{"kind":"Field","name":{"kind":"Name","value":"channel"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"slug"}},{"kind":"Field","name":{"kind":"Name","value":"id"}}]}},{"kind":"Field","name":{"kind":"Name","value":"discounts"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"TaxDiscount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"address"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"Address"}}]}},{"kind":"Field","name":{"kind":"Name","value":"shippingPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"lines"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"TaxBaseLine"}}]}},{"kind":"Field","name":{"kind":"Name","value":"sourceObject"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"__typename"}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Checkout"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxEntityCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxEntityCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxExemptionStatus"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxExemptionStatus","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxShipFromAddress"},"name":{"kind":"Name","value":"privateMetafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxShipFromAddress","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxFallbackTaxCalculation"},"name":{"kind":"Name","value":"privateMetafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxFallbackTaxCalculation","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"user"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"User"}}]}}]}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Order"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxEntityCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxEntityCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxExemptionStatus"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxExemptionStatus","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxShipFromAddress"},"name":{"kind":"Name","value":"privateMetafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxShipFromAddress","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxFallbackTaxCalculation"},"name":{"kind":"Name","value":"privateMetafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxFallbackTaxCalculation","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"user"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"User"}}]}}]}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"TaxDiscount"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"TaxableObjectDiscount"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"type"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"Address"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Address"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"streetAddress1"}},{"kind":"Field","name":{"kind":"Name","value":"streetAddress2"}},{"kind":"Field","name":{"kind":"Name","value":"city"}},{"kind":"Field","name":{"kind":"Name","value":"countryArea"}},{"kind":"Field","name":{"kind":"Name","value":"postalCode"}},{"kind":"Field","name":{"kind":"Name","value":"country"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"code"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"TaxBaseLine"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"TaxableObjectLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"sourceLine"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"__typename"}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"CheckoutLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"checkoutProductVariant"},"name":{"kind":"Name","value":"variant"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"sku"}},{"kind":"Field","name":{"kind":"Name","value":"product"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"taxClass"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"name"}}]}}]}}]}}]}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"orderProductVariant"},"name":{"kind":"Name","value":"variant"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"sku"}},{"kind":"Field","name":{"kind":"Name","value":"product"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"taxClass"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"name"}}]}}]}}]}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"quantity"}},{"kind":"Field","name":{"kind":"Name","value":"unitPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"totalPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"User"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"User"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"email"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]}]}}]} as unknown as DocumentNode<TaxBaseFragment, unknown>;
+export const CalculateTaxesEventFragmentDoc = {"kind":"Document","definitions":[{"kind":"FragmentDefinition","name":{"kind":"Name","value":"CalculateTaxesEvent"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"__typename"}},{"kind":"FragmentSpread","name":{"kind":"Name","value":"WebhookMetadata"}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"CalculateTaxes"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"taxBase"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"TaxBase"}}]}},{"kind":"Field","name":{"kind":"Name","value":"recipient"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"privateMetadata"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"key"}},{"kind":"Field","name":{"kind":"Name","value":"value"}}]}}]}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"TaxDiscount"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"TaxableObjectDiscount"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"type"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"Address"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Address"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"streetAddress1"}},{"kind":"Field","name":{"kind":"Name","value":"streetAddress2"}},{"kind":"Field","name":{"kind":"Name","value":"city"}},{"kind":"Field","name":{"kind":"Name","value":"countryArea"}},{"kind":"Field","name":{"kind":"Name","value":"postalCode"}},{"kind":"Field","name":{"kind":"Name","value":"country"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"code"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"TaxBaseLine"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"TaxableObjectLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"sourceLine"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"__typename"}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"CheckoutLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"checkoutProductVariant"},"name":{"kind":"Name","value":"variant"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"sku"}},{"kind":"Field","name":{"kind":"Name","value":"product"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"taxClass"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"name"}}]}}]}}]}}]}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"orderProductVariant"},"name":{"kind":"Name","value":"variant"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"sku"}},{"kind":"Field","name":{"kind":"Name","value":"product"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"taxClass"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"name"}}]}}]}}]}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"quantity"}},{"kind":"Field","name":{"kind":"Name","value":"unitPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"totalPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"User"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"User"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"email"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"WebhookMetadata"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"issuedAt"}},{"kind":"Field","name":{"kind":"Name","value":"version"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"TaxBase"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"TaxableObject"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"pricesEnteredWithTax"}},{"kind":"Field","name":{"kind":"Name","value":"currency"}},{"kind":"Field","name":{"kind":"Name","value":"channel"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"slug"}},{"kind":"Field","name":{"kind":"Name","value":"id"}}]}},{"kind":"Field","name":{"kind":"Name","value":"discounts"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"TaxDiscount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"address"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"Address"}}]}},{"kind":"Field","name":{"kind":"Name","value":"shippingPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"lines"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"TaxBaseLine"}}]}},{"kind":"Field","name":{"kind":"Name","value":"sourceObject"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"__typename"}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Checkout"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxEntityCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxEntityCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxExemptionStatus"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxExemptionStatus","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxShipFromAddress"},"name":{"kind":"Name","value":"privateMetafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxShipFromAddress","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxFallbackTaxCalculation"},"name":{"kind":"Name","value":"privateMetafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxFallbackTaxCalculation","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"user"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"User"}}]}}]}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Order"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxEntityCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxEntityCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxExemptionStatus"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxExemptionStatus","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxShipFromAddress"},"name":{"kind":"Name","value":"privateMetafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxShipFromAddress","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxFallbackTaxCalculation"},"name":{"kind":"Name","value":"privateMetafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxFallbackTaxCalculation","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"user"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"User"}}]}}]}}]}}]}}]} as unknown as DocumentNode<CalculateTaxesEventFragment, unknown>;
 export const MetadataItemFragmentDoc = {"kind":"Document","definitions":[{"kind":"FragmentDefinition","name":{"kind":"Name","value":"MetadataItem"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"MetadataItem"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"key"}},{"kind":"Field","name":{"kind":"Name","value":"value"}}]}}]} as unknown as DocumentNode<MetadataItemFragment, unknown>;
 export const TaxClassFragmentDoc = {"kind":"Document","definitions":[{"kind":"FragmentDefinition","name":{"kind":"Name","value":"TaxClass"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"TaxClass"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"name"}}]}}]} as unknown as DocumentNode<TaxClassFragment, unknown>;
 export const ChannelFragmentDoc = {"kind":"Document","definitions":[{"kind":"FragmentDefinition","name":{"kind":"Name","value":"Channel"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Channel"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"name"}},{"kind":"Field","name":{"kind":"Name","value":"slug"}}]}}]} as unknown as DocumentNode<ChannelFragment, unknown>;
@@ -2630,8 +4163,16 @@ export const TaxConfigurationFragmentDoc = {"kind":"Document","definitions":[{"k
 export const OrderCancelledSubscriptionFragmentDoc = {"kind":"Document","definitions":[{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderCancelledSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Order"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxId"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxId","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"channel"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"slug"}}]}}]}}]} as unknown as DocumentNode<OrderCancelledSubscriptionFragment, unknown>;
 export const OrderCancelledEventSubscriptionFragmentDoc = {"kind":"Document","definitions":[{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderCancelledEventSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"__typename"}},{"kind":"FragmentSpread","name":{"kind":"Name","value":"WebhookMetadata"}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderCancelled"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"order"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderCancelledSubscription"}}]}},{"kind":"Field","name":{"kind":"Name","value":"recipient"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"privateMetadata"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"key"}},{"kind":"Field","name":{"kind":"Name","value":"value"}}]}}]}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"WebhookMetadata"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"issuedAt"}},{"kind":"Field","name":{"kind":"Name","value":"version"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderCancelledSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Order"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxId"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxId","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"channel"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"slug"}}]}}]}}]} as unknown as DocumentNode<OrderCancelledEventSubscriptionFragment, unknown>;
 export const OrderLineFragmentDoc = {"kind":"Document","definitions":[{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderLine"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"productSku"}},{"kind":"Field","name":{"kind":"Name","value":"productVariantId"}},{"kind":"Field","name":{"kind":"Name","value":"productName"}},{"kind":"Field","name":{"kind":"Name","value":"quantity"}},{"kind":"Field","name":{"kind":"Name","value":"taxClass"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}}]}},{"kind":"Field","name":{"kind":"Name","value":"unitPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"totalPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"tax"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"gross"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}}]}}]} as unknown as DocumentNode<OrderLineFragment, unknown>;
-export const OrderConfirmedSubscriptionFragmentDoc = {"kind":"Document","definitions":[{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderConfirmedSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Order"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"number"}},{"kind":"Field","name":{"kind":"Name","value":"userEmail"}},{"kind":"Field","name":{"kind":"Name","value":"user"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"User"}}]}},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"created"}},{"kind":"Field","name":{"kind":"Name","value":"status"}},{"kind":"Field","name":{"kind":"Name","value":"channel"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"slug"}},{"kind":"Field","name":{"kind":"Name","value":"taxConfiguration"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"pricesEnteredWithTax"}},{"kind":"Field","name":{"kind":"Name","value":"taxCalculationStrategy"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"shippingAddress"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"Address"}}]}},{"kind":"Field","name":{"kind":"Name","value":"billingAddress"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"Address"}}]}},{"kind":"Field","name":{"kind":"Name","value":"total"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"currency"}},{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"tax"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"shippingPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"gross"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"lines"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderLine"}}]}},{"kind":"Field","alias":{"kind":"Name","value":"avataxEntityCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxEntityCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxTaxCalculationDate"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxTaxCalculationDate","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxDocumentCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxDocumentCode","block":false}}]}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"User"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"User"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"email"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"Address"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Address"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"streetAddress1"}},{"kind":"Field","name":{"kind":"Name","value":"streetAddress2"}},{"kind":"Field","name":{"kind":"Name","value":"city"}},{"kind":"Field","name":{"kind":"Name","value":"countryArea"}},{"kind":"Field","name":{"kind":"Name","value":"postalCode"}},{"kind":"Field","name":{"kind":"Name","value":"country"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"code"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderLine"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"productSku"}},{"kind":"Field","name":{"kind":"Name","value":"productVariantId"}},{"kind":"Field","name":{"kind":"Name","value":"productName"}},{"kind":"Field","name":{"kind":"Name","value":"quantity"}},{"kind":"Field","name":{"kind":"Name","value":"taxClass"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}}]}},{"kind":"Field","name":{"kind":"Name","value":"unitPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"totalPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"tax"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"gross"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}}]}}]} as unknown as DocumentNode<OrderConfirmedSubscriptionFragment, unknown>;
-export const OrderConfirmedEventSubscriptionFragmentDoc = {"kind":"Document","definitions":[{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderConfirmedEventSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"__typename"}},{"kind":"FragmentSpread","name":{"kind":"Name","value":"WebhookMetadata"}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderConfirmed"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"order"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderConfirmedSubscription"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"recipient"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"privateMetadata"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"key"}},{"kind":"Field","name":{"kind":"Name","value":"value"}}]}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"User"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"User"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"email"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"Address"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Address"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"streetAddress1"}},{"kind":"Field","name":{"kind":"Name","value":"streetAddress2"}},{"kind":"Field","name":{"kind":"Name","value":"city"}},{"kind":"Field","name":{"kind":"Name","value":"countryArea"}},{"kind":"Field","name":{"kind":"Name","value":"postalCode"}},{"kind":"Field","name":{"kind":"Name","value":"country"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"code"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderLine"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"productSku"}},{"kind":"Field","name":{"kind":"Name","value":"productVariantId"}},{"kind":"Field","name":{"kind":"Name","value":"productName"}},{"kind":"Field","name":{"kind":"Name","value":"quantity"}},{"kind":"Field","name":{"kind":"Name","value":"taxClass"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}}]}},{"kind":"Field","name":{"kind":"Name","value":"unitPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"totalPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"tax"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"gross"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"WebhookMetadata"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"issuedAt"}},{"kind":"Field","name":{"kind":"Name","value":"version"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderConfirmedSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Order"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"number"}},{"kind":"Field","name":{"kind":"Name","value":"userEmail"}},{"kind":"Field","name":{"kind":"Name","value":"user"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"User"}}]}},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"created"}},{"kind":"Field","name":{"kind":"Name","value":"status"}},{"kind":"Field","name":{"kind":"Name","value":"channel"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"slug"}},{"kind":"Field","name":{"kind":"Name","value":"taxConfiguration"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"pricesEnteredWithTax"}},{"kind":"Field","name":{"kind":"Name","value":"taxCalculationStrategy"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"shippingAddress"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"Address"}}]}},{"kind":"Field","name":{"kind":"Name","value":"billingAddress"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"Address"}}]}},{"kind":"Field","name":{"kind":"Name","value":"total"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"currency"}},{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"tax"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"shippingPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"gross"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"lines"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderLine"}}]}},{"kind":"Field","alias":{"kind":"Name","value":"avataxEntityCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxEntityCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxTaxCalculationDate"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxTaxCalculationDate","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxDocumentCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxDocumentCode","block":false}}]}]}}]} as unknown as DocumentNode<OrderConfirmedEventSubscriptionFragment, unknown>;
+export const OrderConfirmedSubscriptionFragmentDoc = {"kind":"Document","definitions":[{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderConfirmedSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Order"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"number"}},{"kind":"Field","name":{"kind":"Name","value":"userEmail"}},{"kind":"Field","name":{"kind":"Name","value":"user"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"User"}}]}},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"created"}},{"kind":"Field","name":{"kind":"Name","value":"status"}},{"kind":"Field","name":{"kind":"Name","value":"chargeStatus"}},{"kind":"Field","name":{"kind":"Name","value":"channel"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"slug"}},{"kind":"Field","name":{"kind":"Name","value":"taxConfiguration"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"pricesEnteredWithTax"}},{"kind":"Field","name":{"kind":"Name","value":"taxCalculationStrategy"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"shippingAddress"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"Address"}}]}},{"kind":"Field","name":{"kind":"Name","value":"billingAddress"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"Address"}}]}},{"kind":"Field","name":{"kind":"Name","value":"total"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"currency"}},{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"tax"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"shippingPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"gross"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"lines"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderLine"}}]}},{"kind":"Field","alias":{"kind":"Name","value":"avataxEntityCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxEntityCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxTaxCalculationDate"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxTaxCalculationDate","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxDocumentCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxDocumentCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxFallbackTaxCalculation"},"name":{"kind":"Name","value":"privateMetafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxFallbackTaxCalculation","block":false}}]}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"User"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"User"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"email"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"Address"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Address"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"streetAddress1"}},{"kind":"Field","name":{"kind":"Name","value":"streetAddress2"}},{"kind":"Field","name":{"kind":"Name","value":"city"}},{"kind":"Field","name":{"kind":"Name","value":"countryArea"}},{"kind":"Field","name":{"kind":"Name","value":"postalCode"}},{"kind":"Field","name":{"kind":"Name","value":"country"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"code"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderLine"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"productSku"}},{"kind":"Field","name":{"kind":"Name","value":"productVariantId"}},{"kind":"Field","name":{"kind":"Name","value":"productName"}},{"kind":"Field","name":{"kind":"Name","value":"quantity"}},{"kind":"Field","name":{"kind":"Name","value":"taxClass"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}}]}},{"kind":"Field","name":{"kind":"Name","value":"unitPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"totalPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"tax"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"gross"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}}]}}]} as unknown as DocumentNode<OrderConfirmedSubscriptionFragment, unknown>;
+export const OrderConfirmedEventSubscriptionFragmentDoc = {"kind":"Document","definitions":[{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderConfirmedEventSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"__typename"}},{"kind":"FragmentSpread","name":{"kind":"Name","value":"WebhookMetadata"}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderConfirmed"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"order"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderConfirmedSubscription"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"recipient"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"privateMetadata"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"key"}},{"kind":"Field","name":{"kind":"Name","value":"value"}}]}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"User"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"User"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"email"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"Address"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Address"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"streetAddress1"}},{"kind":"Field","name":{"kind":"Name","value":"streetAddress2"}},{"kind":"Field","name":{"kind":"Name","value":"city"}},{"kind":"Field","name":{"kind":"Name","value":"countryArea"}},{"kind":"Field","name":{"kind":"Name","value":"postalCode"}},{"kind":"Field","name":{"kind":"Name","value":"country"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"code"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderLine"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"productSku"}},{"kind":"Field","name":{"kind":"Name","value":"productVariantId"}},{"kind":"Field","name":{"kind":"Name","value":"productName"}},{"kind":"Field","name":{"kind":"Name","value":"quantity"}},{"kind":"Field","name":{"kind":"Name","value":"taxClass"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}}]}},{"kind":"Field","name":{"kind":"Name","value":"unitPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"totalPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"tax"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"gross"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"WebhookMetadata"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"issuedAt"}},{"kind":"Field","name":{"kind":"Name","value":"version"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderConfirmedSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Order"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"number"}},{"kind":"Field","name":{"kind":"Name","value":"userEmail"}},{"kind":"Field","name":{"kind":"Name","value":"user"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"User"}}]}},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"created"}},{"kind":"Field","name":{"kind":"Name","value":"status"}},{"kind":"Field","name":{"kind":"Name","value":"chargeStatus"}},{"kind":"Field","name":{"kind":"Name","value":"channel"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"slug"}},{"kind":"Field","name":{"kind":"Name","value":"taxConfiguration"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"pricesEnteredWithTax"}},{"kind":"Field","name":{"kind":"Name","value":"taxCalculationStrategy"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"shippingAddress"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"Address"}}]}},{"kind":"Field","name":{"kind":"Name","value":"billingAddress"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"Address"}}]}},{"kind":"Field","name":{"kind":"Name","value":"total"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"currency"}},{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"tax"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"shippingPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"gross"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"lines"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderLine"}}]}},{"kind":"Field","alias":{"kind":"Name","value":"avataxEntityCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxEntityCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxTaxCalculationDate"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxTaxCalculationDate","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxDocumentCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxDocumentCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxFallbackTaxCalculation"},"name":{"kind":"Name","value":"privateMetafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxFallbackTaxCalculation","block":false}}]}]}}]} as unknown as DocumentNode<OrderConfirmedEventSubscriptionFragment, unknown>;
+export const OrderCommitSubscriptionFragmentDoc = {"kind":"Document","definitions":[{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderCommitSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Order"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxId"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxId","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"channel"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"slug"}}]}}]}}]} as unknown as DocumentNode<OrderCommitSubscriptionFragment, unknown>;
+export const OrderFulfilledEventSubscriptionFragmentDoc = {"kind":"Document","definitions":[{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderFulfilledEventSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"__typename"}},{"kind":"FragmentSpread","name":{"kind":"Name","value":"WebhookMetadata"}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderFulfilled"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"order"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderCommitSubscription"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"recipient"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"privateMetadata"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"key"}},{"kind":"Field","name":{"kind":"Name","value":"value"}}]}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"WebhookMetadata"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"issuedAt"}},{"kind":"Field","name":{"kind":"Name","value":"version"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderCommitSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Order"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxId"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxId","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"channel"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"slug"}}]}}]}}]} as unknown as DocumentNode<OrderFulfilledEventSubscriptionFragment, unknown>;
+export const OrderFullyPaidEventSubscriptionFragmentDoc = {"kind":"Document","definitions":[{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderFullyPaidEventSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"__typename"}},{"kind":"FragmentSpread","name":{"kind":"Name","value":"WebhookMetadata"}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderFullyPaid"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"order"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderCommitSubscription"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"recipient"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"privateMetadata"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"key"}},{"kind":"Field","name":{"kind":"Name","value":"value"}}]}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"WebhookMetadata"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"issuedAt"}},{"kind":"Field","name":{"kind":"Name","value":"version"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderCommitSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Order"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxId"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxId","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"channel"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"slug"}}]}}]}}]} as unknown as DocumentNode<OrderFullyPaidEventSubscriptionFragment, unknown>;
+export const OrderGrantedRefundFragmentDoc = {"kind":"Document","definitions":[{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderGrantedRefund"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderGrantedRefund"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"createdAt"}},{"kind":"Field","name":{"kind":"Name","value":"status"}},{"kind":"Field","name":{"kind":"Name","value":"shippingCostsIncluded"}},{"kind":"Field","name":{"kind":"Name","value":"amount"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"lines"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"quantity"}},{"kind":"Field","name":{"kind":"Name","value":"orderLine"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}}]}}]}}]}}]} as unknown as DocumentNode<OrderGrantedRefundFragment, unknown>;
+export const OrderRefundedSubscriptionFragmentDoc = {"kind":"Document","definitions":[{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderRefundedSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Order"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderConfirmedSubscription"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxId"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxId","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxReturnCodes"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxReturnCodes","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"lines"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}}]}},{"kind":"Field","name":{"kind":"Name","value":"grantedRefunds"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderGrantedRefund"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"User"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"User"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"email"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"Address"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Address"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"streetAddress1"}},{"kind":"Field","name":{"kind":"Name","value":"streetAddress2"}},{"kind":"Field","name":{"kind":"Name","value":"city"}},{"kind":"Field","name":{"kind":"Name","value":"countryArea"}},{"kind":"Field","name":{"kind":"Name","value":"postalCode"}},{"kind":"Field","name":{"kind":"Name","value":"country"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"code"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderLine"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"productSku"}},{"kind":"Field","name":{"kind":"Name","value":"productVariantId"}},{"kind":"Field","name":{"kind":"Name","value":"productName"}},{"kind":"Field","name":{"kind":"Name","value":"quantity"}},{"kind":"Field","name":{"kind":"Name","value":"taxClass"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}}]}},{"kind":"Field","name":{"kind":"Name","value":"unitPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"totalPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"tax"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"gross"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderConfirmedSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Order"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"number"}},{"kind":"Field","name":{"kind":"Name","value":"userEmail"}},{"kind":"Field","name":{"kind":"Name","value":"user"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"User"}}]}},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"created"}},{"kind":"Field","name":{"kind":"Name","value":"status"}},{"kind":"Field","name":{"kind":"Name","value":"chargeStatus"}},{"kind":"Field","name":{"kind":"Name","value":"channel"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"slug"}},{"kind":"Field","name":{"kind":"Name","value":"taxConfiguration"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"pricesEnteredWithTax"}},{"kind":"Field","name":{"kind":"Name","value":"taxCalculationStrategy"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"shippingAddress"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"Address"}}]}},{"kind":"Field","name":{"kind":"Name","value":"billingAddress"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"Address"}}]}},{"kind":"Field","name":{"kind":"Name","value":"total"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"currency"}},{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"tax"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"shippingPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"gross"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"lines"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderLine"}}]}},{"kind":"Field","alias":{"kind":"Name","value":"avataxEntityCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxEntityCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxTaxCalculationDate"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxTaxCalculationDate","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxDocumentCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxDocumentCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxFallbackTaxCalculation"},"name":{"kind":"Name","value":"privateMetafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxFallbackTaxCalculation","block":false}}]}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderGrantedRefund"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderGrantedRefund"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"createdAt"}},{"kind":"Field","name":{"kind":"Name","value":"status"}},{"kind":"Field","name":{"kind":"Name","value":"shippingCostsIncluded"}},{"kind":"Field","name":{"kind":"Name","value":"amount"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"lines"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"quantity"}},{"kind":"Field","name":{"kind":"Name","value":"orderLine"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}}]}}]}}]}}]} as unknown as DocumentNode<OrderRefundedSubscriptionFragment, unknown>;
+export const OrderRefundedEventSubscriptionFragmentDoc = {"kind":"Document","definitions":[{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderRefundedEventSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"__typename"}},{"kind":"FragmentSpread","name":{"kind":"Name","value":"WebhookMetadata"}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderRefunded"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"order"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderRefundedSubscription"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"recipient"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"privateMetadata"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"key"}},{"kind":"Field","name":{"kind":"Name","value":"value"}}]}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"User"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"User"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"email"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"Address"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Address"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"streetAddress1"}},{"kind":"Field","name":{"kind":"Name","value":"streetAddress2"}},{"kind":"Field","name":{"kind":"Name","value":"city"}},{"kind":"Field","name":{"kind":"Name","value":"countryArea"}},{"kind":"Field","name":{"kind":"Name","value":"postalCode"}},{"kind":"Field","name":{"kind":"Name","value":"country"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"code"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderLine"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"productSku"}},{"kind":"Field","name":{"kind":"Name","value":"productVariantId"}},{"kind":"Field","name":{"kind":"Name","value":"productName"}},{"kind":"Field","name":{"kind":"Name","value":"quantity"}},{"kind":"Field","name":{"kind":"Name","value":"taxClass"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}}]}},{"kind":"Field","name":{"kind":"Name","value":"unitPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"totalPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"tax"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"gross"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderConfirmedSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Order"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"number"}},{"kind":"Field","name":{"kind":"Name","value":"userEmail"}},{"kind":"Field","name":{"kind":"Name","value":"user"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"User"}}]}},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"created"}},{"kind":"Field","name":{"kind":"Name","value":"status"}},{"kind":"Field","name":{"kind":"Name","value":"chargeStatus"}},{"kind":"Field","name":{"kind":"Name","value":"channel"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"slug"}},{"kind":"Field","name":{"kind":"Name","value":"taxConfiguration"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"pricesEnteredWithTax"}},{"kind":"Field","name":{"kind":"Name","value":"taxCalculationStrategy"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"shippingAddress"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"Address"}}]}},{"kind":"Field","name":{"kind":"Name","value":"billingAddress"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"Address"}}]}},{"kind":"Field","name":{"kind":"Name","value":"total"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"currency"}},{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"tax"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"shippingPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"gross"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"lines"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderLine"}}]}},{"kind":"Field","alias":{"kind":"Name","value":"avataxEntityCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxEntityCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxTaxCalculationDate"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxTaxCalculationDate","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxDocumentCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxDocumentCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxFallbackTaxCalculation"},"name":{"kind":"Name","value":"privateMetafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxFallbackTaxCalculation","block":false}}]}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderGrantedRefund"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderGrantedRefund"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"createdAt"}},{"kind":"Field","name":{"kind":"Name","value":"status"}},{"kind":"Field","name":{"kind":"Name","value":"shippingCostsIncluded"}},{"kind":"Field","name":{"kind":"Name","value":"amount"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"lines"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"quantity"}},{"kind":"Field","name":{"kind":"Name","value":"orderLine"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}}]}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"WebhookMetadata"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"issuedAt"}},{"kind":"Field","name":{"kind":"Name","value":"version"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderRefundedSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Order"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderConfirmedSubscription"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxId"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxId","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxReturnCodes"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxReturnCodes","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"lines"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}}]}},{"kind":"Field","name":{"kind":"Name","value":"grantedRefunds"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderGrantedRefund"}}]}}]}}]} as unknown as DocumentNode<OrderRefundedEventSubscriptionFragment, unknown>;
+export const OrderUpdatedSubscriptionFragmentDoc = {"kind":"Document","definitions":[{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderUpdatedSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Order"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderConfirmedSubscription"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxId"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxId","block":false}}]}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"User"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"User"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"email"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"Address"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Address"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"streetAddress1"}},{"kind":"Field","name":{"kind":"Name","value":"streetAddress2"}},{"kind":"Field","name":{"kind":"Name","value":"city"}},{"kind":"Field","name":{"kind":"Name","value":"countryArea"}},{"kind":"Field","name":{"kind":"Name","value":"postalCode"}},{"kind":"Field","name":{"kind":"Name","value":"country"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"code"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderLine"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"productSku"}},{"kind":"Field","name":{"kind":"Name","value":"productVariantId"}},{"kind":"Field","name":{"kind":"Name","value":"productName"}},{"kind":"Field","name":{"kind":"Name","value":"quantity"}},{"kind":"Field","name":{"kind":"Name","value":"taxClass"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}}]}},{"kind":"Field","name":{"kind":"Name","value":"unitPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"totalPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"tax"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"gross"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderConfirmedSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Order"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"number"}},{"kind":"Field","name":{"kind":"Name","value":"userEmail"}},{"kind":"Field","name":{"kind":"Name","value":"user"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"User"}}]}},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"created"}},{"kind":"Field","name":{"kind":"Name","value":"status"}},{"kind":"Field","name":{"kind":"Name","value":"chargeStatus"}},{"kind":"Field","name":{"kind":"Name","value":"channel"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"slug"}},{"kind":"Field","name":{"kind":"Name","value":"taxConfiguration"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"pricesEnteredWithTax"}},{"kind":"Field","name":{"kind":"Name","value":"taxCalculationStrategy"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"shippingAddress"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"Address"}}]}},{"kind":"Field","name":{"kind":"Name","value":"billingAddress"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"Address"}}]}},{"kind":"Field","name":{"kind":"Name","value":"total"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"currency"}},{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"tax"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"shippingPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"gross"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"lines"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderLine"}}]}},{"kind":"Field","alias":{"kind":"Name","value":"avataxEntityCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxEntityCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxTaxCalculationDate"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxTaxCalculationDate","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxDocumentCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxDocumentCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxFallbackTaxCalculation"},"name":{"kind":"Name","value":"privateMetafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxFallbackTaxCalculation","block":false}}]}]}}]} as unknown as DocumentNode<OrderUpdatedSubscriptionFragment, unknown>;
+export const OrderUpdatedEventSubscriptionFragmentDoc = {"kind":"Document","definitions":[{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderUpdatedEventSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"__typename"}},{"kind":"FragmentSpread","name":{"kind":"Name","value":"WebhookMetadata"}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderUpdated"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"order"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderUpdatedSubscription"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"recipient"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"privateMetadata"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"key"}},{"kind":"Field","name":{"kind":"Name","value":"value"}}]}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"User"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"User"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"email"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"Address"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Address"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"streetAddress1"}},{"kind":"Field","name":{"kind":"Name","value":"streetAddress2"}},{"kind":"Field","name":{"kind":"Name","value":"city"}},{"kind":"Field","name":{"kind":"Name","value":"countryArea"}},{"kind":"Field","name":{"kind":"Name","value":"postalCode"}},{"kind":"Field","name":{"kind":"Name","value":"country"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"code"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderLine"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"productSku"}},{"kind":"Field","name":{"kind":"Name","value":"productVariantId"}},{"kind":"Field","name":{"kind":"Name","value":"productName"}},{"kind":"Field","name":{"kind":"Name","value":"quantity"}},{"kind":"Field","name":{"kind":"Name","value":"taxClass"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}}]}},{"kind":"Field","name":{"kind":"Name","value":"unitPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"totalPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"tax"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"gross"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderConfirmedSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Order"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"number"}},{"kind":"Field","name":{"kind":"Name","value":"userEmail"}},{"kind":"Field","name":{"kind":"Name","value":"user"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"User"}}]}},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"created"}},{"kind":"Field","name":{"kind":"Name","value":"status"}},{"kind":"Field","name":{"kind":"Name","value":"chargeStatus"}},{"kind":"Field","name":{"kind":"Name","value":"channel"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"slug"}},{"kind":"Field","name":{"kind":"Name","value":"taxConfiguration"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"pricesEnteredWithTax"}},{"kind":"Field","name":{"kind":"Name","value":"taxCalculationStrategy"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"shippingAddress"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"Address"}}]}},{"kind":"Field","name":{"kind":"Name","value":"billingAddress"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"Address"}}]}},{"kind":"Field","name":{"kind":"Name","value":"total"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"currency"}},{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"tax"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"shippingPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"gross"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"lines"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderLine"}}]}},{"kind":"Field","alias":{"kind":"Name","value":"avataxEntityCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxEntityCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxTaxCalculationDate"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxTaxCalculationDate","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxDocumentCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxDocumentCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxFallbackTaxCalculation"},"name":{"kind":"Name","value":"privateMetafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxFallbackTaxCalculation","block":false}}]}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"WebhookMetadata"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"issuedAt"}},{"kind":"Field","name":{"kind":"Name","value":"version"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderUpdatedSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Order"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderConfirmedSubscription"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxId"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxId","block":false}}]}]}}]} as unknown as DocumentNode<OrderUpdatedEventSubscriptionFragment, unknown>;
 export const DeleteAppMetadataDocument = {"kind":"Document","definitions":[{"kind":"OperationDefinition","operation":"mutation","name":{"kind":"Name","value":"DeleteAppMetadata"},"variableDefinitions":[{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"id"}},"type":{"kind":"NonNullType","type":{"kind":"NamedType","name":{"kind":"Name","value":"ID"}}}},{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"keys"}},"type":{"kind":"NonNullType","type":{"kind":"ListType","type":{"kind":"NonNullType","type":{"kind":"NamedType","name":{"kind":"Name","value":"String"}}}}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"deletePrivateMetadata"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"id"},"value":{"kind":"Variable","name":{"kind":"Name","value":"id"}}},{"kind":"Argument","name":{"kind":"Name","value":"keys"},"value":{"kind":"Variable","name":{"kind":"Name","value":"keys"}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"item"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"privateMetadata"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"key"}},{"kind":"Field","name":{"kind":"Name","value":"value"}}]}}]}}]}}]}}]} as unknown as DocumentNode<DeleteAppMetadataMutation, DeleteAppMetadataMutationVariables>;
 export const DeletePublicMetadataDocument = {"kind":"Document","definitions":[{"kind":"OperationDefinition","operation":"mutation","name":{"kind":"Name","value":"DeletePublicMetadata"},"variableDefinitions":[{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"id"}},"type":{"kind":"NonNullType","type":{"kind":"NamedType","name":{"kind":"Name","value":"ID"}}}},{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"keys"}},"type":{"kind":"NonNullType","type":{"kind":"ListType","type":{"kind":"NonNullType","type":{"kind":"NamedType","name":{"kind":"Name","value":"String"}}}}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"deleteMetadata"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"id"},"value":{"kind":"Variable","name":{"kind":"Name","value":"id"}}},{"kind":"Argument","name":{"kind":"Name","value":"keys"},"value":{"kind":"Variable","name":{"kind":"Name","value":"keys"}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"errors"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"message"}},{"kind":"Field","name":{"kind":"Name","value":"code"}}]}},{"kind":"Field","name":{"kind":"Name","value":"item"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"metadata"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"MetadataItem"}}]}}]}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"MetadataItem"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"MetadataItem"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"key"}},{"kind":"Field","name":{"kind":"Name","value":"value"}}]}}]} as unknown as DocumentNode<DeletePublicMetadataMutation, DeletePublicMetadataMutationVariables>;
 export const ReportOrderNoteDocument = {"kind":"Document","definitions":[{"kind":"OperationDefinition","operation":"mutation","name":{"kind":"Name","value":"ReportOrderNote"},"variableDefinitions":[{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"orderId"}},"type":{"kind":"NonNullType","type":{"kind":"NamedType","name":{"kind":"Name","value":"ID"}}}},{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"note"}},"type":{"kind":"NonNullType","type":{"kind":"NamedType","name":{"kind":"Name","value":"String"}}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"orderNoteAdd"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"order"},"value":{"kind":"Variable","name":{"kind":"Name","value":"orderId"}}},{"kind":"Argument","name":{"kind":"Name","value":"input"},"value":{"kind":"ObjectValue","fields":[{"kind":"ObjectField","name":{"kind":"Name","value":"message"},"value":{"kind":"Variable","name":{"kind":"Name","value":"note"}}}]}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"errors"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"code"}},{"kind":"Field","name":{"kind":"Name","value":"message"}}]}}]}}]}}]} as unknown as DocumentNode<ReportOrderNoteMutation, ReportOrderNoteMutationVariables>;
@@ -2645,6 +4186,10 @@ export const FetchChannelsDocument = {"kind":"Document","definitions":[{"kind":"
 export const OrderAvataxIdDocument = {"kind":"Document","definitions":[{"kind":"OperationDefinition","operation":"query","name":{"kind":"Name","value":"OrderAvataxId"},"variableDefinitions":[{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"id"}},"type":{"kind":"NonNullType","type":{"kind":"NamedType","name":{"kind":"Name","value":"ID"}}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"order"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"id"},"value":{"kind":"Variable","name":{"kind":"Name","value":"id"}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"channel"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"slug"}}]}},{"kind":"Field","alias":{"kind":"Name","value":"avataxId"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxId","block":false}}]}]}}]}}]} as unknown as DocumentNode<OrderAvataxIdQuery, OrderAvataxIdQueryVariables>;
 export const TaxClassesListDocument = {"kind":"Document","definitions":[{"kind":"OperationDefinition","operation":"query","name":{"kind":"Name","value":"TaxClassesList"},"variableDefinitions":[{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"before"}},"type":{"kind":"NamedType","name":{"kind":"Name","value":"String"}}},{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"after"}},"type":{"kind":"NamedType","name":{"kind":"Name","value":"String"}}},{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"first"}},"type":{"kind":"NamedType","name":{"kind":"Name","value":"Int"}}},{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"last"}},"type":{"kind":"NamedType","name":{"kind":"Name","value":"Int"}}},{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"filter"}},"type":{"kind":"NamedType","name":{"kind":"Name","value":"TaxClassFilterInput"}}},{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"sortBy"}},"type":{"kind":"NamedType","name":{"kind":"Name","value":"TaxClassSortingInput"}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"taxClasses"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"before"},"value":{"kind":"Variable","name":{"kind":"Name","value":"before"}}},{"kind":"Argument","name":{"kind":"Name","value":"after"},"value":{"kind":"Variable","name":{"kind":"Name","value":"after"}}},{"kind":"Argument","name":{"kind":"Name","value":"first"},"value":{"kind":"Variable","name":{"kind":"Name","value":"first"}}},{"kind":"Argument","name":{"kind":"Name","value":"last"},"value":{"kind":"Variable","name":{"kind":"Name","value":"last"}}},{"kind":"Argument","name":{"kind":"Name","value":"filter"},"value":{"kind":"Variable","name":{"kind":"Name","value":"filter"}}},{"kind":"Argument","name":{"kind":"Name","value":"sortBy"},"value":{"kind":"Variable","name":{"kind":"Name","value":"sortBy"}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"edges"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"node"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"TaxClass"}}]}}]}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"TaxClass"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"TaxClass"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"name"}}]}}]} as unknown as DocumentNode<TaxClassesListQuery, TaxClassesListQueryVariables>;
 export const TaxConfigurationsListDocument = {"kind":"Document","definitions":[{"kind":"OperationDefinition","operation":"query","name":{"kind":"Name","value":"TaxConfigurationsList"},"variableDefinitions":[{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"before"}},"type":{"kind":"NamedType","name":{"kind":"Name","value":"String"}}},{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"after"}},"type":{"kind":"NamedType","name":{"kind":"Name","value":"String"}}},{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"first"}},"type":{"kind":"NamedType","name":{"kind":"Name","value":"Int"}}},{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"last"}},"type":{"kind":"NamedType","name":{"kind":"Name","value":"Int"}}},{"kind":"VariableDefinition","variable":{"kind":"Variable","name":{"kind":"Name","value":"filter"}},"type":{"kind":"NamedType","name":{"kind":"Name","value":"TaxConfigurationFilterInput"}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"taxConfigurations"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"before"},"value":{"kind":"Variable","name":{"kind":"Name","value":"before"}}},{"kind":"Argument","name":{"kind":"Name","value":"after"},"value":{"kind":"Variable","name":{"kind":"Name","value":"after"}}},{"kind":"Argument","name":{"kind":"Name","value":"first"},"value":{"kind":"Variable","name":{"kind":"Name","value":"first"}}},{"kind":"Argument","name":{"kind":"Name","value":"last"},"value":{"kind":"Variable","name":{"kind":"Name","value":"last"}}},{"kind":"Argument","name":{"kind":"Name","value":"filter"},"value":{"kind":"Variable","name":{"kind":"Name","value":"filter"}}}],"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"edges"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"node"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"TaxConfiguration"}},{"kind":"Field","name":{"kind":"Name","value":"__typename"}}]}},{"kind":"Field","name":{"kind":"Name","value":"__typename"}}]}},{"kind":"Field","name":{"kind":"Name","value":"__typename"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"Channel"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Channel"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"name"}},{"kind":"Field","name":{"kind":"Name","value":"slug"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"CountryWithCode"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"CountryDisplay"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"country"}},{"kind":"Field","name":{"kind":"Name","value":"code"}},{"kind":"Field","name":{"kind":"Name","value":"__typename"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"TaxConfigurationPerCountry"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"TaxConfigurationPerCountry"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"country"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"CountryWithCode"}},{"kind":"Field","name":{"kind":"Name","value":"__typename"}}]}},{"kind":"Field","name":{"kind":"Name","value":"chargeTaxes"}},{"kind":"Field","name":{"kind":"Name","value":"taxCalculationStrategy"}},{"kind":"Field","name":{"kind":"Name","value":"displayGrossPrices"}},{"kind":"Field","name":{"kind":"Name","value":"__typename"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"TaxConfiguration"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"TaxConfiguration"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"channel"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"Channel"}}]}},{"kind":"Field","name":{"kind":"Name","value":"displayGrossPrices"}},{"kind":"Field","name":{"kind":"Name","value":"pricesEnteredWithTax"}},{"kind":"Field","name":{"kind":"Name","value":"chargeTaxes"}},{"kind":"Field","name":{"kind":"Name","value":"taxCalculationStrategy"}},{"kind":"Field","name":{"kind":"Name","value":"countries"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"TaxConfigurationPerCountry"}},{"kind":"Field","name":{"kind":"Name","value":"__typename"}}]}},{"kind":"Field","name":{"kind":"Name","value":"__typename"}}]}}]} as unknown as DocumentNode<TaxConfigurationsListQuery, TaxConfigurationsListQueryVariables>;
-export const CalculateTaxesDocument = {"kind":"Document","definitions":[{"kind":"OperationDefinition","operation":"subscription","name":{"kind":"Name","value":"CalculateTaxes"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"event"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"CalculateTaxesEvent"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"WebhookMetadata"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"issuedAt"}},{"kind":"Field","name":{"kind":"Name","value":"version"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"TaxDiscount"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"TaxableObjectDiscount"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"type"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"Address"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Address"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"streetAddress1"}},{"kind":"Field","name":{"kind":"Name","value":"streetAddress2"}},{"kind":"Field","name":{"kind":"Name","value":"city"}},{"kind":"Field","name":{"kind":"Name","value":"countryArea"}},{"kind":"Field","name":{"kind":"Name","value":"postalCode"}},{"kind":"Field","name":{"kind":"Name","value":"country"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"code"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"TaxBaseLine"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"TaxableObjectLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"sourceLine"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"__typename"}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"CheckoutLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"checkoutProductVariant"},"name":{"kind":"Name","value":"variant"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"sku"}},{"kind":"Field","name":{"kind":"Name","value":"product"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"taxClass"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"name"}}]}}]}}]}}]}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"orderProductVariant"},"name":{"kind":"Name","value":"variant"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"sku"}},{"kind":"Field","name":{"kind":"Name","value":"product"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"taxClass"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"name"}}]}}]}}]}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"quantity"}},{"kind":"Field","name":{"kind":"Name","value":"unitPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"totalPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"User"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"User"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"email"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"TaxBase"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"TaxableObject"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"pricesEnteredWithTax"}},{"kind":"Field","name":{"kind":"Name","value":"currency"}},{"kind":"Field","name":{"kind":"Name","value":"channel"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"slug"}},{"kind":"Field","name":{"kind":"Name","value":"id"}}]}},{"kind":"Field","name":{"kind":"Name","value":"discounts"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"TaxDiscount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"address"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"Address"}}]}},{"kind":"Field","name":{"kind":"Name","value":"shippingPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"lines"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"TaxBaseLine"}}]}},{"kind":"Field","name":{"kind":"Name","value":"sourceObject"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"__typename"}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Checkout"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxEntityCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxEntityCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxExemptionStatus"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxExemptionStatus","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxShipFromAddress"},"name":{"kind":"Name","value":"privateMetafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxShipFromAddress","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"user"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"User"}}]}}]}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Order"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxEntityCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxEntityCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxExemptionStatus"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxExemptionStatus","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxShipFromAddress"},"name":{"kind":"Name","value":"privateMetafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxShipFromAddress","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"user"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"User"}}]}}]}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"CalculateTaxesEvent"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"__typename"}},{"kind":"FragmentSpread","name":{"kind":"Name","value":"WebhookMetadata"}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"CalculateTaxes"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"taxBase"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"TaxBase"}}]}},{"kind":"Field","name":{"kind":"Name","value":"recipient"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"privateMetadata"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"key"}},{"kind":"Field","name":{"kind":"Name","value":"value"}}]}}]}}]}}]}}]} as unknown as DocumentNode<CalculateTaxesSubscription, CalculateTaxesSubscriptionVariables>;
+export const CalculateTaxesDocument = {"kind":"Document","definitions":[{"kind":"OperationDefinition","operation":"subscription","name":{"kind":"Name","value":"CalculateTaxes"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"event"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"CalculateTaxesEvent"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"WebhookMetadata"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"issuedAt"}},{"kind":"Field","name":{"kind":"Name","value":"version"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"TaxDiscount"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"TaxableObjectDiscount"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"type"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"Address"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Address"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"streetAddress1"}},{"kind":"Field","name":{"kind":"Name","value":"streetAddress2"}},{"kind":"Field","name":{"kind":"Name","value":"city"}},{"kind":"Field","name":{"kind":"Name","value":"countryArea"}},{"kind":"Field","name":{"kind":"Name","value":"postalCode"}},{"kind":"Field","name":{"kind":"Name","value":"country"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"code"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"TaxBaseLine"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"TaxableObjectLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"sourceLine"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"__typename"}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"CheckoutLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"checkoutProductVariant"},"name":{"kind":"Name","value":"variant"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"sku"}},{"kind":"Field","name":{"kind":"Name","value":"product"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"taxClass"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"name"}}]}}]}}]}}]}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"orderProductVariant"},"name":{"kind":"Name","value":"variant"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"sku"}},{"kind":"Field","name":{"kind":"Name","value":"product"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"taxClass"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"name"}}]}}]}}]}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"quantity"}},{"kind":"Field","name":{"kind":"Name","value":"unitPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"totalPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"User"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"User"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"email"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"TaxBase"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"TaxableObject"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"pricesEnteredWithTax"}},{"kind":"Field","name":{"kind":"Name","value":"currency"}},{"kind":"Field","name":{"kind":"Name","value":"channel"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"slug"}},{"kind":"Field","name":{"kind":"Name","value":"id"}}]}},{"kind":"Field","name":{"kind":"Name","value":"discounts"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"TaxDiscount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"address"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"Address"}}]}},{"kind":"Field","name":{"kind":"Name","value":"shippingPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"lines"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"TaxBaseLine"}}]}},{"kind":"Field","name":{"kind":"Name","value":"sourceObject"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"__typename"}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Checkout"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxEntityCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxEntityCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxExemptionStatus"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxExemptionStatus","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxShipFromAddress"},"name":{"kind":"Name","value":"privateMetafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxShipFromAddress","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxFallbackTaxCalculation"},"name":{"kind":"Name","value":"privateMetafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxFallbackTaxCalculation","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"user"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"User"}}]}}]}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Order"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxEntityCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxEntityCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxExemptionStatus"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxExemptionStatus","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxShipFromAddress"},"name":{"kind":"Name","value":"privateMetafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxShipFromAddress","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxFallbackTaxCalculation"},"name":{"kind":"Name","value":"privateMetafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxFallbackTaxCalculation","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"user"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"User"}}]}}]}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"CalculateTaxesEvent"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"__typename"}},{"kind":"FragmentSpread","name":{"kind":"Name","value":"WebhookMetadata"}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"CalculateTaxes"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"taxBase"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"TaxBase"}}]}},{"kind":"Field","name":{"kind":"Name","value":"recipient"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"privateMetadata"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"key"}},{"kind":"Field","name":{"kind":"Name","value":"value"}}]}}]}}]}}]}}]} as unknown as DocumentNode<CalculateTaxesSubscription, CalculateTaxesSubscriptionVariables>;
 export const OrderCancelledSubscriptionDocument = {"kind":"Document","definitions":[{"kind":"OperationDefinition","operation":"subscription","name":{"kind":"Name","value":"OrderCancelledSubscription"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"event"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderCancelledEventSubscription"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"WebhookMetadata"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"issuedAt"}},{"kind":"Field","name":{"kind":"Name","value":"version"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderCancelledSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Order"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxId"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxId","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"channel"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"slug"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderCancelledEventSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"__typename"}},{"kind":"FragmentSpread","name":{"kind":"Name","value":"WebhookMetadata"}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderCancelled"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"order"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderCancelledSubscription"}}]}},{"kind":"Field","name":{"kind":"Name","value":"recipient"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"privateMetadata"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"key"}},{"kind":"Field","name":{"kind":"Name","value":"value"}}]}}]}}]}}]}}]} as unknown as DocumentNode<OrderCancelledSubscriptionSubscription, OrderCancelledSubscriptionSubscriptionVariables>;
-export const OrderConfirmedSubscriptionDocument = {"kind":"Document","definitions":[{"kind":"OperationDefinition","operation":"subscription","name":{"kind":"Name","value":"OrderConfirmedSubscription"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"event"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderConfirmedEventSubscription"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"WebhookMetadata"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"issuedAt"}},{"kind":"Field","name":{"kind":"Name","value":"version"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"User"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"User"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"email"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"Address"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Address"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"streetAddress1"}},{"kind":"Field","name":{"kind":"Name","value":"streetAddress2"}},{"kind":"Field","name":{"kind":"Name","value":"city"}},{"kind":"Field","name":{"kind":"Name","value":"countryArea"}},{"kind":"Field","name":{"kind":"Name","value":"postalCode"}},{"kind":"Field","name":{"kind":"Name","value":"country"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"code"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderLine"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"productSku"}},{"kind":"Field","name":{"kind":"Name","value":"productVariantId"}},{"kind":"Field","name":{"kind":"Name","value":"productName"}},{"kind":"Field","name":{"kind":"Name","value":"quantity"}},{"kind":"Field","name":{"kind":"Name","value":"taxClass"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}}]}},{"kind":"Field","name":{"kind":"Name","value":"unitPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"totalPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"tax"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"gross"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderConfirmedSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Order"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"number"}},{"kind":"Field","name":{"kind":"Name","value":"userEmail"}},{"kind":"Field","name":{"kind":"Name","value":"user"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"User"}}]}},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"created"}},{"kind":"Field","name":{"kind":"Name","value":"status"}},{"kind":"Field","name":{"kind":"Name","value":"channel"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"slug"}},{"kind":"Field","name":{"kind":"Name","value":"taxConfiguration"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"pricesEnteredWithTax"}},{"kind":"Field","name":{"kind":"Name","value":"taxCalculationStrategy"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"shippingAddress"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"Address"}}]}},{"kind":"Field","name":{"kind":"Name","value":"billingAddress"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"Address"}}]}},{"kind":"Field","name":{"kind":"Name","value":"total"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"currency"}},{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"tax"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"shippingPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"gross"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"lines"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderLine"}}]}},{"kind":"Field","alias":{"kind":"Name","value":"avataxEntityCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxEntityCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxTaxCalculationDate"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxTaxCalculationDate","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxDocumentCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxDocumentCode","block":false}}]}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderConfirmedEventSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"__typename"}},{"kind":"FragmentSpread","name":{"kind":"Name","value":"WebhookMetadata"}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderConfirmed"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"order"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderConfirmedSubscription"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"recipient"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"privateMetadata"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"key"}},{"kind":"Field","name":{"kind":"Name","value":"value"}}]}}]}}]}}]} as unknown as DocumentNode<OrderConfirmedSubscriptionSubscription, OrderConfirmedSubscriptionSubscriptionVariables>;
\ No newline at end of file
+export const OrderConfirmedSubscriptionDocument = {"kind":"Document","definitions":[{"kind":"OperationDefinition","operation":"subscription","name":{"kind":"Name","value":"OrderConfirmedSubscription"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"event"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderConfirmedEventSubscription"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"WebhookMetadata"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"issuedAt"}},{"kind":"Field","name":{"kind":"Name","value":"version"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"User"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"User"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"email"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"Address"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Address"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"streetAddress1"}},{"kind":"Field","name":{"kind":"Name","value":"streetAddress2"}},{"kind":"Field","name":{"kind":"Name","value":"city"}},{"kind":"Field","name":{"kind":"Name","value":"countryArea"}},{"kind":"Field","name":{"kind":"Name","value":"postalCode"}},{"kind":"Field","name":{"kind":"Name","value":"country"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"code"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderLine"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"productSku"}},{"kind":"Field","name":{"kind":"Name","value":"productVariantId"}},{"kind":"Field","name":{"kind":"Name","value":"productName"}},{"kind":"Field","name":{"kind":"Name","value":"quantity"}},{"kind":"Field","name":{"kind":"Name","value":"taxClass"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}}]}},{"kind":"Field","name":{"kind":"Name","value":"unitPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"totalPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"tax"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"gross"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderConfirmedSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Order"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"number"}},{"kind":"Field","name":{"kind":"Name","value":"userEmail"}},{"kind":"Field","name":{"kind":"Name","value":"user"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"User"}}]}},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"created"}},{"kind":"Field","name":{"kind":"Name","value":"status"}},{"kind":"Field","name":{"kind":"Name","value":"chargeStatus"}},{"kind":"Field","name":{"kind":"Name","value":"channel"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"slug"}},{"kind":"Field","name":{"kind":"Name","value":"taxConfiguration"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"pricesEnteredWithTax"}},{"kind":"Field","name":{"kind":"Name","value":"taxCalculationStrategy"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"shippingAddress"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"Address"}}]}},{"kind":"Field","name":{"kind":"Name","value":"billingAddress"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"Address"}}]}},{"kind":"Field","name":{"kind":"Name","value":"total"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"currency"}},{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"tax"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"shippingPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"gross"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"lines"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderLine"}}]}},{"kind":"Field","alias":{"kind":"Name","value":"avataxEntityCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxEntityCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxTaxCalculationDate"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxTaxCalculationDate","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxDocumentCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxDocumentCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxFallbackTaxCalculation"},"name":{"kind":"Name","value":"privateMetafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxFallbackTaxCalculation","block":false}}]}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderConfirmedEventSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"__typename"}},{"kind":"FragmentSpread","name":{"kind":"Name","value":"WebhookMetadata"}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderConfirmed"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"order"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderConfirmedSubscription"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"recipient"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"privateMetadata"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"key"}},{"kind":"Field","name":{"kind":"Name","value":"value"}}]}}]}}]}}]} as unknown as DocumentNode<OrderConfirmedSubscriptionSubscription, OrderConfirmedSubscriptionSubscriptionVariables>;
+export const OrderFulfilledSubscriptionDocument = {"kind":"Document","definitions":[{"kind":"OperationDefinition","operation":"subscription","name":{"kind":"Name","value":"OrderFulfilledSubscription"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"event"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderFulfilledEventSubscription"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"WebhookMetadata"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"issuedAt"}},{"kind":"Field","name":{"kind":"Name","value":"version"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderCommitSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Order"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxId"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxId","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"channel"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"slug"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderFulfilledEventSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"__typename"}},{"kind":"FragmentSpread","name":{"kind":"Name","value":"WebhookMetadata"}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderFulfilled"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"order"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderCommitSubscription"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"recipient"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"privateMetadata"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"key"}},{"kind":"Field","name":{"kind":"Name","value":"value"}}]}}]}}]}}]} as unknown as DocumentNode<OrderFulfilledSubscriptionSubscription, OrderFulfilledSubscriptionSubscriptionVariables>;
+export const OrderFullyPaidSubscriptionDocument = {"kind":"Document","definitions":[{"kind":"OperationDefinition","operation":"subscription","name":{"kind":"Name","value":"OrderFullyPaidSubscription"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"event"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderFullyPaidEventSubscription"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"WebhookMetadata"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"issuedAt"}},{"kind":"Field","name":{"kind":"Name","value":"version"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderCommitSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Order"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxId"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxId","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"channel"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"slug"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderFullyPaidEventSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"__typename"}},{"kind":"FragmentSpread","name":{"kind":"Name","value":"WebhookMetadata"}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderFullyPaid"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"order"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderCommitSubscription"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"recipient"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"privateMetadata"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"key"}},{"kind":"Field","name":{"kind":"Name","value":"value"}}]}}]}}]}}]} as unknown as DocumentNode<OrderFullyPaidSubscriptionSubscription, OrderFullyPaidSubscriptionSubscriptionVariables>;
+export const OrderRefundedSubscriptionDocument = {"kind":"Document","definitions":[{"kind":"OperationDefinition","operation":"subscription","name":{"kind":"Name","value":"OrderRefundedSubscription"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"event"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderRefundedEventSubscription"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"WebhookMetadata"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"issuedAt"}},{"kind":"Field","name":{"kind":"Name","value":"version"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"User"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"User"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"email"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"Address"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Address"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"streetAddress1"}},{"kind":"Field","name":{"kind":"Name","value":"streetAddress2"}},{"kind":"Field","name":{"kind":"Name","value":"city"}},{"kind":"Field","name":{"kind":"Name","value":"countryArea"}},{"kind":"Field","name":{"kind":"Name","value":"postalCode"}},{"kind":"Field","name":{"kind":"Name","value":"country"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"code"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderLine"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"productSku"}},{"kind":"Field","name":{"kind":"Name","value":"productVariantId"}},{"kind":"Field","name":{"kind":"Name","value":"productName"}},{"kind":"Field","name":{"kind":"Name","value":"quantity"}},{"kind":"Field","name":{"kind":"Name","value":"taxClass"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}}]}},{"kind":"Field","name":{"kind":"Name","value":"unitPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"totalPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"tax"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"gross"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderConfirmedSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Order"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"number"}},{"kind":"Field","name":{"kind":"Name","value":"userEmail"}},{"kind":"Field","name":{"kind":"Name","value":"user"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"User"}}]}},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"created"}},{"kind":"Field","name":{"kind":"Name","value":"status"}},{"kind":"Field","name":{"kind":"Name","value":"chargeStatus"}},{"kind":"Field","name":{"kind":"Name","value":"channel"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"slug"}},{"kind":"Field","name":{"kind":"Name","value":"taxConfiguration"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"pricesEnteredWithTax"}},{"kind":"Field","name":{"kind":"Name","value":"taxCalculationStrategy"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"shippingAddress"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"Address"}}]}},{"kind":"Field","name":{"kind":"Name","value":"billingAddress"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"Address"}}]}},{"kind":"Field","name":{"kind":"Name","value":"total"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"currency"}},{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"tax"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"shippingPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"gross"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"lines"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderLine"}}]}},{"kind":"Field","alias":{"kind":"Name","value":"avataxEntityCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxEntityCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxTaxCalculationDate"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxTaxCalculationDate","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxDocumentCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxDocumentCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxFallbackTaxCalculation"},"name":{"kind":"Name","value":"privateMetafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxFallbackTaxCalculation","block":false}}]}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderGrantedRefund"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderGrantedRefund"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"createdAt"}},{"kind":"Field","name":{"kind":"Name","value":"status"}},{"kind":"Field","name":{"kind":"Name","value":"shippingCostsIncluded"}},{"kind":"Field","name":{"kind":"Name","value":"amount"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"lines"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"quantity"}},{"kind":"Field","name":{"kind":"Name","value":"orderLine"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}}]}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderRefundedSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Order"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderConfirmedSubscription"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxId"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxId","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxReturnCodes"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxReturnCodes","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"lines"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}}]}},{"kind":"Field","name":{"kind":"Name","value":"grantedRefunds"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderGrantedRefund"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderRefundedEventSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"__typename"}},{"kind":"FragmentSpread","name":{"kind":"Name","value":"WebhookMetadata"}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderRefunded"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"order"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderRefundedSubscription"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"recipient"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"privateMetadata"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"key"}},{"kind":"Field","name":{"kind":"Name","value":"value"}}]}}]}}]}}]} as unknown as DocumentNode<OrderRefundedSubscriptionSubscription, OrderRefundedSubscriptionSubscriptionVariables>;
+export const OrderUpdatedSubscriptionDocument = {"kind":"Document","definitions":[{"kind":"OperationDefinition","operation":"subscription","name":{"kind":"Name","value":"OrderUpdatedSubscription"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"event"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderUpdatedEventSubscription"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"WebhookMetadata"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"issuedAt"}},{"kind":"Field","name":{"kind":"Name","value":"version"}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"User"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"User"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"email"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"Address"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Address"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"streetAddress1"}},{"kind":"Field","name":{"kind":"Name","value":"streetAddress2"}},{"kind":"Field","name":{"kind":"Name","value":"city"}},{"kind":"Field","name":{"kind":"Name","value":"countryArea"}},{"kind":"Field","name":{"kind":"Name","value":"postalCode"}},{"kind":"Field","name":{"kind":"Name","value":"country"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"code"}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderLine"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderLine"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"productSku"}},{"kind":"Field","name":{"kind":"Name","value":"productVariantId"}},{"kind":"Field","name":{"kind":"Name","value":"productName"}},{"kind":"Field","name":{"kind":"Name","value":"quantity"}},{"kind":"Field","name":{"kind":"Name","value":"taxClass"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}}]}},{"kind":"Field","name":{"kind":"Name","value":"unitPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"totalPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"tax"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"gross"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderConfirmedSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Order"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"number"}},{"kind":"Field","name":{"kind":"Name","value":"userEmail"}},{"kind":"Field","name":{"kind":"Name","value":"user"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"User"}}]}},{"kind":"Field","alias":{"kind":"Name","value":"avataxCustomerCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxCustomerCode","block":false}}]},{"kind":"Field","name":{"kind":"Name","value":"created"}},{"kind":"Field","name":{"kind":"Name","value":"status"}},{"kind":"Field","name":{"kind":"Name","value":"chargeStatus"}},{"kind":"Field","name":{"kind":"Name","value":"channel"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"id"}},{"kind":"Field","name":{"kind":"Name","value":"slug"}},{"kind":"Field","name":{"kind":"Name","value":"taxConfiguration"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"pricesEnteredWithTax"}},{"kind":"Field","name":{"kind":"Name","value":"taxCalculationStrategy"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"shippingAddress"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"Address"}}]}},{"kind":"Field","name":{"kind":"Name","value":"billingAddress"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"Address"}}]}},{"kind":"Field","name":{"kind":"Name","value":"total"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"currency"}},{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"tax"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"shippingPrice"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"gross"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}},{"kind":"Field","name":{"kind":"Name","value":"net"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"amount"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"lines"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderLine"}}]}},{"kind":"Field","alias":{"kind":"Name","value":"avataxEntityCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxEntityCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxTaxCalculationDate"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxTaxCalculationDate","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxDocumentCode"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxDocumentCode","block":false}}]},{"kind":"Field","alias":{"kind":"Name","value":"avataxFallbackTaxCalculation"},"name":{"kind":"Name","value":"privateMetafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxFallbackTaxCalculation","block":false}}]}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderUpdatedSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Order"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderConfirmedSubscription"}},{"kind":"Field","alias":{"kind":"Name","value":"avataxId"},"name":{"kind":"Name","value":"metafield"},"arguments":[{"kind":"Argument","name":{"kind":"Name","value":"key"},"value":{"kind":"StringValue","value":"avataxId","block":false}}]}]}},{"kind":"FragmentDefinition","name":{"kind":"Name","value":"OrderUpdatedEventSubscription"},"typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"Event"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"__typename"}},{"kind":"FragmentSpread","name":{"kind":"Name","value":"WebhookMetadata"}},{"kind":"InlineFragment","typeCondition":{"kind":"NamedType","name":{"kind":"Name","value":"OrderUpdated"}},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"order"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"FragmentSpread","name":{"kind":"Name","value":"OrderUpdatedSubscription"}}]}}]}},{"kind":"Field","name":{"kind":"Name","value":"recipient"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"privateMetadata"},"selectionSet":{"kind":"SelectionSet","selections":[{"kind":"Field","name":{"kind":"Name","value":"key"}},{"kind":"Field","name":{"kind":"Name","value":"value"}}]}}]}}]}}]} as unknown as DocumentNode<OrderUpdatedSubscriptionSubscription, OrderUpdatedSubscriptionSubscriptionVariables>;
\ No newline at end of file
@@ -4,8 +4,10 @@ import { parseArgs } from "node:util";
 import {
   CreateTableCommand,
   DescribeTableCommand,
+  DescribeTimeToLiveCommand,
   DynamoDBClient,
   ResourceNotFoundException,
+  UpdateTimeToLiveCommand,
 } from "@aws-sdk/client-dynamodb";
 
 import { env } from "@/env";
@@ -91,9 +93,40 @@ try {
     console.log(`Table ${tableName} created successfully`);
   };
 
+  /**
+   * Both tables store items with "TTL" attribute (client logs, cached tax calculations) that must be removed by DynamoDB
+   */
+  const enableTimeToLiveIfDisabled = async (tableName: string) => {
+    const timeToLive = await dynamoClient.send(
+      new DescribeTimeToLiveCommand({
+        TableName: tableName,
+      }),
+    );
+
+    if (timeToLive.TimeToLiveDescription?.TimeToLiveStatus === "ENABLED") {
+      console.log(`TTL for table ${tableName} is already enabled - update is skipped`);
+
+      return;
+    }
+
+    await dynamoClient.send(
+      new UpdateTimeToLiveCommand({
+        TableName: tableName,
+        TimeToLiveSpecification: {
+          AttributeName: "TTL",
+          Enabled: true,
+        },
+      }),
+    );
+    console.log(`TTL for table ${tableName} enabled successfully`);
+  };
+
   await createTableIfNotExists(avataxLogsTableName);
   await createTableIfNotExists(avataxMainTableName);
 
+  await enableTimeToLiveIfDisabled(avataxLogsTableName);
+  await enableTimeToLiveIfDisabled(avataxMainTableName);
+
   console.log("DynamoDB setup completed successfully");
   process.exit(0);
 } catch (error) {
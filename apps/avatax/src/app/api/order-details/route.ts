@@ -1,6 +1,7 @@
 import { verifyJWT } from "@saleor/app-sdk/auth";
 import { type ExtensionPOSTAttributes } from "@saleor/app-sdk/types";
 import { createGraphQLClient } from "@saleor/apps-shared/create-graphql-client";
+import { DocumentStatus } from "avatax/lib/enums/DocumentStatus";
 import { type TransactionModel } from "avatax/lib/models/TransactionModel";
 import { type NextRequest } from "next/server";
 
@@ -10,6 +11,7 @@ import { createSettingsManager } from "@/modules/app/metadata-manager";
 import { type AvataxConfig } from "@/modules/avatax/avatax-connection-schema";
 import { AvataxSdkClientFactory } from "@/modules/avatax/avatax-sdk-client-factory";
 import { AvataxTransactionDetailsFetcher } from "@/modules/avatax/avatax-transaction-details-fetcher";
+import { createAvaTaxOrderCommitAdapterFromAvaTaxConfig } from "@/modules/avatax/order-commit/avatax-order-commit-adapter-factory";
 import { CrudSettingsManager } from "@/modules/crud-settings/crud-settings.service";
 import { TAX_PROVIDER_KEY } from "@/modules/provider-connections/public-provider-connections.service";
 
@@ -20,11 +22,15 @@ const getFieldsFromRequest = async (req: NextRequest) => {
   const body = await req.formData();
 
   return {
-    orderId: body.get("orderId") as string | undefined,
-    saleorApiUrl: body.get("saleorApiUrl") as string,
-    accessToken: body.get("accessToken") as string,
-    appId: body.get("appId") as string,
-  } satisfies ExtensionPOSTAttributes;
+    ...({
+      orderId: body.get("orderId") as string | undefined,
+      saleorApiUrl: body.get("saleorApiUrl") as string,
+      accessToken: body.get("accessToken") as string,
+      appId: body.get("appId") as string,
+    } satisfies ExtensionPOSTAttributes),
+    // Set by "commit now" form rendered in the widget
+    action: body.get("action") as string | null,
+  };
 };
 
 type CacheValue = {
@@ -52,17 +58,23 @@ const getFromCache = (keySet: CacheKeySet): CacheValue | undefined => {
   return cache.get(generateCacheKey(keySet));
 };
 
+const removeFromCache = (keySet: CacheKeySet) => {
+  cache.delete(generateCacheKey(keySet));
+};
+
 const logger = createLogger("orderDetailsHandler");
 
 // todo add caching on http. Probably we need to add stuff to GET for that
 const orderDetailsHandler = async (req: NextRequest) => {
-  const { orderId, saleorApiUrl, appId, accessToken } = await getFieldsFromRequest(req);
+  const { orderId, saleorApiUrl, appId, accessToken, action } = await getFieldsFromRequest(req);
 
   try {
     await verifyJWT({
       token: accessToken,
       appId: appId,
       saleorApiUrl: saleorApiUrl,
+      // Committing writes to AvaTax, so it's allowed only for staff that can manage orders
+      requiredPermissions: action === "commit" ? ["MANAGE_ORDERS"] : undefined,
     });
   } catch (e) {
     logger.error("Failed to verify JWT", { error: e });
@@ -113,8 +125,6 @@ const orderDetailsHandler = async (req: NextRequest) => {
     });
   }
 
-  const cachedValue = getFromCache({ saleorApiUrl, appId, orderId, avataxId });
-
   const channelSlug = orderMetadata.data.order.channel.slug;
 
   const settingsManager = createSettingsManager(client, appId, metadataCache);
@@ -142,6 +152,30 @@ const orderDetailsHandler = async (req: NextRequest) => {
   const thisConfig = (await configManager.readById(relatedConfigId)).data
     .config as unknown as AvataxConfig;
 
+  let commitError: string | null = null;
+
+  if (action === "commit") {
+    try {
+      const response = await createAvaTaxOrderCommitAdapterFromAvaTaxConfig(thisConfig).send({
+        payload: { avataxId },
+        config: thisConfig,
+      });
+
+      logger.info("Transaction committed manually from order details", {
+        transactionId: response.id,
+        status: response.status,
+      });
+    } catch (e) {
+      logger.error("Failed to commit transaction from order details", { error: e });
+
+      commitError = "Failed to commit transaction in AvaTax";
+    }
+
+    removeFromCache({ saleorApiUrl, appId, orderId, avataxId });
+  }
+
+  const cachedValue = getFromCache({ saleorApiUrl, appId, orderId, avataxId });
+
   const detailsService = new AvataxTransactionDetailsFetcher(new AvataxSdkClientFactory());
 
   const transactionDetails =
@@ -165,7 +199,14 @@ const orderDetailsHandler = async (req: NextRequest) => {
     },
   );
 
+  const transactionStatus = transactionDetails.status;
+  const canCommit =
+    thisConfig.isDocumentRecordingEnabled &&
+    transactionStatus !== DocumentStatus.Committed &&
+    transactionStatus !== DocumentStatus.Cancelled;
+
   const meaningfulFields = {
+    status: transactionStatus !== undefined ? DocumentStatus[transactionStatus] : "",
     exemptNo: transactionDetails.exemptNo ?? "",
     totalExempt: transactionDetails.totalExempt?.toString() ?? "",
     totalTaxable: transactionDetails.totalTaxable?.toString() ?? "",
@@ -175,10 +216,27 @@ const orderDetailsHandler = async (req: NextRequest) => {
      */
   };
 
-  const qs = new URLSearchParams(meaningfulFields);
+  const pageFields = new URLSearchParams({
+    ...meaningfulFields,
+    ...(commitError ? { commitError } : {}),
+    /*
+     * Fields posted back with "commit now" form, so the request can be verified again.
+     * Rendered only when transaction can be committed
+     */
+    ...(canCommit ? { orderId, saleorApiUrl, accessToken, appId } : {}),
+  });
 
-  // in localhost you may need to replace to http
-  const result = await fetch(new URL("/order-details?" + qs.toString(), req.url));
+  /*
+   * Fields are sent in the body, because query string (with the access token) can be stored in access logs.
+   * In localhost you may need to replace to http
+   */
+  const result = await fetch(new URL("/order-details", req.url), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: pageFields.toString(),
+  });
 
   return new Response(await result.text(), {
     headers: {
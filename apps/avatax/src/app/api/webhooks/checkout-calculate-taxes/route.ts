@@ -19,12 +19,17 @@ import { createLogger } from "@/logger";
 import { loggerContext, withLoggerContext } from "@/logger-context";
 import { updateExemptionStatusPublicMetadata } from "@/modules/app/exemption-status-public-metadata-updater";
 import { createAvataxProblemReporter } from "@/modules/app-problems";
+import { avataxAddressFactory } from "@/modules/avatax/address-factory";
 import { suspiciousLineCalculationCheck } from "@/modules/avatax/calculate-taxes/avatax-calculate-taxes-adapter";
 import { AvataxCalculateTaxesPayloadLinesTransformer } from "@/modules/avatax/calculate-taxes/avatax-calculate-taxes-payload-lines-transformer";
 import { AvataxCalculateTaxesResponseTransformer } from "@/modules/avatax/calculate-taxes/avatax-calculate-taxes-response-transformer";
 import { AvataxCalculateTaxesTaxCodeMatcher } from "@/modules/avatax/calculate-taxes/avatax-calculate-taxes-tax-code-matcher";
 import { CalculateTaxesUseCase } from "@/modules/calculate-taxes/use-case/calculate-taxes.use-case";
+import { createCalculateTaxesResponseCache } from "@/modules/calculate-taxes-cache/create-calculate-taxes-response-cache";
 import { LogWriterFactory } from "@/modules/client-logs/log-writer-factory";
+import { createFallbackTaxRatesRepository } from "@/modules/fallback-tax-rates/create-fallback-tax-rates-repository";
+import { FallbackTaxCalculationMetadataManager } from "@/modules/fallback-tax-rates/fallback-tax-calculation-metadata-manager";
+import { extractFallbackTaxRatesFromTransaction } from "@/modules/fallback-tax-rates/fallback-tax-rates-extractor";
 import { AvataxInvalidAddressError, AvataxTimeoutError } from "@/modules/taxes/tax-error";
 import { checkoutCalculateTaxesSyncWebhook } from "@/modules/webhooks/definitions/checkout-calculate-taxes";
 
@@ -50,6 +55,8 @@ const handler = checkoutCalculateTaxesSyncWebhook.createHandler(async (_req, ctx
         logger,
         captureException,
       );
+      const fallbackTaxRatesRepository = createFallbackTaxRatesRepository();
+      const calculateTaxesResponseCache = createCalculateTaxesResponseCache();
       const useCase = new CalculateTaxesUseCase({
         configExtractor: new AppConfigExtractor(),
         logWriterFactory: new LogWriterFactory(),
@@ -57,6 +64,8 @@ const handler = checkoutCalculateTaxesSyncWebhook.createHandler(async (_req, ctx
           new AvataxCalculateTaxesTaxCodeMatcher(),
         ),
         calculateTaxesResponseTransformer: new AvataxCalculateTaxesResponseTransformer(),
+        fallbackTaxRatesRepository,
+        calculateTaxesResponseCache,
       });
 
       try {
@@ -124,11 +133,102 @@ const handler = checkoutCalculateTaxesSyncWebhook.createHandler(async (_req, ctx
         return useCase.calculateTaxes(payload, authData).then((result) => {
           return result.match(
             (value) => {
+              if (value.source === "fallback") {
+                span.setStatus({
+                  code: SpanStatusCode.OK,
+                  message: "Taxes calculated with fallback rates",
+                });
+
+                if (providerConfig.isOk()) {
+                  const connectionId = providerConfig.value.avataxConfig.id;
+
+                  /*
+                   * Mark checkout, so order created from it is recalculated in AvaTax at ORDER_CONFIRMED.
+                   * Saleor copies checkout metadata to the order.
+                   */
+                  after(() =>
+                    new FallbackTaxCalculationMetadataManager(
+                      createInstrumentedGraphqlClient({
+                        saleorApiUrl: authData.saleorApiUrl,
+                        token: authData.token,
+                      }),
+                    )
+                      .markAsCalculatedWithFallback(payload.taxBase.sourceObject.id, {
+                        connectionId,
+                        calculatedAt: new Date().toISOString(),
+                      })
+                      .catch(captureException),
+                  );
+                }
+
+                return Response.json(checkoutCalculateTaxesSyncWebhookReponse(value.response), {
+                  status: 200,
+                });
+              }
+
+              // Both AvaTax and cached responses are calculated by AvaTax, so the checkout is no longer affected by fallback
+              if (payload.taxBase.sourceObject.avataxFallbackTaxCalculation) {
+                after(() =>
+                  new FallbackTaxCalculationMetadataManager(
+                    createInstrumentedGraphqlClient({
+                      saleorApiUrl: authData.saleorApiUrl,
+                      token: authData.token,
+                    }),
+                  )
+                    .clear(payload.taxBase.sourceObject.id)
+                    .catch(captureException),
+                );
+              }
+
+              /*
+               * Side effects (exemption metadata, fallback rates, problem reports) were already handled
+               * when the response was cached
+               */
+              if (value.source === "cache") {
+                span.setStatus({
+                  code: SpanStatusCode.OK,
+                  message: "Taxes found in response cache",
+                });
+
+                return Response.json(checkoutCalculateTaxesSyncWebhookReponse(value.response), {
+                  status: 200,
+                });
+              }
+
               span.setStatus({
                 code: SpanStatusCode.OK,
                 message: "Taxes calculated successfully",
               });
 
+              const { cacheKey } = value;
+
+              if (cacheKey) {
+                after(() => calculateTaxesResponseCache.set(cacheKey, value.response));
+              }
+
+              if (
+                providerConfig.isOk() &&
+                providerConfig.value.avataxConfig.config.fallbackStrategy === "RATE_TABLE" &&
+                payload.taxBase.address
+              ) {
+                const rates = extractFallbackTaxRatesFromTransaction({
+                  transaction: value.transaction,
+                  address: avataxAddressFactory.fromSaleorAddress(payload.taxBase.address),
+                });
+                const connectionId = providerConfig.value.avataxConfig.id;
+
+                after(() =>
+                  fallbackTaxRatesRepository
+                    .saveRates({
+                      saleorApiUrl: authData.saleorApiUrl,
+                      appId: authData.appId,
+                      connectionId,
+                      rates,
+                    })
+                    .then((result) => result.mapErr(captureException)),
+                );
+              }
+
               if (
                 providerConfig.isOk() &&
                 providerConfig.value.avataxConfig.config.isExemptionStatusPublicMetadataEnabled
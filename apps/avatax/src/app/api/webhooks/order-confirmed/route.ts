@@ -23,6 +23,8 @@ import { PriceReductionDiscountsStrategy } from "@/modules/avatax/discounts";
 import { createAvaTaxOrderConfirmedAdapterFromAvaTaxConfig } from "@/modules/avatax/order-confirmed/avatax-order-confirmed-adapter-factory";
 import { LogWriterFactory } from "@/modules/client-logs/log-writer-factory";
 import { OrderConfirmedLogRequest } from "@/modules/client-logs/order-confirmed-log-request";
+import { parseAvataxFallbackTaxCalculationMetadata } from "@/modules/fallback-tax-rates/fallback-tax-calculation-metadata";
+import { FallbackTaxCalculationMetadataManager } from "@/modules/fallback-tax-rates/fallback-tax-calculation-metadata-manager";
 import { SaleorOrderConfirmedEvent } from "@/modules/saleor";
 import { OrderNoteReporter } from "@/modules/saleor/order-note-reporter";
 import {
@@ -321,6 +323,48 @@ const handler = orderConfirmedAsyncWebhook.createHandler(async (_req, ctx) => {
               payload.order.id,
               "Transaction confirmed in AvaTax: " + confirmedOrder.id,
             );
+
+            const fallbackTaxCalculation = parseAvataxFallbackTaxCalculationMetadata(
+              confirmedOrderEvent.getAvaTaxFallbackTaxCalculation(),
+            );
+
+            if (!fallbackTaxCalculation) {
+              return;
+            }
+
+            /*
+             * Checkout taxes were calculated with fallback rates during AvaTax outage.
+             * Transaction created above is calculated by AvaTax, so we report the difference and clear the marker.
+             */
+            const saleorTotalTax = confirmedOrderEvent.getTotalTaxAmount();
+
+            logger.warn("Order taxes were calculated with fallback rates", {
+              fallbackCalculatedAt: fallbackTaxCalculation.calculatedAt,
+              saleorTotalTax: saleorTotalTax,
+              avataxTotalTax: confirmedOrder.totalTax,
+            });
+
+            OrderConfirmedLogRequest.createFallbackRecalculatedLog({
+              sourceId: payload.order.id,
+              channelId: payload.order.channel.id,
+              avataxId: confirmedOrder.id,
+              fallbackCalculatedAt: fallbackTaxCalculation.calculatedAt,
+              saleorTotalTax,
+              avataxTotalTax: confirmedOrder.totalTax,
+            })
+              .mapErr(captureException)
+              .map(logWriter.writeLog);
+
+            await noteReporter.reportOrderNote(
+              payload.order.id,
+              `Order taxes were calculated with fallback rates while AvaTax was unavailable (total tax: ${saleorTotalTax}). AvaTax recalculated total tax: ${
+                confirmedOrder.totalTax ?? "unknown"
+              }`,
+            );
+
+            await new FallbackTaxCalculationMetadataManager(client)
+              .clear(payload.order.id)
+              .catch(captureException);
           });
 
           return Response.json({ message: "Success" }, { status: 200 });
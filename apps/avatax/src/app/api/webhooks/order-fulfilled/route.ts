@@ -0,0 +1,27 @@
+import { withSpanAttributesAppRouter } from "@saleor/apps-otel/src/with-span-attributes";
+import { compose } from "@saleor/apps-shared/compose";
+
+import { metadataCache, wrapWithMetadataCache } from "@/lib/app-metadata-cache";
+import { withFlushOtelMetrics } from "@/lib/otel/with-flush-otel-metrics";
+import { withLoggerContext } from "@/logger-context";
+import { orderFulfilledAsyncWebhook } from "@/modules/webhooks/definitions/order-fulfilled";
+import { createOrderCommitWebhookHandler } from "@/modules/webhooks/order-commit-webhook-handler";
+
+const withMetadataCache = wrapWithMetadataCache(metadataCache);
+
+/**
+ * Transaction is committed here only for connections with ON_FIRST_FULFILLMENT commit policy
+ */
+const handleOrderCommit = createOrderCommitWebhookHandler({
+  webhookName: "orderFulfilled",
+  commitPolicy: "ON_FIRST_FULFILLMENT",
+});
+
+const handler = orderFulfilledAsyncWebhook.createHandler((_req, ctx) => handleOrderCommit(ctx));
+
+export const POST = compose(
+  withLoggerContext,
+  withFlushOtelMetrics,
+  withMetadataCache,
+  withSpanAttributesAppRouter,
+)(handler);
@@ -0,0 +1,27 @@
+import { withSpanAttributesAppRouter } from "@saleor/apps-otel/src/with-span-attributes";
+import { compose } from "@saleor/apps-shared/compose";
+
+import { metadataCache, wrapWithMetadataCache } from "@/lib/app-metadata-cache";
+import { withFlushOtelMetrics } from "@/lib/otel/with-flush-otel-metrics";
+import { withLoggerContext } from "@/logger-context";
+import { orderFullyPaidAsyncWebhook } from "@/modules/webhooks/definitions/order-fully-paid";
+import { createOrderCommitWebhookHandler } from "@/modules/webhooks/order-commit-webhook-handler";
+
+const withMetadataCache = wrapWithMetadataCache(metadataCache);
+
+/**
+ * Transaction is committed here only for connections with ON_FULLY_PAID commit policy
+ */
+const handleOrderCommit = createOrderCommitWebhookHandler({
+  webhookName: "orderFullyPaid",
+  commitPolicy: "ON_FULLY_PAID",
+});
+
+const handler = orderFullyPaidAsyncWebhook.createHandler((_req, ctx) => handleOrderCommit(ctx));
+
+export const POST = compose(
+  withLoggerContext,
+  withFlushOtelMetrics,
+  withMetadataCache,
+  withSpanAttributesAppRouter,
+)(handler);
@@ -0,0 +1,360 @@
+import { SpanKind, SpanStatusCode } from "@opentelemetry/api";
+import { ObservabilityAttributes } from "@saleor/apps-otel/src/observability-attributes";
+import { withSpanAttributesAppRouter } from "@saleor/apps-otel/src/with-span-attributes";
+import { compose } from "@saleor/apps-shared/compose";
+import { captureException, setTag } from "@sentry/nextjs";
+import { after } from "next/server";
+
+import { AppConfig } from "@/lib/app-config";
+import { AppConfigExtractor } from "@/lib/app-config-extractor";
+import { AppConfigurationLogger } from "@/lib/app-configuration-logger";
+import { metadataCache, wrapWithMetadataCache } from "@/lib/app-metadata-cache";
+import { createInstrumentedGraphqlClient } from "@/lib/create-instrumented-graphql-client";
+import { SubscriptionPayloadErrorChecker } from "@/lib/error-utils";
+import { appExternalTracer } from "@/lib/otel/tracing";
+import { withFlushOtelMetrics } from "@/lib/otel/with-flush-otel-metrics";
+import { createLogger } from "@/logger";
+import { loggerContext, withLoggerContext } from "@/logger-context";
+import { OrderMetadataManager } from "@/modules/app/order-metadata-manager";
+import { createAvataxProblemReporter } from "@/modules/app-problems";
+import { createAvaTaxOrderRefundedAdapterFromAvaTaxConfig } from "@/modules/avatax/order-refunded/avatax-order-refunded-adapter-factory";
+import { LogWriterFactory } from "@/modules/client-logs/log-writer-factory";
+import { OrderRefundedLogRequest } from "@/modules/client-logs/order-refunded-log-request";
+import { SaleorRefundedOrderEvent } from "@/modules/saleor";
+import { OrderNoteReporter } from "@/modules/saleor/order-note-reporter";
+import {
+  OrderRefundNoAvataxIdError,
+  OrderRefundPayloadOrderError,
+} from "@/modules/saleor/order-refunded/errors";
+import {
+  AvataxEntityNotFoundError,
+  AvataxForbiddenAccessError,
+  AvataxGetTaxSystemError,
+  AvataxGetTaxWrongUserInputError,
+  AvataxInvalidCredentialsError,
+  TaxBadPayloadError,
+} from "@/modules/taxes/tax-error";
+import { orderRefundedAsyncWebhook } from "@/modules/webhooks/definitions/order-refunded";
+
+const logger = createLogger("orderRefundedAsyncWebhook");
+const withMetadataCache = wrapWithMetadataCache(metadataCache);
+const subscriptionErrorChecker = new SubscriptionPayloadErrorChecker(logger, captureException);
+
+const logsWriterFactory = new LogWriterFactory();
+
+const handler = orderRefundedAsyncWebhook.createHandler(async (_req, ctx) => {
+  return appExternalTracer.startActiveSpan(
+    "executing orderRefunded webhook handler",
+    {
+      kind: SpanKind.SERVER,
+    },
+    async (span) => {
+      const { payload, authData } = ctx;
+
+      const logWriter = logsWriterFactory.createWriter(authData);
+
+      metadataCache.setMetadata(payload.recipient?.privateMetadata ?? []);
+
+      subscriptionErrorChecker.checkPayload(payload);
+
+      if (payload.version) {
+        setTag(ObservabilityAttributes.SALEOR_VERSION, payload.version);
+        loggerContext.set(ObservabilityAttributes.SALEOR_VERSION, payload.version);
+      }
+
+      logger.info("Handler called with payload");
+
+      const refundedOrderFromPayload = SaleorRefundedOrderEvent.create(payload);
+
+      if (refundedOrderFromPayload.isErr()) {
+        const error = refundedOrderFromPayload.error;
+
+        span.recordException(error);
+
+        if (error instanceof OrderRefundNoAvataxIdError) {
+          logger.warn("No AvaTax id found in order. Likely not an AvaTax order.", {
+            error,
+          });
+
+          OrderRefundedLogRequest.createErrorLog({
+            sourceId: payload.order?.id,
+            channelId: payload.order?.channel.id,
+            errorReason: "Missing 'avataxId' field in order metadata",
+          })
+            .mapErr(captureException)
+            .map(logWriter.writeLog);
+
+          span.setStatus({
+            code: SpanStatusCode.OK,
+            message: "Failed to record refund in AvaTax: missing avataxId field in order metadata",
+          });
+
+          return Response.json(
+            { message: "Invalid order payload. Likely not an AvaTax order." },
+            { status: 200 },
+          );
+        }
+
+        logger.error("Error parsing order payload", { error });
+        captureException(error);
+
+        OrderRefundedLogRequest.createErrorLog({
+          sourceId: payload.order?.id,
+          channelId: payload.order?.channel.id,
+          errorReason:
+            error instanceof OrderRefundPayloadOrderError
+              ? "Missing order data from Saleor"
+              : "Error parsing Saleor event payload",
+        })
+          .mapErr(captureException)
+          .map(logWriter.writeLog);
+
+        span.setStatus({
+          code: SpanStatusCode.ERROR,
+          message: "Failed to record refund in AvaTax: error parsing Saleor event payload",
+        });
+
+        return Response.json(
+          { message: `Invalid order payload for order: ${payload.order?.id}` },
+          { status: 202 },
+        );
+      }
+
+      const refundedOrderEvent = refundedOrderFromPayload.value;
+
+      loggerContext.set(ObservabilityAttributes.ORDER_ID, refundedOrderEvent.getOrderId());
+
+      if (refundedOrderEvent.getProcessedRefunds().length === 0) {
+        logger.info("Order has no processed granted refunds, skipping");
+
+        span.setStatus({
+          code: SpanStatusCode.OK,
+          message: "No processed refunds to record in AvaTax",
+        });
+
+        return Response.json(
+          { message: `No processed refunds for order: ${payload.order?.id}` },
+          { status: 200 },
+        );
+      }
+
+      const channelSlug = refundedOrderEvent.getChannelSlug();
+
+      const config = new AppConfigExtractor()
+        .extractAppConfigFromPrivateMetadata(refundedOrderEvent.getPrivateMetadata())
+        .map((config) => {
+          try {
+            new AppConfigurationLogger(logger).logConfiguration(config, channelSlug);
+          } catch (e) {
+            captureException(
+              new AppConfigExtractor.LogConfigurationMetricError(
+                "Failed to log configuration metric",
+                {
+                  cause: e,
+                },
+              ),
+            );
+          }
+
+          return config;
+        });
+
+      if (config.isErr()) {
+        logger.warn("Failed to extract app config from metadata", { error: config.error });
+
+        OrderRefundedLogRequest.createErrorLog({
+          sourceId: payload.order?.id,
+          channelId: payload.order?.channel.id,
+          errorReason: "Cannot get app configuration",
+          avataxId: payload.order?.avataxId,
+        })
+          .mapErr(captureException)
+          .map(logWriter.writeLog);
+
+        span.recordException(config.error);
+        span.setStatus({
+          code: SpanStatusCode.ERROR,
+          message: "Failed to record refund in AvaTax: invalid configuration",
+        });
+
+        return Response.json(
+          { message: `App configuration is broken for order: ${payload.order?.id}` },
+          { status: 400 },
+        );
+      }
+
+      const providerConfig = config.value.getConfigForChannelSlug(channelSlug);
+
+      if (providerConfig.isErr()) {
+        OrderRefundedLogRequest.createErrorLog({
+          sourceId: payload.order?.id,
+          channelId: payload.order?.channel.id,
+          errorReason: "Invalid app configuration",
+          avataxId: payload.order?.avataxId,
+        })
+          .mapErr(captureException)
+          .map(logWriter.writeLog);
+
+        {
+          const problemReporter = createAvataxProblemReporter(authData);
+          const reason =
+            providerConfig.error instanceof AppConfig.MissingConfigurationError
+              ? "Channel references a provider configuration that no longer exists"
+              : "Channel is not configured in the AvaTax app";
+
+          after(() => problemReporter.reportChannelConfigMissing(channelSlug, reason));
+        }
+
+        span.recordException(providerConfig.error);
+        span.setStatus({
+          code: SpanStatusCode.ERROR,
+          message: "Failed to record refund in AvaTax: invalid configuration",
+        });
+
+        return Response.json(
+          { message: `App is not configured properly for order: ${payload.order?.id}` },
+          { status: 400 },
+        );
+      }
+
+      const avataxConfig = providerConfig.value.avataxConfig;
+
+      try {
+        const returnDocuments = await createAvaTaxOrderRefundedAdapterFromAvaTaxConfig(
+          avataxConfig.config,
+        ).send({
+          payload: { refundedOrderEvent },
+          config: avataxConfig.config,
+        });
+
+        if (returnDocuments.length === 0) {
+          logger.info("All processed refunds are already recorded in AvaTax, skipping");
+
+          span.setStatus({
+            code: SpanStatusCode.OK,
+            message: "No new refunds to record in AvaTax",
+          });
+
+          return Response.json(
+            { message: `No new refunds for order: ${payload.order?.id}` },
+            { status: 200 },
+          );
+        }
+
+        const returnDocumentIds = returnDocuments.map((document) => document.id);
+
+        logger.info("Refunds recorded in AvaTax", {
+          returnDocumentIds: returnDocumentIds.join(", "),
+        });
+
+        const client = createInstrumentedGraphqlClient({
+          saleorApiUrl: authData.saleorApiUrl,
+          token: authData.token,
+        });
+
+        await new OrderMetadataManager(client).updateOrderMetadataWithReturnCodes(
+          refundedOrderEvent.getOrderId(),
+          [...refundedOrderEvent.getRecordedReturnCodes(), ...returnDocumentIds],
+        );
+        logger.info("Updated order metadata with return codes");
+
+        span.setStatus({
+          code: SpanStatusCode.OK,
+          message: "AvaTax return documents created successfully",
+        });
+
+        after(async () => {
+          OrderRefundedLogRequest.createSuccessLog({
+            sourceId: payload.order?.id,
+            channelId: payload.order?.channel.id,
+            avataxId: payload.order?.avataxId,
+            returnDocumentIds,
+          })
+            .mapErr(captureException)
+            .map(logWriter.writeLog);
+
+          await new OrderNoteReporter(client).reportOrderNote(
+            refundedOrderEvent.getOrderId(),
+            "Refunds recorded in AvaTax: " + returnDocumentIds.join(", "),
+          );
+        });
+
+        return Response.json({ message: "Success" }, { status: 200 });
+      } catch (error) {
+        span.recordException(error as Error); // todo: remove casting when error handling is refactored
+
+        if (
+          error instanceof AvataxInvalidCredentialsError ||
+          error instanceof AvataxForbiddenAccessError ||
+          error instanceof AvataxEntityNotFoundError ||
+          error instanceof AvataxGetTaxSystemError
+        ) {
+          const problemReporter = createAvataxProblemReporter(authData);
+
+          after(() =>
+            problemReporter.reportApiProblem(error, {
+              id: avataxConfig.id,
+              name: avataxConfig.config.name,
+              companyCode: avataxConfig.config.companyCode,
+            }),
+          );
+        }
+
+        if (
+          error instanceof TaxBadPayloadError ||
+          error instanceof AvataxGetTaxWrongUserInputError
+        ) {
+          logger.warn("AvaTax return document rejected due to invalid data", { error });
+
+          OrderRefundedLogRequest.createErrorLog({
+            sourceId: payload.order?.id,
+            channelId: payload.order?.channel.id,
+            errorReason: `Invalid refund data: ${error.message}`,
+            avataxId: payload.order?.avataxId,
+          })
+            .mapErr(captureException)
+            .map(logWriter.writeLog);
+
+          span.setStatus({
+            code: SpanStatusCode.ERROR,
+            message: "Failed to record refund in AvaTax: invalid data",
+          });
+
+          return Response.json(
+            { message: `Order: ${payload.order?.id} refund data is not valid` },
+            { status: 400 },
+          );
+        }
+
+        captureException(error);
+        logger.error("Unhandled error executing webhook", { error: error });
+
+        OrderRefundedLogRequest.createErrorLog({
+          sourceId: payload.order?.id,
+          channelId: payload.order?.channel.id,
+          errorReason: "AvaTax API returned an unhandled error",
+          avataxId: payload.order?.avataxId,
+        })
+          .mapErr(captureException)
+          .map(logWriter.writeLog);
+
+        span.setStatus({
+          code: SpanStatusCode.ERROR,
+          message: "Failed to record refund in AvaTax: unhandled error",
+        });
+
+        return Response.json(
+          { message: "Failed to create AvaTax return documents. (Unhandled error)" },
+          { status: 500 },
+        );
+      }
+    },
+  );
+});
+
+export const POST = compose(
+  withLoggerContext,
+  withFlushOtelMetrics,
+  withMetadataCache,
+  withSpanAttributesAppRouter,
+)(handler);
@@ -0,0 +1,399 @@
+import { SpanKind, SpanStatusCode } from "@opentelemetry/api";
+import { ObservabilityAttributes } from "@saleor/apps-otel/src/observability-attributes";
+import { withSpanAttributesAppRouter } from "@saleor/apps-otel/src/with-span-attributes";
+import { compose } from "@saleor/apps-shared/compose";
+import { captureException, setTag } from "@sentry/nextjs";
+import { AdjustmentReason } from "avatax/lib/enums/AdjustmentReason";
+import { after } from "next/server";
+
+import { AppConfig } from "@/lib/app-config";
+import { AppConfigExtractor } from "@/lib/app-config-extractor";
+import { AppConfigurationLogger } from "@/lib/app-configuration-logger";
+import { metadataCache, wrapWithMetadataCache } from "@/lib/app-metadata-cache";
+import { SubscriptionPayloadErrorChecker } from "@/lib/error-utils";
+import { appExternalTracer } from "@/lib/otel/tracing";
+import { withFlushOtelMetrics } from "@/lib/otel/with-flush-otel-metrics";
+import { createLogger } from "@/logger";
+import { loggerContext, withLoggerContext } from "@/logger-context";
+import { createAvataxProblemReporter } from "@/modules/app-problems";
+import { PriceReductionDiscountsStrategy } from "@/modules/avatax/discounts";
+import { createAvaTaxOrderUpdatedAdapterFromAvaTaxConfig } from "@/modules/avatax/order-updated/avatax-order-updated-adapter-factory";
+import { LogWriterFactory } from "@/modules/client-logs/log-writer-factory";
+import { OrderUpdatedLogRequest } from "@/modules/client-logs/order-updated-log-request";
+import { SaleorUpdatedOrderEvent } from "@/modules/saleor";
+import {
+  OrderUpdatedNoAvataxIdError,
+  OrderUpdatedPayloadOrderError,
+} from "@/modules/saleor/order-updated/errors";
+import {
+  AvataxEntityNotFoundError,
+  AvataxForbiddenAccessError,
+  AvataxGetTaxSystemError,
+  AvataxGetTaxWrongUserInputError,
+  AvataxInvalidCredentialsError,
+  AvataxStringLengthError,
+  TaxBadPayloadError,
+} from "@/modules/taxes/tax-error";
+import { orderUpdatedAsyncWebhook } from "@/modules/webhooks/definitions/order-updated";
+
+const logger = createLogger("orderUpdatedAsyncWebhook");
+const withMetadataCache = wrapWithMetadataCache(metadataCache);
+const subscriptionErrorChecker = new SubscriptionPayloadErrorChecker(logger, captureException);
+const discountsStrategy = new PriceReductionDiscountsStrategy();
+
+const logsWriterFactory = new LogWriterFactory();
+
+const handler = orderUpdatedAsyncWebhook.createHandler(async (_req, ctx) => {
+  return appExternalTracer.startActiveSpan(
+    "executing orderUpdated webhook handler",
+    {
+      kind: SpanKind.SERVER,
+    },
+    async (span) => {
+      const { payload, authData } = ctx;
+
+      const logWriter = logsWriterFactory.createWriter(authData);
+
+      metadataCache.setMetadata(payload.recipient?.privateMetadata ?? []);
+
+      subscriptionErrorChecker.checkPayload(payload);
+
+      if (payload.version) {
+        setTag(ObservabilityAttributes.SALEOR_VERSION, payload.version);
+        loggerContext.set(ObservabilityAttributes.SALEOR_VERSION, payload.version);
+      }
+
+      logger.info("Handler called with payload");
+
+      const updatedOrderFromPayload = SaleorUpdatedOrderEvent.create(payload);
+
+      if (updatedOrderFromPayload.isErr()) {
+        const error = updatedOrderFromPayload.error;
+
+        /*
+         * Orders are updated before they are confirmed (e.g. drafts), so missing AvaTax id is expected
+         * and is not reported to client logs
+         */
+        if (error instanceof OrderUpdatedNoAvataxIdError) {
+          logger.info("No AvaTax id found in order. Order is not confirmed in AvaTax, skipping");
+
+          span.setStatus({
+            code: SpanStatusCode.OK,
+            message: "Order has no AvaTax transaction to adjust",
+          });
+
+          return Response.json(
+            { message: "Order has no AvaTax transaction to adjust." },
+            { status: 200 },
+          );
+        }
+
+        span.recordException(error);
+        logger.error("Error parsing order payload", { error });
+        captureException(error);
+
+        OrderUpdatedLogRequest.createErrorLog({
+          sourceId: payload.order?.id,
+          channelId: payload.order?.channel.id,
+          errorReason:
+            error instanceof OrderUpdatedPayloadOrderError
+              ? "Missing order data from Saleor"
+              : "Error parsing Saleor event payload",
+        })
+          .mapErr(captureException)
+          .map(logWriter.writeLog);
+
+        span.setStatus({
+          code: SpanStatusCode.ERROR,
+          message: "Failed to adjust AvaTax transaction: error parsing Saleor event payload",
+        });
+
+        return Response.json(
+          { message: `Invalid order payload for order: ${payload.order?.id}` },
+          { status: 202 },
+        );
+      }
+
+      const updatedOrderEvent = updatedOrderFromPayload.value;
+
+      loggerContext.set(ObservabilityAttributes.ORDER_ID, updatedOrderEvent.getOrderId());
+
+      if (updatedOrderEvent.isCancelled()) {
+        logger.info("Order is cancelled, skipping");
+
+        span.setStatus({
+          code: SpanStatusCode.OK,
+          message: "Cancelled order is not adjusted in AvaTax",
+        });
+
+        return Response.json(
+          { message: `Order ${payload.order?.id} is cancelled.` },
+          { status: 200 },
+        );
+      }
+
+      if (updatedOrderEvent.getOrderEvent().isStrategyFlatRates()) {
+        logger.info("Order has flat rates tax strategy, skipping...");
+
+        span.setStatus({
+          code: SpanStatusCode.OK,
+          message: "Order with flat tax rates strategy is not adjusted in AvaTax",
+        });
+
+        return Response.json(
+          { message: `Order ${payload.order?.id} has flat rates tax strategy.` },
+          { status: 200 },
+        );
+      }
+
+      const channelSlug = updatedOrderEvent.getChannelSlug();
+
+      const config = new AppConfigExtractor()
+        .extractAppConfigFromPrivateMetadata(updatedOrderEvent.getPrivateMetadata())
+        .map((config) => {
+          try {
+            new AppConfigurationLogger(logger).logConfiguration(config, channelSlug);
+          } catch (e) {
+            captureException(
+              new AppConfigExtractor.LogConfigurationMetricError(
+                "Failed to log configuration metric",
+                {
+                  cause: e,
+                },
+              ),
+            );
+          }
+
+          return config;
+        });
+
+      if (config.isErr()) {
+        logger.warn("Failed to extract app config from metadata", { error: config.error });
+
+        OrderUpdatedLogRequest.createErrorLog({
+          sourceId: payload.order?.id,
+          channelId: payload.order?.channel.id,
+          errorReason: "Cannot get app configuration",
+          avataxId: payload.order?.avataxId,
+        })
+          .mapErr(captureException)
+          .map(logWriter.writeLog);
+
+        span.recordException(config.error);
+        span.setStatus({
+          code: SpanStatusCode.ERROR,
+          message: "Failed to adjust AvaTax transaction: invalid configuration",
+        });
+
+        return Response.json(
+          { message: `App configuration is broken for order: ${payload.order?.id}` },
+          { status: 400 },
+        );
+      }
+
+      const providerConfig = config.value.getConfigForChannelSlug(channelSlug);
+
+      if (providerConfig.isErr()) {
+        OrderUpdatedLogRequest.createErrorLog({
+          sourceId: payload.order?.id,
+          channelId: payload.order?.channel.id,
+          errorReason: "Invalid app configuration",
+          avataxId: payload.order?.avataxId,
+        })
+          .mapErr(captureException)
+          .map(logWriter.writeLog);
+
+        {
+          const problemReporter = createAvataxProblemReporter(authData);
+          const reason =
+            providerConfig.error instanceof AppConfig.MissingConfigurationError
+              ? "Channel references a provider configuration that no longer exists"
+              : "Channel is not configured in the AvaTax app";
+
+          after(() => problemReporter.reportChannelConfigMissing(channelSlug, reason));
+        }
+
+        span.recordException(providerConfig.error);
+        span.setStatus({
+          code: SpanStatusCode.ERROR,
+          message: "Failed to adjust AvaTax transaction: invalid configuration",
+        });
+
+        return Response.json(
+          { message: `App is not configured properly for order: ${payload.order?.id}` },
+          { status: 400 },
+        );
+      }
+
+      const avataxConfig = providerConfig.value.avataxConfig;
+
+      if (!avataxConfig.config.isDocumentRecordingEnabled) {
+        logger.info("Document recording is disabled, there is no AvaTax transaction to adjust");
+
+        span.setStatus({
+          code: SpanStatusCode.OK,
+          message: "Document recording is disabled, AvaTax transaction is not adjusted",
+        });
+
+        return Response.json(
+          { message: `Document recording is disabled for order: ${payload.order?.id}` },
+          { status: 200 },
+        );
+      }
+
+      try {
+        const response = await createAvaTaxOrderUpdatedAdapterFromAvaTaxConfig(
+          avataxConfig.config,
+        ).send({
+          payload: { updatedOrderEvent },
+          config: avataxConfig.config,
+          authData,
+          discountsStrategy,
+        });
+
+        if (response.status !== "adjusted") {
+          span.setStatus({
+            code: SpanStatusCode.OK,
+            message:
+              response.status === "voided"
+                ? "AvaTax transaction is voided, adjustment skipped"
+                : "Order has no changes relevant for AvaTax transaction",
+          });
+
+          return Response.json({ message: "Success" }, { status: 200 });
+        }
+
+        const adjustmentReason = AdjustmentReason[response.adjustmentReason];
+
+        logger.info("Transaction adjusted in AvaTax", {
+          transactionId: response.id,
+          adjustmentReason: adjustmentReason,
+          totalTaxBefore: response.totalTaxBefore,
+          totalTaxAfter: response.totalTaxAfter,
+        });
+
+        span.setStatus({
+          code: SpanStatusCode.OK,
+          message: "AvaTax transaction adjusted successfully",
+        });
+
+        /*
+         * Adjustment is recorded only in client logs - order note would trigger ORDER_UPDATED again and cost another
+         * AvaTax call just to find out nothing changed
+         */
+        after(() => {
+          OrderUpdatedLogRequest.createSuccessLog({
+            sourceId: payload.order?.id,
+            channelId: payload.order?.channel.id,
+            avataxId: response.id,
+            adjustmentReason,
+            changes: response.changes,
+            totalTaxBefore: response.totalTaxBefore,
+            totalTaxAfter: response.totalTaxAfter,
+          })
+            .mapErr(captureException)
+            .map(logWriter.writeLog);
+        });
+
+        return Response.json({ message: "Success" }, { status: 200 });
+      } catch (error) {
+        span.recordException(error as Error); // todo: remove casting when error handling is refactored
+
+        if (
+          error instanceof AvataxInvalidCredentialsError ||
+          error instanceof AvataxForbiddenAccessError ||
+          error instanceof AvataxGetTaxSystemError
+        ) {
+          const problemReporter = createAvataxProblemReporter(authData);
+
+          after(() =>
+            problemReporter.reportApiProblem(error, {
+              id: avataxConfig.id,
+              name: avataxConfig.config.name,
+              companyCode: avataxConfig.config.companyCode,
+            }),
+          );
+        }
+
+        if (error instanceof AvataxEntityNotFoundError) {
+          logger.warn("AvaTax transaction to adjust not found", { error: error });
+
+          OrderUpdatedLogRequest.createErrorLog({
+            sourceId: payload.order?.id,
+            channelId: payload.order?.channel.id,
+            errorReason: "AvaTax transaction not found",
+            avataxId: payload.order?.avataxId,
+          })
+            .mapErr(captureException)
+            .map(logWriter.writeLog);
+
+          span.setStatus({
+            code: SpanStatusCode.ERROR,
+            message: "Failed to adjust AvaTax transaction: transaction not found",
+          });
+
+          return Response.json(
+            { message: `AvaTax transaction for order: ${payload.order?.id} not found` },
+            { status: 400 },
+          );
+        }
+
+        if (
+          error instanceof TaxBadPayloadError ||
+          error instanceof AvataxStringLengthError ||
+          error instanceof AvataxGetTaxWrongUserInputError
+        ) {
+          logger.warn("AvaTax adjustment rejected due to invalid data", { error: error });
+
+          OrderUpdatedLogRequest.createErrorLog({
+            sourceId: payload.order?.id,
+            channelId: payload.order?.channel.id,
+            errorReason: `Invalid order data: ${error.message}`,
+            avataxId: payload.order?.avataxId,
+          })
+            .mapErr(captureException)
+            .map(logWriter.writeLog);
+
+          span.setStatus({
+            code: SpanStatusCode.ERROR,
+            message: "Failed to adjust AvaTax transaction: invalid data",
+          });
+
+          return Response.json(
+            { message: `Order: ${payload.order?.id} data is not valid` },
+            { status: 400 },
+          );
+        }
+
+        captureException(error);
+        logger.error("Unhandled error executing webhook", { error: error });
+
+        OrderUpdatedLogRequest.createErrorLog({
+          sourceId: payload.order?.id,
+          channelId: payload.order?.channel.id,
+          errorReason: "AvaTax API returned an unhandled error",
+          avataxId: payload.order?.avataxId,
+        })
+          .mapErr(captureException)
+          .map(logWriter.writeLog);
+
+        span.setStatus({
+          code: SpanStatusCode.ERROR,
+          message: "Failed to adjust AvaTax transaction: unhandled error",
+        });
+
+        return Response.json(
+          { message: "Failed to adjust AvaTax transaction. (Unhandled error)" },
+          { status: 500 },
+        );
+      }
+    },
+  );
+});
+
+export const POST = compose(
+  withLoggerContext,
+  withFlushOtelMetrics,
+  withMetadataCache,
+  withSpanAttributesAppRouter,
+)(handler);
@@ -17,6 +17,8 @@ export const env = createEnv({
     AVATAX_CLIENT_TIMEOUT: z.coerce.number().default(15000),
     AVATAX_CLIENT_APP_NAME: z.string().default(packageJson.name),
     AVATAX_CLIENT_APP_VERSION: z.string().default(packageJson.version),
+    AVATAX_CALCULATE_TAXES_CACHE_TTL_SECONDS: z.coerce.number().int().min(0).default(0),
+    AVATAX_CALCULATE_TAXES_CACHE_MEMORY_MAX_ENTRIES: z.coerce.number().int().min(0).default(500),
     AWS_ACCESS_KEY_ID: z.string(),
     AWS_REGION: z.string(),
     AWS_SECRET_ACCESS_KEY: z.string(),
@@ -70,6 +72,9 @@ export const env = createEnv({
     AVATAX_CLIENT_TIMEOUT: process.env.AVATAX_CLIENT_TIMEOUT,
     AVATAX_CLIENT_APP_NAME: process.env.AVATAX_CLIENT_APP_NAME,
     AVATAX_CLIENT_APP_VERSION: process.env.AVATAX_CLIENT_APP_VERSION,
+    AVATAX_CALCULATE_TAXES_CACHE_TTL_SECONDS: process.env.AVATAX_CALCULATE_TAXES_CACHE_TTL_SECONDS,
+    AVATAX_CALCULATE_TAXES_CACHE_MEMORY_MAX_ENTRIES:
+      process.env.AVATAX_CALCULATE_TAXES_CACHE_MEMORY_MAX_ENTRIES,
     AWS_ACCESS_KEY_ID: process.env.AWS_ACCESS_KEY_ID,
     AWS_REGION: process.env.AWS_REGION,
     AWS_SECRET_ACCESS_KEY: process.env.AWS_SECRET_ACCESS_KEY,
@@ -51,6 +51,7 @@ describe("AppConfig", () => {
               isAutocommit: false,
               isExemptionStatusPublicMetadataEnabled: false,
               isDocumentRecordingEnabled: false,
+              fallbackStrategy: "NONE",
               shippingTaxCode: "123",
             },
           },
@@ -120,6 +121,7 @@ describe("AppConfig", () => {
               isAutocommit: false,
               isExemptionStatusPublicMetadataEnabled: false,
               isDocumentRecordingEnabled: false,
+              fallbackStrategy: "NONE",
               shippingTaxCode: "123",
             },
           },
@@ -144,6 +146,7 @@ describe("AppConfig", () => {
                 "password": "test",
                 "username": "test",
               },
+              "fallbackStrategy": "NONE",
               "isAutocommit": false,
               "isDocumentRecordingEnabled": false,
               "isExemptionStatusPublicMetadataEnabled": false,
@@ -1,6 +1,7 @@
 import { ObservabilityAttributes } from "@saleor/apps-otel/src/observability-attributes";
 
 import { type createLogger } from "../logger";
+import { avataxCommitPolicy } from "../modules/avatax/avatax-commit-policy-resolver";
 import { type AppConfig } from "./app-config";
 
 export class AppConfigurationLogger {
@@ -33,8 +34,9 @@ export class AppConfigurationLogger {
       companyCode: resolvedAvataxConfig.config.companyCode,
       address: resolvedAvataxConfig.config.address,
       isSandbox: resolvedAvataxConfig.config.isSandbox,
-      isAutocommit: resolvedAvataxConfig.config.isAutocommit,
+      commitPolicy: avataxCommitPolicy.resolve(resolvedAvataxConfig.config),
       isDocumentRecordingEnabled: resolvedAvataxConfig.config.isDocumentRecordingEnabled,
+      fallbackStrategy: resolvedAvataxConfig.config.fallbackStrategy,
       username: resolvedAvataxConfig.config.credentials.username.slice(0, 3) + "...",
       password: resolvedAvataxConfig.config.credentials.password ? "<Exists>" : "<EMPTY>",
     });
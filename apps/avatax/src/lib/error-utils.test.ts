@@ -11,59 +11,69 @@ describe("SubscriptionPayloadErrorChecker", () => {
     vi.resetAllMocks();
   });
 
-  it.each(["OrderCancelled", "OrderConfirmed", "CalculateTaxes"])(
-    "should log error when payload contains unhandled GraphQL error for %s",
-    (typename) => {
-      const payload = {
-        __typename: typename,
-        errors: [
-          {
-            message: "Error message",
-            source: "Error source",
-          },
-        ],
-      } as any;
-
-      const checker = new SubscriptionPayloadErrorChecker(
-        { error: mockError, info: mockInfo },
-        mockErrorCapture,
-      );
-
-      checker.checkPayload(payload);
-
-      expect(mockError).toHaveBeenCalledWith(
-        `Payload contains unhandled GraphQL error for ${typename}`,
+  it.each([
+    "OrderCancelled",
+    "OrderConfirmed",
+    "OrderFullyPaid",
+    "OrderFulfilled",
+    "OrderRefunded",
+    "OrderUpdated",
+    "CalculateTaxes",
+  ])("should log error when payload contains unhandled GraphQL error for %s", (typename) => {
+    const payload = {
+      __typename: typename,
+      errors: [
         {
-          error: expect.any(SubscriptionPayloadErrorChecker.SubscriptionPayloadError),
-          subscription: typename,
+          message: "Error message",
+          source: "Error source",
         },
-      );
-      expect(mockErrorCapture).toHaveBeenCalledWith(
-        expect.any(SubscriptionPayloadErrorChecker.SubscriptionPayloadError),
-      );
-      expect(mockInfo).not.toHaveBeenCalled();
-    },
-  );
-
-  it.each(["OrderCancelled", "OrderConfirmed", "CalculateTaxes"])(
-    "should not log error when payload does not contain GraphQL error for %s",
-    (typename) => {
-      const payload = {
-        __typename: typename,
-      } as any;
-
-      const checker = new SubscriptionPayloadErrorChecker(
-        { error: mockError, info: mockInfo },
-        mockErrorCapture,
-      );
-
-      checker.checkPayload(payload);
-
-      expect(mockError).not.toHaveBeenCalled();
-      expect(mockErrorCapture).not.toHaveBeenCalled();
-      expect(mockInfo).not.toHaveBeenCalled();
-    },
-  );
+      ],
+    } as any;
+
+    const checker = new SubscriptionPayloadErrorChecker(
+      { error: mockError, info: mockInfo },
+      mockErrorCapture,
+    );
+
+    checker.checkPayload(payload);
+
+    expect(mockError).toHaveBeenCalledWith(
+      `Payload contains unhandled GraphQL error for ${typename}`,
+      {
+        error: expect.any(SubscriptionPayloadErrorChecker.SubscriptionPayloadError),
+        subscription: typename,
+      },
+    );
+    expect(mockErrorCapture).toHaveBeenCalledWith(
+      expect.any(SubscriptionPayloadErrorChecker.SubscriptionPayloadError),
+    );
+    expect(mockInfo).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    "OrderCancelled",
+    "OrderConfirmed",
+    "OrderFullyPaid",
+    "OrderFulfilled",
+    "OrderRefunded",
+    "OrderUpdated",
+    "CalculateTaxes",
+  ])("should not log error when payload does not contain GraphQL error for %s", (typename) => {
+    const payload = {
+      __typename: typename,
+    } as any;
+
+    const checker = new SubscriptionPayloadErrorChecker(
+      { error: mockError, info: mockInfo },
+      mockErrorCapture,
+    );
+
+    checker.checkPayload(payload);
+
+    expect(mockError).not.toHaveBeenCalled();
+    expect(mockErrorCapture).not.toHaveBeenCalled();
+    expect(mockInfo).not.toHaveBeenCalled();
+  });
 
   it("should not log error when payload contains handled error", () => {
     const payload = {
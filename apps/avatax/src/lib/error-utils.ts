@@ -7,6 +7,10 @@ import { BaseError } from "../error";
 import { type CalculateTaxesPayload } from "../modules/webhooks/payloads/calculate-taxes-payload";
 import { type OrderCancelledPayload } from "../modules/webhooks/payloads/order-cancelled-payload";
 import { type OrderConfirmedPayload } from "../modules/webhooks/payloads/order-confirmed-payload";
+import { type OrderFulfilledPayload } from "../modules/webhooks/payloads/order-fulfilled-payload";
+import { type OrderFullyPaidPayload } from "../modules/webhooks/payloads/order-fully-paid-payload";
+import { type OrderRefundedPayload } from "../modules/webhooks/payloads/order-refunded-payload";
+import { type OrderUpdatedPayload } from "../modules/webhooks/payloads/order-updated-payload";
 
 export function resolveTrpcClientError(error: unknown) {
   if (error instanceof TRPCClientError) {
@@ -28,7 +32,16 @@ export class SubscriptionPayloadErrorChecker {
     ) => void,
   ) {}
 
-  checkPayload(payload: CalculateTaxesPayload | OrderCancelledPayload | OrderConfirmedPayload) {
+  checkPayload(
+    payload:
+      | CalculateTaxesPayload
+      | OrderCancelledPayload
+      | OrderConfirmedPayload
+      | OrderFullyPaidPayload
+      | OrderFulfilledPayload
+      | OrderRefundedPayload
+      | OrderUpdatedPayload,
+  ) {
     // @ts-expect-error errors field is not yet typed on subscription payloads
     const possibleErrors = payload?.errors as GraphQLError[];
 
@@ -10,6 +10,7 @@ export const defaultOrder: OrderConfirmedSubscriptionFragment = {
   avataxEntityCode: null,
   created: "2023-05-25T09:18:55.203440+00:00",
   status: "UNFULFILLED",
+  chargeStatus: "NONE",
   channel: {
     id: "Q2hhbm5lbDox",
     slug: "default-channel",
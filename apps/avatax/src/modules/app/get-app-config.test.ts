@@ -12,9 +12,10 @@ const mockedProviders: ProviderConnections = [
     id: "1",
     config: {
       companyCode: "DEFAULT",
-      isAutocommit: false,
+      commitPolicy: "MANUAL",
       isSandbox: true,
       isDocumentRecordingEnabled: true,
+      fallbackStrategy: "NONE",
       isExemptionStatusPublicMetadataEnabled: false,
       name: "avatax-1",
       shippingTaxCode: "FR000000",
@@ -10,6 +10,7 @@ import {
 } from "../../../generated/graphql";
 
 const PROVIDER_ORDER_ID_KEY = "avataxId";
+const PROVIDER_RETURN_CODES_KEY = "avataxReturnCodes";
 
 export class OrderMetadataManager {
   private privateOrderIdKey = PROVIDER_ORDER_ID_KEY;
@@ -33,12 +34,30 @@ export class OrderMetadataManager {
    * @deprecated - This will not be needed when we move to the new webhook flow because the transactions will be committed during OrderConfirmed
    */
   async updateOrderMetadataWithExternalId(orderId: string, externalId: string) {
+    return this.updateOrderMetadata(orderId, this.privateOrderIdKey, externalId);
+  }
+
+  /**
+   * Return documents created in AvaTax are stored, so the next ORDER_REFUNDED event sends only new refunds.
+   *
+   * @param orderId - Saleor order id
+   * @param returnCodes - All return document codes created for the order
+   */
+  async updateOrderMetadataWithReturnCodes(orderId: string, returnCodes: string[]) {
+    return this.updateOrderMetadata(
+      orderId,
+      PROVIDER_RETURN_CODES_KEY,
+      JSON.stringify(returnCodes),
+    );
+  }
+
+  private async updateOrderMetadata(orderId: string, key: string, value: string) {
     const variables: UpdatePublicMetadataMutationVariables = {
       id: orderId,
       input: [
         {
-          key: this.privateOrderIdKey,
-          value: externalId,
+          key,
+          value,
         },
       ],
     };
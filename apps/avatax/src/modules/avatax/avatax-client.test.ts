@@ -1,3 +1,4 @@
+import { AdjustmentReason } from "avatax/lib/enums/AdjustmentReason";
 import { describe, expect, it, vi } from "vitest";
 
 import { AvataxTimeoutError } from "../taxes/tax-error";
@@ -12,6 +13,9 @@ const createMockSdkClient = (overrides: Record<string, unknown> = {}) =>
     listTaxCodes: vi.fn(),
     voidTransaction: vi.fn(),
     listEntityUseCodes: vi.fn(),
+    getTransactionByCode: vi.fn(),
+    adjustTransaction: vi.fn(),
+    commitTransaction: vi.fn(),
     ...overrides,
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
   }) as any;
@@ -92,4 +96,47 @@ describe("AvataxClient", () => {
       expect(error).not.toBeInstanceOf(AvataxTimeoutError);
     });
   });
+
+  describe("adjustTransaction", () => {
+    it("Wraps new transaction model with adjustment reason", async () => {
+      const adjustTransaction = vi.fn().mockResolvedValue({ code: "transaction-code" });
+      const mockSdk = createMockSdkClient({ adjustTransaction });
+      const client = new AvataxClient(mockSdk);
+
+      const result = await client.adjustTransaction({
+        companyCode: "DEFAULT",
+        transactionCode: "transaction-code",
+        adjustmentReason: AdjustmentReason.PriceAdjusted,
+        adjustmentDescription: "Order lines changed",
+        model: { code: "transaction-code" } as never,
+      });
+
+      expect(result._unsafeUnwrap()).toStrictEqual({ code: "transaction-code" });
+      expect(adjustTransaction).toHaveBeenCalledWith({
+        companyCode: "DEFAULT",
+        transactionCode: "transaction-code",
+        model: {
+          adjustmentReason: AdjustmentReason.PriceAdjusted,
+          adjustmentDescription: "Order lines changed",
+          newTransaction: { code: "transaction-code" },
+        },
+      });
+    });
+
+    it("Returns AvataxTimeoutError when adjustTransaction SDK call times out", async () => {
+      const mockSdk = createMockSdkClient({
+        adjustTransaction: vi.fn().mockRejectedValue(new Error("timeout")),
+      });
+      const client = new AvataxClient(mockSdk);
+
+      const result = await client.adjustTransaction({
+        companyCode: "DEFAULT",
+        transactionCode: "transaction-code",
+        adjustmentReason: AdjustmentReason.Other,
+        model: {} as never,
+      });
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(AvataxTimeoutError);
+    });
+  });
 });
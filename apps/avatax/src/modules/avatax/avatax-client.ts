@@ -2,6 +2,7 @@ import { SpanKind, SpanStatusCode } from "@opentelemetry/api";
 import { ATTR_PEER_SERVICE } from "@opentelemetry/semantic-conventions/incubating";
 import { ObservabilityAttributes } from "@saleor/apps-otel/src/observability-attributes";
 import type Avatax from "avatax";
+import { AdjustmentReason } from "avatax/lib/enums/AdjustmentReason";
 import { DocumentType } from "avatax/lib/enums/DocumentType";
 import { VoidReasonCode } from "avatax/lib/enums/VoidReasonCode";
 import { type AddressLocationInfo as AvataxAddress } from "avatax/lib/models/AddressLocationInfo";
@@ -29,6 +30,19 @@ export type CreateTransactionArgs = {
   model: CreateTransactionModel;
 };
 
+export type GetTransactionArgs = {
+  companyCode: string;
+  transactionCode: string;
+};
+
+export type AdjustTransactionArgs = {
+  companyCode: string;
+  transactionCode: string;
+  adjustmentReason: AdjustmentReason;
+  adjustmentDescription?: string;
+  model: CreateTransactionModel;
+};
+
 export type ValidateAddressArgs = {
   address: AvataxAddress;
 };
@@ -124,6 +138,192 @@ export class AvataxClient {
     );
   }
 
+  async commitTransaction({
+    companyCode,
+    transactionCode,
+    model,
+    documentType,
+  }: CommitTransactionArgs) {
+    return appExternalTracer.startActiveSpan(
+      "calling AvaTax commitTransaction API",
+      {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          [ATTR_PEER_SERVICE]: "avatax",
+          "avatax.document_type": DocumentType[documentType],
+          [this.avataxEnviromentObervabilityAttribute]: this.getAvaTaxEnviroment(),
+        },
+      },
+      (span) => {
+        return fromPromise(
+          this.client.commitTransaction({
+            companyCode,
+            transactionCode,
+            documentType,
+            model,
+          }),
+          (error) => {
+            return this.handleError(error);
+          },
+        )
+          .map((response) => {
+            span.setStatus({
+              code: SpanStatusCode.OK,
+              message: "Transaction committed successfully",
+            });
+
+            this.apiCallsCounter.add(1, {
+              status: "success",
+              method: "commit_transaction",
+              [this.avataxEnviromentObervabilityAttribute]: this.getAvaTaxEnviroment(),
+              [ObservabilityAttributes.TENANT_DOMAIN]: this.tenantDomainResolver.getDomain(),
+            });
+
+            return response;
+          })
+          .mapErr((error) => {
+            span.recordException(error);
+            span.setStatus({
+              code: SpanStatusCode.ERROR,
+              message: "Failed to commit transaction",
+            });
+
+            this.apiCallsCounter.add(1, {
+              status: "error",
+              method: "commit_transaction",
+              [this.avataxEnviromentObervabilityAttribute]: this.getAvaTaxEnviroment(),
+              [ObservabilityAttributes.TENANT_DOMAIN]: this.tenantDomainResolver.getDomain(),
+            });
+
+            return error;
+          });
+      },
+    );
+  }
+
+  async getTransaction({ companyCode, transactionCode }: GetTransactionArgs) {
+    return appExternalTracer.startActiveSpan(
+      "calling AvaTax getTransactionByCode API",
+      {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          [ATTR_PEER_SERVICE]: "avatax",
+          [this.avataxEnviromentObervabilityAttribute]: this.getAvaTaxEnviroment(),
+        },
+      },
+      (span) => {
+        return fromPromise(
+          this.client.getTransactionByCode({
+            companyCode,
+            transactionCode,
+            include: "Lines,Addresses",
+          }),
+          (error) => {
+            return this.handleError(error);
+          },
+        )
+          .map((response) => {
+            span.setStatus({
+              code: SpanStatusCode.OK,
+              message: "Transaction fetched successfully",
+            });
+
+            this.apiCallsCounter.add(1, {
+              status: "success",
+              method: "get_transaction_by_code",
+              [this.avataxEnviromentObervabilityAttribute]: this.getAvaTaxEnviroment(),
+              [ObservabilityAttributes.TENANT_DOMAIN]: this.tenantDomainResolver.getDomain(),
+            });
+
+            return response;
+          })
+          .mapErr((error) => {
+            span.recordException(error);
+            span.setStatus({
+              code: SpanStatusCode.ERROR,
+              message: "Failed to fetch transaction",
+            });
+
+            this.apiCallsCounter.add(1, {
+              status: "error",
+              method: "get_transaction_by_code",
+              [this.avataxEnviromentObervabilityAttribute]: this.getAvaTaxEnviroment(),
+              [ObservabilityAttributes.TENANT_DOMAIN]: this.tenantDomainResolver.getDomain(),
+            });
+
+            return error;
+          });
+      },
+    );
+  }
+
+  async adjustTransaction({
+    companyCode,
+    transactionCode,
+    adjustmentReason,
+    adjustmentDescription,
+    model,
+  }: AdjustTransactionArgs) {
+    return appExternalTracer.startActiveSpan(
+      "calling AvaTax adjustTransaction API",
+      {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          [ATTR_PEER_SERVICE]: "avatax",
+          "avatax.adjustment_reason": AdjustmentReason[adjustmentReason],
+          [this.avataxEnviromentObervabilityAttribute]: this.getAvaTaxEnviroment(),
+        },
+      },
+      (span) => {
+        return fromPromise(
+          this.client.adjustTransaction({
+            companyCode,
+            transactionCode,
+            model: {
+              adjustmentReason,
+              adjustmentDescription,
+              newTransaction: model,
+            },
+          }),
+          (error) => {
+            return this.handleError(error);
+          },
+        )
+          .map((response) => {
+            span.setStatus({
+              code: SpanStatusCode.OK,
+              message: "Transaction adjusted successfully",
+            });
+
+            this.apiCallsCounter.add(1, {
+              status: "success",
+              method: "adjust_transaction",
+              [this.avataxEnviromentObervabilityAttribute]: this.getAvaTaxEnviroment(),
+              [ObservabilityAttributes.TENANT_DOMAIN]: this.tenantDomainResolver.getDomain(),
+            });
+
+            return response;
+          })
+          .mapErr((error) => {
+            span.recordException(error);
+            span.setStatus({
+              code: SpanStatusCode.ERROR,
+              message: "Failed to adjust transaction",
+            });
+
+            this.apiCallsCounter.add(1, {
+              status: "error",
+              method: "adjust_transaction",
+              [this.avataxEnviromentObervabilityAttribute]: this.getAvaTaxEnviroment(),
+              [ObservabilityAttributes.TENANT_DOMAIN]: this.tenantDomainResolver.getDomain(),
+            });
+
+            return error;
+          });
+      },
+    );
+  }
+
   async voidTransaction({
     transactionCode,
     companyCode,
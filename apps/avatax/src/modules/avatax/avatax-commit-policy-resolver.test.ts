@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+
+import { avataxCommitPolicy } from "./avatax-commit-policy-resolver";
+
+describe("avataxCommitPolicy", () => {
+  describe("resolve", () => {
+    it("returns commit policy from config", () => {
+      expect(
+        avataxCommitPolicy.resolve({ commitPolicy: "ON_FULLY_PAID", isAutocommit: true }),
+      ).toBe("ON_FULLY_PAID");
+    });
+
+    it("returns ON_CONFIRM for legacy config with autocommit enabled", () => {
+      expect(avataxCommitPolicy.resolve({ isAutocommit: true })).toBe("ON_CONFIRM");
+    });
+
+    it("returns MANUAL for legacy config with autocommit disabled", () => {
+      expect(avataxCommitPolicy.resolve({ isAutocommit: false })).toBe("MANUAL");
+    });
+
+    it("returns MANUAL when neither commit policy nor autocommit is set", () => {
+      expect(avataxCommitPolicy.resolve({})).toBe("MANUAL");
+    });
+  });
+});
@@ -0,0 +1,12 @@
+import { type AvataxCommitPolicy, type AvataxConfig } from "./avatax-connection-schema";
+
+export const avataxCommitPolicy = {
+  resolve(config: Pick<AvataxConfig, "commitPolicy" | "isAutocommit">): AvataxCommitPolicy {
+    if (config.commitPolicy) {
+      return config.commitPolicy;
+    }
+
+    // Connections saved before commit policy was introduced only had autocommit flag
+    return config.isAutocommit ? "ON_CONFIRM" : "MANUAL";
+  },
+};
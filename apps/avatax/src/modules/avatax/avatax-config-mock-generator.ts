@@ -2,12 +2,13 @@ import { type AvataxConfig } from "./avatax-connection-schema";
 
 const defaultAvataxConfig: AvataxConfig = {
   companyCode: "DEFAULT",
-  isAutocommit: false,
+  commitPolicy: "MANUAL",
   isExemptionStatusPublicMetadataEnabled: false,
   isSandbox: true,
   name: "Avatax-1",
   shippingTaxCode: "FR000000",
   isDocumentRecordingEnabled: true,
+  fallbackStrategy: "NONE",
   address: {
     country: "US",
     zip: "95008",
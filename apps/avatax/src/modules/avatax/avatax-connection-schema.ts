@@ -13,6 +13,27 @@ const avataxCredentialsSchema = z.object({
   password: z.string().min(1, { message: "Password requires at least one character." }),
 });
 
+/**
+ * Saleor event after which the AvaTax document is committed.
+ * MANUAL means the document is committed only with the action in the order details widget (or in AvaTax).
+ */
+export const avataxCommitPolicySchema = z.enum([
+  "ON_CONFIRM",
+  "ON_FULLY_PAID",
+  "ON_FIRST_FULFILLMENT",
+  "MANUAL",
+]);
+
+export type AvataxCommitPolicy = z.infer<typeof avataxCommitPolicySchema>;
+
+/**
+ * What the app returns to Saleor when AvaTax doesn't respond in time during tax calculation.
+ * RATE_TABLE calculates taxes from the locally stored fallback rates of the connection.
+ */
+export const avataxFallbackStrategySchema = z.enum(["NONE", "RATE_TABLE"]);
+
+export type AvataxFallbackStrategy = z.infer<typeof avataxFallbackStrategySchema>;
+
 // All that is needed to create AvaTax configuration.
 export const baseAvataxConfigSchema = z.object({
   isSandbox: z.boolean(),
@@ -25,10 +46,15 @@ export const avataxConfigSchema = z
   .object({
     name: z.string().min(1, { message: "Name requires at least one character." }),
     companyCode: z.string().min(1, { message: "Company code requires at least one character." }),
-    isAutocommit: z.boolean(),
+    /**
+     * @deprecated - replaced by `commitPolicy`. Kept to resolve the policy of connections saved before it was introduced
+     */
+    isAutocommit: z.boolean().optional(),
+    commitPolicy: avataxCommitPolicySchema.optional(),
     isExemptionStatusPublicMetadataEnabled: z.boolean().default(false),
     shippingTaxCode: z.string().optional(),
     isDocumentRecordingEnabled: z.boolean().default(true),
+    fallbackStrategy: avataxFallbackStrategySchema.default("NONE"),
     address: addressSchema,
   })
   .merge(baseAvataxConfigSchema);
@@ -39,9 +65,10 @@ export const defaultAvataxConfig: AvataxConfig = {
   name: "",
   companyCode: "DEFAULT",
   isSandbox: false,
-  isAutocommit: false,
+  commitPolicy: "MANUAL",
   isExemptionStatusPublicMetadataEnabled: false,
   isDocumentRecordingEnabled: true,
+  fallbackStrategy: "NONE",
   shippingTaxCode: "",
   credentials: {
     username: "",
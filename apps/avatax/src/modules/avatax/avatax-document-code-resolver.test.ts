@@ -44,4 +44,26 @@ describe("AvataxDocumentCodeResolver", () => {
       }),
     ).toBe("long-order-number-ab");
   });
+
+  describe("resolveReturn", () => {
+    it("returns original document code with return number suffix", () => {
+      expect(
+        resolver.resolveReturn({
+          avataxDocumentCode: null,
+          orderNumber: "42",
+          returnNumber: 2,
+        }),
+      ).toBe("42-R2");
+    });
+
+    it("trims original document code so the suffix fits in 20 characters", () => {
+      expect(
+        resolver.resolveReturn({
+          avataxDocumentCode: "long-document-code-above-20-characters",
+          orderNumber: "42",
+          returnNumber: 13,
+        }),
+      ).toBe("long-document-co-R13");
+    });
+  });
 });
@@ -18,4 +18,23 @@ export class AvataxDocumentCodeResolver {
      */
     return code.slice(0, 20);
   }
+
+  /**
+   * Return documents must have their own code - AvaTax would adjust the original SalesInvoice otherwise.
+   * Suffix is based on the refund sequence number, so retried webhooks resolve to the same document.
+   */
+  resolveReturn({
+    avataxDocumentCode,
+    orderNumber,
+    returnNumber,
+  }: {
+    avataxDocumentCode: string | null | undefined;
+    orderNumber: string;
+    returnNumber: number;
+  }): string {
+    const suffix = `-R${returnNumber}`;
+    const code = this.resolve({ avataxDocumentCode, orderNumber });
+
+    return `${code.slice(0, 20 - suffix.length)}${suffix}`;
+  }
 }
@@ -63,8 +63,8 @@ export class AvataxCalculateTaxesPayloadTransformer {
         customerCode,
         companyCode: avataxConfig.companyCode ?? defaultAvataxConfig.companyCode,
         discount: discountsStrategy.getDiscountAmount(payload.taxBase.discounts),
-        // * commit: If true, the transaction will be committed immediately after it is created. See: https://developer.avalara.com/communications/dev-guide_rest_v2/commit-uncommit
-        commit: avataxConfig.isAutocommit,
+        // * commit: SalesOrder documents are not recorded, so there is nothing to commit. See: https://developer.avalara.com/communications/dev-guide_rest_v2/commit-uncommit
+        commit: false,
         addresses: {
           shipFrom: avataxShipFromAddressResolver.resolve({
             avataxShipFromAddress: payload.taxBase.sourceObject.avataxShipFromAddress,
@@ -0,0 +1,11 @@
+import { AvataxClient } from "@/modules/avatax/avatax-client";
+import { type AvataxConfig } from "@/modules/avatax/avatax-connection-schema";
+import { AvataxSdkClientFactory } from "@/modules/avatax/avatax-sdk-client-factory";
+import { AvataxOrderCommitAdapter } from "@/modules/avatax/order-commit/avatax-order-commit-adapter";
+
+export const createAvaTaxOrderCommitAdapterFromAvaTaxConfig = (avataxConfig: AvataxConfig) => {
+  const avaTaxSdk = new AvataxSdkClientFactory().createClient(avataxConfig);
+  const avaTaxClient = new AvataxClient(avaTaxSdk);
+
+  return new AvataxOrderCommitAdapter(avaTaxClient);
+};
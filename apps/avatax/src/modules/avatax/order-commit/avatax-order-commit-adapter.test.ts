@@ -0,0 +1,72 @@
+import { DocumentStatus } from "avatax/lib/enums/DocumentStatus";
+import { DocumentType } from "avatax/lib/enums/DocumentType";
+import { err, ok } from "neverthrow";
+import { describe, expect, it, vi } from "vitest";
+
+import { AvataxConfigMockGenerator } from "@/modules/avatax/avatax-config-mock-generator";
+import { AvataxEntityNotFoundError } from "@/modules/taxes/tax-error";
+
+import { AvataxOrderCommitAdapter } from "./avatax-order-commit-adapter";
+
+const config = new AvataxConfigMockGenerator().generateAvataxConfig();
+
+const createClient = (status: DocumentStatus) => ({
+  getTransaction: vi.fn().mockResolvedValue(
+    ok({
+      code: "avatax-id",
+      status,
+      type: DocumentType.SalesInvoice,
+    }),
+  ),
+  commitTransaction: vi.fn().mockResolvedValue(ok({ code: "avatax-id" })),
+});
+
+describe("AvataxOrderCommitAdapter", () => {
+  it("Commits saved transaction", async () => {
+    const client = createClient(DocumentStatus.Saved);
+    const adapter = new AvataxOrderCommitAdapter(client);
+
+    const result = await adapter.send({ payload: { avataxId: "avatax-id" }, config });
+
+    expect(result).toStrictEqual({ status: "committed", id: "avatax-id" });
+    expect(client.commitTransaction).toHaveBeenCalledWith({
+      companyCode: config.companyCode,
+      transactionCode: "avatax-id",
+      documentType: DocumentType.SalesInvoice,
+      model: { commit: true },
+    });
+  });
+
+  it("Skips transaction that is already committed", async () => {
+    const client = createClient(DocumentStatus.Committed);
+    const adapter = new AvataxOrderCommitAdapter(client);
+
+    const result = await adapter.send({ payload: { avataxId: "avatax-id" }, config });
+
+    expect(result).toStrictEqual({ status: "already-committed", id: "avatax-id" });
+    expect(client.commitTransaction).not.toHaveBeenCalled();
+  });
+
+  it("Skips voided transaction", async () => {
+    const client = createClient(DocumentStatus.Cancelled);
+    const adapter = new AvataxOrderCommitAdapter(client);
+
+    const result = await adapter.send({ payload: { avataxId: "avatax-id" }, config });
+
+    expect(result).toStrictEqual({ status: "voided", id: "avatax-id" });
+    expect(client.commitTransaction).not.toHaveBeenCalled();
+  });
+
+  it("Throws error returned by AvaTax", async () => {
+    const adapter = new AvataxOrderCommitAdapter({
+      getTransaction: vi
+        .fn()
+        .mockResolvedValue(err(new AvataxEntityNotFoundError("Document not found"))),
+      commitTransaction: vi.fn(),
+    });
+
+    await expect(
+      adapter.send({ payload: { avataxId: "avatax-id" }, config }),
+    ).rejects.toBeInstanceOf(AvataxEntityNotFoundError);
+  });
+});
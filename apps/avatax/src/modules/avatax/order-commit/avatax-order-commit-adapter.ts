@@ -0,0 +1,78 @@
+import { DocumentStatus } from "avatax/lib/enums/DocumentStatus";
+import { DocumentType } from "avatax/lib/enums/DocumentType";
+
+import { createLogger } from "../../../logger";
+import { type WebhookAdapter } from "../../taxes/tax-webhook-adapter";
+import { type AvataxClient } from "../avatax-client";
+import { type AvataxConfig, defaultAvataxConfig } from "../avatax-connection-schema";
+
+type AvataxOrderCommitPayload = {
+  avataxId: string;
+};
+
+export type AvataxOrderCommitResponse = {
+  status: "committed" | "already-committed" | "voided";
+  id: string;
+};
+
+export class AvataxOrderCommitAdapter
+  implements WebhookAdapter<AvataxOrderCommitPayload, AvataxOrderCommitResponse>
+{
+  private logger = createLogger("AvataxOrderCommitAdapter");
+
+  constructor(private avataxClient: Pick<AvataxClient, "getTransaction" | "commitTransaction">) {}
+
+  async send({
+    payload,
+    config,
+  }: {
+    payload: AvataxOrderCommitPayload;
+    config: AvataxConfig;
+  }): Promise<AvataxOrderCommitResponse> {
+    const transactionCode = payload.avataxId;
+    const companyCode = config.companyCode ?? defaultAvataxConfig.companyCode;
+
+    const getTransactionResult = await this.avataxClient.getTransaction({
+      companyCode,
+      transactionCode,
+    });
+
+    if (getTransactionResult.isErr()) {
+      throw getTransactionResult.error;
+    }
+
+    const storedTransaction = getTransactionResult.value;
+
+    if (storedTransaction.status === DocumentStatus.Committed) {
+      this.logger.info("AvaTax transaction is already committed, skipping");
+
+      return { status: "already-committed", id: transactionCode };
+    }
+
+    if (storedTransaction.status === DocumentStatus.Cancelled) {
+      this.logger.info("AvaTax transaction is voided, skipping commit");
+
+      return { status: "voided", id: transactionCode };
+    }
+
+    this.logger.info("Calling AvaTax commitTransaction", {
+      transactionCode: transactionCode,
+      companyCode: companyCode,
+    });
+
+    const commitTransactionResult = await this.avataxClient.commitTransaction({
+      companyCode,
+      transactionCode,
+      documentType: storedTransaction.type ?? DocumentType.SalesInvoice,
+      model: { commit: true },
+    });
+
+    if (commitTransactionResult.isErr()) {
+      throw commitTransactionResult.error;
+    }
+
+    this.logger.info("AvaTax commitTransaction successfully responded");
+
+    return { status: "committed", id: transactionCode };
+  }
+}
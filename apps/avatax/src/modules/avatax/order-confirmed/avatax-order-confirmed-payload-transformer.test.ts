@@ -55,4 +55,54 @@ describe("AvataxOrderConfirmedPayloadTransformer", () => {
 
     expect(payload.model.type).toBe(DocumentType.SalesOrder);
   });
+
+  it("commits transaction when commit policy is ON_CONFIRM", async () => {
+    const payload = await transformer.transform({
+      confirmedOrderEvent: saleorOrderConfirmedEventMock,
+      avataxConfig: {
+        ...avataxConfigMock,
+        commitPolicy: "ON_CONFIRM",
+      },
+      matches: [],
+      discountsStrategy,
+    });
+
+    expect(payload.model.commit).toBe(true);
+  });
+  it("commits transaction when commit policy is ON_FULLY_PAID and order is already fully paid", async () => {
+    const graphqlPayload = SaleorOrderConfirmedEventMockFactory.getGraphqlPayload();
+    const avataxConfig = { ...avataxConfigMock, commitPolicy: "ON_FULLY_PAID" as const };
+
+    const paidOrderPayload = await transformer.transform({
+      confirmedOrderEvent: SaleorOrderConfirmedEventMockFactory.create({
+        ...graphqlPayload,
+        order: { ...graphqlPayload.order, chargeStatus: "FULL" },
+      }),
+      avataxConfig,
+      matches: [],
+      discountsStrategy,
+    });
+    const unpaidOrderPayload = await transformer.transform({
+      confirmedOrderEvent: saleorOrderConfirmedEventMock,
+      avataxConfig,
+      matches: [],
+      discountsStrategy,
+    });
+
+    expect(paidOrderPayload.model.commit).toBe(true);
+    expect(unpaidOrderPayload.model.commit).toBe(false);
+  });
+  it("doesn't commit transaction when commit policy is MANUAL", async () => {
+    const payload = await transformer.transform({
+      confirmedOrderEvent: saleorOrderConfirmedEventMock,
+      avataxConfig: {
+        ...avataxConfigMock,
+        commitPolicy: "MANUAL",
+      },
+      matches: [],
+      discountsStrategy,
+    });
+
+    expect(payload.model.commit).toBe(false);
+  });
 });
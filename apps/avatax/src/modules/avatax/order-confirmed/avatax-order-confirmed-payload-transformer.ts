@@ -10,6 +10,7 @@ import { TaxBadPayloadError } from "../../taxes/tax-error";
 import { avataxAddressFactory } from "../address-factory";
 import { type AvataxCalculationDateResolver } from "../avatax-calculation-date-resolver";
 import { type CreateTransactionArgs } from "../avatax-client";
+import { avataxCommitPolicy } from "../avatax-commit-policy-resolver";
 import { type AvataxConfig, defaultAvataxConfig } from "../avatax-connection-schema";
 import { avataxCustomerCode } from "../avatax-customer-code-resolver";
 import { type AvataxDocumentCodeResolver } from "../avatax-document-code-resolver";
@@ -38,6 +39,21 @@ export class AvataxOrderConfirmedPayloadTransformer {
 
     return DocumentType.SalesInvoice;
   }
+  /**
+   * Order can be fully paid before it's confirmed (e.g. created from paid checkout) - then ORDER_FULLY_PAID
+   * is sent before the transaction exists, so transaction must be committed on confirmation
+   */
+  private shouldCommit(config: AvataxConfig, confirmedOrderEvent: SaleorOrderConfirmedEvent) {
+    switch (avataxCommitPolicy.resolve(config)) {
+      case "ON_CONFIRM":
+        return true;
+      case "ON_FULLY_PAID":
+        return confirmedOrderEvent.isFullyPaid();
+      default:
+        return false;
+    }
+  }
+
   private getSaleorAddress(confirmedOrderEvent: SaleorOrderConfirmedEvent) {
     const shippingAddress = confirmedOrderEvent.getOrderShippingAddress();
     const billingAddress = confirmedOrderEvent.getOrderBillingAddress();
@@ -109,8 +125,11 @@ export class AvataxOrderConfirmedPayloadTransformer {
         customerCode,
         companyCode: avataxConfig.companyCode ?? defaultAvataxConfig.companyCode,
         discount: discountsStrategy.getDiscountAmount(confirmedOrderEvent),
-        // * commit: If true, the transaction will be committed immediately after it is created. See: https://developer.avalara.com/communications/dev-guide_rest_v2/commit-uncommit
-        commit: avataxConfig.isAutocommit,
+        /*
+         * * commit: If true, the transaction will be committed immediately after it is created. See: https://developer.avalara.com/communications/dev-guide_rest_v2/commit-uncommit
+         * * Other commit policies commit the transaction later, in ORDER_FULLY_PAID or ORDER_FULFILLED webhooks
+         */
+        commit: this.shouldCommit(avataxConfig, confirmedOrderEvent),
         addresses: {
           shipFrom: avataxAddressFactory.fromChannelAddress(avataxConfig.address),
           shipTo: avataxAddressFactory.fromSaleorAddress(addressPayload.value),
@@ -499,12 +499,13 @@ const MOCKED_TRANSACTION: TransactionModel = {
 };
 
 describe("AvataxOrderConfirmedResponseTransformer", () => {
-  it("returns orded id in response", () => {
+  it("returns orded id and total tax in response", () => {
     const transformer = new AvataxOrderConfirmedResponseTransformer();
     const result = transformer.transform(MOCKED_TRANSACTION);
 
     expect(result).toStrictEqual({
       id: "8fc875ce-a929-4556-9f30-0165b1597d9f",
+      totalTax: 10.2,
     });
   });
   it("throws an error when no transaction id is present", () => {
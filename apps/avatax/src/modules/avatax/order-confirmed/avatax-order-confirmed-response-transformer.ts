@@ -13,6 +13,7 @@ export class AvataxOrderConfirmedResponseTransformer {
           "Could not update the order metadata with AvaTax transaction code because it was not returned from the createTransaction mutation.",
         ),
       ),
+      totalTax: response.totalTax,
     };
   }
 }
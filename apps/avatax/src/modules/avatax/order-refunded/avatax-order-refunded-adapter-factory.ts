@@ -0,0 +1,31 @@
+import { AvataxClient } from "@/modules/avatax/avatax-client";
+import { type AvataxConfig } from "@/modules/avatax/avatax-connection-schema";
+import { AvataxDocumentCodeResolver } from "@/modules/avatax/avatax-document-code-resolver";
+import { AvataxSdkClientFactory } from "@/modules/avatax/avatax-sdk-client-factory";
+import { AvataxOrderConfirmedResponseTransformer } from "@/modules/avatax/order-confirmed/avatax-order-confirmed-response-transformer";
+import { AvataxOrderRefundedAdapter } from "@/modules/avatax/order-refunded/avatax-order-refunded-adapter";
+import { AvataxOrderRefundedPayloadService } from "@/modules/avatax/order-refunded/avatax-order-refunded-payload.service";
+import { AvataxOrderRefundedPayloadTransformer } from "@/modules/avatax/order-refunded/avatax-order-refunded-payload-transformer";
+import { AvataxTransactionToOriginalDocumentTransformer } from "@/modules/avatax/order-refunded/avatax-transaction-to-original-document-transformer";
+import { SaleorRefundToAvataxReturnLinesTransformer } from "@/modules/avatax/order-refunded/saleor-refund-to-avatax-return-lines-transformer";
+
+export const createAvaTaxOrderRefundedAdapterFromAvaTaxConfig = (config: AvataxConfig) => {
+  const avaTaxSdk = new AvataxSdkClientFactory().createClient(config);
+  const avaTaxClient = new AvataxClient(avaTaxSdk);
+  const orderRefundedPayloadTransformer = new AvataxOrderRefundedPayloadTransformer({
+    saleorRefundToAvataxReturnLinesTransformer: new SaleorRefundToAvataxReturnLinesTransformer(),
+    avataxDocumentCodeResolver: new AvataxDocumentCodeResolver(),
+  });
+
+  const avataxOrderRefundedPayloadService = new AvataxOrderRefundedPayloadService(
+    avaTaxClient,
+    new AvataxTransactionToOriginalDocumentTransformer(),
+    orderRefundedPayloadTransformer,
+  );
+
+  return new AvataxOrderRefundedAdapter(
+    avaTaxClient,
+    new AvataxOrderConfirmedResponseTransformer(),
+    avataxOrderRefundedPayloadService,
+  );
+};
@@ -0,0 +1,89 @@
+import { ObservabilityAttributes } from "@saleor/apps-otel/src/observability-attributes";
+
+import { loggerContext } from "@/logger-context";
+
+import { createLogger } from "../../../logger";
+import { type SaleorRefundedOrderEvent } from "../../saleor";
+import { type WebhookAdapter } from "../../taxes/tax-webhook-adapter";
+import { type AvataxClient } from "../avatax-client";
+import { type AvataxConfig } from "../avatax-connection-schema";
+import { extractTransactionRedactedLogProperties } from "../extract-transaction-redacted-log-properties";
+import { type AvataxOrderConfirmedResponseTransformer } from "../order-confirmed/avatax-order-confirmed-response-transformer";
+import { type AvataxOrderRefundedPayloadService } from "./avatax-order-refunded-payload.service";
+
+type AvataxOrderRefundedPayload = {
+  refundedOrderEvent: SaleorRefundedOrderEvent;
+};
+
+type AvataxOrderRefundedResponse = Array<{ refundId: string; id: string }>;
+
+export class AvataxOrderRefundedAdapter
+  implements WebhookAdapter<AvataxOrderRefundedPayload, AvataxOrderRefundedResponse>
+{
+  private logger = createLogger("AvataxOrderRefundedAdapter");
+
+  constructor(
+    private avataxClient: Pick<AvataxClient, "createTransaction">,
+    private avataxOrderConfirmedResponseTransformer: AvataxOrderConfirmedResponseTransformer,
+    private avataxOrderRefundedPayloadService: AvataxOrderRefundedPayloadService,
+  ) {}
+
+  async send({
+    payload,
+    config,
+  }: {
+    payload: AvataxOrderRefundedPayload;
+    config: AvataxConfig;
+  }): Promise<AvataxOrderRefundedResponse> {
+    loggerContext.set(ObservabilityAttributes.ORDER_ID, payload.refundedOrderEvent.getOrderId());
+    loggerContext.set(
+      ObservabilityAttributes.CHANNEL_SLUG,
+      payload.refundedOrderEvent.getChannelSlug(),
+    );
+
+    this.logger.debug(
+      "Transforming the Saleor payload for creating return documents with AvaTax...",
+    );
+
+    const targets = await this.avataxOrderRefundedPayloadService.getPayloads({
+      refundedOrderEvent: payload.refundedOrderEvent,
+      avataxConfig: config,
+    });
+
+    const responses: AvataxOrderRefundedResponse = [];
+
+    /*
+     * Documents are created sequentially - createOrAdjustTransaction is idempotent,
+     * so refunds recorded before a failure are only adjusted when Saleor retries the webhook
+     */
+    for (const { refund, target } of targets) {
+      this.logger.info(
+        "Calling AvaTax createTransaction with transformed payload for order refunded event",
+        {
+          ...extractTransactionRedactedLogProperties(target.model),
+          refundId: refund.id,
+        },
+      );
+
+      const createTransactionResult = await this.avataxClient.createTransaction(target);
+
+      if (createTransactionResult.isErr()) {
+        throw createTransactionResult.error;
+      }
+
+      const transaction = createTransactionResult.value;
+
+      this.logger.info("AvaTax createTransaction successfully responded", {
+        taxCalculationSummary: transaction.summary,
+        refundId: refund.id,
+      });
+
+      responses.push({
+        refundId: refund.id,
+        ...this.avataxOrderConfirmedResponseTransformer.transform(transaction),
+      });
+    }
+
+    return responses;
+  }
+}
@@ -0,0 +1,104 @@
+import { DocumentType } from "avatax/lib/enums/DocumentType";
+import { TaxOverrideType } from "avatax/lib/enums/TaxOverrideType";
+import { describe, expect, it } from "vitest";
+
+import { SaleorRefundedOrderEventMockFactory } from "../../saleor/order-refunded/mocks";
+import { type CreateTransactionArgs } from "../avatax-client";
+import { AvataxDocumentCodeResolver } from "../avatax-document-code-resolver";
+import { AvataxOrderConfirmedMockGenerator } from "../order-confirmed/avatax-order-confirmed-mock-generator";
+import { AvataxOrderRefundedPayloadTransformer } from "./avatax-order-refunded-payload-transformer";
+import { SaleorRefundToAvataxReturnLinesTransformer } from "./saleor-refund-to-avatax-return-lines-transformer";
+
+const avataxConfigMock = new AvataxOrderConfirmedMockGenerator().generateAvataxConfig();
+
+const transformer = new AvataxOrderRefundedPayloadTransformer({
+  saleorRefundToAvataxReturnLinesTransformer: new SaleorRefundToAvataxReturnLinesTransformer(),
+  avataxDocumentCodeResolver: new AvataxDocumentCodeResolver(),
+});
+
+const originalDocument: CreateTransactionArgs = {
+  model: {
+    code: "order-number",
+    type: DocumentType.SalesInvoice,
+    customerCode: "customer-code",
+    companyCode: "DEFAULT",
+    commit: true,
+    currencyCode: "USD",
+    date: new Date("2021-01-01T00:00:00Z"),
+    lines: [
+      {
+        amount: 10,
+        taxIncluded: true,
+        quantity: 1,
+        itemCode: "product-sku",
+      },
+    ],
+  },
+};
+
+const refundedOrderEvent = SaleorRefundedOrderEventMockFactory.create();
+const [refund] = refundedOrderEvent.getProcessedRefunds();
+
+describe("AvataxOrderRefundedPayloadTransformer", () => {
+  it("returns ReturnInvoice referencing the original document when isDocumentRecordingEnabled is true", () => {
+    const payload = transformer.transform({
+      originalDocument,
+      refundedOrderEvent,
+      refund,
+      avataxConfig: avataxConfigMock,
+    });
+
+    expect(payload.model).toStrictEqual(
+      expect.objectContaining({
+        code: "order-number-R1",
+        type: DocumentType.ReturnInvoice,
+        customerCode: "customer-code",
+        commit: true,
+        date: new Date("2021-01-02T00:00:00Z"),
+        referenceCode: "avatax-id",
+        taxOverride: {
+          type: TaxOverrideType.TaxDate,
+          taxDate: new Date("2021-01-01T00:00:00Z"),
+          reason: "Refund",
+        },
+        lines: [
+          expect.objectContaining({
+            amount: -10,
+            itemCode: "product-sku",
+          }),
+        ],
+      }),
+    );
+  });
+
+  it("returns ReturnOrder when isDocumentRecordingEnabled is false", () => {
+    const payload = transformer.transform({
+      originalDocument,
+      refundedOrderEvent,
+      refund,
+      avataxConfig: {
+        ...avataxConfigMock,
+        isDocumentRecordingEnabled: false,
+      },
+    });
+
+    expect(payload.model.type).toBe(DocumentType.ReturnOrder);
+    expect(payload.model.commit).toBe(false);
+  });
+
+  it("returns uncommitted ReturnInvoice when the original document is not committed", () => {
+    const payload = transformer.transform({
+      originalDocument: {
+        model: {
+          ...originalDocument.model,
+          commit: false,
+        },
+      },
+      refundedOrderEvent,
+      refund,
+      avataxConfig: avataxConfigMock,
+    });
+
+    expect(payload.model.commit).toBe(false);
+  });
+});
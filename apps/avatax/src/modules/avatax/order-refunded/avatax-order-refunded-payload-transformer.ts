@@ -0,0 +1,72 @@
+import { DocumentType } from "avatax/lib/enums/DocumentType";
+import { TaxOverrideType } from "avatax/lib/enums/TaxOverrideType";
+
+import { type SaleorOrderRefund, type SaleorRefundedOrderEvent } from "../../saleor";
+import { type CreateTransactionArgs } from "../avatax-client";
+import { type AvataxConfig } from "../avatax-connection-schema";
+import { type AvataxDocumentCodeResolver } from "../avatax-document-code-resolver";
+import { type SaleorRefundToAvataxReturnLinesTransformer } from "./saleor-refund-to-avatax-return-lines-transformer";
+
+export class AvataxOrderRefundedPayloadTransformer {
+  constructor(
+    private deps: {
+      saleorRefundToAvataxReturnLinesTransformer: SaleorRefundToAvataxReturnLinesTransformer;
+      avataxDocumentCodeResolver: AvataxDocumentCodeResolver;
+    },
+  ) {}
+
+  private matchDocumentType(config: AvataxConfig): DocumentType {
+    if (!config.isDocumentRecordingEnabled) {
+      // Same as for SalesOrder - ReturnOrder is not recorded in AvaTax
+      return DocumentType.ReturnOrder;
+    }
+
+    return DocumentType.ReturnInvoice;
+  }
+
+  /**
+   * Return document copies customer, addresses and tax codes from the original document,
+   * so AvaTax calculates the same taxes that were reported when order was confirmed.
+   * Return is committed only when the original document is, so uncommitted sale is never offset by committed return.
+   */
+  transform({
+    originalDocument,
+    refundedOrderEvent,
+    refund,
+    avataxConfig,
+  }: {
+    originalDocument: CreateTransactionArgs;
+    refundedOrderEvent: SaleorRefundedOrderEvent;
+    refund: SaleorOrderRefund;
+    avataxConfig: AvataxConfig;
+  }): CreateTransactionArgs {
+    const code = this.deps.avataxDocumentCodeResolver.resolveReturn({
+      avataxDocumentCode: originalDocument.model.code,
+      orderNumber: refundedOrderEvent.getOrderEvent().getOrderNumber(),
+      returnNumber: refund.returnNumber,
+    });
+
+    return {
+      model: {
+        ...originalDocument.model,
+        code,
+        type: this.matchDocumentType(avataxConfig),
+        commit: avataxConfig.isDocumentRecordingEnabled && originalDocument.model.commit === true,
+        date: new Date(refund.createdAt),
+        referenceCode: refundedOrderEvent.getAvataxId(),
+        // Line amounts already contain discounts, same as in the original document
+        discount: undefined,
+        // * Tax must be calculated with rates from the time of the original sale. See: https://developer.avalara.com/erp-integration-guide/refunds-credit-memos/
+        taxOverride: {
+          type: TaxOverrideType.TaxDate,
+          taxDate: originalDocument.model.date,
+          reason: "Refund",
+        },
+        lines: this.deps.saleorRefundToAvataxReturnLinesTransformer.transform({
+          orderLines: originalDocument.model.lines,
+          refund,
+        }),
+      },
+    };
+  }
+}
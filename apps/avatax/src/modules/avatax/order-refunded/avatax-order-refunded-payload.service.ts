@@ -0,0 +1,56 @@
+import { type SaleorOrderRefund, type SaleorRefundedOrderEvent } from "../../saleor";
+import { type AvataxClient, type CreateTransactionArgs } from "../avatax-client";
+import { type AvataxConfig, defaultAvataxConfig } from "../avatax-connection-schema";
+import { type AvataxOrderRefundedPayloadTransformer } from "./avatax-order-refunded-payload-transformer";
+import { type AvataxTransactionToOriginalDocumentTransformer } from "./avatax-transaction-to-original-document-transformer";
+
+export class AvataxOrderRefundedPayloadService {
+  constructor(
+    private avataxClient: Pick<AvataxClient, "getTransaction">,
+    private avataxTransactionToOriginalDocumentTransformer: AvataxTransactionToOriginalDocumentTransformer,
+    private avataxOrderRefundedPayloadTransformer: AvataxOrderRefundedPayloadTransformer,
+  ) {}
+
+  async getPayloads({
+    refundedOrderEvent,
+    avataxConfig,
+  }: {
+    refundedOrderEvent: SaleorRefundedOrderEvent;
+    avataxConfig: AvataxConfig;
+  }): Promise<Array<{ refund: SaleorOrderRefund; target: CreateTransactionArgs }>> {
+    const companyCode = avataxConfig.companyCode ?? defaultAvataxConfig.companyCode;
+
+    // Original document is loaded once and shared by all returns
+    const getTransactionResult = await this.avataxClient.getTransaction({
+      companyCode,
+      transactionCode: refundedOrderEvent.getAvataxId(),
+    });
+
+    if (getTransactionResult.isErr()) {
+      throw getTransactionResult.error;
+    }
+
+    const originalDocument = this.avataxTransactionToOriginalDocumentTransformer.transform({
+      transaction: getTransactionResult.value,
+      companyCode,
+    });
+
+    const recordedReturnCodes = refundedOrderEvent.getRecordedReturnCodes();
+
+    return (
+      refundedOrderEvent
+        .getProcessedRefunds()
+        .map((refund) => ({
+          refund,
+          target: this.avataxOrderRefundedPayloadTransformer.transform({
+            originalDocument,
+            refundedOrderEvent,
+            refund,
+            avataxConfig,
+          }),
+        }))
+        // Each ORDER_REFUNDED event contains all refunds of the order - only new ones are sent to AvaTax
+        .filter(({ target }) => !recordedReturnCodes.includes(target.model.code ?? ""))
+    );
+  }
+}
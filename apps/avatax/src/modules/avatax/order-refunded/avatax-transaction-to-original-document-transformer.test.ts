@@ -0,0 +1,88 @@
+import { DocumentStatus } from "avatax/lib/enums/DocumentStatus";
+import { DocumentType } from "avatax/lib/enums/DocumentType";
+import { type TransactionModel } from "avatax/lib/models/TransactionModel";
+import { describe, expect, it } from "vitest";
+
+import { AvataxTransactionToOriginalDocumentTransformer } from "./avatax-transaction-to-original-document-transformer";
+
+const transformer = new AvataxTransactionToOriginalDocumentTransformer();
+
+const storedTransaction: TransactionModel = {
+  code: "order-number",
+  type: DocumentType.SalesInvoice,
+  status: DocumentStatus.Committed,
+  date: new Date("2021-01-01T00:00:00Z"),
+  customerCode: "customer-code",
+  currencyCode: "USD",
+  addresses: [
+    { id: 1, line1: "600 Montgomery St", city: "San Francisco", region: "CA", country: "US" },
+    { id: 2, line1: "1 Main St", city: "New York", region: "NY", country: "US" },
+  ],
+  lines: [
+    {
+      lineNumber: "2",
+      lineAmount: 18.18,
+      tax: 1.82,
+      taxIncluded: true,
+      quantity: 1,
+      itemCode: "sku-2",
+      taxCode: "P0000000",
+      originAddressId: 1,
+      destinationAddressId: 2,
+    },
+    {
+      lineNumber: "1",
+      lineAmount: 10,
+      tax: 1,
+      taxIncluded: false,
+      quantity: 2,
+      itemCode: "sku-1",
+      taxCode: "P0000000",
+      originAddressId: 1,
+      destinationAddressId: 2,
+    },
+  ],
+};
+
+describe("AvataxTransactionToOriginalDocumentTransformer", () => {
+  it("returns document with lines ordered as they were reported", () => {
+    const { model } = transformer.transform({
+      transaction: storedTransaction,
+      companyCode: "DEFAULT",
+    });
+
+    expect(model.lines.map((line) => line.itemCode)).toStrictEqual(["sku-1", "sku-2"]);
+  });
+
+  it("restores amount with tax for lines with tax included", () => {
+    const { model } = transformer.transform({
+      transaction: storedTransaction,
+      companyCode: "DEFAULT",
+    });
+
+    expect(model.lines.map((line) => line.amount)).toStrictEqual([10, 20]);
+  });
+
+  it("maps stored addresses to ship from and ship to", () => {
+    const { model } = transformer.transform({
+      transaction: storedTransaction,
+      companyCode: "DEFAULT",
+    });
+
+    expect(model.addresses?.shipFrom?.city).toBe("San Francisco");
+    expect(model.addresses?.shipTo?.city).toBe("New York");
+  });
+
+  it("returns commit status of the stored transaction", () => {
+    expect(
+      transformer.transform({ transaction: storedTransaction, companyCode: "DEFAULT" }).model
+        .commit,
+    ).toBe(true);
+    expect(
+      transformer.transform({
+        transaction: { ...storedTransaction, status: DocumentStatus.Saved },
+        companyCode: "DEFAULT",
+      }).model.commit,
+    ).toBe(false);
+  });
+});
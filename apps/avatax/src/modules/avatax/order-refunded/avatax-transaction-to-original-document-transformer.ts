@@ -0,0 +1,77 @@
+import { DocumentStatus } from "avatax/lib/enums/DocumentStatus";
+import { DocumentType } from "avatax/lib/enums/DocumentType";
+import { type AddressLocationInfo } from "avatax/lib/models/AddressLocationInfo";
+import { type LineItemModel } from "avatax/lib/models/LineItemModel";
+import { type TransactionAddressModel } from "avatax/lib/models/TransactionAddressModel";
+import { type TransactionModel } from "avatax/lib/models/TransactionModel";
+
+import { type CreateTransactionArgs } from "../avatax-client";
+
+/**
+ * Recreates the document that was reported to AvaTax from the stored transaction.
+ * Returns must mirror what was recorded, even if the Saleor order was edited afterwards.
+ */
+export class AvataxTransactionToOriginalDocumentTransformer {
+  private toAddress(address: TransactionAddressModel | undefined): AddressLocationInfo | undefined {
+    if (!address) {
+      return undefined;
+    }
+
+    return {
+      line1: address.line1,
+      line2: address.line2,
+      line3: address.line3,
+      city: address.city,
+      region: address.region,
+      postalCode: address.postalCode,
+      country: address.country,
+    };
+  }
+
+  private toLine(line: NonNullable<TransactionModel["lines"]>[number]): LineItemModel {
+    return {
+      // AvaTax returns amount without tax for lines with tax included
+      amount: line.taxIncluded ? (line.lineAmount ?? 0) + (line.tax ?? 0) : line.lineAmount ?? 0,
+      taxIncluded: line.taxIncluded,
+      taxCode: line.taxCode,
+      quantity: line.quantity,
+      itemCode: line.itemCode,
+      description: line.description,
+    };
+  }
+
+  transform({
+    transaction,
+    companyCode,
+  }: {
+    transaction: TransactionModel;
+    // Stored transaction references company only by id
+    companyCode: string;
+  }): CreateTransactionArgs {
+    const lines = [...(transaction.lines ?? [])].sort(
+      (a, b) => Number(a.lineNumber) - Number(b.lineNumber),
+    );
+    const addresses = transaction.addresses ?? [];
+    const findAddress = (id: number | undefined) =>
+      addresses.find((address) => address.id === id) ?? addresses[0];
+
+    return {
+      model: {
+        code: transaction.code,
+        type: transaction.type ?? DocumentType.SalesInvoice,
+        date: transaction.date ?? new Date(),
+        companyCode,
+        customerCode: transaction.customerCode ?? "",
+        currencyCode: transaction.currencyCode,
+        entityUseCode: transaction.entityUseCode,
+        exemptionNo: transaction.exemptNo,
+        commit: transaction.status === DocumentStatus.Committed,
+        addresses: {
+          shipFrom: this.toAddress(findAddress(lines[0]?.originAddressId)),
+          shipTo: this.toAddress(findAddress(lines[0]?.destinationAddressId)),
+        },
+        lines: lines.map((line) => this.toLine(line)),
+      },
+    };
+  }
+}
@@ -0,0 +1,116 @@
+import { type LineItemModel } from "avatax/lib/models/LineItemModel";
+import { describe, expect, it } from "vitest";
+
+import { type SaleorOrderRefund } from "../../saleor";
+import { SHIPPING_ITEM_CODE } from "../calculate-taxes/avatax-shipping-line";
+import { SaleorRefundToAvataxReturnLinesTransformer } from "./saleor-refund-to-avatax-return-lines-transformer";
+
+const transformer = new SaleorRefundToAvataxReturnLinesTransformer();
+
+const orderLines: LineItemModel[] = [
+  {
+    amount: 30,
+    taxIncluded: true,
+    taxCode: "P0000000",
+    quantity: 3,
+    itemCode: "sku-1",
+    description: "Product 1",
+  },
+  {
+    amount: 70,
+    taxIncluded: true,
+    taxCode: "P0000001",
+    quantity: 1,
+    itemCode: "sku-2",
+    description: "Product 2",
+  },
+  {
+    amount: 15,
+    taxIncluded: true,
+    taxCode: "FR000000",
+    quantity: 1,
+    itemCode: SHIPPING_ITEM_CODE,
+  },
+];
+
+const refund: SaleorOrderRefund = {
+  id: "refund-id",
+  returnNumber: 1,
+  createdAt: "2021-01-02T00:00:00Z",
+  amount: 0,
+  shippingCostsIncluded: false,
+  lines: [],
+};
+
+describe("SaleorRefundToAvataxReturnLinesTransformer", () => {
+  it("returns negative lines for returned quantities of specific lines", () => {
+    const lines = transformer.transform({
+      orderLines,
+      refund: { ...refund, amount: 20, lines: [{ orderLineIndex: 0, quantity: 2 }] },
+    });
+
+    expect(lines).toStrictEqual([
+      {
+        amount: -20,
+        taxIncluded: true,
+        taxCode: "P0000000",
+        quantity: 2,
+        itemCode: "sku-1",
+        description: "Product 1",
+      },
+    ]);
+  });
+
+  it("adds negative shipping line when returned lines include shipping costs", () => {
+    const lines = transformer.transform({
+      orderLines,
+      refund: {
+        ...refund,
+        amount: 85,
+        shippingCostsIncluded: true,
+        lines: [{ orderLineIndex: 1, quantity: 1 }],
+      },
+    });
+
+    expect(lines.map((line) => [line.itemCode, line.amount])).toStrictEqual([
+      ["sku-2", -70],
+      [SHIPPING_ITEM_CODE, -15],
+    ]);
+  });
+
+  it("returns only shipping line for shipping-only refund", () => {
+    const lines = transformer.transform({
+      orderLines,
+      refund: { ...refund, amount: 15, shippingCostsIncluded: true },
+    });
+
+    expect(lines.map((line) => [line.itemCode, line.amount])).toStrictEqual([
+      [SHIPPING_ITEM_CODE, -15],
+    ]);
+  });
+
+  it("splits partial refund amount between product lines proportionally", () => {
+    const lines = transformer.transform({
+      orderLines,
+      refund: { ...refund, amount: 10 },
+    });
+
+    expect(lines.map((line) => [line.itemCode, line.amount, line.quantity])).toStrictEqual([
+      ["sku-1", -3, 3],
+      ["sku-2", -7, 1],
+    ]);
+  });
+
+  it("splits partial refund remaining after shipping and keeps sum equal to refunded amount", () => {
+    const lines = transformer.transform({
+      orderLines,
+      refund: { ...refund, amount: 25.01, shippingCostsIncluded: true },
+    });
+
+    expect(lines.map((line) => [line.itemCode, line.amount])).toStrictEqual([
+      [SHIPPING_ITEM_CODE, -15],
+      ["sku-1", -3],
+      ["sku-2", -7.01],
+    ]);
+  });
+});
@@ -0,0 +1,96 @@
+import { type LineItemModel } from "avatax/lib/models/LineItemModel";
+
+import { type SaleorOrderRefund } from "../../saleor";
+import { SHIPPING_ITEM_CODE } from "../calculate-taxes/avatax-shipping-line";
+
+/**
+ * Maps Saleor granted refund onto lines of the original AvaTax document.
+ * Return documents in AvaTax use negative amounts, quantities stay positive.
+ *
+ * Docs: https://developer.avalara.com/erp-integration-guide/refunds-credit-memos/
+ */
+export class SaleorRefundToAvataxReturnLinesTransformer {
+  private roundAmount(amount: number) {
+    return Math.round(amount * 100) / 100;
+  }
+
+  private toReturnLine(line: LineItemModel, amount: number, quantity: number): LineItemModel {
+    return {
+      amount: -this.roundAmount(amount),
+      taxIncluded: line.taxIncluded,
+      taxCode: line.taxCode,
+      quantity,
+      itemCode: line.itemCode,
+      description: line.description,
+    };
+  }
+
+  /**
+   * Refund without lines is a manually entered amount - it's split between order lines proportionally to their amounts.
+   * The last line takes the rounding difference, so the sum always equals refunded amount.
+   */
+  private distributeAmount(productLines: LineItemModel[], amount: number): LineItemModel[] {
+    const productLinesTotal = productLines.reduce((total, line) => total + line.amount, 0);
+
+    if (amount <= 0 || productLinesTotal === 0) {
+      return [];
+    }
+
+    let distributedAmount = 0;
+
+    return productLines.map((line, index) => {
+      const isLastLine = index === productLines.length - 1;
+      const lineAmount = isLastLine
+        ? amount - distributedAmount
+        : this.roundAmount((amount * line.amount) / productLinesTotal);
+
+      distributedAmount += lineAmount;
+
+      return this.toReturnLine(line, lineAmount, line.quantity ?? 1);
+    });
+  }
+
+  transform({
+    orderLines,
+    refund,
+  }: {
+    /**
+     * Lines of the original document, created by SaleorOrderToAvataxLinesTransformer
+     */
+    orderLines: LineItemModel[];
+    refund: SaleorOrderRefund;
+  }): LineItemModel[] {
+    const productLines = orderLines.filter((line) => line.itemCode !== SHIPPING_ITEM_CODE);
+    const shippingLine = orderLines.find((line) => line.itemCode === SHIPPING_ITEM_CODE);
+
+    if (refund.lines.length > 0) {
+      const returnedProductLines = refund.lines.map((refundLine) => {
+        const orderLine = productLines[refundLine.orderLineIndex];
+        const orderLineQuantity = orderLine.quantity ?? 1;
+
+        return this.toReturnLine(
+          orderLine,
+          (orderLine.amount * refundLine.quantity) / orderLineQuantity,
+          refundLine.quantity,
+        );
+      });
+
+      if (refund.shippingCostsIncluded && shippingLine) {
+        return [...returnedProductLines, this.toReturnLine(shippingLine, shippingLine.amount, 1)];
+      }
+
+      return returnedProductLines;
+    }
+
+    if (refund.shippingCostsIncluded && shippingLine) {
+      const shippingAmount = Math.min(shippingLine.amount, refund.amount);
+
+      return [
+        this.toReturnLine(shippingLine, shippingAmount, 1),
+        ...this.distributeAmount(productLines, this.roundAmount(refund.amount - shippingAmount)),
+      ];
+    }
+
+    return this.distributeAmount(productLines, refund.amount);
+  }
+}
@@ -0,0 +1,29 @@
+import { AvataxCalculationDateResolver } from "@/modules/avatax/avatax-calculation-date-resolver";
+import { AvataxClient } from "@/modules/avatax/avatax-client";
+import { type AvataxConfig } from "@/modules/avatax/avatax-connection-schema";
+import { AvataxDocumentCodeResolver } from "@/modules/avatax/avatax-document-code-resolver";
+import { AvataxEntityTypeMatcher } from "@/modules/avatax/avatax-entity-type-matcher";
+import { AvataxSdkClientFactory } from "@/modules/avatax/avatax-sdk-client-factory";
+import { AvataxOrderConfirmedPayloadService } from "@/modules/avatax/order-confirmed/avatax-order-confirmed-payload.service";
+import { AvataxOrderConfirmedPayloadTransformer } from "@/modules/avatax/order-confirmed/avatax-order-confirmed-payload-transformer";
+import { SaleorOrderToAvataxLinesTransformer } from "@/modules/avatax/order-confirmed/saleor-order-to-avatax-lines-transformer";
+import { AvataxOrderUpdatedAdapter } from "@/modules/avatax/order-updated/avatax-order-updated-adapter";
+import { AvataxOrderUpdatedAdjustmentResolver } from "@/modules/avatax/order-updated/avatax-order-updated-adjustment-resolver";
+
+export const createAvaTaxOrderUpdatedAdapterFromAvaTaxConfig = (config: AvataxConfig) => {
+  const avaTaxSdk = new AvataxSdkClientFactory().createClient(config);
+  const avaTaxClient = new AvataxClient(avaTaxSdk);
+
+  const orderConfirmedPayloadTransformer = new AvataxOrderConfirmedPayloadTransformer({
+    saleorOrderToAvataxLinesTransformer: new SaleorOrderToAvataxLinesTransformer(),
+    avataxEntityTypeMatcher: new AvataxEntityTypeMatcher(avaTaxClient),
+    avataxCalculationDateResolver: new AvataxCalculationDateResolver(),
+    avataxDocumentCodeResolver: new AvataxDocumentCodeResolver(),
+  });
+
+  return new AvataxOrderUpdatedAdapter(
+    avaTaxClient,
+    new AvataxOrderConfirmedPayloadService(orderConfirmedPayloadTransformer),
+    new AvataxOrderUpdatedAdjustmentResolver(),
+  );
+};
@@ -0,0 +1,154 @@
+import { type AuthData } from "@saleor/app-sdk/APL";
+import { ObservabilityAttributes } from "@saleor/apps-otel/src/observability-attributes";
+import { type AdjustmentReason } from "avatax/lib/enums/AdjustmentReason";
+import { DocumentStatus } from "avatax/lib/enums/DocumentStatus";
+
+import { loggerContext } from "@/logger-context";
+
+import { createLogger } from "../../../logger";
+import { type SaleorUpdatedOrderEvent } from "../../saleor";
+import { type WebhookAdapter } from "../../taxes/tax-webhook-adapter";
+import { type AvataxClient } from "../avatax-client";
+import { type AvataxConfig } from "../avatax-connection-schema";
+import { type PriceReductionDiscountsStrategy } from "../discounts";
+import { extractTransactionRedactedLogProperties } from "../extract-transaction-redacted-log-properties";
+import { type AvataxOrderConfirmedPayloadService } from "../order-confirmed/avatax-order-confirmed-payload.service";
+import {
+  type AvataxOrderUpdatedAdjustmentResolver,
+  type AvataxOrderUpdatedChange,
+} from "./avatax-order-updated-adjustment-resolver";
+
+type AvataxOrderUpdatedPayload = {
+  updatedOrderEvent: SaleorUpdatedOrderEvent;
+};
+
+export type AvataxOrderUpdatedResponse =
+  | {
+      status: "adjusted";
+      id: string;
+      adjustmentReason: AdjustmentReason;
+      changes: AvataxOrderUpdatedChange[];
+      totalTaxBefore: number;
+      totalTaxAfter: number;
+    }
+  | {
+      status: "unchanged";
+      id: string;
+    }
+  | {
+      status: "voided";
+      id: string;
+    };
+
+export class AvataxOrderUpdatedAdapter
+  implements WebhookAdapter<AvataxOrderUpdatedPayload, AvataxOrderUpdatedResponse>
+{
+  private logger = createLogger("AvataxOrderUpdatedAdapter");
+
+  constructor(
+    private avataxClient: Pick<AvataxClient, "getTransaction" | "adjustTransaction">,
+    private avataxOrderConfirmedPayloadService: AvataxOrderConfirmedPayloadService,
+    private avataxOrderUpdatedAdjustmentResolver: AvataxOrderUpdatedAdjustmentResolver,
+  ) {}
+
+  async send({
+    payload,
+    config,
+    authData,
+    discountsStrategy,
+  }: {
+    payload: AvataxOrderUpdatedPayload;
+    config: AvataxConfig;
+    authData: AuthData;
+    discountsStrategy: PriceReductionDiscountsStrategy;
+  }): Promise<AvataxOrderUpdatedResponse> {
+    const { updatedOrderEvent } = payload;
+    const transactionCode = updatedOrderEvent.getAvataxId();
+
+    loggerContext.set(ObservabilityAttributes.ORDER_ID, updatedOrderEvent.getOrderId());
+    loggerContext.set(ObservabilityAttributes.CHANNEL_SLUG, updatedOrderEvent.getChannelSlug());
+
+    this.logger.debug("Transforming the Saleor payload for adjusting transaction with AvaTax...");
+
+    const target = await this.avataxOrderConfirmedPayloadService.getPayload({
+      confirmedOrderEvent: updatedOrderEvent.getOrderEvent(),
+      avataxConfig: config,
+      authData,
+      discountsStrategy,
+    });
+
+    const companyCode = target.model.companyCode ?? "";
+
+    const getTransactionResult = await this.avataxClient.getTransaction({
+      companyCode,
+      transactionCode,
+    });
+
+    if (getTransactionResult.isErr()) {
+      throw getTransactionResult.error;
+    }
+
+    const storedTransaction = getTransactionResult.value;
+
+    if (storedTransaction.status === DocumentStatus.Cancelled) {
+      this.logger.info("AvaTax transaction is voided, skipping adjustment");
+
+      return { status: "voided", id: transactionCode };
+    }
+
+    const adjustment = this.avataxOrderUpdatedAdjustmentResolver.resolve({
+      storedTransaction,
+      model: target.model,
+    });
+
+    if (!adjustment) {
+      this.logger.info("Order has no changes relevant for AvaTax transaction, skipping adjustment");
+
+      return { status: "unchanged", id: transactionCode };
+    }
+
+    const model = {
+      ...target.model,
+      // Adjusted document must keep its code, type and commit status
+      code: transactionCode,
+      type: storedTransaction.type ?? target.model.type,
+      commit: storedTransaction.status === DocumentStatus.Committed,
+    };
+
+    this.logger.info(
+      "Calling AvaTax adjustTransaction with transformed payload for order updated event",
+      {
+        ...extractTransactionRedactedLogProperties(model),
+        adjustmentReason: adjustment.adjustmentReason,
+        changes: adjustment.changes.join(", "),
+      },
+    );
+
+    const adjustTransactionResult = await this.avataxClient.adjustTransaction({
+      companyCode,
+      transactionCode,
+      adjustmentReason: adjustment.adjustmentReason,
+      adjustmentDescription: adjustment.adjustmentDescription,
+      model,
+    });
+
+    if (adjustTransactionResult.isErr()) {
+      throw adjustTransactionResult.error;
+    }
+
+    const adjustedTransaction = adjustTransactionResult.value;
+
+    this.logger.info("AvaTax adjustTransaction successfully responded", {
+      taxCalculationSummary: adjustedTransaction.summary,
+    });
+
+    return {
+      status: "adjusted",
+      id: adjustedTransaction.code ?? transactionCode,
+      adjustmentReason: adjustment.adjustmentReason,
+      changes: adjustment.changes,
+      totalTaxBefore: storedTransaction.totalTax ?? 0,
+      totalTaxAfter: adjustedTransaction.totalTax ?? 0,
+    };
+  }
+}
@@ -0,0 +1,181 @@
+import { AdjustmentReason } from "avatax/lib/enums/AdjustmentReason";
+import { DocumentType } from "avatax/lib/enums/DocumentType";
+import { type CreateTransactionModel } from "avatax/lib/models/CreateTransactionModel";
+import { type TransactionModel } from "avatax/lib/models/TransactionModel";
+import { describe, expect, it } from "vitest";
+
+import { AvataxOrderUpdatedAdjustmentResolver } from "./avatax-order-updated-adjustment-resolver";
+
+const resolver = new AvataxOrderUpdatedAdjustmentResolver();
+
+const model: CreateTransactionModel = {
+  code: "transaction-code",
+  type: DocumentType.SalesInvoice,
+  customerCode: "customer-code",
+  date: new Date("2024-01-01"),
+  discount: 0,
+  addresses: {
+    shipFrom: {
+      line1: "Main street",
+      city: "New York",
+      region: "NY",
+      postalCode: "10001",
+      country: "US",
+    },
+    shipTo: {
+      line1: "Second street",
+      city: "Austin",
+      region: "TX",
+      postalCode: "73301",
+      country: "US",
+    },
+  },
+  lines: [
+    {
+      amount: 20,
+      quantity: 2,
+      itemCode: "SKU-1",
+      taxCode: "P0000000",
+      taxIncluded: false,
+    },
+    {
+      amount: 10,
+      quantity: 1,
+      itemCode: "Shipping",
+      taxCode: "FR000000",
+      taxIncluded: false,
+    },
+  ],
+};
+
+const storedTransaction: TransactionModel = {
+  code: "transaction-code",
+  totalTax: 2.4,
+  totalDiscount: 0,
+  addresses: [
+    {
+      city: "New York",
+      region: "NY",
+      postalCode: "10001",
+      country: "US",
+    },
+    {
+      city: "AUSTIN",
+      region: "TX",
+      postalCode: "73301-0001",
+      country: "US",
+    },
+  ],
+  lines: [
+    {
+      lineNumber: "2",
+      lineAmount: 10,
+      tax: 0.8,
+      quantity: 1,
+      itemCode: "Shipping",
+      taxCode: "FR000000",
+      taxIncluded: false,
+    },
+    {
+      lineNumber: "1",
+      lineAmount: 20,
+      tax: 1.6,
+      quantity: 2,
+      itemCode: "SKU-1",
+      taxCode: "P0000000",
+      taxIncluded: false,
+    },
+  ],
+};
+
+describe("AvataxOrderUpdatedAdjustmentResolver", () => {
+  it("returns null when order matches stored transaction", () => {
+    expect(resolver.resolve({ storedTransaction, model })).toBeNull();
+  });
+
+  it("compares amounts including tax for lines with tax included", () => {
+    expect(
+      resolver.resolve({
+        storedTransaction: {
+          ...storedTransaction,
+          lines: storedTransaction.lines?.map((line) => ({
+            ...line,
+            taxIncluded: true,
+            lineAmount: (line.lineAmount ?? 0) - (line.tax ?? 0),
+          })),
+        },
+        model: {
+          ...model,
+          lines: model.lines.map((line) => ({ ...line, taxIncluded: true })),
+        },
+      }),
+    ).toBeNull();
+  });
+
+  it("returns PriceAdjusted reason when line quantity changed", () => {
+    const result = resolver.resolve({
+      storedTransaction,
+      model: {
+        ...model,
+        lines: [{ ...model.lines[0], quantity: 3, amount: 30 }, model.lines[1]],
+      },
+    });
+
+    expect(result).toStrictEqual({
+      changes: ["lines"],
+      adjustmentReason: AdjustmentReason.PriceAdjusted,
+      adjustmentDescription: "Order edited in Saleor: lines changed",
+    });
+  });
+
+  it("returns PriceAdjusted reason when line was removed", () => {
+    const result = resolver.resolve({
+      storedTransaction,
+      model: {
+        ...model,
+        lines: [model.lines[0]],
+      },
+    });
+
+    expect(result?.changes).toStrictEqual(["lines"]);
+    expect(result?.adjustmentReason).toBe(AdjustmentReason.PriceAdjusted);
+  });
+
+  it("returns PriceAdjusted reason when discount changed", () => {
+    const result = resolver.resolve({
+      storedTransaction,
+      model: {
+        ...model,
+        discount: 5,
+      },
+    });
+
+    expect(result?.changes).toStrictEqual(["discount"]);
+    expect(result?.adjustmentReason).toBe(AdjustmentReason.PriceAdjusted);
+  });
+
+  it("returns SourcingIssue reason when only shipping address changed", () => {
+    const result = resolver.resolve({
+      storedTransaction,
+      model: {
+        ...model,
+        addresses: {
+          ...model.addresses,
+          shipTo: {
+            line1: "Third street",
+            city: "Dallas",
+            region: "TX",
+            postalCode: "75001",
+            country: "US",
+          },
+        },
+      },
+    });
+
+    expect(result).toStrictEqual({
+      changes: ["shipping address"],
+      adjustmentReason: AdjustmentReason.SourcingIssue,
+      adjustmentDescription: "Order edited in Saleor: shipping address changed",
+    });
+  });
+});
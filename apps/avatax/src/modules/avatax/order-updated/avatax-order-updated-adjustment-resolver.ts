@@ -0,0 +1,129 @@
+import { AdjustmentReason } from "avatax/lib/enums/AdjustmentReason";
+import { type AddressLocationInfo } from "avatax/lib/models/AddressLocationInfo";
+import { type CreateTransactionModel } from "avatax/lib/models/CreateTransactionModel";
+import { type TransactionAddressModel } from "avatax/lib/models/TransactionAddressModel";
+import { type TransactionModel } from "avatax/lib/models/TransactionModel";
+
+export type AvataxOrderUpdatedChange = "lines" | "discount" | "shipping address";
+
+export type AvataxOrderUpdatedAdjustment = {
+  changes: AvataxOrderUpdatedChange[];
+  adjustmentReason: AdjustmentReason;
+  adjustmentDescription: string;
+};
+
+/**
+ * Compares the document stored in AvaTax with the one built from the current Saleor order.
+ * Returns null when nothing relevant for tax calculation has changed, so no adjustment is needed.
+ */
+export class AvataxOrderUpdatedAdjustmentResolver {
+  private roundAmount(amount: number) {
+    return Math.round(amount * 100) / 100;
+  }
+
+  private normalizeText(value: string | null | undefined) {
+    return (value ?? "").trim().toUpperCase();
+  }
+
+  private areLinesChanged(storedTransaction: TransactionModel, model: CreateTransactionModel) {
+    const storedLines = [...(storedTransaction.lines ?? [])].sort(
+      (a, b) => Number(a.lineNumber) - Number(b.lineNumber),
+    );
+
+    if (storedLines.length !== model.lines.length) {
+      return true;
+    }
+
+    return model.lines.some((line, index) => {
+      const storedLine = storedLines[index];
+      // AvaTax returns amount without tax for lines with tax included
+      const storedAmount = storedLine.taxIncluded
+        ? (storedLine.lineAmount ?? 0) + (storedLine.tax ?? 0)
+        : storedLine.lineAmount ?? 0;
+
+      return (
+        this.normalizeText(line.itemCode) !== this.normalizeText(storedLine.itemCode) ||
+        // Tax code is resolved by AvaTax when not sent
+        (!!line.taxCode &&
+          this.normalizeText(line.taxCode) !== this.normalizeText(storedLine.taxCode)) ||
+        line.quantity !== storedLine.quantity ||
+        this.roundAmount(line.amount) !== this.roundAmount(storedAmount)
+      );
+    });
+  }
+
+  private isDiscountChanged(storedTransaction: TransactionModel, model: CreateTransactionModel) {
+    return (
+      this.roundAmount(model.discount ?? 0) !==
+      this.roundAmount(storedTransaction.totalDiscount ?? 0)
+    );
+  }
+
+  private isSameAddress(storedAddress: TransactionAddressModel, address: AddressLocationInfo) {
+    const storedPostalCode = this.normalizeText(storedAddress.postalCode);
+    const postalCode = this.normalizeText(address.postalCode);
+
+    return (
+      this.normalizeText(storedAddress.country) === this.normalizeText(address.country) &&
+      this.normalizeText(storedAddress.region) === this.normalizeText(address.region) &&
+      this.normalizeText(storedAddress.city) === this.normalizeText(address.city) &&
+      // AvaTax may store ZIP+4 resolved from the sent ZIP code
+      (storedPostalCode.startsWith(postalCode) || postalCode.startsWith(storedPostalCode))
+    );
+  }
+
+  private isShipToAddressChanged(
+    storedTransaction: TransactionModel,
+    model: CreateTransactionModel,
+  ) {
+    const shipTo = model.addresses?.shipTo;
+
+    if (!shipTo) {
+      return false;
+    }
+
+    return !(storedTransaction.addresses ?? []).some((storedAddress) =>
+      this.isSameAddress(storedAddress, shipTo),
+    );
+  }
+
+  private resolveReason(changes: AvataxOrderUpdatedChange[]) {
+    if (changes.includes("lines") || changes.includes("discount")) {
+      return AdjustmentReason.PriceAdjusted;
+    }
+
+    return AdjustmentReason.SourcingIssue;
+  }
+
+  resolve({
+    storedTransaction,
+    model,
+  }: {
+    storedTransaction: TransactionModel;
+    model: CreateTransactionModel;
+  }): AvataxOrderUpdatedAdjustment | null {
+    const changes: AvataxOrderUpdatedChange[] = [];
+
+    if (this.areLinesChanged(storedTransaction, model)) {
+      changes.push("lines");
+    }
+
+    if (this.isDiscountChanged(storedTransaction, model)) {
+      changes.push("discount");
+    }
+
+    if (this.isShipToAddressChanged(storedTransaction, model)) {
+      changes.push("shipping address");
+    }
+
+    if (changes.length === 0) {
+      return null;
+    }
+
+    return {
+      changes,
+      adjustmentReason: this.resolveReason(changes),
+      adjustmentDescription: `Order edited in Saleor: ${changes.join(", ")} changed`,
+    };
+  }
+}
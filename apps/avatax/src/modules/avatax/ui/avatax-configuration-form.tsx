@@ -7,6 +7,7 @@ import { FormProvider, useForm } from "react-hook-form";
 
 import { AppCard } from "../../ui/app-card";
 import { ProviderLabel } from "../../ui/provider-label";
+import { avataxCommitPolicy } from "../avatax-commit-policy-resolver";
 import {
   type AvataxConfig,
   avataxConfigSchema,
@@ -46,7 +47,10 @@ export const AvataxConfigurationForm = (props: AvataxConfigurationFormProps) =>
   const { handleSubmit, control, formState, reset } = formMethods;
 
   React.useEffect(() => {
-    reset(props.defaultValues);
+    reset({
+      ...props.defaultValues,
+      commitPolicy: avataxCommitPolicy.resolve(props.defaultValues),
+    });
   }, [props.defaultValues, reset]);
 
   const submitHandler = React.useCallback(
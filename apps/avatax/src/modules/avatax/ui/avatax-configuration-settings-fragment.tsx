@@ -1,13 +1,29 @@
 import { TextLink } from "@saleor/apps-ui";
-import { Input } from "@saleor/react-hook-form-macaw";
+import { Input, Select } from "@saleor/react-hook-form-macaw";
 import { useFormContext } from "react-hook-form";
 
 import { AppToggle } from "../../ui/app-toggle";
-import { type AvataxConfig } from "../avatax-connection-schema";
+import {
+  type AvataxCommitPolicy,
+  type AvataxConfig,
+  type AvataxFallbackStrategy,
+} from "../avatax-connection-schema";
 import { useAvataxConfigurationStatus } from "./configuration-status";
 import { HelperText } from "./form-helper-text";
 import { FormSection } from "./form-section";
 
+const commitPolicyOptions: Array<{ value: AvataxCommitPolicy; label: string }> = [
+  { value: "ON_CONFIRM", label: "When order is confirmed" },
+  { value: "ON_FULLY_PAID", label: "When order is fully paid" },
+  { value: "ON_FIRST_FULFILLMENT", label: "When order is fulfilled" },
+  { value: "MANUAL", label: "Manually" },
+];
+
+const fallbackStrategyOptions: Array<{ value: AvataxFallbackStrategy; label: string }> = [
+  { value: "NONE", label: "Return error" },
+  { value: "RATE_TABLE", label: "Use fallback rate table" },
+];
+
 export const AvataxConfigurationSettingsFragment = () => {
   const { control, formState } = useFormContext<AvataxConfig>();
   const { status } = useAvataxConfigurationStatus();
@@ -35,23 +51,39 @@ export const AvataxConfigurationSettingsFragment = () => {
         }
         name="isDocumentRecordingEnabled"
       />
-      <AppToggle
-        control={control}
-        label="Autocommit"
-        disabled={disabled}
-        helperText={
-          <HelperText>
-            If enabled, the order will be automatically{" "}
-            <TextLink
-              href="https://developer.avalara.com/communications/dev-guide_rest_v2/commit-uncommit/"
-              newTab
-            >
-              commited to Avalara.
-            </TextLink>{" "}
-          </HelperText>
-        }
-        name="isAutocommit"
-      />
+      <div>
+        <Select
+          disabled={disabled}
+          control={control}
+          name="commitPolicy"
+          label="Commit transaction"
+          options={commitPolicyOptions}
+        />
+        <HelperText disabled={disabled}>
+          Saleor event after which the transaction is{" "}
+          <TextLink
+            href="https://developer.avalara.com/communications/dev-guide_rest_v2/commit-uncommit/"
+            newTab
+          >
+            commited to Avalara.
+          </TextLink>{" "}
+          Manually committed transactions can be committed from the order details page.
+        </HelperText>
+      </div>
+      <div>
+        <Select
+          disabled={disabled}
+          control={control}
+          name="fallbackStrategy"
+          label="When AvaTax times out"
+          options={fallbackStrategyOptions}
+        />
+        <HelperText disabled={disabled}>
+          With fallback rate table, checkout taxes are calculated from rates stored from recent
+          AvaTax responses or imported from CSV. Orders created from such checkouts are recalculated
+          by AvaTax when confirmed.
+        </HelperText>
+      </div>
       <AppToggle
         control={control}
         label="Write tax exemption status to metadata"
@@ -0,0 +1,46 @@
+import { Entity, item, number, string } from "dynamodb-toolbox";
+
+import { type dynamoMainTable } from "@/modules/dynamodb/dynamo-main-table";
+
+type DynamoMainTable = typeof dynamoMainTable;
+
+export const CalculateTaxesCacheDynamoKeys = {
+  getPrimaryKey({ saleorApiUrl, appId }: { saleorApiUrl: string; appId: string }) {
+    return `${saleorApiUrl}#${appId}`;
+  },
+  getSortKey({
+    connectionId,
+    checkoutId,
+    hash,
+  }: {
+    connectionId: string;
+    checkoutId: string;
+    hash: string;
+  }) {
+    return `CALCULATE_TAXES_RESPONSE#${connectionId}#${checkoutId}#${hash}`;
+  },
+};
+
+export const CalculateTaxesCacheDynamoSchema = item({
+  PK: string().key(),
+  SK: string().key(),
+  // JSON of CalculateTaxesResponse
+  response: string().required(),
+  // UNIX epoch timestamp in seconds, requires TTL enabled on this attribute in the main table
+  TTL: number().required(),
+});
+
+export const CalculateTaxesCacheDynamoEntityFactory = {
+  create: (table: DynamoMainTable) => {
+    return new Entity({
+      table,
+      schema: CalculateTaxesCacheDynamoSchema,
+      name: "CALCULATE_TAXES_RESPONSE",
+      timestamps: false,
+    });
+  },
+};
+
+export type CalculateTaxesCacheEntity = ReturnType<
+  typeof CalculateTaxesCacheDynamoEntityFactory.create
+>;
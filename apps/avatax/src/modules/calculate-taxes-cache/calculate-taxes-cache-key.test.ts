@@ -0,0 +1,63 @@
+import { type CreateTransactionModel } from "avatax/lib/models/CreateTransactionModel";
+import { describe, expect, it } from "vitest";
+
+import { CalculateTaxesCacheKeyHasher } from "./calculate-taxes-cache-key";
+
+const createModel = (model: Partial<CreateTransactionModel> = {}): CreateTransactionModel =>
+  ({
+    type: 0,
+    date: new Date("2026-10-19T10:00:00Z"),
+    customerCode: "customer",
+    companyCode: "DEFAULT",
+    currencyCode: "USD",
+    addresses: {
+      shipTo: {
+        line1: "600 Montgomery St",
+        city: "San Francisco",
+        country: "US",
+        region: "CA",
+        postalCode: "94111",
+      },
+    },
+    lines: [{ amount: 100, quantity: 1, taxCode: "P0000000", taxIncluded: false }],
+    ...model,
+  }) as CreateTransactionModel;
+
+describe("CalculateTaxesCacheKeyHasher", () => {
+  const hasher = new CalculateTaxesCacheKeyHasher();
+
+  it("Returns the same hash for requests made at different time of the same day", () => {
+    expect(hasher.hash(createModel({ date: new Date("2026-10-19T23:59:00Z") }))).toBe(
+      hasher.hash(createModel()),
+    );
+  });
+
+  it("Returns the same hash for addresses that differ only by case and whitespace", () => {
+    expect(
+      hasher.hash(
+        createModel({
+          addresses: {
+            shipTo: {
+              line1: " 600 montgomery st ",
+              city: "san francisco",
+              country: "us",
+              region: "ca",
+              postalCode: "94 111",
+            },
+          },
+        }),
+      ),
+    ).toBe(hasher.hash(createModel()));
+  });
+
+  it.each<[string, Partial<CreateTransactionModel>]>([
+    ["line amount", { lines: [{ amount: 200, quantity: 1, taxCode: "P0000000" }] }],
+    ["customer code", { customerCode: "other-customer" }],
+    ["exemption number", { exemptionNo: "EX-1" }],
+    ["entity use code", { entityUseCode: "E" }],
+    ["date", { date: new Date("2026-10-20T10:00:00Z") }],
+    ["ship to address", { addresses: { shipTo: { country: "US", postalCode: "10001" } } }],
+  ])("Returns different hash when %s changes", (_, model) => {
+    expect(hasher.hash(createModel(model))).not.toBe(hasher.hash(createModel()));
+  });
+});
@@ -0,0 +1,69 @@
+import { createHash } from "node:crypto";
+
+import { type AddressLocationInfo } from "avatax/lib/models/AddressLocationInfo";
+import { type CreateTransactionModel } from "avatax/lib/models/CreateTransactionModel";
+import { type LineItemModel } from "avatax/lib/models/LineItemModel";
+
+/**
+ * Identifies cached response. Cache is scoped by checkout, because side effects of the calculation
+ * (e.g. exemption status metadata) are written to the checkout that triggered it.
+ */
+export type CalculateTaxesCacheKey = {
+  saleorApiUrl: string;
+  appId: string;
+  connectionId: string;
+  checkoutId: string;
+  hash: string;
+};
+
+const normalizeText = (value: string | undefined) => value?.trim().toUpperCase();
+
+const normalizeAddress = (address: AddressLocationInfo | undefined) =>
+  address && {
+    line1: normalizeText(address.line1),
+    line2: normalizeText(address.line2),
+    city: normalizeText(address.city),
+    region: normalizeText(address.region),
+    country: normalizeText(address.country),
+    postalCode: normalizeText(address.postalCode)?.replace(/\s/g, ""),
+    latitude: address.latitude,
+    longitude: address.longitude,
+  };
+
+const normalizeLine = (line: LineItemModel) => ({
+  amount: line.amount,
+  quantity: line.quantity,
+  taxCode: normalizeText(line.taxCode),
+  itemCode: line.itemCode,
+  taxIncluded: line.taxIncluded,
+  discounted: line.discounted,
+  exemptionCode: line.exemptionCode,
+  entityUseCode: line.entityUseCode,
+});
+
+/**
+ * Creates hash of AvaTax request fields that affect the calculated taxes.
+ * Fields that differ between calls with the same content (e.g. time of the request) are normalized, so repeated
+ * CHECKOUT_CALCULATE_TAXES webhooks for unchanged checkout produce the same hash.
+ */
+export class CalculateTaxesCacheKeyHasher {
+  hash(model: CreateTransactionModel): string {
+    // Array keeps the order of fields stable, undefined values are serialized as null
+    const serialized = JSON.stringify([
+      model.type,
+      model.companyCode,
+      model.currencyCode,
+      model.customerCode,
+      model.entityUseCode,
+      model.exemptionNo,
+      model.discount,
+      // Rates can change only between days, so time of the day is irrelevant
+      model.date.toISOString().slice(0, 10),
+      normalizeAddress(model.addresses?.shipFrom),
+      normalizeAddress(model.addresses?.shipTo),
+      model.lines.map(normalizeLine),
+    ]);
+
+    return createHash("sha256").update(serialized).digest("hex");
+  }
+}
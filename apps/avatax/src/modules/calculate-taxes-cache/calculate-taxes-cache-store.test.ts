@@ -0,0 +1,141 @@
+import { DynamoDBDocumentClient, GetCommand, PutCommand } from "@aws-sdk/lib-dynamodb";
+import { mockClient } from "aws-sdk-client-mock";
+import { Table } from "dynamodb-toolbox";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { type CalculateTaxesResponse } from "@/modules/taxes/tax-provider-webhook";
+
+import { CalculateTaxesCacheDynamoEntityFactory } from "./calculate-taxes-cache-dynamo-entity";
+import { type CalculateTaxesCacheKey } from "./calculate-taxes-cache-key";
+import {
+  CalculateTaxesCacheStoreDynamodb,
+  CalculateTaxesCacheStoreMemory,
+} from "./calculate-taxes-cache-store";
+
+const key: CalculateTaxesCacheKey = {
+  saleorApiUrl: "https://test.com/graphql/",
+  appId: "123456",
+  connectionId: "connection-1",
+  checkoutId: "checkout-1",
+  hash: "abc",
+};
+
+const response: CalculateTaxesResponse = {
+  shipping_price_gross_amount: 11,
+  shipping_price_net_amount: 10,
+  shipping_tax_rate: 10,
+  lines: [{ total_gross_amount: 110, total_net_amount: 100, tax_rate: 10 }],
+};
+
+describe("CalculateTaxesCacheStoreDynamodb", () => {
+  const mockDocumentClient = mockClient(DynamoDBDocumentClient);
+  const tableName = "test-main-table";
+
+  const table = new Table({
+    // @ts-expect-error mocking DynamoDBDocumentClient
+    documentClient: mockDocumentClient,
+    name: tableName,
+    partitionKey: { name: "PK", type: "string" },
+    sortKey: { name: "SK", type: "string" },
+  });
+  const store = new CalculateTaxesCacheStoreDynamodb({
+    entity: CalculateTaxesCacheDynamoEntityFactory.create(table),
+  });
+
+  beforeEach(() => {
+    mockDocumentClient.reset();
+  });
+
+  it("Writes response with TTL in seconds", async () => {
+    mockDocumentClient.on(PutCommand).resolves({});
+
+    const result = await store.set({
+      key,
+      response,
+      expiresAt: new Date("2026-10-19T10:00:00Z"),
+    });
+
+    expect(result.isOk()).toBe(true);
+    expect(mockDocumentClient.commandCalls(PutCommand)[0].args[0].input.Item).toStrictEqual(
+      expect.objectContaining({
+        PK: "https://test.com/graphql/#123456",
+        SK: "CALCULATE_TAXES_RESPONSE#connection-1#checkout-1#abc",
+        response: JSON.stringify(response),
+        TTL: 1_792_404_000,
+      }),
+    );
+  });
+
+  it("Returns cached entry", async () => {
+    const expiresAt = new Date(Math.floor(Date.now() / 1000 + 60) * 1000);
+
+    mockDocumentClient.on(GetCommand).resolves({
+      Item: {
+        PK: "https://test.com/graphql/#123456",
+        SK: "CALCULATE_TAXES_RESPONSE#connection-1#checkout-1#abc",
+        _et: "CALCULATE_TAXES_RESPONSE",
+        response: JSON.stringify(response),
+        TTL: expiresAt.getTime() / 1000,
+      },
+    });
+
+    const result = await store.get(key);
+
+    expect(result._unsafeUnwrap()).toStrictEqual({ response, expiresAt });
+  });
+
+  it("Returns null when item is expired, but not yet removed by DynamoDB", async () => {
+    mockDocumentClient.on(GetCommand).resolves({
+      Item: {
+        PK: "https://test.com/graphql/#123456",
+        SK: "CALCULATE_TAXES_RESPONSE#connection-1#checkout-1#abc",
+        _et: "CALCULATE_TAXES_RESPONSE",
+        response: JSON.stringify(response),
+        TTL: Math.floor(Date.now() / 1000) - 1,
+      },
+    });
+
+    const result = await store.get(key);
+
+    expect(result._unsafeUnwrap()).toBeNull();
+  });
+
+  it("Returns FetchError when DynamoDB fails", async () => {
+    mockDocumentClient.on(GetCommand).rejects(new Error("DynamoDB error"));
+
+    const result = await store.get(key);
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(CalculateTaxesCacheStoreDynamodb.FetchError);
+  });
+});
+
+describe("CalculateTaxesCacheStoreMemory", () => {
+  it("Returns null for expired entry", async () => {
+    const store = new CalculateTaxesCacheStoreMemory({ maxEntries: 10 });
+
+    vi.useFakeTimers();
+
+    await store.set({ key, response, expiresAt: new Date(Date.now() + 1000) });
+
+    expect((await store.get(key))._unsafeUnwrap()?.response).toStrictEqual(response);
+
+    vi.advanceTimersByTime(1000);
+
+    expect((await store.get(key))._unsafeUnwrap()).toBeNull();
+
+    vi.useRealTimers();
+  });
+
+  it("Evicts the oldest entry when limit is reached", async () => {
+    const store = new CalculateTaxesCacheStoreMemory({ maxEntries: 2 });
+    const expiresAt = new Date(Date.now() + 60_000);
+
+    await store.set({ key: { ...key, hash: "1" }, response, expiresAt });
+    await store.set({ key: { ...key, hash: "2" }, response, expiresAt });
+    await store.set({ key: { ...key, hash: "3" }, response, expiresAt });
+
+    expect((await store.get({ ...key, hash: "1" }))._unsafeUnwrap()).toBeNull();
+    expect((await store.get({ ...key, hash: "2" }))._unsafeUnwrap()).not.toBeNull();
+    expect((await store.get({ ...key, hash: "3" }))._unsafeUnwrap()).not.toBeNull();
+  });
+});
@@ -0,0 +1,198 @@
+import { GetItemCommand, PutItemCommand } from "dynamodb-toolbox";
+import { err, fromThrowable, ok, type Result, ResultAsync } from "neverthrow";
+import { z } from "zod";
+
+import { BaseError } from "@/error";
+import { createLogger } from "@/logger";
+import { type CalculateTaxesResponse } from "@/modules/taxes/tax-provider-webhook";
+
+import {
+  CalculateTaxesCacheDynamoKeys,
+  type CalculateTaxesCacheEntity,
+} from "./calculate-taxes-cache-dynamo-entity";
+import { type CalculateTaxesCacheKey } from "./calculate-taxes-cache-key";
+
+const calculateTaxesResponseSchema = z.object({
+  shipping_price_gross_amount: z.number(),
+  shipping_price_net_amount: z.number(),
+  shipping_tax_rate: z.number(),
+  lines: z.array(
+    z.object({
+      total_gross_amount: z.number(),
+      total_net_amount: z.number(),
+      tax_rate: z.number(),
+    }),
+  ),
+});
+
+export type CalculateTaxesCacheEntry = {
+  response: CalculateTaxesResponse;
+  expiresAt: Date;
+};
+
+export interface ICalculateTaxesCacheStore {
+  get(key: CalculateTaxesCacheKey): Promise<Result<CalculateTaxesCacheEntry | null, unknown>>;
+  set(
+    args: { key: CalculateTaxesCacheKey } & CalculateTaxesCacheEntry,
+  ): Promise<Result<undefined, unknown>>;
+}
+
+/**
+ * Stores responses in the main table, so they are shared between instances of the app.
+ */
+export class CalculateTaxesCacheStoreDynamodb implements ICalculateTaxesCacheStore {
+  private entity: CalculateTaxesCacheEntity;
+  private logger = createLogger("CalculateTaxesCacheStoreDynamodb");
+
+  constructor({ entity }: { entity: CalculateTaxesCacheEntity }) {
+    this.entity = entity;
+  }
+
+  static CalculateTaxesCacheStoreError = BaseError.subclass("CalculateTaxesCacheStoreError");
+  static FetchError = this.CalculateTaxesCacheStoreError.subclass("CalculateTaxesCacheFetchError");
+  static WriteError = this.CalculateTaxesCacheStoreError.subclass("CalculateTaxesCacheWriteError");
+
+  private getKeys(key: CalculateTaxesCacheKey) {
+    return {
+      PK: CalculateTaxesCacheDynamoKeys.getPrimaryKey(key),
+      SK: CalculateTaxesCacheDynamoKeys.getSortKey(key),
+    };
+  }
+
+  async get(
+    key: CalculateTaxesCacheKey,
+  ): Promise<
+    Result<
+      CalculateTaxesCacheEntry | null,
+      InstanceType<typeof CalculateTaxesCacheStoreDynamodb.FetchError>
+    >
+  > {
+    const fetchResult = await ResultAsync.fromPromise(
+      this.entity.build(GetItemCommand).key(this.getKeys(key)).send(),
+      (error) =>
+        new CalculateTaxesCacheStoreDynamodb.FetchError(
+          "Error while fetching cached response from DynamoDB",
+          { cause: error },
+        ),
+    );
+
+    if (fetchResult.isErr()) {
+      this.logger.warn("Error while fetching cached response from DynamoDB", {
+        error: fetchResult.error,
+      });
+
+      return err(fetchResult.error);
+    }
+
+    const item = fetchResult.value.Item;
+
+    // DynamoDB removes expired items with a delay, so expiration must be checked on read
+    if (!item || item.TTL * 1000 <= Date.now()) {
+      return ok(null);
+    }
+
+    return fromThrowable(
+      (): CalculateTaxesCacheEntry => ({
+        response: calculateTaxesResponseSchema.parse(JSON.parse(item.response)),
+        expiresAt: new Date(item.TTL * 1000),
+      }),
+      (error) =>
+        new CalculateTaxesCacheStoreDynamodb.FetchError("Cached response has invalid format", {
+          cause: error,
+        }),
+    )();
+  }
+
+  async set({
+    key,
+    response,
+    expiresAt,
+  }: { key: CalculateTaxesCacheKey } & CalculateTaxesCacheEntry): Promise<
+    Result<undefined, InstanceType<typeof CalculateTaxesCacheStoreDynamodb.WriteError>>
+  > {
+    const writeResult = await ResultAsync.fromPromise(
+      this.entity
+        .build(PutItemCommand)
+        .item({
+          ...this.getKeys(key),
+          response: JSON.stringify(response),
+          TTL: Math.floor(expiresAt.getTime() / 1000),
+        })
+        .send(),
+      (error) =>
+        new CalculateTaxesCacheStoreDynamodb.WriteError(
+          "Error while writing cached response to DynamoDB",
+          { cause: error },
+        ),
+    );
+
+    if (writeResult.isErr()) {
+      this.logger.warn("Error while writing cached response to DynamoDB", {
+        error: writeResult.error,
+      });
+
+      return err(writeResult.error);
+    }
+
+    return ok(undefined);
+  }
+}
+
+/**
+ * Keeps responses in the memory of the running instance. Oldest entries are evicted when the limit is reached.
+ */
+export class CalculateTaxesCacheStoreMemory implements ICalculateTaxesCacheStore {
+  private entries = new Map<string, CalculateTaxesCacheEntry>();
+
+  constructor(private options: { maxEntries: number }) {}
+
+  private serializeKey(key: CalculateTaxesCacheKey) {
+    return [key.saleorApiUrl, key.appId, key.connectionId, key.checkoutId, key.hash].join("#");
+  }
+
+  async get(key: CalculateTaxesCacheKey): Promise<Result<CalculateTaxesCacheEntry | null, never>> {
+    const serializedKey = this.serializeKey(key);
+    const entry = this.entries.get(serializedKey);
+
+    if (!entry) {
+      return ok(null);
+    }
+
+    if (entry.expiresAt.getTime() <= Date.now()) {
+      this.entries.delete(serializedKey);
+
+      return ok(null);
+    }
+
+    return ok(entry);
+  }
+
+  async set({
+    key,
+    response,
+    expiresAt,
+  }: { key: CalculateTaxesCacheKey } & CalculateTaxesCacheEntry): Promise<
+    Result<undefined, never>
+  > {
+    const serializedKey = this.serializeKey(key);
+
+    // Re-inserted entry becomes the newest one
+    this.entries.delete(serializedKey);
+
+    while (this.entries.size >= this.options.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+
+      if (oldestKey === undefined) {
+        break;
+      }
+
+      this.entries.delete(oldestKey);
+    }
+
+    if (this.options.maxEntries > 0) {
+      this.entries.set(serializedKey, { response, expiresAt });
+    }
+
+    return ok(undefined);
+  }
+}
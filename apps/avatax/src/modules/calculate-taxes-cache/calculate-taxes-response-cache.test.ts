@@ -0,0 +1,100 @@
+import { err, ok } from "neverthrow";
+import { describe, expect, it } from "vitest";
+
+import { type CalculateTaxesResponse } from "@/modules/taxes/tax-provider-webhook";
+
+import { type CalculateTaxesCacheKey } from "./calculate-taxes-cache-key";
+import {
+  CalculateTaxesCacheStoreMemory,
+  type ICalculateTaxesCacheStore,
+} from "./calculate-taxes-cache-store";
+import { CalculateTaxesResponseCache } from "./calculate-taxes-response-cache";
+
+const key: CalculateTaxesCacheKey = {
+  saleorApiUrl: "https://test.com/graphql/",
+  appId: "123456",
+  connectionId: "connection-1",
+  checkoutId: "checkout-1",
+  hash: "abc",
+};
+
+const response: CalculateTaxesResponse = {
+  shipping_price_gross_amount: 11,
+  shipping_price_net_amount: 10,
+  shipping_tax_rate: 10,
+  lines: [{ total_gross_amount: 110, total_net_amount: 100, tax_rate: 10 }],
+};
+
+describe("CalculateTaxesResponseCache", () => {
+  it("Is disabled when TTL is 0", () => {
+    const cache = new CalculateTaxesResponseCache({
+      layers: [{ name: "memory", store: new CalculateTaxesCacheStoreMemory({ maxEntries: 10 }) }],
+      ttlSeconds: 0,
+    });
+
+    expect(cache.isEnabled()).toBe(false);
+  });
+
+  it("Fills faster layer on hit in slower layer", async () => {
+    const memoryStore = new CalculateTaxesCacheStoreMemory({ maxEntries: 10 });
+    const persistentStore = new CalculateTaxesCacheStoreMemory({ maxEntries: 10 });
+    const cache = new CalculateTaxesResponseCache({
+      layers: [
+        { name: "memory", store: memoryStore },
+        { name: "dynamodb", store: persistentStore },
+      ],
+      ttlSeconds: 60,
+    });
+
+    await persistentStore.set({ key, response, expiresAt: new Date(Date.now() + 60_000) });
+
+    expect(await cache.get(key)).toStrictEqual(response);
+    expect((await memoryStore.get(key))._unsafeUnwrap()?.response).toStrictEqual(response);
+  });
+
+  it("Writes response to all layers", async () => {
+    const memoryStore = new CalculateTaxesCacheStoreMemory({ maxEntries: 10 });
+    const persistentStore = new CalculateTaxesCacheStoreMemory({ maxEntries: 10 });
+    const cache = new CalculateTaxesResponseCache({
+      layers: [
+        { name: "memory", store: memoryStore },
+        { name: "dynamodb", store: persistentStore },
+      ],
+      ttlSeconds: 60,
+    });
+
+    await cache.set(key, response);
+
+    expect((await memoryStore.get(key))._unsafeUnwrap()?.response).toStrictEqual(response);
+    expect((await persistentStore.get(key))._unsafeUnwrap()?.response).toStrictEqual(response);
+  });
+
+  it("Skips failing layer", async () => {
+    const persistentStore = new CalculateTaxesCacheStoreMemory({ maxEntries: 10 });
+    const failingStore: ICalculateTaxesCacheStore = {
+      get: async () => err(new Error("Failed")),
+      set: async () => ok(undefined),
+    };
+
+    const cache = new CalculateTaxesResponseCache({
+      layers: [
+        { name: "memory", store: failingStore },
+        { name: "dynamodb", store: persistentStore },
+      ],
+      ttlSeconds: 60,
+    });
+
+    await persistentStore.set({ key, response, expiresAt: new Date(Date.now() + 60_000) });
+
+    expect(await cache.get(key)).toStrictEqual(response);
+  });
+
+  it("Returns null on miss", async () => {
+    const cache = new CalculateTaxesResponseCache({
+      layers: [{ name: "memory", store: new CalculateTaxesCacheStoreMemory({ maxEntries: 10 }) }],
+      ttlSeconds: 60,
+    });
+
+    expect(await cache.get(key)).toBeNull();
+  });
+});
@@ -0,0 +1,104 @@
+import { ObservabilityAttributes } from "@saleor/apps-otel/src/observability-attributes";
+
+import { internalMeter } from "@/lib/otel/metrics";
+import { OtelTenatDomainResolver } from "@/lib/otel/otel-tenant-domain-resolver";
+import { createLogger } from "@/logger";
+import { loggerContext } from "@/logger-context";
+import { type CalculateTaxesResponse } from "@/modules/taxes/tax-provider-webhook";
+
+import { type CalculateTaxesCacheKey } from "./calculate-taxes-cache-key";
+import { type ICalculateTaxesCacheStore } from "./calculate-taxes-cache-store";
+
+export type CalculateTaxesCacheLayer = {
+  name: "memory" | "dynamodb";
+  store: ICalculateTaxesCacheStore;
+};
+
+/**
+ * Short-lived cache of CHECKOUT_CALCULATE_TAXES responses. Saleor calls the webhook many times during a single
+ * checkout, so unchanged checkout doesn't have to call AvaTax each time.
+ *
+ * Layers are checked in order (fastest first). Hit in a slower layer fills the faster ones.
+ * Failing layer is treated as miss - cache must never break the tax calculation.
+ */
+export class CalculateTaxesResponseCache {
+  private logger = createLogger("CalculateTaxesResponseCache");
+  private lookupsCounter = internalMeter.createCounter(
+    "saleor.app.avatax.calculate_taxes.cache.lookups",
+    {
+      description:
+        "The number of CHECKOUT_CALCULATE_TAXES response cache lookups. Each hit is a request to AvaTax API that was not made",
+      unit: "{lookup}",
+    },
+  );
+  private tenantDomainResolver = new OtelTenatDomainResolver({ loggerContext });
+
+  constructor(
+    private deps: {
+      layers: CalculateTaxesCacheLayer[];
+      ttlSeconds: number;
+    },
+  ) {}
+
+  isEnabled() {
+    return this.deps.ttlSeconds > 0 && this.deps.layers.length > 0;
+  }
+
+  private recordLookup(attributes: { result: "hit" | "miss"; layer?: string }) {
+    this.lookupsCounter.add(1, {
+      ...attributes,
+      [ObservabilityAttributes.TENANT_DOMAIN]: this.tenantDomainResolver.getDomain(),
+    });
+  }
+
+  async get(key: CalculateTaxesCacheKey): Promise<CalculateTaxesResponse | null> {
+    for (const [index, layer] of this.deps.layers.entries()) {
+      const result = await layer.store.get(key);
+
+      if (result.isErr()) {
+        this.logger.warn("Failed to read cached response, skipping cache layer", {
+          layer: layer.name,
+          error: result.error,
+        });
+
+        continue;
+      }
+
+      const entry = result.value;
+
+      if (entry) {
+        this.logger.info("Found cached response", { layer: layer.name });
+        this.recordLookup({ result: "hit", layer: layer.name });
+
+        await Promise.all(
+          this.deps.layers
+            .slice(0, index)
+            .map((fasterLayer) => fasterLayer.store.set({ key, ...entry })),
+        );
+
+        return entry.response;
+      }
+    }
+
+    this.recordLookup({ result: "miss" });
+
+    return null;
+  }
+
+  async set(key: CalculateTaxesCacheKey, response: CalculateTaxesResponse): Promise<void> {
+    const expiresAt = new Date(Date.now() + this.deps.ttlSeconds * 1000);
+
+    const results = await Promise.all(
+      this.deps.layers.map((layer) => layer.store.set({ key, response, expiresAt })),
+    );
+
+    results.forEach((result, index) => {
+      if (result.isErr()) {
+        this.logger.warn("Failed to cache response", {
+          layer: this.deps.layers[index].name,
+          error: result.error,
+        });
+      }
+    });
+  }
+}
@@ -0,0 +1,37 @@
+import { env } from "@/env";
+import { dynamoMainTable } from "@/modules/dynamodb/dynamo-main-table";
+
+import { CalculateTaxesCacheDynamoEntityFactory } from "./calculate-taxes-cache-dynamo-entity";
+import {
+  CalculateTaxesCacheStoreDynamodb,
+  CalculateTaxesCacheStoreMemory,
+} from "./calculate-taxes-cache-store";
+import {
+  type CalculateTaxesCacheLayer,
+  CalculateTaxesResponseCache,
+} from "./calculate-taxes-response-cache";
+
+// Module scope, so entries are reused by next invocations handled by the same instance
+const memoryStore = new CalculateTaxesCacheStoreMemory({
+  maxEntries: env.AVATAX_CALCULATE_TAXES_CACHE_MEMORY_MAX_ENTRIES,
+});
+
+export const createCalculateTaxesResponseCache = () => {
+  const layers: CalculateTaxesCacheLayer[] = [
+    {
+      name: "dynamodb",
+      store: new CalculateTaxesCacheStoreDynamodb({
+        entity: CalculateTaxesCacheDynamoEntityFactory.create(dynamoMainTable),
+      }),
+    },
+  ];
+
+  if (env.AVATAX_CALCULATE_TAXES_CACHE_MEMORY_MAX_ENTRIES > 0) {
+    layers.unshift({ name: "memory", store: memoryStore });
+  }
+
+  return new CalculateTaxesResponseCache({
+    layers,
+    ttlSeconds: env.AVATAX_CALCULATE_TAXES_CACHE_TTL_SECONDS,
+  });
+};
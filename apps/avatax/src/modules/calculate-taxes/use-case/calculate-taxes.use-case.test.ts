@@ -6,7 +6,10 @@ import { AvataxCalculateTaxesPayloadLinesTransformer } from "@/modules/avatax/ca
 import { AvataxCalculateTaxesResponseTransformer } from "@/modules/avatax/calculate-taxes/avatax-calculate-taxes-response-transformer";
 import { AvataxCalculateTaxesTaxCodeMatcher } from "@/modules/avatax/calculate-taxes/avatax-calculate-taxes-tax-code-matcher";
 import { SHIPPING_ITEM_CODE } from "@/modules/avatax/calculate-taxes/avatax-shipping-line";
+import { CalculateTaxesCacheStoreMemory } from "@/modules/calculate-taxes-cache/calculate-taxes-cache-store";
+import { CalculateTaxesResponseCache } from "@/modules/calculate-taxes-cache/calculate-taxes-response-cache";
 import { type ILogWriter, NoopLogWriter } from "@/modules/client-logs/log-writer";
+import { FallbackTaxRatesRepositoryMemory } from "@/modules/fallback-tax-rates/fallback-tax-rates-repository";
 import {
   AvataxGetTaxSystemError,
   AvataxGetTaxWrongUserInputError,
@@ -17,6 +20,7 @@ import { BaseError } from "../../../error";
 import { AppConfig } from "../../../lib/app-config";
 import { AppConfigExtractor, type IAppConfigExtractor } from "../../../lib/app-config-extractor";
 import { AvataxClient } from "../../avatax/avatax-client";
+import { type AvataxConfig } from "../../avatax/avatax-connection-schema";
 import { AvataxSdkClientFactory } from "../../avatax/avatax-sdk-client-factory";
 import { type CalculateTaxesPayload } from "../../webhooks/payloads/calculate-taxes-payload";
 import { CalculateTaxesUseCase } from "./calculate-taxes.use-case";
@@ -107,7 +111,9 @@ const getPayloadWithDiscounts = (): CalculateTaxesPayload => {
   };
 };
 
-const getMockedAppConfig = (): AppConfig => {
+const getMockedAppConfig = (
+  fallbackStrategy: AvataxConfig["fallbackStrategy"] = "NONE",
+): AppConfig => {
   const connId = "pci-1";
 
   return AppConfig.createFromParsedConfig({
@@ -139,9 +145,10 @@ const getMockedAppConfig = (): AppConfig => {
           },
           isSandbox: false,
           name: "config",
-          isAutocommit: false,
+          commitPolicy: "MANUAL",
           isExemptionStatusPublicMetadataEnabled: false,
           isDocumentRecordingEnabled: false,
+          fallbackStrategy,
           shippingTaxCode: "123",
         },
       },
@@ -154,6 +161,7 @@ describe("CalculateTaxesUseCase", () => {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   let mockedAvataxClient: any;
   let logWriter: ILogWriter;
+  let fallbackTaxRatesRepository: FallbackTaxRatesRepositoryMemory;
 
   vi.mock("../../../modules/avatax/avatax-client", () => {
     const AvataxClient = vi.fn();
@@ -181,7 +189,13 @@ describe("CalculateTaxesUseCase", () => {
 
     vi.spyOn(logWriter, "writeLog");
 
-    instance = new CalculateTaxesUseCase({
+    fallbackTaxRatesRepository = new FallbackTaxRatesRepositoryMemory();
+
+    instance = createInstance(new CalculateTaxesResponseCache({ layers: [], ttlSeconds: 0 }));
+  });
+
+  const createInstance = (calculateTaxesResponseCache: CalculateTaxesResponseCache) =>
+    new CalculateTaxesUseCase({
       configExtractor: MockConfigExtractor,
       logWriterFactory: {
         createWriter(): ILogWriter {
@@ -192,8 +206,9 @@ describe("CalculateTaxesUseCase", () => {
       payloadLinesTransformer: new AvataxCalculateTaxesPayloadLinesTransformer(
         new AvataxCalculateTaxesTaxCodeMatcher(),
       ),
+      fallbackTaxRatesRepository,
+      calculateTaxesResponseCache,
     });
-  });
 
   it("Creates instance", () => {
     expect(instance).toBeDefined();
@@ -442,5 +457,175 @@ describe("CalculateTaxesUseCase", () => {
 
       expect(error).not.toBeInstanceOf(CalculateTaxesUseCase.FailedCalculatingTaxesError);
     });
+
+    describe("With RATE_TABLE fallback strategy", () => {
+      const timeoutError = new AvataxTimeoutError("AvaTax API request timed out", {
+        cause: new Error("timeout"),
+      });
+
+      const seedRates = (
+        rates: Parameters<typeof fallbackTaxRatesRepository.saveRates>[0]["rates"],
+      ) =>
+        fallbackTaxRatesRepository.saveRates({
+          saleorApiUrl: getMockAuthData().saleorApiUrl,
+          appId: getMockAuthData().appId,
+          connectionId: "pci-1",
+          rates,
+        });
+
+      it("Calculates taxes with stored fallback rates", async () => {
+        mockGetAppConfig.mockImplementationOnce(() => ok(getMockedAppConfig("RATE_TABLE")));
+        mockedAvataxClient.createTransaction.mockRejectedValueOnce(timeoutError);
+
+        await seedRates([
+          { country: "PL", region: "*", zipPrefix: "*", taxCode: "*", rate: 23, source: "csv" },
+        ]);
+
+        const result = await instance.calculateTaxes(getBasePayload(), getMockAuthData());
+
+        expect(result._unsafeUnwrap()).toStrictEqual({
+          source: "fallback",
+          response: {
+            shipping_price_gross_amount: 36.9,
+            shipping_price_net_amount: 30,
+            shipping_tax_rate: 23,
+            lines: [{ total_gross_amount: 123, total_net_amount: 100, tax_rate: 23 }],
+          },
+        });
+      });
+
+      it("Writes fallback log", async () => {
+        mockGetAppConfig.mockImplementationOnce(() => ok(getMockedAppConfig("RATE_TABLE")));
+        mockedAvataxClient.createTransaction.mockRejectedValueOnce(timeoutError);
+
+        await seedRates([
+          { country: "PL", region: "*", zipPrefix: "*", taxCode: "*", rate: 23, source: "csv" },
+        ]);
+
+        await instance.calculateTaxes(getBasePayload(), getMockAuthData());
+
+        expect(logWriter.writeLog).toHaveBeenCalledWith({
+          log: expect.objectContaining({
+            level: "warn",
+            message: "Calculated taxes with fallback rates",
+          }),
+        });
+      });
+
+      it("Returns TimeoutError when no fallback rate matches", async () => {
+        mockGetAppConfig.mockImplementationOnce(() => ok(getMockedAppConfig("RATE_TABLE")));
+        mockedAvataxClient.createTransaction.mockRejectedValueOnce(timeoutError);
+
+        await seedRates([
+          { country: "US", region: "*", zipPrefix: "*", taxCode: "*", rate: 8, source: "csv" },
+        ]);
+
+        const result = await instance.calculateTaxes(getBasePayload(), getMockAuthData());
+
+        expect(result._unsafeUnwrapErr()).toBeInstanceOf(CalculateTaxesUseCase.TimeoutError);
+      });
+
+      it("Returns TimeoutError when strategy is NONE, even if rates are stored", async () => {
+        mockGetAppConfig.mockImplementationOnce(() => ok(getMockedAppConfig("NONE")));
+        mockedAvataxClient.createTransaction.mockRejectedValueOnce(timeoutError);
+
+        await seedRates([
+          { country: "PL", region: "*", zipPrefix: "*", taxCode: "*", rate: 23, source: "csv" },
+        ]);
+
+        const result = await instance.calculateTaxes(getBasePayload(), getMockAuthData());
+
+        expect(result._unsafeUnwrapErr()).toBeInstanceOf(CalculateTaxesUseCase.TimeoutError);
+      });
+    });
+  });
+
+  describe("Response cache", () => {
+    const transaction = {
+      lines: [],
+      totalExempt: 0,
+      summary: [],
+    };
+
+    const createCache = () =>
+      new CalculateTaxesResponseCache({
+        layers: [{ name: "memory", store: new CalculateTaxesCacheStoreMemory({ maxEntries: 10 }) }],
+        ttlSeconds: 60,
+      });
+
+    it("Doesn't return cache key when cache is disabled", async () => {
+      mockGetAppConfig.mockImplementationOnce(() => ok(getMockedAppConfig()));
+      mockedAvataxClient.createTransaction.mockResolvedValueOnce(ok(transaction));
+
+      const result = await instance.calculateTaxes(getBasePayload(), getMockAuthData());
+
+      expect(result._unsafeUnwrap()).toStrictEqual(
+        expect.objectContaining({ source: "avatax", cacheKey: null }),
+      );
+    });
+
+    it("Returns cached response without calling AvaTax for unchanged checkout", async () => {
+      const cache = createCache();
+      const instanceWithCache = createInstance(cache);
+
+      mockGetAppConfig.mockImplementation(() => ok(getMockedAppConfig()));
+      mockedAvataxClient.createTransaction.mockResolvedValueOnce(ok(transaction));
+
+      const firstResult = (
+        await instanceWithCache.calculateTaxes(getBasePayload(), getMockAuthData())
+      )._unsafeUnwrap();
+
+      if (firstResult.source !== "avatax" || !firstResult.cacheKey) {
+        throw new Error("Expected AvaTax result with cache key");
+      }
+
+      expect(firstResult.cacheKey).toStrictEqual(
+        expect.objectContaining({
+          saleorApiUrl: getMockAuthData().saleorApiUrl,
+          appId: getMockAuthData().appId,
+          connectionId: "pci-1",
+          checkoutId: "123",
+        }),
+      );
+
+      await cache.set(firstResult.cacheKey, firstResult.response);
+
+      const secondResult = await instanceWithCache.calculateTaxes(
+        getBasePayload(),
+        getMockAuthData(),
+      );
+
+      expect(secondResult._unsafeUnwrap()).toStrictEqual({
+        source: "cache",
+        response: firstResult.response,
+      });
+      expect(mockedAvataxClient.createTransaction).toHaveBeenCalledOnce();
+    });
+
+    it("Calls AvaTax when checkout changed since response was cached", async () => {
+      const cache = createCache();
+      const instanceWithCache = createInstance(cache);
+
+      mockGetAppConfig.mockImplementation(() => ok(getMockedAppConfig()));
+      mockedAvataxClient.createTransaction.mockResolvedValue(ok(transaction));
+
+      const firstResult = (
+        await instanceWithCache.calculateTaxes(getBasePayload(), getMockAuthData())
+      )._unsafeUnwrap();
+
+      if (firstResult.source !== "avatax" || !firstResult.cacheKey) {
+        throw new Error("Expected AvaTax result with cache key");
+      }
+
+      await cache.set(firstResult.cacheKey, firstResult.response);
+
+      const secondResult = await instanceWithCache.calculateTaxes(
+        getPayloadWithDiscounts(),
+        getMockAuthData(),
+      );
+
+      expect(secondResult._unsafeUnwrap().source).toBe("avatax");
+      expect(mockedAvataxClient.createTransaction).toHaveBeenCalledTimes(2);
+    });
   });
 });
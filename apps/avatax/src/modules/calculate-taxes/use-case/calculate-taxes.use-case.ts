@@ -12,8 +12,16 @@ import { AvataxCalculateTaxesPayloadTransformer } from "@/modules/avatax/calcula
 import { type AvataxCalculateTaxesResponseTransformer } from "@/modules/avatax/calculate-taxes/avatax-calculate-taxes-response-transformer";
 import { AutomaticallyDistributedProductLinesDiscountsStrategy } from "@/modules/avatax/discounts";
 import { AvataxTaxCodeMatchesService } from "@/modules/avatax/tax-code/avatax-tax-code-matches.service";
+import {
+  type CalculateTaxesCacheKey,
+  CalculateTaxesCacheKeyHasher,
+} from "@/modules/calculate-taxes-cache/calculate-taxes-cache-key";
+import { type CalculateTaxesResponseCache } from "@/modules/calculate-taxes-cache/calculate-taxes-response-cache";
 import { CalculateTaxesLogRequest } from "@/modules/client-logs/calculate-taxes-log-request";
 import { type ILogWriterFactory } from "@/modules/client-logs/log-writer-factory";
+import { FallbackTaxRatesCalculator } from "@/modules/fallback-tax-rates/fallback-tax-rates-calculator";
+import { type IFallbackTaxRatesRepository } from "@/modules/fallback-tax-rates/fallback-tax-rates-repository";
+import { type CalculateTaxesResponse } from "@/modules/taxes/tax-provider-webhook";
 
 import { BaseError } from "../../../error";
 import { AppConfigExtractor, type IAppConfigExtractor } from "../../../lib/app-config-extractor";
@@ -23,6 +31,7 @@ import { createLogger } from "../../../logger";
 import {
   AvataxCalculateTaxesAdapter,
   type AvataxCalculateTaxesResult,
+  type AvataxCalculateTaxesTarget,
 } from "../../avatax/calculate-taxes/avatax-calculate-taxes-adapter";
 import {
   AvataxGetTaxWrongUserInputError,
@@ -32,6 +41,15 @@ import {
 import { type CalculateTaxesPayload } from "../../webhooks/payloads/calculate-taxes-payload";
 import { verifyCalculateTaxesPayload } from "../../webhooks/validate-webhook-payload";
 
+/**
+ * When response cache is enabled, `cacheKey` of AvaTax result is the key the response should be cached under.
+ * Writing is left to the caller, so it doesn't delay the response to Saleor.
+ */
+export type CalculateTaxesUseCaseResult =
+  | ({ source: "avatax"; cacheKey: CalculateTaxesCacheKey | null } & AvataxCalculateTaxesResult)
+  | { source: "cache"; response: CalculateTaxesResponse }
+  | { source: "fallback"; response: CalculateTaxesResponse };
+
 export class CalculateTaxesUseCase {
   private logger = createLogger("CalculateTaxesUseCase");
 
@@ -54,6 +72,8 @@ export class CalculateTaxesUseCase {
       logWriterFactory: ILogWriterFactory;
       payloadLinesTransformer: AvataxCalculateTaxesPayloadLinesTransformer;
       calculateTaxesResponseTransformer: AvataxCalculateTaxesResponseTransformer;
+      fallbackTaxRatesRepository: IFallbackTaxRatesRepository;
+      calculateTaxesResponseCache: CalculateTaxesResponseCache;
     },
   ) {}
 
@@ -102,17 +122,60 @@ export class CalculateTaxesUseCase {
       });
   }
 
+  /**
+   * Used only when AvaTax timed out and connection has RATE_TABLE fallback strategy.
+   * If rates can't be applied, the original timeout error is thrown, so the result is the same as without fallback
+   */
+  private async calculateWithFallbackRates({
+    model,
+    connectionId,
+    authData,
+    timeoutError,
+  }: {
+    model: AvataxCalculateTaxesTarget["model"];
+    connectionId: string;
+    authData: AuthData;
+    timeoutError: InstanceType<typeof AvataxTimeoutError>;
+  }): Promise<CalculateTaxesUseCaseResult> {
+    const rates = await this.deps.fallbackTaxRatesRepository.getRates({
+      saleorApiUrl: authData.saleorApiUrl,
+      appId: authData.appId,
+      connectionId,
+    });
+
+    if (rates.isErr()) {
+      this.logger.warn("Failed to fetch fallback tax rates", { error: rates.error });
+
+      throw timeoutError;
+    }
+
+    const response = new FallbackTaxRatesCalculator().calculate({
+      model,
+      rates: rates.value,
+    });
+
+    if (response.isErr()) {
+      this.logger.warn("Failed to calculate taxes with fallback rates", { error: response.error });
+
+      throw timeoutError;
+    }
+
+    return { source: "fallback", response: response.value };
+  }
+
   private async callAvaTax({
     payload,
     avataxConfig,
+    connectionId,
     discountStrategy,
     authData,
   }: {
     payload: CalculateTaxesPayload;
     avataxConfig: AvataxConfig;
+    connectionId: string;
     discountStrategy: AutomaticallyDistributedProductLinesDiscountsStrategy;
     authData: AuthData;
-  }) {
+  }): Promise<CalculateTaxesUseCaseResult> {
     /**
      * Create local dependencies. They more-or-less need runtime values, like AuthData.
      * This is part of the refactor. Later we should refactor these and inject them into use-case
@@ -135,9 +198,43 @@ export class CalculateTaxesUseCase {
 
     const avataxModel = await payloadService.getPayload(payload, avataxConfig, discountStrategy);
 
-    const response = await calculateTaxesAdapter.send(avataxModel);
+    const cacheKey: CalculateTaxesCacheKey | null =
+      this.deps.calculateTaxesResponseCache.isEnabled()
+        ? {
+            saleorApiUrl: authData.saleorApiUrl,
+            appId: authData.appId,
+            connectionId,
+            checkoutId: payload.taxBase.sourceObject.id,
+            hash: new CalculateTaxesCacheKeyHasher().hash(avataxModel.model),
+          }
+        : null;
+
+    if (cacheKey) {
+      const cachedResponse = await this.deps.calculateTaxesResponseCache.get(cacheKey);
+
+      if (cachedResponse) {
+        return { source: "cache", response: cachedResponse };
+      }
+    }
+
+    try {
+      const response = await calculateTaxesAdapter.send(avataxModel);
+
+      return { source: "avatax", cacheKey, ...response };
+    } catch (error) {
+      if (error instanceof AvataxTimeoutError && avataxConfig.fallbackStrategy === "RATE_TABLE") {
+        this.logger.warn("AvaTax API request timed out, calculating taxes with fallback rates");
 
-    return response;
+        return this.calculateWithFallbackRates({
+          model: avataxModel.model,
+          connectionId,
+          authData,
+          timeoutError: error,
+        });
+      }
+
+      throw error;
+    }
   }
 
   async calculateTaxes(
@@ -145,7 +242,7 @@ export class CalculateTaxesUseCase {
     authData: AuthData,
   ): Promise<
     Result<
-      AvataxCalculateTaxesResult,
+      CalculateTaxesUseCaseResult,
       (typeof CalculateTaxesUseCase.CalculateTaxesUseCaseError)["prototype"]
     >
   > {
@@ -211,6 +308,7 @@ export class CalculateTaxesUseCase {
       this.callAvaTax({
         payload,
         avataxConfig: providerConfig.value.avataxConfig.config,
+        connectionId: providerConfig.value.avataxConfig.id,
         authData,
         discountStrategy: this.discountsStrategy,
       }),
@@ -246,7 +344,27 @@ export class CalculateTaxesUseCase {
         });
       },
     ).map((results) => {
-      this.logger.info("Taxes calculated - returning response do Saleor");
+      if (results.source === "fallback") {
+        this.logger.info("Taxes calculated with fallback rates - returning response do Saleor");
+
+        CalculateTaxesLogRequest.createFallbackLog({
+          sourceId: payload.taxBase.sourceObject.id,
+          channelId: payload.taxBase.channel.id,
+          sourceType: "checkout",
+          calculatedTaxesResult: results.response,
+          fallbackReason: "AvaTax API request timed out",
+        })
+          .mapErr(captureException)
+          .map(logWriter.writeLog);
+
+        return results;
+      }
+
+      if (results.source === "cache") {
+        this.logger.info("Taxes found in response cache - returning response do Saleor");
+      } else {
+        this.logger.info("Taxes calculated - returning response do Saleor");
+      }
 
       CalculateTaxesLogRequest.createSuccessLog({
         sourceId: payload.taxBase.sourceObject.id,
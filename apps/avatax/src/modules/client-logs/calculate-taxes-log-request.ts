@@ -19,6 +19,29 @@ export class CalculateTaxesLogRequest {
     });
   }
 
+  static createFallbackLog(args: {
+    sourceId: string;
+    channelId: string;
+    sourceType: "checkout" | "order";
+    calculatedTaxesResult: Record<string, any>;
+    fallbackReason: string;
+  }) {
+    return ClientLogStoreRequest.create({
+      level: "warn",
+      message: "Calculated taxes with fallback rates",
+      checkoutOrOrderId: args.sourceId,
+      channelId: args.channelId,
+      checkoutOrOrder: args.sourceType,
+      attributes: {
+        calculatedTaxes: args.calculatedTaxesResult,
+        fallback: {
+          strategy: "RATE_TABLE",
+          reason: args.fallbackReason,
+        },
+      },
+    });
+  }
+
   static createErrorLog(args: {
     sourceId: string;
     channelId: string;
@@ -0,0 +1,44 @@
+import { type AvataxCommitPolicy } from "../avatax/avatax-connection-schema";
+import { ClientLogStoreRequest } from "./client-log";
+
+export class OrderCommittedLogRequest {
+  static createSuccessLog(args: {
+    sourceId: string | undefined;
+    channelId: string | undefined;
+    avataxId: string;
+    commitPolicy: AvataxCommitPolicy;
+  }) {
+    return ClientLogStoreRequest.create({
+      level: "info",
+      message: "Succesfully committed AvaTax transaction",
+      checkoutOrOrderId: args.sourceId,
+      channelId: args.channelId,
+      checkoutOrOrder: "order",
+      attributes: {
+        avataxTransactionId: args.avataxId,
+        commitPolicy: args.commitPolicy,
+      },
+    });
+  }
+
+  static createErrorLog(args: {
+    sourceId: string | undefined;
+    channelId: string | undefined;
+    errorReason: string;
+    avataxId?: string | null;
+  }) {
+    return ClientLogStoreRequest.create({
+      level: "error",
+      message: "Failed to commit AvaTax transaction",
+      checkoutOrOrderId: args.sourceId,
+      channelId: args.channelId,
+      checkoutOrOrder: "order",
+      attributes: {
+        error: {
+          reason: args.errorReason,
+        },
+        ...(args.avataxId ? { avataxTransactionId: args.avataxId } : {}),
+      },
+    });
+  }
+}
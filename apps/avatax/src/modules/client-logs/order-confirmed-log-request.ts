@@ -18,6 +18,29 @@ export class OrderConfirmedLogRequest {
     });
   }
 
+  static createFallbackRecalculatedLog(args: {
+    sourceId: string | undefined;
+    channelId: string | undefined;
+    avataxId: string;
+    fallbackCalculatedAt: string;
+    saleorTotalTax: number;
+    avataxTotalTax: number | undefined;
+  }) {
+    return ClientLogStoreRequest.create({
+      level: "warn",
+      message: "Order taxes calculated with fallback rates were recalculated in AvaTax",
+      checkoutOrOrderId: args.sourceId,
+      checkoutOrOrder: "order",
+      channelId: args.channelId,
+      attributes: {
+        avataxTransactionId: args.avataxId,
+        fallbackCalculatedAt: args.fallbackCalculatedAt,
+        saleorTotalTax: args.saleorTotalTax,
+        avataxTotalTax: args.avataxTotalTax ?? null,
+      },
+    });
+  }
+
   static createErrorLog(args: {
     sourceId: string | undefined;
     channelId: string | undefined;
@@ -0,0 +1,43 @@
+import { ClientLogStoreRequest } from "./client-log";
+
+export class OrderRefundedLogRequest {
+  static createSuccessLog(args: {
+    sourceId: string | undefined;
+    channelId: string | undefined;
+    avataxId: string | undefined | null;
+    returnDocumentIds: string[];
+  }) {
+    return ClientLogStoreRequest.create({
+      level: "info",
+      message: "Succesfully recorded refunds as AvaTax return documents",
+      checkoutOrOrderId: args.sourceId,
+      channelId: args.channelId,
+      checkoutOrOrder: "order",
+      attributes: {
+        ...(args.avataxId ? { avataxTransactionId: args.avataxId } : {}),
+        avataxReturnTransactionIds: args.returnDocumentIds,
+      },
+    });
+  }
+
+  static createErrorLog(args: {
+    sourceId: string | undefined;
+    channelId: string | undefined;
+    errorReason: string;
+    avataxId?: string | null;
+  }) {
+    return ClientLogStoreRequest.create({
+      level: "error",
+      message: "Failed to record refunds as AvaTax return documents",
+      checkoutOrOrderId: args.sourceId,
+      channelId: args.channelId,
+      checkoutOrOrder: "order",
+      attributes: {
+        error: {
+          reason: args.errorReason,
+        },
+        ...(args.avataxId ? { avataxTransactionId: args.avataxId } : {}),
+      },
+    });
+  }
+}
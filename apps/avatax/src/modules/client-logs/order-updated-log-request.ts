@@ -0,0 +1,49 @@
+import { ClientLogStoreRequest } from "./client-log";
+
+export class OrderUpdatedLogRequest {
+  static createSuccessLog(args: {
+    sourceId: string | undefined;
+    channelId: string | undefined;
+    avataxId: string;
+    adjustmentReason: string;
+    changes: string[];
+    totalTaxBefore: number;
+    totalTaxAfter: number;
+  }) {
+    return ClientLogStoreRequest.create({
+      level: "info",
+      message: "Succesfully adjusted AvaTax transaction after order update",
+      checkoutOrOrderId: args.sourceId,
+      channelId: args.channelId,
+      checkoutOrOrder: "order",
+      attributes: {
+        avataxTransactionId: args.avataxId,
+        adjustmentReason: args.adjustmentReason,
+        changes: args.changes,
+        totalTaxBefore: args.totalTaxBefore,
+        totalTaxAfter: args.totalTaxAfter,
+      },
+    });
+  }
+
+  static createErrorLog(args: {
+    sourceId: string | undefined;
+    channelId: string | undefined;
+    errorReason: string;
+    avataxId?: string | null;
+  }) {
+    return ClientLogStoreRequest.create({
+      level: "error",
+      message: "Failed to adjust AvaTax transaction after order update",
+      checkoutOrOrderId: args.sourceId,
+      channelId: args.channelId,
+      checkoutOrOrder: "order",
+      attributes: {
+        error: {
+          reason: args.errorReason,
+        },
+        ...(args.avataxId ? { avataxTransactionId: args.avataxId } : {}),
+      },
+    });
+  }
+}
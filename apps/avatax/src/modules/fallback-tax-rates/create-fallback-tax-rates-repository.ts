@@ -0,0 +1,11 @@
+import { dynamoMainTable } from "@/modules/dynamodb/dynamo-main-table";
+
+import { FallbackTaxRateDynamoEntityFactory } from "./fallback-tax-rates-dynamo-entity";
+import { FallbackTaxRatesRepositoryDynamodb } from "./fallback-tax-rates-repository";
+
+export const createFallbackTaxRatesRepository = () => {
+  return new FallbackTaxRatesRepositoryDynamodb({
+    table: dynamoMainTable,
+    entity: FallbackTaxRateDynamoEntityFactory.create(dynamoMainTable),
+  });
+};
@@ -0,0 +1,80 @@
+import { type Client } from "urql";
+
+import { BaseError } from "@/error";
+import { createLogger } from "@/logger";
+
+import {
+  type DeleteAppMetadataMutation,
+  UntypedDeleteAppMetadataDocument,
+  UntypedUpdatePrivateMetadataDocument,
+  type UpdatePrivateMetadataMutation,
+  type UpdatePrivateMetadataMutationVariables,
+} from "../../../generated/graphql";
+import {
+  AVATAX_FALLBACK_TAX_CALCULATION_METADATA_KEY,
+  type AvataxFallbackTaxCalculationMetadata,
+} from "./fallback-tax-calculation-metadata";
+
+export class FallbackTaxCalculationMetadataManager {
+  private logger = createLogger("FallbackTaxCalculationMetadataManager");
+
+  static BaseError = BaseError.subclass("FallbackTaxCalculationMetadataManagerError");
+  static MutationError = FallbackTaxCalculationMetadataManager.BaseError.subclass(
+    "FallbackTaxCalculationMetadataManagerMutationError",
+  );
+
+  constructor(private client: Pick<Client, "mutation">) {}
+
+  async markAsCalculatedWithFallback(id: string, metadata: AvataxFallbackTaxCalculationMetadata) {
+    const variables: UpdatePrivateMetadataMutationVariables = {
+      id,
+      input: [
+        {
+          key: AVATAX_FALLBACK_TAX_CALCULATION_METADATA_KEY,
+          value: JSON.stringify(metadata),
+        },
+      ],
+    };
+
+    const { error, data } = await this.client
+      .mutation<UpdatePrivateMetadataMutation>(UntypedUpdatePrivateMetadataDocument, variables)
+      .toPromise();
+
+    const errorToReport = error ?? data?.updatePrivateMetadata?.errors[0] ?? null;
+
+    if (errorToReport) {
+      this.logger.error("Failed to update private metadata", {
+        error: errorToReport,
+      });
+
+      throw new FallbackTaxCalculationMetadataManager.MutationError(
+        "Failed to update private metadata",
+        {
+          props: { error: errorToReport },
+        },
+      );
+    }
+  }
+
+  async clear(id: string) {
+    const { error } = await this.client
+      .mutation<DeleteAppMetadataMutation>(UntypedDeleteAppMetadataDocument, {
+        id,
+        keys: [AVATAX_FALLBACK_TAX_CALCULATION_METADATA_KEY],
+      })
+      .toPromise();
+
+    if (error) {
+      this.logger.error("Failed to delete private metadata", {
+        error: error,
+      });
+
+      throw new FallbackTaxCalculationMetadataManager.MutationError(
+        "Failed to delete private metadata",
+        {
+          props: { error },
+        },
+      );
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import { z } from "zod";
+
+/**
+ * Private metadata set on checkout when its taxes were calculated with fallback rates.
+ * Saleor copies checkout metadata to the order, so the app can recalculate it at ORDER_CONFIRMED.
+ */
+export const AVATAX_FALLBACK_TAX_CALCULATION_METADATA_KEY = "avataxFallbackTaxCalculation" as const;
+
+export const avataxFallbackTaxCalculationMetadataSchema = z.object({
+  connectionId: z.string(),
+  calculatedAt: z.string().datetime(),
+});
+
+export type AvataxFallbackTaxCalculationMetadata = z.infer<
+  typeof avataxFallbackTaxCalculationMetadataSchema
+>;
+
+export const parseAvataxFallbackTaxCalculationMetadata = (
+  rawValue: string | null | undefined,
+): AvataxFallbackTaxCalculationMetadata | null => {
+  if (!rawValue) {
+    return null;
+  }
+
+  try {
+    const result = avataxFallbackTaxCalculationMetadataSchema.safeParse(JSON.parse(rawValue));
+
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,48 @@
+import { z } from "zod";
+
+/**
+ * Value of region, ZIP prefix or tax code that matches any address or line
+ */
+export const FALLBACK_TAX_RATE_WILDCARD = "*";
+
+/**
+ * Rates seeded from AvaTax responses are stored per first characters of the postal code
+ */
+export const FALLBACK_TAX_RATE_ZIP_PREFIX_LENGTH = 3;
+
+const normalizeKeyPart = (value: string) => value.replace(/\s/g, "").toUpperCase();
+
+const keyPartSchema = z
+  .string()
+  .transform(normalizeKeyPart)
+  .transform((value) => (value === "" ? FALLBACK_TAX_RATE_WILDCARD : value));
+
+export const fallbackTaxRateSchema = z.object({
+  country: z.string().transform(normalizeKeyPart).pipe(z.string().length(2)),
+  region: keyPartSchema,
+  zipPrefix: keyPartSchema,
+  taxCode: keyPartSchema,
+  /**
+   * Rate in percents, the same format as `tax_rate` returned to Saleor (e.g. 8.25)
+   */
+  rate: z.number().min(0).max(100),
+  source: z.enum(["transaction", "csv"]),
+});
+
+export type FallbackTaxRate = z.infer<typeof fallbackTaxRateSchema>;
+
+export const fallbackTaxRateUtils = {
+  normalizeKeyPart,
+  getKey(rate: Pick<FallbackTaxRate, "country" | "region" | "zipPrefix" | "taxCode">) {
+    return [rate.country, rate.region, rate.zipPrefix, rate.taxCode].join("#");
+  },
+  getZipPrefix(postalCode: string | null | undefined) {
+    const normalized = normalizeKeyPart(postalCode ?? "");
+
+    if (!normalized) {
+      return FALLBACK_TAX_RATE_WILDCARD;
+    }
+
+    return normalized.slice(0, FALLBACK_TAX_RATE_ZIP_PREFIX_LENGTH);
+  },
+};
@@ -0,0 +1,178 @@
+import { type CreateTransactionModel } from "avatax/lib/models/CreateTransactionModel";
+import { describe, expect, it } from "vitest";
+
+import { SHIPPING_ITEM_CODE } from "@/modules/avatax/calculate-taxes/avatax-shipping-line";
+
+import { type FallbackTaxRate } from "./fallback-tax-rate";
+import { FallbackTaxRatesCalculator } from "./fallback-tax-rates-calculator";
+
+const createRate = (rate: Partial<FallbackTaxRate>): FallbackTaxRate => ({
+  country: "US",
+  region: "*",
+  zipPrefix: "*",
+  taxCode: "*",
+  rate: 0,
+  source: "csv",
+  ...rate,
+});
+
+const createModel = (model: Partial<CreateTransactionModel>): CreateTransactionModel =>
+  ({
+    type: 0,
+    date: new Date(),
+    customerCode: "customer",
+    addresses: {
+      shipTo: {
+        country: "US",
+        region: "CA",
+        postalCode: "90210",
+      },
+    },
+    lines: [],
+    ...model,
+  }) as CreateTransactionModel;
+
+describe("FallbackTaxRatesCalculator", () => {
+  const calculator = new FallbackTaxRatesCalculator();
+
+  describe("findRate", () => {
+    const address = { country: "US", region: "CA", postalCode: "90210" };
+
+    it("Prefers rate with exact tax code over more specific address", () => {
+      const rates = [
+        createRate({ region: "CA", zipPrefix: "902", rate: 9.5 }),
+        createRate({ taxCode: "P0000000", rate: 7 }),
+      ];
+
+      expect(calculator.findRate({ rates, address, taxCode: "P0000000" })?.rate).toBe(7);
+    });
+
+    it("Prefers the longest matching ZIP prefix", () => {
+      const rates = [
+        createRate({ region: "CA", rate: 7.25 }),
+        createRate({ region: "CA", zipPrefix: "90", rate: 9 }),
+        createRate({ region: "CA", zipPrefix: "902", rate: 9.5 }),
+      ];
+
+      expect(calculator.findRate({ rates, address, taxCode: "P0000000" })?.rate).toBe(9.5);
+    });
+
+    it("Ignores rates for other regions and ZIP prefixes", () => {
+      const rates = [
+        createRate({ region: "NY", rate: 8 }),
+        createRate({ region: "CA", zipPrefix: "941", rate: 8.625 }),
+      ];
+
+      expect(calculator.findRate({ rates, address, taxCode: "P0000000" })).toBeUndefined();
+    });
+
+    it("Matches tax codes and postal codes regardless of case and whitespace", () => {
+      const rates = [createRate({ zipPrefix: "SW1", country: "GB", taxCode: "ABC", rate: 20 })];
+
+      expect(
+        calculator.findRate({
+          rates,
+          address: { country: "gb", postalCode: "sw1a 1aa" },
+          taxCode: "abc",
+        })?.rate,
+      ).toBe(20);
+    });
+  });
+
+  describe("calculate", () => {
+    it("Calculates lines and shipping with prices entered without tax", () => {
+      const result = calculator.calculate({
+        model: createModel({
+          lines: [
+            { amount: 100, taxIncluded: false, taxCode: "P0000000", quantity: 1 },
+            {
+              amount: 10,
+              taxIncluded: false,
+              taxCode: "FR000000",
+              quantity: 1,
+              itemCode: SHIPPING_ITEM_CODE,
+            },
+          ],
+        }),
+        rates: [createRate({ rate: 10 }), createRate({ taxCode: "FR000000", rate: 0 })],
+      });
+
+      expect(result._unsafeUnwrap()).toStrictEqual({
+        shipping_price_gross_amount: 10,
+        shipping_price_net_amount: 10,
+        shipping_tax_rate: 0,
+        lines: [{ total_gross_amount: 110, total_net_amount: 100, tax_rate: 10 }],
+      });
+    });
+
+    it("Calculates lines with prices entered with tax", () => {
+      const result = calculator.calculate({
+        model: createModel({
+          lines: [{ amount: 123, taxIncluded: true, taxCode: "P0000000", quantity: 1 }],
+        }),
+        rates: [createRate({ rate: 23 })],
+      });
+
+      expect(result._unsafeUnwrap().lines).toStrictEqual([
+        { total_gross_amount: 123, total_net_amount: 100, tax_rate: 23 },
+      ]);
+    });
+
+    it("Distributes document discount over discounted lines proportionally", () => {
+      const result = calculator.calculate({
+        model: createModel({
+          discount: 30,
+          lines: [
+            { amount: 100, taxIncluded: false, quantity: 1, discounted: true },
+            { amount: 200, taxIncluded: false, quantity: 1, discounted: true },
+            {
+              amount: 10,
+              taxIncluded: false,
+              quantity: 1,
+              itemCode: SHIPPING_ITEM_CODE,
+              discounted: false,
+            },
+          ],
+        }),
+        rates: [createRate({ rate: 10 })],
+      });
+
+      expect(result._unsafeUnwrap()).toStrictEqual({
+        shipping_price_gross_amount: 11,
+        shipping_price_net_amount: 10,
+        shipping_tax_rate: 10,
+        lines: [
+          { total_gross_amount: 99, total_net_amount: 90, tax_rate: 10 },
+          { total_gross_amount: 198, total_net_amount: 180, tax_rate: 10 },
+        ],
+      });
+    });
+
+    it("Returns NoMatchingRateError when any line has no rate", () => {
+      const result = calculator.calculate({
+        model: createModel({
+          lines: [
+            { amount: 100, taxIncluded: false, taxCode: "P0000000", quantity: 1 },
+            { amount: 100, taxIncluded: false, taxCode: "PC040100", quantity: 1 },
+          ],
+        }),
+        rates: [createRate({ taxCode: "P0000000", rate: 10 })],
+      });
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(
+        FallbackTaxRatesCalculator.NoMatchingRateError,
+      );
+    });
+
+    it("Returns MissingAddressError when ship to address is missing", () => {
+      const result = calculator.calculate({
+        model: createModel({ addresses: {}, lines: [] }),
+        rates: [createRate({ rate: 10 })],
+      });
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(
+        FallbackTaxRatesCalculator.MissingAddressError,
+      );
+    });
+  });
+});
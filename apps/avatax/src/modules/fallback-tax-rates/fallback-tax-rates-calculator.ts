@@ -0,0 +1,176 @@
+import { type AddressLocationInfo } from "avatax/lib/models/AddressLocationInfo";
+import { type CreateTransactionModel } from "avatax/lib/models/CreateTransactionModel";
+import { type LineItemModel } from "avatax/lib/models/LineItemModel";
+import Decimal from "decimal.js-light";
+import { err, ok, type Result } from "neverthrow";
+
+import { BaseError } from "@/error";
+import { SHIPPING_ITEM_CODE } from "@/modules/avatax/calculate-taxes/avatax-shipping-line";
+import { type CalculateTaxesResponse } from "@/modules/taxes/tax-provider-webhook";
+
+import {
+  FALLBACK_TAX_RATE_WILDCARD,
+  type FallbackTaxRate,
+  fallbackTaxRateUtils,
+} from "./fallback-tax-rate";
+
+type CalculatedLine = CalculateTaxesResponse["lines"][number];
+
+/**
+ * Calculates taxes for the same model that would be sent to AvaTax createTransaction,
+ * using rates stored locally. Used only when AvaTax doesn't respond.
+ */
+export class FallbackTaxRatesCalculator {
+  static FallbackTaxRatesCalculatorError = BaseError.subclass("FallbackTaxRatesCalculatorError");
+  static MissingAddressError = this.FallbackTaxRatesCalculatorError.subclass(
+    "FallbackTaxRatesMissingAddressError",
+  );
+  static NoMatchingRateError = this.FallbackTaxRatesCalculatorError.subclass(
+    "FallbackTaxRatesNoMatchingRateError",
+  );
+
+  private matches(pattern: string, value: string) {
+    return pattern === FALLBACK_TAX_RATE_WILDCARD || pattern === value;
+  }
+
+  /**
+   * The most specific rate wins: exact tax code first, then the longest ZIP prefix, then region
+   */
+  private getSpecificity(rate: FallbackTaxRate) {
+    const taxCodeScore = rate.taxCode === FALLBACK_TAX_RATE_WILDCARD ? 0 : 1000;
+    const zipPrefixScore =
+      rate.zipPrefix === FALLBACK_TAX_RATE_WILDCARD ? 0 : rate.zipPrefix.length * 10;
+    const regionScore = rate.region === FALLBACK_TAX_RATE_WILDCARD ? 0 : 1;
+
+    return taxCodeScore + zipPrefixScore + regionScore;
+  }
+
+  findRate({
+    rates,
+    address,
+    taxCode,
+  }: {
+    rates: FallbackTaxRate[];
+    address: AddressLocationInfo;
+    taxCode: string | undefined;
+  }): FallbackTaxRate | undefined {
+    const country = fallbackTaxRateUtils.normalizeKeyPart(address.country ?? "");
+    const region = fallbackTaxRateUtils.normalizeKeyPart(address.region ?? "");
+    const postalCode = fallbackTaxRateUtils.normalizeKeyPart(address.postalCode ?? "");
+    const normalizedTaxCode = fallbackTaxRateUtils.normalizeKeyPart(taxCode ?? "");
+
+    const candidates = rates.filter(
+      (rate) =>
+        rate.country === country &&
+        this.matches(rate.region, region) &&
+        (rate.zipPrefix === FALLBACK_TAX_RATE_WILDCARD || postalCode.startsWith(rate.zipPrefix)) &&
+        this.matches(rate.taxCode, normalizedTaxCode),
+    );
+
+    return candidates.sort((a, b) => this.getSpecificity(b) - this.getSpecificity(a))[0];
+  }
+
+  /**
+   * AvaTax spreads the document discount over the lines marked as discounted, proportionally to their amounts
+   */
+  private distributeDiscount(lines: LineItemModel[], discount: number | undefined) {
+    const discountedLinesTotal = lines
+      .filter((line) => line.discounted)
+      .reduce((sum, line) => sum.add(line.amount), new Decimal(0));
+
+    if (!discount || discountedLinesTotal.isZero()) {
+      return lines.map(() => new Decimal(0));
+    }
+
+    const totalDiscount = discountedLinesTotal.lt(discount)
+      ? discountedLinesTotal
+      : new Decimal(discount);
+
+    return lines.map((line) =>
+      line.discounted
+        ? totalDiscount.times(line.amount).div(discountedLinesTotal).toDecimalPlaces(2)
+        : new Decimal(0),
+    );
+  }
+
+  private calculateLine({
+    line,
+    discount,
+    rate,
+  }: {
+    line: LineItemModel;
+    discount: Decimal;
+    rate: number;
+  }): CalculatedLine {
+    const discountedAmount = new Decimal(line.amount).sub(discount);
+    const amount = discountedAmount.isNegative() ? new Decimal(0) : discountedAmount;
+    const multiplier = new Decimal(rate).div(100).add(1);
+
+    if (line.taxIncluded) {
+      return {
+        total_gross_amount: amount.toDecimalPlaces(2).toNumber(),
+        total_net_amount: amount.div(multiplier).toDecimalPlaces(2).toNumber(),
+        tax_rate: rate,
+      };
+    }
+
+    return {
+      total_gross_amount: amount.times(multiplier).toDecimalPlaces(2).toNumber(),
+      total_net_amount: amount.toDecimalPlaces(2).toNumber(),
+      tax_rate: rate,
+    };
+  }
+
+  calculate({
+    model,
+    rates,
+  }: {
+    model: CreateTransactionModel;
+    rates: FallbackTaxRate[];
+  }): Result<
+    CalculateTaxesResponse,
+    InstanceType<typeof FallbackTaxRatesCalculator.FallbackTaxRatesCalculatorError>
+  > {
+    const address = model.addresses?.shipTo;
+
+    if (!address?.country) {
+      return err(
+        new FallbackTaxRatesCalculator.MissingAddressError(
+          "Ship to address is required to calculate taxes with fallback rates",
+        ),
+      );
+    }
+
+    const discounts = this.distributeDiscount(model.lines, model.discount);
+
+    const calculatedLines: Array<{ itemCode: string | undefined; calculated: CalculatedLine }> = [];
+
+    for (const [index, line] of model.lines.entries()) {
+      const rate = this.findRate({ rates, address, taxCode: line.taxCode });
+
+      if (!rate) {
+        return err(
+          new FallbackTaxRatesCalculator.NoMatchingRateError(
+            `No fallback rate matches line with tax code "${line.taxCode ?? ""}"`,
+          ),
+        );
+      }
+
+      calculatedLines.push({
+        itemCode: line.itemCode,
+        calculated: this.calculateLine({ line, discount: discounts[index], rate: rate.rate }),
+      });
+    }
+
+    const shippingLine = calculatedLines.find((line) => line.itemCode === SHIPPING_ITEM_CODE);
+
+    return ok({
+      shipping_price_gross_amount: shippingLine?.calculated.total_gross_amount ?? 0,
+      shipping_price_net_amount: shippingLine?.calculated.total_net_amount ?? 0,
+      shipping_tax_rate: shippingLine?.calculated.tax_rate ?? 0,
+      lines: calculatedLines
+        .filter((line) => line.itemCode !== SHIPPING_ITEM_CODE)
+        .map((line) => line.calculated),
+    });
+  }
+}
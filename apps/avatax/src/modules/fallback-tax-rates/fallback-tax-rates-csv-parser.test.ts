@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+
+import { FallbackTaxRatesCsvParser } from "./fallback-tax-rates-csv-parser";
+
+describe("FallbackTaxRatesCsvParser", () => {
+  const parser = new FallbackTaxRatesCsvParser();
+
+  it("Parses rates and normalizes empty values to wildcards", () => {
+    const result = parser.parse(
+      ["country,region,zip_prefix,tax_code,rate", "us,CA,900,P0000000,9.5", "US,NY,,*,8", ""].join(
+        "\r\n",
+      ),
+    );
+
+    expect(result._unsafeUnwrap()).toStrictEqual([
+      {
+        country: "US",
+        region: "CA",
+        zipPrefix: "900",
+        taxCode: "P0000000",
+        rate: 9.5,
+        source: "csv",
+      },
+      {
+        country: "US",
+        region: "NY",
+        zipPrefix: "*",
+        taxCode: "*",
+        rate: 8,
+        source: "csv",
+      },
+    ]);
+  });
+
+  it("Returns error when header doesn't match", () => {
+    const result = parser.parse(["country,state,zip,rate", "US,CA,900,9.5"].join("\n"));
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(FallbackTaxRatesCsvParser.InvalidCsvError);
+  });
+
+  it("Returns error with row number when rate is invalid", () => {
+    const result = parser.parse(
+      ["country,region,zip_prefix,tax_code,rate", "US,CA,900,P0000000,9.5", "US,NY,,,abc"].join(
+        "\n",
+      ),
+    );
+
+    expect(result._unsafeUnwrapErr().message).toBe(
+      "Row 3 is invalid (rate: Expected number, received nan)",
+    );
+  });
+
+  it("Returns error when country is not a two-letter code", () => {
+    const result = parser.parse(
+      ["country,region,zip_prefix,tax_code,rate", "USA,CA,900,P0000000,9.5"].join("\n"),
+    );
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(FallbackTaxRatesCsvParser.InvalidCsvError);
+  });
+
+  it("Returns error when CSV is empty", () => {
+    expect(parser.parse("")._unsafeUnwrapErr()).toBeInstanceOf(
+      FallbackTaxRatesCsvParser.InvalidCsvError,
+    );
+  });
+});
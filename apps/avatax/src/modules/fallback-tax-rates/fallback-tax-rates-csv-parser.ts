@@ -0,0 +1,95 @@
+import { err, ok, type Result } from "neverthrow";
+
+import { BaseError } from "@/error";
+
+import { type FallbackTaxRate, fallbackTaxRateSchema } from "./fallback-tax-rate";
+
+const CSV_COLUMNS = ["country", "region", "zip_prefix", "tax_code", "rate"] as const;
+
+const MAX_ROWS = 5000;
+
+/**
+ * Parses CSV uploaded in the configuration, e.g.:
+ *
+ * country,region,zip_prefix,tax_code,rate
+ * US,CA,900,P0000000,9.5
+ * US,NY,*,*,8
+ *
+ * Empty region, ZIP prefix or tax code (or "*") matches any value.
+ */
+export class FallbackTaxRatesCsvParser {
+  static InvalidCsvError = BaseError.subclass("InvalidCsvError");
+
+  private splitRow(row: string) {
+    return row.split(",").map((cell) => cell.trim().replace(/^"(.*)"$/, "$1"));
+  }
+
+  parse(
+    csv: string,
+  ): Result<FallbackTaxRate[], InstanceType<typeof FallbackTaxRatesCsvParser.InvalidCsvError>> {
+    const [headerRow, ...rows] = csv
+      .split(/\r?\n/)
+      .map((row) => row.trim())
+      .filter((row) => row.length > 0);
+
+    if (!headerRow) {
+      return err(new FallbackTaxRatesCsvParser.InvalidCsvError("CSV file is empty"));
+    }
+
+    const header = this.splitRow(headerRow).map((column) => column.toLowerCase());
+
+    if (header.join(",") !== CSV_COLUMNS.join(",")) {
+      return err(
+        new FallbackTaxRatesCsvParser.InvalidCsvError(
+          `CSV header must be: ${CSV_COLUMNS.join(",")}`,
+        ),
+      );
+    }
+
+    if (rows.length > MAX_ROWS) {
+      return err(
+        new FallbackTaxRatesCsvParser.InvalidCsvError(`CSV can contain at most ${MAX_ROWS} rates`),
+      );
+    }
+
+    const rates: FallbackTaxRate[] = [];
+
+    for (const [index, row] of rows.entries()) {
+      const rowNumber = index + 2;
+      const cells = this.splitRow(row);
+
+      if (cells.length !== CSV_COLUMNS.length) {
+        return err(
+          new FallbackTaxRatesCsvParser.InvalidCsvError(
+            `Row ${rowNumber} must have ${CSV_COLUMNS.length} columns`,
+          ),
+        );
+      }
+
+      const [country, region, zipPrefix, taxCode, rate] = cells;
+
+      const parseResult = fallbackTaxRateSchema.safeParse({
+        country,
+        region,
+        zipPrefix,
+        taxCode,
+        rate: rate === "" ? Number.NaN : Number(rate),
+        source: "csv",
+      });
+
+      if (!parseResult.success) {
+        const issues = parseResult.error.issues
+          .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+          .join(", ");
+
+        return err(
+          new FallbackTaxRatesCsvParser.InvalidCsvError(`Row ${rowNumber} is invalid (${issues})`),
+        );
+      }
+
+      rates.push(parseResult.data);
+    }
+
+    return ok(rates);
+  }
+}
@@ -0,0 +1,50 @@
+import { Entity, item, number, string } from "dynamodb-toolbox";
+
+import { type dynamoMainTable } from "@/modules/dynamodb/dynamo-main-table";
+
+type DynamoMainTable = typeof dynamoMainTable;
+
+export const FallbackTaxRatesDynamoKeys = {
+  getPrimaryKey({ saleorApiUrl, appId }: { saleorApiUrl: string; appId: string }) {
+    return `${saleorApiUrl}#${appId}`;
+  },
+  getSortKeyPrefix({ connectionId }: { connectionId: string }) {
+    return `FALLBACK_TAX_RATE#${connectionId}#`;
+  },
+};
+
+export const FallbackTaxRateDynamoSchema = item({
+  PK: string().key(),
+  connectionId: string().key(),
+  country: string().key(),
+  region: string().key(),
+  zipPrefix: string().key(),
+  taxCode: string().key(),
+  rate: number().required(),
+  source: string().enum("transaction", "csv").required(),
+  updatedAt: string()
+    .required()
+    .default(() => new Date().toISOString()),
+}).and((prevSchema) => ({
+  SK: string()
+    .key()
+    .link<typeof prevSchema>(
+      ({ connectionId, country, region, zipPrefix, taxCode }) =>
+        `${FallbackTaxRatesDynamoKeys.getSortKeyPrefix({
+          connectionId,
+        })}${country}#${region}#${zipPrefix}#${taxCode}`,
+    ),
+}));
+
+export const FallbackTaxRateDynamoEntityFactory = {
+  create: (table: DynamoMainTable) => {
+    return new Entity({
+      table,
+      schema: FallbackTaxRateDynamoSchema,
+      name: "FALLBACK_TAX_RATE",
+      timestamps: false,
+    });
+  },
+};
+
+export type FallbackTaxRateEntity = ReturnType<typeof FallbackTaxRateDynamoEntityFactory.create>;
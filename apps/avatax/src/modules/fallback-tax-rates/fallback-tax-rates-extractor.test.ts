@@ -0,0 +1,73 @@
+import { type TransactionModel } from "avatax/lib/models/TransactionModel";
+import { describe, expect, it } from "vitest";
+
+import { extractFallbackTaxRatesFromTransaction } from "./fallback-tax-rates-extractor";
+
+const address = {
+  country: "US",
+  region: "CA",
+  postalCode: "90210-1234",
+};
+
+describe("extractFallbackTaxRatesFromTransaction", () => {
+  it("Creates rate per tax code from line details, keyed by address and ZIP prefix", () => {
+    const transaction = {
+      lines: [
+        {
+          taxCode: "P0000000",
+          isItemTaxable: true,
+          details: [{ rate: 0.0625 }, { rate: 0.01 }, { rate: 0.0225 }],
+        },
+        {
+          taxCode: "FR000000",
+          isItemTaxable: false,
+          details: [],
+        },
+      ],
+    } as TransactionModel;
+
+    expect(extractFallbackTaxRatesFromTransaction({ transaction, address })).toStrictEqual([
+      {
+        country: "US",
+        region: "CA",
+        zipPrefix: "902",
+        taxCode: "P0000000",
+        rate: 9.5,
+        source: "transaction",
+      },
+      {
+        country: "US",
+        region: "CA",
+        zipPrefix: "902",
+        taxCode: "FR000000",
+        rate: 0,
+        source: "transaction",
+      },
+    ]);
+  });
+
+  it("Skips lines with customer exemption", () => {
+    const transaction = {
+      lines: [
+        {
+          taxCode: "P0000000",
+          isItemTaxable: true,
+          exemptAmount: 100,
+          details: [{ rate: 0.0725 }],
+        },
+      ],
+    } as TransactionModel;
+
+    expect(extractFallbackTaxRatesFromTransaction({ transaction, address })).toStrictEqual([]);
+  });
+
+  it("Returns no rates when address has no country", () => {
+    const transaction = {
+      lines: [{ taxCode: "P0000000", isItemTaxable: true, details: [{ rate: 0.0725 }] }],
+    } as TransactionModel;
+
+    expect(
+      extractFallbackTaxRatesFromTransaction({ transaction, address: { postalCode: "90210" } }),
+    ).toStrictEqual([]);
+  });
+});
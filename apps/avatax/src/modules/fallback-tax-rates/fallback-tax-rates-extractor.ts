@@ -0,0 +1,57 @@
+import { type AddressLocationInfo } from "avatax/lib/models/AddressLocationInfo";
+import { type TransactionModel } from "avatax/lib/models/TransactionModel";
+
+import { extractIntegerRateFromTaxDetailsRates } from "@/modules/avatax/calculate-taxes/extract-integer-rate-from-tax-details";
+
+import {
+  FALLBACK_TAX_RATE_WILDCARD,
+  type FallbackTaxRate,
+  fallbackTaxRateUtils,
+} from "./fallback-tax-rate";
+
+/**
+ * Builds fallback rates from a successful AvaTax response, so the table follows rates AvaTax currently returns.
+ * Lines with customer exemptions are skipped - their rates are specific to the customer, not to the address.
+ */
+export const extractFallbackTaxRatesFromTransaction = ({
+  transaction,
+  address,
+}: {
+  transaction: TransactionModel;
+  address: AddressLocationInfo;
+}): FallbackTaxRate[] => {
+  const country = fallbackTaxRateUtils.normalizeKeyPart(address.country ?? "");
+
+  if (!country) {
+    return [];
+  }
+
+  const region = fallbackTaxRateUtils.normalizeKeyPart(address.region ?? "");
+  const zipPrefix = fallbackTaxRateUtils.getZipPrefix(address.postalCode);
+
+  const ratesByKey = new Map<string, FallbackTaxRate>();
+
+  for (const line of transaction.lines ?? []) {
+    const taxCode = fallbackTaxRateUtils.normalizeKeyPart(line.taxCode ?? "");
+    const isExempt = (line.exemptAmount ?? 0) > 0 || !!line.exemptCertId;
+
+    if (!taxCode || isExempt) {
+      continue;
+    }
+
+    const rate: FallbackTaxRate = {
+      country,
+      region: region || FALLBACK_TAX_RATE_WILDCARD,
+      zipPrefix,
+      taxCode,
+      rate: line.isItemTaxable
+        ? extractIntegerRateFromTaxDetailsRates(line.details?.map((details) => details.rate))
+        : 0,
+      source: "transaction",
+    };
+
+    ratesByKey.set(fallbackTaxRateUtils.getKey(rate), rate);
+  }
+
+  return Array.from(ratesByKey.values());
+};
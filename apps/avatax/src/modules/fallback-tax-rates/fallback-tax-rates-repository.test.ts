@@ -0,0 +1,136 @@
+import { BatchWriteCommand, DynamoDBDocumentClient, QueryCommand } from "@aws-sdk/lib-dynamodb";
+import { mockClient } from "aws-sdk-client-mock";
+import { Table } from "dynamodb-toolbox";
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { type FallbackTaxRate } from "./fallback-tax-rate";
+import { FallbackTaxRateDynamoEntityFactory } from "./fallback-tax-rates-dynamo-entity";
+import {
+  FallbackTaxRatesRepositoryDynamodb,
+  FallbackTaxRatesRepositoryMemory,
+} from "./fallback-tax-rates-repository";
+
+const saleorApiUrl = "https://test.com/graphql/";
+const appId = "123456";
+const connectionId = "connection-1";
+
+const rate: FallbackTaxRate = {
+  country: "US",
+  region: "CA",
+  zipPrefix: "902",
+  taxCode: "P0000000",
+  rate: 9.5,
+  source: "transaction",
+};
+
+describe("FallbackTaxRatesRepositoryDynamodb", () => {
+  const mockDocumentClient = mockClient(DynamoDBDocumentClient);
+  const tableName = "test-main-table";
+
+  const table = new Table({
+    // @ts-expect-error mocking DynamoDBDocumentClient
+    documentClient: mockDocumentClient,
+    name: tableName,
+    partitionKey: { name: "PK", type: "string" },
+    sortKey: { name: "SK", type: "string" },
+  });
+  const entity = FallbackTaxRateDynamoEntityFactory.create(table);
+  const repository = new FallbackTaxRatesRepositoryDynamodb({ table, entity });
+
+  beforeEach(() => {
+    mockDocumentClient.reset();
+  });
+
+  it("Writes rates with keys scoped to installation and connection", async () => {
+    mockDocumentClient.on(BatchWriteCommand).resolves({});
+
+    const result = await repository.saveRates({ saleorApiUrl, appId, connectionId, rates: [rate] });
+
+    expect(result.isOk()).toBe(true);
+
+    const items =
+      mockDocumentClient.commandCalls(BatchWriteCommand)[0].args[0].input.RequestItems![tableName];
+
+    expect(items[0].PutRequest!.Item).toStrictEqual(
+      expect.objectContaining({
+        PK: `${saleorApiUrl}#${appId}`,
+        SK: "FALLBACK_TAX_RATE#connection-1#US#CA#902#P0000000",
+        rate: 9.5,
+        source: "transaction",
+      }),
+    );
+  });
+
+  it("Splits writes into batches of 25 items", async () => {
+    mockDocumentClient.on(BatchWriteCommand).resolves({});
+
+    await repository.saveRates({
+      saleorApiUrl,
+      appId,
+      connectionId,
+      rates: Array.from({ length: 30 }, (_, index) => ({ ...rate, zipPrefix: `9${index}` })),
+    });
+
+    expect(mockDocumentClient.commandCalls(BatchWriteCommand)).toHaveLength(2);
+  });
+
+  it("Returns WriteError when DynamoDB fails", async () => {
+    mockDocumentClient.on(BatchWriteCommand).rejects(new Error("DynamoDB error"));
+
+    const result = await repository.saveRates({ saleorApiUrl, appId, connectionId, rates: [rate] });
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(FallbackTaxRatesRepositoryDynamodb.WriteError);
+  });
+
+  it("Fetches rates of the connection", async () => {
+    mockDocumentClient.on(QueryCommand).resolves({
+      Items: [
+        {
+          PK: `${saleorApiUrl}#${appId}`,
+          SK: "FALLBACK_TAX_RATE#connection-1#US#CA#902#P0000000",
+          _et: "FALLBACK_TAX_RATE",
+          connectionId,
+          updatedAt: new Date().toISOString(),
+          ...rate,
+        },
+      ],
+    });
+
+    const result = await repository.getRates({ saleorApiUrl, appId, connectionId });
+
+    expect(result._unsafeUnwrap()).toStrictEqual([rate]);
+    expect(
+      Object.values(
+        mockDocumentClient.commandCalls(QueryCommand)[0].args[0].input.ExpressionAttributeValues!,
+      ),
+    ).toStrictEqual(
+      expect.arrayContaining([`${saleorApiUrl}#${appId}`, "FALLBACK_TAX_RATE#connection-1#"]),
+    );
+  });
+
+  it("Returns FetchError when DynamoDB fails", async () => {
+    mockDocumentClient.on(QueryCommand).rejects(new Error("DynamoDB error"));
+
+    const result = await repository.getRates({ saleorApiUrl, appId, connectionId });
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(FallbackTaxRatesRepositoryDynamodb.FetchError);
+  });
+});
+
+describe("FallbackTaxRatesRepositoryMemory", () => {
+  it("Upserts rates by their key", async () => {
+    const repository = new FallbackTaxRatesRepositoryMemory();
+
+    await repository.saveRates({ saleorApiUrl, appId, connectionId, rates: [rate] });
+    await repository.saveRates({
+      saleorApiUrl,
+      appId,
+      connectionId,
+      rates: [{ ...rate, rate: 10 }],
+    });
+
+    const result = await repository.getRates({ saleorApiUrl, appId, connectionId });
+
+    expect(result._unsafeUnwrap()).toStrictEqual([{ ...rate, rate: 10 }]);
+  });
+});
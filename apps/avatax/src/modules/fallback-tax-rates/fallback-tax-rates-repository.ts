@@ -0,0 +1,238 @@
+import {
+  BatchDeleteRequest,
+  BatchPutRequest,
+  BatchWriteCommand,
+  executeBatchWrite,
+  QueryCommand,
+} from "dynamodb-toolbox";
+import { err, ok, type Result, ResultAsync } from "neverthrow";
+
+import { BaseError } from "@/error";
+import { createLogger } from "@/logger";
+import { type dynamoMainTable } from "@/modules/dynamodb/dynamo-main-table";
+
+import { type FallbackTaxRate, fallbackTaxRateUtils } from "./fallback-tax-rate";
+import {
+  type FallbackTaxRateEntity,
+  FallbackTaxRatesDynamoKeys,
+} from "./fallback-tax-rates-dynamo-entity";
+
+type RepositoryAccess = {
+  saleorApiUrl: string;
+  appId: string;
+  connectionId: string;
+};
+
+export interface IFallbackTaxRatesRepository {
+  getRates(args: RepositoryAccess): Promise<Result<FallbackTaxRate[], unknown>>;
+  saveRates(
+    args: RepositoryAccess & { rates: FallbackTaxRate[] },
+  ): Promise<Result<undefined, unknown>>;
+  deleteRates(args: RepositoryAccess): Promise<Result<undefined, unknown>>;
+}
+
+/**
+ * DynamoDB allows at most 25 items in a single batch write
+ */
+const BATCH_WRITE_LIMIT = 25;
+
+/**
+ * Upper bound of queried pages, so broken data can't block the tax calculation
+ */
+const MAX_QUERY_PAGES = 10;
+
+const chunk = <T>(items: T[], size: number) => {
+  const chunks: T[][] = [];
+
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+
+  return chunks;
+};
+
+/**
+ * DynamoDB fallback tax rates repository. Rates are stored in the main table, per connection.
+ */
+export class FallbackTaxRatesRepositoryDynamodb implements IFallbackTaxRatesRepository {
+  private table: typeof dynamoMainTable;
+  private entity: FallbackTaxRateEntity;
+  private logger = createLogger("FallbackTaxRatesRepositoryDynamodb");
+
+  constructor({ table, entity }: { table: typeof dynamoMainTable; entity: FallbackTaxRateEntity }) {
+    this.table = table;
+    this.entity = entity;
+  }
+
+  static FallbackTaxRatesRepositoryError = BaseError.subclass("FallbackTaxRatesRepositoryError");
+  static FetchError = this.FallbackTaxRatesRepositoryError.subclass("FallbackTaxRatesFetchError");
+  static WriteError = this.FallbackTaxRatesRepositoryError.subclass("FallbackTaxRatesWriteError");
+
+  async getRates({
+    saleorApiUrl,
+    appId,
+    connectionId,
+  }: RepositoryAccess): Promise<
+    Result<FallbackTaxRate[], InstanceType<typeof FallbackTaxRatesRepositoryDynamodb.FetchError>>
+  > {
+    const fetchResult = await ResultAsync.fromPromise(
+      this.table
+        .build(QueryCommand)
+        .query({
+          partition: FallbackTaxRatesDynamoKeys.getPrimaryKey({ saleorApiUrl, appId }),
+          range: {
+            beginsWith: FallbackTaxRatesDynamoKeys.getSortKeyPrefix({ connectionId }),
+          },
+        })
+        .entities(this.entity)
+        .options({ maxPages: MAX_QUERY_PAGES })
+        .send(),
+      (error) =>
+        new FallbackTaxRatesRepositoryDynamodb.FetchError(
+          "Error while fetching fallback tax rates from DynamoDB",
+          { cause: error },
+        ),
+    );
+
+    if (fetchResult.isErr()) {
+      this.logger.warn("Error while fetching fallback tax rates from DynamoDB", {
+        error: fetchResult.error,
+      });
+
+      return err(fetchResult.error);
+    }
+
+    const rates = (fetchResult.value.Items ?? []).map(
+      (item): FallbackTaxRate => ({
+        country: item.country,
+        region: item.region,
+        zipPrefix: item.zipPrefix,
+        taxCode: item.taxCode,
+        rate: item.rate,
+        source: item.source,
+      }),
+    );
+
+    this.logger.debug("Fetched fallback tax rates from DynamoDB", { count: rates.length });
+
+    return ok(rates);
+  }
+
+  private async executeInBatches(
+    requests: Array<
+      BatchPutRequest<FallbackTaxRateEntity> | BatchDeleteRequest<FallbackTaxRateEntity>
+    >,
+  ) {
+    for (const requestsChunk of chunk(requests, BATCH_WRITE_LIMIT)) {
+      const result = await ResultAsync.fromPromise(
+        executeBatchWrite(this.table.build(BatchWriteCommand).requests(...requestsChunk)),
+        (error) =>
+          new FallbackTaxRatesRepositoryDynamodb.WriteError(
+            "Error while writing fallback tax rates to DynamoDB",
+            { cause: error },
+          ),
+      );
+
+      if (result.isErr()) {
+        this.logger.warn("Error while writing fallback tax rates to DynamoDB", {
+          error: result.error,
+        });
+
+        return err(result.error);
+      }
+    }
+
+    return ok(undefined);
+  }
+
+  async saveRates({
+    saleorApiUrl,
+    appId,
+    connectionId,
+    rates,
+  }: RepositoryAccess & { rates: FallbackTaxRate[] }): Promise<
+    Result<undefined, InstanceType<typeof FallbackTaxRatesRepositoryDynamodb.WriteError>>
+  > {
+    const PK = FallbackTaxRatesDynamoKeys.getPrimaryKey({ saleorApiUrl, appId });
+
+    return this.executeInBatches(
+      rates.map((rate) =>
+        this.entity.build(BatchPutRequest).item({
+          PK,
+          connectionId,
+          ...rate,
+        }),
+      ),
+    );
+  }
+
+  async deleteRates(
+    args: RepositoryAccess,
+  ): Promise<
+    Result<
+      undefined,
+      | InstanceType<typeof FallbackTaxRatesRepositoryDynamodb.FetchError>
+      | InstanceType<typeof FallbackTaxRatesRepositoryDynamodb.WriteError>
+    >
+  > {
+    const rates = await this.getRates(args);
+
+    if (rates.isErr()) {
+      return err(rates.error);
+    }
+
+    const PK = FallbackTaxRatesDynamoKeys.getPrimaryKey(args);
+
+    return this.executeInBatches(
+      rates.value.map((rate) =>
+        this.entity.build(BatchDeleteRequest).key({
+          PK,
+          connectionId: args.connectionId,
+          country: rate.country,
+          region: rate.region,
+          zipPrefix: rate.zipPrefix,
+          taxCode: rate.taxCode,
+        }),
+      ),
+    );
+  }
+}
+
+/**
+ * In-memory repository to be used for testing
+ */
+export class FallbackTaxRatesRepositoryMemory implements IFallbackTaxRatesRepository {
+  public rates = new Map<string, FallbackTaxRate[]>();
+
+  private getConnectionKey({ saleorApiUrl, appId, connectionId }: RepositoryAccess) {
+    return `${saleorApiUrl}#${appId}#${connectionId}`;
+  }
+
+  async getRates(args: RepositoryAccess): Promise<Result<FallbackTaxRate[], never>> {
+    return ok(this.rates.get(this.getConnectionKey(args)) ?? []);
+  }
+
+  async saveRates({
+    rates,
+    ...args
+  }: RepositoryAccess & { rates: FallbackTaxRate[] }): Promise<Result<undefined, never>> {
+    const ratesByKey = new Map(
+      (this.rates.get(this.getConnectionKey(args)) ?? []).map((rate) => [
+        fallbackTaxRateUtils.getKey(rate),
+        rate,
+      ]),
+    );
+
+    rates.forEach((rate) => ratesByKey.set(fallbackTaxRateUtils.getKey(rate), rate));
+
+    this.rates.set(this.getConnectionKey(args), Array.from(ratesByKey.values()));
+
+    return ok(undefined);
+  }
+
+  async deleteRates(args: RepositoryAccess): Promise<Result<undefined, never>> {
+    this.rates.delete(this.getConnectionKey(args));
+
+    return ok(undefined);
+  }
+}
@@ -0,0 +1,124 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import { createLogger } from "@/logger";
+import { protectedClientProcedure } from "@/modules/trpc/protected-client-procedure";
+import { router } from "@/modules/trpc/trpc-server";
+
+import { createFallbackTaxRatesRepository } from "./create-fallback-tax-rates-repository";
+import { FallbackTaxRatesCsvParser } from "./fallback-tax-rates-csv-parser";
+
+const connectionInputSchema = z.object({
+  connectionId: z.string(),
+});
+
+const procedureWithFallbackTaxRatesRepository = protectedClientProcedure.use(({ ctx, next }) => {
+  return next({
+    ctx: {
+      ...ctx,
+      fallbackTaxRatesRepository: createFallbackTaxRatesRepository(),
+    },
+  });
+});
+
+/**
+ * Manages rate table used when AvaTax is unavailable, see FallbackTaxRatesCalculator
+ */
+export const fallbackTaxRatesRouter = router({
+  getSummary: procedureWithFallbackTaxRatesRepository
+    .input(connectionInputSchema)
+    .query(async ({ input, ctx }) => {
+      const logger = createLogger("fallbackTaxRatesRouter.getSummary", {
+        connectionId: input.connectionId,
+      });
+
+      const ratesResult = await ctx.fallbackTaxRatesRepository.getRates({
+        saleorApiUrl: ctx.saleorApiUrl,
+        appId: ctx.appId,
+        connectionId: input.connectionId,
+      });
+
+      if (ratesResult.isErr()) {
+        logger.error("Failed to fetch fallback tax rates", { error: ratesResult.error });
+
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to fetch fallback tax rates",
+        });
+      }
+
+      return {
+        transactionRatesCount: ratesResult.value.filter((rate) => rate.source === "transaction")
+          .length,
+        csvRatesCount: ratesResult.value.filter((rate) => rate.source === "csv").length,
+      };
+    }),
+  importCsv: procedureWithFallbackTaxRatesRepository
+    .input(
+      connectionInputSchema.extend({
+        csv: z.string().min(1),
+      }),
+    )
+    .mutation(async ({ input, ctx }) => {
+      const logger = createLogger("fallbackTaxRatesRouter.importCsv", {
+        connectionId: input.connectionId,
+      });
+
+      const parseResult = new FallbackTaxRatesCsvParser().parse(input.csv);
+
+      if (parseResult.isErr()) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: parseResult.error.message,
+        });
+      }
+
+      const saveResult = await ctx.fallbackTaxRatesRepository.saveRates({
+        saleorApiUrl: ctx.saleorApiUrl,
+        appId: ctx.appId,
+        connectionId: input.connectionId,
+        rates: parseResult.value,
+      });
+
+      if (saveResult.isErr()) {
+        logger.error("Failed to save fallback tax rates", { error: saveResult.error });
+
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to save fallback tax rates",
+        });
+      }
+
+      logger.info("Imported fallback tax rates from CSV", {
+        ratesCount: parseResult.value.length,
+      });
+
+      return {
+        importedCount: parseResult.value.length,
+      };
+    }),
+  deleteAll: procedureWithFallbackTaxRatesRepository
+    .input(connectionInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      const logger = createLogger("fallbackTaxRatesRouter.deleteAll", {
+        connectionId: input.connectionId,
+      });
+
+      const deleteResult = await ctx.fallbackTaxRatesRepository.deleteRates({
+        saleorApiUrl: ctx.saleorApiUrl,
+        appId: ctx.appId,
+        connectionId: input.connectionId,
+      });
+
+      if (deleteResult.isErr()) {
+        logger.error("Failed to delete fallback tax rates", { error: deleteResult.error });
+
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to delete fallback tax rates",
+        });
+      }
+
+      logger.info("Deleted fallback tax rates");
+    }),
+});
@@ -0,0 +1,114 @@
+import { useDashboardNotification } from "@saleor/apps-shared/use-dashboard-notification";
+import { Box, Button, Skeleton, Text } from "@saleor/macaw-ui";
+import React from "react";
+
+import { trpcClient } from "../../trpc/trpc-client";
+import { AppCard } from "../../ui/app-card";
+import { Section } from "../../ui/app-section";
+
+const Intro = () => {
+  return (
+    <Section.Description
+      title="Fallback tax rates"
+      description={
+        <>
+          <Text as="p" marginBottom={8}>
+            Rates used to calculate checkout taxes when AvaTax times out and the fallback rate table
+            is selected in the settings. Rates are stored from recent AvaTax responses and can be
+            extended by importing a CSV file.
+          </Text>
+          <Text as="p">
+            The CSV file must have <i>country,region,zip_prefix,tax_code,rate</i> header. Empty
+            region, ZIP prefix or tax code matches any value. Rate is a percentage, e.g.{" "}
+            <i>US,CA,900,P0000000,9.5</i>.
+          </Text>
+        </>
+      }
+    />
+  );
+};
+
+const FallbackTaxRatesCard = ({ connectionId }: { connectionId: string }) => {
+  const { notifySuccess, notifyError } = useDashboardNotification();
+  const inputRef = React.useRef<HTMLInputElement>(null);
+
+  const { data, isLoading, refetch } = trpcClient.fallbackTaxRates.getSummary.useQuery({
+    connectionId,
+  });
+
+  const { mutate: importCsv, isLoading: isImportLoading } =
+    trpcClient.fallbackTaxRates.importCsv.useMutation({
+      onSuccess({ importedCount }) {
+        notifySuccess("Success", `Imported ${importedCount} fallback tax rates`);
+        refetch();
+      },
+      onError(error) {
+        notifyError("Error", error.message);
+      },
+    });
+
+  const { mutate: deleteAll, isLoading: isDeleteLoading } =
+    trpcClient.fallbackTaxRates.deleteAll.useMutation({
+      onSuccess() {
+        notifySuccess("Success", "Deleted fallback tax rates");
+        refetch();
+      },
+      onError(error) {
+        notifyError("Error", error.message);
+      },
+    });
+
+  const fileChangeHandler = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+
+    if (!file) {
+      return;
+    }
+
+    importCsv({ connectionId, csv: await file.text() });
+
+    // Allows importing the same file again
+    event.target.value = "";
+  };
+
+  return (
+    <AppCard data-testid="fallback-tax-rates-card">
+      {isLoading ? (
+        <Skeleton />
+      ) : (
+        <Box display="flex" flexDirection="column" gap={4}>
+          <Text>Rates stored from AvaTax responses: {data?.transactionRatesCount ?? 0}</Text>
+          <Text>Rates imported from CSV: {data?.csvRatesCount ?? 0}</Text>
+          <Box display="flex" justifyContent="flex-end" gap={4} marginTop={4}>
+            <Button
+              variant="error"
+              disabled={isDeleteLoading}
+              onClick={() => deleteAll({ connectionId })}
+            >
+              Delete all rates
+            </Button>
+            <Button disabled={isImportLoading} onClick={() => inputRef.current?.click()}>
+              Import CSV
+            </Button>
+            <input
+              ref={inputRef}
+              type="file"
+              accept=".csv,text/csv"
+              hidden
+              onChange={fileChangeHandler}
+            />
+          </Box>
+        </Box>
+      )}
+    </AppCard>
+  );
+};
+
+export const FallbackTaxRatesSection = ({ connectionId }: { connectionId: string }) => {
+  return (
+    <>
+      <Intro />
+      <FallbackTaxRatesCard connectionId={connectionId} />
+    </>
+  );
+};
@@ -1,3 +1,6 @@
 export * from "./order-cancelled";
+export * from "./order-commit";
 export * from "./order-confirmed";
 export * from "./order-line";
+export * from "./order-refunded";
+export * from "./order-updated";
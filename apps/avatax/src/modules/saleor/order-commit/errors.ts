@@ -0,0 +1,10 @@
+import { type CommonErrorProps, CriticalError, ExpectedError } from "../../../error";
+
+export const OrderCommitPayloadOrderError = CriticalError.subclass("OrderCommitPayloadOrderError", {
+  props: {
+    expected: false,
+    sentrySeverity: "error",
+  } as CommonErrorProps,
+});
+
+export const OrderCommitNoAvataxIdError = ExpectedError.subclass("OrderCommitNoAvataxIdError");
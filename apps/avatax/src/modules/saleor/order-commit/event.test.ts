@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+
+import { type OrderFulfilledPayload } from "../../webhooks/payloads/order-fulfilled-payload";
+import { type OrderFullyPaidPayload } from "../../webhooks/payloads/order-fully-paid-payload";
+import { OrderCommitNoAvataxIdError, OrderCommitPayloadOrderError } from "./errors";
+import { SaleorOrderCommitEvent } from "./event";
+
+describe("SaleorOrderCommitEvent", () => {
+  const validPayload = {
+    order: {
+      channel: {
+        id: "channel-id",
+        slug: "channel-slug",
+      },
+      id: "order-id",
+      avataxId: "avatax-id",
+    },
+    recipient: {
+      privateMetadata: [
+        {
+          key: "key",
+          value: "value",
+        },
+      ],
+    },
+    __typename: "OrderFullyPaid",
+  } as OrderFullyPaidPayload;
+
+  it("should create a SaleorOrderCommitEvent from a valid ORDER_FULLY_PAID payload", () => {
+    const result = SaleorOrderCommitEvent.create(validPayload);
+
+    expect(result._unsafeUnwrap()).toBeInstanceOf(SaleorOrderCommitEvent);
+    expect(result._unsafeUnwrap().getAvataxId()).toBe("avatax-id");
+  });
+
+  it("should create a SaleorOrderCommitEvent from a valid ORDER_FULFILLED payload", () => {
+    const result = SaleorOrderCommitEvent.create({
+      ...validPayload,
+      __typename: "OrderFulfilled",
+    } as OrderFulfilledPayload);
+
+    expect(result._unsafeUnwrap().getOrderId()).toBe("order-id");
+  });
+
+  it("should fail to create a SaleorOrderCommitEvent when 'order' is missing", () => {
+    const result = SaleorOrderCommitEvent.create({
+      ...validPayload,
+      order: undefined,
+    });
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(OrderCommitPayloadOrderError);
+  });
+
+  it("should fail to create a SaleorOrderCommitEvent when 'order.avataxId' is missing", () => {
+    const result = SaleorOrderCommitEvent.create({
+      ...validPayload,
+      order: {
+        ...validPayload.order,
+        avataxId: undefined,
+      },
+    } as OrderFullyPaidPayload);
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(OrderCommitNoAvataxIdError);
+  });
+});
@@ -0,0 +1,89 @@
+import { err, ok, Result } from "neverthrow";
+import { z } from "zod";
+
+import { BaseError } from "../../../error";
+import { type OrderFulfilledPayload } from "../../webhooks/payloads/order-fulfilled-payload";
+import { type OrderFullyPaidPayload } from "../../webhooks/payloads/order-fully-paid-payload";
+import { OrderCommitNoAvataxIdError, OrderCommitPayloadOrderError } from "./errors";
+
+interface ISaleorOrderCommitEvent {
+  getChannelSlug(): string;
+  getOrderId(): string;
+  getAvataxId(): string;
+  getPrivateMetadata(): Array<{ key: string; value: string }>;
+}
+
+/**
+ * Order event after which AvaTax transaction can be committed, depending on the configured commit policy
+ */
+export class SaleorOrderCommitEvent implements ISaleorOrderCommitEvent {
+  private static schema = z.object({
+    order: z.object({
+      channel: z.object({
+        id: z.string(),
+        slug: z.string(),
+      }),
+      id: z.string(),
+      avataxId: z.string(),
+    }),
+    recipient: z.object({
+      privateMetadata: z.array(
+        z.object({
+          key: z.string(),
+          value: z.string(),
+        }),
+      ),
+    }),
+  });
+
+  private constructor(private data: z.infer<typeof SaleorOrderCommitEvent.schema>) {}
+
+  getPrivateMetadata() {
+    return this.data.recipient.privateMetadata;
+  }
+
+  getChannelSlug() {
+    return this.data.order.channel.slug;
+  }
+
+  getOrderId() {
+    return this.data.order.id;
+  }
+
+  getAvataxId() {
+    return this.data.order.avataxId;
+  }
+
+  public static ParsingError = BaseError.subclass("AvataxAppSaleorOrderCommitParsingError");
+
+  static create(payload: OrderFullyPaidPayload | OrderFulfilledPayload) {
+    if (!payload.order) {
+      return err(
+        new OrderCommitPayloadOrderError("Insufficient order data", {
+          cause: '"order" missing',
+        }),
+      );
+    }
+
+    if (!payload.order.avataxId) {
+      return err(
+        new OrderCommitNoAvataxIdError("No AvaTax id found in order", {
+          cause: '"avataxId" missing in "order"',
+        }),
+      );
+    }
+
+    const parser = Result.fromThrowable(
+      SaleorOrderCommitEvent.schema.parse,
+      SaleorOrderCommitEvent.ParsingError.normalize,
+    );
+
+    const parsedPayload = parser(payload);
+
+    if (parsedPayload.isErr()) {
+      return err(parsedPayload.error);
+    }
+
+    return ok(new SaleorOrderCommitEvent(parsedPayload.value));
+  }
+}
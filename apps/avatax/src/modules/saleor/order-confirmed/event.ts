@@ -85,6 +85,10 @@ export class SaleorOrderConfirmedEvent {
 
   isFulfilled = () => this.rawPayload.order.status === "FULFILLED";
 
+  isFullyPaid = () =>
+    this.rawPayload.order.chargeStatus === "FULL" ||
+    this.rawPayload.order.chargeStatus === "OVERCHARGED";
+
   isStrategyFlatRates = () =>
     this.rawPayload.order.channel.taxConfiguration.taxCalculationStrategy === "FLAT_RATES";
 
@@ -119,6 +123,10 @@ export class SaleorOrderConfirmedEvent {
 
   getAvaTaxTaxCalculationDate = () => this.rawPayload.order.avataxTaxCalculationDate;
 
+  getAvaTaxFallbackTaxCalculation = () => this.rawPayload.order.avataxFallbackTaxCalculation;
+
+  getTotalTaxAmount = () => this.rawPayload.order.total.tax.amount;
+
   getOrderCreationDate = () => this.rawPayload.order.created;
 
   getOrderShippingAddress = () => this.rawPayload.order.shippingAddress;
@@ -16,6 +16,7 @@ export class SaleorOrderConfirmedEventMockFactory {
       number: "order-number",
       created: "2021-01-01T00:00:00Z",
       status: "FULFILLED" as const,
+      chargeStatus: "NONE" as const,
       channel: {
         id: "channel-id",
         slug: "channel-slug",
@@ -0,0 +1,10 @@
+import { type CommonErrorProps, CriticalError, ExpectedError } from "../../../error";
+
+export const OrderRefundPayloadOrderError = CriticalError.subclass("OrderRefundPayloadError", {
+  props: {
+    expected: false,
+    sentrySeverity: "error",
+  } as CommonErrorProps,
+});
+
+export const OrderRefundNoAvataxIdError = ExpectedError.subclass("OrderRefundNoAvataxIdError");
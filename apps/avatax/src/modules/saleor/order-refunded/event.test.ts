@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+
+import { OrderRefundNoAvataxIdError, OrderRefundPayloadOrderError } from "./errors";
+import { SaleorRefundedOrderEvent } from "./event";
+import { SaleorRefundedOrderEventMockFactory } from "./mocks";
+
+describe("SaleorRefundedOrderEvent", () => {
+  it("should create a SaleorRefundedOrderEvent from a valid payload", () => {
+    const result = SaleorRefundedOrderEvent.create(
+      SaleorRefundedOrderEventMockFactory.getGraphqlPayload(),
+    );
+
+    expect(result._unsafeUnwrap()).toBeInstanceOf(SaleorRefundedOrderEvent);
+    expect(result._unsafeUnwrap().getOrderEvent().getOrderNumber()).toBe("order-number");
+  });
+
+  it("should fail to create a SaleorRefundedOrderEvent when 'order' is missing", () => {
+    const result = SaleorRefundedOrderEvent.create({
+      ...SaleorRefundedOrderEventMockFactory.getGraphqlPayload(),
+      order: undefined,
+    });
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(OrderRefundPayloadOrderError);
+  });
+
+  it("should fail to create a SaleorRefundedOrderEvent when 'order.avataxId' is missing", () => {
+    const payload = SaleorRefundedOrderEventMockFactory.getGraphqlPayload();
+
+    const result = SaleorRefundedOrderEvent.create({
+      ...payload,
+      order: {
+        ...payload.order,
+        avataxId: null,
+      },
+    });
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(OrderRefundNoAvataxIdError);
+  });
+
+  it("should fail to create a SaleorRefundedOrderEvent when refund references unknown line", () => {
+    const result = SaleorRefundedOrderEvent.create(
+      SaleorRefundedOrderEventMockFactory.getGraphqlPayload([
+        SaleorRefundedOrderEventMockFactory.getGrantedRefundPayload({
+          lines: [{ quantity: 1, orderLine: { id: "unknown-line" } }],
+        }),
+      ]),
+    );
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(SaleorRefundedOrderEvent.ParsingError);
+  });
+
+  describe("getProcessedRefunds", () => {
+    it("should return only successful refunds numbered by creation date", () => {
+      const event = SaleorRefundedOrderEventMockFactory.create(
+        SaleorRefundedOrderEventMockFactory.getGraphqlPayload([
+          SaleorRefundedOrderEventMockFactory.getGrantedRefundPayload({
+            id: "third",
+            createdAt: "2021-01-04T00:00:00Z",
+            lines: [{ quantity: 1, orderLine: { id: "order-line-2" } }],
+          }),
+          SaleorRefundedOrderEventMockFactory.getGrantedRefundPayload({
+            id: "first",
+            createdAt: "2021-01-02T00:00:00Z",
+            shippingCostsIncluded: true,
+          }),
+          SaleorRefundedOrderEventMockFactory.getGrantedRefundPayload({
+            id: "second",
+            createdAt: "2021-01-03T00:00:00Z",
+            status: "PENDING",
+          }),
+        ]),
+      );
+
+      expect(event.getProcessedRefunds()).toStrictEqual([
+        {
+          id: "first",
+          returnNumber: 1,
+          createdAt: "2021-01-02T00:00:00Z",
+          amount: 10,
+          shippingCostsIncluded: true,
+          lines: [],
+        },
+        {
+          id: "third",
+          returnNumber: 3,
+          createdAt: "2021-01-04T00:00:00Z",
+          amount: 10,
+          shippingCostsIncluded: false,
+          lines: [{ orderLineIndex: 1, quantity: 1 }],
+        },
+      ]);
+    });
+  });
+
+  describe("getRecordedReturnCodes", () => {
+    const createEvent = (avataxReturnCodes: string | null) => {
+      const payload = SaleorRefundedOrderEventMockFactory.getGraphqlPayload();
+
+      return SaleorRefundedOrderEventMockFactory.create({
+        ...payload,
+        order: {
+          ...payload.order,
+          avataxReturnCodes,
+        },
+      });
+    };
+
+    it("should return codes stored in order metadata", () => {
+      expect(createEvent('["order-number-R1"]').getRecordedReturnCodes()).toStrictEqual([
+        "order-number-R1",
+      ]);
+    });
+
+    it("should return empty array when metadata is missing or malformed", () => {
+      expect(createEvent(null).getRecordedReturnCodes()).toStrictEqual([]);
+      expect(createEvent("not-json").getRecordedReturnCodes()).toStrictEqual([]);
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import { err, ok, Result } from "neverthrow";
+import { z } from "zod";
+
+import { BaseError } from "../../../error";
+import { type OrderRefundedPayload } from "../../webhooks/payloads/order-refunded-payload";
+import { SaleorOrderConfirmedEvent } from "../order-confirmed";
+import { OrderRefundNoAvataxIdError, OrderRefundPayloadOrderError } from "./errors";
+
+export type SaleorOrderRefundLine = {
+  /**
+   * Position of the refunded line in order lines - the same position is used in the AvaTax document lines
+   */
+  orderLineIndex: number;
+  quantity: number;
+};
+
+export type SaleorOrderRefund = {
+  id: string;
+  /**
+   * Sequence number of the refund within the order (starting from 1), stable between webhook deliveries
+   */
+  returnNumber: number;
+  createdAt: string;
+  amount: number;
+  shippingCostsIncluded: boolean;
+  lines: SaleorOrderRefundLine[];
+};
+
+interface ISaleorRefundedOrderEvent {
+  getChannelSlug(): string;
+  getOrderId(): string;
+  getAvataxId(): string;
+  getPrivateMetadata(): Array<{ key: string; value: string }>;
+  getOrderEvent(): SaleorOrderConfirmedEvent;
+  getProcessedRefunds(): SaleorOrderRefund[];
+  getRecordedReturnCodes(): string[];
+}
+
+export class SaleorRefundedOrderEvent implements ISaleorRefundedOrderEvent {
+  private static schema = z.object({
+    order: z.object({
+      channel: z.object({
+        id: z.string(),
+        slug: z.string(),
+      }),
+      id: z.string(),
+      avataxId: z.string(),
+      avataxReturnCodes: z.string().nullish(),
+      lines: z.array(
+        z.object({
+          id: z.string(),
+        }),
+      ),
+      grantedRefunds: z.array(
+        z.object({
+          id: z.string(),
+          createdAt: z.string(),
+          status: z.string(),
+          shippingCostsIncluded: z.boolean(),
+          amount: z.object({
+            amount: z.number(),
+          }),
+          lines: z
+            .array(
+              z.object({
+                quantity: z.number(),
+                orderLine: z.object({
+                  id: z.string(),
+                }),
+              }),
+            )
+            .nullish(),
+        }),
+      ),
+    }),
+    recipient: z.object({
+      privateMetadata: z.array(
+        z.object({
+          key: z.string(),
+          value: z.string(),
+        }),
+      ),
+    }),
+  });
+
+  private constructor(
+    private data: z.infer<typeof SaleorRefundedOrderEvent.schema>,
+    private orderEvent: SaleorOrderConfirmedEvent,
+  ) {}
+
+  getPrivateMetadata() {
+    return this.data.recipient.privateMetadata;
+  }
+
+  getChannelSlug() {
+    return this.data.order.channel.slug;
+  }
+
+  getOrderId() {
+    return this.data.order.id;
+  }
+
+  getAvataxId() {
+    return this.data.order.avataxId;
+  }
+
+  /**
+   * Order data used to resolve codes of return documents
+   */
+  getOrderEvent() {
+    return this.orderEvent;
+  }
+
+  /**
+   * Only refunds that were successfully processed by payment app are reported to AvaTax.
+   */
+  getProcessedRefunds(): SaleorOrderRefund[] {
+    const orderLineIds = this.data.order.lines.map((line) => line.id);
+
+    return [...this.data.order.grantedRefunds]
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+      .map((refund, index) => ({ refund, returnNumber: index + 1 }))
+      .filter(({ refund }) => refund.status === "SUCCESS")
+      .map(({ refund, returnNumber }) => ({
+        id: refund.id,
+        returnNumber,
+        createdAt: refund.createdAt,
+        amount: refund.amount.amount,
+        shippingCostsIncluded: refund.shippingCostsIncluded,
+        lines: (refund.lines ?? []).map((line) => ({
+          orderLineIndex: orderLineIds.indexOf(line.orderLine.id),
+          quantity: line.quantity,
+        })),
+      }));
+  }
+
+  /**
+   * Codes of return documents created for previous ORDER_REFUNDED events, stored in order metadata as JSON array
+   */
+  getRecordedReturnCodes(): string[] {
+    const returnCodes = this.data.order.avataxReturnCodes;
+
+    if (!returnCodes) {
+      return [];
+    }
+
+    const parsedReturnCodes = Result.fromThrowable(
+      () => z.array(z.string()).parse(JSON.parse(returnCodes)),
+      SaleorRefundedOrderEvent.ParsingError.normalize,
+    )();
+
+    return parsedReturnCodes.unwrapOr([]);
+  }
+
+  public static ParsingError = BaseError.subclass("AvataxAppSaleorOrderRefundedParsingError");
+
+  static create(payload: OrderRefundedPayload) {
+    if (!payload.order) {
+      return err(
+        new OrderRefundPayloadOrderError("Insufficient order data", {
+          cause: '"order" missing',
+        }),
+      );
+    }
+
+    if (!payload.order.avataxId) {
+      return err(
+        new OrderRefundNoAvataxIdError("No AvaTax id found in order", {
+          cause: '"avataxId" missing in "order"',
+        }),
+      );
+    }
+
+    const parser = Result.fromThrowable(
+      SaleorRefundedOrderEvent.schema.parse,
+      SaleorRefundedOrderEvent.ParsingError.normalize,
+    );
+
+    const parsedPayload = parser(payload);
+
+    if (parsedPayload.isErr()) {
+      return err(parsedPayload.error);
+    }
+
+    const orderEvent = SaleorOrderConfirmedEvent.createFromGraphQL({
+      ...payload,
+      __typename: "OrderConfirmed",
+    });
+
+    if (orderEvent.isErr()) {
+      return err(
+        new SaleorRefundedOrderEvent.ParsingError("Failed to parse order data", {
+          cause: orderEvent.error,
+        }),
+      );
+    }
+
+    const orderLineIds = parsedPayload.value.order.lines.map((line) => line.id);
+    const hasUnknownRefundLine = parsedPayload.value.order.grantedRefunds.some((refund) =>
+      (refund.lines ?? []).some((line) => !orderLineIds.includes(line.orderLine.id)),
+    );
+
+    if (hasUnknownRefundLine) {
+      return err(
+        new SaleorRefundedOrderEvent.ParsingError(
+          "Granted refund references line that doesn't exist in order",
+        ),
+      );
+    }
+
+    return ok(new SaleorRefundedOrderEvent(parsedPayload.value, orderEvent.value));
+  }
+}
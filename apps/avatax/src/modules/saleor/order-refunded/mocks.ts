@@ -0,0 +1,71 @@
+import { type OrderRefundedPayload } from "../../webhooks/payloads/order-refunded-payload";
+import { SaleorOrderConfirmedEventMockFactory } from "../order-confirmed/mocks";
+import { SaleorOrderLineMockFactory } from "../order-line-mocks";
+import { SaleorRefundedOrderEvent } from "./event";
+
+type GrantedRefundPayload = NonNullable<OrderRefundedPayload["order"]>["grantedRefunds"][number];
+
+export class SaleorRefundedOrderEventMockFactory {
+  static getGrantedRefundPayload = (
+    overrides: Partial<GrantedRefundPayload> = {},
+  ): GrantedRefundPayload => ({
+    id: "granted-refund-id",
+    createdAt: "2021-01-02T00:00:00Z",
+    status: "SUCCESS",
+    shippingCostsIncluded: false,
+    amount: {
+      amount: 10,
+    },
+    lines: [],
+    ...overrides,
+  });
+
+  static getGraphqlPayload = (
+    grantedRefunds: GrantedRefundPayload[] = [
+      SaleorRefundedOrderEventMockFactory.getGrantedRefundPayload(),
+    ],
+  ): OrderRefundedPayload & { order: NonNullable<OrderRefundedPayload["order"]> } => {
+    const confirmedOrderPayload = SaleorOrderConfirmedEventMockFactory.getGraphqlPayload();
+
+    return {
+      ...confirmedOrderPayload,
+      order: {
+        ...confirmedOrderPayload.order,
+        avataxId: "avatax-id",
+        lines: [
+          {
+            ...SaleorOrderLineMockFactory.getGraphqlPayload(),
+            id: "order-line-1",
+          },
+          {
+            ...SaleorOrderLineMockFactory.getGraphqlPayload(),
+            id: "order-line-2",
+            quantity: 2,
+            totalPrice: {
+              gross: { amount: 40 },
+              net: { amount: 40 },
+              tax: { amount: 0 },
+            },
+          },
+        ],
+        grantedRefunds,
+      },
+      recipient: {
+        privateMetadata: [],
+      },
+      __typename: "OrderRefunded",
+    };
+  };
+
+  static create(
+    graphqlPayload: OrderRefundedPayload = SaleorRefundedOrderEventMockFactory.getGraphqlPayload(),
+  ) {
+    const event = SaleorRefundedOrderEvent.create(graphqlPayload);
+
+    if (event.isErr()) {
+      throw event.error;
+    }
+
+    return event.value;
+  }
+}
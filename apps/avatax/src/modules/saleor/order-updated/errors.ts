@@ -0,0 +1,13 @@
+import { type CommonErrorProps, CriticalError, ExpectedError } from "../../../error";
+
+export const OrderUpdatedPayloadOrderError = CriticalError.subclass(
+  "OrderUpdatedPayloadOrderError",
+  {
+    props: {
+      expected: false,
+      sentrySeverity: "error",
+    } as CommonErrorProps,
+  },
+);
+
+export const OrderUpdatedNoAvataxIdError = ExpectedError.subclass("OrderUpdatedNoAvataxIdError");
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+
+import { OrderUpdatedNoAvataxIdError, OrderUpdatedPayloadOrderError } from "./errors";
+import { SaleorUpdatedOrderEvent } from "./event";
+import { SaleorUpdatedOrderEventMockFactory } from "./mocks";
+
+describe("SaleorUpdatedOrderEvent", () => {
+  it("should create a SaleorUpdatedOrderEvent from a valid payload", () => {
+    const result = SaleorUpdatedOrderEvent.create(
+      SaleorUpdatedOrderEventMockFactory.getGraphqlPayload(),
+    );
+
+    expect(result._unsafeUnwrap()).toBeInstanceOf(SaleorUpdatedOrderEvent);
+    expect(result._unsafeUnwrap().getAvataxId()).toBe("avatax-id");
+    expect(result._unsafeUnwrap().getOrderEvent().getOrderNumber()).toBe("order-number");
+  });
+
+  it("should fail to create a SaleorUpdatedOrderEvent when 'order' is missing", () => {
+    const result = SaleorUpdatedOrderEvent.create({
+      ...SaleorUpdatedOrderEventMockFactory.getGraphqlPayload(),
+      order: undefined,
+    });
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(OrderUpdatedPayloadOrderError);
+  });
+
+  it("should fail to create a SaleorUpdatedOrderEvent when 'order.avataxId' is missing", () => {
+    const payload = SaleorUpdatedOrderEventMockFactory.getGraphqlPayload();
+
+    const result = SaleorUpdatedOrderEvent.create({
+      ...payload,
+      order: {
+        ...payload.order,
+        avataxId: null,
+      },
+    });
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(OrderUpdatedNoAvataxIdError);
+  });
+
+  it("should report cancelled order", () => {
+    const payload = SaleorUpdatedOrderEventMockFactory.getGraphqlPayload();
+
+    const event = SaleorUpdatedOrderEventMockFactory.create({
+      ...payload,
+      order: {
+        ...payload.order,
+        status: "CANCELED",
+      },
+    });
+
+    expect(event.isCancelled()).toBe(true);
+  });
+});
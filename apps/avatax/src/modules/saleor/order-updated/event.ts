@@ -0,0 +1,119 @@
+import { err, ok, Result } from "neverthrow";
+import { z } from "zod";
+
+import { BaseError } from "../../../error";
+import { type OrderUpdatedPayload } from "../../webhooks/payloads/order-updated-payload";
+import { SaleorOrderConfirmedEvent } from "../order-confirmed";
+import { OrderUpdatedNoAvataxIdError, OrderUpdatedPayloadOrderError } from "./errors";
+
+interface ISaleorUpdatedOrderEvent {
+  getChannelSlug(): string;
+  getOrderId(): string;
+  getAvataxId(): string;
+  getPrivateMetadata(): Array<{ key: string; value: string }>;
+  getOrderEvent(): SaleorOrderConfirmedEvent;
+  isCancelled(): boolean;
+}
+
+export class SaleorUpdatedOrderEvent implements ISaleorUpdatedOrderEvent {
+  private static schema = z.object({
+    order: z.object({
+      channel: z.object({
+        id: z.string(),
+        slug: z.string(),
+      }),
+      id: z.string(),
+      status: z.string(),
+      avataxId: z.string(),
+    }),
+    recipient: z.object({
+      privateMetadata: z.array(
+        z.object({
+          key: z.string(),
+          value: z.string(),
+        }),
+      ),
+    }),
+  });
+
+  private constructor(
+    private data: z.infer<typeof SaleorUpdatedOrderEvent.schema>,
+    private orderEvent: SaleorOrderConfirmedEvent,
+  ) {}
+
+  getPrivateMetadata() {
+    return this.data.recipient.privateMetadata;
+  }
+
+  getChannelSlug() {
+    return this.data.order.channel.slug;
+  }
+
+  getOrderId() {
+    return this.data.order.id;
+  }
+
+  getAvataxId() {
+    return this.data.order.avataxId;
+  }
+
+  /**
+   * Current order data, used to build the AvaTax document the stored one is compared with
+   */
+  getOrderEvent() {
+    return this.orderEvent;
+  }
+
+  /**
+   * AvaTax document of cancelled order is voided by ORDER_CANCELLED webhook and can't be adjusted
+   */
+  isCancelled() {
+    return this.data.order.status === "CANCELED";
+  }
+
+  public static ParsingError = BaseError.subclass("AvataxAppSaleorOrderUpdatedParsingError");
+
+  static create(payload: OrderUpdatedPayload) {
+    if (!payload.order) {
+      return err(
+        new OrderUpdatedPayloadOrderError("Insufficient order data", {
+          cause: '"order" missing',
+        }),
+      );
+    }
+
+    if (!payload.order.avataxId) {
+      return err(
+        new OrderUpdatedNoAvataxIdError("No AvaTax id found in order", {
+          cause: '"avataxId" missing in "order"',
+        }),
+      );
+    }
+
+    const parser = Result.fromThrowable(
+      SaleorUpdatedOrderEvent.schema.parse,
+      SaleorUpdatedOrderEvent.ParsingError.normalize,
+    );
+
+    const parsedPayload = parser(payload);
+
+    if (parsedPayload.isErr()) {
+      return err(parsedPayload.error);
+    }
+
+    const orderEvent = SaleorOrderConfirmedEvent.createFromGraphQL({
+      ...payload,
+      __typename: "OrderConfirmed",
+    });
+
+    if (orderEvent.isErr()) {
+      return err(
+        new SaleorUpdatedOrderEvent.ParsingError("Failed to parse order data", {
+          cause: orderEvent.error,
+        }),
+      );
+    }
+
+    return ok(new SaleorUpdatedOrderEvent(parsedPayload.value, orderEvent.value));
+  }
+}
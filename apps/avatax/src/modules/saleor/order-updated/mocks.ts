@@ -0,0 +1,35 @@
+import { type OrderUpdatedPayload } from "../../webhooks/payloads/order-updated-payload";
+import { SaleorOrderConfirmedEventMockFactory } from "../order-confirmed/mocks";
+import { SaleorUpdatedOrderEvent } from "./event";
+
+export class SaleorUpdatedOrderEventMockFactory {
+  static getGraphqlPayload = (): OrderUpdatedPayload & {
+    order: NonNullable<OrderUpdatedPayload["order"]>;
+  } => {
+    const confirmedOrderPayload = SaleorOrderConfirmedEventMockFactory.getGraphqlPayload();
+
+    return {
+      ...confirmedOrderPayload,
+      order: {
+        ...confirmedOrderPayload.order,
+        avataxId: "avatax-id",
+      },
+      recipient: {
+        privateMetadata: [],
+      },
+      __typename: "OrderUpdated",
+    };
+  };
+
+  static create(
+    graphqlPayload: OrderUpdatedPayload = SaleorUpdatedOrderEventMockFactory.getGraphqlPayload(),
+  ) {
+    const event = SaleorUpdatedOrderEvent.create(graphqlPayload);
+
+    if (event.isErr()) {
+      throw event.error;
+    }
+
+    return event.value;
+  }
+}
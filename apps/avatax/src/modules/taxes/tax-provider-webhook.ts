@@ -2,6 +2,6 @@ import { type SyncWebhookResponsesMap } from "@saleor/app-sdk/handlers/shared";
 
 export type CalculateTaxesResponse = SyncWebhookResponsesMap["ORDER_CALCULATE_TAXES"];
 
-export type CreateOrderResponse = { id: string };
+export type CreateOrderResponse = { id: string; totalTax?: number };
 
 export type CancelOrderPayload = { avataxId: string };
@@ -21,6 +21,7 @@ import { avataxConnectionRouter } from "../avatax/avatax-connection.router";
 import { avataxTaxCodeMatchesRouter } from "../avatax/tax-code/avatax-tax-code-matches.router";
 import { avataxTaxCodesRouter } from "../avatax/tax-code/avatax-tax-codes.router";
 import { channelsConfigurationRouter } from "../channel-configuration/channel-configuration.router";
+import { fallbackTaxRatesRouter } from "../fallback-tax-rates/fallback-tax-rates.router";
 import { providerConnectionsRouter } from "../provider-connections/provider-connections.router";
 import { taxClassesRouter } from "../tax-classes/tax-classes.router";
 import { router } from "./trpc-server";
@@ -33,6 +34,7 @@ export const appRouter = router({
   avataxTaxCodes: avataxTaxCodesRouter,
   avataxMatches: avataxTaxCodeMatchesRouter,
   clientLogs: clientLogsRouter,
+  fallbackTaxRates: fallbackTaxRatesRouter,
 });
 
 export type AppRouter = typeof appRouter;
@@ -0,0 +1,13 @@
+import { SaleorAsyncWebhook } from "@saleor/app-sdk/handlers/next-app-router";
+
+import { UntypedOrderFulfilledSubscriptionDocument } from "../../../../generated/graphql";
+import { saleorApp } from "../../../../saleor-app";
+import { type OrderFulfilledPayload } from "../payloads/order-fulfilled-payload";
+
+export const orderFulfilledAsyncWebhook = new SaleorAsyncWebhook<OrderFulfilledPayload>({
+  name: "OrderFulfilled",
+  apl: saleorApp.apl,
+  event: "ORDER_FULFILLED",
+  query: UntypedOrderFulfilledSubscriptionDocument,
+  webhookPath: "/api/webhooks/order-fulfilled",
+});
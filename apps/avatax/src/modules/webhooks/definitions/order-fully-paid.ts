@@ -0,0 +1,13 @@
+import { SaleorAsyncWebhook } from "@saleor/app-sdk/handlers/next-app-router";
+
+import { UntypedOrderFullyPaidSubscriptionDocument } from "../../../../generated/graphql";
+import { saleorApp } from "../../../../saleor-app";
+import { type OrderFullyPaidPayload } from "../payloads/order-fully-paid-payload";
+
+export const orderFullyPaidAsyncWebhook = new SaleorAsyncWebhook<OrderFullyPaidPayload>({
+  name: "OrderFullyPaid",
+  apl: saleorApp.apl,
+  event: "ORDER_FULLY_PAID",
+  query: UntypedOrderFullyPaidSubscriptionDocument,
+  webhookPath: "/api/webhooks/order-fully-paid",
+});
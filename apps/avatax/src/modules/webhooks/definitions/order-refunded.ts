@@ -0,0 +1,13 @@
+import { SaleorAsyncWebhook } from "@saleor/app-sdk/handlers/next-app-router";
+
+import { UntypedOrderRefundedSubscriptionDocument } from "../../../../generated/graphql";
+import { saleorApp } from "../../../../saleor-app";
+import { type OrderRefundedPayload } from "../payloads/order-refunded-payload";
+
+export const orderRefundedAsyncWebhook = new SaleorAsyncWebhook<OrderRefundedPayload>({
+  name: "OrderRefunded",
+  apl: saleorApp.apl,
+  event: "ORDER_REFUNDED",
+  query: UntypedOrderRefundedSubscriptionDocument,
+  webhookPath: "/api/webhooks/order-refunded",
+});
@@ -0,0 +1,13 @@
+import { SaleorAsyncWebhook } from "@saleor/app-sdk/handlers/next-app-router";
+
+import { UntypedOrderUpdatedSubscriptionDocument } from "../../../../generated/graphql";
+import { saleorApp } from "../../../../saleor-app";
+import { type OrderUpdatedPayload } from "../payloads/order-updated-payload";
+
+export const orderUpdatedAsyncWebhook = new SaleorAsyncWebhook<OrderUpdatedPayload>({
+  name: "OrderUpdated",
+  apl: saleorApp.apl,
+  event: "ORDER_UPDATED",
+  query: UntypedOrderUpdatedSubscriptionDocument,
+  webhookPath: "/api/webhooks/order-updated",
+});
@@ -0,0 +1,357 @@
+import { SpanKind, SpanStatusCode } from "@opentelemetry/api";
+import { type AuthData } from "@saleor/app-sdk/APL";
+import { ObservabilityAttributes } from "@saleor/apps-otel/src/observability-attributes";
+import { captureException, setTag } from "@sentry/nextjs";
+import { after } from "next/server";
+
+import { AppConfig } from "@/lib/app-config";
+import { AppConfigExtractor } from "@/lib/app-config-extractor";
+import { AppConfigurationLogger } from "@/lib/app-configuration-logger";
+import { metadataCache } from "@/lib/app-metadata-cache";
+import { createInstrumentedGraphqlClient } from "@/lib/create-instrumented-graphql-client";
+import { SubscriptionPayloadErrorChecker } from "@/lib/error-utils";
+import { appExternalTracer } from "@/lib/otel/tracing";
+import { createLogger } from "@/logger";
+import { loggerContext } from "@/logger-context";
+import { createAvataxProblemReporter } from "@/modules/app-problems";
+import { avataxCommitPolicy } from "@/modules/avatax/avatax-commit-policy-resolver";
+import { type AvataxCommitPolicy } from "@/modules/avatax/avatax-connection-schema";
+import { createAvaTaxOrderCommitAdapterFromAvaTaxConfig } from "@/modules/avatax/order-commit/avatax-order-commit-adapter-factory";
+import { LogWriterFactory } from "@/modules/client-logs/log-writer-factory";
+import { OrderCommittedLogRequest } from "@/modules/client-logs/order-committed-log-request";
+import { SaleorOrderCommitEvent } from "@/modules/saleor";
+import {
+  OrderCommitNoAvataxIdError,
+  OrderCommitPayloadOrderError,
+} from "@/modules/saleor/order-commit/errors";
+import { OrderNoteReporter } from "@/modules/saleor/order-note-reporter";
+import {
+  AvataxEntityNotFoundError,
+  AvataxForbiddenAccessError,
+  AvataxGetTaxSystemError,
+  AvataxGetTaxWrongUserInputError,
+  AvataxInvalidCredentialsError,
+} from "@/modules/taxes/tax-error";
+
+import { type OrderFulfilledPayload } from "./payloads/order-fulfilled-payload";
+import { type OrderFullyPaidPayload } from "./payloads/order-fully-paid-payload";
+
+const logsWriterFactory = new LogWriterFactory();
+
+/**
+ * Handles order events after which AvaTax transaction can be committed. Each event route commits the transaction
+ * only for connections with matching commit policy, so transaction is committed once regardless of the event order.
+ */
+export const createOrderCommitWebhookHandler = ({
+  webhookName,
+  commitPolicy: handledCommitPolicy,
+}: {
+  webhookName: string;
+  commitPolicy: Extract<AvataxCommitPolicy, "ON_FIRST_FULFILLMENT" | "ON_FULLY_PAID">;
+}) => {
+  const logger = createLogger(`${webhookName}AsyncWebhook`);
+  const subscriptionErrorChecker = new SubscriptionPayloadErrorChecker(logger, captureException);
+
+  return async (ctx: {
+    payload: OrderFulfilledPayload | OrderFullyPaidPayload;
+    authData: AuthData;
+  }) =>
+    appExternalTracer.startActiveSpan(
+      `executing ${webhookName} webhook handler`,
+      {
+        kind: SpanKind.SERVER,
+      },
+      async (span) => {
+        const { payload, authData } = ctx;
+
+        const logWriter = logsWriterFactory.createWriter(authData);
+
+        metadataCache.setMetadata(payload.recipient?.privateMetadata ?? []);
+
+        subscriptionErrorChecker.checkPayload(payload);
+
+        if (payload.version) {
+          setTag(ObservabilityAttributes.SALEOR_VERSION, payload.version);
+          loggerContext.set(ObservabilityAttributes.SALEOR_VERSION, payload.version);
+        }
+
+        logger.info("Handler called with payload");
+
+        const orderFromPayload = SaleorOrderCommitEvent.create(payload);
+
+        if (orderFromPayload.isErr()) {
+          const error = orderFromPayload.error;
+
+          span.recordException(error);
+
+          if (error instanceof OrderCommitNoAvataxIdError) {
+            logger.warn("No AvaTax id found in order. Likely not an AvaTax order.", {
+              error: error,
+            });
+
+            span.setStatus({
+              code: SpanStatusCode.OK,
+              message: "Order has no AvaTax transaction to commit",
+            });
+
+            return Response.json(
+              { message: "Invalid order payload. Likely not an AvaTax order." },
+              { status: 200 },
+            );
+          }
+
+          logger.error("Error parsing order payload", { error: error });
+          captureException(error);
+
+          OrderCommittedLogRequest.createErrorLog({
+            sourceId: payload.order?.id,
+            channelId: payload.order?.channel.id,
+            errorReason:
+              error instanceof OrderCommitPayloadOrderError
+                ? "Missing order data from Saleor"
+                : "Error parsing Saleor event payload",
+          })
+            .mapErr(captureException)
+            .map(logWriter.writeLog);
+
+          span.setStatus({
+            code: SpanStatusCode.ERROR,
+            message: "Failed to commit AvaTax transaction: error parsing Saleor event payload",
+          });
+
+          return Response.json(
+            { message: `Invalid order payload for order: ${payload.order?.id}` },
+            { status: 202 },
+          );
+        }
+
+        const orderEvent = orderFromPayload.value;
+
+        loggerContext.set(ObservabilityAttributes.ORDER_ID, orderEvent.getOrderId());
+
+        const channelSlug = orderEvent.getChannelSlug();
+
+        const config = new AppConfigExtractor()
+          .extractAppConfigFromPrivateMetadata(orderEvent.getPrivateMetadata())
+          .map((config) => {
+            try {
+              new AppConfigurationLogger(logger).logConfiguration(config, channelSlug);
+            } catch (e) {
+              captureException(
+                new AppConfigExtractor.LogConfigurationMetricError(
+                  "Failed to log configuration metric",
+                  {
+                    cause: e,
+                  },
+                ),
+              );
+            }
+
+            return config;
+          });
+
+        if (config.isErr()) {
+          logger.warn("Failed to extract app config from metadata", { error: config.error });
+
+          OrderCommittedLogRequest.createErrorLog({
+            sourceId: payload.order?.id,
+            channelId: payload.order?.channel.id,
+            errorReason: "Cannot get app configuration",
+            avataxId: payload.order?.avataxId,
+          })
+            .mapErr(captureException)
+            .map(logWriter.writeLog);
+
+          span.recordException(config.error);
+          span.setStatus({
+            code: SpanStatusCode.ERROR,
+            message: "Failed to commit AvaTax transaction: invalid configuration",
+          });
+
+          return Response.json(
+            { message: `App configuration is broken for order: ${payload.order?.id}` },
+            { status: 400 },
+          );
+        }
+
+        const providerConfig = config.value.getConfigForChannelSlug(channelSlug);
+
+        if (providerConfig.isErr()) {
+          OrderCommittedLogRequest.createErrorLog({
+            sourceId: payload.order?.id,
+            channelId: payload.order?.channel.id,
+            errorReason: "Invalid app configuration",
+            avataxId: payload.order?.avataxId,
+          })
+            .mapErr(captureException)
+            .map(logWriter.writeLog);
+
+          {
+            const problemReporter = createAvataxProblemReporter(authData);
+            const reason =
+              providerConfig.error instanceof AppConfig.MissingConfigurationError
+                ? "Channel references a provider configuration that no longer exists"
+                : "Channel is not configured in the AvaTax app";
+
+            after(() => problemReporter.reportChannelConfigMissing(channelSlug, reason));
+          }
+
+          span.recordException(providerConfig.error);
+          span.setStatus({
+            code: SpanStatusCode.ERROR,
+            message: "Failed to commit AvaTax transaction: invalid configuration",
+          });
+
+          return Response.json(
+            { message: `App is not configured properly for order: ${payload.order?.id}` },
+            { status: 400 },
+          );
+        }
+
+        const avataxConfig = providerConfig.value.avataxConfig;
+        const commitPolicy = avataxCommitPolicy.resolve(avataxConfig.config);
+
+        if (
+          commitPolicy !== handledCommitPolicy ||
+          !avataxConfig.config.isDocumentRecordingEnabled
+        ) {
+          logger.info("Transaction is not committed on this event, skipping", {
+            commitPolicy: commitPolicy,
+            isDocumentRecordingEnabled: avataxConfig.config.isDocumentRecordingEnabled,
+          });
+
+          span.setStatus({
+            code: SpanStatusCode.OK,
+            message: "Transaction is not committed on this event",
+          });
+
+          return Response.json(
+            {
+              message: `Transaction is not committed on this event for order: ${payload.order?.id}`,
+            },
+            { status: 200 },
+          );
+        }
+
+        try {
+          const response = await createAvaTaxOrderCommitAdapterFromAvaTaxConfig(
+            avataxConfig.config,
+          ).send({
+            payload: { avataxId: orderEvent.getAvataxId() },
+            config: avataxConfig.config,
+          });
+
+          if (response.status !== "committed") {
+            span.setStatus({
+              code: SpanStatusCode.OK,
+              message:
+                response.status === "voided"
+                  ? "AvaTax transaction is voided, commit skipped"
+                  : "AvaTax transaction is already committed",
+            });
+
+            return Response.json({ message: "Success" }, { status: 200 });
+          }
+
+          logger.info("Transaction committed in AvaTax", { transactionId: response.id });
+
+          span.setStatus({
+            code: SpanStatusCode.OK,
+            message: "AvaTax transaction committed successfully",
+          });
+
+          after(async () => {
+            OrderCommittedLogRequest.createSuccessLog({
+              sourceId: payload.order?.id,
+              channelId: payload.order?.channel.id,
+              avataxId: response.id,
+              commitPolicy,
+            })
+              .mapErr(captureException)
+              .map(logWriter.writeLog);
+
+            const client = createInstrumentedGraphqlClient({
+              saleorApiUrl: authData.saleorApiUrl,
+              token: authData.token,
+            });
+
+            await new OrderNoteReporter(client).reportOrderNote(
+              orderEvent.getOrderId(),
+              "Transaction committed in AvaTax: " + response.id,
+            );
+          });
+
+          return Response.json({ message: "Success" }, { status: 200 });
+        } catch (error) {
+          span.recordException(error as Error); // todo: remove casting when error handling is refactored
+
+          if (
+            error instanceof AvataxInvalidCredentialsError ||
+            error instanceof AvataxForbiddenAccessError ||
+            error instanceof AvataxGetTaxSystemError
+          ) {
+            const problemReporter = createAvataxProblemReporter(authData);
+
+            after(() =>
+              problemReporter.reportApiProblem(error, {
+                id: avataxConfig.id,
+                name: avataxConfig.config.name,
+                companyCode: avataxConfig.config.companyCode,
+              }),
+            );
+          }
+
+          if (
+            error instanceof AvataxEntityNotFoundError ||
+            error instanceof AvataxGetTaxWrongUserInputError
+          ) {
+            logger.warn("AvaTax rejected transaction commit", { error: error });
+
+            OrderCommittedLogRequest.createErrorLog({
+              sourceId: payload.order?.id,
+              channelId: payload.order?.channel.id,
+              errorReason:
+                error instanceof AvataxEntityNotFoundError
+                  ? "AvaTax transaction not found"
+                  : `AvaTax rejected the commit: ${error.description}`,
+              avataxId: payload.order?.avataxId,
+            })
+              .mapErr(captureException)
+              .map(logWriter.writeLog);
+
+            span.setStatus({
+              code: SpanStatusCode.ERROR,
+              message: "Failed to commit AvaTax transaction: rejected by AvaTax",
+            });
+
+            return Response.json(
+              { message: `AvaTax transaction for order: ${payload.order?.id} can't be committed` },
+              { status: 400 },
+            );
+          }
+
+          captureException(error);
+          logger.error("Unhandled error executing webhook", { error: error });
+
+          OrderCommittedLogRequest.createErrorLog({
+            sourceId: payload.order?.id,
+            channelId: payload.order?.channel.id,
+            errorReason: "AvaTax API returned an unhandled error",
+            avataxId: payload.order?.avataxId,
+          })
+            .mapErr(captureException)
+            .map(logWriter.writeLog);
+
+          span.setStatus({
+            code: SpanStatusCode.ERROR,
+            message: "Failed to commit AvaTax transaction: unhandled error",
+          });
+
+          return Response.json(
+            { message: "Failed to commit AvaTax transaction. (Unhandled error)" },
+            { status: 500 },
+          );
+        }
+      },
+    );
+};
@@ -0,0 +1,6 @@
+import { type OrderFulfilledEventSubscriptionFragment } from "../../../../generated/graphql";
+
+export type OrderFulfilledPayload = Extract<
+  OrderFulfilledEventSubscriptionFragment,
+  { __typename: "OrderFulfilled" }
+>;
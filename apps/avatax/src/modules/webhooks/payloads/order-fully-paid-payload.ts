@@ -0,0 +1,6 @@
+import { type OrderFullyPaidEventSubscriptionFragment } from "../../../../generated/graphql";
+
+export type OrderFullyPaidPayload = Extract<
+  OrderFullyPaidEventSubscriptionFragment,
+  { __typename: "OrderFullyPaid" }
+>;
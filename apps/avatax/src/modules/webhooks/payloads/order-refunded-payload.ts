@@ -0,0 +1,6 @@
+import { type OrderRefundedEventSubscriptionFragment } from "../../../../generated/graphql";
+
+export type OrderRefundedPayload = Extract<
+  OrderRefundedEventSubscriptionFragment,
+  { __typename: "OrderRefunded" }
+>;
@@ -0,0 +1,6 @@
+import { type OrderUpdatedEventSubscriptionFragment } from "../../../../generated/graphql";
+
+export type OrderUpdatedPayload = Extract<
+  OrderUpdatedEventSubscriptionFragment,
+  { __typename: "OrderUpdated" }
+>;
@@ -2,23 +2,65 @@
 import "@saleor/macaw-ui/style";
 import "../styles/globals.css";
 
-import { Box, Text, ThemeProvider } from "@saleor/macaw-ui";
+import { type IncomingMessage } from "node:http";
+
+import { Box, Button, Text, ThemeProvider } from "@saleor/macaw-ui";
 import { type GetServerSideProps } from "next";
 
-export const getServerSideProps: GetServerSideProps = async ({ query }) => {
+const DETAILS_FIELDS = ["status", "exemptNo", "totalExempt", "totalTaxable"];
+const COMMIT_FORM_FIELDS = ["orderId", "saleorApiUrl", "accessToken", "appId"];
+
+type CommitForm = Record<string, string> | null;
+
+const readFormBody = async (req: IncomingMessage) => {
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of req) {
+    chunks.push(Buffer.from(chunk));
+  }
+
+  return new URLSearchParams(Buffer.concat(chunks).toString());
+};
+
+/**
+ * Rendered by /api/order-details, which posts the fields in the body.
+ * Query string is not used, because the access token must not end up in URLs (and access logs).
+ */
+export const getServerSideProps: GetServerSideProps = async ({ req }) => {
+  const fields = req.method === "POST" ? await readFormBody(req) : new URLSearchParams();
+
+  const details = Object.fromEntries(
+    DETAILS_FIELDS.filter((key) => fields.has(key)).map((key) => [key, fields.get(key) ?? ""]),
+  );
+
+  // Form fields are passed only when transaction can be committed
+  const commitForm: CommitForm = COMMIT_FORM_FIELDS.every((key) => fields.get(key))
+    ? Object.fromEntries(COMMIT_FORM_FIELDS.map((key) => [key, fields.get(key) ?? ""]))
+    : null;
+
   return {
     props: {
       skipApp: true,
-      queryParams: query,
+      details,
+      commitForm,
+      commitError: fields.get("commitError") ?? "",
     },
   };
 };
 
-const OrderDetailsPage = ({ queryParams }: { queryParams: Record<string, string> }) => {
+const OrderDetailsPage = ({
+  details,
+  commitForm,
+  commitError,
+}: {
+  details: Record<string, string>;
+  commitForm: CommitForm;
+  commitError: string;
+}) => {
   return (
     <ThemeProvider>
       <Box paddingTop={4} __height={200}>
-        {Object.entries(queryParams).map(([key, value]) => (
+        {Object.entries(details).map(([key, value]) => (
           <Box key={key} marginBottom={2} display="flex" justifyContent="space-between">
             <Text key={key} as="span" fontWeight="bold">
               {key}:
@@ -26,6 +68,22 @@ const OrderDetailsPage = ({ queryParams }: { queryParams: Record<string, string>
             <Text as="span">{value.length ? value : "n/a"}</Text>
           </Box>
         ))}
+        {commitError && (
+          <Text as="p" color="critical1" marginBottom={2}>
+            {commitError}
+          </Text>
+        )}
+        {commitForm && (
+          <form method="POST" action="/api/order-details">
+            {Object.entries(commitForm).map(([key, value]) => (
+              <input key={key} type="hidden" name={key} value={value} />
+            ))}
+            <input type="hidden" name="action" value="commit" />
+            <Button type="submit" variant="secondary">
+              Commit now
+            </Button>
+          </form>
+        )}
       </Box>
     </ThemeProvider>
   );
@@ -3,6 +3,7 @@ import { useRouter } from "next/router";
 
 import { AvataxInstructions } from "../../../../modules/avatax/ui/avatax-instructions";
 import { EditAvataxConfiguration } from "../../../../modules/avatax/ui/edit-avatax-configuration";
+import { FallbackTaxRatesSection } from "../../../../modules/fallback-tax-rates/ui/fallback-tax-rates-section";
 import { AppPageLayout } from "../../../../modules/ui/app-page-layout";
 import { Section } from "../../../../modules/ui/app-section";
 
@@ -40,6 +41,7 @@ const EditAvataxPage = () => {
       <Provider>
         <EditAvataxConfiguration />
       </Provider>
+      {typeof id === "string" && <FallbackTaxRatesSection connectionId={id} />}
     </AppPageLayout>
   );
 };
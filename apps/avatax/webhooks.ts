@@ -2,10 +2,18 @@ import { checkoutCalculateTaxesSyncWebhook } from "./src/modules/webhooks/defini
 import { orderCalculateTaxesSyncWebhook } from "./src/modules/webhooks/definitions/order-calculate-taxes";
 import { orderCancelledAsyncWebhook } from "./src/modules/webhooks/definitions/order-cancelled";
 import { orderConfirmedAsyncWebhook } from "./src/modules/webhooks/definitions/order-confirmed";
+import { orderFulfilledAsyncWebhook } from "./src/modules/webhooks/definitions/order-fulfilled";
+import { orderFullyPaidAsyncWebhook } from "./src/modules/webhooks/definitions/order-fully-paid";
+import { orderRefundedAsyncWebhook } from "./src/modules/webhooks/definitions/order-refunded";
+import { orderUpdatedAsyncWebhook } from "./src/modules/webhooks/definitions/order-updated";
 
 export const appWebhooks = [
   checkoutCalculateTaxesSyncWebhook,
   orderCalculateTaxesSyncWebhook,
   orderCancelledAsyncWebhook,
   orderConfirmedAsyncWebhook,
+  orderFullyPaidAsyncWebhook,
+  orderFulfilledAsyncWebhook,
+  orderRefundedAsyncWebhook,
+  orderUpdatedAsyncWebhook,
 ];
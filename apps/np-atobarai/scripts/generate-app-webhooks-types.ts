@@ -17,6 +17,7 @@ const {
 
 const schemaFileNames = [
   "PaymentGatewayInitializeSession",
+  "TransactionCancelationRequested",
   "TransactionInitializeSession",
   "TransactionRefundRequested",
   "TransactionProcessSession",
@@ -3,6 +3,7 @@ import { createAtobaraiMerchantCode } from "@/modules/atobarai/atobarai-merchant
 import { createAtobaraiSecretSpCode } from "@/modules/atobarai/atobarai-secret-sp-code";
 import { createAtobaraiShippingCompanyCode } from "@/modules/atobarai/atobarai-shipping-company-code";
 import { createAtobaraiTerminalId } from "@/modules/atobarai/atobarai-terminal-id";
+import { emptyEligibilityRules } from "@/modules/eligibility/eligibility-rules";
 
 export const mockedAppChannelConfig = AppChannelConfig.create({
   name: "Config 1",
@@ -13,4 +14,5 @@ export const mockedAppChannelConfig = AppChannelConfig.create({
   secretSpCode: createAtobaraiSecretSpCode("sp1"),
   useSandbox: true,
   terminalId: createAtobaraiTerminalId("id"),
+  eligibilityRules: emptyEligibilityRules,
 })._unsafeUnwrap();
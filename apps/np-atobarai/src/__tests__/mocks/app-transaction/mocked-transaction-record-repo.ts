@@ -1,7 +1,10 @@
 import { err, ok, type Result } from "neverthrow";
 
 import { type AtobaraiTransactionId } from "@/modules/atobarai/atobarai-transaction-id";
-import { type TransactionRecord } from "@/modules/transactions-recording/transaction-record";
+import {
+  type TransactionRecord,
+  type TransactionRecordWithPendingCreditCheck,
+} from "@/modules/transactions-recording/transaction-record";
 import {
   type TransactionRecordRepo,
   type TransactionRecordRepoAccess,
@@ -42,6 +45,14 @@ export class MockedTransactionRecordRepo implements TransactionRecordRepo {
     }
   }
 
+  async getTransactionsWithPendingCreditCheck(
+    _accessPattern: TransactionRecordRepoAccess,
+  ): Promise<Result<TransactionRecordWithPendingCreditCheck[], TransactionRecordRepoError>> {
+    return ok(
+      Object.values(this.transactions).filter((transaction) => transaction.hasPendingCreditCheck()),
+    );
+  }
+
   reset() {
     this.transactions = {};
   }
@@ -1,6 +1,11 @@
+import { type AtobaraiDataFingerprint } from "@/modules/atobarai/atobarai-data-fingerprint";
 import { type AtobaraiShippingCompanyCode } from "@/modules/atobarai/atobarai-shipping-company-code";
 import { type AtobaraiTransactionId } from "@/modules/atobarai/atobarai-transaction-id";
-import { TransactionRecord } from "@/modules/transactions-recording/transaction-record";
+import {
+  type PendingCreditCheck,
+  TransactionRecord,
+  type TransactionShipment,
+} from "@/modules/transactions-recording/transaction-record";
 
 import { mockedAtobaraiShippingCompanyCode } from "../atobarai/mocked-atobarai-shipping-company-code";
 import { mockedAtobaraiTransactionId } from "../atobarai/mocked-atobarai-transaction-id";
@@ -9,6 +14,10 @@ type Params = {
   atobaraiTransactionId?: AtobaraiTransactionId;
   saleorTrackingNumber?: string | null;
   fulfillmentMetadataShippingCompanyCode?: AtobaraiShippingCompanyCode | null;
+  pendingCreditCheck?: PendingCreditCheck | null;
+  cancelled?: boolean;
+  atobaraiDataFingerprint?: AtobaraiDataFingerprint | null;
+  shipments?: TransactionShipment[];
 };
 
 export const getMockedTransactionRecord = (params?: Params) => {
@@ -23,5 +32,9 @@ export const getMockedTransactionRecord = (params?: Params) => {
     atobaraiTransactionId: finalParams.atobaraiTransactionId,
     saleorTrackingNumber: finalParams.saleorTrackingNumber,
     fulfillmentMetadataShippingCompanyCode: finalParams.fulfillmentMetadataShippingCompanyCode,
+    pendingCreditCheck: finalParams.pendingCreditCheck,
+    cancelled: finalParams.cancelled,
+    atobaraiDataFingerprint: finalParams.atobaraiDataFingerprint,
+    shipments: finalParams.shipments,
   });
 };
@@ -7,5 +7,7 @@ export const mockedAtobaraiApiClient = {
   changeTransaction: vi.fn(),
   verifyCredentials: vi.fn(),
   reportFulfillment: vi.fn(),
+  cancelFulfillmentReport: vi.fn(),
   cancelTransaction: vi.fn(),
+  findAuthorizations: vi.fn(),
 } satisfies IAtobaraiApiClient;
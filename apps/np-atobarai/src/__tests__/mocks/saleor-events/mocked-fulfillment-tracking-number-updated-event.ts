@@ -7,6 +7,7 @@ import { mockedSaleorChannelId } from "../saleor/mocked-saleor-channel-id";
 export const mockedFulfillmentTrackingNumberUpdatedEvent = {
   issuedAt: "2025-07-08T00:00:00Z",
   fulfillment: {
+    id: "fulfillment-123",
     trackingNumber: "TN123456789",
   },
   order: {
@@ -0,0 +1,62 @@
+import { type OrderUpdatedEventFragment } from "@/generated/graphql";
+
+import { mockedAtobaraiTransactionId } from "../atobarai/mocked-atobarai-transaction-id";
+import { mockedSaleorAppId } from "../saleor/mocked-saleor-app-id";
+import { mockedSaleorTransactionToken } from "../saleor/mocked-saleor-transaction-token";
+import { mockedSourceObject } from "./mocked-source-object";
+
+export const mockedOrderUpdatedEvent = {
+  issuedAt: "2025-07-08T00:00:00Z",
+  order: {
+    __typename: "Order",
+    id: "order-123",
+    channel: mockedSourceObject.channel,
+    userEmail: "order@email.com",
+    billingAddress: mockedSourceObject.billingAddress,
+    shippingAddress: mockedSourceObject.shippingAddress,
+    discount: mockedSourceObject.discount,
+    shippingPrice: mockedSourceObject.shippingPrice,
+    total: {
+      gross: {
+        amount: 6_229,
+      },
+    },
+    lines: [
+      {
+        id: "line-id-1",
+        __typename: "OrderLine",
+        quantity: 5,
+        unitPrice: {
+          gross: {
+            amount: 1_234,
+          },
+        },
+        orderVariant: {
+          product: {
+            name: "Product Name",
+          },
+          sku: "product-sku",
+        },
+      },
+    ],
+    transactions: [
+      {
+        token: mockedSaleorTransactionToken,
+        pspReference: mockedAtobaraiTransactionId,
+        chargedAmount: {
+          amount: 6_229,
+        },
+        refundedAmount: {
+          amount: 0,
+        },
+        createdBy: {
+          __typename: "App",
+          id: mockedSaleorAppId,
+        },
+      },
+    ],
+  },
+  recipient: {
+    id: mockedSaleorAppId,
+  },
+} satisfies OrderUpdatedEventFragment;
@@ -4,7 +4,25 @@ import { mockedSaleorAppId } from "../saleor/mocked-saleor-app-id";
 import { mockedSourceObject } from "./mocked-source-object";
 
 export const mockedPaymentGatewayInitializeSessionEvent = {
-  sourceObject: mockedSourceObject,
+  sourceObject: {
+    ...mockedSourceObject,
+    deliveryMethod: {
+      __typename: "ShippingMethod",
+      id: "shipping-method-id",
+    },
+    lines: mockedSourceObject.lines.map((line) => ({
+      ...line,
+      checkoutVariant: {
+        ...line.checkoutVariant,
+        product: {
+          ...line.checkoutVariant.product,
+          productType: {
+            id: "product-type-id",
+          },
+        },
+      },
+    })),
+  },
   recipient: {
     id: mockedSaleorAppId,
   },
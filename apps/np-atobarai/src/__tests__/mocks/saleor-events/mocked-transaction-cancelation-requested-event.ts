@@ -0,0 +1,28 @@
+import { type TransactionCancelationRequestedEventFragment } from "@/generated/graphql";
+
+import { mockedAtobaraiTransactionId } from "../atobarai/mocked-atobarai-transaction-id";
+import { mockedSaleorAppId } from "../saleor/mocked-saleor-app-id";
+import { mockedSaleorChannelId } from "../saleor/mocked-saleor-channel-id";
+
+export const mockedTransactionCancelationRequestedEvent = {
+  issuedAt: "2025-07-08T00:00:00Z",
+  action: {
+    amount: 3_334,
+    currency: "JPY",
+  },
+  transaction: {
+    pspReference: mockedAtobaraiTransactionId,
+    checkout: null,
+    order: {
+      id: "order-id",
+      channel: {
+        id: mockedSaleorChannelId,
+        slug: "default-channel",
+        currencyCode: "JPY",
+      },
+    },
+  },
+  recipient: {
+    id: mockedSaleorAppId,
+  },
+} satisfies TransactionCancelationRequestedEventFragment;
@@ -0,0 +1,91 @@
+import { createSaleorApiUrl } from "@saleor/apps-domain/saleor-api-url";
+import { withSpanAttributesAppRouter } from "@saleor/apps-otel/src/with-span-attributes";
+import { compose } from "@saleor/apps-shared/compose";
+import { captureException } from "@sentry/nextjs";
+import { type NextRequest } from "next/server";
+
+import { env } from "@/lib/env";
+import { createInstrumentedGraphqlClient } from "@/lib/graphql-client";
+import { createLogger } from "@/lib/logger";
+import { withLoggerContext } from "@/lib/logger-context";
+import { apl } from "@/lib/saleor-app";
+import { appConfigRepo } from "@/modules/app-config/repo/app-config-repo";
+import { AtobaraiApiClientFactory } from "@/modules/atobarai/api/atobarai-api-client-factory";
+import { TransactionEventReporter } from "@/modules/saleor/transaction-event-reporter";
+import { transactionRecordRepo } from "@/modules/transactions-recording/transaction-record-repo";
+
+import { type PollPendingCreditChecksReport, PollPendingCreditChecksUseCase } from "./use-case";
+
+const logger = createLogger("PollPendingCreditChecks route");
+
+const useCase = new PollPendingCreditChecksUseCase({
+  appConfigRepo: appConfigRepo,
+  atobaraiApiClientFactory: new AtobaraiApiClientFactory(),
+  transactionRecordRepo: transactionRecordRepo,
+});
+
+/**
+ * Called by Vercel Cron (see vercel.json). Vercel sends CRON_SECRET as Bearer token.
+ */
+const handler = async (req: NextRequest) => {
+  if (!env.CRON_SECRET || req.headers.get("authorization") !== `Bearer ${env.CRON_SECRET}`) {
+    logger.warn("Unauthorized cron request");
+
+    return Response.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const installations = await apl.getAll();
+
+  const reports: Array<{
+    saleorApiUrl: string;
+    report: PollPendingCreditChecksReport | null;
+  }> = [];
+
+  // Sequentially, to not exceed NP API rate limits
+  for (const authData of installations) {
+    try {
+      const saleorApiUrl = createSaleorApiUrl(authData.saleorApiUrl);
+
+      const result = await useCase.execute({
+        appId: authData.appId,
+        saleorApiUrl,
+        transactionEventReporter: new TransactionEventReporter({
+          graphqlClient: createInstrumentedGraphqlClient({
+            saleorApiUrl,
+            token: authData.token,
+          }),
+        }),
+      });
+
+      if (result.isErr()) {
+        captureException(result.error);
+        logger.error("Failed to poll pending credit checks", {
+          saleorApiUrl,
+          error: result.error,
+        });
+      }
+
+      reports.push({
+        saleorApiUrl,
+        report: result.unwrapOr(null),
+      });
+    } catch (error) {
+      captureException(error);
+      logger.error("Unhandled error", { error: error, saleorApiUrl: authData.saleorApiUrl });
+
+      reports.push({
+        saleorApiUrl: authData.saleorApiUrl,
+        report: null,
+      });
+    }
+  }
+
+  logger.info("Finished polling pending credit checks", {
+    installationsCount: installations.length,
+    failedInstallationsCount: reports.filter((entry) => entry.report === null).length,
+  });
+
+  return Response.json({ reports }, { status: 200 });
+};
+
+export const GET = compose(withLoggerContext, withSpanAttributesAppRouter)(handler);
@@ -0,0 +1,311 @@
+import { err, ok } from "neverthrow";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { mockedAppChannelConfig } from "@/__tests__/mocks/app-config/mocked-app-config";
+import { mockedAppConfigRepo } from "@/__tests__/mocks/app-config/mocked-app-config-repo";
+import { getMockedTransactionRecord } from "@/__tests__/mocks/app-transaction/mocked-transaction-record";
+import { MockedTransactionRecordRepo } from "@/__tests__/mocks/app-transaction/mocked-transaction-record-repo";
+import { mockedAtobaraiApiClient } from "@/__tests__/mocks/atobarai/api/mocked-atobarai-api-client";
+import { mockedAtobaraiMoney } from "@/__tests__/mocks/atobarai/mocked-atobarai-money";
+import { mockedAtobaraiTransactionId } from "@/__tests__/mocks/atobarai/mocked-atobarai-transaction-id";
+import { mockedSaleorApiUrl } from "@/__tests__/mocks/saleor/mocked-saleor-api-url";
+import { mockedSaleorAppId } from "@/__tests__/mocks/saleor/mocked-saleor-app-id";
+import { mockedSaleorChannelId } from "@/__tests__/mocks/saleor/mocked-saleor-channel-id";
+import { mockedSaleorTransactionToken } from "@/__tests__/mocks/saleor/mocked-saleor-transaction-token";
+import {
+  createAtobaraiTransactionSuccessResponse,
+  CreditCheckResult,
+  FailedReason,
+} from "@/modules/atobarai/api/atobarai-transaction-success-response";
+import {
+  AtobaraiApiClientFindAuthorizationsError,
+  type IAtobaraiApiClientFactory,
+} from "@/modules/atobarai/api/types";
+import { createAtobaraiTransactionId } from "@/modules/atobarai/atobarai-transaction-id";
+import {
+  type ITransactionEventReporter,
+  TransactionEventReporterErrors,
+} from "@/modules/saleor/transaction-event-reporter";
+import { TransactionRecordRepoError } from "@/modules/transactions-recording/types";
+
+import { PollPendingCreditChecksUseCase } from "./use-case";
+
+describe("PollPendingCreditChecksUseCase", () => {
+  const atobaraiApiClientFactory = {
+    create: () => mockedAtobaraiApiClient,
+  } satisfies IAtobaraiApiClientFactory;
+
+  const transactionEventReporter = {
+    reportTransactionEvent: vi.fn(),
+  } satisfies ITransactionEventReporter;
+
+  const transactionRecordRepo = new MockedTransactionRecordRepo();
+
+  const secondAtobaraiTransactionId = createAtobaraiTransactionId("np_trans_02");
+
+  const pendingCreditCheck = {
+    saleorTransactionToken: mockedSaleorTransactionToken,
+    saleorChannelId: mockedSaleorChannelId,
+    atobaraiMoney: mockedAtobaraiMoney,
+  };
+
+  const useCase = new PollPendingCreditChecksUseCase({
+    appConfigRepo: mockedAppConfigRepo,
+    atobaraiApiClientFactory,
+    transactionRecordRepo,
+  });
+
+  const execute = () =>
+    useCase.execute({
+      saleorApiUrl: mockedSaleorApiUrl,
+      appId: mockedSaleorAppId,
+      transactionEventReporter,
+    });
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    transactionRecordRepo.reset();
+
+    transactionRecordRepo.transactions[mockedAtobaraiTransactionId] = getMockedTransactionRecord({
+      saleorTrackingNumber: null,
+      fulfillmentMetadataShippingCompanyCode: null,
+      pendingCreditCheck,
+    });
+    transactionRecordRepo.transactions[secondAtobaraiTransactionId] = getMockedTransactionRecord({
+      atobaraiTransactionId: secondAtobaraiTransactionId,
+      saleorTrackingNumber: null,
+      fulfillmentMetadataShippingCompanyCode: null,
+      pendingCreditCheck,
+    });
+
+    vi.spyOn(mockedAppConfigRepo, "getChannelConfig").mockResolvedValue(ok(mockedAppChannelConfig));
+    transactionEventReporter.reportTransactionEvent.mockResolvedValue(
+      ok({ createdEventId: "event-id" }),
+    );
+  });
+
+  it("Reports CHARGE_SUCCESS and CHARGE_FAILURE to Saleor and clears resolved credit checks", async () => {
+    vi.spyOn(mockedAtobaraiApiClient, "findAuthorizations").mockResolvedValue(
+      ok(
+        createAtobaraiTransactionSuccessResponse({
+          results: [
+            {
+              np_transaction_id: mockedAtobaraiTransactionId,
+              authori_result: CreditCheckResult.Success,
+            },
+            {
+              np_transaction_id: secondAtobaraiTransactionId,
+              authori_result: CreditCheckResult.Failed,
+              authori_ng: FailedReason.ExcessOfTheAmount,
+            },
+          ],
+        }),
+      ),
+    );
+
+    const result = await execute();
+
+    expect(result._unsafeUnwrap()).toStrictEqual({
+      pendingCount: 2,
+      chargeSuccessCount: 1,
+      chargeFailureCount: 1,
+      failedToProcessCount: 0,
+    });
+
+    expect(mockedAtobaraiApiClient.findAuthorizations).toHaveBeenCalledOnce();
+    expect(
+      transactionEventReporter.reportTransactionEvent.mock.calls.map(([input]) => ({
+        ...input,
+        time: expect.any(String),
+      })),
+    ).toMatchInlineSnapshot(`
+      [
+        {
+          "actions": [
+            "REFUND",
+            "CANCEL",
+          ],
+          "atobaraiMoney": {
+            "amount": 1000,
+            "currency": "JPY",
+          },
+          "atobaraiTransactionId": "np_trans_id",
+          "message": "NP Atobarai credit check passed",
+          "saleorTransactionToken": "mocked-saleor-transaction-token-uuid",
+          "time": Any<String>,
+          "type": "CHARGE_SUCCESS",
+        },
+        {
+          "actions": [],
+          "atobaraiMoney": {
+            "amount": 1000,
+            "currency": "JPY",
+          },
+          "atobaraiTransactionId": "np_trans_02",
+          "message": "NP Atobarai credit check failed with result: 20, reason: RE001",
+          "saleorTransactionToken": "mocked-saleor-transaction-token-uuid",
+          "time": Any<String>,
+          "type": "CHARGE_FAILURE",
+        },
+      ]
+    `);
+
+    expect(
+      Object.values(transactionRecordRepo.transactions).map((t) => t.hasPendingCreditCheck()),
+    ).toStrictEqual([false, false]);
+  });
+
+  it("Reports credit check result of order edit with its PSP reference", async () => {
+    transactionRecordRepo.reset();
+    transactionRecordRepo.transactions[mockedAtobaraiTransactionId] = getMockedTransactionRecord({
+      saleorTrackingNumber: null,
+      fulfillmentMetadataShippingCompanyCode: null,
+      pendingCreditCheck: {
+        ...pendingCreditCheck,
+        pspReference: "np_trans_id-order-updated-2025-07-08T00:00:00Z",
+      },
+    });
+    vi.spyOn(mockedAtobaraiApiClient, "findAuthorizations").mockResolvedValue(
+      ok(
+        createAtobaraiTransactionSuccessResponse({
+          results: [
+            {
+              np_transaction_id: mockedAtobaraiTransactionId,
+              authori_result: CreditCheckResult.Success,
+            },
+          ],
+        }),
+      ),
+    );
+
+    await execute();
+
+    expect(transactionEventReporter.reportTransactionEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        pspReference: "np_trans_id-order-updated-2025-07-08T00:00:00Z",
+        type: "CHARGE_SUCCESS",
+      }),
+    );
+  });
+
+  it("Keeps transaction pending if credit check is still pending in Atobarai", async () => {
+    vi.spyOn(mockedAtobaraiApiClient, "findAuthorizations").mockResolvedValue(
+      ok(
+        createAtobaraiTransactionSuccessResponse({
+          results: [
+            {
+              np_transaction_id: mockedAtobaraiTransactionId,
+              authori_result: CreditCheckResult.Pending,
+            },
+            {
+              np_transaction_id: secondAtobaraiTransactionId,
+              authori_result: CreditCheckResult.Pending,
+            },
+          ],
+        }),
+      ),
+    );
+
+    const result = await execute();
+
+    expect(result._unsafeUnwrap()).toStrictEqual({
+      pendingCount: 2,
+      chargeSuccessCount: 0,
+      chargeFailureCount: 0,
+      failedToProcessCount: 0,
+    });
+    expect(transactionEventReporter.reportTransactionEvent).not.toHaveBeenCalled();
+    expect(
+      transactionRecordRepo.transactions[mockedAtobaraiTransactionId].hasPendingCreditCheck(),
+    ).toBe(true);
+  });
+
+  it("Clears credit check if Saleor already has the event reported", async () => {
+    vi.spyOn(mockedAtobaraiApiClient, "findAuthorizations").mockResolvedValue(
+      ok(
+        createAtobaraiTransactionSuccessResponse({
+          results: [
+            {
+              np_transaction_id: mockedAtobaraiTransactionId,
+              authori_result: CreditCheckResult.Success,
+            },
+          ],
+        }),
+      ),
+    );
+    transactionEventReporter.reportTransactionEvent.mockResolvedValue(
+      err(new TransactionEventReporterErrors.AlreadyReportedError("Event already reported")),
+    );
+
+    await execute();
+
+    expect(
+      transactionRecordRepo.transactions[mockedAtobaraiTransactionId].hasPendingCreditCheck(),
+    ).toBe(false);
+  });
+
+  it("Keeps transaction pending if reporting to Saleor fails", async () => {
+    vi.spyOn(mockedAtobaraiApiClient, "findAuthorizations").mockResolvedValue(
+      ok(
+        createAtobaraiTransactionSuccessResponse({
+          results: [
+            {
+              np_transaction_id: mockedAtobaraiTransactionId,
+              authori_result: CreditCheckResult.Success,
+            },
+          ],
+        }),
+      ),
+    );
+    transactionEventReporter.reportTransactionEvent.mockResolvedValue(
+      err(new TransactionEventReporterErrors.ServerError("Server error")),
+    );
+
+    const result = await execute();
+
+    // Second transaction is missing in Atobarai response
+    expect(result._unsafeUnwrap().failedToProcessCount).toBe(2);
+    expect(
+      transactionRecordRepo.transactions[mockedAtobaraiTransactionId].hasPendingCreditCheck(),
+    ).toBe(true);
+  });
+
+  it("Keeps transactions pending if Atobarai API returns an error", async () => {
+    vi.spyOn(mockedAtobaraiApiClient, "findAuthorizations").mockResolvedValue(
+      err(new AtobaraiApiClientFindAuthorizationsError("Atobarai API returned an error")),
+    );
+
+    const result = await execute();
+
+    expect(result._unsafeUnwrap().failedToProcessCount).toBe(2);
+    expect(transactionEventReporter.reportTransactionEvent).not.toHaveBeenCalled();
+  });
+
+  it("Keeps transactions pending if channel is no longer configured", async () => {
+    vi.spyOn(mockedAppConfigRepo, "getChannelConfig").mockResolvedValue(ok(null));
+
+    const result = await execute();
+
+    expect(result._unsafeUnwrap().failedToProcessCount).toBe(2);
+    expect(mockedAtobaraiApiClient.findAuthorizations).not.toHaveBeenCalled();
+  });
+
+  it("Doesn't call Atobarai if there are no pending credit checks", async () => {
+    transactionRecordRepo.reset();
+
+    const result = await execute();
+
+    expect(result._unsafeUnwrap().pendingCount).toBe(0);
+    expect(mockedAtobaraiApiClient.findAuthorizations).not.toHaveBeenCalled();
+  });
+
+  it("Returns error if transactions can't be fetched", async () => {
+    vi.spyOn(transactionRecordRepo, "getTransactionsWithPendingCreditCheck").mockResolvedValueOnce(
+      err(new TransactionRecordRepoError.FailedFetchingTransactionError("DynamoDB error")),
+    );
+
+    const result = await execute();
+
+    expect(result.isErr()).toBe(true);
+  });
+});
@@ -0,0 +1,276 @@
+import { type SaleorApiUrl } from "@saleor/apps-domain/saleor-api-url";
+import { err, ok, type Result } from "neverthrow";
+
+import { createLogger } from "@/lib/logger";
+import { type AppConfigRepo } from "@/modules/app-config/repo/app-config-repo";
+import { createAtobaraiFindAuthorizationsPayload } from "@/modules/atobarai/api/atobarai-find-authorizations-payload";
+import {
+  type AtobaraiTransactionSuccessResponse,
+  CreditCheckResult,
+} from "@/modules/atobarai/api/atobarai-transaction-success-response";
+import { type IAtobaraiApiClientFactory } from "@/modules/atobarai/api/types";
+import {
+  type ITransactionEventReporter,
+  TransactionEventReporterErrors,
+} from "@/modules/saleor/transaction-event-reporter";
+import {
+  ChargeFailureResult,
+  ChargeSuccessResult,
+} from "@/modules/transaction-result/charge-result";
+import { type TransactionRecordWithPendingCreditCheck } from "@/modules/transactions-recording/transaction-record";
+import {
+  type TransactionRecordRepo,
+  type TransactionRecordRepoAccess,
+  type TransactionRecordRepoError,
+} from "@/modules/transactions-recording/types";
+
+export type PollPendingCreditChecksReport = {
+  pendingCount: number;
+  chargeSuccessCount: number;
+  chargeFailureCount: number;
+  /**
+   * Transactions that stay pending because of errors (missing config, API or Saleor errors) - they will be retried
+   */
+  failedToProcessCount: number;
+};
+
+type CreditCheckOutcome =
+  | "CHARGE_SUCCESS"
+  | "CHARGE_FAILURE"
+  | "STILL_PENDING"
+  | "FAILED_TO_PROCESS";
+
+/**
+ * Follows up transactions with pending credit check (NP manual review) and reports its final result to Saleor,
+ * so order doesn't wait for buyer to call TRANSACTION_PROCESS_SESSION again.
+ */
+export class PollPendingCreditChecksUseCase {
+  private logger = createLogger("PollPendingCreditChecksUseCase");
+  private appConfigRepo: Pick<AppConfigRepo, "getChannelConfig">;
+  private atobaraiApiClientFactory: IAtobaraiApiClientFactory;
+  private transactionRecordRepo: TransactionRecordRepo;
+
+  constructor(deps: {
+    appConfigRepo: Pick<AppConfigRepo, "getChannelConfig">;
+    atobaraiApiClientFactory: IAtobaraiApiClientFactory;
+    transactionRecordRepo: TransactionRecordRepo;
+  }) {
+    this.appConfigRepo = deps.appConfigRepo;
+    this.atobaraiApiClientFactory = deps.atobaraiApiClientFactory;
+    this.transactionRecordRepo = deps.transactionRecordRepo;
+  }
+
+  private groupByChannel(transactionRecords: TransactionRecordWithPendingCreditCheck[]) {
+    const recordsByChannel = new Map<string, TransactionRecordWithPendingCreditCheck[]>();
+
+    for (const transactionRecord of transactionRecords) {
+      const channelId = transactionRecord.pendingCreditCheck.saleorChannelId;
+
+      recordsByChannel.set(channelId, [
+        ...(recordsByChannel.get(channelId) ?? []),
+        transactionRecord,
+      ]);
+    }
+
+    return recordsByChannel;
+  }
+
+  private async pollChannel({
+    channelId,
+    transactionRecords,
+    accessPattern,
+    transactionEventReporter,
+  }: {
+    channelId: string;
+    transactionRecords: TransactionRecordWithPendingCreditCheck[];
+    accessPattern: TransactionRecordRepoAccess;
+    transactionEventReporter: ITransactionEventReporter;
+  }): Promise<CreditCheckOutcome[]> {
+    const configResult = await this.appConfigRepo.getChannelConfig({
+      channelId,
+      appId: accessPattern.appId,
+      saleorApiUrl: accessPattern.saleorApiUrl,
+    });
+
+    if (configResult.isErr() || !configResult.value) {
+      this.logger.warn("Configuration not found for channel with pending credit checks", {
+        channelId,
+        error: configResult.isErr() ? configResult.error : undefined,
+      });
+
+      return transactionRecords.map(() => "FAILED_TO_PROCESS");
+    }
+
+    const apiClient = this.atobaraiApiClientFactory.create({
+      atobaraiTerminalId: configResult.value.terminalId,
+      atobaraiMerchantCode: configResult.value.merchantCode,
+      atobaraiSecretSpCode: configResult.value.secretSpCode,
+      atobaraiEnvironment: configResult.value.useSandbox ? "sandbox" : "production",
+    });
+
+    const findAuthorizationsResult = await apiClient.findAuthorizations(
+      createAtobaraiFindAuthorizationsPayload({
+        atobaraiTransactionIds: transactionRecords.map((record) => record.atobaraiTransactionId),
+      }),
+    );
+
+    if (findAuthorizationsResult.isErr()) {
+      this.logger.warn("Failed to find authorizations in Atobarai", {
+        channelId,
+        error: findAuthorizationsResult.error,
+      });
+
+      return transactionRecords.map(() => "FAILED_TO_PROCESS");
+    }
+
+    const outcomes: CreditCheckOutcome[] = [];
+
+    for (const transactionRecord of transactionRecords) {
+      const authorization = findAuthorizationsResult.value.results.find(
+        (result) => result.np_transaction_id === transactionRecord.atobaraiTransactionId,
+      );
+
+      if (!authorization) {
+        this.logger.warn("Atobarai didn't return authorization for transaction", {
+          atobaraiTransactionId: transactionRecord.atobaraiTransactionId,
+        });
+
+        outcomes.push("FAILED_TO_PROCESS");
+
+        continue;
+      }
+
+      outcomes.push(
+        await this.resolveCreditCheck({
+          transactionRecord,
+          authorization,
+          accessPattern,
+          transactionEventReporter,
+        }),
+      );
+    }
+
+    return outcomes;
+  }
+
+  private async resolveCreditCheck({
+    transactionRecord,
+    authorization,
+    accessPattern,
+    transactionEventReporter,
+  }: {
+    transactionRecord: TransactionRecordWithPendingCreditCheck;
+    authorization: AtobaraiTransactionSuccessResponse["results"][number];
+    accessPattern: TransactionRecordRepoAccess;
+    transactionEventReporter: ITransactionEventReporter;
+  }): Promise<CreditCheckOutcome> {
+    let transactionResult: ChargeSuccessResult | ChargeFailureResult;
+    let message: string;
+
+    switch (authorization.authori_result) {
+      case CreditCheckResult.Pending:
+        return "STILL_PENDING";
+      case CreditCheckResult.Success:
+        transactionResult = new ChargeSuccessResult();
+        message = "NP Atobarai credit check passed";
+        break;
+      case CreditCheckResult.Failed:
+      case CreditCheckResult.BeforeReview:
+        transactionResult = new ChargeFailureResult();
+        message = `NP Atobarai credit check failed with result: ${authorization.authori_result}${
+          authorization.authori_ng ? `, reason: ${authorization.authori_ng}` : ""
+        }`;
+        break;
+      default:
+        this.logger.warn("Unexpected Atobarai credit check result", {
+          atobaraiTransactionId: transactionRecord.atobaraiTransactionId,
+          authoriResult: authorization.authori_result,
+        });
+
+        return "FAILED_TO_PROCESS";
+    }
+
+    const { pendingCreditCheck } = transactionRecord;
+
+    const reportResult = await transactionEventReporter.reportTransactionEvent({
+      saleorTransactionToken: pendingCreditCheck.saleorTransactionToken,
+      atobaraiTransactionId: transactionRecord.atobaraiTransactionId,
+      ...(pendingCreditCheck.pspReference ? { pspReference: pendingCreditCheck.pspReference } : {}),
+      atobaraiMoney: pendingCreditCheck.atobaraiMoney,
+      message,
+      time: new Date().toISOString(),
+      type: transactionResult.result,
+      actions: transactionResult.actions,
+    });
+
+    // Event reported by previous run (e.g. when updating record failed) - record can be resolved
+    if (
+      reportResult.isErr() &&
+      !(reportResult.error instanceof TransactionEventReporterErrors.AlreadyReportedError)
+    ) {
+      this.logger.warn("Failed to report credit check result to Saleor", {
+        atobaraiTransactionId: transactionRecord.atobaraiTransactionId,
+        error: reportResult.error,
+      });
+
+      return "FAILED_TO_PROCESS";
+    }
+
+    const updateTransactionResult = await this.transactionRecordRepo.updateTransaction(
+      accessPattern,
+      transactionRecord.withPendingCreditCheck(null),
+    );
+
+    if (updateTransactionResult.isErr()) {
+      this.logger.error("Failed to update transaction in app transaction repo", {
+        error: updateTransactionResult.error,
+      });
+
+      return "FAILED_TO_PROCESS";
+    }
+
+    this.logger.info("Reported credit check result to Saleor", {
+      atobaraiTransactionId: transactionRecord.atobaraiTransactionId,
+      result: transactionResult.result,
+    });
+
+    return transactionResult.result;
+  }
+
+  async execute(params: {
+    appId: string;
+    saleorApiUrl: SaleorApiUrl;
+    transactionEventReporter: ITransactionEventReporter;
+  }): Promise<Result<PollPendingCreditChecksReport, TransactionRecordRepoError>> {
+    const accessPattern = { saleorApiUrl: params.saleorApiUrl, appId: params.appId };
+
+    const pendingTransactionsResult =
+      await this.transactionRecordRepo.getTransactionsWithPendingCreditCheck(accessPattern);
+
+    if (pendingTransactionsResult.isErr()) {
+      return err(pendingTransactionsResult.error);
+    }
+
+    const outcomes: CreditCheckOutcome[] = [];
+
+    for (const [channelId, transactionRecords] of this.groupByChannel(
+      pendingTransactionsResult.value,
+    )) {
+      outcomes.push(
+        ...(await this.pollChannel({
+          channelId,
+          transactionRecords,
+          accessPattern,
+          transactionEventReporter: params.transactionEventReporter,
+        })),
+      );
+    }
+
+    return ok({
+      pendingCount: pendingTransactionsResult.value.length,
+      chargeSuccessCount: outcomes.filter((outcome) => outcome === "CHARGE_SUCCESS").length,
+      chargeFailureCount: outcomes.filter((outcome) => outcome === "CHARGE_FAILURE").length,
+      failedToProcessCount: outcomes.filter((outcome) => outcome === "FAILED_TO_PROCESS").length,
+    });
+  }
+}
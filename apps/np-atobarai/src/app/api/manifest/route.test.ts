@@ -31,8 +31,7 @@ describe("Manifest handler", async () => {
         expect(body).toMatchInlineSnapshot(
           {
             version: expect.any(String),
-          },
-          `
+          }, `
           {
             "about": "App that allows merchants using the Saleor e-commerce platform to accept online payments from customers using NP Atobarai as their payment processor.",
             "appUrl": "https://localhost:3000",
@@ -59,7 +58,7 @@ describe("Manifest handler", async () => {
               {
                 "isActive": true,
                 "name": "NP Atobarai Payment Gateway Initialize",
-                "query": "subscription PaymentGatewayInitializeSession { event { ...PaymentGatewayInitializeSessionEvent }}fragment EventMetadata on Event { version issuedAt recipient { id }}fragment Channel on Channel { id slug currencyCode}fragment Address on Address { firstName lastName companyName postalCode countryArea streetAddress1 streetAddress2 phone city cityArea country { code }}fragment SourceObject on OrderOrCheckout { ... on Checkout { __typename id channel { ...Channel } email billingAddress { ...Address } shippingAddress { ...Address } discount { amount } shippingPrice { gross { amount } } totalPrice { gross { amount } } lines { __typename id quantity unitPrice { gross { amount } } checkoutVariant: variant { sku product { name } } } } ... on Order { __typename id channel { ...Channel } userEmail billingAddress { ...Address } shippingAddress { ...Address } discount { amount } shippingPrice { gross { amount } } total { gross { amount } } lines { __typename id quantity unitPrice { gross { amount } } orderVariant: variant { sku product { name } } } }}fragment PaymentGatewayInitializeSessionEvent on PaymentGatewayInitializeSession { ...EventMetadata sourceObject { ...SourceObject }}",
+                "query": "subscription PaymentGatewayInitializeSession { event { ...PaymentGatewayInitializeSessionEvent }}fragment EventMetadata on Event { version issuedAt recipient { id }}fragment Channel on Channel { id slug currencyCode}fragment Address on Address { firstName lastName companyName postalCode countryArea streetAddress1 streetAddress2 phone city cityArea country { code }}fragment SourceObject on OrderOrCheckout { ... on Checkout { __typename id channel { ...Channel } email billingAddress { ...Address } shippingAddress { ...Address } discount { amount } shippingPrice { gross { amount } } totalPrice { gross { amount } } lines { __typename id quantity unitPrice { gross { amount } } checkoutVariant: variant { sku product { name } } } } ... on Order { __typename id channel { ...Channel } userEmail billingAddress { ...Address } shippingAddress { ...Address } discount { amount } shippingPrice { gross { amount } } total { gross { amount } } lines { __typename id quantity unitPrice { gross { amount } } orderVariant: variant { sku product { name } } } }}fragment PaymentGatewayInitializeSessionEvent on PaymentGatewayInitializeSession { ...EventMetadata sourceObject { ...SourceObject ... on Checkout { deliveryMethod { __typename ... on ShippingMethod { id } } lines { checkoutVariant: variant { product { productType { id } } } } } ... on Order { deliveryMethod { __typename ... on ShippingMethod { id } } lines { orderVariant: variant { product { productType { id } } } } } }}",
                 "syncEvents": [
                   "PAYMENT_GATEWAY_INITIALIZE_SESSION",
                 ],
@@ -92,19 +91,36 @@ describe("Manifest handler", async () => {
                 ],
                 "targetUrl": "https://localhost:3000/api/webhooks/saleor/transaction-refund-requested",
               },
+              {
+                "isActive": true,
+                "name": "NP Atobarai Transaction Cancelation Requested",
+                "query": "subscription TransactionCancelationRequested { event { ...TransactionCancelationRequestedEvent }}fragment EventMetadata on Event { version issuedAt recipient { id }}fragment Channel on Channel { id slug currencyCode}fragment TransactionCancelationRequestedEvent on TransactionCancelationRequested { ...EventMetadata action { amount currency } transaction { pspReference checkout { id channel { ...Channel } } order { id channel { ...Channel } } }}",
+                "syncEvents": [
+                  "TRANSACTION_CANCELATION_REQUESTED",
+                ],
+                "targetUrl": "https://localhost:3000/api/webhooks/saleor/transaction-cancelation-requested",
+              },
               {
                 "asyncEvents": [
                   "FULFILLMENT_TRACKING_NUMBER_UPDATED",
                 ],
                 "isActive": true,
                 "name": "NP Atobarai Fulfillment Tracking Number Updated",
-                "query": "subscription FulfillmentTrackingNumberUpdated { event { ...FulfillmentTrackingNumberUpdatedEvent }}fragment EventMetadata on Event { version issuedAt recipient { id }}fragment Channel on Channel { id slug currencyCode}fragment FulfillmentTrackingNumberUpdatedEvent on FulfillmentTrackingNumberUpdated { ...EventMetadata fulfillment { trackingNumber atobaraiPDCompanyCode: privateMetafield(key: "np-atobarai.pd-company-code") } order { id channel { ...Channel } transactions { pspReference createdBy { ... on App { __typename id } ... on User { __typename } } } }}",
+                "query": "subscription FulfillmentTrackingNumberUpdated { event { ...FulfillmentTrackingNumberUpdatedEvent }}fragment EventMetadata on Event { version issuedAt recipient { id }}fragment Channel on Channel { id slug currencyCode}fragment FulfillmentTrackingNumberUpdatedEvent on FulfillmentTrackingNumberUpdated { ...EventMetadata fulfillment { id trackingNumber atobaraiPDCompanyCode: privateMetafield(key: "np-atobarai.pd-company-code") } order { id channel { ...Channel } transactions { pspReference createdBy { ... on App { __typename id } ... on User { __typename } } } }}",
                 "targetUrl": "https://localhost:3000/api/webhooks/saleor/fulfillment-tracking-number-updated",
               },
+              {
+                "asyncEvents": [
+                  "ORDER_UPDATED",
+                ],
+                "isActive": true,
+                "name": "NP Atobarai Order Updated",
+                "query": "subscription OrderUpdated { event { ...OrderUpdatedEvent }}fragment EventMetadata on Event { version issuedAt recipient { id }}fragment Channel on Channel { id slug currencyCode}fragment Address on Address { firstName lastName companyName postalCode countryArea streetAddress1 streetAddress2 phone city cityArea country { code }}fragment SourceObject on OrderOrCheckout { ... on Checkout { __typename id channel { ...Channel } email billingAddress { ...Address } shippingAddress { ...Address } discount { amount } shippingPrice { gross { amount } } totalPrice { gross { amount } } lines { __typename id quantity unitPrice { gross { amount } } checkoutVariant: variant { sku product { name } } } } ... on Order { __typename id channel { ...Channel } userEmail billingAddress { ...Address } shippingAddress { ...Address } discount { amount } shippingPrice { gross { amount } } total { gross { amount } } lines { __typename id quantity unitPrice { gross { amount } } orderVariant: variant { sku product { name } } } }}fragment OrderUpdatedEvent on OrderUpdated { ...EventMetadata order { ...SourceObject transactions { token pspReference chargedAmount { amount } refundedAmount { amount } createdBy { ... on App { __typename id } ... on User { __typename } } } }}",
+                "targetUrl": "https://localhost:3000/api/webhooks/saleor/order-updated",
+              },
             ],
           }
-        `,
-        );
+        `);
       },
     });
   });
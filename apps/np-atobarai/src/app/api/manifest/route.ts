@@ -8,7 +8,9 @@ import { withLoggerContext } from "@/lib/logger-context";
 import packageJson from "@/package.json";
 
 import { fulfillmentTrackingNumberUpdatedWebhookDefinition } from "../webhooks/saleor/fulfillment-tracking-number-updated/webhook-definition";
+import { orderUpdatedWebhookDefinition } from "../webhooks/saleor/order-updated/webhook-definition";
 import { paymentGatewayInitializeSessionWebhookDefinition } from "../webhooks/saleor/payment-gateway-initialize-session/webhook-definition";
+import { transactionCancelationRequestedWebhookDefinition } from "../webhooks/saleor/transaction-cancelation-requested/webhook-definition";
 import { transactionInitializeSessionWebhookDefinition } from "../webhooks/saleor/transaction-initialize-session/webhook-definition";
 import { transactionProcessSessionWebhookDefinition } from "../webhooks/saleor/transaction-process-session/webhook-definition";
 import { transactionRefundRequestedWebhookDefinition } from "../webhooks/saleor/transaction-refund-requested/webhook-definition";
@@ -46,7 +48,9 @@ const handler = createManifestHandler({
         transactionInitializeSessionWebhookDefinition.getWebhookManifest(apiBaseUrl),
         transactionProcessSessionWebhookDefinition.getWebhookManifest(apiBaseUrl),
         transactionRefundRequestedWebhookDefinition.getWebhookManifest(apiBaseUrl),
+        transactionCancelationRequestedWebhookDefinition.getWebhookManifest(apiBaseUrl),
         fulfillmentTrackingNumberUpdatedWebhookDefinition.getWebhookManifest(apiBaseUrl),
+        orderUpdatedWebhookDefinition.getWebhookManifest(apiBaseUrl),
       ],
     };
 
@@ -12,6 +12,7 @@ import { setObservabilitySaleorApiUrl } from "@/lib/observability-saleor-api-url
 import { setObservabilitySourceObjectId } from "@/lib/observability-source-object-id";
 import { appConfigRepo } from "@/modules/app-config/repo/app-config-repo";
 import { AtobaraiApiClientFactory } from "@/modules/atobarai/api/atobarai-api-client-factory";
+import { OrderMetadataService } from "@/modules/saleor/order-metadata-service";
 import { OrderNoteService } from "@/modules/saleor/order-note-service";
 import { transactionRecordRepo } from "@/modules/transactions-recording/transaction-record-repo";
 
@@ -31,6 +32,11 @@ const useCase = new FulfillmentTrackingNumberUpdatedUseCase({
       graphqlClient,
     });
   },
+  orderMetadataServiceFactory(graphqlClient: Client) {
+    return new OrderMetadataService({
+      graphqlClient,
+    });
+  },
 });
 
 const handler = fulfillmentTrackingNumberUpdatedWebhookDefinition.createHandler(
@@ -1,5 +1,8 @@
 import { type InvalidEventValidationError } from "@/app/api/webhooks/saleor/use-case-errors";
-import { type AtobaraiApiClientFulfillmentReportError } from "@/modules/atobarai/api/types";
+import {
+  type AtobaraiApiClientCancelFulfillmentReportError,
+  type AtobaraiApiClientFulfillmentReportError,
+} from "@/modules/atobarai/api/types";
 
 import { SuccessWebhookResponse } from "../saleor-webhook-responses";
 
@@ -14,6 +17,7 @@ class Success extends SuccessWebhookResponse {
 
 type UseCaseErrors =
   | AtobaraiApiClientFulfillmentReportError
+  | AtobaraiApiClientCancelFulfillmentReportError
   | InstanceType<typeof InvalidEventValidationError>;
 
 class Failure extends SuccessWebhookResponse {
@@ -1,9 +1,10 @@
 import { BaseError } from "@saleor/errors";
 import { err, ok } from "neverthrow";
-import { describe, expect, it, vi } from "vitest";
+import { beforeEach, describe, expect, it, vi } from "vitest";
 
 import { mockedAppChannelConfig } from "@/__tests__/mocks/app-config/mocked-app-config";
 import { mockedAppConfigRepo } from "@/__tests__/mocks/app-config/mocked-app-config-repo";
+import { getMockedTransactionRecord } from "@/__tests__/mocks/app-transaction/mocked-transaction-record";
 import { MockedTransactionRecordRepo } from "@/__tests__/mocks/app-transaction/mocked-transaction-record-repo";
 import { mockedAtobaraiApiClient } from "@/__tests__/mocks/atobarai/api/mocked-atobarai-api-client";
 import { mockedAtobaraiTransactionId } from "@/__tests__/mocks/atobarai/mocked-atobarai-transaction-id";
@@ -12,12 +13,16 @@ import { mockedSaleorApiUrl } from "@/__tests__/mocks/saleor/mocked-saleor-api-u
 import { mockedSaleorAppId } from "@/__tests__/mocks/saleor/mocked-saleor-app-id";
 import { mockedFulfillmentTrackingNumberUpdatedEvent } from "@/__tests__/mocks/saleor-events/mocked-fulfillment-tracking-number-updated-event";
 import { InvalidEventValidationError } from "@/app/api/webhooks/saleor/use-case-errors";
+import { type FulfillmentTrackingNumberUpdatedEventFragment } from "@/generated/graphql";
 import { createAtobaraiFulfillmentReportSuccessResponse } from "@/modules/atobarai/api/atobarai-fulfillment-report-success-response";
 import {
+  AtobaraiApiClientCancelFulfillmentReportError,
   AtobaraiApiClientFulfillmentReportError,
   type IAtobaraiApiClientFactory,
 } from "@/modules/atobarai/api/types";
+import { type IOrderMetadataService } from "@/modules/saleor/order-metadata-service";
 import { type IOrderNoteService } from "@/modules/saleor/order-note-service";
+import { TransactionShipmentStatus } from "@/modules/transactions-recording/transaction-record";
 import { TransactionRecordRepoError } from "@/modules/transactions-recording/types";
 
 import { AppIsNotConfiguredResponse, BrokenAppResponse } from "../saleor-webhook-responses";
@@ -33,6 +38,21 @@ describe("FulfillmentTrackingNumberUpdatedUseCase", () => {
     addOrderNote: vi.fn().mockResolvedValue(ok({ noteId: "note-123" })),
   } satisfies IOrderNoteService;
 
+  const mockedOrderMetadataService = {
+    updateOrderPrivateMetadata: vi.fn().mockResolvedValue(ok(null)),
+  } satisfies IOrderMetadataService;
+
+  const transactionRecordRepo = new MockedTransactionRecordRepo();
+
+  beforeEach(() => {
+    transactionRecordRepo.reset();
+    transactionRecordRepo.transactions[mockedAtobaraiTransactionId] = getMockedTransactionRecord({
+      saleorTrackingNumber: null,
+      fulfillmentMetadataShippingCompanyCode: null,
+    });
+    mockedOrderMetadataService.updateOrderPrivateMetadata.mockResolvedValue(ok(null));
+  });
+
   it("should return Success response when fulfillment is reported successfully", async () => {
     const mockFulfillmentResponse = createAtobaraiFulfillmentReportSuccessResponse({
       results: [
@@ -55,10 +75,13 @@ describe("FulfillmentTrackingNumberUpdatedUseCase", () => {
     const useCase = new FulfillmentTrackingNumberUpdatedUseCase({
       appConfigRepo: mockedAppConfigRepo,
       atobaraiApiClientFactory,
-      transactionRecordRepo: new MockedTransactionRecordRepo(),
+      transactionRecordRepo,
       orderNoteServiceFactory() {
         return mockedOrderNoteService;
       },
+      orderMetadataServiceFactory() {
+        return mockedOrderMetadataService;
+      },
     });
 
     const result = await useCase.execute({
@@ -92,10 +115,13 @@ describe("FulfillmentTrackingNumberUpdatedUseCase", () => {
     const useCase = new FulfillmentTrackingNumberUpdatedUseCase({
       appConfigRepo: mockedAppConfigRepo,
       atobaraiApiClientFactory,
-      transactionRecordRepo: new MockedTransactionRecordRepo(),
+      transactionRecordRepo,
       orderNoteServiceFactory() {
         return mockedOrderNoteService;
       },
+      orderMetadataServiceFactory() {
+        return mockedOrderMetadataService;
+      },
     });
 
     const result = await useCase.execute({
@@ -121,10 +147,13 @@ describe("FulfillmentTrackingNumberUpdatedUseCase", () => {
     const useCase = new FulfillmentTrackingNumberUpdatedUseCase({
       appConfigRepo: mockedAppConfigRepo,
       atobaraiApiClientFactory,
-      transactionRecordRepo: new MockedTransactionRecordRepo(),
+      transactionRecordRepo,
       orderNoteServiceFactory() {
         return mockedOrderNoteService;
       },
+      orderMetadataServiceFactory() {
+        return mockedOrderMetadataService;
+      },
     });
 
     const result = await useCase.execute({
@@ -145,10 +174,13 @@ describe("FulfillmentTrackingNumberUpdatedUseCase", () => {
     const useCase = new FulfillmentTrackingNumberUpdatedUseCase({
       appConfigRepo: mockedAppConfigRepo,
       atobaraiApiClientFactory,
-      transactionRecordRepo: new MockedTransactionRecordRepo(),
+      transactionRecordRepo,
       orderNoteServiceFactory() {
         return mockedOrderNoteService;
       },
+      orderMetadataServiceFactory() {
+        return mockedOrderMetadataService;
+      },
     });
 
     const result = await useCase.execute({
@@ -165,10 +197,13 @@ describe("FulfillmentTrackingNumberUpdatedUseCase", () => {
     const useCase = new FulfillmentTrackingNumberUpdatedUseCase({
       appConfigRepo: mockedAppConfigRepo,
       atobaraiApiClientFactory,
-      transactionRecordRepo: new MockedTransactionRecordRepo(),
+      transactionRecordRepo,
       orderNoteServiceFactory() {
         return mockedOrderNoteService;
       },
+      orderMetadataServiceFactory() {
+        return mockedOrderMetadataService;
+      },
     });
     const event = {
       ...mockedFulfillmentTrackingNumberUpdatedEvent,
@@ -199,15 +234,19 @@ describe("FulfillmentTrackingNumberUpdatedUseCase", () => {
     const useCase = new FulfillmentTrackingNumberUpdatedUseCase({
       appConfigRepo: mockedAppConfigRepo,
       atobaraiApiClientFactory,
-      transactionRecordRepo: new MockedTransactionRecordRepo(),
+      transactionRecordRepo,
       orderNoteServiceFactory() {
         return mockedOrderNoteService;
       },
+      orderMetadataServiceFactory() {
+        return mockedOrderMetadataService;
+      },
     });
 
     const event = {
       ...mockedFulfillmentTrackingNumberUpdatedEvent,
       fulfillment: {
+        ...mockedFulfillmentTrackingNumberUpdatedEvent.fulfillment,
         trackingNumber: "",
       },
     };
@@ -228,10 +267,13 @@ describe("FulfillmentTrackingNumberUpdatedUseCase", () => {
     const useCase = new FulfillmentTrackingNumberUpdatedUseCase({
       appConfigRepo: mockedAppConfigRepo,
       atobaraiApiClientFactory,
-      transactionRecordRepo: new MockedTransactionRecordRepo(),
+      transactionRecordRepo,
       orderNoteServiceFactory() {
         return mockedOrderNoteService;
       },
+      orderMetadataServiceFactory() {
+        return mockedOrderMetadataService;
+      },
     });
 
     const event = {
@@ -258,10 +300,13 @@ describe("FulfillmentTrackingNumberUpdatedUseCase", () => {
     const useCase = new FulfillmentTrackingNumberUpdatedUseCase({
       appConfigRepo: mockedAppConfigRepo,
       atobaraiApiClientFactory,
-      transactionRecordRepo: new MockedTransactionRecordRepo(),
+      transactionRecordRepo,
       orderNoteServiceFactory() {
         return mockedOrderNoteService;
       },
+      orderMetadataServiceFactory() {
+        return mockedOrderMetadataService;
+      },
     });
 
     const event = {
@@ -303,10 +348,13 @@ describe("FulfillmentTrackingNumberUpdatedUseCase", () => {
     const useCase = new FulfillmentTrackingNumberUpdatedUseCase({
       appConfigRepo: mockedAppConfigRepo,
       atobaraiApiClientFactory,
-      transactionRecordRepo: new MockedTransactionRecordRepo(),
+      transactionRecordRepo,
       orderNoteServiceFactory() {
         return mockedOrderNoteService;
       },
+      orderMetadataServiceFactory() {
+        return mockedOrderMetadataService;
+      },
     });
 
     const event = {
@@ -340,10 +388,13 @@ describe("FulfillmentTrackingNumberUpdatedUseCase", () => {
     const useCase = new FulfillmentTrackingNumberUpdatedUseCase({
       appConfigRepo: mockedAppConfigRepo,
       atobaraiApiClientFactory,
-      transactionRecordRepo: new MockedTransactionRecordRepo(),
+      transactionRecordRepo,
       orderNoteServiceFactory() {
         return mockedOrderNoteService;
       },
+      orderMetadataServiceFactory() {
+        return mockedOrderMetadataService;
+      },
     });
 
     const event = {
@@ -374,9 +425,7 @@ describe("FulfillmentTrackingNumberUpdatedUseCase", () => {
   });
 
   it("should return BrokenAppResponse when transactionRecordRepo fails to create transaction", async () => {
-    const mockedTransactionRecordRepo = new MockedTransactionRecordRepo();
-
-    vi.spyOn(mockedTransactionRecordRepo, "updateTransaction").mockImplementationOnce(async () =>
+    vi.spyOn(transactionRecordRepo, "updateTransaction").mockImplementationOnce(async () =>
       err(
         new TransactionRecordRepoError.FailedUpdatingTransactionError(
           "Failed to update transaction",
@@ -402,10 +451,13 @@ describe("FulfillmentTrackingNumberUpdatedUseCase", () => {
     const useCase = new FulfillmentTrackingNumberUpdatedUseCase({
       appConfigRepo: mockedAppConfigRepo,
       atobaraiApiClientFactory,
-      transactionRecordRepo: mockedTransactionRecordRepo,
+      transactionRecordRepo,
       orderNoteServiceFactory() {
         return mockedOrderNoteService;
       },
+      orderMetadataServiceFactory() {
+        return mockedOrderMetadataService;
+      },
     });
 
     const result = await useCase.execute({
@@ -418,6 +470,82 @@ describe("FulfillmentTrackingNumberUpdatedUseCase", () => {
     expect(result._unsafeUnwrapErr()).toBeInstanceOf(BrokenAppResponse);
   });
 
+  it("should return BrokenAppResponse when transaction is missing in transactionRecordRepo", async () => {
+    transactionRecordRepo.reset();
+
+    vi.spyOn(mockedAppConfigRepo, "getChannelConfig").mockResolvedValue(ok(mockedAppChannelConfig));
+
+    const reportFulfillmentSpy = vi.spyOn(mockedAtobaraiApiClient, "reportFulfillment");
+
+    const useCase = new FulfillmentTrackingNumberUpdatedUseCase({
+      appConfigRepo: mockedAppConfigRepo,
+      atobaraiApiClientFactory,
+      transactionRecordRepo,
+      orderNoteServiceFactory() {
+        return mockedOrderNoteService;
+      },
+      orderMetadataServiceFactory() {
+        return mockedOrderMetadataService;
+      },
+    });
+
+    const result = await useCase.execute({
+      appId: mockedSaleorAppId,
+      saleorApiUrl: mockedSaleorApiUrl,
+      event: mockedFulfillmentTrackingNumberUpdatedEvent,
+      graphqlClient: mockedGraphqlClient,
+    });
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(BrokenAppResponse);
+    expect(reportFulfillmentSpy).not.toHaveBeenCalled();
+  });
+
+  it("should return Failure response without reporting fulfillment when transaction was cancelled", async () => {
+    transactionRecordRepo.transactions[mockedAtobaraiTransactionId] = getMockedTransactionRecord({
+      saleorTrackingNumber: null,
+      fulfillmentMetadataShippingCompanyCode: null,
+      cancelled: true,
+    });
+
+    vi.spyOn(mockedAppConfigRepo, "getChannelConfig").mockResolvedValue(ok(mockedAppChannelConfig));
+
+    const reportFulfillmentSpy = vi.spyOn(mockedAtobaraiApiClient, "reportFulfillment");
+    const addOrderNoteSpy = vi
+      .spyOn(mockedOrderNoteService, "addOrderNote")
+      .mockResolvedValue(ok({ noteId: "note-123" }));
+
+    const useCase = new FulfillmentTrackingNumberUpdatedUseCase({
+      appConfigRepo: mockedAppConfigRepo,
+      atobaraiApiClientFactory,
+      transactionRecordRepo,
+      orderNoteServiceFactory() {
+        return mockedOrderNoteService;
+      },
+      orderMetadataServiceFactory() {
+        return mockedOrderMetadataService;
+      },
+    });
+
+    const result = await useCase.execute({
+      appId: mockedSaleorAppId,
+      saleorApiUrl: mockedSaleorApiUrl,
+      event: mockedFulfillmentTrackingNumberUpdatedEvent,
+      graphqlClient: mockedGraphqlClient,
+    });
+
+    expect(result._unsafeUnwrap()).toBeInstanceOf(
+      FulfillmentTrackingNumberUpdatedUseCaseResponse.Failure,
+    );
+    expect(await result._unsafeUnwrap().getResponse().json()).toStrictEqual({
+      message: "Fulfillment can't be reported for cancelled transaction",
+    });
+    expect(reportFulfillmentSpy).not.toHaveBeenCalled();
+    expect(addOrderNoteSpy).toHaveBeenCalledWith({
+      orderId: mockedFulfillmentTrackingNumberUpdatedEvent.order.id,
+      message: `Fulfillment for tracking number ${mockedFulfillmentTrackingNumberUpdatedEvent.fulfillment.trackingNumber} was not reported, because NP Atobarai transaction was cancelled`,
+    });
+  });
+
   it("should use private metadata for Atobarai PD company code if available", async () => {
     const atobaraiPDCompanyCode = "59020";
 
@@ -447,10 +575,13 @@ describe("FulfillmentTrackingNumberUpdatedUseCase", () => {
     const useCase = new FulfillmentTrackingNumberUpdatedUseCase({
       appConfigRepo: mockedAppConfigRepo,
       atobaraiApiClientFactory,
-      transactionRecordRepo: new MockedTransactionRecordRepo(),
+      transactionRecordRepo,
       orderNoteServiceFactory() {
         return mockedOrderNoteService;
       },
+      orderMetadataServiceFactory() {
+        return mockedOrderMetadataService;
+      },
     });
 
     const result = await useCase.execute({
@@ -494,10 +625,13 @@ describe("FulfillmentTrackingNumberUpdatedUseCase", () => {
     const useCase = new FulfillmentTrackingNumberUpdatedUseCase({
       appConfigRepo: mockedAppConfigRepo,
       atobaraiApiClientFactory,
-      transactionRecordRepo: new MockedTransactionRecordRepo(),
+      transactionRecordRepo,
       orderNoteServiceFactory() {
         return mockedOrderNoteService;
       },
+      orderMetadataServiceFactory() {
+        return mockedOrderMetadataService;
+      },
     });
 
     const result = await useCase.execute({
@@ -549,4 +683,270 @@ describe("FulfillmentTrackingNumberUpdatedUseCase", () => {
       }
     `);
   });
+
+  describe("multiple shipments", () => {
+    const reportedShipment = {
+      saleorFulfillmentId: mockedFulfillmentTrackingNumberUpdatedEvent.fulfillment.id,
+      trackingNumber: "TN000000001",
+      fulfillmentMetadataShippingCompanyCode: null,
+      status: TransactionShipmentStatus.Reported,
+    };
+
+    const createUseCase = () =>
+      new FulfillmentTrackingNumberUpdatedUseCase({
+        appConfigRepo: mockedAppConfigRepo,
+        atobaraiApiClientFactory,
+        transactionRecordRepo,
+        orderNoteServiceFactory() {
+          return mockedOrderNoteService;
+        },
+        orderMetadataServiceFactory() {
+          return mockedOrderMetadataService;
+        },
+      });
+
+    const executeWithEvent = (event: FulfillmentTrackingNumberUpdatedEventFragment) =>
+      createUseCase().execute({
+        appId: mockedSaleorAppId,
+        saleorApiUrl: mockedSaleorApiUrl,
+        event,
+        graphqlClient: mockedGraphqlClient,
+      });
+
+    const getTransactionRecord = () =>
+      transactionRecordRepo.transactions[mockedAtobaraiTransactionId];
+
+    const mockCancelFulfillmentReport = () =>
+      vi.spyOn(mockedAtobaraiApiClient, "cancelFulfillmentReport").mockResolvedValue(
+        ok(
+          createAtobaraiFulfillmentReportSuccessResponse({
+            results: [{ np_transaction_id: mockedAtobaraiTransactionId }],
+          }),
+        ),
+      );
+
+    beforeEach(() => {
+      vi.spyOn(mockedAppConfigRepo, "getChannelConfig").mockResolvedValue(
+        ok(mockedAppChannelConfig),
+      );
+      mockedOrderNoteService.addOrderNote.mockResolvedValue(ok({ noteId: "note-123" }));
+      vi.spyOn(mockedAtobaraiApiClient, "reportFulfillment").mockResolvedValue(
+        ok(
+          createAtobaraiFulfillmentReportSuccessResponse({
+            results: [{ np_transaction_id: mockedAtobaraiTransactionId }],
+          }),
+        ),
+      );
+    });
+
+    it("should record first shipment as reported and expose it in order private metadata", async () => {
+      const result = await executeWithEvent(mockedFulfillmentTrackingNumberUpdatedEvent);
+
+      expect(result._unsafeUnwrap()).toBeInstanceOf(
+        FulfillmentTrackingNumberUpdatedUseCaseResponse.Success,
+      );
+      expect(getTransactionRecord().saleorTrackingNumber).toBe("TN123456789");
+      expect(getTransactionRecord().shipments).toStrictEqual([
+        {
+          saleorFulfillmentId: "fulfillment-123",
+          trackingNumber: "TN123456789",
+          fulfillmentMetadataShippingCompanyCode: null,
+          status: "REPORTED",
+        },
+      ]);
+      expect(mockedOrderMetadataService.updateOrderPrivateMetadata).toHaveBeenCalledWith({
+        orderId: mockedFulfillmentTrackingNumberUpdatedEvent.order.id,
+        metadata: [
+          {
+            key: "np-atobarai.shipments",
+            value: JSON.stringify([
+              {
+                fulfillmentId: "fulfillment-123",
+                trackingNumber: "TN123456789",
+                status: "REPORTED",
+              },
+            ]),
+          },
+        ],
+      });
+    });
+
+    it("should record next shipment without reporting it to NP", async () => {
+      transactionRecordRepo.transactions[mockedAtobaraiTransactionId] = getMockedTransactionRecord({
+        saleorTrackingNumber: reportedShipment.trackingNumber,
+        fulfillmentMetadataShippingCompanyCode: null,
+        shipments: [{ ...reportedShipment, saleorFulfillmentId: "fulfillment-001" }],
+      });
+
+      const result = await executeWithEvent(mockedFulfillmentTrackingNumberUpdatedEvent);
+
+      expect(result._unsafeUnwrap()).toBeInstanceOf(
+        FulfillmentTrackingNumberUpdatedUseCaseResponse.Success,
+      );
+      expect(mockedAtobaraiApiClient.reportFulfillment).not.toHaveBeenCalled();
+      expect(getTransactionRecord().saleorTrackingNumber).toBe(reportedShipment.trackingNumber);
+      expect(getTransactionRecord().shipments.map((shipment) => shipment.status)).toStrictEqual([
+        "REPORTED",
+        "ADDITIONAL",
+      ]);
+      expect(mockedOrderNoteService.addOrderNote).toHaveBeenCalledWith({
+        orderId: mockedFulfillmentTrackingNumberUpdatedEvent.order.id,
+        message:
+          "Shipment with tracking number TN123456789 was recorded, NP Atobarai keeps tracking number TN000000001 reported earlier",
+      });
+    });
+
+    it("should record shipment as additional for transaction reported before shipments were recorded", async () => {
+      transactionRecordRepo.transactions[mockedAtobaraiTransactionId] = getMockedTransactionRecord({
+        saleorTrackingNumber: reportedShipment.trackingNumber,
+      });
+
+      await executeWithEvent(mockedFulfillmentTrackingNumberUpdatedEvent);
+
+      expect(mockedAtobaraiApiClient.reportFulfillment).not.toHaveBeenCalled();
+      expect(getTransactionRecord().shipments.map((shipment) => shipment.status)).toStrictEqual([
+        "ADDITIONAL",
+      ]);
+    });
+
+    it("should cancel earlier shipment report and report corrected tracking number", async () => {
+      transactionRecordRepo.transactions[mockedAtobaraiTransactionId] = getMockedTransactionRecord({
+        saleorTrackingNumber: reportedShipment.trackingNumber,
+        fulfillmentMetadataShippingCompanyCode: null,
+        shipments: [reportedShipment],
+      });
+      mockCancelFulfillmentReport();
+
+      const result = await executeWithEvent(mockedFulfillmentTrackingNumberUpdatedEvent);
+
+      expect(result._unsafeUnwrap()).toBeInstanceOf(
+        FulfillmentTrackingNumberUpdatedUseCaseResponse.Success,
+      );
+      expect(mockedAtobaraiApiClient.cancelFulfillmentReport).toHaveBeenCalledWith(
+        { transactions: [{ np_transaction_id: mockedAtobaraiTransactionId }] },
+        { rejectMultipleResults: true },
+      );
+      expect(mockedAtobaraiApiClient.reportFulfillment).toHaveBeenCalledWith(
+        {
+          transactions: [expect.objectContaining({ slip_no: "TN123456789" })],
+        },
+        { rejectMultipleResults: true },
+      );
+      expect(
+        mockedAtobaraiApiClient.cancelFulfillmentReport.mock.invocationCallOrder[0],
+      ).toBeLessThan(mockedAtobaraiApiClient.reportFulfillment.mock.invocationCallOrder[0]);
+      expect(getTransactionRecord().saleorTrackingNumber).toBe("TN123456789");
+      expect(getTransactionRecord().shipments).toStrictEqual([
+        { ...reportedShipment, trackingNumber: "TN123456789" },
+      ]);
+      expect(mockedOrderNoteService.addOrderNote).toHaveBeenCalledWith({
+        orderId: mockedFulfillmentTrackingNumberUpdatedEvent.order.id,
+        message:
+          "Successfully reported corrected tracking number TN123456789 (previously TN000000001)",
+      });
+    });
+
+    it("should keep previously reported tracking number when NP rejects cancelling its report", async () => {
+      const transactionRecord = getMockedTransactionRecord({
+        saleorTrackingNumber: reportedShipment.trackingNumber,
+        fulfillmentMetadataShippingCompanyCode: null,
+        shipments: [reportedShipment],
+      });
+
+      transactionRecordRepo.transactions[mockedAtobaraiTransactionId] = transactionRecord;
+      vi.spyOn(mockedAtobaraiApiClient, "cancelFulfillmentReport").mockResolvedValue(
+        err(new AtobaraiApiClientCancelFulfillmentReportError("API error")),
+      );
+
+      const result = await executeWithEvent(mockedFulfillmentTrackingNumberUpdatedEvent);
+
+      expect(result._unsafeUnwrap()).toBeInstanceOf(
+        FulfillmentTrackingNumberUpdatedUseCaseResponse.Failure,
+      );
+      expect(mockedAtobaraiApiClient.reportFulfillment).not.toHaveBeenCalled();
+      expect(getTransactionRecord()).toBe(transactionRecord);
+      expect(mockedOrderNoteService.addOrderNote).toHaveBeenCalledWith({
+        orderId: mockedFulfillmentTrackingNumberUpdatedEvent.order.id,
+        message:
+          "Failed to report corrected tracking number TN123456789, NP Atobarai keeps tracking number TN000000001",
+      });
+    });
+
+    it("should record corrected shipment as failed when NP rejects it after cancelling earlier report", async () => {
+      transactionRecordRepo.transactions[mockedAtobaraiTransactionId] = getMockedTransactionRecord({
+        saleorTrackingNumber: reportedShipment.trackingNumber,
+        fulfillmentMetadataShippingCompanyCode: null,
+        shipments: [reportedShipment],
+      });
+      mockCancelFulfillmentReport();
+      vi.spyOn(mockedAtobaraiApiClient, "reportFulfillment").mockResolvedValue(
+        err(new AtobaraiApiClientFulfillmentReportError("API error")),
+      );
+
+      const result = await executeWithEvent(mockedFulfillmentTrackingNumberUpdatedEvent);
+
+      expect(result._unsafeUnwrap()).toBeInstanceOf(
+        FulfillmentTrackingNumberUpdatedUseCaseResponse.Failure,
+      );
+      expect(getTransactionRecord().hasFulfillmentReported()).toBe(false);
+      expect(getTransactionRecord().shipments).toStrictEqual([
+        { ...reportedShipment, trackingNumber: "TN123456789", status: "FAILED" },
+      ]);
+      expect(mockedOrderNoteService.addOrderNote).toHaveBeenCalledWith({
+        orderId: mockedFulfillmentTrackingNumberUpdatedEvent.order.id,
+        message:
+          "Failed to report corrected tracking number TN123456789, NP Atobarai shipment report of tracking number TN000000001 was cancelled",
+      });
+    });
+
+    it("should not report shipment again when tracking number did not change", async () => {
+      transactionRecordRepo.transactions[mockedAtobaraiTransactionId] = getMockedTransactionRecord({
+        saleorTrackingNumber: "TN123456789",
+        fulfillmentMetadataShippingCompanyCode: null,
+        shipments: [{ ...reportedShipment, trackingNumber: "TN123456789" }],
+      });
+
+      const result = await executeWithEvent(mockedFulfillmentTrackingNumberUpdatedEvent);
+
+      expect(result._unsafeUnwrap()).toBeInstanceOf(
+        FulfillmentTrackingNumberUpdatedUseCaseResponse.Success,
+      );
+      expect(mockedAtobaraiApiClient.reportFulfillment).not.toHaveBeenCalled();
+    });
+
+    it("should record failed shipment and report it again on next tracking number update", async () => {
+      vi.spyOn(mockedAtobaraiApiClient, "reportFulfillment").mockResolvedValueOnce(
+        err(new AtobaraiApiClientFulfillmentReportError("API error")),
+      );
+
+      await executeWithEvent(mockedFulfillmentTrackingNumberUpdatedEvent);
+
+      expect(getTransactionRecord().saleorTrackingNumber).toBeNull();
+      expect(getTransactionRecord().shipments.map((shipment) => shipment.status)).toStrictEqual([
+        "FAILED",
+      ]);
+
+      const result = await executeWithEvent({
+        ...mockedFulfillmentTrackingNumberUpdatedEvent,
+        fulfillment: {
+          ...mockedFulfillmentTrackingNumberUpdatedEvent.fulfillment,
+          trackingNumber: "TN987654321",
+        },
+      });
+
+      expect(result._unsafeUnwrap()).toBeInstanceOf(
+        FulfillmentTrackingNumberUpdatedUseCaseResponse.Success,
+      );
+      expect(mockedAtobaraiApiClient.reportFulfillment).toHaveBeenCalledTimes(2);
+      expect(getTransactionRecord().saleorTrackingNumber).toBe("TN987654321");
+      expect(getTransactionRecord().shipments).toStrictEqual([
+        {
+          saleorFulfillmentId: "fulfillment-123",
+          trackingNumber: "TN987654321",
+          fulfillmentMetadataShippingCompanyCode: null,
+          status: "REPORTED",
+        },
+      ]);
+    });
+  });
 });
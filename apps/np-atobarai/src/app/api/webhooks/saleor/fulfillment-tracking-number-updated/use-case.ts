@@ -6,6 +6,7 @@ import { InvalidEventValidationError } from "@/app/api/webhooks/saleor/use-case-
 import { type FulfillmentTrackingNumberUpdatedEventFragment } from "@/generated/graphql";
 import { createLogger } from "@/lib/logger";
 import { type AppConfigRepo } from "@/modules/app-config/repo/app-config-repo";
+import { createAtobaraiCancelFulfillmentReportPayload } from "@/modules/atobarai/api/atobarai-cancel-fulfillment-report-payload";
 import { createAtobaraiFulfillmentReportPayload } from "@/modules/atobarai/api/atobarai-fulfillment-report-payload";
 import { type IAtobaraiApiClientFactory } from "@/modules/atobarai/api/types";
 import {
@@ -14,8 +15,13 @@ import {
   createAtobaraiShippingCompanyCode,
 } from "@/modules/atobarai/atobarai-shipping-company-code";
 import { createAtobaraiTransactionId } from "@/modules/atobarai/atobarai-transaction-id";
+import { type IOrderMetadataService } from "@/modules/saleor/order-metadata-service";
 import { type IOrderNoteService } from "@/modules/saleor/order-note-service";
-import { TransactionRecord } from "@/modules/transactions-recording/transaction-record";
+import {
+  type TransactionRecord,
+  type TransactionShipment,
+  TransactionShipmentStatus,
+} from "@/modules/transactions-recording/transaction-record";
 import { type TransactionRecordRepo } from "@/modules/transactions-recording/types";
 
 import { BaseUseCase } from "../base-use-case";
@@ -31,24 +37,31 @@ type UseCaseExecuteResult = Promise<
 
 export type SaleorOrderNoteServiceFactory = (graphqlClient: Client) => IOrderNoteService;
 
+export type SaleorOrderMetadataServiceFactory = (graphqlClient: Client) => IOrderMetadataService;
+
+const SHIPMENTS_METADATA_KEY = "np-atobarai.shipments";
+
 export class FulfillmentTrackingNumberUpdatedUseCase extends BaseUseCase {
   protected logger = createLogger("FulfillmentTrackingNumberUpdatedUseCase");
   protected appConfigRepo: Pick<AppConfigRepo, "getChannelConfig">;
   private atobaraiApiClientFactory: IAtobaraiApiClientFactory;
   private transactionRecordRepo: TransactionRecordRepo;
   private orderNoteServiceFactory: SaleorOrderNoteServiceFactory;
+  private orderMetadataServiceFactory: SaleorOrderMetadataServiceFactory;
 
   constructor(deps: {
     appConfigRepo: Pick<AppConfigRepo, "getChannelConfig">;
     atobaraiApiClientFactory: IAtobaraiApiClientFactory;
     transactionRecordRepo: TransactionRecordRepo;
     orderNoteServiceFactory: SaleorOrderNoteServiceFactory;
+    orderMetadataServiceFactory: SaleorOrderMetadataServiceFactory;
   }) {
     super();
     this.appConfigRepo = deps.appConfigRepo;
     this.atobaraiApiClientFactory = deps.atobaraiApiClientFactory;
     this.transactionRecordRepo = deps.transactionRecordRepo;
     this.orderNoteServiceFactory = deps.orderNoteServiceFactory;
+    this.orderMetadataServiceFactory = deps.orderMetadataServiceFactory;
   }
 
   private parseEvent({
@@ -123,6 +136,7 @@ export class FulfillmentTrackingNumberUpdatedUseCase extends BaseUseCase {
       channelId: event.order.channel.id,
       pspReference: transaction.pspReference,
       trackingNumber: event.fulfillment.trackingNumber,
+      fulfillmentId: event.fulfillment.id,
     });
   }
 
@@ -169,7 +183,7 @@ export class FulfillmentTrackingNumberUpdatedUseCase extends BaseUseCase {
       );
     }
 
-    const { orderId, channelId, pspReference, trackingNumber } = parsingResult.value;
+    const { orderId, channelId, pspReference, trackingNumber, fulfillmentId } = parsingResult.value;
 
     const atobaraiConfigResult = await this.getAtobaraiConfigForChannel({
       channelId,
@@ -203,12 +217,138 @@ export class FulfillmentTrackingNumberUpdatedUseCase extends BaseUseCase {
       );
     }
 
+    const transactionRecordResult =
+      await this.transactionRecordRepo.getTransactionByAtobaraiTransactionId(
+        { saleorApiUrl, appId },
+        createAtobaraiTransactionId(pspReference),
+      );
+
+    if (transactionRecordResult.isErr()) {
+      this.logger.error("Failed to get transaction from transaction record repo", {
+        error: transactionRecordResult.error,
+      });
+
+      return err(new BrokenAppResponse(transactionRecordResult.error));
+    }
+
+    const transactionRecord = transactionRecordResult.value;
+
+    if (transactionRecord.isCancelled()) {
+      this.logger.warn("Transaction was cancelled, skipping fulfillment report", {
+        orderId,
+        trackingNumber,
+      });
+
+      await this.addOrderNote({
+        orderId,
+        graphqlClient,
+        message: `Fulfillment for tracking number ${trackingNumber} was not reported, because NP Atobarai transaction was cancelled`,
+      });
+
+      return ok(
+        new FulfillmentTrackingNumberUpdatedUseCaseResponse.Failure(
+          new InvalidEventValidationError("Transaction was cancelled", {
+            props: {
+              publicMessage: "Fulfillment can't be reported for cancelled transaction",
+            },
+          }),
+        ),
+      );
+    }
+
+    const metadataShippingCompanyCode = metadataShippingCompanyCodeResult.value;
+    const reportedShipment = transactionRecord.getReportedShipment();
+
+    // NP accepts single tracking number per transaction. First shipment is reported, next parcels are only recorded.
+    const isCorrection = reportedShipment?.saleorFulfillmentId === fulfillmentId;
+
+    if (transactionRecord.hasFulfillmentReported() && !isCorrection) {
+      this.logger.info(
+        "Fulfillment already reported for transaction, recording additional shipment",
+        {
+          orderId,
+          trackingNumber,
+        },
+      );
+
+      await this.addOrderNote({
+        orderId,
+        graphqlClient,
+        message: `Shipment with tracking number ${trackingNumber} was recorded, NP Atobarai keeps tracking number ${transactionRecord.saleorTrackingNumber} reported earlier`,
+      });
+
+      return this.saveShipment({
+        saleorApiUrl,
+        appId,
+        orderId,
+        graphqlClient,
+        transactionRecord,
+        shipment: {
+          saleorFulfillmentId: fulfillmentId,
+          trackingNumber,
+          fulfillmentMetadataShippingCompanyCode: metadataShippingCompanyCode,
+          status: TransactionShipmentStatus.Additional,
+        },
+        response: new FulfillmentTrackingNumberUpdatedUseCaseResponse.Success(),
+      });
+    }
+
+    if (
+      isCorrection &&
+      reportedShipment.trackingNumber === trackingNumber &&
+      reportedShipment.fulfillmentMetadataShippingCompanyCode === metadataShippingCompanyCode
+    ) {
+      this.logger.info("Fulfillment already reported with the same tracking number", {
+        orderId,
+        trackingNumber,
+      });
+
+      return ok(new FulfillmentTrackingNumberUpdatedUseCaseResponse.Success());
+    }
+
+    let transactionRecordToReport = transactionRecord;
+
+    // NP keeps single shipment report per transaction - it's cancelled first, so corrected one can be reported
+    if (isCorrection) {
+      const cancelFulfillmentReportResult = await apiClient.cancelFulfillmentReport(
+        createAtobaraiCancelFulfillmentReportPayload({
+          atobaraiTransactionId: transactionRecord.atobaraiTransactionId,
+        }),
+        {
+          rejectMultipleResults: true,
+        },
+      );
+
+      if (cancelFulfillmentReportResult.isErr()) {
+        this.logger.warn("Failed to cancel fulfillment report", {
+          error: cancelFulfillmentReportResult.error,
+          orderId,
+          trackingNumber,
+        });
+
+        await this.addOrderNote({
+          orderId,
+          graphqlClient,
+          message: `Failed to report corrected tracking number ${trackingNumber}, NP Atobarai keeps tracking number ${reportedShipment.trackingNumber}`,
+        });
+
+        // Shipment reported earlier is still valid in NP, so record is kept unchanged
+        return ok(
+          new FulfillmentTrackingNumberUpdatedUseCaseResponse.Failure(
+            cancelFulfillmentReportResult.error,
+          ),
+        );
+      }
+
+      transactionRecordToReport = transactionRecord.withCancelledFulfillmentReport();
+    }
+
     const reportFulfillmentResult = await apiClient.reportFulfillment(
       createAtobaraiFulfillmentReportPayload({
         trackingNumber,
-        atobaraiTransactionId: createAtobaraiTransactionId(pspReference),
+        atobaraiTransactionId: transactionRecord.atobaraiTransactionId,
         shippingCompanyCode:
-          metadataShippingCompanyCodeResult.value || atobaraiConfigResult.value.shippingCompanyCode,
+          metadataShippingCompanyCode || atobaraiConfigResult.value.shippingCompanyCode,
       }),
       {
         rejectMultipleResults: true,
@@ -225,38 +365,91 @@ export class FulfillmentTrackingNumberUpdatedUseCase extends BaseUseCase {
       await this.addOrderNote({
         orderId,
         graphqlClient,
-        message: `Failed to report fulfillment for tracking number ${trackingNumber}`,
+        message: isCorrection
+          ? `Failed to report corrected tracking number ${trackingNumber}, NP Atobarai shipment report of tracking number ${reportedShipment.trackingNumber} was cancelled`
+          : `Failed to report fulfillment for tracking number ${trackingNumber}`,
       });
 
-      return ok(
-        new FulfillmentTrackingNumberUpdatedUseCaseResponse.Failure(reportFulfillmentResult.error),
-      );
+      // Failed shipment is reported again on the next tracking number update
+      return this.saveShipment({
+        saleorApiUrl,
+        appId,
+        orderId,
+        graphqlClient,
+        transactionRecord: transactionRecordToReport,
+        shipment: {
+          saleorFulfillmentId: fulfillmentId,
+          trackingNumber,
+          fulfillmentMetadataShippingCompanyCode: metadataShippingCompanyCode,
+          status: TransactionShipmentStatus.Failed,
+        },
+        response: new FulfillmentTrackingNumberUpdatedUseCaseResponse.Failure(
+          reportFulfillmentResult.error,
+        ),
+      });
     }
 
     await this.addOrderNote({
       orderId,
       graphqlClient,
-      message: `Successfully reported fulfillment for tracking number ${trackingNumber}`,
+      message: isCorrection
+        ? `Successfully reported corrected tracking number ${trackingNumber} (previously ${reportedShipment.trackingNumber})`
+        : `Successfully reported fulfillment for tracking number ${trackingNumber}`,
     });
 
-    const fulfillmentResult = reportFulfillmentResult.value;
-
-    const atobaraiTransactionId = createAtobaraiTransactionId(
-      fulfillmentResult.results[0].np_transaction_id,
-    );
-
-    const appTransaction = new TransactionRecord({
-      atobaraiTransactionId,
-      saleorTrackingNumber: trackingNumber,
-      fulfillmentMetadataShippingCompanyCode: metadataShippingCompanyCodeResult.value,
+    return this.saveShipment({
+      saleorApiUrl,
+      appId,
+      orderId,
+      graphqlClient,
+      transactionRecord: transactionRecord.withReportedFulfillment({
+        trackingNumber,
+        fulfillmentMetadataShippingCompanyCode: metadataShippingCompanyCode,
+      }),
+      shipment: {
+        saleorFulfillmentId: fulfillmentId,
+        trackingNumber,
+        fulfillmentMetadataShippingCompanyCode: metadataShippingCompanyCode,
+        status: TransactionShipmentStatus.Reported,
+      },
+      response: new FulfillmentTrackingNumberUpdatedUseCaseResponse.Success(),
     });
+  }
+
+  /**
+   * Stores shipment in transaction record (replacing previous state of the same fulfillment) and exposes all shipments
+   * of the transaction in order private metadata
+   */
+  private async saveShipment({
+    saleorApiUrl,
+    appId,
+    orderId,
+    graphqlClient,
+    transactionRecord,
+    shipment,
+    response,
+  }: {
+    saleorApiUrl: SaleorApiUrl;
+    appId: string;
+    orderId: string;
+    graphqlClient: Client;
+    transactionRecord: TransactionRecord;
+    shipment: TransactionShipment;
+    response: FulfillmentTrackingNumberUpdatedUseCaseResponse;
+  }): UseCaseExecuteResult {
+    const shipments = [
+      ...transactionRecord.shipments.filter(
+        (existingShipment) => existingShipment.saleorFulfillmentId !== shipment.saleorFulfillmentId,
+      ),
+      shipment,
+    ];
 
     const updateTransactionResult = await this.transactionRecordRepo.updateTransaction(
       {
         saleorApiUrl,
         appId,
       },
-      appTransaction,
+      transactionRecord.withShipments(shipments),
     );
 
     if (updateTransactionResult.isErr()) {
@@ -267,7 +460,32 @@ export class FulfillmentTrackingNumberUpdatedUseCase extends BaseUseCase {
       return err(new BrokenAppResponse(updateTransactionResult.error));
     }
 
-    return ok(new FulfillmentTrackingNumberUpdatedUseCaseResponse.Success());
+    const orderMetadataService = this.orderMetadataServiceFactory(graphqlClient);
+
+    const metadataResult = await orderMetadataService.updateOrderPrivateMetadata({
+      orderId,
+      metadata: [
+        {
+          key: SHIPMENTS_METADATA_KEY,
+          value: JSON.stringify(
+            shipments.map((shipment) => ({
+              fulfillmentId: shipment.saleorFulfillmentId,
+              trackingNumber: shipment.trackingNumber,
+              status: shipment.status,
+            })),
+          ),
+        },
+      ],
+    });
+
+    if (metadataResult.isErr()) {
+      this.logger.warn("Failed to update shipments in order private metadata", {
+        orderId,
+        error: metadataResult.error,
+      });
+    }
+
+    return ok(response);
   }
 
   private async addOrderNote({
@@ -0,0 +1,93 @@
+import { createSaleorApiUrl } from "@saleor/apps-domain/saleor-api-url";
+import { withSpanAttributesAppRouter } from "@saleor/apps-otel/src/with-span-attributes";
+import { compose } from "@saleor/apps-shared/compose";
+import { BaseError } from "@saleor/errors";
+import { captureException } from "@sentry/nextjs";
+import { type Client } from "urql";
+
+import { createInstrumentedGraphqlClient } from "@/lib/graphql-client";
+import { createLogger } from "@/lib/logger";
+import { withLoggerContext } from "@/lib/logger-context";
+import { setObservabilitySaleorApiUrl } from "@/lib/observability-saleor-api-url";
+import { setObservabilitySourceObjectId } from "@/lib/observability-source-object-id";
+import { appConfigRepo } from "@/modules/app-config/repo/app-config-repo";
+import { AtobaraiApiClientFactory } from "@/modules/atobarai/api/atobarai-api-client-factory";
+import { OrderNoteService } from "@/modules/saleor/order-note-service";
+import { TransactionEventReporter } from "@/modules/saleor/transaction-event-reporter";
+import { transactionRecordRepo } from "@/modules/transactions-recording/transaction-record-repo";
+
+import { UnhandledErrorResponse } from "../saleor-webhook-responses";
+import { withRecipientVerification } from "../with-recipient-verification";
+import { OrderUpdatedUseCase } from "./use-case";
+import { orderUpdatedWebhookDefinition } from "./webhook-definition";
+
+const logger = createLogger("OrderUpdated route");
+
+const useCase = new OrderUpdatedUseCase({
+  appConfigRepo: appConfigRepo,
+  atobaraiApiClientFactory: new AtobaraiApiClientFactory(),
+  transactionRecordRepo: transactionRecordRepo,
+  orderNoteServiceFactory(graphqlClient: Client) {
+    return new OrderNoteService({
+      graphqlClient,
+    });
+  },
+  transactionEventReporterFactory(graphqlClient: Client) {
+    return new TransactionEventReporter({
+      graphqlClient,
+    });
+  },
+});
+
+const handler = orderUpdatedWebhookDefinition.createHandler(
+  withRecipientVerification(async (_req, ctx) => {
+    try {
+      if (ctx.payload.order?.id) {
+        setObservabilitySourceObjectId({ __typename: "Order", id: ctx.payload.order.id });
+      }
+
+      const saleorApiUrl = createSaleorApiUrl(ctx.authData.saleorApiUrl);
+
+      setObservabilitySaleorApiUrl(saleorApiUrl, ctx.payload.version);
+
+      logger.info("Received webhook request");
+
+      const result = await useCase.execute({
+        event: ctx.payload,
+        appId: ctx.authData.appId,
+        saleorApiUrl,
+        graphqlClient: createInstrumentedGraphqlClient({
+          saleorApiUrl,
+          token: ctx.authData.token,
+        }),
+      });
+
+      return result.match(
+        (result) => {
+          logger.info("Successfully processed webhook request", {
+            httpsStatusCode: result.statusCode,
+          });
+
+          return result.getResponse();
+        },
+        (err) => {
+          logger.warn("Failed to process webhook request: " + err.message, {
+            httpsStatusCode: err.statusCode,
+            reason: err.message,
+          });
+
+          return err.getResponse();
+        },
+      );
+    } catch (error) {
+      captureException(error);
+      logger.error("Unhandled error", { error: error });
+
+      const response = new UnhandledErrorResponse(BaseError.normalize(error));
+
+      return response.getResponse();
+    }
+  }),
+);
+
+export const POST = compose(withLoggerContext, withSpanAttributesAppRouter)(handler);
@@ -0,0 +1,62 @@
+import { type InvalidEventValidationError } from "@/app/api/webhooks/saleor/use-case-errors";
+import { type AtobaraiApiChangeTransactionErrors } from "@/modules/atobarai/api/types";
+
+import { SuccessWebhookResponse } from "../saleor-webhook-responses";
+
+class Success extends SuccessWebhookResponse {
+  getResponse(): Response {
+    return Response.json(
+      { message: "Successfully updated NP Atobarai transaction" },
+      { status: this.statusCode },
+    );
+  }
+}
+
+/**
+ * Order update doesn't require changing NP transaction (e.g. order was not paid with the app or nothing NP relies on
+ * has changed)
+ */
+class Skipped extends SuccessWebhookResponse {
+  public reason: string;
+
+  constructor(reason: string) {
+    super();
+    this.reason = reason;
+  }
+
+  getResponse(): Response {
+    return Response.json({ message: this.reason }, { status: this.statusCode });
+  }
+}
+
+type UseCaseErrors =
+  | AtobaraiApiChangeTransactionErrors
+  | InstanceType<typeof InvalidEventValidationError>;
+
+class Failure extends SuccessWebhookResponse {
+  public error: UseCaseErrors;
+
+  constructor(error: UseCaseErrors) {
+    super();
+    this.error = error;
+  }
+
+  getResponse(): Response {
+    return Response.json(
+      { message: this.error.publicMessage ?? "Failed to update NP Atobarai transaction" },
+      { status: this.statusCode },
+    );
+  }
+}
+
+export const OrderUpdatedUseCaseResponse = {
+  Success,
+  Skipped,
+  Failure,
+};
+
+export type OrderUpdatedUseCaseResponse = InstanceType<
+  | typeof OrderUpdatedUseCaseResponse.Success
+  | typeof OrderUpdatedUseCaseResponse.Skipped
+  | typeof OrderUpdatedUseCaseResponse.Failure
+>;
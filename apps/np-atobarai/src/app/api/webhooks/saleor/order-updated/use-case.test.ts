@@ -0,0 +1,403 @@
+import { err, ok } from "neverthrow";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { mockedAppChannelConfig } from "@/__tests__/mocks/app-config/mocked-app-config";
+import { mockedAppConfigRepo } from "@/__tests__/mocks/app-config/mocked-app-config-repo";
+import { getMockedTransactionRecord } from "@/__tests__/mocks/app-transaction/mocked-transaction-record";
+import { MockedTransactionRecordRepo } from "@/__tests__/mocks/app-transaction/mocked-transaction-record-repo";
+import { mockedAtobaraiApiClient } from "@/__tests__/mocks/atobarai/api/mocked-atobarai-api-client";
+import { mockedAtobaraiTransactionId } from "@/__tests__/mocks/atobarai/mocked-atobarai-transaction-id";
+import { mockedGraphqlClient } from "@/__tests__/mocks/graphql-client";
+import { mockedSaleorApiUrl } from "@/__tests__/mocks/saleor/mocked-saleor-api-url";
+import { mockedSaleorAppId } from "@/__tests__/mocks/saleor/mocked-saleor-app-id";
+import { mockedSaleorTransactionToken } from "@/__tests__/mocks/saleor/mocked-saleor-transaction-token";
+import { mockedOrderUpdatedEvent } from "@/__tests__/mocks/saleor-events/mocked-order-updated-event";
+import { type OrderUpdatedEventFragment } from "@/generated/graphql";
+import {
+  createAtobaraiTransactionSuccessResponse,
+  CreditCheckResult,
+  FailedReason,
+} from "@/modules/atobarai/api/atobarai-transaction-success-response";
+import {
+  AtobaraiApiClientChangeTransactionError,
+  type IAtobaraiApiClientFactory,
+} from "@/modules/atobarai/api/types";
+import { parseAtobaraiDataFingerprint } from "@/modules/atobarai/atobarai-data-fingerprint";
+import { type IOrderNoteService } from "@/modules/saleor/order-note-service";
+import { type ITransactionEventReporter } from "@/modules/saleor/transaction-event-reporter";
+import { TransactionRecordRepoError } from "@/modules/transactions-recording/types";
+
+import { AppIsNotConfiguredResponse, BrokenAppResponse } from "../saleor-webhook-responses";
+import { OrderUpdatedUseCase } from "./use-case";
+import { OrderUpdatedUseCaseResponse } from "./use-case-response";
+
+describe("OrderUpdatedUseCase", () => {
+  const atobaraiApiClientFactory = {
+    create: () => mockedAtobaraiApiClient,
+  } satisfies IAtobaraiApiClientFactory;
+
+  const orderNoteService = {
+    addOrderNote: vi.fn(),
+  } satisfies IOrderNoteService;
+
+  const transactionEventReporter = {
+    reportTransactionEvent: vi.fn(),
+  } satisfies ITransactionEventReporter;
+
+  const transactionRecordRepo = new MockedTransactionRecordRepo();
+
+  // Fingerprint of order data sent to NP before the order was edited
+  const previousAtobaraiDataFingerprint = parseAtobaraiDataFingerprint("0".repeat(64));
+
+  const useCase = new OrderUpdatedUseCase({
+    appConfigRepo: mockedAppConfigRepo,
+    atobaraiApiClientFactory,
+    transactionRecordRepo,
+    orderNoteServiceFactory: () => orderNoteService,
+    transactionEventReporterFactory: () => transactionEventReporter,
+  });
+
+  const execute = (event: OrderUpdatedEventFragment = mockedOrderUpdatedEvent) =>
+    useCase.execute({
+      appId: mockedSaleorAppId,
+      saleorApiUrl: mockedSaleorApiUrl,
+      event,
+      graphqlClient: mockedGraphqlClient,
+    });
+
+  const eventWithChargedAmount = (chargedAmount: number): OrderUpdatedEventFragment => ({
+    ...mockedOrderUpdatedEvent,
+    order: {
+      ...mockedOrderUpdatedEvent.order,
+      transactions: [
+        {
+          ...mockedOrderUpdatedEvent.order.transactions[0],
+          chargedAmount: { amount: chargedAmount },
+        },
+      ],
+    },
+  });
+
+  const mockChangeTransactionResult = (result: { authori_result: string; authori_ng?: string }) =>
+    vi.spyOn(mockedAtobaraiApiClient, "changeTransaction").mockResolvedValue(
+      ok(
+        createAtobaraiTransactionSuccessResponse({
+          results: [{ np_transaction_id: mockedAtobaraiTransactionId, ...result }],
+        }),
+      ),
+    );
+
+  beforeEach(() => {
+    transactionRecordRepo.reset();
+    transactionRecordRepo.transactions[mockedAtobaraiTransactionId] = getMockedTransactionRecord({
+      saleorTrackingNumber: null,
+      fulfillmentMetadataShippingCompanyCode: null,
+      atobaraiDataFingerprint: previousAtobaraiDataFingerprint,
+    });
+
+    vi.spyOn(mockedAppConfigRepo, "getChannelConfig").mockResolvedValue(ok(mockedAppChannelConfig));
+    orderNoteService.addOrderNote.mockResolvedValue(ok({ noteId: "note-123" }));
+    transactionEventReporter.reportTransactionEvent.mockResolvedValue(
+      ok({ createdEventId: "event-id" }),
+    );
+  });
+
+  it("should send changed order to NP and store its fingerprint when credit check passes", async () => {
+    mockChangeTransactionResult({ authori_result: CreditCheckResult.Success });
+
+    const result = await execute();
+
+    expect(result._unsafeUnwrap()).toBeInstanceOf(OrderUpdatedUseCaseResponse.Success);
+    expect(mockedAtobaraiApiClient.changeTransaction).toHaveBeenCalledOnce();
+    expect(mockedAtobaraiApiClient.changeTransaction.mock.calls[0][0]).toMatchInlineSnapshot(`
+      {
+        "transactions": [
+          {
+            "billed_amount": 6229,
+            "customer": {
+              "address": "BillingCountryArea千代田区千代田BillingStreetAddress1BillingStreetAddress2",
+              "company_name": "BillingCompanyName",
+              "customer_name": "BillingLastName BillingFirstName",
+              "email": "order@email.com",
+              "tel": "0billingPhone",
+              "zip_code": "1000001",
+            },
+            "dest_customer": {
+              "address": "ShippingCountryArea千代田区千代田ShippingStreetAddress1ShippingStreetAddress2",
+              "company_name": "ShippingCompanyName",
+              "customer_name": "ShippingLastName ShippingFirstName",
+              "tel": "0shippingPhone",
+              "zip_code": "1000001",
+            },
+            "goods": [
+              {
+                "goods_name": "product-sku",
+                "goods_price": 1234,
+                "quantity": 5,
+              },
+              {
+                "goods_name": "Voucher",
+                "goods_price": -78,
+                "quantity": 1,
+              },
+              {
+                "goods_name": "Shipping",
+                "goods_price": 137,
+                "quantity": 1,
+              },
+            ],
+            "np_transaction_id": "np_trans_id",
+            "settlement_type": "02",
+            "shop_order_date": "2025-07-08",
+            "shop_transaction_id": "mocked-saleor-transaction-token-uuid",
+          },
+        ],
+      }
+    `);
+    expect(transactionEventReporter.reportTransactionEvent).not.toHaveBeenCalled();
+    expect(orderNoteService.addOrderNote).toHaveBeenCalledWith({
+      orderId: mockedOrderUpdatedEvent.order.id,
+      message: "Order changes were sent to NP Atobarai, credit check passed",
+    });
+
+    const transactionRecord = transactionRecordRepo.transactions[mockedAtobaraiTransactionId];
+
+    expect(transactionRecord.atobaraiDataFingerprint).toStrictEqual(expect.any(String));
+    expect(transactionRecord.atobaraiDataFingerprint).not.toBe(previousAtobaraiDataFingerprint);
+    expect(transactionRecord.pendingCreditCheck).toBeNull();
+  });
+
+  it("should skip sending order to NP when data sent to NP did not change", async () => {
+    mockChangeTransactionResult({ authori_result: CreditCheckResult.Success });
+
+    await execute();
+
+    const result = await execute();
+
+    expect(result._unsafeUnwrap()).toBeInstanceOf(OrderUpdatedUseCaseResponse.Skipped);
+    expect(mockedAtobaraiApiClient.changeTransaction).toHaveBeenCalledOnce();
+  });
+
+  it("should send order to NP when transaction has no fingerprint yet", async () => {
+    transactionRecordRepo.transactions[mockedAtobaraiTransactionId] = getMockedTransactionRecord({
+      saleorTrackingNumber: null,
+      fulfillmentMetadataShippingCompanyCode: null,
+      atobaraiDataFingerprint: null,
+    });
+    mockChangeTransactionResult({ authori_result: CreditCheckResult.Success });
+
+    const result = await execute();
+
+    expect(result._unsafeUnwrap()).toBeInstanceOf(OrderUpdatedUseCaseResponse.Success);
+    expect(mockedAtobaraiApiClient.changeTransaction).toHaveBeenCalledOnce();
+    expect(
+      transactionRecordRepo.transactions[mockedAtobaraiTransactionId].atobaraiDataFingerprint,
+    ).toStrictEqual(expect.any(String));
+  });
+
+  it("should report CHARGE_ACTION_REQUIRED and store pending credit check when NP puts transaction to review", async () => {
+    mockChangeTransactionResult({ authori_result: CreditCheckResult.Pending });
+
+    const result = await execute();
+
+    expect(result._unsafeUnwrap()).toBeInstanceOf(OrderUpdatedUseCaseResponse.Success);
+    expect(transactionEventReporter.reportTransactionEvent).toHaveBeenCalledWith({
+      saleorTransactionToken: mockedSaleorTransactionToken,
+      atobaraiTransactionId: mockedAtobaraiTransactionId,
+      atobaraiMoney: { amount: 6_229, currency: "JPY" },
+      message: "Order changes were sent to NP Atobarai, credit check is pending",
+      time: expect.any(String),
+      type: "CHARGE_ACTION_REQUIRED",
+      actions: [],
+    });
+    expect(
+      transactionRecordRepo.transactions[mockedAtobaraiTransactionId].pendingCreditCheck,
+    ).toStrictEqual({
+      saleorTransactionToken: mockedSaleorTransactionToken,
+      saleorChannelId: mockedOrderUpdatedEvent.order.channel.id,
+      atobaraiMoney: { amount: 6_229, currency: "JPY" },
+    });
+  });
+
+  it("should report increased amount as CHARGE_SUCCESS with PSP reference of the edit", async () => {
+    mockChangeTransactionResult({ authori_result: CreditCheckResult.Success });
+
+    const result = await execute(eventWithChargedAmount(5_000));
+
+    expect(result._unsafeUnwrap()).toBeInstanceOf(OrderUpdatedUseCaseResponse.Success);
+    expect(transactionEventReporter.reportTransactionEvent).toHaveBeenCalledWith({
+      saleorTransactionToken: mockedSaleorTransactionToken,
+      atobaraiTransactionId: mockedAtobaraiTransactionId,
+      pspReference: "np_trans_id-order-updated-2025-07-08T00:00:00Z",
+      atobaraiMoney: { amount: 1_229, currency: "JPY" },
+      message: "Order changes were sent to NP Atobarai, billed amount increased",
+      time: expect.any(String),
+      type: "CHARGE_SUCCESS",
+      actions: ["REFUND", "CANCEL"],
+    });
+  });
+
+  it("should not report decreased amount to Saleor", async () => {
+    mockChangeTransactionResult({ authori_result: CreditCheckResult.Success });
+
+    const result = await execute(eventWithChargedAmount(7_000));
+
+    expect(result._unsafeUnwrap()).toBeInstanceOf(OrderUpdatedUseCaseResponse.Success);
+    expect(transactionEventReporter.reportTransactionEvent).not.toHaveBeenCalled();
+  });
+
+  it("should store pending credit check of increased amount with PSP reference of the edit", async () => {
+    mockChangeTransactionResult({ authori_result: CreditCheckResult.Pending });
+
+    const result = await execute(eventWithChargedAmount(5_000));
+
+    expect(result._unsafeUnwrap()).toBeInstanceOf(OrderUpdatedUseCaseResponse.Success);
+    expect(transactionEventReporter.reportTransactionEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        pspReference: "np_trans_id-order-updated-2025-07-08T00:00:00Z",
+        atobaraiMoney: { amount: 1_229, currency: "JPY" },
+        type: "CHARGE_ACTION_REQUIRED",
+      }),
+    );
+    expect(
+      transactionRecordRepo.transactions[mockedAtobaraiTransactionId].pendingCreditCheck,
+    ).toStrictEqual({
+      saleorTransactionToken: mockedSaleorTransactionToken,
+      saleorChannelId: mockedOrderUpdatedEvent.order.channel.id,
+      atobaraiMoney: { amount: 1_229, currency: "JPY" },
+      pspReference: "np_trans_id-order-updated-2025-07-08T00:00:00Z",
+    });
+  });
+
+  it("should report CHARGE_FAILURE and add order note when credit check fails", async () => {
+    mockChangeTransactionResult({
+      authori_result: CreditCheckResult.Failed,
+      authori_ng: FailedReason.ExcessOfTheAmount,
+    });
+
+    const result = await execute();
+
+    expect(result._unsafeUnwrap()).toBeInstanceOf(OrderUpdatedUseCaseResponse.Success);
+    expect(transactionEventReporter.reportTransactionEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "CHARGE_FAILURE",
+        actions: [],
+      }),
+    );
+    expect(orderNoteService.addOrderNote).toHaveBeenCalledWith({
+      orderId: mockedOrderUpdatedEvent.order.id,
+      message:
+        "Order changes were sent to NP Atobarai, credit check failed with result: 20, reason: RE001",
+    });
+    expect(
+      transactionRecordRepo.transactions[mockedAtobaraiTransactionId].pendingCreditCheck,
+    ).toBeNull();
+  });
+
+  it("should return Failure response and add order note when Atobarai API returns error", async () => {
+    vi.spyOn(mockedAtobaraiApiClient, "changeTransaction").mockResolvedValue(
+      err(new AtobaraiApiClientChangeTransactionError("API error")),
+    );
+
+    const result = await execute();
+
+    expect(result._unsafeUnwrap()).toBeInstanceOf(OrderUpdatedUseCaseResponse.Failure);
+    expect(orderNoteService.addOrderNote).toHaveBeenCalledWith({
+      orderId: mockedOrderUpdatedEvent.order.id,
+      message: "Failed to send order changes to NP Atobarai",
+    });
+    expect(
+      transactionRecordRepo.transactions[mockedAtobaraiTransactionId].atobaraiDataFingerprint,
+    ).toBe(previousAtobaraiDataFingerprint);
+  });
+
+  it("should return Failure response without calling NP when order can't be sent to NP", async () => {
+    const result = await execute({
+      ...mockedOrderUpdatedEvent,
+      order: {
+        ...mockedOrderUpdatedEvent.order,
+        billingAddress: null,
+      },
+    });
+
+    expect(result._unsafeUnwrap()).toBeInstanceOf(OrderUpdatedUseCaseResponse.Failure);
+    expect(mockedAtobaraiApiClient.changeTransaction).not.toHaveBeenCalled();
+    expect(orderNoteService.addOrderNote).toHaveBeenCalledOnce();
+  });
+
+  it("should skip order not paid with the app", async () => {
+    const result = await execute({
+      ...mockedOrderUpdatedEvent,
+      order: {
+        ...mockedOrderUpdatedEvent.order,
+        transactions: [
+          {
+            ...mockedOrderUpdatedEvent.order.transactions[0],
+            createdBy: { __typename: "App", id: "other-app-id" },
+          },
+        ],
+      },
+    });
+
+    expect(result._unsafeUnwrap()).toBeInstanceOf(OrderUpdatedUseCaseResponse.Skipped);
+    expect(mockedAtobaraiApiClient.changeTransaction).not.toHaveBeenCalled();
+  });
+
+  it("should skip refunded transaction", async () => {
+    const result = await execute({
+      ...mockedOrderUpdatedEvent,
+      order: {
+        ...mockedOrderUpdatedEvent.order,
+        transactions: [
+          {
+            ...mockedOrderUpdatedEvent.order.transactions[0],
+            refundedAmount: { amount: 1_000 },
+          },
+        ],
+      },
+    });
+
+    expect(result._unsafeUnwrap()).toBeInstanceOf(OrderUpdatedUseCaseResponse.Skipped);
+    expect(mockedAtobaraiApiClient.changeTransaction).not.toHaveBeenCalled();
+  });
+
+  it("should skip transaction with reported fulfillment", async () => {
+    transactionRecordRepo.transactions[mockedAtobaraiTransactionId] = getMockedTransactionRecord();
+
+    const result = await execute();
+
+    expect(result._unsafeUnwrap()).toBeInstanceOf(OrderUpdatedUseCaseResponse.Skipped);
+    expect(mockedAtobaraiApiClient.changeTransaction).not.toHaveBeenCalled();
+  });
+
+  it("should skip cancelled transaction", async () => {
+    transactionRecordRepo.transactions[mockedAtobaraiTransactionId] = getMockedTransactionRecord({
+      saleorTrackingNumber: null,
+      cancelled: true,
+    });
+
+    const result = await execute();
+
+    expect(result._unsafeUnwrap()).toBeInstanceOf(OrderUpdatedUseCaseResponse.Skipped);
+    expect(mockedAtobaraiApiClient.changeTransaction).not.toHaveBeenCalled();
+  });
+
+  it("should return AppIsNotConfiguredResponse when app config is not found", async () => {
+    vi.spyOn(mockedAppConfigRepo, "getChannelConfig").mockResolvedValue(ok(null));
+
+    const result = await execute();
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(AppIsNotConfiguredResponse);
+  });
+
+  it("should return BrokenAppResponse when transaction record can't be updated", async () => {
+    mockChangeTransactionResult({ authori_result: CreditCheckResult.Success });
+    vi.spyOn(transactionRecordRepo, "updateTransaction").mockResolvedValueOnce(
+      err(new TransactionRecordRepoError.FailedUpdatingTransactionError("Failed to update")),
+    );
+
+    const result = await execute();
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(BrokenAppResponse);
+  });
+});
@@ -0,0 +1,536 @@
+import { type SaleorApiUrl } from "@saleor/apps-domain/saleor-api-url";
+import { err, fromThrowable, ok, type Result } from "neverthrow";
+import { type Client } from "urql";
+
+import { InvalidEventValidationError } from "@/app/api/webhooks/saleor/use-case-errors";
+import { type OrderUpdatedEventFragment } from "@/generated/graphql";
+import { createLogger } from "@/lib/logger";
+import { type AppChannelConfig } from "@/modules/app-config/app-config";
+import { type AppConfigRepo } from "@/modules/app-config/repo/app-config-repo";
+import {
+  type AtobaraiChangeTransactionPayload,
+  AtobaraiChangeTransactionPayloadValidationError,
+  createAtobaraiChangeTransactionPayload,
+} from "@/modules/atobarai/api/atobarai-change-transaction-payload";
+import {
+  type AtobaraiTransactionSuccessResponse,
+  CreditCheckResult,
+} from "@/modules/atobarai/api/atobarai-transaction-success-response";
+import { type IAtobaraiApiClientFactory } from "@/modules/atobarai/api/types";
+import { createAtobaraiCustomer } from "@/modules/atobarai/atobarai-customer";
+import { createAtobaraiDataFingerprint } from "@/modules/atobarai/atobarai-data-fingerprint";
+import { createAtobaraiDeliveryDestination } from "@/modules/atobarai/atobarai-delivery-destination";
+import { TransactionGoodBuilder } from "@/modules/atobarai/atobarai-goods/transaction-goods-builder";
+import { type AtobaraiMoney, createAtobaraiMoney } from "@/modules/atobarai/atobarai-money";
+import { createAtobaraiShopOrderDate } from "@/modules/atobarai/atobarai-shop-order-date";
+import {
+  type AtobaraiTransactionId,
+  createAtobaraiTransactionId,
+} from "@/modules/atobarai/atobarai-transaction-id";
+import {
+  createSaleorTransactionToken,
+  type SaleorTransactionToken,
+} from "@/modules/saleor/saleor-transaction-token";
+import { type ITransactionEventReporter } from "@/modules/saleor/transaction-event-reporter";
+import {
+  ChargeActionRequiredResult,
+  ChargeFailureResult,
+  ChargeSuccessResult,
+} from "@/modules/transaction-result/charge-result";
+import { type PendingCreditCheck } from "@/modules/transactions-recording/transaction-record";
+import { type TransactionRecordRepo } from "@/modules/transactions-recording/types";
+
+import { BaseUseCase } from "../base-use-case";
+import { type SaleorOrderNoteServiceFactory } from "../fulfillment-tracking-number-updated/use-case";
+import { type AppIsNotConfiguredResponse, BrokenAppResponse } from "../saleor-webhook-responses";
+import { OrderUpdatedUseCaseResponse } from "./use-case-response";
+
+type UseCaseExecuteResult = Promise<
+  Result<OrderUpdatedUseCaseResponse, AppIsNotConfiguredResponse | BrokenAppResponse>
+>;
+
+type OrderUpdatedEventOrder = NonNullable<OrderUpdatedEventFragment["order"]>;
+
+type ChargedAmountAdjustment = {
+  pspReference: string;
+  atobaraiMoney: AtobaraiMoney;
+};
+
+export type SaleorTransactionEventReporterFactory = (
+  graphqlClient: Client,
+) => ITransactionEventReporter;
+
+/**
+ * Sends order edits made after checkout (lines, prices, addresses) to NP, so the invoice matches the order that will be
+ * fulfilled. NP can put changed transaction to re-review - its result is reported to Saleor as a new transaction event.
+ */
+export class OrderUpdatedUseCase extends BaseUseCase {
+  protected logger = createLogger("OrderUpdatedUseCase");
+  protected appConfigRepo: Pick<AppConfigRepo, "getChannelConfig">;
+  private atobaraiApiClientFactory: IAtobaraiApiClientFactory;
+  private transactionRecordRepo: TransactionRecordRepo;
+  private orderNoteServiceFactory: SaleorOrderNoteServiceFactory;
+  private transactionEventReporterFactory: SaleorTransactionEventReporterFactory;
+  private goodsBuilder = new TransactionGoodBuilder();
+
+  constructor(deps: {
+    appConfigRepo: Pick<AppConfigRepo, "getChannelConfig">;
+    atobaraiApiClientFactory: IAtobaraiApiClientFactory;
+    transactionRecordRepo: TransactionRecordRepo;
+    orderNoteServiceFactory: SaleorOrderNoteServiceFactory;
+    transactionEventReporterFactory: SaleorTransactionEventReporterFactory;
+  }) {
+    super();
+    this.appConfigRepo = deps.appConfigRepo;
+    this.atobaraiApiClientFactory = deps.atobaraiApiClientFactory;
+    this.transactionRecordRepo = deps.transactionRecordRepo;
+    this.orderNoteServiceFactory = deps.orderNoteServiceFactory;
+    this.transactionEventReporterFactory = deps.transactionEventReporterFactory;
+  }
+
+  /**
+   * ORDER_UPDATED is sent for every order, so order not paid with the app is skipped instead of failing
+   */
+  private findAppTransaction({ order, appId }: { order: OrderUpdatedEventOrder; appId: string }) {
+    if (!order.transactions.length) {
+      return null;
+    }
+
+    if (order.transactions.length > 1) {
+      // App support only single transaction per order / checkout - goods sent to NP would need to exclude other transactions
+      this.logger.warn("Multiple transactions found for the order. Skipping.", {
+        orderId: order.id,
+      });
+
+      return null;
+    }
+
+    const transaction = order.transactions[0];
+
+    if (transaction.createdBy?.__typename !== "App" || transaction.createdBy.id !== appId) {
+      return null;
+    }
+
+    return transaction;
+  }
+
+  private prepareChangeTransactionPayload({
+    order,
+    config,
+    saleorTransactionToken,
+    atobaraiTransactionId,
+    issuedAt,
+  }: {
+    order: OrderUpdatedEventOrder;
+    config: AppChannelConfig;
+    saleorTransactionToken: SaleorTransactionToken;
+    atobaraiTransactionId: AtobaraiTransactionId;
+    issuedAt: string;
+  }): Result<
+    AtobaraiChangeTransactionPayload,
+    InstanceType<typeof AtobaraiChangeTransactionPayloadValidationError>
+  > {
+    try {
+      return fromThrowable(
+        createAtobaraiChangeTransactionPayload,
+        AtobaraiChangeTransactionPayloadValidationError.normalize,
+      )({
+        atobaraiTransactionId,
+        saleorTransactionToken,
+        atobaraiMoney: createAtobaraiMoney({
+          amount: order.total.gross.amount,
+          currency: order.channel.currencyCode,
+        }),
+        atobaraiCustomer: createAtobaraiCustomer({ sourceObject: order }),
+        atobaraiDeliveryDestination: createAtobaraiDeliveryDestination({ sourceObject: order }),
+        atobaraiGoods: this.goodsBuilder.build({
+          sourceObject: order,
+          useSkuAsName: config.skuAsName,
+        }),
+        atobaraiShopOrderDate: createAtobaraiShopOrderDate(issuedAt),
+      });
+    } catch (error) {
+      return err(AtobaraiChangeTransactionPayloadValidationError.normalize(error));
+    }
+  }
+
+  async execute(params: {
+    appId: string;
+    saleorApiUrl: SaleorApiUrl;
+    event: OrderUpdatedEventFragment;
+    graphqlClient: Client;
+  }): UseCaseExecuteResult {
+    const { appId, saleorApiUrl, event, graphqlClient } = params;
+
+    if (!event.order) {
+      return ok(
+        new OrderUpdatedUseCaseResponse.Failure(
+          new InvalidEventValidationError("Order is missing in event", {
+            props: {
+              publicMessage: "Order is missing in event",
+            },
+          }),
+        ),
+      );
+    }
+
+    const order = event.order;
+    const transaction = this.findAppTransaction({ order, appId });
+
+    if (!transaction) {
+      return ok(
+        new OrderUpdatedUseCaseResponse.Skipped("Order is not paid with NP Atobarai transaction"),
+      );
+    }
+
+    if (transaction.refundedAmount.amount > 0) {
+      // Refund already changed NP transaction amount and goods, rebuilding them from order would revert it
+      return ok(new OrderUpdatedUseCaseResponse.Skipped("Transaction was already refunded"));
+    }
+
+    if (!event.issuedAt) {
+      this.logger.warn("Missing issuedAt in event", {
+        orderId: order.id,
+      });
+
+      return ok(
+        new OrderUpdatedUseCaseResponse.Failure(
+          new InvalidEventValidationError("Missing issuedAt in event", {
+            props: {
+              publicMessage: "Missing issuedAt in event",
+            },
+          }),
+        ),
+      );
+    }
+
+    const atobaraiConfigResult = await this.getAtobaraiConfigForChannel({
+      channelId: order.channel.id,
+      appId,
+      saleorApiUrl,
+    });
+
+    if (atobaraiConfigResult.isErr()) {
+      return err(atobaraiConfigResult.error);
+    }
+
+    const transactionRecordResult =
+      await this.transactionRecordRepo.getTransactionByAtobaraiTransactionId(
+        { saleorApiUrl, appId },
+        createAtobaraiTransactionId(transaction.pspReference),
+      );
+
+    if (transactionRecordResult.isErr()) {
+      this.logger.error("Failed to get transaction from transaction record repo", {
+        error: transactionRecordResult.error,
+      });
+
+      return err(new BrokenAppResponse(transactionRecordResult.error));
+    }
+
+    const transactionRecord = transactionRecordResult.value;
+
+    if (transactionRecord.isCancelled()) {
+      return ok(new OrderUpdatedUseCaseResponse.Skipped("Transaction was cancelled"));
+    }
+
+    // NP doesn't allow changing transaction after fulfillment was reported
+    if (transactionRecord.hasFulfillmentReported()) {
+      return ok(new OrderUpdatedUseCaseResponse.Skipped("Fulfillment was already reported"));
+    }
+
+    const saleorTransactionToken = createSaleorTransactionToken(transaction.token);
+
+    const payloadResult = this.prepareChangeTransactionPayload({
+      order,
+      config: atobaraiConfigResult.value,
+      saleorTransactionToken,
+      atobaraiTransactionId: transactionRecord.atobaraiTransactionId,
+      issuedAt: event.issuedAt,
+    });
+
+    if (payloadResult.isErr()) {
+      this.logger.warn("Failed to prepare change transaction payload", {
+        error: payloadResult.error,
+      });
+
+      await this.addOrderNote({
+        orderId: order.id,
+        graphqlClient,
+        message: `Order changes were not sent to NP Atobarai: ${payloadResult.error.message}`,
+      });
+
+      return ok(
+        new OrderUpdatedUseCaseResponse.Failure(
+          new InvalidEventValidationError(payloadResult.error.message, {
+            cause: payloadResult.error,
+            props: {
+              publicMessage: payloadResult.error.message,
+            },
+          }),
+        ),
+      );
+    }
+
+    const atobaraiDataFingerprint = createAtobaraiDataFingerprint(
+      payloadResult.value.transactions[0],
+    );
+
+    /*
+     * Order is updated also on changes NP doesn't know about (e.g. metadata, status), every change sent to NP can
+     * trigger re-review, so it's sent only if data sent to NP differs. Transactions registered before fingerprints
+     * were stored don't have one, so their first update is always sent
+     */
+    if (transactionRecord.atobaraiDataFingerprint === atobaraiDataFingerprint) {
+      return ok(
+        new OrderUpdatedUseCaseResponse.Skipped("Order data sent to NP Atobarai did not change"),
+      );
+    }
+
+    const apiClient = this.atobaraiApiClientFactory.create({
+      atobaraiTerminalId: atobaraiConfigResult.value.terminalId,
+      atobaraiMerchantCode: atobaraiConfigResult.value.merchantCode,
+      atobaraiSecretSpCode: atobaraiConfigResult.value.secretSpCode,
+      atobaraiEnvironment: atobaraiConfigResult.value.useSandbox ? "sandbox" : "production",
+    });
+
+    const changeTransactionResult = await apiClient.changeTransaction(payloadResult.value, {
+      rejectMultipleResults: true,
+    });
+
+    if (changeTransactionResult.isErr()) {
+      this.logger.warn("Failed to change transaction", {
+        error: changeTransactionResult.error,
+        atobaraiTransactionId: transactionRecord.atobaraiTransactionId,
+      });
+
+      await this.addOrderNote({
+        orderId: order.id,
+        graphqlClient,
+        message: "Failed to send order changes to NP Atobarai",
+      });
+
+      return ok(new OrderUpdatedUseCaseResponse.Failure(changeTransactionResult.error));
+    }
+
+    const atobaraiMoney = createAtobaraiMoney({
+      amount: order.total.gross.amount,
+      currency: order.channel.currencyCode,
+    });
+
+    const pendingCreditCheck = await this.handleCreditCheckResult({
+      authorization: changeTransactionResult.value.results[0],
+      orderId: order.id,
+      channelId: order.channel.id,
+      saleorTransactionToken,
+      atobaraiMoney,
+      chargedAmountAdjustment: this.getChargedAmountAdjustment({
+        atobaraiTransactionId: transactionRecord.atobaraiTransactionId,
+        atobaraiMoney,
+        chargedAmount: transaction.chargedAmount.amount,
+        issuedAt: event.issuedAt,
+      }),
+      graphqlClient,
+    });
+
+    const updateTransactionResult = await this.transactionRecordRepo.updateTransaction(
+      { saleorApiUrl, appId },
+      transactionRecord
+        .withPendingCreditCheck(pendingCreditCheck)
+        .withAtobaraiDataFingerprint(atobaraiDataFingerprint),
+    );
+
+    if (updateTransactionResult.isErr()) {
+      this.logger.error("Failed to update transaction in app transaction repo", {
+        error: updateTransactionResult.error,
+      });
+
+      return err(new BrokenAppResponse(updateTransactionResult.error));
+    }
+
+    return ok(new OrderUpdatedUseCaseResponse.Success());
+  }
+
+  /**
+   * Saleor sums amounts of CHARGE_SUCCESS events with different PSP references, so increased billed amount is reported
+   * as difference to already charged amount, with PSP reference of the edit - event reported with NP transaction id
+   * would be deduped with the one of transaction registration.
+   * Decrease isn't reported - refund event would make next order updates skipped as refunded, while NP already bills
+   * the lower amount.
+   */
+  private getChargedAmountAdjustment({
+    atobaraiTransactionId,
+    atobaraiMoney,
+    chargedAmount,
+    issuedAt,
+  }: {
+    atobaraiTransactionId: AtobaraiTransactionId;
+    atobaraiMoney: AtobaraiMoney;
+    chargedAmount: number;
+    issuedAt: string;
+  }): ChargedAmountAdjustment | null {
+    const difference = atobaraiMoney.amount - chargedAmount;
+
+    if (difference <= 0) {
+      return null;
+    }
+
+    return {
+      pspReference: `${atobaraiTransactionId}-order-updated-${issuedAt}`,
+      atobaraiMoney: createAtobaraiMoney({ amount: difference, currency: atobaraiMoney.currency }),
+    };
+  }
+
+  /**
+   * Reports re-review result to Saleor. Returns pending credit check, which is resolved later by polling NP.
+   */
+  private async handleCreditCheckResult({
+    authorization,
+    orderId,
+    channelId,
+    saleorTransactionToken,
+    atobaraiMoney,
+    chargedAmountAdjustment,
+    graphqlClient,
+  }: {
+    authorization: AtobaraiTransactionSuccessResponse["results"][number];
+    orderId: string;
+    channelId: string;
+    saleorTransactionToken: SaleorTransactionToken;
+    atobaraiMoney: AtobaraiMoney;
+    chargedAmountAdjustment: ChargedAmountAdjustment | null;
+    graphqlClient: Client;
+  }): Promise<PendingCreditCheck | null> {
+    const atobaraiTransactionId = createAtobaraiTransactionId(authorization.np_transaction_id);
+
+    switch (authorization.authori_result) {
+      case CreditCheckResult.Success: {
+        if (chargedAmountAdjustment) {
+          await this.reportTransactionEvent({
+            graphqlClient,
+            saleorTransactionToken,
+            atobaraiTransactionId,
+            ...chargedAmountAdjustment,
+            message: "Order changes were sent to NP Atobarai, billed amount increased",
+            transactionResult: new ChargeSuccessResult(),
+          });
+        }
+
+        await this.addOrderNote({
+          orderId,
+          graphqlClient,
+          message: "Order changes were sent to NP Atobarai, credit check passed",
+        });
+
+        return null;
+      }
+      case CreditCheckResult.Pending: {
+        const transactionResult = new ChargeActionRequiredResult();
+        const message = "Order changes were sent to NP Atobarai, credit check is pending";
+
+        // Re-review result of increased amount is reported by polling with PSP reference of the edit
+        const pendingCharge: Pick<PendingCreditCheck, "atobaraiMoney" | "pspReference"> =
+          chargedAmountAdjustment ?? { atobaraiMoney };
+
+        await this.reportTransactionEvent({
+          graphqlClient,
+          saleorTransactionToken,
+          atobaraiTransactionId,
+          ...pendingCharge,
+          message,
+          transactionResult,
+        });
+
+        await this.addOrderNote({ orderId, graphqlClient, message });
+
+        return {
+          saleorTransactionToken,
+          saleorChannelId: channelId,
+          ...pendingCharge,
+        };
+      }
+      default: {
+        const transactionResult = new ChargeFailureResult();
+        const message = `Order changes were sent to NP Atobarai, credit check failed with result: ${
+          authorization.authori_result
+        }${authorization.authori_ng ? `, reason: ${authorization.authori_ng}` : ""}`;
+
+        await this.reportTransactionEvent({
+          graphqlClient,
+          saleorTransactionToken,
+          atobaraiTransactionId,
+          atobaraiMoney,
+          message,
+          transactionResult,
+        });
+
+        await this.addOrderNote({ orderId, graphqlClient, message });
+
+        return null;
+      }
+    }
+  }
+
+  private async reportTransactionEvent({
+    graphqlClient,
+    saleorTransactionToken,
+    atobaraiTransactionId,
+    pspReference,
+    atobaraiMoney,
+    message,
+    transactionResult,
+  }: {
+    graphqlClient: Client;
+    saleorTransactionToken: SaleorTransactionToken;
+    atobaraiTransactionId: AtobaraiTransactionId;
+    pspReference?: string;
+    atobaraiMoney: AtobaraiMoney;
+    message: string;
+    transactionResult: ChargeSuccessResult | ChargeActionRequiredResult | ChargeFailureResult;
+  }): Promise<void> {
+    const transactionEventReporter = this.transactionEventReporterFactory(graphqlClient);
+
+    const result = await transactionEventReporter.reportTransactionEvent({
+      saleorTransactionToken,
+      atobaraiTransactionId,
+      ...(pspReference ? { pspReference } : {}),
+      atobaraiMoney,
+      message,
+      time: new Date().toISOString(),
+      type: transactionResult.result,
+      actions: transactionResult.actions,
+    });
+
+    if (result.isErr()) {
+      this.logger.warn("Failed to report transaction event", {
+        atobaraiTransactionId,
+        error: result.error,
+      });
+    }
+  }
+
+  private async addOrderNote({
+    orderId,
+    message,
+    graphqlClient,
+  }: {
+    orderId: string;
+    message: string;
+    graphqlClient: Client;
+  }): Promise<void> {
+    const orderNoteService = this.orderNoteServiceFactory(graphqlClient);
+
+    const result = await orderNoteService.addOrderNote({
+      orderId,
+      message,
+    });
+
+    if (result.isErr()) {
+      this.logger.warn("Failed to add order note", {
+        orderId,
+        message,
+        error: result.error,
+      });
+    }
+  }
+}
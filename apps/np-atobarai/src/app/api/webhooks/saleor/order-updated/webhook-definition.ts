@@ -0,0 +1,17 @@
+import { SaleorAsyncWebhook } from "@saleor/app-sdk/handlers/next-app-router";
+
+import { OrderUpdatedDocument, type OrderUpdatedEventFragment } from "@/generated/graphql";
+import { createLogger } from "@/lib/logger";
+import { saleorApp } from "@/lib/saleor-app";
+
+export const orderUpdatedWebhookDefinition = new SaleorAsyncWebhook<OrderUpdatedEventFragment>({
+  apl: saleorApp.apl,
+  event: "ORDER_UPDATED",
+  name: "NP Atobarai Order Updated",
+  isActive: true,
+  query: OrderUpdatedDocument,
+  webhookPath: "api/webhooks/saleor/order-updated",
+  onError(error) {
+    createLogger("ORDER_UPDATED webhook").error("Failed to execute webhook", { error });
+  },
+});
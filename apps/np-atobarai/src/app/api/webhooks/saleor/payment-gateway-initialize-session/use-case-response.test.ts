@@ -1,7 +1,9 @@
 import { describe, expect, it } from "vitest";
 
+import { EligibilityRuleViolationReason } from "@/modules/eligibility/eligibility-rules-evaluator";
+
 import { PaymentGatewayInitializeSessionUseCaseResponses } from "./use-case-response";
-import { UnsupportedCurrencyError } from "./validation-errors";
+import { PaymentMethodNotAvailableError, UnsupportedCurrencyError } from "./validation-errors";
 
 describe("PaymentGatewayInitializeSessionUseCaseResponses", () => {
   describe("Success", () => {
@@ -46,4 +48,34 @@ describe("PaymentGatewayInitializeSessionUseCaseResponses", () => {
       `);
     });
   });
+
+  describe("NotAvailable", () => {
+    it("getResponse() returns valid Response with status 200 and 'data' object containing error with reason", async () => {
+      const notAvailableResponse = new PaymentGatewayInitializeSessionUseCaseResponses.NotAvailable(
+        new PaymentMethodNotAvailableError("Payment method not available", {
+          props: {
+            publicMessage: "Selected shipping method is not supported",
+            reason: EligibilityRuleViolationReason.ShippingMethodExcluded,
+          },
+        }),
+      );
+
+      const fetchReponse = notAvailableResponse.getResponse();
+
+      expect(fetchReponse.status).toBe(200);
+      expect(await fetchReponse.json()).toMatchInlineSnapshot(`
+        {
+          "data": {
+            "errors": [
+              {
+                "code": "PaymentMethodNotAvailableError",
+                "message": "Selected shipping method is not supported",
+                "reason": "SHIPPING_METHOD_EXCLUDED",
+              },
+            ],
+          },
+        }
+      `);
+    });
+  });
 });
@@ -1,7 +1,10 @@
 import { type PaymentGatewayInitializeSession } from "@/generated/app-webhooks-types/payment-gateway-initialize-session";
 
 import { SuccessWebhookResponse } from "../saleor-webhook-responses";
-import { type PaymentGatewayInitializeSessionValidationError } from "./validation-errors";
+import {
+  type PaymentGatewayInitializeSessionValidationError,
+  type PaymentMethodNotAvailableError,
+} from "./validation-errors";
 
 class Success extends SuccessWebhookResponse {
   getResponse() {
@@ -35,12 +38,43 @@ class Failure extends SuccessWebhookResponse {
   }
 }
 
+/**
+ * Returned when channel eligibility rules exclude the checkout / order.
+ * `reason` lets storefront hide the payment method before transaction is initialized.
+ */
+class NotAvailable extends SuccessWebhookResponse {
+  readonly error: InstanceType<typeof PaymentMethodNotAvailableError>;
+
+  constructor(error: InstanceType<typeof PaymentMethodNotAvailableError>) {
+    super();
+    this.error = error;
+  }
+
+  getResponse() {
+    const typeSafeResponse: PaymentGatewayInitializeSession = {
+      data: {
+        errors: [
+          {
+            code: this.error.publicCode,
+            message: this.error.publicMessage,
+            reason: this.error.reason,
+          },
+        ],
+      },
+    };
+
+    return Response.json(typeSafeResponse, { status: this.statusCode });
+  }
+}
+
 export const PaymentGatewayInitializeSessionUseCaseResponses = {
   Success,
   Failure,
+  NotAvailable,
 };
 
 export type PaymentGatewayInitializeSessionUseCaseResponsesType = InstanceType<
   | typeof PaymentGatewayInitializeSessionUseCaseResponses.Success
   | typeof PaymentGatewayInitializeSessionUseCaseResponses.Failure
+  | typeof PaymentGatewayInitializeSessionUseCaseResponses.NotAvailable
 >;
@@ -6,6 +6,8 @@ import { mockedAppConfigRepo } from "@/__tests__/mocks/app-config/mocked-app-con
 import { mockedSaleorApiUrl } from "@/__tests__/mocks/saleor/mocked-saleor-api-url";
 import { mockedSaleorAppId } from "@/__tests__/mocks/saleor/mocked-saleor-app-id";
 import { mockedPaymentGatewayInitializeSessionEvent } from "@/__tests__/mocks/saleor-events/mocked-payment-gateway-initalize-session-event";
+import { AppChannelConfig } from "@/modules/app-config/app-config";
+import { emptyEligibilityRules } from "@/modules/eligibility/eligibility-rules";
 
 import { AppIsNotConfiguredResponse } from "../saleor-webhook-responses";
 import { PaymentGatewayInitializeSessionUseCase } from "./use-case";
@@ -342,4 +344,126 @@ describe("PaymentGatewayInitializeSessionUseCase", () => {
 
     expect(errorResult).toBeInstanceOf(AppIsNotConfiguredResponse);
   });
+  describe("eligibility rules", () => {
+    const mockConfigWithRules = (eligibilityRules: AppChannelConfig["eligibilityRules"]) => {
+      const config = AppChannelConfig.create({
+        ...mockedAppChannelConfig,
+        eligibilityRules,
+      })._unsafeUnwrap();
+
+      vi.spyOn(mockedAppConfigRepo, "getChannelConfig").mockImplementationOnce(() => ok(config));
+    };
+
+    it("Returns Success response if source object satisfies all configured rules", async () => {
+      mockConfigWithRules({
+        maxOrderAmount: 1_234,
+        allowedPrefectures: ["東京都"],
+        allowedPostalCodeRanges: [{ from: "1000000", to: "1009999" }],
+        excludedShippingMethodIds: ["excluded-shipping-method-id"],
+        excludedProductTypeIds: ["excluded-product-type-id"],
+      });
+
+      const uc = new PaymentGatewayInitializeSessionUseCase({
+        appConfigRepo: mockedAppConfigRepo,
+      });
+
+      const responsePayload = await uc.execute({
+        saleorApiUrl: mockedSaleorApiUrl,
+        appId: mockedSaleorAppId,
+        event: mockedPaymentGatewayInitializeSessionEvent,
+      });
+
+      expect(responsePayload._unsafeUnwrap()).toBeInstanceOf(
+        PaymentGatewayInitializeSessionUseCaseResponses.Success,
+      );
+    });
+
+    it("Returns NotAvailable response with reason when order total exceeds max amount", async () => {
+      mockConfigWithRules({ ...emptyEligibilityRules, maxOrderAmount: 1_000 });
+
+      const uc = new PaymentGatewayInitializeSessionUseCase({
+        appConfigRepo: mockedAppConfigRepo,
+      });
+
+      const responsePayload = await uc.execute({
+        saleorApiUrl: mockedSaleorApiUrl,
+        appId: mockedSaleorAppId,
+        event: mockedPaymentGatewayInitializeSessionEvent,
+      });
+
+      expect(responsePayload._unsafeUnwrap()).toBeInstanceOf(
+        PaymentGatewayInitializeSessionUseCaseResponses.NotAvailable,
+      );
+
+      const jsonResponse = await responsePayload._unsafeUnwrap().getResponse().json();
+
+      expect(jsonResponse).toMatchInlineSnapshot(`
+        {
+          "data": {
+            "errors": [
+              {
+                "code": "PaymentMethodNotAvailableError",
+                "message": "Order total 1234 exceeds the limit of 1000",
+                "reason": "MAX_ORDER_AMOUNT_EXCEEDED",
+              },
+            ],
+          },
+        }
+      `);
+    });
+
+    it("Returns NotAvailable response when selected shipping method is excluded", async () => {
+      mockConfigWithRules({
+        ...emptyEligibilityRules,
+        excludedShippingMethodIds: ["shipping-method-id"],
+      });
+
+      const uc = new PaymentGatewayInitializeSessionUseCase({
+        appConfigRepo: mockedAppConfigRepo,
+      });
+
+      const responsePayload = await uc.execute({
+        saleorApiUrl: mockedSaleorApiUrl,
+        appId: mockedSaleorAppId,
+        event: mockedPaymentGatewayInitializeSessionEvent,
+      });
+
+      const jsonResponse = await responsePayload._unsafeUnwrap().getResponse().json();
+
+      expect(jsonResponse).toMatchInlineSnapshot(`
+        {
+          "data": {
+            "errors": [
+              {
+                "code": "PaymentMethodNotAvailableError",
+                "message": "Selected shipping method is not supported",
+                "reason": "SHIPPING_METHOD_EXCLUDED",
+              },
+            ],
+          },
+        }
+      `);
+    });
+
+    it("Returns NotAvailable response when product type in lines is excluded", async () => {
+      mockConfigWithRules({
+        ...emptyEligibilityRules,
+        excludedProductTypeIds: ["product-type-id"],
+      });
+
+      const uc = new PaymentGatewayInitializeSessionUseCase({
+        appConfigRepo: mockedAppConfigRepo,
+      });
+
+      const responsePayload = await uc.execute({
+        saleorApiUrl: mockedSaleorApiUrl,
+        appId: mockedSaleorAppId,
+        event: mockedPaymentGatewayInitializeSessionEvent,
+      });
+
+      expect(responsePayload._unsafeUnwrap()).toBeInstanceOf(
+        PaymentGatewayInitializeSessionUseCaseResponses.NotAvailable,
+      );
+    });
+  });
 });
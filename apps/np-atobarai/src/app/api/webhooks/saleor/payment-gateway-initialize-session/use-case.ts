@@ -4,6 +4,10 @@ import { err, ok, type Result } from "neverthrow";
 import { type PaymentGatewayInitializeSessionEventFragment } from "@/generated/graphql";
 import { createLogger } from "@/lib/logger";
 import { type AppConfigRepo } from "@/modules/app-config/repo/app-config-repo";
+import {
+  type EligibilityRulesEvaluationInput,
+  EligibilityRulesEvaluator,
+} from "@/modules/eligibility/eligibility-rules-evaluator";
 
 import { BaseUseCase } from "../base-use-case";
 import { type AppIsNotConfiguredResponse } from "../saleor-webhook-responses";
@@ -15,6 +19,7 @@ import {
   MissingBillingAddressError,
   MissingBillingPhoneNumberError,
   MissingEmailError,
+  PaymentMethodNotAvailableError,
   UnsupportedCountryError,
   UnsupportedCurrencyError,
   WrongPhoneNumberFormatError,
@@ -27,12 +32,43 @@ type UseCaseExecuteResult = Promise<
 export class PaymentGatewayInitializeSessionUseCase extends BaseUseCase {
   protected logger = createLogger("PaymentGatewayInitializeSessionUseCase");
   protected appConfigRepo: Pick<AppConfigRepo, "getChannelConfig">;
+  private eligibilityRulesEvaluator = new EligibilityRulesEvaluator();
 
   constructor(deps: { appConfigRepo: Pick<AppConfigRepo, "getChannelConfig"> }) {
     super();
     this.appConfigRepo = deps.appConfigRepo;
   }
 
+  private getEligibilityRulesEvaluationInput(
+    sourceObject: PaymentGatewayInitializeSessionEventFragment["sourceObject"],
+    shippingAddress: EligibilityRulesEvaluationInput["shippingAddress"],
+  ): EligibilityRulesEvaluationInput {
+    const shippingMethodId =
+      sourceObject.deliveryMethod?.__typename === "ShippingMethod"
+        ? sourceObject.deliveryMethod.id
+        : null;
+
+    if (sourceObject.__typename === "Checkout") {
+      return {
+        totalAmount: sourceObject.totalPrice.gross.amount,
+        shippingAddress,
+        shippingMethodId,
+        productTypeIds: sourceObject.lines.map(
+          (line) => line.checkoutVariant.product.productType.id,
+        ),
+      };
+    }
+
+    return {
+      totalAmount: sourceObject.total.gross.amount,
+      shippingAddress,
+      shippingMethodId,
+      productTypeIds: sourceObject.lines.flatMap((line) =>
+        line.orderVariant ? [line.orderVariant.product.productType.id] : [],
+      ),
+    };
+  }
+
   async execute(params: {
     appId: string;
     saleorApiUrl: SaleorApiUrl;
@@ -84,6 +120,32 @@ export class PaymentGatewayInitializeSessionUseCase extends BaseUseCase {
       );
     }
 
+    const eligibilityResult = this.eligibilityRulesEvaluator.evaluate({
+      rules: atobaraiConfigResult.value.eligibilityRules,
+      input: this.getEligibilityRulesEvaluationInput(
+        event.sourceObject,
+        event.sourceObject.shippingAddress,
+      ),
+    });
+
+    if (eligibilityResult.isErr()) {
+      this.logger.info("NP Atobarai is not available due to channel eligibility rules", {
+        channelId: event.sourceObject.channel.id,
+        reason: eligibilityResult.error.reason,
+      });
+
+      return ok(
+        new PaymentGatewayInitializeSessionUseCaseResponses.NotAvailable(
+          new PaymentMethodNotAvailableError("Payment method not available", {
+            props: {
+              publicMessage: eligibilityResult.error.message,
+              reason: eligibilityResult.error.reason,
+            },
+          }),
+        ),
+      );
+    }
+
     if (!event.sourceObject.billingAddress) {
       this.logger.warn("Missing billing address in event", {
         event,
@@ -1,5 +1,7 @@
 import { BaseError } from "@saleor/errors";
 
+import { type EligibilityRuleViolationReason } from "@/modules/eligibility/eligibility-rules-evaluator";
+
 export const UnsupportedCountryError = BaseError.subclass("UnsupportedCountryError", {
   props: {
     _brand: "UnsupportedCountryError" as const,
@@ -48,6 +50,15 @@ export const WrongPhoneNumberFormatError = BaseError.subclass("WrongPhoneNumberF
   },
 });
 
+export const PaymentMethodNotAvailableError = BaseError.subclass("PaymentMethodNotAvailableError", {
+  props: {
+    _brand: "PaymentMethodNotAvailableError" as const,
+    publicCode: "PaymentMethodNotAvailableError" as const,
+    publicMessage: "",
+    reason: "" as EligibilityRuleViolationReason,
+  },
+});
+
 export type PaymentGatewayInitializeSessionValidationError = InstanceType<
   | typeof UnsupportedCountryError
   | typeof UnsupportedCurrencyError
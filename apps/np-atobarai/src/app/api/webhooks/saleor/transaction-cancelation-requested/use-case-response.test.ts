@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+
+import { mockedAtobaraiTransactionId } from "@/__tests__/mocks/atobarai/mocked-atobarai-transaction-id";
+import { InvalidEventValidationError } from "@/app/api/webhooks/saleor/use-case-errors";
+import {
+  CancelFailureResult,
+  CancelSuccessResult,
+} from "@/modules/transaction-result/cancel-result";
+
+import { TransactionCancelationRequestedUseCaseResponse } from "./use-case-response";
+
+describe("TransactionCancelationRequestedUseCaseResponse", () => {
+  describe("Success", () => {
+    it("getResponse() returns valid Response with status 200 and cancel success result with PSP reference", async () => {
+      const response = new TransactionCancelationRequestedUseCaseResponse.Success({
+        transactionResult: new CancelSuccessResult(),
+        atobaraiTransactionId: mockedAtobaraiTransactionId,
+        amount: 1000,
+      });
+
+      const fetchResponse = response.getResponse();
+
+      expect(fetchResponse.status).toBe(200);
+      expect(await fetchResponse.json()).toMatchInlineSnapshot(`
+        {
+          "actions": [],
+          "amount": 1000,
+          "message": "Successfully cancelled NP Atobarai transaction",
+          "pspReference": "np_trans_id",
+          "result": "CANCEL_SUCCESS",
+        }
+      `);
+    });
+  });
+
+  describe("Failure", () => {
+    it("getResponse() returns valid Response with status 200 and cancel failure result with error message", async () => {
+      const response = new TransactionCancelationRequestedUseCaseResponse.Failure({
+        transactionResult: new CancelFailureResult(),
+        error: new InvalidEventValidationError("PSP reference is required", {
+          props: {
+            publicMessage: "PSP reference is required",
+          },
+        }),
+      });
+
+      const fetchResponse = response.getResponse();
+
+      expect(fetchResponse.status).toBe(200);
+      expect(await fetchResponse.json()).toMatchInlineSnapshot(`
+        {
+          "actions": [
+            "CANCEL",
+            "REFUND",
+          ],
+          "message": "Failed to cancel NP Atobarai transaction: PSP reference is required",
+          "result": "CANCEL_FAILURE",
+        }
+      `);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  type InvalidEventValidationError,
+  type TransactionAlreadyFulfilledError,
+} from "@/app/api/webhooks/saleor/use-case-errors";
+import {
+  type TransactionCancelationRequestedSyncFailure,
+  type TransactionCancelationRequestedSyncSuccess,
+} from "@/generated/app-webhooks-types/transaction-cancelation-requested";
+import { type AtobaraiApiClientCancelTransactionError } from "@/modules/atobarai/api/types";
+import { type AtobaraiTransactionId } from "@/modules/atobarai/atobarai-transaction-id";
+import {
+  type CancelFailureResult,
+  type CancelSuccessResult,
+} from "@/modules/transaction-result/cancel-result";
+
+import { SuccessWebhookResponse } from "../saleor-webhook-responses";
+
+class Success extends SuccessWebhookResponse {
+  readonly transactionResult: CancelSuccessResult;
+  readonly atobaraiTransactionId: AtobaraiTransactionId;
+  readonly amount: number;
+
+  constructor(args: {
+    transactionResult: CancelSuccessResult;
+    atobaraiTransactionId: AtobaraiTransactionId;
+    amount: number;
+  }) {
+    super();
+    this.transactionResult = args.transactionResult;
+    this.atobaraiTransactionId = args.atobaraiTransactionId;
+    this.amount = args.amount;
+  }
+
+  getResponse(): Response {
+    const typeSafeResponse: TransactionCancelationRequestedSyncSuccess = {
+      result: this.transactionResult.result,
+      actions: this.transactionResult.actions,
+      message: this.transactionResult.message,
+      pspReference: this.atobaraiTransactionId,
+      amount: this.amount,
+    };
+
+    return Response.json(typeSafeResponse, {
+      status: this.statusCode,
+    });
+  }
+}
+
+type UseCaseErrors =
+  | AtobaraiApiClientCancelTransactionError
+  | InstanceType<typeof InvalidEventValidationError>
+  | InstanceType<typeof TransactionAlreadyFulfilledError>;
+
+class Failure extends SuccessWebhookResponse {
+  readonly transactionResult: CancelFailureResult;
+  readonly error: UseCaseErrors;
+
+  constructor(args: { transactionResult: CancelFailureResult; error: UseCaseErrors }) {
+    super();
+    this.transactionResult = args.transactionResult;
+    this.error = args.error;
+  }
+
+  getResponse(): Response {
+    const typeSafeResponse: TransactionCancelationRequestedSyncFailure = {
+      result: this.transactionResult.result,
+      actions: this.transactionResult.actions,
+      message: this.error.publicMessage
+        ? `${this.transactionResult.message}: ${this.error.publicMessage}`
+        : this.transactionResult.message,
+    };
+
+    return Response.json(typeSafeResponse, {
+      status: this.statusCode,
+    });
+  }
+}
+
+export const TransactionCancelationRequestedUseCaseResponse = {
+  Success,
+  Failure,
+};
+
+export type TransactionCancelationRequestedUseCaseResponse = InstanceType<
+  | typeof TransactionCancelationRequestedUseCaseResponse.Success
+  | typeof TransactionCancelationRequestedUseCaseResponse.Failure
+>;
@@ -0,0 +1,315 @@
+import { BaseError } from "@saleor/errors";
+import { err, ok } from "neverthrow";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { mockedAppChannelConfig } from "@/__tests__/mocks/app-config/mocked-app-config";
+import { mockedAppConfigRepo } from "@/__tests__/mocks/app-config/mocked-app-config-repo";
+import { getMockedTransactionRecord } from "@/__tests__/mocks/app-transaction/mocked-transaction-record";
+import { MockedTransactionRecordRepo } from "@/__tests__/mocks/app-transaction/mocked-transaction-record-repo";
+import { mockedAtobaraiApiClient } from "@/__tests__/mocks/atobarai/api/mocked-atobarai-api-client";
+import { mockedAtobaraiMoney } from "@/__tests__/mocks/atobarai/mocked-atobarai-money";
+import { mockedAtobaraiTransactionId } from "@/__tests__/mocks/atobarai/mocked-atobarai-transaction-id";
+import { mockedSaleorApiUrl } from "@/__tests__/mocks/saleor/mocked-saleor-api-url";
+import { mockedSaleorAppId } from "@/__tests__/mocks/saleor/mocked-saleor-app-id";
+import { mockedSaleorChannelId } from "@/__tests__/mocks/saleor/mocked-saleor-channel-id";
+import { mockedSaleorTransactionToken } from "@/__tests__/mocks/saleor/mocked-saleor-transaction-token";
+import { mockedTransactionCancelationRequestedEvent } from "@/__tests__/mocks/saleor-events/mocked-transaction-cancelation-requested-event";
+import { createAtobaraiCancelTransactionSuccessResponse } from "@/modules/atobarai/api/atobarai-cancel-transaction-success-response";
+import {
+  AtobaraiApiClientCancelTransactionError,
+  type IAtobaraiApiClientFactory,
+} from "@/modules/atobarai/api/types";
+import { TransactionRecordRepoError } from "@/modules/transactions-recording/types";
+
+import { AppIsNotConfiguredResponse, BrokenAppResponse } from "../saleor-webhook-responses";
+import { InvalidEventValidationError, TransactionAlreadyFulfilledError } from "../use-case-errors";
+import { TransactionCancelationRequestedUseCase } from "./use-case";
+import { TransactionCancelationRequestedUseCaseResponse } from "./use-case-response";
+
+describe("TransactionCancelationRequestedUseCase", () => {
+  const atobaraiApiClientFactory = {
+    create: () => mockedAtobaraiApiClient,
+  } satisfies IAtobaraiApiClientFactory;
+
+  const transactionRecordRepo = new MockedTransactionRecordRepo();
+
+  const useCase = new TransactionCancelationRequestedUseCase({
+    appConfigRepo: mockedAppConfigRepo,
+    atobaraiApiClientFactory,
+    transactionRecordRepo,
+  });
+
+  beforeEach(() => {
+    transactionRecordRepo.reset();
+    transactionRecordRepo.transactions[mockedAtobaraiTransactionId] = getMockedTransactionRecord({
+      saleorTrackingNumber: null,
+      fulfillmentMetadataShippingCompanyCode: null,
+    });
+
+    vi.spyOn(mockedAppConfigRepo, "getChannelConfig").mockResolvedValue(ok(mockedAppChannelConfig));
+  });
+
+  it("should return Success response and mark transaction as cancelled when Atobarai cancels transaction", async () => {
+    const spy = vi.spyOn(mockedAtobaraiApiClient, "cancelTransaction").mockResolvedValue(
+      ok(
+        createAtobaraiCancelTransactionSuccessResponse({
+          results: [
+            {
+              np_transaction_id: mockedAtobaraiTransactionId,
+            },
+          ],
+        }),
+      ),
+    );
+
+    const result = await useCase.execute({
+      appId: mockedSaleorAppId,
+      saleorApiUrl: mockedSaleorApiUrl,
+      event: mockedTransactionCancelationRequestedEvent,
+    });
+
+    expect(result._unsafeUnwrap()).toBeInstanceOf(
+      TransactionCancelationRequestedUseCaseResponse.Success,
+    );
+    expect(spy).toHaveBeenCalledWith(
+      {
+        transactions: [{ np_transaction_id: mockedAtobaraiTransactionId }],
+      },
+      {
+        rejectMultipleResults: true,
+      },
+    );
+    expect(transactionRecordRepo.transactions[mockedAtobaraiTransactionId].isCancelled()).toBe(
+      true,
+    );
+    expect(await result._unsafeUnwrap().getResponse().json()).toMatchInlineSnapshot(`
+      {
+        "actions": [],
+        "amount": 3334,
+        "message": "Successfully cancelled NP Atobarai transaction",
+        "pspReference": "np_trans_id",
+        "result": "CANCEL_SUCCESS",
+      }
+    `);
+  });
+
+  it("should clear pending credit check when transaction is cancelled", async () => {
+    transactionRecordRepo.transactions[mockedAtobaraiTransactionId] = getMockedTransactionRecord({
+      saleorTrackingNumber: null,
+      fulfillmentMetadataShippingCompanyCode: null,
+      pendingCreditCheck: {
+        saleorTransactionToken: mockedSaleorTransactionToken,
+        saleorChannelId: mockedSaleorChannelId,
+        atobaraiMoney: mockedAtobaraiMoney,
+      },
+    });
+
+    vi.spyOn(mockedAtobaraiApiClient, "cancelTransaction").mockResolvedValue(
+      ok(
+        createAtobaraiCancelTransactionSuccessResponse({
+          results: [
+            {
+              np_transaction_id: mockedAtobaraiTransactionId,
+            },
+          ],
+        }),
+      ),
+    );
+
+    await useCase.execute({
+      appId: mockedSaleorAppId,
+      saleorApiUrl: mockedSaleorApiUrl,
+      event: mockedTransactionCancelationRequestedEvent,
+    });
+
+    expect(
+      transactionRecordRepo.transactions[mockedAtobaraiTransactionId].hasPendingCreditCheck(),
+    ).toBe(false);
+  });
+
+  it("should return Success response without calling Atobarai when transaction is already cancelled", async () => {
+    transactionRecordRepo.transactions[mockedAtobaraiTransactionId] = getMockedTransactionRecord({
+      saleorTrackingNumber: null,
+      fulfillmentMetadataShippingCompanyCode: null,
+      cancelled: true,
+    });
+
+    const spy = vi.spyOn(mockedAtobaraiApiClient, "cancelTransaction");
+
+    const result = await useCase.execute({
+      appId: mockedSaleorAppId,
+      saleorApiUrl: mockedSaleorApiUrl,
+      event: mockedTransactionCancelationRequestedEvent,
+    });
+
+    expect(result._unsafeUnwrap()).toBeInstanceOf(
+      TransactionCancelationRequestedUseCaseResponse.Success,
+    );
+    expect(spy).not.toHaveBeenCalled();
+  });
+
+  it("should return Failure response pointing to refund without calling Atobarai when fulfillment is reported", async () => {
+    transactionRecordRepo.transactions[mockedAtobaraiTransactionId] = getMockedTransactionRecord({
+      saleorTrackingNumber: "1234567890",
+    });
+
+    const spy = vi.spyOn(mockedAtobaraiApiClient, "cancelTransaction");
+
+    const result = await useCase.execute({
+      appId: mockedSaleorAppId,
+      saleorApiUrl: mockedSaleorApiUrl,
+      event: mockedTransactionCancelationRequestedEvent,
+    });
+
+    const response = result._unsafeUnwrap();
+
+    expect(response).toBeInstanceOf(TransactionCancelationRequestedUseCaseResponse.Failure);
+    expect(
+      response instanceof TransactionCancelationRequestedUseCaseResponse.Failure && response.error,
+    ).toBeInstanceOf(TransactionAlreadyFulfilledError);
+    expect(spy).not.toHaveBeenCalled();
+    expect(transactionRecordRepo.transactions[mockedAtobaraiTransactionId].isCancelled()).toBe(
+      false,
+    );
+    expect(await response.getResponse().json()).toMatchInlineSnapshot(`
+      {
+        "actions": [
+          "CANCEL",
+          "REFUND",
+        ],
+        "message": "Failed to cancel NP Atobarai transaction: Shipment is already reported to NP Atobarai, use refund instead",
+        "result": "CANCEL_FAILURE",
+      }
+    `);
+  });
+
+  it("should return Failure response when Atobarai API returns error", async () => {
+    vi.spyOn(mockedAtobaraiApiClient, "cancelTransaction").mockResolvedValue(
+      err(new AtobaraiApiClientCancelTransactionError("API error")),
+    );
+
+    const result = await useCase.execute({
+      appId: mockedSaleorAppId,
+      saleorApiUrl: mockedSaleorApiUrl,
+      event: mockedTransactionCancelationRequestedEvent,
+    });
+
+    expect(result._unsafeUnwrap()).toBeInstanceOf(
+      TransactionCancelationRequestedUseCaseResponse.Failure,
+    );
+    expect(transactionRecordRepo.transactions[mockedAtobaraiTransactionId].isCancelled()).toBe(
+      false,
+    );
+    expect(await result._unsafeUnwrap().getResponse().json()).toMatchInlineSnapshot(`
+      {
+        "actions": [
+          "CANCEL",
+          "REFUND",
+        ],
+        "message": "Failed to cancel NP Atobarai transaction: Failed to cancel transaction with Atobarai",
+        "result": "CANCEL_FAILURE",
+      }
+    `);
+  });
+
+  it("should return Failure response with InvalidEventValidationError when PSP reference is missing", async () => {
+    const result = await useCase.execute({
+      appId: mockedSaleorAppId,
+      saleorApiUrl: mockedSaleorApiUrl,
+      event: {
+        ...mockedTransactionCancelationRequestedEvent,
+        transaction: {
+          ...mockedTransactionCancelationRequestedEvent.transaction,
+          pspReference: "",
+        },
+      },
+    });
+
+    // @ts-expect-error - we expect Failure response
+    expect(result._unsafeUnwrap().error).toBeInstanceOf(InvalidEventValidationError);
+  });
+
+  it("should return Failure response with InvalidEventValidationError when transaction has no order or checkout", async () => {
+    const result = await useCase.execute({
+      appId: mockedSaleorAppId,
+      saleorApiUrl: mockedSaleorApiUrl,
+      event: {
+        ...mockedTransactionCancelationRequestedEvent,
+        transaction: {
+          ...mockedTransactionCancelationRequestedEvent.transaction,
+          order: null,
+        },
+      },
+    });
+
+    // @ts-expect-error - we expect Failure response
+    expect(result._unsafeUnwrap().error).toBeInstanceOf(InvalidEventValidationError);
+  });
+
+  it("should return AppIsNotConfiguredResponse when app config is not found", async () => {
+    vi.spyOn(mockedAppConfigRepo, "getChannelConfig").mockResolvedValue(ok(null));
+
+    const result = await useCase.execute({
+      appId: mockedSaleorAppId,
+      saleorApiUrl: mockedSaleorApiUrl,
+      event: mockedTransactionCancelationRequestedEvent,
+    });
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(AppIsNotConfiguredResponse);
+  });
+
+  it("should return AppIsNotConfiguredResponse when getChannelConfig fails", async () => {
+    vi.spyOn(mockedAppConfigRepo, "getChannelConfig").mockResolvedValue(
+      err(new BaseError("Config error")),
+    );
+
+    const result = await useCase.execute({
+      appId: mockedSaleorAppId,
+      saleorApiUrl: mockedSaleorApiUrl,
+      event: mockedTransactionCancelationRequestedEvent,
+    });
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(AppIsNotConfiguredResponse);
+  });
+
+  it("should return BrokenAppResponse when transaction is missing in transactionRecordRepo", async () => {
+    transactionRecordRepo.reset();
+
+    const result = await useCase.execute({
+      appId: mockedSaleorAppId,
+      saleorApiUrl: mockedSaleorApiUrl,
+      event: mockedTransactionCancelationRequestedEvent,
+    });
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(BrokenAppResponse);
+  });
+
+  it("should return BrokenAppResponse when transactionRecordRepo fails to update transaction", async () => {
+    vi.spyOn(mockedAtobaraiApiClient, "cancelTransaction").mockResolvedValue(
+      ok(
+        createAtobaraiCancelTransactionSuccessResponse({
+          results: [
+            {
+              np_transaction_id: mockedAtobaraiTransactionId,
+            },
+          ],
+        }),
+      ),
+    );
+    vi.spyOn(transactionRecordRepo, "updateTransaction").mockResolvedValueOnce(
+      err(
+        new TransactionRecordRepoError.FailedUpdatingTransactionError(
+          "Failed to update transaction",
+        ),
+      ),
+    );
+
+    const result = await useCase.execute({
+      appId: mockedSaleorAppId,
+      saleorApiUrl: mockedSaleorApiUrl,
+      event: mockedTransactionCancelationRequestedEvent,
+    });
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(BrokenAppResponse);
+  });
+});
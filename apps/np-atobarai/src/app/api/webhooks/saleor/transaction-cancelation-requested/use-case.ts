@@ -0,0 +1,212 @@
+import { type SaleorApiUrl } from "@saleor/apps-domain/saleor-api-url";
+import { err, ok, type Result } from "neverthrow";
+
+import {
+  InvalidEventValidationError,
+  TransactionAlreadyFulfilledError,
+} from "@/app/api/webhooks/saleor/use-case-errors";
+import { type TransactionCancelationRequestedEventFragment } from "@/generated/graphql";
+import { createLogger } from "@/lib/logger";
+import { type AppConfigRepo } from "@/modules/app-config/repo/app-config-repo";
+import { createAtobaraiCancelTransactionPayload } from "@/modules/atobarai/api/atobarai-cancel-transaction-payload";
+import { type IAtobaraiApiClientFactory } from "@/modules/atobarai/api/types";
+import { createAtobaraiTransactionId } from "@/modules/atobarai/atobarai-transaction-id";
+import {
+  CancelFailureResult,
+  CancelSuccessResult,
+} from "@/modules/transaction-result/cancel-result";
+import { type TransactionRecordRepo } from "@/modules/transactions-recording/types";
+
+import { BaseUseCase } from "../base-use-case";
+import { type AppIsNotConfiguredResponse, BrokenAppResponse } from "../saleor-webhook-responses";
+import { TransactionCancelationRequestedUseCaseResponse } from "./use-case-response";
+
+type UseCaseExecuteResult = Promise<
+  Result<
+    TransactionCancelationRequestedUseCaseResponse,
+    AppIsNotConfiguredResponse | BrokenAppResponse
+  >
+>;
+
+export class TransactionCancelationRequestedUseCase extends BaseUseCase {
+  protected logger = createLogger("TransactionCancelationRequestedUseCase");
+  protected appConfigRepo: Pick<AppConfigRepo, "getChannelConfig">;
+  private atobaraiApiClientFactory: IAtobaraiApiClientFactory;
+  private transactionRecordRepo: TransactionRecordRepo;
+
+  constructor(deps: {
+    appConfigRepo: Pick<AppConfigRepo, "getChannelConfig">;
+    atobaraiApiClientFactory: IAtobaraiApiClientFactory;
+    transactionRecordRepo: TransactionRecordRepo;
+  }) {
+    super();
+    this.appConfigRepo = deps.appConfigRepo;
+    this.atobaraiApiClientFactory = deps.atobaraiApiClientFactory;
+    this.transactionRecordRepo = deps.transactionRecordRepo;
+  }
+
+  private parseEvent(event: TransactionCancelationRequestedEventFragment) {
+    if (!event.transaction?.pspReference) {
+      return err(
+        new InvalidEventValidationError("PSP reference is required", {
+          props: {
+            publicMessage: "PSP reference is required",
+          },
+        }),
+      );
+    }
+
+    const channelId = event.transaction.order?.channel.id ?? event.transaction.checkout?.channel.id;
+
+    if (!channelId) {
+      return err(
+        new InvalidEventValidationError("Transaction is not attached to order or checkout", {
+          props: {
+            publicMessage: "Transaction is not attached to order or checkout",
+          },
+        }),
+      );
+    }
+
+    return ok({
+      channelId,
+      pspReference: event.transaction.pspReference,
+      amount: event.action.amount,
+    });
+  }
+
+  async execute(params: {
+    appId: string;
+    saleorApiUrl: SaleorApiUrl;
+    event: TransactionCancelationRequestedEventFragment;
+  }): UseCaseExecuteResult {
+    const { appId, saleorApiUrl, event } = params;
+
+    const parsingResult = this.parseEvent(event);
+
+    if (parsingResult.isErr()) {
+      this.logger.warn("Failed to parse Saleor event", {
+        error: parsingResult.error,
+      });
+
+      return ok(
+        new TransactionCancelationRequestedUseCaseResponse.Failure({
+          transactionResult: new CancelFailureResult(),
+          error: parsingResult.error,
+        }),
+      );
+    }
+
+    const { channelId, pspReference, amount } = parsingResult.value;
+
+    const atobaraiConfigResult = await this.getAtobaraiConfigForChannel({
+      channelId,
+      appId,
+      saleorApiUrl,
+    });
+
+    if (atobaraiConfigResult.isErr()) {
+      return err(atobaraiConfigResult.error);
+    }
+
+    const appConfig = atobaraiConfigResult.value;
+
+    const transactionRecordResult =
+      await this.transactionRecordRepo.getTransactionByAtobaraiTransactionId(
+        { saleorApiUrl, appId },
+        createAtobaraiTransactionId(pspReference),
+      );
+
+    if (transactionRecordResult.isErr()) {
+      this.logger.error("Failed to get transaction from transaction record repo", {
+        error: transactionRecordResult.error,
+      });
+
+      return err(new BrokenAppResponse(transactionRecordResult.error));
+    }
+
+    const transactionRecord = transactionRecordResult.value;
+
+    // NP rejects cancelling transaction twice, so repeated request (e.g. retried by Saleor) is answered from record
+    if (transactionRecord.isCancelled()) {
+      this.logger.info("Transaction is already cancelled", {
+        atobaraiTransactionId: transactionRecord.atobaraiTransactionId,
+      });
+
+      return ok(
+        new TransactionCancelationRequestedUseCaseResponse.Success({
+          transactionResult: new CancelSuccessResult(),
+          atobaraiTransactionId: transactionRecord.atobaraiTransactionId,
+          amount,
+        }),
+      );
+    }
+
+    // NP doesn't allow cancelling transaction with reported shipment - it's billed already and has to be refunded
+    if (transactionRecord.hasFulfillmentReported()) {
+      this.logger.warn("Transaction has reported fulfillment, it can't be cancelled", {
+        atobaraiTransactionId: transactionRecord.atobaraiTransactionId,
+      });
+
+      return ok(
+        new TransactionCancelationRequestedUseCaseResponse.Failure({
+          transactionResult: new CancelFailureResult(),
+          error: new TransactionAlreadyFulfilledError(
+            "Transaction with reported fulfillment can't be cancelled",
+          ),
+        }),
+      );
+    }
+
+    const apiClient = this.atobaraiApiClientFactory.create({
+      atobaraiTerminalId: appConfig.terminalId,
+      atobaraiMerchantCode: appConfig.merchantCode,
+      atobaraiSecretSpCode: appConfig.secretSpCode,
+      atobaraiEnvironment: appConfig.useSandbox ? "sandbox" : "production",
+    });
+
+    const cancelTransactionResult = await apiClient.cancelTransaction(
+      createAtobaraiCancelTransactionPayload({
+        atobaraiTransactionId: transactionRecord.atobaraiTransactionId,
+      }),
+      {
+        rejectMultipleResults: true,
+      },
+    );
+
+    if (cancelTransactionResult.isErr()) {
+      this.logger.warn("Failed to cancel transaction", {
+        error: cancelTransactionResult.error,
+        atobaraiTransactionId: transactionRecord.atobaraiTransactionId,
+      });
+
+      return ok(
+        new TransactionCancelationRequestedUseCaseResponse.Failure({
+          transactionResult: new CancelFailureResult(),
+          error: cancelTransactionResult.error,
+        }),
+      );
+    }
+
+    const updateTransactionResult = await this.transactionRecordRepo.updateTransaction(
+      { saleorApiUrl, appId },
+      transactionRecord.markCancelled(),
+    );
+
+    if (updateTransactionResult.isErr()) {
+      this.logger.error("Failed to update transaction in app transaction repo", {
+        error: updateTransactionResult.error,
+      });
+
+      return err(new BrokenAppResponse(updateTransactionResult.error));
+    }
+
+    return ok(
+      new TransactionCancelationRequestedUseCaseResponse.Success({
+        transactionResult: new CancelSuccessResult(),
+        atobaraiTransactionId: transactionRecord.atobaraiTransactionId,
+        amount,
+      }),
+    );
+  }
+}
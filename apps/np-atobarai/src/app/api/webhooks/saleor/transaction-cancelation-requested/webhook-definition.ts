@@ -0,0 +1,23 @@
+import { SaleorSyncWebhook } from "@saleor/app-sdk/handlers/next-app-router";
+
+import {
+  TransactionCancelationRequestedDocument,
+  type TransactionCancelationRequestedEventFragment,
+} from "@/generated/graphql";
+import { createLogger } from "@/lib/logger";
+import { saleorApp } from "@/lib/saleor-app";
+
+export const transactionCancelationRequestedWebhookDefinition =
+  new SaleorSyncWebhook<TransactionCancelationRequestedEventFragment>({
+    apl: saleorApp.apl,
+    event: "TRANSACTION_CANCELATION_REQUESTED",
+    name: "NP Atobarai Transaction Cancelation Requested",
+    isActive: true,
+    query: TransactionCancelationRequestedDocument,
+    webhookPath: "api/webhooks/saleor/transaction-cancelation-requested",
+    onError(error) {
+      createLogger("TRANSACTION_CANCELATION_REQUESTED webhook").error("Failed to execute webhook", {
+        error,
+      });
+    },
+  });
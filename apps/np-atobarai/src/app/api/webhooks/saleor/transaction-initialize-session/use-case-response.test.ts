@@ -33,6 +33,7 @@ describe("TransactionInitializeSessionUseCaseResponse", () => {
           {
             "actions": [
               "REFUND",
+              "CANCEL",
             ],
             "message": "Successfully registered NP Atobarai transaction",
             "pspReference": "np_trans_id",
@@ -79,6 +80,7 @@ describe("TransactionInitializeSessionUseCaseResponse", () => {
           {
             "actions": [
               "REFUND",
+              "CANCEL",
             ],
             "message": "Successfully registered NP Atobarai transaction",
             "paymentMethodDetails": {
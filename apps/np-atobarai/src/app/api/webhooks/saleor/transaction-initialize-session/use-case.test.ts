@@ -93,10 +93,12 @@ describe("TransactionInitializeSessionUseCase", () => {
       ok(mockedAppChannelConfig),
     );
 
+    const transactionRecordRepo = new MockedTransactionRecordRepo();
+
     const uc = new TransactionInitializeSessionUseCase({
       appConfigRepo: mockedAppConfigRepo,
       atobaraiApiClientFactory,
-      appTransactionRepo: new MockedTransactionRecordRepo(),
+      appTransactionRepo: transactionRecordRepo,
     });
 
     const responsePayload = await uc.execute({
@@ -112,6 +114,18 @@ describe("TransactionInitializeSessionUseCase", () => {
     expect(responsePayload._unsafeUnwrap().transactionResult).toBeInstanceOf(
       ChargeActionRequiredResult,
     );
+
+    expect(transactionRecordRepo.transactions[mockedAtobaraiTransactionId].pendingCreditCheck)
+      .toMatchInlineSnapshot(`
+      {
+        "atobaraiMoney": {
+          "amount": 6307,
+          "currency": "JPY",
+        },
+        "saleorChannelId": "mocked-saleor-channel-id",
+        "saleorTransactionToken": "mocked-saleor-transaction-token-uuid",
+      }
+    `);
   });
 
   it("should return Failure response with ChargeFailureResult when Atobarai returns CreditCheckResult.Failed", async () => {
@@ -16,6 +16,10 @@ import {
 } from "@/modules/atobarai/api/atobarai-transaction-success-response";
 import { type IAtobaraiApiClientFactory } from "@/modules/atobarai/api/types";
 import { createAtobaraiCustomer } from "@/modules/atobarai/atobarai-customer";
+import {
+  type AtobaraiDataFingerprint,
+  createAtobaraiDataFingerprint,
+} from "@/modules/atobarai/atobarai-data-fingerprint";
 import { createAtobaraiDeliveryDestination } from "@/modules/atobarai/atobarai-delivery-destination";
 import { TransactionGoodBuilder } from "@/modules/atobarai/atobarai-goods/transaction-goods-builder";
 import { createAtobaraiMoney } from "@/modules/atobarai/atobarai-money";
@@ -98,10 +102,14 @@ export class TransactionInitializeSessionUseCase extends BaseUseCase {
 
   private async mapAtobaraiResponseToUseCaseResponse({
     transaction,
+    event,
+    atobaraiDataFingerprint,
     saleorApiUrl,
     appId,
   }: {
     transaction: AtobaraiTransactionSuccessResponse["results"][number];
+    event: TransactionInitializeSessionEventFragment;
+    atobaraiDataFingerprint: AtobaraiDataFingerprint;
     saleorApiUrl: SaleorApiUrl;
     appId: string;
   }) {
@@ -111,6 +119,18 @@ export class TransactionInitializeSessionUseCase extends BaseUseCase {
       atobaraiTransactionId,
       saleorTrackingNumber: null,
       fulfillmentMetadataShippingCompanyCode: null,
+      pendingCreditCheck:
+        transaction.authori_result === CreditCheckResult.Pending
+          ? {
+              saleorTransactionToken: createSaleorTransactionToken(event.transaction.token),
+              saleorChannelId: event.sourceObject.channel.id,
+              atobaraiMoney: createAtobaraiMoney({
+                amount: event.action.amount,
+                currency: event.action.currency,
+              }),
+            }
+          : null,
+      atobaraiDataFingerprint,
     });
 
     const createTransactionResult = await this.appTransactionRepo.createTransaction(
@@ -262,6 +282,8 @@ export class TransactionInitializeSessionUseCase extends BaseUseCase {
 
     return this.mapAtobaraiResponseToUseCaseResponse({
       transaction: transactionResult.results[0],
+      event,
+      atobaraiDataFingerprint: createAtobaraiDataFingerprint(payloadResult.value.transactions[0]),
       saleorApiUrl,
       appId,
     });
@@ -10,6 +10,7 @@ import { setObservabilitySaleorApiUrl } from "@/lib/observability-saleor-api-url
 import { setObservabilitySourceObjectId } from "@/lib/observability-source-object-id";
 import { appConfigRepo } from "@/modules/app-config/repo/app-config-repo";
 import { AtobaraiApiClientFactory } from "@/modules/atobarai/api/atobarai-api-client-factory";
+import { transactionRecordRepo } from "@/modules/transactions-recording/transaction-record-repo";
 
 import { UnhandledErrorResponse } from "../saleor-webhook-responses";
 import { withRecipientVerification } from "../with-recipient-verification";
@@ -21,6 +22,7 @@ const logger = createLogger("TransactionProcessSession route");
 const useCase = new TransactionProcessSessionUseCase({
   atobaraiApiClientFactory: new AtobaraiApiClientFactory(),
   appConfigRepo: appConfigRepo,
+  transactionRecordRepo: transactionRecordRepo,
 });
 
 const handler = transactionProcessSessionWebhookDefinition.createHandler(
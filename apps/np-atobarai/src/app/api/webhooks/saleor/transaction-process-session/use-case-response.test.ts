@@ -32,6 +32,7 @@ describe("TransactionProcessSessionUseCaseResponse", () => {
           {
             "actions": [
               "REFUND",
+              "CANCEL",
             ],
             "message": "Successfully changed NP Atobarai transaction",
             "pspReference": "np_trans_id",
@@ -78,6 +79,7 @@ describe("TransactionProcessSessionUseCaseResponse", () => {
           {
             "actions": [
               "REFUND",
+              "CANCEL",
             ],
             "message": "Successfully changed NP Atobarai transaction",
             "paymentMethodDetails": {
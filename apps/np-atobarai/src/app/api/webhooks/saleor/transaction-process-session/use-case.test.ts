@@ -1,13 +1,18 @@
 import { BaseError } from "@saleor/errors";
 import { err, ok } from "neverthrow";
-import { describe, expect, it, vi } from "vitest";
+import { beforeEach, describe, expect, it, vi } from "vitest";
 
 import { mockedAppChannelConfig } from "@/__tests__/mocks/app-config/mocked-app-config";
 import { mockedAppConfigRepo } from "@/__tests__/mocks/app-config/mocked-app-config-repo";
+import { getMockedTransactionRecord } from "@/__tests__/mocks/app-transaction/mocked-transaction-record";
+import { MockedTransactionRecordRepo } from "@/__tests__/mocks/app-transaction/mocked-transaction-record-repo";
 import { mockedAtobaraiApiClient } from "@/__tests__/mocks/atobarai/api/mocked-atobarai-api-client";
+import { mockedAtobaraiMoney } from "@/__tests__/mocks/atobarai/mocked-atobarai-money";
 import { mockedAtobaraiTransactionId } from "@/__tests__/mocks/atobarai/mocked-atobarai-transaction-id";
 import { mockedSaleorApiUrl } from "@/__tests__/mocks/saleor/mocked-saleor-api-url";
 import { mockedSaleorAppId } from "@/__tests__/mocks/saleor/mocked-saleor-app-id";
+import { mockedSaleorChannelId } from "@/__tests__/mocks/saleor/mocked-saleor-channel-id";
+import { mockedSaleorTransactionToken } from "@/__tests__/mocks/saleor/mocked-saleor-transaction-token";
 import { mockedTransactionProcessSessionEvent } from "@/__tests__/mocks/saleor-events/mocked-transaction-process-session-event";
 import { InvalidEventValidationError } from "@/app/api/webhooks/saleor/use-case-errors";
 import {
@@ -20,13 +25,14 @@ import {
   AtobaraiApiClientChangeTransactionError,
   type IAtobaraiApiClientFactory,
 } from "@/modules/atobarai/api/types";
+import { createAtobaraiDataFingerprint } from "@/modules/atobarai/atobarai-data-fingerprint";
 import {
   ChargeActionRequiredResult,
   ChargeFailureResult,
   ChargeSuccessResult,
 } from "@/modules/transaction-result/charge-result";
 
-import { AppIsNotConfiguredResponse } from "../saleor-webhook-responses";
+import { AppIsNotConfiguredResponse, BrokenAppResponse } from "../saleor-webhook-responses";
 import { TransactionProcessSessionUseCase } from "./use-case";
 import { TransactionProcessSessionUseCaseResponse } from "./use-case-response";
 
@@ -35,6 +41,16 @@ describe("TransactionProcessSessionUseCase", () => {
     create: () => mockedAtobaraiApiClient,
   } satisfies IAtobaraiApiClientFactory;
 
+  const transactionRecordRepo = new MockedTransactionRecordRepo();
+
+  beforeEach(() => {
+    transactionRecordRepo.reset();
+    transactionRecordRepo.transactions[mockedAtobaraiTransactionId] = getMockedTransactionRecord({
+      saleorTrackingNumber: null,
+      fulfillmentMetadataShippingCompanyCode: null,
+    });
+  });
+
   it("should return Success response with ChargeSuccessResult when Atobarai returns CreditCheckResult.Success", async () => {
     const mockPassedTransaction = createAtobaraiTransactionSuccessResponse({
       results: [
@@ -56,6 +72,7 @@ describe("TransactionProcessSessionUseCase", () => {
     const uc = new TransactionProcessSessionUseCase({
       appConfigRepo: mockedAppConfigRepo,
       atobaraiApiClientFactory,
+      transactionRecordRepo,
     });
 
     const responsePayload = await uc.execute({
@@ -93,6 +110,7 @@ describe("TransactionProcessSessionUseCase", () => {
     const uc = new TransactionProcessSessionUseCase({
       appConfigRepo: mockedAppConfigRepo,
       atobaraiApiClientFactory,
+      transactionRecordRepo,
     });
 
     const responsePayload = await uc.execute({
@@ -108,6 +126,140 @@ describe("TransactionProcessSessionUseCase", () => {
     expect(responsePayload._unsafeUnwrap().transactionResult).toBeInstanceOf(
       ChargeActionRequiredResult,
     );
+
+    expect(
+      transactionRecordRepo.transactions[mockedAtobaraiTransactionId].pendingCreditCheck,
+    ).toStrictEqual({
+      saleorTransactionToken: mockedTransactionProcessSessionEvent.transaction.token,
+      saleorChannelId: mockedTransactionProcessSessionEvent.sourceObject.channel.id,
+      atobaraiMoney: {
+        amount: mockedTransactionProcessSessionEvent.action.amount,
+        currency: "JPY",
+      },
+    });
+  });
+
+  it("should clear pending credit check when Atobarai returns CreditCheckResult.Success", async () => {
+    transactionRecordRepo.transactions[mockedAtobaraiTransactionId] = getMockedTransactionRecord({
+      saleorTrackingNumber: null,
+      fulfillmentMetadataShippingCompanyCode: null,
+      pendingCreditCheck: {
+        saleorTransactionToken: mockedSaleorTransactionToken,
+        saleorChannelId: mockedSaleorChannelId,
+        atobaraiMoney: mockedAtobaraiMoney,
+      },
+    });
+
+    vi.spyOn(mockedAtobaraiApiClient, "changeTransaction").mockResolvedValue(
+      ok(
+        createAtobaraiTransactionSuccessResponse({
+          results: [
+            {
+              np_transaction_id: mockedAtobaraiTransactionId,
+              authori_result: CreditCheckResult.Success,
+            },
+          ],
+        }),
+      ),
+    );
+
+    vi.spyOn(mockedAppConfigRepo, "getChannelConfig").mockImplementationOnce(() =>
+      ok(mockedAppChannelConfig),
+    );
+
+    const uc = new TransactionProcessSessionUseCase({
+      appConfigRepo: mockedAppConfigRepo,
+      atobaraiApiClientFactory,
+      transactionRecordRepo,
+    });
+
+    await uc.execute({
+      saleorApiUrl: mockedSaleorApiUrl,
+      appId: mockedSaleorAppId,
+      event: mockedTransactionProcessSessionEvent,
+    });
+
+    expect(
+      transactionRecordRepo.transactions[mockedAtobaraiTransactionId].hasPendingCreditCheck(),
+    ).toBe(false);
+  });
+
+  it("should save fingerprint of order data sent to Atobarai", async () => {
+    transactionRecordRepo.transactions[mockedAtobaraiTransactionId] = getMockedTransactionRecord({
+      saleorTrackingNumber: null,
+      fulfillmentMetadataShippingCompanyCode: null,
+      atobaraiDataFingerprint: null,
+    });
+
+    const changeTransactionSpy = vi
+      .spyOn(mockedAtobaraiApiClient, "changeTransaction")
+      .mockResolvedValue(
+        ok(
+          createAtobaraiTransactionSuccessResponse({
+            results: [
+              {
+                np_transaction_id: mockedAtobaraiTransactionId,
+                authori_result: CreditCheckResult.Success,
+              },
+            ],
+          }),
+        ),
+      );
+
+    vi.spyOn(mockedAppConfigRepo, "getChannelConfig").mockImplementationOnce(() =>
+      ok(mockedAppChannelConfig),
+    );
+
+    const uc = new TransactionProcessSessionUseCase({
+      appConfigRepo: mockedAppConfigRepo,
+      atobaraiApiClientFactory,
+      transactionRecordRepo,
+    });
+
+    await uc.execute({
+      saleorApiUrl: mockedSaleorApiUrl,
+      appId: mockedSaleorAppId,
+      event: mockedTransactionProcessSessionEvent,
+    });
+
+    expect(
+      transactionRecordRepo.transactions[mockedAtobaraiTransactionId].atobaraiDataFingerprint,
+    ).toBe(createAtobaraiDataFingerprint(changeTransactionSpy.mock.calls[0][0].transactions[0]));
+  });
+
+  it("should return BrokenAppResponse if transaction is not recorded by the app", async () => {
+    transactionRecordRepo.reset();
+
+    vi.spyOn(mockedAtobaraiApiClient, "changeTransaction").mockResolvedValue(
+      ok(
+        createAtobaraiTransactionSuccessResponse({
+          results: [
+            {
+              np_transaction_id: mockedAtobaraiTransactionId,
+              authori_result: CreditCheckResult.Success,
+            },
+          ],
+        }),
+      ),
+    );
+
+    vi.spyOn(mockedAppConfigRepo, "getChannelConfig").mockImplementationOnce(() =>
+      ok(mockedAppChannelConfig),
+    );
+
+    const uc = new TransactionProcessSessionUseCase({
+      appConfigRepo: mockedAppConfigRepo,
+      atobaraiApiClientFactory,
+      transactionRecordRepo,
+    });
+
+    const responsePayload = await uc.execute({
+      saleorApiUrl: mockedSaleorApiUrl,
+      appId: mockedSaleorAppId,
+      event: mockedTransactionProcessSessionEvent,
+    });
+
+    expect(responsePayload._unsafeUnwrapErr()).toBeInstanceOf(BrokenAppResponse);
   });
 
   it("should return Failure response with ChargeFailureResult when Atobarai returns CreditCheckResult.Failed", async () => {
@@ -132,6 +284,7 @@ describe("TransactionProcessSessionUseCase", () => {
     const uc = new TransactionProcessSessionUseCase({
       appConfigRepo: mockedAppConfigRepo,
       atobaraiApiClientFactory,
+      transactionRecordRepo,
     });
 
     const responsePayload = await uc.execute({
@@ -179,6 +332,7 @@ describe("TransactionProcessSessionUseCase", () => {
     const uc = new TransactionProcessSessionUseCase({
       appConfigRepo: mockedAppConfigRepo,
       atobaraiApiClientFactory,
+      transactionRecordRepo,
     });
 
     const responsePayload = await uc.execute({
@@ -220,6 +374,7 @@ describe("TransactionProcessSessionUseCase", () => {
     const uc = new TransactionProcessSessionUseCase({
       appConfigRepo: mockedAppConfigRepo,
       atobaraiApiClientFactory,
+      transactionRecordRepo,
     });
 
     const responsePayload = await uc.execute({
@@ -251,6 +406,7 @@ describe("TransactionProcessSessionUseCase", () => {
     const uc = new TransactionProcessSessionUseCase({
       appConfigRepo: mockedAppConfigRepo,
       atobaraiApiClientFactory,
+      transactionRecordRepo,
     });
 
     const responsePayload = await uc.execute({
@@ -269,6 +425,7 @@ describe("TransactionProcessSessionUseCase", () => {
     const uc = new TransactionProcessSessionUseCase({
       appConfigRepo: mockedAppConfigRepo,
       atobaraiApiClientFactory,
+      transactionRecordRepo,
     });
 
     const responsePayload = await uc.execute({
@@ -290,6 +447,7 @@ describe("TransactionProcessSessionUseCase", () => {
     const uc = new TransactionProcessSessionUseCase({
       appConfigRepo: mockedAppConfigRepo,
       atobaraiApiClientFactory,
+      transactionRecordRepo,
     });
 
     const responsePayload = await uc.execute({
@@ -333,6 +491,7 @@ describe("TransactionProcessSessionUseCase", () => {
       const uc = new TransactionProcessSessionUseCase({
         appConfigRepo: mockedAppConfigRepo,
         atobaraiApiClientFactory: realApiClientFactory,
+        transactionRecordRepo,
       });
 
       const responsePayload = await uc.execute({
@@ -373,6 +532,7 @@ describe("TransactionProcessSessionUseCase", () => {
       const uc = new TransactionProcessSessionUseCase({
         appConfigRepo: mockedAppConfigRepo,
         atobaraiApiClientFactory: realApiClientFactory,
+        transactionRecordRepo,
       });
 
       const responsePayload = await uc.execute({
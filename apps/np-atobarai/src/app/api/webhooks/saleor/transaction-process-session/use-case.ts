@@ -15,6 +15,7 @@ import {
 } from "@/modules/atobarai/api/atobarai-transaction-success-response";
 import { type IAtobaraiApiClientFactory } from "@/modules/atobarai/api/types";
 import { createAtobaraiCustomer } from "@/modules/atobarai/atobarai-customer";
+import { createAtobaraiDataFingerprint } from "@/modules/atobarai/atobarai-data-fingerprint";
 import { createAtobaraiDeliveryDestination } from "@/modules/atobarai/atobarai-delivery-destination";
 import { TransactionGoodBuilder } from "@/modules/atobarai/atobarai-goods/transaction-goods-builder";
 import { createAtobaraiMoney } from "@/modules/atobarai/atobarai-money";
@@ -27,29 +28,97 @@ import {
   ChargeFailureResult,
   ChargeSuccessResult,
 } from "@/modules/transaction-result/charge-result";
+import { type TransactionRecordRepo } from "@/modules/transactions-recording/types";
 
 import { BaseUseCase } from "../base-use-case";
-import { type AppIsNotConfiguredResponse } from "../saleor-webhook-responses";
+import { type AppIsNotConfiguredResponse, BrokenAppResponse } from "../saleor-webhook-responses";
 import { AtobaraiFailureTransactionError, InvalidEventValidationError } from "../use-case-errors";
 import { TransactionProcessSessionUseCaseResponse } from "./use-case-response";
 
 type UseCaseExecuteResult = Promise<
-  Result<TransactionProcessSessionUseCaseResponse, AppIsNotConfiguredResponse>
+  Result<TransactionProcessSessionUseCaseResponse, AppIsNotConfiguredResponse | BrokenAppResponse>
 >;
 
 export class TransactionProcessSessionUseCase extends BaseUseCase {
   protected logger = createLogger("TransactionProcessSessionUseCase");
   protected appConfigRepo: Pick<AppConfigRepo, "getChannelConfig">;
   private atobaraiApiClientFactory: IAtobaraiApiClientFactory;
+  private transactionRecordRepo: TransactionRecordRepo;
   private goodsBuilder = new TransactionGoodBuilder();
 
   constructor(deps: {
     appConfigRepo: Pick<AppConfigRepo, "getChannelConfig">;
     atobaraiApiClientFactory: IAtobaraiApiClientFactory;
+    transactionRecordRepo: TransactionRecordRepo;
   }) {
     super();
     this.atobaraiApiClientFactory = deps.atobaraiApiClientFactory;
     this.appConfigRepo = deps.appConfigRepo;
+    this.transactionRecordRepo = deps.transactionRecordRepo;
+  }
+
+  /**
+   * Changed transaction is checked again by NP, so pending credit check is saved (with new amount) or cleared.
+   * Fingerprint of sent data is saved too, so order update with the same data is not sent to NP again
+   */
+  private async savePendingCreditCheck({
+    transaction,
+    payload,
+    event,
+    saleorApiUrl,
+    appId,
+  }: {
+    transaction: AtobaraiTransactionSuccessResponse["results"][number];
+    payload: AtobaraiChangeTransactionPayload;
+    event: TransactionProcessSessionEventFragment;
+    saleorApiUrl: SaleorApiUrl;
+    appId: string;
+  }) {
+    const accessPattern = { saleorApiUrl, appId };
+
+    const transactionRecordResult =
+      await this.transactionRecordRepo.getTransactionByAtobaraiTransactionId(
+        accessPattern,
+        createAtobaraiTransactionId(transaction.np_transaction_id),
+      );
+
+    if (transactionRecordResult.isErr()) {
+      this.logger.error("Failed to get transaction from app transaction repo", {
+        error: transactionRecordResult.error,
+      });
+
+      return err(new BrokenAppResponse(transactionRecordResult.error));
+    }
+
+    const transactionRecord = transactionRecordResult.value;
+
+    const updateTransactionResult = await this.transactionRecordRepo.updateTransaction(
+      accessPattern,
+      transactionRecord
+        .withPendingCreditCheck(
+          transaction.authori_result === CreditCheckResult.Pending
+            ? {
+                saleorTransactionToken: createSaleorTransactionToken(event.transaction.token),
+                saleorChannelId: event.sourceObject.channel.id,
+                atobaraiMoney: createAtobaraiMoney({
+                  amount: event.action.amount,
+                  currency: event.action.currency,
+                }),
+              }
+            : null,
+        )
+        .withAtobaraiDataFingerprint(createAtobaraiDataFingerprint(payload.transactions[0])),
+    );
+
+    if (updateTransactionResult.isErr()) {
+      this.logger.error("Failed to update transaction in app transaction repo", {
+        error: updateTransactionResult.error,
+      });
+
+      return err(new BrokenAppResponse(updateTransactionResult.error));
+    }
+
+    return ok(null);
   }
 
   private prepareChangeTransactionPayload(
@@ -161,13 +230,15 @@ export class TransactionProcessSessionUseCase extends BaseUseCase {
       atobaraiEnvironment: atobaraiConfigResult.value.useSandbox ? "sandbox" : "production",
     });
 
-    const changeTransactionResult = await apiClient.changeTransaction(
-      this.prepareChangeTransactionPayload(event, atobaraiConfigResult.value),
-      {
-        rejectMultipleResults: true,
-      },
+    const changeTransactionPayload = this.prepareChangeTransactionPayload(
+      event,
+      atobaraiConfigResult.value,
     );
 
+    const changeTransactionResult = await apiClient.changeTransaction(changeTransactionPayload, {
+      rejectMultipleResults: true,
+    });
+
     if (changeTransactionResult.isErr()) {
       this.logger.warn("Failed to change transaction with Atobarai", {
         error: changeTransactionResult.error,
@@ -187,6 +258,18 @@ export class TransactionProcessSessionUseCase extends BaseUseCase {
 
     const transactionResult = changeTransactionResult.value;
 
+    const savePendingCreditCheckResult = await this.savePendingCreditCheck({
+      transaction: transactionResult.results[0],
+      payload: changeTransactionPayload,
+      event,
+      saleorApiUrl,
+      appId,
+    });
+
+    if (savePendingCreditCheckResult.isErr()) {
+      return err(savePendingCreditCheckResult.error);
+    }
+
     return this.mapAtobaraiResponseToUseCaseResponse(transactionResult.results[0]);
   }
 }
@@ -150,6 +150,10 @@ describe("TransactionRefundRequestedUseCase", () => {
             atobaraiTransactionId: mockedAtobaraiTransactionId,
             saleorTrackingNumber: null,
             fulfillmentMetadataShippingCompanyCode: null,
+            pendingCreditCheck: null,
+            cancelled: false,
+            atobaraiDataFingerprint: null,
+            shipments: [],
           }),
         );
 
@@ -227,6 +231,10 @@ describe("TransactionRefundRequestedUseCase", () => {
             atobaraiTransactionId: mockedAtobaraiTransactionId,
             saleorTrackingNumber: null,
             fulfillmentMetadataShippingCompanyCode: null,
+            pendingCreditCheck: null,
+            cancelled: false,
+            atobaraiDataFingerprint: null,
+            shipments: [],
           }),
         );
 
@@ -370,6 +378,10 @@ describe("TransactionRefundRequestedUseCase", () => {
               atobaraiTransactionId: mockedAtobaraiTransactionId,
               saleorTrackingNumber: null,
               fulfillmentMetadataShippingCompanyCode: null,
+              pendingCreditCheck: null,
+              cancelled: false,
+              atobaraiDataFingerprint: null,
+              shipments: [],
             }),
           );
 
@@ -564,6 +576,10 @@ describe("TransactionRefundRequestedUseCase", () => {
               atobaraiTransactionId: mockedAtobaraiTransactionId,
               saleorTrackingNumber: null,
               fulfillmentMetadataShippingCompanyCode: null,
+              pendingCreditCheck: null,
+              cancelled: false,
+              atobaraiDataFingerprint: null,
+              shipments: [],
             }),
           );
 
@@ -753,6 +769,10 @@ describe("TransactionRefundRequestedUseCase", () => {
               atobaraiTransactionId: mockedAtobaraiTransactionId,
               saleorTrackingNumber: null,
               fulfillmentMetadataShippingCompanyCode: null,
+              pendingCreditCheck: null,
+              cancelled: false,
+              atobaraiDataFingerprint: null,
+              shipments: [],
             }),
           );
 
@@ -927,6 +947,10 @@ describe("TransactionRefundRequestedUseCase", () => {
               atobaraiTransactionId: mockedAtobaraiTransactionId,
               saleorTrackingNumber: null,
               fulfillmentMetadataShippingCompanyCode: null,
+              pendingCreditCheck: null,
+              cancelled: false,
+              atobaraiDataFingerprint: null,
+              shipments: [],
             }),
           );
 
@@ -971,6 +995,10 @@ describe("TransactionRefundRequestedUseCase", () => {
             atobaraiTransactionId: mockedAtobaraiTransactionId,
             saleorTrackingNumber: "1234567890", // Fulfillment reported
             fulfillmentMetadataShippingCompanyCode: mockedAtobaraiShippingCompanyCode,
+            pendingCreditCheck: null,
+            cancelled: false,
+            atobaraiDataFingerprint: null,
+            shipments: [],
           }),
         );
 
@@ -1037,6 +1065,10 @@ describe("TransactionRefundRequestedUseCase", () => {
             atobaraiTransactionId: mockedAtobaraiTransactionId,
             saleorTrackingNumber: "1234567890", // Fulfillment reported
             fulfillmentMetadataShippingCompanyCode: mockedAtobaraiShippingCompanyCode,
+            pendingCreditCheck: null,
+            cancelled: false,
+            atobaraiDataFingerprint: null,
+            shipments: [],
           }),
         );
 
@@ -1185,6 +1217,10 @@ describe("TransactionRefundRequestedUseCase", () => {
             atobaraiTransactionId: mockedAtobaraiTransactionId,
             saleorTrackingNumber: "1234567890", // Fulfillment reported
             fulfillmentMetadataShippingCompanyCode: mockedAtobaraiShippingCompanyCode,
+            pendingCreditCheck: null,
+            cancelled: false,
+            atobaraiDataFingerprint: null,
+            shipments: [],
           }),
         );
 
@@ -1329,6 +1365,10 @@ describe("TransactionRefundRequestedUseCase", () => {
             atobaraiTransactionId: mockedAtobaraiTransactionId,
             saleorTrackingNumber: "1234567890", // Fulfillment reported
             fulfillmentMetadataShippingCompanyCode: mockedAtobaraiShippingCompanyCode,
+            pendingCreditCheck: null,
+            cancelled: false,
+            atobaraiDataFingerprint: null,
+            shipments: [],
           }),
         );
 
@@ -1442,6 +1482,10 @@ describe("TransactionRefundRequestedUseCase", () => {
             atobaraiTransactionId: mockedAtobaraiTransactionId,
             saleorTrackingNumber: "1234567890", // Fulfillment reported
             fulfillmentMetadataShippingCompanyCode: mockedAtobaraiShippingCompanyCode,
+            pendingCreditCheck: null,
+            cancelled: false,
+            atobaraiDataFingerprint: null,
+            shipments: [],
           }),
         );
 
@@ -1592,6 +1636,10 @@ describe("TransactionRefundRequestedUseCase", () => {
             atobaraiTransactionId: mockedAtobaraiTransactionId,
             saleorTrackingNumber: "1234567890", // Fulfillment reported
             fulfillmentMetadataShippingCompanyCode: mockedAtobaraiShippingCompanyCode,
+            pendingCreditCheck: null,
+            cancelled: false,
+            atobaraiDataFingerprint: null,
+            shipments: [],
           }),
         );
 
@@ -2,6 +2,8 @@ import { BaseError } from "@saleor/errors";
 
 export const AtobaraiFailureTransactionErrorPublicCode = "AtobaraiFailureTransactionError" as const;
 export const InvalidEventValidationErrorPublicCode = "InvalidEventValidationError" as const;
+export const TransactionAlreadyFulfilledErrorPublicCode =
+  "TransactionAlreadyFulfilledError" as const;
 
 export const AtobaraiFailureTransactionError = BaseError.subclass(
   "AtobaraiFailureTransactionError",
@@ -23,6 +25,17 @@ export const InvalidEventValidationError = BaseError.subclass("InvalidEventValid
   },
 });
 
+export const TransactionAlreadyFulfilledError = BaseError.subclass(
+  "TransactionAlreadyFulfilledError",
+  {
+    props: {
+      _brand: "TransactionAlreadyFulfilledError" as const,
+      publicCode: TransactionAlreadyFulfilledErrorPublicCode,
+      publicMessage: "Shipment is already reported to NP Atobarai, use refund instead",
+    },
+  },
+);
+
 export type UseCaseErrors = InstanceType<
   typeof AtobaraiFailureTransactionError | typeof InvalidEventValidationError
 >;
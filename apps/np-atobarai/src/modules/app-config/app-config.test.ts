@@ -3,6 +3,7 @@ import { describe, expect, it } from "vitest";
 import { createAtobaraiMerchantCode } from "@/modules/atobarai/atobarai-merchant-code";
 import { createAtobaraiSecretSpCode } from "@/modules/atobarai/atobarai-secret-sp-code";
 import { createAtobaraiTerminalId } from "@/modules/atobarai/atobarai-terminal-id";
+import { emptyEligibilityRules } from "@/modules/eligibility/eligibility-rules";
 
 import { createAtobaraiShippingCompanyCode } from "../atobarai/atobarai-shipping-company-code";
 import { AppChannelConfig } from "./app-config";
@@ -17,6 +18,7 @@ describe("AppChannelConfig", () => {
     merchantCode: createAtobaraiMerchantCode("M123"),
     secretSpCode: createAtobaraiSecretSpCode("SP456"),
     terminalId: createAtobaraiTerminalId("T789"),
+    eligibilityRules: emptyEligibilityRules,
   };
 
   it("should create a valid AppChannelConfig", () => {
@@ -38,4 +40,16 @@ describe("AppChannelConfig", () => {
       expect(result.error).toBeInstanceOf(AppChannelConfig.ValidationError);
     }
   });
+
+  it("should fail validation with malformed postal code range in eligibility rules", () => {
+    const result = AppChannelConfig.create({
+      ...validProps,
+      eligibilityRules: {
+        ...emptyEligibilityRules,
+        allowedPostalCodeRanges: [{ from: "100-0001", to: "1999999" }],
+      },
+    });
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(AppChannelConfig.ValidationError);
+  });
 });
@@ -6,6 +6,10 @@ import { z } from "zod";
 import { type AtobaraiMerchantCode } from "@/modules/atobarai/atobarai-merchant-code";
 import { type AtobaraiSecretSpCode } from "@/modules/atobarai/atobarai-secret-sp-code";
 import { type AtobaraiTerminalId } from "@/modules/atobarai/atobarai-terminal-id";
+import {
+  type EligibilityRules,
+  eligibilityRulesSchema,
+} from "@/modules/eligibility/eligibility-rules";
 
 import { type AtobaraiShippingCompanyCode } from "../atobarai/atobarai-shipping-company-code";
 
@@ -18,6 +22,7 @@ export type AppChannelConfigFields = {
   readonly merchantCode: AtobaraiMerchantCode;
   readonly secretSpCode: AtobaraiSecretSpCode;
   readonly terminalId: AtobaraiTerminalId;
+  readonly eligibilityRules: EligibilityRules;
 };
 
 const schema = z.object({
@@ -29,6 +34,7 @@ const schema = z.object({
   secretSpCode: z.string(),
   terminalId: z.string(),
   useSandbox: z.boolean(),
+  eligibilityRules: eligibilityRulesSchema,
 });
 
 export class AppChannelConfig implements AppChannelConfigFields, BaseConfig {
@@ -40,6 +46,7 @@ export class AppChannelConfig implements AppChannelConfigFields, BaseConfig {
   readonly merchantCode: AtobaraiMerchantCode;
   readonly secretSpCode: AtobaraiSecretSpCode;
   readonly terminalId: AtobaraiTerminalId;
+  readonly eligibilityRules: EligibilityRules;
 
   static ValidationError = BaseError.subclass("ValidationError", {
     props: {
@@ -56,6 +63,7 @@ export class AppChannelConfig implements AppChannelConfigFields, BaseConfig {
     this.secretSpCode = props.secretSpCode;
     this.shippingCompanyCode = props.shippingCompanyCode;
     this.skuAsName = props.skuAsName;
+    this.eligibilityRules = props.eligibilityRules;
   }
 
   private static validate(
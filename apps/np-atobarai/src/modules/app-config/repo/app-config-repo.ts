@@ -9,6 +9,7 @@ import { createAtobaraiSecretSpCode } from "@/modules/atobarai/atobarai-secret-s
 import { createAtobaraiShippingCompanyCode } from "@/modules/atobarai/atobarai-shipping-company-code";
 import { createAtobaraiTerminalId } from "@/modules/atobarai/atobarai-terminal-id";
 import { dynamoMainTable } from "@/modules/dynamodb/dynamodb-main-table";
+import { emptyEligibilityRules } from "@/modules/eligibility/eligibility-rules";
 
 const encryptor = new Encryptor(env.SECRET_KEY);
 
@@ -29,6 +30,16 @@ export const appConfigRepo = createDynamoConfigRepository<
         secretSpCode: createAtobaraiSecretSpCode(encryptor.decrypt(item.spCode)),
         terminalId: createAtobaraiTerminalId(item.terminalId),
         useSandbox: item.useSandbox,
+        // Configs saved before eligibility rules were introduced don't have them
+        eligibilityRules: item.eligibilityRules
+          ? {
+              maxOrderAmount: item.eligibilityRules.maxOrderAmount ?? null,
+              allowedPrefectures: item.eligibilityRules.allowedPrefectures,
+              allowedPostalCodeRanges: item.eligibilityRules.allowedPostalCodeRanges,
+              excludedShippingMethodIds: item.eligibilityRules.excludedShippingMethodIds,
+              excludedProductTypeIds: item.eligibilityRules.excludedProductTypeIds,
+            }
+          : emptyEligibilityRules,
       });
 
       if (result.isErr()) {
@@ -49,6 +60,13 @@ export const appConfigRepo = createDynamoConfigRepository<
         spCode: encryptor.encrypt(entity.secretSpCode),
         terminalId: entity.terminalId,
         useSandbox: entity.useSandbox,
+        eligibilityRules: {
+          maxOrderAmount: entity.eligibilityRules.maxOrderAmount ?? undefined,
+          allowedPrefectures: entity.eligibilityRules.allowedPrefectures,
+          allowedPostalCodeRanges: entity.eligibilityRules.allowedPostalCodeRanges,
+          excludedShippingMethodIds: entity.eligibilityRules.excludedShippingMethodIds,
+          excludedProductTypeIds: entity.eligibilityRules.excludedProductTypeIds,
+        },
       };
     },
   },
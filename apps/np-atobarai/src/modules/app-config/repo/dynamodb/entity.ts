@@ -1,4 +1,4 @@
-import { boolean, Entity, item, string } from "dynamodb-toolbox";
+import { boolean, Entity, item, list, map, number, string } from "dynamodb-toolbox";
 
 import { dynamoMainTable } from "@/modules/dynamodb/dynamodb-main-table";
 
@@ -13,6 +13,18 @@ export const appConfigSchema = item({
   merchantCode: string(),
   spCode: string(),
   terminalId: string(),
+  eligibilityRules: map({
+    maxOrderAmount: number().optional(),
+    allowedPrefectures: list(string()),
+    allowedPostalCodeRanges: list(
+      map({
+        from: string(),
+        to: string(),
+      }),
+    ),
+    excludedShippingMethodIds: list(string()),
+    excludedProductTypeIds: list(string()),
+  }).optional(),
 });
 
 export const appConfigEntity = new Entity({
@@ -72,6 +72,13 @@ describe("GetConfigsChannelsMappingTrpcHandler", () => {
     return expect(caller.testProcedure()).resolves.toMatchInlineSnapshot(`
       {
         "c-id1": AppChannelConfig {
+          "eligibilityRules": {
+            "allowedPostalCodeRanges": [],
+            "allowedPrefectures": [],
+            "excludedProductTypeIds": [],
+            "excludedShippingMethodIds": [],
+            "maxOrderAmount": null,
+          },
           "id": "111",
           "merchantCode": "merchant-code-1",
           "name": "Config 1",
@@ -1,5 +1,7 @@
 import { z } from "zod";
 
+import { eligibilityRulesSchema } from "@/modules/eligibility/eligibility-rules";
+
 export const newConfigInputSchema = z.object({
   name: z.string().min(1),
   merchantCode: z.string().min(1),
@@ -8,6 +10,7 @@ export const newConfigInputSchema = z.object({
   secretSpCode: z.string().min(1),
   terminalId: z.string().min(1),
   useSandbox: z.boolean(),
+  eligibilityRules: eligibilityRulesSchema.optional(),
 });
 
 export type NewConfigInput = z.infer<typeof newConfigInputSchema>;
@@ -139,6 +139,13 @@ describe("NewConfigTrpcHandler", () => {
       {
         "appId": "mocked-saleor-app-id",
         "config": {
+          "eligibilityRules": {
+            "allowedPostalCodeRanges": [],
+            "allowedPrefectures": [],
+            "excludedProductTypeIds": [],
+            "excludedShippingMethodIds": [],
+            "maxOrderAmount": null,
+          },
           "id": Any<String>,
           "merchantCode": "aaa",
           "name": "test",
@@ -11,6 +11,7 @@ import { createAtobaraiMerchantCode } from "@/modules/atobarai/atobarai-merchant
 import { createAtobaraiSecretSpCode } from "@/modules/atobarai/atobarai-secret-sp-code";
 import { createAtobaraiShippingCompanyCode } from "@/modules/atobarai/atobarai-shipping-company-code";
 import { createAtobaraiTerminalId } from "@/modules/atobarai/atobarai-terminal-id";
+import { emptyEligibilityRules } from "@/modules/eligibility/eligibility-rules";
 import { protectedClientProcedure } from "@/modules/trpc/protected-client-procedure";
 
 export class NewConfigTrpcHandler {
@@ -46,6 +47,7 @@ export class NewConfigTrpcHandler {
         terminalId: createAtobaraiTerminalId(input.terminalId),
         useSandbox: input.useSandbox,
         merchantCode: createAtobaraiMerchantCode(input.merchantCode),
+        eligibilityRules: input.eligibilityRules ?? emptyEligibilityRules,
       });
 
       if (configToSaveResult.isErr()) {
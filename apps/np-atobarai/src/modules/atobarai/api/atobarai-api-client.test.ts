@@ -10,10 +10,14 @@ import { mockedAtobaraiTerminalId } from "@/__tests__/mocks/atobarai/mocked-atob
 import { mockedAtobaraiTransactionId } from "@/__tests__/mocks/atobarai/mocked-atobarai-transaction-id";
 
 import { AtobaraiApiClient } from "./atobarai-api-client";
+import { createAtobaraiCancelFulfillmentReportPayload } from "./atobarai-cancel-fulfillment-report-payload";
 import { createAtobaraiCancelTransactionPayload } from "./atobarai-cancel-transaction-payload";
+import { createAtobaraiFindAuthorizationsPayload } from "./atobarai-find-authorizations-payload";
 import {
+  AtobaraiApiClientCancelFulfillmentReportError,
   AtobaraiApiClientCancelTransactionError,
   AtobaraiApiClientChangeTransactionError,
+  AtobaraiApiClientFindAuthorizationsError,
   AtobaraiApiClientFulfillmentReportError,
   AtobaraiApiClientRegisterTransactionError,
   AtobaraiMultipleResultsError,
@@ -593,6 +597,57 @@ describe("AtobaraiApiClient", () => {
     });
   });
 
+  describe("cancelFulfillmentReport", () => {
+    const payload = createAtobaraiCancelFulfillmentReportPayload({
+      atobaraiTransactionId: mockedAtobaraiTransactionId,
+    });
+
+    it("should make a PATCH request to the correct sandbox URL with proper headers and body", async () => {
+      const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+      fetchSpy.mockResolvedValue(
+        Response.json({ results: [{ np_transaction_id: mockedAtobaraiTransactionId }] }),
+      );
+
+      const result = await sandboxClient.cancelFulfillmentReport(payload);
+
+      expect(result._unsafeUnwrap()).toStrictEqual({
+        results: [{ np_transaction_id: mockedAtobaraiTransactionId }],
+      });
+      expect(fetchSpy).toHaveBeenCalledWith(new URL("shipments/cancel", sandboxUrl), {
+        method: "PATCH",
+        headers: {
+          "X-NP-Terminal-Id": mockedAtobaraiTerminalId,
+          Authorization: authorizationHeader,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(payload),
+      });
+    });
+
+    it("should return AtobaraiApiClientCancelFulfillmentReportError when fetch throws an error", async () => {
+      vi.spyOn(globalThis, "fetch").mockRejectedValue(new Error("Network error"));
+
+      const result = await sandboxClient.cancelFulfillmentReport(payload);
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(
+        AtobaraiApiClientCancelFulfillmentReportError,
+      );
+    });
+
+    it("should return AtobaraiApiClientCancelFulfillmentReportError when response is not ok", async () => {
+      vi.spyOn(globalThis, "fetch").mockResolvedValue(
+        Response.json({ errors: [{ codes: ["invalid_request"], id: "12345" }] }, { status: 400 }),
+      );
+
+      const result = await sandboxClient.cancelFulfillmentReport(payload);
+
+      expect(result._unsafeUnwrapErr()).toMatchInlineSnapshot(
+        `[AtobaraiApiClientCancelFulfillmentReportError: Atobarai API returned an error]`,
+      );
+    });
+  });
+
   describe("cancelTransaction", () => {
     it("should make a POST request to the correct sandbox URL with proper headers and body", async () => {
       const fetchSpy = vi.spyOn(globalThis, "fetch");
@@ -739,4 +794,110 @@ describe("AtobaraiApiClient", () => {
       );
     });
   });
+
+  describe("findAuthorizations", () => {
+    const payload = createAtobaraiFindAuthorizationsPayload({
+      atobaraiTransactionIds: [mockedAtobaraiTransactionId],
+    });
+
+    it("should make a POST request to the correct sandbox URL with proper headers and body", async () => {
+      const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+      fetchSpy.mockResolvedValue(
+        Response.json({
+          results: [
+            {
+              np_transaction_id: mockedAtobaraiTransactionId,
+              authori_result: "00",
+            },
+          ],
+        }),
+      );
+
+      await sandboxClient.findAuthorizations(payload);
+
+      expect(fetchSpy).toHaveBeenCalledWith(new URL("authorizations/find", sandboxUrl), {
+        method: "POST",
+        headers: {
+          "X-NP-Terminal-Id": mockedAtobaraiTerminalId,
+          Authorization: authorizationHeader,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(payload),
+      });
+    });
+
+    it("should return AtobaraiApiClientFindAuthorizationsError when fetch throws an error", async () => {
+      const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+      fetchSpy.mockRejectedValue(new Error("Network error"));
+
+      const result = await sandboxClient.findAuthorizations(payload);
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(AtobaraiApiClientFindAuthorizationsError);
+    });
+
+    it("should return AtobaraiApiClientFindAuthorizationsError when response is not ok", async () => {
+      const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+      fetchSpy.mockResolvedValue(
+        Response.json(
+          {
+            errors: [
+              {
+                codes: ["E0100002"],
+                id: "12345",
+              },
+            ],
+          },
+          { status: 400 },
+        ),
+      );
+
+      const result = await sandboxClient.findAuthorizations(payload);
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(AtobaraiApiClientFindAuthorizationsError);
+      expect(result._unsafeUnwrapErr()).toMatchInlineSnapshot(
+        `[AtobaraiApiClientFindAuthorizationsError: Atobarai API returned an error]`,
+      );
+    });
+
+    it("should return results of all transactions when NP Atobarai responds with success", async () => {
+      const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+      fetchSpy.mockResolvedValue(
+        Response.json({
+          results: [
+            {
+              np_transaction_id: mockedAtobaraiTransactionId,
+              authori_result: "00",
+            },
+            {
+              np_transaction_id: "np_trans_02",
+              authori_result: "20",
+              authori_ng: "RE001",
+            },
+          ],
+        }),
+      );
+
+      const result = await sandboxClient.findAuthorizations(payload);
+
+      expect(result._unsafeUnwrap()).toMatchInlineSnapshot(`
+        {
+          "results": [
+            {
+              "authori_result": "00",
+              "np_transaction_id": "np_trans_id",
+            },
+            {
+              "authori_ng": "RE001",
+              "authori_result": "20",
+              "np_transaction_id": "np_trans_02",
+            },
+          ],
+        }
+      `);
+    });
+  });
 });
@@ -6,6 +6,7 @@ import { createLogger } from "@/lib/logger";
 import { type AtobaraiMerchantCode } from "../atobarai-merchant-code";
 import { type AtobaraiSecretSpCode } from "../atobarai-secret-sp-code";
 import { type AtobaraiTerminalId } from "../atobarai-terminal-id";
+import { type AtobaraiCancelFulfillmentReportPayload } from "./atobarai-cancel-fulfillment-report-payload";
 import { type AtobaraiCancelTransactionPayload } from "./atobarai-cancel-transaction-payload";
 import {
   type AtobaraiCancelTransactionSuccessResponse,
@@ -13,6 +14,7 @@ import {
 } from "./atobarai-cancel-transaction-success-response";
 import { type AtobaraiChangeTransactionPayload } from "./atobarai-change-transaction-payload";
 import { createAtobaraiErrorResponse } from "./atobarai-error-response";
+import { type AtobaraiFindAuthorizationsPayload } from "./atobarai-find-authorizations-payload";
 import { type AtobaraiFulfillmentReportPayload } from "./atobarai-fulfillment-report-payload";
 import {
   type AtobaraiFulfillmentReportSuccessResponse,
@@ -25,8 +27,10 @@ import {
 } from "./atobarai-transaction-success-response";
 import {
   type AtobaraiApiChangeTransactionErrors,
+  AtobaraiApiClientCancelFulfillmentReportError,
   AtobaraiApiClientCancelTransactionError,
   AtobaraiApiClientChangeTransactionError,
+  AtobaraiApiClientFindAuthorizationsError,
   AtobaraiApiClientFulfillmentReportError,
   AtobaraiApiClientRegisterTransactionError,
   AtobaraiApiClientValidationError,
@@ -325,6 +329,67 @@ export class AtobaraiApiClient implements IAtobaraiApiClient {
     return ok(parsedResponse);
   }
 
+  /**
+   * Withdraws shipment report of the transaction, so it can be reported again with corrected tracking number
+   */
+  async cancelFulfillmentReport(
+    payload: AtobaraiCancelFulfillmentReportPayload,
+    options?: {
+      rejectMultipleResults?: boolean;
+    },
+  ): Promise<
+    Result<AtobaraiFulfillmentReportSuccessResponse, AtobaraiApiClientCancelFulfillmentReportError>
+  > {
+    const requestUrl = new URL("shipments/cancel", this.getBaseUrl());
+
+    const result = await ResultAsync.fromPromise(
+      fetch(requestUrl, {
+        method: "PATCH",
+        headers: this.getHeaders(),
+        body: JSON.stringify(payload),
+      }),
+      (error) => BaseError.normalize(error),
+    );
+
+    if (result.isErr()) {
+      return err(
+        new AtobaraiApiClientCancelFulfillmentReportError("Failed to cancel fulfillment report", {
+          cause: result.error,
+        }),
+      );
+    }
+
+    if (!result.value.ok) {
+      const response = await result.value.json();
+
+      const errors = this.convertErrorResponseToNormalizedErrors(response);
+
+      this.logger.warn("Atobarai API returned an error on cancelFulfillmentReport", {
+        status: result.value.status,
+        errorCodes: errors.map((e) => e.code),
+        response,
+      });
+
+      return err(
+        new AtobaraiApiClientCancelFulfillmentReportError("Atobarai API returned an error", {
+          errors,
+        }),
+      );
+    }
+
+    const response = await result.value.json();
+
+    const parsedResponse = createAtobaraiFulfillmentReportSuccessResponse(response);
+
+    if (options?.rejectMultipleResults) {
+      if (parsedResponse.results.length > 1) {
+        return err(new AtobaraiMultipleResultsError("Multiple results found"));
+      }
+    }
+
+    return ok(parsedResponse);
+  }
+
   async cancelTransaction(
     payload: AtobaraiCancelTransactionPayload,
     options?: {
@@ -382,4 +447,52 @@ export class AtobaraiApiClient implements IAtobaraiApiClient {
 
     return ok(parsedResponse);
   }
+
+  /**
+   * Looks up current credit check result of transactions - e.g. ones that were pending manual review by NP
+   */
+  async findAuthorizations(
+    payload: AtobaraiFindAuthorizationsPayload,
+  ): Promise<Result<AtobaraiTransactionSuccessResponse, AtobaraiApiClientFindAuthorizationsError>> {
+    const requestUrl = new URL("authorizations/find", this.getBaseUrl());
+
+    const result = await ResultAsync.fromPromise(
+      fetch(requestUrl, {
+        method: "POST",
+        headers: this.getHeaders(),
+        body: JSON.stringify(payload),
+      }),
+      (error) => BaseError.normalize(error),
+    );
+
+    if (result.isErr()) {
+      return err(
+        new AtobaraiApiClientFindAuthorizationsError("Failed to find authorizations", {
+          cause: result.error,
+        }),
+      );
+    }
+
+    if (!result.value.ok) {
+      const response = await result.value.json();
+
+      const errors = this.convertErrorResponseToNormalizedErrors(response);
+
+      this.logger.warn("Atobarai API returned an error on findAuthorizations", {
+        status: result.value.status,
+        errorCodes: errors.map((e) => e.code),
+        response,
+      });
+
+      return err(
+        new AtobaraiApiClientFindAuthorizationsError("Atobarai API returned an error", {
+          errors,
+        }),
+      );
+    }
+
+    const response = await result.value.json();
+
+    return ok(createAtobaraiTransactionSuccessResponse(response));
+  }
 }
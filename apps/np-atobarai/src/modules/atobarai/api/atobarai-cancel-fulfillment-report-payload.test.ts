@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+
+import { mockedAtobaraiTransactionId } from "@/__tests__/mocks/atobarai/mocked-atobarai-transaction-id";
+
+import {
+  type AtobaraiCancelFulfillmentReportPayload,
+  createAtobaraiCancelFulfillmentReportPayload,
+} from "./atobarai-cancel-fulfillment-report-payload";
+
+describe("createAtobaraiCancelFulfillmentReportPayload", () => {
+  it("should create a valid AtobaraiCancelFulfillmentReportPayload", () => {
+    const result = createAtobaraiCancelFulfillmentReportPayload({
+      atobaraiTransactionId: mockedAtobaraiTransactionId,
+    });
+
+    expect(result).toMatchInlineSnapshot(`
+      {
+        "transactions": [
+          {
+            "np_transaction_id": "np_trans_id",
+          },
+        ],
+      }
+    `);
+  });
+
+  it("shouldn't be assignable without createAtobaraiCancelFulfillmentReportPayload", () => {
+    // @ts-expect-error - if this fails - it means the type is not branded
+    const testValue: AtobaraiCancelFulfillmentReportPayload = { transactions: [] };
+
+    expect(testValue).toStrictEqual({
+      transactions: [],
+    });
+  });
+});
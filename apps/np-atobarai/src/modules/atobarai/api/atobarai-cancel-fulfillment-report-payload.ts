@@ -0,0 +1,53 @@
+import { BaseError } from "@saleor/errors";
+import { z } from "zod";
+
+import { zodReadableError } from "@/lib/zod-readable-error";
+
+import {
+  type AtobaraiTransactionId,
+  AtobaraiTransactionIdSchema,
+} from "../atobarai-transaction-id";
+
+const schema = z
+  .object({
+    transactions: z.array(
+      z.object({
+        np_transaction_id: AtobaraiTransactionIdSchema,
+      }),
+    ),
+  })
+  .brand("AtobaraiCancelFulfillmentReportPayload");
+
+export const AtobaraiCancelFulfillmentReportPayloadValidationError = BaseError.subclass(
+  "AtobaraiCancelFulfillmentReportPayloadValidationError",
+  {
+    props: {
+      _brand: "AtobaraiCancelFulfillmentReportPayloadValidationError" as const,
+    },
+  },
+);
+
+export const createAtobaraiCancelFulfillmentReportPayload = (args: {
+  atobaraiTransactionId: AtobaraiTransactionId;
+}): AtobaraiCancelFulfillmentReportPayload => {
+  const parseResult = schema.safeParse({
+    transactions: [
+      {
+        np_transaction_id: args.atobaraiTransactionId,
+      },
+    ],
+  });
+
+  if (!parseResult.success) {
+    const readableError = zodReadableError(parseResult.error);
+
+    throw new AtobaraiCancelFulfillmentReportPayloadValidationError(
+      `Invalid cancel fulfillment report payload: ${readableError.message}`,
+      { cause: readableError },
+    );
+  }
+
+  return parseResult.data;
+};
+
+export type AtobaraiCancelFulfillmentReportPayload = z.infer<typeof schema>;
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+
+import { mockedAtobaraiTransactionId } from "@/__tests__/mocks/atobarai/mocked-atobarai-transaction-id";
+import { createAtobaraiTransactionId } from "@/modules/atobarai/atobarai-transaction-id";
+
+import {
+  type AtobaraiFindAuthorizationsPayload,
+  AtobaraiFindAuthorizationsPayloadValidationError,
+  createAtobaraiFindAuthorizationsPayload,
+} from "./atobarai-find-authorizations-payload";
+
+describe("createAtobaraiFindAuthorizationsPayload", () => {
+  it("should create a valid AtobaraiFindAuthorizationsPayload", () => {
+    const result = createAtobaraiFindAuthorizationsPayload({
+      atobaraiTransactionIds: [
+        mockedAtobaraiTransactionId,
+        createAtobaraiTransactionId("np_trans_02"),
+      ],
+    });
+
+    expect(result).toMatchInlineSnapshot(`
+      {
+        "transactions": [
+          {
+            "np_transaction_id": "np_trans_id",
+          },
+          {
+            "np_transaction_id": "np_trans_02",
+          },
+        ],
+      }
+    `);
+  });
+
+  it("should throw AtobaraiFindAuthorizationsPayloadValidationError when no transaction ids are passed", () => {
+    expect(() =>
+      createAtobaraiFindAuthorizationsPayload({
+        atobaraiTransactionIds: [],
+      }),
+    ).toThrowError(AtobaraiFindAuthorizationsPayloadValidationError);
+  });
+
+  it("shouldn't be assignable without createAtobaraiFindAuthorizationsPayload", () => {
+    // @ts-expect-error - if this fails - it means the type is not branded
+    const testValue: AtobaraiFindAuthorizationsPayload = { transactions: [] };
+
+    expect(testValue).toStrictEqual({
+      transactions: [],
+    });
+  });
+});
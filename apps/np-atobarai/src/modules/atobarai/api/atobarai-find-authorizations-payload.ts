@@ -0,0 +1,53 @@
+import { BaseError } from "@saleor/errors";
+import { z } from "zod";
+
+import { zodReadableError } from "@/lib/zod-readable-error";
+
+import {
+  type AtobaraiTransactionId,
+  AtobaraiTransactionIdSchema,
+} from "../atobarai-transaction-id";
+
+const schema = z
+  .object({
+    transactions: z
+      .array(
+        z.object({
+          np_transaction_id: AtobaraiTransactionIdSchema,
+        }),
+      )
+      .min(1),
+  })
+  .brand("AtobaraiFindAuthorizationsPayload");
+
+export const AtobaraiFindAuthorizationsPayloadValidationError = BaseError.subclass(
+  "AtobaraiFindAuthorizationsPayloadValidationError",
+  {
+    props: {
+      _brand: "AtobaraiFindAuthorizationsPayloadValidationError" as const,
+    },
+  },
+);
+
+export const createAtobaraiFindAuthorizationsPayload = (args: {
+  atobaraiTransactionIds: AtobaraiTransactionId[];
+}): AtobaraiFindAuthorizationsPayload => {
+  const parseResult = schema.safeParse({
+    transactions: args.atobaraiTransactionIds.map((atobaraiTransactionId) => ({
+      np_transaction_id: atobaraiTransactionId,
+    })),
+  });
+
+  if (!parseResult.success) {
+    const readableError = zodReadableError(parseResult.error);
+
+    throw new AtobaraiFindAuthorizationsPayloadValidationError(
+      `Invalid find authorizations payload: ${readableError.message}`,
+      { cause: readableError },
+    );
+  }
+
+  return parseResult.data;
+};
+
+export type AtobaraiFindAuthorizationsPayload = z.infer<typeof schema>;
@@ -68,6 +68,6 @@ export const createAtobaraiTransactionSuccessResponse = (
 };
 
 /**
- * Success response used for registering and updating transactions in Atobarai.
+ * Success response used for registering and updating transactions in Atobarai, also returned by authorizations lookup.
  */
 export type AtobaraiTransactionSuccessResponse = z.infer<typeof schema>;
@@ -4,9 +4,11 @@ import { type Result } from "neverthrow";
 import { type AtobaraiMerchantCode } from "../atobarai-merchant-code";
 import { type AtobaraiSecretSpCode } from "../atobarai-secret-sp-code";
 import { type AtobaraiTerminalId } from "../atobarai-terminal-id";
+import { type AtobaraiCancelFulfillmentReportPayload } from "./atobarai-cancel-fulfillment-report-payload";
 import { type AtobaraiCancelTransactionPayload } from "./atobarai-cancel-transaction-payload";
 import { type AtobaraiCancelTransactionSuccessResponse } from "./atobarai-cancel-transaction-success-response";
 import { type AtobaraiChangeTransactionPayload } from "./atobarai-change-transaction-payload";
+import { type AtobaraiFindAuthorizationsPayload } from "./atobarai-find-authorizations-payload";
 import { type AtobaraiFulfillmentReportPayload } from "./atobarai-fulfillment-report-payload";
 import { type AtobaraiFulfillmentReportSuccessResponse } from "./atobarai-fulfillment-report-success-response";
 import { type AtobaraiRegisterTransactionPayload } from "./atobarai-register-transaction-payload";
@@ -24,10 +26,18 @@ export type AtobaraiApiClientFulfillmentReportError = InstanceType<
   typeof AtobaraiApiClientFulfillmentReportError | typeof AtobaraiMultipleResultsError
 >;
 
+export type AtobaraiApiClientCancelFulfillmentReportError = InstanceType<
+  typeof AtobaraiApiClientCancelFulfillmentReportError | typeof AtobaraiMultipleResultsError
+>;
+
 export type AtobaraiApiClientCancelTransactionError = InstanceType<
   typeof AtobaraiApiClientCancelTransactionError | typeof AtobaraiMultipleResultsError
 >;
 
+export type AtobaraiApiClientFindAuthorizationsError = InstanceType<
+  typeof AtobaraiApiClientFindAuthorizationsError
+>;
+
 export type AtobaraiEnvironment = "sandbox" | "production";
 
 export interface IAtobaraiApiClientFactory {
@@ -63,6 +73,14 @@ export interface IAtobaraiApiClient {
   ) => Promise<
     Result<AtobaraiFulfillmentReportSuccessResponse, AtobaraiApiClientFulfillmentReportError>
   >;
+  cancelFulfillmentReport: (
+    payload: AtobaraiCancelFulfillmentReportPayload,
+    options?: {
+      rejectMultipleResults?: boolean;
+    },
+  ) => Promise<
+    Result<AtobaraiFulfillmentReportSuccessResponse, AtobaraiApiClientCancelFulfillmentReportError>
+  >;
   cancelTransaction: (
     payload: AtobaraiCancelTransactionPayload,
     options?: {
@@ -71,6 +89,11 @@ export interface IAtobaraiApiClient {
   ) => Promise<
     Result<AtobaraiCancelTransactionSuccessResponse, AtobaraiApiClientCancelTransactionError>
   >;
+  findAuthorizations: (
+    payload: AtobaraiFindAuthorizationsPayload,
+  ) => Promise<
+    Result<AtobaraiTransactionSuccessResponse, AtobaraiApiClientFindAuthorizationsError>
+  >;
 }
 
 export const AtobaraiApiClientRegisterTransactionErrorPublicCode =
@@ -128,6 +151,20 @@ export const AtobaraiApiClientFulfillmentReportError = BaseError.subclass(
   },
 );
 
+export const AtobaraiApiClientCancelFulfillmentReportErrorPublicCode =
+  "AtobaraiCancelFulfillmentReportError" as const;
+
+export const AtobaraiApiClientCancelFulfillmentReportError = BaseError.subclass(
+  "AtobaraiApiClientCancelFulfillmentReportError",
+  {
+    props: {
+      _brand: "AtobaraiApiClientCancelFulfillmentReportError" as const,
+      publicCode: AtobaraiApiClientCancelFulfillmentReportErrorPublicCode,
+      publicMessage: "Failed to cancel fulfillment report with Atobarai",
+    },
+  },
+);
+
 export const AtobaraiApiClientCancelTransactionErrorPublicCode =
   "AtobaraiCancelTransactionError" as const;
 
@@ -142,6 +179,20 @@ export const AtobaraiApiClientCancelTransactionError = BaseError.subclass(
   },
 );
 
+export const AtobaraiApiClientFindAuthorizationsErrorPublicCode =
+  "AtobaraiFindAuthorizationsError" as const;
+
+export const AtobaraiApiClientFindAuthorizationsError = BaseError.subclass(
+  "AtobaraiApiClientFindAuthorizationsError",
+  {
+    props: {
+      _brand: "AtobaraiApiClientFindAuthorizationsError" as const,
+      publicCode: AtobaraiApiClientFindAuthorizationsErrorPublicCode,
+      publicMessage: "Failed to find authorizations in Atobarai",
+    },
+  },
+);
+
 export const AtobaraiMultipleResultsErrorPublicCode = "AtobaraiMultipleResultsError" as const;
 
 export const AtobaraiMultipleResultsError = BaseError.subclass("AtobaraiMultipleResultsError", {
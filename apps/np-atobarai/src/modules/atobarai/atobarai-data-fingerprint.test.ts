@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+
+import { mockedAtobaraiCustomer } from "@/__tests__/mocks/atobarai/mocked-atobarai-customer";
+import { mockedAtobaraiDeliveryDestination } from "@/__tests__/mocks/atobarai/mocked-atobarai-delivery-destination";
+import { mockedAtobaraiGoods } from "@/__tests__/mocks/atobarai/mocked-atobarai-goods";
+
+import { createAtobaraiDataFingerprint } from "./atobarai-data-fingerprint";
+
+describe("createAtobaraiDataFingerprint", () => {
+  const transaction = {
+    billed_amount: 1000,
+    customer: mockedAtobaraiCustomer,
+    dest_customer: mockedAtobaraiDeliveryDestination,
+    goods: mockedAtobaraiGoods,
+  };
+
+  it("should return the same fingerprint for the same data", () => {
+    expect(createAtobaraiDataFingerprint(transaction)).toBe(
+      createAtobaraiDataFingerprint({ ...transaction }),
+    );
+  });
+
+  it("should ignore fields not related to order data", () => {
+    expect(
+      createAtobaraiDataFingerprint({
+        ...transaction,
+        // @ts-expect-error - payload transactions contain more fields than fingerprint uses
+        shop_order_date: "2025-07-08",
+      }),
+    ).toBe(createAtobaraiDataFingerprint(transaction));
+  });
+
+  it("should return different fingerprint when billed amount changes", () => {
+    expect(createAtobaraiDataFingerprint({ ...transaction, billed_amount: 2000 })).not.toBe(
+      createAtobaraiDataFingerprint(transaction),
+    );
+  });
+
+  it("should return different fingerprint when delivery destination changes", () => {
+    expect(
+      createAtobaraiDataFingerprint({
+        ...transaction,
+        dest_customer: { ...mockedAtobaraiDeliveryDestination, address: "東京都千代田区" },
+      }),
+    ).not.toBe(createAtobaraiDataFingerprint(transaction));
+  });
+});
@@ -0,0 +1,35 @@
+import { createHash } from "node:crypto";
+
+import { z } from "zod";
+
+import { type AtobaraiCustomer } from "./atobarai-customer";
+import { type AtobaraiDeliveryDestination } from "./atobarai-delivery-destination";
+import { type AtobaraiGoods } from "./atobarai-goods/atobarai-goods";
+
+const schema = z.string().length(64).brand("AtobaraiDataFingerprint");
+
+export type AtobaraiDataFingerprint = z.infer<typeof schema>;
+
+/**
+ * Hash of order data sent to NP (billed amount, customer, delivery destination and goods). Comparing it tells if order
+ * changed since last registration, without storing customer data in the app.
+ */
+export const createAtobaraiDataFingerprint = (transaction: {
+  billed_amount: number;
+  customer: AtobaraiCustomer;
+  dest_customer: AtobaraiDeliveryDestination;
+  goods: AtobaraiGoods;
+}): AtobaraiDataFingerprint => {
+  // Nested objects are outputs of zod schemas, so their key order is stable
+  const serialized = JSON.stringify([
+    transaction.billed_amount,
+    transaction.customer,
+    transaction.dest_customer,
+    transaction.goods,
+  ]);
+
+  return schema.parse(createHash("sha256").update(serialized).digest("hex"));
+};
+
+export const parseAtobaraiDataFingerprint = (raw: string): AtobaraiDataFingerprint =>
+  schema.parse(raw);
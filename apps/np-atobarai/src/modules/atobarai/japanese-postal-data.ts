@@ -1,4 +1,4 @@
-import { Oaza } from "jp-zipcode-lookup";
+import { Oaza, Pref } from "jp-zipcode-lookup";
 
 export class JapanesePostalData {
   getNeighbourhood(postalCode: string) {
@@ -9,4 +9,12 @@ export class JapanesePostalData {
 
     return hoods[0];
   }
+
+  getPrefecture(postalCode: string) {
+    const formattedCode = postalCode.replaceAll("-", "").trim();
+
+    const prefectures = Pref.byZipcode(formattedCode);
+
+    return prefectures[0];
+  }
 }
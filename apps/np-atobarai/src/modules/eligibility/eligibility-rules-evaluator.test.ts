@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+
+import { emptyEligibilityRules } from "./eligibility-rules";
+import {
+  EligibilityRulesEvaluator,
+  EligibilityRuleViolationReason,
+} from "./eligibility-rules-evaluator";
+
+describe("EligibilityRulesEvaluator", () => {
+  const evaluator = new EligibilityRulesEvaluator();
+
+  const input = {
+    totalAmount: 10_000,
+    shippingAddress: {
+      postalCode: "100-0001",
+      countryArea: "Tokyo",
+    },
+    shippingMethodId: "shipping-method-id",
+    productTypeIds: ["product-type-id"],
+  };
+
+  it("should pass when no rules are configured", () => {
+    const result = evaluator.evaluate({ rules: emptyEligibilityRules, input });
+
+    expect(result._unsafeUnwrap()).toBeNull();
+  });
+
+  it("should pass when all rules are satisfied", () => {
+    const result = evaluator.evaluate({
+      rules: {
+        maxOrderAmount: 10_000,
+        allowedPrefectures: ["東京都"],
+        allowedPostalCodeRanges: [{ from: "1000000", to: "1099999" }],
+        excludedShippingMethodIds: ["other-shipping-method-id"],
+        excludedProductTypeIds: ["other-product-type-id"],
+      },
+      input,
+    });
+
+    expect(result._unsafeUnwrap()).toBeNull();
+  });
+
+  it("should return violation when order total exceeds max amount", () => {
+    const result = evaluator.evaluate({
+      rules: { ...emptyEligibilityRules, maxOrderAmount: 9_999 },
+      input,
+    });
+
+    expect(result._unsafeUnwrapErr()).toStrictEqual({
+      reason: EligibilityRuleViolationReason.MaxOrderAmountExceeded,
+      message: "Order total 10000 exceeds the limit of 9999",
+    });
+  });
+
+  it("should return violation when prefecture resolved from postal code is not allowed", () => {
+    const result = evaluator.evaluate({
+      rules: { ...emptyEligibilityRules, allowedPrefectures: ["北海道"] },
+      input,
+    });
+
+    expect(result._unsafeUnwrapErr().reason).toBe(
+      EligibilityRuleViolationReason.PrefectureNotAllowed,
+    );
+  });
+
+  it("should fall back to country area when prefecture can't be resolved from postal code", () => {
+    const result = evaluator.evaluate({
+      rules: { ...emptyEligibilityRules, allowedPrefectures: ["Tokyo"] },
+      input: {
+        ...input,
+        shippingAddress: { postalCode: "0000000", countryArea: "Tokyo" },
+      },
+    });
+
+    expect(result._unsafeUnwrap()).toBeNull();
+  });
+
+  it("should return violation when postal code is outside allowed ranges", () => {
+    const result = evaluator.evaluate({
+      rules: {
+        ...emptyEligibilityRules,
+        allowedPostalCodeRanges: [{ from: "0600000", to: "0699999" }],
+      },
+      input,
+    });
+
+    expect(result._unsafeUnwrapErr().reason).toBe(
+      EligibilityRuleViolationReason.PostalCodeNotAllowed,
+    );
+  });
+
+  it("should return violation when postal code is malformed and ranges are configured", () => {
+    const result = evaluator.evaluate({
+      rules: {
+        ...emptyEligibilityRules,
+        allowedPostalCodeRanges: [{ from: "0000000", to: "9999999" }],
+      },
+      input: {
+        ...input,
+        shippingAddress: { ...input.shippingAddress, postalCode: "100" },
+      },
+    });
+
+    expect(result._unsafeUnwrapErr().reason).toBe(
+      EligibilityRuleViolationReason.PostalCodeNotAllowed,
+    );
+  });
+
+  it("should return violation when shipping method is excluded", () => {
+    const result = evaluator.evaluate({
+      rules: { ...emptyEligibilityRules, excludedShippingMethodIds: ["shipping-method-id"] },
+      input,
+    });
+
+    expect(result._unsafeUnwrapErr().reason).toBe(
+      EligibilityRuleViolationReason.ShippingMethodExcluded,
+    );
+  });
+
+  it("should return violation when any product type is excluded", () => {
+    const result = evaluator.evaluate({
+      rules: { ...emptyEligibilityRules, excludedProductTypeIds: ["product-type-id"] },
+      input: { ...input, productTypeIds: ["other-product-type-id", "product-type-id"] },
+    });
+
+    expect(result._unsafeUnwrapErr().reason).toBe(
+      EligibilityRuleViolationReason.ProductTypeExcluded,
+    );
+  });
+});
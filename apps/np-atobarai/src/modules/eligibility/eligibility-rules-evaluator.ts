@@ -0,0 +1,109 @@
+import { err, ok, type Result } from "neverthrow";
+
+import { JapanesePostalData } from "@/modules/atobarai/japanese-postal-data";
+
+import { type EligibilityRules } from "./eligibility-rules";
+
+export const EligibilityRuleViolationReason = {
+  MaxOrderAmountExceeded: "MAX_ORDER_AMOUNT_EXCEEDED",
+  PrefectureNotAllowed: "PREFECTURE_NOT_ALLOWED",
+  PostalCodeNotAllowed: "POSTAL_CODE_NOT_ALLOWED",
+  ShippingMethodExcluded: "SHIPPING_METHOD_EXCLUDED",
+  ProductTypeExcluded: "PRODUCT_TYPE_EXCLUDED",
+} as const;
+
+export type EligibilityRuleViolationReason =
+  (typeof EligibilityRuleViolationReason)[keyof typeof EligibilityRuleViolationReason];
+
+export type EligibilityRuleViolation = {
+  reason: EligibilityRuleViolationReason;
+  message: string;
+};
+
+export type EligibilityRulesEvaluationInput = {
+  totalAmount: number;
+  shippingAddress: {
+    postalCode: string;
+    countryArea: string;
+  };
+  shippingMethodId: string | null;
+  productTypeIds: string[];
+};
+
+export class EligibilityRulesEvaluator {
+  /**
+   * Prefecture is resolved from postal code using japanese post official data,
+   * so we don't depend on how storefront filled the country area.
+   */
+  private postalDataResolver = new JapanesePostalData();
+
+  evaluate(params: {
+    rules: EligibilityRules;
+    input: EligibilityRulesEvaluationInput;
+  }): Result<null, EligibilityRuleViolation> {
+    const { rules, input } = params;
+
+    if (rules.maxOrderAmount !== null && input.totalAmount > rules.maxOrderAmount) {
+      return err({
+        reason: EligibilityRuleViolationReason.MaxOrderAmountExceeded,
+        message: `Order total ${input.totalAmount} exceeds the limit of ${rules.maxOrderAmount}`,
+      });
+    }
+
+    const postalCode = input.shippingAddress.postalCode.replaceAll("-", "").trim();
+
+    if (rules.allowedPrefectures.length > 0) {
+      const prefectureCandidates = [
+        this.postalDataResolver.getPrefecture(postalCode)?.name,
+        input.shippingAddress.countryArea,
+      ];
+
+      const isPrefectureAllowed = prefectureCandidates.some(
+        (prefecture) => !!prefecture && rules.allowedPrefectures.includes(prefecture),
+      );
+
+      if (!isPrefectureAllowed) {
+        return err({
+          reason: EligibilityRuleViolationReason.PrefectureNotAllowed,
+          message: "Shipping address prefecture is not supported",
+        });
+      }
+    }
+
+    if (rules.allowedPostalCodeRanges.length > 0) {
+      const isPostalCodeAllowed = rules.allowedPostalCodeRanges.some(
+        (range) => postalCode >= range.from && postalCode <= range.to,
+      );
+
+      if (!/^\d{7}$/.test(postalCode) || !isPostalCodeAllowed) {
+        return err({
+          reason: EligibilityRuleViolationReason.PostalCodeNotAllowed,
+          message: "Shipping address postal code is not supported",
+        });
+      }
+    }
+
+    if (
+      input.shippingMethodId &&
+      rules.excludedShippingMethodIds.includes(input.shippingMethodId)
+    ) {
+      return err({
+        reason: EligibilityRuleViolationReason.ShippingMethodExcluded,
+        message: "Selected shipping method is not supported",
+      });
+    }
+
+    const excludedProductTypeId = input.productTypeIds.find((productTypeId) =>
+      rules.excludedProductTypeIds.includes(productTypeId),
+    );
+
+    if (excludedProductTypeId) {
+      return err({
+        reason: EligibilityRuleViolationReason.ProductTypeExcluded,
+        message: "Some of the products can't be paid with NP Atobarai",
+      });
+    }
+
+    return ok(null);
+  }
+}
@@ -0,0 +1,30 @@
+import { z } from "zod";
+
+export const postalCodeRangeSchema = z.object({
+  from: z.string().regex(/^\d{7}$/),
+  to: z.string().regex(/^\d{7}$/),
+});
+
+export const eligibilityRulesSchema = z.object({
+  maxOrderAmount: z.number().positive().nullable(),
+  allowedPrefectures: z.array(z.string().min(1)),
+  allowedPostalCodeRanges: z.array(postalCodeRangeSchema),
+  excludedShippingMethodIds: z.array(z.string().min(1)),
+  excludedProductTypeIds: z.array(z.string().min(1)),
+});
+
+export type PostalCodeRange = z.infer<typeof postalCodeRangeSchema>;
+
+/**
+ * Per-channel rules checked before NP Atobarai is offered to the buyer.
+ * Empty lists and null amount mean the rule is not applied.
+ */
+export type EligibilityRules = z.infer<typeof eligibilityRulesSchema>;
+
+export const emptyEligibilityRules: EligibilityRules = {
+  maxOrderAmount: null,
+  allowedPrefectures: [],
+  allowedPostalCodeRanges: [],
+  excludedShippingMethodIds: [],
+  excludedProductTypeIds: [],
+};
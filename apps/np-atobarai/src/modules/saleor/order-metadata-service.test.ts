@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { mockedGraphqlClient } from "@/__tests__/mocks/graphql-client";
+
+import { OrderMetadataService, OrderMetadataServiceErrors } from "./order-metadata-service";
+
+describe("OrderMetadataService", () => {
+  const instance = new OrderMetadataService({
+    graphqlClient: mockedGraphqlClient,
+  });
+
+  const input = {
+    orderId: "order-123",
+    metadata: [{ key: "test-key", value: "test-value" }],
+  };
+
+  it("should successfully update order private metadata", async () => {
+    const mutationSpy = vi
+      .spyOn(mockedGraphqlClient, "mutation")
+      // @ts-expect-error - patching only subset
+      .mockImplementationOnce(async () => ({
+        data: {
+          updatePrivateMetadata: {
+            item: { __typename: "Order" },
+            errors: [],
+          },
+        },
+      }));
+
+    const result = await instance.updateOrderPrivateMetadata(input);
+
+    expect(result._unsafeUnwrap()).toBeNull();
+    expect(mutationSpy).toHaveBeenCalledWith(expect.anything(), {
+      id: "order-123",
+      input: [{ key: "test-key", value: "test-value" }],
+    });
+  });
+
+  it("should handle GraphQL errors", async () => {
+    // @ts-expect-error - patching only subset
+    vi.spyOn(mockedGraphqlClient, "mutation").mockImplementationOnce(async () => ({
+      data: {
+        updatePrivateMetadata: {
+          errors: [{ code: "GRAPHQL_ERROR", message: "Test error" }],
+        },
+      },
+    }));
+
+    const result = await instance.updateOrderPrivateMetadata(input);
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(OrderMetadataServiceErrors.GraphqlError);
+  });
+
+  it("should handle not found errors", async () => {
+    // @ts-expect-error - patching only subset
+    vi.spyOn(mockedGraphqlClient, "mutation").mockImplementationOnce(async () => ({
+      data: {
+        updatePrivateMetadata: {
+          errors: [{ code: "NOT_FOUND", message: "Order not found" }],
+        },
+      },
+    }));
+
+    const result = await instance.updateOrderPrivateMetadata(input);
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(OrderMetadataServiceErrors.UnhandledError);
+  });
+
+  it("should handle server errors", async () => {
+    // @ts-expect-error - patching only subset
+    vi.spyOn(mockedGraphqlClient, "mutation").mockImplementationOnce(async () => ({
+      error: new Error("Server error"),
+    }));
+
+    const result = await instance.updateOrderPrivateMetadata(input);
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(OrderMetadataServiceErrors.ServerError);
+  });
+
+  it("should handle missing resolved data", async () => {
+    // @ts-expect-error - patching only subset
+    vi.spyOn(mockedGraphqlClient, "mutation").mockImplementationOnce(async () => ({
+      data: {
+        updatePrivateMetadata: {
+          item: null,
+          errors: [],
+        },
+      },
+    }));
+
+    const result = await instance.updateOrderPrivateMetadata(input);
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(OrderMetadataServiceErrors.UnhandledError);
+  });
+});
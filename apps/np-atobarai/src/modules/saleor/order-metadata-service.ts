@@ -0,0 +1,121 @@
+import { BaseError } from "@saleor/errors";
+import { err, ok, type Result } from "neverthrow";
+import { type Client } from "urql";
+
+import { UpdatePrivateMetadataDocument } from "@/generated/graphql";
+import { createLogger } from "@/lib/logger";
+
+export type OrderPrivateMetadataUpdateInput = {
+  orderId: string;
+  metadata: Array<{ key: string; value: string }>;
+};
+
+export type PossibleOrderMetadataServiceErrors =
+  | InstanceType<typeof GraphqlError>
+  | InstanceType<typeof UnhandledError>
+  | InstanceType<typeof ServerError>;
+
+const GraphqlError = BaseError.subclass("OrderMetadataService.GraphqlError", {
+  props: {
+    _brand: "OrderMetadataService.GraphqlError" as const,
+  },
+});
+
+const UnhandledError = BaseError.subclass("OrderMetadataService.UnhandledError", {
+  props: {
+    _brand: "OrderMetadataService.UnhandledError" as const,
+  },
+});
+
+const ServerError = BaseError.subclass("OrderMetadataService.ServerError", {
+  props: {
+    _brand: "OrderMetadataService.ServerError" as const,
+  },
+});
+
+export const OrderMetadataServiceErrors = {
+  GraphqlError,
+  UnhandledError,
+  ServerError,
+};
+
+export interface IOrderMetadataService {
+  updateOrderPrivateMetadata(
+    input: OrderPrivateMetadataUpdateInput,
+  ): Promise<Result<null, PossibleOrderMetadataServiceErrors>>;
+}
+
+export class OrderMetadataService implements IOrderMetadataService {
+  private gqlClient: Pick<Client, "mutation">;
+  private logger = createLogger("OrderMetadataService");
+
+  constructor(deps: { graphqlClient: Pick<Client, "mutation"> }) {
+    this.gqlClient = deps.graphqlClient;
+  }
+
+  async updateOrderPrivateMetadata(
+    input: OrderPrivateMetadataUpdateInput,
+  ): Promise<Result<null, PossibleOrderMetadataServiceErrors>> {
+    try {
+      const mutationResult = await this.gqlClient.mutation(UpdatePrivateMetadataDocument, {
+        id: input.orderId,
+        input: input.metadata,
+      });
+
+      const { data, error } = mutationResult;
+
+      if (error) {
+        return err(
+          new ServerError("Server error while updating order private metadata", {
+            cause: error,
+          }),
+        );
+      }
+
+      const mutationErrors = data?.updatePrivateMetadata?.errors ?? [];
+
+      if (mutationErrors.length > 0) {
+        const hasMoreThanOneError = mutationErrors.length > 1;
+
+        if (hasMoreThanOneError) {
+          this.logger.warn(
+            "UpdatePrivateMetadata mutation has more than one GraphQL error - handling the first one",
+            mutationErrors,
+          );
+        }
+        const mutationError = mutationErrors[0];
+
+        switch (mutationError.code) {
+          case "GRAPHQL_ERROR": {
+            return err(
+              new GraphqlError("Error updating order private metadata", {
+                cause: BaseError.normalize(mutationError),
+              }),
+            );
+          }
+          default: {
+            return err(
+              new UnhandledError("Error updating order private metadata", {
+                cause: BaseError.normalize(mutationError),
+              }),
+            );
+          }
+        }
+      }
+
+      if (!data?.updatePrivateMetadata?.item) {
+        return err(
+          new UnhandledError("Error updating order private metadata: missing resolved data"),
+        );
+      }
+
+      return ok(null);
+    } catch (e) {
+      return err(
+        new UnhandledError("Error updating order private metadata", {
+          cause: e,
+        }),
+      );
+    }
+  }
+}
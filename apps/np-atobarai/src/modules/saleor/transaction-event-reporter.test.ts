@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { mockedAtobaraiMoney } from "@/__tests__/mocks/atobarai/mocked-atobarai-money";
+import { mockedAtobaraiTransactionId } from "@/__tests__/mocks/atobarai/mocked-atobarai-transaction-id";
+import { mockedGraphqlClient } from "@/__tests__/mocks/graphql-client";
+import { mockedSaleorTransactionToken } from "@/__tests__/mocks/saleor/mocked-saleor-transaction-token";
+
+import {
+  TransactionEventReporter,
+  TransactionEventReporterErrors,
+  type TransactionEventReportInput,
+} from "./transaction-event-reporter";
+
+describe("TransactionEventReporter", () => {
+  const instance = new TransactionEventReporter({
+    graphqlClient: mockedGraphqlClient,
+  });
+
+  const input = {
+    saleorTransactionToken: mockedSaleorTransactionToken,
+    atobaraiTransactionId: mockedAtobaraiTransactionId,
+    atobaraiMoney: mockedAtobaraiMoney,
+    message: "Credit check passed",
+    time: "2025-01-01T00:00:00.000Z",
+    type: "CHARGE_SUCCESS",
+    actions: ["REFUND"],
+  } satisfies TransactionEventReportInput;
+
+  it("should report event by transaction token and return created event ID", async () => {
+    const mutationSpy = vi
+      .spyOn(mockedGraphqlClient, "mutation")
+      // @ts-expect-error - patching only subset
+      .mockImplementationOnce(async () => ({
+        data: {
+          transactionEventReport: {
+            alreadyProcessed: false,
+            errors: [],
+            transactionEvent: { id: "event-123" },
+          },
+        },
+      }));
+
+    const result = await instance.reportTransactionEvent(input);
+
+    expect(result._unsafeUnwrap()).toStrictEqual({ createdEventId: "event-123" });
+    expect(mutationSpy.mock.calls[0][1]).toMatchInlineSnapshot(`
+      {
+        "amount": 1000,
+        "availableActions": [
+          "REFUND",
+        ],
+        "message": "Credit check passed",
+        "pspReference": "np_trans_id",
+        "time": "2025-01-01T00:00:00.000Z",
+        "transactionToken": "mocked-saleor-transaction-token-uuid",
+        "type": "CHARGE_SUCCESS",
+      }
+    `);
+  });
+
+  it("should return AlreadyReportedError if Saleor already processed event", async () => {
+    // @ts-expect-error - patching only subset
+    vi.spyOn(mockedGraphqlClient, "mutation").mockImplementationOnce(async () => ({
+      data: {
+        transactionEventReport: {
+          alreadyProcessed: true,
+          errors: [],
+          transactionEvent: { id: "event-123" },
+        },
+      },
+    }));
+
+    const result = await instance.reportTransactionEvent(input);
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(
+      TransactionEventReporterErrors.AlreadyReportedError,
+    );
+  });
+
+  it("should handle GraphQL errors", async () => {
+    // @ts-expect-error - patching only subset
+    vi.spyOn(mockedGraphqlClient, "mutation").mockImplementationOnce(async () => ({
+      data: {
+        transactionEventReport: {
+          errors: [{ code: "GRAPHQL_ERROR", message: "Test error" }],
+        },
+      },
+    }));
+
+    const result = await instance.reportTransactionEvent(input);
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(TransactionEventReporterErrors.GraphqlError);
+  });
+
+  it("should handle server errors", async () => {
+    // @ts-expect-error - patching only subset
+    vi.spyOn(mockedGraphqlClient, "mutation").mockImplementationOnce(async () => ({
+      error: new Error("Server error"),
+    }));
+
+    const result = await instance.reportTransactionEvent(input);
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(TransactionEventReporterErrors.ServerError);
+  });
+});
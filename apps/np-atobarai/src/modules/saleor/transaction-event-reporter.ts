@@ -0,0 +1,168 @@
+import { BaseError } from "@saleor/errors";
+import { err, ok, type Result } from "neverthrow";
+import { type Client } from "urql";
+
+import {
+  type TransactionActionEnum,
+  TransactionEventReportDocument,
+  type TransactionEventTypeEnum,
+} from "@/generated/graphql";
+import { createLogger } from "@/lib/logger";
+import { type AtobaraiMoney } from "@/modules/atobarai/atobarai-money";
+import { type AtobaraiTransactionId } from "@/modules/atobarai/atobarai-transaction-id";
+
+import { type SaleorTransactionToken } from "./saleor-transaction-token";
+
+export type TransactionEventReportInput = {
+  saleorTransactionToken: SaleorTransactionToken;
+  atobaraiTransactionId: AtobaraiTransactionId;
+  // Defaults to NP transaction id. Events changing charged amount after order edit need own one, Saleor dedupes them
+  pspReference?: string;
+  atobaraiMoney: AtobaraiMoney;
+  message: string;
+  time: string;
+  type: TransactionEventTypeEnum;
+  actions: TransactionActionEnum[] | null;
+};
+
+export type PossibleTransactionEventReporterErrors =
+  | InstanceType<typeof AlreadyReportedError>
+  | InstanceType<typeof GraphqlError>
+  | InstanceType<typeof UnhandledError>
+  | InstanceType<typeof ServerError>;
+
+export type TransactionEventReporterResult = {
+  createdEventId: string;
+};
+
+const AlreadyReportedError = BaseError.subclass("TransactionEventReporter.AlreadyReportedError", {
+  props: {
+    _brand: "TransactionEventReporter.AlreadyReportedError" as const,
+  },
+});
+
+const GraphqlError = BaseError.subclass("TransactionEventReporter.GraphqlError", {
+  props: {
+    _brand: "TransactionEventReporter.GraphqlError" as const,
+  },
+});
+
+const UnhandledError = BaseError.subclass("TransactionEventReporter.UnhandledError", {
+  props: {
+    _brand: "TransactionEventReporter.UnhandledError" as const,
+  },
+});
+
+const ServerError = BaseError.subclass("TransactionEventReporter.ServerError", {
+  props: {
+    _brand: "TransactionEventReporter.ServerError" as const,
+  },
+});
+
+export const TransactionEventReporterErrors = {
+  AlreadyReportedError,
+  GraphqlError,
+  UnhandledError,
+  ServerError,
+};
+
+export interface ITransactionEventReporter {
+  reportTransactionEvent(
+    input: TransactionEventReportInput,
+  ): Promise<Result<TransactionEventReporterResult, PossibleTransactionEventReporterErrors>>;
+}
+
+export class TransactionEventReporter implements ITransactionEventReporter {
+  private gqlClient: Pick<Client, "mutation">;
+  private logger = createLogger("TransactionEventReporter");
+
+  constructor(deps: { graphqlClient: Pick<Client, "mutation"> }) {
+    this.gqlClient = deps.graphqlClient;
+  }
+
+  async reportTransactionEvent(
+    input: TransactionEventReportInput,
+  ): Promise<Result<TransactionEventReporterResult, PossibleTransactionEventReporterErrors>> {
+    try {
+      const mutationResult = await this.gqlClient.mutation(TransactionEventReportDocument, {
+        transactionToken: input.saleorTransactionToken,
+        message: input.message,
+        amount: input.atobaraiMoney.amount,
+        pspReference: input.pspReference ?? input.atobaraiTransactionId,
+        time: input.time,
+        type: input.type,
+        availableActions: input.actions,
+      });
+
+      const { data, error } = mutationResult;
+
+      if (error) {
+        return err(
+          new ServerError("Server error while reporting transaction event", {
+            cause: error,
+          }),
+        );
+      }
+
+      const mutationErrors = data?.transactionEventReport?.errors ?? [];
+
+      if (mutationErrors.length > 0) {
+        const hasMoreThanOneError = mutationErrors.length > 1;
+
+        if (hasMoreThanOneError) {
+          this.logger.warn(
+            "TransactionEventReport mutation has more than one GraphQL error - handling the first one",
+            mutationErrors,
+          );
+        }
+        const mutationError = mutationErrors[0];
+
+        switch (mutationError.code) {
+          case "ALREADY_EXISTS": {
+            return err(
+              new AlreadyReportedError("Event already reported", {
+                cause: BaseError.normalize(mutationError),
+              }),
+            );
+          }
+          case "GRAPHQL_ERROR": {
+            return err(
+              new GraphqlError("Error reporting transaction event", {
+                cause: BaseError.normalize(mutationError),
+              }),
+            );
+          }
+          default: {
+            return err(
+              new UnhandledError("Error reporting transaction event", {
+                cause: BaseError.normalize(mutationError),
+              }),
+            );
+          }
+        }
+      }
+
+      if (!data?.transactionEventReport?.transactionEvent) {
+        return err(new UnhandledError("Error reporting transaction event: missing resolved data"));
+      }
+
+      if (data.transactionEventReport.alreadyProcessed) {
+        return err(
+          new AlreadyReportedError(
+            `Event already reported: ${data.transactionEventReport.transactionEvent.id}`,
+          ),
+        );
+      }
+
+      return ok({
+        createdEventId: data.transactionEventReport.transactionEvent.id,
+      });
+    } catch (e) {
+      return err(
+        new UnhandledError("Error reporting transaction event", {
+          cause: e,
+        }),
+      );
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import { type Actions } from "@/generated/app-webhooks-types/transaction-cancelation-requested";
+
+export class CancelSuccessResult {
+  readonly result = "CANCEL_SUCCESS" as const;
+  readonly actions: Actions = [];
+  readonly message = "Successfully cancelled NP Atobarai transaction";
+}
+
+export class CancelFailureResult {
+  readonly result = "CANCEL_FAILURE" as const;
+  readonly actions: Actions = ["CANCEL", "REFUND"];
+  readonly message = "Failed to cancel NP Atobarai transaction";
+}
@@ -2,7 +2,8 @@ import { type Actions } from "@/generated/app-webhooks-types/transaction-initial
 
 export class ChargeSuccessResult {
   readonly result = "CHARGE_SUCCESS" as const;
-  readonly actions: Actions = ["REFUND"];
+  // CANCEL lets Saleor void NP invoice when order is cancelled before shipment is reported, REFUND is used after
+  readonly actions: Actions = ["REFUND", "CANCEL"];
 }
 
 export class ChargeActionRequiredResult {
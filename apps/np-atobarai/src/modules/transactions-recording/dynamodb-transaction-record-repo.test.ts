@@ -1,16 +1,20 @@
 import {
+  BatchGetCommand,
   DynamoDBDocumentClient,
   GetCommand,
-  PutCommand,
-  UpdateCommand,
+  QueryCommand,
+  TransactWriteCommand,
 } from "@aws-sdk/lib-dynamodb";
 import { mockClient } from "aws-sdk-client-mock";
 import { beforeEach, describe, expect, it } from "vitest";
 
 import { getMockedTransactionRecord } from "@/__tests__/mocks/app-transaction/mocked-transaction-record";
+import { mockedAtobaraiMoney } from "@/__tests__/mocks/atobarai/mocked-atobarai-money";
 import { mockedAtobaraiTransactionId } from "@/__tests__/mocks/atobarai/mocked-atobarai-transaction-id";
 import { mockedSaleorApiUrl } from "@/__tests__/mocks/saleor/mocked-saleor-api-url";
 import { mockedSaleorAppId } from "@/__tests__/mocks/saleor/mocked-saleor-app-id";
+import { mockedSaleorChannelId } from "@/__tests__/mocks/saleor/mocked-saleor-channel-id";
+import { mockedSaleorTransactionToken } from "@/__tests__/mocks/saleor/mocked-saleor-transaction-token";
 
 import { DynamoMainTable } from "../dynamodb/dynamodb-main-table";
 import { TransactionRecordConfig } from "./dynamodb/entity";
@@ -32,16 +36,15 @@ describe("DynamoDBAppTransactionRepo", () => {
       tableName: "np-atobarai-test-table",
     });
 
-    const entity = TransactionRecordConfig.createEntity(table);
-
     repo = new DynamoDBTransactionRecordRepo({
-      entity,
+      entity: TransactionRecordConfig.createEntity(table),
+      pendingCreditCheckEntity: TransactionRecordConfig.createPendingCreditCheckEntity(table),
     });
   });
 
   describe("createTransaction", () => {
     it("calls DynamoDB with correct parameters", async () => {
-      mockDocumentClient.on(PutCommand, {}).resolvesOnce({
+      mockDocumentClient.on(TransactWriteCommand, {}).resolvesOnce({
         $metadata: {
           httpStatusCode: 200,
         },
@@ -59,7 +62,7 @@ describe("DynamoDBAppTransactionRepo", () => {
     });
 
     it("return FailedCreatingTransactionError if call to DynamoDB ended with non-200 status", async () => {
-      mockDocumentClient.on(PutCommand, {}).resolvesOnce({
+      mockDocumentClient.on(TransactWriteCommand, {}).resolvesOnce({
         $metadata: {
           httpStatusCode: 500,
         },
@@ -81,7 +84,7 @@ describe("DynamoDBAppTransactionRepo", () => {
 
   describe("updateTransaction", () => {
     it("calls DynamoDB with correct parameters", async () => {
-      mockDocumentClient.on(UpdateCommand, {}).resolvesOnce({
+      mockDocumentClient.on(TransactWriteCommand, {}).resolvesOnce({
         $metadata: {
           httpStatusCode: 200,
         },
@@ -98,8 +101,71 @@ describe("DynamoDBAppTransactionRepo", () => {
       expect(result._unsafeUnwrap()).toBeNull();
     });
 
+    it("clears pending credit check when it's resolved", async () => {
+      mockDocumentClient.on(TransactWriteCommand, {}).resolvesOnce({
+        $metadata: {
+          httpStatusCode: 200,
+        },
+      });
+
+      await repo.updateTransaction(
+        {
+          saleorApiUrl: mockedSaleorApiUrl,
+          appId: mockedSaleorAppId,
+        },
+        getMockedTransactionRecord({ pendingCreditCheck: null }),
+      );
+
+      const [transactionUpdate, pendingCreditCheckDelete] =
+        mockDocumentClient.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems ?? [];
+      const updateInput = transactionUpdate.Update!;
+
+      const [pendingCreditCheckAlias] = Object.entries(
+        updateInput.ExpressionAttributeNames ?? {},
+      ).find(([, name]) => name === "pendingCreditCheck")!;
+
+      expect(updateInput.UpdateExpression).toContain(`${pendingCreditCheckAlias} = :`);
+      expect(Object.values(updateInput.ExpressionAttributeValues ?? {})).toContain(null);
+      expect(pendingCreditCheckDelete.Delete?.Key).toStrictEqual({
+        PK: "https://mocked.saleor.api/graphql/#mocked-saleor-app-id",
+        SK: `PENDING_CREDIT_CHECK#${mockedAtobaraiTransactionId}`,
+      });
+    });
+
+    it("keeps pending credit check item while credit check is pending", async () => {
+      mockDocumentClient.on(TransactWriteCommand, {}).resolvesOnce({
+        $metadata: {
+          httpStatusCode: 200,
+        },
+      });
+
+      await repo.updateTransaction(
+        {
+          saleorApiUrl: mockedSaleorApiUrl,
+          appId: mockedSaleorAppId,
+        },
+        getMockedTransactionRecord({
+          pendingCreditCheck: {
+            saleorTransactionToken: mockedSaleorTransactionToken,
+            saleorChannelId: mockedSaleorChannelId,
+            atobaraiMoney: mockedAtobaraiMoney,
+          },
+        }),
+      );
+
+      const [, pendingCreditCheckPut] =
+        mockDocumentClient.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems ?? [];
+
+      expect(pendingCreditCheckPut.Put?.Item).toStrictEqual(
+        expect.objectContaining({
+          SK: `PENDING_CREDIT_CHECK#${mockedAtobaraiTransactionId}`,
+          atobaraiTransactionId: mockedAtobaraiTransactionId,
+        }),
+      );
+    });
+
     it("returns FailedUpdatingTransactionError if call to DynamoDB ended with non-200 status", async () => {
-      mockDocumentClient.on(UpdateCommand, {}).resolvesOnce({
+      mockDocumentClient.on(TransactWriteCommand, {}).resolvesOnce({
         $metadata: {
           httpStatusCode: 500,
         },
@@ -165,9 +231,13 @@ describe("DynamoDBAppTransactionRepo", () => {
       expect(result._unsafeUnwrap()).toBeInstanceOf(TransactionRecord);
       expect(result._unsafeUnwrap()).toMatchInlineSnapshot(`
         TransactionRecord {
+          "atobaraiDataFingerprint": null,
           "atobaraiTransactionId": "np_trans_id",
+          "cancelled": false,
           "fulfillmentMetadataShippingCompanyCode": null,
+          "pendingCreditCheck": null,
           "saleorTrackingNumber": null,
+          "shipments": [],
         }
       `);
     });
@@ -223,4 +293,174 @@ describe("DynamoDBAppTransactionRepo", () => {
       );
     });
   });
+
+  describe("getTransactionsWithPendingCreditCheck", () => {
+    it("queries pending credit check items and maps their transactions", async () => {
+      const pk = TransactionRecordConfig.accessPattern.getPK({
+        saleorApiUrl: mockedSaleorApiUrl,
+        appId: mockedSaleorAppId,
+      });
+
+      mockDocumentClient.on(QueryCommand).resolvesOnce({
+        Items: [
+          {
+            PK: pk,
+            SK: TransactionRecordConfig.accessPattern.getSKForPendingCreditCheck({
+              atobaraiTransactionId: mockedAtobaraiTransactionId,
+            }),
+            atobaraiTransactionId: mockedAtobaraiTransactionId,
+            _et: "AppTransactionPendingCreditCheck",
+          },
+        ],
+        $metadata: {
+          httpStatusCode: 200,
+        },
+      });
+
+      mockDocumentClient.on(BatchGetCommand).resolvesOnce({
+        Responses: {
+          "np-atobarai-test-table": [
+            {
+              PK: pk,
+              SK: TransactionRecordConfig.accessPattern.getSKForSpecificItem({
+                atobaraiTransactionId: mockedAtobaraiTransactionId,
+              }),
+              atobaraiTransactionId: mockedAtobaraiTransactionId,
+              saleorTrackingNumber: null,
+              saleorMetadataShippingCompanyCode: null,
+              pendingCreditCheck: {
+                saleorTransactionToken: mockedSaleorTransactionToken,
+                saleorChannelId: mockedSaleorChannelId,
+                amount: mockedAtobaraiMoney.amount,
+                currency: mockedAtobaraiMoney.currency,
+              },
+              createdAt: "2023-01-01T00:00:00.000Z",
+              modifiedAt: "2023-01-01T00:00:00.000Z",
+              _et: "AppTransaction",
+            },
+          ],
+        },
+        $metadata: {
+          httpStatusCode: 200,
+        },
+      });
+
+      const result = await repo.getTransactionsWithPendingCreditCheck({
+        saleorApiUrl: mockedSaleorApiUrl,
+        appId: mockedSaleorAppId,
+      });
+
+      const queryInput = mockDocumentClient.commandCalls(QueryCommand)[0].args[0].input;
+
+      expect(queryInput.KeyConditionExpression).toContain("begins_with");
+      expect(Object.values(queryInput.ExpressionAttributeValues ?? {})).toContain(
+        "PENDING_CREDIT_CHECK#",
+      );
+      expect(
+        mockDocumentClient.commandCalls(BatchGetCommand)[0].args[0].input.RequestItems?.[
+          "np-atobarai-test-table"
+        ].Keys,
+      ).toStrictEqual([{ PK: pk, SK: `TRANSACTION#${mockedAtobaraiTransactionId}` }]);
+
+      expect(result._unsafeUnwrap()).toMatchInlineSnapshot(`
+        [
+          TransactionRecord {
+            "atobaraiDataFingerprint": null,
+            "atobaraiTransactionId": "np_trans_id",
+            "cancelled": false,
+            "fulfillmentMetadataShippingCompanyCode": null,
+            "pendingCreditCheck": {
+              "atobaraiMoney": {
+                "amount": 1000,
+                "currency": "JPY",
+              },
+              "saleorChannelId": "mocked-saleor-channel-id",
+              "saleorTransactionToken": "mocked-saleor-transaction-token-uuid",
+            },
+            "saleorTrackingNumber": null,
+            "shipments": [],
+          },
+        ]
+      `);
+    });
+
+    it("doesn't call BatchGet if no credit check is pending", async () => {
+      mockDocumentClient.on(QueryCommand).resolvesOnce({
+        Items: [],
+        $metadata: {
+          httpStatusCode: 200,
+        },
+      });
+
+      const result = await repo.getTransactionsWithPendingCreditCheck({
+        saleorApiUrl: mockedSaleorApiUrl,
+        appId: mockedSaleorAppId,
+      });
+
+      expect(result._unsafeUnwrap()).toStrictEqual([]);
+      expect(mockDocumentClient.commandCalls(BatchGetCommand)).toHaveLength(0);
+    });
+
+    it("returns FailedFetchingTransactionError if some keys stay unprocessed after retries", async () => {
+      const pk = TransactionRecordConfig.accessPattern.getPK({
+        saleorApiUrl: mockedSaleorApiUrl,
+        appId: mockedSaleorAppId,
+      });
+      const keys = [{ PK: pk, SK: `TRANSACTION#${mockedAtobaraiTransactionId}` }];
+
+      mockDocumentClient.on(QueryCommand).resolvesOnce({
+        Items: [
+          {
+            PK: pk,
+            SK: TransactionRecordConfig.accessPattern.getSKForPendingCreditCheck({
+              atobaraiTransactionId: mockedAtobaraiTransactionId,
+            }),
+            atobaraiTransactionId: mockedAtobaraiTransactionId,
+            _et: "AppTransactionPendingCreditCheck",
+          },
+        ],
+        $metadata: {
+          httpStatusCode: 200,
+        },
+      });
+
+      mockDocumentClient.on(BatchGetCommand).resolves({
+        Responses: {},
+        UnprocessedKeys: {
+          "np-atobarai-test-table": { Keys: keys },
+        },
+        $metadata: {
+          httpStatusCode: 200,
+        },
+      });
+
+      const result = await repo.getTransactionsWithPendingCreditCheck({
+        saleorApiUrl: mockedSaleorApiUrl,
+        appId: mockedSaleorAppId,
+      });
+
+      expect(mockDocumentClient.commandCalls(BatchGetCommand)).toHaveLength(3);
+      expect(
+        mockDocumentClient.commandCalls(BatchGetCommand)[1].args[0].input.RequestItems?.[
+          "np-atobarai-test-table"
+        ].Keys,
+      ).toStrictEqual(keys);
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(
+        TransactionRecordRepoError.FailedFetchingTransactionError,
+      );
+    });
+
+    it("returns FailedFetchingTransactionError if call to DynamoDB fails", async () => {
+      mockDocumentClient.on(QueryCommand).rejectsOnce(new Error("DynamoDB error"));
+
+      const result = await repo.getTransactionsWithPendingCreditCheck({
+        saleorApiUrl: mockedSaleorApiUrl,
+        appId: mockedSaleorAppId,
+      });
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(
+        TransactionRecordRepoError.FailedFetchingTransactionError,
+      );
+    });
+  });
 });
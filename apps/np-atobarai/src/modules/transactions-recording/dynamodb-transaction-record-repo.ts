@@ -1,32 +1,161 @@
 import { BaseError } from "@saleor/errors";
-import { GetItemCommand, PutItemCommand, UpdateItemCommand } from "dynamodb-toolbox";
+import {
+  BatchGetCommand,
+  BatchGetRequest,
+  DeleteTransaction,
+  executeBatchGet,
+  executeTransactWrite,
+  type FormattedItem,
+  GetItemCommand,
+  PutTransaction,
+  UpdateTransaction,
+} from "dynamodb-toolbox";
+import { QueryCommand } from "dynamodb-toolbox/table/actions/query";
 import { err, ok, type Result } from "neverthrow";
 
 import { createLogger } from "@/lib/logger";
 
+import { parseAtobaraiDataFingerprint } from "../atobarai/atobarai-data-fingerprint";
+import { createAtobaraiMoney } from "../atobarai/atobarai-money";
 import { createAtobaraiShippingCompanyCode } from "../atobarai/atobarai-shipping-company-code";
 import {
   type AtobaraiTransactionId,
   createAtobaraiTransactionId,
 } from "../atobarai/atobarai-transaction-id";
-import { TransactionRecordConfig, type TransactionRecordEntity } from "./dynamodb/entity";
-import { TransactionRecord } from "./transaction-record";
+import { createSaleorTransactionToken } from "../saleor/saleor-transaction-token";
+import {
+  type TransactionPendingCreditCheckEntity,
+  TransactionRecordConfig,
+  type TransactionRecordEntity,
+} from "./dynamodb/entity";
+import {
+  type PendingCreditCheck,
+  TransactionRecord,
+  type TransactionRecordWithPendingCreditCheck,
+  type TransactionShipment,
+} from "./transaction-record";
 import {
   type TransactionRecordRepo,
   type TransactionRecordRepoAccess,
   TransactionRecordRepoError,
 } from "./types";
 
+// DynamoDB limit of keys in single BatchGetItem request
+const BATCH_GET_MAX_KEYS = 100;
+// DynamoDB can leave some keys unprocessed (e.g. when throttled), they are requested again up to this many times
+const BATCH_GET_MAX_ATTEMPTS = 3;
+
 export class DynamoDBTransactionRecordRepo implements TransactionRecordRepo {
   private entity: TransactionRecordEntity;
+  private pendingCreditCheckEntity: TransactionPendingCreditCheckEntity;
   private logger = createLogger("DynamoDBAppTransactionRepo");
 
   constructor(
     params = {
       entity: TransactionRecordConfig.entity,
+      pendingCreditCheckEntity: TransactionRecordConfig.pendingCreditCheckEntity,
     },
   ) {
     this.entity = params.entity;
+    this.pendingCreditCheckEntity = params.pendingCreditCheckEntity;
+  }
+
+  /**
+   * Written in the same transaction as the transaction item, so pending credit check item exists only while
+   * transaction's credit check is pending
+   */
+  private buildPendingCreditCheckTransaction(
+    accessPattern: TransactionRecordRepoAccess,
+    transaction: TransactionRecord,
+  ) {
+    const key = {
+      PK: TransactionRecordConfig.accessPattern.getPK({
+        saleorApiUrl: accessPattern.saleorApiUrl,
+        appId: accessPattern.appId,
+      }),
+      SK: TransactionRecordConfig.accessPattern.getSKForPendingCreditCheck({
+        atobaraiTransactionId: transaction.atobaraiTransactionId,
+      }),
+    };
+
+    if (transaction.hasPendingCreditCheck()) {
+      return this.pendingCreditCheckEntity.build(PutTransaction).item({
+        ...key,
+        atobaraiTransactionId: transaction.atobaraiTransactionId,
+      });
+    }
+
+    return this.pendingCreditCheckEntity.build(DeleteTransaction).key(key);
+  }
+
+  private mapPendingCreditCheckToItem(pendingCreditCheck: PendingCreditCheck | null) {
+    if (!pendingCreditCheck) {
+      return null;
+    }
+
+    return {
+      saleorTransactionToken: pendingCreditCheck.saleorTransactionToken,
+      saleorChannelId: pendingCreditCheck.saleorChannelId,
+      amount: pendingCreditCheck.atobaraiMoney.amount,
+      currency: pendingCreditCheck.atobaraiMoney.currency,
+      pspReference: pendingCreditCheck.pspReference,
+    };
+  }
+
+  private mapShipmentsToItem(shipments: TransactionShipment[]) {
+    return shipments.map((shipment) => ({
+      saleorFulfillmentId: shipment.saleorFulfillmentId,
+      trackingNumber: shipment.trackingNumber,
+      saleorMetadataShippingCompanyCode: shipment.fulfillmentMetadataShippingCompanyCode,
+      status: shipment.status,
+    }));
+  }
+
+  private mapItemToTransactionRecord(item: FormattedItem<TransactionRecordEntity>) {
+    const {
+      atobaraiTransactionId,
+      saleorTrackingNumber,
+      saleorMetadataShippingCompanyCode,
+      pendingCreditCheck,
+      cancelled,
+      atobaraiDataFingerprint,
+      shipments,
+    } = item;
+
+    return new TransactionRecord({
+      atobaraiTransactionId: createAtobaraiTransactionId(atobaraiTransactionId),
+      saleorTrackingNumber: saleorTrackingNumber,
+      fulfillmentMetadataShippingCompanyCode: saleorMetadataShippingCompanyCode
+        ? createAtobaraiShippingCompanyCode(saleorMetadataShippingCompanyCode)
+        : null,
+      pendingCreditCheck: pendingCreditCheck
+        ? {
+            saleorTransactionToken: createSaleorTransactionToken(
+              pendingCreditCheck.saleorTransactionToken,
+            ),
+            saleorChannelId: pendingCreditCheck.saleorChannelId,
+            atobaraiMoney: createAtobaraiMoney({
+              amount: pendingCreditCheck.amount,
+              currency: pendingCreditCheck.currency,
+            }),
+            ...(pendingCreditCheck.pspReference
+              ? { pspReference: pendingCreditCheck.pspReference }
+              : {}),
+          }
+        : null,
+      cancelled: cancelled ?? false,
+      atobaraiDataFingerprint: atobaraiDataFingerprint
+        ? parseAtobaraiDataFingerprint(atobaraiDataFingerprint)
+        : null,
+      shipments: (shipments ?? []).map((shipment) => ({
+        saleorFulfillmentId: shipment.saleorFulfillmentId,
+        trackingNumber: shipment.trackingNumber,
+        fulfillmentMetadataShippingCompanyCode: shipment.saleorMetadataShippingCompanyCode
+          ? createAtobaraiShippingCompanyCode(shipment.saleorMetadataShippingCompanyCode)
+          : null,
+        status: shipment.status,
+      })),
+    });
   }
 
   async createTransaction(
@@ -36,8 +165,8 @@ export class DynamoDBTransactionRecordRepo implements TransactionRecordRepo {
     try {
       this.logger.debug("Trying to write Transaction to DynamoDB", { transaction });
 
-      const operation = this.entity
-        .build(PutItemCommand)
+      const transactionPut = this.entity
+        .build(PutTransaction)
         .item({
           PK: TransactionRecordConfig.accessPattern.getPK({
             saleorApiUrl: accessPattern.saleorApiUrl,
@@ -49,6 +178,10 @@ export class DynamoDBTransactionRecordRepo implements TransactionRecordRepo {
           atobaraiTransactionId: transaction.atobaraiTransactionId,
           saleorTrackingNumber: transaction.saleorTrackingNumber,
           saleorMetadataShippingCompanyCode: transaction.fulfillmentMetadataShippingCompanyCode,
+          pendingCreditCheck: this.mapPendingCreditCheckToItem(transaction.pendingCreditCheck),
+          cancelled: transaction.cancelled,
+          atobaraiDataFingerprint: transaction.atobaraiDataFingerprint,
+          shipments: this.mapShipmentsToItem(transaction.shipments),
         })
         .options({
           condition: {
@@ -57,7 +190,10 @@ export class DynamoDBTransactionRecordRepo implements TransactionRecordRepo {
           },
         });
 
-      const result = await operation.send();
+      const result = await executeTransactWrite(
+        transactionPut,
+        this.buildPendingCreditCheckTransaction(accessPattern, transaction),
+      );
 
       if (result.$metadata.httpStatusCode === 200) {
         this.logger.debug("Successfully wrote transaction to DynamoDB", {
@@ -93,7 +229,7 @@ export class DynamoDBTransactionRecordRepo implements TransactionRecordRepo {
     try {
       this.logger.debug("Trying to update Transaction to DynamoDB", { transaction });
 
-      const operation = this.entity.build(UpdateItemCommand).item({
+      const transactionUpdate = this.entity.build(UpdateTransaction).item({
         PK: TransactionRecordConfig.accessPattern.getPK({
           saleorApiUrl: accessPattern.saleorApiUrl,
           appId: accessPattern.appId,
@@ -102,9 +238,17 @@ export class DynamoDBTransactionRecordRepo implements TransactionRecordRepo {
           atobaraiTransactionId: transaction.atobaraiTransactionId,
         }),
         saleorTrackingNumber: transaction.saleorTrackingNumber,
+        saleorMetadataShippingCompanyCode: transaction.fulfillmentMetadataShippingCompanyCode,
+        pendingCreditCheck: this.mapPendingCreditCheckToItem(transaction.pendingCreditCheck),
+        cancelled: transaction.cancelled,
+        atobaraiDataFingerprint: transaction.atobaraiDataFingerprint,
+        shipments: this.mapShipmentsToItem(transaction.shipments),
       });
 
-      const result = await operation.send();
+      const result = await executeTransactWrite(
+        transactionUpdate,
+        this.buildPendingCreditCheckTransaction(accessPattern, transaction),
+      );
 
       if (result.$metadata.httpStatusCode === 200) {
         this.logger.debug("Successfully updated transaction to DynamoDB", {
@@ -164,18 +308,7 @@ export class DynamoDBTransactionRecordRepo implements TransactionRecordRepo {
       }
 
       if (result.Item) {
-        const { atobaraiTransactionId, saleorTrackingNumber, saleorMetadataShippingCompanyCode } =
-          result.Item;
-
-        return ok(
-          new TransactionRecord({
-            atobaraiTransactionId: createAtobaraiTransactionId(atobaraiTransactionId),
-            saleorTrackingNumber: saleorTrackingNumber,
-            fulfillmentMetadataShippingCompanyCode: saleorMetadataShippingCompanyCode
-              ? createAtobaraiShippingCompanyCode(saleorMetadataShippingCompanyCode)
-              : null,
-          }),
-        );
+        return ok(this.mapItemToTransactionRecord(result.Item));
       } else {
         return err(
           new TransactionRecordRepoError.TransactionMissingError(
@@ -199,4 +332,86 @@ export class DynamoDBTransactionRecordRepo implements TransactionRecordRepo {
       );
     }
   }
+
+  async getTransactionsWithPendingCreditCheck(
+    accessPattern: TransactionRecordRepoAccess,
+  ): Promise<Result<TransactionRecordWithPendingCreditCheck[], TransactionRecordRepoError>> {
+    try {
+      this.logger.debug("Trying to get transactions with pending credit check from DynamoDB");
+
+      const pk = TransactionRecordConfig.accessPattern.getPK({
+        saleorApiUrl: accessPattern.saleorApiUrl,
+        appId: accessPattern.appId,
+      });
+
+      const pendingCreditChecksResult = await this.entity.table
+        .build(QueryCommand)
+        .entities(this.pendingCreditCheckEntity)
+        .query({
+          partition: pk,
+          range: {
+            beginsWith: TransactionRecordConfig.accessPattern.getSKForAllPendingCreditChecks(),
+          },
+        })
+        .options({
+          maxPages: Infinity,
+        })
+        .send();
+
+      const keys = (pendingCreditChecksResult.Items ?? []).map((item) => ({
+        PK: pk,
+        SK: TransactionRecordConfig.accessPattern.getSKForSpecificItem({
+          atobaraiTransactionId: createAtobaraiTransactionId(item.atobaraiTransactionId),
+        }),
+      }));
+
+      const transactionRecords: TransactionRecordWithPendingCreditCheck[] = [];
+
+      for (let i = 0; i < keys.length; i += BATCH_GET_MAX_KEYS) {
+        const { Responses, UnprocessedKeys } = await executeBatchGet(
+          { maxAttempts: BATCH_GET_MAX_ATTEMPTS },
+          this.entity.table
+            .build(BatchGetCommand)
+            .requests(
+              ...keys
+                .slice(i, i + BATCH_GET_MAX_KEYS)
+                .map((key) => this.entity.build(BatchGetRequest).key(key)),
+            ),
+        );
+
+        // Skipping them would silently leave their credit checks unpolled, so whole read fails and is retried by next run
+        if (UnprocessedKeys && Object.keys(UnprocessedKeys).length > 0) {
+          this.logger.warn("Some transactions were not read from DynamoDB", {
+            unprocessedKeys: UnprocessedKeys,
+          });
+
+          return err(
+            new TransactionRecordRepoError.FailedFetchingTransactionError(
+              "Some transactions with pending credit check were not read from DynamoDB",
+            ),
+          );
+        }
+
+        for (const item of Responses?.[0] ?? []) {
+          const transactionRecord = item ? this.mapItemToTransactionRecord(item) : null;
+
+          // Resolved credit check is stored as null
+          if (transactionRecord?.hasPendingCreditCheck()) {
+            transactionRecords.push(transactionRecord);
+          }
+        }
+      }
+
+      return ok(transactionRecords);
+    } catch (error) {
+      return err(
+        new TransactionRecordRepoError.FailedFetchingTransactionError(
+          "Failed to fetch transactions with pending credit check from DynamoDB",
+          {
+            cause: error,
+          },
+        ),
+      );
+    }
+  }
 }
@@ -29,6 +29,19 @@ describe("TransactionRecordConfig", () => {
     });
   });
 
+  describe("accessPattern.getSKForPendingCreditCheck", () => {
+    it("should return sort key outside of transactions range", () => {
+      const result = TransactionRecordConfig.accessPattern.getSKForPendingCreditCheck({
+        atobaraiTransactionId: mockedAtobaraiTransactionId,
+      });
+
+      expect(result).toBe(`PENDING_CREDIT_CHECK#${mockedAtobaraiTransactionId}`);
+      expect(result.startsWith(TransactionRecordConfig.accessPattern.getSKForAllItems())).toBe(
+        false,
+      );
+    });
+  });
+
   describe("entitySchema", () => {
     it("Properly parses data and doesn't throw", () => {
       const result = TransactionRecordConfig.entitySchema.build(Parser).parse({
@@ -1,8 +1,9 @@
 import { type SaleorApiUrl } from "@saleor/apps-domain/saleor-api-url";
-import { anyOf, Entity, item, nul, string } from "dynamodb-toolbox";
+import { anyOf, boolean, Entity, item, list, map, nul, number, string } from "dynamodb-toolbox";
 
 import { type AtobaraiTransactionId } from "@/modules/atobarai/atobarai-transaction-id";
 import { DynamoMainTable, dynamoMainTable } from "@/modules/dynamodb/dynamodb-main-table";
+import { TransactionShipmentStatus } from "@/modules/transactions-recording/transaction-record";
 
 const schema = item({
   PK: string().key(),
@@ -10,6 +11,30 @@ const schema = item({
   atobaraiTransactionId: string(),
   saleorTrackingNumber: anyOf(string(), nul()),
   saleorMetadataShippingCompanyCode: anyOf(string(), nul()),
+  // Optional, because transactions recorded before credit check polling don't have it
+  pendingCreditCheck: anyOf(
+    map({
+      saleorTransactionToken: string(),
+      saleorChannelId: string(),
+      amount: number(),
+      currency: string(),
+      pspReference: string().optional(),
+    }),
+    nul(),
+  ).optional(),
+  // Optional, because transactions recorded before cancellation support don't have it
+  cancelled: boolean().optional(),
+  // Optional, because transactions recorded before order updates support don't have it
+  atobaraiDataFingerprint: anyOf(string(), nul()).optional(),
+  // Optional, because transactions recorded before multiple shipments support don't have it
+  shipments: list(
+    map({
+      saleorFulfillmentId: string(),
+      trackingNumber: string(),
+      saleorMetadataShippingCompanyCode: anyOf(string(), nul()),
+      status: string().enum(...Object.values(TransactionShipmentStatus)),
+    }),
+  ).optional(),
 });
 
 const createEntity = (table: DynamoMainTable) => {
@@ -30,6 +55,25 @@ const createEntity = (table: DynamoMainTable) => {
   });
 };
 
+/**
+ * Kept next to transaction while its credit check is pending, so polling queries only pending transactions instead of
+ * all transactions of the installation
+ */
+const pendingCreditCheckSchema = item({
+  PK: string().key(),
+  SK: string().key(),
+  atobaraiTransactionId: string(),
+});
+
+const createPendingCreditCheckEntity = (table: DynamoMainTable) => {
+  return new Entity({
+    table,
+    name: "AppTransactionPendingCreditCheck",
+    schema: pendingCreditCheckSchema,
+    timestamps: false,
+  });
+};
+
 const getPK = ({ saleorApiUrl, appId }: { saleorApiUrl: SaleorApiUrl; appId: string }): string => {
   return DynamoMainTable.getPrimaryKeyScopedToInstallation({ saleorApiUrl, appId });
 };
@@ -42,14 +86,37 @@ const getSKForSpecificItem = ({
   return `TRANSACTION#${atobaraiTransactionId}` as const;
 };
 
+const getSKForAllItems = (): string => {
+  return "TRANSACTION#" as const;
+};
+
+const getSKForPendingCreditCheck = ({
+  atobaraiTransactionId,
+}: {
+  atobaraiTransactionId: AtobaraiTransactionId;
+}): string => {
+  return `PENDING_CREDIT_CHECK#${atobaraiTransactionId}` as const;
+};
+
+const getSKForAllPendingCreditChecks = (): string => {
+  return "PENDING_CREDIT_CHECK#" as const;
+};
+
 export type TransactionRecordEntity = typeof TransactionRecordConfig.entity;
+export type TransactionPendingCreditCheckEntity =
+  typeof TransactionRecordConfig.pendingCreditCheckEntity;
 
 export const TransactionRecordConfig = {
   accessPattern: {
     getPK,
     getSKForSpecificItem,
+    getSKForAllItems,
+    getSKForPendingCreditCheck,
+    getSKForAllPendingCreditChecks,
   },
   entity: createEntity(dynamoMainTable),
   createEntity,
   entitySchema: schema,
+  pendingCreditCheckEntity: createPendingCreditCheckEntity(dynamoMainTable),
+  createPendingCreditCheckEntity,
 };
@@ -1,8 +1,11 @@
 import { describe, expect, it } from "vitest";
 
+import { getMockedTransactionRecord } from "@/__tests__/mocks/app-transaction/mocked-transaction-record";
 import { mockedAtobaraiTransactionId } from "@/__tests__/mocks/atobarai/mocked-atobarai-transaction-id";
+import { mockedSaleorTransactionToken } from "@/__tests__/mocks/saleor/mocked-saleor-transaction-token";
+import { createAtobaraiMoney } from "@/modules/atobarai/atobarai-money";
 
-import { TransactionRecord } from "./transaction-record";
+import { TransactionRecord, TransactionShipmentStatus } from "./transaction-record";
 
 describe("AppTransaction", () => {
   it("should return true for hasFulfillmentReported when saleorTrackingNumber is not null", () => {
@@ -24,4 +27,74 @@ describe("AppTransaction", () => {
 
     expect(transaction.hasFulfillmentReported()).toBe(false);
   });
+
+  it("should return shipment reported to NP", () => {
+    const reportedShipment = {
+      saleorFulfillmentId: "fulfillment-1",
+      trackingNumber: "TN000000001",
+      fulfillmentMetadataShippingCompanyCode: null,
+      status: TransactionShipmentStatus.Reported,
+    };
+    const additionalShipment = {
+      saleorFulfillmentId: "fulfillment-2",
+      trackingNumber: "TN000000002",
+      fulfillmentMetadataShippingCompanyCode: null,
+      status: TransactionShipmentStatus.Additional,
+    };
+
+    const transaction = new TransactionRecord({
+      atobaraiTransactionId: mockedAtobaraiTransactionId,
+      saleorTrackingNumber: reportedShipment.trackingNumber,
+      fulfillmentMetadataShippingCompanyCode: null,
+      shipments: [additionalShipment, reportedShipment],
+    });
+
+    expect(transaction.getReportedShipment()).toBe(reportedShipment);
+  });
+
+  it("should keep other fields when transaction is cancelled and stop polling its credit check", () => {
+    const transaction = getMockedTransactionRecord({
+      pendingCreditCheck: {
+        saleorTransactionToken: mockedSaleorTransactionToken,
+        saleorChannelId: "channel-id",
+        atobaraiMoney: createAtobaraiMoney({ amount: 1000, currency: "JPY" }),
+      },
+    });
+
+    const cancelledTransaction = transaction.markCancelled();
+
+    expect(cancelledTransaction.isCancelled()).toBe(true);
+    expect(cancelledTransaction.hasPendingCreditCheck()).toBe(false);
+    expect(cancelledTransaction.saleorTrackingNumber).toBe(transaction.saleorTrackingNumber);
+    expect(transaction.isCancelled()).toBe(false);
+  });
+
+  it("should clear pending credit check when fulfillment is reported", () => {
+    const transaction = getMockedTransactionRecord({
+      saleorTrackingNumber: null,
+      pendingCreditCheck: {
+        saleorTransactionToken: mockedSaleorTransactionToken,
+        saleorChannelId: "channel-id",
+        atobaraiMoney: createAtobaraiMoney({ amount: 1000, currency: "JPY" }),
+      },
+    });
+
+    const fulfilledTransaction = transaction.withReportedFulfillment({
+      trackingNumber: "TN000000001",
+      fulfillmentMetadataShippingCompanyCode: null,
+    });
+
+    expect(fulfilledTransaction.saleorTrackingNumber).toBe("TN000000001");
+    expect(fulfilledTransaction.hasPendingCreditCheck()).toBe(false);
+  });
+
+  it("should allow reporting fulfillment again after its report is cancelled", () => {
+    const transaction = getMockedTransactionRecord();
+
+    const transactionWithCancelledReport = transaction.withCancelledFulfillmentReport();
+
+    expect(transactionWithCancelledReport.hasFulfillmentReported()).toBe(false);
+    expect(transactionWithCancelledReport.fulfillmentMetadataShippingCompanyCode).toBeNull();
+    expect(transaction.hasFulfillmentReported()).toBe(true);
+  });
 });
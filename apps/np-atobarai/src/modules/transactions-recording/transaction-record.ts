@@ -1,22 +1,159 @@
+import { type AtobaraiDataFingerprint } from "../atobarai/atobarai-data-fingerprint";
+import { type AtobaraiMoney } from "../atobarai/atobarai-money";
 import { type AtobaraiShippingCompanyCode } from "../atobarai/atobarai-shipping-company-code";
 import { type AtobaraiTransactionId } from "../atobarai/atobarai-transaction-id";
+import { type SaleorTransactionToken } from "../saleor/saleor-transaction-token";
+
+/**
+ * Saved while NP credit check is pending (manual review), so its result can be reported to Saleor later without buyer
+ */
+export type PendingCreditCheck = {
+  saleorTransactionToken: SaleorTransactionToken;
+  saleorChannelId: string;
+  atobaraiMoney: AtobaraiMoney;
+  // Set when credit check is for amount added by order edit, which is reported with own PSP reference
+  pspReference?: string;
+};
+
+export type TransactionRecordWithPendingCreditCheck = TransactionRecord & {
+  readonly pendingCreditCheck: PendingCreditCheck;
+};
+
+export const TransactionShipmentStatus = {
+  // Tracking number of this shipment is the one NP knows for the transaction
+  Reported: "REPORTED",
+  // Next parcel of already reported transaction - NP accepts single tracking number per transaction
+  Additional: "ADDITIONAL",
+  // NP rejected the report, it's retried on the next tracking number update
+  Failed: "FAILED",
+} as const;
+
+export type TransactionShipmentStatus =
+  (typeof TransactionShipmentStatus)[keyof typeof TransactionShipmentStatus];
+
+/**
+ * Saleor fulfillment of the transaction. Order can be shipped in several parcels, each with its own tracking number
+ */
+export type TransactionShipment = {
+  saleorFulfillmentId: string;
+  trackingNumber: string;
+  // Null if fulfillment has no shipping company code in metadata and code from app config is used
+  fulfillmentMetadataShippingCompanyCode: AtobaraiShippingCompanyCode | null;
+  status: TransactionShipmentStatus;
+};
 
 export class TransactionRecord {
   readonly atobaraiTransactionId: AtobaraiTransactionId;
   readonly saleorTrackingNumber: string | null;
   readonly fulfillmentMetadataShippingCompanyCode: AtobaraiShippingCompanyCode | null;
+  readonly pendingCreditCheck: PendingCreditCheck | null;
+  readonly cancelled: boolean;
+  /**
+   * Fingerprint of order data last sent to NP, null for transactions recorded before order updates were supported
+   */
+  readonly atobaraiDataFingerprint: AtobaraiDataFingerprint | null;
+  /**
+   * Empty for transactions fulfilled before multiple shipments were supported - their tracking number is still kept in
+   * saleorTrackingNumber
+   */
+  readonly shipments: TransactionShipment[];
 
+  /**
+   * Fields added after first release are optional, so their defaults match transactions recorded before them
+   */
   constructor(args: {
     atobaraiTransactionId: AtobaraiTransactionId;
     saleorTrackingNumber: string | null;
     fulfillmentMetadataShippingCompanyCode: AtobaraiShippingCompanyCode | null;
+    pendingCreditCheck?: PendingCreditCheck | null;
+    cancelled?: boolean;
+    atobaraiDataFingerprint?: AtobaraiDataFingerprint | null;
+    shipments?: TransactionShipment[];
   }) {
     this.atobaraiTransactionId = args.atobaraiTransactionId;
     this.saleorTrackingNumber = args.saleorTrackingNumber;
     this.fulfillmentMetadataShippingCompanyCode = args.fulfillmentMetadataShippingCompanyCode;
+    this.pendingCreditCheck = args.pendingCreditCheck ?? null;
+    this.cancelled = args.cancelled ?? false;
+    this.atobaraiDataFingerprint = args.atobaraiDataFingerprint ?? null;
+    this.shipments = args.shipments ?? [];
+  }
+
+  private copyWith(changes: Partial<ConstructorParameters<typeof TransactionRecord>[0]>) {
+    return new TransactionRecord({
+      atobaraiTransactionId: this.atobaraiTransactionId,
+      saleorTrackingNumber: this.saleorTrackingNumber,
+      fulfillmentMetadataShippingCompanyCode: this.fulfillmentMetadataShippingCompanyCode,
+      pendingCreditCheck: this.pendingCreditCheck,
+      cancelled: this.cancelled,
+      atobaraiDataFingerprint: this.atobaraiDataFingerprint,
+      shipments: this.shipments,
+      ...changes,
+    });
+  }
+
+  withPendingCreditCheck(pendingCreditCheck: PendingCreditCheck | null): TransactionRecord {
+    return this.copyWith({ pendingCreditCheck });
+  }
+
+  withAtobaraiDataFingerprint(atobaraiDataFingerprint: AtobaraiDataFingerprint): TransactionRecord {
+    return this.copyWith({ atobaraiDataFingerprint });
+  }
+
+  withShipments(shipments: TransactionShipment[]): TransactionRecord {
+    return this.copyWith({ shipments });
+  }
+
+  /**
+   * NP accepts fulfillment report only for transactions that passed credit check, so it's not pending anymore
+   */
+  withReportedFulfillment(args: {
+    trackingNumber: string;
+    fulfillmentMetadataShippingCompanyCode: AtobaraiShippingCompanyCode | null;
+  }): TransactionRecord {
+    return this.copyWith({
+      saleorTrackingNumber: args.trackingNumber,
+      fulfillmentMetadataShippingCompanyCode: args.fulfillmentMetadataShippingCompanyCode,
+      pendingCreditCheck: null,
+    });
+  }
+
+  /**
+   * NP shipment report was withdrawn (e.g. to report corrected tracking number), so transaction can be reported again
+   */
+  withCancelledFulfillmentReport(): TransactionRecord {
+    return this.copyWith({
+      saleorTrackingNumber: null,
+      fulfillmentMetadataShippingCompanyCode: null,
+    });
+  }
+
+  /**
+   * Cancelled transaction won't get credit check result, so it's not polled anymore
+   */
+  markCancelled(): TransactionRecord {
+    return this.copyWith({ cancelled: true, pendingCreditCheck: null });
   }
 
   hasFulfillmentReported(): boolean {
     return this.saleorTrackingNumber !== null;
   }
+
+  getReportedShipment(): TransactionShipment | null {
+    return (
+      this.shipments.find((shipment) => shipment.status === TransactionShipmentStatus.Reported) ??
+      null
+    );
+  }
+
+  hasPendingCreditCheck(): this is TransactionRecordWithPendingCreditCheck {
+    return this.pendingCreditCheck !== null;
+  }
+
+  /**
+   * Cancelled transaction has no NP invoice anymore, so it can't be fulfilled
+   */
+  isCancelled(): boolean {
+    return this.cancelled;
+  }
 }
@@ -3,7 +3,10 @@ import { BaseError } from "@saleor/errors";
 import { type Result } from "neverthrow";
 
 import { type AtobaraiTransactionId } from "../atobarai/atobarai-transaction-id";
-import { type TransactionRecord } from "./transaction-record";
+import {
+  type TransactionRecord,
+  type TransactionRecordWithPendingCreditCheck,
+} from "./transaction-record";
 
 export type TransactionRecordRepoAccess = {
   saleorApiUrl: SaleorApiUrl;
@@ -69,4 +72,7 @@ export interface TransactionRecordRepo {
     accessPattern: TransactionRecordRepoAccess,
     id: AtobaraiTransactionId,
   ): Promise<Result<TransactionRecord, TransactionRecordRepoError>>;
+  getTransactionsWithPendingCreditCheck(
+    accessPattern: TransactionRecordRepoAccess,
+  ): Promise<Result<TransactionRecordWithPendingCreditCheck[], TransactionRecordRepoError>>;
 }
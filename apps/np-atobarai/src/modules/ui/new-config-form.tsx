@@ -5,16 +5,36 @@ import { Box, Button, Text } from "@saleor/macaw-ui";
 import { Combobox, Input, Toggle, type ToggleProps } from "@saleor/react-hook-form-macaw";
 import { useRouter } from "next/router";
 import { useForm } from "react-hook-form";
+import { z } from "zod";
 
-import {
-  type NewConfigInput,
-  newConfigInputSchema,
-} from "@/modules/app-config/trpc-handlers/new-config-input-schema";
+import { newConfigInputSchema } from "@/modules/app-config/trpc-handlers/new-config-input-schema";
 import { trpcClient } from "@/modules/trpc/trpc-client";
 
 import { SHIPPING_COMPANY_CODES } from "../atobarai/atobarai-shipping-company-code";
 
-type FormShape = NewConfigInput;
+/**
+ * Eligibility rules are typed as comma-separated text in the form and converted to lists on submit
+ */
+const formSchema = newConfigInputSchema.omit({ eligibilityRules: true }).extend({
+  maxOrderAmount: z.string().regex(/^([1-9]\d*)?$/, "Provide amount in JPY without separators"),
+  allowedPrefectures: z.string(),
+  allowedPostalCodeRanges: z
+    .string()
+    .regex(
+      /^(\s*\d{7}-\d{7}\s*)?(,\s*\d{7}-\d{7}\s*)*$/,
+      "Provide ranges like 1000000-1999999 separated by commas",
+    ),
+  excludedShippingMethodIds: z.string(),
+  excludedProductTypeIds: z.string(),
+});
+
+type FormShape = z.infer<typeof formSchema>;
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
 
 const RequiredInputLabel = (props: { labelText: string }) => {
   return (
@@ -75,8 +95,13 @@ export const NewConfigForm = () => {
       secretSpCode: "",
       terminalId: "",
       useSandbox: true,
+      maxOrderAmount: "",
+      allowedPrefectures: "",
+      allowedPostalCodeRanges: "",
+      excludedShippingMethodIds: "",
+      excludedProductTypeIds: "",
     },
-    resolver: zodResolver(newConfigInputSchema),
+    resolver: zodResolver(formSchema),
   });
 
   const onSubmit = (values: FormShape) => {
@@ -88,6 +113,17 @@ export const NewConfigForm = () => {
       secretSpCode: values.secretSpCode,
       terminalId: values.terminalId,
       useSandbox: values.useSandbox,
+      eligibilityRules: {
+        maxOrderAmount: values.maxOrderAmount ? Number(values.maxOrderAmount) : null,
+        allowedPrefectures: splitList(values.allowedPrefectures),
+        allowedPostalCodeRanges: splitList(values.allowedPostalCodeRanges).map((range) => {
+          const [from, to] = range.split("-");
+
+          return { from, to };
+        }),
+        excludedShippingMethodIds: splitList(values.excludedShippingMethodIds),
+        excludedProductTypeIds: splitList(values.excludedProductTypeIds),
+      },
     });
   };
 
@@ -157,6 +193,60 @@ export const NewConfigForm = () => {
 
           <DecoratedToggle control={control} name="skuAsName" label="Fill SKU as name" />
           <DecoratedToggle control={control} name="useSandbox" label="Use sandbox mode" />
+
+          <Text size={4} fontWeight="bold">
+            Eligibility rules
+          </Text>
+          <Text size={2} color="default2">
+            NP Atobarai will not be offered for checkouts that don&apos;t match these rules. Leave
+            fields empty to skip the rule.
+          </Text>
+
+          <Input
+            label="Max order amount (JPY)"
+            name="maxOrderAmount"
+            control={control}
+            helperText={errors.maxOrderAmount?.message}
+            error={!!errors.maxOrderAmount}
+          />
+
+          <Input
+            label="Allowed prefectures"
+            name="allowedPrefectures"
+            control={control}
+            helperText={
+              errors.allowedPrefectures?.message ??
+              "Comma-separated prefecture names, for example '東京都, 大阪府'."
+            }
+            error={!!errors.allowedPrefectures}
+          />
+
+          <Input
+            label="Allowed postal code ranges"
+            name="allowedPostalCodeRanges"
+            control={control}
+            helperText={
+              errors.allowedPostalCodeRanges?.message ??
+              "Comma-separated ranges, for example '1000000-1999999'."
+            }
+            error={!!errors.allowedPostalCodeRanges}
+          />
+
+          <Input
+            label="Excluded shipping method IDs"
+            name="excludedShippingMethodIds"
+            control={control}
+            helperText={errors.excludedShippingMethodIds?.message ?? "Comma-separated Saleor IDs."}
+            error={!!errors.excludedShippingMethodIds}
+          />
+
+          <Input
+            label="Excluded product type IDs"
+            name="excludedProductTypeIds"
+            control={control}
+            helperText={errors.excludedProductTypeIds?.message ?? "Comma-separated Saleor IDs."}
+            error={!!errors.excludedProductTypeIds}
+          />
         </Box>
       </Box>
     </Layout.AppSectionCard>
@@ -0,0 +1,555 @@
+import { http, HttpResponse, type JsonBodyType } from "msw";
+import Stripe from "stripe";
+
+import { mockedStripeCardPaymentMethod } from "@/__tests__/mocks/mocked-stripe-payment-method";
+
+import { parseStripeFormParams, type StripeFormParams } from "./stripe-form-params";
+
+const STRIPE_API_URL = "https://api.stripe.com/v1";
+
+export type FakeStripeWebhookDelivery = {
+  url: string;
+  rawBody: string;
+  signatureHeader: string;
+  event: Stripe.Event;
+};
+
+type FakeStripeWebhookEndpoint = Stripe.WebhookEndpoint & { secret: string };
+
+/**
+ * In-process stand-in for Stripe API, served through MSW. The real StripeClient uses fetch, so its requests land here
+ * without any changes in app code.
+ *
+ * Covers PaymentIntents, charges, refunds and webhook endpoints. State changes emit events the same way Stripe does -
+ * they are signed with secrets of matching webhook endpoints and queued until test delivers them.
+ *
+ * Usage: `mswServer.use(...fakeStripe.handlers)`, then drive the app and call `takePendingDeliveries()` to get signed
+ * requests for the Stripe webhook route.
+ */
+export class FakeStripeServer {
+  private paymentIntents = new Map<string, Stripe.PaymentIntent>();
+  private charges = new Map<string, Stripe.Charge>();
+  private refunds = new Map<string, Stripe.Refund>();
+  private webhookEndpoints = new Map<string, FakeStripeWebhookEndpoint>();
+  private idempotentResponses = new Map<string, JsonBodyType>();
+  private pendingEvents: Stripe.Event[] = [];
+  private idCounter = 0;
+
+  /**
+   * Only used to sign events - Stripe SDK computes signatures locally
+   */
+  private signer = new Stripe("sk_test_fake_stripe_server");
+
+  private generateId(prefix: string) {
+    this.idCounter += 1;
+
+    return `${prefix}_fake${this.idCounter.toString().padStart(8, "0")}`;
+  }
+
+  private now() {
+    return Math.floor(Date.now() / 1000);
+  }
+
+  private notFound(resource: string, id: string) {
+    return HttpResponse.json(
+      {
+        error: {
+          type: "invalid_request_error",
+          code: "resource_missing",
+          message: `No such ${resource}: '${id}'`,
+        },
+      },
+      { status: 404 },
+    );
+  }
+
+  private invalidRequest(message: string) {
+    return HttpResponse.json(
+      {
+        error: {
+          type: "invalid_request_error",
+          message,
+        },
+      },
+      { status: 400 },
+    );
+  }
+
+  private async parseParams(request: Request) {
+    if (request.method === "GET" || request.method === "DELETE") {
+      return parseStripeFormParams(new URL(request.url).searchParams);
+    }
+
+    return parseStripeFormParams(new URLSearchParams(await request.text()));
+  }
+
+  private getExpandedFields(params: StripeFormParams) {
+    return Array.isArray(params.expand) ? params.expand : [];
+  }
+
+  /**
+   * Stripe returns stored response when request with the same Idempotency-Key is repeated
+   */
+  private withIdempotency(request: Request, createResponse: () => JsonBodyType) {
+    const idempotencyKey = request.headers.get("Idempotency-Key");
+    const cacheKey = idempotencyKey ? `${new URL(request.url).pathname}#${idempotencyKey}` : null;
+
+    if (cacheKey && this.idempotentResponses.has(cacheKey)) {
+      return this.idempotentResponses.get(cacheKey);
+    }
+
+    const response = createResponse();
+
+    if (cacheKey) {
+      this.idempotentResponses.set(cacheKey, response);
+    }
+
+    return response;
+  }
+
+  private emitEvent(type: Stripe.Event.Type, object: { id: string }) {
+    this.pendingEvents.push({
+      id: this.generateId("evt"),
+      object: "event",
+      api_version: null,
+      created: this.now(),
+      data: {
+        object: structuredClone(object),
+      },
+      livemode: false,
+      pending_webhooks: this.webhookEndpoints.size,
+      request: { id: null, idempotency_key: null },
+      type,
+    } as Stripe.Event);
+  }
+
+  private serializePaymentIntent(paymentIntent: Stripe.PaymentIntent, expand: unknown[] = []) {
+    const paymentMethodId = paymentIntent.payment_method as string | null;
+    const latestChargeId = paymentIntent.latest_charge as string | null;
+
+    return {
+      ...paymentIntent,
+      payment_method:
+        paymentMethodId && expand.includes("payment_method")
+          ? { ...mockedStripeCardPaymentMethod, id: paymentMethodId }
+          : paymentMethodId,
+      latest_charge:
+        latestChargeId && expand.includes("latest_charge")
+          ? this.charges.get(latestChargeId)
+          : latestChargeId,
+    };
+  }
+
+  /**
+   * App sets manual capture per payment method (payment_method_options), so both places are checked
+   */
+  private isManualCapture(paymentIntent: Stripe.PaymentIntent) {
+    return (
+      paymentIntent.capture_method === "manual" ||
+      paymentIntent.payment_method_options?.card?.capture_method === "manual"
+    );
+  }
+
+  private createCharge(paymentIntent: Stripe.PaymentIntent, captured: boolean) {
+    const charge = {
+      id: this.generateId("ch"),
+      object: "charge",
+      amount: paymentIntent.amount,
+      amount_captured: captured ? paymentIntent.amount : 0,
+      amount_refunded: 0,
+      captured,
+      created: this.now(),
+      currency: paymentIntent.currency,
+      livemode: false,
+      metadata: {},
+      paid: true,
+      payment_intent: paymentIntent.id,
+      payment_method: paymentIntent.payment_method,
+      payment_method_details: {
+        type: "card",
+        card: {
+          brand: "visa",
+          last4: "4242",
+        },
+      },
+      refunded: false,
+      status: "succeeded",
+    } as unknown as Stripe.Charge;
+
+    this.charges.set(charge.id, charge);
+
+    return charge;
+  }
+
+  private confirm(paymentIntent: Stripe.PaymentIntent, paymentMethod: string) {
+    const isManualCapture = this.isManualCapture(paymentIntent);
+    const charge = this.createCharge(
+      { ...paymentIntent, payment_method: paymentMethod },
+      !isManualCapture,
+    );
+
+    const confirmed: Stripe.PaymentIntent = {
+      ...paymentIntent,
+      payment_method: paymentMethod,
+      latest_charge: charge.id,
+      last_payment_error: null,
+      status: isManualCapture ? "requires_capture" : "succeeded",
+      amount_capturable: isManualCapture ? paymentIntent.amount : 0,
+      amount_received: isManualCapture ? 0 : paymentIntent.amount,
+    };
+
+    this.paymentIntents.set(confirmed.id, confirmed);
+    this.emitEvent(
+      isManualCapture ? "payment_intent.amount_capturable_updated" : "payment_intent.succeeded",
+      confirmed,
+    );
+
+    return confirmed;
+  }
+
+  /**
+   * Simulates buyer confirming payment on the storefront with Stripe.js
+   */
+  confirmPaymentIntent(paymentIntentId: string, paymentMethod = "pm_card_visa") {
+    const paymentIntent = this.paymentIntents.get(paymentIntentId);
+
+    if (!paymentIntent) {
+      throw new Error(`Fake Stripe: PaymentIntent ${paymentIntentId} doesn't exist`);
+    }
+
+    return this.confirm(paymentIntent, paymentMethod);
+  }
+
+  /**
+   * Simulates payment declined by card issuer
+   */
+  failPaymentIntent(paymentIntentId: string) {
+    const paymentIntent = this.paymentIntents.get(paymentIntentId);
+
+    if (!paymentIntent) {
+      throw new Error(`Fake Stripe: PaymentIntent ${paymentIntentId} doesn't exist`);
+    }
+
+    const failed = {
+      ...paymentIntent,
+      status: "requires_payment_method",
+      last_payment_error: {
+        type: "card_error",
+        code: "card_declined",
+        message: "Your card was declined.",
+      },
+    } as Stripe.PaymentIntent;
+
+    this.paymentIntents.set(failed.id, failed);
+    this.emitEvent("payment_intent.payment_failed", failed);
+
+    return failed;
+  }
+
+  getPaymentIntent(paymentIntentId: string) {
+    return this.paymentIntents.get(paymentIntentId);
+  }
+
+  getRefund(refundId: string) {
+    return this.refunds.get(refundId);
+  }
+
+  getWebhookEndpoints() {
+    return Array.from(this.webhookEndpoints.values());
+  }
+
+  /**
+   * Returns events emitted since the last call, signed for each webhook endpoint subscribed to them
+   */
+  takePendingDeliveries(): FakeStripeWebhookDelivery[] {
+    const events = this.pendingEvents;
+
+    this.pendingEvents = [];
+
+    return events.flatMap((event) =>
+      this.getWebhookEndpoints()
+        .filter(
+          (endpoint) =>
+            endpoint.status === "enabled" &&
+            (endpoint.enabled_events.includes("*") || endpoint.enabled_events.includes(event.type)),
+        )
+        .map((endpoint) => {
+          const rawBody = JSON.stringify(event, null, 2);
+
+          return {
+            url: endpoint.url,
+            rawBody,
+            signatureHeader: this.signer.webhooks.generateTestHeaderString({
+              payload: rawBody,
+              secret: endpoint.secret,
+            }),
+            event,
+          };
+        }),
+    );
+  }
+
+  reset() {
+    this.paymentIntents.clear();
+    this.charges.clear();
+    this.refunds.clear();
+    this.webhookEndpoints.clear();
+    this.idempotentResponses.clear();
+    this.pendingEvents = [];
+  }
+
+  readonly handlers = [
+    http.get(`${STRIPE_API_URL}/payment_intents`, () => {
+      return HttpResponse.json({
+        object: "list",
+        data: Array.from(this.paymentIntents.values()).map((paymentIntent) =>
+          this.serializePaymentIntent(paymentIntent),
+        ),
+        has_more: false,
+        url: "/v1/payment_intents",
+      });
+    }),
+
+    http.post(`${STRIPE_API_URL}/payment_intents`, async ({ request }) => {
+      const params = await this.parseParams(request);
+
+      const response = this.withIdempotency(request, () => {
+        const id = this.generateId("pi");
+
+        const paymentIntent = {
+          id,
+          object: "payment_intent",
+          amount: Number(params.amount),
+          amount_capturable: 0,
+          amount_received: 0,
+          application_fee_amount: params.application_fee_amount
+            ? Number(params.application_fee_amount)
+            : null,
+          capture_method: params.capture_method ?? "automatic",
+          client_secret: `${id}_secret_fake`,
+          created: this.now(),
+          currency: params.currency,
+          customer: params.customer ?? null,
+          description: params.description ?? null,
+          last_payment_error: null,
+          latest_charge: null,
+          livemode: false,
+          metadata: params.metadata ?? {},
+          next_action: null,
+          payment_method: null,
+          payment_method_options: params.payment_method_options ?? {},
+          payment_method_types: params.payment_method_types ?? ["card"],
+          receipt_email: params.receipt_email ?? null,
+          shipping: params.shipping ?? null,
+          status: "requires_payment_method",
+          transfer_data: params.transfer_data ?? null,
+        } as unknown as Stripe.PaymentIntent;
+
+        this.paymentIntents.set(id, paymentIntent);
+
+        const created =
+          params.confirm === "true" && typeof params.payment_method === "string"
+            ? this.confirm(paymentIntent, params.payment_method)
+            : paymentIntent;
+
+        return this.serializePaymentIntent(created);
+      });
+
+      return HttpResponse.json(response);
+    }),
+
+    http.get(`${STRIPE_API_URL}/payment_intents/:id`, async ({ request, params: { id } }) => {
+      const paymentIntent = this.paymentIntents.get(id as string);
+
+      if (!paymentIntent) {
+        return this.notFound("payment_intent", id as string);
+      }
+
+      const params = await this.parseParams(request);
+
+      return HttpResponse.json(
+        this.serializePaymentIntent(paymentIntent, this.getExpandedFields(params)),
+      );
+    }),
+
+    http.post(
+      `${STRIPE_API_URL}/payment_intents/:id/capture`,
+      async ({ request, params: { id } }) => {
+        const paymentIntent = this.paymentIntents.get(id as string);
+
+        if (!paymentIntent) {
+          return this.notFound("payment_intent", id as string);
+        }
+
+        if (paymentIntent.status !== "requires_capture") {
+          return this.invalidRequest(
+            `This PaymentIntent could not be captured because it has a status of ${paymentIntent.status}.`,
+          );
+        }
+
+        const params = await this.parseParams(request);
+        const amountToCapture = params.amount_to_capture
+          ? Number(params.amount_to_capture)
+          : paymentIntent.amount_capturable;
+
+        if (amountToCapture > paymentIntent.amount_capturable) {
+          return this.invalidRequest("Amount to capture is greater than the capturable amount.");
+        }
+
+        const captured: Stripe.PaymentIntent = {
+          ...paymentIntent,
+          status: "succeeded",
+          amount_received: amountToCapture,
+          amount_capturable: 0,
+          metadata: { ...paymentIntent.metadata, ...(params.metadata as Stripe.Metadata) },
+        };
+
+        this.paymentIntents.set(captured.id, captured);
+        this.emitEvent("payment_intent.succeeded", captured);
+
+        return HttpResponse.json(this.serializePaymentIntent(captured));
+      },
+    ),
+
+    http.post(`${STRIPE_API_URL}/payment_intents/:id/cancel`, ({ params: { id } }) => {
+      const paymentIntent = this.paymentIntents.get(id as string);
+
+      if (!paymentIntent) {
+        return this.notFound("payment_intent", id as string);
+      }
+
+      if (paymentIntent.status === "succeeded" || paymentIntent.status === "canceled") {
+        return this.invalidRequest(
+          `This PaymentIntent could not be canceled because it has a status of ${paymentIntent.status}.`,
+        );
+      }
+
+      const canceled: Stripe.PaymentIntent = {
+        ...paymentIntent,
+        status: "canceled",
+        amount_capturable: 0,
+        canceled_at: this.now(),
+      };
+
+      this.paymentIntents.set(canceled.id, canceled);
+      this.emitEvent("payment_intent.canceled", canceled);
+
+      return HttpResponse.json(this.serializePaymentIntent(canceled));
+    }),
+
+    http.get(`${STRIPE_API_URL}/charges`, async ({ request }) => {
+      const params = await this.parseParams(request);
+
+      return HttpResponse.json({
+        object: "list",
+        data: Array.from(this.charges.values()).filter(
+          (charge) => !params.payment_intent || charge.payment_intent === params.payment_intent,
+        ),
+        has_more: false,
+        url: "/v1/charges",
+      });
+    }),
+
+    http.post(`${STRIPE_API_URL}/refunds`, async ({ request }) => {
+      const params = await this.parseParams(request);
+      const paymentIntent = this.paymentIntents.get(params.payment_intent as string);
+
+      if (!paymentIntent) {
+        return this.notFound("payment_intent", params.payment_intent as string);
+      }
+
+      const refundedAmount = Array.from(this.refunds.values())
+        .filter((refund) => refund.payment_intent === paymentIntent.id)
+        .reduce((sum, refund) => sum + refund.amount, 0);
+      const amount = params.amount
+        ? Number(params.amount)
+        : paymentIntent.amount_received - refundedAmount;
+
+      if (amount > paymentIntent.amount_received - refundedAmount) {
+        return this.invalidRequest(
+          `Refund amount (${amount}) is greater than unrefunded amount on charge.`,
+        );
+      }
+
+      const response = this.withIdempotency(request, () => {
+        const refund = {
+          id: this.generateId("re"),
+          object: "refund",
+          amount,
+          charge: paymentIntent.latest_charge,
+          created: this.now(),
+          currency: paymentIntent.currency,
+          metadata: params.metadata ?? {},
+          payment_intent: paymentIntent.id,
+          reason: params.reason ?? null,
+          status: "succeeded",
+        } as unknown as Stripe.Refund;
+
+        this.refunds.set(refund.id, refund);
+        this.emitEvent("charge.refund.updated", refund);
+
+        return refund;
+      });
+
+      return HttpResponse.json(response);
+    }),
+
+    http.get(`${STRIPE_API_URL}/refunds`, async ({ request }) => {
+      const params = await this.parseParams(request);
+
+      return HttpResponse.json({
+        object: "list",
+        data: Array.from(this.refunds.values()).filter(
+          (refund) => !params.payment_intent || refund.payment_intent === params.payment_intent,
+        ),
+        has_more: false,
+        url: "/v1/refunds",
+      });
+    }),
+
+    http.post(`${STRIPE_API_URL}/webhook_endpoints`, async ({ request }) => {
+      const params = await this.parseParams(request);
+      const id = this.generateId("we");
+
+      const webhookEndpoint = {
+        id,
+        object: "webhook_endpoint",
+        api_version: params.api_version ?? null,
+        application: null,
+        created: this.now(),
+        description: params.description ?? null,
+        enabled_events: params.enabled_events ?? [],
+        livemode: false,
+        metadata: params.metadata ?? {},
+        secret: `whsec_${id}`,
+        status: "enabled",
+        url: params.url,
+      } as FakeStripeWebhookEndpoint;
+
+      this.webhookEndpoints.set(id, webhookEndpoint);
+
+      return HttpResponse.json(webhookEndpoint);
+    }),
+
+    http.get(`${STRIPE_API_URL}/webhook_endpoints/:id`, ({ params: { id } }) => {
+      const webhookEndpoint = this.webhookEndpoints.get(id as string);
+
+      if (!webhookEndpoint) {
+        return this.notFound("webhook_endpoint", id as string);
+      }
+
+      // Stripe returns secret only once, when endpoint is created
+      const { secret: _secret, ...withoutSecret } = webhookEndpoint;
+
+      return HttpResponse.json(withoutSecret);
+    }),
+
+    http.delete(`${STRIPE_API_URL}/webhook_endpoints/:id`, ({ params: { id } }) => {
+      if (!this.webhookEndpoints.delete(id as string)) {
+        return this.notFound("webhook_endpoint", id as string);
+      }
+
+      return HttpResponse.json({ id, object: "webhook_endpoint", deleted: true });
+    }),
+  ];
+}
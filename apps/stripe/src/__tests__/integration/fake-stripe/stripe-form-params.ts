@@ -0,0 +1,37 @@
+export type StripeFormParams = {
+  [key: string]: string | StripeFormParams | Array<string | StripeFormParams>;
+};
+
+/**
+ * Stripe SDK encodes nested params with brackets, e.g. `metadata[key]=value` or `expand[0]=payment_method`.
+ * Values are left as strings - Stripe API coerces them per field, so does the fake.
+ */
+export const parseStripeFormParams = (searchParams: URLSearchParams): StripeFormParams => {
+  const result: StripeFormParams = {};
+
+  for (const [rawKey, value] of searchParams.entries()) {
+    const [rootKey, ...nestedKeys] = rawKey.replaceAll("]", "").split("[");
+    const keys = [rootKey, ...nestedKeys];
+
+    let target: StripeFormParams | Array<string | StripeFormParams> = result;
+
+    keys.forEach((key, index) => {
+      const isLast = index === keys.length - 1;
+      const container = target as Record<string, string | StripeFormParams | unknown[]>;
+
+      if (isLast) {
+        container[key] = value;
+
+        return;
+      }
+
+      if (!container[key]) {
+        container[key] = /^\d+$/.test(keys[index + 1]) ? [] : {};
+      }
+
+      target = container[key] as StripeFormParams;
+    });
+  }
+
+  return result;
+};
@@ -16,8 +16,12 @@ export const transactionInitializeSessionFixture =
         channel: {
           slug: "default-channel",
           id: mockedSaleorChannelId,
+          metadata: [],
         },
         id: "checkout-id",
+        lines: [],
+        shippingPrice: { gross: { amount: 0 } },
+        totalPrice: { tax: { amount: 0 } },
       },
       recipient: {
         id: mockedSaleorAppId,
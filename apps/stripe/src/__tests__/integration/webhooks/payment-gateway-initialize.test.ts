@@ -90,7 +90,9 @@ describe("PaymentGatewayInitialize webhook: integration", async () => {
 
         const body = await response.json();
 
-        expect(body).toStrictEqual({ data: { stripePublishableKey: "pk_live_1" } });
+        expect(body).toStrictEqual({
+          data: { stripePublishableKey: "pk_live_1", savedPaymentMethods: [] },
+        });
 
         expect(response.status).toStrictEqual(200);
       },
@@ -0,0 +1,327 @@
+import { DynamoAPL } from "@saleor/app-sdk/APL/dynamodb";
+import { Encryptor } from "@saleor/apps-shared/encryptor";
+import { type NtarhInitAppRouter, testApiHandler } from "next-test-api-route-handler";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { mockedSaleorAppId, mockedSaleorChannelId } from "@/__tests__/mocks/constants";
+import { mockedStripePublishableKeyTest } from "@/__tests__/mocks/mocked-stripe-publishable-key";
+import { mockedStripeRestrictedKeyTest } from "@/__tests__/mocks/mocked-stripe-restricted-key";
+import * as transactionChargeRequested from "@/app/api/webhooks/saleor/transaction-charge-requested/route";
+import * as transactionInitializeSession from "@/app/api/webhooks/saleor/transaction-initialize-session/route";
+import * as transactionProcessSession from "@/app/api/webhooks/saleor/transaction-process-session/route";
+import * as transactionRefundRequested from "@/app/api/webhooks/saleor/transaction-refund-requested/route";
+import * as verifyWebhookSignatureModule from "@/app/api/webhooks/saleor/verify-signature";
+import * as stripeWebhookHandlers from "@/app/api/webhooks/stripe/route";
+import { RandomId } from "@/lib/random-id";
+import { StripeConfig } from "@/modules/app-config/domain/stripe-config";
+import { DynamoDbChannelConfigMapping } from "@/modules/app-config/repositories/dynamodb/channel-config-mapping-db-model";
+import { DynamodbAppConfigRepo } from "@/modules/app-config/repositories/dynamodb/dynamodb-app-config-repo";
+import { DynamoDbStripeConfig } from "@/modules/app-config/repositories/dynamodb/stripe-config-db-model";
+import { dynamoMainTable } from "@/modules/dynamodb/dynamo-main-table";
+import { createSaleorApiUrl } from "@/modules/saleor/saleor-api-url";
+import { createSaleorTransactionFlow } from "@/modules/saleor/saleor-transaction-flow";
+import { createStripePaymentIntentId } from "@/modules/stripe/stripe-payment-intent-id";
+import { StripeWebhookManager } from "@/modules/stripe/stripe-webhook-manager";
+import { createStripeWebhookSecret } from "@/modules/stripe/stripe-webhook-secret";
+
+import { env } from "../env";
+import { FakeStripeServer } from "../fake-stripe/fake-stripe-server";
+import { mswServer } from "../msw-server";
+import { transactionChargeRequestedFixture } from "./fixtures/transaction-charge-requested-fixture";
+import { transactionInitializeSessionFixture } from "./fixtures/transaction-initialize-session-fixture";
+import { transactionProcessSessionFixture } from "./fixtures/transaction-process-session-fixture";
+import { transactionRefundRequestedFixture } from "./fixtures/transaction-refund-requested-fixture";
+
+const realSaleorApiUrl = createSaleorApiUrl(env.INTEGRATION_SALEOR_API_URL)._unsafeUnwrap();
+
+const configId = new RandomId().generate();
+
+const configRepo = new DynamodbAppConfigRepo({
+  entities: {
+    channelConfigMapping: DynamoDbChannelConfigMapping.entity,
+    stripeConfig: DynamoDbStripeConfig.entity,
+  },
+  encryptor: new Encryptor(env.SECRET_KEY),
+});
+
+const apl = DynamoAPL.create({
+  table: dynamoMainTable,
+});
+
+const fakeStripe = new FakeStripeServer();
+
+const saleorRequestVarsSpy = vi.fn();
+
+const saleorHeaders = (event: string) =>
+  new Headers({
+    "saleor-api-url": realSaleorApiUrl,
+    "saleor-event": event,
+    "saleor-signature": "mock-signature",
+  });
+
+const callSaleorWebhook = async (
+  appHandler: NtarhInitAppRouter["appHandler"],
+  event: string,
+  payload: unknown,
+) => {
+  let body: unknown;
+
+  await testApiHandler({
+    appHandler,
+    async test({ fetch }) {
+      const response = await fetch({
+        method: "POST",
+        body: JSON.stringify(payload),
+        headers: saleorHeaders(event),
+      });
+
+      expect(response.status).toStrictEqual(200);
+
+      body = await response.json();
+    },
+  });
+
+  return body as Record<string, unknown>;
+};
+
+/**
+ * Sends events queued by fake Stripe to the Stripe webhook route, the same way Stripe would
+ */
+const deliverStripeEvents = async () => {
+  const deliveries = fakeStripe.takePendingDeliveries();
+
+  for (const delivery of deliveries) {
+    await testApiHandler({
+      appHandler: stripeWebhookHandlers,
+      url: delivery.url,
+      async test({ fetch }) {
+        const response = await fetch({
+          method: "POST",
+          body: delivery.rawBody,
+          headers: new Headers({
+            "stripe-signature": delivery.signatureHeader,
+          }),
+        });
+
+        expect(await response.text()).toStrictEqual("Ok");
+      },
+    });
+  }
+
+  return deliveries.map((delivery) => delivery.event.type);
+};
+
+const getReportedSaleorEvents = () =>
+  saleorRequestVarsSpy.mock.calls.map(([requestJSON]) => requestJSON.variables);
+
+describe("Stripe round trip against fake Stripe: integration", () => {
+  beforeAll(() =>
+    mswServer.listen({
+      onUnhandledRequest: (request, print) => {
+        if (request.url.includes(env.AWS_ENDPOINT_URL)) {
+          return; // Do not print warnings for DynamoDB local
+        }
+
+        // Every Stripe and Saleor request must be handled by the fakes
+        print.error();
+      },
+    }),
+  );
+  afterAll(() => mswServer.close());
+  afterEach(() => {
+    mswServer.resetHandlers();
+    mswServer.events.removeAllListeners();
+    fakeStripe.reset();
+  });
+
+  beforeEach(async () => {
+    vi.spyOn(verifyWebhookSignatureModule, "verifyWebhookSignature").mockImplementation(
+      async () => {},
+    );
+
+    mswServer.use(...fakeStripe.handlers);
+
+    mswServer.events.on("response:mocked", async ({ request }) => {
+      if (request.url !== realSaleorApiUrl) {
+        return;
+      }
+
+      saleorRequestVarsSpy(await request.clone().json());
+    });
+
+    await apl.set({
+      saleorApiUrl: realSaleorApiUrl,
+      appId: mockedSaleorAppId,
+      token: "mocked-token",
+      jwks: "{}",
+    });
+
+    // Webhook is created the same way as in configuration UI, so fake Stripe knows where to deliver events
+    const webhook = await new StripeWebhookManager().createWebhook(
+      {
+        name: "Config name",
+        restrictedKey: mockedStripeRestrictedKeyTest,
+        publishableKey: mockedStripePublishableKeyTest,
+        configurationId: configId,
+      },
+      {
+        appUrl: "https://stripe-v2.saleor.app",
+        saleorApiUrl: realSaleorApiUrl,
+        appId: mockedSaleorAppId,
+      },
+    );
+
+    await configRepo.saveStripeConfig({
+      saleorApiUrl: realSaleorApiUrl,
+      appId: mockedSaleorAppId,
+      config: StripeConfig.create({
+        publishableKey: mockedStripePublishableKeyTest,
+        name: "Config name",
+        webhookId: webhook._unsafeUnwrap().id,
+        restrictedKey: mockedStripeRestrictedKeyTest,
+        webhookSecret: createStripeWebhookSecret(webhook._unsafeUnwrap().secret)._unsafeUnwrap(),
+        id: configId,
+      })._unsafeUnwrap(),
+    });
+
+    await configRepo.updateMapping(
+      {
+        saleorApiUrl: realSaleorApiUrl,
+        appId: mockedSaleorAppId,
+      },
+      {
+        configId: configId,
+        channelId: mockedSaleorChannelId,
+      },
+    );
+  });
+
+  it("Charges and refunds payment, reporting results from Stripe webhooks to Saleor", async () => {
+    const initializeResponse = await callSaleorWebhook(
+      transactionInitializeSession,
+      "transaction_initialize_session",
+      transactionInitializeSessionFixture(),
+    );
+
+    expect(initializeResponse.result).toStrictEqual("CHARGE_ACTION_REQUIRED");
+
+    const stripePaymentIntentId = createStripePaymentIntentId(
+      initializeResponse.pspReference as string,
+    );
+
+    fakeStripe.confirmPaymentIntent(stripePaymentIntentId);
+
+    const processResponse = await callSaleorWebhook(
+      transactionProcessSession,
+      "transaction_process_session",
+      transactionProcessSessionFixture(
+        stripePaymentIntentId,
+        createSaleorTransactionFlow("CHARGE"),
+      ),
+    );
+
+    expect(processResponse).toStrictEqual(
+      expect.objectContaining({
+        result: "CHARGE_SUCCESS",
+        amount: 123.3,
+        pspReference: stripePaymentIntentId,
+      }),
+    );
+
+    expect(await deliverStripeEvents()).toStrictEqual(["payment_intent.succeeded"]);
+
+    const refundResponse = await callSaleorWebhook(
+      transactionRefundRequested,
+      "transaction_refund_requested",
+      transactionRefundRequestedFixture(stripePaymentIntentId),
+    );
+
+    const stripeRefundId = refundResponse.pspReference as string;
+
+    expect(fakeStripe.getRefund(stripeRefundId)?.payment_intent).toStrictEqual(
+      stripePaymentIntentId,
+    );
+
+    expect(await deliverStripeEvents()).toStrictEqual(["charge.refund.updated"]);
+
+    expect(getReportedSaleorEvents()).toStrictEqual([
+      expect.objectContaining({
+        type: "CHARGE_SUCCESS",
+        amount: 123.3,
+        pspReference: stripePaymentIntentId,
+      }),
+      expect.objectContaining({
+        type: "REFUND_SUCCESS",
+        pspReference: stripeRefundId,
+      }),
+    ]);
+  });
+
+  it("Authorizes and captures payment, reporting results from Stripe webhooks to Saleor", async () => {
+    const initializeFixture = transactionInitializeSessionFixture();
+
+    const initializeResponse = await callSaleorWebhook(
+      transactionInitializeSession,
+      "transaction_initialize_session",
+      {
+        ...initializeFixture,
+        action: { ...initializeFixture.action, actionType: "AUTHORIZATION" },
+      },
+    );
+
+    expect(initializeResponse.result).toStrictEqual("AUTHORIZATION_ACTION_REQUIRED");
+
+    const stripePaymentIntentId = createStripePaymentIntentId(
+      initializeResponse.pspReference as string,
+    );
+
+    fakeStripe.confirmPaymentIntent(stripePaymentIntentId);
+
+    expect(fakeStripe.getPaymentIntent(stripePaymentIntentId)?.status).toStrictEqual(
+      "requires_capture",
+    );
+
+    const processResponse = await callSaleorWebhook(
+      transactionProcessSession,
+      "transaction_process_session",
+      transactionProcessSessionFixture(
+        stripePaymentIntentId,
+        createSaleorTransactionFlow("AUTHORIZATION"),
+      ),
+    );
+
+    expect(processResponse.result).toStrictEqual("AUTHORIZATION_SUCCESS");
+
+    expect(await deliverStripeEvents()).toStrictEqual(["payment_intent.amount_capturable_updated"]);
+
+    const chargeResponse = await callSaleorWebhook(
+      transactionChargeRequested,
+      "transaction_charge_requested",
+      transactionChargeRequestedFixture({ stripePaymentIntentId, amount: 123.3 }),
+    );
+
+    expect(chargeResponse).toStrictEqual(
+      expect.objectContaining({
+        result: "CHARGE_SUCCESS",
+        pspReference: stripePaymentIntentId,
+      }),
+    );
+
+    expect(fakeStripe.getPaymentIntent(stripePaymentIntentId)?.amount_received).toStrictEqual(
+      12330,
+    );
+
+    expect(await deliverStripeEvents()).toStrictEqual(["payment_intent.succeeded"]);
+
+    expect(getReportedSaleorEvents()).toStrictEqual([
+      expect.objectContaining({
+        type: "AUTHORIZATION_SUCCESS",
+        pspReference: stripePaymentIntentId,
+      }),
+      expect.objectContaining({
+        type: "CHARGE_SUCCESS",
+        pspReference: stripePaymentIntentId,
+      }),
+    ]);
+  });
+});
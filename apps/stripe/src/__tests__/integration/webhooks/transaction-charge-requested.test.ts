@@ -50,6 +50,7 @@ const configRepo = new DynamodbAppConfigRepo({
 
 const transactionRecorderRepo = new DynamoDBTransactionRecorderRepo({
   entity: DynamoDbRecordedTransaction.entity,
+  byDateEntity: DynamoDbRecordedTransaction.byDateEntity,
 });
 
 const apl = DynamoAPL.create({
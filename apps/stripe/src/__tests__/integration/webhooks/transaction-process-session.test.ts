@@ -47,6 +47,7 @@ const configRepo = new DynamodbAppConfigRepo({
 
 const transactionRecorderRepo = new DynamoDBTransactionRecorderRepo({
   entity: DynamoDbRecordedTransaction.entity,
+  byDateEntity: DynamoDbRecordedTransaction.byDateEntity,
 });
 
 const apl = DynamoAPL.create({
@@ -0,0 +1,31 @@
+import { ok, type Result } from "neverthrow";
+
+import { type AuditLogEntry } from "@/modules/audit-log/domain/audit-log-entry";
+import {
+  type AuditLogRepo,
+  type AuditLogRepoAccess,
+  type AuditLogRepoError,
+} from "@/modules/audit-log/repositories/audit-log-repo";
+
+export class MockedAuditLogRepo implements AuditLogRepo {
+  public entries: AuditLogEntry[] = [];
+
+  async saveEntry(
+    _accessPattern: AuditLogRepoAccess,
+    entry: AuditLogEntry,
+  ): Promise<Result<null, AuditLogRepoError>> {
+    this.entries.push(entry);
+
+    return ok(null);
+  }
+
+  async getEntries(
+    _accessPattern: AuditLogRepoAccess,
+  ): Promise<Result<AuditLogEntry[], AuditLogRepoError>> {
+    return ok(this.entries);
+  }
+
+  reset() {
+    this.entries = [];
+  }
+}
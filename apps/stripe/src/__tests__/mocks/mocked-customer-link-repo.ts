@@ -0,0 +1,52 @@
+import { ok, type Result } from "neverthrow";
+
+import { LinkedStripeCustomer } from "@/modules/customers-linking/domain/linked-stripe-customer";
+import {
+  type CustomerLinkRepo,
+  type CustomerLinkRepoAccess,
+  type CustomerLinkRepoError,
+} from "@/modules/customers-linking/repositories/customer-link-repo";
+
+export class MockedCustomerLinkRepo implements CustomerLinkRepo {
+  public linkedCustomers: Record<string, LinkedStripeCustomer> = {};
+
+  private getKey(args: { saleorUserId: string; configurationId: string }) {
+    return `${args.configurationId}#${args.saleorUserId}`;
+  }
+
+  async saveLinkedCustomer(
+    _accessPattern: CustomerLinkRepoAccess,
+    linkedCustomer: LinkedStripeCustomer,
+  ): Promise<Result<null, CustomerLinkRepoError>> {
+    this.linkedCustomers[this.getKey(linkedCustomer)] = linkedCustomer;
+
+    return ok(null);
+  }
+
+  async getLinkedCustomer(
+    _accessPattern: CustomerLinkRepoAccess,
+    args: { saleorUserId: string; configurationId: string },
+  ): Promise<Result<LinkedStripeCustomer | null, CustomerLinkRepoError>> {
+    return ok(this.linkedCustomers[this.getKey(args)] ?? null);
+  }
+
+  async markCustomerCharged(
+    _accessPattern: CustomerLinkRepoAccess,
+    args: { saleorUserId: string; configurationId: string },
+  ): Promise<Result<null, CustomerLinkRepoError>> {
+    const linkedCustomer = this.linkedCustomers[this.getKey(args)];
+
+    if (linkedCustomer) {
+      this.linkedCustomers[this.getKey(args)] = new LinkedStripeCustomer({
+        ...linkedCustomer,
+        hasCompletedCharge: true,
+      });
+    }
+
+    return ok(null);
+  }
+
+  reset() {
+    this.linkedCustomers = {};
+  }
+}
@@ -0,0 +1,47 @@
+import { ok, type Result } from "neverthrow";
+
+import { type DeadLetterStripeEvent } from "@/modules/dead-letter-events/domain/dead-letter-stripe-event";
+import {
+  type DeadLetterEventRepo,
+  type DeadLetterEventRepoAccess,
+  type DeadLetterEventRepoError,
+} from "@/modules/dead-letter-events/repositories/dead-letter-event-repo";
+
+export class MockedDeadLetterEventRepo implements DeadLetterEventRepo {
+  public events: Record<string, DeadLetterStripeEvent> = {};
+
+  async saveEvent(
+    _accessPattern: DeadLetterEventRepoAccess,
+    event: DeadLetterStripeEvent,
+  ): Promise<Result<null, DeadLetterEventRepoError>> {
+    this.events[event.stripeEventId] = event;
+
+    return ok(null);
+  }
+
+  async getEvent(
+    _accessPattern: DeadLetterEventRepoAccess,
+    stripeEventId: string,
+  ): Promise<Result<DeadLetterStripeEvent | null, DeadLetterEventRepoError>> {
+    return ok(this.events[stripeEventId] ?? null);
+  }
+
+  async getEvents(
+    _accessPattern: DeadLetterEventRepoAccess,
+  ): Promise<Result<DeadLetterStripeEvent[], DeadLetterEventRepoError>> {
+    return ok(Object.values(this.events));
+  }
+
+  async removeEvent(
+    _accessPattern: DeadLetterEventRepoAccess,
+    stripeEventId: string,
+  ): Promise<Result<null, DeadLetterEventRepoError>> {
+    delete this.events[stripeEventId];
+
+    return ok(null);
+  }
+
+  reset() {
+    this.events = {};
+  }
+}
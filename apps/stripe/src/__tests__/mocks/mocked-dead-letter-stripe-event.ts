@@ -0,0 +1,20 @@
+import { mockedConfigurationId } from "@/__tests__/mocks/constants";
+import { getMockedPaymentIntentSucceededEvent } from "@/__tests__/mocks/stripe-events/mocked-payment-intent-succeeded";
+import { DeadLetterStripeEvent } from "@/modules/dead-letter-events/domain/dead-letter-stripe-event";
+
+export const getMockedDeadLetterStripeEvent = (
+  params?: Partial<ConstructorParameters<typeof DeadLetterStripeEvent>[0]>,
+) => {
+  const event = getMockedPaymentIntentSucceededEvent();
+
+  return new DeadLetterStripeEvent({
+    stripeEventId: event.id,
+    stripeEventType: event.type,
+    configurationId: mockedConfigurationId,
+    rawEvent: JSON.stringify(event),
+    errorMessage: "TransactionRecorder.TransactionMissingError: Transaction not found",
+    attemptCount: 1,
+    lastFailedAt: new Date("2024-01-01T00:00:00.000Z"),
+    ...params,
+  });
+};
@@ -0,0 +1,3 @@
+import { createStripeCheckoutSessionId } from "@/modules/stripe/stripe-checkout-session-id";
+
+export const mockedStripeCheckoutSessionId = createStripeCheckoutSessionId("cs_TEST_TEST_TEST");
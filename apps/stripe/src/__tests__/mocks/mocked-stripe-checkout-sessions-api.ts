@@ -0,0 +1,7 @@
+import { vi } from "vitest";
+
+import { type IStripeCheckoutSessionsApi } from "@/modules/stripe/types";
+
+export const mockedStripeCheckoutSessionsApi = {
+  createCheckoutSession: vi.fn(),
+} satisfies IStripeCheckoutSessionsApi;
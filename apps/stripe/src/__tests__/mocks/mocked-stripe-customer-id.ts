@@ -0,0 +1,3 @@
+import { createStripeCustomerId } from "@/modules/stripe/stripe-customer-id";
+
+export const mockedStripeCustomerId = createStripeCustomerId("cus_TEST_TEST_TEST");
@@ -0,0 +1,8 @@
+import { vi } from "vitest";
+
+import { type IStripeCustomersApi } from "@/modules/stripe/types";
+
+export const mockedStripeCustomersApi = {
+  createCustomer: vi.fn(),
+  listPaymentMethods: vi.fn(),
+} satisfies IStripeCustomersApi;
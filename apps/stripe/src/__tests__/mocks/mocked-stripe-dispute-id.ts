@@ -0,0 +1,3 @@
+import { createStripeDisputeId } from "@/modules/stripe/stripe-dispute-id";
+
+export const mockedStripeDisputeId = createStripeDisputeId("dp_TEST_TEST_TEST");
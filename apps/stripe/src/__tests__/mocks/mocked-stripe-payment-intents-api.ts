@@ -7,4 +7,6 @@ export const mockedStripePaymentIntentsApi = {
   getPaymentIntent: vi.fn(),
   capturePaymentIntent: vi.fn(),
   cancelPaymentIntent: vi.fn(),
+  incrementAuthorization: vi.fn(),
+  listCharges: vi.fn(),
 } satisfies IStripePaymentIntentsApi;
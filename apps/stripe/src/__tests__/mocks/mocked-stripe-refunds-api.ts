@@ -4,4 +4,5 @@ import { type IStripeRefundsApi } from "@/modules/stripe/types";
 
 export const mockedStripeRefundsApi = {
   createRefund: vi.fn(),
+  listRefunds: vi.fn(),
 } satisfies IStripeRefundsApi;
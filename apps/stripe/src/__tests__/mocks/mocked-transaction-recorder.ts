@@ -33,6 +33,13 @@ export class MockedTransactionRecorder implements TransactionRecorderRepo {
     }
   }
 
+  async getTransactionsCreatedAfter(
+    _accessPattern: TransactionRecorderRepoAccess,
+    _createdAfter: Date,
+  ): Promise<Result<RecordedTransaction[], TransactionRecorderError>> {
+    return ok(Object.values(this.transactions));
+  }
+
   reset() {
     this.transactions = {};
   }
@@ -0,0 +1,44 @@
+import { type OrderUpdatedEventFragment } from "@/generated/graphql";
+
+import { mockedSaleorAppId, mockedSaleorChannelId, mockedSaleorTransactionId } from "../constants";
+import { mockedStripePaymentIntentId } from "../mocked-stripe-payment-intent-id";
+
+export const getMockedOrderUpdatedEvent = (
+  args: {
+    total?: number;
+    totalAuthorized?: number;
+    totalCharged?: number;
+  } = {},
+): OrderUpdatedEventFragment => ({
+  order: {
+    id: "mocked-order-id",
+    channel: {
+      id: mockedSaleorChannelId,
+      slug: "channel-slug",
+    },
+    total: {
+      gross: {
+        amount: args.total ?? 150,
+        currency: "USD",
+      },
+    },
+    totalAuthorized: {
+      amount: args.totalAuthorized ?? 100,
+    },
+    totalCharged: {
+      amount: args.totalCharged ?? 0,
+    },
+    transactions: [
+      {
+        id: mockedSaleorTransactionId,
+        pspReference: mockedStripePaymentIntentId,
+        authorizedAmount: {
+          amount: args.totalAuthorized ?? 100,
+        },
+        createdBy: {
+          id: mockedSaleorAppId,
+        },
+      },
+    ],
+  },
+});
@@ -4,7 +4,9 @@ import { type TransactionInitializeSessionEventFragment } from "@/generated/grap
 import { mockedSaleorChannelId, mockedSaleorTransactionId } from "../constants";
 
 export const getMockedTransactionInitializeSessionEvent = (args?: {
-  actionType: "CHARGE" | "AUTHORIZATION";
+  actionType?: "CHARGE" | "AUTHORIZATION";
+  saleorUserId?: string;
+  data?: unknown;
 }): TransactionInitializeSessionEventFragment => ({
   action: {
     amount: 100,
@@ -14,17 +16,46 @@ export const getMockedTransactionInitializeSessionEvent = (args?: {
   transaction: {
     id: mockedSaleorTransactionId,
   },
-  data: parseTransactionInitializeSessionEventData({
-    paymentIntent: {
-      paymentMethod: "card",
+  data: parseTransactionInitializeSessionEventData(
+    args?.data ?? {
+      paymentIntent: {
+        paymentMethod: "card",
+      },
     },
-  })._unsafeUnwrap(),
+  )._unsafeUnwrap(),
   sourceObject: {
     id: "mock-channel-1",
     __typename: "Checkout",
+    email: "buyer@example.com",
+    user: args?.saleorUserId ? { id: args.saleorUserId } : null,
+    lines: [
+      {
+        quantity: 2,
+        unitPrice: { gross: { amount: 45 }, tax: { amount: 5 } },
+        variant: { name: "Blue", sku: "TSHIRT-BLUE", product: { name: "T-shirt", metadata: [] } },
+      },
+    ],
+    shippingPrice: { gross: { amount: 10 } },
+    totalPrice: { tax: { amount: 10 } },
+    shippingAddress: {
+      firstName: "John",
+      lastName: "Doe",
+      companyName: "",
+      streetAddress1: "Main Street 1",
+      streetAddress2: "",
+      city: "New York",
+      postalCode: "10001",
+      countryArea: "NY",
+      phone: "+12125550100",
+      country: { code: "US" },
+    },
+    billingAddress: {
+      country: { code: "US" },
+    },
     channel: {
       id: mockedSaleorChannelId,
       slug: "channel-slug",
+      metadata: [],
     },
   },
   idempotencyKey: "idempotency-key",
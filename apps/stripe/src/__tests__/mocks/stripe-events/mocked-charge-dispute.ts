@@ -0,0 +1,62 @@
+import type Stripe from "stripe";
+
+import { mockedStripePaymentIntentId } from "@/__tests__/mocks/mocked-stripe-payment-intent-id";
+
+import { mockedStripeDisputeId } from "../mocked-stripe-dispute-id";
+
+type SupportedDisputeEventType =
+  | "charge.dispute.created"
+  | "charge.dispute.updated"
+  | "charge.dispute.closed"
+  | "charge.dispute.funds_withdrawn"
+  | "charge.dispute.funds_reinstated";
+
+type Options = {
+  type?: SupportedDisputeEventType;
+  status?: Stripe.Dispute.Status;
+  evidenceDueBy?: number | null;
+};
+
+export const getMockedChargeDisputeEvent = (opts?: Options) => {
+  // Stripe returns timestamp in seconds
+  const date = new Date(2025, 1, 1).getTime() / 1000;
+  const evidenceDueBy = new Date(2025, 1, 15).getTime() / 1000;
+
+  return {
+    account: "",
+    api_version: "",
+    request: { id: null, idempotency_key: null },
+    object: "event",
+    livemode: false,
+    pending_webhooks: 0,
+    id: "evt_event-id",
+    created: date,
+    type: opts?.type ?? "charge.dispute.created",
+    data: {
+      object: {
+        id: mockedStripeDisputeId,
+        object: "dispute",
+        amount: 1000,
+        currency: "usd",
+        balance_transactions: [],
+        charge: "ch_charge-id",
+        created: date,
+        enhanced_eligibility_types: [],
+        evidence: {} as Stripe.Dispute.Evidence,
+        evidence_details: {
+          due_by: opts?.evidenceDueBy === undefined ? evidenceDueBy : opts.evidenceDueBy,
+          enhanced_eligibility: {},
+          has_evidence: false,
+          past_due: false,
+          submission_count: 0,
+        },
+        is_charge_refundable: false,
+        livemode: false,
+        metadata: {},
+        payment_intent: mockedStripePaymentIntentId,
+        reason: "fraudulent",
+        status: opts?.status ?? "needs_response",
+      },
+    },
+  } as Stripe.ChargeDisputeCreatedEvent;
+};
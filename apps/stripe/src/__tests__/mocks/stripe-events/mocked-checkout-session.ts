@@ -0,0 +1,65 @@
+import type Stripe from "stripe";
+
+import { mockedSaleorAppId, mockedSaleorTransactionId } from "@/__tests__/mocks/constants";
+import { mockedStripeCheckoutSessionId } from "@/__tests__/mocks/mocked-stripe-checkout-session-id";
+import { mockedStripePaymentIntentId } from "@/__tests__/mocks/mocked-stripe-payment-intent-id";
+
+// Stripe returns timestamp in seconds
+const date = new Date(2025, 1, 1).getTime() / 1000;
+
+const getMockedCheckoutSession = () =>
+  ({
+    id: mockedStripeCheckoutSessionId,
+    object: "checkout.session",
+    mode: "payment",
+    amount_total: 10000,
+    currency: "usd",
+    created: date,
+    livemode: false,
+    url: null,
+    metadata: {
+      saleor_transaction_id: mockedSaleorTransactionId,
+      saleor_source_id: "checkout-id-123",
+      saleor_source_type: "Checkout",
+      saleor_app_id: mockedSaleorAppId,
+      saleor_transaction_flow: "CHARGE",
+      saleor_schema_version: "3.22",
+    },
+  }) as unknown as Stripe.Checkout.Session;
+
+const eventBase = {
+  account: "",
+  api_version: "",
+  request: { id: null, idempotency_key: null },
+  object: "event",
+  livemode: false,
+  pending_webhooks: 0,
+  id: "evt_event-id",
+  created: date,
+} as const;
+
+export const getMockedCheckoutSessionCompletedEvent = (): Stripe.CheckoutSessionCompletedEvent => ({
+  ...eventBase,
+  type: "checkout.session.completed",
+  data: {
+    object: {
+      ...getMockedCheckoutSession(),
+      status: "complete",
+      payment_status: "paid",
+      payment_intent: mockedStripePaymentIntentId,
+    },
+  },
+});
+
+export const getMockedCheckoutSessionExpiredEvent = (): Stripe.CheckoutSessionExpiredEvent => ({
+  ...eventBase,
+  type: "checkout.session.expired",
+  data: {
+    object: {
+      ...getMockedCheckoutSession(),
+      status: "expired",
+      payment_status: "unpaid",
+      payment_intent: null,
+    },
+  },
+});
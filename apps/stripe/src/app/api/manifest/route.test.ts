@@ -31,8 +31,7 @@ describe("Manifest handler", async () => {
         expect(body).toMatchInlineSnapshot(
           {
             version: expect.any(String),
-          },
-          `
+          }, `
           {
             "about": "App that allows merchants using the Saleor e-commerce platform to accept online payments from customers using Stripe as their payment processor.",
             "appUrl": "https://localhost:3000",
@@ -49,6 +48,7 @@ describe("Manifest handler", async () => {
             "name": "Stripe",
             "permissions": [
               "HANDLE_PAYMENTS",
+              "MANAGE_ORDERS",
             ],
             "requiredSaleorVersion": ">=3.21 <4",
             "supportUrl": "https://saleor.io/discord",
@@ -58,7 +58,7 @@ describe("Manifest handler", async () => {
               {
                 "isActive": true,
                 "name": "Stripe Payment Gateway Initialize",
-                "query": "subscription PaymentGatewayInitializeSession { event { ...PaymentGatewayInitializeSessionEvent }}fragment EventMetadata on Event { version recipient { id }}fragment Channel on Channel { id slug}fragment SourceObject on OrderOrCheckout { ... on Checkout { __typename id channel { ...Channel } } ... on Order { __typename id channel { ...Channel } }}fragment PaymentGatewayInitializeSessionEvent on PaymentGatewayInitializeSession { ...EventMetadata sourceObject { ...SourceObject }}",
+                "query": "subscription PaymentGatewayInitializeSession { event { ...PaymentGatewayInitializeSessionEvent }}fragment EventMetadata on Event { version recipient { id }}fragment Channel on Channel { id slug}fragment SourceObject on OrderOrCheckout { ... on Checkout { __typename id email user { id } channel { ...Channel } } ... on Order { __typename id userEmail user { id } channel { ...Channel } }}fragment PaymentGatewayInitializeSessionEvent on PaymentGatewayInitializeSession { ...EventMetadata sourceObject { ...SourceObject }}",
                 "syncEvents": [
                   "PAYMENT_GATEWAY_INITIALIZE_SESSION",
                 ],
@@ -67,7 +67,7 @@ describe("Manifest handler", async () => {
               {
                 "isActive": true,
                 "name": "Stripe Transaction Initialize Session",
-                "query": "subscription TransactionInitializeSession { event { ...TransactionInitializeSessionEvent }}fragment EventMetadata on Event { version recipient { id }}fragment Channel on Channel { id slug}fragment SourceObject on OrderOrCheckout { ... on Checkout { __typename id channel { ...Channel } } ... on Order { __typename id channel { ...Channel } }}fragment TransactionInitializeSessionEvent on TransactionInitializeSession { ...EventMetadata action { amount currency actionType } data transaction { id } sourceObject { ...SourceObject } idempotencyKey}",
+                "query": "subscription TransactionInitializeSession { event { ...TransactionInitializeSessionEvent }}fragment EventMetadata on Event { version recipient { id }}fragment Channel on Channel { id slug}fragment SourceObject on OrderOrCheckout { ... on Checkout { __typename id email user { id } channel { ...Channel } } ... on Order { __typename id userEmail user { id } channel { ...Channel } }}fragment PaymentIntentAddress on Address { firstName lastName companyName streetAddress1 streetAddress2 city postalCode countryArea phone country { code }}fragment TransactionInitializeSessionEvent on TransactionInitializeSession { ...EventMetadata action { amount currency actionType } data transaction { id } sourceObject { ...SourceObject ... on Checkout { channel { metadata { key value } } lines { quantity unitPrice { gross { amount } tax { amount } } variant { name sku product { name metadata { key value } } } } shippingPrice { gross { amount } } totalPrice { tax { amount } } shippingAddress { ...PaymentIntentAddress } billingAddress { country { code } } } ... on Order { number channel { metadata { key value } } lines { quantity productName variantName productSku productVariant: variant { product { metadata { key value } } } unitPrice { gross { amount } tax { amount } } } shippingPrice { gross { amount } } total { tax { amount } } shippingAddress { ...PaymentIntentAddress } billingAddress { country { code } } } } idempotencyKey}",
                 "syncEvents": [
                   "TRANSACTION_INITIALIZE_SESSION",
                 ],
@@ -76,7 +76,7 @@ describe("Manifest handler", async () => {
               {
                 "isActive": true,
                 "name": "Stripe Transaction Process Session",
-                "query": "subscription TransactionProcessSession { event { ...TransactionProcessSessionEvent }}fragment EventMetadata on Event { version recipient { id }}fragment Channel on Channel { id slug}fragment SourceObject on OrderOrCheckout { ... on Checkout { __typename id channel { ...Channel } } ... on Order { __typename id channel { ...Channel } }}fragment TransactionProcessSessionEvent on TransactionProcessSession { ...EventMetadata transaction { pspReference } action { amount actionType } sourceObject { ...SourceObject }}",
+                "query": "subscription TransactionProcessSession { event { ...TransactionProcessSessionEvent }}fragment EventMetadata on Event { version recipient { id }}fragment Channel on Channel { id slug}fragment SourceObject on OrderOrCheckout { ... on Checkout { __typename id email user { id } channel { ...Channel } } ... on Order { __typename id userEmail user { id } channel { ...Channel } }}fragment TransactionProcessSessionEvent on TransactionProcessSession { ...EventMetadata transaction { pspReference } action { amount actionType } sourceObject { ...SourceObject }}",
                 "syncEvents": [
                   "TRANSACTION_PROCESS_SESSION",
                 ],
@@ -109,10 +109,18 @@ describe("Manifest handler", async () => {
                 ],
                 "targetUrl": "https://localhost:3000/api/webhooks/saleor/transaction-refund-requested",
               },
+              {
+                "asyncEvents": [
+                  "ORDER_UPDATED",
+                ],
+                "isActive": true,
+                "name": "Stripe Order Updated",
+                "query": "subscription OrderUpdated { event { ...OrderUpdatedEvent }}fragment EventMetadata on Event { version recipient { id }}fragment Channel on Channel { id slug}fragment OrderUpdatedEvent on OrderUpdated { ...EventMetadata order { id channel { ...Channel } total { gross { amount currency } } totalAuthorized { amount } totalCharged { amount } transactions { id pspReference authorizedAmount { amount } createdBy { ... on App { id } } } }}",
+                "targetUrl": "https://localhost:3000/api/webhooks/saleor/order-updated",
+              },
             ],
           }
-        `,
-        );
+        `);
       },
     });
   });
@@ -1,5 +1,5 @@
 import { createManifestHandler } from "@saleor/app-sdk/handlers/next-app-router";
-import { type AppManifest } from "@saleor/app-sdk/types";
+import { type AppExtension, type AppManifest } from "@saleor/app-sdk/types";
 import { withSpanAttributesAppRouter } from "@saleor/apps-otel/src/with-span-attributes";
 import { compose } from "@saleor/apps-shared/compose";
 
@@ -7,6 +7,7 @@ import { env } from "@/lib/env";
 import { withLoggerContext } from "@/lib/logger-context";
 import packageJson from "@/package.json";
 
+import { orderUpdatedWebhookDefinition } from "../webhooks/saleor/order-updated/webhook-definition";
 import { paymentGatewayInitializeSessionWebhookDefinition } from "../webhooks/saleor/payment-gateway-initialize-session/webhook-definition";
 import { transactionCancelationRequestedWebhookDefinition } from "../webhooks/saleor/transaction-cancelation-requested/webhook-definition";
 import { transactionChargeRequestedWebhookDefinition } from "../webhooks/saleor/transaction-charge-requested/webhook-definition";
@@ -15,10 +16,32 @@ import { transactionProcessSessionWebhookDefinition } from "../webhooks/saleor/t
 import { transactionRefundRequestedWebhookDefinition } from "../webhooks/saleor/transaction-refund-requested/webhook-definition";
 
 const handler = createManifestHandler({
-  async manifestFactory({ appBaseUrl }) {
+  async manifestFactory({ appBaseUrl, schemaVersion }) {
     const iframeBaseUrl = env.APP_IFRAME_BASE_URL ?? appBaseUrl;
     const apiBaseUrl = env.APP_API_BASE_URL ?? appBaseUrl;
 
+    const orderDetailsExtension: AppExtension = {
+      target: "WIDGET",
+      options: {
+        widgetTarget: {
+          method: "POST",
+        },
+      },
+      label: "Stripe transactions",
+      mount: "ORDER_DETAILS_WIDGETS",
+      url: `${apiBaseUrl}/api/order-details`,
+      permissions: [],
+    };
+
+    const extensions: AppExtension[] = [];
+
+    const saleorMinor = schemaVersion && schemaVersion[1];
+
+    // POST widgets are supported since Saleor 3.22
+    if (saleorMinor && saleorMinor >= 22) {
+      extensions.push(orderDetailsExtension);
+    }
+
     const manifest: AppManifest = {
       about:
         "App that allows merchants using the Saleor e-commerce platform to accept online payments from customers using Stripe as their payment processor.",
@@ -30,14 +53,17 @@ const handler = createManifestHandler({
         },
       },
       dataPrivacyUrl: "https://saleor.io/legal/privacy/",
-      extensions: [],
+      extensions,
       homepageUrl: "https://github.com/saleor/apps",
       id: env.MANIFEST_APP_ID,
       /**
        * Can set custom name, e.g. in Development to recognize the app
        */
       name: env.APP_NAME,
-      permissions: ["HANDLE_PAYMENTS"],
+      /**
+       * MANAGE_ORDERS is required to receive ORDER_UPDATED, which is used to increment authorization
+       */
+      permissions: ["HANDLE_PAYMENTS", "MANAGE_ORDERS"],
       requiredSaleorVersion: ">=3.21 <4",
       supportUrl: "https://saleor.io/discord",
       tokenTargetUrl: `${apiBaseUrl}/api/register`,
@@ -49,6 +75,7 @@ const handler = createManifestHandler({
         transactionChargeRequestedWebhookDefinition.getWebhookManifest(apiBaseUrl),
         transactionCancelationRequestedWebhookDefinition.getWebhookManifest(apiBaseUrl),
         transactionRefundRequestedWebhookDefinition.getWebhookManifest(apiBaseUrl),
+        orderUpdatedWebhookDefinition.getWebhookManifest(apiBaseUrl),
       ],
     };
 
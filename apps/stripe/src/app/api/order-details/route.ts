@@ -0,0 +1,98 @@
+import { verifyJWT } from "@saleor/app-sdk/auth";
+import { type ExtensionPOSTAttributes } from "@saleor/app-sdk/types";
+import { compose } from "@saleor/apps-shared/compose";
+import { type NextRequest } from "next/server";
+
+import { createInstrumentedGraphqlClient } from "@/lib/graphql-client";
+import { createLogger } from "@/lib/logger";
+import { withLoggerContext } from "@/lib/logger-context";
+import { saleorApp } from "@/lib/saleor-app";
+import { appConfigRepoImpl } from "@/modules/app-config/repositories/app-config-repo-impl";
+import { OrderTransactionsFetcher } from "@/modules/saleor/order-transactions-fetcher";
+import { createSaleorApiUrl } from "@/modules/saleor/saleor-api-url";
+import { StripePaymentIntentsApiFactory } from "@/modules/stripe/stripe-payment-intents-api-factory";
+import { StripeRefundsApiFactory } from "@/modules/stripe/stripe-refunds-api-factory";
+import { transactionRecorder } from "@/modules/transactions-recording/repositories/transaction-recorder-impl";
+
+import { OrderDetailsUseCase } from "./use-case";
+
+const useCase = new OrderDetailsUseCase({
+  appConfigRepo: appConfigRepoImpl,
+  transactionRecorder,
+  stripePaymentIntentsApiFactory: new StripePaymentIntentsApiFactory(),
+  stripeRefundsApiFactory: new StripeRefundsApiFactory(),
+});
+
+const logger = createLogger("OrderDetailsHandler");
+
+const getFieldsFromRequest = async (req: NextRequest) => {
+  const body = await req.formData();
+
+  return {
+    orderId: body.get("orderId") as string | undefined,
+    saleorApiUrl: body.get("saleorApiUrl") as string,
+    accessToken: body.get("accessToken") as string,
+    appId: body.get("appId") as string,
+  } satisfies ExtensionPOSTAttributes;
+};
+
+/**
+ * Dashboard widget is rendered from POST response. Data is resolved here and passed to SSR page, which renders HTML.
+ */
+const OrderDetailsHandler = async (req: NextRequest): Promise<Response> => {
+  const { orderId, saleorApiUrl, appId, accessToken } = await getFieldsFromRequest(req);
+
+  try {
+    await verifyJWT({
+      token: accessToken,
+      appId,
+      saleorApiUrl,
+    });
+  } catch (e) {
+    logger.info("Failed to verify JWT", { error: e });
+
+    return new Response("Failed to verify JWT", { status: 401 });
+  }
+
+  if (!orderId) {
+    return new Response("Order ID is missing", { status: 400 });
+  }
+
+  const parsedSaleorApiUrl = createSaleorApiUrl(saleorApiUrl);
+  const authData = await saleorApp.apl.get(saleorApiUrl);
+
+  if (parsedSaleorApiUrl.isErr() || !authData) {
+    return new Response("Not authorized", { status: 401 });
+  }
+
+  const result = await useCase.execute({
+    orderId,
+    appId: authData.appId,
+    saleorApiUrl: parsedSaleorApiUrl.value,
+    orderTransactionsFetcher: new OrderTransactionsFetcher(
+      createInstrumentedGraphqlClient(authData),
+    ),
+  });
+
+  if (result.isErr()) {
+    logger.warn("Failed to inspect order transactions", { error: result.error });
+
+    if (result.error instanceof OrderDetailsUseCase.ConfigMissingError) {
+      return new Response("App is not configured", { status: 400 });
+    }
+
+    return new Response("Failed to fetch transactions details", { status: 500 });
+  }
+
+  const qs = new URLSearchParams({ inspection: JSON.stringify(result.value) });
+
+  const page = await fetch(new URL("/order-details?" + qs.toString(), req.url));
+
+  return new Response(await page.text(), {
+    headers: {
+      "Content-Type": "text/html",
+    },
+  });
+};
+
+export const POST = compose(withLoggerContext)(OrderDetailsHandler);
@@ -0,0 +1,150 @@
+import { err, ok } from "neverthrow";
+import type Stripe from "stripe";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { mockedAppConfigRepo } from "@/__tests__/mocks/app-config-repo";
+import { mockedSaleorAppId, mockedSaleorChannelId } from "@/__tests__/mocks/constants";
+import { getMockedRecordedTransaction } from "@/__tests__/mocks/mocked-recorded-transaction";
+import { mockedStripePaymentIntentId } from "@/__tests__/mocks/mocked-stripe-payment-intent-id";
+import { mockedStripePaymentIntentsApi } from "@/__tests__/mocks/mocked-stripe-payment-intents-api";
+import { mockedStripeRefundsApi } from "@/__tests__/mocks/mocked-stripe-refunds-api";
+import { MockedTransactionRecorder } from "@/__tests__/mocks/mocked-transaction-recorder";
+import { mockedSaleorApiUrl } from "@/__tests__/mocks/saleor-api-url";
+import { OrderTransactionsFetcher } from "@/modules/saleor/order-transactions-fetcher";
+import {
+  type IStripePaymentIntentsApiFactory,
+  type IStripeRefundsApiFactory,
+} from "@/modules/stripe/types";
+
+import { OrderDetailsUseCase } from "./use-case";
+
+describe("OrderDetailsUseCase", () => {
+  const transactionRecorder = new MockedTransactionRecorder();
+
+  const mockedOrderTransactionsFetcher = {
+    fetchOrderTransactions: vi.fn(),
+  };
+
+  const paymentIntent = {
+    id: mockedStripePaymentIntentId,
+    status: "succeeded",
+    amount: 100_00,
+    amount_received: 100_00,
+    currency: "usd",
+    created: 1_700_000_000,
+    latest_charge: null,
+    payment_method: null,
+  } as unknown as Stripe.PaymentIntent;
+
+  const createUseCase = () =>
+    new OrderDetailsUseCase({
+      appConfigRepo: mockedAppConfigRepo,
+      transactionRecorder,
+      stripePaymentIntentsApiFactory: {
+        create: () => mockedStripePaymentIntentsApi,
+      } satisfies IStripePaymentIntentsApiFactory,
+      stripeRefundsApiFactory: {
+        create: () => mockedStripeRefundsApi,
+      } satisfies IStripeRefundsApiFactory,
+    });
+
+  const execute = () =>
+    createUseCase().execute({
+      orderId: "order-id",
+      appId: mockedSaleorAppId,
+      saleorApiUrl: mockedSaleorApiUrl,
+      orderTransactionsFetcher:
+        mockedOrderTransactionsFetcher as unknown as OrderTransactionsFetcher,
+    });
+
+  const mockOrderTransactions = (transactions: Array<{ id: string; pspReference: string }>) =>
+    mockedOrderTransactionsFetcher.fetchOrderTransactions.mockImplementation(async () =>
+      ok({ channelId: mockedSaleorChannelId, transactions }),
+    );
+
+  beforeEach(() => {
+    transactionRecorder.reset();
+
+    mockedStripePaymentIntentsApi.getPaymentIntent.mockImplementation(async () =>
+      ok(paymentIntent),
+    );
+    mockedStripePaymentIntentsApi.listCharges.mockImplementation(async () => ok([]));
+    mockedStripeRefundsApi.listRefunds.mockImplementation(async () => ok([]));
+  });
+
+  it("should return inspection of transactions recorded by the app and skip others", async () => {
+    await transactionRecorder.recordTransaction(
+      { appId: mockedSaleorAppId, saleorApiUrl: mockedSaleorApiUrl },
+      getMockedRecordedTransaction(),
+    );
+
+    mockOrderTransactions([
+      { id: "mocked-transaction-id", pspReference: mockedStripePaymentIntentId },
+      { id: "other-app-transaction-id", pspReference: "pi_not_recorded" },
+      { id: "expired-session-transaction-id", pspReference: "cs_test_123" },
+    ]);
+
+    const result = await execute();
+
+    expect(result._unsafeUnwrap()).toStrictEqual({
+      transactions: [
+        expect.objectContaining({
+          saleorTransactionId: "mocked-transaction-id",
+          paymentIntent: expect.objectContaining({
+            id: mockedStripePaymentIntentId,
+            status: "succeeded",
+            amount: 100,
+          }),
+        }),
+      ],
+      failedTransactions: [],
+    });
+    expect(mockedStripePaymentIntentsApi.getPaymentIntent).toHaveBeenCalledTimes(1);
+  });
+
+  it("should list transaction as failed if Stripe request fails", async () => {
+    await transactionRecorder.recordTransaction(
+      { appId: mockedSaleorAppId, saleorApiUrl: mockedSaleorApiUrl },
+      getMockedRecordedTransaction(),
+    );
+
+    mockOrderTransactions([
+      { id: "mocked-transaction-id", pspReference: mockedStripePaymentIntentId },
+    ]);
+    mockedStripeRefundsApi.listRefunds.mockImplementation(async () =>
+      err(new Error("Stripe error")),
+    );
+
+    const result = await execute();
+
+    expect(result._unsafeUnwrap()).toStrictEqual({
+      transactions: [],
+      failedTransactions: [
+        {
+          saleorTransactionId: "mocked-transaction-id",
+          pspReference: mockedStripePaymentIntentId,
+          reason: "Failed to fetch PaymentIntent details from Stripe",
+        },
+      ],
+    });
+  });
+
+  it("should return ConfigMissingError if channel has no Stripe configuration", async () => {
+    mockOrderTransactions([]);
+    vi.spyOn(mockedAppConfigRepo, "getStripeConfig").mockImplementationOnce(async () => ok(null));
+
+    const result = await execute();
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(OrderDetailsUseCase.ConfigMissingError);
+  });
+
+  it("should return FetchError if order can't be fetched", async () => {
+    mockedOrderTransactionsFetcher.fetchOrderTransactions.mockImplementation(async () =>
+      err(new OrderTransactionsFetcher.FetchError("Failed to fetch order transactions")),
+    );
+
+    const result = await execute();
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(OrderTransactionsFetcher.FetchError);
+  });
+});
@@ -0,0 +1,194 @@
+import { err, ok, type Result } from "neverthrow";
+
+import { BaseError } from "@/lib/errors";
+import { createLogger } from "@/lib/logger";
+import { type AppConfigRepo } from "@/modules/app-config/repositories/app-config-repo";
+import { type OrderTransactionsFetcher } from "@/modules/saleor/order-transactions-fetcher";
+import { type SaleorApiUrl } from "@/modules/saleor/saleor-api-url";
+import { createStripePaymentIntentId } from "@/modules/stripe/stripe-payment-intent-id";
+import {
+  type IStripePaymentIntentsApiFactory,
+  type IStripeRefundsApiFactory,
+} from "@/modules/stripe/types";
+import {
+  createStripeTransactionInspection,
+  type StripeTransactionInspection,
+} from "@/modules/transaction-inspection/stripe-transaction-inspection";
+import {
+  TransactionRecorderError,
+  type TransactionRecorderRepo,
+} from "@/modules/transactions-recording/repositories/transaction-recorder-repo";
+
+export type OrderDetailsFailedTransaction = {
+  saleorTransactionId: string;
+  pspReference: string;
+  reason: string;
+};
+
+export type OrderDetailsInspection = {
+  transactions: StripeTransactionInspection[];
+  failedTransactions: OrderDetailsFailedTransaction[];
+};
+
+/**
+ * Resolves live Stripe state of order transactions created by the app, for order details dashboard extension.
+ * Transactions not recorded by the app (e.g. created by another payment app) are skipped.
+ */
+export class OrderDetailsUseCase {
+  static ConfigMissingError = BaseError.subclass("ConfigMissingError", {
+    props: {
+      _internalName: "OrderDetailsUseCase.ConfigMissingError" as const,
+    },
+  });
+
+  static FetchingConfigError = BaseError.subclass("FetchingConfigError", {
+    props: {
+      _internalName: "OrderDetailsUseCase.FetchingConfigError" as const,
+    },
+  });
+
+  private logger = createLogger("OrderDetailsUseCase");
+  private appConfigRepo: AppConfigRepo;
+  private transactionRecorder: TransactionRecorderRepo;
+  private stripePaymentIntentsApiFactory: IStripePaymentIntentsApiFactory;
+  private stripeRefundsApiFactory: IStripeRefundsApiFactory;
+
+  constructor(deps: {
+    appConfigRepo: AppConfigRepo;
+    transactionRecorder: TransactionRecorderRepo;
+    stripePaymentIntentsApiFactory: IStripePaymentIntentsApiFactory;
+    stripeRefundsApiFactory: IStripeRefundsApiFactory;
+  }) {
+    this.appConfigRepo = deps.appConfigRepo;
+    this.transactionRecorder = deps.transactionRecorder;
+    this.stripePaymentIntentsApiFactory = deps.stripePaymentIntentsApiFactory;
+    this.stripeRefundsApiFactory = deps.stripeRefundsApiFactory;
+  }
+
+  async execute({
+    orderId,
+    appId,
+    saleorApiUrl,
+    orderTransactionsFetcher,
+  }: {
+    orderId: string;
+    appId: string;
+    saleorApiUrl: SaleorApiUrl;
+    orderTransactionsFetcher: OrderTransactionsFetcher;
+  }): Promise<
+    Result<
+      OrderDetailsInspection,
+      | InstanceType<typeof OrderTransactionsFetcher.FetchError>
+      | InstanceType<typeof OrderDetailsUseCase.ConfigMissingError>
+      | InstanceType<typeof OrderDetailsUseCase.FetchingConfigError>
+    >
+  > {
+    const orderResult = await orderTransactionsFetcher.fetchOrderTransactions(orderId);
+
+    if (orderResult.isErr()) {
+      return err(orderResult.error);
+    }
+
+    const configResult = await this.appConfigRepo.getStripeConfig({
+      channelId: orderResult.value.channelId,
+      appId,
+      saleorApiUrl,
+    });
+
+    if (configResult.isErr()) {
+      return err(
+        new OrderDetailsUseCase.FetchingConfigError("Failed to fetch Stripe configuration", {
+          cause: configResult.error,
+        }),
+      );
+    }
+
+    const config = configResult.value;
+
+    if (!config) {
+      return err(
+        new OrderDetailsUseCase.ConfigMissingError("Stripe configuration for channel is missing"),
+      );
+    }
+
+    const stripeEnv = config.getStripeEnvValue();
+    const stripePaymentIntentsApi = this.stripePaymentIntentsApiFactory.create({
+      key: config.restrictedKey,
+    });
+    const stripeRefundsApi = this.stripeRefundsApiFactory.create({ key: config.restrictedKey });
+
+    const inspection: OrderDetailsInspection = {
+      transactions: [],
+      failedTransactions: [],
+    };
+
+    for (const transaction of orderResult.value.transactions) {
+      // Other payment apps and expired Checkout Sessions leave different references
+      if (!transaction.pspReference.startsWith("pi_")) {
+        continue;
+      }
+
+      const failTransaction = (reason: string) =>
+        inspection.failedTransactions.push({
+          saleorTransactionId: transaction.id,
+          pspReference: transaction.pspReference,
+          reason,
+        });
+
+      const stripePaymentIntentId = createStripePaymentIntentId(transaction.pspReference);
+
+      const recordedTransactionResult =
+        await this.transactionRecorder.getTransactionByStripePaymentIntentId(
+          { appId, saleorApiUrl },
+          stripePaymentIntentId,
+        );
+
+      if (recordedTransactionResult.isErr()) {
+        if (
+          !(
+            recordedTransactionResult.error instanceof
+            TransactionRecorderError.TransactionMissingError
+          )
+        ) {
+          failTransaction("Failed to fetch transaction recorded by the app");
+        }
+
+        continue;
+      }
+
+      const [paymentIntentResult, chargesResult, refundsResult] = await Promise.all([
+        stripePaymentIntentsApi.getPaymentIntent({ id: stripePaymentIntentId }),
+        stripePaymentIntentsApi.listCharges({ paymentIntentId: stripePaymentIntentId }),
+        stripeRefundsApi.listRefunds({ paymentIntentId: stripePaymentIntentId }),
+      ]);
+
+      if (paymentIntentResult.isErr() || chargesResult.isErr() || refundsResult.isErr()) {
+        this.logger.warn("Failed to fetch PaymentIntent details from Stripe", {
+          stripePaymentIntentId,
+        });
+
+        failTransaction("Failed to fetch PaymentIntent details from Stripe");
+
+        continue;
+      }
+
+      const inspectionResult = createStripeTransactionInspection({
+        recordedTransaction: recordedTransactionResult.value,
+        paymentIntent: paymentIntentResult.value,
+        charges: chargesResult.value,
+        refunds: refundsResult.value,
+        stripeEnv,
+      });
+
+      if (inspectionResult.isErr()) {
+        failTransaction(inspectionResult.error.message);
+
+        continue;
+      }
+
+      inspection.transactions.push(inspectionResult.value);
+    }
+
+    return ok(inspection);
+  }
+}
@@ -0,0 +1,83 @@
+import { createProtectedHandler } from "@saleor/app-sdk/handlers/next-app-router";
+import { withSpanAttributesAppRouter } from "@saleor/apps-otel/src/with-span-attributes";
+import { compose } from "@saleor/apps-shared/compose";
+import { captureException } from "@sentry/nextjs";
+import { type NextRequest } from "next/server";
+
+import { appContextContainer } from "@/lib/app-context";
+import { createInstrumentedGraphqlClient } from "@/lib/graphql-client";
+import { createLogger } from "@/lib/logger";
+import { withLoggerContext } from "@/lib/logger-context";
+import { saleorApp } from "@/lib/saleor-app";
+import { appConfigRepoImpl } from "@/modules/app-config/repositories/app-config-repo-impl";
+import { reconciliationInputSchema } from "@/modules/reconciliation/reconciliation-input-schema";
+import { resolveReconciliationCreatedAfter } from "@/modules/reconciliation/resolve-reconciliation-created-after";
+import { TransactionReconciliationUseCase } from "@/modules/reconciliation/transaction-reconciliation-use-case";
+import { createSaleorApiUrl } from "@/modules/saleor/saleor-api-url";
+import { TransactionEventReporter } from "@/modules/saleor/transaction-event-reporter";
+import { TransactionEventsFetcher } from "@/modules/saleor/transaction-events-fetcher";
+import { StripePaymentIntentsApiFactory } from "@/modules/stripe/stripe-payment-intents-api-factory";
+import { StripeRefundsApiFactory } from "@/modules/stripe/stripe-refunds-api-factory";
+import { transactionRecorder } from "@/modules/transactions-recording/repositories/transaction-recorder-impl";
+
+const useCase = new TransactionReconciliationUseCase({
+  transactionRecorder,
+  appConfigRepo: appConfigRepoImpl,
+  stripePaymentIntentsApiFactory: new StripePaymentIntentsApiFactory(),
+  stripeRefundsApiFactory: new StripeRefundsApiFactory(),
+});
+
+const logger = createLogger("Reconciliation route");
+
+/**
+ * Runs reconciliation of recently recorded transactions for the installation resolved from the caller's token.
+ * Body accepts `dryRun` and `lookbackHours` - by default only a dry-run report for the last 24 hours is returned.
+ */
+const handler = createProtectedHandler(
+  async (req: NextRequest, ctx) => {
+    const inputResult = reconciliationInputSchema.safeParse(await req.json().catch(() => ({})));
+
+    if (!inputResult.success) {
+      return Response.json(
+        { message: "Invalid request body", errors: inputResult.error.flatten() },
+        { status: 400 },
+      );
+    }
+
+    const saleorApiUrlResult = createSaleorApiUrl(ctx.authData.saleorApiUrl);
+
+    if (saleorApiUrlResult.isErr()) {
+      captureException(saleorApiUrlResult.error);
+
+      return Response.json({ message: "Malformed Saleor API URL" }, { status: 400 });
+    }
+
+    const graphqlClient = createInstrumentedGraphqlClient(ctx.authData);
+
+    const reportResult = await useCase.execute({
+      appId: ctx.authData.appId,
+      saleorApiUrl: saleorApiUrlResult.value,
+      createdAfter: resolveReconciliationCreatedAfter(inputResult.data.lookbackHours),
+      dryRun: inputResult.data.dryRun,
+      transactionEventsFetcher: new TransactionEventsFetcher(graphqlClient),
+      transactionEventReporter: new TransactionEventReporter({ graphqlClient }),
+    });
+
+    if (reportResult.isErr()) {
+      captureException(reportResult.error);
+      logger.error("Failed to run reconciliation", { error: reportResult.error });
+
+      return Response.json({ message: "Failed to fetch recorded transactions" }, { status: 500 });
+    }
+
+    return Response.json(reportResult.value);
+  },
+  saleorApp.apl,
+  ["HANDLE_PAYMENTS"],
+);
+
+export const POST = compose(
+  withLoggerContext,
+  appContextContainer.wrapRequest,
+  withSpanAttributesAppRouter,
+)(handler);
@@ -0,0 +1,101 @@
+import { withSpanAttributesAppRouter } from "@saleor/apps-otel/src/with-span-attributes";
+import { compose } from "@saleor/apps-shared/compose";
+import { captureException } from "@sentry/nextjs";
+
+import {
+  MalformedRequestResponse,
+  UnhandledErrorResponse,
+} from "@/app/api/webhooks/saleor/saleor-webhook-responses";
+import { appContextContainer } from "@/lib/app-context";
+import { BaseError } from "@/lib/errors";
+import { createInstrumentedGraphqlClient } from "@/lib/graphql-client";
+import { createLogger } from "@/lib/logger";
+import { withLoggerContext } from "@/lib/logger-context";
+import { setObservabilitySaleorApiUrl } from "@/lib/observability-saleor-api-url";
+import { setObservabilitySourceObjectId } from "@/lib/observability-source-object-id";
+import { appConfigRepoImpl } from "@/modules/app-config/repositories/app-config-repo-impl";
+import { createStripeProblemReporter } from "@/modules/app-problems";
+import { createSaleorApiUrl } from "@/modules/saleor/saleor-api-url";
+import { TransactionEventReporter } from "@/modules/saleor/transaction-event-reporter";
+import { StripePaymentIntentsApiFactory } from "@/modules/stripe/stripe-payment-intents-api-factory";
+
+import { withRecipientVerification } from "../with-recipient-verification";
+import { OrderUpdatedUseCase } from "./use-case";
+import { orderUpdatedWebhookDefinition } from "./webhook-definition";
+
+const useCase = new OrderUpdatedUseCase({
+  appConfigRepo: appConfigRepoImpl,
+  stripePaymentIntentsApiFactory: new StripePaymentIntentsApiFactory(),
+});
+
+const logger = createLogger("ORDER_UPDATED route");
+
+const handler = orderUpdatedWebhookDefinition.createHandler(
+  withRecipientVerification(async (_req, ctx) => {
+    try {
+      setObservabilitySourceObjectId({
+        __typename: "Order",
+        id: ctx.payload.order?.id ?? null,
+      });
+
+      logger.info("Received webhook request");
+
+      const saleorApiUrlResult = createSaleorApiUrl(ctx.authData.saleorApiUrl);
+
+      if (saleorApiUrlResult.isErr()) {
+        captureException(saleorApiUrlResult.error);
+        const response = new MalformedRequestResponse(
+          appContextContainer.getContextValue(),
+          saleorApiUrlResult.error,
+        );
+
+        return response.getResponse();
+      }
+
+      setObservabilitySaleorApiUrl(saleorApiUrlResult.value, ctx.payload.version);
+
+      const result = await useCase.execute({
+        appId: ctx.authData.appId,
+        saleorApiUrl: saleorApiUrlResult.value,
+        event: ctx.payload,
+        transactionEventReporter: new TransactionEventReporter({
+          graphqlClient: createInstrumentedGraphqlClient(ctx.authData),
+        }),
+        problemReporter: createStripeProblemReporter(ctx.authData),
+      });
+
+      return result.match(
+        (result) => {
+          logger.info("Successfully processed webhook request", {
+            httpsStatusCode: result.statusCode,
+            stripeEnv: result.appContext.stripeEnv,
+          });
+
+          return result.getResponse();
+        },
+        (err) => {
+          logger.warn("Failed to process webhook request", {
+            httpsStatusCode: err.statusCode,
+            reason: err.message,
+          });
+
+          return err.getResponse();
+        },
+      );
+    } catch (error) {
+      captureException(error);
+      const response = new UnhandledErrorResponse(
+        appContextContainer.getContextValue(),
+        BaseError.normalize(error),
+      );
+
+      return response.getResponse();
+    }
+  }),
+);
+
+export const POST = compose(
+  withLoggerContext,
+  appContextContainer.wrapRequest,
+  withSpanAttributesAppRouter,
+)(handler);
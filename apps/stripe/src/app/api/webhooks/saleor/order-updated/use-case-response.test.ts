@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+
+import { getMockedSaleorMoney } from "@/__tests__/mocks/constants";
+import { mockedStripePaymentIntentId } from "@/__tests__/mocks/mocked-stripe-payment-intent-id";
+import { createStripeAuthorizationAdjustmentReference } from "@/modules/stripe/stripe-incremental-authorization";
+import { AuthorizationAdjustmentResult } from "@/modules/transaction-result/authorization-adjustment-result";
+
+import { OrderUpdatedUseCaseResponses } from "./use-case-response";
+
+describe("OrderUpdatedUseCaseResponses", () => {
+  describe("AuthorizationAdjusted", () => {
+    it("getResponse() returns valid Response with status 200", async () => {
+      const response = new OrderUpdatedUseCaseResponses.AuthorizationAdjusted({
+        transactionResult: new AuthorizationAdjustmentResult(),
+        saleorMoney: getMockedSaleorMoney(),
+        pspReference: createStripeAuthorizationAdjustmentReference({
+          paymentIntentId: mockedStripePaymentIntentId,
+          amount: 1000,
+        }),
+        appContext: {
+          stripeEnv: "LIVE",
+        },
+      });
+      const fetchResponse = response.getResponse();
+
+      expect(fetchResponse.status).toBe(200);
+      expect(await fetchResponse.json()).toStrictEqual({
+        message: "Authorization increased to cover updated order total",
+        pspReference: "pi_TEST_TEST_TEST_authorization_1000",
+      });
+    });
+  });
+
+  describe("NoActionRequired", () => {
+    it("getResponse() returns valid Response with status 200", async () => {
+      const response = new OrderUpdatedUseCaseResponses.NoActionRequired({
+        reason: "Order total is covered by payments",
+        appContext: { stripeEnv: null },
+      });
+      const fetchResponse = response.getResponse();
+
+      expect(fetchResponse.status).toBe(200);
+      expect(await fetchResponse.json()).toStrictEqual({
+        message: "Order total is covered by payments",
+      });
+    });
+  });
+});
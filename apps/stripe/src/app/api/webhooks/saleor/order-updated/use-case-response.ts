@@ -0,0 +1,63 @@
+import { SuccessWebhookResponse } from "@/app/api/webhooks/saleor/saleor-webhook-responses";
+import { type AppContext } from "@/lib/app-context";
+import { type SaleorMoney } from "@/modules/saleor/saleor-money";
+import { type StripeAuthorizationAdjustmentReference } from "@/modules/stripe/stripe-incremental-authorization";
+import {
+  type AuthorizationAdjustmentRefusedInfoResult,
+  type AuthorizationAdjustmentResult,
+} from "@/modules/transaction-result/authorization-adjustment-result";
+
+/**
+ * ORDER_UPDATED is an async webhook - Saleor only checks the status code, body is returned for debugging purposes.
+ */
+class AuthorizationAdjusted extends SuccessWebhookResponse {
+  readonly transactionResult:
+    | AuthorizationAdjustmentResult
+    | AuthorizationAdjustmentRefusedInfoResult;
+  readonly saleorMoney: SaleorMoney;
+  readonly pspReference: StripeAuthorizationAdjustmentReference;
+
+  constructor(args: {
+    transactionResult: AuthorizationAdjustmentResult | AuthorizationAdjustmentRefusedInfoResult;
+    saleorMoney: SaleorMoney;
+    pspReference: StripeAuthorizationAdjustmentReference;
+    appContext: AppContext;
+  }) {
+    super(args.appContext);
+    this.transactionResult = args.transactionResult;
+    this.saleorMoney = args.saleorMoney;
+    this.pspReference = args.pspReference;
+  }
+
+  getResponse(): Response {
+    return Response.json(
+      {
+        message: this.transactionResult.message,
+        pspReference: this.pspReference,
+      },
+      { status: this.statusCode },
+    );
+  }
+}
+
+class NoActionRequired extends SuccessWebhookResponse {
+  readonly reason: string;
+
+  constructor(args: { reason: string; appContext: AppContext }) {
+    super(args.appContext);
+    this.reason = args.reason;
+  }
+
+  getResponse(): Response {
+    return Response.json({ message: this.reason }, { status: this.statusCode });
+  }
+}
+
+export const OrderUpdatedUseCaseResponses = {
+  AuthorizationAdjusted,
+  NoActionRequired,
+};
+
+export type OrderUpdatedUseCaseResponsesType = InstanceType<
+  (typeof OrderUpdatedUseCaseResponses)[keyof typeof OrderUpdatedUseCaseResponses]
+>;
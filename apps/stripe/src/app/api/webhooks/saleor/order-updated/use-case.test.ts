@@ -0,0 +1,361 @@
+import { err, ok } from "neverthrow";
+import Stripe from "stripe";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { mockedAppConfigRepo } from "@/__tests__/mocks/app-config-repo";
+import { mockedSaleorAppId, mockedSaleorTransactionId } from "@/__tests__/mocks/constants";
+import { mockStripeProblemReporter } from "@/__tests__/mocks/mock-stripe-problem-reporter";
+import { mockedStripePaymentIntentId } from "@/__tests__/mocks/mocked-stripe-payment-intent-id";
+import { mockedStripePaymentIntentsApi } from "@/__tests__/mocks/mocked-stripe-payment-intents-api";
+import { mockedSaleorApiUrl } from "@/__tests__/mocks/saleor-api-url";
+import { getMockedOrderUpdatedEvent } from "@/__tests__/mocks/saleor-events/order-updated-event";
+import {
+  AppIsNotConfiguredResponse,
+  BrokenAppResponse,
+  MalformedRequestResponse,
+} from "@/app/api/webhooks/saleor/saleor-webhook-responses";
+import {
+  type ITransactionEventReporter,
+  TransactionEventReporterErrors,
+} from "@/modules/saleor/transaction-event-reporter";
+import { StripeMoney } from "@/modules/stripe/stripe-money";
+import { type IStripePaymentIntentsApiFactory } from "@/modules/stripe/types";
+import {
+  AuthorizationAdjustmentRefusedInfoResult,
+  AuthorizationAdjustmentResult,
+} from "@/modules/transaction-result/authorization-adjustment-result";
+
+import { OrderUpdatedUseCase } from "./use-case";
+import { OrderUpdatedUseCaseResponses } from "./use-case-response";
+
+vi.mock("@/lib/logger", () => ({
+  createLogger: () => ({
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+describe("OrderUpdatedUseCase", () => {
+  const stripePaymentIntentsApiFactory = {
+    create: () => mockedStripePaymentIntentsApi,
+  } satisfies IStripePaymentIntentsApiFactory;
+
+  const mockEventReporter = {
+    reportTransactionEvent: vi.fn(),
+  } satisfies ITransactionEventReporter;
+
+  const getMockedAuthorizedPaymentIntent = (overrides: Partial<Stripe.PaymentIntent> = {}) =>
+    ({
+      id: mockedStripePaymentIntentId,
+      currency: "usd",
+      amount: 100_00,
+      amount_capturable: 100_00,
+      amount_received: 0,
+      metadata: {},
+      status: "requires_capture",
+      latest_charge: {
+        id: "ch_TEST_TEST_TEST",
+        payment_method_details: {
+          card: {
+            incremental_authorization: {
+              status: "available",
+            },
+          },
+        },
+      },
+      ...overrides,
+    }) as Stripe.PaymentIntent;
+
+  const execute = (event = getMockedOrderUpdatedEvent()) =>
+    new OrderUpdatedUseCase({
+      appConfigRepo: mockedAppConfigRepo,
+      stripePaymentIntentsApiFactory,
+    }).execute({
+      appId: mockedSaleorAppId,
+      saleorApiUrl: mockedSaleorApiUrl,
+      event,
+      transactionEventReporter: mockEventReporter,
+      problemReporter: mockStripeProblemReporter,
+    });
+
+  beforeEach(() => {
+    vi.spyOn(mockedStripePaymentIntentsApi, "getPaymentIntent").mockImplementation(async () =>
+      ok(getMockedAuthorizedPaymentIntent()),
+    );
+    mockEventReporter.reportTransactionEvent.mockImplementation(async () =>
+      ok({ createdEventId: "event-id" }),
+    );
+  });
+
+  it("Increments authorization by missing amount and reports AUTHORIZATION_ADJUSTMENT", async () => {
+    const incrementSpy = vi
+      .spyOn(mockedStripePaymentIntentsApi, "incrementAuthorization")
+      .mockImplementationOnce(async () =>
+        ok(
+          getMockedAuthorizedPaymentIntent({
+            amount: 150_00,
+            amount_capturable: 150_00,
+            metadata: { saleor_authorization_adjusted_amount: "15000" },
+          }),
+        ),
+      );
+
+    const result = await execute();
+
+    expect(incrementSpy).toHaveBeenCalledExactlyOnceWith({
+      id: mockedStripePaymentIntentId,
+      amount: StripeMoney.createFromSaleorAmount({ amount: 150, currency: "usd" })._unsafeUnwrap(),
+      metadata: {
+        saleor_authorization_adjusted_amount: "15000",
+      },
+    });
+
+    expect(mockEventReporter.reportTransactionEvent).toHaveBeenCalledExactlyOnceWith({
+      transactionId: mockedSaleorTransactionId,
+      type: "AUTHORIZATION_ADJUSTMENT",
+      amount: expect.objectContaining({ amount: 150, currency: "USD" }),
+      pspReference: `${mockedStripePaymentIntentId}_authorization_15000`,
+      message: "Authorization increased to cover updated order total",
+      actions: ["CHARGE", "CANCEL"],
+      time: expect.any(String),
+      externalUrl: `https://dashboard.stripe.com/payments/${mockedStripePaymentIntentId}`,
+      saleorPaymentMethodDetailsInput: null,
+    });
+
+    const response = result._unsafeUnwrap();
+
+    expect(response).toBeInstanceOf(OrderUpdatedUseCaseResponses.AuthorizationAdjusted);
+    expect(
+      (response as InstanceType<typeof OrderUpdatedUseCaseResponses.AuthorizationAdjusted>)
+        .transactionResult,
+    ).toBeInstanceOf(AuthorizationAdjustmentResult);
+  });
+
+  it("Reports remaining authorization when part of payment intent was already captured", async () => {
+    vi.spyOn(mockedStripePaymentIntentsApi, "getPaymentIntent").mockImplementationOnce(async () =>
+      ok(
+        getMockedAuthorizedPaymentIntent({
+          amount_capturable: 60_00,
+          amount_received: 40_00,
+        }),
+      ),
+    );
+
+    const incrementSpy = vi
+      .spyOn(mockedStripePaymentIntentsApi, "incrementAuthorization")
+      .mockImplementationOnce(async () =>
+        ok(
+          getMockedAuthorizedPaymentIntent({
+            amount: 110_00,
+            amount_capturable: 70_00,
+            amount_received: 40_00,
+          }),
+        ),
+      );
+
+    await execute(
+      getMockedOrderUpdatedEvent({ total: 110, totalAuthorized: 60, totalCharged: 40 }),
+    );
+
+    expect(incrementSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        amount: StripeMoney.createFromSaleorAmount({
+          amount: 110,
+          currency: "usd",
+        })._unsafeUnwrap(),
+      }),
+    );
+    expect(mockEventReporter.reportTransactionEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "AUTHORIZATION_ADJUSTMENT",
+        amount: expect.objectContaining({ amount: 70 }),
+        pspReference: `${mockedStripePaymentIntentId}_authorization_11000`,
+      }),
+    );
+  });
+
+  it("Reports INFO event with decline message when card network refuses the increment", async () => {
+    vi.spyOn(mockedStripePaymentIntentsApi, "incrementAuthorization").mockImplementationOnce(
+      async () =>
+        err(
+          new Stripe.errors.StripeCardError({
+            type: "card_error",
+            message: "Your card has insufficient funds.",
+          }),
+        ),
+    );
+
+    const result = await execute();
+
+    expect(mockEventReporter.reportTransactionEvent).toHaveBeenCalledExactlyOnceWith(
+      expect.objectContaining({
+        type: "INFO",
+        amount: expect.objectContaining({ amount: 50 }),
+        pspReference: `${mockedStripePaymentIntentId}_authorization_15000`,
+        message:
+          "Card network refused to increase authorization, order total is not fully authorized - collect the remaining amount with another payment. Reason: Your card has insufficient funds.",
+        actions: null,
+      }),
+    );
+    expect(
+      (
+        result._unsafeUnwrap() as InstanceType<
+          typeof OrderUpdatedUseCaseResponses.AuthorizationAdjusted
+        >
+      ).transactionResult,
+    ).toBeInstanceOf(AuthorizationAdjustmentRefusedInfoResult);
+  });
+
+  it("Returns BrokenAppResponse and reports app problem when Stripe API fails with other error", async () => {
+    vi.spyOn(mockedStripePaymentIntentsApi, "incrementAuthorization").mockImplementationOnce(
+      async () =>
+        err(
+          new Stripe.errors.StripeAuthenticationError({
+            type: "authentication_error",
+            message: "Invalid API key",
+          }),
+        ),
+    );
+    const reportSpy = vi.spyOn(mockStripeProblemReporter, "reportApiProblem");
+
+    const result = await execute();
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(BrokenAppResponse);
+    expect(reportSpy).toHaveBeenCalledOnce();
+    expect(mockEventReporter.reportTransactionEvent).not.toHaveBeenCalled();
+  });
+
+  it("Only reports adjustment when authorization was already incremented before", async () => {
+    vi.spyOn(mockedStripePaymentIntentsApi, "getPaymentIntent").mockImplementationOnce(async () =>
+      ok(
+        getMockedAuthorizedPaymentIntent({
+          amount: 150_00,
+          amount_capturable: 150_00,
+          metadata: { saleor_authorization_adjusted_amount: "15000" },
+        }),
+      ),
+    );
+
+    const result = await execute();
+
+    expect(mockedStripePaymentIntentsApi.incrementAuthorization).not.toHaveBeenCalled();
+    expect(mockEventReporter.reportTransactionEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "AUTHORIZATION_ADJUSTMENT",
+        amount: expect.objectContaining({ amount: 150 }),
+        pspReference: `${mockedStripePaymentIntentId}_authorization_15000`,
+      }),
+    );
+    expect(result._unsafeUnwrap()).toBeInstanceOf(
+      OrderUpdatedUseCaseResponses.AuthorizationAdjusted,
+    );
+  });
+
+  it("Treats already reported adjustment as success", async () => {
+    vi.spyOn(mockedStripePaymentIntentsApi, "incrementAuthorization").mockImplementationOnce(
+      async () =>
+        ok(
+          getMockedAuthorizedPaymentIntent({
+            amount: 150_00,
+            amount_capturable: 150_00,
+          }),
+        ),
+    );
+    mockEventReporter.reportTransactionEvent.mockImplementationOnce(async () =>
+      err(new TransactionEventReporterErrors.AlreadyReportedError("Already reported")),
+    );
+
+    const result = await execute();
+
+    expect(result._unsafeUnwrap()).toBeInstanceOf(
+      OrderUpdatedUseCaseResponses.AuthorizationAdjusted,
+    );
+  });
+
+  it("Returns BrokenAppResponse when adjustment can't be reported, so Saleor retries the webhook", async () => {
+    vi.spyOn(mockedStripePaymentIntentsApi, "incrementAuthorization").mockImplementationOnce(
+      async () =>
+        ok(
+          getMockedAuthorizedPaymentIntent({
+            amount: 150_00,
+            amount_capturable: 150_00,
+          }),
+        ),
+    );
+    mockEventReporter.reportTransactionEvent.mockImplementationOnce(async () =>
+      err(new TransactionEventReporterErrors.ServerError("Server error")),
+    );
+
+    const result = await execute();
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(BrokenAppResponse);
+  });
+
+  it.each([
+    {
+      name: "order total is covered",
+      event: getMockedOrderUpdatedEvent({ total: 100 }),
+    },
+    {
+      name: "order has no transaction created by the app",
+      event: {
+        order: {
+          ...getMockedOrderUpdatedEvent().order!,
+          transactions: [
+            {
+              ...getMockedOrderUpdatedEvent().order!.transactions[0],
+              createdBy: { id: "other-app-id" },
+            },
+          ],
+        },
+      },
+    },
+  ])("Does nothing when $name", async ({ event }) => {
+    const result = await execute(event);
+
+    expect(result._unsafeUnwrap()).toBeInstanceOf(OrderUpdatedUseCaseResponses.NoActionRequired);
+    expect(mockedStripePaymentIntentsApi.getPaymentIntent).not.toHaveBeenCalled();
+    expect(mockEventReporter.reportTransactionEvent).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    {
+      name: "payment intent is not authorized anymore",
+      paymentIntent: getMockedAuthorizedPaymentIntent({ status: "succeeded" }),
+    },
+    {
+      name: "incremental authorization is not available for the card",
+      paymentIntent: getMockedAuthorizedPaymentIntent({ latest_charge: null }),
+    },
+    {
+      name: "payment intent authorization already covers order total",
+      paymentIntent: getMockedAuthorizedPaymentIntent({ amount_capturable: 150_00 }),
+    },
+  ])("Doesn't increment authorization when $name", async ({ paymentIntent }) => {
+    vi.spyOn(mockedStripePaymentIntentsApi, "getPaymentIntent").mockImplementationOnce(async () =>
+      ok(paymentIntent),
+    );
+
+    const result = await execute();
+
+    expect(result._unsafeUnwrap()).toBeInstanceOf(OrderUpdatedUseCaseResponses.NoActionRequired);
+    expect(mockedStripePaymentIntentsApi.incrementAuthorization).not.toHaveBeenCalled();
+    expect(mockEventReporter.reportTransactionEvent).not.toHaveBeenCalled();
+  });
+
+  it("Returns MalformedRequestResponse when event has no order", async () => {
+    const result = await execute({ order: null });
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(MalformedRequestResponse);
+  });
+
+  it("Returns AppIsNotConfiguredResponse if config not found for order channel", async () => {
+    vi.spyOn(mockedAppConfigRepo, "getStripeConfig").mockImplementationOnce(async () => ok(null));
+
+    const result = await execute();
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(AppIsNotConfiguredResponse);
+  });
+});
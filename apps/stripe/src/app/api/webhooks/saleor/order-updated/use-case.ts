@@ -0,0 +1,459 @@
+import { err, ok, type Result } from "neverthrow";
+import { after } from "next/server";
+import type Stripe from "stripe";
+
+import {
+  AppIsNotConfiguredResponse,
+  BrokenAppResponse,
+  MalformedRequestResponse,
+} from "@/app/api/webhooks/saleor/saleor-webhook-responses";
+import { TransactionEventReportVariablesResolver } from "@/app/api/webhooks/stripe/transaction-event-report-variables-resolver";
+import { type OrderUpdatedEventFragment } from "@/generated/graphql";
+import { appContextContainer } from "@/lib/app-context";
+import { BaseError } from "@/lib/errors";
+import { createLogger } from "@/lib/logger";
+import { type StripeConfig } from "@/modules/app-config/domain/stripe-config";
+import { type AppConfigRepo } from "@/modules/app-config/repositories/app-config-repo";
+import { type StripeProblemReporter } from "@/modules/app-problems";
+import { resolveSaleorMoneyFromStripePaymentIntent } from "@/modules/saleor/resolve-saleor-money-from-stripe-payment-intent";
+import { type SaleorApiUrl } from "@/modules/saleor/saleor-api-url";
+import { SaleorMoney } from "@/modules/saleor/saleor-money";
+import { createSaleorTransactionId } from "@/modules/saleor/saleor-transaction-id";
+import {
+  type ITransactionEventReporter,
+  TransactionEventReporterErrors,
+} from "@/modules/saleor/transaction-event-reporter";
+import { generatePaymentIntentStripeDashboardUrl } from "@/modules/stripe/generate-stripe-dashboard-urls";
+import { mapStripeErrorToApiError, StripeCardError } from "@/modules/stripe/stripe-api-error";
+import {
+  createStripeAuthorizationAdjustmentReference,
+  isStripeIncrementalAuthorizationAvailable,
+  resolveStripeAdjustedAuthorizationAmount,
+} from "@/modules/stripe/stripe-incremental-authorization";
+import { StripeMoney } from "@/modules/stripe/stripe-money";
+import {
+  createStripePaymentIntentId,
+  type StripePaymentIntentId,
+} from "@/modules/stripe/stripe-payment-intent-id";
+import { type IStripePaymentIntentsApiFactory } from "@/modules/stripe/types";
+import {
+  AuthorizationAdjustmentRefusedInfoResult,
+  AuthorizationAdjustmentResult,
+} from "@/modules/transaction-result/authorization-adjustment-result";
+
+import {
+  OrderUpdatedUseCaseResponses,
+  type OrderUpdatedUseCaseResponsesType,
+} from "./use-case-response";
+
+type UseCaseExecuteResult = Result<
+  OrderUpdatedUseCaseResponsesType,
+  AppIsNotConfiguredResponse | BrokenAppResponse | MalformedRequestResponse
+>;
+
+type OrderTransaction = NonNullable<OrderUpdatedEventFragment["order"]>["transactions"][number];
+
+/**
+ * Increases Stripe authorization when staff edits an order and its total exceeds what is already authorized and
+ * charged. Only card payments authorized with `request_incremental_authorization` can be incremented.
+ */
+export class OrderUpdatedUseCase {
+  private logger = createLogger("OrderUpdatedUseCase");
+  private appConfigRepo: AppConfigRepo;
+  private stripePaymentIntentsApiFactory: IStripePaymentIntentsApiFactory;
+
+  constructor(deps: {
+    appConfigRepo: AppConfigRepo;
+    stripePaymentIntentsApiFactory: IStripePaymentIntentsApiFactory;
+  }) {
+    this.appConfigRepo = deps.appConfigRepo;
+    this.stripePaymentIntentsApiFactory = deps.stripePaymentIntentsApiFactory;
+  }
+
+  /**
+   * Only transactions created by this app can be incremented. Transaction has to be still authorized - charged or
+   * canceled PaymentIntent can't be incremented.
+   */
+  private findAuthorizedAppTransaction(args: {
+    transactions: ReadonlyArray<OrderTransaction>;
+    appId: string;
+  }) {
+    return args.transactions.find(
+      (transaction) =>
+        transaction.createdBy &&
+        "id" in transaction.createdBy &&
+        transaction.createdBy.id === args.appId &&
+        transaction.authorizedAmount.amount > 0,
+    );
+  }
+
+  private createNoActionRequiredResponse(reason: string) {
+    this.logger.info(reason);
+
+    return ok(
+      new OrderUpdatedUseCaseResponses.NoActionRequired({
+        reason,
+        appContext: appContextContainer.getContextValue(),
+      }),
+    );
+  }
+
+  /**
+   * Stripe expects the new total amount of PaymentIntent, not the increment
+   */
+  private resolveIncrementedAmount(args: {
+    paymentIntent: Stripe.PaymentIntent;
+    missingAmount: number;
+  }) {
+    // StripeMoney is created from Saleor amount only, so Stripe units are converted back and forth
+    return SaleorMoney.createFromStripe({
+      amount: args.paymentIntent.amount + args.missingAmount,
+      currency: args.paymentIntent.currency,
+    }).andThen((saleorMoney) => StripeMoney.createFromSaleorAmount(saleorMoney));
+  }
+
+  private async reportTransactionEvent(args: {
+    transactionEventReporter: ITransactionEventReporter;
+    resolver: TransactionEventReportVariablesResolver;
+  }) {
+    const reportResult = await args.transactionEventReporter.reportTransactionEvent(
+      args.resolver.resolveEventReportVariables(),
+    );
+
+    if (reportResult.isErr()) {
+      if (reportResult.error instanceof TransactionEventReporterErrors.AlreadyReportedError) {
+        this.logger.info("Authorization adjustment already reported");
+
+        return ok(null);
+      }
+
+      return err(reportResult.error);
+    }
+
+    return ok(null);
+  }
+
+  private handleStripeApiError(args: {
+    error: unknown;
+    stripeConfig: StripeConfig;
+    problemReporter: StripeProblemReporter;
+  }) {
+    const error = mapStripeErrorToApiError(args.error);
+
+    const config = {
+      id: args.stripeConfig.id,
+      name: args.stripeConfig.name,
+    };
+
+    after(() => args.problemReporter.reportApiProblem(error, config));
+
+    this.logger.warn("Failed to call Stripe API", {
+      error,
+    });
+
+    return err(new BrokenAppResponse(appContextContainer.getContextValue(), error));
+  }
+
+  async execute(args: {
+    appId: string;
+    saleorApiUrl: SaleorApiUrl;
+    event: OrderUpdatedEventFragment;
+    transactionEventReporter: ITransactionEventReporter;
+    problemReporter: StripeProblemReporter;
+  }): Promise<UseCaseExecuteResult> {
+    const { appId, saleorApiUrl, event, transactionEventReporter, problemReporter } = args;
+
+    const order = event.order;
+
+    if (!order) {
+      return err(
+        new MalformedRequestResponse(
+          appContextContainer.getContextValue(),
+          new BaseError("Order not found in event"),
+        ),
+      );
+    }
+
+    const coveredAmount = order.totalAuthorized.amount + order.totalCharged.amount;
+    const missingSaleorAmount = order.total.gross.amount - coveredAmount;
+
+    if (missingSaleorAmount <= 0) {
+      return this.createNoActionRequiredResponse("Order total is covered by payments");
+    }
+
+    const transaction = this.findAuthorizedAppTransaction({
+      transactions: order.transactions,
+      appId,
+    });
+
+    if (!transaction) {
+      return this.createNoActionRequiredResponse(
+        "Order has no authorized transaction created by the app",
+      );
+    }
+
+    const stripeConfigForThisChannel = await this.appConfigRepo.getStripeConfig({
+      channelId: order.channel.id,
+      appId,
+      saleorApiUrl,
+    });
+
+    if (stripeConfigForThisChannel.isErr()) {
+      this.logger.error("Failed to get configuration", {
+        error: stripeConfigForThisChannel.error,
+      });
+
+      return err(
+        new BrokenAppResponse(
+          appContextContainer.getContextValue(),
+          stripeConfigForThisChannel.error,
+        ),
+      );
+    }
+
+    if (!stripeConfigForThisChannel.value) {
+      this.logger.warn("Config for channel not found", {
+        channelId: order.channel.id,
+      });
+
+      return err(
+        new AppIsNotConfiguredResponse(
+          appContextContainer.getContextValue(),
+          new BaseError("Config for channel not found"),
+        ),
+      );
+    }
+
+    appContextContainer.set({
+      stripeEnv: stripeConfigForThisChannel.value.getStripeEnvValue(),
+    });
+
+    const stripePaymentIntentsApi = this.stripePaymentIntentsApiFactory.create({
+      key: stripeConfigForThisChannel.value.restrictedKey,
+    });
+
+    const stripePaymentIntentId: StripePaymentIntentId = createStripePaymentIntentId(
+      transaction.pspReference,
+    );
+
+    const getPaymentIntentResult = await stripePaymentIntentsApi.getPaymentIntent({
+      id: stripePaymentIntentId,
+    });
+
+    if (getPaymentIntentResult.isErr()) {
+      return this.handleStripeApiError({
+        error: getPaymentIntentResult.error,
+        stripeConfig: stripeConfigForThisChannel.value,
+        problemReporter,
+      });
+    }
+
+    const paymentIntent = getPaymentIntentResult.value;
+
+    if (paymentIntent.status !== "requires_capture") {
+      return this.createNoActionRequiredResponse("Payment intent is not authorized");
+    }
+
+    const requiredAuthorizationResult = StripeMoney.createFromSaleorAmount({
+      amount: transaction.authorizedAmount.amount + missingSaleorAmount,
+      currency: order.total.gross.currency,
+    });
+
+    if (requiredAuthorizationResult.isErr()) {
+      return err(
+        new MalformedRequestResponse(
+          appContextContainer.getContextValue(),
+          requiredAuthorizationResult.error,
+        ),
+      );
+    }
+
+    const missingAmount =
+      requiredAuthorizationResult.value.amount - paymentIntent.amount_capturable;
+
+    /*
+     * Stripe already covers the total when increment succeeded before, but Saleor wasn't notified (e.g. webhook
+     * was retried). Then we only report the adjustment.
+     */
+    const isAlreadyIncremented =
+      missingAmount <= 0 &&
+      resolveStripeAdjustedAuthorizationAmount(paymentIntent) === paymentIntent.amount;
+
+    if (missingAmount <= 0 && !isAlreadyIncremented) {
+      return this.createNoActionRequiredResponse("Payment intent authorization covers order total");
+    }
+
+    const externalUrl = generatePaymentIntentStripeDashboardUrl(
+      stripePaymentIntentId,
+      stripeConfigForThisChannel.value.getStripeEnvValue(),
+    );
+
+    let adjustedPaymentIntent = paymentIntent;
+
+    if (!isAlreadyIncremented) {
+      if (!isStripeIncrementalAuthorizationAvailable(paymentIntent)) {
+        return this.createNoActionRequiredResponse(
+          "Incremental authorization is not available for the payment intent",
+        );
+      }
+
+      const incrementedAmountResult = this.resolveIncrementedAmount({
+        paymentIntent,
+        missingAmount,
+      });
+
+      if (incrementedAmountResult.isErr()) {
+        return err(
+          new MalformedRequestResponse(
+            appContextContainer.getContextValue(),
+            incrementedAmountResult.error,
+          ),
+        );
+      }
+
+      const incrementResult = await stripePaymentIntentsApi.incrementAuthorization({
+        id: stripePaymentIntentId,
+        amount: incrementedAmountResult.value,
+        metadata: {
+          saleor_authorization_adjusted_amount: String(incrementedAmountResult.value.amount),
+        },
+      });
+
+      if (incrementResult.isErr()) {
+        const stripeError = mapStripeErrorToApiError(incrementResult.error);
+
+        if (!(stripeError instanceof StripeCardError)) {
+          return this.handleStripeApiError({
+            error: incrementResult.error,
+            stripeConfig: stripeConfigForThisChannel.value,
+            problemReporter,
+          });
+        }
+
+        this.logger.warn("Card network refused to increment authorization", {
+          error: stripeError,
+        });
+
+        return this.reportRefusedIncrement({
+          transactionEventReporter,
+          paymentIntent,
+          missingAmount,
+          declineMessage: stripeError.publicMessage,
+          saleorTransactionId: transaction.id,
+          externalUrl,
+        });
+      }
+
+      adjustedPaymentIntent = incrementResult.value;
+    }
+
+    const saleorMoneyResult = resolveSaleorMoneyFromStripePaymentIntent(adjustedPaymentIntent);
+
+    if (saleorMoneyResult.isErr()) {
+      return err(
+        new BrokenAppResponse(appContextContainer.getContextValue(), saleorMoneyResult.error),
+      );
+    }
+
+    const transactionResult = new AuthorizationAdjustmentResult();
+    const pspReference = createStripeAuthorizationAdjustmentReference({
+      paymentIntentId: stripePaymentIntentId,
+      amount: adjustedPaymentIntent.amount,
+    });
+
+    const reportResult = await this.reportTransactionEvent({
+      transactionEventReporter,
+      resolver: new TransactionEventReportVariablesResolver({
+        saleorTransactionId: createSaleorTransactionId(transaction.id),
+        timestamp: new Date(),
+        transactionResult,
+        saleorMoney: saleorMoneyResult.value,
+        stripeObjectId: pspReference,
+        externalUrl,
+        paymentMethodDetails: null,
+      }),
+    });
+
+    if (reportResult.isErr()) {
+      this.logger.error("Failed to report authorization adjustment", {
+        error: reportResult.error,
+      });
+
+      return err(new BrokenAppResponse(appContextContainer.getContextValue(), reportResult.error));
+    }
+
+    this.logger.info("Authorization incremented", {
+      amount: saleorMoneyResult.value.amount,
+    });
+
+    return ok(
+      new OrderUpdatedUseCaseResponses.AuthorizationAdjusted({
+        transactionResult,
+        saleorMoney: saleorMoneyResult.value,
+        pspReference,
+        appContext: appContextContainer.getContextValue(),
+      }),
+    );
+  }
+
+  private async reportRefusedIncrement(args: {
+    transactionEventReporter: ITransactionEventReporter;
+    paymentIntent: Stripe.PaymentIntent;
+    missingAmount: number;
+    declineMessage: string;
+    saleorTransactionId: string;
+    externalUrl: string;
+  }): Promise<UseCaseExecuteResult> {
+    const missingSaleorMoneyResult = SaleorMoney.createFromStripe({
+      amount: args.missingAmount,
+      currency: args.paymentIntent.currency,
+    });
+
+    if (missingSaleorMoneyResult.isErr()) {
+      return err(
+        new BrokenAppResponse(
+          appContextContainer.getContextValue(),
+          missingSaleorMoneyResult.error,
+        ),
+      );
+    }
+
+    const transactionResult = new AuthorizationAdjustmentRefusedInfoResult({
+      declineMessage: args.declineMessage,
+    });
+    const pspReference = createStripeAuthorizationAdjustmentReference({
+      paymentIntentId: createStripePaymentIntentId(args.paymentIntent.id),
+      amount: args.paymentIntent.amount + args.missingAmount,
+    });
+
+    const reportResult = await this.reportTransactionEvent({
+      transactionEventReporter: args.transactionEventReporter,
+      resolver: new TransactionEventReportVariablesResolver({
+        saleorTransactionId: createSaleorTransactionId(args.saleorTransactionId),
+        timestamp: new Date(),
+        transactionResult,
+        saleorMoney: missingSaleorMoneyResult.value,
+        stripeObjectId: pspReference,
+        externalUrl: args.externalUrl,
+        paymentMethodDetails: null,
+      }),
+    });
+
+    if (reportResult.isErr()) {
+      this.logger.error("Failed to report refused authorization increment", {
+        error: reportResult.error,
+      });
+
+      return err(new BrokenAppResponse(appContextContainer.getContextValue(), reportResult.error));
+    }
+
+    return ok(
+      new OrderUpdatedUseCaseResponses.AuthorizationAdjusted({
+        transactionResult,
+        saleorMoney: missingSaleorMoneyResult.value,
+        pspReference,
+        appContext: appContextContainer.getContextValue(),
+      }),
+    );
+  }
+}
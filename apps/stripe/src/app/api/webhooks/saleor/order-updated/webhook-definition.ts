@@ -0,0 +1,18 @@
+import { SaleorAsyncWebhook } from "@saleor/app-sdk/handlers/next-app-router";
+
+import { OrderUpdatedDocument, type OrderUpdatedEventFragment } from "@/generated/graphql";
+import { saleorApp } from "@/lib/saleor-app";
+
+import { verifyWebhookSignature } from "../verify-signature";
+
+export const orderUpdatedWebhookDefinition = new SaleorAsyncWebhook<OrderUpdatedEventFragment>({
+  apl: saleorApp.apl,
+  event: "ORDER_UPDATED",
+  name: "Stripe Order Updated",
+  isActive: true,
+  query: OrderUpdatedDocument,
+  webhookPath: "api/webhooks/saleor/order-updated",
+  verifySignatureFn: (jwks, signature, rawBody) => {
+    return verifyWebhookSignature(jwks, signature, rawBody);
+  },
+});
@@ -13,7 +13,10 @@ import { withLoggerContext } from "@/lib/logger-context";
 import { setObservabilitySaleorApiUrl } from "@/lib/observability-saleor-api-url";
 import { setObservabilitySourceObjectId } from "@/lib/observability-source-object-id";
 import { appConfigRepoImpl } from "@/modules/app-config/repositories/app-config-repo-impl";
+import { customerLinkRepo } from "@/modules/customers-linking/repositories/customer-link-repo-impl";
+import { StripeCustomerResolver } from "@/modules/customers-linking/stripe-customer-resolver";
 import { createSaleorApiUrl } from "@/modules/saleor/saleor-api-url";
+import { StripeCustomersApiFactory } from "@/modules/stripe/stripe-customers-api-factory";
 
 import { withRecipientVerification } from "../with-recipient-verification";
 import { PaymentGatewayInitializeSessionUseCase } from "./use-case";
@@ -21,6 +24,10 @@ import { paymentGatewayInitializeSessionWebhookDefinition } from "./webhook-defi
 
 const useCase = new PaymentGatewayInitializeSessionUseCase({
   appConfigRepo: appConfigRepoImpl,
+  stripeCustomerResolver: new StripeCustomerResolver({
+    customerLinkRepo,
+    stripeCustomersApiFactory: new StripeCustomersApiFactory(),
+  }),
 });
 
 const logger = createLogger("PAYMENT_GATEWAY_INITIALIZE_SESSION route");
@@ -49,6 +56,7 @@ const handler = paymentGatewayInitializeSessionWebhookDefinition.createHandler(
 
       const result = await useCase.execute({
         channelId: ctx.payload.sourceObject.channel.id,
+        saleorUserId: ctx.payload.sourceObject.user?.id ?? null,
         appId: ctx.authData.appId,
         saleorApiUrl: saleorApiUrlResult.value,
       });
@@ -1,14 +1,31 @@
 import { describe, expect, it } from "vitest";
 
 import { mockedStripePublishableKey } from "@/__tests__/mocks/mocked-stripe-publishable-key";
+import { PaymentMethodsSettings } from "@/modules/app-config/domain/payment-methods-settings";
 
 import { PaymentGatewayInitializeSessionUseCaseResponses } from "./use-case-response";
 
 describe("PaymentGatewayInitializeSessionUseCaseResponses", () => {
   describe("Success", () => {
-    it("getResponse() returns valid Response with status 200 and formatted 'data' object containing Stripe PK", async () => {
+    it("getResponse() returns valid Response with status 200 and formatted 'data' object containing Stripe PK and saved payment methods", async () => {
       const successResponse = new PaymentGatewayInitializeSessionUseCaseResponses.Success({
         pk: mockedStripePublishableKey,
+        savedPaymentMethods: [
+          {
+            id: "pm_1",
+            type: "card",
+            card: {
+              brand: "visa",
+              last4: "4242",
+              expMonth: 12,
+              expYear: 2030,
+            },
+          },
+        ],
+        paymentMethodsSettings: PaymentMethodsSettings.create({
+          allowedPaymentMethods: ["card", "klarna"],
+          transactionFlowOverrides: { klarna: "CHARGE" },
+        })._unsafeUnwrap(),
         appContext: {
           stripeEnv: "LIVE",
         },
@@ -19,7 +36,26 @@ describe("PaymentGatewayInitializeSessionUseCaseResponses", () => {
       expect(await fetchReponse.json()).toMatchInlineSnapshot(`
         {
           "data": {
+            "allowedPaymentMethods": [
+              "card",
+              "klarna",
+            ],
+            "savedPaymentMethods": [
+              {
+                "card": {
+                  "brand": "visa",
+                  "expMonth": 12,
+                  "expYear": 2030,
+                  "last4": "4242",
+                },
+                "id": "pm_1",
+                "type": "card",
+              },
+            ],
             "stripePublishableKey": "pk_live_1",
+            "transactionFlowOverrides": {
+              "klarna": "CHARGE",
+            },
           },
         }
       `);
@@ -3,24 +3,57 @@ import { z } from "zod";
 import { SuccessWebhookResponse } from "@/app/api/webhooks/saleor/saleor-webhook-responses";
 import { type PaymentGatewayInitializeSession } from "@/generated/app-webhooks-types/payment-gateway-initialize-session";
 import { type AppContext } from "@/lib/app-context";
+import { type PaymentMethodsSettings } from "@/modules/app-config/domain/payment-methods-settings";
+import { type SavedPaymentMethod } from "@/modules/customers-linking/stripe-customer-resolver";
 import { type StripePublishableKey } from "@/modules/stripe/stripe-publishable-key";
 
 class Success extends SuccessWebhookResponse {
   readonly pk: StripePublishableKey;
+  readonly savedPaymentMethods: SavedPaymentMethod[];
+  readonly paymentMethodsSettings: PaymentMethodsSettings;
 
   private static ResponseDataSchema = z.object({
     stripePublishableKey: z.string(),
+    savedPaymentMethods: z.array(
+      z.object({
+        id: z.string(),
+        type: z.string(),
+        card: z
+          .object({
+            brand: z.string(),
+            last4: z.string(),
+            expMonth: z.number(),
+            expYear: z.number(),
+          })
+          .nullable(),
+      }),
+    ),
+    allowedPaymentMethods: z.array(z.string()),
+    transactionFlowOverrides: z.record(z.enum(["AUTHORIZATION", "CHARGE"])),
   });
 
-  constructor(args: { pk: StripePublishableKey; appContext: AppContext }) {
+  constructor(args: {
+    pk: StripePublishableKey;
+    savedPaymentMethods: SavedPaymentMethod[];
+    paymentMethodsSettings: PaymentMethodsSettings;
+    appContext: AppContext;
+  }) {
     super(args.appContext);
     this.pk = args.pk;
+    this.savedPaymentMethods = args.savedPaymentMethods;
+    this.paymentMethodsSettings = args.paymentMethodsSettings;
   }
 
   getResponse() {
     const typeSafeResponse: PaymentGatewayInitializeSession = {
       data: Success.ResponseDataSchema.parse({
         stripePublishableKey: this.pk,
+        savedPaymentMethods: this.savedPaymentMethods,
+        /*
+         * Storefront should render only allowed payment methods - transactionInitializeSession rejects other ones
+         */
+        allowedPaymentMethods: this.paymentMethodsSettings.getEffectiveAllowedPaymentMethods(),
+        transactionFlowOverrides: this.paymentMethodsSettings.transactionFlowOverrides,
       }),
     };
 
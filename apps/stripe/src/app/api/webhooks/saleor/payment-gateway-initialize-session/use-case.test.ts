@@ -1,23 +1,52 @@
-import { ok } from "neverthrow";
-import { describe, expect, it, vi } from "vitest";
+import { err, ok } from "neverthrow";
+import type Stripe from "stripe";
+import { beforeEach, describe, expect, it, vi } from "vitest";
 
 import { mockedAppConfigRepo } from "@/__tests__/mocks/app-config-repo";
-import { mockedSaleorAppId, mockedSaleorChannelId } from "@/__tests__/mocks/constants";
+import {
+  mockedConfigurationId,
+  mockedSaleorAppId,
+  mockedSaleorChannelId,
+} from "@/__tests__/mocks/constants";
+import { mockedStripeConfig } from "@/__tests__/mocks/mock-stripe-config";
+import { MockedCustomerLinkRepo } from "@/__tests__/mocks/mocked-customer-link-repo";
+import { mockedStripeCustomerId } from "@/__tests__/mocks/mocked-stripe-customer-id";
+import { mockedStripeCustomersApi } from "@/__tests__/mocks/mocked-stripe-customers-api";
 import { mockedStripePublishableKey } from "@/__tests__/mocks/mocked-stripe-publishable-key";
 import { mockedSaleorApiUrl } from "@/__tests__/mocks/saleor-api-url";
 import { AppIsNotConfiguredResponse } from "@/app/api/webhooks/saleor/saleor-webhook-responses";
+import { PaymentMethodsSettings } from "@/modules/app-config/domain/payment-methods-settings";
+import { StripeConfig } from "@/modules/app-config/domain/stripe-config";
+import { LinkedStripeCustomer } from "@/modules/customers-linking/domain/linked-stripe-customer";
+import { StripeCustomerResolver } from "@/modules/customers-linking/stripe-customer-resolver";
+import { supportedPaymentMethodTypes } from "@/modules/stripe/payment-methods/supported-payment-method-type";
+import { type IStripeCustomersApiFactory } from "@/modules/stripe/types";
 
 import { PaymentGatewayInitializeSessionUseCase } from "./use-case";
 import { PaymentGatewayInitializeSessionUseCaseResponses } from "./use-case-response";
 
 describe("PaymentGatewayInitializeSessionUseCase", () => {
+  const customerLinkRepo = new MockedCustomerLinkRepo();
+  const stripeCustomerResolver = new StripeCustomerResolver({
+    customerLinkRepo,
+    stripeCustomersApiFactory: {
+      create: () => mockedStripeCustomersApi,
+    } satisfies IStripeCustomersApiFactory,
+  });
+
+  beforeEach(() => {
+    customerLinkRepo.reset();
+  });
+
   it('Returns Success response with publishable key within "data" object if found in configuration', async () => {
     const uc = new PaymentGatewayInitializeSessionUseCase({
       appConfigRepo: mockedAppConfigRepo,
+      stripeCustomerResolver,
     });
 
     const responsePayload = await uc.execute({
       channelId: mockedSaleorChannelId,
+      saleorUserId: null,
       saleorApiUrl: mockedSaleorApiUrl,
       appId: mockedSaleorAppId,
     });
@@ -31,6 +60,172 @@ describe("PaymentGatewayInitializeSessionUseCase", () => {
     expect(jsonResponse).toStrictEqual({
       data: {
         stripePublishableKey: mockedStripePublishableKey,
+        savedPaymentMethods: [],
+        allowedPaymentMethods: [...supportedPaymentMethodTypes],
+        transactionFlowOverrides: {},
+      },
+    });
+  });
+
+  it("Returns saved payment methods of Stripe Customer linked with Saleor user", async () => {
+    await customerLinkRepo.saveLinkedCustomer(
+      { saleorApiUrl: mockedSaleorApiUrl, appId: mockedSaleorAppId },
+      new LinkedStripeCustomer({
+        saleorUserId: "user-id",
+        configurationId: mockedConfigurationId,
+        stripeCustomerId: mockedStripeCustomerId,
+      }),
+    );
+
+    vi.spyOn(mockedStripeCustomersApi, "listPaymentMethods").mockImplementationOnce(async () =>
+      ok([
+        {
+          id: "pm_card",
+          type: "card",
+          card: { brand: "visa", last4: "4242", exp_month: 12, exp_year: 2030 },
+        },
+        {
+          id: "pm_sepa",
+          type: "sepa_debit",
+        },
+      ] as Stripe.PaymentMethod[]),
+    );
+
+    const uc = new PaymentGatewayInitializeSessionUseCase({
+      appConfigRepo: mockedAppConfigRepo,
+      stripeCustomerResolver,
+    });
+
+    const responsePayload = await uc.execute({
+      channelId: mockedSaleorChannelId,
+      saleorUserId: "user-id",
+      saleorApiUrl: mockedSaleorApiUrl,
+      appId: mockedSaleorAppId,
+    });
+
+    const jsonResponse = await responsePayload._unsafeUnwrap().getResponse().json();
+
+    expect(mockedStripeCustomersApi.listPaymentMethods).toHaveBeenCalledWith({
+      customerId: mockedStripeCustomerId,
+    });
+    expect(jsonResponse).toStrictEqual({
+      data: {
+        stripePublishableKey: mockedStripePublishableKey,
+        savedPaymentMethods: [
+          {
+            id: "pm_card",
+            type: "card",
+            card: { brand: "visa", last4: "4242", expMonth: 12, expYear: 2030 },
+          },
+          {
+            id: "pm_sepa",
+            type: "sepa_debit",
+            card: null,
+          },
+        ],
+        allowedPaymentMethods: [...supportedPaymentMethodTypes],
+        transactionFlowOverrides: {},
+      },
+    });
+  });
+
+  it("Returns empty saved payment methods without calling Stripe if user has no linked Stripe Customer", async () => {
+    const uc = new PaymentGatewayInitializeSessionUseCase({
+      appConfigRepo: mockedAppConfigRepo,
+      stripeCustomerResolver,
+    });
+
+    const responsePayload = await uc.execute({
+      channelId: mockedSaleorChannelId,
+      saleorUserId: "user-id",
+      saleorApiUrl: mockedSaleorApiUrl,
+      appId: mockedSaleorAppId,
+    });
+
+    const jsonResponse = await responsePayload._unsafeUnwrap().getResponse().json();
+
+    expect(jsonResponse).toStrictEqual({
+      data: {
+        stripePublishableKey: mockedStripePublishableKey,
+        savedPaymentMethods: [],
+        allowedPaymentMethods: [...supportedPaymentMethodTypes],
+        transactionFlowOverrides: {},
+      },
+    });
+    expect(mockedStripeCustomersApi.listPaymentMethods).not.toHaveBeenCalled();
+  });
+
+  it("Returns Success with empty saved payment methods if Stripe fails to list them", async () => {
+    await customerLinkRepo.saveLinkedCustomer(
+      { saleorApiUrl: mockedSaleorApiUrl, appId: mockedSaleorAppId },
+      new LinkedStripeCustomer({
+        saleorUserId: "user-id",
+        configurationId: mockedConfigurationId,
+        stripeCustomerId: mockedStripeCustomerId,
+      }),
+    );
+
+    vi.spyOn(mockedStripeCustomersApi, "listPaymentMethods").mockImplementationOnce(async () =>
+      err(new Error("Stripe error")),
+    );
+
+    const uc = new PaymentGatewayInitializeSessionUseCase({
+      appConfigRepo: mockedAppConfigRepo,
+      stripeCustomerResolver,
+    });
+
+    const responsePayload = await uc.execute({
+      channelId: mockedSaleorChannelId,
+      saleorUserId: "user-id",
+      saleorApiUrl: mockedSaleorApiUrl,
+      appId: mockedSaleorAppId,
+    });
+
+    const jsonResponse = await responsePayload._unsafeUnwrap().getResponse().json();
+
+    expect(jsonResponse).toStrictEqual({
+      data: {
+        stripePublishableKey: mockedStripePublishableKey,
+        savedPaymentMethods: [],
+        allowedPaymentMethods: [...supportedPaymentMethodTypes],
+        transactionFlowOverrides: {},
+      },
+    });
+  });
+
+  it("Returns payment methods allowed in config and transaction flow overrides", async () => {
+    vi.spyOn(mockedAppConfigRepo, "getStripeConfig").mockImplementationOnce(async () =>
+      ok(
+        StripeConfig.create({
+          ...mockedStripeConfig,
+          paymentMethodsSettings: PaymentMethodsSettings.create({
+            allowedPaymentMethods: ["card", "klarna"],
+            transactionFlowOverrides: { klarna: "CHARGE" },
+          })._unsafeUnwrap(),
+        })._unsafeUnwrap(),
+      ),
+    );
+
+    const uc = new PaymentGatewayInitializeSessionUseCase({
+      appConfigRepo: mockedAppConfigRepo,
+      stripeCustomerResolver,
+    });
+
+    const responsePayload = await uc.execute({
+      channelId: mockedSaleorChannelId,
+      saleorUserId: null,
+      saleorApiUrl: mockedSaleorApiUrl,
+      appId: mockedSaleorAppId,
+    });
+
+    const jsonResponse = await responsePayload._unsafeUnwrap().getResponse().json();
+
+    expect(jsonResponse).toStrictEqual({
+      data: {
+        stripePublishableKey: mockedStripePublishableKey,
+        savedPaymentMethods: [],
+        allowedPaymentMethods: ["card", "klarna"],
+        transactionFlowOverrides: { klarna: "CHARGE" },
       },
     });
   });
@@ -42,17 +237,19 @@ describe("PaymentGatewayInitializeSessionUseCase", () => {
 
     const uc = new PaymentGatewayInitializeSessionUseCase({
       appConfigRepo: mockedAppConfigRepo,
+      stripeCustomerResolver,
     });
 
     const responsePayload = await uc.execute({
       channelId: mockedSaleorChannelId,
+      saleorUserId: null,
       saleorApiUrl: mockedSaleorApiUrl,
       appId: mockedSaleorAppId,
     });
 
-    const err = responsePayload._unsafeUnwrapErr();
+    const error = responsePayload._unsafeUnwrapErr();
 
-    expect(err).toBeInstanceOf(AppIsNotConfiguredResponse);
+    expect(error).toBeInstanceOf(AppIsNotConfiguredResponse);
     expect(spy).toHaveBeenCalledOnce();
   });
 });
@@ -7,7 +7,12 @@ import {
 import { appContextContainer } from "@/lib/app-context";
 import { BaseError } from "@/lib/errors";
 import { createLogger } from "@/lib/logger";
+import { type StripeConfig } from "@/modules/app-config/domain/stripe-config";
 import { type AppConfigRepo } from "@/modules/app-config/repositories/app-config-repo";
+import {
+  type SavedPaymentMethod,
+  type StripeCustomerResolver,
+} from "@/modules/customers-linking/stripe-customer-resolver";
 import { type SaleorApiUrl } from "@/modules/saleor/saleor-api-url";
 
 import {
@@ -17,6 +22,7 @@ import {
 
 export class PaymentGatewayInitializeSessionUseCase {
   private appConfigRepo: AppConfigRepo;
+  private stripeCustomerResolver: StripeCustomerResolver;
   private logger = createLogger("PaymentGatewayInitializeSessionUseCase");
 
   static UseCaseError = BaseError.subclass("PaymentGatewayInitializeSessionUseCaseError", {
@@ -25,12 +31,47 @@ export class PaymentGatewayInitializeSessionUseCase {
     },
   });
 
-  constructor(deps: { appConfigRepo: AppConfigRepo }) {
+  constructor(deps: {
+    appConfigRepo: AppConfigRepo;
+    stripeCustomerResolver: StripeCustomerResolver;
+  }) {
     this.appConfigRepo = deps.appConfigRepo;
+    this.stripeCustomerResolver = deps.stripeCustomerResolver;
+  }
+
+  /**
+   * Saved payment methods are an addition for the storefront - failure to fetch them should not block the payment
+   */
+  private async resolveSavedPaymentMethods(args: {
+    saleorUserId: string | null;
+    stripeConfig: StripeConfig;
+    appId: string;
+    saleorApiUrl: SaleorApiUrl;
+  }): Promise<SavedPaymentMethod[]> {
+    if (!args.saleorUserId) {
+      return [];
+    }
+
+    const savedPaymentMethodsResult = await this.stripeCustomerResolver.listSavedPaymentMethods({
+      accessPattern: { saleorApiUrl: args.saleorApiUrl, appId: args.appId },
+      stripeConfig: args.stripeConfig,
+      saleorUserId: args.saleorUserId,
+    });
+
+    if (savedPaymentMethodsResult.isErr()) {
+      this.logger.warn("Failed to resolve saved payment methods, returning empty list", {
+        error: savedPaymentMethodsResult.error,
+      });
+
+      return [];
+    }
+
+    return savedPaymentMethodsResult.value;
   }
 
   async execute(params: {
     channelId: string;
+    saleorUserId: string | null;
     appId: string;
     saleorApiUrl: SaleorApiUrl;
   }): Promise<
@@ -39,7 +80,7 @@ export class PaymentGatewayInitializeSessionUseCase {
       AppIsNotConfiguredResponse | BrokenAppResponse
     >
   > {
-    const { channelId, appId, saleorApiUrl } = params;
+    const { channelId, saleorUserId, appId, saleorApiUrl } = params;
 
     const stripeConfigForThisChannel = await this.appConfigRepo.getStripeConfig({
       channelId,
@@ -67,9 +108,18 @@ export class PaymentGatewayInitializeSessionUseCase {
         stripeEnv: stripeConfigForThisChannel.value.getStripeEnvValue(),
       });
 
+      const savedPaymentMethods = await this.resolveSavedPaymentMethods({
+        saleorUserId,
+        stripeConfig: stripeConfigForThisChannel.value,
+        appId,
+        saleorApiUrl,
+      });
+
       return ok(
         new PaymentGatewayInitializeSessionUseCaseResponses.Success({
           pk,
+          savedPaymentMethods,
+          paymentMethodsSettings: stripeConfigForThisChannel.value.paymentMethodsSettings,
           appContext: appContextContainer.getContextValue(),
         }),
       );
@@ -9,6 +9,7 @@ import {
 } from "@/app/api/webhooks/saleor/saleor-webhook-responses";
 import { appContextContainer } from "@/lib/app-context";
 import { BaseError } from "@/lib/errors";
+import { createInstrumentedGraphqlClient } from "@/lib/graphql-client";
 import { createLogger } from "@/lib/logger";
 import { loggerContext, withLoggerContext } from "@/lib/logger-context";
 import { setObservabilitySaleorApiUrl } from "@/lib/observability-saleor-api-url";
@@ -16,6 +17,7 @@ import { setObservabilitySourceObjectId } from "@/lib/observability-source-objec
 import { appConfigRepoImpl } from "@/modules/app-config/repositories/app-config-repo-impl";
 import { createStripeProblemReporter } from "@/modules/app-problems";
 import { createSaleorApiUrl } from "@/modules/saleor/saleor-api-url";
+import { TransactionEventReporter } from "@/modules/saleor/transaction-event-reporter";
 import { StripePaymentIntentsApiFactory } from "@/modules/stripe/stripe-payment-intents-api-factory";
 
 import { withRecipientVerification } from "../with-recipient-verification";
@@ -70,6 +72,9 @@ const handler = transactionChargeRequestedWebhookDefinition.createHandler(
         saleorApiUrl: saleorApiUrlResult.value,
         event: ctx.payload,
         problemReporter,
+        transactionEventReporter: new TransactionEventReporter({
+          graphqlClient: createInstrumentedGraphqlClient(ctx.authData),
+        }),
       });
 
       return result.match(
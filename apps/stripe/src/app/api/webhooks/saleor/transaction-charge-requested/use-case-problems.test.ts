@@ -1,13 +1,15 @@
-import { err } from "neverthrow";
+import { err, ok } from "neverthrow";
 import Stripe from "stripe";
-import { describe, expect, it, vi } from "vitest";
+import { beforeEach, describe, expect, it, vi } from "vitest";
 
 import { mockedAppConfigRepo } from "@/__tests__/mocks/app-config-repo";
 import { mockedConfigurationId, mockedSaleorAppId } from "@/__tests__/mocks/constants";
 import { mockStripeProblemReporter } from "@/__tests__/mocks/mock-stripe-problem-reporter";
+import { mockedStripePaymentIntentId } from "@/__tests__/mocks/mocked-stripe-payment-intent-id";
 import { mockedStripePaymentIntentsApi } from "@/__tests__/mocks/mocked-stripe-payment-intents-api";
 import { mockedSaleorApiUrl } from "@/__tests__/mocks/saleor-api-url";
 import { getMockedTransactionChargeRequestedEvent } from "@/__tests__/mocks/saleor-events/transaction-charge-requested-event";
+import { type ITransactionEventReporter } from "@/modules/saleor/transaction-event-reporter";
 import {
   StripeAPIError,
   StripeAuthenticationError,
@@ -42,6 +44,23 @@ describe("TransactionChargeRequestedUseCase - problem reporting", () => {
     create: () => mockedStripePaymentIntentsApi,
   } satisfies IStripePaymentIntentsApiFactory;
 
+  const mockEventReporter = {
+    reportTransactionEvent: vi.fn(),
+  } satisfies ITransactionEventReporter;
+
+  beforeEach(() => {
+    vi.spyOn(mockedStripePaymentIntentsApi, "getPaymentIntent").mockImplementation(async () =>
+      ok({
+        id: mockedStripePaymentIntentId,
+        currency: "usd",
+        amount: 10000,
+        amount_capturable: 10000,
+        amount_received: 0,
+        latest_charge: null,
+      } as unknown as Stripe.PaymentIntent),
+    );
+  });
+
   it("Reports authentication problem when Stripe returns StripeAuthenticationError", async () => {
     vi.spyOn(mockedStripePaymentIntentsApi, "capturePaymentIntent").mockImplementationOnce(
       async () =>
@@ -65,6 +84,7 @@ describe("TransactionChargeRequestedUseCase - problem reporting", () => {
       appId: mockedSaleorAppId,
       event: getMockedTransactionChargeRequestedEvent(),
       problemReporter: mockStripeProblemReporter,
+      transactionEventReporter: mockEventReporter,
     });
 
     expect(reportSpy).toHaveBeenCalledWith(expect.any(StripeAuthenticationError), {
@@ -96,6 +116,7 @@ describe("TransactionChargeRequestedUseCase - problem reporting", () => {
       appId: mockedSaleorAppId,
       event: getMockedTransactionChargeRequestedEvent(),
       problemReporter: mockStripeProblemReporter,
+      transactionEventReporter: mockEventReporter,
     });
 
     expect(reportSpy).toHaveBeenCalledWith(expect.any(StripePermissionError), {
@@ -127,6 +148,7 @@ describe("TransactionChargeRequestedUseCase - problem reporting", () => {
       appId: mockedSaleorAppId,
       event: getMockedTransactionChargeRequestedEvent(),
       problemReporter: mockStripeProblemReporter,
+      transactionEventReporter: mockEventReporter,
     });
 
     expect(reportSpy).toHaveBeenCalledWith(expect.any(StripeAPIError), {
@@ -3,6 +3,7 @@ import { describe, expect, it } from "vitest";
 import { getMockedSaleorMoney } from "@/__tests__/mocks/constants";
 import { mockedStripePaymentIntentId } from "@/__tests__/mocks/mocked-stripe-payment-intent-id";
 import { StripeAPIError } from "@/modules/stripe/stripe-api-error";
+import { createStripePartialCaptureReference } from "@/modules/stripe/stripe-partial-capture";
 import { ChargeFailureResult } from "@/modules/transaction-result/failure-result";
 import { ChargeSuccessResult } from "@/modules/transaction-result/success-result";
 
@@ -14,6 +15,7 @@ describe("TransactionChargeRequestedUseCaseResponses", () => {
       const successResponse = new TransactionChargeRequestedUseCaseResponses.Success({
         transactionResult: new ChargeSuccessResult(),
         stripePaymentIntentId: mockedStripePaymentIntentId,
+        pspReference: mockedStripePaymentIntentId,
         saleorMoney: getMockedSaleorMoney(),
         appContext: {
           stripeEnv: "LIVE",
@@ -35,6 +37,28 @@ describe("TransactionChargeRequestedUseCaseResponses", () => {
         }
       `);
     });
+
+    it("getResponse() uses partial capture reference as pspReference and keeps link to PaymentIntent", async () => {
+      const successResponse = new TransactionChargeRequestedUseCaseResponses.Success({
+        transactionResult: new ChargeSuccessResult(),
+        stripePaymentIntentId: mockedStripePaymentIntentId,
+        pspReference: createStripePartialCaptureReference({
+          paymentIntentId: mockedStripePaymentIntentId,
+          amountReceived: 1000,
+        }),
+        saleorMoney: getMockedSaleorMoney(),
+        appContext: {
+          stripeEnv: "LIVE",
+        },
+      });
+
+      expect(await successResponse.getResponse().json()).toStrictEqual(
+        expect.objectContaining({
+          pspReference: "pi_TEST_TEST_TEST_capture_1000",
+          externalUrl: "https://dashboard.stripe.com/payments/pi_TEST_TEST_TEST",
+        }),
+      );
+    });
   });
 
   describe("Failure with ChargeFailureResult", () => {
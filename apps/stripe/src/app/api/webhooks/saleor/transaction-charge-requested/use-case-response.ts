@@ -8,6 +8,7 @@ import { BaseError } from "@/lib/errors";
 import { type SaleorMoney } from "@/modules/saleor/saleor-money";
 import { generatePaymentIntentStripeDashboardUrl } from "@/modules/stripe/generate-stripe-dashboard-urls";
 import { type StripeApiError } from "@/modules/stripe/stripe-api-error";
+import { type StripePartialCaptureReference } from "@/modules/stripe/stripe-partial-capture";
 import { type StripePaymentIntentId } from "@/modules/stripe/stripe-payment-intent-id";
 import { type ChargeFailureResult } from "@/modules/transaction-result/failure-result";
 import { type ChargeSuccessResult } from "@/modules/transaction-result/success-result";
@@ -16,17 +17,20 @@ class Success extends SuccessWebhookResponse {
   readonly transactionResult: ChargeSuccessResult;
   readonly saleorMoney: SaleorMoney;
   readonly stripePaymentIntentId: StripePaymentIntentId;
+  readonly pspReference: StripePaymentIntentId | StripePartialCaptureReference;
 
   constructor(args: {
     transactionResult: ChargeSuccessResult;
     saleorMoney: SaleorMoney;
     stripePaymentIntentId: StripePaymentIntentId;
+    pspReference: StripePaymentIntentId | StripePartialCaptureReference;
     appContext: AppContext;
   }) {
     super(args.appContext);
     this.transactionResult = args.transactionResult;
     this.saleorMoney = args.saleorMoney;
     this.stripePaymentIntentId = args.stripePaymentIntentId;
+    this.pspReference = args.pspReference;
   }
 
   getResponse(): Response {
@@ -37,7 +41,7 @@ class Success extends SuccessWebhookResponse {
     const typeSafeResponse: TransactionChargeRequestedSyncSuccess = {
       result: this.transactionResult.result,
       amount: this.saleorMoney.amount,
-      pspReference: this.stripePaymentIntentId,
+      pspReference: this.pspReference,
       message: this.messageFormatter.formatMessage(this.transactionResult.message),
       actions: this.transactionResult.actions,
       externalUrl: generatePaymentIntentStripeDashboardUrl(
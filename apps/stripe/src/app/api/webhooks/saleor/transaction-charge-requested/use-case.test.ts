@@ -1,6 +1,6 @@
 import { err, ok } from "neverthrow";
 import type Stripe from "stripe";
-import { describe, expect, it, vi } from "vitest";
+import { beforeEach, describe, expect, it, vi } from "vitest";
 
 import { mockedAppConfigRepo } from "@/__tests__/mocks/app-config-repo";
 import { mockedSaleorAppId, mockedSaleorTransactionId } from "@/__tests__/mocks/constants";
@@ -13,7 +13,9 @@ import {
   AppIsNotConfiguredResponse,
   BrokenAppResponse,
 } from "@/app/api/webhooks/saleor/saleor-webhook-responses";
+import { type ITransactionEventReporter } from "@/modules/saleor/transaction-event-reporter";
 import { StripeAPIError } from "@/modules/stripe/stripe-api-error";
+import { StripeMoney } from "@/modules/stripe/stripe-money";
 import { type IStripePaymentIntentsApiFactory } from "@/modules/stripe/types";
 import { ChargeFailureResult } from "@/modules/transaction-result/failure-result";
 import { ChargeSuccessResult } from "@/modules/transaction-result/success-result";
@@ -46,12 +48,50 @@ describe("TransactionChargeRequestedUseCase", () => {
     create: () => mockedStripePaymentIntentsApi,
   } satisfies IStripePaymentIntentsApiFactory;
 
+  const mockEventReporter = {
+    reportTransactionEvent: vi.fn(),
+  } satisfies ITransactionEventReporter;
+
+  const getMockedPaymentIntentBeforeCapture = (overrides: Partial<Stripe.PaymentIntent> = {}) =>
+    ({
+      id: mockedStripePaymentIntentId,
+      currency: "usd",
+      amount: 100_00,
+      amount_capturable: 100_00,
+      amount_received: 0,
+      metadata: {},
+      latest_charge: null,
+      status: "requires_capture",
+      ...overrides,
+    }) as Stripe.PaymentIntent;
+
+  const multicaptureAvailableCharge = {
+    id: "ch_TEST_TEST_TEST",
+    payment_method_details: {
+      card: {
+        multicapture: {
+          status: "available",
+        },
+      },
+    },
+  } as unknown as Stripe.Charge;
+
+  beforeEach(() => {
+    mockEventReporter.reportTransactionEvent.mockImplementation(async () =>
+      ok({ createdEventId: "event-id" }),
+    );
+    vi.spyOn(mockedStripePaymentIntentsApi, "getPaymentIntent").mockImplementation(async () =>
+      ok(getMockedPaymentIntentBeforeCapture()),
+    );
+  });
+
   it("Calls Stripe PaymentIntent API to capture payment intent and returns ChargeSuccess when payment intent is captured successfully", async () => {
     const spy = vi
       .spyOn(mockedStripePaymentIntentsApi, "capturePaymentIntent")
       .mockImplementationOnce(async () =>
         ok({
           amount: 100,
+          amount_received: 100,
           currency: "usd",
           id: mockedStripePaymentIntentId.toString(), // stripe doesn't expect to get branded type here
           status: "succeeded",
@@ -68,6 +108,7 @@ describe("TransactionChargeRequestedUseCase", () => {
       appId: mockedSaleorAppId,
       event: getMockedTransactionChargeRequestedEvent(),
       problemReporter: mockStripeProblemReporter,
+      transactionEventReporter: mockEventReporter,
     });
 
     expect(result._unsafeUnwrap()).toBeInstanceOf(
@@ -78,7 +119,212 @@ describe("TransactionChargeRequestedUseCase", () => {
 
     expect(spy).toHaveBeenCalledWith({
       id: mockedStripePaymentIntentId,
+      amountToCapture: StripeMoney.createFromSaleorAmount({
+        amount: 100,
+        currency: "usd",
+      })._unsafeUnwrap(),
+      finalCapture: true,
+    });
+  });
+
+  it("Captures only requested amount and reports it under PaymentIntent ID when multicapture is not available", async () => {
+    const spy = vi
+      .spyOn(mockedStripePaymentIntentsApi, "capturePaymentIntent")
+      .mockImplementationOnce(async () =>
+        ok({
+          amount: 100_00,
+          amount_received: 40_00,
+          currency: "usd",
+          id: mockedStripePaymentIntentId.toString(),
+          metadata: {},
+          status: "succeeded",
+        } as unknown as Stripe.PaymentIntent),
+      );
+
+    const uc = new TransactionChargeRequestedUseCase({
+      appConfigRepo: mockedAppConfigRepo,
+      stripePaymentIntentsApiFactory,
+    });
+
+    const result = await uc.execute({
+      saleorApiUrl: mockedSaleorApiUrl,
+      appId: mockedSaleorAppId,
+      event: { ...getMockedTransactionChargeRequestedEvent(), action: { amount: 40 } },
+      problemReporter: mockStripeProblemReporter,
+      transactionEventReporter: mockEventReporter,
+    });
+
+    expect(spy).toHaveBeenCalledWith({
+      id: mockedStripePaymentIntentId,
+      amountToCapture: StripeMoney.createFromSaleorAmount({
+        amount: 40,
+        currency: "usd",
+      })._unsafeUnwrap(),
+      finalCapture: true,
+    });
+
+    const response = result._unsafeUnwrap() as InstanceType<
+      typeof TransactionChargeRequestedUseCaseResponses.Success
+    >;
+
+    expect(response.transactionResult).toBeInstanceOf(ChargeSuccessResult);
+    expect(response.saleorMoney.amount).toBe(40);
+    expect(response.pspReference).toBe(mockedStripePaymentIntentId);
+    expect(mockEventReporter.reportTransactionEvent).toHaveBeenCalledExactlyOnceWith({
+      transactionId: mockedSaleorTransactionId,
+      type: "CANCEL_SUCCESS",
+      amount: expect.objectContaining({ amount: 60, currency: "USD" }),
+      pspReference: mockedStripePaymentIntentId,
+      message: "Payment partially captured, remaining authorized amount was released",
+      actions: null,
+      time: expect.any(String),
+      externalUrl: `https://dashboard.stripe.com/payments/${mockedStripePaymentIntentId}`,
+      saleorPaymentMethodDetailsInput: null,
+    });
+  });
+
+  it("Performs non-final capture with partial PSP reference when multicapture is available and amount is lower than capturable", async () => {
+    vi.spyOn(mockedStripePaymentIntentsApi, "getPaymentIntent").mockImplementationOnce(async () =>
+      ok(
+        getMockedPaymentIntentBeforeCapture({
+          amount_capturable: 70_00,
+          amount_received: 30_00,
+          metadata: { saleor_partially_captured_amount: "3000" },
+          latest_charge: multicaptureAvailableCharge,
+        }),
+      ),
+    );
+
+    const spy = vi
+      .spyOn(mockedStripePaymentIntentsApi, "capturePaymentIntent")
+      .mockImplementationOnce(async () =>
+        ok({
+          amount: 100_00,
+          amount_capturable: 45_00,
+          amount_received: 55_00,
+          currency: "usd",
+          id: mockedStripePaymentIntentId.toString(),
+          status: "requires_capture",
+        } as unknown as Stripe.PaymentIntent),
+      );
+
+    const uc = new TransactionChargeRequestedUseCase({
+      appConfigRepo: mockedAppConfigRepo,
+      stripePaymentIntentsApiFactory,
+    });
+
+    const result = await uc.execute({
+      saleorApiUrl: mockedSaleorApiUrl,
+      appId: mockedSaleorAppId,
+      event: { ...getMockedTransactionChargeRequestedEvent(), action: { amount: 25 } },
+      problemReporter: mockStripeProblemReporter,
+      transactionEventReporter: mockEventReporter,
+    });
+
+    expect(spy).toHaveBeenCalledWith({
+      id: mockedStripePaymentIntentId,
+      amountToCapture: StripeMoney.createFromSaleorAmount({
+        amount: 25,
+        currency: "usd",
+      })._unsafeUnwrap(),
+      finalCapture: false,
+      metadata: {
+        saleor_partially_captured_amount: "5500",
+        saleor_authorization_adjusted_amount: "",
+      },
     });
+
+    const response = result._unsafeUnwrap() as InstanceType<
+      typeof TransactionChargeRequestedUseCaseResponses.Success
+    >;
+
+    expect(response.transactionResult).toBeInstanceOf(ChargeSuccessResult);
+    expect(response.saleorMoney.amount).toBe(25);
+    expect(response.pspReference).toBe(`${mockedStripePaymentIntentId}_capture_5500`);
+  });
+
+  it("Performs final capture and reports only remaining amount when multicapture is available and whole capturable amount is requested", async () => {
+    vi.spyOn(mockedStripePaymentIntentsApi, "getPaymentIntent").mockImplementationOnce(async () =>
+      ok(
+        getMockedPaymentIntentBeforeCapture({
+          amount_capturable: 70_00,
+          amount_received: 30_00,
+          metadata: { saleor_partially_captured_amount: "3000" },
+          latest_charge: multicaptureAvailableCharge,
+        }),
+      ),
+    );
+
+    const spy = vi
+      .spyOn(mockedStripePaymentIntentsApi, "capturePaymentIntent")
+      .mockImplementationOnce(async () =>
+        ok({
+          amount: 100_00,
+          amount_capturable: 0,
+          amount_received: 100_00,
+          currency: "usd",
+          id: mockedStripePaymentIntentId.toString(),
+          metadata: { saleor_partially_captured_amount: "3000" },
+          status: "succeeded",
+        } as unknown as Stripe.PaymentIntent),
+      );
+
+    const uc = new TransactionChargeRequestedUseCase({
+      appConfigRepo: mockedAppConfigRepo,
+      stripePaymentIntentsApiFactory,
+    });
+
+    const result = await uc.execute({
+      saleorApiUrl: mockedSaleorApiUrl,
+      appId: mockedSaleorAppId,
+      event: { ...getMockedTransactionChargeRequestedEvent(), action: { amount: 70 } },
+      problemReporter: mockStripeProblemReporter,
+      transactionEventReporter: mockEventReporter,
+    });
+
+    expect(spy).toHaveBeenCalledWith({
+      id: mockedStripePaymentIntentId,
+      amountToCapture: StripeMoney.createFromSaleorAmount({
+        amount: 70,
+        currency: "usd",
+      })._unsafeUnwrap(),
+      finalCapture: true,
+    });
+
+    const response = result._unsafeUnwrap() as InstanceType<
+      typeof TransactionChargeRequestedUseCaseResponses.Success
+    >;
+
+    expect(response.transactionResult).toBeInstanceOf(ChargeSuccessResult);
+    expect(response.saleorMoney.amount).toBe(70);
+    expect(response.pspReference).toBe(mockedStripePaymentIntentId);
+    expect(mockEventReporter.reportTransactionEvent).not.toHaveBeenCalled();
+  });
+
+  it("Returns ChargeFailureResult and doesn't capture when payment intent can't be retrieved", async () => {
+    vi.spyOn(mockedStripePaymentIntentsApi, "getPaymentIntent").mockImplementationOnce(async () =>
+      err(new StripeAPIError("Error from Stripe API")),
+    );
+
+    const captureSpy = vi.spyOn(mockedStripePaymentIntentsApi, "capturePaymentIntent");
+
+    const uc = new TransactionChargeRequestedUseCase({
+      appConfigRepo: mockedAppConfigRepo,
+      stripePaymentIntentsApiFactory,
+    });
+
+    const result = await uc.execute({
+      saleorApiUrl: mockedSaleorApiUrl,
+      appId: mockedSaleorAppId,
+      event: getMockedTransactionChargeRequestedEvent(),
+      problemReporter: mockStripeProblemReporter,
+      transactionEventReporter: mockEventReporter,
+    });
+
+    expect(result._unsafeUnwrap()).toBeInstanceOf(
+      TransactionChargeRequestedUseCaseResponses.Failure,
+    );
+    expect(captureSpy).not.toHaveBeenCalled();
   });
 
   it("Calls Stripe PaymentIntent API to capture payment intent and returns ChargeFailureResult when payment intent capture fails", async () => {
@@ -96,6 +342,7 @@ describe("TransactionChargeRequestedUseCase", () => {
       appId: mockedSaleorAppId,
       event: getMockedTransactionChargeRequestedEvent(),
       problemReporter: mockStripeProblemReporter,
+      transactionEventReporter: mockEventReporter,
     });
 
     expect(result._unsafeUnwrap()).toBeInstanceOf(
@@ -103,9 +350,11 @@ describe("TransactionChargeRequestedUseCase", () => {
     );
     expect(result._unsafeUnwrap().transactionResult).toBeInstanceOf(ChargeFailureResult);
 
-    expect(spy).toHaveBeenCalledWith({
-      id: mockedStripePaymentIntentId,
-    });
+    expect(spy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: mockedStripePaymentIntentId,
+      }),
+    );
   });
 
   it("Returns 'MissingConfigErrorResponse' if config not found for specified channel", async () => {
@@ -123,6 +372,7 @@ describe("TransactionChargeRequestedUseCase", () => {
       appId: mockedSaleorAppId,
       event: getMockedTransactionChargeRequestedEvent(),
       problemReporter: mockStripeProblemReporter,
+      transactionEventReporter: mockEventReporter,
     });
 
     const err = responsePayload._unsafeUnwrapErr();
@@ -150,6 +400,7 @@ describe("TransactionChargeRequestedUseCase", () => {
       appId: mockedSaleorAppId,
       event: getMockedTransactionChargeRequestedEvent(),
       problemReporter: mockStripeProblemReporter,
+      transactionEventReporter: mockEventReporter,
     });
 
     expect(response._unsafeUnwrapErr()).toBeInstanceOf(BrokenAppResponse);
@@ -169,6 +420,7 @@ describe("TransactionChargeRequestedUseCase", () => {
         appId: mockedSaleorAppId,
         event: saleorEvent,
         problemReporter: mockStripeProblemReporter,
+        transactionEventReporter: mockEventReporter,
       }),
     ).rejects.toThrowErrorMatchingInlineSnapshot(
       `[MissingTransactionError: Transaction not found in event]`,
@@ -197,6 +449,7 @@ describe("TransactionChargeRequestedUseCase", () => {
         appId: mockedSaleorAppId,
         event: saleorEvent,
         problemReporter: mockStripeProblemReporter,
+        transactionEventReporter: mockEventReporter,
       }),
     ).rejects.toThrowErrorMatchingInlineSnapshot(
       `[MissingChannelIdError: Channel ID not found in event Checkout or Order]`,
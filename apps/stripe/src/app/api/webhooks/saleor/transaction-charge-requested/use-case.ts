@@ -1,29 +1,49 @@
 import { ObservabilityAttributes } from "@saleor/apps-otel/src/observability-attributes";
 import { err, ok, type Result } from "neverthrow";
 import { after } from "next/server";
+import type Stripe from "stripe";
 
 import {
   AppIsNotConfiguredResponse,
   BrokenAppResponse,
-  type MalformedRequestResponse,
+  MalformedRequestResponse,
 } from "@/app/api/webhooks/saleor/saleor-webhook-responses";
+import { TransactionEventReportVariablesResolver } from "@/app/api/webhooks/stripe/transaction-event-report-variables-resolver";
 import { type TransactionChargeRequestedEventFragment } from "@/generated/graphql";
 import { appContextContainer } from "@/lib/app-context";
 import { BaseError } from "@/lib/errors";
 import { createLogger } from "@/lib/logger";
 import { loggerContext } from "@/lib/logger-context";
+import { type StripeConfig } from "@/modules/app-config/domain/stripe-config";
 import { type AppConfigRepo } from "@/modules/app-config/repositories/app-config-repo";
 import { type StripeProblemReporter } from "@/modules/app-problems";
 import { resolveSaleorMoneyFromStripePaymentIntent } from "@/modules/saleor/resolve-saleor-money-from-stripe-payment-intent";
 import { type SaleorApiUrl } from "@/modules/saleor/saleor-api-url";
+import { SaleorMoney } from "@/modules/saleor/saleor-money";
+import { createSaleorTransactionId } from "@/modules/saleor/saleor-transaction-id";
+import {
+  type ITransactionEventReporter,
+  TransactionEventReporterErrors,
+} from "@/modules/saleor/transaction-event-reporter";
 import {
   getChannelIdFromRequestedEventPayload,
   getTransactionFromRequestedEventPayload,
 } from "@/modules/saleor/transaction-requested-event-helpers";
+import { generatePaymentIntentStripeDashboardUrl } from "@/modules/stripe/generate-stripe-dashboard-urls";
 import { mapStripeErrorToApiError } from "@/modules/stripe/stripe-api-error";
-import { createStripePaymentIntentId } from "@/modules/stripe/stripe-payment-intent-id";
+import { type StripeEnv } from "@/modules/stripe/stripe-env";
+import { StripeMoney } from "@/modules/stripe/stripe-money";
+import {
+  createStripePartialCaptureReference,
+  isStripeMulticaptureAvailable,
+} from "@/modules/stripe/stripe-partial-capture";
+import {
+  createStripePaymentIntentId,
+  type StripePaymentIntentId,
+} from "@/modules/stripe/stripe-payment-intent-id";
 import { type IStripePaymentIntentsApiFactory } from "@/modules/stripe/types";
 import { ChargeFailureResult } from "@/modules/transaction-result/failure-result";
+import { PartialCaptureReleasedInfoResult } from "@/modules/transaction-result/partial-capture-result";
 import { ChargeSuccessResult } from "@/modules/transaction-result/success-result";
 
 import {
@@ -49,11 +69,103 @@ export class TransactionChargeRequestedUseCase {
     this.stripePaymentIntentsApiFactory = deps.stripePaymentIntentsApiFactory;
   }
 
+  private handleStripeApiError(args: {
+    error: unknown;
+    stripeConfig: StripeConfig;
+    stripePaymentIntentId: StripePaymentIntentId;
+    problemReporter: StripeProblemReporter;
+  }) {
+    const error = mapStripeErrorToApiError(args.error);
+
+    const config = {
+      id: args.stripeConfig.id,
+      name: args.stripeConfig.name,
+    };
+
+    after(() => args.problemReporter.reportApiProblem(error, config));
+
+    this.logger.warn("Failed to capture payment intent", {
+      error,
+    });
+
+    return new TransactionChargeRequestedUseCaseResponses.Failure({
+      transactionResult: new ChargeFailureResult(),
+      stripePaymentIntentId: args.stripePaymentIntentId,
+      error,
+      appContext: appContextContainer.getContextValue(),
+    });
+  }
+
+  /**
+   * Capture leaves the rest of authorization for the next captures only if the card supports multicapture.
+   * Otherwise Stripe releases not captured funds, like in the regular partial capture.
+   */
+  private resolveIsFinalCapture(args: {
+    paymentIntent: Stripe.PaymentIntent;
+    amountToCapture: StripeMoney;
+  }) {
+    if (!isStripeMulticaptureAvailable(args.paymentIntent)) {
+      return true;
+    }
+
+    return args.amountToCapture.amount >= args.paymentIntent.amount_capturable;
+  }
+
+  /**
+   * Released amount can't be returned in the webhook response next to the captured one, so it's reported separately
+   */
+  private async reportReleasedAuthorization(args: {
+    transactionEventReporter: ITransactionEventReporter;
+    saleorTransactionId: string;
+    stripePaymentIntentId: StripePaymentIntentId;
+    releasedAmount: number;
+    currency: string;
+    stripeEnv: StripeEnv;
+  }) {
+    const saleorMoneyResult = SaleorMoney.createFromStripe({
+      amount: args.releasedAmount,
+      currency: args.currency,
+    });
+
+    if (saleorMoneyResult.isErr()) {
+      this.logger.error("Failed to create Saleor money of released authorization", {
+        error: saleorMoneyResult.error,
+      });
+
+      return;
+    }
+
+    const reportResult = await args.transactionEventReporter.reportTransactionEvent(
+      new TransactionEventReportVariablesResolver({
+        saleorTransactionId: createSaleorTransactionId(args.saleorTransactionId),
+        timestamp: new Date(),
+        transactionResult: new PartialCaptureReleasedInfoResult(),
+        saleorMoney: saleorMoneyResult.value,
+        stripeObjectId: args.stripePaymentIntentId,
+        externalUrl: generatePaymentIntentStripeDashboardUrl(
+          args.stripePaymentIntentId,
+          args.stripeEnv,
+        ),
+        paymentMethodDetails: null,
+      }).resolveEventReportVariables(),
+    );
+
+    if (
+      reportResult.isErr() &&
+      !(reportResult.error instanceof TransactionEventReporterErrors.AlreadyReportedError)
+    ) {
+      this.logger.error("Failed to report released authorization", {
+        error: reportResult.error,
+      });
+    }
+  }
+
   async execute(args: {
     appId: string;
     saleorApiUrl: SaleorApiUrl;
     event: TransactionChargeRequestedEventFragment;
     problemReporter: StripeProblemReporter;
+    transactionEventReporter: ITransactionEventReporter;
   }): Promise<UseCaseExecuteResult> {
     const { appId, saleorApiUrl, event } = args;
 
@@ -110,29 +222,104 @@ export class TransactionChargeRequestedUseCase {
 
     const paymentIntentIdResult = createStripePaymentIntentId(transaction.pspReference);
 
+    const getPaymentIntentResult = await stripePaymentIntentsApi.getPaymentIntent({
+      id: paymentIntentIdResult,
+    });
+
+    if (getPaymentIntentResult.isErr()) {
+      return ok(
+        this.handleStripeApiError({
+          error: getPaymentIntentResult.error,
+          stripeConfig: stripeConfigForThisChannel.value,
+          stripePaymentIntentId: paymentIntentIdResult,
+          problemReporter: args.problemReporter,
+        }),
+      );
+    }
+
+    const paymentIntentBeforeCapture = getPaymentIntentResult.value;
+
+    const amountToCaptureResult = StripeMoney.createFromSaleorAmount({
+      amount: event.action.amount,
+      currency: paymentIntentBeforeCapture.currency,
+    });
+
+    if (amountToCaptureResult.isErr()) {
+      this.logger.warn("Failed to resolve amount to capture", {
+        error: amountToCaptureResult.error,
+      });
+
+      return err(
+        new MalformedRequestResponse(
+          appContextContainer.getContextValue(),
+          amountToCaptureResult.error,
+        ),
+      );
+    }
+
+    const amountToCapture = amountToCaptureResult.value;
+
+    const isFinalCapture = this.resolveIsFinalCapture({
+      paymentIntent: paymentIntentBeforeCapture,
+      amountToCapture,
+    });
+
+    const amountReceivedAfterCapture =
+      paymentIntentBeforeCapture.amount_received + amountToCapture.amount;
+
     const capturePaymentIntentResult = await stripePaymentIntentsApi.capturePaymentIntent({
       id: paymentIntentIdResult,
+      amountToCapture,
+      finalCapture: isFinalCapture,
+      ...(!isFinalCapture && {
+        metadata: {
+          saleor_partially_captured_amount: String(amountReceivedAfterCapture),
+          // Empty value removes the key - next capturable amount change comes from capture, not an increment
+          saleor_authorization_adjusted_amount: "",
+        },
+      }),
     });
 
     if (capturePaymentIntentResult.isErr()) {
-      const error = mapStripeErrorToApiError(capturePaymentIntentResult.error);
+      return ok(
+        this.handleStripeApiError({
+          error: capturePaymentIntentResult.error,
+          stripeConfig: stripeConfigForThisChannel.value,
+          stripePaymentIntentId: paymentIntentIdResult,
+          problemReporter: args.problemReporter,
+        }),
+      );
+    }
 
-      const config = {
-        id: stripeConfigForThisChannel.value.id,
-        name: stripeConfigForThisChannel.value.name,
-      };
+    if (!isFinalCapture) {
+      this.logger.info(
+        "Partially captured payment intent, remaining amount can be captured later",
+        {
+          amountCaptured: amountToCapture.amount,
+          amountReceived: amountReceivedAfterCapture,
+        },
+      );
 
-      after(() => args.problemReporter.reportApiProblem(error, config));
+      const capturedSaleorMoneyResult = SaleorMoney.createFromStripe(amountToCapture);
 
-      this.logger.warn("Failed to capture payment intent", {
-        error,
-      });
+      if (capturedSaleorMoneyResult.isErr()) {
+        return err(
+          new BrokenAppResponse(
+            appContextContainer.getContextValue(),
+            capturedSaleorMoneyResult.error,
+          ),
+        );
+      }
 
       return ok(
-        new TransactionChargeRequestedUseCaseResponses.Failure({
-          transactionResult: new ChargeFailureResult(),
+        new TransactionChargeRequestedUseCaseResponses.Success({
+          transactionResult: new ChargeSuccessResult(),
           stripePaymentIntentId: paymentIntentIdResult,
-          error,
+          pspReference: createStripePartialCaptureReference({
+            paymentIntentId: paymentIntentIdResult,
+            amountReceived: amountReceivedAfterCapture,
+          }),
+          saleorMoney: capturedSaleorMoneyResult.value,
           appContext: appContextContainer.getContextValue(),
         }),
       );
@@ -154,10 +341,33 @@ export class TransactionChargeRequestedUseCase {
 
     const saleorMoney = saleorMoneyResult.value;
 
+    const releasedAmount = paymentIntentBeforeCapture.amount_capturable - amountToCapture.amount;
+    const stripeEnv = stripeConfigForThisChannel.value.getStripeEnvValue();
+
+    // Reported after the response, so Saleor records the capture before the release
+    if (releasedAmount > 0) {
+      this.logger.info("Partially captured payment intent, Stripe released remaining amount", {
+        amountCaptured: amountToCapture.amount,
+        amountReleased: releasedAmount,
+      });
+
+      after(() =>
+        this.reportReleasedAuthorization({
+          transactionEventReporter: args.transactionEventReporter,
+          saleorTransactionId: transaction.id,
+          stripePaymentIntentId: paymentIntentIdResult,
+          releasedAmount,
+          currency: paymentIntentBeforeCapture.currency,
+          stripeEnv,
+        }),
+      );
+    }
+
     return ok(
       new TransactionChargeRequestedUseCaseResponses.Success({
         transactionResult: new ChargeSuccessResult(),
         stripePaymentIntentId: paymentIntentIdResult,
+        pspReference: paymentIntentIdResult,
         saleorMoney,
         appContext: appContextContainer.getContextValue(),
       }),
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+
+import { getMockedTransactionInitializeSessionEvent } from "@/__tests__/mocks/saleor-events/transaction-initialize-session-event";
+import { StripeMoney } from "@/modules/stripe/stripe-money";
+
+import { resolveCheckoutSessionLineItems } from "./checkout-session-line-items";
+
+describe("resolveCheckoutSessionLineItems", () => {
+  const checkout = getMockedTransactionInitializeSessionEvent().sourceObject;
+
+  const createAmount = (amount: number) =>
+    StripeMoney.createFromSaleorAmount({ amount, currency: "USD" })._unsafeUnwrap();
+
+  it("Maps checkout lines and shipping to line items when they sum up to transaction amount", () => {
+    expect(
+      resolveCheckoutSessionLineItems({
+        sourceObject: checkout,
+        transactionAmount: createAmount(100),
+      }),
+    ).toStrictEqual([
+      {
+        quantity: 2,
+        price_data: {
+          currency: "usd",
+          unit_amount: 4500,
+          product_data: { name: "T-shirt (Blue)" },
+        },
+      },
+      {
+        quantity: 1,
+        price_data: { currency: "usd", unit_amount: 1000, product_data: { name: "Shipping" } },
+      },
+    ]);
+  });
+
+  it("Maps order lines and skips free shipping", () => {
+    expect(
+      resolveCheckoutSessionLineItems({
+        sourceObject: {
+          __typename: "Order",
+          id: "order-id",
+          number: "1",
+          channel: checkout.channel,
+          lines: [
+            {
+              quantity: 1,
+              productName: "Mug",
+              variantName: "",
+              productSku: null,
+              unitPrice: { gross: { amount: 12.5 }, tax: { amount: 0 } },
+            },
+          ],
+          shippingPrice: { gross: { amount: 0 } },
+          total: { tax: { amount: 0 } },
+        },
+        transactionAmount: createAmount(12.5),
+      }),
+    ).toStrictEqual([
+      {
+        quantity: 1,
+        price_data: { currency: "usd", unit_amount: 1250, product_data: { name: "Mug" } },
+      },
+    ]);
+  });
+
+  it("Returns single line item with transaction amount when lines don't sum up to it", () => {
+    expect(
+      resolveCheckoutSessionLineItems({
+        sourceObject: checkout,
+        transactionAmount: createAmount(40),
+      }),
+    ).toStrictEqual([
+      {
+        quantity: 1,
+        price_data: {
+          currency: "usd",
+          unit_amount: 4000,
+          product_data: { name: "Checkout payment" },
+        },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,109 @@
+import { Result } from "neverthrow";
+import type Stripe from "stripe";
+
+import { type TransactionInitializeSessionEventFragment } from "@/generated/graphql";
+import { StripeMoney } from "@/modules/stripe/stripe-money";
+
+type LineItem = Stripe.Checkout.SessionCreateParams.LineItem;
+
+type SourceObject = TransactionInitializeSessionEventFragment["sourceObject"];
+
+const createLineItem = (args: {
+  name: string;
+  saleorAmount: number;
+  quantity: number;
+  currency: string;
+}): Result<LineItem, InstanceType<typeof StripeMoney.ValdationError>> =>
+  StripeMoney.createFromSaleorAmount({ amount: args.saleorAmount, currency: args.currency }).map(
+    (stripeMoney) => ({
+      quantity: args.quantity,
+      price_data: {
+        currency: stripeMoney.currency,
+        unit_amount: stripeMoney.amount,
+        product_data: {
+          name: args.name,
+        },
+      },
+    }),
+  );
+
+const formatLineName = (productName: string, variantName: string | null | undefined) =>
+  variantName ? `${productName} (${variantName})` : productName;
+
+const resolveLinesFromSourceObject = (sourceObject: SourceObject, currency: string) => {
+  const lines =
+    sourceObject.__typename === "Checkout"
+      ? sourceObject.lines.map((line) =>
+          createLineItem({
+            name: formatLineName(line.variant.product.name, line.variant.name),
+            saleorAmount: line.unitPrice.gross.amount,
+            quantity: line.quantity,
+            currency,
+          }),
+        )
+      : sourceObject.lines.map((line) =>
+          createLineItem({
+            name: formatLineName(line.productName, line.variantName),
+            saleorAmount: line.unitPrice.gross.amount,
+            quantity: line.quantity,
+            currency,
+          }),
+        );
+
+  if (sourceObject.shippingPrice.gross.amount > 0) {
+    lines.push(
+      createLineItem({
+        name: "Shipping",
+        saleorAmount: sourceObject.shippingPrice.gross.amount,
+        quantity: 1,
+        currency,
+      }),
+    );
+  }
+
+  return Result.combine(lines);
+};
+
+const sumLineItems = (lineItems: LineItem[]) =>
+  lineItems.reduce(
+    (sum, lineItem) => sum + (lineItem.price_data?.unit_amount ?? 0) * (lineItem.quantity ?? 0),
+    0,
+  );
+
+/**
+ * Stripe charges sum of line items, so they must add up to the transaction amount.
+ * It's not the case e.g. for partial payments, gift cards or order-level discounts - then single line with the
+ * transaction amount is used.
+ */
+export const resolveCheckoutSessionLineItems = (args: {
+  sourceObject: SourceObject;
+  transactionAmount: StripeMoney;
+}): LineItem[] => {
+  const fallbackLineItems: LineItem[] = [
+    {
+      quantity: 1,
+      price_data: {
+        currency: args.transactionAmount.currency,
+        unit_amount: args.transactionAmount.amount,
+        product_data: {
+          name: args.sourceObject.__typename === "Checkout" ? "Checkout payment" : "Order payment",
+        },
+      },
+    },
+  ];
+
+  const linesResult = resolveLinesFromSourceObject(
+    args.sourceObject,
+    args.transactionAmount.currency,
+  );
+
+  if (linesResult.isErr() || linesResult.value.length === 0) {
+    return fallbackLineItems;
+  }
+
+  if (sumLineItems(linesResult.value) !== args.transactionAmount.amount) {
+    return fallbackLineItems;
+  }
+
+  return linesResult.value;
+};
@@ -0,0 +1,20 @@
+import { BaseError } from "@/lib/errors";
+
+export const ConnectDestinationNotResolvedErrorPublicCode =
+  "ConnectDestinationNotResolvedError" as const;
+
+/**
+ * Stripe Connect mode is enabled, but connected account receiving the payment can't be resolved from metadata
+ */
+export const ConnectDestinationNotResolvedError = BaseError.subclass(
+  "ConnectDestinationNotResolvedError",
+  {
+    props: {
+      _internalName: "TransactionInitializeConnectDestinationNotResolvedError" as const,
+      publicCode: ConnectDestinationNotResolvedErrorPublicCode,
+      publicMessage: "Payment can't be processed for these products",
+      merchantMessage:
+        "Payment intent not created - connected account can't be resolved from metadata in Stripe Connect mode",
+    },
+  },
+);
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+
+import { getMockedTransactionInitializeSessionEvent } from "@/__tests__/mocks/saleor-events/transaction-initialize-session-event";
+import { ConnectSettings } from "@/modules/app-config/domain/connect-settings";
+
+import { resolveConnectDestination } from "./connect-destination";
+import { ConnectDestinationNotResolvedError } from "./connect-destination-not-resolved-error";
+
+describe("resolveConnectDestination", () => {
+  const getConnectSettings = (destinationSource: "CHANNEL_METADATA" | "PRODUCT_METADATA") =>
+    ConnectSettings.create({
+      destinationSource,
+      destinationMetadataKey: "vendor_account",
+      applicationFeePercent: 0,
+    })._unsafeUnwrap();
+
+  const getSourceObject = (args: {
+    channelAccountId?: string;
+    productAccountIds?: Array<string | null>;
+  }) => {
+    const { sourceObject } = getMockedTransactionInitializeSessionEvent();
+
+    if (sourceObject.__typename !== "Checkout") {
+      throw new Error("Checkout source object expected");
+    }
+
+    return {
+      ...sourceObject,
+      channel: {
+        ...sourceObject.channel,
+        metadata: args.channelAccountId
+          ? [{ key: "vendor_account", value: args.channelAccountId }]
+          : [],
+      },
+      lines: (args.productAccountIds ?? [null]).map((accountId) => ({
+        ...sourceObject.lines[0],
+        variant: {
+          ...sourceObject.lines[0].variant,
+          product: {
+            name: "T-shirt",
+            metadata: accountId ? [{ key: "vendor_account", value: accountId }] : [],
+          },
+        },
+      })),
+    };
+  };
+
+  it("Resolves connected account from channel metadata", () => {
+    const result = resolveConnectDestination({
+      connectSettings: getConnectSettings("CHANNEL_METADATA"),
+      sourceObject: getSourceObject({ channelAccountId: "acct_channel" }),
+    });
+
+    expect(result._unsafeUnwrap()).toBe("acct_channel");
+  });
+
+  it("Resolves connected account shared by products of all lines", () => {
+    const result = resolveConnectDestination({
+      connectSettings: getConnectSettings("PRODUCT_METADATA"),
+      sourceObject: getSourceObject({
+        channelAccountId: "acct_channel",
+        productAccountIds: ["acct_vendor", "acct_vendor"],
+      }),
+    });
+
+    expect(result._unsafeUnwrap()).toBe("acct_vendor");
+  });
+
+  it("Returns error if product of any line has no connected account", () => {
+    const result = resolveConnectDestination({
+      connectSettings: getConnectSettings("PRODUCT_METADATA"),
+      sourceObject: getSourceObject({ productAccountIds: ["acct_vendor", null] }),
+    });
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(ConnectDestinationNotResolvedError);
+  });
+
+  it("Returns error if lines point to different connected accounts", () => {
+    const result = resolveConnectDestination({
+      connectSettings: getConnectSettings("PRODUCT_METADATA"),
+      sourceObject: getSourceObject({ productAccountIds: ["acct_vendor", "acct_other"] }),
+    });
+
+    expect(result._unsafeUnwrapErr().publicMessage).toBe(
+      "Products of different sellers must be paid separately",
+    );
+  });
+
+  it("Returns error if channel has no connected account", () => {
+    const result = resolveConnectDestination({
+      connectSettings: getConnectSettings("CHANNEL_METADATA"),
+      sourceObject: getSourceObject({}),
+    });
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(ConnectDestinationNotResolvedError);
+  });
+});
@@ -0,0 +1,95 @@
+import { err, ok, type Result } from "neverthrow";
+
+import { type TransactionInitializeSessionEventFragment } from "@/generated/graphql";
+import { type ConnectSettings } from "@/modules/app-config/domain/connect-settings";
+
+import { ConnectDestinationNotResolvedError } from "./connect-destination-not-resolved-error";
+
+type SourceObject = TransactionInitializeSessionEventFragment["sourceObject"];
+
+type MetadataItem = { key: string; value: string };
+
+const CONNECTED_ACCOUNT_ID_PREFIX = "acct_";
+
+const findMetadataValue = (
+  metadata: ReadonlyArray<MetadataItem> | null | undefined,
+  key: string,
+): string | null => metadata?.find((item) => item.key === key)?.value.trim() || null;
+
+const resolveLinesProductMetadata = (sourceObject: SourceObject) =>
+  sourceObject.__typename === "Checkout"
+    ? sourceObject.lines.map((line) => line.variant.product.metadata)
+    : // Variant of order line is null if it was removed after the order was placed
+      sourceObject.lines.map((line) => line.productVariant?.product.metadata ?? null);
+
+const resolveDestinationAccountIds = (
+  connectSettings: ConnectSettings,
+  sourceObject: SourceObject,
+): Array<string | null> => {
+  const key = connectSettings.destinationMetadataKey;
+
+  switch (connectSettings.destinationSource) {
+    case "CHANNEL_METADATA":
+      return [findMetadataValue(sourceObject.channel.metadata, key)];
+    case "PRODUCT_METADATA":
+      return resolveLinesProductMetadata(sourceObject).map((metadata) =>
+        findMetadataValue(metadata, key),
+      );
+  }
+};
+
+/**
+ * Resolves connected account receiving destination charge. Destination charge has a single destination, so all
+ * lines must point to the same account - carts mixing vendors are rejected.
+ */
+export const resolveConnectDestination = (args: {
+  connectSettings: ConnectSettings;
+  sourceObject: SourceObject;
+}): Result<string, InstanceType<typeof ConnectDestinationNotResolvedError>> => {
+  const accountIds = resolveDestinationAccountIds(args.connectSettings, args.sourceObject);
+  const uniqueAccountIds = [...new Set(accountIds)];
+
+  if (uniqueAccountIds.length === 0 || uniqueAccountIds.includes(null)) {
+    const { destinationMetadataKey, destinationSource } = args.connectSettings;
+    const metadataOwner =
+      destinationSource === "CHANNEL_METADATA" ? "channel" : "product of a line";
+
+    return err(
+      new ConnectDestinationNotResolvedError(
+        `Connected account is missing in "${destinationMetadataKey}" metadata`,
+        {
+          props: {
+            merchantMessage: `Payment intent not created - ${metadataOwner} has no connected account in "${destinationMetadataKey}" metadata`,
+          },
+        },
+      ),
+    );
+  }
+
+  if (uniqueAccountIds.length > 1) {
+    return err(
+      new ConnectDestinationNotResolvedError("Lines point to different connected accounts", {
+        props: {
+          publicMessage: "Products of different sellers must be paid separately",
+          merchantMessage: `Payment intent not created - lines point to different connected accounts: ${uniqueAccountIds.join(
+            ", ",
+          )}`,
+        },
+      }),
+    );
+  }
+
+  const [accountId] = uniqueAccountIds as [string];
+
+  if (!accountId.startsWith(CONNECTED_ACCOUNT_ID_PREFIX)) {
+    return err(
+      new ConnectDestinationNotResolvedError("Invalid connected account id in metadata", {
+        props: {
+          merchantMessage: `Payment intent not created - "${accountId}" is not valid connected account id, it must start with "${CONNECTED_ACCOUNT_ID_PREFIX}"`,
+        },
+      }),
+    );
+  }
+
+  return ok(accountId);
+};
@@ -1,6 +1,7 @@
 import { describe, expect, it } from "vitest";
 
 import {
+  isCheckoutSessionEventData,
   ParseError,
   parseTransactionInitializeSessionEventData,
   type TransactionInitializeSessionEventData,
@@ -40,6 +41,62 @@ describe("parseTransactionInitializeSessionEventData", () => {
     });
   });
 
+  it.each([
+    "ideal",
+    "bancontact",
+    "blik",
+    "p24",
+    "afterpay_clearpay",
+    "affirm",
+    "alipay",
+    "wechat_pay",
+  ])("should parse valid data with %s payment method", (paymentMethod) => {
+    const storefrontData = {
+      paymentIntent: {
+        paymentMethod,
+      },
+    };
+
+    const result = parseTransactionInitializeSessionEventData(storefrontData);
+
+    expect(result._unsafeUnwrap()).toStrictEqual({
+      paymentIntent: {
+        paymentMethod,
+      },
+    });
+  });
+
+  it("should parse valid data with setupFutureUsage", () => {
+    const storefrontData = {
+      paymentIntent: {
+        paymentMethod: "card",
+      },
+      setupFutureUsage: "off_session",
+    };
+
+    const result = parseTransactionInitializeSessionEventData(storefrontData);
+
+    expect(result._unsafeUnwrap()).toStrictEqual({
+      paymentIntent: {
+        paymentMethod: "card",
+      },
+      setupFutureUsage: "off_session",
+    });
+  });
+
+  it("should return ParseError if storefront sends unsupported setupFutureUsage value", () => {
+    const storefrontData = {
+      paymentIntent: {
+        paymentMethod: "card",
+      },
+      setupFutureUsage: "forever",
+    };
+
+    const result = parseTransactionInitializeSessionEventData(storefrontData);
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(ParseError);
+  });
+
   it("should return UnsupportedPaymentMethodError if storefront sends unsupported payment method", () => {
     const storefrontData = {
       paymentIntent: {
@@ -79,6 +136,47 @@ describe("parseTransactionInitializeSessionEventData", () => {
     expect(result._unsafeUnwrapErr()).toBeInstanceOf(ParseError);
   });
 
+  it("should parse valid data for Checkout Session mode", () => {
+    const storefrontData = {
+      checkoutSession: {
+        successUrl: "https://storefront.example.com/checkout/success",
+        cancelUrl: "https://storefront.example.com/checkout",
+      },
+    };
+
+    const result = parseTransactionInitializeSessionEventData(storefrontData);
+
+    expect(result._unsafeUnwrap()).toStrictEqual(storefrontData);
+    expect(isCheckoutSessionEventData(result._unsafeUnwrap())).toBe(true);
+  });
+
+  it("should return ParseError if storefront sends invalid URL for Checkout Session mode", () => {
+    const storefrontData = {
+      checkoutSession: {
+        successUrl: "not-an-url",
+        cancelUrl: "https://storefront.example.com/checkout",
+      },
+    };
+    const result = parseTransactionInitializeSessionEventData(storefrontData);
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(ParseError);
+  });
+
+  it("should return ParseError if storefront sends both paymentIntent and checkoutSession", () => {
+    const storefrontData = {
+      paymentIntent: {
+        paymentMethod: "card",
+      },
+      checkoutSession: {
+        successUrl: "https://storefront.example.com/checkout/success",
+        cancelUrl: "https://storefront.example.com/checkout",
+      },
+    };
+    const result = parseTransactionInitializeSessionEventData(storefrontData);
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(ParseError);
+  });
+
   it("shouldn't be assignable without createFromTransactionInitalizeSessionData", () => {
     // @ts-expect-error - if this fails - it means the type is not branded
     const testValue: TransactionInitializeSessionEventData = {};
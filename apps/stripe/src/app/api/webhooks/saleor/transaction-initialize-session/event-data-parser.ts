@@ -1,15 +1,23 @@
-import { err, ok } from "neverthrow";
+import { err, ok, type Result } from "neverthrow";
 import { z } from "zod";
 
 import { BaseError } from "@/lib/errors";
+import { AffirmPaymentMethod } from "@/modules/stripe/payment-methods/affirm";
+import { AfterpayClearpayPaymentMethod } from "@/modules/stripe/payment-methods/afterpay-clearpay";
+import { AlipayPaymentMethod } from "@/modules/stripe/payment-methods/alipay";
 import { ApplePayPaymentMethod } from "@/modules/stripe/payment-methods/apple-pay";
+import { BancontactPaymentMethod } from "@/modules/stripe/payment-methods/bancontact";
+import { BlikPaymentMethod } from "@/modules/stripe/payment-methods/blik";
 import { CardPaymentMethod } from "@/modules/stripe/payment-methods/card";
 import { GooglePayPaymentMethod } from "@/modules/stripe/payment-methods/google-pay";
+import { IdealPaymentMethod } from "@/modules/stripe/payment-methods/ideal";
 import { KlarnaPaymentMethod } from "@/modules/stripe/payment-methods/klarna";
 import { LinkPaymentMethod } from "@/modules/stripe/payment-methods/link";
+import { P24PaymentMethod } from "@/modules/stripe/payment-methods/p24";
 import { PayPalPaymentMethod } from "@/modules/stripe/payment-methods/paypal";
 import { SepaDebitPaymentMethod } from "@/modules/stripe/payment-methods/sepa-debit";
 import { USBankAccountPaymentMethod } from "@/modules/stripe/payment-methods/us-bank-account";
+import { WeChatPayPaymentMethod } from "@/modules/stripe/payment-methods/wechat-pay";
 
 const TransactionInitializeEventDataSchema = z
   .object({
@@ -22,11 +30,40 @@ const TransactionInitializeEventDataSchema = z
       USBankAccountPaymentMethod.TransactionInitializeSchema,
       SepaDebitPaymentMethod.TransactionInitializeSchema,
       LinkPaymentMethod.TransactionInitializeSchema,
+      IdealPaymentMethod.TransactionInitializeSchema,
+      BancontactPaymentMethod.TransactionInitializeSchema,
+      BlikPaymentMethod.TransactionInitializeSchema,
+      P24PaymentMethod.TransactionInitializeSchema,
+      AfterpayClearpayPaymentMethod.TransactionInitializeSchema,
+      AffirmPaymentMethod.TransactionInitializeSchema,
+      AlipayPaymentMethod.TransactionInitializeSchema,
+      WeChatPayPaymentMethod.TransactionInitializeSchema,
     ]),
+    /*
+     * Saves payment method on Stripe Customer for future purchases.
+     * Ignored for guest checkouts - there is no Saleor user to link Stripe Customer with.
+     */
+    setupFutureUsage: z.enum(["on_session", "off_session"]).optional(),
   })
   .strict()
   .brand("TransactionInitializeRequestData");
 
+/**
+ * Hosted payment page mode - app creates Stripe Checkout Session and storefront redirects buyer to its URL.
+ * Payment method is selected by buyer on Stripe page, so it's not sent by storefront.
+ */
+const TransactionInitializeCheckoutSessionEventDataSchema = z
+  .object({
+    checkoutSession: z
+      .object({
+        successUrl: z.string().url(),
+        cancelUrl: z.string().url(),
+      })
+      .strict(),
+  })
+  .strict()
+  .brand("TransactionInitializeCheckoutSessionRequestData");
+
 export const ParseErrorPublicCode = "ParseError" as const;
 export const UnsupportedPaymentMethodErrorPublicCode = "UnsupportedPaymentMethodError" as const;
 
@@ -49,7 +86,26 @@ export const UnsupportedPaymentMethodError = ParseError.subclass("UnsupportedPay
   },
 });
 
-export const parseTransactionInitializeSessionEventData = (raw: unknown) => {
+const isCheckoutSessionRequest = (raw: unknown) =>
+  raw != null && typeof raw === "object" && "checkoutSession" in raw;
+
+export const parseTransactionInitializeSessionEventData = (
+  raw: unknown,
+): Result<
+  TransactionInitializeSessionEventData | TransactionInitializeCheckoutSessionEventData,
+  TransactionInitializeSessionEventDataError
+> => {
+  if (isCheckoutSessionRequest(raw)) {
+    const checkoutSessionParsingResult =
+      TransactionInitializeCheckoutSessionEventDataSchema.safeParse(raw);
+
+    if (checkoutSessionParsingResult.success) {
+      return ok(checkoutSessionParsingResult.data);
+    }
+
+    return err(new ParseError("Invalid data", { cause: checkoutSessionParsingResult.error }));
+  }
+
   const parsingResult = TransactionInitializeEventDataSchema.safeParse(raw);
 
   if (parsingResult.success) {
@@ -91,6 +147,14 @@ export type TransactionInitializeSessionEventData = z.infer<
   typeof TransactionInitializeEventDataSchema
 >;
 
+export type TransactionInitializeCheckoutSessionEventData = z.infer<
+  typeof TransactionInitializeCheckoutSessionEventDataSchema
+>;
+
+export const isCheckoutSessionEventData = (
+  eventData: TransactionInitializeSessionEventData | TransactionInitializeCheckoutSessionEventData,
+): eventData is TransactionInitializeCheckoutSessionEventData => "checkoutSession" in eventData;
+
 export type TransactionInitializeSessionEventDataError =
   | InstanceType<typeof ParseError>
   | InstanceType<typeof UnsupportedPaymentMethodError>;
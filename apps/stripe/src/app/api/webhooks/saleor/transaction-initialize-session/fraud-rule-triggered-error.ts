@@ -0,0 +1,15 @@
+import { BaseError } from "@/lib/errors";
+
+export const FraudRuleTriggeredErrorPublicCode = "FraudRuleTriggeredError" as const;
+
+/**
+ * Fraud screening rule configured in Stripe configuration blocked the payment before PaymentIntent was created
+ */
+export const FraudRuleTriggeredError = BaseError.subclass("FraudRuleTriggeredError", {
+  props: {
+    _internalName: "TransactionInitializeFraudRuleTriggeredError" as const,
+    publicCode: FraudRuleTriggeredErrorPublicCode,
+    publicMessage: "Payment can't be processed",
+    merchantMessage: "Payment intent not created - payment blocked by fraud screening rule",
+  },
+});
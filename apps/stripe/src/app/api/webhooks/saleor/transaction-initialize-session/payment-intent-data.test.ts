@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+
+import { getMockedTransactionInitializeSessionEvent } from "@/__tests__/mocks/saleor-events/transaction-initialize-session-event";
+import { StripeMoney } from "@/modules/stripe/stripe-money";
+
+import {
+  resolvePaymentIntentAmountDetails,
+  resolvePaymentIntentShipping,
+} from "./payment-intent-data";
+
+describe("resolvePaymentIntentShipping", () => {
+  const checkout = getMockedTransactionInitializeSessionEvent().sourceObject;
+  const address = checkout.__typename === "Checkout" ? checkout.shippingAddress : null;
+
+  it("Uses company name as recipient if address has no person name", () => {
+    expect(
+      resolvePaymentIntentShipping(
+        address && { ...address, firstName: "", lastName: "", companyName: "ACME" },
+      ),
+    ).toStrictEqual(expect.objectContaining({ name: "ACME" }));
+  });
+
+  it("Returns null if address has no recipient name", () => {
+    expect(
+      resolvePaymentIntentShipping(address && { ...address, firstName: "", lastName: "" }),
+    ).toBeNull();
+  });
+
+  it("Returns null if there is no address", () => {
+    expect(resolvePaymentIntentShipping(null)).toBeNull();
+  });
+});
+
+describe("resolvePaymentIntentAmountDetails", () => {
+  const checkout = getMockedTransactionInitializeSessionEvent().sourceObject;
+
+  const createAmount = (amount: number) =>
+    StripeMoney.createFromSaleorAmount({ amount, currency: "USD" })._unsafeUnwrap();
+
+  it("Maps order lines with net unit cost and truncated product code", () => {
+    expect(
+      resolvePaymentIntentAmountDetails({
+        sourceObject: {
+          __typename: "Order",
+          id: "order-id",
+          number: "1",
+          channel: checkout.channel,
+          lines: [
+            {
+              quantity: 1,
+              productName: "Mug",
+              variantName: "",
+              productSku: "MUG-WHITE-LARGE",
+              unitPrice: { gross: { amount: 12.3 }, tax: { amount: 2.3 } },
+            },
+          ],
+          shippingPrice: { gross: { amount: 0 } },
+          total: { tax: { amount: 2.3 } },
+        },
+        transactionAmount: createAmount(12.3),
+      }),
+    ).toStrictEqual({
+      line_items: [
+        {
+          product_code: "MUG-WHITE-LA",
+          product_name: "Mug",
+          unit_cost: 1000,
+          quantity: 1,
+          tax: { total_tax_amount: 230 },
+        },
+      ],
+      shipping: { amount: 0 },
+      tax: { total_tax_amount: 230 },
+    });
+  });
+
+  it("Returns null when lines don't sum up to transaction amount", () => {
+    expect(
+      resolvePaymentIntentAmountDetails({
+        sourceObject: checkout,
+        transactionAmount: createAmount(40),
+      }),
+    ).toBeNull();
+  });
+});
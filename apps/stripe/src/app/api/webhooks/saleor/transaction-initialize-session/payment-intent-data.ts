@@ -0,0 +1,155 @@
+import { Result } from "neverthrow";
+import type Stripe from "stripe";
+
+import {
+  type PaymentIntentAddressFragment,
+  type TransactionInitializeSessionEventFragment,
+} from "@/generated/graphql";
+import { StripeMoney } from "@/modules/stripe/stripe-money";
+import { type StripeAmountDetailsParams } from "@/modules/stripe/types";
+
+type SourceObject = TransactionInitializeSessionEventFragment["sourceObject"];
+
+type AmountDetailsLineItem = StripeAmountDetailsParams["line_items"][number];
+
+/**
+ * Stripe limits for Level 2/3 data
+ */
+const MAX_LINE_ITEMS = 200;
+const MAX_PRODUCT_CODE_LENGTH = 12;
+
+/**
+ * Stripe requires recipient name, so address without it (and company) is not sent
+ */
+export const resolvePaymentIntentShipping = (
+  address: PaymentIntentAddressFragment | null | undefined,
+): Stripe.PaymentIntentCreateParams.Shipping | null => {
+  if (!address) {
+    return null;
+  }
+
+  const name = [address.firstName, address.lastName].filter(Boolean).join(" ").trim();
+
+  if (!name && !address.companyName) {
+    return null;
+  }
+
+  return {
+    name: name || address.companyName,
+    phone: address.phone || undefined,
+    address: {
+      line1: address.streetAddress1,
+      line2: address.streetAddress2 || undefined,
+      city: address.city,
+      postal_code: address.postalCode,
+      state: address.countryArea || undefined,
+      country: address.country.code,
+    },
+  };
+};
+
+const toStripeAmount = (saleorAmount: number, currency: string) =>
+  StripeMoney.createFromSaleorAmount({ amount: saleorAmount, currency }).map(
+    (stripeMoney) => stripeMoney.amount,
+  );
+
+const createLineItem = (args: {
+  productCode: string | null | undefined;
+  productName: string;
+  grossUnitAmount: number;
+  taxUnitAmount: number;
+  quantity: number;
+  currency: string;
+}): Result<AmountDetailsLineItem, InstanceType<typeof StripeMoney.ValdationError>> =>
+  Result.combine([
+    toStripeAmount(args.grossUnitAmount, args.currency),
+    toStripeAmount(args.taxUnitAmount, args.currency),
+  ]).map(([grossUnitCost, taxUnitCost]) => ({
+    ...(args.productCode && {
+      product_code: args.productCode.slice(0, MAX_PRODUCT_CODE_LENGTH),
+    }),
+    product_name: args.productName,
+    unit_cost: grossUnitCost - taxUnitCost,
+    quantity: args.quantity,
+    tax: {
+      total_tax_amount: taxUnitCost * args.quantity,
+    },
+  }));
+
+const resolveLineItemsFromSourceObject = (sourceObject: SourceObject, currency: string) => {
+  const lines =
+    sourceObject.__typename === "Checkout"
+      ? sourceObject.lines.map((line) =>
+          createLineItem({
+            productCode: line.variant.sku,
+            productName: line.variant.product.name,
+            grossUnitAmount: line.unitPrice.gross.amount,
+            taxUnitAmount: line.unitPrice.tax.amount,
+            quantity: line.quantity,
+            currency,
+          }),
+        )
+      : sourceObject.lines.map((line) =>
+          createLineItem({
+            productCode: line.productSku,
+            productName: line.productName,
+            grossUnitAmount: line.unitPrice.gross.amount,
+            taxUnitAmount: line.unitPrice.tax.amount,
+            quantity: line.quantity,
+            currency,
+          }),
+        );
+
+  return Result.combine(lines);
+};
+
+/**
+ * Level 2/3 data is sent only if lines add up to the transaction amount - it's not the case e.g. for partial
+ * payments, gift cards or order-level discounts, and Stripe rejects such PaymentIntent.
+ */
+export const resolvePaymentIntentAmountDetails = (args: {
+  sourceObject: SourceObject;
+  transactionAmount: StripeMoney;
+}): StripeAmountDetailsParams | null => {
+  const { sourceObject, transactionAmount } = args;
+
+  const totalTax =
+    sourceObject.__typename === "Checkout"
+      ? sourceObject.totalPrice.tax.amount
+      : sourceObject.total.tax.amount;
+
+  const amountsResult = Result.combine([
+    resolveLineItemsFromSourceObject(sourceObject, transactionAmount.currency),
+    toStripeAmount(sourceObject.shippingPrice.gross.amount, transactionAmount.currency),
+    toStripeAmount(totalTax, transactionAmount.currency),
+  ]);
+
+  if (amountsResult.isErr()) {
+    return null;
+  }
+
+  const [lineItems, shippingAmount, totalTaxAmount] = amountsResult.value;
+
+  if (lineItems.length === 0 || lineItems.length > MAX_LINE_ITEMS) {
+    return null;
+  }
+
+  const linesTotal = lineItems.reduce(
+    (sum, lineItem) => sum + lineItem.unit_cost * lineItem.quantity + lineItem.tax.total_tax_amount,
+    0,
+  );
+
+  if (linesTotal + shippingAmount !== transactionAmount.amount) {
+    return null;
+  }
+
+  return {
+    line_items: lineItems,
+    shipping: {
+      amount: shippingAmount,
+    },
+    tax: {
+      total_tax_amount: totalTaxAmount,
+    },
+  };
+};
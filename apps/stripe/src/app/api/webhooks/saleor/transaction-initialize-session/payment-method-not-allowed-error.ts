@@ -0,0 +1,16 @@
+import { BaseError } from "@/lib/errors";
+
+export const PaymentMethodNotAllowedErrorPublicCode = "PaymentMethodNotAllowedError" as const;
+
+/**
+ * Payment method is supported by the app, but Stripe configuration assigned to the channel doesn't allow it
+ */
+export const PaymentMethodNotAllowedError = BaseError.subclass("PaymentMethodNotAllowedError", {
+  props: {
+    _internalName: "TransactionInitializePaymentMethodNotAllowedError" as const,
+    publicCode: PaymentMethodNotAllowedErrorPublicCode,
+    publicMessage: "Provided payment method is not allowed",
+    merchantMessage:
+      "Payment intent not created - payment method is not allowed in Stripe configuration",
+  },
+});
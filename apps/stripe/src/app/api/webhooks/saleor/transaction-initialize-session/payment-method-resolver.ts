@@ -1,12 +1,20 @@
 import { assertUnreachable } from "@/lib/assert-unreachable";
+import { AffirmPaymentMethod } from "@/modules/stripe/payment-methods/affirm";
+import { AfterpayClearpayPaymentMethod } from "@/modules/stripe/payment-methods/afterpay-clearpay";
+import { AlipayPaymentMethod } from "@/modules/stripe/payment-methods/alipay";
 import { ApplePayPaymentMethod } from "@/modules/stripe/payment-methods/apple-pay";
+import { BancontactPaymentMethod } from "@/modules/stripe/payment-methods/bancontact";
+import { BlikPaymentMethod } from "@/modules/stripe/payment-methods/blik";
 import { CardPaymentMethod } from "@/modules/stripe/payment-methods/card";
 import { GooglePayPaymentMethod } from "@/modules/stripe/payment-methods/google-pay";
+import { IdealPaymentMethod } from "@/modules/stripe/payment-methods/ideal";
 import { KlarnaPaymentMethod } from "@/modules/stripe/payment-methods/klarna";
 import { LinkPaymentMethod } from "@/modules/stripe/payment-methods/link";
+import { P24PaymentMethod } from "@/modules/stripe/payment-methods/p24";
 import { PayPalPaymentMethod } from "@/modules/stripe/payment-methods/paypal";
 import { SepaDebitPaymentMethod } from "@/modules/stripe/payment-methods/sepa-debit";
 import { USBankAccountPaymentMethod } from "@/modules/stripe/payment-methods/us-bank-account";
+import { WeChatPayPaymentMethod } from "@/modules/stripe/payment-methods/wechat-pay";
 
 import { type TransactionInitializeSessionEventData } from "./event-data-parser";
 
@@ -30,6 +38,22 @@ export const resolvePaymentMethodFromEventData = (
       return new SepaDebitPaymentMethod();
     case "link":
       return new LinkPaymentMethod();
+    case "ideal":
+      return new IdealPaymentMethod();
+    case "bancontact":
+      return new BancontactPaymentMethod();
+    case "blik":
+      return new BlikPaymentMethod();
+    case "p24":
+      return new P24PaymentMethod();
+    case "afterpay_clearpay":
+      return new AfterpayClearpayPaymentMethod();
+    case "affirm":
+      return new AffirmPaymentMethod();
+    case "alipay":
+      return new AlipayPaymentMethod();
+    case "wechat_pay":
+      return new WeChatPayPaymentMethod();
     default:
       assertUnreachable(eventData.paymentIntent);
   }
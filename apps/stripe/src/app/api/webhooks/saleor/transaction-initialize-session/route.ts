@@ -15,7 +15,11 @@ import { setObservabilitySaleorApiUrl } from "@/lib/observability-saleor-api-url
 import { setObservabilitySourceObjectId } from "@/lib/observability-source-object-id";
 import { appConfigRepoImpl } from "@/modules/app-config/repositories/app-config-repo-impl";
 import { createStripeProblemReporter } from "@/modules/app-problems";
+import { customerLinkRepo } from "@/modules/customers-linking/repositories/customer-link-repo-impl";
+import { StripeCustomerResolver } from "@/modules/customers-linking/stripe-customer-resolver";
 import { createSaleorApiUrl } from "@/modules/saleor/saleor-api-url";
+import { StripeCheckoutSessionsApiFactory } from "@/modules/stripe/stripe-checkout-sessions-api-factory";
+import { StripeCustomersApiFactory } from "@/modules/stripe/stripe-customers-api-factory";
 import { StripePaymentIntentsApiFactory } from "@/modules/stripe/stripe-payment-intents-api-factory";
 import { transactionRecorder } from "@/modules/transactions-recording/repositories/transaction-recorder-impl";
 
@@ -26,7 +30,12 @@ import { transactionInitializeSessionWebhookDefinition } from "./webhook-definit
 const useCase = new TransactionInitializeSessionUseCase({
   appConfigRepo: appConfigRepoImpl,
   stripePaymentIntentsApiFactory: new StripePaymentIntentsApiFactory(),
+  stripeCheckoutSessionsApiFactory: new StripeCheckoutSessionsApiFactory(),
   transactionRecorder: transactionRecorder,
+  stripeCustomerResolver: new StripeCustomerResolver({
+    customerLinkRepo,
+    stripeCustomersApiFactory: new StripeCustomersApiFactory(),
+  }),
 });
 
 const logger = createLogger("TRANSACTION_INITIALIZE_SESSION route");
@@ -9,16 +9,23 @@ import {
   mockedSaleorSchemaVersionSupportingPaymentMethodDetails,
 } from "@/__tests__/mocks/constants";
 import { mockStripeProblemReporter } from "@/__tests__/mocks/mock-stripe-problem-reporter";
+import { MockedCustomerLinkRepo } from "@/__tests__/mocks/mocked-customer-link-repo";
+import { mockedStripeCheckoutSessionsApi } from "@/__tests__/mocks/mocked-stripe-checkout-sessions-api";
+import { mockedStripeCustomersApi } from "@/__tests__/mocks/mocked-stripe-customers-api";
 import { mockedStripePaymentIntentsApi } from "@/__tests__/mocks/mocked-stripe-payment-intents-api";
 import { MockedTransactionRecorder } from "@/__tests__/mocks/mocked-transaction-recorder";
 import { mockedSaleorApiUrl } from "@/__tests__/mocks/saleor-api-url";
 import { getMockedTransactionInitializeSessionEvent } from "@/__tests__/mocks/saleor-events/transaction-initialize-session-event";
+import { StripeCustomerResolver } from "@/modules/customers-linking/stripe-customer-resolver";
 import {
   StripeAPIError,
   StripeAuthenticationError,
   StripePermissionError,
 } from "@/modules/stripe/stripe-api-error";
-import { type IStripePaymentIntentsApiFactory } from "@/modules/stripe/types";
+import {
+  type IStripeCheckoutSessionsApiFactory,
+  type IStripePaymentIntentsApiFactory,
+} from "@/modules/stripe/types";
 
 import { TransactionInitializeSessionUseCase } from "./use-case";
 
@@ -47,6 +54,18 @@ describe("TransactionInitializeSessionUseCase - problem reporting", () => {
     create: () => mockedStripePaymentIntentsApi,
   } satisfies IStripePaymentIntentsApiFactory;
 
+  const stripeCheckoutSessionsApiFactory = {
+    create: () => mockedStripeCheckoutSessionsApi,
+  } satisfies IStripeCheckoutSessionsApiFactory;
+
+  const customerLinkRepo = new MockedCustomerLinkRepo();
+  const stripeCustomerResolver = new StripeCustomerResolver({
+    customerLinkRepo,
+    stripeCustomersApiFactory: {
+      create: () => mockedStripeCustomersApi,
+    },
+  });
+
   it("Reports authentication problem when Stripe returns StripeAuthenticationError", async () => {
     vi.spyOn(mockedStripePaymentIntentsApi, "createPaymentIntent").mockImplementationOnce(
       async () =>
@@ -64,6 +83,8 @@ describe("TransactionInitializeSessionUseCase - problem reporting", () => {
       appConfigRepo: mockedAppConfigRepo,
       stripePaymentIntentsApiFactory,
       transactionRecorder: new MockedTransactionRecorder(),
+      stripeCustomerResolver,
+      stripeCheckoutSessionsApiFactory,
     });
 
     await uc.execute({
@@ -97,6 +118,8 @@ describe("TransactionInitializeSessionUseCase - problem reporting", () => {
       appConfigRepo: mockedAppConfigRepo,
       stripePaymentIntentsApiFactory,
       transactionRecorder: new MockedTransactionRecorder(),
+      stripeCustomerResolver,
+      stripeCheckoutSessionsApiFactory,
     });
 
     await uc.execute({
@@ -130,6 +153,8 @@ describe("TransactionInitializeSessionUseCase - problem reporting", () => {
       appConfigRepo: mockedAppConfigRepo,
       stripePaymentIntentsApiFactory,
       transactionRecorder: new MockedTransactionRecorder(),
+      stripeCustomerResolver,
+      stripeCheckoutSessionsApiFactory,
     });
 
     await uc.execute({
@@ -162,6 +187,8 @@ describe("TransactionInitializeSessionUseCase - problem reporting", () => {
       appConfigRepo: mockedAppConfigRepo,
       stripePaymentIntentsApiFactory,
       transactionRecorder: new MockedTransactionRecorder(),
+      stripeCustomerResolver,
+      stripeCheckoutSessionsApiFactory,
     });
 
     await uc.execute({
@@ -192,6 +219,8 @@ describe("TransactionInitializeSessionUseCase - problem reporting", () => {
       appConfigRepo: mockedAppConfigRepo,
       stripePaymentIntentsApiFactory,
       transactionRecorder: new MockedTransactionRecorder(),
+      stripeCustomerResolver,
+      stripeCheckoutSessionsApiFactory,
     });
 
     await uc.execute({
@@ -1,12 +1,14 @@
 import { describe, expect, it } from "vitest";
 
 import { getMockedSaleorMoney } from "@/__tests__/mocks/constants";
+import { mockedStripeCheckoutSessionId } from "@/__tests__/mocks/mocked-stripe-checkout-session-id";
 import { mockedStripePaymentIntentId } from "@/__tests__/mocks/mocked-stripe-payment-intent-id";
 import { StripeAPIError } from "@/modules/stripe/stripe-api-error";
 import { createStripeClientSecret } from "@/modules/stripe/stripe-client-secret";
 import { createStripePaymentIntentStatus } from "@/modules/stripe/stripe-payment-intent-status";
 import {
   AuthorizationActionRequiredResult,
+  AuthorizationCheckoutSessionActionRequiredResult,
   ChargeActionRequiredResult,
 } from "@/modules/transaction-result/action-required-result";
 import {
@@ -15,6 +17,8 @@ import {
 } from "@/modules/transaction-result/failure-result";
 
 import { ParseError, UnsupportedPaymentMethodError } from "./event-data-parser";
+import { FraudRuleTriggeredError } from "./fraud-rule-triggered-error";
+import { PaymentMethodNotAllowedError } from "./payment-method-not-allowed-error";
 import { TransactionInitializeSessionUseCaseResponses } from "./use-case-response";
 
 describe("TransactionInitializeSessionUseCaseResponses", () => {
@@ -54,6 +58,37 @@ describe("TransactionInitializeSessionUseCaseResponses", () => {
     });
   });
 
+  describe("CheckoutSessionSuccess", () => {
+    it("getResponse() returns valid Response with status 200 and Checkout Session URL without pspReference", async () => {
+      const response = new TransactionInitializeSessionUseCaseResponses.CheckoutSessionSuccess({
+        transactionResult: new AuthorizationCheckoutSessionActionRequiredResult(),
+        saleorMoney: getMockedSaleorMoney(10000),
+        stripeCheckoutSessionId: mockedStripeCheckoutSessionId,
+        stripeCheckoutSessionUrl: "https://checkout.stripe.com/c/pay/cs_TEST_TEST_TEST",
+        appContext: {
+          stripeEnv: "LIVE",
+        },
+      });
+      const fetchReponse = response.getResponse();
+
+      expect(fetchReponse.status).toBe(200);
+      expect(await fetchReponse.json()).toMatchInlineSnapshot(`
+        {
+          "actions": [],
+          "amount": 100,
+          "data": {
+            "checkoutSession": {
+              "id": "cs_TEST_TEST_TEST",
+              "url": "https://checkout.stripe.com/c/pay/cs_TEST_TEST_TEST",
+            },
+          },
+          "message": "Checkout session requires buyer to complete payment",
+          "result": "AUTHORIZATION_ACTION_REQUIRED",
+        }
+      `);
+    });
+  });
+
   describe("Success with AuthorizationActionRequired as result", () => {
     it("getResponse() returns valid Response with status 200 and formatted 'data' object containing Stripe client secret", async () => {
       const response = new TransactionInitializeSessionUseCaseResponses.Success({
@@ -156,6 +191,38 @@ describe("TransactionInitializeSessionUseCaseResponses", () => {
       `);
     });
 
+    it("getResponse() returns valid Response with status 200 and message with failure reason and PaymentMethodNotAllowedError error inside data object", async () => {
+      const failureResponse = new TransactionInitializeSessionUseCaseResponses.Failure({
+        transactionResult: new ChargeFailureResult(),
+        error: new PaymentMethodNotAllowedError("Payment method is not allowed"),
+        appContext: {
+          stripeEnv: "LIVE",
+        },
+      });
+      const fetchReponse = failureResponse.getResponse();
+
+      expect(fetchReponse.status).toBe(200);
+      expect(await fetchReponse.json()).toMatchInlineSnapshot(`
+        {
+          "actions": [
+            "CHARGE",
+          ],
+          "data": {
+            "paymentIntent": {
+              "errors": [
+                {
+                  "code": "PaymentMethodNotAllowedError",
+                  "message": "Provided payment method is not allowed",
+                },
+              ],
+            },
+          },
+          "message": "Provided payment method is not allowed",
+          "result": "CHARGE_FAILURE",
+        }
+      `);
+    });
+
     it("getResponse() returns valid Response with status 200 and message with failure reason and StripeCreatePaymentIntentError error inside data object", async () => {
       const successResponse = new TransactionInitializeSessionUseCaseResponses.Failure({
         transactionResult: new ChargeFailureResult(),
@@ -324,4 +391,43 @@ describe("TransactionInitializeSessionUseCaseResponses", () => {
       `);
     });
   });
+
+  describe("FraudRuleFailure", () => {
+    it("getResponse() returns merchant message with fired rule and generic error inside data object", async () => {
+      const response = new TransactionInitializeSessionUseCaseResponses.FraudRuleFailure({
+        transactionResult: new AuthorizationFailureResult(),
+        error: new FraudRuleTriggeredError("Payment blocked", {
+          props: {
+            merchantMessage:
+              'Payment intent not created - blocked by fraud rule EMAIL_DOMAIN_BLOCKLIST: Buyer email domain "mailinator.com" is blocked',
+          },
+        }),
+        appContext: {
+          stripeEnv: "LIVE",
+        },
+      });
+      const fetchReponse = response.getResponse();
+
+      expect(fetchReponse.status).toBe(200);
+      expect(await fetchReponse.json()).toMatchInlineSnapshot(`
+        {
+          "actions": [
+            "CANCEL",
+          ],
+          "data": {
+            "paymentIntent": {
+              "errors": [
+                {
+                  "code": "FraudRuleTriggeredError",
+                  "message": "Payment can't be processed",
+                },
+              ],
+            },
+          },
+          "message": "Payment intent not created - blocked by fraud rule EMAIL_DOMAIN_BLOCKLIST: Buyer email domain "mailinator.com" is blocked",
+          "result": "AUTHORIZATION_FAILURE",
+        }
+      `);
+    });
+  });
 });
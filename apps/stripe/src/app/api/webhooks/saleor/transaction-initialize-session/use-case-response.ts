@@ -18,6 +18,7 @@ import {
   StripeApiErrorPublicCode,
   StripeCardErrorPublicCode,
 } from "@/modules/stripe/stripe-api-error";
+import { type StripeCheckoutSessionId } from "@/modules/stripe/stripe-checkout-session-id";
 import {
   type StripeClientSecret,
   StripeClientSecretSchema,
@@ -25,18 +26,32 @@ import {
 import { type StripePaymentIntentId } from "@/modules/stripe/stripe-payment-intent-id";
 import {
   type AuthorizationActionRequiredResult,
+  type AuthorizationCheckoutSessionActionRequiredResult,
   type ChargeActionRequiredResult,
+  type ChargeCheckoutSessionActionRequiredResult,
 } from "@/modules/transaction-result/action-required-result";
 import {
   type AuthorizationFailureResult,
   type ChargeFailureResult,
 } from "@/modules/transaction-result/failure-result";
 
+import {
+  type ConnectDestinationNotResolvedError,
+  ConnectDestinationNotResolvedErrorPublicCode,
+} from "./connect-destination-not-resolved-error";
 import {
   ParseErrorPublicCode,
   type TransactionInitializeSessionEventDataError,
   UnsupportedPaymentMethodErrorPublicCode,
 } from "./event-data-parser";
+import {
+  type FraudRuleTriggeredError,
+  FraudRuleTriggeredErrorPublicCode,
+} from "./fraud-rule-triggered-error";
+import {
+  type PaymentMethodNotAllowedError,
+  PaymentMethodNotAllowedErrorPublicCode,
+} from "./payment-method-not-allowed-error";
 
 class Success extends SuccessWebhookResponse {
   readonly transactionResult: ChargeActionRequiredResult | AuthorizationActionRequiredResult;
@@ -90,9 +105,66 @@ class Success extends SuccessWebhookResponse {
   }
 }
 
+class CheckoutSessionSuccess extends SuccessWebhookResponse {
+  readonly transactionResult:
+    | ChargeCheckoutSessionActionRequiredResult
+    | AuthorizationCheckoutSessionActionRequiredResult;
+  readonly saleorMoney: SaleorMoney;
+  readonly stripeCheckoutSessionId: StripeCheckoutSessionId;
+  readonly stripeCheckoutSessionUrl: string;
+
+  private static ResponseDataSchema = z.object({
+    checkoutSession: z.object({
+      id: z.string(),
+      url: z.string().url(),
+    }),
+  });
+
+  constructor(args: {
+    transactionResult:
+      | ChargeCheckoutSessionActionRequiredResult
+      | AuthorizationCheckoutSessionActionRequiredResult;
+    saleorMoney: SaleorMoney;
+    stripeCheckoutSessionId: StripeCheckoutSessionId;
+    stripeCheckoutSessionUrl: string;
+    appContext: AppContext;
+  }) {
+    super(args.appContext);
+    this.transactionResult = args.transactionResult;
+    this.saleorMoney = args.saleorMoney;
+    this.stripeCheckoutSessionId = args.stripeCheckoutSessionId;
+    this.stripeCheckoutSessionUrl = args.stripeCheckoutSessionUrl;
+  }
+
+  getResponse() {
+    /*
+     * pspReference is intentionally not set - it will be PaymentIntent id reported when session is completed.
+     * Other webhooks (charge, refund, cancel) use pspReference as PaymentIntent id.
+     */
+    const typeSafeResponse: TransactionSessionActionRequired = {
+      data: CheckoutSessionSuccess.ResponseDataSchema.parse({
+        checkoutSession: {
+          id: this.stripeCheckoutSessionId,
+          url: this.stripeCheckoutSessionUrl,
+        },
+      }),
+      actions: this.transactionResult.actions,
+      result: this.transactionResult.result,
+      amount: this.saleorMoney.amount,
+      message: this.transactionResult.message,
+    };
+
+    return Response.json(typeSafeResponse, { status: this.statusCode });
+  }
+}
+
 class Failure extends SuccessWebhookResponse {
   readonly transactionResult: ChargeFailureResult | AuthorizationFailureResult;
-  readonly error: StripeApiError | TransactionInitializeSessionEventDataError;
+  readonly error:
+    | StripeApiError
+    | TransactionInitializeSessionEventDataError
+    | InstanceType<typeof PaymentMethodNotAllowedError>
+    | InstanceType<typeof ConnectDestinationNotResolvedError>;
 
   private static ResponseDataSchema = createFailureWebhookResponseDataSchema(
     z.array(
@@ -100,6 +172,8 @@ class Failure extends SuccessWebhookResponse {
         code: z.union([
           z.literal(ParseErrorPublicCode),
           z.literal(UnsupportedPaymentMethodErrorPublicCode),
+          z.literal(PaymentMethodNotAllowedErrorPublicCode),
+          z.literal(ConnectDestinationNotResolvedErrorPublicCode),
           z.literal(StripeCardErrorPublicCode),
           z.literal(StripeApiErrorPublicCode),
         ]),
@@ -110,7 +184,11 @@ class Failure extends SuccessWebhookResponse {
 
   constructor(args: {
     transactionResult: ChargeFailureResult | AuthorizationFailureResult;
-    error: StripeApiError | TransactionInitializeSessionEventDataError;
+    error:
+      | StripeApiError
+      | TransactionInitializeSessionEventDataError
+      | InstanceType<typeof PaymentMethodNotAllowedError>
+      | InstanceType<typeof ConnectDestinationNotResolvedError>;
     appContext: AppContext;
   }) {
     super(args.appContext);
@@ -140,12 +218,64 @@ class Failure extends SuccessWebhookResponse {
   }
 }
 
+/**
+ * Unlike other failures, message (recorded by Saleor in transaction event) is meant for merchant and names the rule
+ * that blocked the payment. Storefront receives only generic error in data.
+ */
+class FraudRuleFailure extends SuccessWebhookResponse {
+  readonly transactionResult: ChargeFailureResult | AuthorizationFailureResult;
+  readonly error: InstanceType<typeof FraudRuleTriggeredError>;
+
+  private static ResponseDataSchema = createFailureWebhookResponseDataSchema(
+    z.array(
+      z.object({
+        code: z.literal(FraudRuleTriggeredErrorPublicCode),
+        message: z.string(),
+      }),
+    ),
+  );
+
+  constructor(args: {
+    transactionResult: ChargeFailureResult | AuthorizationFailureResult;
+    error: InstanceType<typeof FraudRuleTriggeredError>;
+    appContext: AppContext;
+  }) {
+    super(args.appContext);
+    this.transactionResult = args.transactionResult;
+    this.error = args.error;
+  }
+
+  getResponse() {
+    const typeSafeResponse: TransactionSessionFailure = {
+      result: this.transactionResult.result,
+      message: this.error.merchantMessage,
+      actions: this.transactionResult.actions,
+      data: FraudRuleFailure.ResponseDataSchema.parse({
+        paymentIntent: {
+          errors: [
+            {
+              code: this.error.publicCode,
+              message: this.error.publicMessage,
+            },
+          ],
+        },
+      }),
+    };
+
+    return Response.json(typeSafeResponse, { status: this.statusCode });
+  }
+}
+
 export const TransactionInitializeSessionUseCaseResponses = {
   Success,
+  CheckoutSessionSuccess,
   Failure,
+  FraudRuleFailure,
 };
 
 export type TransactionInitializeSessionUseCaseResponsesType = InstanceType<
   | typeof TransactionInitializeSessionUseCaseResponses.Success
+  | typeof TransactionInitializeSessionUseCaseResponses.CheckoutSessionSuccess
   | typeof TransactionInitializeSessionUseCaseResponses.Failure
+  | typeof TransactionInitializeSessionUseCaseResponses.FraudRuleFailure
 >;
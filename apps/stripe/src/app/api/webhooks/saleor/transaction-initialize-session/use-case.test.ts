@@ -1,13 +1,19 @@
 import { err, ok } from "neverthrow";
 import type Stripe from "stripe";
-import { describe, expect, it, vi } from "vitest";
+import { beforeEach, describe, expect, it, vi } from "vitest";
 
 import { mockedAppConfigRepo } from "@/__tests__/mocks/app-config-repo";
 import {
+  mockedConfigurationId,
   mockedSaleorAppId,
   mockedSaleorSchemaVersionSupportingPaymentMethodDetails,
 } from "@/__tests__/mocks/constants";
+import { mockedStripeConfig } from "@/__tests__/mocks/mock-stripe-config";
 import { mockStripeProblemReporter } from "@/__tests__/mocks/mock-stripe-problem-reporter";
+import { MockedCustomerLinkRepo } from "@/__tests__/mocks/mocked-customer-link-repo";
+import { mockedStripeCheckoutSessionsApi } from "@/__tests__/mocks/mocked-stripe-checkout-sessions-api";
+import { mockedStripeCustomerId } from "@/__tests__/mocks/mocked-stripe-customer-id";
+import { mockedStripeCustomersApi } from "@/__tests__/mocks/mocked-stripe-customers-api";
 import { mockedStripePaymentIntentsApi } from "@/__tests__/mocks/mocked-stripe-payment-intents-api";
 import { MockedTransactionRecorder } from "@/__tests__/mocks/mocked-transaction-recorder";
 import { mockedSaleorApiUrl } from "@/__tests__/mocks/saleor-api-url";
@@ -17,12 +23,24 @@ import {
   BrokenAppResponse,
   MalformedRequestResponse,
 } from "@/app/api/webhooks/saleor/saleor-webhook-responses";
+import { ConnectSettings } from "@/modules/app-config/domain/connect-settings";
+import { FraudRulesSettings } from "@/modules/app-config/domain/fraud-rules-settings";
+import { PaymentIntentDataSettings } from "@/modules/app-config/domain/payment-intent-data-settings";
+import { PaymentMethodsSettings } from "@/modules/app-config/domain/payment-methods-settings";
+import { StripeConfig } from "@/modules/app-config/domain/stripe-config";
+import { LinkedStripeCustomer } from "@/modules/customers-linking/domain/linked-stripe-customer";
+import { StripeCustomerResolver } from "@/modules/customers-linking/stripe-customer-resolver";
 import { StripeAPIError } from "@/modules/stripe/stripe-api-error";
 import { StripeMoney } from "@/modules/stripe/stripe-money";
-import { type IStripePaymentIntentsApiFactory } from "@/modules/stripe/types";
+import {
+  type IStripeCheckoutSessionsApiFactory,
+  type IStripePaymentIntentsApiFactory,
+} from "@/modules/stripe/types";
 import {
   AuthorizationActionRequiredResult,
+  AuthorizationCheckoutSessionActionRequiredResult,
   ChargeActionRequiredResult,
+  ChargeCheckoutSessionActionRequiredResult,
 } from "@/modules/transaction-result/action-required-result";
 import {
   AuthorizationFailureResult,
@@ -30,6 +48,9 @@ import {
 } from "@/modules/transaction-result/failure-result";
 import { TransactionRecorderError } from "@/modules/transactions-recording/repositories/transaction-recorder-repo";
 
+import { ConnectDestinationNotResolvedError } from "./connect-destination-not-resolved-error";
+import { FraudRuleTriggeredError } from "./fraud-rule-triggered-error";
+import { PaymentMethodNotAllowedError } from "./payment-method-not-allowed-error";
 import { TransactionInitializeSessionUseCase } from "./use-case";
 import { TransactionInitializeSessionUseCaseResponses } from "./use-case-response";
 
@@ -58,18 +79,34 @@ describe("TransactionInitializeSessionUseCase", () => {
     create: () => mockedStripePaymentIntentsApi,
   } satisfies IStripePaymentIntentsApiFactory;
 
+  const stripeCheckoutSessionsApiFactory = {
+    create: () => mockedStripeCheckoutSessionsApi,
+  } satisfies IStripeCheckoutSessionsApiFactory;
+
+  const customerLinkRepo = new MockedCustomerLinkRepo();
+  const stripeCustomerResolver = new StripeCustomerResolver({
+    customerLinkRepo,
+    stripeCustomersApiFactory: {
+      create: () => mockedStripeCustomersApi,
+    },
+  });
+
   it.each([
     {
       actionType: "CHARGE" as const,
       captureMethod: undefined,
+      requestMulticapture: undefined,
+      requestIncrementalAuthorization: undefined,
     },
     {
       actionType: "AUTHORIZATION" as const,
       captureMethod: "manual",
+      requestMulticapture: "if_available",
+      requestIncrementalAuthorization: "if_available",
     },
   ])(
     "Calls Stripe PaymentIntentsAPI to create payment intent with $captureMethod capture method for card when actionType is $actionType",
-    async ({ actionType, captureMethod }) => {
+    async ({ actionType, captureMethod, requestMulticapture, requestIncrementalAuthorization }) => {
       const saleorEvent = getMockedTransactionInitializeSessionEvent({ actionType });
 
       const spy = vi
@@ -88,6 +125,8 @@ describe("TransactionInitializeSessionUseCase", () => {
         appConfigRepo: mockedAppConfigRepo,
         stripePaymentIntentsApiFactory,
         transactionRecorder: new MockedTransactionRecorder(),
+        stripeCustomerResolver,
+        stripeCheckoutSessionsApiFactory,
       });
 
       await uc.execute({
@@ -108,6 +147,8 @@ describe("TransactionInitializeSessionUseCase", () => {
           payment_method_options: {
             card: {
               capture_method: captureMethod,
+              request_multicapture: requestMulticapture,
+              request_incremental_authorization: requestIncrementalAuthorization,
             },
           },
         },
@@ -155,6 +196,8 @@ describe("TransactionInitializeSessionUseCase", () => {
         appConfigRepo: mockedAppConfigRepo,
         stripePaymentIntentsApiFactory,
         transactionRecorder: new MockedTransactionRecorder(),
+        stripeCustomerResolver,
+        stripeCheckoutSessionsApiFactory,
       });
 
       const responsePayload = await uc.execute({
@@ -179,6 +222,8 @@ describe("TransactionInitializeSessionUseCase", () => {
       appConfigRepo: mockedAppConfigRepo,
       stripePaymentIntentsApiFactory,
       transactionRecorder: new MockedTransactionRecorder(),
+      stripeCustomerResolver,
+      stripeCheckoutSessionsApiFactory,
     });
 
     const responsePayload = await uc.execute({
@@ -218,6 +263,8 @@ describe("TransactionInitializeSessionUseCase", () => {
         appConfigRepo: mockedAppConfigRepo,
         stripePaymentIntentsApiFactory,
         transactionRecorder: new MockedTransactionRecorder(),
+        stripeCustomerResolver,
+        stripeCheckoutSessionsApiFactory,
       });
 
       const saleorEvent = getMockedTransactionInitializeSessionEvent({ actionType });
@@ -262,6 +309,8 @@ describe("TransactionInitializeSessionUseCase", () => {
         appConfigRepo: mockedAppConfigRepo,
         stripePaymentIntentsApiFactory,
         transactionRecorder: new MockedTransactionRecorder(),
+        stripeCustomerResolver,
+        stripeCheckoutSessionsApiFactory,
       });
 
       const responsePayload = await uc.execute({
@@ -312,6 +361,8 @@ describe("TransactionInitializeSessionUseCase", () => {
         appConfigRepo: mockedAppConfigRepo,
         stripePaymentIntentsApiFactory,
         transactionRecorder: new MockedTransactionRecorder(),
+        stripeCustomerResolver,
+        stripeCheckoutSessionsApiFactory,
       });
 
       const responsePayload = await uc.execute({
@@ -341,6 +392,8 @@ describe("TransactionInitializeSessionUseCase", () => {
       appConfigRepo: mockedAppConfigRepo,
       stripePaymentIntentsApiFactory,
       transactionRecorder: new MockedTransactionRecorder(),
+      stripeCustomerResolver,
+      stripeCheckoutSessionsApiFactory,
     });
 
     const result = await uc.execute({
@@ -370,6 +423,8 @@ describe("TransactionInitializeSessionUseCase", () => {
       appConfigRepo: mockedAppConfigRepo,
       stripePaymentIntentsApiFactory,
       transactionRecorder: new MockedTransactionRecorder(),
+      stripeCustomerResolver,
+      stripeCheckoutSessionsApiFactory,
     });
 
     const result = await uc.execute({
@@ -404,6 +459,8 @@ describe("TransactionInitializeSessionUseCase", () => {
       appConfigRepo: mockedAppConfigRepo,
       stripePaymentIntentsApiFactory,
       transactionRecorder: new MockedTransactionRecorder(),
+      stripeCustomerResolver,
+      stripeCheckoutSessionsApiFactory,
     });
 
     const result = await uc.execute({
@@ -434,6 +491,8 @@ describe("TransactionInitializeSessionUseCase", () => {
       appConfigRepo: mockedAppConfigRepo,
       stripePaymentIntentsApiFactory,
       transactionRecorder: new MockedTransactionRecorder(),
+      stripeCustomerResolver,
+      stripeCheckoutSessionsApiFactory,
     });
 
     const result = await uc.execute({
@@ -469,6 +528,8 @@ describe("TransactionInitializeSessionUseCase", () => {
       appConfigRepo: mockedAppConfigRepo,
       stripePaymentIntentsApiFactory,
       transactionRecorder,
+      stripeCustomerResolver,
+      stripeCheckoutSessionsApiFactory,
     });
 
     const result = await uc.execute({
@@ -503,6 +564,8 @@ describe("TransactionInitializeSessionUseCase", () => {
       appConfigRepo: mockedAppConfigRepo,
       stripePaymentIntentsApiFactory,
       transactionRecorder: new MockedTransactionRecorder(),
+      stripeCustomerResolver,
+      stripeCheckoutSessionsApiFactory,
     });
 
     const result = await uc.execute({
@@ -544,6 +607,8 @@ describe("TransactionInitializeSessionUseCase", () => {
       appConfigRepo: mockedAppConfigRepo,
       stripePaymentIntentsApiFactory,
       transactionRecorder,
+      stripeCustomerResolver,
+      stripeCheckoutSessionsApiFactory,
     });
 
     const result = await uc.execute({
@@ -587,6 +652,8 @@ describe("TransactionInitializeSessionUseCase", () => {
         appConfigRepo: mockedAppConfigRepo,
         stripePaymentIntentsApiFactory,
         transactionRecorder,
+        stripeCustomerResolver,
+        stripeCheckoutSessionsApiFactory,
       });
 
       await uc.execute({
@@ -613,4 +680,806 @@ describe("TransactionInitializeSessionUseCase", () => {
       );
     },
   );
+
+  describe("Payment methods settings", () => {
+    const mockConfigWithPaymentMethodsSettings = (
+      fields: Parameters<typeof PaymentMethodsSettings.create>[0],
+    ) =>
+      vi.spyOn(mockedAppConfigRepo, "getStripeConfig").mockImplementationOnce(async () =>
+        ok(
+          StripeConfig.create({
+            ...mockedStripeConfig,
+            paymentMethodsSettings: PaymentMethodsSettings.create(fields)._unsafeUnwrap(),
+          })._unsafeUnwrap(),
+        ),
+      );
+
+    it("Returns Failure response with PaymentMethodNotAllowedError and doesn't call Stripe if payment method is not allowed in config", async () => {
+      mockConfigWithPaymentMethodsSettings({
+        allowedPaymentMethods: ["klarna"],
+        transactionFlowOverrides: {},
+      });
+
+      const spy = vi.spyOn(mockedStripePaymentIntentsApi, "createPaymentIntent");
+
+      const uc = new TransactionInitializeSessionUseCase({
+        appConfigRepo: mockedAppConfigRepo,
+        stripePaymentIntentsApiFactory,
+        transactionRecorder: new MockedTransactionRecorder(),
+        stripeCustomerResolver,
+        stripeCheckoutSessionsApiFactory,
+      });
+
+      const responsePayload = await uc.execute({
+        saleorApiUrl: mockedSaleorApiUrl,
+        appId: mockedSaleorAppId,
+        event: getMockedTransactionInitializeSessionEvent({ actionType: "AUTHORIZATION" }),
+        saleorSchemaVersion: mockedSaleorSchemaVersionSupportingPaymentMethodDetails,
+        problemReporter: mockStripeProblemReporter,
+      });
+
+      const response = responsePayload._unsafeUnwrap();
+
+      expect(response).toBeInstanceOf(TransactionInitializeSessionUseCaseResponses.Failure);
+      expect(response.transactionResult).toBeInstanceOf(AuthorizationFailureResult);
+      expect(
+        response instanceof TransactionInitializeSessionUseCaseResponses.Failure && response.error,
+      ).toBeInstanceOf(PaymentMethodNotAllowedError);
+      expect(spy).not.toHaveBeenCalled();
+    });
+
+    it("Uses transaction flow override from config instead of flow sent by Saleor", async () => {
+      mockConfigWithPaymentMethodsSettings({
+        allowedPaymentMethods: null,
+        transactionFlowOverrides: { card: "CHARGE" },
+      });
+
+      const transactionRecorder = new MockedTransactionRecorder();
+
+      vi.spyOn(transactionRecorder, "recordTransaction");
+
+      const spy = vi
+        .spyOn(mockedStripePaymentIntentsApi, "createPaymentIntent")
+        .mockImplementationOnce(async () =>
+          ok({
+            amount: 100,
+            currency: "usd",
+            client_secret: "secret-value",
+            id: "pi_test",
+            status: "requires_payment_method",
+          } as Stripe.PaymentIntent),
+        );
+
+      const uc = new TransactionInitializeSessionUseCase({
+        appConfigRepo: mockedAppConfigRepo,
+        stripePaymentIntentsApiFactory,
+        transactionRecorder,
+        stripeCustomerResolver,
+        stripeCheckoutSessionsApiFactory,
+      });
+
+      const responsePayload = await uc.execute({
+        saleorApiUrl: mockedSaleorApiUrl,
+        appId: mockedSaleorAppId,
+        event: getMockedTransactionInitializeSessionEvent({ actionType: "AUTHORIZATION" }),
+        saleorSchemaVersion: mockedSaleorSchemaVersionSupportingPaymentMethodDetails,
+        problemReporter: mockStripeProblemReporter,
+      });
+
+      expect(responsePayload._unsafeUnwrap().transactionResult).toBeInstanceOf(
+        ChargeActionRequiredResult,
+      );
+      expect(spy.mock.calls[0][0].intentParams.payment_method_options).toStrictEqual({
+        card: {
+          capture_method: undefined,
+          request_multicapture: undefined,
+          request_incremental_authorization: undefined,
+        },
+      });
+      expect(transactionRecorder.recordTransaction).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          saleorTransactionFlow: "AUTHORIZATION",
+          resolvedTransactionFlow: "CHARGE",
+        }),
+      );
+    });
+  });
+
+  describe("Payment intent data settings", () => {
+    const mockConfigWithPaymentIntentDataSettings = (
+      fields: Parameters<typeof PaymentIntentDataSettings.create>[0],
+    ) =>
+      vi.spyOn(mockedAppConfigRepo, "getStripeConfig").mockImplementationOnce(async () =>
+        ok(
+          StripeConfig.create({
+            ...mockedStripeConfig,
+            paymentIntentDataSettings: PaymentIntentDataSettings.create(fields)._unsafeUnwrap(),
+          })._unsafeUnwrap(),
+        ),
+      );
+
+    const executeWithEvent = async (event = getMockedTransactionInitializeSessionEvent()) => {
+      const spy = vi
+        .spyOn(mockedStripePaymentIntentsApi, "createPaymentIntent")
+        .mockImplementationOnce(async () =>
+          ok({
+            amount: 100,
+            currency: "usd",
+            client_secret: "secret-value",
+            id: "pi_test",
+            status: "requires_payment_method",
+          } as Stripe.PaymentIntent),
+        );
+
+      const uc = new TransactionInitializeSessionUseCase({
+        appConfigRepo: mockedAppConfigRepo,
+        stripePaymentIntentsApiFactory,
+        transactionRecorder: new MockedTransactionRecorder(),
+        stripeCustomerResolver,
+        stripeCheckoutSessionsApiFactory,
+      });
+
+      await uc.execute({
+        saleorApiUrl: mockedSaleorApiUrl,
+        appId: mockedSaleorAppId,
+        event,
+        saleorSchemaVersion: mockedSaleorSchemaVersionSupportingPaymentMethodDetails,
+        problemReporter: mockStripeProblemReporter,
+      });
+
+      return spy.mock.calls[0][0].intentParams;
+    };
+
+    it("Doesn't send optional data if settings are disabled", async () => {
+      const intentParams = await executeWithEvent();
+
+      expect(intentParams).not.toHaveProperty("shipping");
+      expect(intentParams).not.toHaveProperty("receipt_email");
+      expect(intentParams).not.toHaveProperty("statement_descriptor_suffix");
+      expect(intentParams).not.toHaveProperty("amount_details");
+    });
+
+    it("Sends shipping, receipt email, statement descriptor suffix and Level 2/3 data when enabled", async () => {
+      mockConfigWithPaymentIntentDataSettings({
+        sendShippingAddress: true,
+        sendReceiptEmail: true,
+        statementDescriptorSuffixTemplate: "SHOP {channel_slug}",
+        sendCardLineItems: true,
+      });
+
+      const intentParams = await executeWithEvent();
+
+      expect(intentParams).toStrictEqual(
+        expect.objectContaining({
+          shipping: {
+            name: "John Doe",
+            phone: "+12125550100",
+            address: {
+              line1: "Main Street 1",
+              line2: undefined,
+              city: "New York",
+              postal_code: "10001",
+              state: "NY",
+              country: "US",
+            },
+          },
+          receipt_email: "buyer@example.com",
+          statement_descriptor_suffix: "SHOP channel-slug",
+          amount_details: {
+            line_items: [
+              {
+                product_code: "TSHIRT-BLUE",
+                product_name: "T-shirt",
+                unit_cost: 4000,
+                quantity: 2,
+                tax: { total_tax_amount: 1000 },
+              },
+            ],
+            shipping: { amount: 1000 },
+            tax: { total_tax_amount: 1000 },
+          },
+        }),
+      );
+    });
+
+    it("Doesn't send Level 2/3 data for payment methods other than card", async () => {
+      mockConfigWithPaymentIntentDataSettings({
+        sendShippingAddress: false,
+        sendReceiptEmail: false,
+        statementDescriptorSuffixTemplate: null,
+        sendCardLineItems: true,
+      });
+
+      const intentParams = await executeWithEvent(
+        getMockedTransactionInitializeSessionEvent({
+          data: { paymentIntent: { paymentMethod: "klarna" } },
+        }),
+      );
+
+      expect(intentParams).not.toHaveProperty("amount_details");
+    });
+  });
+
+  describe("Stripe Connect mode", () => {
+    beforeEach(() => {
+      vi.spyOn(mockedAppConfigRepo, "getStripeConfig").mockImplementationOnce(async () =>
+        ok(
+          StripeConfig.create({
+            ...mockedStripeConfig,
+            connectSettings: ConnectSettings.create({
+              destinationSource: "PRODUCT_METADATA",
+              destinationMetadataKey: "vendor_account",
+              applicationFeePercent: 10,
+            })._unsafeUnwrap(),
+          })._unsafeUnwrap(),
+        ),
+      );
+    });
+
+    const getEventWithVendorAccounts = (accountIds: string[], data?: unknown) => {
+      const event = getMockedTransactionInitializeSessionEvent({ data });
+
+      if (event.sourceObject.__typename !== "Checkout") {
+        throw new Error("Checkout event expected");
+      }
+
+      return {
+        ...event,
+        sourceObject: {
+          ...event.sourceObject,
+          lines: accountIds.map((accountId) => ({
+            ...event.sourceObject.lines[0],
+            variant: {
+              name: "Blue",
+              sku: "TSHIRT-BLUE",
+              product: {
+                name: "T-shirt",
+                metadata: [{ key: "vendor_account", value: accountId }],
+              },
+            },
+          })),
+        },
+      };
+    };
+
+    const executeWithEvent = (event: ReturnType<typeof getEventWithVendorAccounts>) =>
+      new TransactionInitializeSessionUseCase({
+        appConfigRepo: mockedAppConfigRepo,
+        stripePaymentIntentsApiFactory,
+        transactionRecorder: new MockedTransactionRecorder(),
+        stripeCustomerResolver,
+        stripeCheckoutSessionsApiFactory,
+      }).execute({
+        saleorApiUrl: mockedSaleorApiUrl,
+        appId: mockedSaleorAppId,
+        event,
+        saleorSchemaVersion: mockedSaleorSchemaVersionSupportingPaymentMethodDetails,
+        problemReporter: mockStripeProblemReporter,
+      });
+
+    it("Creates destination charge to connected account resolved from product metadata with application fee", async () => {
+      const spy = vi
+        .spyOn(mockedStripePaymentIntentsApi, "createPaymentIntent")
+        .mockImplementationOnce(async () =>
+          ok({
+            amount: 100,
+            currency: "usd",
+            client_secret: "secret-value",
+            id: "pi_test",
+            status: "requires_payment_method",
+          } as Stripe.PaymentIntent),
+        );
+
+      await executeWithEvent(getEventWithVendorAccounts(["acct_vendor", "acct_vendor"]));
+
+      expect(spy.mock.calls[0][0].intentParams).toStrictEqual(
+        expect.objectContaining({
+          transfer_data: { destination: "acct_vendor" },
+          application_fee_amount: 1000,
+        }),
+      );
+    });
+
+    it("Applies destination charge to PaymentIntent created by Checkout Session", async () => {
+      const spy = vi
+        .spyOn(mockedStripeCheckoutSessionsApi, "createCheckoutSession")
+        .mockImplementationOnce(async () =>
+          ok({
+            id: "cs_test_1",
+            url: "https://checkout.stripe.com/c/pay/cs_test_1",
+          } as Stripe.Checkout.Session),
+        );
+
+      await executeWithEvent(
+        getEventWithVendorAccounts(["acct_vendor"], {
+          checkoutSession: {
+            successUrl: "https://example.com/success",
+            cancelUrl: "https://example.com/cancel",
+          },
+        }),
+      );
+
+      expect(spy.mock.calls[0][0].sessionParams.payment_intent_data).toStrictEqual(
+        expect.objectContaining({
+          transfer_data: { destination: "acct_vendor" },
+          application_fee_amount: 1000,
+        }),
+      );
+    });
+
+    it.each([
+      ["lines point to different connected accounts", ["acct_vendor", "acct_other"]],
+      ["metadata value is not connected account id", ["vendor"]],
+    ])(
+      "Returns Failure response and doesn't call Stripe if %s",
+      async (_, accountIds: string[]) => {
+        const spy = vi.spyOn(mockedStripePaymentIntentsApi, "createPaymentIntent");
+
+        const response = (
+          await executeWithEvent(getEventWithVendorAccounts(accountIds))
+        )._unsafeUnwrap();
+
+        expect(response).toBeInstanceOf(TransactionInitializeSessionUseCaseResponses.Failure);
+        expect(
+          response instanceof TransactionInitializeSessionUseCaseResponses.Failure &&
+            response.error,
+        ).toBeInstanceOf(ConnectDestinationNotResolvedError);
+        expect(spy).not.toHaveBeenCalled();
+      },
+    );
+  });
+
+  describe("Checkout Session mode", () => {
+    const checkoutSessionData = {
+      checkoutSession: {
+        successUrl: "https://storefront.example.com/checkout/success",
+        cancelUrl: "https://storefront.example.com/checkout",
+      },
+    };
+
+    const mockedCheckoutSession = {
+      id: "cs_test",
+      url: "https://checkout.stripe.com/c/pay/cs_test",
+    } as Stripe.Checkout.Session;
+
+    const executeUseCase = (
+      event: ReturnType<typeof getMockedTransactionInitializeSessionEvent>,
+      transactionRecorder = new MockedTransactionRecorder(),
+    ) =>
+      new TransactionInitializeSessionUseCase({
+        appConfigRepo: mockedAppConfigRepo,
+        stripePaymentIntentsApiFactory,
+        transactionRecorder,
+        stripeCustomerResolver,
+        stripeCheckoutSessionsApiFactory,
+      }).execute({
+        saleorApiUrl: mockedSaleorApiUrl,
+        appId: mockedSaleorAppId,
+        event,
+        saleorSchemaVersion: mockedSaleorSchemaVersionSupportingPaymentMethodDetails,
+        problemReporter: mockStripeProblemReporter,
+      });
+
+    it("Creates Checkout Session with line items from checkout and returns its URL without recording transaction", async () => {
+      const createCheckoutSessionSpy = vi
+        .spyOn(mockedStripeCheckoutSessionsApi, "createCheckoutSession")
+        .mockImplementationOnce(async () => ok(mockedCheckoutSession));
+      const createPaymentIntentSpy = vi.spyOn(mockedStripePaymentIntentsApi, "createPaymentIntent");
+      const transactionRecorder = new MockedTransactionRecorder();
+
+      vi.spyOn(transactionRecorder, "recordTransaction");
+
+      const responsePayload = await executeUseCase(
+        getMockedTransactionInitializeSessionEvent({ data: checkoutSessionData }),
+        transactionRecorder,
+      );
+
+      const response = responsePayload._unsafeUnwrap();
+
+      expect(response).toBeInstanceOf(
+        TransactionInitializeSessionUseCaseResponses.CheckoutSessionSuccess,
+      );
+      expect(response.transactionResult).toBeInstanceOf(ChargeCheckoutSessionActionRequiredResult);
+      expect(createPaymentIntentSpy).not.toHaveBeenCalled();
+      expect(transactionRecorder.recordTransaction).not.toHaveBeenCalled();
+      expect(createCheckoutSessionSpy).toHaveBeenCalledWith({
+        idempotencyKey: "idempotency-key",
+        metadata: {
+          saleor_source_id: "mock-channel-1",
+          saleor_source_type: "Checkout",
+          saleor_transaction_id: "mocked-transaction-id",
+          saleor_api_url: mockedSaleorApiUrl,
+          saleor_app_id: mockedSaleorAppId,
+          saleor_transaction_flow: "CHARGE",
+          saleor_schema_version: "3.22",
+        },
+        sessionParams: {
+          success_url: "https://storefront.example.com/checkout/success",
+          cancel_url: "https://storefront.example.com/checkout",
+          customer_email: "buyer@example.com",
+          line_items: [
+            {
+              quantity: 2,
+              price_data: {
+                currency: "usd",
+                unit_amount: 4500,
+                product_data: { name: "T-shirt (Blue)" },
+              },
+            },
+            {
+              quantity: 1,
+              price_data: {
+                currency: "usd",
+                unit_amount: 1000,
+                product_data: { name: "Shipping" },
+              },
+            },
+          ],
+          payment_intent_data: {
+            metadata: {
+              saleor_source_id: "mock-channel-1",
+              saleor_source_type: "Checkout",
+              saleor_transaction_id: "mocked-transaction-id",
+              saleor_api_url: mockedSaleorApiUrl,
+              saleor_app_id: mockedSaleorAppId,
+            },
+          },
+        },
+      });
+    });
+
+    it("Requests manual capture and limits payment methods to allowed ones for AUTHORIZATION flow", async () => {
+      vi.spyOn(mockedAppConfigRepo, "getStripeConfig").mockImplementationOnce(async () =>
+        ok(
+          StripeConfig.create({
+            ...mockedStripeConfig,
+            paymentMethodsSettings: PaymentMethodsSettings.create({
+              allowedPaymentMethods: ["card", "apple_pay", "klarna"],
+              transactionFlowOverrides: {},
+            })._unsafeUnwrap(),
+          })._unsafeUnwrap(),
+        ),
+      );
+
+      const spy = vi
+        .spyOn(mockedStripeCheckoutSessionsApi, "createCheckoutSession")
+        .mockImplementationOnce(async () => ok(mockedCheckoutSession));
+
+      const responsePayload = await executeUseCase(
+        getMockedTransactionInitializeSessionEvent({
+          actionType: "AUTHORIZATION",
+          data: checkoutSessionData,
+        }),
+      );
+
+      expect(responsePayload._unsafeUnwrap().transactionResult).toBeInstanceOf(
+        AuthorizationCheckoutSessionActionRequiredResult,
+      );
+      expect(spy.mock.calls[0][0].sessionParams.payment_method_types).toStrictEqual([
+        "card",
+        "klarna",
+      ]);
+      expect(spy.mock.calls[0][0].sessionParams.payment_intent_data).toStrictEqual(
+        expect.objectContaining({ capture_method: "manual" }),
+      );
+      expect(spy.mock.calls[0][0].metadata?.saleor_transaction_flow).toBe("AUTHORIZATION");
+    });
+
+    it("Returns Failure response when Stripe fails to create Checkout Session", async () => {
+      vi.spyOn(mockedStripeCheckoutSessionsApi, "createCheckoutSession").mockImplementationOnce(
+        async () => err(new Error("Stripe error")),
+      );
+
+      const responsePayload = await executeUseCase(
+        getMockedTransactionInitializeSessionEvent({ data: checkoutSessionData }),
+      );
+
+      const response = responsePayload._unsafeUnwrap();
+
+      expect(response).toBeInstanceOf(TransactionInitializeSessionUseCaseResponses.Failure);
+      expect(response.transactionResult).toBeInstanceOf(ChargeFailureResult);
+    });
+
+    it("Returns 'BrokenAppResponse' when Stripe returns Checkout Session without URL", async () => {
+      vi.spyOn(mockedStripeCheckoutSessionsApi, "createCheckoutSession").mockImplementationOnce(
+        async () => ok({ ...mockedCheckoutSession, url: null }),
+      );
+
+      const responsePayload = await executeUseCase(
+        getMockedTransactionInitializeSessionEvent({ data: checkoutSessionData }),
+      );
+
+      expect(responsePayload._unsafeUnwrapErr()).toBeInstanceOf(BrokenAppResponse);
+    });
+  });
+
+  describe("Stripe Customer linking", () => {
+    const mockedPaymentIntent = {
+      amount: 100,
+      currency: "usd",
+      client_secret: "secret-value",
+      id: "pi_test",
+      status: "requires_payment_method",
+    } as Stripe.PaymentIntent;
+
+    const executeUseCase = (event: ReturnType<typeof getMockedTransactionInitializeSessionEvent>) =>
+      new TransactionInitializeSessionUseCase({
+        appConfigRepo: mockedAppConfigRepo,
+        stripePaymentIntentsApiFactory,
+        transactionRecorder: new MockedTransactionRecorder(),
+        stripeCustomerResolver,
+        stripeCheckoutSessionsApiFactory,
+      }).execute({
+        saleorApiUrl: mockedSaleorApiUrl,
+        appId: mockedSaleorAppId,
+        event,
+        saleorSchemaVersion: mockedSaleorSchemaVersionSupportingPaymentMethodDetails,
+        problemReporter: mockStripeProblemReporter,
+      });
+
+    beforeEach(() => {
+      customerLinkRepo.reset();
+      vi.spyOn(mockedStripePaymentIntentsApi, "createPaymentIntent").mockImplementation(async () =>
+        ok(mockedPaymentIntent),
+      );
+    });
+
+    it("Creates Stripe Customer for logged-in user, links it and attaches it to payment intent with setup_future_usage", async () => {
+      vi.spyOn(mockedStripeCustomersApi, "createCustomer").mockImplementationOnce(async () =>
+        ok({ id: "cus_TEST_TEST_TEST" } as Stripe.Customer),
+      );
+
+      const result = await executeUseCase(
+        getMockedTransactionInitializeSessionEvent({
+          saleorUserId: "user-id",
+          data: {
+            paymentIntent: { paymentMethod: "card" },
+            setupFutureUsage: "off_session",
+          },
+        }),
+      );
+
+      expect(result._unsafeUnwrap()).toBeInstanceOf(
+        TransactionInitializeSessionUseCaseResponses.Success,
+      );
+      expect(mockedStripeCustomersApi.createCustomer).toHaveBeenCalledWith({
+        email: "buyer@example.com",
+        idempotencyKey: `saleor-customer-${mockedConfigurationId}-user-id`,
+        metadata: {
+          saleor_user_id: "user-id",
+          saleor_api_url: mockedSaleorApiUrl,
+          saleor_app_id: mockedSaleorAppId,
+        },
+      });
+      expect(mockedStripePaymentIntentsApi.createPaymentIntent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          intentParams: expect.objectContaining({
+            customer: mockedStripeCustomerId,
+            setup_future_usage: "off_session",
+          }),
+        }),
+      );
+
+      const linkedCustomer = await customerLinkRepo.getLinkedCustomer(
+        { saleorApiUrl: mockedSaleorApiUrl, appId: mockedSaleorAppId },
+        { saleorUserId: "user-id", configurationId: mockedConfigurationId },
+      );
+
+      expect(linkedCustomer._unsafeUnwrap()?.stripeCustomerId).toBe(mockedStripeCustomerId);
+    });
+
+    it("Reuses already linked Stripe Customer", async () => {
+      await customerLinkRepo.saveLinkedCustomer(
+        { saleorApiUrl: mockedSaleorApiUrl, appId: mockedSaleorAppId },
+        new LinkedStripeCustomer({
+          saleorUserId: "user-id",
+          configurationId: mockedConfigurationId,
+          stripeCustomerId: mockedStripeCustomerId,
+        }),
+      );
+
+      await executeUseCase(getMockedTransactionInitializeSessionEvent({ saleorUserId: "user-id" }));
+
+      expect(mockedStripeCustomersApi.createCustomer).not.toHaveBeenCalled();
+      expect(mockedStripePaymentIntentsApi.createPaymentIntent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          // Lets Stripe webhook mark the Customer as charged
+          metadata: expect.objectContaining({
+            saleor_user_id: "user-id",
+          }),
+          intentParams: expect.objectContaining({
+            customer: mockedStripeCustomerId,
+          }),
+        }),
+      );
+    });
+
+    it("Creates payment intent without Customer if Stripe fails to create Customer", async () => {
+      vi.spyOn(mockedStripeCustomersApi, "createCustomer").mockImplementationOnce(async () =>
+        err(new Error("Stripe error")),
+      );
+
+      const result = await executeUseCase(
+        getMockedTransactionInitializeSessionEvent({ saleorUserId: "user-id" }),
+      );
+
+      expect(result._unsafeUnwrap()).toBeInstanceOf(
+        TransactionInitializeSessionUseCaseResponses.Success,
+      );
+      expect(mockedStripePaymentIntentsApi.createPaymentIntent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          intentParams: expect.not.objectContaining({
+            customer: expect.anything(),
+          }),
+        }),
+      );
+    });
+
+    it("Ignores setupFutureUsage for guest checkout", async () => {
+      await executeUseCase(
+        getMockedTransactionInitializeSessionEvent({
+          data: {
+            paymentIntent: { paymentMethod: "card" },
+            setupFutureUsage: "on_session",
+          },
+        }),
+      );
+
+      expect(mockedStripeCustomersApi.createCustomer).not.toHaveBeenCalled();
+      expect(mockedStripePaymentIntentsApi.createPaymentIntent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          intentParams: expect.not.objectContaining({
+            setup_future_usage: expect.anything(),
+          }),
+        }),
+      );
+    });
+  });
+
+  describe("Fraud screening", () => {
+    const mockConfigWithFraudRulesSettings = (
+      fields: Partial<Parameters<typeof FraudRulesSettings.create>[0]>,
+    ) =>
+      vi.spyOn(mockedAppConfigRepo, "getStripeConfig").mockImplementationOnce(async () =>
+        ok(
+          StripeConfig.create({
+            ...mockedStripeConfig,
+            fraudRulesSettings: FraudRulesSettings.create({
+              blockedEmailDomains: [],
+              blockCountryMismatch: false,
+              firstTimeBuyerAmountLimit: null,
+              ...fields,
+            })._unsafeUnwrap(),
+          })._unsafeUnwrap(),
+        ),
+      );
+
+    const executeUseCase = (event: ReturnType<typeof getMockedTransactionInitializeSessionEvent>) =>
+      new TransactionInitializeSessionUseCase({
+        appConfigRepo: mockedAppConfigRepo,
+        stripePaymentIntentsApiFactory,
+        transactionRecorder: new MockedTransactionRecorder(),
+        stripeCustomerResolver,
+        stripeCheckoutSessionsApiFactory,
+      }).execute({
+        saleorApiUrl: mockedSaleorApiUrl,
+        appId: mockedSaleorAppId,
+        event,
+        saleorSchemaVersion: mockedSaleorSchemaVersionSupportingPaymentMethodDetails,
+        problemReporter: mockStripeProblemReporter,
+      });
+
+    beforeEach(() => {
+      customerLinkRepo.reset();
+      vi.spyOn(mockedStripePaymentIntentsApi, "createPaymentIntent").mockImplementation(async () =>
+        ok({
+          amount: 10000,
+          currency: "usd",
+          client_secret: "secret-value",
+          id: "pi_test",
+          status: "requires_payment_method",
+        } as Stripe.PaymentIntent),
+      );
+    });
+
+    it.each([
+      { actionType: "CHARGE" as const, resultClass: ChargeFailureResult },
+      { actionType: "AUTHORIZATION" as const, resultClass: AuthorizationFailureResult },
+    ])(
+      "Returns FraudRuleFailure with fired rule in message and doesn't call Stripe if rule blocks payment for $actionType",
+      async ({ actionType, resultClass }) => {
+        mockConfigWithFraudRulesSettings({ blockedEmailDomains: ["example.com"] });
+
+        const result = await executeUseCase(
+          getMockedTransactionInitializeSessionEvent({ actionType }),
+        );
+
+        const response = result._unsafeUnwrap();
+
+        expect(response).toBeInstanceOf(
+          TransactionInitializeSessionUseCaseResponses.FraudRuleFailure,
+        );
+        expect(response.transactionResult).toBeInstanceOf(resultClass);
+        expect(
+          response instanceof TransactionInitializeSessionUseCaseResponses.FraudRuleFailure &&
+            response.error,
+        ).toBeInstanceOf(FraudRuleTriggeredError);
+        expect(await response.getResponse().json()).toStrictEqual(
+          expect.objectContaining({
+            message:
+              'Payment intent not created - blocked by fraud rule EMAIL_DOMAIN_BLOCKLIST: Buyer email domain "example.com" is blocked',
+          }),
+        );
+        expect(mockedStripePaymentIntentsApi.createPaymentIntent).not.toHaveBeenCalled();
+      },
+    );
+
+    it("Creates payment intent if no rule blocks payment", async () => {
+      mockConfigWithFraudRulesSettings({
+        blockedEmailDomains: ["mailinator.com"],
+        blockCountryMismatch: true,
+        firstTimeBuyerAmountLimit: 1000,
+      });
+
+      const result = await executeUseCase(getMockedTransactionInitializeSessionEvent());
+
+      expect(result._unsafeUnwrap()).toBeInstanceOf(
+        TransactionInitializeSessionUseCaseResponses.Success,
+      );
+    });
+
+    it("Blocks guest paying more than first-time buyer limit", async () => {
+      mockConfigWithFraudRulesSettings({ firstTimeBuyerAmountLimit: 50 });
+
+      const result = await executeUseCase(getMockedTransactionInitializeSessionEvent());
+
+      expect(result._unsafeUnwrap()).toBeInstanceOf(
+        TransactionInitializeSessionUseCaseResponses.FraudRuleFailure,
+      );
+    });
+
+    it("Doesn't apply first-time buyer limit to user with completed charge", async () => {
+      mockConfigWithFraudRulesSettings({ firstTimeBuyerAmountLimit: 50 });
+
+      await customerLinkRepo.saveLinkedCustomer(
+        { saleorApiUrl: mockedSaleorApiUrl, appId: mockedSaleorAppId },
+        new LinkedStripeCustomer({
+          saleorUserId: "user-id",
+          configurationId: mockedConfigurationId,
+          stripeCustomerId: mockedStripeCustomerId,
+          hasCompletedCharge: true,
+        }),
+      );
+
+      const result = await executeUseCase(
+        getMockedTransactionInitializeSessionEvent({ saleorUserId: "user-id" }),
+      );
+
+      expect(result._unsafeUnwrap()).toBeInstanceOf(
+        TransactionInitializeSessionUseCaseResponses.Success,
+      );
+    });
+
+    it("Applies first-time buyer limit to user linked to Stripe Customer without completed charge", async () => {
+      mockConfigWithFraudRulesSettings({ firstTimeBuyerAmountLimit: 50 });
+
+      await customerLinkRepo.saveLinkedCustomer(
+        { saleorApiUrl: mockedSaleorApiUrl, appId: mockedSaleorAppId },
+        new LinkedStripeCustomer({
+          saleorUserId: "user-id",
+          configurationId: mockedConfigurationId,
+          stripeCustomerId: mockedStripeCustomerId,
+        }),
+      );
+
+      const result = await executeUseCase(
+        getMockedTransactionInitializeSessionEvent({ saleorUserId: "user-id" }),
+      );
+
+      expect(result._unsafeUnwrap()).toBeInstanceOf(
+        TransactionInitializeSessionUseCaseResponses.FraudRuleFailure,
+      );
+    });
+  });
 });
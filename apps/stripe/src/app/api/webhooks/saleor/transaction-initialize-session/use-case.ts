@@ -15,23 +15,33 @@ import { appContextContainer } from "@/lib/app-context";
 import { BaseError } from "@/lib/errors";
 import { createLogger } from "@/lib/logger";
 import { loggerContext } from "@/lib/logger-context";
+import { type ConnectSettings } from "@/modules/app-config/domain/connect-settings";
+import { type PaymentIntentDataSettings } from "@/modules/app-config/domain/payment-intent-data-settings";
+import { type PaymentMethodsSettings } from "@/modules/app-config/domain/payment-methods-settings";
+import { type StripeConfig } from "@/modules/app-config/domain/stripe-config";
 import { type AppConfigRepo } from "@/modules/app-config/repositories/app-config-repo";
 import { type StripeProblemReporter } from "@/modules/app-problems";
+import { type CustomerLinkRepoAccess } from "@/modules/customers-linking/repositories/customer-link-repo";
+import { type StripeCustomerResolver } from "@/modules/customers-linking/stripe-customer-resolver";
+import { FraudScreeningEngine } from "@/modules/fraud-screening/fraud-screening-engine";
 import { type ResolvedTransactionFlow } from "@/modules/resolved-transaction-flow";
 import { resolveSaleorMoneyFromStripePaymentIntent } from "@/modules/saleor/resolve-saleor-money-from-stripe-payment-intent";
 import { type SaleorApiUrl } from "@/modules/saleor/saleor-api-url";
-import { type SaleorMoney } from "@/modules/saleor/saleor-money";
+import { SaleorMoney } from "@/modules/saleor/saleor-money";
 import {
   createSaleorTransactionFlow,
   type SaleorTransationFlow,
 } from "@/modules/saleor/saleor-transaction-flow";
 import { createSaleorTransactionId } from "@/modules/saleor/saleor-transaction-id";
+import { type PaymentMethod } from "@/modules/stripe/payment-methods/types";
 import { mapStripeErrorToApiError } from "@/modules/stripe/stripe-api-error";
+import { createStripeCheckoutSessionId } from "@/modules/stripe/stripe-checkout-session-id";
 import {
   createStripeClientSecret,
   type StripeClientSecret,
   type StripeClientSecretValidationError,
 } from "@/modules/stripe/stripe-client-secret";
+import { type StripeCustomerId } from "@/modules/stripe/stripe-customer-id";
 import { StripeMoney } from "@/modules/stripe/stripe-money";
 import {
   createStripePaymentIntentId,
@@ -43,12 +53,16 @@ import {
   type StripePaymentIntentStatus,
 } from "@/modules/stripe/stripe-payment-intent-status";
 import {
+  type CreateCheckoutSessionArgs,
   type CreatePaymentIntentArgs,
+  type IStripeCheckoutSessionsApiFactory,
   type IStripePaymentIntentsApiFactory,
 } from "@/modules/stripe/types";
 import {
   AuthorizationActionRequiredResult,
+  AuthorizationCheckoutSessionActionRequiredResult,
   ChargeActionRequiredResult,
+  ChargeCheckoutSessionActionRequiredResult,
 } from "@/modules/transaction-result/action-required-result";
 import {
   AuthorizationFailureResult,
@@ -57,17 +71,32 @@ import {
 import { RecordedTransaction } from "@/modules/transactions-recording/domain/recorded-transaction";
 import { type TransactionRecorderRepo } from "@/modules/transactions-recording/repositories/transaction-recorder-repo";
 
+import { resolveCheckoutSessionLineItems } from "./checkout-session-line-items";
+import { resolveConnectDestination } from "./connect-destination";
 import {
+  isCheckoutSessionEventData,
   parseTransactionInitializeSessionEventData,
+  type TransactionInitializeCheckoutSessionEventData,
   type TransactionInitializeSessionEventData,
   UnsupportedPaymentMethodError,
 } from "./event-data-parser";
+import { FraudRuleTriggeredError } from "./fraud-rule-triggered-error";
+import {
+  resolvePaymentIntentAmountDetails,
+  resolvePaymentIntentShipping,
+} from "./payment-intent-data";
+import { PaymentMethodNotAllowedError } from "./payment-method-not-allowed-error";
 import { resolvePaymentMethodFromEventData } from "./payment-method-resolver";
 import {
   TransactionInitializeSessionUseCaseResponses,
   type TransactionInitializeSessionUseCaseResponsesType,
 } from "./use-case-response";
 
+type ConnectDestination = {
+  connectSettings: ConnectSettings;
+  destination: string;
+};
+
 type UseCaseExecuteResult = Result<
   TransactionInitializeSessionUseCaseResponsesType,
   AppIsNotConfiguredResponse | BrokenAppResponse | MalformedRequestResponse
@@ -78,21 +107,208 @@ export class TransactionInitializeSessionUseCase {
   private appConfigRepo: AppConfigRepo;
   private stripePaymentIntentsApiFactory: IStripePaymentIntentsApiFactory;
   private transactionRecorder: TransactionRecorderRepo;
+  private stripeCustomerResolver: StripeCustomerResolver;
+  private stripeCheckoutSessionsApiFactory: IStripeCheckoutSessionsApiFactory;
 
   constructor(deps: {
     appConfigRepo: AppConfigRepo;
     stripePaymentIntentsApiFactory: IStripePaymentIntentsApiFactory;
     transactionRecorder: TransactionRecorderRepo;
+    stripeCustomerResolver: StripeCustomerResolver;
+    stripeCheckoutSessionsApiFactory: IStripeCheckoutSessionsApiFactory;
   }) {
     this.appConfigRepo = deps.appConfigRepo;
     this.stripePaymentIntentsApiFactory = deps.stripePaymentIntentsApiFactory;
     this.transactionRecorder = deps.transactionRecorder;
+    this.stripeCustomerResolver = deps.stripeCustomerResolver;
+    this.stripeCheckoutSessionsApiFactory = deps.stripeCheckoutSessionsApiFactory;
+  }
+
+  private resolveBuyerEmail(
+    sourceObject: TransactionInitializeSessionEventFragment["sourceObject"],
+  ) {
+    if (sourceObject.__typename === "Checkout") {
+      return sourceObject.email ?? null;
+    }
+
+    return sourceObject.userEmail ?? null;
+  }
+
+  /**
+   * Customer is optional for the payment - if it can't be resolved we log and continue with a guest-like PaymentIntent
+   * rather than failing the checkout.
+   */
+  private async resolveStripeCustomerId(args: {
+    event: TransactionInitializeSessionEventFragment;
+    eventData: TransactionInitializeSessionEventData;
+    stripeConfig: StripeConfig;
+    accessPattern: CustomerLinkRepoAccess;
+  }): Promise<StripeCustomerId | null> {
+    const saleorUserId = args.event.sourceObject.user?.id;
+
+    if (!saleorUserId) {
+      if (args.eventData.setupFutureUsage) {
+        this.logger.warn("Storefront requested setupFutureUsage for guest buyer, ignoring");
+      }
+
+      return null;
+    }
+
+    const stripeCustomerIdResult = await this.stripeCustomerResolver.getOrCreateCustomer({
+      accessPattern: args.accessPattern,
+      stripeConfig: args.stripeConfig,
+      saleorUserId,
+      email: this.resolveBuyerEmail(args.event.sourceObject),
+    });
+
+    if (stripeCustomerIdResult.isErr()) {
+      captureException(stripeCustomerIdResult.error);
+      this.logger.warn("Failed to resolve Stripe Customer, creating payment intent without it", {
+        error: stripeCustomerIdResult.error,
+      });
+
+      return null;
+    }
+
+    return stripeCustomerIdResult.value;
+  }
+
+  /**
+   * Guests are always first-time buyers. If buyer history can't be resolved, rule depending on it is skipped, so
+   * storage outage doesn't block legitimate payments
+   */
+  private async resolveIsFirstTimeBuyer(args: {
+    event: TransactionInitializeSessionEventFragment;
+    stripeConfig: StripeConfig;
+    accessPattern: CustomerLinkRepoAccess;
+  }): Promise<boolean | null> {
+    const saleorUserId = args.event.sourceObject.user?.id;
+
+    if (!saleorUserId) {
+      return true;
+    }
+
+    const hasCompletedChargeResult = await this.stripeCustomerResolver.hasCompletedCharge({
+      accessPattern: args.accessPattern,
+      stripeConfig: args.stripeConfig,
+      saleorUserId,
+    });
+
+    if (hasCompletedChargeResult.isErr()) {
+      captureException(hasCompletedChargeResult.error);
+      this.logger.warn("Failed to resolve buyer history, skipping first-time buyer rule", {
+        error: hasCompletedChargeResult.error,
+      });
+
+      return null;
+    }
+
+    return !hasCompletedChargeResult.value;
+  }
+
+  private async screenForFraud(args: {
+    event: TransactionInitializeSessionEventFragment;
+    stripeConfig: StripeConfig;
+    accessPattern: CustomerLinkRepoAccess;
+  }) {
+    const { event, stripeConfig } = args;
+    const engine = FraudScreeningEngine.createFromSettings(stripeConfig.fraudRulesSettings);
+
+    const isFirstTimeBuyer = engine.hasRule("FIRST_TIME_BUYER_AMOUNT_LIMIT")
+      ? await this.resolveIsFirstTimeBuyer(args)
+      : null;
+
+    return engine.screen({
+      email: this.resolveBuyerEmail(event.sourceObject),
+      billingCountryCode: event.sourceObject.billingAddress?.country.code ?? null,
+      shippingCountryCode: event.sourceObject.shippingAddress?.country.code ?? null,
+      amount: event.action.amount,
+      currency: event.action.currency,
+      isFirstTimeBuyer,
+    });
+  }
+
+  /**
+   * Optional data enabled in configuration. Missing source data (e.g. checkout without shipping address) is skipped.
+   */
+  private prepareOptionalPaymentIntentParams(args: {
+    sourceObject: TransactionInitializeSessionEventFragment["sourceObject"];
+    paymentIntentDataSettings: PaymentIntentDataSettings;
+    selectedPaymentMethodType: PaymentMethod["type"];
+    stripeMoney: StripeMoney;
+  }): Pick<
+    CreatePaymentIntentArgs["intentParams"],
+    "shipping" | "receipt_email" | "statement_descriptor_suffix" | "amount_details"
+  > {
+    const { sourceObject, paymentIntentDataSettings } = args;
+
+    const shipping = paymentIntentDataSettings.sendShippingAddress
+      ? resolvePaymentIntentShipping(sourceObject.shippingAddress)
+      : null;
+
+    const receiptEmail = paymentIntentDataSettings.sendReceiptEmail
+      ? this.resolveBuyerEmail(sourceObject)
+      : null;
+
+    const statementDescriptorSuffix = paymentIntentDataSettings.renderStatementDescriptorSuffix({
+      orderNumber: sourceObject.__typename === "Order" ? sourceObject.number : null,
+      channelSlug: sourceObject.channel.slug,
+    });
+
+    // Level 2/3 data applies only to card payments
+    const shouldSendAmountDetails =
+      paymentIntentDataSettings.sendCardLineItems && args.selectedPaymentMethodType === "card";
+
+    const amountDetails = shouldSendAmountDetails
+      ? resolvePaymentIntentAmountDetails({
+          sourceObject,
+          transactionAmount: args.stripeMoney,
+        })
+      : null;
+
+    if (shouldSendAmountDetails && !amountDetails) {
+      this.logger.debug("Level 2/3 data not sent - lines don't match transaction amount");
+    }
+
+    return {
+      ...(shipping && { shipping }),
+      ...(receiptEmail && { receipt_email: receiptEmail }),
+      ...(statementDescriptorSuffix && { statement_descriptor_suffix: statementDescriptorSuffix }),
+      ...(amountDetails && { amount_details: amountDetails }),
+    };
+  }
+
+  /**
+   * Destination charge - funds are transferred to connected account, platform keeps application fee
+   */
+  private prepareDestinationChargeParams(
+    connectDestination: ConnectDestination | null,
+    stripeMoney: StripeMoney,
+  ): Pick<CreatePaymentIntentArgs["intentParams"], "transfer_data" | "application_fee_amount"> {
+    if (!connectDestination) {
+      return {};
+    }
+
+    const applicationFeeAmount = connectDestination.connectSettings.calculateApplicationFeeAmount(
+      stripeMoney.amount,
+    );
+
+    return {
+      transfer_data: {
+        destination: connectDestination.destination,
+      },
+      ...(applicationFeeAmount !== null && { application_fee_amount: applicationFeeAmount }),
+    };
   }
 
   private prepareStripeCreatePaymentIntentParams(args: {
     event: TransactionInitializeSessionEventFragment;
     eventData: TransactionInitializeSessionEventData;
+    selectedPaymentMethodType: PaymentMethod["type"];
     selectedPaymentMethodOptions: Stripe.PaymentIntentCreateParams.PaymentMethodOptions;
+    paymentIntentDataSettings: PaymentIntentDataSettings;
+    connectDestination: ConnectDestination | null;
+    stripeCustomerId: StripeCustomerId | null;
     idempotencyKey: string;
     saleorApiUrl: SaleorApiUrl;
     appId: string;
@@ -108,6 +324,10 @@ export class TransactionInitializeSessionUseCase {
           saleor_transaction_id: createSaleorTransactionId(args.event.transaction.id),
           saleor_api_url: args.saleorApiUrl,
           saleor_app_id: args.appId,
+          ...(args.stripeCustomerId &&
+            args.event.sourceObject.user && {
+              saleor_user_id: args.event.sourceObject.user.id,
+            }),
         },
         stripeMoney,
         idempotencyKey: args.idempotencyKey,
@@ -122,11 +342,212 @@ export class TransactionInitializeSessionUseCase {
           payment_method_options: {
             ...args.selectedPaymentMethodOptions,
           },
+          ...(args.stripeCustomerId && {
+            customer: args.stripeCustomerId,
+            setup_future_usage: args.eventData.setupFutureUsage,
+          }),
+          ...this.prepareOptionalPaymentIntentParams({
+            sourceObject: args.event.sourceObject,
+            paymentIntentDataSettings: args.paymentIntentDataSettings,
+            selectedPaymentMethodType: args.selectedPaymentMethodType,
+            stripeMoney,
+          }),
+          ...this.prepareDestinationChargeParams(args.connectDestination, stripeMoney),
         },
       };
     });
   }
 
+  /**
+   * Wallets (Apple Pay, Google Pay) are presented by Checkout as part of "card". Returns undefined when there is no
+   * restriction, so Checkout uses payment methods enabled in Stripe Dashboard.
+   */
+  private resolveCheckoutSessionPaymentMethodTypes(
+    paymentMethodsSettings: PaymentMethodsSettings,
+  ): Stripe.Checkout.SessionCreateParams.PaymentMethodType[] | undefined {
+    if (!paymentMethodsSettings.allowedPaymentMethods) {
+      return undefined;
+    }
+
+    const paymentMethodTypes = paymentMethodsSettings.allowedPaymentMethods.map(
+      (paymentMethodType): Stripe.Checkout.SessionCreateParams.PaymentMethodType => {
+        switch (paymentMethodType) {
+          case "apple_pay":
+          case "google_pay":
+            return "card";
+          default:
+            return paymentMethodType;
+        }
+      },
+    );
+
+    return [...new Set(paymentMethodTypes)];
+  }
+
+  private prepareStripeCreateCheckoutSessionParams(args: {
+    event: TransactionInitializeSessionEventFragment;
+    eventData: TransactionInitializeCheckoutSessionEventData;
+    transactionAmount: StripeMoney;
+    saleorTransactionFlow: SaleorTransationFlow;
+    saleorSchemaVersion: SaleorSchemaVersion;
+    paymentMethodsSettings: PaymentMethodsSettings;
+    connectDestination: ConnectDestination | null;
+    saleorApiUrl: SaleorApiUrl;
+    appId: string;
+  }): CreateCheckoutSessionArgs {
+    const paymentIntentMetadata = {
+      saleor_source_id: args.event.sourceObject.id,
+      saleor_source_type: args.event.sourceObject.__typename,
+      saleor_transaction_id: createSaleorTransactionId(args.event.transaction.id),
+      saleor_api_url: args.saleorApiUrl,
+      saleor_app_id: args.appId,
+    };
+
+    const paymentMethodTypes = this.resolveCheckoutSessionPaymentMethodTypes(
+      args.paymentMethodsSettings,
+    );
+
+    return {
+      idempotencyKey: args.event.idempotencyKey,
+      metadata: {
+        ...paymentIntentMetadata,
+        saleor_transaction_flow: args.saleorTransactionFlow,
+        saleor_schema_version: args.saleorSchemaVersion.join("."),
+      },
+      sessionParams: {
+        success_url: args.eventData.checkoutSession.successUrl,
+        cancel_url: args.eventData.checkoutSession.cancelUrl,
+        line_items: resolveCheckoutSessionLineItems({
+          sourceObject: args.event.sourceObject,
+          transactionAmount: args.transactionAmount,
+        }),
+        customer_email: this.resolveBuyerEmail(args.event.sourceObject) ?? undefined,
+        ...(paymentMethodTypes && { payment_method_types: paymentMethodTypes }),
+        payment_intent_data: {
+          // PaymentIntent created by Checkout gets the same metadata, so its webhooks are matched with transaction
+          metadata: paymentIntentMetadata,
+          ...(args.saleorTransactionFlow === "AUTHORIZATION" && { capture_method: "manual" }),
+          ...this.prepareDestinationChargeParams(args.connectDestination, args.transactionAmount),
+        },
+      },
+    };
+  }
+
+  private resolveCheckoutSessionOkTransactionResult(
+    transactionFlow: SaleorTransationFlow,
+  ): ChargeCheckoutSessionActionRequiredResult | AuthorizationCheckoutSessionActionRequiredResult {
+    if (transactionFlow === "AUTHORIZATION") {
+      return new AuthorizationCheckoutSessionActionRequiredResult();
+    }
+
+    return new ChargeCheckoutSessionActionRequiredResult();
+  }
+
+  /**
+   * Hosted payment page mode. Transaction is recorded when session is completed (Stripe webhook), because
+   * PaymentIntent doesn't exist before buyer submits payment on Stripe page.
+   * Flow overrides from configuration are not applied - payment method is not known upfront.
+   */
+  private async executeCheckoutSessionMode(args: {
+    appId: string;
+    saleorApiUrl: SaleorApiUrl;
+    event: TransactionInitializeSessionEventFragment;
+    eventData: TransactionInitializeCheckoutSessionEventData;
+    saleorSchemaVersion: SaleorSchemaVersion;
+    saleorTransactionFlow: SaleorTransationFlow;
+    stripeConfig: StripeConfig;
+    connectDestination: ConnectDestination | null;
+    problemReporter: StripeProblemReporter;
+  }): Promise<UseCaseExecuteResult> {
+    const { event, stripeConfig, saleorTransactionFlow } = args;
+
+    const amountsResult = StripeMoney.createFromSaleorAmount({
+      amount: event.action.amount,
+      currency: event.action.currency,
+    }).andThen((transactionAmount) =>
+      SaleorMoney.createFromStripe(transactionAmount).map(
+        (saleorMoney) => [transactionAmount, saleorMoney] as const,
+      ),
+    );
+
+    if (amountsResult.isErr()) {
+      captureException(amountsResult.error);
+
+      return err(
+        new MalformedRequestResponse(appContextContainer.getContextValue(), amountsResult.error),
+      );
+    }
+
+    const [transactionAmount, saleorMoney] = amountsResult.value;
+
+    const stripeCheckoutSessionsApi = this.stripeCheckoutSessionsApiFactory.create({
+      key: stripeConfig.restrictedKey,
+    });
+
+    const createCheckoutSessionResult = await stripeCheckoutSessionsApi.createCheckoutSession(
+      this.prepareStripeCreateCheckoutSessionParams({
+        event,
+        eventData: args.eventData,
+        transactionAmount,
+        saleorTransactionFlow,
+        saleorSchemaVersion: args.saleorSchemaVersion,
+        paymentMethodsSettings: stripeConfig.paymentMethodsSettings,
+        connectDestination: args.connectDestination,
+        saleorApiUrl: args.saleorApiUrl,
+        appId: args.appId,
+      }),
+    );
+
+    if (createCheckoutSessionResult.isErr()) {
+      const mappedError = mapStripeErrorToApiError(createCheckoutSessionResult.error);
+
+      const config = {
+        id: stripeConfig.id,
+        name: stripeConfig.name,
+      };
+
+      after(() => args.problemReporter.reportApiProblem(mappedError, config));
+
+      this.logger.warn("Failed to create checkout session", { error: mappedError });
+
+      return ok(
+        new TransactionInitializeSessionUseCaseResponses.Failure({
+          transactionResult: this.resolveErrorTransactionResult(saleorTransactionFlow),
+          error: mappedError,
+          appContext: appContextContainer.getContextValue(),
+        }),
+      );
+    }
+
+    const stripeCheckoutSession = createCheckoutSessionResult.value;
+
+    this.logger.debug("Stripe created checkout session", { stripeResponse: stripeCheckoutSession });
+
+    const checkoutSessionIdResult = fromThrowable(createStripeCheckoutSessionId)(
+      stripeCheckoutSession.id,
+    );
+
+    if (checkoutSessionIdResult.isErr() || !stripeCheckoutSession.url) {
+      const error = new BaseError("Stripe returned checkout session without id or url", {
+        cause: checkoutSessionIdResult.isErr() ? checkoutSessionIdResult.error : undefined,
+      });
+
+      captureException(error);
+
+      return err(new BrokenAppResponse(appContextContainer.getContextValue(), error));
+    }
+
+    return ok(
+      new TransactionInitializeSessionUseCaseResponses.CheckoutSessionSuccess({
+        transactionResult: this.resolveCheckoutSessionOkTransactionResult(saleorTransactionFlow),
+        saleorMoney,
+        stripeCheckoutSessionId: checkoutSessionIdResult.value,
+        stripeCheckoutSessionUrl: stripeCheckoutSession.url,
+        appContext: appContextContainer.getContextValue(),
+      }),
+    );
+  }
+
   private mapStripePaymentIntentToWebhookResponse(
     paymentIntent: Stripe.PaymentIntent,
   ): Result<
@@ -236,6 +657,74 @@ export class TransactionInitializeSessionUseCase {
       stripeEnv: stripeConfigForThisChannel.value.getStripeEnvValue(),
     });
 
+    if (stripeConfigForThisChannel.value.fraudRulesSettings.hasEnabledRules()) {
+      const fraudScreeningResult = await this.screenForFraud({
+        event,
+        stripeConfig: stripeConfigForThisChannel.value,
+        accessPattern: { saleorApiUrl, appId },
+      });
+
+      if (fraudScreeningResult.blocked) {
+        this.logger.warn("Payment blocked by fraud screening rule", {
+          ruleName: fraudScreeningResult.ruleName,
+          configId: stripeConfigForThisChannel.value.id,
+        });
+
+        return ok(
+          new TransactionInitializeSessionUseCaseResponses.FraudRuleFailure({
+            transactionResult: this.resolveErrorTransactionResult(saleorTransactionFlow),
+            error: new FraudRuleTriggeredError("Payment blocked by fraud screening rule", {
+              props: {
+                merchantMessage: `Payment intent not created - blocked by fraud rule ${fraudScreeningResult.ruleName}: ${fraudScreeningResult.reason}`,
+              },
+            }),
+            appContext: appContextContainer.getContextValue(),
+          }),
+        );
+      }
+    }
+
+    const { connectSettings } = stripeConfigForThisChannel.value;
+    let connectDestination: ConnectDestination | null = null;
+
+    if (connectSettings) {
+      const destinationResult = resolveConnectDestination({
+        connectSettings,
+        sourceObject: event.sourceObject,
+      });
+
+      if (destinationResult.isErr()) {
+        this.logger.warn("Failed to resolve connected account for destination charge", {
+          error: destinationResult.error,
+          configId: stripeConfigForThisChannel.value.id,
+        });
+
+        return ok(
+          new TransactionInitializeSessionUseCaseResponses.Failure({
+            transactionResult: this.resolveErrorTransactionResult(saleorTransactionFlow),
+            error: destinationResult.error,
+            appContext: appContextContainer.getContextValue(),
+          }),
+        );
+      }
+
+      connectDestination = { connectSettings, destination: destinationResult.value };
+    }
+
+    if (isCheckoutSessionEventData(eventDataResult.value)) {
+      return this.executeCheckoutSessionMode({
+        appId,
+        saleorApiUrl,
+        event,
+        eventData: eventDataResult.value,
+        saleorSchemaVersion,
+        saleorTransactionFlow,
+        stripeConfig: stripeConfigForThisChannel.value,
+        connectDestination,
+        problemReporter: args.problemReporter,
+      });
+    }
+
     const restrictedKey = stripeConfigForThisChannel.value.restrictedKey;
 
     const stripePaymentIntentsApi = this.stripePaymentIntentsApiFactory.create({
@@ -248,14 +737,56 @@ export class TransactionInitializeSessionUseCase {
 
     const selectedPaymentMethod = resolvePaymentMethodFromEventData(eventDataResult.value);
 
+    const { paymentMethodsSettings } = stripeConfigForThisChannel.value;
+
+    if (!paymentMethodsSettings.isPaymentMethodAllowed(selectedPaymentMethod.type)) {
+      this.logger.warn("Payment method is not allowed in Stripe configuration", {
+        paymentMethod: selectedPaymentMethod.type,
+        configId: stripeConfigForThisChannel.value.id,
+      });
+
+      return ok(
+        new TransactionInitializeSessionUseCaseResponses.Failure({
+          transactionResult: this.resolveErrorTransactionResult(saleorTransactionFlow),
+          error: new PaymentMethodNotAllowedError("Payment method is not allowed", {
+            props: {
+              publicMessage: `Payment method "${selectedPaymentMethod.type}" is not allowed.`,
+              merchantMessage: `Payment intent not created - payment method "${selectedPaymentMethod.type}" is not allowed in Stripe configuration "${stripeConfigForThisChannel.value.name}"`,
+            },
+          }),
+          appContext: appContextContainer.getContextValue(),
+        }),
+      );
+    }
+
+    /*
+     * Configuration can force the flow for given payment method, e.g. always charge Klarna even if channel
+     * authorizes payments. Flow sent by Saleor is still recorded as saleorTransactionFlow.
+     */
+    const transactionFlow = paymentMethodsSettings.resolveSaleorTransactionFlow(
+      selectedPaymentMethod.type,
+      saleorTransactionFlow,
+    );
+
     const resolvedTransactionFlow =
-      selectedPaymentMethod.getResolvedTransactionFlow(saleorTransactionFlow);
+      selectedPaymentMethod.getResolvedTransactionFlow(transactionFlow);
+
+    const stripeCustomerId = await this.resolveStripeCustomerId({
+      event,
+      eventData: eventDataResult.value,
+      stripeConfig: stripeConfigForThisChannel.value,
+      accessPattern: { saleorApiUrl, appId },
+    });
 
     const stripePaymentIntentParamsResult = this.prepareStripeCreatePaymentIntentParams({
       eventData: eventDataResult.value,
       event: event,
+      selectedPaymentMethodType: selectedPaymentMethod.type,
       selectedPaymentMethodOptions:
-        selectedPaymentMethod.getCreatePaymentIntentMethodOptions(saleorTransactionFlow),
+        selectedPaymentMethod.getCreatePaymentIntentMethodOptions(transactionFlow),
+      paymentIntentDataSettings: stripeConfigForThisChannel.value.paymentIntentDataSettings,
+      connectDestination,
+      stripeCustomerId,
       idempotencyKey: event.idempotencyKey,
       saleorApiUrl,
       appId,
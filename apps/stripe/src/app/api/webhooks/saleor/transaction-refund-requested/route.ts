@@ -16,6 +16,7 @@ import { setObservabilitySourceObjectId } from "@/lib/observability-source-objec
 import { appConfigRepoImpl } from "@/modules/app-config/repositories/app-config-repo-impl";
 import { createStripeProblemReporter } from "@/modules/app-problems";
 import { createSaleorApiUrl } from "@/modules/saleor/saleor-api-url";
+import { StripePaymentIntentsApiFactory } from "@/modules/stripe/stripe-payment-intents-api-factory";
 import { StripeRefundsApiFactory } from "@/modules/stripe/stripe-refunds-api-factory";
 
 import { withRecipientVerification } from "../with-recipient-verification";
@@ -25,6 +26,7 @@ import { transactionRefundRequestedWebhookDefinition } from "./webhook-definitio
 const useCase = new TransactionRefundRequestedUseCase({
   appConfigRepo: appConfigRepoImpl,
   stripeRefundsApiFactory: new StripeRefundsApiFactory(),
+  stripePaymentIntentsApiFactory: new StripePaymentIntentsApiFactory(),
 });
 
 const logger = createLogger("TRANSACTION_CHARGE_REQUESTED route");
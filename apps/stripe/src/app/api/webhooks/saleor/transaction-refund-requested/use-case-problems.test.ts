@@ -5,6 +5,7 @@ import { describe, expect, it, vi } from "vitest";
 import { mockedAppConfigRepo } from "@/__tests__/mocks/app-config-repo";
 import { mockedConfigurationId, mockedSaleorAppId } from "@/__tests__/mocks/constants";
 import { mockStripeProblemReporter } from "@/__tests__/mocks/mock-stripe-problem-reporter";
+import { mockedStripePaymentIntentsApi } from "@/__tests__/mocks/mocked-stripe-payment-intents-api";
 import { mockedStripeRefundsApi } from "@/__tests__/mocks/mocked-stripe-refunds-api";
 import { mockedSaleorApiUrl } from "@/__tests__/mocks/saleor-api-url";
 import { getMockedTransactionRefundRequestedEvent } from "@/__tests__/mocks/saleor-events/transaction-refund-request-event";
@@ -13,7 +14,10 @@ import {
   StripeAuthenticationError,
   StripePermissionError,
 } from "@/modules/stripe/stripe-api-error";
-import { type IStripeRefundsApiFactory } from "@/modules/stripe/types";
+import {
+  type IStripePaymentIntentsApiFactory,
+  type IStripeRefundsApiFactory,
+} from "@/modules/stripe/types";
 
 import { TransactionRefundRequestedUseCase } from "./use-case";
 
@@ -42,6 +46,10 @@ describe("TransactionRefundRequestedUseCase - problem reporting", () => {
     create: () => mockedStripeRefundsApi,
   } satisfies IStripeRefundsApiFactory;
 
+  const stripePaymentIntentsApiFactory = {
+    create: () => mockedStripePaymentIntentsApi,
+  } satisfies IStripePaymentIntentsApiFactory;
+
   it("Reports authentication problem when Stripe returns StripeAuthenticationError", async () => {
     vi.spyOn(mockedStripeRefundsApi, "createRefund").mockImplementationOnce(async () =>
       err(
@@ -57,6 +65,7 @@ describe("TransactionRefundRequestedUseCase - problem reporting", () => {
     const uc = new TransactionRefundRequestedUseCase({
       appConfigRepo: mockedAppConfigRepo,
       stripeRefundsApiFactory,
+      stripePaymentIntentsApiFactory,
     });
 
     await uc.execute({
@@ -87,6 +96,7 @@ describe("TransactionRefundRequestedUseCase - problem reporting", () => {
     const uc = new TransactionRefundRequestedUseCase({
       appConfigRepo: mockedAppConfigRepo,
       stripeRefundsApiFactory,
+      stripePaymentIntentsApiFactory,
     });
 
     await uc.execute({
@@ -117,6 +127,7 @@ describe("TransactionRefundRequestedUseCase - problem reporting", () => {
     const uc = new TransactionRefundRequestedUseCase({
       appConfigRepo: mockedAppConfigRepo,
       stripeRefundsApiFactory,
+      stripePaymentIntentsApiFactory,
     });
 
     await uc.execute({
@@ -4,8 +4,10 @@ import { describe, expect, it, vi } from "vitest";
 
 import { mockedAppConfigRepo } from "@/__tests__/mocks/app-config-repo";
 import { mockedSaleorAppId, mockedSaleorTransactionId } from "@/__tests__/mocks/constants";
+import { mockedStripeConfig } from "@/__tests__/mocks/mock-stripe-config";
 import { mockStripeProblemReporter } from "@/__tests__/mocks/mock-stripe-problem-reporter";
 import { mockedStripePaymentIntentId } from "@/__tests__/mocks/mocked-stripe-payment-intent-id";
+import { mockedStripePaymentIntentsApi } from "@/__tests__/mocks/mocked-stripe-payment-intents-api";
 import { mockedStripeRefundId } from "@/__tests__/mocks/mocked-stripe-refund-id";
 import { mockedStripeRefundsApi } from "@/__tests__/mocks/mocked-stripe-refunds-api";
 import { mockedSaleorApiUrl } from "@/__tests__/mocks/saleor-api-url";
@@ -15,9 +17,14 @@ import {
   BrokenAppResponse,
   MalformedRequestResponse,
 } from "@/app/api/webhooks/saleor/saleor-webhook-responses";
+import { ConnectSettings } from "@/modules/app-config/domain/connect-settings";
+import { StripeConfig } from "@/modules/app-config/domain/stripe-config";
 import { StripeAPIError } from "@/modules/stripe/stripe-api-error";
 import { StripeMoney } from "@/modules/stripe/stripe-money";
-import { type IStripeRefundsApiFactory } from "@/modules/stripe/types";
+import {
+  type IStripePaymentIntentsApiFactory,
+  type IStripeRefundsApiFactory,
+} from "@/modules/stripe/types";
 
 import { TransactionRefundRequestedUseCase } from "./use-case";
 import { TransactionRefundRequestedUseCaseResponses } from "./use-case-response";
@@ -47,6 +54,10 @@ describe("TransactionRefundRequestedUseCase", () => {
     create: () => mockedStripeRefundsApi,
   } satisfies IStripeRefundsApiFactory;
 
+  const stripePaymentIntentsApiFactory = {
+    create: () => mockedStripePaymentIntentsApi,
+  } satisfies IStripePaymentIntentsApiFactory;
+
   it("Calls Stripe Refunds API to create refund and returns Success when refund is created successfully", async () => {
     const spy = vi.spyOn(mockedStripeRefundsApi, "createRefund").mockImplementationOnce(async () =>
       ok({
@@ -60,6 +71,7 @@ describe("TransactionRefundRequestedUseCase", () => {
     const uc = new TransactionRefundRequestedUseCase({
       appConfigRepo: mockedAppConfigRepo,
       stripeRefundsApiFactory,
+      stripePaymentIntentsApiFactory,
     });
 
     const result = await uc.execute({
@@ -94,6 +106,7 @@ describe("TransactionRefundRequestedUseCase", () => {
     const uc = new TransactionRefundRequestedUseCase({
       appConfigRepo: mockedAppConfigRepo,
       stripeRefundsApiFactory,
+      stripePaymentIntentsApiFactory,
     });
 
     const result = await uc.execute({
@@ -120,6 +133,78 @@ describe("TransactionRefundRequestedUseCase", () => {
     });
   });
 
+  describe("Stripe Connect mode", () => {
+    const mockConfigWithConnectSettings = () =>
+      vi.spyOn(mockedAppConfigRepo, "getStripeConfig").mockImplementationOnce(async () =>
+        ok(
+          StripeConfig.create({
+            ...mockedStripeConfig,
+            connectSettings: ConnectSettings.create({
+              destinationSource: "CHANNEL_METADATA",
+              destinationMetadataKey: "vendor_account",
+              applicationFeePercent: 10,
+            })._unsafeUnwrap(),
+          })._unsafeUnwrap(),
+        ),
+      );
+
+    const executeRefund = async (paymentIntent: Partial<Stripe.PaymentIntent>) => {
+      mockConfigWithConnectSettings();
+
+      vi.spyOn(mockedStripePaymentIntentsApi, "getPaymentIntent").mockImplementationOnce(async () =>
+        ok(paymentIntent as Stripe.PaymentIntent),
+      );
+
+      const spy = vi
+        .spyOn(mockedStripeRefundsApi, "createRefund")
+        .mockImplementationOnce(async () =>
+          ok({
+            status: "succeeded",
+            amount: 100,
+            currency: "usd",
+            id: mockedStripeRefundId.toString(),
+          } as Stripe.Refund),
+        );
+
+      await new TransactionRefundRequestedUseCase({
+        appConfigRepo: mockedAppConfigRepo,
+        stripeRefundsApiFactory,
+        stripePaymentIntentsApiFactory,
+      }).execute({
+        saleorApiUrl: mockedSaleorApiUrl,
+        appId: mockedSaleorAppId,
+        event: getMockedTransactionRefundRequestedEvent(),
+        problemReporter: mockStripeProblemReporter,
+      });
+
+      return spy.mock.calls[0][0];
+    };
+
+    it("Reverses transfer and refunds application fee of destination charge", async () => {
+      const refundArgs = await executeRefund({
+        transfer_data: { destination: "acct_vendor" } as Stripe.PaymentIntent.TransferData,
+        application_fee_amount: 1000,
+      });
+
+      expect(refundArgs).toStrictEqual(
+        expect.objectContaining({
+          reverseTransfer: true,
+          refundApplicationFee: true,
+        }),
+      );
+    });
+
+    it("Doesn't reverse transfer of PaymentIntent created before Connect mode was enabled", async () => {
+      const refundArgs = await executeRefund({
+        transfer_data: null,
+        application_fee_amount: null,
+      });
+
+      expect(refundArgs).not.toHaveProperty("reverseTransfer");
+      expect(refundArgs).not.toHaveProperty("refundApplicationFee");
+    });
+  });
+
   it("Returns 'MissingConfigErrorResponse' if config not found for specified channel", async () => {
     const spy = vi
       .spyOn(mockedAppConfigRepo, "getStripeConfig")
@@ -128,6 +213,7 @@ describe("TransactionRefundRequestedUseCase", () => {
     const uc = new TransactionRefundRequestedUseCase({
       appConfigRepo: mockedAppConfigRepo,
       stripeRefundsApiFactory,
+      stripePaymentIntentsApiFactory,
     });
 
     const responsePayload = await uc.execute({
@@ -155,6 +241,7 @@ describe("TransactionRefundRequestedUseCase", () => {
     const uc = new TransactionRefundRequestedUseCase({
       appConfigRepo: mockedAppConfigRepo,
       stripeRefundsApiFactory,
+      stripePaymentIntentsApiFactory,
     });
 
     const response = await uc.execute({
@@ -177,6 +264,7 @@ describe("TransactionRefundRequestedUseCase", () => {
     const uc = new TransactionRefundRequestedUseCase({
       appConfigRepo: mockedAppConfigRepo,
       stripeRefundsApiFactory,
+      stripePaymentIntentsApiFactory,
     });
 
     const response = await uc.execute({
@@ -195,6 +283,7 @@ describe("TransactionRefundRequestedUseCase", () => {
     const uc = new TransactionRefundRequestedUseCase({
       appConfigRepo: mockedAppConfigRepo,
       stripeRefundsApiFactory,
+      stripePaymentIntentsApiFactory,
     });
 
     await expect(
@@ -223,6 +312,7 @@ describe("TransactionRefundRequestedUseCase", () => {
     const uc = new TransactionRefundRequestedUseCase({
       appConfigRepo: mockedAppConfigRepo,
       stripeRefundsApiFactory,
+      stripePaymentIntentsApiFactory,
     });
 
     await expect(
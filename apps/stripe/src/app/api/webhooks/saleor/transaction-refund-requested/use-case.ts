@@ -12,6 +12,7 @@ import { appContextContainer } from "@/lib/app-context";
 import { BaseError } from "@/lib/errors";
 import { createLogger } from "@/lib/logger";
 import { loggerContext } from "@/lib/logger-context";
+import { type StripeConfig } from "@/modules/app-config/domain/stripe-config";
 import { type AppConfigRepo } from "@/modules/app-config/repositories/app-config-repo";
 import { type StripeProblemReporter } from "@/modules/app-problems";
 import { type SaleorApiUrl } from "@/modules/saleor/saleor-api-url";
@@ -23,9 +24,15 @@ import {
 } from "@/modules/saleor/transaction-requested-event-helpers";
 import { mapStripeErrorToApiError } from "@/modules/stripe/stripe-api-error";
 import { StripeMoney } from "@/modules/stripe/stripe-money";
-import { createStripePaymentIntentId } from "@/modules/stripe/stripe-payment-intent-id";
+import {
+  createStripePaymentIntentId,
+  type StripePaymentIntentId,
+} from "@/modules/stripe/stripe-payment-intent-id";
 import { createStripeRefundId } from "@/modules/stripe/stripe-refund-id";
-import { type IStripeRefundsApiFactory } from "@/modules/stripe/types";
+import {
+  type IStripePaymentIntentsApiFactory,
+  type IStripeRefundsApiFactory,
+} from "@/modules/stripe/types";
 import { RefundFailureResult } from "@/modules/transaction-result/refund-result";
 
 import {
@@ -42,13 +49,46 @@ export class TransactionRefundRequestedUseCase {
   private logger = createLogger("TransactionRefundRequestedUseCase");
   private appConfigRepo: AppConfigRepo;
   private stripeRefundsApiFactory: IStripeRefundsApiFactory;
+  private stripePaymentIntentsApiFactory: IStripePaymentIntentsApiFactory;
 
   constructor(deps: {
     appConfigRepo: AppConfigRepo;
     stripeRefundsApiFactory: IStripeRefundsApiFactory;
+    stripePaymentIntentsApiFactory: IStripePaymentIntentsApiFactory;
   }) {
     this.appConfigRepo = deps.appConfigRepo;
     this.stripeRefundsApiFactory = deps.stripeRefundsApiFactory;
+    this.stripePaymentIntentsApiFactory = deps.stripePaymentIntentsApiFactory;
+  }
+
+  /**
+   * In Stripe Connect mode PaymentIntent can be a destination charge. Stripe then reverses transfer and refunds
+   * application fee proportionally to the refunded amount, so connected account and platform both return their share.
+   * Payments created before Connect mode was enabled have no transfer, so nothing is reversed.
+   */
+  private async resolveDestinationChargeRefundParams({
+    stripeConfig,
+    stripePaymentIntentId,
+  }: {
+    stripeConfig: StripeConfig;
+    stripePaymentIntentId: StripePaymentIntentId;
+  }): Promise<Result<{ reverseTransfer?: boolean; refundApplicationFee?: boolean }, unknown>> {
+    if (!stripeConfig.connectSettings) {
+      return ok({});
+    }
+
+    const stripePaymentIntentsApi = this.stripePaymentIntentsApiFactory.create({
+      key: stripeConfig.restrictedKey,
+    });
+
+    const paymentIntentResult = await stripePaymentIntentsApi.getPaymentIntent({
+      id: stripePaymentIntentId,
+    });
+
+    return paymentIntentResult.map((paymentIntent) => ({
+      ...(paymentIntent.transfer_data && { reverseTransfer: true }),
+      ...(paymentIntent.application_fee_amount && { refundApplicationFee: true }),
+    }));
   }
 
   async execute(args: {
@@ -131,20 +171,29 @@ export class TransactionRefundRequestedUseCase {
       );
     }
 
-    const createRefundResult = await stripeRefundsApi.createRefund({
-      paymentIntentId: stripePaymentIntentId,
-      stripeMoney: stripeMoneyResult.value,
-      metadata: {
-        saleor_source_id: transaction.checkout?.id
-          ? transaction.checkout.id
-          : transaction.order?.id,
-        saleor_source_type: transaction.checkout ? "Checkout" : "Order",
-        saleor_transaction_id: createSaleorTransactionId(transaction.id),
-        saleor_api_url: saleorApiUrl,
-        saleor_app_id: appId,
-      },
+    const destinationChargeRefundParamsResult = await this.resolveDestinationChargeRefundParams({
+      stripeConfig: stripeConfigForThisChannel.value,
+      stripePaymentIntentId,
     });
 
+    // Failure of fetching PaymentIntent is reported the same way as failure of creating refund
+    const createRefundResult = destinationChargeRefundParamsResult.isErr()
+      ? err(destinationChargeRefundParamsResult.error)
+      : await stripeRefundsApi.createRefund({
+          ...destinationChargeRefundParamsResult.value,
+          paymentIntentId: stripePaymentIntentId,
+          stripeMoney: stripeMoneyResult.value,
+          metadata: {
+            saleor_source_id: transaction.checkout?.id
+              ? transaction.checkout.id
+              : transaction.order?.id,
+            saleor_source_type: transaction.checkout ? "Checkout" : "Order",
+            saleor_transaction_id: createSaleorTransactionId(transaction.id),
+            saleor_api_url: saleorApiUrl,
+            saleor_app_id: appId,
+          },
+        });
+
     if (createRefundResult.isErr()) {
       const error = mapStripeErrorToApiError(createRefundResult.error);
 
@@ -14,6 +14,8 @@ import { setObservabilitySaleorApiUrl } from "@/lib/observability-saleor-api-url
 import { saleorApp } from "@/lib/saleor-app";
 import { appConfigRepoImpl } from "@/modules/app-config/repositories/app-config-repo-impl";
 import { createStripeProblemReporter } from "@/modules/app-problems";
+import { customerLinkRepo } from "@/modules/customers-linking/repositories/customer-link-repo-impl";
+import { deadLetterEventRepo } from "@/modules/dead-letter-events/repositories/dead-letter-event-repo-impl";
 import { TransactionEventReporter } from "@/modules/saleor/transaction-event-reporter";
 import { StripePaymentIntentsApiFactory } from "@/modules/stripe/stripe-payment-intents-api-factory";
 import { StripeWebhookManager } from "@/modules/stripe/stripe-webhook-manager";
@@ -42,6 +44,8 @@ const useCase = new StripeWebhookUseCase({
   problemReporterFactory: (authData) => createStripeProblemReporter(authData),
   webhookManager: new StripeWebhookManager(),
   stripePaymentIntentsApiFactory: new StripePaymentIntentsApiFactory(),
+  deadLetterEventRepo,
+  customerLinkRepo,
 });
 
 const logger = createLogger("StripeWebhookHandler");
@@ -0,0 +1,301 @@
+import { ObservabilityAttributes } from "@saleor/apps-otel/src/observability-attributes";
+import { err, ok } from "neverthrow";
+import type Stripe from "stripe";
+
+import { BaseError } from "@/lib/errors";
+import { createLogger } from "@/lib/logger";
+import { loggerContext } from "@/lib/logger-context";
+import { type StripeProblemReporter } from "@/modules/app-problems";
+import { type SaleorApiUrl } from "@/modules/saleor/saleor-api-url";
+import {
+  type ITransactionEventReporter,
+  TransactionEventReporterErrors,
+} from "@/modules/saleor/transaction-event-reporter";
+import { type StripeEnv } from "@/modules/stripe/stripe-env";
+import { type StripeRestrictedKey } from "@/modules/stripe/stripe-restricted-key";
+import {
+  type AllowedStripeObjectMetadata,
+  type IStripePaymentIntentsApiFactory,
+} from "@/modules/stripe/types";
+import {
+  TransactionRecorderError,
+  type TransactionRecorderRepo,
+} from "@/modules/transactions-recording/repositories/transaction-recorder-repo";
+
+import { StripeCheckoutSessionHandler } from "./stripe-object-handlers/stripe-checkout-session-handler";
+import { StripeDisputeHandler } from "./stripe-object-handlers/stripe-dispute-handler";
+import { StripePaymentIntentHandler } from "./stripe-object-handlers/stripe-payment-intent-handler";
+import { StripeRefundHandler } from "./stripe-object-handlers/stripe-refund-handler";
+
+export type StripeEventProcessingArgs = {
+  event: Stripe.Event;
+  saleorApiUrl: SaleorApiUrl;
+  appId: string;
+  stripeEnv: StripeEnv;
+  restrictedKey: StripeRestrictedKey;
+  problemReporter: StripeProblemReporter;
+};
+
+export type StripeEventProcessingOutcome = "reported" | "already-reported";
+
+/**
+ * Resolves transaction event from verified Stripe event and reports it to Saleor.
+ * Shared by Stripe webhook and by replaying dead letter events, so both go through the same handlers.
+ */
+export class StripeEventProcessor {
+  static ObjectMetadataMissingError = BaseError.subclass("ObjectMetadataMissingError", {
+    props: {
+      _internalName: "StripeEventProcessor.ObjectMetadataMissingError" as const,
+    },
+  });
+
+  private logger = createLogger("StripeEventProcessor");
+  private transactionRecorder: TransactionRecorderRepo;
+  private stripePaymentIntentsApiFactory: IStripePaymentIntentsApiFactory;
+
+  constructor(deps: {
+    transactionRecorder: TransactionRecorderRepo;
+    stripePaymentIntentsApiFactory: IStripePaymentIntentsApiFactory;
+  }) {
+    this.transactionRecorder = deps.transactionRecorder;
+    this.stripePaymentIntentsApiFactory = deps.stripePaymentIntentsApiFactory;
+  }
+
+  async processEvent({
+    event,
+    saleorApiUrl,
+    appId,
+    stripeEnv,
+    restrictedKey,
+    problemReporter,
+  }: StripeEventProcessingArgs) {
+    switch (event.data.object.object) {
+      case "payment_intent": {
+        loggerContext.set(ObservabilityAttributes.PSP_REFERENCE, event.data.object.id);
+
+        const meta = event.data.object.metadata as AllowedStripeObjectMetadata;
+
+        if (!meta?.saleor_transaction_id) {
+          return err(
+            new StripeEventProcessor.ObjectMetadataMissingError(
+              "Missing metadata on object, it was not created by Saleor",
+              {
+                props: {
+                  meta,
+                },
+              },
+            ),
+          );
+        }
+
+        if (meta.saleor_app_id && meta.saleor_app_id !== appId) {
+          return err(
+            new StripeEventProcessor.ObjectMetadataMissingError(
+              "PaymentIntent belongs to a different Saleor installation",
+              {
+                props: {
+                  meta,
+                  expectedAppId: appId,
+                },
+              },
+            ),
+          );
+        }
+
+        const handler = new StripePaymentIntentHandler();
+
+        const stripePaymentIntentsApi = this.stripePaymentIntentsApiFactory.create({
+          key: restrictedKey,
+        });
+
+        return handler.processPaymentIntentEvent({
+          event,
+          stripeEnv,
+          transactionRecorder: this.transactionRecorder,
+          appId,
+          saleorApiUrl,
+          stripePaymentIntentsApi,
+        });
+      }
+
+      case "checkout.session": {
+        loggerContext.set("stripeCheckoutSessionId", event.data.object.id);
+
+        const meta = event.data.object.metadata as AllowedStripeObjectMetadata;
+
+        if (!meta?.saleor_transaction_id) {
+          return err(
+            new StripeEventProcessor.ObjectMetadataMissingError(
+              "Missing metadata on object, it was not created by Saleor",
+              {
+                props: {
+                  meta,
+                },
+              },
+            ),
+          );
+        }
+
+        if (meta.saleor_app_id && meta.saleor_app_id !== appId) {
+          return err(
+            new StripeEventProcessor.ObjectMetadataMissingError(
+              "Checkout Session belongs to a different Saleor installation",
+              {
+                props: {
+                  meta,
+                  expectedAppId: appId,
+                },
+              },
+            ),
+          );
+        }
+
+        const handler = new StripeCheckoutSessionHandler();
+
+        const stripePaymentIntentsApi = this.stripePaymentIntentsApiFactory.create({
+          key: restrictedKey,
+        });
+
+        return handler.processCheckoutSessionEvent({
+          event,
+          stripeEnv,
+          transactionRecorder: this.transactionRecorder,
+          appId,
+          saleorApiUrl,
+          stripePaymentIntentsApi,
+        });
+      }
+
+      case "refund": {
+        loggerContext.set("stripeRefundId", event.data.object.id);
+
+        const meta = event.data.object.metadata as AllowedStripeObjectMetadata;
+
+        if (!meta?.saleor_transaction_id) {
+          return err(
+            new StripeEventProcessor.ObjectMetadataMissingError(
+              "Missing metadata on object, it was not created by Saleor",
+              {
+                props: {
+                  meta,
+                },
+              },
+            ),
+          );
+        }
+
+        if (meta.saleor_app_id && meta.saleor_app_id !== appId) {
+          return err(
+            new StripeEventProcessor.ObjectMetadataMissingError(
+              "Refund belongs to a different Saleor installation",
+              {
+                props: {
+                  meta,
+                  expectedAppId: appId,
+                },
+              },
+            ),
+          );
+        }
+
+        const handler = new StripeRefundHandler();
+
+        return handler.processRefundEvent({
+          event,
+          stripeEnv,
+          transactionRecorder: this.transactionRecorder,
+          appId,
+          saleorApiUrl,
+        });
+      }
+
+      /**
+       * Disputes don't inherit metadata from PaymentIntent, so we can't check ownership here.
+       * Handler resolves ownership from the recorded transaction instead.
+       */
+      case "dispute": {
+        loggerContext.set("stripeDisputeId", event.data.object.id);
+
+        const handler = new StripeDisputeHandler();
+
+        const disputeResult = await handler.processDisputeEvent({
+          event,
+          stripeEnv,
+          transactionRecorder: this.transactionRecorder,
+          appId,
+          saleorApiUrl,
+          problemReporter,
+        });
+
+        /*
+         * Missing transaction is the only signal that the disputed payment wasn't created by this installation,
+         * the same as missing metadata on other objects
+         */
+        if (
+          disputeResult.isErr() &&
+          disputeResult.error instanceof TransactionRecorderError.TransactionMissingError
+        ) {
+          return err(
+            new StripeEventProcessor.ObjectMetadataMissingError(
+              "Dispute is for PaymentIntent not recorded by the app, it was not created by Saleor",
+              {
+                cause: disputeResult.error,
+              },
+            ),
+          );
+        }
+
+        return disputeResult;
+      }
+
+      default: {
+        throw new BaseError(`Support for object ${event.data.object.object} not implemented`);
+      }
+    }
+  }
+
+  /**
+   * Event already reported to Saleor is a success - it makes processing the same event many times idempotent
+   */
+  async processAndReportEvent({
+    transactionEventReporter,
+    ...args
+  }: StripeEventProcessingArgs & {
+    transactionEventReporter: ITransactionEventReporter;
+  }) {
+    const processingResult = await this.processEvent(args);
+
+    if (processingResult.isErr()) {
+      return err(processingResult.error);
+    }
+
+    loggerContext.set(
+      ObservabilityAttributes.TRANSACTION_ID,
+      processingResult.value.saleorTransactionId,
+    );
+    loggerContext.set("amount", processingResult.value.saleorMoney.amount);
+    loggerContext.set("result", processingResult.value.transactionResult.result);
+
+    const reportResult = await transactionEventReporter.reportTransactionEvent(
+      processingResult.value.resolveEventReportVariables(),
+    );
+
+    if (reportResult.isErr()) {
+      if (reportResult.error instanceof TransactionEventReporterErrors.AlreadyReportedError) {
+        this.logger.info("Transaction event already reported");
+
+        return ok("already-reported" as StripeEventProcessingOutcome);
+      }
+
+      this.logger.error("Failed to report transaction event", {
+        error: reportResult.error,
+      });
+
+      return err(reportResult.error);
+    }
+
+    this.logger.info("Transaction event reported");
+
+    return ok("reported" as StripeEventProcessingOutcome);
+  }
+}
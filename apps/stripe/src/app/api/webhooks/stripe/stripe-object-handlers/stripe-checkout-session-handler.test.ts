@@ -0,0 +1,152 @@
+import { err, ok } from "neverthrow";
+import type Stripe from "stripe";
+import { describe, expect, it, vi } from "vitest";
+
+import { mockedStripePaymentIntentId } from "@/__tests__/mocks/mocked-stripe-payment-intent-id";
+import { mockedStripePaymentIntentsApi } from "@/__tests__/mocks/mocked-stripe-payment-intents-api";
+import { MockedTransactionRecorder } from "@/__tests__/mocks/mocked-transaction-recorder";
+import { mockedSaleorApiUrl } from "@/__tests__/mocks/saleor-api-url";
+import {
+  getMockedCheckoutSessionCompletedEvent,
+  getMockedCheckoutSessionExpiredEvent,
+} from "@/__tests__/mocks/stripe-events/mocked-checkout-session";
+
+import { StripeCheckoutSessionHandler } from "./stripe-checkout-session-handler";
+
+describe("StripeCheckoutSessionHandler", () => {
+  const getMockedPaymentIntent = (status: Stripe.PaymentIntent.Status) =>
+    ({
+      id: mockedStripePaymentIntentId,
+      amount: 10000,
+      amount_received: status === "succeeded" ? 10000 : 0,
+      amount_capturable: status === "requires_capture" ? 10000 : 0,
+      currency: "usd",
+      status,
+      metadata: {},
+      payment_method: { type: "klarna" },
+      payment_method_types: ["card", "klarna"],
+    }) as unknown as Stripe.PaymentIntent;
+
+  const processEvent = (
+    event: Stripe.Event,
+    transactionRecorder = new MockedTransactionRecorder(),
+  ) =>
+    new StripeCheckoutSessionHandler().processCheckoutSessionEvent({
+      event,
+      stripeEnv: "TEST",
+      transactionRecorder,
+      appId: "appId",
+      saleorApiUrl: mockedSaleorApiUrl,
+      stripePaymentIntentsApi: mockedStripePaymentIntentsApi,
+    });
+
+  it("should return NotSupportedEventError for unsupported event", async () => {
+    const result = await processEvent({
+      type: "checkout.session.async_payment_failed",
+    } as unknown as Stripe.Event);
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(
+      StripeCheckoutSessionHandler.NotSupportedEventError,
+    );
+  });
+
+  describe("checkout.session.completed", () => {
+    it("should record transaction with payment method chosen by buyer and report CHARGE_SUCCESS for PaymentIntent", async () => {
+      vi.spyOn(mockedStripePaymentIntentsApi, "getPaymentIntent").mockImplementationOnce(async () =>
+        ok(getMockedPaymentIntent("succeeded")),
+      );
+
+      const transactionRecorder = new MockedTransactionRecorder();
+
+      const result = await processEvent(
+        getMockedCheckoutSessionCompletedEvent(),
+        transactionRecorder,
+      );
+
+      expect(transactionRecorder.transactions[mockedStripePaymentIntentId]).toStrictEqual(
+        expect.objectContaining({
+          saleorTransactionId: "mocked-transaction-id",
+          stripePaymentIntentId: mockedStripePaymentIntentId,
+          saleorTransactionFlow: "CHARGE",
+          resolvedTransactionFlow: "CHARGE",
+          selectedPaymentMethod: "klarna",
+          saleorSchemaVersion: [3, 22],
+        }),
+      );
+      expect(result._unsafeUnwrap().resolveEventReportVariables()).toStrictEqual(
+        expect.objectContaining({
+          type: "CHARGE_SUCCESS",
+          pspReference: mockedStripePaymentIntentId,
+          amount: expect.objectContaining({ amount: 100, currency: "USD" }),
+          externalUrl: `https://dashboard.stripe.com/test/payments/${mockedStripePaymentIntentId}`,
+        }),
+      );
+    });
+
+    it("should report AUTHORIZATION_SUCCESS for session created in AUTHORIZATION flow", async () => {
+      vi.spyOn(mockedStripePaymentIntentsApi, "getPaymentIntent").mockImplementationOnce(async () =>
+        ok(getMockedPaymentIntent("requires_capture")),
+      );
+
+      const event = getMockedCheckoutSessionCompletedEvent();
+
+      event.data.object.metadata = {
+        ...event.data.object.metadata,
+        saleor_transaction_flow: "AUTHORIZATION",
+      };
+
+      const result = await processEvent(event);
+
+      expect(result._unsafeUnwrap().resolveEventReportVariables().type).toBe(
+        "AUTHORIZATION_SUCCESS",
+      );
+    });
+
+    it("should return MalformedEventError if session has no metadata set by the app", async () => {
+      const event = getMockedCheckoutSessionCompletedEvent();
+
+      event.data.object.metadata = { saleor_transaction_id: "mocked-transaction-id" };
+
+      const result = await processEvent(event);
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(
+        StripeCheckoutSessionHandler.MalformedEventError,
+      );
+    });
+
+    it("should return FetchingPaymentIntentError and not record transaction if PaymentIntent can't be fetched", async () => {
+      vi.spyOn(mockedStripePaymentIntentsApi, "getPaymentIntent").mockImplementationOnce(async () =>
+        err(new Error("Stripe error")),
+      );
+
+      const transactionRecorder = new MockedTransactionRecorder();
+
+      const result = await processEvent(
+        getMockedCheckoutSessionCompletedEvent(),
+        transactionRecorder,
+      );
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(
+        StripeCheckoutSessionHandler.FetchingPaymentIntentError,
+      );
+      expect(transactionRecorder.transactions).toStrictEqual({});
+    });
+  });
+
+  describe("checkout.session.expired", () => {
+    it("should report CHARGE_FAILURE with Checkout Session id as pspReference", async () => {
+      const event = getMockedCheckoutSessionExpiredEvent();
+
+      const result = await processEvent(event);
+
+      expect(result._unsafeUnwrap().resolveEventReportVariables()).toStrictEqual(
+        expect.objectContaining({
+          type: "CHARGE_FAILURE",
+          pspReference: event.data.object.id,
+          amount: expect.objectContaining({ amount: 100, currency: "USD" }),
+          externalUrl: "https://dashboard.stripe.com/test/events/evt_event-id",
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,318 @@
+import { type SaleorSchemaVersion } from "@saleor/app-sdk/types";
+import { err, ok, type Result } from "neverthrow";
+import type Stripe from "stripe";
+
+import { BaseError } from "@/lib/errors";
+import { createLogger } from "@/lib/logger";
+import { createResolvedTransactionFlow } from "@/modules/resolved-transaction-flow";
+import { resolveSaleorMoneyFromStripePaymentIntent } from "@/modules/saleor/resolve-saleor-money-from-stripe-payment-intent";
+import { type SaleorApiUrl } from "@/modules/saleor/saleor-api-url";
+import { SaleorMoney } from "@/modules/saleor/saleor-money";
+import {
+  createSaleorTransactionFlow,
+  type SaleorTransationFlow,
+} from "@/modules/saleor/saleor-transaction-flow";
+import {
+  createSaleorTransactionId,
+  type SaleorTransationId,
+} from "@/modules/saleor/saleor-transaction-id";
+import {
+  generateEventStripeDashboardUrl,
+  generatePaymentIntentStripeDashboardUrl,
+} from "@/modules/stripe/generate-stripe-dashboard-urls";
+import { type PaymentMethod } from "@/modules/stripe/payment-methods/types";
+import { createStripeCheckoutSessionId } from "@/modules/stripe/stripe-checkout-session-id";
+import { type StripeEnv } from "@/modules/stripe/stripe-env";
+import { createStripePaymentIntentId } from "@/modules/stripe/stripe-payment-intent-id";
+import { createStripePaymentIntentStatus } from "@/modules/stripe/stripe-payment-intent-status";
+import { createTimestampFromStripeEvent } from "@/modules/stripe/stripe-timestamps";
+import {
+  type AllowedStripeObjectMetadata,
+  type IStripePaymentIntentsApi,
+} from "@/modules/stripe/types";
+import {
+  AuthorizationFailureResult,
+  ChargeFailureResult,
+} from "@/modules/transaction-result/failure-result";
+import { mapPaymentIntentStatusToTransactionResult } from "@/modules/transaction-result/map-payment-intent-status-to-transaction-result";
+import { RecordedTransaction } from "@/modules/transactions-recording/domain/recorded-transaction";
+import {
+  type TransactionRecorderError,
+  type TransactionRecorderRepo,
+} from "@/modules/transactions-recording/repositories/transaction-recorder-repo";
+
+import { TransactionEventReportVariablesResolver } from "../transaction-event-report-variables-resolver";
+
+export type StripeCheckoutSessionHandlerSupportedEvents =
+  | Stripe.CheckoutSessionCompletedEvent
+  | Stripe.CheckoutSessionExpiredEvent;
+
+type PossibleErrors =
+  | InstanceType<
+      | typeof SaleorMoney.ValidationError
+      | typeof StripeCheckoutSessionHandler.NotSupportedEventError
+      | typeof StripeCheckoutSessionHandler.MalformedEventError
+      | typeof StripeCheckoutSessionHandler.FetchingPaymentIntentError
+    >
+  | TransactionRecorderError;
+
+/**
+ * Handles sessions created in hosted payment page mode of TRANSACTION_INITIALIZE_SESSION.
+ * Transaction is recorded here, because PaymentIntent is created by Stripe only when buyer submits payment.
+ */
+export class StripeCheckoutSessionHandler {
+  static NotSupportedEventError = BaseError.subclass("NotSupportedEventError", {
+    props: {
+      _internalName: "StripeCheckoutSessionHandler.NotSupportedEventError" as const,
+    },
+  });
+
+  static MalformedEventError = BaseError.subclass("MalformedEventError", {
+    props: {
+      _internalName: "StripeCheckoutSessionHandler.MalformedEventError" as const,
+    },
+  });
+
+  static FetchingPaymentIntentError = BaseError.subclass("FetchingPaymentIntentError", {
+    props: {
+      _internalName: "StripeCheckoutSessionHandler.FetchingPaymentIntentError" as const,
+    },
+  });
+
+  logger = createLogger("StripeCheckoutSessionHandler");
+
+  private checkIfEventIsSupported(
+    event: Stripe.Event,
+  ): event is StripeCheckoutSessionHandlerSupportedEvents {
+    return event.type === "checkout.session.completed" || event.type === "checkout.session.expired";
+  }
+
+  private parseSessionMetadata(session: Stripe.Checkout.Session): Result<
+    {
+      saleorTransactionId: SaleorTransationId;
+      saleorTransactionFlow: SaleorTransationFlow;
+      saleorSchemaVersion: SaleorSchemaVersion;
+    },
+    InstanceType<typeof StripeCheckoutSessionHandler.MalformedEventError>
+  > {
+    const meta = session.metadata as AllowedStripeObjectMetadata | null;
+    const [major, minor] = (meta?.saleor_schema_version ?? "").split(".").map(Number);
+
+    if (
+      !meta?.saleor_transaction_id ||
+      !meta.saleor_transaction_flow ||
+      !Number.isInteger(major) ||
+      !Number.isInteger(minor)
+    ) {
+      return err(
+        new StripeCheckoutSessionHandler.MalformedEventError(
+          "Checkout Session is missing metadata set by the app",
+          { props: { meta } },
+        ),
+      );
+    }
+
+    return ok({
+      saleorTransactionId: createSaleorTransactionId(meta.saleor_transaction_id),
+      saleorTransactionFlow: createSaleorTransactionFlow(meta.saleor_transaction_flow),
+      saleorSchemaVersion: [major, minor],
+    });
+  }
+
+  /**
+   * Payment method is chosen by buyer on Stripe page - the app learns it only from the PaymentIntent
+   */
+  private resolveSelectedPaymentMethod(paymentIntent: Stripe.PaymentIntent) {
+    const paymentMethodType =
+      paymentIntent.payment_method && typeof paymentIntent.payment_method === "object"
+        ? paymentIntent.payment_method.type
+        : paymentIntent.payment_method_types[0];
+
+    return paymentMethodType as PaymentMethod["type"];
+  }
+
+  private async processCompletedSession({
+    event,
+    stripeEnv,
+    transactionRecorder,
+    appId,
+    saleorApiUrl,
+    stripePaymentIntentsApi,
+  }: {
+    event: Stripe.CheckoutSessionCompletedEvent;
+    stripeEnv: StripeEnv;
+    transactionRecorder: TransactionRecorderRepo;
+    appId: string;
+    saleorApiUrl: SaleorApiUrl;
+    stripePaymentIntentsApi: IStripePaymentIntentsApi;
+  }): Promise<Result<TransactionEventReportVariablesResolver, PossibleErrors>> {
+    const session = event.data.object;
+
+    const metadataResult = this.parseSessionMetadata(session);
+
+    if (metadataResult.isErr()) {
+      return err(metadataResult.error);
+    }
+
+    const { saleorTransactionId, saleorTransactionFlow, saleorSchemaVersion } =
+      metadataResult.value;
+
+    const rawPaymentIntentId =
+      typeof session.payment_intent === "string"
+        ? session.payment_intent
+        : session.payment_intent?.id;
+
+    if (!rawPaymentIntentId) {
+      return err(
+        new StripeCheckoutSessionHandler.MalformedEventError(
+          "Completed Checkout Session has no PaymentIntent",
+        ),
+      );
+    }
+
+    const stripePaymentIntentId = createStripePaymentIntentId(rawPaymentIntentId);
+
+    const paymentIntentResult = await stripePaymentIntentsApi.getPaymentIntent({
+      id: stripePaymentIntentId,
+    });
+
+    if (paymentIntentResult.isErr()) {
+      return err(
+        new StripeCheckoutSessionHandler.FetchingPaymentIntentError(
+          "Failed to fetch PaymentIntent of Checkout Session",
+          { cause: paymentIntentResult.error },
+        ),
+      );
+    }
+
+    const paymentIntent = paymentIntentResult.value;
+
+    // Payment method is not known upfront, so flow is not resolved per method - manual capture was requested on session
+    const resolvedTransactionFlow = createResolvedTransactionFlow(saleorTransactionFlow);
+
+    const recordResult = await transactionRecorder.recordTransaction(
+      { appId, saleorApiUrl },
+      new RecordedTransaction({
+        saleorTransactionId,
+        stripePaymentIntentId,
+        saleorTransactionFlow,
+        resolvedTransactionFlow,
+        selectedPaymentMethod: this.resolveSelectedPaymentMethod(paymentIntent),
+        saleorSchemaVersion,
+      }),
+    );
+
+    if (recordResult.isErr()) {
+      return err(recordResult.error);
+    }
+
+    this.logger.info("Recorded transaction of completed Checkout Session", {
+      stripePaymentIntentId,
+    });
+
+    const saleorMoneyResult = resolveSaleorMoneyFromStripePaymentIntent(paymentIntent);
+
+    if (saleorMoneyResult.isErr()) {
+      return err(saleorMoneyResult.error);
+    }
+
+    return ok(
+      new TransactionEventReportVariablesResolver({
+        saleorMoney: saleorMoneyResult.value,
+        transactionResult: mapPaymentIntentStatusToTransactionResult(
+          createStripePaymentIntentStatus(paymentIntent.status),
+          resolvedTransactionFlow,
+        ),
+        timestamp: createTimestampFromStripeEvent(event),
+        saleorTransactionId,
+        stripeObjectId: stripePaymentIntentId,
+        externalUrl: generatePaymentIntentStripeDashboardUrl(stripePaymentIntentId, stripeEnv),
+        // Reported with following payment_intent events, when the transaction is already recorded
+        paymentMethodDetails: null,
+      }),
+    );
+  }
+
+  private processExpiredSession({
+    event,
+    stripeEnv,
+  }: {
+    event: Stripe.CheckoutSessionExpiredEvent;
+    stripeEnv: StripeEnv;
+  }): Result<TransactionEventReportVariablesResolver, PossibleErrors> {
+    const session = event.data.object;
+
+    const metadataResult = this.parseSessionMetadata(session);
+
+    if (metadataResult.isErr()) {
+      return err(metadataResult.error);
+    }
+
+    const { saleorTransactionId, saleorTransactionFlow } = metadataResult.value;
+
+    if (!session.currency) {
+      return err(
+        new StripeCheckoutSessionHandler.MalformedEventError("Checkout Session has no currency"),
+      );
+    }
+
+    const saleorMoneyResult = SaleorMoney.createFromStripe({
+      amount: session.amount_total ?? 0,
+      currency: session.currency,
+    });
+
+    if (saleorMoneyResult.isErr()) {
+      return err(saleorMoneyResult.error);
+    }
+
+    return ok(
+      new TransactionEventReportVariablesResolver({
+        saleorMoney: saleorMoneyResult.value,
+        transactionResult:
+          saleorTransactionFlow === "AUTHORIZATION"
+            ? new AuthorizationFailureResult()
+            : new ChargeFailureResult(),
+        timestamp: createTimestampFromStripeEvent(event),
+        saleorTransactionId,
+        stripeObjectId: createStripeCheckoutSessionId(session.id),
+        externalUrl: generateEventStripeDashboardUrl(event.id, stripeEnv),
+        paymentMethodDetails: null,
+      }),
+    );
+  }
+
+  async processCheckoutSessionEvent({
+    event,
+    stripeEnv,
+    transactionRecorder,
+    appId,
+    saleorApiUrl,
+    stripePaymentIntentsApi,
+  }: {
+    event: Stripe.Event;
+    stripeEnv: StripeEnv;
+    transactionRecorder: TransactionRecorderRepo;
+    appId: string;
+    saleorApiUrl: SaleorApiUrl;
+    stripePaymentIntentsApi: IStripePaymentIntentsApi;
+  }): Promise<Result<TransactionEventReportVariablesResolver, PossibleErrors>> {
+    if (!this.checkIfEventIsSupported(event)) {
+      return err(new StripeCheckoutSessionHandler.NotSupportedEventError("Unsupported event type"));
+    }
+
+    switch (event.type) {
+      case "checkout.session.completed":
+        return this.processCompletedSession({
+          event,
+          stripeEnv,
+          transactionRecorder,
+          appId,
+          saleorApiUrl,
+          stripePaymentIntentsApi,
+        });
+
+      case "checkout.session.expired":
+        return this.processExpiredSession({ event, stripeEnv });
+    }
+  }
+}
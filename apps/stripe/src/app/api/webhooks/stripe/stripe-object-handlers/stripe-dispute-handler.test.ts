@@ -0,0 +1,151 @@
+import type Stripe from "stripe";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { mockStripeProblemReporter } from "@/__tests__/mocks/mock-stripe-problem-reporter";
+import { getMockedRecordedTransaction } from "@/__tests__/mocks/mocked-recorded-transaction";
+import { mockedStripeDisputeId } from "@/__tests__/mocks/mocked-stripe-dispute-id";
+import { mockedStripePaymentIntentId } from "@/__tests__/mocks/mocked-stripe-payment-intent-id";
+import { MockedTransactionRecorder } from "@/__tests__/mocks/mocked-transaction-recorder";
+import { mockedSaleorApiUrl } from "@/__tests__/mocks/saleor-api-url";
+import { getMockedChargeDisputeEvent } from "@/__tests__/mocks/stripe-events/mocked-charge-dispute";
+import { TransactionRecorderError } from "@/modules/transactions-recording/repositories/transaction-recorder-repo";
+
+import { StripeDisputeHandler } from "./stripe-dispute-handler";
+
+describe("StripeDisputeHandler", () => {
+  const mockTransactionRecorder = new MockedTransactionRecorder();
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    mockTransactionRecorder.transactions = {
+      [mockedStripePaymentIntentId]: getMockedRecordedTransaction(),
+    };
+
+    vi.spyOn(mockStripeProblemReporter, "reportDisputeEvidenceDue").mockResolvedValue();
+    vi.spyOn(mockStripeProblemReporter, "clearDisputeEvidenceDue").mockResolvedValue();
+  });
+
+  const processEvent = (event: Stripe.Event) =>
+    new StripeDisputeHandler().processDisputeEvent({
+      event,
+      stripeEnv: "LIVE",
+      transactionRecorder: mockTransactionRecorder,
+      appId: "appId",
+      saleorApiUrl: mockedSaleorApiUrl,
+      problemReporter: mockStripeProblemReporter,
+    });
+
+  it("should return NotSupportedEventError for unsupported event", async () => {
+    const result = await processEvent({
+      type: "charge.dispute.expired",
+    } as unknown as Stripe.Event);
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(StripeDisputeHandler.NotSupportedEventError);
+  });
+
+  it.each([
+    {
+      type: "charge.dispute.created",
+      expectedType: "INFO",
+      expectedPspReference: `${mockedStripeDisputeId}_created_needs_response`,
+    },
+    {
+      type: "charge.dispute.updated",
+      expectedType: "INFO",
+      expectedPspReference: `${mockedStripeDisputeId}_updated_needs_response`,
+    },
+    {
+      type: "charge.dispute.closed",
+      expectedType: "INFO",
+      expectedPspReference: `${mockedStripeDisputeId}_closed_needs_response`,
+    },
+    {
+      type: "charge.dispute.funds_withdrawn",
+      expectedType: "CHARGE_BACK",
+      expectedPspReference: mockedStripeDisputeId,
+    },
+    {
+      type: "charge.dispute.funds_reinstated",
+      expectedType: "CHARGE_SUCCESS",
+      expectedPspReference: mockedStripeDisputeId,
+    },
+  ] as const)(
+    "should map $type to $expectedType event",
+    async ({ type, expectedType, expectedPspReference }) => {
+      const event = getMockedChargeDisputeEvent({ type });
+
+      event.data.object.amount = 123_30;
+
+      const result = await processEvent(event);
+
+      const variables = result._unsafeUnwrap().resolveEventReportVariables();
+
+      expect(variables.type).toBe(expectedType);
+      expect(variables.amount.amount).toBe(123.3);
+      expect(variables.amount.currency).toBe("USD");
+      expect(variables.pspReference).toBe(expectedPspReference);
+      expect(variables.externalUrl).toBe("https://dashboard.stripe.com/disputes/dp_TEST_TEST_TEST");
+      expect(variables.time).toBe("2025-02-01T00:00:00.000Z");
+    },
+  );
+
+  it("should not change available actions for informational events", async () => {
+    const result = await processEvent(getMockedChargeDisputeEvent({ status: "under_review" }));
+
+    expect(result._unsafeUnwrap().resolveEventReportVariables()).toStrictEqual(
+      expect.objectContaining({
+        actions: null,
+        message: "Dispute created, status: under_review",
+      }),
+    );
+  });
+
+  it("should report app problem when dispute needs response", async () => {
+    await processEvent(getMockedChargeDisputeEvent({ status: "needs_response" }));
+
+    expect(mockStripeProblemReporter.reportDisputeEvidenceDue).toHaveBeenCalledWith({
+      disputeId: mockedStripeDisputeId,
+      saleorTransactionId: getMockedRecordedTransaction().saleorTransactionId,
+      evidenceDueBy: new Date(2025, 1, 15),
+    });
+    expect(mockStripeProblemReporter.clearDisputeEvidenceDue).not.toHaveBeenCalled();
+  });
+
+  it("should clear app problem when dispute is closed", async () => {
+    await processEvent(
+      getMockedChargeDisputeEvent({ type: "charge.dispute.closed", status: "won" }),
+    );
+
+    expect(mockStripeProblemReporter.clearDisputeEvidenceDue).toHaveBeenCalledWith(
+      mockedStripeDisputeId,
+    );
+    expect(mockStripeProblemReporter.reportDisputeEvidenceDue).not.toHaveBeenCalled();
+  });
+
+  it("should not touch app problems for funds movements", async () => {
+    await processEvent(getMockedChargeDisputeEvent({ type: "charge.dispute.funds_withdrawn" }));
+
+    expect(mockStripeProblemReporter.reportDisputeEvidenceDue).not.toHaveBeenCalled();
+    expect(mockStripeProblemReporter.clearDisputeEvidenceDue).not.toHaveBeenCalled();
+  });
+
+  it("should return MalformedEventError if dispute does not contain payment_intent", async () => {
+    const event = getMockedChargeDisputeEvent();
+
+    event.data.object.payment_intent = null;
+
+    const result = await processEvent(event);
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(StripeDisputeHandler.MalformedEventError);
+  });
+
+  it("should return TransactionMissingError if dispute is for PaymentIntent not recorded by the app", async () => {
+    mockTransactionRecorder.reset();
+
+    const result = await processEvent(getMockedChargeDisputeEvent());
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(
+      TransactionRecorderError.TransactionMissingError,
+    );
+  });
+});
@@ -0,0 +1,248 @@
+import { err, ok, type Result } from "neverthrow";
+import type Stripe from "stripe";
+
+import { BaseError } from "@/lib/errors";
+import { createLogger } from "@/lib/logger";
+import { type StripeProblemReporter } from "@/modules/app-problems";
+import { type SaleorApiUrl } from "@/modules/saleor/saleor-api-url";
+import { SaleorMoney } from "@/modules/saleor/saleor-money";
+import { generateDisputeStripeDashboardUrl } from "@/modules/stripe/generate-stripe-dashboard-urls";
+import {
+  createStripeDisputeEventReference,
+  createStripeDisputeId,
+} from "@/modules/stripe/stripe-dispute-id";
+import {
+  createStripeDisputeStatus,
+  isStripeDisputeAwaitingEvidence,
+} from "@/modules/stripe/stripe-dispute-status";
+import { type StripeEnv } from "@/modules/stripe/stripe-env";
+import {
+  createStripePaymentIntentId,
+  type StripePaymentIntentId,
+} from "@/modules/stripe/stripe-payment-intent-id";
+import { createTimestampFromStripeEvent } from "@/modules/stripe/stripe-timestamps";
+import {
+  ChargeBackResult,
+  ChargeBackReversalResult,
+  DisputeInfoResult,
+} from "@/modules/transaction-result/dispute-result";
+import {
+  type TransactionRecorderError,
+  type TransactionRecorderRepo,
+} from "@/modules/transactions-recording/repositories/transaction-recorder-repo";
+
+import { TransactionEventReportVariablesResolver } from "../transaction-event-report-variables-resolver";
+
+export type StripeDisputeHandlerSupportedEvents =
+  | Stripe.ChargeDisputeCreatedEvent
+  | Stripe.ChargeDisputeUpdatedEvent
+  | Stripe.ChargeDisputeClosedEvent
+  | Stripe.ChargeDisputeFundsWithdrawnEvent
+  | Stripe.ChargeDisputeFundsReinstatedEvent;
+
+type PossibleErrors =
+  | InstanceType<
+      | typeof SaleorMoney.ValidationError
+      | typeof StripeDisputeHandler.NotSupportedEventError
+      | typeof StripeDisputeHandler.MalformedEventError
+    >
+  | TransactionRecorderError;
+
+export class StripeDisputeHandler {
+  static NotSupportedEventError = BaseError.subclass("NotSupportedEventError", {
+    props: {
+      _internalName: "StripeDisputeHandler.NotSupportedEventError" as const,
+    },
+  });
+
+  static MalformedEventError = BaseError.subclass("MalformedEventError", {
+    props: {
+      _internalName: "StripeDisputeHandler.MalformedEventError" as const,
+    },
+  });
+
+  private logger = createLogger("StripeDisputeHandler");
+
+  private checkIfEventIsSupported(
+    event: Stripe.Event,
+  ): event is StripeDisputeHandlerSupportedEvents {
+    return (
+      event.type === "charge.dispute.created" ||
+      event.type === "charge.dispute.updated" ||
+      event.type === "charge.dispute.closed" ||
+      event.type === "charge.dispute.funds_withdrawn" ||
+      event.type === "charge.dispute.funds_reinstated"
+    );
+  }
+
+  private resolvePaymentIntentId(dispute: Stripe.Dispute) {
+    const paymentIntentId = dispute.payment_intent;
+
+    if (!paymentIntentId) {
+      return err(
+        new StripeDisputeHandler.MalformedEventError(
+          "Dispute event does not contain payment_intent",
+        ),
+      );
+    }
+
+    if (typeof paymentIntentId !== "string") {
+      return ok(createStripePaymentIntentId(paymentIntentId.id));
+    }
+
+    return ok(createStripePaymentIntentId(paymentIntentId));
+  }
+
+  private async resolveTransactionRecord({
+    transactionRecorder,
+    stripePaymentIntentId,
+    appId,
+    saleorApiUrl,
+  }: {
+    transactionRecorder: TransactionRecorderRepo;
+    stripePaymentIntentId: StripePaymentIntentId;
+    appId: string;
+    saleorApiUrl: SaleorApiUrl;
+  }) {
+    const recordedTransactionResult =
+      await transactionRecorder.getTransactionByStripePaymentIntentId(
+        {
+          appId,
+          saleorApiUrl,
+        },
+        stripePaymentIntentId,
+      );
+
+    if (recordedTransactionResult.isErr()) {
+      return err(recordedTransactionResult.error);
+    }
+
+    return ok(recordedTransactionResult.value);
+  }
+
+  private resolveTransactionResult(event: StripeDisputeHandlerSupportedEvents) {
+    const status = createStripeDisputeStatus(event.data.object.status);
+
+    switch (event.type) {
+      case "charge.dispute.created":
+        return new DisputeInfoResult({ stage: "created", status });
+      case "charge.dispute.updated":
+        return new DisputeInfoResult({ stage: "updated", status });
+      case "charge.dispute.closed":
+        return new DisputeInfoResult({ stage: "closed", status });
+      case "charge.dispute.funds_withdrawn":
+        return new ChargeBackResult();
+      case "charge.dispute.funds_reinstated":
+        return new ChargeBackReversalResult();
+    }
+  }
+
+  /**
+   * Merchant has to respond to the dispute in Stripe Dashboard, so we keep an app problem open until evidence is submitted
+   * or dispute is closed.
+   */
+  private async syncEvidenceDueProblem({
+    dispute,
+    saleorTransactionId,
+    problemReporter,
+  }: {
+    dispute: Stripe.Dispute;
+    saleorTransactionId: string;
+    problemReporter: StripeProblemReporter;
+  }) {
+    const status = createStripeDisputeStatus(dispute.status);
+    const dueBy = dispute.evidence_details?.due_by;
+
+    if (isStripeDisputeAwaitingEvidence(status) && dueBy) {
+      this.logger.info("Dispute requires evidence, reporting app problem", { dueBy });
+
+      return problemReporter.reportDisputeEvidenceDue({
+        disputeId: dispute.id,
+        saleorTransactionId,
+        evidenceDueBy: new Date(dueBy * 1000),
+      });
+    }
+
+    return problemReporter.clearDisputeEvidenceDue(dispute.id);
+  }
+
+  async processDisputeEvent({
+    event,
+    stripeEnv,
+    transactionRecorder,
+    appId,
+    saleorApiUrl,
+    problemReporter,
+  }: {
+    event: Stripe.Event;
+    stripeEnv: StripeEnv;
+    transactionRecorder: TransactionRecorderRepo;
+    appId: string;
+    saleorApiUrl: SaleorApiUrl;
+    problemReporter: StripeProblemReporter;
+  }): Promise<Result<TransactionEventReportVariablesResolver, PossibleErrors>> {
+    if (!this.checkIfEventIsSupported(event)) {
+      return err(new StripeDisputeHandler.NotSupportedEventError("Unsupported event type"));
+    }
+
+    const dispute = event.data.object;
+
+    const stripePaymentIntentIdResult = this.resolvePaymentIntentId(dispute);
+
+    if (stripePaymentIntentIdResult.isErr()) {
+      return err(stripePaymentIntentIdResult.error);
+    }
+
+    const recordedTransactionResult = await this.resolveTransactionRecord({
+      transactionRecorder,
+      stripePaymentIntentId: stripePaymentIntentIdResult.value,
+      appId,
+      saleorApiUrl,
+    });
+
+    if (recordedTransactionResult.isErr()) {
+      return err(recordedTransactionResult.error);
+    }
+
+    const saleorMoneyResult = SaleorMoney.createFromStripe({
+      amount: dispute.amount,
+      currency: dispute.currency,
+    });
+
+    if (saleorMoneyResult.isErr()) {
+      return err(saleorMoneyResult.error);
+    }
+
+    const { saleorTransactionId } = recordedTransactionResult.value;
+    const disputeId = createStripeDisputeId(dispute.id);
+
+    if (
+      event.type === "charge.dispute.created" ||
+      event.type === "charge.dispute.updated" ||
+      event.type === "charge.dispute.closed"
+    ) {
+      await this.syncEvidenceDueProblem({ dispute, saleorTransactionId, problemReporter });
+    }
+
+    const transactionResult = this.resolveTransactionResult(event);
+
+    return ok(
+      new TransactionEventReportVariablesResolver({
+        transactionResult,
+        stripeObjectId:
+          transactionResult instanceof DisputeInfoResult
+            ? createStripeDisputeEventReference({
+                disputeId,
+                stage: transactionResult.stage,
+                status: transactionResult.status,
+              })
+            : disputeId,
+        saleorTransactionId,
+        saleorMoney: saleorMoneyResult.value,
+        timestamp: createTimestampFromStripeEvent(event),
+        externalUrl: generateDisputeStripeDashboardUrl(disputeId, stripeEnv),
+        paymentMethodDetails: null, // payment method is already reported with the original charge
+      }),
+    );
+  }
+}
@@ -296,6 +296,117 @@ describe("StripePaymentIntentHandler", () => {
           expect(saleorPaymentMethodDetailsInput).toBeNull();
         },
       );
+
+      it("should resolve INFO with partial capture reference when authorization was partially captured", async () => {
+        const mockTransactionRecorder = new MockedTransactionRecorder();
+
+        mockTransactionRecorder.transactions = {
+          [mockedStripePaymentIntentId]: getMockedRecordedTransaction({
+            resolvedTransactionFlow: createResolvedTransactionFlow("AUTHORIZATION"),
+          }),
+        };
+
+        const event = getMockedPaymentIntentAmountCapturableUpdatedEvent();
+
+        event.data.object.amount_capturable = 600;
+        event.data.object.amount_received = 400;
+
+        const handler = new StripePaymentIntentHandler();
+        const result = await handler.processPaymentIntentEvent({
+          event,
+          transactionRecorder: mockTransactionRecorder,
+          appId: "appId",
+          saleorApiUrl: mockedSaleorApiUrl,
+          stripeEnv: "LIVE",
+          stripePaymentIntentsApi: mockedStripePaymentIntentsApi,
+        });
+
+        const { type, amount, pspReference, actions, saleorPaymentMethodDetailsInput } = result
+          ._unsafeUnwrap()
+          .resolveEventReportVariables();
+
+        expect(type).toBe("INFO");
+        expect(amount.amount).toStrictEqual(6);
+        expect(pspReference).toStrictEqual(`${mockedStripePaymentIntentId}_capture_400`);
+        expect(actions).toBeNull();
+        expect(saleorPaymentMethodDetailsInput).toBeNull();
+        expect(mockedStripePaymentIntentsApi.getPaymentIntent).not.toHaveBeenCalled();
+      });
+    });
+
+    describe("type: payment_intent.amount_capturable_updated after authorization increment", () => {
+      it("should resolve AUTHORIZATION_ADJUSTMENT with adjustment reference", async () => {
+        const mockTransactionRecorder = new MockedTransactionRecorder();
+
+        mockTransactionRecorder.transactions = {
+          [mockedStripePaymentIntentId]: getMockedRecordedTransaction({
+            resolvedTransactionFlow: createResolvedTransactionFlow("AUTHORIZATION"),
+          }),
+        };
+
+        const event = getMockedPaymentIntentAmountCapturableUpdatedEvent();
+
+        event.data.object.amount = 1500;
+        event.data.object.amount_capturable = 1100;
+        event.data.object.amount_received = 400;
+        event.data.object.metadata = { saleor_authorization_adjusted_amount: "1500" };
+
+        const handler = new StripePaymentIntentHandler();
+        const result = await handler.processPaymentIntentEvent({
+          event,
+          transactionRecorder: mockTransactionRecorder,
+          appId: "appId",
+          saleorApiUrl: mockedSaleorApiUrl,
+          stripeEnv: "LIVE",
+          stripePaymentIntentsApi: mockedStripePaymentIntentsApi,
+        });
+
+        const { type, amount, pspReference, actions } = result
+          ._unsafeUnwrap()
+          .resolveEventReportVariables();
+
+        expect(type).toBe("AUTHORIZATION_ADJUSTMENT");
+        expect(amount.amount).toStrictEqual(11);
+        expect(pspReference).toStrictEqual(`${mockedStripePaymentIntentId}_authorization_1500`);
+        expect(actions).toStrictEqual(["CHARGE", "CANCEL"]);
+        expect(mockedStripePaymentIntentsApi.getPaymentIntent).not.toHaveBeenCalled();
+      });
+
+      it("should not resolve AUTHORIZATION_ADJUSTMENT when adjusted amount is outdated", async () => {
+        const mockTransactionRecorder = new MockedTransactionRecorder();
+
+        mockTransactionRecorder.transactions = {
+          [mockedStripePaymentIntentId]: getMockedRecordedTransaction({
+            resolvedTransactionFlow: createResolvedTransactionFlow("AUTHORIZATION"),
+          }),
+        };
+
+        const event = getMockedPaymentIntentAmountCapturableUpdatedEvent();
+
+        event.data.object.amount = 2000;
+        event.data.object.metadata = { saleor_authorization_adjusted_amount: "1500" };
+
+        vi.spyOn(mockedStripePaymentIntentsApi, "getPaymentIntent").mockImplementationOnce(
+          async () =>
+            ok({
+              payment_method: "pm_1MockedOtherPaymentMethod",
+            }),
+        );
+
+        const handler = new StripePaymentIntentHandler();
+        const result = await handler.processPaymentIntentEvent({
+          event,
+          transactionRecorder: mockTransactionRecorder,
+          appId: "appId",
+          saleorApiUrl: mockedSaleorApiUrl,
+          stripeEnv: "LIVE",
+          stripePaymentIntentsApi: mockedStripePaymentIntentsApi,
+        });
+
+        expect(result._unsafeUnwrap().resolveEventReportVariables().type).toBe(
+          "AUTHORIZATION_SUCCESS",
+        );
+      });
     });
 
     describe("type: payment_intent.payment_failed", () => {
@@ -11,6 +11,11 @@ import { type SaleorMoney } from "@/modules/saleor/saleor-money";
 import { SaleorPaymentMethodDetails } from "@/modules/saleor/saleor-payment-method-details";
 import { generatePaymentIntentStripeDashboardUrl } from "@/modules/stripe/generate-stripe-dashboard-urls";
 import { type StripeEnv } from "@/modules/stripe/stripe-env";
+import {
+  createStripeAuthorizationAdjustmentReference,
+  resolveStripeAdjustedAuthorizationAmount,
+} from "@/modules/stripe/stripe-incremental-authorization";
+import { createStripePartialCaptureReference } from "@/modules/stripe/stripe-partial-capture";
 import {
   createStripePaymentIntentId,
   type StripePaymentIntentId,
@@ -18,12 +23,14 @@ import {
 import { createStripePaymentIntentStatus } from "@/modules/stripe/stripe-payment-intent-status";
 import { createTimestampFromStripeEvent } from "@/modules/stripe/stripe-timestamps";
 import { type IStripePaymentIntentsApi } from "@/modules/stripe/types";
+import { AuthorizationAdjustmentResult } from "@/modules/transaction-result/authorization-adjustment-result";
 import { CancelSuccessResult } from "@/modules/transaction-result/cancel-result";
 import {
   AuthorizationFailureResult,
   ChargeFailureResult,
 } from "@/modules/transaction-result/failure-result";
 import { mapPaymentIntentStatusToTransactionResult } from "@/modules/transaction-result/map-payment-intent-status-to-transaction-result";
+import { PartialCaptureInfoResult } from "@/modules/transaction-result/partial-capture-result";
 import {
   type TransactionRecorderError,
   type TransactionRecorderRepo,
@@ -215,6 +222,58 @@ export class StripePaymentIntentHandler {
 
     const externalUrl = generatePaymentIntentStripeDashboardUrl(stripePaymentIntentId, stripeEnv);
 
+    const isAdjustedAuthorization =
+      event.type === "payment_intent.amount_capturable_updated" &&
+      paymentIntentStatus === "requires_capture" &&
+      resolveStripeAdjustedAuthorizationAmount(event.data.object) === event.data.object.amount;
+
+    /*
+     * Increment of authorization made on ORDER_UPDATED is reported by the app right away. We report the same adjustment
+     * here, so Saleor deduplicates it instead of receiving the increased amount as a new authorization.
+     */
+    if (isAdjustedAuthorization) {
+      return ok(
+        new TransactionEventReportVariablesResolver({
+          saleorMoney,
+          transactionResult: new AuthorizationAdjustmentResult(),
+          timestamp,
+          saleorTransactionId,
+          stripeObjectId: createStripeAuthorizationAdjustmentReference({
+            paymentIntentId: stripePaymentIntentId,
+            amount: event.data.object.amount,
+          }),
+          externalUrl,
+          paymentMethodDetails: null,
+        }),
+      );
+    }
+
+    const isPartiallyCapturedAuthorization =
+      event.type === "payment_intent.amount_capturable_updated" &&
+      paymentIntentStatus === "requires_capture" &&
+      event.data.object.amount_received > 0;
+
+    /*
+     * Non-final capture of multicapture PaymentIntent decreases capturable amount. Captured part was already reported
+     * as CHARGE_SUCCESS in TRANSACTION_CHARGE_REQUESTED response, so we must not report authorization again.
+     */
+    if (isPartiallyCapturedAuthorization) {
+      return ok(
+        new TransactionEventReportVariablesResolver({
+          saleorMoney,
+          transactionResult: new PartialCaptureInfoResult(),
+          timestamp,
+          saleorTransactionId,
+          stripeObjectId: createStripePartialCaptureReference({
+            paymentIntentId: stripePaymentIntentId,
+            amountReceived: event.data.object.amount_received,
+          }),
+          externalUrl,
+          paymentMethodDetails: null,
+        }),
+      );
+    }
+
     const paymentMethodDetails = this.checkIfSaleorSupportsPaymentMethodDetails(saleorSchemaVersion)
       ? await this.getPaymentMethodDetails(stripePaymentIntentsApi, stripePaymentIntentId)
       : null;
@@ -2,17 +2,37 @@ import { type SaleorMoney } from "@/modules/saleor/saleor-money";
 import { type SaleorPaymentMethodDetails } from "@/modules/saleor/saleor-payment-method-details";
 import { type SaleorTransationId } from "@/modules/saleor/saleor-transaction-id";
 import { type TransactionEventReportInput } from "@/modules/saleor/transaction-event-reporter";
+import { type StripeCheckoutSessionId } from "@/modules/stripe/stripe-checkout-session-id";
+import {
+  type StripeDisputeEventReference,
+  type StripeDisputeId,
+} from "@/modules/stripe/stripe-dispute-id";
+import { type StripeAuthorizationAdjustmentReference } from "@/modules/stripe/stripe-incremental-authorization";
+import { type StripePartialCaptureReference } from "@/modules/stripe/stripe-partial-capture";
 import { type StripePaymentIntentId } from "@/modules/stripe/stripe-payment-intent-id";
 import { type StripeRefundId } from "@/modules/stripe/stripe-refund-id";
 import {
   type AuthorizationActionRequiredResult,
   type ChargeActionRequiredResult,
 } from "@/modules/transaction-result/action-required-result";
+import {
+  type AuthorizationAdjustmentRefusedInfoResult,
+  type AuthorizationAdjustmentResult,
+} from "@/modules/transaction-result/authorization-adjustment-result";
 import { type CancelSuccessResult } from "@/modules/transaction-result/cancel-result";
+import {
+  type ChargeBackResult,
+  type ChargeBackReversalResult,
+  type DisputeInfoResult,
+} from "@/modules/transaction-result/dispute-result";
 import {
   type AuthorizationFailureResult,
   type ChargeFailureResult,
 } from "@/modules/transaction-result/failure-result";
+import {
+  type PartialCaptureInfoResult,
+  type PartialCaptureReleasedInfoResult,
+} from "@/modules/transaction-result/partial-capture-result";
 import {
   type RefundFailureResult,
   type RefundRequestResult,
@@ -39,14 +59,28 @@ type WebhookTransactionResult =
   | CancelSuccessResult
   | RefundSuccessResult
   | RefundFailureResult
-  | RefundRequestResult;
+  | RefundRequestResult
+  | DisputeInfoResult
+  | ChargeBackResult
+  | ChargeBackReversalResult
+  | PartialCaptureInfoResult
+  | PartialCaptureReleasedInfoResult
+  | AuthorizationAdjustmentResult
+  | AuthorizationAdjustmentRefusedInfoResult;
 
 export class TransactionEventReportVariablesResolver {
   readonly saleorTransactionId: SaleorTransationId;
   readonly timestamp: Date;
   readonly transactionResult: WebhookTransactionResult;
   readonly saleorMoney: SaleorMoney;
-  readonly stripeObjectId: StripePaymentIntentId | StripeRefundId;
+  readonly stripeObjectId:
+    | StripePaymentIntentId
+    | StripeCheckoutSessionId
+    | StripeRefundId
+    | StripeDisputeId
+    | StripeDisputeEventReference
+    | StripePartialCaptureReference
+    | StripeAuthorizationAdjustmentReference;
   readonly externalUrl: string;
   readonly saleorPaymentMethodDetails: SaleorPaymentMethodDetails | null;
 
@@ -55,7 +89,14 @@ export class TransactionEventReportVariablesResolver {
     timestamp: Date;
     transactionResult: WebhookTransactionResult;
     saleorMoney: SaleorMoney;
-    stripeObjectId: StripePaymentIntentId | StripeRefundId;
+    stripeObjectId:
+      | StripePaymentIntentId
+      | StripeCheckoutSessionId
+      | StripeRefundId
+      | StripeDisputeId
+      | StripeDisputeEventReference
+      | StripePartialCaptureReference
+      | StripeAuthorizationAdjustmentReference;
     externalUrl: string;
     paymentMethodDetails: SaleorPaymentMethodDetails | null;
   }) {
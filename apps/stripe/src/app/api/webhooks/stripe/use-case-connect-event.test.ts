@@ -0,0 +1,146 @@
+import { type APL } from "@saleor/app-sdk/APL";
+import { err, ok } from "neverthrow";
+import type Stripe from "stripe";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { mockedAppConfigRepo } from "@/__tests__/mocks/app-config-repo";
+import { mockAdyenWebhookUrl } from "@/__tests__/mocks/constants";
+import { mockAuthData } from "@/__tests__/mocks/mock-auth-data";
+import { mockedStripeConfig } from "@/__tests__/mocks/mock-stripe-config";
+import { MockedCustomerLinkRepo } from "@/__tests__/mocks/mocked-customer-link-repo";
+import { MockedDeadLetterEventRepo } from "@/__tests__/mocks/mocked-dead-letter-event-repo";
+import { mockedStripePaymentIntentsApi } from "@/__tests__/mocks/mocked-stripe-payment-intents-api";
+import { MockedTransactionRecorder } from "@/__tests__/mocks/mocked-transaction-recorder";
+import { StripeConfig } from "@/modules/app-config/domain/stripe-config";
+import { StripeProblemReporter } from "@/modules/app-problems";
+import { type ITransactionEventReporter } from "@/modules/saleor/transaction-event-reporter";
+import { StripeWebhookManager } from "@/modules/stripe/stripe-webhook-manager";
+import { createStripeWebhookSecret } from "@/modules/stripe/stripe-webhook-secret";
+import {
+  type IStripeEventVerify,
+  type IStripePaymentIntentsApiFactory,
+} from "@/modules/stripe/types";
+
+import { StripeWebhookSuccessResponse } from "./stripe-webhook-responses";
+import { StripeWebhookUseCase } from "./use-case";
+import { WebhookParams } from "./webhook-params";
+
+vi.mock("@saleor/app-problems", () => ({
+  AppProblemsReporter: class {
+    reportProblem() {
+      return Promise.resolve({ isErr: () => false });
+    }
+    clearProblems() {
+      return Promise.resolve({ isErr: () => false });
+    }
+  },
+}));
+
+vi.mock("@/lib/logger", () => ({
+  createLogger: () => ({
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+describe("StripeWebhookUseCase - Stripe Connect events", () => {
+  const mockApl = {
+    get: vi.fn(),
+    set: vi.fn(),
+    delete: vi.fn(),
+    getAll: vi.fn(),
+  } satisfies APL;
+
+  const eventVerify = {
+    verifyEvent: vi.fn(),
+  } satisfies IStripeEventVerify;
+
+  const webhookParams = WebhookParams.createFromWebhookUrl(mockAdyenWebhookUrl)._unsafeUnwrap();
+
+  const mockEventReporter = {
+    reportTransactionEvent: vi.fn(),
+  } satisfies ITransactionEventReporter;
+
+  const stripePaymentIntentsApiFactory = {
+    create: () => mockedStripePaymentIntentsApi,
+  } satisfies IStripePaymentIntentsApiFactory;
+
+  const connectWebhookSecret = createStripeWebhookSecret("whsec_connect")._unsafeUnwrap();
+
+  const configWithConnectWebhook = StripeConfig.create({
+    id: mockedStripeConfig.id,
+    name: mockedStripeConfig.name,
+    publishableKey: mockedStripeConfig.publishableKey,
+    restrictedKey: mockedStripeConfig.restrictedKey,
+    webhookSecret: mockedStripeConfig.webhookSecret,
+    webhookId: mockedStripeConfig.webhookId,
+    connectWebhook: {
+      id: "we_connect",
+      secret: connectWebhookSecret,
+    },
+  })._unsafeUnwrap();
+
+  const accountDeauthorizedEvent = {
+    id: "evt_connect",
+    type: "account.application.deauthorized",
+    account: "acct_vendor",
+    data: { object: {} },
+  } as unknown as Stripe.Event;
+
+  let instance: StripeWebhookUseCase;
+
+  beforeEach(() => {
+    mockApl.get.mockImplementation(async () => mockAuthData);
+
+    instance = new StripeWebhookUseCase({
+      apl: mockApl,
+      appConfigRepo: mockedAppConfigRepo,
+      webhookEventVerifyFactory: () => eventVerify,
+      transactionEventReporterFactory() {
+        return mockEventReporter;
+      },
+      problemReporterFactory: () => new StripeProblemReporter({} as never),
+      transactionRecorder: new MockedTransactionRecorder(),
+      webhookManager: new StripeWebhookManager(),
+      stripePaymentIntentsApiFactory,
+      deadLetterEventRepo: new MockedDeadLetterEventRepo(),
+      customerLinkRepo: new MockedCustomerLinkRepo(),
+    });
+  });
+
+  it("Verifies event with Connect webhook secret if main webhook secret doesn't match", async () => {
+    vi.mocked(mockedAppConfigRepo.getStripeConfig).mockImplementationOnce(async () =>
+      ok(configWithConnectWebhook),
+    );
+    eventVerify.verifyEvent
+      .mockImplementationOnce(() => err(new Error("Signature mismatch")))
+      .mockImplementationOnce(() => ok(accountDeauthorizedEvent));
+
+    const result = await instance.execute({
+      rawBody: "",
+      webhookParams,
+      signatureHeader: "",
+    });
+
+    expect(result._unsafeUnwrap()).toBeInstanceOf(StripeWebhookSuccessResponse);
+    expect(eventVerify.verifyEvent).toHaveBeenLastCalledWith(
+      expect.objectContaining({ webhookSecret: connectWebhookSecret }),
+    );
+    expect(mockEventReporter.reportTransactionEvent).not.toHaveBeenCalled();
+  });
+
+  it("Doesn't retry verification if config has no Connect webhook", async () => {
+    eventVerify.verifyEvent.mockImplementationOnce(() => err(new Error("Signature mismatch")));
+
+    const result = await instance.execute({
+      rawBody: "",
+      webhookParams,
+      signatureHeader: "",
+    });
+
+    expect(result.isErr()).toBe(true);
+    expect(eventVerify.verifyEvent).toHaveBeenCalledOnce();
+  });
+});
@@ -10,16 +10,20 @@ import {
   mockedSaleorTransactionId,
 } from "@/__tests__/mocks/constants";
 import { mockAuthData } from "@/__tests__/mocks/mock-auth-data";
+import { MockedCustomerLinkRepo } from "@/__tests__/mocks/mocked-customer-link-repo";
+import { MockedDeadLetterEventRepo } from "@/__tests__/mocks/mocked-dead-letter-event-repo";
 import { mockedStripePaymentIntentId } from "@/__tests__/mocks/mocked-stripe-payment-intent-id";
 import { mockedStripePaymentIntentsApi } from "@/__tests__/mocks/mocked-stripe-payment-intents-api";
 import { MockedTransactionRecorder } from "@/__tests__/mocks/mocked-transaction-recorder";
 import { getMockedPaymentIntentSucceededEvent } from "@/__tests__/mocks/stripe-events/mocked-payment-intent-succeeded";
 import { BaseError } from "@/lib/errors";
 import { StripeProblemReporter } from "@/modules/app-problems";
+import { DeadLetterEventRepoError } from "@/modules/dead-letter-events/repositories/dead-letter-event-repo";
 import { createResolvedTransactionFlow } from "@/modules/resolved-transaction-flow";
 import { createSaleorTransactionFlow } from "@/modules/saleor/saleor-transaction-flow";
 import {
   type ITransactionEventReporter,
+  TransactionEventReporterErrors,
   type TransactionEventReportResultResult,
 } from "@/modules/saleor/transaction-event-reporter";
 import { createStripePaymentIntentId } from "@/modules/stripe/stripe-payment-intent-id";
@@ -31,6 +35,10 @@ import {
 } from "@/modules/stripe/types";
 import { RecordedTransaction } from "@/modules/transactions-recording/domain/recorded-transaction";
 
+import {
+  StripeWebhookSeverErrorResponse,
+  StripeWebhookTransactionMissingResponse,
+} from "./stripe-webhook-responses";
 import { StripeWebhookUseCase } from "./use-case";
 import { WebhookParams } from "./webhook-params";
 
@@ -78,6 +86,8 @@ describe("StripeWebhookUseCase - Error cases", () => {
 
   const mockTransactionRecorder = new MockedTransactionRecorder();
 
+  const mockDeadLetterEventRepo = new MockedDeadLetterEventRepo();
+
   const stripePaymentIntentsApiFactory = {
     create: () => mockedStripePaymentIntentsApi,
   } satisfies IStripePaymentIntentsApiFactory;
@@ -85,6 +95,7 @@ describe("StripeWebhookUseCase - Error cases", () => {
   beforeEach(() => {
     mockApl.get.mockImplementation(async () => mockAuthData);
     mockTransactionRecorder.reset();
+    mockDeadLetterEventRepo.reset();
 
     instance = new StripeWebhookUseCase({
       apl: mockApl,
@@ -97,6 +108,8 @@ describe("StripeWebhookUseCase - Error cases", () => {
       transactionRecorder: mockTransactionRecorder,
       webhookManager: new StripeWebhookManager(),
       stripePaymentIntentsApiFactory,
+      deadLetterEventRepo: mockDeadLetterEventRepo,
+      customerLinkRepo: new MockedCustomerLinkRepo(),
     });
   });
 
@@ -421,4 +434,179 @@ describe("StripeWebhookUseCase - Error cases", () => {
       }
     `);
   });
+
+  describe("Dead letter events", () => {
+    const recordPaymentIntentTransaction = () => {
+      mockTransactionRecorder.transactions = {
+        [mockedStripePaymentIntentId]: new RecordedTransaction({
+          saleorTransactionId: mockedSaleorTransactionId,
+          stripePaymentIntentId: mockedStripePaymentIntentId,
+          saleorTransactionFlow: createSaleorTransactionFlow("CHARGE"),
+          resolvedTransactionFlow: createResolvedTransactionFlow("CHARGE"),
+          selectedPaymentMethod: "card",
+          saleorSchemaVersion: mockedSaleorSchemaVersionSupportingPaymentMethodDetails,
+        }),
+      };
+
+      vi.spyOn(mockedStripePaymentIntentsApi, "getPaymentIntent").mockImplementationOnce(async () =>
+        ok({ payment_method: null }),
+      );
+    };
+
+    it("Saves verified event that failed processing with error and attempt count", async () => {
+      const event = getMockedPaymentIntentSucceededEvent();
+
+      eventVerify.verifyEvent.mockImplementationOnce(() => ok(event));
+
+      recordPaymentIntentTransaction();
+
+      mockEventReporter.reportTransactionEvent.mockImplementationOnce(async () =>
+        err(new TransactionEventReporterErrors.GraphqlError("Saleor is down")),
+      );
+
+      await instance.execute({
+        rawBody: rawEventBody,
+        signatureHeader: "test-signature",
+        webhookParams: webhookParams,
+      });
+
+      const deadLetterEvent = mockDeadLetterEventRepo.events[event.id];
+
+      expect(deadLetterEvent).toStrictEqual(
+        expect.objectContaining({
+          stripeEventId: "evt_event-id",
+          stripeEventType: "payment_intent.succeeded",
+          configurationId: webhookParams.configurationId,
+          errorMessage: expect.stringContaining("Saleor is down"),
+          attemptCount: 1,
+        }),
+      );
+      expect(deadLetterEvent.getStripeEvent()).toStrictEqual(event);
+    });
+
+    it("Increments attempt count when the same event fails again", async () => {
+      eventVerify.verifyEvent.mockImplementation(() => ok(getMockedPaymentIntentSucceededEvent()));
+
+      mockEventReporter.reportTransactionEvent.mockImplementation(async () =>
+        err(new TransactionEventReporterErrors.GraphqlError("Saleor is down")),
+      );
+
+      recordPaymentIntentTransaction();
+
+      await instance.execute({
+        rawBody: rawEventBody,
+        signatureHeader: "test-signature",
+        webhookParams: webhookParams,
+      });
+
+      recordPaymentIntentTransaction();
+
+      await instance.execute({
+        rawBody: rawEventBody,
+        signatureHeader: "test-signature",
+        webhookParams: webhookParams,
+      });
+
+      expect(mockDeadLetterEventRepo.events["evt_event-id"].attemptCount).toBe(2);
+    });
+
+    it("Saves event when reporting transaction event to Saleor fails", async () => {
+      eventVerify.verifyEvent.mockImplementationOnce(() =>
+        ok(getMockedPaymentIntentSucceededEvent()),
+      );
+
+      recordPaymentIntentTransaction();
+
+      mockEventReporter.reportTransactionEvent.mockImplementationOnce(async () =>
+        err(new TransactionEventReporterErrors.GraphqlError("Saleor is down")),
+      );
+
+      const result = await instance.execute({
+        rawBody: rawEventBody,
+        signatureHeader: "test-signature",
+        webhookParams: webhookParams,
+      });
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(StripeWebhookSeverErrorResponse);
+      expect(mockDeadLetterEventRepo.events["evt_event-id"].errorMessage).toContain(
+        "Saleor is down",
+      );
+    });
+
+    it("Doesn't save event already reported to Saleor", async () => {
+      eventVerify.verifyEvent.mockImplementationOnce(() =>
+        ok(getMockedPaymentIntentSucceededEvent()),
+      );
+
+      recordPaymentIntentTransaction();
+
+      mockEventReporter.reportTransactionEvent.mockImplementationOnce(async () =>
+        err(new TransactionEventReporterErrors.AlreadyReportedError("Already reported")),
+      );
+
+      const result = await instance.execute({
+        rawBody: rawEventBody,
+        signatureHeader: "test-signature",
+        webhookParams: webhookParams,
+      });
+
+      expect(result.isOk()).toBe(true);
+      expect(mockDeadLetterEventRepo.events).toStrictEqual({});
+    });
+
+    it("Doesn't save event of object created outside of Saleor", async () => {
+      const event = getMockedPaymentIntentSucceededEvent();
+
+      event.data.object.metadata = {};
+
+      eventVerify.verifyEvent.mockImplementationOnce(() => ok(event));
+
+      await instance.execute({
+        rawBody: rawEventBody,
+        signatureHeader: "test-signature",
+        webhookParams: webhookParams,
+      });
+
+      expect(mockDeadLetterEventRepo.events).toStrictEqual({});
+    });
+
+    it("Doesn't save event of transaction not recorded yet, as it's resolved by Stripe retry", async () => {
+      eventVerify.verifyEvent.mockImplementationOnce(() =>
+        ok(getMockedPaymentIntentSucceededEvent()),
+      );
+
+      const result = await instance.execute({
+        rawBody: rawEventBody,
+        signatureHeader: "test-signature",
+        webhookParams: webhookParams,
+      });
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(StripeWebhookTransactionMissingResponse);
+      expect(mockDeadLetterEventRepo.events).toStrictEqual({});
+    });
+
+    it("Responds to Stripe even if dead letter event can't be saved", async () => {
+      eventVerify.verifyEvent.mockImplementationOnce(() =>
+        ok(getMockedPaymentIntentSucceededEvent()),
+      );
+
+      recordPaymentIntentTransaction();
+
+      mockEventReporter.reportTransactionEvent.mockImplementationOnce(async () =>
+        err(new TransactionEventReporterErrors.GraphqlError("Saleor is down")),
+      );
+
+      vi.spyOn(mockDeadLetterEventRepo, "saveEvent").mockImplementationOnce(async () =>
+        err(new DeadLetterEventRepoError.FailedWritingEventError("DynamoDB error")),
+      );
+
+      const result = await instance.execute({
+        rawBody: rawEventBody,
+        signatureHeader: "test-signature",
+        webhookParams: webhookParams,
+      });
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(StripeWebhookSeverErrorResponse);
+    });
+  });
 });
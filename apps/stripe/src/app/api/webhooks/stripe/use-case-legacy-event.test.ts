@@ -6,6 +6,8 @@ import { mockedAppConfigRepo } from "@/__tests__/mocks/app-config-repo";
 import { mockAdyenWebhookUrl } from "@/__tests__/mocks/constants";
 import { mockAuthData } from "@/__tests__/mocks/mock-auth-data";
 import { mockedStripeConfig } from "@/__tests__/mocks/mock-stripe-config";
+import { MockedCustomerLinkRepo } from "@/__tests__/mocks/mocked-customer-link-repo";
+import { MockedDeadLetterEventRepo } from "@/__tests__/mocks/mocked-dead-letter-event-repo";
 import { mockedStripePaymentIntentsApi } from "@/__tests__/mocks/mocked-stripe-payment-intents-api";
 import { MockedTransactionRecorder } from "@/__tests__/mocks/mocked-transaction-recorder";
 import { BaseError } from "@/lib/errors";
@@ -90,6 +92,8 @@ describe("StripeWebhookUseCase - Legacy event cases", () => {
       transactionRecorder: mockTransactionRecorder,
       webhookManager,
       stripePaymentIntentsApiFactory,
+      deadLetterEventRepo: new MockedDeadLetterEventRepo(),
+      customerLinkRepo: new MockedCustomerLinkRepo(),
     });
   });
 
@@ -10,6 +10,10 @@ import {
   mockedSaleorTransactionId,
 } from "@/__tests__/mocks/constants";
 import { mockAuthData } from "@/__tests__/mocks/mock-auth-data";
+import { MockedCustomerLinkRepo } from "@/__tests__/mocks/mocked-customer-link-repo";
+import { MockedDeadLetterEventRepo } from "@/__tests__/mocks/mocked-dead-letter-event-repo";
+import { mockedStripeCheckoutSessionId } from "@/__tests__/mocks/mocked-stripe-checkout-session-id";
+import { mockedStripeCustomerId } from "@/__tests__/mocks/mocked-stripe-customer-id";
 import { mockedStripePaymentIntentId } from "@/__tests__/mocks/mocked-stripe-payment-intent-id";
 import { mockedStripePaymentIntentsApi } from "@/__tests__/mocks/mocked-stripe-payment-intents-api";
 import {
@@ -17,7 +21,12 @@ import {
   mockedStripeOtherPaymentMethod,
 } from "@/__tests__/mocks/mocked-stripe-payment-method";
 import { MockedTransactionRecorder } from "@/__tests__/mocks/mocked-transaction-recorder";
+import { getMockedChargeDisputeEvent } from "@/__tests__/mocks/stripe-events/mocked-charge-dispute";
 import { getMockedChargeRefundUpdatedEvent } from "@/__tests__/mocks/stripe-events/mocked-charge-refund-updated";
+import {
+  getMockedCheckoutSessionCompletedEvent,
+  getMockedCheckoutSessionExpiredEvent,
+} from "@/__tests__/mocks/stripe-events/mocked-checkout-session";
 import { getMockedPaymentIntentAmountCapturableUpdatedEvent } from "@/__tests__/mocks/stripe-events/mocked-payment-intent-amount-capturable-updated";
 import { getMockedPaymentIntentPaymentCanceledEvent } from "@/__tests__/mocks/stripe-events/mocked-payment-intent-canceled";
 import { getMockedPaymentIntentPaymentFailedEvent } from "@/__tests__/mocks/stripe-events/mocked-payment-intent-failed";
@@ -25,6 +34,7 @@ import { getMockedPaymentIntentProcessingEvent } from "@/__tests__/mocks/stripe-
 import { getMockedPaymentIntentRequiresActionEvent } from "@/__tests__/mocks/stripe-events/mocked-payment-intent-requires-action";
 import { getMockedPaymentIntentSucceededEvent } from "@/__tests__/mocks/stripe-events/mocked-payment-intent-succeeded";
 import { StripeProblemReporter } from "@/modules/app-problems";
+import { LinkedStripeCustomer } from "@/modules/customers-linking/domain/linked-stripe-customer";
 import { createResolvedTransactionFlow } from "@/modules/resolved-transaction-flow";
 import { createSaleorTransactionFlow } from "@/modules/saleor/saleor-transaction-flow";
 import {
@@ -39,6 +49,10 @@ import {
 } from "@/modules/stripe/types";
 import { RecordedTransaction } from "@/modules/transactions-recording/domain/recorded-transaction";
 
+import {
+  ObjectCreatedOutsideOfSaleorResponse,
+  StripeWebhookSuccessResponse,
+} from "./stripe-webhook-responses";
 import { StripeWebhookUseCase } from "./use-case";
 import { WebhookParams } from "./webhook-params";
 
@@ -83,6 +97,8 @@ let instance: StripeWebhookUseCase;
 
 const mockTransactionRecorder = new MockedTransactionRecorder();
 
+const mockCustomerLinkRepo = new MockedCustomerLinkRepo();
+
 const stripePaymentIntentsApiFactory = {
   create: () => mockedStripePaymentIntentsApi,
 } satisfies IStripePaymentIntentsApiFactory;
@@ -91,6 +107,7 @@ describe("StripeWebhookUseCase - handling payment_intent.success event", () => {
   beforeEach(() => {
     mockApl.get.mockImplementation(async () => mockAuthData);
     mockTransactionRecorder.reset();
+    mockCustomerLinkRepo.reset();
 
     instance = new StripeWebhookUseCase({
       apl: mockApl,
@@ -103,6 +120,8 @@ describe("StripeWebhookUseCase - handling payment_intent.success event", () => {
       transactionRecorder: mockTransactionRecorder,
       webhookManager: new StripeWebhookManager(),
       stripePaymentIntentsApiFactory,
+      deadLetterEventRepo: new MockedDeadLetterEventRepo(),
+      customerLinkRepo: mockCustomerLinkRepo,
     });
 
     vi.spyOn(mockedStripePaymentIntentsApi, "getPaymentIntent").mockImplementationOnce(async () =>
@@ -265,6 +284,55 @@ describe("StripeWebhookUseCase - handling payment_intent.success event", () => {
     `,
     );
   });
+
+  it("Marks Stripe Customer linked to Saleor user as charged", async () => {
+    const event = getMockedPaymentIntentSucceededEvent();
+    const stripePiId = createStripePaymentIntentId(event.data.object.id);
+
+    event.data.object.metadata = {
+      ...event.data.object.metadata,
+      saleor_user_id: "user-id",
+    };
+
+    eventVerify.verifyEvent.mockImplementationOnce(() => ok(event));
+
+    mockTransactionRecorder.transactions = {
+      [stripePiId]: new RecordedTransaction({
+        saleorTransactionId: mockedSaleorTransactionId,
+        stripePaymentIntentId: stripePiId,
+        saleorTransactionFlow: createSaleorTransactionFlow("CHARGE"),
+        resolvedTransactionFlow: createResolvedTransactionFlow("CHARGE"),
+        selectedPaymentMethod: "card",
+        saleorSchemaVersion: mockedSaleorSchemaVersionSupportingPaymentMethodDetails,
+      }),
+    };
+
+    await mockCustomerLinkRepo.saveLinkedCustomer(
+      { saleorApiUrl: webhookParams.saleorApiUrl, appId: mockAuthData.appId },
+      new LinkedStripeCustomer({
+        saleorUserId: "user-id",
+        configurationId: webhookParams.configurationId,
+        stripeCustomerId: mockedStripeCustomerId,
+      }),
+    );
+
+    mockEventReporter.reportTransactionEvent.mockImplementationOnce(async () =>
+      ok({ createdEventId: "TEST_EVENT_ID" }),
+    );
+
+    await instance.execute({
+      rawBody: "TEST BODY",
+      signatureHeader: "SIGNATURE",
+      webhookParams: webhookParams,
+    });
+
+    const linkedCustomer = await mockCustomerLinkRepo.getLinkedCustomer(
+      { saleorApiUrl: webhookParams.saleorApiUrl, appId: mockAuthData.appId },
+      { saleorUserId: "user-id", configurationId: webhookParams.configurationId },
+    );
+
+    expect(linkedCustomer._unsafeUnwrap()?.hasCompletedCharge).toBe(true);
+  });
 });
 
 describe("StripeWebhookUseCase - handling payment_intent.amount_capturable_updated event", () => {
@@ -288,6 +356,8 @@ describe("StripeWebhookUseCase - handling payment_intent.amount_capturable_updat
       transactionRecorder: mockTransactionRecorder,
       webhookManager: new StripeWebhookManager(),
       stripePaymentIntentsApiFactory,
+      deadLetterEventRepo: new MockedDeadLetterEventRepo(),
+      customerLinkRepo: new MockedCustomerLinkRepo(),
     });
   });
 
@@ -389,6 +459,8 @@ describe("StripeWebhookUseCase - handling payment_intent.payment_failed event",
       transactionRecorder: mockTransactionRecorder,
       webhookManager: new StripeWebhookManager(),
       stripePaymentIntentsApiFactory,
+      deadLetterEventRepo: new MockedDeadLetterEventRepo(),
+      customerLinkRepo: new MockedCustomerLinkRepo(),
     });
   });
 
@@ -552,6 +624,8 @@ describe("StripeWebhookUseCase - handling payment_intent.processing event", () =
       transactionRecorder: mockTransactionRecorder,
       webhookManager: new StripeWebhookManager(),
       stripePaymentIntentsApiFactory,
+      deadLetterEventRepo: new MockedDeadLetterEventRepo(),
+      customerLinkRepo: new MockedCustomerLinkRepo(),
     });
   });
 
@@ -719,6 +793,8 @@ describe("StripeWebhookUseCase - handling payment_intent.requires_action event",
       transactionRecorder: mockTransactionRecorder,
       webhookManager: new StripeWebhookManager(),
       stripePaymentIntentsApiFactory,
+      deadLetterEventRepo: new MockedDeadLetterEventRepo(),
+      customerLinkRepo: new MockedCustomerLinkRepo(),
     });
   });
 
@@ -898,6 +974,8 @@ describe("StripeWebhookUseCase - handling payment_intent.canceled event", () =>
       transactionRecorder: mockTransactionRecorder,
       webhookManager: new StripeWebhookManager(),
       stripePaymentIntentsApiFactory,
+      deadLetterEventRepo: new MockedDeadLetterEventRepo(),
+      customerLinkRepo: new MockedCustomerLinkRepo(),
     });
   });
 
@@ -1052,6 +1130,8 @@ describe("StripeWebhookUseCase - handling charge.refund.updated event", () => {
       transactionRecorder: mockTransactionRecorder,
       webhookManager: new StripeWebhookManager(),
       stripePaymentIntentsApiFactory,
+      deadLetterEventRepo: new MockedDeadLetterEventRepo(),
+      customerLinkRepo: new MockedCustomerLinkRepo(),
     });
   });
 
@@ -1278,6 +1358,8 @@ describe("StripeWebhookUseCase - handling events without metadata created by Sal
       transactionRecorder: mockTransactionRecorder,
       webhookManager: new StripeWebhookManager(),
       stripePaymentIntentsApiFactory,
+      deadLetterEventRepo: new MockedDeadLetterEventRepo(),
+      customerLinkRepo: new MockedCustomerLinkRepo(),
     });
   });
 
@@ -1304,6 +1386,23 @@ describe("StripeWebhookUseCase - handling events without metadata created by Sal
     expect(mockEventReporter.reportTransactionEvent).not.toHaveBeenCalled();
   });
 
+  it("Returns 400 to Stripe if metadata is missing for checkout.session.completed event", async () => {
+    const event = getMockedCheckoutSessionCompletedEvent();
+
+    event.data.object.metadata = {};
+
+    eventVerify.verifyEvent.mockImplementationOnce(() => ok(event));
+
+    const result = await instance.execute({
+      rawBody: "TEST BODY",
+      signatureHeader: "SIGNATURE",
+      webhookParams: webhookParams,
+    });
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(ObjectCreatedOutsideOfSaleorResponse);
+    expect(mockEventReporter.reportTransactionEvent).not.toHaveBeenCalled();
+  });
+
   it("Returns 400 to Stripe if metadata is missing for charge.refund.updated event", async () => {
     const event = getMockedChargeRefundUpdatedEvent();
 
@@ -1327,3 +1426,166 @@ describe("StripeWebhookUseCase - handling events without metadata created by Sal
     expect(mockEventReporter.reportTransactionEvent).not.toHaveBeenCalled();
   });
 });
+
+describe("StripeWebhookUseCase - handling checkout.session.* events", () => {
+  beforeEach(() => {
+    mockApl.get.mockImplementation(async () => mockAuthData);
+    mockTransactionRecorder.reset();
+
+    instance = new StripeWebhookUseCase({
+      apl: mockApl,
+      appConfigRepo: mockedAppConfigRepo,
+      webhookEventVerifyFactory: () => eventVerify,
+      transactionEventReporterFactory() {
+        return mockEventReporter;
+      },
+      problemReporterFactory: () => new StripeProblemReporter({} as never),
+      transactionRecorder: mockTransactionRecorder,
+      webhookManager: new StripeWebhookManager(),
+      stripePaymentIntentsApiFactory,
+      deadLetterEventRepo: new MockedDeadLetterEventRepo(),
+      customerLinkRepo: new MockedCustomerLinkRepo(),
+    });
+
+    mockEventReporter.reportTransactionEvent.mockImplementation(async () =>
+      ok({ createdEventId: "TEST_EVENT_ID" }),
+    );
+  });
+
+  it("Records transaction and reports CHARGE_SUCCESS when Checkout Session is completed", async () => {
+    eventVerify.verifyEvent.mockImplementationOnce(() =>
+      ok(getMockedCheckoutSessionCompletedEvent()),
+    );
+    vi.spyOn(mockedStripePaymentIntentsApi, "getPaymentIntent").mockImplementationOnce(async () =>
+      ok({
+        id: mockedStripePaymentIntentId,
+        amount: 10000,
+        amount_received: 10000,
+        amount_capturable: 0,
+        currency: "usd",
+        status: "succeeded",
+        metadata: {},
+        payment_method: mockedStripeCardPaymentMethod,
+        payment_method_types: ["card"],
+      }),
+    );
+
+    const result = await instance.execute({
+      rawBody: "TEST BODY",
+      signatureHeader: "SIGNATURE",
+      webhookParams: webhookParams,
+    });
+
+    expect(result._unsafeUnwrap()).toBeInstanceOf(StripeWebhookSuccessResponse);
+    expect(mockTransactionRecorder.transactions[mockedStripePaymentIntentId]).toBeDefined();
+    expect(mockEventReporter.reportTransactionEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        transactionId: mockedSaleorTransactionId,
+        type: "CHARGE_SUCCESS",
+        pspReference: mockedStripePaymentIntentId,
+      }),
+    );
+  });
+
+  it("Reports CHARGE_FAILURE when Checkout Session expires", async () => {
+    eventVerify.verifyEvent.mockImplementationOnce(() =>
+      ok(getMockedCheckoutSessionExpiredEvent()),
+    );
+
+    const result = await instance.execute({
+      rawBody: "TEST BODY",
+      signatureHeader: "SIGNATURE",
+      webhookParams: webhookParams,
+    });
+
+    expect(result._unsafeUnwrap()).toBeInstanceOf(StripeWebhookSuccessResponse);
+    expect(mockEventReporter.reportTransactionEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        transactionId: mockedSaleorTransactionId,
+        type: "CHARGE_FAILURE",
+        pspReference: mockedStripeCheckoutSessionId,
+      }),
+    );
+  });
+});
+
+describe("StripeWebhookUseCase - handling charge.dispute.* events", () => {
+  beforeEach(() => {
+    mockApl.get.mockImplementation(async () => mockAuthData);
+    mockTransactionRecorder.reset();
+
+    instance = new StripeWebhookUseCase({
+      apl: mockApl,
+      appConfigRepo: mockedAppConfigRepo,
+      webhookEventVerifyFactory: () => eventVerify,
+      transactionEventReporterFactory() {
+        return mockEventReporter;
+      },
+      problemReporterFactory: () => new StripeProblemReporter({} as never),
+      transactionRecorder: mockTransactionRecorder,
+      webhookManager: new StripeWebhookManager(),
+      stripePaymentIntentsApiFactory,
+      deadLetterEventRepo: new MockedDeadLetterEventRepo(),
+      customerLinkRepo: new MockedCustomerLinkRepo(),
+    });
+  });
+
+  it("Reports CHARGE_BACK transaction event when dispute funds are withdrawn", async () => {
+    const event = getMockedChargeDisputeEvent({ type: "charge.dispute.funds_withdrawn" });
+
+    eventVerify.verifyEvent.mockImplementationOnce(() => ok(event));
+
+    mockTransactionRecorder.transactions = {
+      [mockedStripePaymentIntentId]: new RecordedTransaction({
+        saleorTransactionId: mockedSaleorTransactionId,
+        stripePaymentIntentId: mockedStripePaymentIntentId,
+        saleorTransactionFlow: createSaleorTransactionFlow("CHARGE"),
+        resolvedTransactionFlow: createResolvedTransactionFlow("CHARGE"),
+        selectedPaymentMethod: "card",
+        saleorSchemaVersion: mockedSaleorSchemaVersionSupportingPaymentMethodDetails,
+      }),
+    };
+
+    mockEventReporter.reportTransactionEvent.mockImplementationOnce(async () => {
+      const data: TransactionEventReportResultResult = {
+        createdEventId: "TEST_EVENT_ID",
+      };
+
+      return ok(data);
+    });
+
+    const result = await instance.execute({
+      rawBody: "TEST BODY",
+      signatureHeader: "SIGNATURE",
+      webhookParams: webhookParams,
+    });
+
+    expect(result._unsafeUnwrap()).toBeInstanceOf(StripeWebhookSuccessResponse);
+
+    expect(mockEventReporter.reportTransactionEvent).toHaveBeenCalledOnce();
+    expect(vi.mocked(mockEventReporter.reportTransactionEvent).mock.calls[0][0]).toStrictEqual({
+      actions: null,
+      amount: expect.objectContaining({ amount: 10, currency: "USD" }),
+      externalUrl: "https://dashboard.stripe.com/disputes/dp_TEST_TEST_TEST",
+      message: "Funds were withdrawn due to a dispute",
+      pspReference: "dp_TEST_TEST_TEST",
+      saleorPaymentMethodDetailsInput: null,
+      time: new Date(event.created * 1000).toISOString(),
+      transactionId: mockedSaleorTransactionId,
+      type: "CHARGE_BACK",
+    });
+  });
+
+  it("Returns ObjectCreatedOutsideOfSaleor response when dispute is for PaymentIntent not recorded by the app", async () => {
+    eventVerify.verifyEvent.mockImplementationOnce(() => ok(getMockedChargeDisputeEvent()));
+
+    const result = await instance.execute({
+      rawBody: "TEST BODY",
+      signatureHeader: "SIGNATURE",
+      webhookParams: webhookParams,
+    });
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(ObjectCreatedOutsideOfSaleorResponse);
+    expect(mockEventReporter.reportTransactionEvent).not.toHaveBeenCalled();
+  });
+});
@@ -1,5 +1,4 @@
 import { type APL, type AuthData } from "@saleor/app-sdk/APL";
-import { ObservabilityAttributes } from "@saleor/apps-otel/src/observability-attributes";
 import { captureException } from "@sentry/nextjs";
 import { err, ok, type Result } from "neverthrow";
 import { after } from "next/server";
@@ -8,16 +7,20 @@ import type Stripe from "stripe";
 import { appContextContainer } from "@/lib/app-context";
 import { BaseError } from "@/lib/errors";
 import { createLogger } from "@/lib/logger";
-import { loggerContext } from "@/lib/logger-context";
+import { type StripeConfig } from "@/modules/app-config/domain/stripe-config";
 import { type AppConfigRepo } from "@/modules/app-config/repositories/app-config-repo";
 import { type StripeProblemReporter } from "@/modules/app-problems";
-import { type SaleorApiUrl } from "@/modules/saleor/saleor-api-url";
 import {
-  type ITransactionEventReporter,
-  TransactionEventReporterErrors,
-} from "@/modules/saleor/transaction-event-reporter";
+  type CustomerLinkRepo,
+  type CustomerLinkRepoAccess,
+} from "@/modules/customers-linking/repositories/customer-link-repo";
+import { DeadLetterStripeEvent } from "@/modules/dead-letter-events/domain/dead-letter-stripe-event";
+import {
+  type DeadLetterEventRepo,
+  type DeadLetterEventRepoAccess,
+} from "@/modules/dead-letter-events/repositories/dead-letter-event-repo";
+import { type ITransactionEventReporter } from "@/modules/saleor/transaction-event-reporter";
 import { StripeClient } from "@/modules/stripe/stripe-client";
-import { type StripeEnv } from "@/modules/stripe/stripe-env";
 import { type StripeRestrictedKey } from "@/modules/stripe/stripe-restricted-key";
 import { type StripeWebhookManager } from "@/modules/stripe/stripe-webhook-manager";
 import {
@@ -30,8 +33,7 @@ import {
   type TransactionRecorderRepo,
 } from "@/modules/transactions-recording/repositories/transaction-recorder-repo";
 
-import { StripePaymentIntentHandler } from "./stripe-object-handlers/stripe-payment-intent-handler";
-import { StripeRefundHandler } from "./stripe-object-handlers/stripe-refund-handler";
+import { StripeEventProcessor } from "./stripe-event-processor";
 import {
   ObjectCreatedOutsideOfSaleorResponse,
   type PossibleStripeWebhookErrorResponses,
@@ -52,18 +54,17 @@ type StripeVerifyEventFactory = (stripeClient: StripeClient) => IStripeEventVeri
 type SaleorTransactionEventReporterFactory = (authData: AuthData) => ITransactionEventReporter;
 type ProblemReporterFactory = (authData: AuthData) => StripeProblemReporter;
 
-const ObjectMetadataMissingError = BaseError.subclass("ObjectMetadataMissingError");
-
 export class StripeWebhookUseCase {
   private appConfigRepo: AppConfigRepo;
   private webhookEventVerifyFactory: StripeVerifyEventFactory;
   private apl: APL;
   private logger = createLogger("StripeWebhookUseCase");
-  private transactionRecorder: TransactionRecorderRepo;
   private transactionEventReporterFactory: SaleorTransactionEventReporterFactory;
   private problemReporterFactory: ProblemReporterFactory;
   private webhookManager: StripeWebhookManager;
-  private stripePaymentIntentsApiFactory: IStripePaymentIntentsApiFactory;
+  private eventProcessor: StripeEventProcessor;
+  private deadLetterEventRepo: DeadLetterEventRepo;
+  private customerLinkRepo: CustomerLinkRepo;
 
   constructor(deps: {
     appConfigRepo: AppConfigRepo;
@@ -74,143 +75,180 @@ export class StripeWebhookUseCase {
     problemReporterFactory: ProblemReporterFactory;
     webhookManager: StripeWebhookManager;
     stripePaymentIntentsApiFactory: IStripePaymentIntentsApiFactory;
+    deadLetterEventRepo: DeadLetterEventRepo;
+    customerLinkRepo: CustomerLinkRepo;
   }) {
     this.appConfigRepo = deps.appConfigRepo;
     this.webhookEventVerifyFactory = deps.webhookEventVerifyFactory;
     this.apl = deps.apl;
-    this.transactionRecorder = deps.transactionRecorder;
     this.transactionEventReporterFactory = deps.transactionEventReporterFactory;
     this.problemReporterFactory = deps.problemReporterFactory;
     this.webhookManager = deps.webhookManager;
-    this.stripePaymentIntentsApiFactory = deps.stripePaymentIntentsApiFactory;
+    this.eventProcessor = new StripeEventProcessor({
+      transactionRecorder: deps.transactionRecorder,
+      stripePaymentIntentsApiFactory: deps.stripePaymentIntentsApiFactory,
+    });
+    this.deadLetterEventRepo = deps.deadLetterEventRepo;
+    this.customerLinkRepo = deps.customerLinkRepo;
   }
 
-  private async removeStripeWebhook({
-    webhookId,
-    restrictedKey,
+  /**
+   * Buyer history used by fraud rules. Failing to store it must not change response to Stripe - transaction is
+   * already reported to Saleor.
+   */
+  private async markCustomerChargedIfLinked({
+    event,
+    configurationId,
+    access,
   }: {
-    webhookId: string;
-    restrictedKey: StripeRestrictedKey;
+    event: Stripe.Event;
+    configurationId: string;
+    access: CustomerLinkRepoAccess;
   }) {
-    const result = await this.webhookManager.removeWebhook({ webhookId, restrictedKey });
+    if (event.type !== "payment_intent.succeeded") {
+      return;
+    }
 
-    if (result.isErr()) {
-      this.logger.warn(`Failed to remove webhook ${webhookId}`, result.error);
+    const saleorUserId = (event.data.object.metadata as AllowedStripeObjectMetadata).saleor_user_id;
 
-      return err(new BaseError("Failed to remove webhook", { cause: result.error }));
+    if (!saleorUserId) {
+      return;
     }
 
-    this.logger.info(`Webhook ${webhookId} removed successfully`);
+    const markResult = await this.customerLinkRepo.markCustomerCharged(access, {
+      saleorUserId,
+      configurationId,
+    });
 
-    return ok(null);
+    if (markResult.isErr()) {
+      captureException(markResult.error);
+      this.logger.warn("Failed to mark Stripe Customer as charged", {
+        error: markResult.error,
+      });
+    }
   }
 
-  private async processEvent({
+  /**
+   * Failed event is kept, so admin can replay it when Stripe stops retrying. Failing to store it must not change
+   * response to Stripe - Stripe retries will still happen.
+   */
+  private async recordDeadLetterEvent({
     event,
-    saleorApiUrl,
-    appId,
-    stripeEnv,
-    restrictedKey,
+    configurationId,
+    access,
+    error,
   }: {
     event: Stripe.Event;
-    saleorApiUrl: SaleorApiUrl;
-    appId: string;
-    stripeEnv: StripeEnv;
-    restrictedKey: StripeRestrictedKey;
+    configurationId: string;
+    access: DeadLetterEventRepoAccess;
+    error: unknown;
   }) {
-    switch (event.data.object.object) {
-      case "payment_intent": {
-        loggerContext.set(ObservabilityAttributes.PSP_REFERENCE, event.data.object.id);
-
-        const meta = event.data.object.metadata as AllowedStripeObjectMetadata;
-
-        if (!meta?.saleor_transaction_id) {
-          return err(
-            new ObjectMetadataMissingError(
-              "Missing metadata on object, it was not created by Saleor",
-              {
-                props: {
-                  meta,
-                },
-              },
-            ),
-          );
-        }
-
-        if (meta.saleor_app_id && meta.saleor_app_id !== appId) {
-          return err(
-            new ObjectMetadataMissingError(
-              "PaymentIntent belongs to a different Saleor installation",
-              {
-                props: {
-                  meta,
-                  expectedAppId: appId,
-                },
-              },
-            ),
-          );
-        }
-
-        const handler = new StripePaymentIntentHandler();
-
-        const stripePaymentIntentsApi = this.stripePaymentIntentsApiFactory.create({
-          key: restrictedKey,
-        });
+    const existingEventResult = await this.deadLetterEventRepo.getEvent(access, event.id);
 
-        return handler.processPaymentIntentEvent({
-          event,
-          stripeEnv,
-          transactionRecorder: this.transactionRecorder,
-          appId,
-          saleorApiUrl,
-          stripePaymentIntentsApi,
-        });
-      }
+    if (existingEventResult.isErr()) {
+      this.logger.error("Failed to fetch dead letter event", {
+        error: existingEventResult.error,
+      });
 
-      case "refund": {
-        loggerContext.set("stripeRefundId", event.data.object.id);
-
-        const meta = event.data.object.metadata as AllowedStripeObjectMetadata;
-
-        if (!meta?.saleor_transaction_id) {
-          return err(
-            new ObjectMetadataMissingError(
-              "Missing metadata on object, it was not created by Saleor",
-              {
-                props: {
-                  meta,
-                },
-              },
-            ),
-          );
-        }
-
-        if (meta.saleor_app_id && meta.saleor_app_id !== appId) {
-          return err(
-            new ObjectMetadataMissingError("Refund belongs to a different Saleor installation", {
-              props: {
-                meta,
-                expectedAppId: appId,
-              },
-            }),
-          );
-        }
-
-        const handler = new StripeRefundHandler();
-
-        return handler.processRefundEvent({
-          event,
-          stripeEnv,
-          transactionRecorder: this.transactionRecorder,
-          appId,
-          saleorApiUrl,
-        });
-      }
+      return;
+    }
+
+    const deadLetterEvent = existingEventResult.value
+      ? existingEventResult.value.withFailedAttempt(error)
+      : DeadLetterStripeEvent.createFromFailedStripeEvent({ event, configurationId, error });
+
+    const saveResult = await this.deadLetterEventRepo.saveEvent(access, deadLetterEvent);
+
+    if (saveResult.isErr()) {
+      this.logger.error("Failed to save dead letter event", {
+        error: saveResult.error,
+      });
+
+      return;
+    }
+
+    this.logger.info("Failed event saved as dead letter event", {
+      attemptCount: deadLetterEvent.attemptCount,
+    });
+  }
+
+  /**
+   * Config can have multiple webhooks with the same URL - main one, one for connected accounts (Stripe Connect) and,
+   * shortly after credentials rotation, the previous main one. Event is verified with each of their secrets
+   */
+  private verifyEvent({
+    eventVerifier,
+    config,
+    rawBody,
+    signatureHeader,
+  }: {
+    eventVerifier: IStripeEventVerify;
+    config: StripeConfig;
+    rawBody: string;
+    signatureHeader: string;
+  }) {
+    const [currentWebhookSecret, ...otherWebhookSecrets] =
+      config.getWebhookSecretsForVerification();
+
+    let event = eventVerifier.verifyEvent({
+      rawBody,
+      webhookSecret: currentWebhookSecret,
+      signatureHeader,
+    });
 
-      default: {
-        throw new BaseError(`Support for object ${event.data.object.object} not implemented`);
+    for (const webhookSecret of otherWebhookSecrets) {
+      if (event.isOk()) {
+        break;
       }
+
+      event = eventVerifier.verifyEvent({
+        rawBody,
+        webhookSecret,
+        signatureHeader,
+      });
+    }
+
+    return event;
+  }
+
+  /**
+   * Payments are destination charges created on the platform account, so events of connected accounts never change
+   * Saleor transactions. They are only logged, so merchant can see the account lifecycle
+   */
+  private processConnectedAccountEvent(event: Stripe.Event) {
+    if (event.type === "account.application.deauthorized") {
+      this.logger.warn(
+        "Connected account disconnected from the platform, payments with it as destination will fail",
+        { account: event.account },
+      );
+    } else {
+      this.logger.info("Received connected account event", {
+        account: event.account,
+        eventType: event.type,
+      });
+    }
+
+    return ok(new StripeWebhookSuccessResponse());
+  }
+
+  private async removeStripeWebhook({
+    webhookId,
+    restrictedKey,
+  }: {
+    webhookId: string;
+    restrictedKey: StripeRestrictedKey;
+  }) {
+    const result = await this.webhookManager.removeWebhook({ webhookId, restrictedKey });
+
+    if (result.isErr()) {
+      this.logger.warn(`Failed to remove webhook ${webhookId}`, result.error);
+
+      return err(new BaseError("Failed to remove webhook", { cause: result.error }));
     }
+
+    this.logger.info(`Webhook ${webhookId} removed successfully`);
+
+    return ok(null);
   }
 
   /**
@@ -350,9 +388,10 @@ export class StripeWebhookUseCase {
     const stripeClient = StripeClient.createFromRestrictedKey(config.value.restrictedKey);
     const eventVerifier = this.webhookEventVerifyFactory(stripeClient);
 
-    const event = eventVerifier.verifyEvent({
+    const event = this.verifyEvent({
+      eventVerifier,
+      config: config.value,
       rawBody,
-      webhookSecret: config.value.webhookSecret,
       signatureHeader,
     });
 
@@ -374,19 +413,25 @@ export class StripeWebhookUseCase {
 
     this.logger.debug(`Resolved event type: ${event.value.type}`);
 
-    const processingResult = await this.processEvent({
+    if (event.value.account) {
+      return this.processConnectedAccountEvent(event.value);
+    }
+
+    const processingResult = await this.eventProcessor.processAndReportEvent({
       event: event.value,
       saleorApiUrl: webhookParams.saleorApiUrl,
       appId: authData.appId,
       stripeEnv: config.value.getStripeEnvValue(),
       restrictedKey: config.value.restrictedKey,
+      problemReporter,
+      transactionEventReporter,
     });
 
     if (processingResult.isErr()) {
       /**
        * This is technically not an error, so we catch it here without the error log.
        */
-      if (processingResult.error instanceof ObjectMetadataMissingError) {
+      if (processingResult.error instanceof StripeEventProcessor.ObjectMetadataMissingError) {
         return err(new ObjectCreatedOutsideOfSaleorResponse());
       }
 
@@ -394,39 +439,29 @@ export class StripeWebhookUseCase {
         error: processingResult.error,
       });
 
+      /**
+       * Stripe can send event before transaction is recorded (e.g. before TransactionInitializeSession responded),
+       * so it is resolved by Stripe retry and doesn't need replaying.
+       */
       if (processingResult.error instanceof TransactionRecorderError.TransactionMissingError) {
         return err(new StripeWebhookTransactionMissingResponse());
       }
 
-      return err(new StripeWebhookSeverErrorResponse());
-    }
-
-    loggerContext.set(
-      ObservabilityAttributes.TRANSACTION_ID,
-      processingResult.value.saleorTransactionId,
-    );
-    loggerContext.set("amount", processingResult.value.saleorMoney.amount);
-    loggerContext.set("result", processingResult.value.transactionResult.result);
-
-    const reportResult = await transactionEventReporter.reportTransactionEvent(
-      processingResult.value.resolveEventReportVariables(),
-    );
-
-    if (reportResult.isErr()) {
-      if (reportResult.error instanceof TransactionEventReporterErrors.AlreadyReportedError) {
-        this.logger.info("Transaction event already reported");
-
-        return ok(new StripeWebhookSuccessResponse());
-      }
-
-      this.logger.error("Failed to report transaction event", {
-        error: reportResult.error,
+      await this.recordDeadLetterEvent({
+        event: event.value,
+        configurationId: webhookParams.configurationId,
+        access: { saleorApiUrl: webhookParams.saleorApiUrl, appId: authData.appId },
+        error: processingResult.error,
       });
 
       return err(new StripeWebhookSeverErrorResponse());
     }
 
-    this.logger.info("Transaction event reported");
+    await this.markCustomerChargedIfLinked({
+      event: event.value,
+      configurationId: webhookParams.configurationId,
+      access: { saleorApiUrl: webhookParams.saleorApiUrl, appId: authData.appId },
+    });
 
     return ok(new StripeWebhookSuccessResponse());
   }
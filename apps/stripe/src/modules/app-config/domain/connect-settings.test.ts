@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+
+import { ConnectSettings } from "./connect-settings";
+
+describe("ConnectSettings", () => {
+  const getSettings = (applicationFeePercent: number) =>
+    ConnectSettings.create({
+      destinationSource: "PRODUCT_METADATA",
+      destinationMetadataKey: "vendor_account",
+      applicationFeePercent,
+    })._unsafeUnwrap();
+
+  describe("create", () => {
+    it("Creates settings from fields", () => {
+      expect(getSettings(12.5).getFields()).toStrictEqual({
+        destinationSource: "PRODUCT_METADATA",
+        destinationMetadataKey: "vendor_account",
+        applicationFeePercent: 12.5,
+      });
+    });
+
+    it.each([-1, 101])(
+      "Returns ValidationError if application fee percent is out of range: %s",
+      (applicationFeePercent) => {
+        const result = ConnectSettings.create({
+          destinationSource: "CHANNEL_METADATA",
+          destinationMetadataKey: "vendor_account",
+          applicationFeePercent,
+        });
+
+        expect(result._unsafeUnwrapErr()).toBeInstanceOf(ConnectSettings.ValidationError);
+      },
+    );
+
+    it("Returns ValidationError if destination metadata key is empty", () => {
+      const result = ConnectSettings.create({
+        destinationSource: "CHANNEL_METADATA",
+        destinationMetadataKey: "",
+        applicationFeePercent: 0,
+      });
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(ConnectSettings.ValidationError);
+    });
+  });
+
+  describe("calculateApplicationFeeAmount", () => {
+    it("Calculates fee in minor units, rounded to integer", () => {
+      expect(getSettings(10).calculateApplicationFeeAmount(10_000)).toBe(1_000);
+      expect(getSettings(2.9).calculateApplicationFeeAmount(1_999)).toBe(58);
+    });
+
+    it("Returns null if platform takes no fee", () => {
+      expect(getSettings(0).calculateApplicationFeeAmount(10_000)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { err, ok, type Result } from "neverthrow";
+import { z } from "zod";
+
+import { BaseError } from "@/lib/errors";
+
+export const connectDestinationSources = ["CHANNEL_METADATA", "PRODUCT_METADATA"] as const;
+
+export const ConnectSettingsFieldsSchema = z.object({
+  /**
+   * Where connected account id (`acct_...`) is read from:
+   * - CHANNEL_METADATA - channel public metadata, e.g. channel per vendor
+   * - PRODUCT_METADATA - public metadata of products in lines, all lines must point to the same account
+   */
+  destinationSource: z.enum(connectDestinationSources),
+  destinationMetadataKey: z.string().min(1).max(100),
+  /**
+   * Percent of the transaction amount kept by the platform as `application_fee_amount`
+   */
+  applicationFeePercent: z.number().min(0).max(100),
+});
+
+export type ConnectSettingsFields = z.infer<typeof ConnectSettingsFieldsSchema>;
+
+/**
+ * Stripe Connect marketplace mode - payments are created as destination charges, split between the platform and
+ * connected account.
+ */
+export class ConnectSettings {
+  readonly destinationSource: ConnectSettingsFields["destinationSource"];
+  readonly destinationMetadataKey: string;
+  readonly applicationFeePercent: number;
+
+  static ValidationError = BaseError.subclass("ValidationError", {
+    props: {
+      _internalName: "ConnectSettings.ValidationError" as const,
+    },
+  });
+
+  private constructor(fields: ConnectSettingsFields) {
+    this.destinationSource = fields.destinationSource;
+    this.destinationMetadataKey = fields.destinationMetadataKey;
+    this.applicationFeePercent = fields.applicationFeePercent;
+  }
+
+  static create(
+    fields: ConnectSettingsFields,
+  ): Result<ConnectSettings, InstanceType<typeof ConnectSettings.ValidationError>> {
+    const parsingResult = ConnectSettingsFieldsSchema.safeParse(fields);
+
+    if (!parsingResult.success) {
+      return err(
+        new ConnectSettings.ValidationError("Invalid Stripe Connect settings", {
+          cause: parsingResult.error,
+        }),
+      );
+    }
+
+    return ok(new ConnectSettings(parsingResult.data));
+  }
+
+  /**
+   * Amount in Stripe format (minor units). Returns null if platform takes no fee
+   */
+  calculateApplicationFeeAmount(stripeAmount: number): number | null {
+    if (this.applicationFeePercent === 0) {
+      return null;
+    }
+
+    return Math.round((stripeAmount * this.applicationFeePercent) / 100);
+  }
+
+  getFields(): ConnectSettingsFields {
+    return {
+      destinationSource: this.destinationSource,
+      destinationMetadataKey: this.destinationMetadataKey,
+      applicationFeePercent: this.applicationFeePercent,
+    };
+  }
+}
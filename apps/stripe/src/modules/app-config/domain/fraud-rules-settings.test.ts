@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+
+import { FraudRulesSettings } from "./fraud-rules-settings";
+
+describe("FraudRulesSettings", () => {
+  describe("create", () => {
+    it("Creates settings from fields, normalizing email domains", () => {
+      const settings = FraudRulesSettings.create({
+        blockedEmailDomains: [" Mailinator.com", "mailinator.com", "temp-mail.org"],
+        blockCountryMismatch: true,
+        firstTimeBuyerAmountLimit: 500,
+      })._unsafeUnwrap();
+
+      expect(settings.getFields()).toStrictEqual({
+        blockedEmailDomains: ["mailinator.com", "temp-mail.org"],
+        blockCountryMismatch: true,
+        firstTimeBuyerAmountLimit: 500,
+      });
+    });
+
+    it.each(["mailinator", "@mailinator.com", "user@mailinator.com", "-mail.com", ""])(
+      "Returns ValidationError if email domain is invalid: %s",
+      (domain) => {
+        const result = FraudRulesSettings.create({
+          blockedEmailDomains: [domain],
+          blockCountryMismatch: false,
+          firstTimeBuyerAmountLimit: null,
+        });
+
+        expect(result._unsafeUnwrapErr()).toBeInstanceOf(FraudRulesSettings.ValidationError);
+      },
+    );
+
+    it.each([0, -10])(
+      "Returns ValidationError if first-time buyer amount limit is not positive: %s",
+      (limit) => {
+        const result = FraudRulesSettings.create({
+          blockedEmailDomains: [],
+          blockCountryMismatch: false,
+          firstTimeBuyerAmountLimit: limit,
+        });
+
+        expect(result._unsafeUnwrapErr()).toBeInstanceOf(FraudRulesSettings.ValidationError);
+      },
+    );
+  });
+
+  describe("createDefault", () => {
+    it("Disables all rules", () => {
+      const settings = FraudRulesSettings.createDefault();
+
+      expect(settings.getFields()).toStrictEqual({
+        blockedEmailDomains: [],
+        blockCountryMismatch: false,
+        firstTimeBuyerAmountLimit: null,
+      });
+      expect(settings.hasEnabledRules()).toBe(false);
+    });
+  });
+
+  describe("hasEnabledRules", () => {
+    it.each([
+      { blockedEmailDomains: ["mailinator.com"], blockCountryMismatch: false, limit: null },
+      { blockedEmailDomains: [], blockCountryMismatch: true, limit: null },
+      { blockedEmailDomains: [], blockCountryMismatch: false, limit: 100 },
+    ])(
+      "Returns true if any rule is enabled: %o",
+      ({ blockedEmailDomains, blockCountryMismatch, limit }) => {
+        const settings = FraudRulesSettings.create({
+          blockedEmailDomains,
+          blockCountryMismatch,
+          firstTimeBuyerAmountLimit: limit,
+        })._unsafeUnwrap();
+
+        expect(settings.hasEnabledRules()).toBe(true);
+      },
+    );
+  });
+});
@@ -0,0 +1,98 @@
+import { err, ok, type Result } from "neverthrow";
+import { z } from "zod";
+
+import { BaseError } from "@/lib/errors";
+
+const MAX_BLOCKED_EMAIL_DOMAINS = 200;
+
+const EmailDomainSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^(?!-)[a-z0-9-]+(\.[a-z0-9-]+)+$/, "Invalid email domain");
+
+export const FraudRulesSettingsFieldsSchema = z.object({
+  /**
+   * Buyers with email in one of these domains (e.g. disposable email providers) are blocked. Subdomains are not matched
+   */
+  blockedEmailDomains: z.array(EmailDomainSchema).max(MAX_BLOCKED_EMAIL_DOMAINS),
+  /**
+   * Blocks payment if billing and shipping address are in different countries. Skipped if any address is missing
+   */
+  blockCountryMismatch: z.boolean(),
+  /**
+   * Highest amount first-time buyer can pay, in transaction currency. Null disables the rule
+   */
+  firstTimeBuyerAmountLimit: z.number().positive().nullable(),
+});
+
+export type FraudRulesSettingsFields = z.infer<typeof FraudRulesSettingsFieldsSchema>;
+
+/**
+ * Fraud screening rules evaluated before PaymentIntent is created. Every rule is opt-in.
+ */
+export class FraudRulesSettings {
+  readonly blockedEmailDomains: string[];
+  readonly blockCountryMismatch: boolean;
+  readonly firstTimeBuyerAmountLimit: number | null;
+
+  static ValidationError = BaseError.subclass("ValidationError", {
+    props: {
+      _internalName: "FraudRulesSettings.ValidationError" as const,
+    },
+  });
+
+  private constructor(fields: FraudRulesSettingsFields) {
+    this.blockedEmailDomains = fields.blockedEmailDomains;
+    this.blockCountryMismatch = fields.blockCountryMismatch;
+    this.firstTimeBuyerAmountLimit = fields.firstTimeBuyerAmountLimit;
+  }
+
+  static create(
+    fields: FraudRulesSettingsFields,
+  ): Result<FraudRulesSettings, InstanceType<typeof FraudRulesSettings.ValidationError>> {
+    const parsingResult = FraudRulesSettingsFieldsSchema.safeParse(fields);
+
+    if (!parsingResult.success) {
+      return err(
+        new FraudRulesSettings.ValidationError("Invalid fraud rules settings", {
+          cause: parsingResult.error,
+        }),
+      );
+    }
+
+    return ok(
+      new FraudRulesSettings({
+        ...parsingResult.data,
+        blockedEmailDomains: Array.from(new Set(parsingResult.data.blockedEmailDomains)),
+      }),
+    );
+  }
+
+  /**
+   * No rules - behavior of configs created before settings existed
+   */
+  static createDefault() {
+    return new FraudRulesSettings({
+      blockedEmailDomains: [],
+      blockCountryMismatch: false,
+      firstTimeBuyerAmountLimit: null,
+    });
+  }
+
+  hasEnabledRules() {
+    return (
+      this.blockedEmailDomains.length > 0 ||
+      this.blockCountryMismatch ||
+      this.firstTimeBuyerAmountLimit !== null
+    );
+  }
+
+  getFields(): FraudRulesSettingsFields {
+    return {
+      blockedEmailDomains: this.blockedEmailDomains,
+      blockCountryMismatch: this.blockCountryMismatch,
+      firstTimeBuyerAmountLimit: this.firstTimeBuyerAmountLimit,
+    };
+  }
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+
+import { PaymentIntentDataSettings } from "./payment-intent-data-settings";
+
+describe("PaymentIntentDataSettings", () => {
+  const getSettings = (statementDescriptorSuffixTemplate: string | null) =>
+    PaymentIntentDataSettings.create({
+      sendShippingAddress: true,
+      sendReceiptEmail: true,
+      statementDescriptorSuffixTemplate,
+      sendCardLineItems: true,
+    })._unsafeUnwrap();
+
+  describe("create", () => {
+    it("Creates settings from fields", () => {
+      expect(getSettings("ORDER {order_number}").getFields()).toStrictEqual({
+        sendShippingAddress: true,
+        sendReceiptEmail: true,
+        statementDescriptorSuffixTemplate: "ORDER {order_number}",
+        sendCardLineItems: true,
+      });
+    });
+
+    it.each(["<ORDER>", "ORDER*", "O'RDER", 'ORDER"', "ORDER\\"])(
+      "Returns ValidationError if statement descriptor suffix template contains forbidden characters: %s",
+      (template) => {
+        const result = PaymentIntentDataSettings.create({
+          sendShippingAddress: false,
+          sendReceiptEmail: false,
+          statementDescriptorSuffixTemplate: template,
+          sendCardLineItems: false,
+        });
+
+        expect(result._unsafeUnwrapErr()).toBeInstanceOf(PaymentIntentDataSettings.ValidationError);
+      },
+    );
+
+    it("Returns ValidationError if statement descriptor suffix template is empty", () => {
+      const result = PaymentIntentDataSettings.create({
+        sendShippingAddress: false,
+        sendReceiptEmail: false,
+        statementDescriptorSuffixTemplate: "",
+        sendCardLineItems: false,
+      });
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(PaymentIntentDataSettings.ValidationError);
+    });
+  });
+
+  describe("createDefault", () => {
+    it("Disables all optional data", () => {
+      expect(PaymentIntentDataSettings.createDefault().getFields()).toStrictEqual({
+        sendShippingAddress: false,
+        sendReceiptEmail: false,
+        statementDescriptorSuffixTemplate: null,
+        sendCardLineItems: false,
+      });
+    });
+  });
+
+  describe("renderStatementDescriptorSuffix", () => {
+    it("Replaces template variables", () => {
+      expect(
+        getSettings("{channel_slug} #{order_number}").renderStatementDescriptorSuffix({
+          orderNumber: "1234",
+          channelSlug: "eu",
+        }),
+      ).toBe("eu #1234");
+    });
+
+    it("Truncates suffix to 22 characters and strips non-Latin characters", () => {
+      expect(
+        getSettings("Zamówienie {order_number} {channel_slug}").renderStatementDescriptorSuffix({
+          orderNumber: "1234",
+          channelSlug: "default-channel",
+        }),
+      ).toBe("Zamwienie 1234 default");
+    });
+
+    it("Returns null if template renders to empty value", () => {
+      expect(
+        getSettings("{order_number}").renderStatementDescriptorSuffix({
+          orderNumber: null,
+          channelSlug: "eu",
+        }),
+      ).toBeNull();
+    });
+
+    it("Returns null if template is not set", () => {
+      expect(
+        getSettings(null).renderStatementDescriptorSuffix({
+          orderNumber: "1234",
+          channelSlug: "eu",
+        }),
+      ).toBeNull();
+    });
+  });
+});
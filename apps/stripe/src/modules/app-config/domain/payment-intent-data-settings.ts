@@ -0,0 +1,142 @@
+import { err, ok, type Result } from "neverthrow";
+import { z } from "zod";
+
+import { BaseError } from "@/lib/errors";
+
+/**
+ * Stripe limits dynamic suffix, combined with the account prefix, to 22 characters
+ */
+const STATEMENT_DESCRIPTOR_SUFFIX_MAX_LENGTH = 22;
+
+/**
+ * Characters Stripe rejects in statement descriptors
+ */
+const STATEMENT_DESCRIPTOR_FORBIDDEN_CHARACTERS = /[<>\\'"*]/;
+
+/**
+ * Variables that can be used in statement descriptor suffix template
+ */
+export const statementDescriptorSuffixTemplateVariables = [
+  "{order_number}",
+  "{channel_slug}",
+] as const;
+
+export const PaymentIntentDataSettingsFieldsSchema = z.object({
+  /**
+   * Sends shipping address of the checkout/order, so Radar can use it for fraud evaluation
+   */
+  sendShippingAddress: z.boolean(),
+  /**
+   * Sends buyer email as `receipt_email` - Stripe emails receipt after successful payment
+   */
+  sendReceiptEmail: z.boolean(),
+  /**
+   * Template of dynamic `statement_descriptor_suffix`, e.g. "ORDER {order_number}". Null disables the suffix
+   */
+  statementDescriptorSuffixTemplate: z.string().min(1).max(64).nullable(),
+  /**
+   * Sends card line items, tax and shipping amounts (Level 2/3 data), lowering interchange fees of B2B cards.
+   * Requires Level 2/3 to be enabled on Stripe account
+   */
+  sendCardLineItems: z.boolean(),
+});
+
+export type PaymentIntentDataSettingsFields = z.infer<typeof PaymentIntentDataSettingsFieldsSchema>;
+
+/**
+ * Controls optional data sent to Stripe when PaymentIntent is created. Every option is opt-in.
+ */
+export class PaymentIntentDataSettings {
+  readonly sendShippingAddress: boolean;
+  readonly sendReceiptEmail: boolean;
+  readonly statementDescriptorSuffixTemplate: string | null;
+  readonly sendCardLineItems: boolean;
+
+  static ValidationError = BaseError.subclass("ValidationError", {
+    props: {
+      _internalName: "PaymentIntentDataSettings.ValidationError" as const,
+    },
+  });
+
+  private constructor(fields: PaymentIntentDataSettingsFields) {
+    this.sendShippingAddress = fields.sendShippingAddress;
+    this.sendReceiptEmail = fields.sendReceiptEmail;
+    this.statementDescriptorSuffixTemplate = fields.statementDescriptorSuffixTemplate;
+    this.sendCardLineItems = fields.sendCardLineItems;
+  }
+
+  static create(
+    fields: PaymentIntentDataSettingsFields,
+  ): Result<
+    PaymentIntentDataSettings,
+    InstanceType<typeof PaymentIntentDataSettings.ValidationError>
+  > {
+    const parsingResult = PaymentIntentDataSettingsFieldsSchema.safeParse(fields);
+
+    if (!parsingResult.success) {
+      return err(
+        new PaymentIntentDataSettings.ValidationError("Invalid payment intent data settings", {
+          cause: parsingResult.error,
+        }),
+      );
+    }
+
+    const template = parsingResult.data.statementDescriptorSuffixTemplate;
+
+    if (template && STATEMENT_DESCRIPTOR_FORBIDDEN_CHARACTERS.test(template)) {
+      return err(
+        new PaymentIntentDataSettings.ValidationError(
+          "Statement descriptor suffix can't contain any of characters: < > \\ ' \" *",
+        ),
+      );
+    }
+
+    return ok(new PaymentIntentDataSettings(parsingResult.data));
+  }
+
+  /**
+   * Nothing is sent - behavior of configs created before settings existed
+   */
+  static createDefault() {
+    return new PaymentIntentDataSettings({
+      sendShippingAddress: false,
+      sendReceiptEmail: false,
+      statementDescriptorSuffixTemplate: null,
+      sendCardLineItems: false,
+    });
+  }
+
+  /**
+   * Returns null if template is not set or renders to empty value (e.g. order number of checkout)
+   */
+  renderStatementDescriptorSuffix(variables: {
+    orderNumber: string | null;
+    channelSlug: string;
+  }): string | null {
+    if (!this.statementDescriptorSuffixTemplate) {
+      return null;
+    }
+
+    const rendered = this.statementDescriptorSuffixTemplate
+      .replaceAll("{order_number}", variables.orderNumber ?? "")
+      .replaceAll("{channel_slug}", variables.channelSlug)
+      .replace(new RegExp(STATEMENT_DESCRIPTOR_FORBIDDEN_CHARACTERS, "g"), "")
+      // Stripe accepts only Latin characters
+      .replace(/[^\x20-\x7E]/g, "")
+      .replace(/\s+/g, " ")
+      .trim()
+      .slice(0, STATEMENT_DESCRIPTOR_SUFFIX_MAX_LENGTH)
+      .trim();
+
+    return rendered.length > 0 ? rendered : null;
+  }
+
+  getFields(): PaymentIntentDataSettingsFields {
+    return {
+      sendShippingAddress: this.sendShippingAddress,
+      sendReceiptEmail: this.sendReceiptEmail,
+      statementDescriptorSuffixTemplate: this.statementDescriptorSuffixTemplate,
+      sendCardLineItems: this.sendCardLineItems,
+    };
+  }
+}
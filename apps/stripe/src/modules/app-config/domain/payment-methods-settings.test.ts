@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+
+import { createSaleorTransactionFlow } from "@/modules/saleor/saleor-transaction-flow";
+import { supportedPaymentMethodTypes } from "@/modules/stripe/payment-methods/supported-payment-method-type";
+
+import { PaymentMethodsSettings } from "./payment-methods-settings";
+
+describe("PaymentMethodsSettings", () => {
+  describe("create", () => {
+    it("Creates settings with allowed payment methods and transaction flow overrides", () => {
+      const settings = PaymentMethodsSettings.create({
+        allowedPaymentMethods: ["card", "klarna"],
+        transactionFlowOverrides: { card: "AUTHORIZATION", klarna: "CHARGE" },
+      })._unsafeUnwrap();
+
+      expect(settings.getFields()).toStrictEqual({
+        allowedPaymentMethods: ["card", "klarna"],
+        transactionFlowOverrides: { card: "AUTHORIZATION", klarna: "CHARGE" },
+      });
+    });
+
+    it("Returns ValidationError if allow-list is empty", () => {
+      const result = PaymentMethodsSettings.create({
+        allowedPaymentMethods: [],
+        transactionFlowOverrides: {},
+      });
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(PaymentMethodsSettings.ValidationError);
+    });
+
+    it("Returns ValidationError if allow-list contains unsupported payment method", () => {
+      const result = PaymentMethodsSettings.create({
+        // @ts-expect-error - testing invalid input
+        allowedPaymentMethods: ["card", "cash"],
+        transactionFlowOverrides: {},
+      });
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(PaymentMethodsSettings.ValidationError);
+    });
+
+    it("Returns ValidationError if transaction flow is overridden for payment method that is not allowed", () => {
+      const result = PaymentMethodsSettings.create({
+        allowedPaymentMethods: ["card"],
+        transactionFlowOverrides: { klarna: "CHARGE" },
+      });
+
+      expect(result._unsafeUnwrapErr()).toMatchInlineSnapshot(
+        `[ValidationError: Transaction flow can't be overridden for payment method "klarna" that is not allowed]`,
+      );
+    });
+  });
+
+  describe("isPaymentMethodAllowed", () => {
+    it("Allows every payment method if allow-list is not set", () => {
+      const settings = PaymentMethodsSettings.createDefault();
+
+      supportedPaymentMethodTypes.forEach((paymentMethodType) => {
+        expect(settings.isPaymentMethodAllowed(paymentMethodType)).toBe(true);
+      });
+    });
+
+    it("Allows only payment methods from allow-list", () => {
+      const settings = PaymentMethodsSettings.create({
+        allowedPaymentMethods: ["card", "ideal"],
+        transactionFlowOverrides: {},
+      })._unsafeUnwrap();
+
+      expect(settings.isPaymentMethodAllowed("card")).toBe(true);
+      expect(settings.isPaymentMethodAllowed("ideal")).toBe(true);
+      expect(settings.isPaymentMethodAllowed("klarna")).toBe(false);
+    });
+  });
+
+  describe("getEffectiveAllowedPaymentMethods", () => {
+    it("Returns all supported payment methods if allow-list is not set", () => {
+      expect(
+        PaymentMethodsSettings.createDefault().getEffectiveAllowedPaymentMethods(),
+      ).toStrictEqual([...supportedPaymentMethodTypes]);
+    });
+
+    it("Returns allow-list if it is set", () => {
+      const settings = PaymentMethodsSettings.create({
+        allowedPaymentMethods: ["paypal"],
+        transactionFlowOverrides: {},
+      })._unsafeUnwrap();
+
+      expect(settings.getEffectiveAllowedPaymentMethods()).toStrictEqual(["paypal"]);
+    });
+  });
+
+  describe("resolveSaleorTransactionFlow", () => {
+    const settings = PaymentMethodsSettings.create({
+      allowedPaymentMethods: null,
+      transactionFlowOverrides: { klarna: "CHARGE", card: "AUTHORIZATION" },
+    })._unsafeUnwrap();
+
+    it.each([
+      { paymentMethod: "klarna" as const, saleorFlow: "AUTHORIZATION", expected: "CHARGE" },
+      { paymentMethod: "card" as const, saleorFlow: "CHARGE", expected: "AUTHORIZATION" },
+      { paymentMethod: "paypal" as const, saleorFlow: "AUTHORIZATION", expected: "AUTHORIZATION" },
+      { paymentMethod: "paypal" as const, saleorFlow: "CHARGE", expected: "CHARGE" },
+    ])(
+      "Resolves $expected for $paymentMethod when Saleor sends $saleorFlow",
+      ({ paymentMethod, saleorFlow, expected }) => {
+        expect(
+          settings.resolveSaleorTransactionFlow(
+            paymentMethod,
+            createSaleorTransactionFlow(saleorFlow),
+          ),
+        ).toBe(expected);
+      },
+    );
+  });
+});
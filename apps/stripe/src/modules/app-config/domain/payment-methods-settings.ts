@@ -0,0 +1,118 @@
+import { err, ok, type Result } from "neverthrow";
+import { z } from "zod";
+
+import { BaseError } from "@/lib/errors";
+import {
+  createSaleorTransactionFlow,
+  type SaleorTransationFlow,
+} from "@/modules/saleor/saleor-transaction-flow";
+import {
+  type SupportedPaymentMethodType,
+  supportedPaymentMethodTypes,
+  SupportedPaymentMethodTypeSchema,
+} from "@/modules/stripe/payment-methods/supported-payment-method-type";
+
+export const PaymentMethodsSettingsFieldsSchema = z.object({
+  /**
+   * Null means there is no restriction - every payment method supported by the app is allowed
+   */
+  allowedPaymentMethods: z.array(SupportedPaymentMethodTypeSchema).min(1).nullable(),
+  /**
+   * Flow used for the payment method instead of the one Saleor sends (channel's "Transaction flow strategy")
+   */
+  transactionFlowOverrides: z.record(
+    SupportedPaymentMethodTypeSchema,
+    z.enum(["AUTHORIZATION", "CHARGE"]),
+  ),
+});
+
+export type PaymentMethodsSettingsFields = z.infer<typeof PaymentMethodsSettingsFieldsSchema>;
+
+export class PaymentMethodsSettings {
+  readonly allowedPaymentMethods: SupportedPaymentMethodType[] | null;
+  readonly transactionFlowOverrides: PaymentMethodsSettingsFields["transactionFlowOverrides"];
+
+  static ValidationError = BaseError.subclass("ValidationError", {
+    props: {
+      _internalName: "PaymentMethodsSettings.ValidationError" as const,
+    },
+  });
+
+  private constructor(fields: PaymentMethodsSettingsFields) {
+    this.allowedPaymentMethods = fields.allowedPaymentMethods;
+    this.transactionFlowOverrides = fields.transactionFlowOverrides;
+  }
+
+  static create(
+    fields: PaymentMethodsSettingsFields,
+  ): Result<PaymentMethodsSettings, InstanceType<typeof PaymentMethodsSettings.ValidationError>> {
+    const parsingResult = PaymentMethodsSettingsFieldsSchema.safeParse(fields);
+
+    if (!parsingResult.success) {
+      return err(
+        new PaymentMethodsSettings.ValidationError("Invalid payment methods settings", {
+          cause: parsingResult.error,
+        }),
+      );
+    }
+
+    const settings = new PaymentMethodsSettings(parsingResult.data);
+
+    const overriddenNotAllowedMethod = Object.keys(settings.transactionFlowOverrides).find(
+      (paymentMethodType) =>
+        !settings.isPaymentMethodAllowed(paymentMethodType as SupportedPaymentMethodType),
+    );
+
+    if (overriddenNotAllowedMethod) {
+      return err(
+        new PaymentMethodsSettings.ValidationError(
+          `Transaction flow can't be overridden for payment method "${overriddenNotAllowedMethod}" that is not allowed`,
+        ),
+      );
+    }
+
+    return ok(settings);
+  }
+
+  /**
+   * All payment methods allowed, flow always taken from Saleor - behavior of configs created before settings existed
+   */
+  static createDefault() {
+    return new PaymentMethodsSettings({
+      allowedPaymentMethods: null,
+      transactionFlowOverrides: {},
+    });
+  }
+
+  isPaymentMethodAllowed(paymentMethodType: SupportedPaymentMethodType) {
+    if (!this.allowedPaymentMethods) {
+      return true;
+    }
+
+    return this.allowedPaymentMethods.includes(paymentMethodType);
+  }
+
+  getEffectiveAllowedPaymentMethods(): SupportedPaymentMethodType[] {
+    return this.allowedPaymentMethods ?? [...supportedPaymentMethodTypes];
+  }
+
+  resolveSaleorTransactionFlow(
+    paymentMethodType: SupportedPaymentMethodType,
+    saleorTransactionFlow: SaleorTransationFlow,
+  ): SaleorTransationFlow {
+    const override = this.transactionFlowOverrides[paymentMethodType];
+
+    if (!override) {
+      return saleorTransactionFlow;
+    }
+
+    return createSaleorTransactionFlow(override);
+  }
+
+  getFields(): PaymentMethodsSettingsFields {
+    return {
+      allowedPaymentMethods: this.allowedPaymentMethods,
+      transactionFlowOverrides: this.transactionFlowOverrides,
+    };
+  }
+}
@@ -11,7 +11,12 @@ import {
   mockedStripeRestrictedKeyTest,
 } from "@/__tests__/mocks/mocked-stripe-restricted-key";
 import { mockStripeWebhookSecret } from "@/__tests__/mocks/stripe-webhook-secret";
+import { createStripeWebhookSecret } from "@/modules/stripe/stripe-webhook-secret";
 
+import { ConnectSettings } from "./connect-settings";
+import { FraudRulesSettings } from "./fraud-rules-settings";
+import { PaymentIntentDataSettings } from "./payment-intent-data-settings";
+import { PaymentMethodsSettings } from "./payment-methods-settings";
 import { StripeConfig, StripeFrontendConfig } from "./stripe-config";
 
 describe("StripeConfig", () => {
@@ -32,6 +37,111 @@ describe("StripeConfig", () => {
     expect(result._unsafeUnwrap().restrictedKey).toBe(mockedStripeRestrictedKey);
   });
 
+  it("should allow all payment methods without flow overrides if payment methods settings are not provided", () => {
+    const result = StripeConfig.create({
+      name: "Test Config",
+      id: "test-config-1",
+      publishableKey: mockedStripePublishableKey,
+      restrictedKey: mockedStripeRestrictedKey,
+      webhookSecret: mockStripeWebhookSecret,
+      webhookId: mockStripeWebhookSecret,
+    });
+
+    expect(result._unsafeUnwrap().paymentMethodsSettings.getFields()).toStrictEqual({
+      allowedPaymentMethods: null,
+      transactionFlowOverrides: {},
+    });
+  });
+
+  it("should create config with provided payment methods settings", () => {
+    const paymentMethodsSettings = PaymentMethodsSettings.create({
+      allowedPaymentMethods: ["card", "klarna"],
+      transactionFlowOverrides: { klarna: "CHARGE" },
+    })._unsafeUnwrap();
+
+    const result = StripeConfig.create({
+      name: "Test Config",
+      id: "test-config-1",
+      publishableKey: mockedStripePublishableKey,
+      restrictedKey: mockedStripeRestrictedKey,
+      webhookSecret: mockStripeWebhookSecret,
+      webhookId: mockStripeWebhookSecret,
+      paymentMethodsSettings,
+    });
+
+    expect(result._unsafeUnwrap().paymentMethodsSettings).toBe(paymentMethodsSettings);
+  });
+
+  it("should not send optional PaymentIntent data if payment intent data settings are not provided", () => {
+    const result = StripeConfig.create({
+      name: "Test Config",
+      id: "test-config-1",
+      publishableKey: mockedStripePublishableKey,
+      restrictedKey: mockedStripeRestrictedKey,
+      webhookSecret: mockStripeWebhookSecret,
+      webhookId: mockStripeWebhookSecret,
+    });
+
+    expect(result._unsafeUnwrap().paymentIntentDataSettings.getFields()).toStrictEqual({
+      sendShippingAddress: false,
+      sendReceiptEmail: false,
+      statementDescriptorSuffixTemplate: null,
+      sendCardLineItems: false,
+    });
+  });
+
+  it("should have Connect mode disabled if connect settings are not provided", () => {
+    const result = StripeConfig.create({
+      name: "Test Config",
+      id: "test-config-1",
+      publishableKey: mockedStripePublishableKey,
+      restrictedKey: mockedStripeRestrictedKey,
+      webhookSecret: mockStripeWebhookSecret,
+      webhookId: mockStripeWebhookSecret,
+    });
+
+    expect(result._unsafeUnwrap().connectSettings).toBeNull();
+    expect(result._unsafeUnwrap().connectWebhook).toBeNull();
+  });
+
+  describe("getWebhookSecretsForVerification", () => {
+    const previousWebhookSecret = createStripeWebhookSecret("whsec_previous")._unsafeUnwrap();
+    const connectWebhookSecret = createStripeWebhookSecret("whsec_connect")._unsafeUnwrap();
+
+    const getConfig = (expiresAt: Date) =>
+      StripeConfig.create({
+        ...mockedStripeConfig,
+        previousWebhookSecret: { secret: previousWebhookSecret, expiresAt },
+        connectWebhook: { id: "we_connect", secret: connectWebhookSecret },
+      })._unsafeUnwrap();
+
+    it("should return only current webhook secret if credentials were never rotated", () => {
+      expect(mockedStripeConfig.getWebhookSecretsForVerification()).toStrictEqual([
+        mockedStripeConfig.webhookSecret,
+      ]);
+    });
+
+    it("should return previous webhook secret during grace window", () => {
+      const config = getConfig(new Date("2024-01-02T00:00:00.000Z"));
+
+      expect(
+        config.getWebhookSecretsForVerification(new Date("2024-01-01T00:00:00.000Z")),
+      ).toStrictEqual([
+        mockedStripeConfig.webhookSecret,
+        previousWebhookSecret,
+        connectWebhookSecret,
+      ]);
+    });
+
+    it("should skip previous webhook secret after grace window", () => {
+      const config = getConfig(new Date("2024-01-02T00:00:00.000Z"));
+
+      expect(
+        config.getWebhookSecretsForVerification(new Date("2024-01-03T00:00:00.000Z")),
+      ).toStrictEqual([mockedStripeConfig.webhookSecret, connectWebhookSecret]);
+    });
+  });
+
   it("should return error for empty name", () => {
     const result = StripeConfig.create({
       name: "",
@@ -112,7 +222,7 @@ describe("StripeFrontendConfig", () => {
      * Ensure serialized data doesn't have secrets!
      */
     expect(serialized).toMatchInlineSnapshot(
-      `"{"name":"config-name","id":"81f323bd-91e2-4838-ab6e-5affd81ffc3b","restrictedKey":"...GGGG","publishableKey":"pk_live_1"}"`,
+      `"{"name":"config-name","id":"81f323bd-91e2-4838-ab6e-5affd81ffc3b","restrictedKey":"...GGGG","publishableKey":"pk_live_1","paymentMethodsSettings":{"allowedPaymentMethods":null,"transactionFlowOverrides":{}},"paymentIntentDataSettings":{"sendShippingAddress":false,"sendReceiptEmail":false,"statementDescriptorSuffixTemplate":null,"sendCardLineItems":false},"fraudRulesSettings":{"blockedEmailDomains":[],"blockCountryMismatch":false,"firstTimeBuyerAmountLimit":null},"connectSettings":null}"`,
     );
 
     //@ts-expect-error - JSON is arbitrary
@@ -126,12 +236,46 @@ describe("StripeFrontendConfig", () => {
     expect(parsedBack.restrictedKey).toMatchInlineSnapshot(`"...GGGG"`);
   });
 
+  it("Exposes Connect settings without Connect webhook secret", () => {
+    const config = StripeConfig.create({
+      name: "Test Config",
+      id: "test-config-1",
+      publishableKey: mockedStripePublishableKey,
+      restrictedKey: mockedStripeRestrictedKey,
+      webhookSecret: mockStripeWebhookSecret,
+      webhookId: "wh_123",
+      connectSettings: ConnectSettings.create({
+        destinationSource: "CHANNEL_METADATA",
+        destinationMetadataKey: "stripe_connected_account_id",
+        applicationFeePercent: 10,
+      })._unsafeUnwrap(),
+      connectWebhook: {
+        id: "wh_connect_123",
+        secret: mockStripeWebhookSecret,
+      },
+    })._unsafeUnwrap();
+
+    const frontendConfig = StripeFrontendConfig.createFromStripeConfig(config);
+    const serialized = JSON.stringify(frontendConfig);
+
+    expect(frontendConfig.connectSettings).toStrictEqual({
+      destinationSource: "CHANNEL_METADATA",
+      destinationMetadataKey: "stripe_connected_account_id",
+      applicationFeePercent: 10,
+    });
+    expect(serialized).not.toContain(mockStripeWebhookSecret);
+  });
+
   it("Returns TEST and LIVE information about the config", () => {
     const testConfig = StripeFrontendConfig.createFromSerializedFields({
       name: "Test",
       id: mockedConfigurationId,
       publishableKey: mockedStripePublishableKeyTest,
       restrictedKey: mockedStripeRestrictedKeyTest,
+      paymentMethodsSettings: PaymentMethodsSettings.createDefault().getFields(),
+      paymentIntentDataSettings: PaymentIntentDataSettings.createDefault().getFields(),
+      fraudRulesSettings: FraudRulesSettings.createDefault().getFields(),
+      connectSettings: null,
     });
 
     const liveConfig = StripeFrontendConfig.createFromSerializedFields({
@@ -139,6 +283,10 @@ describe("StripeFrontendConfig", () => {
       id: mockedConfigurationId,
       publishableKey: mockedStripePublishableKey,
       restrictedKey: mockedStripeRestrictedKey,
+      paymentMethodsSettings: PaymentMethodsSettings.createDefault().getFields(),
+      paymentIntentDataSettings: PaymentIntentDataSettings.createDefault().getFields(),
+      fraudRulesSettings: FraudRulesSettings.createDefault().getFields(),
+      connectSettings: null,
     });
 
     expect(testConfig.getStripeEnvValue()).toBe("TEST");
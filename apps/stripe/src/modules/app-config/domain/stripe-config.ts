@@ -1,11 +1,41 @@
 import { err, ok, type Result } from "neverthrow";
 
 import { BaseError } from "@/lib/errors";
+import {
+  type ConnectSettings,
+  type ConnectSettingsFields,
+} from "@/modules/app-config/domain/connect-settings";
+import {
+  FraudRulesSettings,
+  type FraudRulesSettingsFields,
+} from "@/modules/app-config/domain/fraud-rules-settings";
+import {
+  PaymentIntentDataSettings,
+  type PaymentIntentDataSettingsFields,
+} from "@/modules/app-config/domain/payment-intent-data-settings";
+import {
+  PaymentMethodsSettings,
+  type PaymentMethodsSettingsFields,
+} from "@/modules/app-config/domain/payment-methods-settings";
 import { type StripeEnv } from "@/modules/stripe/stripe-env";
 import { type StripePublishableKey } from "@/modules/stripe/stripe-publishable-key";
 import { type StripeRestrictedKey } from "@/modules/stripe/stripe-restricted-key";
 import { type StripeWebhookSecret } from "@/modules/stripe/stripe-webhook-secret";
 
+export type StripeConnectWebhook = {
+  id: string;
+  secret: StripeWebhookSecret;
+};
+
+/**
+ * Webhook secret replaced during credentials rotation. Events signed with it are still accepted until it expires, so
+ * deliveries that were in flight during rotation are not rejected
+ */
+export type StripePreviousWebhookSecret = {
+  secret: StripeWebhookSecret;
+  expiresAt: Date;
+};
+
 export class StripeConfig {
   readonly name: string;
   readonly id: string;
@@ -13,6 +43,21 @@ export class StripeConfig {
   readonly publishableKey: StripePublishableKey;
   readonly webhookSecret: StripeWebhookSecret;
   readonly webhookId: string;
+  readonly paymentMethodsSettings: PaymentMethodsSettings;
+  readonly paymentIntentDataSettings: PaymentIntentDataSettings;
+  readonly fraudRulesSettings: FraudRulesSettings;
+  /**
+   * Null if Stripe Connect marketplace mode is disabled
+   */
+  readonly connectSettings: ConnectSettings | null;
+  /**
+   * Separate Stripe webhook receiving events of connected accounts, created when Connect mode is enabled
+   */
+  readonly connectWebhook: StripeConnectWebhook | null;
+  /**
+   * Null if credentials were never rotated
+   */
+  readonly previousWebhookSecret: StripePreviousWebhookSecret | null;
 
   static ValidationError = BaseError.subclass("ValidationError", {
     props: {
@@ -27,6 +72,12 @@ export class StripeConfig {
     publishableKey: StripePublishableKey;
     webhookSecret: StripeWebhookSecret;
     webhookId: string;
+    paymentMethodsSettings: PaymentMethodsSettings;
+    paymentIntentDataSettings: PaymentIntentDataSettings;
+    fraudRulesSettings: FraudRulesSettings;
+    connectSettings: ConnectSettings | null;
+    connectWebhook: StripeConnectWebhook | null;
+    previousWebhookSecret: StripePreviousWebhookSecret | null;
   }) {
     this.name = props.name;
     this.id = props.id;
@@ -34,12 +85,35 @@ export class StripeConfig {
     this.publishableKey = props.publishableKey;
     this.webhookSecret = props.webhookSecret;
     this.webhookId = props.webhookId;
+    this.paymentMethodsSettings = props.paymentMethodsSettings;
+    this.paymentIntentDataSettings = props.paymentIntentDataSettings;
+    this.fraudRulesSettings = props.fraudRulesSettings;
+    this.connectSettings = props.connectSettings;
+    this.connectWebhook = props.connectWebhook;
+    this.previousWebhookSecret = props.previousWebhookSecret;
   }
 
   getStripeEnvValue(): StripeEnv {
     return this.publishableKey.startsWith("pk_test") ? "TEST" : "LIVE";
   }
 
+  /**
+   * All secrets that incoming Stripe events can be signed with, the current webhook secret first
+   */
+  getWebhookSecretsForVerification(now = new Date()): StripeWebhookSecret[] {
+    const secrets = [this.webhookSecret];
+
+    if (this.previousWebhookSecret && this.previousWebhookSecret.expiresAt > now) {
+      secrets.push(this.previousWebhookSecret.secret);
+    }
+
+    if (this.connectWebhook) {
+      secrets.push(this.connectWebhook.secret);
+    }
+
+    return secrets;
+  }
+
   static create(args: {
     name: string;
     id: string;
@@ -47,6 +121,12 @@ export class StripeConfig {
     webhookId: string;
     restrictedKey: StripeRestrictedKey;
     publishableKey: StripePublishableKey;
+    paymentMethodsSettings?: PaymentMethodsSettings;
+    paymentIntentDataSettings?: PaymentIntentDataSettings;
+    fraudRulesSettings?: FraudRulesSettings;
+    connectSettings?: ConnectSettings | null;
+    connectWebhook?: StripeConnectWebhook | null;
+    previousWebhookSecret?: StripePreviousWebhookSecret | null;
   }): Result<StripeConfig, InstanceType<typeof StripeConfig.ValidationError>> {
     if (args.name.length === 0) {
       return err(new StripeConfig.ValidationError("Config name cannot be empty"));
@@ -82,6 +162,14 @@ export class StripeConfig {
         publishableKey: args.publishableKey,
         webhookSecret: args.webhookSecret,
         webhookId: args.webhookId,
+        paymentMethodsSettings:
+          args.paymentMethodsSettings ?? PaymentMethodsSettings.createDefault(),
+        paymentIntentDataSettings:
+          args.paymentIntentDataSettings ?? PaymentIntentDataSettings.createDefault(),
+        fraudRulesSettings: args.fraudRulesSettings ?? FraudRulesSettings.createDefault(),
+        connectSettings: args.connectSettings ?? null,
+        connectWebhook: args.connectWebhook ?? null,
+        previousWebhookSecret: args.previousWebhookSecret ?? null,
       }),
     );
   }
@@ -93,6 +181,10 @@ export type StripeFrontendConfigSerializedFields = {
   readonly restrictedKey: string;
   readonly publishableKey: string;
   readonly webhookStatus?: "missing" | "disabled" | "active";
+  readonly paymentMethodsSettings: PaymentMethodsSettingsFields;
+  readonly paymentIntentDataSettings: PaymentIntentDataSettingsFields;
+  readonly fraudRulesSettings: FraudRulesSettingsFields;
+  readonly connectSettings: ConnectSettingsFields | null;
 };
 
 /**
@@ -105,6 +197,10 @@ export class StripeFrontendConfig implements StripeFrontendConfigSerializedField
   readonly restrictedKey: string;
   readonly publishableKey: string;
   webhookStatus?: StripeFrontendConfigSerializedFields["webhookStatus"];
+  readonly paymentMethodsSettings: PaymentMethodsSettingsFields;
+  readonly paymentIntentDataSettings: PaymentIntentDataSettingsFields;
+  readonly fraudRulesSettings: FraudRulesSettingsFields;
+  readonly connectSettings: ConnectSettingsFields | null;
 
   private constructor(fields: StripeFrontendConfigSerializedFields) {
     this.name = fields.name;
@@ -112,6 +208,10 @@ export class StripeFrontendConfig implements StripeFrontendConfigSerializedField
     this.restrictedKey = fields.restrictedKey;
     this.publishableKey = fields.publishableKey;
     this.webhookStatus = fields.webhookStatus;
+    this.paymentMethodsSettings = fields.paymentMethodsSettings;
+    this.paymentIntentDataSettings = fields.paymentIntentDataSettings;
+    this.fraudRulesSettings = fields.fraudRulesSettings;
+    this.connectSettings = fields.connectSettings;
   }
 
   private static getMaskedKeyValue(key: StripeRestrictedKey) {
@@ -128,6 +228,10 @@ export class StripeFrontendConfig implements StripeFrontendConfigSerializedField
       id: stripeConfig.id,
       publishableKey: stripeConfig.publishableKey,
       restrictedKey: this.getMaskedKeyValue(stripeConfig.restrictedKey),
+      paymentMethodsSettings: stripeConfig.paymentMethodsSettings.getFields(),
+      paymentIntentDataSettings: stripeConfig.paymentIntentDataSettings.getFields(),
+      fraudRulesSettings: stripeConfig.fraudRulesSettings.getFields(),
+      connectSettings: stripeConfig.connectSettings?.getFields() ?? null,
     });
   }
 
@@ -126,16 +126,52 @@ describe("DynamodbAppConfigRepo", () => {
           },
           "stripeConfigsById": {
             "81f323bd-91e2-4838-ab6e-5affd81ffc3b": StripeConfig {
+              "connectSettings": null,
+              "connectWebhook": null,
+              "fraudRulesSettings": FraudRulesSettings {
+                "blockCountryMismatch": false,
+                "blockedEmailDomains": [],
+                "firstTimeBuyerAmountLimit": null,
+              },
               "id": "81f323bd-91e2-4838-ab6e-5affd81ffc3b",
               "name": "tasdafsdf",
+              "paymentIntentDataSettings": PaymentIntentDataSettings {
+                "sendCardLineItems": false,
+                "sendReceiptEmail": false,
+                "sendShippingAddress": false,
+                "statementDescriptorSuffixTemplate": null,
+              },
+              "paymentMethodsSettings": PaymentMethodsSettings {
+                "allowedPaymentMethods": null,
+                "transactionFlowOverrides": {},
+              },
+              "previousWebhookSecret": null,
               "publishableKey": "pk_test_51Ng2yKKFxIUko8m0IUBO8GvarTlXcNIpAATM9cE7S2GaoFLsTAsn5avHHjfLFVKewqTFwMb2wqOP87CEbgwljzf200aXXm38oM",
               "restrictedKey": "rk_test_51Ng2yKKFxIUko8m0eaadRYweTPBGnnBA58rpt5JQ7Y7VqSBnQu39JHWoqMfd5lSxH9OH44Bm5NMOQkbzpaMdjD3v00VsW1DGyx",
               "webhookId": "we_1RHiPdKFxIUko8m01KAnXiRQ",
               "webhookSecret": "whsec_ZOsiN376Ahfo0N8lWg7PYXNGpnDXShS5",
             },
             "another-config-id": StripeConfig {
+              "connectSettings": null,
+              "connectWebhook": null,
+              "fraudRulesSettings": FraudRulesSettings {
+                "blockCountryMismatch": false,
+                "blockedEmailDomains": [],
+                "firstTimeBuyerAmountLimit": null,
+              },
               "id": "another-config-id",
               "name": "tasdafsdf",
+              "paymentIntentDataSettings": PaymentIntentDataSettings {
+                "sendCardLineItems": false,
+                "sendReceiptEmail": false,
+                "sendShippingAddress": false,
+                "statementDescriptorSuffixTemplate": null,
+              },
+              "paymentMethodsSettings": PaymentMethodsSettings {
+                "allowedPaymentMethods": null,
+                "transactionFlowOverrides": {},
+              },
+              "previousWebhookSecret": null,
               "publishableKey": "pk_test_51Ng2yKKFxIUko8m0IUBO8GvarTlXcNIpAATM9cE7S2GaoFLsTAsn5avHHjfLFVKewqTFwMb2wqOP87CEbgwljzf200aXXm38oM",
               "restrictedKey": "rk_test_51Ng2yKKFxIUko8m0eaadRYweTPBGnnBA58rpt5JQ7Y7VqSBnQu39JHWoqMfd5lSxH9OH44Bm5NMOQkbzpaMdjD3v00VsW1DGyx",
               "webhookId": "we_1RHiPdKFxIUko8m01KAnXiRQ",
@@ -187,8 +223,26 @@ describe("DynamodbAppConfigRepo", () => {
       expect(result._unsafeUnwrap()).toBeInstanceOf(StripeConfig);
       expect(result._unsafeUnwrap()).toMatchInlineSnapshot(`
         StripeConfig {
+          "connectSettings": null,
+          "connectWebhook": null,
+          "fraudRulesSettings": FraudRulesSettings {
+            "blockCountryMismatch": false,
+            "blockedEmailDomains": [],
+            "firstTimeBuyerAmountLimit": null,
+          },
           "id": "81f323bd-91e2-4838-ab6e-5affd81ffc3b",
           "name": "tasdafsdf",
+          "paymentIntentDataSettings": PaymentIntentDataSettings {
+            "sendCardLineItems": false,
+            "sendReceiptEmail": false,
+            "sendShippingAddress": false,
+            "statementDescriptorSuffixTemplate": null,
+          },
+          "paymentMethodsSettings": PaymentMethodsSettings {
+            "allowedPaymentMethods": null,
+            "transactionFlowOverrides": {},
+          },
+          "previousWebhookSecret": null,
           "publishableKey": "pk_test_51Ng2yKKFxIUko8m0IUBO8GvarTlXcNIpAATM9cE7S2GaoFLsTAsn5avHHjfLFVKewqTFwMb2wqOP87CEbgwljzf200aXXm38oM",
           "restrictedKey": "rk_test_51Ng2yKKFxIUko8m0eaadRYweTPBGnnBA58rpt5JQ7Y7VqSBnQu39JHWoqMfd5lSxH9OH44Bm5NMOQkbzpaMdjD3v00VsW1DGyx",
           "webhookId": "we_1RHiPdKFxIUko8m01KAnXiRQ",
@@ -197,6 +251,142 @@ describe("DynamodbAppConfigRepo", () => {
       `);
     });
 
+    it("Returns StripeConfig with payment intent data settings stored in DB", async () => {
+      mockDocumentClient.on(GetCommand, {}).resolvesOnce({
+        Item: {
+          ...mockedDynamoConfigItems.mockedStripeConfig,
+          sendShippingAddress: true,
+          sendReceiptEmail: false,
+          statementDescriptorSuffixTemplate: "ORDER {order_number}",
+          sendCardLineItems: true,
+        },
+      });
+
+      const result = await repo.getStripeConfig({
+        saleorApiUrl: mockedSaleorApiUrl,
+        appId: mockedSaleorAppId,
+        configId: mockedConfigurationId,
+      });
+
+      expect(result._unsafeUnwrap()?.paymentIntentDataSettings.getFields()).toStrictEqual({
+        sendShippingAddress: true,
+        sendReceiptEmail: false,
+        statementDescriptorSuffixTemplate: "ORDER {order_number}",
+        sendCardLineItems: true,
+      });
+    });
+
+    it("Returns StripeConfig with fraud rules settings stored in DB", async () => {
+      mockDocumentClient.on(GetCommand, {}).resolvesOnce({
+        Item: {
+          ...mockedDynamoConfigItems.mockedStripeConfig,
+          fraudBlockedEmailDomains: ["mailinator.com"],
+          fraudBlockCountryMismatch: true,
+          fraudFirstTimeBuyerAmountLimit: 250,
+        },
+      });
+
+      const result = await repo.getStripeConfig({
+        saleorApiUrl: mockedSaleorApiUrl,
+        appId: mockedSaleorAppId,
+        configId: mockedConfigurationId,
+      });
+
+      expect(result._unsafeUnwrap()?.fraudRulesSettings.getFields()).toStrictEqual({
+        blockedEmailDomains: ["mailinator.com"],
+        blockCountryMismatch: true,
+        firstTimeBuyerAmountLimit: 250,
+      });
+    });
+
+    it("Returns StripeConfig with Connect settings and Connect webhook stored in DB", async () => {
+      mockDocumentClient.on(GetCommand, {}).resolvesOnce({
+        Item: {
+          ...mockedDynamoConfigItems.mockedStripeConfig,
+          connectDestinationSource: "PRODUCT_METADATA",
+          connectDestinationMetadataKey: "vendor_account",
+          connectApplicationFeePercent: 15,
+          stripeConnectWhId: "we_connect",
+          stripeConnectWhSecret: mockedDynamoConfigItems.mockedStripeConfig.stripeWhSecret,
+        },
+      });
+
+      const result = await repo.getStripeConfig({
+        saleorApiUrl: mockedSaleorApiUrl,
+        appId: mockedSaleorAppId,
+        configId: mockedConfigurationId,
+      });
+
+      expect(result._unsafeUnwrap()?.connectSettings?.getFields()).toStrictEqual({
+        destinationSource: "PRODUCT_METADATA",
+        destinationMetadataKey: "vendor_account",
+        applicationFeePercent: 15,
+      });
+      expect(result._unsafeUnwrap()?.connectWebhook).toStrictEqual({
+        id: "we_connect",
+        secret: "whsec_ZOsiN376Ahfo0N8lWg7PYXNGpnDXShS5",
+      });
+    });
+
+    it("Returns StripeConfig with previous webhook secret stored in DB after credentials rotation", async () => {
+      mockDocumentClient.on(GetCommand, {}).resolvesOnce({
+        Item: {
+          ...mockedDynamoConfigItems.mockedStripeConfig,
+          stripePreviousWhSecret: mockedDynamoConfigItems.mockedStripeConfig.stripeWhSecret,
+          stripePreviousWhSecretExpiresAt: "2024-01-02T00:00:00.000Z",
+        },
+      });
+
+      const result = await repo.getStripeConfig({
+        saleorApiUrl: mockedSaleorApiUrl,
+        appId: mockedSaleorAppId,
+        configId: mockedConfigurationId,
+      });
+
+      expect(result._unsafeUnwrap()?.previousWebhookSecret).toStrictEqual({
+        secret: "whsec_ZOsiN376Ahfo0N8lWg7PYXNGpnDXShS5",
+        expiresAt: new Date("2024-01-02T00:00:00.000Z"),
+      });
+    });
+
+    it("Returns StripeConfig with payment methods settings stored in DB", async () => {
+      mockDocumentClient.on(GetCommand, {}).resolvesOnce({
+        Item: {
+          ...mockedDynamoConfigItems.mockedStripeConfig,
+          allowedPaymentMethods: ["card", "klarna"],
+          transactionFlowOverrides: { klarna: "CHARGE" },
+        },
+      });
+
+      const result = await repo.getStripeConfig({
+        saleorApiUrl: mockedSaleorApiUrl,
+        appId: mockedSaleorAppId,
+        configId: mockedConfigurationId,
+      });
+
+      expect(result._unsafeUnwrap()?.paymentMethodsSettings.getFields()).toStrictEqual({
+        allowedPaymentMethods: ["card", "klarna"],
+        transactionFlowOverrides: { klarna: "CHARGE" },
+      });
+    });
+
+    it("Returns FailureFetchingConfig if payment methods settings stored in DB are invalid", async () => {
+      mockDocumentClient.on(GetCommand, {}).resolvesOnce({
+        Item: {
+          ...mockedDynamoConfigItems.mockedStripeConfig,
+          allowedPaymentMethods: ["cash"],
+        },
+      });
+
+      const result = await repo.getStripeConfig({
+        saleorApiUrl: mockedSaleorApiUrl,
+        appId: mockedSaleorAppId,
+        configId: mockedConfigurationId,
+      });
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(AppConfigRepoError.FailureFetchingConfig);
+    });
+
     it("Returns valid StripeConfig when queried by channelId", async () => {
       mockDocumentClient
         .on(GetCommand, {
@@ -229,8 +419,26 @@ describe("DynamodbAppConfigRepo", () => {
       expect(result._unsafeUnwrap()).toBeInstanceOf(StripeConfig);
       expect(result._unsafeUnwrap()).toMatchInlineSnapshot(`
         StripeConfig {
+          "connectSettings": null,
+          "connectWebhook": null,
+          "fraudRulesSettings": FraudRulesSettings {
+            "blockCountryMismatch": false,
+            "blockedEmailDomains": [],
+            "firstTimeBuyerAmountLimit": null,
+          },
           "id": "81f323bd-91e2-4838-ab6e-5affd81ffc3b",
           "name": "tasdafsdf",
+          "paymentIntentDataSettings": PaymentIntentDataSettings {
+            "sendCardLineItems": false,
+            "sendReceiptEmail": false,
+            "sendShippingAddress": false,
+            "statementDescriptorSuffixTemplate": null,
+          },
+          "paymentMethodsSettings": PaymentMethodsSettings {
+            "allowedPaymentMethods": null,
+            "transactionFlowOverrides": {},
+          },
+          "previousWebhookSecret": null,
           "publishableKey": "pk_test_51Ng2yKKFxIUko8m0IUBO8GvarTlXcNIpAATM9cE7S2GaoFLsTAsn5avHHjfLFVKewqTFwMb2wqOP87CEbgwljzf200aXXm38oM",
           "restrictedKey": "rk_test_51Ng2yKKFxIUko8m0eaadRYweTPBGnnBA58rpt5JQ7Y7VqSBnQu39JHWoqMfd5lSxH9OH44Bm5NMOQkbzpaMdjD3v00VsW1DGyx",
           "webhookId": "we_1RHiPdKFxIUko8m01KAnXiRQ",
@@ -343,11 +551,17 @@ describe("DynamodbAppConfigRepo", () => {
           "configId": "81f323bd-91e2-4838-ab6e-5affd81ffc3b",
           "configName": "config-name",
           "createdAt": Any<String>,
+          "fraudBlockCountryMismatch": false,
+          "fraudBlockedEmailDomains": [],
           "modifiedAt": Any<String>,
+          "sendCardLineItems": false,
+          "sendReceiptEmail": false,
+          "sendShippingAddress": false,
           "stripePk": "pk_live_1",
           "stripeRk": Any<String>,
           "stripeWhId": "wh_123456789",
           "stripeWhSecret": Any<String>,
+          "transactionFlowOverrides": {},
         }
       `,
       );
@@ -7,6 +7,16 @@ import { env } from "@/lib/env";
 import { BaseError } from "@/lib/errors";
 import { createLogger } from "@/lib/logger";
 import { AppRootConfig } from "@/modules/app-config/domain/app-root-config";
+import {
+  ConnectSettings,
+  ConnectSettingsFieldsSchema,
+} from "@/modules/app-config/domain/connect-settings";
+import { FraudRulesSettings } from "@/modules/app-config/domain/fraud-rules-settings";
+import { PaymentIntentDataSettings } from "@/modules/app-config/domain/payment-intent-data-settings";
+import {
+  PaymentMethodsSettings,
+  PaymentMethodsSettingsFieldsSchema,
+} from "@/modules/app-config/domain/payment-methods-settings";
 import { StripeConfig } from "@/modules/app-config/domain/stripe-config";
 import {
   type AppConfigRepo,
@@ -169,6 +179,56 @@ export class DynamodbAppConfigRepo implements AppConfigRepo {
   private mapRawDynamoConfigItemToConfigOrThrow(item: unknown) {
     const parsed = DynamoDbStripeConfig.entitySchema.build(Parser).parse(item);
 
+    const paymentMethodsSettings = PaymentMethodsSettings.create(
+      PaymentMethodsSettingsFieldsSchema.parse({
+        allowedPaymentMethods: parsed.allowedPaymentMethods ?? null,
+        transactionFlowOverrides: parsed.transactionFlowOverrides ?? {},
+      }),
+    )._unsafeUnwrap(); // make it throwable
+
+    const paymentIntentDataSettings = PaymentIntentDataSettings.create({
+      sendShippingAddress: parsed.sendShippingAddress ?? false,
+      sendReceiptEmail: parsed.sendReceiptEmail ?? false,
+      statementDescriptorSuffixTemplate: parsed.statementDescriptorSuffixTemplate ?? null,
+      sendCardLineItems: parsed.sendCardLineItems ?? false,
+    })._unsafeUnwrap(); // make it throwable
+
+    const fraudRulesSettings = FraudRulesSettings.create({
+      blockedEmailDomains: parsed.fraudBlockedEmailDomains ?? [],
+      blockCountryMismatch: parsed.fraudBlockCountryMismatch ?? false,
+      firstTimeBuyerAmountLimit: parsed.fraudFirstTimeBuyerAmountLimit ?? null,
+    })._unsafeUnwrap(); // make it throwable
+
+    const connectSettings = parsed.connectDestinationSource
+      ? ConnectSettings.create(
+          ConnectSettingsFieldsSchema.parse({
+            destinationSource: parsed.connectDestinationSource,
+            destinationMetadataKey: parsed.connectDestinationMetadataKey,
+            applicationFeePercent: parsed.connectApplicationFeePercent ?? 0,
+          }),
+        )._unsafeUnwrap() // make it throwable
+      : null;
+
+    const connectWebhook =
+      parsed.stripeConnectWhId && parsed.stripeConnectWhSecret
+        ? {
+            id: parsed.stripeConnectWhId,
+            secret: createStripeWebhookSecret(
+              this.encryptor.decrypt(parsed.stripeConnectWhSecret),
+            )._unsafeUnwrap(), // make it throwable
+          }
+        : null;
+
+    const previousWebhookSecret =
+      parsed.stripePreviousWhSecret && parsed.stripePreviousWhSecretExpiresAt
+        ? {
+            secret: createStripeWebhookSecret(
+              this.encryptor.decrypt(parsed.stripePreviousWhSecret),
+            )._unsafeUnwrap(), // make it throwable
+            expiresAt: new Date(parsed.stripePreviousWhSecretExpiresAt),
+          }
+        : null;
+
     const configResult = StripeConfig.create({
       name: parsed.configName,
       restrictedKey: createStripeRestrictedKey(
@@ -180,6 +240,12 @@ export class DynamodbAppConfigRepo implements AppConfigRepo {
       webhookSecret: createStripeWebhookSecret(
         this.encryptor.decrypt(parsed.stripeWhSecret),
       )._unsafeUnwrap(), // make it throwable
+      paymentMethodsSettings,
+      paymentIntentDataSettings,
+      fraudRulesSettings,
+      connectSettings,
+      connectWebhook,
+      previousWebhookSecret,
     });
 
     if (configResult.isErr()) {
@@ -281,6 +347,28 @@ export class DynamodbAppConfigRepo implements AppConfigRepo {
         PK: DynamoDbStripeConfig.accessPattern.getPK({ saleorApiUrl, appId }),
         SK: DynamoDbStripeConfig.accessPattern.getSKforSpecificItem({ configId: config.id }),
         configName: config.name,
+        allowedPaymentMethods: config.paymentMethodsSettings.allowedPaymentMethods ?? undefined,
+        transactionFlowOverrides: config.paymentMethodsSettings.transactionFlowOverrides,
+        sendShippingAddress: config.paymentIntentDataSettings.sendShippingAddress,
+        sendReceiptEmail: config.paymentIntentDataSettings.sendReceiptEmail,
+        statementDescriptorSuffixTemplate:
+          config.paymentIntentDataSettings.statementDescriptorSuffixTemplate ?? undefined,
+        sendCardLineItems: config.paymentIntentDataSettings.sendCardLineItems,
+        fraudBlockedEmailDomains: config.fraudRulesSettings.blockedEmailDomains,
+        fraudBlockCountryMismatch: config.fraudRulesSettings.blockCountryMismatch,
+        fraudFirstTimeBuyerAmountLimit:
+          config.fraudRulesSettings.firstTimeBuyerAmountLimit ?? undefined,
+        connectDestinationSource: config.connectSettings?.destinationSource,
+        connectDestinationMetadataKey: config.connectSettings?.destinationMetadataKey,
+        connectApplicationFeePercent: config.connectSettings?.applicationFeePercent,
+        stripeConnectWhId: config.connectWebhook?.id,
+        stripeConnectWhSecret: config.connectWebhook
+          ? this.encryptor.encrypt(config.connectWebhook.secret)
+          : undefined,
+        stripePreviousWhSecret: config.previousWebhookSecret
+          ? this.encryptor.encrypt(config.previousWebhookSecret.secret)
+          : undefined,
+        stripePreviousWhSecretExpiresAt: config.previousWebhookSecret?.expiresAt.toISOString(),
       });
 
       const response = await command.send();
@@ -1,4 +1,4 @@
-import { Entity, string } from "dynamodb-toolbox";
+import { boolean, Entity, list, number, record, string } from "dynamodb-toolbox";
 import { item } from "dynamodb-toolbox/schema/item";
 
 import { DynamoMainTable, dynamoMainTable } from "@/modules/dynamodb/dynamo-main-table";
@@ -27,6 +27,37 @@ const DynamoDbStripeConfigSchema = item({
   stripeRk: string(),
   stripeWhSecret: string(),
   stripeWhId: string(),
+  /**
+   * Missing for configs created before payment methods settings were introduced - all methods are allowed then
+   */
+  allowedPaymentMethods: list(string()).optional(),
+  transactionFlowOverrides: record(string(), string()).optional(),
+  /**
+   * Missing for configs created before payment intent data settings were introduced - nothing optional is sent then
+   */
+  sendShippingAddress: boolean().optional(),
+  sendReceiptEmail: boolean().optional(),
+  statementDescriptorSuffixTemplate: string().optional(),
+  sendCardLineItems: boolean().optional(),
+  /**
+   * Missing for configs created before fraud rules were introduced - no rule is evaluated then
+   */
+  fraudBlockedEmailDomains: list(string()).optional(),
+  fraudBlockCountryMismatch: boolean().optional(),
+  fraudFirstTimeBuyerAmountLimit: number().optional(),
+  /**
+   * Set only if Stripe Connect mode is enabled
+   */
+  connectDestinationSource: string().optional(),
+  connectDestinationMetadataKey: string().optional(),
+  connectApplicationFeePercent: number().optional(),
+  stripeConnectWhId: string().optional(),
+  stripeConnectWhSecret: string().optional(),
+  /**
+   * Set only after credentials rotation, until grace window of the replaced webhook secret ends
+   */
+  stripePreviousWhSecret: string().optional(),
+  stripePreviousWhSecretExpiresAt: string().optional(),
 });
 
 const createStripeConfigEntity = (table: DynamoMainTable) => {
@@ -3,8 +3,15 @@ import { GetStripeConfigsChannelsMappingTrpcHandler } from "@/modules/app-config
 import { GetStripeConfigsListTrpcHandler } from "@/modules/app-config/trpc-handlers/get-stripe-configs-list-trpc-handler";
 import { NewStripeConfigTrpcHandler } from "@/modules/app-config/trpc-handlers/new-stripe-config-trpc-handler";
 import { RemoveStripeConfigTrpcHandler } from "@/modules/app-config/trpc-handlers/remove-stripe-config-trpc-handler";
+import { RotateStripeConfigCredentialsTrpcHandler } from "@/modules/app-config/trpc-handlers/rotate-stripe-config-credentials-trpc-handler";
+import { UpdateConnectSettingsTrpcHandler } from "@/modules/app-config/trpc-handlers/update-connect-settings-trpc-handler";
+import { UpdateFraudRulesSettingsTrpcHandler } from "@/modules/app-config/trpc-handlers/update-fraud-rules-settings-trpc-handler";
 import { UpdateMappingTrpcHandler } from "@/modules/app-config/trpc-handlers/update-mapping-trpc-handler";
+import { UpdatePaymentIntentDataSettingsTrpcHandler } from "@/modules/app-config/trpc-handlers/update-payment-intent-data-settings-trpc-handler";
+import { UpdatePaymentMethodsSettingsTrpcHandler } from "@/modules/app-config/trpc-handlers/update-payment-methods-settings-trpc-handler";
+import { auditLogRepo } from "@/modules/audit-log/repositories/audit-log-repo-impl";
 import { ChannelsFetcher } from "@/modules/saleor/channel-fetcher";
+import { CurrentUserFetcher } from "@/modules/saleor/current-user-fetcher";
 import { StripeWebhookManager } from "@/modules/stripe/stripe-webhook-manager";
 import { router } from "@/modules/trpc/trpc-server";
 
@@ -23,5 +30,17 @@ export const appConfigRouter = router({
   }).getTrpcProcedure(),
   channelsConfigsMapping: new GetStripeConfigsChannelsMappingTrpcHandler().getTrpcProcedure(),
   updateMapping: new UpdateMappingTrpcHandler().getTrpcProcedure(),
+  updatePaymentMethodsSettings: new UpdatePaymentMethodsSettingsTrpcHandler().getTrpcProcedure(),
+  updatePaymentIntentDataSettings:
+    new UpdatePaymentIntentDataSettingsTrpcHandler().getTrpcProcedure(),
+  updateFraudRulesSettings: new UpdateFraudRulesSettingsTrpcHandler().getTrpcProcedure(),
+  updateConnectSettings: new UpdateConnectSettingsTrpcHandler({
+    webhookManager,
+  }).getTrpcProcedure(),
+  rotateStripeConfigCredentials: new RotateStripeConfigCredentialsTrpcHandler({
+    webhookManager,
+    auditLogRepo,
+    currentUserFetcherFactory: (client) => new CurrentUserFetcher(client),
+  }).getTrpcProcedure(),
   removeStripeConfig: new RemoveStripeConfigTrpcHandler({ webhookManager }).getTrpcProcedure(),
 });
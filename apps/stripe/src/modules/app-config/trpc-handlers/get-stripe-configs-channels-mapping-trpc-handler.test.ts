@@ -71,8 +71,24 @@ describe("GetStripeConfigsChannelsMappingTrpcHandler", () => {
     return expect(caller.testProcedure()).resolves.toMatchInlineSnapshot(`
       {
         "c-id1": StripeFrontendConfig {
+          "connectSettings": null,
+          "fraudRulesSettings": {
+            "blockCountryMismatch": false,
+            "blockedEmailDomains": [],
+            "firstTimeBuyerAmountLimit": null,
+          },
           "id": "81f323bd-91e2-4838-ab6e-5affd81ffc3b",
           "name": "config-name",
+          "paymentIntentDataSettings": {
+            "sendCardLineItems": false,
+            "sendReceiptEmail": false,
+            "sendShippingAddress": false,
+            "statementDescriptorSuffixTemplate": null,
+          },
+          "paymentMethodsSettings": {
+            "allowedPaymentMethods": null,
+            "transactionFlowOverrides": {},
+          },
           "publishableKey": "pk_live_1",
           "restrictedKey": "...GGGG",
           "webhookStatus": undefined,
@@ -1,5 +1,6 @@
 import { z } from "zod";
 
+import { PaymentMethodsSettingsFieldsSchema } from "@/modules/app-config/domain/payment-methods-settings";
 import {
   createStripePublishableKey,
   type StripePublishableKey,
@@ -9,6 +10,35 @@ import {
   type StripeRestrictedKey,
 } from "@/modules/stripe/stripe-restricted-key";
 
+export const stripeRestrictedKeyInputSchema = z
+  .string()
+  .transform((value, ctx): StripeRestrictedKey => {
+    const validPrefix = value.startsWith("rk_test_") || value.startsWith("rk_live_");
+
+    if (!validPrefix) {
+      ctx.addIssue({
+        message: "Invalid Restricted Key format. Must start with 'rk_test_' or 'rk_live_'.",
+        code: z.ZodIssueCode.custom,
+        fatal: true,
+      });
+
+      return z.NEVER;
+    }
+
+    return createStripeRestrictedKey(value).match(
+      (parsed) => parsed,
+      () => {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Invalid Restricted Key format",
+          fatal: true,
+        });
+
+        return z.NEVER;
+      },
+    );
+  });
+
 export const newStripeConfigInputSchema = z
   .object({
     name: z.string().min(1),
@@ -44,32 +74,11 @@ export const newStripeConfigInputSchema = z
         },
       );
     }),
-    restrictedKey: z.string().transform((value, ctx): StripeRestrictedKey => {
-      const validPrefix = value.startsWith("rk_test_") || value.startsWith("rk_live_");
-
-      if (!validPrefix) {
-        ctx.addIssue({
-          message: "Invalid Restricted Key format. Must start with 'rk_test_' or 'rk_live_'.",
-          code: z.ZodIssueCode.custom,
-          fatal: true,
-        });
-
-        return z.NEVER;
-      }
-
-      return createStripeRestrictedKey(value).match(
-        (parsed) => parsed,
-        () => {
-          ctx.addIssue({
-            code: z.ZodIssueCode.custom,
-            message: "Invalid Restricted Key format",
-            fatal: true,
-          });
-
-          return z.NEVER;
-        },
-      );
-    }),
+    restrictedKey: stripeRestrictedKeyInputSchema,
+    /**
+     * Optional - if not provided config allows all payment methods with flow sent by Saleor
+     */
+    paymentMethodsSettings: PaymentMethodsSettingsFieldsSchema.optional(),
   })
   .refine(
     (values) => {
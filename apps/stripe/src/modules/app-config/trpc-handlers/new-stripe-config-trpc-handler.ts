@@ -1,8 +1,10 @@
 import { captureException } from "@sentry/nextjs";
 import { TRPCError } from "@trpc/server";
+import { ok } from "neverthrow";
 
 import { BaseError } from "@/lib/errors";
 import { RandomId } from "@/lib/random-id";
+import { PaymentMethodsSettings } from "@/modules/app-config/domain/payment-methods-settings";
 import { StripeConfig } from "@/modules/app-config/domain/stripe-config";
 import { newStripeConfigInputSchema } from "@/modules/app-config/trpc-handlers/new-stripe-config-input-schema";
 import { createSaleorApiUrl } from "@/modules/saleor/saleor-api-url";
@@ -52,6 +54,17 @@ export class NewStripeConfigTrpcHandler {
         });
       }
 
+      const paymentMethodsSettings = input.paymentMethodsSettings
+        ? PaymentMethodsSettings.create(input.paymentMethodsSettings)
+        : ok(PaymentMethodsSettings.createDefault());
+
+      if (paymentMethodsSettings.isErr()) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `Failed to create Stripe configuration: ${paymentMethodsSettings.error.message}`,
+        });
+      }
+
       const configId = new RandomId().generate();
 
       /**
@@ -69,6 +82,7 @@ export class NewStripeConfigTrpcHandler {
          */
         webhookSecret: createStripeWebhookSecret("whsec_TODO")._unsafeUnwrap(),
         webhookId: "wh_TODO",
+        paymentMethodsSettings: paymentMethodsSettings.value,
       });
 
       // TODO: Handle exact reasons, give good messages
@@ -140,6 +154,7 @@ export class NewStripeConfigTrpcHandler {
         id: configId,
         webhookSecret: stripeWebhookSecretVo.value,
         webhookId: stripeWebhookId,
+        paymentMethodsSettings: paymentMethodsSettings.value,
       });
 
       if (configToSave.isErr()) {
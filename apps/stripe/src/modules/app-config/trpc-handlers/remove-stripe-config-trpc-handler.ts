@@ -110,6 +110,14 @@ export class RemoveStripeConfigTrpcHandler {
            */
         }
 
+        if (configToRemove.connectWebhook) {
+          // Ignored for the same reason as main webhook
+          await this.webhookManager.removeWebhook({
+            webhookId: configToRemove.connectWebhook.id,
+            restrictedKey: configToRemove.restrictedKey,
+          });
+        }
+
         /**
          * TODO: To make it more reliable, we can use transact writes in DynamoDB, but even if this partially fails,
          * next operations should fix invalid state
@@ -0,0 +1,254 @@
+import { captureException } from "@sentry/nextjs";
+import { TRPCError } from "@trpc/server";
+import { type Client } from "urql";
+import { z } from "zod";
+
+import { BaseError } from "@/lib/errors";
+import { createLogger } from "@/lib/logger";
+import { StripeConfig } from "@/modules/app-config/domain/stripe-config";
+import { stripeRestrictedKeyInputSchema } from "@/modules/app-config/trpc-handlers/new-stripe-config-input-schema";
+import { AuditLogEntry } from "@/modules/audit-log/domain/audit-log-entry";
+import { type AuditLogRepo } from "@/modules/audit-log/repositories/audit-log-repo";
+import { type CurrentUserFetcher } from "@/modules/saleor/current-user-fetcher";
+import { createSaleorApiUrl } from "@/modules/saleor/saleor-api-url";
+import { StripeAuthValidator } from "@/modules/stripe/stripe-auth-validator";
+import { StripeClient } from "@/modules/stripe/stripe-client";
+import { type StripeRestrictedKey } from "@/modules/stripe/stripe-restricted-key";
+import { type StripeWebhookManager } from "@/modules/stripe/stripe-webhook-manager";
+import { createStripeWebhookSecret } from "@/modules/stripe/stripe-webhook-secret";
+import { protectedClientProcedure } from "@/modules/trpc/protected-client-procedure";
+
+/**
+ * Covers deliveries that were already in flight when the previous webhook was removed
+ */
+const PREVIOUS_WEBHOOK_SECRET_GRACE_PERIOD_MS = 60 * 60 * 1000;
+
+/**
+ * Replaces restricted key of existing config, without removing it and its channels mapping.
+ * Webhook is recreated with the new key, so its secret is rotated as well.
+ */
+export class RotateStripeConfigCredentialsTrpcHandler {
+  baseProcedure = protectedClientProcedure;
+
+  private logger = createLogger("RotateStripeConfigCredentialsTrpcHandler");
+  private readonly webhookManager: StripeWebhookManager;
+  private readonly auditLogRepo: AuditLogRepo;
+  private readonly currentUserFetcherFactory: (client: Client) => CurrentUserFetcher;
+
+  constructor(deps: {
+    webhookManager: StripeWebhookManager;
+    auditLogRepo: AuditLogRepo;
+    currentUserFetcherFactory: (client: Client) => CurrentUserFetcher;
+  }) {
+    this.webhookManager = deps.webhookManager;
+    this.auditLogRepo = deps.auditLogRepo;
+    this.currentUserFetcherFactory = deps.currentUserFetcherFactory;
+  }
+
+  private validateRk(rk: StripeRestrictedKey) {
+    const validator = StripeAuthValidator.createFromClient(
+      StripeClient.createFromRestrictedKey(rk),
+    );
+
+    return validator.validateStripeAuth();
+  }
+
+  getTrpcProcedure() {
+    return this.baseProcedure
+      .input(
+        z.object({
+          configId: z.string(),
+          restrictedKey: stripeRestrictedKeyInputSchema,
+        }),
+      )
+      .mutation(async ({ input, ctx }) => {
+        const saleorApiUrl = createSaleorApiUrl(ctx.saleorApiUrl);
+
+        if (saleorApiUrl.isErr()) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Malformed request",
+          });
+        }
+
+        if (!ctx.appUrl) {
+          captureException(new BaseError("Missing appUrl in TRPC request"));
+
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Something went wrong, please contact support.",
+          });
+        }
+
+        const accessPattern = {
+          saleorApiUrl: saleorApiUrl.value,
+          appId: ctx.appId,
+        };
+
+        const existingConfig = await ctx.configRepo.getStripeConfig({
+          ...accessPattern,
+          configId: input.configId,
+        });
+
+        if (existingConfig.isErr()) {
+          this.logger.error("Failed to fetch config", { error: existingConfig.error });
+
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "App failed to fetch config, please contact Saleor",
+          });
+        }
+
+        if (!existingConfig.value) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Configuration not found",
+          });
+        }
+
+        const previousConfig = existingConfig.value;
+
+        /**
+         * Create model just to validate the new key matches environment of publishable key
+         */
+        const configValidation = StripeConfig.create({
+          ...previousConfig,
+          restrictedKey: input.restrictedKey,
+        });
+
+        if (configValidation.isErr()) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Failed to rotate credentials: ${configValidation.error.message}`,
+          });
+        }
+
+        const rkValidationResult = await this.validateRk(input.restrictedKey);
+
+        if (rkValidationResult.isErr()) {
+          throw new TRPCError({
+            code: "UNAUTHORIZED",
+            message: "Failed to rotate credentials. Restricted key is invalid",
+          });
+        }
+
+        const currentUser = await this.currentUserFetcherFactory(ctx.apiClient).fetchCurrentUser();
+
+        if (currentUser.isErr()) {
+          this.logger.error("Failed to fetch current user", { error: currentUser.error });
+
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Failed to rotate credentials. Can't resolve user who requested it.",
+          });
+        }
+
+        const webhookCreationResult = await this.webhookManager.createWebhook(
+          {
+            name: previousConfig.name,
+            restrictedKey: input.restrictedKey,
+            publishableKey: previousConfig.publishableKey,
+            configurationId: previousConfig.id,
+          },
+          {
+            ...accessPattern,
+            appUrl: ctx.appUrl,
+          },
+        );
+
+        if (webhookCreationResult.isErr()) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message:
+              "Failed to create Stripe webhook. Ensure restricted key has Webhook Endpoints write permission.",
+          });
+        }
+
+        const newWebhookSecret = createStripeWebhookSecret(webhookCreationResult.value.secret);
+
+        if (newWebhookSecret.isErr()) {
+          captureException(
+            new BaseError("Secret from Stripe doesnt match expected format", {
+              cause: newWebhookSecret.error,
+            }),
+          );
+
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Failed to create Stripe webhook. Secret is invalid. Please contact support.",
+          });
+        }
+
+        const configToSave = StripeConfig.create({
+          name: previousConfig.name,
+          id: previousConfig.id,
+          restrictedKey: input.restrictedKey,
+          publishableKey: previousConfig.publishableKey,
+          webhookSecret: newWebhookSecret.value,
+          webhookId: webhookCreationResult.value.id,
+          paymentMethodsSettings: previousConfig.paymentMethodsSettings,
+          paymentIntentDataSettings: previousConfig.paymentIntentDataSettings,
+          fraudRulesSettings: previousConfig.fraudRulesSettings,
+          connectSettings: previousConfig.connectSettings,
+          connectWebhook: previousConfig.connectWebhook,
+          previousWebhookSecret: {
+            secret: previousConfig.webhookSecret,
+            expiresAt: new Date(Date.now() + PREVIOUS_WEBHOOK_SECRET_GRACE_PERIOD_MS),
+          },
+        });
+
+        const saveResult = configToSave.isOk()
+          ? await ctx.configRepo.saveStripeConfig({
+              ...accessPattern,
+              config: configToSave.value,
+            })
+          : configToSave;
+
+        if (saveResult.isErr()) {
+          captureException(saveResult.error);
+
+          // Config still points to the previous webhook, so the new one would never be used
+          await this.webhookManager.removeWebhook({
+            webhookId: webhookCreationResult.value.id,
+            restrictedKey: input.restrictedKey,
+          });
+
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Failed to rotate credentials. Data can't be saved.",
+          });
+        }
+
+        /**
+         * Removed with the new key - the previous one may be already revoked in Stripe Dashboard
+         */
+        const previousWebhookRemovalResult = await this.webhookManager.removeWebhook({
+          webhookId: previousConfig.webhookId,
+          restrictedKey: input.restrictedKey,
+        });
+
+        if (previousWebhookRemovalResult.isErr()) {
+          this.logger.warn("Failed to remove previous webhook, it must be removed manually", {
+            error: previousWebhookRemovalResult.error,
+            webhookId: previousConfig.webhookId,
+          });
+        }
+
+        const auditLogResult = await this.auditLogRepo.saveEntry(
+          accessPattern,
+          AuditLogEntry.createStripeCredentialsRotatedEntry({
+            configurationId: previousConfig.id,
+            actor: currentUser.value,
+          }),
+        );
+
+        if (auditLogResult.isErr()) {
+          // Credentials are already rotated, so request is not failed
+          this.logger.error("Failed to save audit log entry", { error: auditLogResult.error });
+          captureException(auditLogResult.error);
+        }
+
+        this.logger.info("Stripe config credentials rotated", { configId: previousConfig.id });
+      });
+  }
+}
@@ -0,0 +1,147 @@
+import { err, ok } from "neverthrow";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { mockedAppConfigRepo } from "@/__tests__/mocks/app-config-repo";
+import {
+  mockedAppToken,
+  mockedConfigurationId,
+  mockedSaleorAppId,
+} from "@/__tests__/mocks/constants";
+import { mockedGraphqlClient } from "@/__tests__/mocks/graphql-client";
+import { mockedStripeConfig } from "@/__tests__/mocks/mock-stripe-config";
+import { mockedSaleorApiUrl } from "@/__tests__/mocks/saleor-api-url";
+import { mockStripeWebhookSecret } from "@/__tests__/mocks/stripe-webhook-secret";
+import { TEST_Procedure } from "@/__tests__/trpc-testing-procedure";
+import { ConnectSettings } from "@/modules/app-config/domain/connect-settings";
+import { StripeConfig } from "@/modules/app-config/domain/stripe-config";
+import { UpdateConnectSettingsTrpcHandler } from "@/modules/app-config/trpc-handlers/update-connect-settings-trpc-handler";
+import {
+  StripeWebhookManager,
+  StripeWebhookManagerErrors,
+} from "@/modules/stripe/stripe-webhook-manager";
+import { router } from "@/modules/trpc/trpc-server";
+
+const webhookManager = new StripeWebhookManager();
+
+const getTestCaller = () => {
+  const instance = new UpdateConnectSettingsTrpcHandler({ webhookManager });
+
+  // @ts-expect-error - context doesnt match but its applied in test
+  instance.baseProcedure = TEST_Procedure;
+
+  const testRouter = router({
+    testProcedure: instance.getTrpcProcedure(),
+  });
+
+  return {
+    mockedAppConfigRepo,
+    caller: testRouter.createCaller({
+      appId: mockedSaleorAppId,
+      saleorApiUrl: mockedSaleorApiUrl,
+      token: mockedAppToken,
+      configRepo: mockedAppConfigRepo,
+      apiClient: mockedGraphqlClient,
+      appUrl: "https://localhost:3000",
+    }),
+  };
+};
+
+const connectSettingsFields = {
+  destinationSource: "CHANNEL_METADATA" as const,
+  destinationMetadataKey: "stripe_connected_account_id",
+  applicationFeePercent: 10,
+};
+
+describe("UpdateConnectSettingsTrpcHandler", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.spyOn(webhookManager, "createWebhook");
+    vi.spyOn(webhookManager, "removeWebhook");
+  });
+
+  it("Enables Connect mode, creates Connect webhook and keeps other settings", async () => {
+    const { caller, mockedAppConfigRepo } = getTestCaller();
+
+    vi.spyOn(mockedAppConfigRepo, "getStripeConfig").mockImplementationOnce(async () =>
+      ok(mockedStripeConfig),
+    );
+    vi.spyOn(mockedAppConfigRepo, "saveStripeConfig").mockImplementationOnce(async () => ok(null));
+    vi.mocked(webhookManager.createWebhook).mockImplementationOnce(async () =>
+      ok({ id: "we_connect", secret: mockStripeWebhookSecret }),
+    );
+
+    await caller.testProcedure({
+      configId: mockedConfigurationId,
+      connectSettings: connectSettingsFields,
+    });
+
+    expect(webhookManager.createWebhook).toHaveBeenCalledWith(
+      expect.objectContaining({ configurationId: mockedStripeConfig.id }),
+      expect.objectContaining({ appUrl: "https://localhost:3000" }),
+      { connect: true },
+    );
+
+    const { config } = vi.mocked(mockedAppConfigRepo.saveStripeConfig).mock.calls[0][0];
+
+    expect(config.webhookId).toBe(mockedStripeConfig.webhookId);
+    expect(config.paymentIntentDataSettings).toBe(mockedStripeConfig.paymentIntentDataSettings);
+    expect(config.connectSettings?.getFields()).toStrictEqual(connectSettingsFields);
+    expect(config.connectWebhook).toStrictEqual({
+      id: "we_connect",
+      secret: mockStripeWebhookSecret,
+    });
+  });
+
+  it("Disables Connect mode and removes Connect webhook", async () => {
+    const { caller, mockedAppConfigRepo } = getTestCaller();
+
+    vi.spyOn(mockedAppConfigRepo, "getStripeConfig").mockImplementationOnce(async () =>
+      ok(
+        StripeConfig.create({
+          ...mockedStripeConfig,
+          connectSettings: ConnectSettings.create(connectSettingsFields)._unsafeUnwrap(),
+          connectWebhook: { id: "we_connect", secret: mockStripeWebhookSecret },
+        })._unsafeUnwrap(),
+      ),
+    );
+    vi.spyOn(mockedAppConfigRepo, "saveStripeConfig").mockImplementationOnce(async () => ok(null));
+    vi.mocked(webhookManager.removeWebhook).mockImplementationOnce(async () => ok(null));
+
+    await caller.testProcedure({
+      configId: mockedConfigurationId,
+      connectSettings: null,
+    });
+
+    expect(webhookManager.removeWebhook).toHaveBeenCalledWith({
+      webhookId: "we_connect",
+      restrictedKey: mockedStripeConfig.restrictedKey,
+    });
+
+    const { config } = vi.mocked(mockedAppConfigRepo.saveStripeConfig).mock.calls[0][0];
+
+    expect(config.connectSettings).toBeNull();
+    expect(config.connectWebhook).toBeNull();
+  });
+
+  it("Returns error 400 and doesn't save config if Connect webhook can't be created", async () => {
+    const { caller, mockedAppConfigRepo } = getTestCaller();
+
+    vi.spyOn(mockedAppConfigRepo, "getStripeConfig").mockImplementationOnce(async () =>
+      ok(mockedStripeConfig),
+    );
+    vi.mocked(webhookManager.createWebhook).mockImplementationOnce(async () =>
+      err(new StripeWebhookManagerErrors.CantCreateWebhookError("Connect is not enabled")),
+    );
+
+    await expect(
+      caller.testProcedure({
+        configId: mockedConfigurationId,
+        connectSettings: connectSettingsFields,
+      }),
+    ).rejects.toThrowErrorMatchingInlineSnapshot(
+      `[TRPCError: Failed to create Stripe webhook for connected accounts. Ensure Connect is enabled on your Stripe account and restricted key has Webhook Endpoints write permission.]`,
+    );
+
+    expect(mockedAppConfigRepo.saveStripeConfig).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,211 @@
+import { captureException } from "@sentry/nextjs";
+import { TRPCError } from "@trpc/server";
+import { ok } from "neverthrow";
+import { z } from "zod";
+
+import { BaseError } from "@/lib/errors";
+import { createLogger } from "@/lib/logger";
+import {
+  ConnectSettings,
+  ConnectSettingsFieldsSchema,
+} from "@/modules/app-config/domain/connect-settings";
+import { StripeConfig, type StripeConnectWebhook } from "@/modules/app-config/domain/stripe-config";
+import { createSaleorApiUrl, type SaleorApiUrl } from "@/modules/saleor/saleor-api-url";
+import { type StripeWebhookManager } from "@/modules/stripe/stripe-webhook-manager";
+import { createStripeWebhookSecret } from "@/modules/stripe/stripe-webhook-secret";
+import { protectedClientProcedure } from "@/modules/trpc/protected-client-procedure";
+
+/**
+ * Enables (with settings) or disables (with null) Stripe Connect mode. Webhook receiving connected accounts events is
+ * created when mode is enabled and removed when it's disabled.
+ */
+export class UpdateConnectSettingsTrpcHandler {
+  baseProcedure = protectedClientProcedure;
+
+  private logger = createLogger("UpdateConnectSettingsTrpcHandler");
+  private readonly webhookManager: StripeWebhookManager;
+
+  constructor(deps: { webhookManager: StripeWebhookManager }) {
+    this.webhookManager = deps.webhookManager;
+  }
+
+  private async createConnectWebhookOrThrow({
+    config,
+    appUrl,
+    saleorApiUrl,
+    appId,
+  }: {
+    config: StripeConfig;
+    appUrl: string;
+    saleorApiUrl: SaleorApiUrl;
+    appId: string;
+  }): Promise<StripeConnectWebhook> {
+    const webhookCreationResult = await this.webhookManager.createWebhook(
+      {
+        name: config.name,
+        restrictedKey: config.restrictedKey,
+        publishableKey: config.publishableKey,
+        configurationId: config.id,
+      },
+      { appUrl, saleorApiUrl, appId },
+      { connect: true },
+    );
+
+    if (webhookCreationResult.isErr()) {
+      this.logger.warn("Failed to create Connect webhook", { error: webhookCreationResult.error });
+
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message:
+          "Failed to create Stripe webhook for connected accounts. Ensure Connect is enabled on your Stripe account and restricted key has Webhook Endpoints write permission.",
+      });
+    }
+
+    const secret = createStripeWebhookSecret(webhookCreationResult.value.secret);
+
+    if (secret.isErr()) {
+      captureException(
+        new BaseError("Secret from Stripe doesnt match expected format", {
+          cause: secret.error,
+        }),
+      );
+
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: "Failed to create Stripe webhook. Secret is invalid. Please contact support.",
+      });
+    }
+
+    return { id: webhookCreationResult.value.id, secret: secret.value };
+  }
+
+  getTrpcProcedure() {
+    return this.baseProcedure
+      .input(
+        z.object({
+          configId: z.string(),
+          connectSettings: ConnectSettingsFieldsSchema.nullable(),
+        }),
+      )
+      .mutation(async ({ input, ctx }) => {
+        const saleorApiUrl = createSaleorApiUrl(ctx.saleorApiUrl);
+
+        if (saleorApiUrl.isErr()) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Malformed request",
+          });
+        }
+
+        if (!ctx.appUrl) {
+          captureException(new BaseError("Missing appUrl in TRPC request"));
+
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Something went wrong, please contact support.",
+          });
+        }
+
+        const connectSettingsResult = input.connectSettings
+          ? ConnectSettings.create(input.connectSettings)
+          : ok(null);
+
+        if (connectSettingsResult.isErr()) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Failed to update Stripe Connect settings: ${connectSettingsResult.error.message}`,
+          });
+        }
+
+        const connectSettings = connectSettingsResult.value;
+
+        const accessPattern = {
+          saleorApiUrl: saleorApiUrl.value,
+          appId: ctx.appId,
+        };
+
+        const existingConfig = await ctx.configRepo.getStripeConfig({
+          ...accessPattern,
+          configId: input.configId,
+        });
+
+        if (existingConfig.isErr()) {
+          this.logger.error("Failed to fetch config", { error: existingConfig.error });
+
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "App failed to fetch config, please contact Saleor",
+          });
+        }
+
+        if (!existingConfig.value) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Configuration not found",
+          });
+        }
+
+        let connectWebhook = existingConfig.value.connectWebhook;
+
+        if (connectSettings && !connectWebhook) {
+          connectWebhook = await this.createConnectWebhookOrThrow({
+            config: existingConfig.value,
+            appUrl: ctx.appUrl,
+            ...accessPattern,
+          });
+        }
+
+        if (!connectSettings && connectWebhook) {
+          const removalResult = await this.webhookManager.removeWebhook({
+            webhookId: connectWebhook.id,
+            restrictedKey: existingConfig.value.restrictedKey,
+          });
+
+          if (removalResult.isErr()) {
+            // Ignore - webhook could be removed in Stripe Dashboard. Its events are not verified without stored secret
+            this.logger.warn("Failed to remove Connect webhook", { error: removalResult.error });
+          }
+
+          connectWebhook = null;
+        }
+
+        const configToSave = StripeConfig.create({
+          name: existingConfig.value.name,
+          id: existingConfig.value.id,
+          restrictedKey: existingConfig.value.restrictedKey,
+          publishableKey: existingConfig.value.publishableKey,
+          webhookSecret: existingConfig.value.webhookSecret,
+          webhookId: existingConfig.value.webhookId,
+          paymentMethodsSettings: existingConfig.value.paymentMethodsSettings,
+          paymentIntentDataSettings: existingConfig.value.paymentIntentDataSettings,
+          fraudRulesSettings: existingConfig.value.fraudRulesSettings,
+          connectSettings,
+          connectWebhook,
+          previousWebhookSecret: existingConfig.value.previousWebhookSecret,
+        });
+
+        if (configToSave.isErr()) {
+          captureException(configToSave.error);
+
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Failed to update Stripe Connect settings. Please contact support.",
+          });
+        }
+
+        const saveResult = await ctx.configRepo.saveStripeConfig({
+          ...accessPattern,
+          config: configToSave.value,
+        });
+
+        if (saveResult.isErr()) {
+          this.logger.error("Failed to save config", { error: saveResult.error });
+
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Failed to update Stripe Connect settings. Data can't be saved.",
+          });
+        }
+      });
+  }
+}
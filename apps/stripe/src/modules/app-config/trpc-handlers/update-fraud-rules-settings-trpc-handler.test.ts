@@ -0,0 +1,108 @@
+import { ok } from "neverthrow";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { mockedAppConfigRepo } from "@/__tests__/mocks/app-config-repo";
+import {
+  mockedAppToken,
+  mockedConfigurationId,
+  mockedSaleorAppId,
+} from "@/__tests__/mocks/constants";
+import { mockedGraphqlClient } from "@/__tests__/mocks/graphql-client";
+import { mockedStripeConfig } from "@/__tests__/mocks/mock-stripe-config";
+import { mockedSaleorApiUrl } from "@/__tests__/mocks/saleor-api-url";
+import { TEST_Procedure } from "@/__tests__/trpc-testing-procedure";
+import { UpdateFraudRulesSettingsTrpcHandler } from "@/modules/app-config/trpc-handlers/update-fraud-rules-settings-trpc-handler";
+import { router } from "@/modules/trpc/trpc-server";
+
+const getTestCaller = () => {
+  const instance = new UpdateFraudRulesSettingsTrpcHandler();
+
+  // @ts-expect-error - context doesnt match but its applied in test
+  instance.baseProcedure = TEST_Procedure;
+
+  const testRouter = router({
+    testProcedure: instance.getTrpcProcedure(),
+  });
+
+  return {
+    mockedAppConfigRepo,
+    caller: testRouter.createCaller({
+      appId: mockedSaleorAppId,
+      saleorApiUrl: mockedSaleorApiUrl,
+      token: mockedAppToken,
+      configRepo: mockedAppConfigRepo,
+      apiClient: mockedGraphqlClient,
+      appUrl: "https://localhost:3000",
+    }),
+  };
+};
+
+describe("UpdateFraudRulesSettingsTrpcHandler", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("Saves existing config with new fraud rules and keeps other settings", async () => {
+    const { caller, mockedAppConfigRepo } = getTestCaller();
+
+    vi.spyOn(mockedAppConfigRepo, "getStripeConfig").mockImplementationOnce(async () =>
+      ok(mockedStripeConfig),
+    );
+    vi.spyOn(mockedAppConfigRepo, "saveStripeConfig").mockImplementationOnce(async () => ok(null));
+
+    await caller.testProcedure({
+      configId: mockedConfigurationId,
+      fraudRulesSettings: {
+        blockedEmailDomains: ["Mailinator.com"],
+        blockCountryMismatch: true,
+        firstTimeBuyerAmountLimit: 300,
+      },
+    });
+
+    const { config } = vi.mocked(mockedAppConfigRepo.saveStripeConfig).mock.calls[0][0];
+
+    expect(config.id).toBe(mockedStripeConfig.id);
+    expect(config.restrictedKey).toBe(mockedStripeConfig.restrictedKey);
+    expect(config.paymentMethodsSettings).toBe(mockedStripeConfig.paymentMethodsSettings);
+    expect(config.paymentIntentDataSettings).toBe(mockedStripeConfig.paymentIntentDataSettings);
+    expect(config.fraudRulesSettings.getFields()).toStrictEqual({
+      blockedEmailDomains: ["mailinator.com"],
+      blockCountryMismatch: true,
+      firstTimeBuyerAmountLimit: 300,
+    });
+  });
+
+  it("Returns error 400 and doesn't save config if email domain is invalid", async () => {
+    const { caller, mockedAppConfigRepo } = getTestCaller();
+
+    await expect(
+      caller.testProcedure({
+        configId: mockedConfigurationId,
+        fraudRulesSettings: {
+          blockedEmailDomains: ["user@mailinator.com"],
+          blockCountryMismatch: false,
+          firstTimeBuyerAmountLimit: null,
+        },
+      }),
+    ).rejects.toThrow("Invalid email domain");
+
+    expect(mockedAppConfigRepo.saveStripeConfig).not.toHaveBeenCalled();
+  });
+
+  it("Returns error 404 if config doesn't exist", async () => {
+    const { caller, mockedAppConfigRepo } = getTestCaller();
+
+    vi.spyOn(mockedAppConfigRepo, "getStripeConfig").mockImplementationOnce(async () => ok(null));
+
+    await expect(
+      caller.testProcedure({
+        configId: mockedConfigurationId,
+        fraudRulesSettings: {
+          blockedEmailDomains: [],
+          blockCountryMismatch: false,
+          firstTimeBuyerAmountLimit: null,
+        },
+      }),
+    ).rejects.toThrowErrorMatchingInlineSnapshot(`[TRPCError: Configuration not found]`);
+  });
+});
@@ -0,0 +1,111 @@
+import { captureException } from "@sentry/nextjs";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import { createLogger } from "@/lib/logger";
+import {
+  FraudRulesSettings,
+  FraudRulesSettingsFieldsSchema,
+} from "@/modules/app-config/domain/fraud-rules-settings";
+import { StripeConfig } from "@/modules/app-config/domain/stripe-config";
+import { createSaleorApiUrl } from "@/modules/saleor/saleor-api-url";
+import { protectedClientProcedure } from "@/modules/trpc/protected-client-procedure";
+
+export class UpdateFraudRulesSettingsTrpcHandler {
+  baseProcedure = protectedClientProcedure;
+
+  private logger = createLogger("UpdateFraudRulesSettingsTrpcHandler");
+
+  getTrpcProcedure() {
+    return this.baseProcedure
+      .input(
+        z.object({
+          configId: z.string(),
+          fraudRulesSettings: FraudRulesSettingsFieldsSchema,
+        }),
+      )
+      .mutation(async ({ input, ctx }) => {
+        const saleorApiUrl = createSaleorApiUrl(ctx.saleorApiUrl);
+
+        if (saleorApiUrl.isErr()) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Malformed request",
+          });
+        }
+
+        const fraudRulesSettings = FraudRulesSettings.create(input.fraudRulesSettings);
+
+        if (fraudRulesSettings.isErr()) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Failed to update fraud rules: ${fraudRulesSettings.error.message}`,
+          });
+        }
+
+        const accessPattern = {
+          saleorApiUrl: saleorApiUrl.value,
+          appId: ctx.appId,
+        };
+
+        const existingConfig = await ctx.configRepo.getStripeConfig({
+          ...accessPattern,
+          configId: input.configId,
+        });
+
+        if (existingConfig.isErr()) {
+          this.logger.error("Failed to fetch config", { error: existingConfig.error });
+
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "App failed to fetch config, please contact Saleor",
+          });
+        }
+
+        if (!existingConfig.value) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Configuration not found",
+          });
+        }
+
+        const configToSave = StripeConfig.create({
+          name: existingConfig.value.name,
+          id: existingConfig.value.id,
+          restrictedKey: existingConfig.value.restrictedKey,
+          publishableKey: existingConfig.value.publishableKey,
+          webhookSecret: existingConfig.value.webhookSecret,
+          webhookId: existingConfig.value.webhookId,
+          paymentMethodsSettings: existingConfig.value.paymentMethodsSettings,
+          paymentIntentDataSettings: existingConfig.value.paymentIntentDataSettings,
+          fraudRulesSettings: fraudRulesSettings.value,
+          connectSettings: existingConfig.value.connectSettings,
+          connectWebhook: existingConfig.value.connectWebhook,
+          previousWebhookSecret: existingConfig.value.previousWebhookSecret,
+        });
+
+        if (configToSave.isErr()) {
+          captureException(configToSave.error);
+
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Failed to update fraud rules. Please contact support.",
+          });
+        }
+
+        const saveResult = await ctx.configRepo.saveStripeConfig({
+          ...accessPattern,
+          config: configToSave.value,
+        });
+
+        if (saveResult.isErr()) {
+          this.logger.error("Failed to save config", { error: saveResult.error });
+
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Failed to update fraud rules. Data can't be saved.",
+          });
+        }
+      });
+  }
+}
@@ -0,0 +1,113 @@
+import { ok } from "neverthrow";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { mockedAppConfigRepo } from "@/__tests__/mocks/app-config-repo";
+import {
+  mockedAppToken,
+  mockedConfigurationId,
+  mockedSaleorAppId,
+} from "@/__tests__/mocks/constants";
+import { mockedGraphqlClient } from "@/__tests__/mocks/graphql-client";
+import { mockedStripeConfig } from "@/__tests__/mocks/mock-stripe-config";
+import { mockedSaleorApiUrl } from "@/__tests__/mocks/saleor-api-url";
+import { TEST_Procedure } from "@/__tests__/trpc-testing-procedure";
+import { UpdatePaymentIntentDataSettingsTrpcHandler } from "@/modules/app-config/trpc-handlers/update-payment-intent-data-settings-trpc-handler";
+import { router } from "@/modules/trpc/trpc-server";
+
+const getTestCaller = () => {
+  const instance = new UpdatePaymentIntentDataSettingsTrpcHandler();
+
+  // @ts-expect-error - context doesnt match but its applied in test
+  instance.baseProcedure = TEST_Procedure;
+
+  const testRouter = router({
+    testProcedure: instance.getTrpcProcedure(),
+  });
+
+  return {
+    mockedAppConfigRepo,
+    caller: testRouter.createCaller({
+      appId: mockedSaleorAppId,
+      saleorApiUrl: mockedSaleorApiUrl,
+      token: mockedAppToken,
+      configRepo: mockedAppConfigRepo,
+      apiClient: mockedGraphqlClient,
+      appUrl: "https://localhost:3000",
+    }),
+  };
+};
+
+describe("UpdatePaymentIntentDataSettingsTrpcHandler", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("Saves existing config with new payment intent data settings and keeps payment methods settings", async () => {
+    const { caller, mockedAppConfigRepo } = getTestCaller();
+
+    vi.spyOn(mockedAppConfigRepo, "getStripeConfig").mockImplementationOnce(async () =>
+      ok(mockedStripeConfig),
+    );
+    vi.spyOn(mockedAppConfigRepo, "saveStripeConfig").mockImplementationOnce(async () => ok(null));
+
+    await caller.testProcedure({
+      configId: mockedConfigurationId,
+      paymentIntentDataSettings: {
+        sendShippingAddress: true,
+        sendReceiptEmail: true,
+        statementDescriptorSuffixTemplate: "ORDER {order_number}",
+        sendCardLineItems: false,
+      },
+    });
+
+    const { config } = vi.mocked(mockedAppConfigRepo.saveStripeConfig).mock.calls[0][0];
+
+    expect(config.id).toBe(mockedStripeConfig.id);
+    expect(config.restrictedKey).toBe(mockedStripeConfig.restrictedKey);
+    expect(config.paymentMethodsSettings).toBe(mockedStripeConfig.paymentMethodsSettings);
+    expect(config.paymentIntentDataSettings.getFields()).toStrictEqual({
+      sendShippingAddress: true,
+      sendReceiptEmail: true,
+      statementDescriptorSuffixTemplate: "ORDER {order_number}",
+      sendCardLineItems: false,
+    });
+  });
+
+  it("Returns error 400 if statement descriptor suffix template contains forbidden characters", async () => {
+    const { caller, mockedAppConfigRepo } = getTestCaller();
+
+    await expect(
+      caller.testProcedure({
+        configId: mockedConfigurationId,
+        paymentIntentDataSettings: {
+          sendShippingAddress: false,
+          sendReceiptEmail: false,
+          statementDescriptorSuffixTemplate: "<ORDER>",
+          sendCardLineItems: false,
+        },
+      }),
+    ).rejects.toThrowErrorMatchingInlineSnapshot(
+      `[TRPCError: Failed to update payment data settings: Statement descriptor suffix can't contain any of characters: < > \\ ' " *]`,
+    );
+
+    expect(mockedAppConfigRepo.saveStripeConfig).not.toHaveBeenCalled();
+  });
+
+  it("Returns error 404 if config doesn't exist", async () => {
+    const { caller, mockedAppConfigRepo } = getTestCaller();
+
+    vi.spyOn(mockedAppConfigRepo, "getStripeConfig").mockImplementationOnce(async () => ok(null));
+
+    await expect(
+      caller.testProcedure({
+        configId: mockedConfigurationId,
+        paymentIntentDataSettings: {
+          sendShippingAddress: false,
+          sendReceiptEmail: false,
+          statementDescriptorSuffixTemplate: null,
+          sendCardLineItems: false,
+        },
+      }),
+    ).rejects.toThrowErrorMatchingInlineSnapshot(`[TRPCError: Configuration not found]`);
+  });
+});
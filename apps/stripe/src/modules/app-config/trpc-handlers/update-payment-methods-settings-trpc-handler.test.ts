@@ -0,0 +1,129 @@
+import { err, ok } from "neverthrow";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { mockedAppConfigRepo } from "@/__tests__/mocks/app-config-repo";
+import {
+  mockedAppToken,
+  mockedConfigurationId,
+  mockedSaleorAppId,
+} from "@/__tests__/mocks/constants";
+import { mockedGraphqlClient } from "@/__tests__/mocks/graphql-client";
+import { mockedStripeConfig } from "@/__tests__/mocks/mock-stripe-config";
+import { mockedSaleorApiUrl } from "@/__tests__/mocks/saleor-api-url";
+import { TEST_Procedure } from "@/__tests__/trpc-testing-procedure";
+import { BaseError } from "@/lib/errors";
+import { UpdatePaymentMethodsSettingsTrpcHandler } from "@/modules/app-config/trpc-handlers/update-payment-methods-settings-trpc-handler";
+import { router } from "@/modules/trpc/trpc-server";
+
+const getTestCaller = () => {
+  const instance = new UpdatePaymentMethodsSettingsTrpcHandler();
+
+  // @ts-expect-error - context doesnt match but its applied in test
+  instance.baseProcedure = TEST_Procedure;
+
+  const testRouter = router({
+    testProcedure: instance.getTrpcProcedure(),
+  });
+
+  return {
+    mockedAppConfigRepo,
+    caller: testRouter.createCaller({
+      appId: mockedSaleorAppId,
+      saleorApiUrl: mockedSaleorApiUrl,
+      token: mockedAppToken,
+      configRepo: mockedAppConfigRepo,
+      apiClient: mockedGraphqlClient,
+      appUrl: "https://localhost:3000",
+    }),
+  };
+};
+
+describe("UpdatePaymentMethodsSettingsTrpcHandler", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("Saves existing config with new payment methods settings", async () => {
+    const { caller, mockedAppConfigRepo } = getTestCaller();
+
+    vi.spyOn(mockedAppConfigRepo, "getStripeConfig").mockImplementationOnce(async () =>
+      ok(mockedStripeConfig),
+    );
+    vi.spyOn(mockedAppConfigRepo, "saveStripeConfig").mockImplementationOnce(async () => ok(null));
+
+    await caller.testProcedure({
+      configId: mockedConfigurationId,
+      paymentMethodsSettings: {
+        allowedPaymentMethods: ["card", "klarna"],
+        transactionFlowOverrides: { card: "AUTHORIZATION" },
+      },
+    });
+
+    const { config } = vi.mocked(mockedAppConfigRepo.saveStripeConfig).mock.calls[0][0];
+
+    expect(config.id).toBe(mockedStripeConfig.id);
+    expect(config.restrictedKey).toBe(mockedStripeConfig.restrictedKey);
+    expect(config.webhookSecret).toBe(mockedStripeConfig.webhookSecret);
+    expect(config.paymentMethodsSettings.getFields()).toStrictEqual({
+      allowedPaymentMethods: ["card", "klarna"],
+      transactionFlowOverrides: { card: "AUTHORIZATION" },
+    });
+  });
+
+  it("Returns error 400 if payment methods settings are invalid", async () => {
+    const { caller, mockedAppConfigRepo } = getTestCaller();
+
+    await expect(
+      caller.testProcedure({
+        configId: mockedConfigurationId,
+        paymentMethodsSettings: {
+          allowedPaymentMethods: ["card"],
+          transactionFlowOverrides: { klarna: "CHARGE" },
+        },
+      }),
+    ).rejects.toThrowErrorMatchingInlineSnapshot(
+      `[TRPCError: Failed to update payment methods: Transaction flow can't be overridden for payment method "klarna" that is not allowed]`,
+    );
+
+    expect(mockedAppConfigRepo.saveStripeConfig).not.toHaveBeenCalled();
+  });
+
+  it("Returns error 404 if config doesn't exist", async () => {
+    const { caller, mockedAppConfigRepo } = getTestCaller();
+
+    vi.spyOn(mockedAppConfigRepo, "getStripeConfig").mockImplementationOnce(async () => ok(null));
+
+    await expect(
+      caller.testProcedure({
+        configId: mockedConfigurationId,
+        paymentMethodsSettings: {
+          allowedPaymentMethods: null,
+          transactionFlowOverrides: {},
+        },
+      }),
+    ).rejects.toThrowErrorMatchingInlineSnapshot(`[TRPCError: Configuration not found]`);
+  });
+
+  it("Returns error 500 if repository fails to save config", async () => {
+    const { caller, mockedAppConfigRepo } = getTestCaller();
+
+    vi.spyOn(mockedAppConfigRepo, "getStripeConfig").mockImplementationOnce(async () =>
+      ok(mockedStripeConfig),
+    );
+    vi.spyOn(mockedAppConfigRepo, "saveStripeConfig").mockImplementationOnce(async () =>
+      err(new BaseError("TEST")),
+    );
+
+    await expect(
+      caller.testProcedure({
+        configId: mockedConfigurationId,
+        paymentMethodsSettings: {
+          allowedPaymentMethods: null,
+          transactionFlowOverrides: {},
+        },
+      }),
+    ).rejects.toThrowErrorMatchingInlineSnapshot(
+      `[TRPCError: Failed to update payment methods. Data can't be saved.]`,
+    );
+  });
+});
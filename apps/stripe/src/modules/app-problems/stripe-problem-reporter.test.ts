@@ -132,6 +132,36 @@ describe("StripeProblemReporter", () => {
     });
   });
 
+  describe("reportDisputeEvidenceDue", () => {
+    it("calls reportProblem with key scoped to dispute and due date in message", async () => {
+      mockReportProblem.mockResolvedValue(ok(undefined));
+      const reporter = new StripeProblemReporter(mockClient);
+
+      await reporter.reportDisputeEvidenceDue({
+        disputeId: "dp_123",
+        saleorTransactionId: "transaction-id",
+        evidenceDueBy: new Date("2025-03-01T00:00:00.000Z"),
+      });
+
+      expect(mockReportProblem).toHaveBeenCalledWith({
+        key: "stripe-dispute-evidence-due:dp_123",
+        criticalThreshold: 1,
+        message: expect.stringContaining("2025-03-01T00:00:00.000Z"),
+      });
+    });
+  });
+
+  describe("clearDisputeEvidenceDue", () => {
+    it("clears problem for the given dispute", async () => {
+      mockClearProblems.mockResolvedValue(ok(undefined));
+      const reporter = new StripeProblemReporter(mockClient);
+
+      await reporter.clearDisputeEvidenceDue("dp_123");
+
+      expect(mockClearProblems).toHaveBeenCalledWith(["stripe-dispute-evidence-due:dp_123"]);
+    });
+  });
+
   describe("clearProblemsForConfig", () => {
     it("clears all 4 problem keys for the given configId", async () => {
       mockClearProblems.mockResolvedValue(ok(undefined));
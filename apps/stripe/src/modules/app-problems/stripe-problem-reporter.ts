@@ -16,6 +16,7 @@ export const PROBLEM_KEYS = {
   webhookSecretMismatch: (configId: string) => `stripe-webhook-secret-mismatch:${configId}`,
   configMissing: (configId: string) => `stripe-config-missing:${configId}`,
   invalidPaymentMethod: (channelSlug: string) => `stripe-invalid-payment-method:${channelSlug}`,
+  disputeEvidenceDue: (disputeId: string) => `stripe-dispute-evidence-due:${disputeId}`,
 } as const;
 
 export class StripeProblemReporter {
@@ -84,6 +85,37 @@ export class StripeProblemReporter {
     }
   }
 
+  async reportDisputeEvidenceDue({
+    disputeId,
+    saleorTransactionId,
+    evidenceDueBy,
+  }: {
+    disputeId: string;
+    saleorTransactionId: string;
+    evidenceDueBy: Date;
+  }): Promise<void> {
+    const result = await this.reporter.reportProblem({
+      key: PROBLEM_KEYS.disputeEvidenceDue(disputeId),
+      criticalThreshold: 1,
+      message: `Customer disputed a payment (dispute "${disputeId}", transaction "${saleorTransactionId}"). Evidence must be submitted in the Stripe Dashboard before ${evidenceDueBy.toISOString()}, otherwise the dispute will be lost.`,
+    });
+
+    if (result.isErr()) {
+      logger.error("Failed to report dispute evidence due problem", { error: result.error });
+    }
+  }
+
+  async clearDisputeEvidenceDue(disputeId: string): Promise<void> {
+    const result = await this.reporter.clearProblems([PROBLEM_KEYS.disputeEvidenceDue(disputeId)]);
+
+    if (result.isErr()) {
+      logger.error("Failed to clear dispute evidence due problem", {
+        error: result.error,
+        disputeId,
+      });
+    }
+  }
+
   async clearProblemsForConfig(configId: string): Promise<void> {
     const keys = [
       PROBLEM_KEYS.authFailure(configId),
@@ -0,0 +1,48 @@
+import { RandomId } from "@/lib/random-id";
+import { type SaleorCurrentUser } from "@/modules/saleor/current-user-fetcher";
+
+export const auditLogActions = ["STRIPE_CREDENTIALS_ROTATED"] as const;
+
+export type AuditLogAction = (typeof auditLogActions)[number];
+
+/**
+ * Sensitive change made by dashboard user. Entries are only added, never modified
+ */
+export class AuditLogEntry {
+  readonly id: string;
+  readonly action: AuditLogAction;
+  readonly configurationId: string;
+  readonly actorUserId: string;
+  readonly actorEmail: string;
+  readonly createdAt: Date;
+
+  constructor(args: {
+    id: string;
+    action: AuditLogAction;
+    configurationId: string;
+    actorUserId: string;
+    actorEmail: string;
+    createdAt: Date;
+  }) {
+    this.id = args.id;
+    this.action = args.action;
+    this.configurationId = args.configurationId;
+    this.actorUserId = args.actorUserId;
+    this.actorEmail = args.actorEmail;
+    this.createdAt = args.createdAt;
+  }
+
+  static createStripeCredentialsRotatedEntry(args: {
+    configurationId: string;
+    actor: SaleorCurrentUser;
+  }) {
+    return new AuditLogEntry({
+      id: new RandomId().generate(),
+      action: "STRIPE_CREDENTIALS_ROTATED",
+      configurationId: args.configurationId,
+      actorUserId: args.actor.id,
+      actorEmail: args.actor.email,
+      createdAt: new Date(),
+    });
+  }
+}
@@ -0,0 +1,7 @@
+import { type AuditLogRepo } from "@/modules/audit-log/repositories/audit-log-repo";
+import { DynamoDBAuditLogRepo } from "@/modules/audit-log/repositories/dynamodb/dynamodb-audit-log-repo";
+
+/**
+ * When forking, you can replace this only file with custom implementation, to replace DynamoDB with another storage
+ */
+export const auditLogRepo: AuditLogRepo = new DynamoDBAuditLogRepo();
@@ -0,0 +1,42 @@
+import { type Result } from "neverthrow";
+
+import { BaseError } from "@/lib/errors";
+import { type AuditLogEntry } from "@/modules/audit-log/domain/audit-log-entry";
+import { type SaleorApiUrl } from "@/modules/saleor/saleor-api-url";
+
+export const AuditLogRepoError = {
+  FailedWritingEntryError: BaseError.subclass("AuditLogRepo.FailedWritingEntryError", {
+    props: {
+      _internalName: "AuditLogRepo.FailedWritingEntryError",
+    },
+  }),
+  FailedFetchingEntriesError: BaseError.subclass("AuditLogRepo.FailedFetchingEntriesError", {
+    props: {
+      _internalName: "AuditLogRepo.FailedFetchingEntriesError",
+    },
+  }),
+};
+
+export type AuditLogRepoError = InstanceType<
+  | typeof AuditLogRepoError.FailedWritingEntryError
+  | typeof AuditLogRepoError.FailedFetchingEntriesError
+>;
+
+export type AuditLogRepoAccess = {
+  saleorApiUrl: SaleorApiUrl;
+  appId: string;
+};
+
+export interface AuditLogRepo {
+  saveEntry(
+    accessPattern: AuditLogRepoAccess,
+    entry: AuditLogEntry,
+  ): Promise<Result<null, AuditLogRepoError>>;
+
+  /**
+   * Returns entries sorted from the oldest
+   */
+  getEntries(
+    accessPattern: AuditLogRepoAccess,
+  ): Promise<Result<AuditLogEntry[], AuditLogRepoError>>;
+}
@@ -0,0 +1,69 @@
+import { Entity, string } from "dynamodb-toolbox";
+import { item } from "dynamodb-toolbox/schema/item";
+
+import { DynamoMainTable, dynamoMainTable } from "@/modules/dynamodb/dynamo-main-table";
+import { type SaleorApiUrl } from "@/modules/saleor/saleor-api-url";
+
+class AccessPattern {
+  static getPK({ saleorApiUrl, appId }: { saleorApiUrl: SaleorApiUrl; appId: string }) {
+    return DynamoMainTable.getPrimaryKeyScopedToInstallation({ saleorApiUrl, appId });
+  }
+
+  /**
+   * Date prefix keeps entries sorted chronologically in the query
+   */
+  static getSKforSpecificItem({ createdAt, id }: { createdAt: Date; id: string }) {
+    return `AUDIT_LOG#${createdAt.toISOString()}#${id}` as const;
+  }
+
+  static getSKforAllItems() {
+    return "AUDIT_LOG#" as const;
+  }
+}
+
+const Schema = item({
+  PK: string().key(),
+  SK: string().key(),
+  id: string(),
+  action: string(),
+  configurationId: string(),
+  actorUserId: string(),
+  actorEmail: string(),
+  /**
+   * Separate from auto-generated createdAt, which is set when item is written
+   */
+  loggedAt: string(),
+});
+
+const createEntity = (table: DynamoMainTable) => {
+  return new Entity({
+    table,
+    name: "AuditLogEntry",
+    schema: Schema,
+    timestamps: {
+      created: {
+        name: "createdAt",
+        savedAs: "createdAt",
+      },
+      modified: {
+        name: "modifiedAt",
+        savedAs: "modifiedAt",
+      },
+    },
+  });
+};
+
+const entity = createEntity(dynamoMainTable);
+
+export type DynamoDbAuditLogEntryEntity = typeof entity;
+
+export const DynamoDbAuditLogEntry = {
+  accessPattern: {
+    getPK: AccessPattern.getPK,
+    getSKforSpecificItem: AccessPattern.getSKforSpecificItem,
+    getSKforAllItems: AccessPattern.getSKforAllItems,
+  },
+  entitySchema: Schema,
+  createEntity,
+  entity: entity,
+};
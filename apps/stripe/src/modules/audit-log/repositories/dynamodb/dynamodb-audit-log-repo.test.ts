@@ -0,0 +1,125 @@
+import { DynamoDBDocumentClient, PutCommand, QueryCommand } from "@aws-sdk/lib-dynamodb";
+import { mockClient } from "aws-sdk-client-mock";
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { mockedConfigurationId, mockedSaleorAppId } from "@/__tests__/mocks/constants";
+import { mockedSaleorApiUrl } from "@/__tests__/mocks/saleor-api-url";
+import { AuditLogEntry } from "@/modules/audit-log/domain/audit-log-entry";
+import { AuditLogRepoError } from "@/modules/audit-log/repositories/audit-log-repo";
+import { DynamoDbAuditLogEntry } from "@/modules/audit-log/repositories/dynamodb/audit-log-db-model";
+import { DynamoDBAuditLogRepo } from "@/modules/audit-log/repositories/dynamodb/dynamodb-audit-log-repo";
+import { DynamoMainTable } from "@/modules/dynamodb/dynamo-main-table";
+
+describe("DynamoDBAuditLogRepo", () => {
+  let repo: DynamoDBAuditLogRepo;
+
+  const mockDocumentClient = mockClient(DynamoDBDocumentClient);
+
+  const access = {
+    saleorApiUrl: mockedSaleorApiUrl,
+    appId: mockedSaleorAppId,
+  };
+
+  const entry = new AuditLogEntry({
+    id: "entry-id",
+    action: "STRIPE_CREDENTIALS_ROTATED",
+    configurationId: mockedConfigurationId,
+    actorUserId: "VXNlcjox",
+    actorEmail: "admin@example.com",
+    createdAt: new Date("2024-01-01T00:00:00.000Z"),
+  });
+
+  beforeEach(() => {
+    mockDocumentClient.reset();
+
+    const table = DynamoMainTable.create({
+      // @ts-expect-error mocking DynamoDBDocumentClient
+      documentClient: mockDocumentClient,
+      tableName: "stripe-test-table",
+    });
+
+    repo = new DynamoDBAuditLogRepo({
+      entity: DynamoDbAuditLogEntry.createEntity(table),
+    });
+  });
+
+  describe("saveEntry", () => {
+    it("Writes entry keyed by its date and ID", async () => {
+      mockDocumentClient.on(PutCommand).resolvesOnce({
+        $metadata: {
+          httpStatusCode: 200,
+        },
+      });
+
+      const result = await repo.saveEntry(access, entry);
+
+      const putInput = mockDocumentClient.commandCalls(PutCommand)[0].args[0].input;
+
+      expect(result._unsafeUnwrap()).toBeNull();
+      expect(putInput.Item).toStrictEqual(
+        expect.objectContaining({
+          PK: "https://foo.bar.saleor.cloud/graphql/#saleor-app-id",
+          SK: "AUDIT_LOG#2024-01-01T00:00:00.000Z#entry-id",
+          action: "STRIPE_CREDENTIALS_ROTATED",
+          actorEmail: "admin@example.com",
+          loggedAt: "2024-01-01T00:00:00.000Z",
+        }),
+      );
+    });
+
+    it("Returns FailedWritingEntryError if DynamoDB call fails", async () => {
+      mockDocumentClient.on(PutCommand).rejectsOnce(new Error("Dynamo is down"));
+
+      const result = await repo.saveEntry(access, entry);
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(AuditLogRepoError.FailedWritingEntryError);
+    });
+  });
+
+  describe("getEntries", () => {
+    it("Queries audit log entries of the installation", async () => {
+      mockDocumentClient.on(QueryCommand).resolvesOnce({
+        Items: [
+          {
+            PK: "https://foo.bar.saleor.cloud/graphql/#saleor-app-id",
+            SK: "AUDIT_LOG#2024-01-01T00:00:00.000Z#entry-id",
+            id: "entry-id",
+            action: "STRIPE_CREDENTIALS_ROTATED",
+            configurationId: mockedConfigurationId,
+            actorUserId: "VXNlcjox",
+            actorEmail: "admin@example.com",
+            loggedAt: "2024-01-01T00:00:00.000Z",
+            createdAt: "2024-01-01T00:00:00.000Z",
+            modifiedAt: "2024-01-01T00:00:00.000Z",
+            _et: "AuditLogEntry",
+          },
+        ],
+        $metadata: {
+          httpStatusCode: 200,
+        },
+      });
+
+      const result = await repo.getEntries(access);
+
+      const queryInput = mockDocumentClient.commandCalls(QueryCommand)[0].args[0].input;
+
+      expect(queryInput.ExpressionAttributeValues).toStrictEqual(
+        expect.objectContaining({
+          ":c0_1": "https://foo.bar.saleor.cloud/graphql/#saleor-app-id",
+          ":c0_2": "AUDIT_LOG#",
+        }),
+      );
+      expect(result._unsafeUnwrap()).toStrictEqual([entry]);
+    });
+
+    it("Returns FailedFetchingEntriesError if DynamoDB query fails", async () => {
+      mockDocumentClient.on(QueryCommand).rejectsOnce(new Error("Dynamo is down"));
+
+      const result = await repo.getEntries(access);
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(
+        AuditLogRepoError.FailedFetchingEntriesError,
+      );
+    });
+  });
+});
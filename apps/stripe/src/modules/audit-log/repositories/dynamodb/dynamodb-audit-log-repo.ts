@@ -0,0 +1,124 @@
+import { type FormattedItem, PutItemCommand } from "dynamodb-toolbox";
+import { QueryCommand } from "dynamodb-toolbox/table/actions/query";
+import { err, ok, type Result } from "neverthrow";
+import { z } from "zod";
+
+import { createLogger } from "@/lib/logger";
+import { auditLogActions, AuditLogEntry } from "@/modules/audit-log/domain/audit-log-entry";
+import {
+  type AuditLogRepo,
+  type AuditLogRepoAccess,
+  AuditLogRepoError,
+} from "@/modules/audit-log/repositories/audit-log-repo";
+import {
+  DynamoDbAuditLogEntry,
+  type DynamoDbAuditLogEntryEntity,
+} from "@/modules/audit-log/repositories/dynamodb/audit-log-db-model";
+
+export class DynamoDBAuditLogRepo implements AuditLogRepo {
+  private entity: DynamoDbAuditLogEntryEntity;
+
+  private logger = createLogger("DynamoDBAuditLogRepo");
+
+  constructor(
+    params = {
+      entity: DynamoDbAuditLogEntry.entity,
+    },
+  ) {
+    this.entity = params.entity;
+  }
+
+  private mapItemToAuditLogEntry(item: FormattedItem<DynamoDbAuditLogEntryEntity>) {
+    return new AuditLogEntry({
+      id: item.id,
+      action: z.enum(auditLogActions).parse(item.action),
+      configurationId: item.configurationId,
+      actorUserId: item.actorUserId,
+      actorEmail: item.actorEmail,
+      createdAt: new Date(item.loggedAt),
+    });
+  }
+
+  async saveEntry(
+    accessPattern: AuditLogRepoAccess,
+    entry: AuditLogEntry,
+  ): Promise<Result<null, AuditLogRepoError>> {
+    try {
+      const result = await this.entity
+        .build(PutItemCommand)
+        .item({
+          PK: DynamoDbAuditLogEntry.accessPattern.getPK(accessPattern),
+          SK: DynamoDbAuditLogEntry.accessPattern.getSKforSpecificItem({
+            createdAt: entry.createdAt,
+            id: entry.id,
+          }),
+          id: entry.id,
+          action: entry.action,
+          configurationId: entry.configurationId,
+          actorUserId: entry.actorUserId,
+          actorEmail: entry.actorEmail,
+          loggedAt: entry.createdAt.toISOString(),
+        })
+        .send();
+
+      if (result.$metadata.httpStatusCode !== 200) {
+        return err(
+          new AuditLogRepoError.FailedWritingEntryError(
+            "Failed to write audit log entry to DynamoDB. HTTP status code: " +
+              result.$metadata.httpStatusCode,
+            {
+              cause: result,
+            },
+          ),
+        );
+      }
+
+      this.logger.debug("Saved audit log entry to DynamoDB", {
+        action: entry.action,
+        configurationId: entry.configurationId,
+      });
+
+      return ok(null);
+    } catch (e) {
+      return err(
+        new AuditLogRepoError.FailedWritingEntryError(
+          "Failed to write audit log entry to DynamoDB",
+          {
+            cause: e,
+          },
+        ),
+      );
+    }
+  }
+
+  async getEntries(
+    accessPattern: AuditLogRepoAccess,
+  ): Promise<Result<AuditLogEntry[], AuditLogRepoError>> {
+    try {
+      const result = await this.entity.table
+        .build(QueryCommand)
+        .entities(this.entity)
+        .query({
+          partition: DynamoDbAuditLogEntry.accessPattern.getPK(accessPattern),
+          range: {
+            beginsWith: DynamoDbAuditLogEntry.accessPattern.getSKforAllItems(),
+          },
+        })
+        .options({
+          maxPages: Infinity,
+        })
+        .send();
+
+      return ok((result.Items ?? []).map((item) => this.mapItemToAuditLogEntry(item)));
+    } catch (e) {
+      return err(
+        new AuditLogRepoError.FailedFetchingEntriesError(
+          "Failed to fetch audit log entries from DynamoDB",
+          {
+            cause: e,
+          },
+        ),
+      );
+    }
+  }
+}
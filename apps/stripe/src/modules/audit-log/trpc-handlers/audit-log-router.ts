@@ -0,0 +1,7 @@
+import { auditLogRepo } from "@/modules/audit-log/repositories/audit-log-repo-impl";
+import { ListAuditLogEntriesTrpcHandler } from "@/modules/audit-log/trpc-handlers/list-audit-log-entries-trpc-handler";
+import { router } from "@/modules/trpc/trpc-server";
+
+export const auditLogRouter = router({
+  listAuditLogEntries: new ListAuditLogEntriesTrpcHandler({ auditLogRepo }).getTrpcProcedure(),
+});
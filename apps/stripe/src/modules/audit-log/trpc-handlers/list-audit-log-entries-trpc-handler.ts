@@ -0,0 +1,50 @@
+import { TRPCError } from "@trpc/server";
+
+import { type AuditLogRepo } from "@/modules/audit-log/repositories/audit-log-repo";
+import { createSaleorApiUrl } from "@/modules/saleor/saleor-api-url";
+import { protectedClientProcedure } from "@/modules/trpc/protected-client-procedure";
+
+export class ListAuditLogEntriesTrpcHandler {
+  baseProcedure = protectedClientProcedure;
+
+  private readonly auditLogRepo: AuditLogRepo;
+
+  constructor(deps: { auditLogRepo: AuditLogRepo }) {
+    this.auditLogRepo = deps.auditLogRepo;
+  }
+
+  getTrpcProcedure() {
+    return this.baseProcedure.query(async ({ ctx }) => {
+      const saleorApiUrl = createSaleorApiUrl(ctx.saleorApiUrl);
+
+      if (saleorApiUrl.isErr()) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Malformed request",
+        });
+      }
+
+      const entriesResult = await this.auditLogRepo.getEntries({
+        appId: ctx.appId,
+        saleorApiUrl: saleorApiUrl.value,
+      });
+
+      if (entriesResult.isErr()) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to fetch audit log. Please try again.",
+          cause: entriesResult.error,
+        });
+      }
+
+      // Newest first
+      return entriesResult.value.toReversed().map((entry) => ({
+        id: entry.id,
+        action: entry.action,
+        configurationId: entry.configurationId,
+        actorEmail: entry.actorEmail,
+        createdAt: entry.createdAt.toISOString(),
+      }));
+    });
+  }
+}
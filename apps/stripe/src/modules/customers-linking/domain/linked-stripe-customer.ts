@@ -0,0 +1,28 @@
+import { type StripeCustomerId } from "@/modules/stripe/stripe-customer-id";
+
+/**
+ * Pair of Saleor user and Stripe Customer created for them by the app.
+ * Stripe Customers live in a Stripe account, so the link is kept per configuration - channels that use different
+ * Stripe accounts will have different Customers for the same Saleor user.
+ */
+export class LinkedStripeCustomer {
+  readonly saleorUserId: string;
+  readonly configurationId: string;
+  readonly stripeCustomerId: StripeCustomerId;
+  /**
+   * Link is created when payment starts, so it doesn't mean user ever paid. Set when Stripe reports succeeded payment.
+   */
+  readonly hasCompletedCharge: boolean;
+
+  constructor(args: {
+    saleorUserId: string;
+    configurationId: string;
+    stripeCustomerId: StripeCustomerId;
+    hasCompletedCharge?: boolean;
+  }) {
+    this.saleorUserId = args.saleorUserId;
+    this.configurationId = args.configurationId;
+    this.stripeCustomerId = args.stripeCustomerId;
+    this.hasCompletedCharge = args.hasCompletedCharge ?? false;
+  }
+}
@@ -0,0 +1,7 @@
+import { type CustomerLinkRepo } from "@/modules/customers-linking/repositories/customer-link-repo";
+import { DynamoDBCustomerLinkRepo } from "@/modules/customers-linking/repositories/dynamodb/dynamodb-customer-link-repo";
+
+/**
+ * When forking, you can replace this only file with custom implementation, to replace DynamoDB with another storage
+ */
+export const customerLinkRepo: CustomerLinkRepo = new DynamoDBCustomerLinkRepo();
@@ -0,0 +1,58 @@
+import { type Result } from "neverthrow";
+
+import { BaseError } from "@/lib/errors";
+import { type SaleorApiUrl } from "@/modules/saleor/saleor-api-url";
+
+import { type LinkedStripeCustomer } from "../domain/linked-stripe-customer";
+
+export const CustomerLinkRepoError = {
+  FailedWritingCustomerLinkError: BaseError.subclass(
+    "CustomerLinkRepo.FailedWritingCustomerLinkError",
+    {
+      props: {
+        _internalName: "CustomerLinkRepo.FailedWritingCustomerLinkError",
+      },
+    },
+  ),
+  FailedFetchingCustomerLinkError: BaseError.subclass(
+    "CustomerLinkRepo.FailedFetchingCustomerLinkError",
+    {
+      props: {
+        _internalName: "CustomerLinkRepo.FailedFetchingCustomerLinkError",
+      },
+    },
+  ),
+};
+
+export type CustomerLinkRepoError = InstanceType<
+  | typeof CustomerLinkRepoError.FailedWritingCustomerLinkError
+  | typeof CustomerLinkRepoError.FailedFetchingCustomerLinkError
+>;
+
+export type CustomerLinkRepoAccess = {
+  saleorApiUrl: SaleorApiUrl;
+  appId: string;
+};
+
+export interface CustomerLinkRepo {
+  saveLinkedCustomer(
+    accessPattern: CustomerLinkRepoAccess,
+    linkedCustomer: LinkedStripeCustomer,
+  ): Promise<Result<null, CustomerLinkRepoError>>;
+
+  /**
+   * Unlike transactions, missing link is a valid state - user didn't pay with Stripe yet
+   */
+  getLinkedCustomer(
+    accessPattern: CustomerLinkRepoAccess,
+    args: { saleorUserId: string; configurationId: string },
+  ): Promise<Result<LinkedStripeCustomer | null, CustomerLinkRepoError>>;
+
+  /**
+   * Does nothing if user is not linked - payment wasn't started by the app for this user
+   */
+  markCustomerCharged(
+    accessPattern: CustomerLinkRepoAccess,
+    args: { saleorUserId: string; configurationId: string },
+  ): Promise<Result<null, CustomerLinkRepoError>>;
+}
@@ -0,0 +1,228 @@
+import { ConditionalCheckFailedException } from "@aws-sdk/client-dynamodb";
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  UpdateCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { mockClient } from "aws-sdk-client-mock";
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { mockedConfigurationId, mockedSaleorAppId } from "@/__tests__/mocks/constants";
+import { mockedStripeCustomerId } from "@/__tests__/mocks/mocked-stripe-customer-id";
+import { mockedSaleorApiUrl } from "@/__tests__/mocks/saleor-api-url";
+import { LinkedStripeCustomer } from "@/modules/customers-linking/domain/linked-stripe-customer";
+import { CustomerLinkRepoError } from "@/modules/customers-linking/repositories/customer-link-repo";
+import { DynamoDBCustomerLinkRepo } from "@/modules/customers-linking/repositories/dynamodb/dynamodb-customer-link-repo";
+import { DynamoDbLinkedStripeCustomer } from "@/modules/customers-linking/repositories/dynamodb/linked-stripe-customer-db-model";
+import { DynamoMainTable } from "@/modules/dynamodb/dynamo-main-table";
+
+const accessPattern = {
+  saleorApiUrl: mockedSaleorApiUrl,
+  appId: mockedSaleorAppId,
+};
+
+describe("DynamoDBCustomerLinkRepo", () => {
+  let repo: DynamoDBCustomerLinkRepo;
+  const mockDocumentClient = mockClient(DynamoDBDocumentClient);
+
+  beforeEach(() => {
+    mockDocumentClient.reset();
+
+    const table = DynamoMainTable.create({
+      // @ts-expect-error mocking DynamoDBDocumentClient
+      documentClient: mockDocumentClient,
+      tableName: "stripe-test-table",
+    });
+
+    const entity = DynamoDbLinkedStripeCustomer.createEntity(table);
+
+    repo = new DynamoDBCustomerLinkRepo({
+      entity,
+    });
+  });
+
+  describe("saveLinkedCustomer", () => {
+    const linkedCustomer = new LinkedStripeCustomer({
+      saleorUserId: "user-id",
+      configurationId: mockedConfigurationId,
+      stripeCustomerId: mockedStripeCustomerId,
+    });
+
+    it("Calls dynamoDB with correct parameters", async () => {
+      mockDocumentClient.on(PutCommand, {}).resolvesOnce({
+        $metadata: {
+          httpStatusCode: 200,
+        },
+      });
+
+      const result = await repo.saveLinkedCustomer(accessPattern, linkedCustomer);
+
+      expect(result._unsafeUnwrap()).toBeNull();
+      expect(mockDocumentClient.commandCalls(PutCommand)[0].args[0].input.Item).toStrictEqual(
+        expect.objectContaining({
+          PK: "https://foo.bar.saleor.cloud/graphql/#saleor-app-id",
+          SK: `CUSTOMER#${mockedConfigurationId}#user-id`,
+          stripeCustomerId: mockedStripeCustomerId,
+        }),
+      );
+    });
+
+    it("Returns success when customer is already linked", async () => {
+      mockDocumentClient.on(PutCommand, {}).rejectsOnce(
+        new ConditionalCheckFailedException({
+          message: "The conditional request failed",
+          $metadata: {},
+        }),
+      );
+
+      const result = await repo.saveLinkedCustomer(accessPattern, linkedCustomer);
+
+      expect(result._unsafeUnwrap()).toBeNull();
+    });
+
+    it("Returns FailedWritingCustomerLinkError if call to DynamoDB ended with non-200 status", async () => {
+      mockDocumentClient.on(PutCommand, {}).resolvesOnce({
+        $metadata: {
+          httpStatusCode: 500,
+        },
+      });
+
+      const result = await repo.saveLinkedCustomer(accessPattern, linkedCustomer);
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(
+        CustomerLinkRepoError.FailedWritingCustomerLinkError,
+      );
+    });
+  });
+
+  describe("getLinkedCustomer", () => {
+    it("Returns LinkedStripeCustomer if found in DynamoDB", async () => {
+      mockDocumentClient
+        .on(GetCommand, {
+          Key: {
+            PK: "https://foo.bar.saleor.cloud/graphql/#saleor-app-id",
+            SK: `CUSTOMER#${mockedConfigurationId}#user-id`,
+          },
+        })
+        .resolvesOnce({
+          Item: {
+            PK: "https://foo.bar.saleor.cloud/graphql/#saleor-app-id",
+            SK: `CUSTOMER#${mockedConfigurationId}#user-id`,
+            saleorUserId: "user-id",
+            configurationId: mockedConfigurationId,
+            stripeCustomerId: mockedStripeCustomerId,
+            createdAt: "2023-01-01T00:00:00.000Z",
+            modifiedAt: "2023-01-01T00:00:00.000Z",
+            _et: "LinkedStripeCustomer",
+          },
+          $metadata: {
+            httpStatusCode: 200,
+          },
+        });
+
+      const result = await repo.getLinkedCustomer(accessPattern, {
+        saleorUserId: "user-id",
+        configurationId: mockedConfigurationId,
+      });
+
+      expect(result._unsafeUnwrap()).toStrictEqual(
+        new LinkedStripeCustomer({
+          saleorUserId: "user-id",
+          configurationId: mockedConfigurationId,
+          stripeCustomerId: mockedStripeCustomerId,
+        }),
+      );
+    });
+
+    it("Returns null if customer is not linked yet", async () => {
+      mockDocumentClient.on(GetCommand, {}).resolvesOnce({
+        $metadata: {
+          httpStatusCode: 200,
+        },
+      });
+
+      const result = await repo.getLinkedCustomer(accessPattern, {
+        saleorUserId: "user-id",
+        configurationId: mockedConfigurationId,
+      });
+
+      expect(result._unsafeUnwrap()).toBeNull();
+    });
+
+    it("Returns FailedFetchingCustomerLinkError if DynamoDB call ended with non-200 status", async () => {
+      mockDocumentClient.on(GetCommand, {}).resolvesOnce({
+        $metadata: {
+          httpStatusCode: 500,
+        },
+      });
+
+      const result = await repo.getLinkedCustomer(accessPattern, {
+        saleorUserId: "user-id",
+        configurationId: mockedConfigurationId,
+      });
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(
+        CustomerLinkRepoError.FailedFetchingCustomerLinkError,
+      );
+    });
+  });
+
+  describe("markCustomerCharged", () => {
+    it("Sets completed charge flag only on existing link", async () => {
+      mockDocumentClient.on(UpdateCommand, {}).resolvesOnce({
+        $metadata: {
+          httpStatusCode: 200,
+        },
+      });
+
+      const result = await repo.markCustomerCharged(accessPattern, {
+        saleorUserId: "user-id",
+        configurationId: mockedConfigurationId,
+      });
+
+      const input = mockDocumentClient.commandCalls(UpdateCommand)[0].args[0].input;
+
+      expect(result._unsafeUnwrap()).toBeNull();
+      expect(input.Key).toStrictEqual({
+        PK: "https://foo.bar.saleor.cloud/graphql/#saleor-app-id",
+        SK: `CUSTOMER#${mockedConfigurationId}#user-id`,
+      });
+      expect(input.ExpressionAttributeValues).toStrictEqual(
+        expect.objectContaining({
+          ":s_1": true,
+        }),
+      );
+      expect(input.ConditionExpression).toContain("attribute_exists");
+    });
+
+    it("Returns success when customer is not linked", async () => {
+      mockDocumentClient.on(UpdateCommand, {}).rejectsOnce(
+        new ConditionalCheckFailedException({
+          message: "The conditional request failed",
+          $metadata: {},
+        }),
+      );
+
+      const result = await repo.markCustomerCharged(accessPattern, {
+        saleorUserId: "user-id",
+        configurationId: mockedConfigurationId,
+      });
+
+      expect(result._unsafeUnwrap()).toBeNull();
+    });
+
+    it("Returns FailedWritingCustomerLinkError if DynamoDB call fails", async () => {
+      mockDocumentClient.on(UpdateCommand, {}).rejectsOnce(new Error("DynamoDB error"));
+
+      const result = await repo.markCustomerCharged(accessPattern, {
+        saleorUserId: "user-id",
+        configurationId: mockedConfigurationId,
+      });
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(
+        CustomerLinkRepoError.FailedWritingCustomerLinkError,
+      );
+    });
+  });
+});
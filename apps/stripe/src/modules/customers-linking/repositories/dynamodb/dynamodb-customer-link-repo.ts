@@ -0,0 +1,180 @@
+import { ConditionalCheckFailedException } from "@aws-sdk/client-dynamodb";
+import { GetItemCommand, PutItemCommand, UpdateItemCommand } from "dynamodb-toolbox";
+import { err, ok, type Result } from "neverthrow";
+
+import { BaseError } from "@/lib/errors";
+import { createLogger } from "@/lib/logger";
+import { LinkedStripeCustomer } from "@/modules/customers-linking/domain/linked-stripe-customer";
+import {
+  type CustomerLinkRepo,
+  type CustomerLinkRepoAccess,
+  CustomerLinkRepoError,
+} from "@/modules/customers-linking/repositories/customer-link-repo";
+import {
+  DynamoDbLinkedStripeCustomer,
+  type DynamoDbLinkedStripeCustomerEntity,
+} from "@/modules/customers-linking/repositories/dynamodb/linked-stripe-customer-db-model";
+import { createStripeCustomerId } from "@/modules/stripe/stripe-customer-id";
+
+export class DynamoDBCustomerLinkRepo implements CustomerLinkRepo {
+  private entity: DynamoDbLinkedStripeCustomerEntity;
+  private logger = createLogger("DynamoDBCustomerLinkRepo");
+
+  constructor(
+    params = {
+      entity: DynamoDbLinkedStripeCustomer.entity,
+    },
+  ) {
+    this.entity = params.entity;
+  }
+
+  async saveLinkedCustomer(
+    accessPattern: CustomerLinkRepoAccess,
+    linkedCustomer: LinkedStripeCustomer,
+  ): Promise<Result<null, CustomerLinkRepoError>> {
+    try {
+      const operation = this.entity
+        .build(PutItemCommand)
+        .item({
+          PK: DynamoDbLinkedStripeCustomer.accessPattern.getPK(accessPattern),
+          SK: DynamoDbLinkedStripeCustomer.accessPattern.getSKforSpecificItem({
+            configurationId: linkedCustomer.configurationId,
+            saleorUserId: linkedCustomer.saleorUserId,
+          }),
+          saleorUserId: linkedCustomer.saleorUserId,
+          configurationId: linkedCustomer.configurationId,
+          stripeCustomerId: linkedCustomer.stripeCustomerId,
+        })
+        .options({
+          condition: {
+            attr: "stripeCustomerId",
+            exists: false,
+          },
+        });
+
+      const result = await operation.send();
+
+      if (result.$metadata.httpStatusCode === 200) {
+        return ok(null);
+      }
+
+      throw new BaseError("Unexpected response from DynamoDB: " + result.$metadata.httpStatusCode, {
+        cause: result,
+      });
+    } catch (e) {
+      /*
+       * Another request linked the customer first. Customer creation uses idempotency key derived from user ID,
+       * so both requests resolved the same Stripe Customer.
+       */
+      if (e instanceof ConditionalCheckFailedException) {
+        this.logger.info("Customer already linked, skipping write (idempotent)");
+
+        return ok(null);
+      }
+
+      return err(
+        new CustomerLinkRepoError.FailedWritingCustomerLinkError(
+          "Failed to write customer link to DynamoDB",
+          {
+            cause: e,
+          },
+        ),
+      );
+    }
+  }
+
+  async getLinkedCustomer(
+    accessPattern: CustomerLinkRepoAccess,
+    args: { saleorUserId: string; configurationId: string },
+  ): Promise<Result<LinkedStripeCustomer | null, CustomerLinkRepoError>> {
+    try {
+      const operation = this.entity.build(GetItemCommand).key({
+        PK: DynamoDbLinkedStripeCustomer.accessPattern.getPK(accessPattern),
+        SK: DynamoDbLinkedStripeCustomer.accessPattern.getSKforSpecificItem(args),
+      });
+
+      const result = await operation.send();
+
+      if (result.$metadata.httpStatusCode !== 200) {
+        return err(
+          new CustomerLinkRepoError.FailedFetchingCustomerLinkError(
+            "Failed to read data from DynamoDB. HTTP status code: " +
+              result.$metadata.httpStatusCode,
+            {
+              cause: result,
+            },
+          ),
+        );
+      }
+
+      if (!result.Item) {
+        return ok(null);
+      }
+
+      return ok(
+        new LinkedStripeCustomer({
+          saleorUserId: result.Item.saleorUserId,
+          configurationId: result.Item.configurationId,
+          stripeCustomerId: createStripeCustomerId(result.Item.stripeCustomerId),
+          hasCompletedCharge: result.Item.hasCompletedCharge ?? false,
+        }),
+      );
+    } catch (e) {
+      return err(
+        new CustomerLinkRepoError.FailedFetchingCustomerLinkError(
+          "Failed to fetch customer link from DynamoDB",
+          {
+            cause: e,
+          },
+        ),
+      );
+    }
+  }
+
+  async markCustomerCharged(
+    accessPattern: CustomerLinkRepoAccess,
+    args: { saleorUserId: string; configurationId: string },
+  ): Promise<Result<null, CustomerLinkRepoError>> {
+    try {
+      const operation = this.entity
+        .build(UpdateItemCommand)
+        .item({
+          PK: DynamoDbLinkedStripeCustomer.accessPattern.getPK(accessPattern),
+          SK: DynamoDbLinkedStripeCustomer.accessPattern.getSKforSpecificItem(args),
+          hasCompletedCharge: true,
+        })
+        .options({
+          // Update would otherwise create partial item without Stripe Customer
+          condition: {
+            attr: "stripeCustomerId",
+            exists: true,
+          },
+        });
+
+      const result = await operation.send();
+
+      if (result.$metadata.httpStatusCode === 200) {
+        return ok(null);
+      }
+
+      throw new BaseError("Unexpected response from DynamoDB: " + result.$metadata.httpStatusCode, {
+        cause: result,
+      });
+    } catch (e) {
+      if (e instanceof ConditionalCheckFailedException) {
+        this.logger.info("Customer not linked, skipping marking charge");
+
+        return ok(null);
+      }
+
+      return err(
+        new CustomerLinkRepoError.FailedWritingCustomerLinkError(
+          "Failed to mark customer charged in DynamoDB",
+          {
+            cause: e,
+          },
+        ),
+      );
+    }
+  }
+}
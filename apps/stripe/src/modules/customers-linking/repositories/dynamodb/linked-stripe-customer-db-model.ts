@@ -0,0 +1,62 @@
+import { boolean, Entity, string } from "dynamodb-toolbox";
+import { item } from "dynamodb-toolbox/schema/item";
+
+import { DynamoMainTable, dynamoMainTable } from "@/modules/dynamodb/dynamo-main-table";
+import { type SaleorApiUrl } from "@/modules/saleor/saleor-api-url";
+
+class AccessPattern {
+  static getPK({ saleorApiUrl, appId }: { saleorApiUrl: SaleorApiUrl; appId: string }) {
+    return DynamoMainTable.getPrimaryKeyScopedToInstallation({ saleorApiUrl, appId });
+  }
+
+  static getSKforSpecificItem({
+    configurationId,
+    saleorUserId,
+  }: {
+    configurationId: string;
+    saleorUserId: string;
+  }) {
+    return `CUSTOMER#${configurationId}#${saleorUserId}` as const;
+  }
+}
+
+const Schema = item({
+  PK: string().key(),
+  SK: string().key(),
+  saleorUserId: string(),
+  configurationId: string(),
+  stripeCustomerId: string(),
+  hasCompletedCharge: boolean().optional(),
+});
+
+const createEntity = (table: DynamoMainTable) => {
+  return new Entity({
+    table,
+    name: "LinkedStripeCustomer",
+    schema: Schema,
+    timestamps: {
+      created: {
+        name: "createdAt",
+        savedAs: "createdAt",
+      },
+      modified: {
+        name: "modifiedAt",
+        savedAs: "modifiedAt",
+      },
+    },
+  });
+};
+
+const entity = createEntity(dynamoMainTable);
+
+export type DynamoDbLinkedStripeCustomerEntity = typeof entity;
+
+export const DynamoDbLinkedStripeCustomer = {
+  accessPattern: {
+    getPK: AccessPattern.getPK,
+    getSKforSpecificItem: AccessPattern.getSKforSpecificItem,
+  },
+  entitySchema: Schema,
+  createEntity,
+  entity: entity,
+};
@@ -0,0 +1,210 @@
+import { err, ok, type Result } from "neverthrow";
+
+import { BaseError } from "@/lib/errors";
+import { createLogger } from "@/lib/logger";
+import { type StripeConfig } from "@/modules/app-config/domain/stripe-config";
+import { LinkedStripeCustomer } from "@/modules/customers-linking/domain/linked-stripe-customer";
+import {
+  type CustomerLinkRepo,
+  type CustomerLinkRepoAccess,
+  type CustomerLinkRepoError,
+} from "@/modules/customers-linking/repositories/customer-link-repo";
+import { createStripeCustomerId, type StripeCustomerId } from "@/modules/stripe/stripe-customer-id";
+import { type IStripeCustomersApiFactory } from "@/modules/stripe/types";
+
+export type SavedPaymentMethod = {
+  id: string;
+  type: string;
+  card: {
+    brand: string;
+    last4: string;
+    expMonth: number;
+    expYear: number;
+  } | null;
+};
+
+/**
+ * Resolves Stripe Customer for a logged-in Saleor user. Guests (no user on checkout / order) are never linked.
+ */
+export class StripeCustomerResolver {
+  static CustomerCreationError = BaseError.subclass(
+    "StripeCustomerResolver.CustomerCreationError",
+    {
+      props: {
+        _internalName: "StripeCustomerResolver.CustomerCreationError" as const,
+      },
+    },
+  );
+
+  static PaymentMethodsListingError = BaseError.subclass(
+    "StripeCustomerResolver.PaymentMethodsListingError",
+    {
+      props: {
+        _internalName: "StripeCustomerResolver.PaymentMethodsListingError" as const,
+      },
+    },
+  );
+
+  private logger = createLogger("StripeCustomerResolver");
+  private customerLinkRepo: CustomerLinkRepo;
+  private stripeCustomersApiFactory: IStripeCustomersApiFactory;
+
+  constructor(deps: {
+    customerLinkRepo: CustomerLinkRepo;
+    stripeCustomersApiFactory: IStripeCustomersApiFactory;
+  }) {
+    this.customerLinkRepo = deps.customerLinkRepo;
+    this.stripeCustomersApiFactory = deps.stripeCustomersApiFactory;
+  }
+
+  async getOrCreateCustomer(args: {
+    accessPattern: CustomerLinkRepoAccess;
+    stripeConfig: StripeConfig;
+    saleorUserId: string;
+    email: string | null;
+  }): Promise<
+    Result<
+      StripeCustomerId,
+      CustomerLinkRepoError | InstanceType<typeof StripeCustomerResolver.CustomerCreationError>
+    >
+  > {
+    const { accessPattern, stripeConfig, saleorUserId, email } = args;
+
+    const linkedCustomerResult = await this.customerLinkRepo.getLinkedCustomer(accessPattern, {
+      saleorUserId,
+      configurationId: stripeConfig.id,
+    });
+
+    if (linkedCustomerResult.isErr()) {
+      return err(linkedCustomerResult.error);
+    }
+
+    if (linkedCustomerResult.value) {
+      return ok(linkedCustomerResult.value.stripeCustomerId);
+    }
+
+    const stripeCustomersApi = this.stripeCustomersApiFactory.create({
+      key: stripeConfig.restrictedKey,
+    });
+
+    const createCustomerResult = await stripeCustomersApi.createCustomer({
+      email,
+      // Concurrent checkouts of the same user will resolve to the same Customer
+      idempotencyKey: `saleor-customer-${stripeConfig.id}-${saleorUserId}`,
+      metadata: {
+        saleor_user_id: saleorUserId,
+        saleor_api_url: accessPattern.saleorApiUrl,
+        saleor_app_id: accessPattern.appId,
+      },
+    });
+
+    if (createCustomerResult.isErr()) {
+      return err(
+        new StripeCustomerResolver.CustomerCreationError("Failed to create Stripe Customer", {
+          cause: createCustomerResult.error,
+        }),
+      );
+    }
+
+    const stripeCustomerId = createStripeCustomerId(createCustomerResult.value.id);
+
+    this.logger.info("Created Stripe Customer for Saleor user", { stripeCustomerId });
+
+    const saveResult = await this.customerLinkRepo.saveLinkedCustomer(
+      accessPattern,
+      new LinkedStripeCustomer({
+        saleorUserId,
+        configurationId: stripeConfig.id,
+        stripeCustomerId,
+      }),
+    );
+
+    if (saveResult.isErr()) {
+      return err(saveResult.error);
+    }
+
+    return ok(stripeCustomerId);
+  }
+
+  /**
+   * Link is created already when user starts their first payment, so only charge reported by Stripe counts.
+   * Does not create Customer.
+   */
+  async hasCompletedCharge(args: {
+    accessPattern: CustomerLinkRepoAccess;
+    stripeConfig: StripeConfig;
+    saleorUserId: string;
+  }): Promise<Result<boolean, CustomerLinkRepoError>> {
+    const linkedCustomerResult = await this.customerLinkRepo.getLinkedCustomer(args.accessPattern, {
+      saleorUserId: args.saleorUserId,
+      configurationId: args.stripeConfig.id,
+    });
+
+    return linkedCustomerResult.map(
+      (linkedCustomer) => linkedCustomer?.hasCompletedCharge ?? false,
+    );
+  }
+
+  /**
+   * Does not create Customer - user without link has no saved payment methods yet
+   */
+  async listSavedPaymentMethods(args: {
+    accessPattern: CustomerLinkRepoAccess;
+    stripeConfig: StripeConfig;
+    saleorUserId: string;
+  }): Promise<
+    Result<
+      SavedPaymentMethod[],
+      CustomerLinkRepoError | InstanceType<typeof StripeCustomerResolver.PaymentMethodsListingError>
+    >
+  > {
+    const { accessPattern, stripeConfig, saleorUserId } = args;
+
+    const linkedCustomerResult = await this.customerLinkRepo.getLinkedCustomer(accessPattern, {
+      saleorUserId,
+      configurationId: stripeConfig.id,
+    });
+
+    if (linkedCustomerResult.isErr()) {
+      return err(linkedCustomerResult.error);
+    }
+
+    if (!linkedCustomerResult.value) {
+      return ok([]);
+    }
+
+    const stripeCustomersApi = this.stripeCustomersApiFactory.create({
+      key: stripeConfig.restrictedKey,
+    });
+
+    const paymentMethodsResult = await stripeCustomersApi.listPaymentMethods({
+      customerId: linkedCustomerResult.value.stripeCustomerId,
+    });
+
+    if (paymentMethodsResult.isErr()) {
+      return err(
+        new StripeCustomerResolver.PaymentMethodsListingError(
+          "Failed to list Stripe Customer payment methods",
+          {
+            cause: paymentMethodsResult.error,
+          },
+        ),
+      );
+    }
+
+    return ok(
+      paymentMethodsResult.value.map((paymentMethod) => ({
+        id: paymentMethod.id,
+        type: paymentMethod.type,
+        card: paymentMethod.card
+          ? {
+              brand: paymentMethod.card.brand,
+              last4: paymentMethod.card.last4,
+              expMonth: paymentMethod.card.exp_month,
+              expYear: paymentMethod.card.exp_year,
+            }
+          : null,
+      })),
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import type Stripe from "stripe";
+
+/**
+ * Verified Stripe event that app failed to process or report to Saleor.
+ * Whole event is persisted, so it can be replayed without fetching it from Stripe again.
+ */
+export class DeadLetterStripeEvent {
+  readonly stripeEventId: string;
+  readonly stripeEventType: string;
+  readonly configurationId: string;
+  /**
+   * JSON of verified Stripe.Event
+   */
+  readonly rawEvent: string;
+  readonly errorMessage: string;
+  readonly attemptCount: number;
+  readonly lastFailedAt: Date;
+
+  constructor(args: {
+    stripeEventId: string;
+    stripeEventType: string;
+    configurationId: string;
+    rawEvent: string;
+    errorMessage: string;
+    attemptCount: number;
+    lastFailedAt: Date;
+  }) {
+    this.stripeEventId = args.stripeEventId;
+    this.stripeEventType = args.stripeEventType;
+    this.configurationId = args.configurationId;
+    this.rawEvent = args.rawEvent;
+    this.errorMessage = args.errorMessage;
+    this.attemptCount = args.attemptCount;
+    this.lastFailedAt = args.lastFailedAt;
+  }
+
+  private static resolveErrorMessage(error: unknown) {
+    if (error instanceof Error) {
+      return `${error.name}: ${error.message}`;
+    }
+
+    return String(error);
+  }
+
+  static createFromFailedStripeEvent(args: {
+    event: Stripe.Event;
+    configurationId: string;
+    error: unknown;
+  }) {
+    return new DeadLetterStripeEvent({
+      stripeEventId: args.event.id,
+      stripeEventType: args.event.type,
+      configurationId: args.configurationId,
+      rawEvent: JSON.stringify(args.event),
+      errorMessage: DeadLetterStripeEvent.resolveErrorMessage(args.error),
+      attemptCount: 1,
+      lastFailedAt: new Date(),
+    });
+  }
+
+  withFailedAttempt(error: unknown) {
+    return new DeadLetterStripeEvent({
+      ...this,
+      errorMessage: DeadLetterStripeEvent.resolveErrorMessage(error),
+      attemptCount: this.attemptCount + 1,
+      lastFailedAt: new Date(),
+    });
+  }
+
+  getStripeEvent(): Stripe.Event {
+    return JSON.parse(this.rawEvent) as Stripe.Event;
+  }
+}
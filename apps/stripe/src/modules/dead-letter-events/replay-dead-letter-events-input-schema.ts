@@ -0,0 +1,10 @@
+import { z } from "zod";
+
+export const replayDeadLetterEventsInputSchema = z.object({
+  /**
+   * When not provided, all stored events are replayed
+   */
+  stripeEventId: z.string().min(1).optional(),
+});
+
+export type ReplayDeadLetterEventsInput = z.infer<typeof replayDeadLetterEventsInputSchema>;
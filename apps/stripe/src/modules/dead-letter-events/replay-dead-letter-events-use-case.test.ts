@@ -0,0 +1,156 @@
+import { err, ok } from "neverthrow";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { mockedAppConfigRepo } from "@/__tests__/mocks/app-config-repo";
+import { mockedSaleorAppId } from "@/__tests__/mocks/constants";
+import { mockStripeProblemReporter } from "@/__tests__/mocks/mock-stripe-problem-reporter";
+import { MockedDeadLetterEventRepo } from "@/__tests__/mocks/mocked-dead-letter-event-repo";
+import { getMockedDeadLetterStripeEvent } from "@/__tests__/mocks/mocked-dead-letter-stripe-event";
+import { getMockedRecordedTransaction } from "@/__tests__/mocks/mocked-recorded-transaction";
+import { mockedStripePaymentIntentId } from "@/__tests__/mocks/mocked-stripe-payment-intent-id";
+import { mockedStripePaymentIntentsApi } from "@/__tests__/mocks/mocked-stripe-payment-intents-api";
+import { MockedTransactionRecorder } from "@/__tests__/mocks/mocked-transaction-recorder";
+import { mockedSaleorApiUrl } from "@/__tests__/mocks/saleor-api-url";
+import {
+  type ITransactionEventReporter,
+  TransactionEventReporterErrors,
+} from "@/modules/saleor/transaction-event-reporter";
+import { type IStripePaymentIntentsApiFactory } from "@/modules/stripe/types";
+
+import { ReplayDeadLetterEventsUseCase } from "./replay-dead-letter-events-use-case";
+
+vi.mock("@/lib/logger", () => ({
+  createLogger: () => ({
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+describe("ReplayDeadLetterEventsUseCase", () => {
+  const deadLetterEventRepo = new MockedDeadLetterEventRepo();
+  const transactionRecorder = new MockedTransactionRecorder();
+
+  const stripePaymentIntentsApiFactory = {
+    create: () => mockedStripePaymentIntentsApi,
+  } satisfies IStripePaymentIntentsApiFactory;
+
+  const mockEventReporter = {
+    reportTransactionEvent: vi.fn(),
+  } satisfies ITransactionEventReporter;
+
+  const useCase = new ReplayDeadLetterEventsUseCase({
+    deadLetterEventRepo,
+    appConfigRepo: mockedAppConfigRepo,
+    transactionRecorder,
+    stripePaymentIntentsApiFactory,
+  });
+
+  const execute = (stripeEventId?: string) =>
+    useCase.execute({
+      appId: mockedSaleorAppId,
+      saleorApiUrl: mockedSaleorApiUrl,
+      stripeEventId,
+      transactionEventReporter: mockEventReporter,
+      problemReporter: mockStripeProblemReporter,
+    });
+
+  beforeEach(() => {
+    deadLetterEventRepo.reset();
+    transactionRecorder.reset();
+
+    vi.spyOn(mockedStripePaymentIntentsApi, "getPaymentIntent").mockImplementation(async () =>
+      ok({ payment_method: null }),
+    );
+  });
+
+  it("Reports event to Saleor through Stripe webhook handlers and removes it", async () => {
+    deadLetterEventRepo.events = { "evt_event-id": getMockedDeadLetterStripeEvent() };
+    transactionRecorder.transactions = {
+      [mockedStripePaymentIntentId]: getMockedRecordedTransaction(),
+    };
+
+    mockEventReporter.reportTransactionEvent.mockImplementationOnce(async () =>
+      ok({ createdEventId: "event-id" }),
+    );
+
+    const result = await execute("evt_event-id");
+
+    expect(result._unsafeUnwrap()).toStrictEqual({
+      replayedEvents: [
+        {
+          stripeEventId: "evt_event-id",
+          stripeEventType: "payment_intent.succeeded",
+          status: "reported",
+        },
+      ],
+    });
+    expect(mockEventReporter.reportTransactionEvent).toHaveBeenCalledExactlyOnceWith(
+      expect.objectContaining({
+        type: "CHARGE_SUCCESS",
+        pspReference: mockedStripePaymentIntentId,
+      }),
+    );
+    expect(deadLetterEventRepo.events).toStrictEqual({});
+  });
+
+  it("Treats event already reported to Saleor as replayed and removes it", async () => {
+    deadLetterEventRepo.events = { "evt_event-id": getMockedDeadLetterStripeEvent() };
+    transactionRecorder.transactions = {
+      [mockedStripePaymentIntentId]: getMockedRecordedTransaction(),
+    };
+
+    mockEventReporter.reportTransactionEvent.mockImplementationOnce(async () =>
+      err(new TransactionEventReporterErrors.AlreadyReportedError("Already reported")),
+    );
+
+    const result = await execute();
+
+    expect(result._unsafeUnwrap().replayedEvents[0].status).toBe("already-reported");
+    expect(deadLetterEventRepo.events).toStrictEqual({});
+  });
+
+  it("Keeps event that failed again with incremented attempt count", async () => {
+    deadLetterEventRepo.events = {
+      "evt_event-id": getMockedDeadLetterStripeEvent({ attemptCount: 2 }),
+    };
+
+    const result = await execute();
+
+    expect(result._unsafeUnwrap().replayedEvents).toStrictEqual([
+      {
+        stripeEventId: "evt_event-id",
+        stripeEventType: "payment_intent.succeeded",
+        status: "failed",
+        reason: "Transaction not found",
+      },
+    ]);
+    expect(deadLetterEventRepo.events["evt_event-id"].attemptCount).toBe(3);
+    expect(mockEventReporter.reportTransactionEvent).not.toHaveBeenCalled();
+  });
+
+  it("Fails event if its Stripe configuration was removed", async () => {
+    deadLetterEventRepo.events = { "evt_event-id": getMockedDeadLetterStripeEvent() };
+
+    vi.spyOn(mockedAppConfigRepo, "getStripeConfig").mockImplementationOnce(async () => ok(null));
+
+    const result = await execute();
+
+    expect(result._unsafeUnwrap().replayedEvents[0]).toStrictEqual(
+      expect.objectContaining({
+        status: "failed",
+        reason: "Stripe configuration of the event no longer exists",
+      }),
+    );
+    expect(deadLetterEventRepo.events["evt_event-id"].attemptCount).toBe(2);
+  });
+
+  it("Returns EventNotFoundError if requested event doesn't exist", async () => {
+    const result = await execute("evt_missing");
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(
+      ReplayDeadLetterEventsUseCase.EventNotFoundError,
+    );
+  });
+});
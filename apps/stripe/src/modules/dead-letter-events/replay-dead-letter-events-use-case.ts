@@ -0,0 +1,233 @@
+import { err, ok, type Result } from "neverthrow";
+
+import { StripeEventProcessor } from "@/app/api/webhooks/stripe/stripe-event-processor";
+import { BaseError } from "@/lib/errors";
+import { createLogger } from "@/lib/logger";
+import { type StripeConfig } from "@/modules/app-config/domain/stripe-config";
+import { type AppConfigRepo } from "@/modules/app-config/repositories/app-config-repo";
+import { type StripeProblemReporter } from "@/modules/app-problems";
+import { type DeadLetterStripeEvent } from "@/modules/dead-letter-events/domain/dead-letter-stripe-event";
+import {
+  type DeadLetterEventRepo,
+  type DeadLetterEventRepoAccess,
+  type DeadLetterEventRepoError,
+} from "@/modules/dead-letter-events/repositories/dead-letter-event-repo";
+import { type SaleorApiUrl } from "@/modules/saleor/saleor-api-url";
+import { type ITransactionEventReporter } from "@/modules/saleor/transaction-event-reporter";
+import { type IStripePaymentIntentsApiFactory } from "@/modules/stripe/types";
+import { type TransactionRecorderRepo } from "@/modules/transactions-recording/repositories/transaction-recorder-repo";
+
+export type ReplayedDeadLetterEvent = {
+  stripeEventId: string;
+  stripeEventType: string;
+  /**
+   * "already-reported" means Saleor has the event already (e.g. Stripe retry succeeded) - it's removed as replayed one
+   */
+  status: "reported" | "already-reported" | "failed";
+  reason?: string;
+};
+
+export type DeadLetterEventsReplayReport = {
+  replayedEvents: ReplayedDeadLetterEvent[];
+};
+
+/**
+ * Replays stored events through the same pipeline as Stripe webhook. Successfully replayed events are removed,
+ * failed ones stay with incremented attempt count.
+ */
+export class ReplayDeadLetterEventsUseCase {
+  static EventNotFoundError = BaseError.subclass("EventNotFoundError", {
+    props: {
+      _internalName: "ReplayDeadLetterEventsUseCase.EventNotFoundError" as const,
+    },
+  });
+
+  private logger = createLogger("ReplayDeadLetterEventsUseCase");
+  private deadLetterEventRepo: DeadLetterEventRepo;
+  private appConfigRepo: AppConfigRepo;
+  private eventProcessor: StripeEventProcessor;
+
+  constructor(deps: {
+    deadLetterEventRepo: DeadLetterEventRepo;
+    appConfigRepo: AppConfigRepo;
+    transactionRecorder: TransactionRecorderRepo;
+    stripePaymentIntentsApiFactory: IStripePaymentIntentsApiFactory;
+  }) {
+    this.deadLetterEventRepo = deps.deadLetterEventRepo;
+    this.appConfigRepo = deps.appConfigRepo;
+    this.eventProcessor = new StripeEventProcessor({
+      transactionRecorder: deps.transactionRecorder,
+      stripePaymentIntentsApiFactory: deps.stripePaymentIntentsApiFactory,
+    });
+  }
+
+  private async resolveEventsToReplay(
+    access: DeadLetterEventRepoAccess,
+    stripeEventId: string | undefined,
+  ): Promise<
+    Result<
+      DeadLetterStripeEvent[],
+      | DeadLetterEventRepoError
+      | InstanceType<typeof ReplayDeadLetterEventsUseCase.EventNotFoundError>
+    >
+  > {
+    if (!stripeEventId) {
+      return this.deadLetterEventRepo.getEvents(access);
+    }
+
+    const eventResult = await this.deadLetterEventRepo.getEvent(access, stripeEventId);
+
+    if (eventResult.isErr()) {
+      return err(eventResult.error);
+    }
+
+    if (!eventResult.value) {
+      return err(
+        new ReplayDeadLetterEventsUseCase.EventNotFoundError("Dead letter event not found", {
+          props: { stripeEventId },
+        }),
+      );
+    }
+
+    return ok([eventResult.value]);
+  }
+
+  private async replayEvent({
+    deadLetterEvent,
+    config,
+    access,
+    transactionEventReporter,
+    problemReporter,
+  }: {
+    deadLetterEvent: DeadLetterStripeEvent;
+    config: StripeConfig | null;
+    access: DeadLetterEventRepoAccess;
+    transactionEventReporter: ITransactionEventReporter;
+    problemReporter: StripeProblemReporter;
+  }): Promise<ReplayedDeadLetterEvent> {
+    const { stripeEventId, stripeEventType } = deadLetterEvent;
+
+    const processingResult = config
+      ? await this.eventProcessor.processAndReportEvent({
+          event: deadLetterEvent.getStripeEvent(),
+          saleorApiUrl: access.saleorApiUrl,
+          appId: access.appId,
+          stripeEnv: config.getStripeEnvValue(),
+          restrictedKey: config.restrictedKey,
+          problemReporter,
+          transactionEventReporter,
+        })
+      : err(new BaseError("Stripe configuration of the event no longer exists"));
+
+    if (processingResult.isOk()) {
+      const removeResult = await this.deadLetterEventRepo.removeEvent(access, stripeEventId);
+
+      if (removeResult.isErr()) {
+        this.logger.warn("Replayed event could not be removed, it will be replayed again", {
+          error: removeResult.error,
+          stripeEventId,
+        });
+      }
+
+      return { stripeEventId, stripeEventType, status: processingResult.value };
+    }
+
+    this.logger.warn("Failed to replay dead letter event", {
+      error: processingResult.error,
+      stripeEventId,
+    });
+
+    const saveResult = await this.deadLetterEventRepo.saveEvent(
+      access,
+      deadLetterEvent.withFailedAttempt(processingResult.error),
+    );
+
+    if (saveResult.isErr()) {
+      this.logger.error("Failed to update dead letter event", {
+        error: saveResult.error,
+        stripeEventId,
+      });
+    }
+
+    return {
+      stripeEventId,
+      stripeEventType,
+      status: "failed",
+      reason: processingResult.error.message,
+    };
+  }
+
+  /**
+   * Replays single event if stripeEventId is provided, otherwise all stored events
+   */
+  async execute({
+    appId,
+    saleorApiUrl,
+    stripeEventId,
+    transactionEventReporter,
+    problemReporter,
+  }: {
+    appId: string;
+    saleorApiUrl: SaleorApiUrl;
+    stripeEventId?: string;
+    transactionEventReporter: ITransactionEventReporter;
+    problemReporter: StripeProblemReporter;
+  }): Promise<
+    Result<
+      DeadLetterEventsReplayReport,
+      | DeadLetterEventRepoError
+      | InstanceType<typeof ReplayDeadLetterEventsUseCase.EventNotFoundError>
+    >
+  > {
+    const access = { appId, saleorApiUrl };
+
+    const eventsResult = await this.resolveEventsToReplay(access, stripeEventId);
+
+    if (eventsResult.isErr()) {
+      return err(eventsResult.error);
+    }
+
+    const configs = new Map<string, StripeConfig | null>();
+    const replayedEvents: ReplayedDeadLetterEvent[] = [];
+
+    for (const deadLetterEvent of eventsResult.value) {
+      if (!configs.has(deadLetterEvent.configurationId)) {
+        const configResult = await this.appConfigRepo.getStripeConfig({
+          configId: deadLetterEvent.configurationId,
+          appId,
+          saleorApiUrl,
+        });
+
+        if (configResult.isErr()) {
+          replayedEvents.push({
+            stripeEventId: deadLetterEvent.stripeEventId,
+            stripeEventType: deadLetterEvent.stripeEventType,
+            status: "failed",
+            reason: "Failed to fetch Stripe configuration",
+          });
+
+          continue;
+        }
+
+        configs.set(deadLetterEvent.configurationId, configResult.value);
+      }
+
+      replayedEvents.push(
+        await this.replayEvent({
+          deadLetterEvent,
+          config: configs.get(deadLetterEvent.configurationId) ?? null,
+          access,
+          transactionEventReporter,
+          problemReporter,
+        }),
+      );
+    }
+
+    this.logger.info("Replayed dead letter events", {
+      replayedEventsCount: replayedEvents.filter((event) => event.status !== "failed").length,
+      failedEventsCount: replayedEvents.filter((event) => event.status === "failed").length,
+    });
+
+    return ok({ replayedEvents });
+  }
+}
@@ -0,0 +1,7 @@
+import { type DeadLetterEventRepo } from "@/modules/dead-letter-events/repositories/dead-letter-event-repo";
+import { DynamoDBDeadLetterEventRepo } from "@/modules/dead-letter-events/repositories/dynamodb/dynamodb-dead-letter-event-repo";
+
+/**
+ * When forking, you can replace this only file with custom implementation, to replace DynamoDB with another storage
+ */
+export const deadLetterEventRepo: DeadLetterEventRepo = new DynamoDBDeadLetterEventRepo();
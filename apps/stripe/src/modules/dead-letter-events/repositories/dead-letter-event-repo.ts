@@ -0,0 +1,58 @@
+import { type Result } from "neverthrow";
+
+import { BaseError } from "@/lib/errors";
+import { type DeadLetterStripeEvent } from "@/modules/dead-letter-events/domain/dead-letter-stripe-event";
+import { type SaleorApiUrl } from "@/modules/saleor/saleor-api-url";
+
+export const DeadLetterEventRepoError = {
+  FailedWritingEventError: BaseError.subclass("DeadLetterEventRepo.FailedWritingEventError", {
+    props: {
+      _internalName: "DeadLetterEventRepo.FailedWritingEventError",
+    },
+  }),
+  FailedFetchingEventError: BaseError.subclass("DeadLetterEventRepo.FailedFetchingEventError", {
+    props: {
+      _internalName: "DeadLetterEventRepo.FailedFetchingEventError",
+    },
+  }),
+  FailedRemovingEventError: BaseError.subclass("DeadLetterEventRepo.FailedRemovingEventError", {
+    props: {
+      _internalName: "DeadLetterEventRepo.FailedRemovingEventError",
+    },
+  }),
+};
+
+export type DeadLetterEventRepoError = InstanceType<
+  | typeof DeadLetterEventRepoError.FailedWritingEventError
+  | typeof DeadLetterEventRepoError.FailedFetchingEventError
+  | typeof DeadLetterEventRepoError.FailedRemovingEventError
+>;
+
+export type DeadLetterEventRepoAccess = {
+  saleorApiUrl: SaleorApiUrl;
+  appId: string;
+};
+
+export interface DeadLetterEventRepo {
+  /**
+   * Overwrites event with the same Stripe event ID - used to bump attempt count
+   */
+  saveEvent(
+    accessPattern: DeadLetterEventRepoAccess,
+    event: DeadLetterStripeEvent,
+  ): Promise<Result<null, DeadLetterEventRepoError>>;
+
+  getEvent(
+    accessPattern: DeadLetterEventRepoAccess,
+    stripeEventId: string,
+  ): Promise<Result<DeadLetterStripeEvent | null, DeadLetterEventRepoError>>;
+
+  getEvents(
+    accessPattern: DeadLetterEventRepoAccess,
+  ): Promise<Result<DeadLetterStripeEvent[], DeadLetterEventRepoError>>;
+
+  removeEvent(
+    accessPattern: DeadLetterEventRepoAccess,
+    stripeEventId: string,
+  ): Promise<Result<null, DeadLetterEventRepoError>>;
+}
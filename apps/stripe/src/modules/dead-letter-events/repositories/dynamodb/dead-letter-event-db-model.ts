@@ -0,0 +1,64 @@
+import { Entity, number, string } from "dynamodb-toolbox";
+import { item } from "dynamodb-toolbox/schema/item";
+
+import { DynamoMainTable, dynamoMainTable } from "@/modules/dynamodb/dynamo-main-table";
+import { type SaleorApiUrl } from "@/modules/saleor/saleor-api-url";
+
+class AccessPattern {
+  static getPK({ saleorApiUrl, appId }: { saleorApiUrl: SaleorApiUrl; appId: string }) {
+    return DynamoMainTable.getPrimaryKeyScopedToInstallation({ saleorApiUrl, appId });
+  }
+
+  static getSKforSpecificItem({ stripeEventId }: { stripeEventId: string }) {
+    return `DEAD_LETTER_EVENT#${stripeEventId}` as const;
+  }
+
+  static getSKforAllItems() {
+    return "DEAD_LETTER_EVENT#" as const;
+  }
+}
+
+const Schema = item({
+  PK: string().key(),
+  SK: string().key(),
+  stripeEventId: string(),
+  stripeEventType: string(),
+  configurationId: string(),
+  rawEvent: string(),
+  errorMessage: string(),
+  attemptCount: number(),
+  lastFailedAt: string(),
+});
+
+const createEntity = (table: DynamoMainTable) => {
+  return new Entity({
+    table,
+    name: "DeadLetterStripeEvent",
+    schema: Schema,
+    timestamps: {
+      created: {
+        name: "createdAt",
+        savedAs: "createdAt",
+      },
+      modified: {
+        name: "modifiedAt",
+        savedAs: "modifiedAt",
+      },
+    },
+  });
+};
+
+const entity = createEntity(dynamoMainTable);
+
+export type DynamoDbDeadLetterStripeEventEntity = typeof entity;
+
+export const DynamoDbDeadLetterStripeEvent = {
+  accessPattern: {
+    getPK: AccessPattern.getPK,
+    getSKforSpecificItem: AccessPattern.getSKforSpecificItem,
+    getSKforAllItems: AccessPattern.getSKforAllItems,
+  },
+  entitySchema: Schema,
+  createEntity,
+  entity: entity,
+};
@@ -0,0 +1,205 @@
+import {
+  DeleteCommand,
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { mockClient } from "aws-sdk-client-mock";
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { mockedConfigurationId, mockedSaleorAppId } from "@/__tests__/mocks/constants";
+import { getMockedDeadLetterStripeEvent } from "@/__tests__/mocks/mocked-dead-letter-stripe-event";
+import { mockedSaleorApiUrl } from "@/__tests__/mocks/saleor-api-url";
+import { DeadLetterStripeEvent } from "@/modules/dead-letter-events/domain/dead-letter-stripe-event";
+import { DeadLetterEventRepoError } from "@/modules/dead-letter-events/repositories/dead-letter-event-repo";
+import { DynamoDbDeadLetterStripeEvent } from "@/modules/dead-letter-events/repositories/dynamodb/dead-letter-event-db-model";
+import { DynamoDBDeadLetterEventRepo } from "@/modules/dead-letter-events/repositories/dynamodb/dynamodb-dead-letter-event-repo";
+import { DynamoMainTable } from "@/modules/dynamodb/dynamo-main-table";
+
+describe("DynamoDBDeadLetterEventRepo", () => {
+  let repo: DynamoDBDeadLetterEventRepo;
+
+  const mockDocumentClient = mockClient(DynamoDBDocumentClient);
+
+  const access = {
+    saleorApiUrl: mockedSaleorApiUrl,
+    appId: mockedSaleorAppId,
+  };
+
+  const getMockedItem = () => ({
+    PK: "https://foo.bar.saleor.cloud/graphql/#saleor-app-id",
+    SK: "DEAD_LETTER_EVENT#evt_event-id",
+    stripeEventId: "evt_event-id",
+    stripeEventType: "payment_intent.succeeded",
+    configurationId: mockedConfigurationId,
+    rawEvent: '{"id":"evt_event-id"}',
+    errorMessage: "Saleor is down",
+    attemptCount: 3,
+    lastFailedAt: "2024-01-01T00:00:00.000Z",
+    createdAt: "2023-12-31T00:00:00.000Z",
+    modifiedAt: "2024-01-01T00:00:00.000Z",
+    _et: "DeadLetterStripeEvent",
+  });
+
+  beforeEach(() => {
+    mockDocumentClient.reset();
+
+    const table = DynamoMainTable.create({
+      // @ts-expect-error mocking DynamoDBDocumentClient
+      documentClient: mockDocumentClient,
+      tableName: "stripe-test-table",
+    });
+
+    repo = new DynamoDBDeadLetterEventRepo({
+      entity: DynamoDbDeadLetterStripeEvent.createEntity(table),
+    });
+  });
+
+  describe("saveEvent", () => {
+    it("Writes event keyed by Stripe event ID", async () => {
+      mockDocumentClient.on(PutCommand).resolvesOnce({
+        $metadata: {
+          httpStatusCode: 200,
+        },
+      });
+
+      const result = await repo.saveEvent(access, getMockedDeadLetterStripeEvent());
+
+      const putInput = mockDocumentClient.commandCalls(PutCommand)[0].args[0].input;
+
+      expect(result._unsafeUnwrap()).toBeNull();
+      expect(putInput.Item).toStrictEqual(
+        expect.objectContaining({
+          PK: "https://foo.bar.saleor.cloud/graphql/#saleor-app-id",
+          SK: "DEAD_LETTER_EVENT#evt_event-id",
+          attemptCount: 1,
+          lastFailedAt: "2024-01-01T00:00:00.000Z",
+        }),
+      );
+    });
+
+    it("Returns FailedWritingEventError if DynamoDB call fails", async () => {
+      mockDocumentClient.on(PutCommand).rejectsOnce(new Error("Dynamo is down"));
+
+      const result = await repo.saveEvent(access, getMockedDeadLetterStripeEvent());
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(
+        DeadLetterEventRepoError.FailedWritingEventError,
+      );
+    });
+  });
+
+  describe("getEvent", () => {
+    it("Returns DeadLetterStripeEvent if found in DynamoDB", async () => {
+      mockDocumentClient
+        .on(GetCommand, {
+          Key: {
+            PK: "https://foo.bar.saleor.cloud/graphql/#saleor-app-id",
+            SK: "DEAD_LETTER_EVENT#evt_event-id",
+          },
+        })
+        .resolvesOnce({
+          Item: getMockedItem(),
+          $metadata: {
+            httpStatusCode: 200,
+          },
+        });
+
+      const result = await repo.getEvent(access, "evt_event-id");
+
+      expect(result._unsafeUnwrap()).toStrictEqual(
+        new DeadLetterStripeEvent({
+          stripeEventId: "evt_event-id",
+          stripeEventType: "payment_intent.succeeded",
+          configurationId: mockedConfigurationId,
+          rawEvent: '{"id":"evt_event-id"}',
+          errorMessage: "Saleor is down",
+          attemptCount: 3,
+          lastFailedAt: new Date("2024-01-01T00:00:00.000Z"),
+        }),
+      );
+    });
+
+    it("Returns null if event is not found in DynamoDB", async () => {
+      mockDocumentClient.on(GetCommand).resolvesOnce({
+        $metadata: {
+          httpStatusCode: 200,
+        },
+      });
+
+      const result = await repo.getEvent(access, "evt_event-id");
+
+      expect(result._unsafeUnwrap()).toBeNull();
+    });
+  });
+
+  describe("getEvents", () => {
+    it("Queries dead letter events of the installation", async () => {
+      mockDocumentClient.on(QueryCommand).resolvesOnce({
+        Items: [getMockedItem()],
+        $metadata: {
+          httpStatusCode: 200,
+        },
+      });
+
+      const result = await repo.getEvents(access);
+
+      const queryInput = mockDocumentClient.commandCalls(QueryCommand)[0].args[0].input;
+
+      expect(queryInput.ExpressionAttributeValues).toStrictEqual(
+        expect.objectContaining({
+          ":c0_1": "https://foo.bar.saleor.cloud/graphql/#saleor-app-id",
+          ":c0_2": "DEAD_LETTER_EVENT#",
+        }),
+      );
+      expect(result._unsafeUnwrap()).toHaveLength(1);
+      expect(result._unsafeUnwrap()[0]).toBeInstanceOf(DeadLetterStripeEvent);
+    });
+
+    it("Returns FailedFetchingEventError if DynamoDB query fails", async () => {
+      mockDocumentClient.on(QueryCommand).rejectsOnce(new Error("Dynamo is down"));
+
+      const result = await repo.getEvents(access);
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(
+        DeadLetterEventRepoError.FailedFetchingEventError,
+      );
+    });
+  });
+
+  describe("removeEvent", () => {
+    it("Deletes event by Stripe event ID", async () => {
+      mockDocumentClient
+        .on(DeleteCommand, {
+          Key: {
+            PK: "https://foo.bar.saleor.cloud/graphql/#saleor-app-id",
+            SK: "DEAD_LETTER_EVENT#evt_event-id",
+          },
+        })
+        .resolvesOnce({
+          $metadata: {
+            httpStatusCode: 200,
+          },
+        });
+
+      const result = await repo.removeEvent(access, "evt_event-id");
+
+      expect(result._unsafeUnwrap()).toBeNull();
+    });
+
+    it("Returns FailedRemovingEventError if DynamoDB call ended with non-200 status", async () => {
+      mockDocumentClient.on(DeleteCommand).resolvesOnce({
+        $metadata: {
+          httpStatusCode: 500,
+        },
+      });
+
+      const result = await repo.removeEvent(access, "evt_event-id");
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(
+        DeadLetterEventRepoError.FailedRemovingEventError,
+      );
+    });
+  });
+});
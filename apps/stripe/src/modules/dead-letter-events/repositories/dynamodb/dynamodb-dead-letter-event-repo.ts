@@ -0,0 +1,205 @@
+import {
+  DeleteItemCommand,
+  type FormattedItem,
+  GetItemCommand,
+  PutItemCommand,
+} from "dynamodb-toolbox";
+import { QueryCommand } from "dynamodb-toolbox/table/actions/query";
+import { err, ok, type Result } from "neverthrow";
+
+import { createLogger } from "@/lib/logger";
+import { DeadLetterStripeEvent } from "@/modules/dead-letter-events/domain/dead-letter-stripe-event";
+import {
+  type DeadLetterEventRepo,
+  type DeadLetterEventRepoAccess,
+  DeadLetterEventRepoError,
+} from "@/modules/dead-letter-events/repositories/dead-letter-event-repo";
+import {
+  DynamoDbDeadLetterStripeEvent,
+  type DynamoDbDeadLetterStripeEventEntity,
+} from "@/modules/dead-letter-events/repositories/dynamodb/dead-letter-event-db-model";
+
+export class DynamoDBDeadLetterEventRepo implements DeadLetterEventRepo {
+  private entity: DynamoDbDeadLetterStripeEventEntity;
+
+  private logger = createLogger("DynamoDBDeadLetterEventRepo");
+
+  constructor(
+    params = {
+      entity: DynamoDbDeadLetterStripeEvent.entity,
+    },
+  ) {
+    this.entity = params.entity;
+  }
+
+  private mapItemToDeadLetterEvent(item: FormattedItem<DynamoDbDeadLetterStripeEventEntity>) {
+    return new DeadLetterStripeEvent({
+      stripeEventId: item.stripeEventId,
+      stripeEventType: item.stripeEventType,
+      configurationId: item.configurationId,
+      rawEvent: item.rawEvent,
+      errorMessage: item.errorMessage,
+      attemptCount: item.attemptCount,
+      lastFailedAt: new Date(item.lastFailedAt),
+    });
+  }
+
+  async saveEvent(
+    accessPattern: DeadLetterEventRepoAccess,
+    event: DeadLetterStripeEvent,
+  ): Promise<Result<null, DeadLetterEventRepoError>> {
+    try {
+      const result = await this.entity
+        .build(PutItemCommand)
+        .item({
+          PK: DynamoDbDeadLetterStripeEvent.accessPattern.getPK(accessPattern),
+          SK: DynamoDbDeadLetterStripeEvent.accessPattern.getSKforSpecificItem({
+            stripeEventId: event.stripeEventId,
+          }),
+          stripeEventId: event.stripeEventId,
+          stripeEventType: event.stripeEventType,
+          configurationId: event.configurationId,
+          rawEvent: event.rawEvent,
+          errorMessage: event.errorMessage,
+          attemptCount: event.attemptCount,
+          lastFailedAt: event.lastFailedAt.toISOString(),
+        })
+        .send();
+
+      if (result.$metadata.httpStatusCode !== 200) {
+        return err(
+          new DeadLetterEventRepoError.FailedWritingEventError(
+            "Failed to write dead letter event to DynamoDB. HTTP status code: " +
+              result.$metadata.httpStatusCode,
+            {
+              cause: result,
+            },
+          ),
+        );
+      }
+
+      this.logger.debug("Saved dead letter event to DynamoDB", {
+        stripeEventId: event.stripeEventId,
+        attemptCount: event.attemptCount,
+      });
+
+      return ok(null);
+    } catch (e) {
+      return err(
+        new DeadLetterEventRepoError.FailedWritingEventError(
+          "Failed to write dead letter event to DynamoDB",
+          {
+            cause: e,
+          },
+        ),
+      );
+    }
+  }
+
+  async getEvent(
+    accessPattern: DeadLetterEventRepoAccess,
+    stripeEventId: string,
+  ): Promise<Result<DeadLetterStripeEvent | null, DeadLetterEventRepoError>> {
+    try {
+      const result = await this.entity
+        .build(GetItemCommand)
+        .key({
+          PK: DynamoDbDeadLetterStripeEvent.accessPattern.getPK(accessPattern),
+          SK: DynamoDbDeadLetterStripeEvent.accessPattern.getSKforSpecificItem({ stripeEventId }),
+        })
+        .send();
+
+      if (result.$metadata.httpStatusCode !== 200) {
+        return err(
+          new DeadLetterEventRepoError.FailedFetchingEventError(
+            "Failed to read data from DynamoDB. HTTP status code: " +
+              result.$metadata.httpStatusCode,
+            {
+              cause: result,
+            },
+          ),
+        );
+      }
+
+      return ok(result.Item ? this.mapItemToDeadLetterEvent(result.Item) : null);
+    } catch (e) {
+      return err(
+        new DeadLetterEventRepoError.FailedFetchingEventError(
+          "Failed to fetch dead letter event from DynamoDB",
+          {
+            cause: e,
+          },
+        ),
+      );
+    }
+  }
+
+  async getEvents(
+    accessPattern: DeadLetterEventRepoAccess,
+  ): Promise<Result<DeadLetterStripeEvent[], DeadLetterEventRepoError>> {
+    try {
+      const result = await this.entity.table
+        .build(QueryCommand)
+        .entities(this.entity)
+        .query({
+          partition: DynamoDbDeadLetterStripeEvent.accessPattern.getPK(accessPattern),
+          range: {
+            beginsWith: DynamoDbDeadLetterStripeEvent.accessPattern.getSKforAllItems(),
+          },
+        })
+        .options({
+          maxPages: Infinity,
+        })
+        .send();
+
+      return ok((result.Items ?? []).map((item) => this.mapItemToDeadLetterEvent(item)));
+    } catch (e) {
+      return err(
+        new DeadLetterEventRepoError.FailedFetchingEventError(
+          "Failed to fetch dead letter events from DynamoDB",
+          {
+            cause: e,
+          },
+        ),
+      );
+    }
+  }
+
+  async removeEvent(
+    accessPattern: DeadLetterEventRepoAccess,
+    stripeEventId: string,
+  ): Promise<Result<null, DeadLetterEventRepoError>> {
+    try {
+      const result = await this.entity
+        .build(DeleteItemCommand)
+        .key({
+          PK: DynamoDbDeadLetterStripeEvent.accessPattern.getPK(accessPattern),
+          SK: DynamoDbDeadLetterStripeEvent.accessPattern.getSKforSpecificItem({ stripeEventId }),
+        })
+        .send();
+
+      if (result.$metadata.httpStatusCode !== 200) {
+        return err(
+          new DeadLetterEventRepoError.FailedRemovingEventError(
+            "Failed to remove dead letter event from DynamoDB. HTTP status code: " +
+              result.$metadata.httpStatusCode,
+            {
+              cause: result,
+            },
+          ),
+        );
+      }
+
+      return ok(null);
+    } catch (e) {
+      return err(
+        new DeadLetterEventRepoError.FailedRemovingEventError(
+          "Failed to remove dead letter event from DynamoDB",
+          {
+            cause: e,
+          },
+        ),
+      );
+    }
+  }
+}
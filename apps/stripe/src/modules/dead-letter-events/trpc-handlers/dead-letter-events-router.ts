@@ -0,0 +1,24 @@
+import { appConfigRepoImpl } from "@/modules/app-config/repositories/app-config-repo-impl";
+import { ReplayDeadLetterEventsUseCase } from "@/modules/dead-letter-events/replay-dead-letter-events-use-case";
+import { deadLetterEventRepo } from "@/modules/dead-letter-events/repositories/dead-letter-event-repo-impl";
+import { ListDeadLetterEventsTrpcHandler } from "@/modules/dead-letter-events/trpc-handlers/list-dead-letter-events-trpc-handler";
+import { ReplayDeadLetterEventsTrpcHandler } from "@/modules/dead-letter-events/trpc-handlers/replay-dead-letter-events-trpc-handler";
+import { StripePaymentIntentsApiFactory } from "@/modules/stripe/stripe-payment-intents-api-factory";
+import { transactionRecorder } from "@/modules/transactions-recording/repositories/transaction-recorder-impl";
+import { router } from "@/modules/trpc/trpc-server";
+
+const replayUseCase = new ReplayDeadLetterEventsUseCase({
+  deadLetterEventRepo,
+  appConfigRepo: appConfigRepoImpl,
+  transactionRecorder,
+  stripePaymentIntentsApiFactory: new StripePaymentIntentsApiFactory(),
+});
+
+export const deadLetterEventsRouter = router({
+  listDeadLetterEvents: new ListDeadLetterEventsTrpcHandler({
+    deadLetterEventRepo,
+  }).getTrpcProcedure(),
+  replayDeadLetterEvents: new ReplayDeadLetterEventsTrpcHandler({
+    replayUseCase,
+  }).getTrpcProcedure(),
+});
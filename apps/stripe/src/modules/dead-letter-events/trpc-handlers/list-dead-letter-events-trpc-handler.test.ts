@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+
+import { mockedAppConfigRepo } from "@/__tests__/mocks/app-config-repo";
+import { mockedAppToken, mockedSaleorAppId } from "@/__tests__/mocks/constants";
+import { mockedGraphqlClient } from "@/__tests__/mocks/graphql-client";
+import { MockedDeadLetterEventRepo } from "@/__tests__/mocks/mocked-dead-letter-event-repo";
+import { getMockedDeadLetterStripeEvent } from "@/__tests__/mocks/mocked-dead-letter-stripe-event";
+import { mockedSaleorApiUrl } from "@/__tests__/mocks/saleor-api-url";
+import { TEST_Procedure } from "@/__tests__/trpc-testing-procedure";
+import { ListDeadLetterEventsTrpcHandler } from "@/modules/dead-letter-events/trpc-handlers/list-dead-letter-events-trpc-handler";
+import { router } from "@/modules/trpc/trpc-server";
+
+describe("ListDeadLetterEventsTrpcHandler", () => {
+  it("Returns events without raw Stripe event, most recently failed first", async () => {
+    const deadLetterEventRepo = new MockedDeadLetterEventRepo();
+
+    deadLetterEventRepo.events = {
+      evt_old: getMockedDeadLetterStripeEvent({
+        stripeEventId: "evt_old",
+        lastFailedAt: new Date("2024-01-01T00:00:00.000Z"),
+      }),
+      evt_new: getMockedDeadLetterStripeEvent({
+        stripeEventId: "evt_new",
+        attemptCount: 4,
+        lastFailedAt: new Date("2024-01-02T00:00:00.000Z"),
+      }),
+    };
+
+    const instance = new ListDeadLetterEventsTrpcHandler({ deadLetterEventRepo });
+
+    // @ts-expect-error - context doesnt match but its applied in test
+    instance.baseProcedure = TEST_Procedure;
+
+    const caller = router({ testProcedure: instance.getTrpcProcedure() }).createCaller({
+      appId: mockedSaleorAppId,
+      saleorApiUrl: mockedSaleorApiUrl,
+      token: mockedAppToken,
+      configRepo: mockedAppConfigRepo,
+      apiClient: mockedGraphqlClient,
+      appUrl: "https://localhost:3000",
+    });
+
+    const events = await caller.testProcedure();
+
+    expect(events.map((event) => event.stripeEventId)).toStrictEqual(["evt_new", "evt_old"]);
+    expect(events[0]).toMatchInlineSnapshot(`
+      {
+        "attemptCount": 4,
+        "configurationId": "81f323bd-91e2-4838-ab6e-5affd81ffc3b",
+        "errorMessage": "TransactionRecorder.TransactionMissingError: Transaction not found",
+        "lastFailedAt": "2024-01-02T00:00:00.000Z",
+        "stripeEventId": "evt_new",
+        "stripeEventType": "payment_intent.succeeded",
+      }
+    `);
+  });
+});
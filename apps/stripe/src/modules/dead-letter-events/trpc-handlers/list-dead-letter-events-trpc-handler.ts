@@ -0,0 +1,53 @@
+import { TRPCError } from "@trpc/server";
+
+import { type DeadLetterEventRepo } from "@/modules/dead-letter-events/repositories/dead-letter-event-repo";
+import { createSaleorApiUrl } from "@/modules/saleor/saleor-api-url";
+import { protectedClientProcedure } from "@/modules/trpc/protected-client-procedure";
+
+export class ListDeadLetterEventsTrpcHandler {
+  baseProcedure = protectedClientProcedure;
+
+  private readonly deadLetterEventRepo: DeadLetterEventRepo;
+
+  constructor(deps: { deadLetterEventRepo: DeadLetterEventRepo }) {
+    this.deadLetterEventRepo = deps.deadLetterEventRepo;
+  }
+
+  getTrpcProcedure() {
+    return this.baseProcedure.query(async ({ ctx }) => {
+      const saleorApiUrl = createSaleorApiUrl(ctx.saleorApiUrl);
+
+      if (saleorApiUrl.isErr()) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Malformed request",
+        });
+      }
+
+      const eventsResult = await this.deadLetterEventRepo.getEvents({
+        appId: ctx.appId,
+        saleorApiUrl: saleorApiUrl.value,
+      });
+
+      if (eventsResult.isErr()) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to fetch failed Stripe events. Please try again.",
+          cause: eventsResult.error,
+        });
+      }
+
+      // Raw event is not sent to the frontend - it's only needed for replay
+      return eventsResult.value
+        .toSorted((a, b) => b.lastFailedAt.getTime() - a.lastFailedAt.getTime())
+        .map((event) => ({
+          stripeEventId: event.stripeEventId,
+          stripeEventType: event.stripeEventType,
+          configurationId: event.configurationId,
+          errorMessage: event.errorMessage,
+          attemptCount: event.attemptCount,
+          lastFailedAt: event.lastFailedAt.toISOString(),
+        }));
+    });
+  }
+}
@@ -0,0 +1,98 @@
+import { err, ok } from "neverthrow";
+import { describe, expect, it, vi } from "vitest";
+
+import { mockedAppConfigRepo } from "@/__tests__/mocks/app-config-repo";
+import { mockedAppToken, mockedSaleorAppId } from "@/__tests__/mocks/constants";
+import { mockedGraphqlClient } from "@/__tests__/mocks/graphql-client";
+import { MockedDeadLetterEventRepo } from "@/__tests__/mocks/mocked-dead-letter-event-repo";
+import { MockedTransactionRecorder } from "@/__tests__/mocks/mocked-transaction-recorder";
+import { mockedSaleorApiUrl } from "@/__tests__/mocks/saleor-api-url";
+import { TEST_Procedure } from "@/__tests__/trpc-testing-procedure";
+import { ReplayDeadLetterEventsUseCase } from "@/modules/dead-letter-events/replay-dead-letter-events-use-case";
+import { DeadLetterEventRepoError } from "@/modules/dead-letter-events/repositories/dead-letter-event-repo";
+import { ReplayDeadLetterEventsTrpcHandler } from "@/modules/dead-letter-events/trpc-handlers/replay-dead-letter-events-trpc-handler";
+import { router } from "@/modules/trpc/trpc-server";
+
+const getTestCaller = () => {
+  const replayUseCase = new ReplayDeadLetterEventsUseCase({
+    deadLetterEventRepo: new MockedDeadLetterEventRepo(),
+    appConfigRepo: mockedAppConfigRepo,
+    transactionRecorder: new MockedTransactionRecorder(),
+    stripePaymentIntentsApiFactory: { create: vi.fn() },
+  });
+
+  const instance = new ReplayDeadLetterEventsTrpcHandler({
+    replayUseCase,
+  });
+
+  // @ts-expect-error - context doesnt match but its applied in test
+  instance.baseProcedure = TEST_Procedure;
+
+  const testRouter = router({
+    testProcedure: instance.getTrpcProcedure(),
+  });
+
+  return {
+    replayUseCase,
+    caller: testRouter.createCaller({
+      appId: mockedSaleorAppId,
+      saleorApiUrl: mockedSaleorApiUrl,
+      token: mockedAppToken,
+      configRepo: mockedAppConfigRepo,
+      apiClient: mockedGraphqlClient,
+      appUrl: "https://localhost:3000",
+    }),
+  };
+};
+
+describe("ReplayDeadLetterEventsTrpcHandler", () => {
+  it("Replays all events if event ID is not provided and returns report", async () => {
+    const { caller, replayUseCase } = getTestCaller();
+
+    const report = {
+      replayedEvents: [
+        {
+          stripeEventId: "evt_event-id",
+          stripeEventType: "payment_intent.succeeded",
+          status: "reported" as const,
+        },
+      ],
+    };
+
+    const executeSpy = vi
+      .spyOn(replayUseCase, "execute")
+      .mockImplementationOnce(async () => ok(report));
+
+    await expect(caller.testProcedure({})).resolves.toStrictEqual(report);
+
+    expect(executeSpy).toHaveBeenCalledExactlyOnceWith(
+      expect.objectContaining({
+        appId: mockedSaleorAppId,
+        saleorApiUrl: mockedSaleorApiUrl,
+        stripeEventId: undefined,
+      }),
+    );
+  });
+
+  it("Throws NOT_FOUND if requested event doesn't exist", async () => {
+    const { caller } = getTestCaller();
+
+    await expect(
+      caller.testProcedure({ stripeEventId: "evt_missing" }),
+    ).rejects.toThrowErrorMatchingInlineSnapshot(
+      `[TRPCError: Failed Stripe event not found. It may have been replayed already.]`,
+    );
+  });
+
+  it("Throws INTERNAL_SERVER_ERROR if events can't be fetched", async () => {
+    const { caller, replayUseCase } = getTestCaller();
+
+    vi.spyOn(replayUseCase, "execute").mockImplementationOnce(async () =>
+      err(new DeadLetterEventRepoError.FailedFetchingEventError("DynamoDB error")),
+    );
+
+    await expect(caller.testProcedure({})).rejects.toThrowErrorMatchingInlineSnapshot(
+      `[TRPCError: Failed to fetch failed Stripe events. Please try again.]`,
+    );
+  });
+});
@@ -0,0 +1,68 @@
+import { TRPCError } from "@trpc/server";
+
+import { createInstrumentedGraphqlClient } from "@/lib/graphql-client";
+import { createStripeProblemReporter } from "@/modules/app-problems";
+import { replayDeadLetterEventsInputSchema } from "@/modules/dead-letter-events/replay-dead-letter-events-input-schema";
+import { ReplayDeadLetterEventsUseCase } from "@/modules/dead-letter-events/replay-dead-letter-events-use-case";
+import { createSaleorApiUrl } from "@/modules/saleor/saleor-api-url";
+import { TransactionEventReporter } from "@/modules/saleor/transaction-event-reporter";
+import { protectedClientProcedure } from "@/modules/trpc/protected-client-procedure";
+
+export class ReplayDeadLetterEventsTrpcHandler {
+  baseProcedure = protectedClientProcedure;
+
+  private readonly replayUseCase: ReplayDeadLetterEventsUseCase;
+
+  constructor(deps: { replayUseCase: ReplayDeadLetterEventsUseCase }) {
+    this.replayUseCase = deps.replayUseCase;
+  }
+
+  getTrpcProcedure() {
+    return this.baseProcedure
+      .input(replayDeadLetterEventsInputSchema)
+      .mutation(async ({ input, ctx }) => {
+        const saleorApiUrl = createSaleorApiUrl(ctx.saleorApiUrl);
+
+        if (saleorApiUrl.isErr()) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Malformed request",
+          });
+        }
+
+        // Transaction events can be reported only by the app, so app token is used instead of user's one
+        const appAuthData = {
+          saleorApiUrl: ctx.saleorApiUrl,
+          token: ctx.appToken,
+          appId: ctx.appId,
+        };
+
+        const replayResult = await this.replayUseCase.execute({
+          appId: ctx.appId,
+          saleorApiUrl: saleorApiUrl.value,
+          stripeEventId: input.stripeEventId,
+          transactionEventReporter: new TransactionEventReporter({
+            graphqlClient: createInstrumentedGraphqlClient(appAuthData),
+          }),
+          problemReporter: createStripeProblemReporter(appAuthData),
+        });
+
+        if (replayResult.isErr()) {
+          if (replayResult.error instanceof ReplayDeadLetterEventsUseCase.EventNotFoundError) {
+            throw new TRPCError({
+              code: "NOT_FOUND",
+              message: "Failed Stripe event not found. It may have been replayed already.",
+            });
+          }
+
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Failed to fetch failed Stripe events. Please try again.",
+            cause: replayResult.error,
+          });
+        }
+
+        return replayResult.value;
+      });
+  }
+}
@@ -0,0 +1,29 @@
+export const fraudRuleNames = [
+  "EMAIL_DOMAIN_BLOCKLIST",
+  "COUNTRY_MISMATCH",
+  "FIRST_TIME_BUYER_AMOUNT_LIMIT",
+] as const;
+
+export type FraudRuleName = (typeof fraudRuleNames)[number];
+
+/**
+ * Buyer and payment data available before PaymentIntent is created
+ */
+export type FraudScreeningInput = {
+  email: string | null;
+  billingCountryCode: string | null;
+  shippingCountryCode: string | null;
+  amount: number;
+  currency: string;
+  /**
+   * Null if it was not resolved, e.g. because no enabled rule needs it
+   */
+  isFirstTimeBuyer: boolean | null;
+};
+
+export type FraudRuleVerdict = { blocked: false } | { blocked: true; reason: string };
+
+export interface FraudRule {
+  readonly name: FraudRuleName;
+  evaluate(input: FraudScreeningInput): FraudRuleVerdict;
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+
+import { FraudRulesSettings } from "@/modules/app-config/domain/fraud-rules-settings";
+
+import { type FraudScreeningInput } from "./fraud-rule";
+import { FraudScreeningEngine } from "./fraud-screening-engine";
+
+const input: FraudScreeningInput = {
+  email: "buyer@example.com",
+  billingCountryCode: "PL",
+  shippingCountryCode: "PL",
+  amount: 100,
+  currency: "USD",
+  isFirstTimeBuyer: false,
+};
+
+const createEngine = (fields: Partial<Parameters<typeof FraudRulesSettings.create>[0]>) =>
+  FraudScreeningEngine.createFromSettings(
+    FraudRulesSettings.create({
+      blockedEmailDomains: [],
+      blockCountryMismatch: false,
+      firstTimeBuyerAmountLimit: null,
+      ...fields,
+    })._unsafeUnwrap(),
+  );
+
+describe("FraudScreeningEngine", () => {
+  it("Doesn't block anything if no rule is enabled", () => {
+    const engine = FraudScreeningEngine.createFromSettings(FraudRulesSettings.createDefault());
+
+    expect(
+      engine.screen({
+        ...input,
+        email: "buyer@mailinator.com",
+        shippingCountryCode: "US",
+        isFirstTimeBuyer: true,
+        amount: 999999,
+      }),
+    ).toStrictEqual({ blocked: false });
+  });
+
+  describe("EMAIL_DOMAIN_BLOCKLIST", () => {
+    const engine = createEngine({ blockedEmailDomains: ["mailinator.com"] });
+
+    it("Blocks email in blocked domain, case insensitive", () => {
+      expect(engine.screen({ ...input, email: "Buyer@MAILINATOR.com" })).toStrictEqual({
+        blocked: true,
+        ruleName: "EMAIL_DOMAIN_BLOCKLIST",
+        reason: 'Buyer email domain "mailinator.com" is blocked',
+      });
+    });
+
+    it.each(["buyer@sub.mailinator.com", "buyer@example.com", null])(
+      "Doesn't block email: %s",
+      (email) => {
+        expect(engine.screen({ ...input, email })).toStrictEqual({ blocked: false });
+      },
+    );
+  });
+
+  describe("COUNTRY_MISMATCH", () => {
+    const engine = createEngine({ blockCountryMismatch: true });
+
+    it("Blocks if billing and shipping countries are different", () => {
+      expect(engine.screen({ ...input, shippingCountryCode: "DE" })).toStrictEqual({
+        blocked: true,
+        ruleName: "COUNTRY_MISMATCH",
+        reason: "Billing country PL doesn't match shipping country DE",
+      });
+    });
+
+    it.each([
+      { billingCountryCode: null, shippingCountryCode: "DE" },
+      { billingCountryCode: "PL", shippingCountryCode: null },
+    ])("Doesn't block if any address is missing: %o", (countries) => {
+      expect(engine.screen({ ...input, ...countries })).toStrictEqual({ blocked: false });
+    });
+  });
+
+  describe("FIRST_TIME_BUYER_AMOUNT_LIMIT", () => {
+    const engine = createEngine({ firstTimeBuyerAmountLimit: 500 });
+
+    it("Blocks first-time buyer paying more than limit", () => {
+      expect(engine.screen({ ...input, isFirstTimeBuyer: true, amount: 500.01 })).toStrictEqual({
+        blocked: true,
+        ruleName: "FIRST_TIME_BUYER_AMOUNT_LIMIT",
+        reason: "Amount 500.01 USD exceeds limit 500 for first-time buyer",
+      });
+    });
+
+    it.each([
+      { isFirstTimeBuyer: true, amount: 500 },
+      { isFirstTimeBuyer: false, amount: 1000 },
+      { isFirstTimeBuyer: null, amount: 1000 },
+    ])("Doesn't block: %o", (buyer) => {
+      expect(engine.screen({ ...input, ...buyer })).toStrictEqual({ blocked: false });
+    });
+  });
+
+  it("Returns the first rule that blocks payment", () => {
+    const engine = createEngine({
+      blockedEmailDomains: ["mailinator.com"],
+      blockCountryMismatch: true,
+    });
+
+    expect(
+      engine.screen({ ...input, email: "buyer@mailinator.com", shippingCountryCode: "DE" }),
+    ).toStrictEqual(expect.objectContaining({ ruleName: "EMAIL_DOMAIN_BLOCKLIST" }));
+  });
+
+  it("Exposes which rules are enabled", () => {
+    const engine = createEngine({ firstTimeBuyerAmountLimit: 100 });
+
+    expect(engine.hasRule("FIRST_TIME_BUYER_AMOUNT_LIMIT")).toBe(true);
+    expect(engine.hasRule("COUNTRY_MISMATCH")).toBe(false);
+  });
+});
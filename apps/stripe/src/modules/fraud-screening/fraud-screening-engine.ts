@@ -0,0 +1,58 @@
+import { type FraudRulesSettings } from "@/modules/app-config/domain/fraud-rules-settings";
+
+import { type FraudRule, type FraudRuleName, type FraudScreeningInput } from "./fraud-rule";
+import { CountryMismatchRule } from "./rules/country-mismatch-rule";
+import { EmailDomainBlocklistRule } from "./rules/email-domain-blocklist-rule";
+import { FirstTimeBuyerAmountLimitRule } from "./rules/first-time-buyer-amount-limit-rule";
+
+export type FraudScreeningResult =
+  | { blocked: false }
+  | { blocked: true; ruleName: FraudRuleName; reason: string };
+
+/**
+ * Evaluates rules in order, the first rule that blocks the payment wins
+ */
+export class FraudScreeningEngine {
+  private readonly rules: FraudRule[];
+
+  constructor(rules: FraudRule[]) {
+    this.rules = rules;
+  }
+
+  static createFromSettings(settings: FraudRulesSettings) {
+    const rules: FraudRule[] = [];
+
+    if (settings.blockedEmailDomains.length > 0) {
+      rules.push(new EmailDomainBlocklistRule(settings.blockedEmailDomains));
+    }
+
+    if (settings.blockCountryMismatch) {
+      rules.push(new CountryMismatchRule());
+    }
+
+    if (settings.firstTimeBuyerAmountLimit !== null) {
+      rules.push(new FirstTimeBuyerAmountLimitRule(settings.firstTimeBuyerAmountLimit));
+    }
+
+    return new FraudScreeningEngine(rules);
+  }
+
+  /**
+   * Lets caller skip resolving data that costs extra requests
+   */
+  hasRule(ruleName: FraudRuleName) {
+    return this.rules.some((rule) => rule.name === ruleName);
+  }
+
+  screen(input: FraudScreeningInput): FraudScreeningResult {
+    for (const rule of this.rules) {
+      const verdict = rule.evaluate(input);
+
+      if (verdict.blocked) {
+        return { blocked: true, ruleName: rule.name, reason: verdict.reason };
+      }
+    }
+
+    return { blocked: false };
+  }
+}
@@ -0,0 +1,21 @@
+import { type FraudRule, type FraudRuleVerdict, type FraudScreeningInput } from "../fraud-rule";
+
+/**
+ * Skipped if any of addresses is missing, e.g. digital products without shipping
+ */
+export class CountryMismatchRule implements FraudRule {
+  readonly name = "COUNTRY_MISMATCH" as const;
+
+  evaluate(input: FraudScreeningInput): FraudRuleVerdict {
+    const { billingCountryCode, shippingCountryCode } = input;
+
+    if (!billingCountryCode || !shippingCountryCode || billingCountryCode === shippingCountryCode) {
+      return { blocked: false };
+    }
+
+    return {
+      blocked: true,
+      reason: `Billing country ${billingCountryCode} doesn't match shipping country ${shippingCountryCode}`,
+    };
+  }
+}
@@ -0,0 +1,21 @@
+import { type FraudRule, type FraudRuleVerdict, type FraudScreeningInput } from "../fraud-rule";
+
+export class EmailDomainBlocklistRule implements FraudRule {
+  readonly name = "EMAIL_DOMAIN_BLOCKLIST" as const;
+
+  private readonly blockedDomains: Set<string>;
+
+  constructor(blockedDomains: string[]) {
+    this.blockedDomains = new Set(blockedDomains.map((domain) => domain.toLowerCase()));
+  }
+
+  evaluate(input: FraudScreeningInput): FraudRuleVerdict {
+    const domain = input.email?.split("@").at(-1)?.trim().toLowerCase();
+
+    if (!domain || !this.blockedDomains.has(domain)) {
+      return { blocked: false };
+    }
+
+    return { blocked: true, reason: `Buyer email domain "${domain}" is blocked` };
+  }
+}
@@ -0,0 +1,25 @@
+import { type FraudRule, type FraudRuleVerdict, type FraudScreeningInput } from "../fraud-rule";
+
+/**
+ * Limit is compared with amount in transaction currency, without conversion
+ */
+export class FirstTimeBuyerAmountLimitRule implements FraudRule {
+  readonly name = "FIRST_TIME_BUYER_AMOUNT_LIMIT" as const;
+
+  private readonly amountLimit: number;
+
+  constructor(amountLimit: number) {
+    this.amountLimit = amountLimit;
+  }
+
+  evaluate(input: FraudScreeningInput): FraudRuleVerdict {
+    if (input.isFirstTimeBuyer !== true || input.amount <= this.amountLimit) {
+      return { blocked: false };
+    }
+
+    return {
+      blocked: true,
+      reason: `Amount ${input.amount} ${input.currency} exceeds limit ${this.amountLimit} for first-time buyer`,
+    };
+  }
+}
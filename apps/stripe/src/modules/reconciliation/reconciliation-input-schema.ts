@@ -0,0 +1,15 @@
+import { z } from "zod";
+
+export const reconciliationInputSchema = z.object({
+  /**
+   * When enabled, missing events are only listed in the report and nothing is sent to Saleor
+   */
+  dryRun: z.boolean().default(true),
+  /**
+   * How far back recorded transactions are scanned. Each transaction costs Stripe and Saleor API calls, so the
+   * window is capped to a week.
+   */
+  lookbackHours: z.number().int().min(1).max(168).default(24),
+});
+
+export type ReconciliationInput = z.infer<typeof reconciliationInputSchema>;
@@ -0,0 +1,2 @@
+export const resolveReconciliationCreatedAfter = (lookbackHours: number, now = new Date()) =>
+  new Date(now.getTime() - lookbackHours * 60 * 60 * 1000);
@@ -0,0 +1,366 @@
+import { err, ok } from "neverthrow";
+import type Stripe from "stripe";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { mockedAppConfigRepo } from "@/__tests__/mocks/app-config-repo";
+import {
+  mockedSaleorAppId,
+  mockedSaleorChannelId,
+  mockedSaleorTransactionId,
+} from "@/__tests__/mocks/constants";
+import { getMockedRecordedTransaction } from "@/__tests__/mocks/mocked-recorded-transaction";
+import { mockedStripePaymentIntentId } from "@/__tests__/mocks/mocked-stripe-payment-intent-id";
+import { mockedStripePaymentIntentsApi } from "@/__tests__/mocks/mocked-stripe-payment-intents-api";
+import { mockedStripeRefundId } from "@/__tests__/mocks/mocked-stripe-refund-id";
+import { mockedStripeRefundsApi } from "@/__tests__/mocks/mocked-stripe-refunds-api";
+import { MockedTransactionRecorder } from "@/__tests__/mocks/mocked-transaction-recorder";
+import { mockedSaleorApiUrl } from "@/__tests__/mocks/saleor-api-url";
+import { createResolvedTransactionFlow } from "@/modules/resolved-transaction-flow";
+import {
+  type ITransactionEventReporter,
+  TransactionEventReporterErrors,
+} from "@/modules/saleor/transaction-event-reporter";
+import {
+  type SaleorTransactionEvent,
+  TransactionEventsFetcher,
+} from "@/modules/saleor/transaction-events-fetcher";
+import { createStripePaymentIntentId } from "@/modules/stripe/stripe-payment-intent-id";
+import {
+  type IStripePaymentIntentsApiFactory,
+  type IStripeRefundsApiFactory,
+} from "@/modules/stripe/types";
+import { TransactionRecorderError } from "@/modules/transactions-recording/repositories/transaction-recorder-repo";
+
+import { TransactionReconciliationUseCase } from "./transaction-reconciliation-use-case";
+
+vi.mock("@/lib/logger", () => ({
+  createLogger: () => ({
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+describe("TransactionReconciliationUseCase", () => {
+  const transactionRecorder = new MockedTransactionRecorder();
+
+  const stripePaymentIntentsApiFactory = {
+    create: () => mockedStripePaymentIntentsApi,
+  } satisfies IStripePaymentIntentsApiFactory;
+
+  const stripeRefundsApiFactory = {
+    create: () => mockedStripeRefundsApi,
+  } satisfies IStripeRefundsApiFactory;
+
+  const mockEventReporter = {
+    reportTransactionEvent: vi.fn(),
+  } satisfies ITransactionEventReporter;
+
+  const mockEventsFetcher = {
+    fetchTransactionEvents: vi.fn(),
+  } satisfies Pick<TransactionEventsFetcher, "fetchTransactionEvents">;
+
+  const getMockedPaymentIntent = (overrides: Partial<Stripe.PaymentIntent> = {}) =>
+    ({
+      id: mockedStripePaymentIntentId,
+      currency: "usd",
+      amount: 100_00,
+      amount_capturable: 0,
+      amount_received: 100_00,
+      metadata: {},
+      status: "succeeded",
+      last_payment_error: null,
+      ...overrides,
+    }) as Stripe.PaymentIntent;
+
+  const mockSaleorEvents = (events: SaleorTransactionEvent[]) => {
+    mockEventsFetcher.fetchTransactionEvents.mockImplementation(async () =>
+      ok({
+        channelId: mockedSaleorChannelId,
+        events,
+      }),
+    );
+  };
+
+  const execute = (dryRun: boolean) =>
+    new TransactionReconciliationUseCase({
+      transactionRecorder,
+      appConfigRepo: mockedAppConfigRepo,
+      stripePaymentIntentsApiFactory,
+      stripeRefundsApiFactory,
+    }).execute({
+      appId: mockedSaleorAppId,
+      saleorApiUrl: mockedSaleorApiUrl,
+      createdAfter: new Date("2024-01-01T00:00:00.000Z"),
+      dryRun,
+      transactionEventsFetcher: mockEventsFetcher,
+      transactionEventReporter: mockEventReporter,
+    });
+
+  beforeEach(async () => {
+    transactionRecorder.reset();
+
+    await transactionRecorder.recordTransaction(
+      { appId: mockedSaleorAppId, saleorApiUrl: mockedSaleorApiUrl },
+      getMockedRecordedTransaction(),
+    );
+
+    vi.spyOn(mockedStripePaymentIntentsApi, "getPaymentIntent").mockImplementation(async () =>
+      ok(getMockedPaymentIntent()),
+    );
+    mockedStripeRefundsApi.listRefunds.mockImplementation(async () => ok([]));
+    mockEventReporter.reportTransactionEvent.mockImplementation(async () =>
+      ok({ createdEventId: "event-id" }),
+    );
+    mockSaleorEvents([
+      {
+        pspReference: mockedStripePaymentIntentId,
+        type: "CHARGE_ACTION_REQUIRED",
+        amount: 100,
+      },
+    ]);
+  });
+
+  it("Lists CHARGE_SUCCESS missing in Saleor without reporting it in dry-run mode", async () => {
+    const result = await execute(true);
+
+    expect(result._unsafeUnwrap()).toStrictEqual({
+      dryRun: true,
+      checkedTransactionsCount: 1,
+      missingEvents: [
+        {
+          saleorTransactionId: mockedSaleorTransactionId,
+          stripePaymentIntentId: mockedStripePaymentIntentId,
+          pspReference: mockedStripePaymentIntentId,
+          type: "CHARGE_SUCCESS",
+          amount: 100,
+          currency: "USD",
+          reported: false,
+        },
+      ],
+      failedTransactions: [],
+    });
+    expect(mockEventReporter.reportTransactionEvent).not.toHaveBeenCalled();
+  });
+
+  it("Reports missing CHARGE_SUCCESS to Saleor when not in dry-run mode", async () => {
+    const result = await execute(false);
+
+    expect(result._unsafeUnwrap().missingEvents[0].reported).toBe(true);
+    expect(mockEventReporter.reportTransactionEvent).toHaveBeenCalledExactlyOnceWith(
+      expect.objectContaining({
+        transactionId: mockedSaleorTransactionId,
+        pspReference: mockedStripePaymentIntentId,
+        type: "CHARGE_SUCCESS",
+        externalUrl: `https://dashboard.stripe.com/payments/${mockedStripePaymentIntentId}`,
+      }),
+    );
+  });
+
+  it("Treats event already reported to Saleor as reported", async () => {
+    mockEventReporter.reportTransactionEvent.mockImplementationOnce(async () =>
+      err(new TransactionEventReporterErrors.AlreadyReportedError("Already reported")),
+    );
+
+    const result = await execute(false);
+
+    expect(result._unsafeUnwrap().missingEvents[0].reported).toBe(true);
+  });
+
+  it("Marks event as not reported when Saleor rejects it", async () => {
+    mockEventReporter.reportTransactionEvent.mockImplementationOnce(async () =>
+      err(new TransactionEventReporterErrors.GraphqlError("Saleor error")),
+    );
+
+    const result = await execute(false);
+
+    expect(result._unsafeUnwrap().missingEvents[0].reported).toBe(false);
+  });
+
+  it("Doesn't report anything when Saleor already has events matching Stripe state", async () => {
+    mockedStripeRefundsApi.listRefunds.mockImplementationOnce(async () =>
+      ok([
+        {
+          id: mockedStripeRefundId.toString(),
+          amount: 10_00,
+          currency: "usd",
+          status: "succeeded",
+        } as Stripe.Refund,
+      ]),
+    );
+    mockSaleorEvents([
+      {
+        pspReference: mockedStripePaymentIntentId,
+        type: "CHARGE_SUCCESS",
+        amount: 100,
+      },
+      {
+        pspReference: mockedStripeRefundId,
+        type: "REFUND_SUCCESS",
+        amount: 10,
+      },
+    ]);
+
+    const result = await execute(false);
+
+    expect(result._unsafeUnwrap().missingEvents).toStrictEqual([]);
+    expect(mockEventReporter.reportTransactionEvent).not.toHaveBeenCalled();
+  });
+
+  it("Reports refund succeeded in Stripe while Saleor only has refund request", async () => {
+    mockedStripeRefundsApi.listRefunds.mockImplementationOnce(async () =>
+      ok([
+        {
+          id: mockedStripeRefundId.toString(),
+          amount: 10_00,
+          currency: "usd",
+          status: "succeeded",
+        } as Stripe.Refund,
+      ]),
+    );
+    mockSaleorEvents([
+      {
+        pspReference: mockedStripePaymentIntentId,
+        type: "CHARGE_SUCCESS",
+        amount: 100,
+      },
+      {
+        pspReference: mockedStripeRefundId,
+        type: "REFUND_REQUEST",
+        amount: 10,
+      },
+    ]);
+
+    const result = await execute(false);
+
+    expect(result._unsafeUnwrap().missingEvents).toStrictEqual([
+      expect.objectContaining({
+        pspReference: mockedStripeRefundId,
+        type: "REFUND_SUCCESS",
+        amount: 10,
+        reported: true,
+      }),
+    ]);
+  });
+
+  it.each([
+    {
+      status: "requires_capture" as const,
+      flow: "AUTHORIZATION" as const,
+      lastPaymentError: null,
+      expectedType: "AUTHORIZATION_SUCCESS",
+    },
+    {
+      status: "canceled" as const,
+      flow: "AUTHORIZATION" as const,
+      lastPaymentError: null,
+      expectedType: "CANCEL_SUCCESS",
+    },
+    {
+      status: "requires_payment_method" as const,
+      flow: "CHARGE" as const,
+      lastPaymentError: { type: "card_error" } as Stripe.PaymentIntent.LastPaymentError,
+      expectedType: "CHARGE_FAILURE",
+    },
+  ])(
+    "Expects $expectedType event when PaymentIntent status is $status",
+    async ({ status, flow, lastPaymentError, expectedType }) => {
+      transactionRecorder.reset();
+      await transactionRecorder.recordTransaction(
+        { appId: mockedSaleorAppId, saleorApiUrl: mockedSaleorApiUrl },
+        getMockedRecordedTransaction({
+          resolvedTransactionFlow: createResolvedTransactionFlow(flow),
+        }),
+      );
+      vi.spyOn(mockedStripePaymentIntentsApi, "getPaymentIntent").mockImplementationOnce(async () =>
+        ok(
+          getMockedPaymentIntent({
+            status,
+            amount_capturable: status === "requires_capture" ? 100_00 : 0,
+            amount_received: 0,
+            last_payment_error: lastPaymentError,
+          }),
+        ),
+      );
+
+      const result = await execute(true);
+
+      expect(result._unsafeUnwrap().missingEvents).toStrictEqual([
+        expect.objectContaining({
+          type: expectedType,
+          amount: 100,
+        }),
+      ]);
+    },
+  );
+
+  it("Skips PaymentIntent which is still pending customer action", async () => {
+    vi.spyOn(mockedStripePaymentIntentsApi, "getPaymentIntent").mockImplementationOnce(async () =>
+      ok(getMockedPaymentIntent({ status: "requires_action", amount_received: 0 })),
+    );
+
+    const result = await execute(false);
+
+    expect(result._unsafeUnwrap().missingEvents).toStrictEqual([]);
+  });
+
+  it("Collects transaction as failed when Stripe config for its channel is missing", async () => {
+    vi.spyOn(mockedAppConfigRepo, "getStripeConfig").mockImplementationOnce(async () => ok(null));
+
+    const result = await execute(false);
+
+    expect(result._unsafeUnwrap().failedTransactions).toStrictEqual([
+      {
+        saleorTransactionId: mockedSaleorTransactionId,
+        stripePaymentIntentId: mockedStripePaymentIntentId,
+        reason: "Stripe configuration for transaction channel not found",
+      },
+    ]);
+    expect(mockedStripePaymentIntentsApi.getPaymentIntent).not.toHaveBeenCalled();
+  });
+
+  it("Collects transaction as failed when Stripe API call fails and continues with next transactions", async () => {
+    await transactionRecorder.recordTransaction(
+      { appId: mockedSaleorAppId, saleorApiUrl: mockedSaleorApiUrl },
+      getMockedRecordedTransaction({
+        stripePaymentIntentId: createStripePaymentIntentId("pi_SECOND"),
+      }),
+    );
+    vi.spyOn(mockedStripePaymentIntentsApi, "getPaymentIntent").mockImplementationOnce(async () =>
+      err(new Error("Stripe is down")),
+    );
+
+    const result = await execute(true);
+
+    expect(result._unsafeUnwrap().checkedTransactionsCount).toBe(2);
+    expect(result._unsafeUnwrap().failedTransactions).toStrictEqual([
+      expect.objectContaining({
+        stripePaymentIntentId: mockedStripePaymentIntentId,
+      }),
+    ]);
+    expect(result._unsafeUnwrap().missingEvents).toHaveLength(1);
+  });
+
+  it("Collects transaction as failed when Saleor transaction can't be fetched", async () => {
+    mockEventsFetcher.fetchTransactionEvents.mockImplementationOnce(async () =>
+      err(new TransactionEventsFetcher.FetchError("Failed to fetch transaction events")),
+    );
+
+    const result = await execute(true);
+
+    expect(result._unsafeUnwrap().failedTransactions).toHaveLength(1);
+  });
+
+  it("Returns error when recorded transactions can't be fetched", async () => {
+    vi.spyOn(transactionRecorder, "getTransactionsCreatedAfter").mockImplementationOnce(async () =>
+      err(new TransactionRecorderError.FailedFetchingTransactionError("DynamoDB error")),
+    );
+
+    const result = await execute(true);
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(
+      TransactionRecorderError.FailedFetchingTransactionError,
+    );
+  });
+});
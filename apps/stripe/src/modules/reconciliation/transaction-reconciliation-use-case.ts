@@ -0,0 +1,423 @@
+import { err, ok, type Result } from "neverthrow";
+import type Stripe from "stripe";
+
+import { TransactionEventReportVariablesResolver } from "@/app/api/webhooks/stripe/transaction-event-report-variables-resolver";
+import { type TransactionEventTypeEnum } from "@/generated/graphql";
+import { BaseError } from "@/lib/errors";
+import { createLogger } from "@/lib/logger";
+import { type StripeConfig } from "@/modules/app-config/domain/stripe-config";
+import { type AppConfigRepo } from "@/modules/app-config/repositories/app-config-repo";
+import { resolveSaleorMoneyFromStripePaymentIntent } from "@/modules/saleor/resolve-saleor-money-from-stripe-payment-intent";
+import { type SaleorApiUrl } from "@/modules/saleor/saleor-api-url";
+import { SaleorMoney } from "@/modules/saleor/saleor-money";
+import {
+  type ITransactionEventReporter,
+  TransactionEventReporterErrors,
+} from "@/modules/saleor/transaction-event-reporter";
+import {
+  type SaleorTransactionEvent,
+  type TransactionEventsFetcher,
+} from "@/modules/saleor/transaction-events-fetcher";
+import {
+  generatePaymentIntentStripeDashboardUrl,
+  generateRefundStripeDashboardUrl,
+} from "@/modules/stripe/generate-stripe-dashboard-urls";
+import { type StripeEnv } from "@/modules/stripe/stripe-env";
+import { createStripePaymentIntentStatus } from "@/modules/stripe/stripe-payment-intent-status";
+import { createStripeRefundId } from "@/modules/stripe/stripe-refund-id";
+import { createStripeRefundStatus } from "@/modules/stripe/stripe-refund-status";
+import {
+  type IStripePaymentIntentsApiFactory,
+  type IStripeRefundsApiFactory,
+} from "@/modules/stripe/types";
+import { CancelSuccessResult } from "@/modules/transaction-result/cancel-result";
+import {
+  AuthorizationFailureResult,
+  ChargeFailureResult,
+} from "@/modules/transaction-result/failure-result";
+import { mapPaymentIntentStatusToTransactionResult } from "@/modules/transaction-result/map-payment-intent-status-to-transaction-result";
+import { mapRefundStatusToTransactionResult } from "@/modules/transaction-result/map-refund-status-to-transaction-result";
+import { type RecordedTransaction } from "@/modules/transactions-recording/domain/recorded-transaction";
+import {
+  type TransactionRecorderError,
+  type TransactionRecorderRepo,
+} from "@/modules/transactions-recording/repositories/transaction-recorder-repo";
+
+export type ReconciliationMissingEvent = {
+  saleorTransactionId: string;
+  stripePaymentIntentId: string;
+  pspReference: string;
+  type: TransactionEventTypeEnum;
+  amount: number;
+  currency: string;
+  /**
+   * False in dry-run mode or when reporting to Saleor failed
+   */
+  reported: boolean;
+};
+
+export type ReconciliationFailedTransaction = {
+  saleorTransactionId: string;
+  stripePaymentIntentId: string;
+  reason: string;
+};
+
+export type ReconciliationReport = {
+  dryRun: boolean;
+  checkedTransactionsCount: number;
+  missingEvents: ReconciliationMissingEvent[];
+  failedTransactions: ReconciliationFailedTransaction[];
+};
+
+/**
+ * Detects Stripe state that never reached Saleor, e.g. when webhook was lost. Scans transactions recorded by the app,
+ * resolves events Saleor should have from current PaymentIntent and its refunds and reports the missing ones.
+ *
+ * Events are matched by pspReference and type only - amounts can legitimately differ (e.g. partial captures).
+ * Disputes, partial captures and authorization adjustments are not reconciled, they are reported synchronously or
+ * have their own references.
+ */
+export class TransactionReconciliationUseCase {
+  static ReconciliationError = BaseError.subclass("ReconciliationError", {
+    props: {
+      _internalName: "TransactionReconciliationUseCase.ReconciliationError",
+    },
+  });
+
+  private logger = createLogger("TransactionReconciliationUseCase");
+  private transactionRecorder: TransactionRecorderRepo;
+  private appConfigRepo: AppConfigRepo;
+  private stripePaymentIntentsApiFactory: IStripePaymentIntentsApiFactory;
+  private stripeRefundsApiFactory: IStripeRefundsApiFactory;
+
+  constructor(deps: {
+    transactionRecorder: TransactionRecorderRepo;
+    appConfigRepo: AppConfigRepo;
+    stripePaymentIntentsApiFactory: IStripePaymentIntentsApiFactory;
+    stripeRefundsApiFactory: IStripeRefundsApiFactory;
+  }) {
+    this.transactionRecorder = deps.transactionRecorder;
+    this.appConfigRepo = deps.appConfigRepo;
+    this.stripePaymentIntentsApiFactory = deps.stripePaymentIntentsApiFactory;
+    this.stripeRefundsApiFactory = deps.stripeRefundsApiFactory;
+  }
+
+  /**
+   * Only settled states are reconciled. Pending states (e.g. requires_action) are reported synchronously by the app
+   * in Saleor webhook responses, so Saleor can't miss them.
+   */
+  private resolvePaymentIntentTransactionResult(
+    paymentIntent: Stripe.PaymentIntent,
+    recordedTransaction: RecordedTransaction,
+  ) {
+    const status = createStripePaymentIntentStatus(paymentIntent.status);
+
+    switch (status) {
+      case "succeeded":
+      case "requires_capture":
+        return mapPaymentIntentStatusToTransactionResult(
+          status,
+          recordedTransaction.resolvedTransactionFlow,
+        );
+      case "canceled":
+        return new CancelSuccessResult();
+      case "requires_payment_method":
+        if (!paymentIntent.last_payment_error) {
+          return null;
+        }
+
+        return recordedTransaction.resolvedTransactionFlow === "AUTHORIZATION"
+          ? new AuthorizationFailureResult()
+          : new ChargeFailureResult();
+      default:
+        return null;
+    }
+  }
+
+  private resolveExpectedEvents(args: {
+    paymentIntent: Stripe.PaymentIntent;
+    refunds: Stripe.Refund[];
+    recordedTransaction: RecordedTransaction;
+    stripeEnv: StripeEnv;
+  }): Result<
+    TransactionEventReportVariablesResolver[],
+    InstanceType<typeof SaleorMoney.ValidationError>
+  > {
+    const { paymentIntent, refunds, recordedTransaction, stripeEnv } = args;
+    const expectedEvents: TransactionEventReportVariablesResolver[] = [];
+    const timestamp = new Date();
+
+    const paymentIntentTransactionResult = this.resolvePaymentIntentTransactionResult(
+      paymentIntent,
+      recordedTransaction,
+    );
+
+    if (paymentIntentTransactionResult) {
+      const saleorMoneyResult = resolveSaleorMoneyFromStripePaymentIntent(paymentIntent);
+
+      if (saleorMoneyResult.isErr()) {
+        return err(saleorMoneyResult.error);
+      }
+
+      expectedEvents.push(
+        new TransactionEventReportVariablesResolver({
+          saleorTransactionId: recordedTransaction.saleorTransactionId,
+          transactionResult: paymentIntentTransactionResult,
+          saleorMoney: saleorMoneyResult.value,
+          timestamp,
+          stripeObjectId: recordedTransaction.stripePaymentIntentId,
+          externalUrl: generatePaymentIntentStripeDashboardUrl(
+            recordedTransaction.stripePaymentIntentId,
+            stripeEnv,
+          ),
+          paymentMethodDetails: null,
+        }),
+      );
+    }
+
+    for (const refund of refunds) {
+      const saleorMoneyResult = SaleorMoney.createFromStripe({
+        amount: refund.amount,
+        currency: refund.currency,
+      });
+
+      if (saleorMoneyResult.isErr()) {
+        return err(saleorMoneyResult.error);
+      }
+
+      const refundId = createStripeRefundId(refund.id);
+
+      expectedEvents.push(
+        new TransactionEventReportVariablesResolver({
+          saleorTransactionId: recordedTransaction.saleorTransactionId,
+          transactionResult: mapRefundStatusToTransactionResult(
+            createStripeRefundStatus(refund.status),
+          ),
+          saleorMoney: saleorMoneyResult.value,
+          timestamp,
+          stripeObjectId: refundId,
+          externalUrl: generateRefundStripeDashboardUrl(refundId, stripeEnv),
+          paymentMethodDetails: null,
+        }),
+      );
+    }
+
+    return ok(expectedEvents);
+  }
+
+  private isEventPresentInSaleor(
+    expectedEvent: TransactionEventReportVariablesResolver,
+    saleorEvents: SaleorTransactionEvent[],
+  ) {
+    return saleorEvents.some(
+      (saleorEvent) =>
+        saleorEvent.pspReference === expectedEvent.stripeObjectId &&
+        saleorEvent.type === expectedEvent.transactionResult.result,
+    );
+  }
+
+  private async reconcileTransaction(args: {
+    recordedTransaction: RecordedTransaction;
+    dryRun: boolean;
+    getStripeConfig: (channelId: string) => Promise<StripeConfig | null>;
+    transactionEventsFetcher: Pick<TransactionEventsFetcher, "fetchTransactionEvents">;
+    transactionEventReporter: ITransactionEventReporter;
+  }): Promise<
+    Result<
+      ReconciliationMissingEvent[],
+      InstanceType<typeof TransactionReconciliationUseCase.ReconciliationError>
+    >
+  > {
+    const { recordedTransaction, dryRun, transactionEventReporter } = args;
+
+    const saleorTransactionResult = await args.transactionEventsFetcher.fetchTransactionEvents(
+      recordedTransaction.saleorTransactionId,
+    );
+
+    if (saleorTransactionResult.isErr()) {
+      return err(
+        new TransactionReconciliationUseCase.ReconciliationError(
+          "Failed to fetch transaction from Saleor",
+          { cause: saleorTransactionResult.error },
+        ),
+      );
+    }
+
+    const { channelId, events: saleorEvents } = saleorTransactionResult.value;
+
+    const stripeConfig = channelId ? await args.getStripeConfig(channelId) : null;
+
+    if (!stripeConfig) {
+      return err(
+        new TransactionReconciliationUseCase.ReconciliationError(
+          "Stripe configuration for transaction channel not found",
+        ),
+      );
+    }
+
+    const paymentIntentResult = await this.stripePaymentIntentsApiFactory
+      .create({ key: stripeConfig.restrictedKey })
+      .getPaymentIntent({ id: recordedTransaction.stripePaymentIntentId });
+
+    if (paymentIntentResult.isErr()) {
+      return err(
+        new TransactionReconciliationUseCase.ReconciliationError(
+          "Failed to fetch PaymentIntent from Stripe",
+          { cause: paymentIntentResult.error },
+        ),
+      );
+    }
+
+    const refundsResult = await this.stripeRefundsApiFactory
+      .create({ key: stripeConfig.restrictedKey })
+      .listRefunds({ paymentIntentId: recordedTransaction.stripePaymentIntentId });
+
+    if (refundsResult.isErr()) {
+      return err(
+        new TransactionReconciliationUseCase.ReconciliationError(
+          "Failed to fetch refunds from Stripe",
+          { cause: refundsResult.error },
+        ),
+      );
+    }
+
+    const expectedEventsResult = this.resolveExpectedEvents({
+      paymentIntent: paymentIntentResult.value,
+      refunds: refundsResult.value,
+      recordedTransaction,
+      stripeEnv: stripeConfig.getStripeEnvValue(),
+    });
+
+    if (expectedEventsResult.isErr()) {
+      return err(
+        new TransactionReconciliationUseCase.ReconciliationError(
+          "Failed to resolve expected transaction events",
+          { cause: expectedEventsResult.error },
+        ),
+      );
+    }
+
+    const missingEvents = expectedEventsResult.value.filter(
+      (expectedEvent) => !this.isEventPresentInSaleor(expectedEvent, saleorEvents),
+    );
+
+    const missingEventsReport: ReconciliationMissingEvent[] = [];
+
+    for (const missingEvent of missingEvents) {
+      const reportVariables = missingEvent.resolveEventReportVariables();
+
+      let reported = false;
+
+      if (!dryRun) {
+        const reportResult = await transactionEventReporter.reportTransactionEvent(reportVariables);
+
+        reported =
+          reportResult.isOk() ||
+          reportResult.error instanceof TransactionEventReporterErrors.AlreadyReportedError;
+
+        if (!reported) {
+          this.logger.warn("Failed to report missing transaction event", {
+            error: reportResult.isErr() ? reportResult.error : undefined,
+            pspReference: reportVariables.pspReference,
+          });
+        }
+      }
+
+      missingEventsReport.push({
+        saleorTransactionId: recordedTransaction.saleorTransactionId,
+        stripePaymentIntentId: recordedTransaction.stripePaymentIntentId,
+        pspReference: reportVariables.pspReference,
+        type: reportVariables.type,
+        amount: reportVariables.amount.amount,
+        currency: reportVariables.amount.currency,
+        reported,
+      });
+    }
+
+    return ok(missingEventsReport);
+  }
+
+  async execute(args: {
+    appId: string;
+    saleorApiUrl: SaleorApiUrl;
+    createdAfter: Date;
+    dryRun: boolean;
+    transactionEventsFetcher: Pick<TransactionEventsFetcher, "fetchTransactionEvents">;
+    transactionEventReporter: ITransactionEventReporter;
+  }): Promise<Result<ReconciliationReport, TransactionRecorderError>> {
+    const { appId, saleorApiUrl, createdAfter, dryRun } = args;
+
+    const recordedTransactionsResult = await this.transactionRecorder.getTransactionsCreatedAfter(
+      { appId, saleorApiUrl },
+      createdAfter,
+    );
+
+    if (recordedTransactionsResult.isErr()) {
+      this.logger.error("Failed to fetch recorded transactions", {
+        error: recordedTransactionsResult.error,
+      });
+
+      return err(recordedTransactionsResult.error);
+    }
+
+    const stripeConfigsByChannel = new Map<string, StripeConfig | null>();
+
+    const getStripeConfig = async (channelId: string) => {
+      if (!stripeConfigsByChannel.has(channelId)) {
+        const configResult = await this.appConfigRepo.getStripeConfig({
+          channelId,
+          appId,
+          saleorApiUrl,
+        });
+
+        stripeConfigsByChannel.set(channelId, configResult.unwrapOr(null));
+      }
+
+      return stripeConfigsByChannel.get(channelId) ?? null;
+    };
+
+    const report: ReconciliationReport = {
+      dryRun,
+      checkedTransactionsCount: recordedTransactionsResult.value.length,
+      missingEvents: [],
+      failedTransactions: [],
+    };
+
+    // Transactions are processed one by one to stay within Stripe and Saleor rate limits
+    for (const recordedTransaction of recordedTransactionsResult.value) {
+      const reconcileResult = await this.reconcileTransaction({
+        recordedTransaction,
+        dryRun,
+        getStripeConfig,
+        transactionEventsFetcher: args.transactionEventsFetcher,
+        transactionEventReporter: args.transactionEventReporter,
+      });
+
+      if (reconcileResult.isErr()) {
+        this.logger.warn("Failed to reconcile transaction", {
+          error: reconcileResult.error,
+          stripePaymentIntentId: recordedTransaction.stripePaymentIntentId,
+        });
+
+        report.failedTransactions.push({
+          saleorTransactionId: recordedTransaction.saleorTransactionId,
+          stripePaymentIntentId: recordedTransaction.stripePaymentIntentId,
+          reason: reconcileResult.error.message,
+        });
+
+        continue;
+      }
+
+      report.missingEvents.push(...reconcileResult.value);
+    }
+
+    this.logger.info("Reconciliation finished", {
+      dryRun,
+      checkedTransactionsCount: report.checkedTransactionsCount,
+      missingEventsCount: report.missingEvents.length,
+      failedTransactionsCount: report.failedTransactions.length,
+    });
+
+    return ok(report);
+  }
+}
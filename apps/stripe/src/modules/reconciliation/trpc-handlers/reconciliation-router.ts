@@ -0,0 +1,20 @@
+import { appConfigRepoImpl } from "@/modules/app-config/repositories/app-config-repo-impl";
+import { TransactionReconciliationUseCase } from "@/modules/reconciliation/transaction-reconciliation-use-case";
+import { RunReconciliationTrpcHandler } from "@/modules/reconciliation/trpc-handlers/run-reconciliation-trpc-handler";
+import { StripePaymentIntentsApiFactory } from "@/modules/stripe/stripe-payment-intents-api-factory";
+import { StripeRefundsApiFactory } from "@/modules/stripe/stripe-refunds-api-factory";
+import { transactionRecorder } from "@/modules/transactions-recording/repositories/transaction-recorder-impl";
+import { router } from "@/modules/trpc/trpc-server";
+
+const reconciliationUseCase = new TransactionReconciliationUseCase({
+  transactionRecorder,
+  appConfigRepo: appConfigRepoImpl,
+  stripePaymentIntentsApiFactory: new StripePaymentIntentsApiFactory(),
+  stripeRefundsApiFactory: new StripeRefundsApiFactory(),
+});
+
+export const reconciliationRouter = router({
+  runReconciliation: new RunReconciliationTrpcHandler({
+    reconciliationUseCase,
+  }).getTrpcProcedure(),
+});
@@ -0,0 +1,101 @@
+import { err, ok } from "neverthrow";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { mockedAppConfigRepo } from "@/__tests__/mocks/app-config-repo";
+import { mockedAppToken, mockedSaleorAppId } from "@/__tests__/mocks/constants";
+import { mockedGraphqlClient } from "@/__tests__/mocks/graphql-client";
+import { MockedTransactionRecorder } from "@/__tests__/mocks/mocked-transaction-recorder";
+import { mockedSaleorApiUrl } from "@/__tests__/mocks/saleor-api-url";
+import { TEST_Procedure } from "@/__tests__/trpc-testing-procedure";
+import { TransactionReconciliationUseCase } from "@/modules/reconciliation/transaction-reconciliation-use-case";
+import { RunReconciliationTrpcHandler } from "@/modules/reconciliation/trpc-handlers/run-reconciliation-trpc-handler";
+import { TransactionRecorderError } from "@/modules/transactions-recording/repositories/transaction-recorder-repo";
+import { router } from "@/modules/trpc/trpc-server";
+
+const getTestCaller = () => {
+  const reconciliationUseCase = new TransactionReconciliationUseCase({
+    transactionRecorder: new MockedTransactionRecorder(),
+    appConfigRepo: mockedAppConfigRepo,
+    stripePaymentIntentsApiFactory: { create: vi.fn() },
+    stripeRefundsApiFactory: { create: vi.fn() },
+  });
+
+  const instance = new RunReconciliationTrpcHandler({
+    reconciliationUseCase,
+  });
+
+  // @ts-expect-error - context doesnt match but its applied in test
+  instance.baseProcedure = TEST_Procedure;
+
+  const testRouter = router({
+    testProcedure: instance.getTrpcProcedure(),
+  });
+
+  return {
+    reconciliationUseCase,
+    caller: testRouter.createCaller({
+      appId: mockedSaleorAppId,
+      saleorApiUrl: mockedSaleorApiUrl,
+      token: mockedAppToken,
+      configRepo: mockedAppConfigRepo,
+      apiClient: mockedGraphqlClient,
+      appUrl: "https://localhost:3000",
+    }),
+  };
+};
+
+describe("RunReconciliationTrpcHandler", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date("2024-01-02T00:00:00.000Z") });
+
+    return () => {
+      vi.useRealTimers();
+    };
+  });
+
+  it("Runs dry-run reconciliation of last 24 hours by default and returns report", async () => {
+    const { caller, reconciliationUseCase } = getTestCaller();
+
+    const report = {
+      dryRun: true,
+      checkedTransactionsCount: 0,
+      missingEvents: [],
+      failedTransactions: [],
+    };
+
+    const executeSpy = vi
+      .spyOn(reconciliationUseCase, "execute")
+      .mockImplementationOnce(async () => ok(report));
+
+    await expect(caller.testProcedure({})).resolves.toStrictEqual(report);
+
+    expect(executeSpy).toHaveBeenCalledExactlyOnceWith(
+      expect.objectContaining({
+        appId: mockedSaleorAppId,
+        saleorApiUrl: mockedSaleorApiUrl,
+        dryRun: true,
+        createdAfter: new Date("2024-01-01T00:00:00.000Z"),
+      }),
+    );
+  });
+
+  it("Throws INTERNAL_SERVER_ERROR if recorded transactions can't be fetched", async () => {
+    const { caller, reconciliationUseCase } = getTestCaller();
+
+    vi.spyOn(reconciliationUseCase, "execute").mockImplementationOnce(async () =>
+      err(new TransactionRecorderError.FailedFetchingTransactionError("DynamoDB error")),
+    );
+
+    await expect(
+      caller.testProcedure({ dryRun: false, lookbackHours: 1 }),
+    ).rejects.toThrowErrorMatchingInlineSnapshot(
+      `[TRPCError: Failed to fetch recorded transactions. Please try again.]`,
+    );
+  });
+
+  it("Rejects lookback longer than a week", async () => {
+    const { caller } = getTestCaller();
+
+    await expect(caller.testProcedure({ lookbackHours: 169 })).rejects.toThrow();
+  });
+});
@@ -0,0 +1,60 @@
+import { TRPCError } from "@trpc/server";
+
+import { createInstrumentedGraphqlClient } from "@/lib/graphql-client";
+import { reconciliationInputSchema } from "@/modules/reconciliation/reconciliation-input-schema";
+import { resolveReconciliationCreatedAfter } from "@/modules/reconciliation/resolve-reconciliation-created-after";
+import { type TransactionReconciliationUseCase } from "@/modules/reconciliation/transaction-reconciliation-use-case";
+import { createSaleorApiUrl } from "@/modules/saleor/saleor-api-url";
+import { TransactionEventReporter } from "@/modules/saleor/transaction-event-reporter";
+import { TransactionEventsFetcher } from "@/modules/saleor/transaction-events-fetcher";
+import { protectedClientProcedure } from "@/modules/trpc/protected-client-procedure";
+
+export class RunReconciliationTrpcHandler {
+  baseProcedure = protectedClientProcedure;
+
+  private readonly reconciliationUseCase: TransactionReconciliationUseCase;
+
+  constructor(deps: { reconciliationUseCase: TransactionReconciliationUseCase }) {
+    this.reconciliationUseCase = deps.reconciliationUseCase;
+  }
+
+  getTrpcProcedure() {
+    return this.baseProcedure.input(reconciliationInputSchema).mutation(async ({ input, ctx }) => {
+      const saleorApiUrl = createSaleorApiUrl(ctx.saleorApiUrl);
+
+      if (saleorApiUrl.isErr()) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Malformed request",
+        });
+      }
+
+      // Transaction events can be reported only by the app, so app token is used instead of user's one
+      const appGraphqlClient = createInstrumentedGraphqlClient({
+        saleorApiUrl: ctx.saleorApiUrl,
+        token: ctx.appToken,
+      });
+
+      const reportResult = await this.reconciliationUseCase.execute({
+        appId: ctx.appId,
+        saleorApiUrl: saleorApiUrl.value,
+        createdAfter: resolveReconciliationCreatedAfter(input.lookbackHours),
+        dryRun: input.dryRun,
+        transactionEventsFetcher: new TransactionEventsFetcher(appGraphqlClient),
+        transactionEventReporter: new TransactionEventReporter({
+          graphqlClient: appGraphqlClient,
+        }),
+      });
+
+      if (reportResult.isErr()) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to fetch recorded transactions. Please try again.",
+          cause: reportResult.error,
+        });
+      }
+
+      return reportResult.value;
+    });
+  }
+}
@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { mockedGraphqlClient } from "@/__tests__/mocks/graphql-client";
+import { CurrentUserFetcher } from "@/modules/saleor/current-user-fetcher";
+
+describe("CurrentUserFetcher", () => {
+  beforeEach(() => {
+    vi.spyOn(mockedGraphqlClient, "query");
+  });
+
+  it("Returns FetchError if graphql query fails", async () => {
+    const instance = new CurrentUserFetcher(mockedGraphqlClient);
+
+    // @ts-expect-error - patching only subset
+    vi.mocked(mockedGraphqlClient.query).mockImplementationOnce(() => {
+      return {
+        async toPromise() {
+          return {
+            error: "Test gql error",
+          };
+        },
+      };
+    });
+
+    const result = await instance.fetchCurrentUser();
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(CurrentUserFetcher.FetchError);
+  });
+
+  it("Returns FetchError if request is not made by user", async () => {
+    const instance = new CurrentUserFetcher(mockedGraphqlClient);
+
+    // @ts-expect-error - patching only subset
+    vi.mocked(mockedGraphqlClient.query).mockImplementationOnce(() => {
+      return {
+        async toPromise() {
+          return {
+            data: {
+              me: null,
+            },
+          };
+        },
+      };
+    });
+
+    const result = await instance.fetchCurrentUser();
+
+    expect(result).toMatchInlineSnapshot(`
+      Err {
+        "error": [FetchError: Failed to fetch current user - user data missing],
+      }
+    `);
+  });
+
+  it("Returns id and email of user", async () => {
+    const instance = new CurrentUserFetcher(mockedGraphqlClient);
+
+    // @ts-expect-error - patching only subset
+    vi.mocked(mockedGraphqlClient.query).mockImplementationOnce(() => {
+      return {
+        async toPromise() {
+          return {
+            data: {
+              me: { id: "VXNlcjox", email: "admin@example.com" },
+            },
+          };
+        },
+      };
+    });
+
+    const result = await instance.fetchCurrentUser();
+
+    expect(result._unsafeUnwrap()).toStrictEqual({ id: "VXNlcjox", email: "admin@example.com" });
+  });
+});
@@ -0,0 +1,50 @@
+import { err, ok, type Result } from "neverthrow";
+import { type Client } from "urql";
+
+import { BaseError } from "@/lib/errors";
+
+import { FetchCurrentUserDocument } from "../../../generated/graphql";
+
+export type SaleorCurrentUser = {
+  id: string;
+  email: string;
+};
+
+/**
+ * Fetches dashboard user who sent the request. Client must be created with user token, not the app token
+ */
+export class CurrentUserFetcher {
+  static FetchError = BaseError.subclass("FetchError", {
+    props: {
+      _internalName: "CurrentUserFetcher.FetchError",
+    },
+  });
+
+  readonly client: Pick<Client, "query">;
+
+  constructor(client: Pick<Client, "query">) {
+    this.client = client;
+  }
+
+  async fetchCurrentUser(): Promise<
+    Result<SaleorCurrentUser, InstanceType<typeof CurrentUserFetcher.FetchError>>
+  > {
+    const response = await this.client.query(FetchCurrentUserDocument, {}).toPromise();
+
+    if (response.error) {
+      return err(
+        new CurrentUserFetcher.FetchError("Failed to fetch current user", {
+          cause: response.error,
+        }),
+      );
+    }
+
+    if (response.data?.me) {
+      return ok({ id: response.data.me.id, email: response.data.me.email });
+    }
+
+    return err(
+      new CurrentUserFetcher.FetchError("Failed to fetch current user - user data missing"),
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { err, ok, type Result } from "neverthrow";
+import { type Client } from "urql";
+
+import { FetchOrderTransactionsDocument } from "@/generated/graphql";
+import { BaseError } from "@/lib/errors";
+
+export type SaleorOrderTransactions = {
+  /**
+   * Required to resolve Stripe config
+   */
+  channelId: string;
+  transactions: Array<{
+    id: string;
+    pspReference: string;
+  }>;
+};
+
+export class OrderTransactionsFetcher {
+  static FetchError = BaseError.subclass("FetchError", {
+    props: {
+      _internalName: "OrderTransactionsFetcher.FetchError",
+    },
+  });
+
+  readonly client: Pick<Client, "query">;
+
+  constructor(client: Pick<Client, "query">) {
+    this.client = client;
+  }
+
+  async fetchOrderTransactions(
+    orderId: string,
+  ): Promise<
+    Result<SaleorOrderTransactions, InstanceType<typeof OrderTransactionsFetcher.FetchError>>
+  > {
+    const response = await this.client
+      .query(FetchOrderTransactionsDocument, { id: orderId })
+      .toPromise();
+
+    if (response.error) {
+      return err(
+        new OrderTransactionsFetcher.FetchError("Failed to fetch order transactions", {
+          cause: response.error,
+        }),
+      );
+    }
+
+    const order = response.data?.order;
+
+    if (!order) {
+      return err(
+        new OrderTransactionsFetcher.FetchError(
+          "Failed to fetch order transactions - order data missing",
+        ),
+      );
+    }
+
+    return ok({
+      channelId: order.channel.id,
+      transactions: order.transactions.map((transaction) => ({
+        id: transaction.id,
+        pspReference: transaction.pspReference,
+      })),
+    });
+  }
+}
@@ -1,6 +1,7 @@
 import { describe, expect, it } from "vitest";
 
 import { resolveSaleorMoneyFromStripePaymentIntent } from "./resolve-saleor-money-from-stripe-payment-intent";
+import { SaleorMoney } from "./saleor-money";
 
 describe("resolveSaleorMoneyFromStripePaymentIntent", () => {
   it("when StripePaymentIntent has status: 'canceled' should use the 'amount' field", () => {
@@ -70,4 +71,21 @@ describe("resolveSaleorMoneyFromStripePaymentIntent", () => {
       }
     `);
   });
+
+  it("when StripePaymentIntent was partially captured before should use only the remaining part of 'amount_received'", () => {
+    const result = resolveSaleorMoneyFromStripePaymentIntent({
+      status: "succeeded",
+      amount: 10000,
+      amount_capturable: 0,
+      amount_received: 7500,
+      currency: "usd",
+      metadata: {
+        saleor_partially_captured_amount: "5000",
+      },
+    });
+
+    expect(result._unsafeUnwrap()).toStrictEqual(
+      SaleorMoney.createFromStripe({ amount: 2500, currency: "usd" })._unsafeUnwrap(),
+    );
+  });
 });
@@ -1,5 +1,7 @@
 import { type Result } from "neverthrow";
+import type Stripe from "stripe";
 
+import { resolveStripePartiallyCapturedAmount } from "../stripe/stripe-partial-capture";
 import { createStripePaymentIntentStatus } from "../stripe/stripe-payment-intent-status";
 import { SaleorMoney } from "./saleor-money";
 
@@ -9,6 +11,7 @@ export const resolveSaleorMoneyFromStripePaymentIntent = (paymentIntent: {
   amount_capturable: number;
   currency: string;
   status: string;
+  metadata?: Stripe.Metadata | null;
 }): Result<SaleorMoney, InstanceType<typeof SaleorMoney.ValidationError>> => {
   const stripePaymentIntentStatus = createStripePaymentIntentStatus(paymentIntent.status);
 
@@ -27,8 +30,9 @@ export const resolveSaleorMoneyFromStripePaymentIntent = (paymentIntent: {
         currency: paymentIntent.currency,
       });
     default:
+      // Partial captures were already reported separately, so only the final capture is left
       return SaleorMoney.createFromStripe({
-        amount: paymentIntent.amount_received,
+        amount: paymentIntent.amount_received - resolveStripePartiallyCapturedAmount(paymentIntent),
         currency: paymentIntent.currency,
       });
   }
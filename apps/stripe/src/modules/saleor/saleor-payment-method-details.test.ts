@@ -97,6 +97,32 @@ describe("SaleorPaymentMethodDetails", () => {
         }
       `);
     });
+
+    it.each([
+      { type: "ideal" as const, name: "iDEAL" },
+      { type: "bancontact" as const, name: "Bancontact" },
+      { type: "blik" as const, name: "BLIK" },
+      { type: "p24" as const, name: "Przelewy24" },
+      { type: "afterpay_clearpay" as const, name: "Afterpay / Clearpay" },
+      { type: "affirm" as const, name: "Affirm" },
+      { type: "alipay" as const, name: "Alipay" },
+      { type: "wechat_pay" as const, name: "WeChat Pay" },
+    ])("returns OTHER type with $name name for $type payment method", ({ type, name }) => {
+      const paymentMethodDetails = SaleorPaymentMethodDetails.createFromStripe({
+        ...mockedStripeOtherPaymentMethod,
+        type,
+      })._unsafeUnwrap();
+
+      expect(paymentMethodDetails.toSaleorWebhookResponse()).toStrictEqual({
+        type: "OTHER",
+        name,
+      });
+      expect(paymentMethodDetails.toSaleorTransactionEventPayload()).toStrictEqual({
+        other: {
+          name,
+        },
+      });
+    });
   });
 
   describe("toSaleorTransactionEventPayload", () => {
@@ -9,6 +9,20 @@ export type SaleorPaymentMethodDetailsErrorType = InstanceType<
   typeof SaleorPaymentMethodDetails.SaleorPaymentMethodDetailsError
 >;
 
+/**
+ * Local payment methods are shown in Saleor under their brand names. Other methods fall back to Stripe type.
+ */
+const otherPaymentMethodNames: Partial<Record<Stripe.PaymentMethod.Type, string>> = {
+  ideal: "iDEAL",
+  bancontact: "Bancontact",
+  blik: "BLIK",
+  p24: "Przelewy24",
+  afterpay_clearpay: "Afterpay / Clearpay",
+  affirm: "Affirm",
+  alipay: "Alipay",
+  wechat_pay: "WeChat Pay",
+};
+
 export class SaleorPaymentMethodDetails {
   private stripePaymentMethod: Stripe.PaymentMethod;
 
@@ -46,6 +60,10 @@ export class SaleorPaymentMethodDetails {
     return this.stripePaymentMethod.card?.display_brand || "card";
   }
 
+  private getOtherPaymentMethodName() {
+    return otherPaymentMethodNames[this.stripePaymentMethod.type] ?? this.stripePaymentMethod.type;
+  }
+
   toSaleorWebhookResponse(): Paymentmethoddetails {
     const type = this.stripePaymentMethod.type;
 
@@ -62,7 +80,7 @@ export class SaleorPaymentMethodDetails {
 
     return {
       type: "OTHER",
-      name: this.stripePaymentMethod.type,
+      name: this.getOtherPaymentMethodName(),
     };
   }
 
@@ -83,7 +101,7 @@ export class SaleorPaymentMethodDetails {
 
     return {
       other: {
-        name: this.stripePaymentMethod.type,
+        name: this.getOtherPaymentMethodName(),
       },
     };
   }
@@ -13,13 +13,27 @@ import { createLogger } from "@/lib/logger";
 import { type SaleorMoney } from "@/modules/saleor/saleor-money";
 import { type StripePaymentIntentId } from "@/modules/stripe/stripe-payment-intent-id";
 
+import { type StripeCheckoutSessionId } from "../stripe/stripe-checkout-session-id";
+import {
+  type StripeDisputeEventReference,
+  type StripeDisputeId,
+} from "../stripe/stripe-dispute-id";
+import { type StripeAuthorizationAdjustmentReference } from "../stripe/stripe-incremental-authorization";
+import { type StripePartialCaptureReference } from "../stripe/stripe-partial-capture";
 import { type StripeRefundId } from "../stripe/stripe-refund-id";
 
 export type TransactionEventReportInput = {
   transactionId: string;
   message: string;
   amount: SaleorMoney;
-  pspReference: StripePaymentIntentId | StripeRefundId;
+  pspReference:
+    | StripePaymentIntentId
+    | StripeCheckoutSessionId
+    | StripeRefundId
+    | StripeDisputeId
+    | StripeDisputeEventReference
+    | StripePartialCaptureReference
+    | StripeAuthorizationAdjustmentReference;
   time: string;
   type: TransactionEventTypeEnum;
   actions: TransactionActionEnum[] | null;
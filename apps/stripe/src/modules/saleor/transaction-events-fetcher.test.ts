@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { mockedSaleorTransactionId } from "@/__tests__/mocks/constants";
+import { mockedGraphqlClient } from "@/__tests__/mocks/graphql-client";
+import { TransactionEventsFetcher } from "@/modules/saleor/transaction-events-fetcher";
+
+describe("TransactionEventsFetcher", () => {
+  beforeEach(() => {
+    vi.spyOn(mockedGraphqlClient, "query");
+  });
+
+  it("Returns FetchError if graphql query fails", async () => {
+    const instance = new TransactionEventsFetcher(mockedGraphqlClient);
+
+    // @ts-expect-error - patching only subset
+    vi.mocked(mockedGraphqlClient.query).mockImplementationOnce(() => {
+      return {
+        async toPromise() {
+          return {
+            error: "Test gql error",
+          };
+        },
+      };
+    });
+
+    const result = await instance.fetchTransactionEvents(mockedSaleorTransactionId);
+
+    expect(result._unsafeUnwrapErr()).toMatchInlineSnapshot(`
+      [FetchError: Test gql error
+      Failed to fetch transaction events]
+    `);
+  });
+
+  it("Returns FetchError if transaction is missing", async () => {
+    const instance = new TransactionEventsFetcher(mockedGraphqlClient);
+
+    // @ts-expect-error - patching only subset
+    vi.mocked(mockedGraphqlClient.query).mockImplementationOnce(() => {
+      return {
+        async toPromise() {
+          return {
+            data: {
+              transaction: null,
+            },
+          };
+        },
+      };
+    });
+
+    const result = await instance.fetchTransactionEvents(mockedSaleorTransactionId);
+
+    expect(result).toMatchInlineSnapshot(`
+      Err {
+        "error": [FetchError: Failed to fetch transaction events - transaction data missing],
+      }
+    `);
+  });
+
+  it("Returns channel of order and flattened events", async () => {
+    const instance = new TransactionEventsFetcher(mockedGraphqlClient);
+
+    // @ts-expect-error - patching only subset
+    vi.mocked(mockedGraphqlClient.query).mockImplementationOnce(() => {
+      return {
+        async toPromise() {
+          return {
+            data: {
+              transaction: {
+                id: mockedSaleorTransactionId,
+                checkout: null,
+                order: {
+                  channel: {
+                    id: "order-channel-id",
+                  },
+                },
+                events: [
+                  {
+                    pspReference: "pi_1",
+                    type: "CHARGE_ACTION_REQUIRED",
+                    amount: {
+                      amount: 10,
+                      currency: "USD",
+                    },
+                  },
+                ],
+              },
+            },
+          };
+        },
+      };
+    });
+
+    const result = await instance.fetchTransactionEvents(mockedSaleorTransactionId);
+
+    expect(result._unsafeUnwrap()).toStrictEqual({
+      channelId: "order-channel-id",
+      events: [
+        {
+          pspReference: "pi_1",
+          type: "CHARGE_ACTION_REQUIRED",
+          amount: 10,
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { err, ok, type Result } from "neverthrow";
+import { type Client } from "urql";
+
+import { FetchTransactionEventsDocument, type TransactionEventTypeEnum } from "@/generated/graphql";
+import { BaseError } from "@/lib/errors";
+import { type SaleorTransationId } from "@/modules/saleor/saleor-transaction-id";
+
+export type SaleorTransactionEvent = {
+  pspReference: string;
+  type: TransactionEventTypeEnum | null;
+  amount: number;
+};
+
+export type SaleorTransactionWithEvents = {
+  /**
+   * Channel of checkout or order transaction belongs to. Required to resolve Stripe config.
+   */
+  channelId: string | null;
+  events: SaleorTransactionEvent[];
+};
+
+export class TransactionEventsFetcher {
+  static FetchError = BaseError.subclass("FetchError", {
+    props: {
+      _internalName: "TransactionEventsFetcher.FetchError",
+    },
+  });
+
+  readonly client: Pick<Client, "query">;
+
+  constructor(client: Pick<Client, "query">) {
+    this.client = client;
+  }
+
+  async fetchTransactionEvents(
+    transactionId: SaleorTransationId,
+  ): Promise<
+    Result<SaleorTransactionWithEvents, InstanceType<typeof TransactionEventsFetcher.FetchError>>
+  > {
+    const response = await this.client
+      .query(FetchTransactionEventsDocument, { id: transactionId })
+      .toPromise();
+
+    if (response.error) {
+      return err(
+        new TransactionEventsFetcher.FetchError("Failed to fetch transaction events", {
+          cause: response.error,
+        }),
+      );
+    }
+
+    const transaction = response.data?.transaction;
+
+    if (!transaction) {
+      return err(
+        new TransactionEventsFetcher.FetchError(
+          "Failed to fetch transaction events - transaction data missing",
+        ),
+      );
+    }
+
+    return ok({
+      channelId: transaction.order?.channel.id ?? transaction.checkout?.channel.id ?? null,
+      events: transaction.events.map((event) => ({
+        pspReference: event.pspReference,
+        type: event.type ?? null,
+        amount: event.amount.amount,
+      })),
+    });
+  }
+}
@@ -1,6 +1,7 @@
 import { type StripeEnv } from "@/modules/stripe/stripe-env";
 import { type StripePaymentIntentId } from "@/modules/stripe/stripe-payment-intent-id";
 
+import { type StripeDisputeId } from "./stripe-dispute-id";
 import { type StripeRefundId } from "./stripe-refund-id";
 
 export const generatePaymentIntentStripeDashboardUrl = (
@@ -26,3 +27,27 @@ export const generateRefundStripeDashboardUrl = (
       return `https://dashboard.stripe.com/test/refunds/${encodeURIComponent(refundId)}`;
   }
 };
+
+export const generateDisputeStripeDashboardUrl = (
+  disputeId: StripeDisputeId,
+  stripeEnv: StripeEnv,
+) => {
+  switch (stripeEnv) {
+    case "LIVE":
+      return `https://dashboard.stripe.com/disputes/${encodeURIComponent(disputeId)}`;
+    case "TEST":
+      return `https://dashboard.stripe.com/test/disputes/${encodeURIComponent(disputeId)}`;
+  }
+};
+
+/**
+ * Expired Checkout Session has no PaymentIntent to link to, so the event that expired it is linked instead
+ */
+export const generateEventStripeDashboardUrl = (eventId: string, stripeEnv: StripeEnv) => {
+  switch (stripeEnv) {
+    case "LIVE":
+      return `https://dashboard.stripe.com/events/${encodeURIComponent(eventId)}`;
+    case "TEST":
+      return `https://dashboard.stripe.com/test/events/${encodeURIComponent(eventId)}`;
+  }
+};
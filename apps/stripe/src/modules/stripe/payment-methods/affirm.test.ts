@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+
+import { createSaleorTransactionFlow } from "@/modules/saleor/saleor-transaction-flow";
+import { AffirmPaymentMethod } from "@/modules/stripe/payment-methods/affirm";
+
+describe("AffirmPaymentMethod", () => {
+  const paymentMethod = new AffirmPaymentMethod();
+
+  describe("getCreatePaymentIntentMethodOptions", () => {
+    it.each([
+      { flow: "AUTHORIZATION" as const, captureMethod: "manual" },
+      { flow: "CHARGE" as const, captureMethod: undefined },
+    ])(
+      "should set capture_method to $captureMethod when flow is $flow",
+      ({ flow, captureMethod }) => {
+        const saleorTransactionFlow = createSaleorTransactionFlow(flow);
+        const result = paymentMethod.getCreatePaymentIntentMethodOptions(saleorTransactionFlow);
+
+        expect(result).toStrictEqual({
+          affirm: { capture_method: captureMethod },
+        });
+      },
+    );
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+
+import { createSaleorTransactionFlow } from "@/modules/saleor/saleor-transaction-flow";
+import { AfterpayClearpayPaymentMethod } from "@/modules/stripe/payment-methods/afterpay-clearpay";
+
+describe("AfterpayClearpayPaymentMethod", () => {
+  const paymentMethod = new AfterpayClearpayPaymentMethod();
+
+  describe("getCreatePaymentIntentMethodOptions", () => {
+    it.each([
+      { flow: "AUTHORIZATION" as const, captureMethod: "manual" },
+      { flow: "CHARGE" as const, captureMethod: undefined },
+    ])(
+      "should set capture_method to $captureMethod when flow is $flow",
+      ({ flow, captureMethod }) => {
+        const saleorTransactionFlow = createSaleorTransactionFlow(flow);
+        const result = paymentMethod.getCreatePaymentIntentMethodOptions(saleorTransactionFlow);
+
+        expect(result).toStrictEqual({
+          afterpay_clearpay: { capture_method: captureMethod },
+        });
+      },
+    );
+  });
+});
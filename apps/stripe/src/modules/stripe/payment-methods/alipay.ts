@@ -0,0 +1,41 @@
+import type Stripe from "stripe";
+import { z } from "zod";
+
+import {
+  createResolvedTransactionFlow,
+  type ResolvedTransactionFlow,
+} from "@/modules/resolved-transaction-flow";
+import { type SaleorTransationFlow } from "@/modules/saleor/saleor-transaction-flow";
+
+import { type PaymentMethod } from "./types";
+
+/**
+ * https://docs.stripe.com/payments/alipay
+ */
+export class AlipayPaymentMethod implements PaymentMethod {
+  type = "alipay" as const;
+
+  static TransactionInitializeSchema = z
+    .object({
+      paymentMethod: z.literal("alipay"),
+    })
+    .strict();
+
+  getResolvedTransactionFlow(
+    _saleorTransactionFlow: SaleorTransationFlow,
+  ): ResolvedTransactionFlow {
+    /*
+     *  Alipay wallet charges the customer as soon as the payment is approved in the app, manual capture
+     *  is not supported.
+     */
+    return createResolvedTransactionFlow("CHARGE");
+  }
+
+  getCreatePaymentIntentMethodOptions(
+    _saleorTransactionFlow: SaleorTransationFlow,
+  ): Stripe.PaymentIntentCreateParams.PaymentMethodOptions {
+    return {
+      alipay: {},
+    };
+  }
+}
@@ -0,0 +1,41 @@
+import type Stripe from "stripe";
+import { z } from "zod";
+
+import {
+  createResolvedTransactionFlow,
+  type ResolvedTransactionFlow,
+} from "@/modules/resolved-transaction-flow";
+import { type SaleorTransationFlow } from "@/modules/saleor/saleor-transaction-flow";
+
+import { type PaymentMethod } from "./types";
+
+/**
+ * https://docs.stripe.com/payments/blik
+ */
+export class BlikPaymentMethod implements PaymentMethod {
+  type = "blik" as const;
+
+  static TransactionInitializeSchema = z
+    .object({
+      paymentMethod: z.literal("blik"),
+    })
+    .strict();
+
+  getResolvedTransactionFlow(
+    _saleorTransactionFlow: SaleorTransationFlow,
+  ): ResolvedTransactionFlow {
+    /*
+     *  BLIK payments are approved by the customer in their banking app with a one-time code and can't
+     *  be captured later.
+     */
+    return createResolvedTransactionFlow("CHARGE");
+  }
+
+  getCreatePaymentIntentMethodOptions(
+    _saleorTransactionFlow: SaleorTransationFlow,
+  ): Stripe.PaymentIntentCreateParams.PaymentMethodOptions {
+    return {
+      blik: {},
+    };
+  }
+}
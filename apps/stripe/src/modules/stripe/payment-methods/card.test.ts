@@ -9,16 +9,30 @@ describe("CardPaymentMethod", () => {
 
   describe("getCreatePaymentIntentMethodOptions", () => {
     it.each([
-      { flow: "AUTHORIZATION" as const, captureMethod: "manual" },
-      { flow: "CHARGE" as const, captureMethod: undefined },
+      {
+        flow: "AUTHORIZATION" as const,
+        captureMethod: "manual",
+        requestMulticapture: "if_available",
+        requestIncrementalAuthorization: "if_available",
+      },
+      {
+        flow: "CHARGE" as const,
+        captureMethod: undefined,
+        requestMulticapture: undefined,
+        requestIncrementalAuthorization: undefined,
+      },
     ])(
-      "should set capture_method to $captureMethod when flow is $flow",
-      ({ flow, captureMethod }) => {
+      "should set capture_method to $captureMethod, request_multicapture to $requestMulticapture and request_incremental_authorization to $requestIncrementalAuthorization when flow is $flow",
+      ({ flow, captureMethod, requestMulticapture, requestIncrementalAuthorization }) => {
         const saleorTransactionFlow = createSaleorTransactionFlow(flow);
         const result = cardPaymentMethod.getCreatePaymentIntentMethodOptions(saleorTransactionFlow);
 
         expect(result).toStrictEqual({
-          card: { capture_method: captureMethod },
+          card: {
+            capture_method: captureMethod,
+            request_multicapture: requestMulticapture,
+            request_incremental_authorization: requestIncrementalAuthorization,
+          },
         });
       },
     );
@@ -35,6 +35,11 @@ export class CardPaymentMethod implements PaymentMethod {
          * implement different logic for AUTHORIZATION and CHARGE
          */
         capture_method: transactionFlow === "AUTHORIZATION" ? "manual" : undefined,
+        // allows capturing authorized amount in parts, e.g. for split fulfillment
+        request_multicapture: transactionFlow === "AUTHORIZATION" ? "if_available" : undefined,
+        // allows increasing authorized amount when order total grows after checkout
+        request_incremental_authorization:
+          transactionFlow === "AUTHORIZATION" ? "if_available" : undefined,
       },
     };
   }
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+
+import { createSaleorTransactionFlow } from "@/modules/saleor/saleor-transaction-flow";
+
+import { P24PaymentMethod } from "./p24";
+
+describe("P24PaymentMethod", () => {
+  const paymentMethod = new P24PaymentMethod();
+
+  describe("getResolvedTransactionFlow", () => {
+    it.each([{ flow: "AUTHORIZATION" as const }, { flow: "CHARGE" as const }])(
+      "should resolve transaction flow to CHARGE for $flow",
+      ({ flow }) => {
+        const saleorTransactionFlow = createSaleorTransactionFlow(flow);
+        const result = paymentMethod.getResolvedTransactionFlow(saleorTransactionFlow);
+
+        expect(result).toBe("CHARGE");
+      },
+    );
+  });
+
+  describe("getCreatePaymentIntentMethodOptions", () => {
+    it.each([{ flow: "AUTHORIZATION" as const }, { flow: "CHARGE" as const }])(
+      "should not override capture_method when flow is $flow",
+      ({ flow }) => {
+        const saleorTransactionFlow = createSaleorTransactionFlow(flow);
+        const result = paymentMethod.getCreatePaymentIntentMethodOptions(saleorTransactionFlow);
+
+        expect(result).toStrictEqual({
+          p24: {},
+        });
+      },
+    );
+  });
+});
@@ -0,0 +1,41 @@
+import type Stripe from "stripe";
+import { z } from "zod";
+
+import {
+  createResolvedTransactionFlow,
+  type ResolvedTransactionFlow,
+} from "@/modules/resolved-transaction-flow";
+import { type SaleorTransationFlow } from "@/modules/saleor/saleor-transaction-flow";
+
+import { type PaymentMethod } from "./types";
+
+/**
+ * https://docs.stripe.com/payments/p24
+ */
+export class P24PaymentMethod implements PaymentMethod {
+  type = "p24" as const;
+
+  static TransactionInitializeSchema = z
+    .object({
+      paymentMethod: z.literal("p24"),
+    })
+    .strict();
+
+  getResolvedTransactionFlow(
+    _saleorTransactionFlow: SaleorTransationFlow,
+  ): ResolvedTransactionFlow {
+    /*
+     *  Przelewy24 is a bank redirect - customer approves the payment in their bank, so funds are
+     *  transferred immediately and there is no separate authorization.
+     */
+    return createResolvedTransactionFlow("CHARGE");
+  }
+
+  getCreatePaymentIntentMethodOptions(
+    _saleorTransactionFlow: SaleorTransationFlow,
+  ): Stripe.PaymentIntentCreateParams.PaymentMethodOptions {
+    return {
+      p24: {},
+    };
+  }
+}
@@ -0,0 +1,27 @@
+import { z } from "zod";
+
+/**
+ * All payment methods app can process - values match `paymentMethod` sent by storefront in transactionInitializeSession
+ */
+export const supportedPaymentMethodTypes = [
+  "card",
+  "klarna",
+  "google_pay",
+  "apple_pay",
+  "paypal",
+  "us_bank_account",
+  "sepa_debit",
+  "link",
+  "ideal",
+  "bancontact",
+  "blik",
+  "p24",
+  "afterpay_clearpay",
+  "affirm",
+  "alipay",
+  "wechat_pay",
+] as const;
+
+export const SupportedPaymentMethodTypeSchema = z.enum(supportedPaymentMethodTypes);
+
+export type SupportedPaymentMethodType = z.infer<typeof SupportedPaymentMethodTypeSchema>;
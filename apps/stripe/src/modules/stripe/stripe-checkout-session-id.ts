@@ -0,0 +1,24 @@
+import { captureMessage } from "@sentry/nextjs";
+import { z } from "zod";
+
+const StripeCheckoutSessionIdSchema = z
+  .string()
+  .min(1)
+  .refine((v) => {
+    if (!v.startsWith("cs_")) {
+      captureMessage("Received unexpected Stripe Checkout Session ID format", (scope) => {
+        scope.setLevel("warning");
+        scope.setExtra("stripeCheckoutSessionId", v);
+
+        return scope;
+      });
+    }
+
+    return true;
+  })
+  .brand("StripeCheckoutSessionId");
+
+export const createStripeCheckoutSessionId = (raw: string) =>
+  StripeCheckoutSessionIdSchema.parse(raw);
+
+export type StripeCheckoutSessionId = z.infer<typeof StripeCheckoutSessionIdSchema>;
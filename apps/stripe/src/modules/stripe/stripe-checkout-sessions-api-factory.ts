@@ -0,0 +1,9 @@
+import { StripeCheckoutSessionsApi } from "./stripe-checkout-sessions-api";
+import { type StripeRestrictedKey } from "./stripe-restricted-key";
+import { type IStripeCheckoutSessionsApi, type IStripeCheckoutSessionsApiFactory } from "./types";
+
+export class StripeCheckoutSessionsApiFactory implements IStripeCheckoutSessionsApiFactory {
+  create(args: { key: StripeRestrictedKey }): IStripeCheckoutSessionsApi {
+    return StripeCheckoutSessionsApi.createFromKey({ key: args.key });
+  }
+}
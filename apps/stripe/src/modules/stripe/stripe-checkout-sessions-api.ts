@@ -0,0 +1,39 @@
+import { type Result, ResultAsync } from "neverthrow";
+import type Stripe from "stripe";
+
+import { StripeClient } from "./stripe-client";
+import { type StripeRestrictedKey } from "./stripe-restricted-key";
+import { type CreateCheckoutSessionArgs, type IStripeCheckoutSessionsApi } from "./types";
+
+export class StripeCheckoutSessionsApi implements IStripeCheckoutSessionsApi {
+  private stripeApiWrapper: Pick<Stripe, "checkout">;
+
+  private constructor(stripeApiWrapper: Pick<Stripe, "checkout">) {
+    this.stripeApiWrapper = stripeApiWrapper;
+  }
+
+  static createFromKey(args: { key: StripeRestrictedKey }) {
+    const stripeApiWrapper = StripeClient.createFromRestrictedKey(args.key);
+
+    return new StripeCheckoutSessionsApi(stripeApiWrapper.nativeClient);
+  }
+
+  async createCheckoutSession(
+    args: CreateCheckoutSessionArgs,
+  ): Promise<Result<Stripe.Checkout.Session, unknown>> {
+    return ResultAsync.fromPromise(
+      this.stripeApiWrapper.checkout.sessions.create(
+        {
+          ...args.sessionParams,
+          // App handles only one-time payments, subscriptions and setup mode are not supported
+          mode: "payment",
+          ...(args.metadata && { metadata: args.metadata }),
+        },
+        {
+          idempotencyKey: args.idempotencyKey,
+        },
+      ),
+      (error) => error,
+    );
+  }
+}
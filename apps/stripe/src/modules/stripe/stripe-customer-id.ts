@@ -0,0 +1,25 @@
+import { captureMessage } from "@sentry/nextjs";
+import { z } from "zod";
+
+const StripeCustomerIdSchema = z
+  .string({
+    required_error: "Customer id is required",
+  })
+  .min(1)
+  .refine((v) => {
+    if (!v.startsWith("cus_")) {
+      captureMessage("Received unexpected Stripe Customer ID format", (scope) => {
+        scope.setLevel("warning");
+        scope.setExtra("stripeCustomerId", v);
+
+        return scope;
+      });
+    }
+
+    return true;
+  })
+  .brand("StripeCustomerId");
+
+export const createStripeCustomerId = (raw: string) => StripeCustomerIdSchema.parse(raw);
+
+export type StripeCustomerId = z.infer<typeof StripeCustomerIdSchema>;
@@ -0,0 +1,95 @@
+import type Stripe from "stripe";
+import { describe, expect, it, vi } from "vitest";
+
+import { mockedStripeCustomerId } from "@/__tests__/mocks/mocked-stripe-customer-id";
+import { mockedStripeRestrictedKey } from "@/__tests__/mocks/mocked-stripe-restricted-key";
+import { mockedSaleorApiUrl } from "@/__tests__/mocks/saleor-api-url";
+import { StripeClient } from "@/modules/stripe/stripe-client";
+
+import { StripeCustomersApi } from "./stripe-customers-api";
+
+describe("StripeCustomersApi", () => {
+  describe("createCustomer", () => {
+    it("Calls inner Stripe SDK with expected params", async () => {
+      const clientWrapper = StripeClient.createFromRestrictedKey(mockedStripeRestrictedKey);
+      const instance = StripeCustomersApi.createFromClient(clientWrapper);
+
+      vi.spyOn(clientWrapper.nativeClient.customers, "create").mockResolvedValue(
+        // @ts-expect-error - in this test we dont care about the response
+        {},
+      );
+
+      await instance.createCustomer({
+        email: "buyer@example.com",
+        idempotencyKey: "IK",
+        metadata: {
+          saleor_user_id: "user-id",
+          saleor_api_url: mockedSaleorApiUrl,
+          saleor_app_id: "app-id",
+        },
+      });
+
+      expect(clientWrapper.nativeClient.customers.create).toHaveBeenCalledExactlyOnceWith(
+        {
+          email: "buyer@example.com",
+          metadata: {
+            saleor_user_id: "user-id",
+            saleor_api_url: mockedSaleorApiUrl,
+            saleor_app_id: "app-id",
+          },
+        },
+        { idempotencyKey: "IK" },
+      );
+    });
+
+    it("Calls inner Stripe SDK without email when not provided", async () => {
+      const clientWrapper = StripeClient.createFromRestrictedKey(mockedStripeRestrictedKey);
+      const instance = StripeCustomersApi.createFromClient(clientWrapper);
+
+      vi.spyOn(clientWrapper.nativeClient.customers, "create").mockResolvedValue(
+        // @ts-expect-error - in this test we dont care about the response
+        {},
+      );
+
+      await instance.createCustomer({
+        email: null,
+        idempotencyKey: "IK",
+        metadata: {
+          saleor_user_id: "user-id",
+          saleor_api_url: mockedSaleorApiUrl,
+          saleor_app_id: "app-id",
+        },
+      });
+
+      expect(clientWrapper.nativeClient.customers.create).toHaveBeenCalledExactlyOnceWith(
+        {
+          metadata: {
+            saleor_user_id: "user-id",
+            saleor_api_url: mockedSaleorApiUrl,
+            saleor_app_id: "app-id",
+          },
+        },
+        { idempotencyKey: "IK" },
+      );
+    });
+  });
+
+  describe("listPaymentMethods", () => {
+    it("Returns payment methods attached to Customer", async () => {
+      const clientWrapper = StripeClient.createFromRestrictedKey(mockedStripeRestrictedKey);
+      const instance = StripeCustomersApi.createFromClient(clientWrapper);
+
+      vi.spyOn(clientWrapper.nativeClient.customers, "listPaymentMethods").mockResolvedValue({
+        data: [{ id: "pm_1", type: "card" }],
+      } as Stripe.Response<Stripe.ApiList<Stripe.PaymentMethod>>);
+
+      const result = await instance.listPaymentMethods({ customerId: mockedStripeCustomerId });
+
+      expect(clientWrapper.nativeClient.customers.listPaymentMethods).toHaveBeenCalledWith(
+        mockedStripeCustomerId,
+        { limit: 100 },
+      );
+      expect(result._unsafeUnwrap()).toStrictEqual([{ id: "pm_1", type: "card" }]);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { type Result, ResultAsync } from "neverthrow";
+import type Stripe from "stripe";
+
+import { StripeClient } from "./stripe-client";
+import { type StripeCustomerId } from "./stripe-customer-id";
+import { type StripeRestrictedKey } from "./stripe-restricted-key";
+import { type CreateCustomerArgs, type IStripeCustomersApi } from "./types";
+
+export class StripeCustomersApi implements IStripeCustomersApi {
+  private stripeApiWrapper: Pick<Stripe, "customers">;
+
+  private constructor(stripeApiWrapper: Pick<Stripe, "customers">) {
+    this.stripeApiWrapper = stripeApiWrapper;
+  }
+
+  static createFromKey(args: { key: StripeRestrictedKey }) {
+    const stripeApiWrapper = StripeClient.createFromRestrictedKey(args.key);
+
+    return new StripeCustomersApi(stripeApiWrapper.nativeClient);
+  }
+
+  static createFromClient(client: StripeClient) {
+    return new StripeCustomersApi(client.nativeClient);
+  }
+
+  async createCustomer(args: CreateCustomerArgs): Promise<Result<Stripe.Customer, unknown>> {
+    return ResultAsync.fromPromise(
+      this.stripeApiWrapper.customers.create(
+        {
+          ...(args.email && { email: args.email }),
+          metadata: args.metadata,
+        },
+        {
+          idempotencyKey: args.idempotencyKey,
+        },
+      ),
+      (error) => error,
+    );
+  }
+
+  async listPaymentMethods(args: {
+    customerId: StripeCustomerId;
+  }): Promise<Result<Stripe.PaymentMethod[], unknown>> {
+    return ResultAsync.fromPromise(
+      this.stripeApiWrapper.customers.listPaymentMethods(args.customerId, {
+        // Storefront only needs a reasonable list to render, no pagination in the first iteration
+        limit: 100,
+      }),
+      (error) => error,
+    ).map((response) => response.data);
+  }
+}
@@ -0,0 +1,47 @@
+import { captureMessage } from "@sentry/nextjs";
+import { z } from "zod";
+
+import { type StripeDisputeStatus } from "./stripe-dispute-status";
+
+const StripeDisputeIdSchema = z
+  .string()
+  .refine((v) => {
+    const expectedPrefix = [
+      // Standard Stripe dispute
+      "dp_",
+      // Dispute for an external system like PayPal
+      "du_",
+    ];
+
+    if (!expectedPrefix.some((prefix) => v.startsWith(prefix))) {
+      captureMessage("Received unexpected Stripe Dispute ID format", (scope) => {
+        scope.setLevel("warning");
+        scope.setExtra("stripeDisputeId", v);
+
+        return scope;
+      });
+    }
+
+    return true;
+  })
+  .brand("StripeDisputeId");
+
+export const createStripeDisputeId = (raw: string) => StripeDisputeIdSchema.parse(raw);
+
+export type StripeDisputeId = z.infer<typeof StripeDisputeIdSchema>;
+
+export type StripeDisputeStage = "created" | "updated" | "closed";
+
+const StripeDisputeEventReferenceSchema = z.string().min(1).brand("StripeDisputeEventReference");
+
+/**
+ * Saleor deduplicates transaction events by PSP reference and type, so every dispute lifecycle change reported as INFO
+ * needs its own reference. Dispute is referenced by its ID, stage and status after the change.
+ */
+export const createStripeDisputeEventReference = (args: {
+  disputeId: StripeDisputeId;
+  stage: StripeDisputeStage;
+  status: StripeDisputeStatus;
+}) => StripeDisputeEventReferenceSchema.parse(`${args.disputeId}_${args.stage}_${args.status}`);
+
+export type StripeDisputeEventReference = z.infer<typeof StripeDisputeEventReferenceSchema>;
@@ -0,0 +1,23 @@
+import { z } from "zod";
+
+const StripeDisputeStatusSchema = z
+  .enum([
+    "warning_needs_response",
+    "warning_under_review",
+    "warning_closed",
+    "needs_response",
+    "under_review",
+    "won",
+    "lost",
+  ])
+  .brand("StripeDisputeStatus");
+
+export const createStripeDisputeStatus = (raw: string) => StripeDisputeStatusSchema.parse(raw);
+
+export type StripeDisputeStatus = z.infer<typeof StripeDisputeStatusSchema>;
+
+/**
+ * Statuses in which Stripe expects merchant to submit evidence before `evidence_details.due_by`
+ */
+export const isStripeDisputeAwaitingEvidence = (status: StripeDisputeStatus) =>
+  status === "needs_response" || status === "warning_needs_response";
@@ -0,0 +1,59 @@
+import type Stripe from "stripe";
+import { describe, expect, it } from "vitest";
+
+import { mockedStripePaymentIntentId } from "@/__tests__/mocks/mocked-stripe-payment-intent-id";
+
+import {
+  createStripeAuthorizationAdjustmentReference,
+  isStripeIncrementalAuthorizationAvailable,
+  resolveStripeAdjustedAuthorizationAmount,
+} from "./stripe-incremental-authorization";
+
+describe("createStripeAuthorizationAdjustmentReference", () => {
+  it("Creates reference from PaymentIntent ID and amount after the increment", () => {
+    expect(
+      createStripeAuthorizationAdjustmentReference({
+        paymentIntentId: mockedStripePaymentIntentId,
+        amount: 15000,
+      }),
+    ).toBe("pi_TEST_TEST_TEST_authorization_15000");
+  });
+});
+
+describe("isStripeIncrementalAuthorizationAvailable", () => {
+  it.each([
+    { latestCharge: null, expected: false },
+    { latestCharge: "ch_TEST", expected: false },
+    { latestCharge: { payment_method_details: null }, expected: false },
+    {
+      latestCharge: {
+        payment_method_details: { card: { incremental_authorization: { status: "unavailable" } } },
+      },
+      expected: false,
+    },
+    {
+      latestCharge: {
+        payment_method_details: { card: { incremental_authorization: { status: "available" } } },
+      },
+      expected: true,
+    },
+  ])("Returns $expected for latest_charge: $latestCharge", ({ latestCharge, expected }) => {
+    expect(
+      isStripeIncrementalAuthorizationAvailable({
+        latest_charge: latestCharge,
+      } as unknown as Stripe.PaymentIntent),
+    ).toBe(expected);
+  });
+});
+
+describe("resolveStripeAdjustedAuthorizationAmount", () => {
+  it.each<{ metadata: Stripe.Metadata | null; expected: number | null }>([
+    { metadata: null, expected: null },
+    { metadata: {}, expected: null },
+    { metadata: { saleor_authorization_adjusted_amount: "" }, expected: null },
+    { metadata: { saleor_authorization_adjusted_amount: "not-a-number" }, expected: null },
+    { metadata: { saleor_authorization_adjusted_amount: "15000" }, expected: 15000 },
+  ])("Returns $expected for metadata: $metadata", ({ metadata, expected }) => {
+    expect(resolveStripeAdjustedAuthorizationAmount({ metadata })).toBe(expected);
+  });
+});
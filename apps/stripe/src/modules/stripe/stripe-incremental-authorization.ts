@@ -0,0 +1,59 @@
+import type Stripe from "stripe";
+import { z } from "zod";
+
+import { type StripePaymentIntentId } from "./stripe-payment-intent-id";
+
+const StripeAuthorizationAdjustmentReferenceSchema = z
+  .string()
+  .min(1)
+  .brand("StripeAuthorizationAdjustmentReference");
+
+/**
+ * Saleor requires each AUTHORIZATION_ADJUSTMENT to have its own PSP reference, while Stripe increments authorization of
+ * the same PaymentIntent. Adjustment is referenced by PaymentIntent ID and its amount after the increment.
+ */
+export const createStripeAuthorizationAdjustmentReference = (args: {
+  paymentIntentId: StripePaymentIntentId;
+  amount: number;
+}) =>
+  StripeAuthorizationAdjustmentReferenceSchema.parse(
+    `${args.paymentIntentId}_authorization_${args.amount}`,
+  );
+
+export type StripeAuthorizationAdjustmentReference = z.infer<
+  typeof StripeAuthorizationAdjustmentReferenceSchema
+>;
+
+/**
+ * Incremental authorization is requested with `request_incremental_authorization` and then Stripe decides if it's
+ * available for the card. Availability is known only after authorization, on the charge.
+ */
+export const isStripeIncrementalAuthorizationAvailable = (paymentIntent: Stripe.PaymentIntent) => {
+  const latestCharge = paymentIntent.latest_charge;
+
+  if (!latestCharge || typeof latestCharge === "string") {
+    return false;
+  }
+
+  return (
+    latestCharge.payment_method_details?.card?.incremental_authorization?.status === "available"
+  );
+};
+
+/**
+ * Amount (in Stripe units) of the last authorization increment made by the app. It's removed from metadata on the next
+ * capture, so it's present only if increment was the last change of the authorized amount.
+ */
+export const resolveStripeAdjustedAuthorizationAmount = (paymentIntent: {
+  metadata?: Stripe.Metadata | null;
+}) => {
+  const rawValue = paymentIntent.metadata?.saleor_authorization_adjusted_amount;
+
+  if (!rawValue) {
+    return null;
+  }
+
+  const parsedValue = Number.parseInt(rawValue, 10);
+
+  return Number.isNaN(parsedValue) ? null : parsedValue;
+};
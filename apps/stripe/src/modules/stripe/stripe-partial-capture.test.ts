@@ -0,0 +1,56 @@
+import type Stripe from "stripe";
+import { describe, expect, it } from "vitest";
+
+import { mockedStripePaymentIntentId } from "@/__tests__/mocks/mocked-stripe-payment-intent-id";
+
+import {
+  createStripePartialCaptureReference,
+  isStripeMulticaptureAvailable,
+  resolveStripePartiallyCapturedAmount,
+} from "./stripe-partial-capture";
+
+describe("createStripePartialCaptureReference", () => {
+  it("Creates reference from PaymentIntent ID and amount received after capture", () => {
+    expect(
+      createStripePartialCaptureReference({
+        paymentIntentId: mockedStripePaymentIntentId,
+        amountReceived: 1250,
+      }),
+    ).toBe("pi_TEST_TEST_TEST_capture_1250");
+  });
+});
+
+describe("isStripeMulticaptureAvailable", () => {
+  it.each([
+    { latestCharge: null, expected: false },
+    { latestCharge: "ch_TEST", expected: false },
+    { latestCharge: { payment_method_details: null }, expected: false },
+    {
+      latestCharge: {
+        payment_method_details: { card: { multicapture: { status: "unavailable" } } },
+      },
+      expected: false,
+    },
+    {
+      latestCharge: { payment_method_details: { card: { multicapture: { status: "available" } } } },
+      expected: true,
+    },
+  ])("Returns $expected for latest_charge: $latestCharge", ({ latestCharge, expected }) => {
+    expect(
+      isStripeMulticaptureAvailable({
+        latest_charge: latestCharge,
+      } as unknown as Stripe.PaymentIntent),
+    ).toBe(expected);
+  });
+});
+
+describe("resolveStripePartiallyCapturedAmount", () => {
+  it.each<{ metadata: Stripe.Metadata | null; expected: number }>([
+    { metadata: null, expected: 0 },
+    { metadata: {}, expected: 0 },
+    { metadata: { saleor_partially_captured_amount: "not-a-number" }, expected: 0 },
+    { metadata: { saleor_partially_captured_amount: "2500" }, expected: 2500 },
+  ])("Returns $expected for metadata: $metadata", ({ metadata, expected }) => {
+    expect(resolveStripePartiallyCapturedAmount({ metadata })).toBe(expected);
+  });
+});
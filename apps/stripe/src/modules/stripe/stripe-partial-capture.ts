@@ -0,0 +1,55 @@
+import type Stripe from "stripe";
+import { z } from "zod";
+
+import { type StripePaymentIntentId } from "./stripe-payment-intent-id";
+
+const StripePartialCaptureReferenceSchema = z
+  .string()
+  .min(1)
+  .brand("StripePartialCaptureReference");
+
+/**
+ * Stripe doesn't assign IDs to captures of a multicapture PaymentIntent, while Saleor requires each CHARGE_SUCCESS
+ * to have its own PSP reference. Partial capture is referenced by PaymentIntent ID and total captured amount after it.
+ */
+export const createStripePartialCaptureReference = (args: {
+  paymentIntentId: StripePaymentIntentId;
+  amountReceived: number;
+}) =>
+  StripePartialCaptureReferenceSchema.parse(
+    `${args.paymentIntentId}_capture_${args.amountReceived}`,
+  );
+
+export type StripePartialCaptureReference = z.infer<typeof StripePartialCaptureReferenceSchema>;
+
+/**
+ * Multicapture is requested with `request_multicapture` and then Stripe decides if it's available for the card.
+ * Availability is known only after authorization, on the charge.
+ */
+export const isStripeMulticaptureAvailable = (paymentIntent: Stripe.PaymentIntent) => {
+  const latestCharge = paymentIntent.latest_charge;
+
+  if (!latestCharge || typeof latestCharge === "string") {
+    return false;
+  }
+
+  return latestCharge.payment_method_details?.card?.multicapture?.status === "available";
+};
+
+/**
+ * Amount (in Stripe units) captured with non-final captures. App keeps it in PaymentIntent metadata, so the final
+ * capture (and `payment_intent.succeeded` webhook) reports only the remaining part instead of total `amount_received`.
+ */
+export const resolveStripePartiallyCapturedAmount = (paymentIntent: {
+  metadata?: Stripe.Metadata | null;
+}) => {
+  const rawValue = paymentIntent.metadata?.saleor_partially_captured_amount;
+
+  if (!rawValue) {
+    return 0;
+  }
+
+  const parsedValue = Number.parseInt(rawValue, 10);
+
+  return Number.isNaN(parsedValue) ? 0 : parsedValue;
+};
@@ -1,6 +1,7 @@
 import { describe, expect, it, vi } from "vitest";
 
 import { mockedSaleorTransactionId } from "@/__tests__/mocks/constants";
+import { mockedStripePaymentIntentId } from "@/__tests__/mocks/mocked-stripe-payment-intent-id";
 import { mockedStripeRestrictedKey } from "@/__tests__/mocks/mocked-stripe-restricted-key";
 import { StripeClient } from "@/modules/stripe/stripe-client";
 import { StripeMoney } from "@/modules/stripe/stripe-money";
@@ -94,6 +95,102 @@ describe("StripePaymentIntentsApi", () => {
     });
   });
 
+  describe("capturePaymentIntent", () => {
+    it("Calls inner Stripe SDK with amount to capture", async () => {
+      const clientWrapper = StripeClient.createFromRestrictedKey(mockedStripeRestrictedKey);
+      const instance = StripePaymentIntentsApi.createFromClient(clientWrapper);
+
+      vi.spyOn(clientWrapper.nativeClient.paymentIntents, "capture").mockResolvedValue(
+        // @ts-expect-error - in this test we dont care about the response
+        {},
+      );
+
+      await instance.capturePaymentIntent({
+        id: mockedStripePaymentIntentId,
+        amountToCapture: StripeMoney.createFromSaleorAmount({
+          amount: 12.34,
+          currency: "USD",
+        })._unsafeUnwrap(),
+        finalCapture: true,
+      });
+
+      expect(clientWrapper.nativeClient.paymentIntents.capture).toHaveBeenCalledExactlyOnceWith(
+        mockedStripePaymentIntentId,
+        {
+          amount_to_capture: 1234,
+        },
+      );
+    });
+
+    it("Calls inner Stripe SDK with final_capture: false and metadata for non-final capture", async () => {
+      const clientWrapper = StripeClient.createFromRestrictedKey(mockedStripeRestrictedKey);
+      const instance = StripePaymentIntentsApi.createFromClient(clientWrapper);
+
+      vi.spyOn(clientWrapper.nativeClient.paymentIntents, "capture").mockResolvedValue(
+        // @ts-expect-error - in this test we dont care about the response
+        {},
+      );
+
+      await instance.capturePaymentIntent({
+        id: mockedStripePaymentIntentId,
+        amountToCapture: StripeMoney.createFromSaleorAmount({
+          amount: 12.34,
+          currency: "USD",
+        })._unsafeUnwrap(),
+        finalCapture: false,
+        metadata: {
+          saleor_partially_captured_amount: "1234",
+        },
+      });
+
+      expect(clientWrapper.nativeClient.paymentIntents.capture).toHaveBeenCalledExactlyOnceWith(
+        mockedStripePaymentIntentId,
+        {
+          amount_to_capture: 1234,
+          final_capture: false,
+          metadata: {
+            saleor_partially_captured_amount: "1234",
+          },
+        },
+      );
+    });
+  });
+
+  describe("incrementAuthorization", () => {
+    it("Calls inner Stripe SDK with new total amount and metadata", async () => {
+      const clientWrapper = StripeClient.createFromRestrictedKey(mockedStripeRestrictedKey);
+      const instance = StripePaymentIntentsApi.createFromClient(clientWrapper);
+
+      vi.spyOn(
+        clientWrapper.nativeClient.paymentIntents,
+        "incrementAuthorization",
+      ).mockResolvedValue(
+        // @ts-expect-error - in this test we dont care about the response
+        {},
+      );
+
+      await instance.incrementAuthorization({
+        id: mockedStripePaymentIntentId,
+        amount: StripeMoney.createFromSaleorAmount({
+          amount: 150,
+          currency: "USD",
+        })._unsafeUnwrap(),
+        metadata: {
+          saleor_authorization_adjusted_amount: "15000",
+        },
+      });
+
+      expect(
+        clientWrapper.nativeClient.paymentIntents.incrementAuthorization,
+      ).toHaveBeenCalledExactlyOnceWith(mockedStripePaymentIntentId, {
+        amount: 15000,
+        metadata: {
+          saleor_authorization_adjusted_amount: "15000",
+        },
+      });
+    });
+  });
+
   describe("createFromKey", () => {
     it("creates instance of StripePaymentIntentsApi", () => {
       const api = StripePaymentIntentsApi.createFromKey({ key: mockedStripeRestrictedKey });
@@ -101,4 +198,24 @@ describe("StripePaymentIntentsApi", () => {
       expect(api).toBeInstanceOf(StripePaymentIntentsApi);
     });
   });
+
+  describe("listCharges", () => {
+    it("Lists charges of PaymentIntent and returns them as array", async () => {
+      const clientWrapper = StripeClient.createFromRestrictedKey(mockedStripeRestrictedKey);
+      const instance = StripePaymentIntentsApi.createFromClient(clientWrapper);
+
+      vi.spyOn(clientWrapper.nativeClient.charges, "list").mockResolvedValue(
+        // @ts-expect-error - in this test we dont care about the rest of response
+        { data: [{ id: "ch_1" }] },
+      );
+
+      const result = await instance.listCharges({ paymentIntentId: mockedStripePaymentIntentId });
+
+      expect(result._unsafeUnwrap()).toStrictEqual([{ id: "ch_1" }]);
+      expect(clientWrapper.nativeClient.charges.list).toHaveBeenCalledExactlyOnceWith({
+        payment_intent: mockedStripePaymentIntentId,
+        limit: 100,
+      });
+    });
+  });
 });
@@ -5,12 +5,17 @@ import { StripeClient } from "@/modules/stripe/stripe-client";
 
 import { type StripePaymentIntentId } from "./stripe-payment-intent-id";
 import { type StripeRestrictedKey } from "./stripe-restricted-key";
-import { type CreatePaymentIntentArgs, type IStripePaymentIntentsApi } from "./types";
+import {
+  type CapturePaymentIntentArgs,
+  type CreatePaymentIntentArgs,
+  type IncrementAuthorizationArgs,
+  type IStripePaymentIntentsApi,
+} from "./types";
 
 export class StripePaymentIntentsApi implements IStripePaymentIntentsApi {
-  private stripeApiWrapper: Pick<Stripe, "paymentIntents">;
+  private stripeApiWrapper: Pick<Stripe, "paymentIntents" | "charges">;
 
-  private constructor(stripeApiWrapper: Pick<Stripe, "paymentIntents">) {
+  private constructor(stripeApiWrapper: Pick<Stripe, "paymentIntents" | "charges">) {
     this.stripeApiWrapper = stripeApiWrapper;
   }
 
@@ -48,17 +53,22 @@ export class StripePaymentIntentsApi implements IStripePaymentIntentsApi {
   }): Promise<Result<Stripe.PaymentIntent, unknown>> {
     return ResultAsync.fromPromise(
       this.stripeApiWrapper.paymentIntents.retrieve(args.id, {
-        expand: ["payment_method"],
+        // latest_charge tells if multicapture and incremental authorization are available for authorized card
+        expand: ["payment_method", "latest_charge"],
       }),
       (error) => error,
     );
   }
 
-  async capturePaymentIntent(args: {
-    id: StripePaymentIntentId;
-  }): Promise<Result<Stripe.PaymentIntent, unknown>> {
+  async capturePaymentIntent(
+    args: CapturePaymentIntentArgs,
+  ): Promise<Result<Stripe.PaymentIntent, unknown>> {
     return ResultAsync.fromPromise(
-      this.stripeApiWrapper.paymentIntents.capture(args.id),
+      this.stripeApiWrapper.paymentIntents.capture(args.id, {
+        amount_to_capture: args.amountToCapture.amount,
+        ...(!args.finalCapture && { final_capture: false }),
+        ...(args.metadata && { metadata: args.metadata }),
+      }),
       (error) => error,
     );
   }
@@ -71,4 +81,31 @@ export class StripePaymentIntentsApi implements IStripePaymentIntentsApi {
       (error) => error,
     );
   }
+
+  async incrementAuthorization(
+    args: IncrementAuthorizationArgs,
+  ): Promise<Result<Stripe.PaymentIntent, unknown>> {
+    return ResultAsync.fromPromise(
+      this.stripeApiWrapper.paymentIntents.incrementAuthorization(args.id, {
+        amount: args.amount.amount,
+        ...(args.metadata && { metadata: args.metadata }),
+      }),
+      (error) => error,
+    );
+  }
+
+  /**
+   * PaymentIntent exposes only latest charge - previous ones (e.g. failed attempts) must be listed
+   */
+  async listCharges(args: {
+    paymentIntentId: StripePaymentIntentId;
+  }): Promise<Result<Stripe.Charge[], unknown>> {
+    return ResultAsync.fromPromise(
+      this.stripeApiWrapper.charges.list({
+        payment_intent: args.paymentIntentId,
+        limit: 100,
+      }),
+      (error) => error,
+    ).map((response) => response.data);
+  }
 }
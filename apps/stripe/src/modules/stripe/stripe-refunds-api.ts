@@ -24,14 +24,31 @@ export class StripeRefundsApi implements IStripeRefundsApi {
     paymentIntentId: StripePaymentIntentId;
     stripeMoney: StripeMoney;
     metadata?: Stripe.MetadataParam;
+    reverseTransfer?: boolean;
+    refundApplicationFee?: boolean;
   }): Promise<Result<Stripe.Refund, unknown>> {
     return ResultAsync.fromPromise(
       this.stripeApiWrapper.refunds.create({
         payment_intent: args.paymentIntentId,
         amount: args.stripeMoney.amount,
         metadata: args.metadata,
+        ...(args.reverseTransfer && { reverse_transfer: true }),
+        ...(args.refundApplicationFee && { refund_application_fee: true }),
       }),
       (error) => error,
     );
   }
+
+  async listRefunds(args: {
+    paymentIntentId: StripePaymentIntentId;
+  }): Promise<Result<Stripe.Refund[], unknown>> {
+    return ResultAsync.fromPromise(
+      this.stripeApiWrapper.refunds.list({
+        payment_intent: args.paymentIntentId,
+        // Single PaymentIntent is not expected to have more refunds than Stripe's max page size
+        limit: 100,
+      }),
+      (error) => error,
+    ).map((response) => response.data);
+  }
 }
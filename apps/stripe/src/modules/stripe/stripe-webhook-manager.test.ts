@@ -165,7 +165,14 @@ describe("StripeWebhookManager", () => {
             "payment_intent.requires_action",
             "payment_intent.succeeded",
             "payment_intent.canceled",
+            "checkout.session.completed",
+            "checkout.session.expired",
             "charge.refund.updated",
+            "charge.dispute.created",
+            "charge.dispute.updated",
+            "charge.dispute.closed",
+            "charge.dispute.funds_withdrawn",
+            "charge.dispute.funds_reinstated",
           ],
           "metadata": {
             "saleorAppConfigurationId": "81f323bd-91e2-4838-ab6e-5affd81ffc3b",
@@ -175,6 +182,44 @@ describe("StripeWebhookManager", () => {
       `);
   });
 
+  it("Creates webhook for connected accounts events if connect option is set", async () => {
+    vi.mocked(stripeSdkMock.webhookEndpoints.create).mockImplementationOnce(
+      async () =>
+        ({
+          secret: mockStripeWebhookSecret,
+          id: "test-connect-id",
+        }) as unknown as Stripe.Response<Stripe.WebhookEndpoint>,
+    );
+
+    const result = await instance.createWebhook(
+      {
+        configurationId: mockedConfigurationId,
+        name: "config name",
+        publishableKey: mockedStripePublishableKey,
+        restrictedKey: mockedStripeRestrictedKey,
+      },
+      {
+        appUrl: "http://localhost:3000",
+        saleorApiUrl: mockedSaleorApiUrl,
+        appId: mockedSaleorAppId,
+      },
+      { connect: true },
+    );
+
+    expect(result._unsafeUnwrap()).toStrictEqual({
+      id: "test-connect-id",
+      secret: mockStripeWebhookSecret,
+    });
+
+    expect(vi.mocked(stripeSdkMock.webhookEndpoints.create).mock.calls[0][0]).toStrictEqual(
+      expect.objectContaining({
+        connect: true,
+        enabled_events: ["account.updated", "account.application.deauthorized"],
+        url: "http://localhost:3000/api/webhooks/stripe?configurationId=81f323bd-91e2-4838-ab6e-5affd81ffc3b&saleorApiUrl=https%3A%2F%2Ffoo.bar.saleor.cloud%2Fgraphql%2F&appId=saleor-app-id",
+      }),
+    );
+  });
+
   it("Calls stripe client to remove endpoint based on it's ID", async () => {
     vi.mocked(stripeSdkMock.webhookEndpoints.del).mockImplementationOnce(async () => {
       return {
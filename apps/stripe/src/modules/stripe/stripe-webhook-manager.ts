@@ -9,7 +9,10 @@ import { type SaleorApiUrl } from "@/modules/saleor/saleor-api-url";
 import { StripeClient } from "@/modules/stripe/stripe-client";
 import { type StripeRestrictedKey } from "@/modules/stripe/stripe-restricted-key";
 import { StripeWebhookUrlBuilder } from "@/modules/stripe/stripe-webhook-url-builder";
-import { supportedStripeEvents } from "@/modules/stripe/supported-stripe-events";
+import {
+  supportedStripeConnectEvents,
+  supportedStripeEvents,
+} from "@/modules/stripe/supported-stripe-events";
 
 import { STRIPE_API_VERSION } from "./stripe-api-version";
 
@@ -98,11 +101,16 @@ export class StripeWebhookManager {
     }
   }
 
+  /**
+   * With `connect` option, webhook receives events from connected accounts (Stripe Connect) instead of the platform
+   * account. It uses the same URL - events are distinguished by `account` field.
+   */
   async createWebhook(
     config: NewStripeConfigInput & {
       configurationId: string;
     },
     { appUrl, saleorApiUrl, appId }: { appUrl: string; saleorApiUrl: SaleorApiUrl; appId: string },
+    { connect = false }: { connect?: boolean } = {},
   ): Promise<
     Result<
       {
@@ -115,7 +123,7 @@ export class StripeWebhookManager {
       >
     >
   > {
-    this.logger.debug("Will create Stripe webhook");
+    this.logger.debug("Will create Stripe webhook", { connect });
     const client = StripeClient.createFromRestrictedKey(config.restrictedKey);
 
     const webhookUrl = this.urlBuilder.buildUrl({
@@ -144,8 +152,11 @@ export class StripeWebhookManager {
     try {
       const result = await client.nativeClient.webhookEndpoints.create({
         url: webhookUrl.value.toString(),
-        description: `Created by Saleor App Payment Stripe, config name: ${config.name}`,
-        enabled_events: supportedStripeEvents,
+        description: connect
+          ? `Created by Saleor App Payment Stripe for connected accounts, config name: ${config.name}`
+          : `Created by Saleor App Payment Stripe, config name: ${config.name}`,
+        enabled_events: connect ? supportedStripeConnectEvents : supportedStripeEvents,
+        ...(connect && { connect: true }),
         metadata: {
           saleorAppConfigurationId: config.configurationId,
         },
@@ -154,7 +165,7 @@ export class StripeWebhookManager {
 
       const { secret, id } = result;
 
-      this.logger.info("Successfully created Stripe webhook", { id });
+      this.logger.info("Successfully created Stripe webhook", { id, connect });
 
       if (!secret) {
         /**
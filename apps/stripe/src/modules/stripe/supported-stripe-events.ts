@@ -8,5 +8,21 @@ export const supportedStripeEvents: Array<Stripe.WebhookEndpointCreateParams.Ena
   "payment_intent.succeeded",
   "payment_intent.canceled",
 
+  "checkout.session.completed",
+  "checkout.session.expired",
+
   "charge.refund.updated",
+
+  "charge.dispute.created",
+  "charge.dispute.updated",
+  "charge.dispute.closed",
+  "charge.dispute.funds_withdrawn",
+  "charge.dispute.funds_reinstated",
 ];
+
+/**
+ * Events of connected accounts, received by separate webhook when Stripe Connect mode is enabled.
+ * Payments are created on the platform account (destination charges), so only account lifecycle is observed
+ */
+export const supportedStripeConnectEvents: Array<Stripe.WebhookEndpointCreateParams.EnabledEvent> =
+  ["account.updated", "account.application.deauthorized"];
@@ -5,6 +5,7 @@ import { BaseError } from "@/lib/errors";
 import { type SaleorTransationId } from "@/modules/saleor/saleor-transaction-id";
 import { type StripeWebhookSecret } from "@/modules/stripe/stripe-webhook-secret";
 
+import { type StripeCustomerId } from "./stripe-customer-id";
 import { type StripeMoney } from "./stripe-money";
 import { type StripePaymentIntentId } from "./stripe-payment-intent-id";
 import { type StripeRestrictedKey } from "./stripe-restricted-key";
@@ -22,9 +23,43 @@ export interface IStripeRefundsApi {
     paymentIntentId: StripePaymentIntentId;
     stripeMoney: StripeMoney;
     metadata?: AllowedStripeObjectMetadata;
+    /**
+     * Destination charges (Stripe Connect) - reverses transfer to connected account and refunds application fee
+     */
+    reverseTransfer?: boolean;
+    refundApplicationFee?: boolean;
   }): Promise<Result<Stripe.Refund, unknown>>;
+  listRefunds(args: {
+    paymentIntentId: StripePaymentIntentId;
+  }): Promise<Result<Stripe.Refund[], unknown>>;
+}
+
+export interface IStripeCustomersApiFactory {
+  create(args: { key: StripeRestrictedKey }): IStripeCustomersApi;
+}
+
+export interface CreateCustomerArgs {
+  email?: string | null;
+  idempotencyKey: string;
+  metadata: StripeCustomerMetadata;
+}
+
+export interface IStripeCustomersApi {
+  createCustomer(args: CreateCustomerArgs): Promise<Result<Stripe.Customer, unknown>>;
+  listPaymentMethods(args: {
+    customerId: StripeCustomerId;
+  }): Promise<Result<Stripe.PaymentMethod[], unknown>>;
 }
 
+/**
+ * Fixed metadata keys that are allowed on Stripe Customer created by the app.
+ */
+export type StripeCustomerMetadata = {
+  saleor_user_id: string;
+  saleor_api_url: string;
+  saleor_app_id: string;
+};
+
 /**
  * Fixed metadata keys that are allowed on Stripe objects - intent and refund.
  */
@@ -34,6 +69,58 @@ export type AllowedStripeObjectMetadata = {
   saleor_source_type?: "Checkout" | "Order";
   saleor_api_url?: string;
   saleor_app_id?: string;
+  saleor_partially_captured_amount?: string;
+  saleor_authorization_adjusted_amount?: string;
+  /**
+   * Set only on Checkout Session - transaction is recorded when session is completed, not when it's created
+   */
+  saleor_transaction_flow?: "CHARGE" | "AUTHORIZATION";
+  saleor_schema_version?: string;
+  /**
+   * Set only on PaymentIntent attached to Stripe Customer linked to Saleor user
+   */
+  saleor_user_id?: string;
+};
+
+export interface CapturePaymentIntentArgs {
+  id: StripePaymentIntentId;
+  amountToCapture: StripeMoney;
+  /**
+   * `false` keeps remaining authorized funds for next captures. Only possible when multicapture is available.
+   */
+  finalCapture: boolean;
+  metadata?: AllowedStripeObjectMetadata;
+}
+
+export interface IncrementAuthorizationArgs {
+  id: StripePaymentIntentId;
+  /**
+   * Total amount of PaymentIntent after the increment, not the difference
+   */
+  amount: StripeMoney;
+  metadata?: AllowedStripeObjectMetadata;
+}
+
+/**
+ * Level 2/3 card data (line items, tax and shipping amounts). Amounts are in Stripe format (minor units).
+ * Not typed in stripe-node version used by the app yet.
+ */
+export type StripeAmountDetailsParams = {
+  line_items: Array<{
+    product_code?: string;
+    product_name: string;
+    unit_cost: number;
+    quantity: number;
+    tax: {
+      total_tax_amount: number;
+    };
+  }>;
+  shipping: {
+    amount: number;
+  };
+  tax: {
+    total_tax_amount: number;
+  };
 };
 
 export interface CreatePaymentIntentArgs {
@@ -45,7 +132,16 @@ export interface CreatePaymentIntentArgs {
     | "confirm"
     | "payment_method"
     | "return_url"
-  >;
+    | "customer"
+    | "setup_future_usage"
+    | "shipping"
+    | "receipt_email"
+    | "statement_descriptor_suffix"
+    | "transfer_data"
+    | "application_fee_amount"
+  > & {
+    amount_details?: StripeAmountDetailsParams;
+  };
   idempotencyKey: string;
   metadata?: AllowedStripeObjectMetadata;
 }
@@ -57,12 +153,43 @@ export interface IStripePaymentIntentsApi {
   getPaymentIntent(args: {
     id: StripePaymentIntentId;
   }): Promise<Result<Stripe.PaymentIntent, unknown>>;
-  capturePaymentIntent(args: {
-    id: StripePaymentIntentId;
-  }): Promise<Result<Stripe.PaymentIntent, unknown>>;
+  capturePaymentIntent(
+    args: CapturePaymentIntentArgs,
+  ): Promise<Result<Stripe.PaymentIntent, unknown>>;
   cancelPaymentIntent(args: {
     id: StripePaymentIntentId;
   }): Promise<Result<Stripe.PaymentIntent, unknown>>;
+  incrementAuthorization(
+    args: IncrementAuthorizationArgs,
+  ): Promise<Result<Stripe.PaymentIntent, unknown>>;
+  listCharges(args: {
+    paymentIntentId: StripePaymentIntentId;
+  }): Promise<Result<Stripe.Charge[], unknown>>;
+}
+
+export interface IStripeCheckoutSessionsApiFactory {
+  create(args: { key: StripeRestrictedKey }): IStripeCheckoutSessionsApi;
+}
+
+export interface CreateCheckoutSessionArgs {
+  sessionParams: Pick<
+    Stripe.Checkout.SessionCreateParams,
+    | "line_items"
+    | "success_url"
+    | "cancel_url"
+    | "payment_method_types"
+    | "payment_intent_data"
+    | "customer_email"
+    | "client_reference_id"
+  >;
+  idempotencyKey: string;
+  metadata?: AllowedStripeObjectMetadata;
+}
+
+export interface IStripeCheckoutSessionsApi {
+  createCheckoutSession(
+    args: CreateCheckoutSessionArgs,
+  ): Promise<Result<Stripe.Checkout.Session, unknown>>;
 }
 
 export interface IStripeEventVerify {
@@ -0,0 +1,150 @@
+import type Stripe from "stripe";
+import { describe, expect, it } from "vitest";
+
+import { getMockedPaymentIntentDashboardUrl } from "@/__tests__/mocks/mocked-payment-intent-dashboard-url";
+import { getMockedRecordedTransaction } from "@/__tests__/mocks/mocked-recorded-transaction";
+import { getMockedRefundDashboardUrl } from "@/__tests__/mocks/mocked-refund-dashboard-url";
+import { mockedStripePaymentIntentId } from "@/__tests__/mocks/mocked-stripe-payment-intent-id";
+import { mockedStripeRefundId } from "@/__tests__/mocks/mocked-stripe-refund-id";
+import { SaleorMoney } from "@/modules/saleor/saleor-money";
+
+import { createStripeTransactionInspection } from "./stripe-transaction-inspection";
+
+describe("createStripeTransactionInspection", () => {
+  const charge = {
+    id: "ch_1",
+    status: "succeeded",
+    amount: 100_00,
+    amount_refunded: 25_00,
+    created: 1_700_000_000,
+    outcome: {
+      seller_message: "Payment complete.",
+      risk_level: "normal",
+      risk_score: 12,
+    },
+    payment_method_details: {
+      type: "card",
+      card: {
+        brand: "visa",
+        last4: "4242",
+        wallet: { type: "apple_pay" },
+        three_d_secure: { result: "authenticated", version: "2.2.0" },
+      },
+    },
+  } as unknown as Stripe.Charge;
+
+  const paymentIntent = {
+    id: mockedStripePaymentIntentId,
+    status: "succeeded",
+    amount: 100_00,
+    amount_received: 100_00,
+    currency: "usd",
+    created: 1_700_000_000,
+    latest_charge: "ch_1",
+    payment_method: "pm_1",
+  } as unknown as Stripe.PaymentIntent;
+
+  const refund = {
+    id: mockedStripeRefundId,
+    status: "succeeded",
+    amount: 25_00,
+    reason: "requested_by_customer",
+    created: 1_700_000_100,
+  } as unknown as Stripe.Refund;
+
+  it("should resolve PaymentIntent, latest charge details and refunds in Saleor amounts", () => {
+    const result = createStripeTransactionInspection({
+      recordedTransaction: getMockedRecordedTransaction(),
+      paymentIntent,
+      charges: [charge],
+      refunds: [refund],
+      stripeEnv: "TEST",
+    });
+
+    expect(result._unsafeUnwrap()).toStrictEqual({
+      saleorTransactionId: "mocked-transaction-id",
+      paymentIntent: {
+        id: mockedStripePaymentIntentId,
+        status: "succeeded",
+        amount: 100,
+        amountReceived: 100,
+        currency: "USD",
+        saleorTransactionFlow: "CHARGE",
+        resolvedTransactionFlow: "CHARGE",
+        createdAt: "2023-11-14T22:13:20.000Z",
+        dashboardUrl: getMockedPaymentIntentDashboardUrl(),
+      },
+      paymentMethod: {
+        type: "card",
+        cardBrand: "visa",
+        cardLast4: "4242",
+        wallet: "apple_pay",
+      },
+      threeDSecure: {
+        result: "authenticated",
+        version: "2.2.0",
+      },
+      risk: {
+        level: "normal",
+        score: 12,
+      },
+      charges: [
+        {
+          id: "ch_1",
+          status: "succeeded",
+          amount: 100,
+          amountRefunded: 25,
+          outcome: "Payment complete.",
+          createdAt: "2023-11-14T22:13:20.000Z",
+        },
+      ],
+      refunds: [
+        {
+          id: mockedStripeRefundId,
+          status: "succeeded",
+          amount: 25,
+          reason: "requested_by_customer",
+          createdAt: "2023-11-14T22:15:00.000Z",
+          dashboardUrl: getMockedRefundDashboardUrl({ stripeEnv: "TEST" }),
+        },
+      ],
+    });
+  });
+
+  it("should return nulls for charge details if PaymentIntent has no charge yet", () => {
+    const result = createStripeTransactionInspection({
+      recordedTransaction: getMockedRecordedTransaction(),
+      paymentIntent: {
+        ...paymentIntent,
+        status: "requires_payment_method",
+        amount_received: 0,
+        latest_charge: null,
+      },
+      charges: [],
+      refunds: [],
+      stripeEnv: "TEST",
+    });
+
+    expect(result._unsafeUnwrap()).toStrictEqual(
+      expect.objectContaining({
+        paymentMethod: null,
+        threeDSecure: null,
+        risk: null,
+        charges: [],
+        refunds: [],
+      }),
+    );
+  });
+
+  it("should return ValidationError if PaymentIntent has unsupported currency", () => {
+    const result = createStripeTransactionInspection({
+      recordedTransaction: getMockedRecordedTransaction(),
+      paymentIntent: { ...paymentIntent, currency: "not-a-currency" },
+      charges: [],
+      refunds: [],
+      stripeEnv: "TEST",
+    });
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(SaleorMoney.ValidationError);
+  });
+});
@@ -0,0 +1,215 @@
+import { err, ok, type Result } from "neverthrow";
+import type Stripe from "stripe";
+
+import { SaleorMoney } from "@/modules/saleor/saleor-money";
+import {
+  generatePaymentIntentStripeDashboardUrl,
+  generateRefundStripeDashboardUrl,
+} from "@/modules/stripe/generate-stripe-dashboard-urls";
+import { type StripeEnv } from "@/modules/stripe/stripe-env";
+import { createStripePaymentIntentId } from "@/modules/stripe/stripe-payment-intent-id";
+import { createStripeRefundId } from "@/modules/stripe/stripe-refund-id";
+import { type RecordedTransaction } from "@/modules/transactions-recording/domain/recorded-transaction";
+
+/**
+ * Serializable snapshot of Stripe state of a single Saleor transaction, rendered in order details extension.
+ * Amounts are in Saleor format (major units).
+ */
+export type StripeTransactionInspection = {
+  saleorTransactionId: string;
+  paymentIntent: {
+    id: string;
+    status: Stripe.PaymentIntent.Status;
+    amount: number;
+    amountReceived: number;
+    currency: string;
+    saleorTransactionFlow: string;
+    resolvedTransactionFlow: string;
+    createdAt: string;
+    dashboardUrl: string;
+  };
+  paymentMethod: {
+    type: string;
+    cardBrand: string | null;
+    cardLast4: string | null;
+    wallet: string | null;
+  } | null;
+  /**
+   * Outcome of 3D Secure authentication of the latest charge, null if it was not attempted
+   */
+  threeDSecure: {
+    result: string | null;
+    version: string | null;
+  } | null;
+  /**
+   * Stripe Radar evaluation of the latest charge. Score is available only with Radar for Fraud Teams
+   */
+  risk: {
+    level: string | null;
+    score: number | null;
+  } | null;
+  charges: Array<{
+    id: string;
+    status: Stripe.Charge.Status;
+    amount: number;
+    amountRefunded: number;
+    outcome: string | null;
+    createdAt: string;
+  }>;
+  refunds: Array<{
+    id: string;
+    status: string | null;
+    amount: number;
+    reason: string | null;
+    createdAt: string;
+    dashboardUrl: string;
+  }>;
+};
+
+const toIsoDate = (stripeTimestamp: number) => new Date(stripeTimestamp * 1000).toISOString();
+
+const resolveLatestCharge = (paymentIntent: Stripe.PaymentIntent, charges: Stripe.Charge[]) => {
+  if (paymentIntent.latest_charge && typeof paymentIntent.latest_charge === "object") {
+    return paymentIntent.latest_charge;
+  }
+
+  return charges.find((charge) => charge.id === paymentIntent.latest_charge) ?? null;
+};
+
+const resolvePaymentMethod = (
+  paymentIntent: Stripe.PaymentIntent,
+  latestCharge: Stripe.Charge | null,
+): StripeTransactionInspection["paymentMethod"] => {
+  if (paymentIntent.payment_method && typeof paymentIntent.payment_method === "object") {
+    const { type, card } = paymentIntent.payment_method;
+
+    return {
+      type,
+      cardBrand: card?.brand ?? null,
+      cardLast4: card?.last4 ?? null,
+      wallet: card?.wallet?.type ?? null,
+    };
+  }
+
+  const details = latestCharge?.payment_method_details;
+
+  if (!details) {
+    return null;
+  }
+
+  return {
+    type: details.type,
+    cardBrand: details.card?.brand ?? null,
+    cardLast4: details.card?.last4 ?? null,
+    wallet: details.card?.wallet?.type ?? null,
+  };
+};
+
+export const createStripeTransactionInspection = ({
+  recordedTransaction,
+  paymentIntent,
+  charges,
+  refunds,
+  stripeEnv,
+}: {
+  recordedTransaction: RecordedTransaction;
+  paymentIntent: Stripe.PaymentIntent;
+  charges: Stripe.Charge[];
+  refunds: Stripe.Refund[];
+  stripeEnv: StripeEnv;
+}): Result<StripeTransactionInspection, InstanceType<typeof SaleorMoney.ValidationError>> => {
+  const toSaleorAmount = (amount: number) =>
+    SaleorMoney.createFromStripe({ amount, currency: paymentIntent.currency }).map(
+      (money) => money.amount,
+    );
+
+  const amountResult = toSaleorAmount(paymentIntent.amount);
+  const amountReceivedResult = toSaleorAmount(paymentIntent.amount_received);
+
+  if (amountResult.isErr()) {
+    return err(amountResult.error);
+  }
+
+  if (amountReceivedResult.isErr()) {
+    return err(amountReceivedResult.error);
+  }
+
+  const inspectedCharges: StripeTransactionInspection["charges"] = [];
+
+  for (const charge of charges) {
+    const chargeAmountResult = toSaleorAmount(charge.amount);
+    const refundedAmountResult = toSaleorAmount(charge.amount_refunded);
+
+    if (chargeAmountResult.isErr()) {
+      return err(chargeAmountResult.error);
+    }
+
+    if (refundedAmountResult.isErr()) {
+      return err(refundedAmountResult.error);
+    }
+
+    inspectedCharges.push({
+      id: charge.id,
+      status: charge.status,
+      amount: chargeAmountResult.value,
+      amountRefunded: refundedAmountResult.value,
+      outcome: charge.outcome?.seller_message ?? null,
+      createdAt: toIsoDate(charge.created),
+    });
+  }
+
+  const inspectedRefunds: StripeTransactionInspection["refunds"] = [];
+
+  for (const refund of refunds) {
+    const refundAmountResult = toSaleorAmount(refund.amount);
+
+    if (refundAmountResult.isErr()) {
+      return err(refundAmountResult.error);
+    }
+
+    inspectedRefunds.push({
+      id: refund.id,
+      status: refund.status,
+      amount: refundAmountResult.value,
+      reason: refund.reason,
+      createdAt: toIsoDate(refund.created),
+      dashboardUrl: generateRefundStripeDashboardUrl(createStripeRefundId(refund.id), stripeEnv),
+    });
+  }
+
+  const latestCharge = resolveLatestCharge(paymentIntent, charges);
+  const threeDSecure = latestCharge?.payment_method_details?.card?.three_d_secure;
+
+  return ok({
+    saleorTransactionId: recordedTransaction.saleorTransactionId,
+    paymentIntent: {
+      id: paymentIntent.id,
+      status: paymentIntent.status,
+      amount: amountResult.value,
+      amountReceived: amountReceivedResult.value,
+      currency: paymentIntent.currency.toUpperCase(),
+      saleorTransactionFlow: recordedTransaction.saleorTransactionFlow,
+      resolvedTransactionFlow: recordedTransaction.resolvedTransactionFlow,
+      createdAt: toIsoDate(paymentIntent.created),
+      dashboardUrl: generatePaymentIntentStripeDashboardUrl(
+        createStripePaymentIntentId(paymentIntent.id),
+        stripeEnv,
+      ),
+    },
+    paymentMethod: resolvePaymentMethod(paymentIntent, latestCharge),
+    threeDSecure: threeDSecure
+      ? {
+          result: threeDSecure.result,
+          version: threeDSecure.version,
+        }
+      : null,
+    risk: latestCharge?.outcome
+      ? {
+          level: latestCharge.outcome.risk_level ?? null,
+          score: latestCharge.outcome.risk_score ?? null,
+        }
+      : null,
+    charges: inspectedCharges,
+    refunds: inspectedRefunds,
+  });
+};
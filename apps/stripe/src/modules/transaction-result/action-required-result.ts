@@ -57,3 +57,19 @@ export class AuthorizationActionRequiredResult {
     this.message = this.getMessageFromStripeStatus(stripeStatus);
   }
 }
+
+/**
+ * Checkout Session has no PaymentIntent until buyer submits payment on Stripe page, so there is nothing to cancel yet.
+ * Session expires on its own if buyer abandons it.
+ */
+export class ChargeCheckoutSessionActionRequiredResult {
+  readonly result = "CHARGE_ACTION_REQUIRED" as const;
+  readonly actions: Actions = [];
+  readonly message = "Checkout session requires buyer to complete payment";
+}
+
+export class AuthorizationCheckoutSessionActionRequiredResult {
+  readonly result = "AUTHORIZATION_ACTION_REQUIRED" as const;
+  readonly actions: Actions = [];
+  readonly message = "Checkout session requires buyer to complete payment";
+}
@@ -0,0 +1,25 @@
+import { type Actions } from "@/generated/app-webhooks-types/transaction-charge-requested";
+
+/**
+ * Reported with the remaining authorized amount after Stripe increased the authorization - Saleor replaces the
+ * authorized amount of the transaction with it.
+ */
+export class AuthorizationAdjustmentResult {
+  readonly result = "AUTHORIZATION_ADJUSTMENT" as const;
+  readonly actions: Actions = ["CHARGE", "CANCEL"];
+  readonly message = "Authorization increased to cover updated order total";
+}
+
+/**
+ * Card network can refuse the increment. Authorization stays as it was, so the event doesn't change Saleor amounts,
+ * it only tells the merchant that the remaining amount has to be collected in another way.
+ */
+export class AuthorizationAdjustmentRefusedInfoResult {
+  readonly result = "INFO" as const;
+  readonly actions = null;
+  readonly message: string;
+
+  constructor(args: { declineMessage: string }) {
+    this.message = `Card network refused to increase authorization, order total is not fully authorized - collect the remaining amount with another payment. Reason: ${args.declineMessage}`;
+  }
+}
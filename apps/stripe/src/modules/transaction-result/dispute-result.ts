@@ -0,0 +1,37 @@
+import { type Actions } from "@/generated/app-webhooks-types/transaction-charge-requested";
+import { type StripeDisputeStage } from "@/modules/stripe/stripe-dispute-id";
+import { type StripeDisputeStatus } from "@/modules/stripe/stripe-dispute-status";
+
+/**
+ * Dispute lifecycle changes that don't move money are reported as INFO events.
+ * Actions are not sent, so Saleor keeps actions that were available before the dispute.
+ */
+export class DisputeInfoResult {
+  readonly result = "INFO" as const;
+  readonly actions = null;
+  readonly message: string;
+  readonly stage: StripeDisputeStage;
+  readonly status: StripeDisputeStatus;
+
+  constructor(args: { stage: StripeDisputeStage; status: StripeDisputeStatus }) {
+    this.message = `Dispute ${args.stage}, status: ${args.status}`;
+    this.stage = args.stage;
+    this.status = args.status;
+  }
+}
+
+export class ChargeBackResult {
+  readonly result = "CHARGE_BACK" as const;
+  readonly actions = null;
+  readonly message = "Funds were withdrawn due to a dispute";
+}
+
+/**
+ * Saleor doesn't have a dedicated event for a reversed chargeback, so reinstated funds are reported as CHARGE_SUCCESS
+ * with the dispute as PSP reference.
+ */
+export class ChargeBackReversalResult {
+  readonly result = "CHARGE_SUCCESS" as const;
+  readonly actions: Actions = ["REFUND"];
+  readonly message = "Dispute was won, funds were reinstated";
+}
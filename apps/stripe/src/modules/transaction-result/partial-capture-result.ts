@@ -0,0 +1,19 @@
+/**
+ * Reported after a non-final capture of multicapture PaymentIntent. Captured part is already reported as
+ * CHARGE_SUCCESS, so the remaining authorization is only noted - it doesn't change Saleor amounts.
+ */
+export class PartialCaptureInfoResult {
+  readonly result = "INFO" as const;
+  readonly actions = null;
+  readonly message = "Payment partially captured, remaining amount is still authorized";
+}
+
+/**
+ * Reported after a final capture of lower amount than authorized. Stripe releases the rest of authorization, so it's
+ * reported as cancelled - otherwise Saleor would keep it as authorized and allow charging it.
+ */
+export class PartialCaptureReleasedInfoResult {
+  readonly result = "CANCEL_SUCCESS" as const;
+  readonly actions = null;
+  readonly message = "Payment partially captured, remaining authorized amount was released";
+}
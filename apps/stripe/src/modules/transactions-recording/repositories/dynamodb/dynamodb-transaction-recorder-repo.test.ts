@@ -1,5 +1,10 @@
-import { ConditionalCheckFailedException } from "@aws-sdk/client-dynamodb";
-import { DynamoDBDocumentClient, GetCommand, PutCommand } from "@aws-sdk/lib-dynamodb";
+import { TransactionCanceledException } from "@aws-sdk/client-dynamodb";
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  QueryCommand,
+  TransactWriteCommand,
+} from "@aws-sdk/lib-dynamodb";
 import { mockClient } from "aws-sdk-client-mock";
 import { beforeEach, describe, expect, it } from "vitest";
 
@@ -27,15 +32,14 @@ describe("DynamoDBTransactionRecorderRepo", () => {
       tableName: "stripe-test-table",
     });
 
-    const entity = DynamoDbRecordedTransaction.createEntity(table);
-
     repo = new DynamoDBTransactionRecorderRepo({
-      entity,
+      entity: DynamoDbRecordedTransaction.createEntity(table),
+      byDateEntity: DynamoDbRecordedTransaction.createByDateEntity(table),
     });
   });
   describe("recordTransaction", () => {
     it("Calls dynamoDB with correct parameters", async () => {
-      mockDocumentClient.on(PutCommand, {}).resolvesOnce({
+      mockDocumentClient.on(TransactWriteCommand, {}).resolvesOnce({
         $metadata: {
           httpStatusCode: 200,
         },
@@ -52,8 +56,32 @@ describe("DynamoDBTransactionRecorderRepo", () => {
       expect(result._unsafeUnwrap()).toBeNull();
     });
 
+    it("Writes transaction together with its copy keyed by creation date", async () => {
+      mockDocumentClient.on(TransactWriteCommand, {}).resolvesOnce({
+        $metadata: {
+          httpStatusCode: 200,
+        },
+      });
+
+      await repo.recordTransaction(
+        {
+          saleorApiUrl: mockedSaleorApiUrl,
+          appId: mockedSaleorAppId,
+        },
+        getMockedRecordedTransaction(),
+      );
+
+      const transactItems =
+        mockDocumentClient.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems ?? [];
+
+      expect(transactItems.map((transactItem) => transactItem.Put?.Item?.SK)).toStrictEqual([
+        "TRANSACTION#pi_TEST_TEST_TEST",
+        expect.stringMatching(/^TRANSACTION_BY_DATE#\d{4}-\d{2}-\d{2}T.+#pi_TEST_TEST_TEST$/),
+      ]);
+    });
+
     it("Returns FailedWritingTransactionError if call to DynamoDB ended with non-200 status", async () => {
-      mockDocumentClient.on(PutCommand, {}).resolvesOnce({
+      mockDocumentClient.on(TransactWriteCommand, {}).resolvesOnce({
         $metadata: {
           httpStatusCode: 500,
         },
@@ -73,10 +101,11 @@ describe("DynamoDBTransactionRecorderRepo", () => {
     });
 
     it("Returns success when transaction already exists (idempotency - handles race condition from users calling mutations)", async () => {
-      mockDocumentClient.on(PutCommand, {}).rejectsOnce(
-        new ConditionalCheckFailedException({
-          message: "The conditional request failed",
+      mockDocumentClient.on(TransactWriteCommand, {}).rejectsOnce(
+        new TransactionCanceledException({
+          message: "Transaction cancelled",
           $metadata: {},
+          CancellationReasons: [{ Code: "ConditionalCheckFailed" }, { Code: "None" }],
         }),
       );
 
@@ -202,4 +231,64 @@ describe("DynamoDBTransactionRecorderRepo", () => {
       );
     });
   });
+
+  describe("getTransactionsCreatedAfter", () => {
+    it("Queries copies of transactions by creation date range and returns RecordedTransaction value objects", async () => {
+      mockDocumentClient.on(QueryCommand).resolvesOnce({
+        Items: [
+          {
+            PK: "https://foo.bar.saleor.cloud/graphql/#saleor-app-id",
+            SK: "TRANSACTION_BY_DATE#2023-01-02T00:00:00.000Z#pi_TEST_TEST_TEST",
+            paymentIntentId: mockedStripePaymentIntentId,
+            saleorTransactionId: mockedSaleorTransactionId,
+            saleorTransactionFlow: "AUTHORIZATION",
+            resolvedTransactionFlow: "AUTHORIZATION",
+            selectedPaymentMethod: "card",
+            saleorSchemaVersion: { major: 3, minor: 22 },
+            createdAt: "2023-01-02T00:00:00.000Z",
+            _et: "RecordedTransactionByDate",
+          },
+        ],
+        $metadata: {
+          httpStatusCode: 200,
+        },
+      });
+
+      const result = await repo.getTransactionsCreatedAfter(
+        {
+          appId: mockedSaleorAppId,
+          saleorApiUrl: mockedSaleorApiUrl,
+        },
+        new Date("2023-01-01T00:00:00.000Z"),
+      );
+
+      const queryInput = mockDocumentClient.commandCalls(QueryCommand)[0].args[0].input;
+
+      expect(queryInput.ExpressionAttributeValues).toStrictEqual({
+        ":c0_1": "https://foo.bar.saleor.cloud/graphql/#saleor-app-id",
+        ":c0_2": "TRANSACTION_BY_DATE#2023-01-01T00:00:00.000Z",
+        ":c0_3": "TRANSACTION_BY_DATE#~",
+        ":c1_1": "RecordedTransactionByDate",
+      });
+      expect(result._unsafeUnwrap()).toHaveLength(1);
+      expect(result._unsafeUnwrap()[0]).toBeInstanceOf(RecordedTransaction);
+      expect(result._unsafeUnwrap()[0].resolvedTransactionFlow).toBe("AUTHORIZATION");
+    });
+
+    it("Returns FailedFetchingTransactionError if DynamoDB query fails", async () => {
+      mockDocumentClient.on(QueryCommand).rejectsOnce(new Error("Dynamo is down"));
+
+      const result = await repo.getTransactionsCreatedAfter(
+        {
+          appId: mockedSaleorAppId,
+          saleorApiUrl: mockedSaleorApiUrl,
+        },
+        new Date("2023-01-01T00:00:00.000Z"),
+      );
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(
+        TransactionRecorderError.FailedFetchingTransactionError,
+      );
+    });
+  });
 });
@@ -1,5 +1,11 @@
-import { ConditionalCheckFailedException } from "@aws-sdk/client-dynamodb";
-import { GetItemCommand, PutItemCommand } from "dynamodb-toolbox";
+import { TransactionCanceledException } from "@aws-sdk/client-dynamodb";
+import {
+  executeTransactWrite,
+  type FormattedItem,
+  GetItemCommand,
+  PutTransaction,
+} from "dynamodb-toolbox";
+import { QueryCommand } from "dynamodb-toolbox/table/actions/query";
 import { err, ok, type Result } from "neverthrow";
 
 import { BaseError } from "@/lib/errors";
@@ -15,6 +21,7 @@ import {
 import { RecordedTransaction } from "@/modules/transactions-recording/domain/recorded-transaction";
 import {
   DynamoDbRecordedTransaction,
+  type DynamoDbRecordedTransactionByDateEntity,
   type DynamoDbRecordedTransactionEntity,
 } from "@/modules/transactions-recording/repositories/dynamodb/recorded-transaction-db-model";
 import {
@@ -25,15 +32,33 @@ import {
 
 export class DynamoDBTransactionRecorderRepo implements TransactionRecorderRepo {
   private entity: DynamoDbRecordedTransactionEntity;
+  private byDateEntity: DynamoDbRecordedTransactionByDateEntity;
 
   private logger = createLogger("DynamoDBTransactionRecorderRepo");
 
   constructor(
     params = {
       entity: DynamoDbRecordedTransaction.entity,
+      byDateEntity: DynamoDbRecordedTransaction.byDateEntity,
     },
   ) {
     this.entity = params.entity;
+    this.byDateEntity = params.byDateEntity;
+  }
+
+  private mapItemToRecordedTransaction(
+    item:
+      | FormattedItem<DynamoDbRecordedTransactionEntity>
+      | FormattedItem<DynamoDbRecordedTransactionByDateEntity>,
+  ) {
+    return new RecordedTransaction({
+      resolvedTransactionFlow: createResolvedTransactionFlow(item.resolvedTransactionFlow),
+      saleorTransactionFlow: createSaleorTransactionFlow(item.saleorTransactionFlow),
+      saleorTransactionId: createSaleorTransactionId(item.saleorTransactionId),
+      stripePaymentIntentId: createStripePaymentIntentId(item.paymentIntentId),
+      selectedPaymentMethod: item.selectedPaymentMethod as PaymentMethod["type"],
+      saleorSchemaVersion: [item.saleorSchemaVersion.major, item.saleorSchemaVersion.minor],
+    });
   }
 
   async recordTransaction(
@@ -44,26 +69,31 @@ export class DynamoDBTransactionRecorderRepo implements TransactionRecorderRepo
       this.logger.debug("Trying to write Transaction to DynamoDB", { transaction });
 
       const [major, minor] = transaction.saleorSchemaVersion;
-
-      const operation = this.entity
-        .build(PutItemCommand)
+      const createdAt = new Date();
+      const PK = DynamoDbRecordedTransaction.accessPattern.getPK({
+        appId: accessPattern.appId,
+        saleorApiUrl: accessPattern.saleorApiUrl,
+      });
+      const attributes = {
+        paymentIntentId: transaction.stripePaymentIntentId,
+        selectedPaymentMethod: transaction.selectedPaymentMethod,
+        saleorTransactionId: transaction.saleorTransactionId,
+        saleorTransactionFlow: transaction.saleorTransactionFlow,
+        resolvedTransactionFlow: transaction.resolvedTransactionFlow,
+        saleorSchemaVersion: {
+          major,
+          minor,
+        },
+      };
+
+      const putTransaction = this.entity
+        .build(PutTransaction)
         .item({
-          PK: DynamoDbRecordedTransaction.accessPattern.getPK({
-            appId: accessPattern.appId,
-            saleorApiUrl: accessPattern.saleorApiUrl,
-          }),
+          PK,
           SK: DynamoDbRecordedTransaction.accessPattern.getSKforSpecificItem({
             paymentIntentId: transaction.stripePaymentIntentId,
           }),
-          paymentIntentId: transaction.stripePaymentIntentId,
-          selectedPaymentMethod: transaction.selectedPaymentMethod,
-          saleorTransactionId: transaction.saleorTransactionId,
-          saleorTransactionFlow: transaction.saleorTransactionFlow,
-          resolvedTransactionFlow: transaction.resolvedTransactionFlow,
-          saleorSchemaVersion: {
-            major,
-            minor,
-          },
+          ...attributes,
         })
         .options({
           condition: {
@@ -72,7 +102,18 @@ export class DynamoDBTransactionRecorderRepo implements TransactionRecorderRepo
           },
         });
 
-      const result = await operation.send();
+      const putTransactionByDate = this.byDateEntity.build(PutTransaction).item({
+        PK,
+        SK: DynamoDbRecordedTransaction.accessPattern.getSKforItemByDate({
+          createdAt,
+          paymentIntentId: transaction.stripePaymentIntentId,
+        }),
+        ...attributes,
+        createdAt: createdAt.toISOString(),
+      });
+
+      // Both items are written together, so a transaction is never missing from the date-keyed list
+      const result = await executeTransactWrite(putTransaction, putTransactionByDate);
 
       if (result.$metadata.httpStatusCode === 200) {
         this.logger.debug("Successfully wrote transaction to DynamoDB", {
@@ -90,7 +131,10 @@ export class DynamoDBTransactionRecorderRepo implements TransactionRecorderRepo
        * Handle race condition: if another request already wrote this transaction,
        * treat it as success, Stripe respects idempotency-key and won't charge many times
        */
-      if (e instanceof ConditionalCheckFailedException) {
+      if (
+        e instanceof TransactionCanceledException &&
+        e.CancellationReasons?.some((reason) => reason.Code === "ConditionalCheckFailed")
+      ) {
         this.logger.info("Transaction already recorded, skipping write (idempotent)", {
           paymentIntentId: transaction.stripePaymentIntentId,
         });
@@ -140,27 +184,7 @@ export class DynamoDBTransactionRecorderRepo implements TransactionRecorderRepo
       }
 
       if (result.Item) {
-        const {
-          selectedPaymentMethod,
-          saleorTransactionId,
-          saleorTransactionFlow,
-          paymentIntentId,
-          resolvedTransactionFlow,
-        } = result.Item;
-
-        return ok(
-          new RecordedTransaction({
-            resolvedTransactionFlow: createResolvedTransactionFlow(resolvedTransactionFlow),
-            saleorTransactionFlow: createSaleorTransactionFlow(saleorTransactionFlow),
-            saleorTransactionId: createSaleorTransactionId(saleorTransactionId),
-            stripePaymentIntentId: createStripePaymentIntentId(paymentIntentId),
-            selectedPaymentMethod: selectedPaymentMethod as PaymentMethod["type"],
-            saleorSchemaVersion: [
-              result.Item.saleorSchemaVersion.major,
-              result.Item.saleorSchemaVersion.minor,
-            ],
-          }),
-        );
+        return ok(this.mapItemToRecordedTransaction(result.Item));
       } else {
         return err(
           new TransactionRecorderError.TransactionMissingError(
@@ -184,4 +208,40 @@ export class DynamoDBTransactionRecorderRepo implements TransactionRecorderRepo
       );
     }
   }
+
+  async getTransactionsCreatedAfter(
+    accessPattern: TransactionRecorderRepoAccess,
+    createdAfter: Date,
+  ): Promise<Result<RecordedTransaction[], TransactionRecorderError>> {
+    try {
+      const result = await this.byDateEntity.table
+        .build(QueryCommand)
+        .entities(this.byDateEntity)
+        .query({
+          partition: DynamoDbRecordedTransaction.accessPattern.getPK(accessPattern),
+          range: {
+            between: [
+              ...DynamoDbRecordedTransaction.accessPattern.getSKRangeForItemsByDateCreatedAfter(
+                createdAfter,
+              ),
+            ],
+          },
+        })
+        .options({
+          maxPages: Infinity,
+        })
+        .send();
+
+      return ok((result.Items ?? []).map((item) => this.mapItemToRecordedTransaction(item)));
+    } catch (e) {
+      return err(
+        new TransactionRecorderError.FailedFetchingTransactionError(
+          "Failed to fetch transactions from DynamoDB",
+          {
+            cause: e,
+          },
+        ),
+      );
+    }
+  }
 }
@@ -13,6 +13,28 @@ class AccessPattern {
   static getSKforSpecificItem({ paymentIntentId }: { paymentIntentId: StripePaymentIntentId }) {
     return `TRANSACTION#${paymentIntentId}` as const;
   }
+
+  static getSKforAllItems() {
+    return "TRANSACTION#" as const;
+  }
+
+  /**
+   * Date prefix keeps copies sorted chronologically, so transactions created in a period are read with a range query
+   */
+  static getSKforItemByDate({
+    createdAt,
+    paymentIntentId,
+  }: {
+    createdAt: Date;
+    paymentIntentId: StripePaymentIntentId;
+  }) {
+    return `TRANSACTION_BY_DATE#${createdAt.toISOString()}#${paymentIntentId}` as const;
+  }
+
+  static getSKRangeForItemsByDateCreatedAfter(createdAfter: Date) {
+    // "~" sorts after any ISO date, so the range is open-ended
+    return [`TRANSACTION_BY_DATE#${createdAfter.toISOString()}`, "TRANSACTION_BY_DATE#~"] as const;
+  }
 }
 
 const Schema = item({
@@ -48,16 +70,40 @@ const createEntity = (table: DynamoMainTable) => {
   });
 };
 
+/**
+ * Copy of the recorded transaction keyed by creation date, written in the same transaction as the main item.
+ * Used to list recently created transactions without reading the whole partition.
+ */
+const ByDateSchema = Schema.and({
+  createdAt: string(),
+});
+
+const createByDateEntity = (table: DynamoMainTable) => {
+  return new Entity({
+    table,
+    name: "RecordedTransactionByDate",
+    schema: ByDateSchema,
+    timestamps: false,
+  });
+};
+
 const entity = createEntity(dynamoMainTable);
+const byDateEntity = createByDateEntity(dynamoMainTable);
 
 export type DynamoDbRecordedTransactionEntity = typeof entity;
+export type DynamoDbRecordedTransactionByDateEntity = typeof byDateEntity;
 
 export const DynamoDbRecordedTransaction = {
   accessPattern: {
     getPK: AccessPattern.getPK,
     getSKforSpecificItem: AccessPattern.getSKforSpecificItem,
+    getSKforAllItems: AccessPattern.getSKforAllItems,
+    getSKforItemByDate: AccessPattern.getSKforItemByDate,
+    getSKRangeForItemsByDateCreatedAfter: AccessPattern.getSKRangeForItemsByDateCreatedAfter,
   },
   entitySchema: Schema,
   createEntity,
+  createByDateEntity,
   entity: entity,
+  byDateEntity: byDateEntity,
 };
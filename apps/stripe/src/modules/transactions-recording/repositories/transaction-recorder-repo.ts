@@ -63,4 +63,13 @@ export interface TransactionRecorderRepo {
     accessPattern: TransactionRecorderRepoAccess,
     id: StripePaymentIntentId,
   ): Promise<Result<RecordedTransaction, TransactionRecorderError>>;
+
+  /**
+   * Returns transactions recorded since given date. Used by reconciliation, which only scans recent transactions,
+   * so the whole partition is queried and filtered by creation date.
+   */
+  getTransactionsCreatedAfter(
+    accessPattern: TransactionRecorderRepoAccess,
+    createdAfter: Date,
+  ): Promise<Result<RecordedTransaction[], TransactionRecorderError>>;
 }
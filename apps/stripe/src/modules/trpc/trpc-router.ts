@@ -16,11 +16,17 @@ if (typeof window !== "undefined") {
 
 /* eslint-disable import/first */
 import { appConfigRouter } from "@/modules/app-config/trpc-handlers/app-config-router";
+import { auditLogRouter } from "@/modules/audit-log/trpc-handlers/audit-log-router";
+import { deadLetterEventsRouter } from "@/modules/dead-letter-events/trpc-handlers/dead-letter-events-router";
+import { reconciliationRouter } from "@/modules/reconciliation/trpc-handlers/reconciliation-router";
 
 import { router } from "./trpc-server";
 
 export const trpcRouter = router({
   appConfig: appConfigRouter,
+  reconciliation: reconciliationRouter,
+  deadLetterEvents: deadLetterEventsRouter,
+  auditLog: auditLogRouter,
 });
 
 export type TrpcRouter = typeof trpcRouter;
@@ -0,0 +1,54 @@
+import { Box, Input, Select } from "@saleor/macaw-ui";
+
+import {
+  type connectDestinationSources,
+  type ConnectSettingsFields as ConnectSettingsFieldsValue,
+} from "@/modules/app-config/domain/connect-settings";
+
+const destinationSourceOptions: Array<{
+  value: (typeof connectDestinationSources)[number];
+  label: string;
+}> = [
+  { value: "CHANNEL_METADATA", label: "Channel metadata" },
+  { value: "PRODUCT_METADATA", label: "Product metadata" },
+];
+
+type Props = {
+  value: ConnectSettingsFieldsValue;
+  onChange(value: ConnectSettingsFieldsValue): void;
+  disabled?: boolean;
+};
+
+export const ConnectSettingsFields = ({ value, onChange, disabled = false }: Props) => {
+  return (
+    <Box display="flex" flexDirection="column" gap={4}>
+      <Select
+        label="Connected account source"
+        disabled={disabled}
+        value={value.destinationSource}
+        onChange={(destinationSource) =>
+          onChange({
+            ...value,
+            destinationSource: destinationSource as ConnectSettingsFieldsValue["destinationSource"],
+          })
+        }
+        options={destinationSourceOptions}
+      />
+      <Input
+        label="Metadata key"
+        disabled={disabled}
+        value={value.destinationMetadataKey}
+        onChange={(e) => onChange({ ...value, destinationMetadataKey: e.target.value })}
+        helperText="Public metadata key holding connected account ID (acct_...)"
+      />
+      <Input
+        label="Application fee (%)"
+        type="number"
+        disabled={disabled}
+        value={value.applicationFeePercent}
+        onChange={(e) => onChange({ ...value, applicationFeePercent: Number(e.target.value) || 0 })}
+        helperText="Part of each payment kept by the platform. Use 0 to transfer the full amount."
+      />
+    </Box>
+  );
+};
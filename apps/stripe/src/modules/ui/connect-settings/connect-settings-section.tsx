@@ -0,0 +1,103 @@
+import { useDashboardNotification } from "@saleor/apps-shared/use-dashboard-notification";
+import { Layout } from "@saleor/apps-ui";
+import { Box, Button, Checkbox, Select, Skeleton, Text } from "@saleor/macaw-ui";
+import { useEffect, useState } from "react";
+
+import { type ConnectSettingsFields as ConnectSettingsFieldsValue } from "@/modules/app-config/domain/connect-settings";
+import { trpcClient } from "@/modules/trpc/trpc-client";
+import { ConnectSettingsFields } from "@/modules/ui/connect-settings/connect-settings-fields";
+
+const defaultConnectSettings: ConnectSettingsFieldsValue = {
+  destinationSource: "CHANNEL_METADATA",
+  destinationMetadataKey: "stripe_connected_account_id",
+  applicationFeePercent: 0,
+};
+
+export const ConnectSettingsSection = () => {
+  const { notifyError, notifySuccess } = useDashboardNotification();
+  const configsList = trpcClient.appConfig.getStripeConfigsList.useQuery();
+
+  const [selectedConfigId, setSelectedConfigId] = useState<string | null>(null);
+  const [enabled, setEnabled] = useState(false);
+  const [settings, setSettings] = useState<ConnectSettingsFieldsValue>(defaultConnectSettings);
+
+  const selectedConfig =
+    configsList.data?.find((config) => config.id === selectedConfigId) ?? configsList.data?.[0];
+
+  useEffect(() => {
+    setEnabled(!!selectedConfig?.connectSettings);
+    setSettings(selectedConfig?.connectSettings ?? defaultConnectSettings);
+  }, [selectedConfig]);
+
+  const { mutate, isLoading } = trpcClient.appConfig.updateConnectSettings.useMutation({
+    onSuccess() {
+      notifySuccess("Stripe Connect settings saved");
+
+      return configsList.refetch();
+    },
+    onError(err) {
+      notifyError("Error saving Stripe Connect settings", err.message);
+    },
+  });
+
+  if (configsList.isLoading) {
+    return (
+      <Layout.AppSectionCard>
+        <Skeleton />
+      </Layout.AppSectionCard>
+    );
+  }
+
+  if (!selectedConfig) {
+    return (
+      <Layout.AppSectionCard>
+        <Text size={3} color="default2">
+          Create your first Stripe configuration to set up Stripe Connect.
+        </Text>
+      </Layout.AppSectionCard>
+    );
+  }
+
+  return (
+    <Layout.AppSectionCard
+      footer={
+        <Box display="flex" justifyContent="flex-end">
+          <Button
+            disabled={isLoading}
+            onClick={() =>
+              mutate({
+                configId: selectedConfig.id,
+                connectSettings: enabled ? settings : null,
+              })
+            }
+          >
+            {isLoading ? "Saving..." : "Save"}
+          </Button>
+        </Box>
+      }
+    >
+      <Box display="flex" flexDirection="column" gap={6}>
+        <Select
+          label="Stripe configuration"
+          value={selectedConfig.id}
+          onChange={(configId) => setSelectedConfigId(configId)}
+          options={(configsList.data ?? []).map((config) => ({
+            value: config.id,
+            label: config.name,
+          }))}
+        />
+        <Checkbox
+          name="connectEnabled"
+          checked={enabled}
+          disabled={isLoading}
+          onCheckedChange={(checked) => setEnabled(checked === true)}
+        >
+          <Text>Create payments as destination charges</Text>
+        </Checkbox>
+        {enabled && (
+          <ConnectSettingsFields value={settings} onChange={setSettings} disabled={isLoading} />
+        )}
+      </Box>
+    </Layout.AppSectionCard>
+  );
+};
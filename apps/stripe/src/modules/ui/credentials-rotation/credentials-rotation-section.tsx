@@ -0,0 +1,105 @@
+import { useDashboardNotification } from "@saleor/apps-shared/use-dashboard-notification";
+import { Layout } from "@saleor/apps-ui";
+import { Box, Button, Input, Select, Skeleton, Text } from "@saleor/macaw-ui";
+import { useState } from "react";
+
+import { trpcClient } from "@/modules/trpc/trpc-client";
+
+export const CredentialsRotationSection = () => {
+  const { notifyError, notifySuccess } = useDashboardNotification();
+  const configsList = trpcClient.appConfig.getStripeConfigsList.useQuery();
+  const auditLog = trpcClient.auditLog.listAuditLogEntries.useQuery();
+
+  const [selectedConfigId, setSelectedConfigId] = useState<string | null>(null);
+  const [restrictedKey, setRestrictedKey] = useState("");
+
+  const selectedConfig =
+    configsList.data?.find((config) => config.id === selectedConfigId) ?? configsList.data?.[0];
+
+  const { mutate, isLoading } = trpcClient.appConfig.rotateStripeConfigCredentials.useMutation({
+    onSuccess() {
+      notifySuccess("Credentials rotated", "You can now revoke the previous key in Stripe");
+      setRestrictedKey("");
+
+      return Promise.all([configsList.refetch(), auditLog.refetch()]);
+    },
+    onError(err) {
+      notifyError("Error rotating credentials", err.message);
+    },
+  });
+
+  if (configsList.isLoading) {
+    return (
+      <Layout.AppSectionCard>
+        <Skeleton />
+      </Layout.AppSectionCard>
+    );
+  }
+
+  if (!selectedConfig) {
+    return (
+      <Layout.AppSectionCard>
+        <Text size={3} color="default2">
+          Create your first Stripe configuration to rotate its credentials.
+        </Text>
+      </Layout.AppSectionCard>
+    );
+  }
+
+  const configNames = new Map((configsList.data ?? []).map((config) => [config.id, config.name]));
+
+  return (
+    <Layout.AppSectionCard
+      footer={
+        <Box display="flex" justifyContent="flex-end">
+          <Button
+            disabled={isLoading || restrictedKey.length === 0}
+            onClick={() =>
+              mutate({
+                configId: selectedConfig.id,
+                restrictedKey,
+              })
+            }
+          >
+            {isLoading ? "Rotating..." : "Rotate"}
+          </Button>
+        </Box>
+      }
+    >
+      <Box display="flex" flexDirection="column" gap={6}>
+        <Select
+          label="Stripe configuration"
+          value={selectedConfig.id}
+          onChange={(configId) => setSelectedConfigId(configId)}
+          options={(configsList.data ?? []).map((config) => ({
+            value: config.id,
+            label: config.name,
+          }))}
+        />
+        <Input
+          label="New restricted key"
+          type="password"
+          disabled={isLoading}
+          value={restrictedKey}
+          onChange={(e) => setRestrictedKey(e.target.value)}
+          helperText={`Current key: ${selectedConfig.restrictedKey}`}
+        />
+        <Box display="flex" flexDirection="column" gap={2}>
+          <Text fontWeight="bold">Rotation history</Text>
+          {auditLog.data?.length === 0 && (
+            <Text size={3} color="default2">
+              Credentials were never rotated.
+            </Text>
+          )}
+          {auditLog.data?.map((entry) => (
+            <Text key={entry.id} size={3} color="default2">
+              {new Date(entry.createdAt).toLocaleString()} -{" "}
+              {configNames.get(entry.configurationId) ?? entry.configurationId} rotated by{" "}
+              {entry.actorEmail}
+            </Text>
+          ))}
+        </Box>
+      </Box>
+    </Layout.AppSectionCard>
+  );
+};
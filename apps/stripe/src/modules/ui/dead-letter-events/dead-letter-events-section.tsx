@@ -0,0 +1,104 @@
+import { useDashboardNotification } from "@saleor/apps-shared/use-dashboard-notification";
+import { Layout } from "@saleor/apps-ui";
+import { Box, Button, Skeleton, Text } from "@saleor/macaw-ui";
+
+import { trpcClient } from "@/modules/trpc/trpc-client";
+
+export const DeadLetterEventsSection = () => {
+  const { notifyError, notifySuccess } = useDashboardNotification();
+
+  const deadLetterEvents = trpcClient.deadLetterEvents.listDeadLetterEvents.useQuery();
+
+  const replay = trpcClient.deadLetterEvents.replayDeadLetterEvents.useMutation({
+    onSuccess(report) {
+      const failedCount = report.replayedEvents.filter((event) => event.status === "failed").length;
+
+      if (failedCount > 0) {
+        notifyError(
+          "Some events failed again",
+          `${failedCount} of ${report.replayedEvents.length} events could not be replayed`,
+        );
+
+        return;
+      }
+
+      notifySuccess("Events replayed", `Replayed ${report.replayedEvents.length} events`);
+    },
+    onError(error) {
+      notifyError("Error replaying events", error.message);
+    },
+    onSettled() {
+      return deadLetterEvents.refetch();
+    },
+  });
+
+  if (deadLetterEvents.isLoading) {
+    return (
+      <Layout.AppSectionCard>
+        <Skeleton />
+      </Layout.AppSectionCard>
+    );
+  }
+
+  if (deadLetterEvents.error) {
+    return (
+      <Layout.AppSectionCard>
+        <Text color="critical1">{deadLetterEvents.error.message}</Text>
+      </Layout.AppSectionCard>
+    );
+  }
+
+  const events = deadLetterEvents.data ?? [];
+
+  return (
+    <Layout.AppSectionCard
+      footer={
+        <Box display="flex" justifyContent="flex-end">
+          <Button
+            disabled={replay.isLoading || events.length === 0}
+            onClick={() => replay.mutate({})}
+          >
+            {replay.isLoading ? "Replaying..." : "Replay all"}
+          </Button>
+        </Box>
+      }
+    >
+      {events.length === 0 && (
+        <Text size={3} color="default2">
+          No failed events. All Stripe events were reported to Saleor.
+        </Text>
+      )}
+      <Box display="flex" flexDirection="column" gap={4}>
+        {events.map((event) => (
+          <Box
+            key={event.stripeEventId}
+            display="flex"
+            justifyContent="space-between"
+            alignItems="center"
+            gap={4}
+          >
+            <Box display="flex" flexDirection="column" gap={1}>
+              <Text>
+                {event.stripeEventType} ({event.stripeEventId})
+              </Text>
+              <Text size={3} color="default2">
+                Failed {event.attemptCount} times, last at{" "}
+                {new Date(event.lastFailedAt).toLocaleString()}
+              </Text>
+              <Text size={3} color="critical1">
+                {event.errorMessage}
+              </Text>
+            </Box>
+            <Button
+              variant="secondary"
+              disabled={replay.isLoading}
+              onClick={() => replay.mutate({ stripeEventId: event.stripeEventId })}
+            >
+              Replay
+            </Button>
+          </Box>
+        ))}
+      </Box>
+    </Layout.AppSectionCard>
+  );
+};
@@ -0,0 +1,66 @@
+import { Box, Checkbox, Input, Text } from "@saleor/macaw-ui";
+import { useState } from "react";
+
+import { type FraudRulesSettingsFields as FraudRulesSettingsFieldsValue } from "@/modules/app-config/domain/fraud-rules-settings";
+
+const parseEmailDomains = (text: string) =>
+  text
+    .split(",")
+    .map((domain) => domain.trim())
+    .filter((domain) => domain.length > 0);
+
+type Props = {
+  value: FraudRulesSettingsFieldsValue;
+  onChange(value: FraudRulesSettingsFieldsValue): void;
+  disabled?: boolean;
+};
+
+export const FraudRulesSettingsFields = ({ value, onChange, disabled = false }: Props) => {
+  // Raw text is kept locally, so separators typed by user are not removed while parsing
+  const [emailDomainsText, setEmailDomainsText] = useState(value.blockedEmailDomains.join(", "));
+
+  return (
+    <Box display="flex" flexDirection="column" gap={4}>
+      <Input
+        label="Blocked email domains"
+        disabled={disabled}
+        value={emailDomainsText}
+        onChange={(e) => {
+          setEmailDomainsText(e.target.value);
+          onChange({ ...value, blockedEmailDomains: parseEmailDomains(e.target.value) });
+        }}
+        helperText="Comma separated list, e.g. mailinator.com, temp-mail.org. Subdomains are not blocked."
+      />
+      <Box display="flex" flexDirection="column" gap={1}>
+        <Checkbox
+          name="blockCountryMismatch"
+          checked={value.blockCountryMismatch}
+          disabled={disabled}
+          onCheckedChange={(checked) =>
+            onChange({ ...value, blockCountryMismatch: checked === true })
+          }
+        >
+          <Text>Block billing and shipping country mismatch</Text>
+        </Checkbox>
+        <Text size={2} color="default2">
+          Skipped if checkout or order has no billing or shipping address.
+        </Text>
+      </Box>
+      <Input
+        label="First-time buyer amount limit"
+        type="number"
+        min={0}
+        disabled={disabled}
+        value={value.firstTimeBuyerAmountLimit ?? ""}
+        onChange={(e) =>
+          onChange({
+            ...value,
+            // Empty input disables the rule
+            firstTimeBuyerAmountLimit: e.target.value ? Number(e.target.value) : null,
+          })
+        }
+        helperText="Highest amount, in transaction currency, that guest or user paying for the first time with this configuration can pay."
+      />
+    </Box>
+  );
+};
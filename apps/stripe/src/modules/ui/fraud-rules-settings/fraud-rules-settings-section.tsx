@@ -0,0 +1,90 @@
+import { useDashboardNotification } from "@saleor/apps-shared/use-dashboard-notification";
+import { Layout } from "@saleor/apps-ui";
+import { Box, Button, Select, Skeleton, Text } from "@saleor/macaw-ui";
+import { useEffect, useState } from "react";
+
+import { type FraudRulesSettingsFields as FraudRulesSettingsFieldsValue } from "@/modules/app-config/domain/fraud-rules-settings";
+import { trpcClient } from "@/modules/trpc/trpc-client";
+import { FraudRulesSettingsFields } from "@/modules/ui/fraud-rules-settings/fraud-rules-settings-fields";
+
+export const FraudRulesSettingsSection = () => {
+  const { notifyError, notifySuccess } = useDashboardNotification();
+  const configsList = trpcClient.appConfig.getStripeConfigsList.useQuery();
+
+  const [selectedConfigId, setSelectedConfigId] = useState<string | null>(null);
+  const [settings, setSettings] = useState<FraudRulesSettingsFieldsValue | null>(null);
+
+  const selectedConfig =
+    configsList.data?.find((config) => config.id === selectedConfigId) ?? configsList.data?.[0];
+
+  useEffect(() => {
+    setSettings(selectedConfig?.fraudRulesSettings ?? null);
+  }, [selectedConfig]);
+
+  const { mutate, isLoading } = trpcClient.appConfig.updateFraudRulesSettings.useMutation({
+    onSuccess() {
+      notifySuccess("Fraud rules saved");
+
+      return configsList.refetch();
+    },
+    onError(err) {
+      notifyError("Error saving fraud rules", err.message);
+    },
+  });
+
+  if (configsList.isLoading) {
+    return (
+      <Layout.AppSectionCard>
+        <Skeleton />
+      </Layout.AppSectionCard>
+    );
+  }
+
+  if (!selectedConfig || !settings) {
+    return (
+      <Layout.AppSectionCard>
+        <Text size={3} color="default2">
+          Create your first Stripe configuration to set up fraud screening.
+        </Text>
+      </Layout.AppSectionCard>
+    );
+  }
+
+  return (
+    <Layout.AppSectionCard
+      footer={
+        <Box display="flex" justifyContent="flex-end">
+          <Button
+            disabled={isLoading}
+            onClick={() =>
+              mutate({
+                configId: selectedConfig.id,
+                fraudRulesSettings: settings,
+              })
+            }
+          >
+            {isLoading ? "Saving..." : "Save"}
+          </Button>
+        </Box>
+      }
+    >
+      <Box display="flex" flexDirection="column" gap={6}>
+        <Select
+          label="Stripe configuration"
+          value={selectedConfig.id}
+          onChange={(configId) => setSelectedConfigId(configId)}
+          options={(configsList.data ?? []).map((config) => ({
+            value: config.id,
+            label: config.name,
+          }))}
+        />
+        <FraudRulesSettingsFields
+          key={selectedConfig.id}
+          value={settings}
+          onChange={setSettings}
+          disabled={isLoading}
+        />
+      </Box>
+    </Layout.AppSectionCard>
+  );
+};
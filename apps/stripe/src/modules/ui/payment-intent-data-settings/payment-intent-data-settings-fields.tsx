@@ -0,0 +1,70 @@
+import { Box, Checkbox, Input, Text } from "@saleor/macaw-ui";
+
+import {
+  type PaymentIntentDataSettingsFields as PaymentIntentDataSettingsFieldsValue,
+  statementDescriptorSuffixTemplateVariables,
+} from "@/modules/app-config/domain/payment-intent-data-settings";
+
+type BooleanSetting = "sendShippingAddress" | "sendReceiptEmail" | "sendCardLineItems";
+
+const booleanSettings: Array<{ name: BooleanSetting; label: string; description: string }> = [
+  {
+    name: "sendShippingAddress",
+    label: "Send shipping address",
+    description: "Stripe Radar uses it to evaluate fraud risk.",
+  },
+  {
+    name: "sendReceiptEmail",
+    label: "Send receipt email",
+    description: "Stripe emails receipt to the buyer after successful payment.",
+  },
+  {
+    name: "sendCardLineItems",
+    label: "Send card line items (Level 2/3 data)",
+    description:
+      "Lowers interchange fees of business cards. Level 2/3 must be enabled on your Stripe account.",
+  },
+];
+
+type Props = {
+  value: PaymentIntentDataSettingsFieldsValue;
+  onChange(value: PaymentIntentDataSettingsFieldsValue): void;
+  disabled?: boolean;
+};
+
+export const PaymentIntentDataSettingsFields = ({ value, onChange, disabled = false }: Props) => {
+  return (
+    <Box display="flex" flexDirection="column" gap={4}>
+      {booleanSettings.map((setting) => (
+        <Box key={setting.name} display="flex" flexDirection="column" gap={1}>
+          <Checkbox
+            name={setting.name}
+            checked={value[setting.name]}
+            disabled={disabled}
+            onCheckedChange={(checked) => onChange({ ...value, [setting.name]: checked === true })}
+          >
+            <Text>{setting.label}</Text>
+          </Checkbox>
+          <Text size={2} color="default2">
+            {setting.description}
+          </Text>
+        </Box>
+      ))}
+      <Input
+        label="Statement descriptor suffix"
+        disabled={disabled}
+        value={value.statementDescriptorSuffixTemplate ?? ""}
+        onChange={(e) =>
+          onChange({
+            ...value,
+            // Empty input disables the suffix
+            statementDescriptorSuffixTemplate: e.target.value || null,
+          })
+        }
+        helperText={`Shown on buyer's card statement, up to 22 characters. Available variables: ${statementDescriptorSuffixTemplateVariables.join(
+          ", ",
+        )}`}
+      />
+    </Box>
+  );
+};
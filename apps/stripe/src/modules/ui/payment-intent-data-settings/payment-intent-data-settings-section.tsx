@@ -0,0 +1,89 @@
+import { useDashboardNotification } from "@saleor/apps-shared/use-dashboard-notification";
+import { Layout } from "@saleor/apps-ui";
+import { Box, Button, Select, Skeleton, Text } from "@saleor/macaw-ui";
+import { useEffect, useState } from "react";
+
+import { type PaymentIntentDataSettingsFields as PaymentIntentDataSettingsFieldsValue } from "@/modules/app-config/domain/payment-intent-data-settings";
+import { trpcClient } from "@/modules/trpc/trpc-client";
+import { PaymentIntentDataSettingsFields } from "@/modules/ui/payment-intent-data-settings/payment-intent-data-settings-fields";
+
+export const PaymentIntentDataSettingsSection = () => {
+  const { notifyError, notifySuccess } = useDashboardNotification();
+  const configsList = trpcClient.appConfig.getStripeConfigsList.useQuery();
+
+  const [selectedConfigId, setSelectedConfigId] = useState<string | null>(null);
+  const [settings, setSettings] = useState<PaymentIntentDataSettingsFieldsValue | null>(null);
+
+  const selectedConfig =
+    configsList.data?.find((config) => config.id === selectedConfigId) ?? configsList.data?.[0];
+
+  useEffect(() => {
+    setSettings(selectedConfig?.paymentIntentDataSettings ?? null);
+  }, [selectedConfig]);
+
+  const { mutate, isLoading } = trpcClient.appConfig.updatePaymentIntentDataSettings.useMutation({
+    onSuccess() {
+      notifySuccess("Payment data settings saved");
+
+      return configsList.refetch();
+    },
+    onError(err) {
+      notifyError("Error saving payment data settings", err.message);
+    },
+  });
+
+  if (configsList.isLoading) {
+    return (
+      <Layout.AppSectionCard>
+        <Skeleton />
+      </Layout.AppSectionCard>
+    );
+  }
+
+  if (!selectedConfig || !settings) {
+    return (
+      <Layout.AppSectionCard>
+        <Text size={3} color="default2">
+          Create your first Stripe configuration to set up payment data.
+        </Text>
+      </Layout.AppSectionCard>
+    );
+  }
+
+  return (
+    <Layout.AppSectionCard
+      footer={
+        <Box display="flex" justifyContent="flex-end">
+          <Button
+            disabled={isLoading}
+            onClick={() =>
+              mutate({
+                configId: selectedConfig.id,
+                paymentIntentDataSettings: settings,
+              })
+            }
+          >
+            {isLoading ? "Saving..." : "Save"}
+          </Button>
+        </Box>
+      }
+    >
+      <Box display="flex" flexDirection="column" gap={6}>
+        <Select
+          label="Stripe configuration"
+          value={selectedConfig.id}
+          onChange={(configId) => setSelectedConfigId(configId)}
+          options={(configsList.data ?? []).map((config) => ({
+            value: config.id,
+            label: config.name,
+          }))}
+        />
+        <PaymentIntentDataSettingsFields
+          value={settings}
+          onChange={setSettings}
+          disabled={isLoading}
+        />
+      </Box>
+    </Layout.AppSectionCard>
+  );
+};
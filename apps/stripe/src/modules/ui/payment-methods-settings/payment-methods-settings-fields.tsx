@@ -0,0 +1,110 @@
+import { Box, Checkbox, Select, Text } from "@saleor/macaw-ui";
+
+import { type PaymentMethodsSettingsFields as PaymentMethodsSettingsFieldsValue } from "@/modules/app-config/domain/payment-methods-settings";
+import {
+  type SupportedPaymentMethodType,
+  supportedPaymentMethodTypes,
+} from "@/modules/stripe/payment-methods/supported-payment-method-type";
+
+const paymentMethodLabels: Record<SupportedPaymentMethodType, string> = {
+  card: "Card",
+  klarna: "Klarna",
+  google_pay: "Google Pay",
+  apple_pay: "Apple Pay",
+  paypal: "PayPal",
+  us_bank_account: "ACH Direct Debit",
+  sepa_debit: "SEPA Direct Debit",
+  link: "Link",
+  ideal: "iDEAL",
+  bancontact: "Bancontact",
+  blik: "BLIK",
+  p24: "Przelewy24",
+  afterpay_clearpay: "Afterpay / Clearpay",
+  affirm: "Affirm",
+  alipay: "Alipay",
+  wechat_pay: "WeChat Pay",
+};
+
+const channelFlowValue = "";
+
+const flowOptions = [
+  { value: channelFlowValue, label: "Use channel setting" },
+  { value: "AUTHORIZATION", label: "Always authorize" },
+  { value: "CHARGE", label: "Always charge" },
+];
+
+type Props = {
+  value: PaymentMethodsSettingsFieldsValue;
+  onChange(value: PaymentMethodsSettingsFieldsValue): void;
+  disabled?: boolean;
+};
+
+export const PaymentMethodsSettingsFields = ({ value, onChange, disabled = false }: Props) => {
+  const allowedPaymentMethods = value.allowedPaymentMethods ?? supportedPaymentMethodTypes;
+
+  const togglePaymentMethod = (paymentMethod: SupportedPaymentMethodType, checked: boolean) => {
+    const newAllowedPaymentMethods = supportedPaymentMethodTypes.filter((type) =>
+      type === paymentMethod ? checked : allowedPaymentMethods.includes(type),
+    );
+
+    const { [paymentMethod]: _removedOverride, ...otherOverrides } = value.transactionFlowOverrides;
+
+    onChange({
+      // When everything is selected we store no restriction, so methods added to the app later are allowed too
+      allowedPaymentMethods:
+        newAllowedPaymentMethods.length === supportedPaymentMethodTypes.length
+          ? null
+          : newAllowedPaymentMethods,
+      transactionFlowOverrides: checked ? value.transactionFlowOverrides : otherOverrides,
+    });
+  };
+
+  const changeTransactionFlow = (paymentMethod: SupportedPaymentMethodType, flow: string) => {
+    const { [paymentMethod]: _previousOverride, ...otherOverrides } =
+      value.transactionFlowOverrides;
+
+    onChange({
+      allowedPaymentMethods: value.allowedPaymentMethods,
+      transactionFlowOverrides:
+        flow === "AUTHORIZATION" || flow === "CHARGE"
+          ? { ...otherOverrides, [paymentMethod]: flow }
+          : otherOverrides,
+    });
+  };
+
+  return (
+    <Box display="flex" flexDirection="column" gap={2}>
+      {supportedPaymentMethodTypes.map((paymentMethod) => {
+        const isAllowed = allowedPaymentMethods.includes(paymentMethod);
+        const isLastAllowed = isAllowed && allowedPaymentMethods.length === 1;
+
+        return (
+          <Box
+            key={paymentMethod}
+            display="flex"
+            justifyContent="space-between"
+            alignItems="center"
+            gap={4}
+          >
+            <Checkbox
+              name={paymentMethod}
+              checked={isAllowed}
+              disabled={disabled || isLastAllowed}
+              onCheckedChange={(checked) => togglePaymentMethod(paymentMethod, checked === true)}
+            >
+              <Text>{paymentMethodLabels[paymentMethod]}</Text>
+            </Checkbox>
+            <Box __minWidth="200px">
+              <Select
+                disabled={disabled || !isAllowed}
+                value={value.transactionFlowOverrides[paymentMethod] ?? channelFlowValue}
+                onChange={(flow) => changeTransactionFlow(paymentMethod, flow)}
+                options={flowOptions}
+              />
+            </Box>
+          </Box>
+        );
+      })}
+    </Box>
+  );
+};
@@ -0,0 +1,71 @@
+import { useDashboardNotification } from "@saleor/apps-shared/use-dashboard-notification";
+import { Layout } from "@saleor/apps-ui";
+import { Box, Button, Text } from "@saleor/macaw-ui";
+
+import { trpcClient } from "@/modules/trpc/trpc-client";
+
+export const ReconciliationSection = () => {
+  const { notifyError, notifySuccess } = useDashboardNotification();
+
+  const reconciliation = trpcClient.reconciliation.runReconciliation.useMutation({
+    onSuccess(report) {
+      notifySuccess(
+        report.dryRun ? "Reconciliation report ready" : "Reconciliation finished",
+        `Found ${report.missingEvents.length} missing events in ${report.checkedTransactionsCount} transactions`,
+      );
+    },
+    onError(error) {
+      notifyError("Error running reconciliation", error.message);
+    },
+  });
+
+  const report = reconciliation.data;
+
+  return (
+    <Layout.AppSectionCard
+      footer={
+        <Box display="flex" justifyContent="flex-end" gap={3}>
+          <Button
+            variant="secondary"
+            disabled={reconciliation.isLoading}
+            onClick={() => reconciliation.mutate({ dryRun: true, lookbackHours: 24 })}
+          >
+            Preview missing events
+          </Button>
+          <Button
+            disabled={reconciliation.isLoading}
+            onClick={() => reconciliation.mutate({ dryRun: false, lookbackHours: 24 })}
+          >
+            {reconciliation.isLoading ? "Running..." : "Report missing events"}
+          </Button>
+        </Box>
+      }
+    >
+      {!report && (
+        <Text size={3} color="default2">
+          Checks transactions from the last 24 hours.
+        </Text>
+      )}
+      {report && (
+        <Box display="flex" flexDirection="column" gap={2}>
+          <Text>
+            Checked {report.checkedTransactionsCount} transactions, found{" "}
+            {report.missingEvents.length} missing events
+            {report.dryRun ? " (preview, nothing was reported)" : ""}.
+          </Text>
+          {report.missingEvents.map((event) => (
+            <Text key={`${event.pspReference}-${event.type}`} size={3}>
+              {event.type} {event.amount} {event.currency} ({event.pspReference})
+              {report.dryRun ? "" : event.reported ? " - reported" : " - failed to report"}
+            </Text>
+          ))}
+          {report.failedTransactions.map((transaction) => (
+            <Text key={transaction.stripePaymentIntentId} size={3} color="critical1">
+              {transaction.stripePaymentIntentId}: {transaction.reason}
+            </Text>
+          ))}
+        </Box>
+      )}
+    </Layout.AppSectionCard>
+  );
+};
@@ -4,15 +4,18 @@ import { Layout } from "@saleor/apps-ui";
 import { Box, Button, Text } from "@saleor/macaw-ui";
 import { Input } from "@saleor/react-hook-form-macaw";
 import { useRouter } from "next/router";
-import { useForm } from "react-hook-form";
+import { Controller, useForm } from "react-hook-form";
 
+import { type PaymentMethodsSettingsFields as PaymentMethodsSettingsFieldsValue } from "@/modules/app-config/domain/payment-methods-settings";
 import { newStripeConfigInputSchema } from "@/modules/app-config/trpc-handlers/new-stripe-config-input-schema";
 import { trpcClient } from "@/modules/trpc/trpc-client";
+import { PaymentMethodsSettingsFields } from "@/modules/ui/payment-methods-settings/payment-methods-settings-fields";
 
 type FormShape = {
   restrictedKey: string;
   name: string;
   publishableKey: string;
+  paymentMethodsSettings: PaymentMethodsSettingsFieldsValue;
 };
 
 const RequiredInputLabel = (props: { labelText: string }) => {
@@ -52,6 +55,10 @@ export const NewStripeConfigForm = () => {
       restrictedKey: "",
       name: "",
       publishableKey: "",
+      paymentMethodsSettings: {
+        allowedPaymentMethods: null,
+        transactionFlowOverrides: {},
+      },
     },
     resolver: zodResolver(newStripeConfigInputSchema),
   });
@@ -61,6 +68,7 @@ export const NewStripeConfigForm = () => {
       name: values.name,
       publishableKey: values.publishableKey,
       restrictedKey: values.restrictedKey,
+      paymentMethodsSettings: values.paymentMethodsSettings,
     });
   };
 
@@ -112,6 +120,22 @@ export const NewStripeConfigForm = () => {
             }
             error={!!errors.restrictedKey}
           />
+          <Box display="flex" flexDirection="column" gap={2}>
+            <Text size={2} color="default2">
+              Payment methods
+            </Text>
+            <Text size={2} color="default2">
+              Storefront can use only selected payment methods. Transaction flow can be set per
+              payment method, otherwise flow configured in the channel is used.
+            </Text>
+            <Controller
+              name="paymentMethodsSettings"
+              control={control}
+              render={({ field: { value, onChange } }) => (
+                <PaymentMethodsSettingsFields value={value} onChange={onChange} />
+              )}
+            />
+          </Box>
         </Box>
       </Box>
     </Layout.AppSectionCard>
@@ -1,4 +1,5 @@
 import "@saleor/macaw-ui/style";
+
 import { AppBridge, AppBridgeProvider } from "@saleor/app-sdk/app-bridge";
 import { RoutePropagator } from "@saleor/app-sdk/app-bridge/next";
 import { GraphQLProvider } from "@saleor/apps-shared/graphql-provider";
@@ -18,6 +19,11 @@ import { trpcClient } from "@/modules/trpc/trpc-client";
 export const appBridgeInstance = typeof window !== "undefined" ? new AppBridge() : undefined;
 
 function NextApp({ Component, pageProps }: AppProps) {
+  // Dashboard extensions are rendered on the server, outside of App Bridge
+  if (pageProps.skipApp) {
+    return <Component {...pageProps} />;
+  }
+
   return (
     <NoSSRWrapper>
       <ThemeProvider>
@@ -4,6 +4,13 @@ import { type NextPage } from "next";
 
 import { AppHeader } from "@/modules/ui/app-header";
 import { ChannelConfigMappingSection } from "@/modules/ui/channel-configs/channel-config-mapping-section";
+import { ConnectSettingsSection } from "@/modules/ui/connect-settings/connect-settings-section";
+import { CredentialsRotationSection } from "@/modules/ui/credentials-rotation/credentials-rotation-section";
+import { DeadLetterEventsSection } from "@/modules/ui/dead-letter-events/dead-letter-events-section";
+import { FraudRulesSettingsSection } from "@/modules/ui/fraud-rules-settings/fraud-rules-settings-section";
+import { PaymentIntentDataSettingsSection } from "@/modules/ui/payment-intent-data-settings/payment-intent-data-settings-section";
+import { PaymentMethodsSettingsSection } from "@/modules/ui/payment-methods-settings/payment-methods-settings-section";
+import { ReconciliationSection } from "@/modules/ui/reconciliation/reconciliation-section";
 import { ChannelConfigSection } from "@/modules/ui/stripe-configs/channel-config-section";
 import { useHasAppAccess } from "@/modules/ui/use-has-app-access";
 
@@ -36,6 +43,7 @@ const ConfigPage: NextPage = () => {
         <ChannelConfigSection />
       </Layout.AppSection>
       <Layout.AppSection
+        marginBottom={14}
         heading="Channels configurations"
         sideContent={
           <Box display="flex" flexDirection="column" gap={4}>
@@ -46,6 +54,125 @@ const ConfigPage: NextPage = () => {
       >
         <ChannelConfigMappingSection />
       </Layout.AppSection>
+      <Layout.AppSection
+        marginBottom={14}
+        heading="Credentials rotation"
+        sideContent={
+          <Box display="flex" flexDirection="column" gap={4}>
+            <Text>
+              Replace restricted key of a configuration, e.g. when it leaked. Channels mapping and
+              settings are kept.
+            </Text>
+            <Text>
+              Stripe webhook is recreated with a new secret. Events signed with the previous secret
+              are accepted for one more hour.
+            </Text>
+          </Box>
+        }
+      >
+        <CredentialsRotationSection />
+      </Layout.AppSection>
+      <Layout.AppSection
+        marginBottom={14}
+        heading="Payment methods"
+        sideContent={
+          <Box display="flex" flexDirection="column" gap={4}>
+            <Text>
+              Choose payment methods allowed for each Stripe configuration. Storefront receives the
+              list in paymentGatewayInitialize response.
+            </Text>
+            <Text>
+              Transaction flow can be overridden per payment method, e.g. always charge Klarna even
+              if the channel authorizes payments.
+            </Text>
+          </Box>
+        }
+      >
+        <PaymentMethodsSettingsSection />
+      </Layout.AppSection>
+      <Layout.AppSection
+        marginBottom={14}
+        heading="Payment data"
+        sideContent={
+          <Box display="flex" flexDirection="column" gap={4}>
+            <Text>
+              Choose which checkout and order data is sent to Stripe with each payment. All options
+              are disabled by default.
+            </Text>
+            <Text>
+              Statement descriptor suffix is added to the prefix set in Stripe Dashboard, e.g. to
+              show order number on buyer&apos;s card statement.
+            </Text>
+          </Box>
+        }
+      >
+        <PaymentIntentDataSettingsSection />
+      </Layout.AppSection>
+      <Layout.AppSection
+        marginBottom={14}
+        heading="Fraud screening"
+        sideContent={
+          <Box display="flex" flexDirection="column" gap={4}>
+            <Text>
+              Rules are checked before payment is created in Stripe. Blocked payment fails and the
+              rule that blocked it is shown in transaction events in Saleor Dashboard.
+            </Text>
+            <Text>Rules work in addition to Stripe Radar. All rules are disabled by default.</Text>
+          </Box>
+        }
+      >
+        <FraudRulesSettingsSection />
+      </Layout.AppSection>
+      <Layout.AppSection
+        marginBottom={14}
+        heading="Stripe Connect"
+        sideContent={
+          <Box display="flex" flexDirection="column" gap={4}>
+            <Text>
+              Marketplace mode: payments are created as destination charges and transferred to the
+              connected account read from channel or product metadata.
+            </Text>
+            <Text>
+              Refunds reverse the transfer and the application fee. All products in a checkout must
+              belong to the same connected account.
+            </Text>
+          </Box>
+        }
+      >
+        <ConnectSettingsSection />
+      </Layout.AppSection>
+      <Layout.AppSection
+        marginBottom={14}
+        heading="Transactions reconciliation"
+        sideContent={
+          <Box display="flex" flexDirection="column" gap={4}>
+            <Text>
+              Compares recent transactions with Stripe and finds events that never reached Saleor,
+              e.g. when a webhook was lost.
+            </Text>
+            <Text>Preview the missing events first, then report them to Saleor.</Text>
+          </Box>
+        }
+      >
+        <ReconciliationSection />
+      </Layout.AppSection>
+      <Layout.AppSection
+        heading="Failed Stripe events"
+        sideContent={
+          <Box display="flex" flexDirection="column" gap={4}>
+            <Text>
+              Stripe events that app could not process or report to Saleor, e.g. when Saleor was
+              unavailable. Stripe retries them for a limited time only.
+            </Text>
+            <Text>
+              Replay events once the issue is resolved. Events already reported to Saleor are
+              skipped.
+            </Text>
+          </Box>
+        }
+      >
+        <DeadLetterEventsSection />
+      </Layout.AppSection>
     </Box>
   );
 };
@@ -0,0 +1,132 @@
+// This is rendered as SSR hence we import styles again as `_app.tsx` has no ssr wrapper
+import "@saleor/macaw-ui/style";
+
+import { Box, Text, ThemeProvider } from "@saleor/macaw-ui";
+import { type GetServerSideProps } from "next";
+
+import { type OrderDetailsInspection } from "@/app/api/order-details/use-case";
+import { type StripeTransactionInspection } from "@/modules/transaction-inspection/stripe-transaction-inspection";
+
+type Props = {
+  skipApp: true;
+  inspection: OrderDetailsInspection | null;
+};
+
+export const getServerSideProps: GetServerSideProps<Props> = async ({ query }) => {
+  const rawInspection = typeof query.inspection === "string" ? query.inspection : null;
+
+  let inspection: OrderDetailsInspection | null = null;
+
+  try {
+    inspection = rawInspection ? (JSON.parse(rawInspection) as OrderDetailsInspection) : null;
+  } catch {
+    inspection = null;
+  }
+
+  return {
+    props: {
+      skipApp: true,
+      inspection,
+    },
+  };
+};
+
+// Page is publicly reachable, so only links to Stripe dashboard are rendered
+const StripeDashboardLink = ({ url, label }: { url: string; label: string }) =>
+  url.startsWith("https://dashboard.stripe.com/") ? (
+    <a href={url} target="_blank" rel="noopener noreferrer">
+      <Text color="accent1">{label}</Text>
+    </a>
+  ) : (
+    <Text>{label}</Text>
+  );
+
+const Field = ({ label, value }: { label: string; value: string | number | null }) => (
+  <Box display="flex" justifyContent="space-between" gap={2}>
+    <Text fontWeight="bold">{label}:</Text>
+    <Text>{value === null || value === "" ? "n/a" : value}</Text>
+  </Box>
+);
+
+const TransactionInspection = ({ transaction }: { transaction: StripeTransactionInspection }) => {
+  const { paymentIntent, paymentMethod, threeDSecure, risk } = transaction;
+
+  return (
+    <Box display="flex" flexDirection="column" gap={1} marginBottom={6}>
+      <StripeDashboardLink url={paymentIntent.dashboardUrl} label={paymentIntent.id} />
+      <Field label="Status" value={paymentIntent.status} />
+      <Field label="Amount" value={`${paymentIntent.amount} ${paymentIntent.currency}`} />
+      <Field label="Received" value={`${paymentIntent.amountReceived} ${paymentIntent.currency}`} />
+      <Field
+        label="Flow"
+        value={`${paymentIntent.saleorTransactionFlow} (resolved: ${paymentIntent.resolvedTransactionFlow})`}
+      />
+      <Field
+        label="Payment method"
+        value={
+          paymentMethod
+            ? [
+                paymentMethod.wallet,
+                paymentMethod.cardBrand ?? paymentMethod.type,
+                paymentMethod.cardLast4,
+              ]
+                .filter(Boolean)
+                .join(" ")
+            : null
+        }
+      />
+      <Field
+        label="3D Secure"
+        value={
+          threeDSecure ? `${threeDSecure.result ?? "n/a"} (${threeDSecure.version ?? "n/a"})` : null
+        }
+      />
+      <Field
+        label="Risk"
+        value={
+          risk ? `${risk.level ?? "n/a"}${risk.score === null ? "" : ` (${risk.score})`}` : null
+        }
+      />
+      {transaction.charges.map((charge) => (
+        <Field
+          key={charge.id}
+          label={`Charge ${charge.id}`}
+          value={`${charge.status}, ${charge.amount} (refunded ${charge.amountRefunded})${
+            charge.outcome ? ` - ${charge.outcome}` : ""
+          }`}
+        />
+      ))}
+      {transaction.refunds.map((refund) => (
+        <Box key={refund.id} display="flex" justifyContent="space-between" gap={2}>
+          <StripeDashboardLink url={refund.dashboardUrl} label={`Refund ${refund.id}`} />
+          <Text>
+            {refund.status ?? "n/a"}, {refund.amount}
+            {refund.reason ? ` - ${refund.reason}` : ""}
+          </Text>
+        </Box>
+      ))}
+    </Box>
+  );
+};
+
+const OrderDetailsPage = ({ inspection }: Props) => {
+  return (
+    <ThemeProvider>
+      <Box paddingTop={4}>
+        {!inspection?.transactions.length && !inspection?.failedTransactions.length && (
+          <Text>Order has no transactions processed by Stripe app.</Text>
+        )}
+        {inspection?.transactions.map((transaction) => (
+          <TransactionInspection key={transaction.paymentIntent.id} transaction={transaction} />
+        ))}
+        {inspection?.failedTransactions.map((transaction) => (
+          <Text key={transaction.saleorTransactionId} color="critical1">
+            {transaction.pspReference}: {transaction.reason}
+          </Text>
+        ))}
+      </Box>
+    </ThemeProvider>
+  );
+};
+
+export default OrderDetailsPage;